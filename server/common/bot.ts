@@ -1,6 +1,20 @@
 // Shared Bot/Guardian logic between client and server
 import { SHARED_CONFIG } from './constants';
 
+/**
+ * Every bot id starts with this, so anything keyed by player id can tell a
+ * bot apart without a lookup
+ */
+export const BOT_ID_PREFIX = 'bot-';
+
+/**
+ * Whether an id belongs to a bot. Interactions with bots never count towards
+ * bonds, leaderboards or other player credit.
+ */
+export function isBotId(id: string | null | undefined): boolean {
+    return typeof id === 'string' && id.startsWith(BOT_ID_PREFIX);
+}
+
 /**
  * Bot thoughts - messages bots say occasionally
  */
@@ -80,7 +94,7 @@ export interface BotState {
  */
 export function createBot(x: number, y: number, realm: string = 'genesis'): BotState {
     return {
-        id: 'bot-' + Math.random().toString(36).substr(2, 9),
+        id: BOT_ID_PREFIX + Math.random().toString(36).substr(2, 9),
         x,
         y,
         vx: 0,
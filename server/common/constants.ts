@@ -1,15 +1,5 @@
 // Shared constants between client and server
 
-export const REALMS = {
-    genesis: { name: 'Genesis', icon: '🌌', unlock: 1 },
-    nebula: { name: 'Nebula Gardens', icon: '🌸', unlock: 1 },
-    void: { name: 'The Void', icon: '🌑', unlock: 1 },
-    starforge: { name: 'Starforge', icon: '🔥', unlock: 5 },
-    sanctuary: { name: 'Sanctuary', icon: '🏛️', unlock: 10 }
-} as const;
-
-export type RealmId = keyof typeof REALMS;
-
 export const FORMS = ['Spark', 'Ember', 'Flame', 'Prism', 'Nova', 'Celestial', 'Eternal', 'Infinite'] as const;
 export type Form = typeof FORMS[number];
 
@@ -34,6 +24,7 @@ export const SHARED_CONFIG = {
     MAX_PLAYER_NAME: 30,
     
     // Gameplay
+    PLAYER_MAX_SPEED: 1200,     // World units/s at speed multiplier 1; the client caps its movement to it and the server validates against it
     SPAWN_RADIUS: 800,
     CAMPFIRE_RADIUS: 1200,
     VIEW_BASE: 520,
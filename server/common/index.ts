@@ -1,4 +1,5 @@
 // Common module exports
 export * from './constants';
+export * from './realms';
 export * from './types';
 export * from './bot';
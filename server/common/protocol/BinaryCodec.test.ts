@@ -0,0 +1,115 @@
+// =============================================================================
+// BinaryCodec Tests - round trips, quantization and JSON fallback
+// =============================================================================
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { encodeBinaryMessage, decodeBinaryMessage } from './BinaryCodec.js';
+import { Simulation } from '../../websocket/testing/index.js';
+
+const roundTrip = (type: string, data: any, now = 1234) => {
+    const frame = encodeBinaryMessage({ type, data });
+    expect(frame).not.toBeNull();
+    return { frame: frame!, decoded: decodeBinaryMessage(frame!, now) };
+};
+
+describe('BinaryCodec', () => {
+    it('round-trips player_update with quantized coordinates and hue', () => {
+        const { frame, decoded } = roundTrip('player_update', {
+            id: 'ignored', x: 4012.6, y: -37.2, dx: 1.234, dy: -0.5, hue: 200, realm: 'nebula', speaking: true
+        });
+
+        expect(decoded).toEqual({
+            type: 'player_update',
+            data: { x: 4013, y: -37, dx: 1.23, dy: -0.5, hue: 200, realm: 'nebula', speaking: true },
+            timestamp: 1234
+        });
+        expect(frame.byteLength).toBeLessThan(20);
+
+        expect(roundTrip('player_update', { x: 1, y: 2, realm: 'void', realmChange: true }).decoded.data)
+            .toEqual({ x: 1, y: 2, realm: 'void', realmChange: true });
+        expect(roundTrip('player_update', { x: 1, y: 2, seq: 70000 }).decoded.data).toEqual({ x: 1, y: 2, seq: 70000 });
+        expect(roundTrip('player_update', { x: 0, y: 0, hue: 97 }).decoded.data.hue).toBeCloseTo(97, -0.5);
+    });
+
+    it('round-trips world_delta entity records', () => {
+        const data = {
+            tick: 812,
+            baseTick: 810,
+            keyframe: false,
+            serverTime: 1767225600123,
+            collections: {
+                players: {
+                    upsert: [{ id: 'p1', name: 'Wanderer ✨', x: 4000, y: 3990, hue: 72, xp: 250, level: 4, isBot: false, message: null, speaking: false, pulsing: true }],
+                    remove: ['p2']
+                },
+                bots: { upsert: [{ id: 'bot-1', x: -12, y: 80, singing: 0.5, emoting: '🌟', realm: 'genesis', mood: 'calm' }] },
+                powerUps: { upsert: [{ id: 'pu1', type: 'speed', x: 5, y: 6, expiresAt: 1767225660000, config: { duration: 5000 } }] }
+            },
+            litStars: { add: ['genesis:1', 'genesis:2'], remove: ['genesis:0'] }
+        };
+
+        const { frame, decoded } = roundTrip('world_delta', data);
+        expect(decoded).toEqual({ type: 'world_delta', data, timestamp: data.serverTime });
+        expect(frame.byteLength).toBeLessThan(JSON.stringify({ type: 'world_delta', data }).length / 2);
+
+        const keyframe = { tick: 0, baseTick: null, keyframe: true, serverTime: 5, collections: { fragments: { upsert: [] } } };
+        expect(roundTrip('world_delta', keyframe).decoded.data).toEqual(keyframe);
+    });
+
+    it('round-trips fragment spawn and removal', () => {
+        const spawned = { id: 'frag_genesis_99_3', x: 1234, y: 5678, isGolden: true, value: 5, phase: 2.5 };
+        expect(roundTrip('fragment_spawned', spawned).decoded).toEqual({ type: 'fragment_spawned', data: spawned, timestamp: 1234 });
+
+        const { decoded } = roundTrip('fragment_spawned', { ...spawned, phase: 1.2345678 });
+        expect(decoded.data.phase).toBeCloseTo(1.2345678, 5);
+
+        expect(roundTrip('fragment_removed', { fragmentId: 'frag_genesis_7' }).decoded.data)
+            .toEqual({ fragmentId: 'frag_genesis_7' });
+    });
+
+    it('leaves other messages and unusual player updates to JSON', () => {
+        expect(encodeBinaryMessage({ type: 'chat_message', data: { message: 'hi' } })).toBeNull();
+        expect(encodeBinaryMessage({ type: 'player_update', data: { x: 1, y: 2, name: 'Nova' } })).toBeNull();
+        expect(encodeBinaryMessage({ type: 'player_update', data: { realm: 'void' } })).toBeNull();
+    });
+
+    it('rejects malformed frames', () => {
+        expect(() => decodeBinaryMessage(new Uint8Array([99]))).toThrow();
+        expect(() => decodeBinaryMessage(new Uint8Array([2, 0x80]))).toThrow();
+    });
+});
+
+describe('binary codec negotiation', () => {
+    let sim: Simulation;
+
+    afterEach(async () => {
+        await sim.shutdown();
+    });
+
+    it('sends hot messages as binary frames only to clients that asked', async () => {
+        sim = new Simulation();
+        const binary = sim.connect('codec_binary', 'genesis', { codec: 'binary' });
+        const json = sim.connect('codec_json');
+        await sim.settle();
+
+        expect(binary.last('initial_state').codec).toBe('binary');
+        expect(json.last('initial_state').codec).toBe('json');
+
+        sim.tick(110);
+        expect(binary.socket.binaryFrames).toBeGreaterThan(100);
+        expect(json.socket.binaryFrames).toBe(0);
+        // Same entities; only float precision differs (phase is sent as float32)
+        const strip = ({ phase, ...rest }: any) => rest;
+        expect(binary.received('fragment_spawned').map(strip)).toEqual(json.received('fragment_spawned').map(strip));
+        expect(binary.view('fragments').map(strip)).toEqual(json.view('fragments').map(strip));
+        expect(binary.view('fragments')[0].phase).toBeCloseTo(json.view('fragments')[0].phase as number, 5);
+
+        // Binary player updates are decoded and validated like JSON ones
+        binary.sendBinary('player_update', { x: 4050, y: 4000 });
+        expect(sim.handler.players.get('codec_binary')).toMatchObject({ x: 4050, y: 4000 });
+
+        // A rejected input's sequence number comes back with the correction
+        binary.sendBinary('player_update', { x: 4050, y: 20000, seq: 42 });
+        expect(binary.last('position_correction')).toMatchObject({ reason: 'speed', seq: 42 });
+    });
+});
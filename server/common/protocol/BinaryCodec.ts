@@ -0,0 +1,422 @@
+// =============================================================================
+// BinaryCodec - Compact encoding for the highest-frequency messages
+// =============================================================================
+// Clients opt in with `?codec=binary` on the WebSocket URL; the server
+// confirms with `codec: 'binary'` in initial_state. Only a few message types
+// are encoded - everything else stays JSON text frames:
+//
+//   player_update     client -> server, every movement tick
+//   world_delta       server -> client, every game tick
+//   fragment_spawned  server -> client
+//   fragment_removed  server -> client
+//
+// Frames are [type byte][payload]. Integers are LEB128 varints (zigzag for
+// signed values). Coordinates are quantized to whole world units and hue to
+// one byte (~1.4 degrees). The envelope timestamp is not sent: world_delta
+// uses its serverTime, other messages the time they were decoded.
+//
+// The client imports this module directly (it has no zod, so not through
+// the protocol index), so both ends always share one encoding.
+// =============================================================================
+
+export type WireCodec = 'json' | 'binary';
+
+export interface WireMessage {
+    type: string;
+    data: any;
+    timestamp: number;
+}
+
+const FRAME_PLAYER_UPDATE = 1;
+const FRAME_WORLD_DELTA = 2;
+const FRAME_FRAGMENT_SPAWNED = 3;
+const FRAME_FRAGMENT_REMOVED = 4;
+
+export const BINARY_MESSAGE_TYPES: ReadonlySet<string> = new Set([
+    'player_update',
+    'world_delta',
+    'fragment_spawned',
+    'fragment_removed'
+]);
+
+// Index = wire id. Append only: reordering breaks older clients.
+const COLLECTIONS = ['players', 'bots', 'echoes', 'fragments', 'powerUps', 'beacons'];
+const FIELD_KEYS = [
+    'name', 'x', 'y', 'hue', 'xp', 'level', 'isBot', 'message', 'speaking', 'pulsing',
+    'singing', 'emoting', 'realm', 'playerId', 'playerName', 'createdAt', 'expiresAt',
+    'resonanceCount', 'isGolden', 'value', 'phase', 'type', 'config', 'lit', 'charge',
+    'litBy', 'litAt', 'permanentlyLit', 'isProtected'
+];
+const INLINE_KEY = 0xFF;
+
+// Value tags for entity fields
+const TAG_NULL = 0;
+const TAG_FALSE = 1;
+const TAG_TRUE = 2;
+const TAG_INT = 3;
+const TAG_FLOAT = 4;
+const TAG_STRING = 5;
+const TAG_JSON = 6;
+const TAG_HUE = 7;
+
+const COORDINATE_KEYS = new Set(['x', 'y']);
+
+// player_update flag bits
+const UPDATE_HAS_VELOCITY = 1;
+const UPDATE_HAS_HUE = 2;
+const UPDATE_HAS_REALM = 4;
+const UPDATE_REALM_CHANGE = 8;
+const UPDATE_HAS_SPEAKING = 16;
+const UPDATE_SPEAKING = 32;
+const UPDATE_HAS_SEQ = 64;
+const PLAYER_UPDATE_KEYS = new Set(['x', 'y', 'dx', 'dy', 'hue', 'realm', 'realmChange', 'speaking', 'seq', 'id']);
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+class Writer {
+    private bytes = new Uint8Array(256);
+    private length = 0;
+    private view = new DataView(this.bytes.buffer);
+
+    private ensure(extra: number): void {
+        if (this.length + extra <= this.bytes.length) return;
+        let size = this.bytes.length * 2;
+        while (size < this.length + extra) size *= 2;
+        const grown = new Uint8Array(size);
+        grown.set(this.bytes.subarray(0, this.length));
+        this.bytes = grown;
+        this.view = new DataView(grown.buffer);
+    }
+
+    u8(value: number): void {
+        this.ensure(1);
+        this.bytes[this.length++] = value;
+    }
+
+    /** Unsigned varint, exact up to 2^53 */
+    uvarint(value: number): void {
+        let v = Math.max(0, Math.floor(value));
+        while (v >= 0x80) {
+            this.u8((v % 0x80) | 0x80);
+            v = Math.floor(v / 0x80);
+        }
+        this.u8(v);
+    }
+
+    /** Signed varint (zigzag) */
+    varint(value: number): void {
+        const v = Math.round(value);
+        this.uvarint(v >= 0 ? v * 2 : -v * 2 - 1);
+    }
+
+    f32(value: number): void {
+        this.ensure(4);
+        this.view.setFloat32(this.length, value, true);
+        this.length += 4;
+    }
+
+    string(value: string): void {
+        const encoded = textEncoder.encode(value);
+        this.uvarint(encoded.length);
+        this.ensure(encoded.length);
+        this.bytes.set(encoded, this.length);
+        this.length += encoded.length;
+    }
+
+    finish(): Uint8Array {
+        return this.bytes.slice(0, this.length);
+    }
+}
+
+class Reader {
+    private offset = 0;
+    private view: DataView;
+
+    constructor(private bytes: Uint8Array) {
+        this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    }
+
+    u8(): number {
+        if (this.offset >= this.bytes.length) throw new Error('Binary frame truncated');
+        return this.bytes[this.offset++];
+    }
+
+    uvarint(): number {
+        let result = 0;
+        let scale = 1;
+        for (;;) {
+            const byte = this.u8();
+            result += (byte & 0x7F) * scale;
+            if (byte < 0x80) return result;
+            scale *= 0x80;
+        }
+    }
+
+    varint(): number {
+        const v = this.uvarint();
+        return v % 2 === 0 ? v / 2 : -(v + 1) / 2;
+    }
+
+    f32(): number {
+        if (this.offset + 4 > this.bytes.length) throw new Error('Binary frame truncated');
+        const value = this.view.getFloat32(this.offset, true);
+        this.offset += 4;
+        return value;
+    }
+
+    string(): string {
+        const length = this.uvarint();
+        if (this.offset + length > this.bytes.length) throw new Error('Binary frame truncated');
+        const value = textDecoder.decode(this.bytes.subarray(this.offset, this.offset + length));
+        this.offset += length;
+        return value;
+    }
+}
+
+const quantizeHue = (hue: number): number => Math.max(0, Math.min(255, Math.round(hue / 360 * 255)));
+const dequantizeHue = (q: number): number => Math.round(q * 360 / 255);
+
+// =============================================================================
+// Entity records
+// =============================================================================
+
+function writeValue(w: Writer, key: string, value: unknown): void {
+    if (value === null || value === undefined) {
+        w.u8(TAG_NULL);
+    } else if (typeof value === 'boolean') {
+        w.u8(value ? TAG_TRUE : TAG_FALSE);
+    } else if (typeof value === 'number') {
+        if (key === 'hue') {
+            w.u8(TAG_HUE);
+            w.u8(quantizeHue(value));
+        } else if (Number.isInteger(value) || COORDINATE_KEYS.has(key)) {
+            w.u8(TAG_INT);
+            w.varint(value);
+        } else {
+            w.u8(TAG_FLOAT);
+            w.f32(value);
+        }
+    } else if (typeof value === 'string') {
+        w.u8(TAG_STRING);
+        w.string(value);
+    } else {
+        w.u8(TAG_JSON);
+        w.string(JSON.stringify(value));
+    }
+}
+
+function readValue(r: Reader): unknown {
+    const tag = r.u8();
+    switch (tag) {
+        case TAG_NULL: return null;
+        case TAG_FALSE: return false;
+        case TAG_TRUE: return true;
+        case TAG_INT: return r.varint();
+        case TAG_FLOAT: return r.f32();
+        case TAG_STRING: return r.string();
+        case TAG_JSON: return JSON.parse(r.string());
+        case TAG_HUE: return dequantizeHue(r.u8());
+        default: throw new Error(`Unknown value tag ${tag}`);
+    }
+}
+
+function writeEntity(w: Writer, entity: Record<string, unknown>): void {
+    w.string(String(entity.id));
+    const keys = Object.keys(entity).filter(key => key !== 'id' && entity[key] !== undefined);
+    w.uvarint(keys.length);
+    for (const key of keys) {
+        const index = FIELD_KEYS.indexOf(key);
+        if (index >= 0) {
+            w.u8(index);
+        } else {
+            w.u8(INLINE_KEY);
+            w.string(key);
+        }
+        writeValue(w, key, entity[key]);
+    }
+}
+
+function readEntity(r: Reader): Record<string, unknown> {
+    const entity: Record<string, unknown> = { id: r.string() };
+    const count = r.uvarint();
+    for (let i = 0; i < count; i++) {
+        const index = r.u8();
+        const key = index === INLINE_KEY ? r.string() : FIELD_KEYS[index];
+        if (key === undefined) throw new Error(`Unknown field ${index}`);
+        entity[key] = readValue(r);
+    }
+    return entity;
+}
+
+function writeStrings(w: Writer, values: string[]): void {
+    w.uvarint(values.length);
+    values.forEach(value => w.string(value));
+}
+
+function readStrings(r: Reader): string[] {
+    const values: string[] = [];
+    const count = r.uvarint();
+    for (let i = 0; i < count; i++) values.push(r.string());
+    return values;
+}
+
+// =============================================================================
+// Messages
+// =============================================================================
+
+function writePlayerUpdate(w: Writer, data: any): boolean {
+    if (typeof data?.x !== 'number' || typeof data?.y !== 'number') return false;
+    if (Object.keys(data).some(key => !PLAYER_UPDATE_KEYS.has(key))) return false;
+
+    const hasVelocity = typeof data.dx === 'number' && typeof data.dy === 'number';
+    let flags = 0;
+    if (hasVelocity) flags |= UPDATE_HAS_VELOCITY;
+    if (typeof data.hue === 'number') flags |= UPDATE_HAS_HUE;
+    if (typeof data.realm === 'string') flags |= UPDATE_HAS_REALM;
+    if (data.realmChange === true) flags |= UPDATE_REALM_CHANGE;
+    if (typeof data.speaking === 'boolean') flags |= UPDATE_HAS_SPEAKING | (data.speaking ? UPDATE_SPEAKING : 0);
+    if (typeof data.seq === 'number') flags |= UPDATE_HAS_SEQ;
+
+    w.u8(FRAME_PLAYER_UPDATE);
+    w.u8(flags);
+    w.varint(data.x);
+    w.varint(data.y);
+    if (hasVelocity) {
+        w.varint(data.dx * 100);
+        w.varint(data.dy * 100);
+    }
+    if (flags & UPDATE_HAS_HUE) w.u8(quantizeHue(data.hue));
+    if (flags & UPDATE_HAS_REALM) w.string(data.realm);
+    if (flags & UPDATE_HAS_SEQ) w.uvarint(data.seq);
+    return true;
+}
+
+function readPlayerUpdate(r: Reader): any {
+    const flags = r.u8();
+    const data: any = { x: r.varint(), y: r.varint() };
+    if (flags & UPDATE_HAS_VELOCITY) {
+        data.dx = r.varint() / 100;
+        data.dy = r.varint() / 100;
+    }
+    if (flags & UPDATE_HAS_HUE) data.hue = dequantizeHue(r.u8());
+    if (flags & UPDATE_HAS_REALM) data.realm = r.string();
+    if (flags & UPDATE_REALM_CHANGE) data.realmChange = true;
+    if (flags & UPDATE_HAS_SPEAKING) data.speaking = (flags & UPDATE_SPEAKING) !== 0;
+    if (flags & UPDATE_HAS_SEQ) data.seq = r.uvarint();
+    return data;
+}
+
+function writeWorldDelta(w: Writer, data: any): void {
+    const collections = Object.entries(data.collections || {}) as Array<[string, any]>;
+    const litStars = data.litStars;
+
+    w.u8(FRAME_WORLD_DELTA);
+    w.uvarint(data.tick);
+    w.uvarint(data.baseTick === null ? 0 : data.baseTick + 1);
+    w.u8((data.keyframe ? 1 : 0) | (litStars ? 2 : 0));
+    w.uvarint(data.serverTime);
+
+    w.u8(collections.length);
+    for (const [name, delta] of collections) {
+        const index = COLLECTIONS.indexOf(name);
+        if (index < 0) throw new Error(`Unknown collection ${name}`);
+        w.u8(index);
+        w.u8((delta.upsert ? 1 : 0) | (delta.remove ? 2 : 0));
+        if (delta.upsert) {
+            w.uvarint(delta.upsert.length);
+            delta.upsert.forEach((entity: Record<string, unknown>) => writeEntity(w, entity));
+        }
+        if (delta.remove) writeStrings(w, delta.remove);
+    }
+
+    if (litStars) {
+        w.u8((litStars.add ? 1 : 0) | (litStars.remove ? 2 : 0));
+        if (litStars.add) writeStrings(w, litStars.add);
+        if (litStars.remove) writeStrings(w, litStars.remove);
+    }
+}
+
+function readWorldDelta(r: Reader): any {
+    const tick = r.uvarint();
+    const baseTick = r.uvarint();
+    const flags = r.u8();
+    const data: any = {
+        tick,
+        baseTick: baseTick === 0 ? null : baseTick - 1,
+        keyframe: (flags & 1) !== 0,
+        serverTime: r.uvarint(),
+        collections: {}
+    };
+
+    const collectionCount = r.u8();
+    for (let i = 0; i < collectionCount; i++) {
+        const name = COLLECTIONS[r.u8()];
+        if (!name) throw new Error('Unknown collection');
+        const deltaFlags = r.u8();
+        const delta: any = {};
+        if (deltaFlags & 1) {
+            delta.upsert = [];
+            const count = r.uvarint();
+            for (let j = 0; j < count; j++) delta.upsert.push(readEntity(r));
+        }
+        if (deltaFlags & 2) delta.remove = readStrings(r);
+        data.collections[name] = delta;
+    }
+
+    if (flags & 2) {
+        const starFlags = r.u8();
+        data.litStars = {};
+        if (starFlags & 1) data.litStars.add = readStrings(r);
+        if (starFlags & 2) data.litStars.remove = readStrings(r);
+    }
+    return data;
+}
+
+/**
+ * Binary frame for a message, or null if it should go as JSON
+ */
+export function encodeBinaryMessage(message: { type: string; data: any }): Uint8Array | null {
+    const w = new Writer();
+    switch (message.type) {
+        case 'player_update':
+            if (!writePlayerUpdate(w, message.data)) return null;
+            break;
+        case 'world_delta':
+            writeWorldDelta(w, message.data);
+            break;
+        case 'fragment_spawned':
+            w.u8(FRAME_FRAGMENT_SPAWNED);
+            writeEntity(w, message.data);
+            break;
+        case 'fragment_removed':
+            w.u8(FRAME_FRAGMENT_REMOVED);
+            w.string(message.data.fragmentId);
+            break;
+        default:
+            return null;
+    }
+    return w.finish();
+}
+
+/**
+ * Decode a binary frame. Throws on malformed input.
+ */
+export function decodeBinaryMessage(bytes: Uint8Array, now: number = Date.now()): WireMessage {
+    const r = new Reader(bytes);
+    const frame = r.u8();
+    switch (frame) {
+        case FRAME_PLAYER_UPDATE:
+            return { type: 'player_update', data: readPlayerUpdate(r), timestamp: now };
+        case FRAME_WORLD_DELTA: {
+            const data = readWorldDelta(r);
+            return { type: 'world_delta', data, timestamp: data.serverTime };
+        }
+        case FRAME_FRAGMENT_SPAWNED:
+            return { type: 'fragment_spawned', data: readEntity(r), timestamp: now };
+        case FRAME_FRAGMENT_REMOVED:
+            return { type: 'fragment_removed', data: { fragmentId: r.string() }, timestamp: now };
+        default:
+            throw new Error(`Unknown binary frame type ${frame}`);
+    }
+}
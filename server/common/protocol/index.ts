@@ -0,0 +1,23 @@
+// =============================================================================
+// Realtime Protocol - Shared by the client and the server
+// =============================================================================
+
+export {
+    CLIENT_MESSAGES,
+    noPayload,
+    isClientMessageType
+} from './requests.js';
+
+export type { ClientMessageType, ClientPayload, ValidatedPayload, ValidatedRequest } from './requests.js';
+
+export { SERVER_MESSAGES, isServerMessageType } from './messages.js';
+
+export type { ServerMessageSpec, ServerMessageType, ServerPayload, ServerMessage } from './messages.js';
+
+export type * from './payloads.js';
+
+export { renderProtocolReference } from './reference.js';
+
+export { BINARY_MESSAGE_TYPES, encodeBinaryMessage, decodeBinaryMessage } from './BinaryCodec.js';
+
+export type { WireCodec, WireMessage } from './BinaryCodec.js';
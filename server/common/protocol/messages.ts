@@ -0,0 +1,825 @@
+// =============================================================================
+// Server → Client Messages
+// =============================================================================
+// Every message type the server sends, either as a response to one of the
+// client's requests (see ./requests.ts) or as a push the client did not ask
+// for. Each entry declares the payload it carries (see ./payloads.ts), so a
+// send or a subscription to a message that does not exist, or with the wrong
+// shape, fails to compile.
+//
+// This file is compiled by both the client and the server: it must not import
+// server-only code.
+// =============================================================================
+
+import type { ClientMessageType } from './requests.js';
+import type {
+    AchievementUnlockedPayload,
+    ActivePowerUpsPayload,
+    ActivityFeedPayload,
+    ActivityStatsPayload,
+    AllBondsPayload,
+    AllTimeSecretsPayload,
+    AmbientStats,
+    AnalyticsSessionPayload,
+    AnchoringZonesPayload,
+    AvailableMentorsPayload,
+    AvailableTimeSecretsPayload,
+    BeaconLitPayload,
+    BeaconStateUpdatePayload,
+    BiomeDiscoveredPayload,
+    BondDataPayload,
+    BondMomentPayload,
+    BondSealedPayload,
+    BondTierChangedPayload,
+    BondUpdatedPayload,
+    BoxStatsPayload,
+    BreathingSyncPayload,
+    ChallengeRerolledPayload,
+    ChallengeRewardClaimedPayload,
+    ChatMessagePayload,
+    CommunicationDataPayload,
+    CompanionDataPayload,
+    CompanionEquippedPayload,
+    CompanionFedPayload,
+    CompanionPurchasedPayload,
+    CompanionRenamedPayload,
+    ConstellationDetailPayload,
+    ConstellationFormedInRealmPayload,
+    ConstellationFormedPayload,
+    ConstellationGlobalStatsPayload,
+    ConstellationListPayload,
+    ConstellationNewPayload,
+    ConstellationPotentialPayload,
+    ConstellationResultPayload,
+    ConstellationRewardsReceivedPayload,
+    ConstellationStatsPayload,
+    ConstellationUpdatedPayload,
+    ConstellationVisiblePayload,
+    ConstellationsPayload,
+    CosmeticEquippedPayload,
+    CosmeticPurchaseFailedPayload,
+    CosmeticPurchasedPayload,
+    DailyLeaderboardPayload,
+    DailyLoginResultPayload,
+    DailyMilestoneReachedPayload,
+    DailyMysteryBoxGrantedPayload,
+    DailyPlayerMilestonePayload,
+    DailyRewardClaimedPayload,
+    DailyRewardsPayload,
+    DailyStreakBrokenPayload,
+    DailyStreakInfoPayload,
+    DarknessActivePayload,
+    DarknessClearedPayload,
+    DarknessEndedPayload,
+    DarknessFoughtPayload,
+    DarknessHazardsPayload,
+    DarknessLevelPayload,
+    DarknessUpdatePayload,
+    DarknessWarningPayload,
+    DirectedSignalsPayload,
+    DiscoveredBiomesPayload,
+    EchoResonatedPayload,
+    EmojiReactionPayload,
+    EmotePayload,
+    EmptyPayload,
+    EnteredAnchoringZonePayload,
+    ErrorPayload,
+    ErrorReplyPayload,
+    EventBonusesPayload,
+    EventContributionPayload,
+    EventHistoryPayload,
+    EventJoinedPayload,
+    EventLeaderboardPayload,
+    EventProgressPayload,
+    EventRewardClaimedPayload,
+    EventXpGainedPayload,
+    ExplorationDataPayload,
+    ExplorationMilestonesPayload,
+    ExplorationStatsPayload,
+    ExplorationUpdatePayload,
+    FeedMarkedReadPayload,
+    FogRevealedPayload,
+    FragmentCollectedPayload,
+    FragmentRemovedPayload,
+    FragmentSpawnedPayload,
+    FriendAcceptedPayload,
+    FriendActivitiesPayload,
+    FriendAddedPayload,
+    FriendDeclinedPayload,
+    FriendLeaderboardPayload,
+    FriendMarkerUpdatePayload,
+    FriendMarkersPayload,
+    FriendPositionPayload,
+    FriendRealmChangedPayload,
+    FriendRemovedPayload,
+    FriendRequestAcceptedPayload,
+    FriendRequestDeclinedPayload,
+    FriendRequestReceivedPayload,
+    FriendRequestSentPayload,
+    FriendStatusChangedPayload,
+    FriendStatusesPayload,
+    FriendTeleportedToYouPayload,
+    FriendTeleportingToYouPayload,
+    FriendsListPayload,
+    GalleryAlbumCreatedPayload,
+    GalleryAlbumEntryPayload,
+    GalleryAlbumScreenshotsPayload,
+    GalleryAlbumsListPayload,
+    GalleryFeaturedPayload,
+    GalleryLikedPayload,
+    GalleryListPayload,
+    GalleryPublicListPayload,
+    GalleryPublicToggledPayload,
+    GalleryReceivedLikePayload,
+    GallerySavedPayload,
+    GalleryScreenshotPayload,
+    GalleryStatsPayload,
+    GameModeStats,
+    GiftClaimedPayload,
+    GiftCooldownPayload,
+    GiftHistoryPayload,
+    GiftReceivedPayload,
+    GiftSentPayload,
+    GiftStreakPayload,
+    GlobalAmbientStats,
+    GlobalBoxStatsPayload,
+    GlobalGameModeStats,
+    GlobalStatsPayload,
+    GuildChatMessagePayload,
+    GuildContributionSuccessPayload,
+    GuildCreatedPayload,
+    GuildIdPayload,
+    GuildInfoPayload,
+    GuildJoinedPayload,
+    GuildLeveledUpPayload,
+    GuildListPayload,
+    GuildMemberJoinedPayload,
+    GuildMemberLeftPayload,
+    InboxPagePayload,
+    InitialStatePayload,
+    LeaderboardPayload,
+    LeaderboardRankChangedPayload,
+    LeaderboardTypesPayload,
+    LeftAnchoringZonePayload,
+    MapMarkerPlacedPayload,
+    MapMarkerRemovedPayload,
+    MarkerAddedPayload,
+    MarkerCreatedPayload,
+    MarkerIdPayload,
+    MarkerShareAcceptedPayload,
+    MarkerShareInvitePayload,
+    MarkerShareSentPayload,
+    MarkerUpdatedPayload,
+    MarkersListPayload,
+    MeditationEndedPayload,
+    MeditationStartedPayload,
+    MemoryAddedPayload,
+    MenteeRequestPayload,
+    MentorAssignedPayload,
+    MentorRequestSentPayload,
+    MentorTipPayload,
+    MentorTipSentPayload,
+    MentorshipEndedPayload,
+    MentorshipRatedPayload,
+    MentorshipStatusPayload,
+    MilestonesUnlockedPayload,
+    MindfulnessStatsPayload,
+    ModerationNoticePayload,
+    ModerationSanctionPayload,
+    MyReferralCodePayload,
+    MysteryBoxInfoPayload,
+    MysteryBoxOpenedPayload,
+    NearbyPoisPayload,
+    NearbyRanksPayload,
+    NearbyVoicePeersPayload,
+    NewFriendActivityPayload,
+    NewSharedMemoryPayload,
+    NotificationMarkedReadPayload,
+    NotificationPayload,
+    NotificationPrefsPayload,
+    PendingFriendRequestsPayload,
+    PendingGiftsPayload,
+    PendingMenteeRequestsPayload,
+    PetAdoptedPayload,
+    PetDetailsPayload,
+    PetIdPayload,
+    PetUpdatedPayload,
+    PityProgressPayload,
+    PlayerDataPayload,
+    PlayerDataSyncedPayload,
+    PlayerIdPayload,
+    PlayerJoinedTagPayload,
+    PlayerJoinedZonePayload,
+    PlayerLeftTagPayload,
+    PlayerMeditatingPayload,
+    PlayerMutedPayload,
+    PlayerRankPayload,
+    PlayerReputationPayload,
+    PlayerSpeakingPayload,
+    PlayerTaggedPayload,
+    PlayerUnmutedPayload,
+    PoiDiscoveredPayload,
+    PoiFirstDiscoveryPayload,
+    PongPayload,
+    PositionCorrectionPayload,
+    PowerUpCollectedPayload,
+    PowerUpEffectAppliedPayload,
+    PowerUpEffectEndedPayload,
+    PowerUpExpiredPayload,
+    PowerUpSpawnedPayload,
+    PowerUpsStatePayload,
+    PreferencesPayload,
+    PreferencesUpdatedPayload,
+    PresetDeletedPayload,
+    PresetSavedPayload,
+    PresetsListPayload,
+    ProgressionPayload,
+    PulsePatternBroadcastPayload,
+    PulsePatternConfirmedPayload,
+    PulsePatternsListPayload,
+    PulsePayload,
+    QuestIdPayload,
+    QuestListPayload,
+    QuestProgressUpdatedPayload,
+    QuestRewardClaimedPayload,
+    QuestStatsPayload,
+    QuestsDataPayload,
+    RareRewardObtainedPayload,
+    RateLimitedPayload,
+    RealmDeniedPayload,
+    RealmHandoffPayload,
+    RealmLeaderboardPayload,
+    RealmStarsPayload,
+    ReferralAppliedPayload,
+    ReferralCodeGeneratedPayload,
+    ReferralCodeValidatedPayload,
+    ReferralRewardClaimedPayload,
+    ReferralStatsPayload,
+    ReferralUsedPayload,
+    ReferredPlayersPayload,
+    RegionInfoPayload,
+    ReportSubmittedPayload,
+    ReputationDataPayload,
+    ReputationLeaderboardPayload,
+    ReputationLevelsPayload,
+    ReputationRewardClaimedPayload,
+    ReputationUpdatedPayload,
+    ResonanceReceivedPayload,
+    ResonanceSentPayload,
+    ScreenshotIdPayload,
+    SealPendingPayload,
+    SealRequestedPayload,
+    SeasonAllRewardsClaimedPayload,
+    SeasonHistoryPayload,
+    SeasonInfoPayload,
+    SeasonPlayerTierUpPayload,
+    SeasonPassRewardClaimedPayload,
+    SeasonPremiumUpgradedPayload,
+    SeasonProgressPayload,
+    SeasonRewardClaimedPayload,
+    SeasonRewardsPayload,
+    SeasonRotatedPayload,
+    SeasonTierUpPayload,
+    SeasonXpAddedPayload,
+    SeekAttemptFindResultPayload,
+    SeekCurrentGamePayload,
+    SeekGameCreatedPayload,
+    SeekGamePayload,
+    SeekGameStartedPayload,
+    SeekGamesPayload,
+    SeekHistoryPayload,
+    SeekPlayerJoinedPayload,
+    ServerRestartingPayload,
+    SessionGrant,
+    SessionResumedPayload,
+    SettingsUpdatedPayload,
+    ShareInviteDeclinedPayload,
+    SignalCooldownsPayload,
+    SignalIdPayload,
+    SignalReceivedPayload,
+    SignalTypesPayload,
+    SignalsListPayload,
+    SnapshotSavedPayload,
+    StarLitPayload,
+    StarMemoriesPayload,
+    StatsPayload,
+    StoryQuestsPayload,
+    SuccessPayload,
+    TagGameAvailablePayload,
+    TagGameCreatedPayload,
+    TagGameEndedPayload,
+    TagGameStartedPayload,
+    TagGamesListPayload,
+    TagOccurredPayload,
+    TagSessionCreatedPayload,
+    TeleportToFriendPayload,
+    TeleportToFriendResultPayload,
+    TimeSecretDiscoveredPayload,
+    TimeSecretErrorPayload,
+    TrackProgressPayload,
+    TypingIndicatorPayload,
+    UnreadCountPayload,
+    VoiceRipplePayload,
+    VoiceRoomJoinedPayload,
+    VoiceRoomLeftPayload,
+    VoiceRoomsListPayload,
+    VoiceSignalPayload,
+    WavePayload,
+    WhisperReceivedPayload,
+    WhisperSentPayload,
+    WorldDeltaPayload,
+    WorldEcho,
+    WorldEventEndedPayload,
+    WorldEventProgressPayload,
+    WorldEventStartedPayload,
+    WorldEventsPayload,
+    YouFormedConstellationPayload,
+    YouJoinedConstellationPayload
+} from './payloads.js';
+
+// =============================================================================
+// CATALOG
+// =============================================================================
+
+/**
+ * A server message. `payload` only exists in the type system.
+ */
+export interface ServerMessageSpec<P> {
+    replyTo: readonly ClientMessageType[];      // Empty for pushes
+    readonly payload?: P;
+}
+
+function reply<P>(...requests: ClientMessageType[]): ServerMessageSpec<P> {
+    return { replyTo: requests };
+}
+
+function push<P>(): ServerMessageSpec<P> {
+    return { replyTo: [] };
+}
+
+export const SERVER_MESSAGES = {
+    // Connection & World
+    'error': push<ErrorPayload>(),
+    'initial_state': push<InitialStatePayload>(),
+    'player_joined': push<PlayerIdPayload>(),
+    'player_leave': push<PlayerIdPayload>(),
+    'player_left': push<PlayerIdPayload>(),
+    'pong': reply<PongPayload>('ping'),
+    'position_correction': reply<PositionCorrectionPayload>('player_update'),
+    'rate_limited': push<RateLimitedPayload>(),
+    'realm_denied': push<RealmDeniedPayload>(),
+    'realm_handoff': push<RealmHandoffPayload>(),
+    'server_restarting': push<ServerRestartingPayload>(),
+    'session_refreshed': reply<SessionGrant>('refresh_session'),
+    'session_resumed': push<SessionResumedPayload>(),
+    'world_delta': reply<WorldDeltaPayload>('request_world_state'),
+
+    // Game Actions
+    'beacon_lit': reply<BeaconLitPayload>('light_beacon'),
+    'beacon_state_update': push<BeaconStateUpdatePayload>(),
+    'echo_created': push<WorldEcho>(),
+    'echo_resonated': push<EchoResonatedPayload>(),
+    'emote': push<EmotePayload>(),
+    'fragment_collected': reply<FragmentCollectedPayload>('collect_fragment'),
+    'fragment_removed': push<FragmentRemovedPayload>(),
+    'fragment_spawned': push<FragmentSpawnedPayload>(),
+    'pulse': push<PulsePayload>(),
+    'pulse_pattern_broadcast': push<PulsePatternBroadcastPayload>(),
+    'pulse_pattern_confirmed': reply<PulsePatternConfirmedPayload>('pulse_pattern_completed'),
+    'pulse_patterns_list': reply<PulsePatternsListPayload>('get_pulse_patterns'),
+    'resonance_received': push<ResonanceReceivedPayload>(),
+    'resonance_sent': reply<ResonanceSentPayload>('resonance'),
+    'star_lit': push<StarLitPayload>(),
+    'voice_ripple': push<VoiceRipplePayload>(),
+    'wave': push<WavePayload>(),
+
+    // Chat
+    'chat_message': push<ChatMessagePayload>(),
+    'emoji_reaction': push<EmojiReactionPayload>(),
+    'moderation_banned': push<ModerationSanctionPayload>(),
+    'moderation_muted': push<ModerationSanctionPayload>(),
+    'moderation_notice': push<ModerationNoticePayload>(),
+    'report_submitted': reply<ReportSubmittedPayload>('report_player'),
+    'typing_indicator': push<TypingIndicatorPayload>(),
+    'whisper_received': push<WhisperReceivedPayload>(),
+    'whisper_sent': reply<WhisperSentPayload>('whisper'),
+
+    // Progression
+    'achievement_unlocked': reply<AchievementUnlockedPayload>('add_achievement'),
+    'activity_feed': reply<ActivityFeedPayload>('get_activity_feed'),
+    'challenge_rerolled': reply<ChallengeRerolledPayload>('reroll_challenge'),
+    'challenge_reward_claimed': reply<ChallengeRewardClaimedPayload>('claim_challenge_reward'),
+    'cosmetic_equipped': reply<CosmeticEquippedPayload>('equip_cosmetic'),
+    'cosmetic_purchase_failed': reply<CosmeticPurchaseFailedPayload>('purchase_cosmetic'),
+    'cosmetic_purchased': reply<CosmeticPurchasedPayload>('purchase_cosmetic'),
+    'daily_reward_claimed': reply<DailyRewardClaimedPayload>('claim_daily_reward'),
+    'feed_marked_read': reply<FeedMarkedReadPayload>('mark_feed_read'),
+    'progression_data': reply<ProgressionPayload>('request_progression'),
+    'season_reward_claimed': reply<SeasonRewardClaimedPayload>('claim_season_reward'),
+    'unread_count': reply<UnreadCountPayload>('get_unread_count'),
+
+    // Player Data
+    'friend_accepted': reply<FriendAcceptedPayload>('accept_friend'),
+    'friend_declined': reply<FriendDeclinedPayload>('decline_friend'),
+    'friend_marker_update': push<FriendMarkerUpdatePayload>(),
+    'friend_removed': reply<FriendRemovedPayload>('remove_friend', 'friend:remove'),
+    'friend_request_sent': reply<FriendRequestSentPayload>('friend_request', 'friend:add'),
+    'friend_teleported_to_you': push<FriendTeleportedToYouPayload>(),
+    'friends_list': reply<FriendsListPayload>('get_friends'),
+    'pending_friend_requests': reply<PendingFriendRequestsPayload>('get_pending_requests', 'friend:getPendingRequests'),
+    'player_data': reply<PlayerDataPayload>('request_player_data'),
+    'player_data_synced': reply<PlayerDataSyncedPayload>('sync_player_data'),
+    'settings_updated': reply<SettingsUpdatedPayload>('update_settings'),
+    'teleport_failed': reply<ErrorReplyPayload>('teleport_to_friend'),
+    'teleport_to_friend': reply<TeleportToFriendPayload>('teleport_to_friend'),
+
+    // Communication Sync
+    'communication_data': reply<CommunicationDataPayload>('request_communication'),
+    'communication_synced': reply<SuccessPayload>('sync_communication'),
+
+    // Map Markers
+    'friend_markers': reply<FriendMarkersPayload>('request_friend_markers'),
+    'map_marker_placed': reply<MapMarkerPlacedPayload>('place_map_marker'),
+    'map_marker_removed': reply<MapMarkerRemovedPayload>('remove_map_marker'),
+
+    // Companion
+    'companion_data': reply<CompanionDataPayload>('request_companion_data'),
+    'companion_equipped': reply<CompanionEquippedPayload>('equip_companion'),
+    'companion_fed': reply<CompanionFedPayload>('feed_companion'),
+    'companion_purchased': reply<CompanionPurchasedPayload>('purchase_companion'),
+    'companion_renamed': reply<CompanionRenamedPayload>('rename_companion'),
+    'companion_unequipped': reply<SuccessPayload>('unequip_companion'),
+
+    // Pets
+    'pet_adopted': reply<PetAdoptedPayload>('adopt_pet'),
+    'pet_details': reply<PetDetailsPayload>('get_pet_details'),
+    'pet_equipped': reply<PetIdPayload>('equip_pet'),
+    'pet_leveled_up': reply<PetIdPayload>('feed_pet', 'play_pet'),
+    'pet_updated': reply<PetUpdatedPayload>('feed_pet', 'play_pet'),
+
+    // World Events
+    'darkness_active': push<DarknessActivePayload>(),
+    'darkness_cleared': push<DarknessClearedPayload>(),                 // Listened for by the client, not forwarded yet
+    'darkness_ended': push<DarknessEndedPayload>(),
+    'darkness_fought': reply<DarknessFoughtPayload>('fight_darkness'),
+    'darkness_hazards': reply<DarknessHazardsPayload>('get_darkness_hazards'),
+    'darkness_level': reply<DarknessLevelPayload>('request_darkness', 'get_darkness_level'),
+    'darkness_update': push<DarknessUpdatePayload>(),
+    'darkness_warning': push<DarknessWarningPayload>(),
+    'event_bonuses': push<EventBonusesPayload>(),
+    'event_contribution': reply<EventContributionPayload>('contribute_event'),
+    'event_history': push<EventHistoryPayload>(),
+    'event_joined': reply<EventJoinedPayload>('join_world_event'),
+    'event_leaderboard': reply<EventLeaderboardPayload>('get_event_leaderboard'),
+    'event_progress': reply<EventProgressPayload>('get_event_progress'),
+    'event_reward_claimed': reply<EventRewardClaimedPayload>('claim_event_reward'),
+    'event_xp_gained': push<EventXpGainedPayload>(),
+    'world_event_ended': push<WorldEventEndedPayload>(),
+    'world_event_progress': push<WorldEventProgressPayload>(),
+    'world_event_started': push<WorldEventStartedPayload>(),
+    'world_events': reply<WorldEventsPayload>('request_world_events'),
+
+    // Power-ups
+    'active_powerups': reply<ActivePowerUpsPayload>('get_active_power_ups'),
+    'power_up_collected': reply<PowerUpCollectedPayload>('collect_power_up'),
+    'power_up_effect_applied': push<PowerUpEffectAppliedPayload>(),
+    'power_up_effect_ended': push<PowerUpEffectEndedPayload>(),            // Listened for by the client, not sent yet
+    'power_up_expired': push<PowerUpExpiredPayload>(),
+    'power_up_spawned': push<PowerUpSpawnedPayload>(),
+    'power_ups_state': reply<PowerUpsStatePayload>('request_power_ups'),
+
+    // Tag Game
+    'player_joined_tag': push<PlayerJoinedTagPayload>(),
+    'player_left_tag': push<PlayerLeftTagPayload>(),
+    'player_tagged': push<PlayerTaggedPayload>(),
+    'tag_game_available': push<TagGameAvailablePayload>(),
+    'tag_game_created': reply<TagGameCreatedPayload>('tag_create'),
+    'tag_game_ended': push<TagGameEndedPayload>(),
+    'tag_game_started': push<TagGameStartedPayload>(),
+    'tag_games_list': reply<TagGamesListPayload>('get_tag_games'),
+    'tag_occurred': push<TagOccurredPayload>(),
+    'tag_session_created': push<TagSessionCreatedPayload>(),
+
+    // Mystery Box
+    'box_stats': reply<BoxStatsPayload>('request_box_stats', 'get_box_stats'),
+    'global_box_stats': reply<GlobalBoxStatsPayload>('get_global_box_stats'),
+    'mystery_box_info': reply<MysteryBoxInfoPayload>('request_mystery_boxes', 'get_mystery_box_info'),
+    'mystery_box_opened': reply<MysteryBoxOpenedPayload>('open_mystery_box'),
+    'pity_progress': reply<PityProgressPayload>('get_pity_progress'),
+    'rare_reward_obtained': push<RareRewardObtainedPayload>(),
+
+    // Anchoring / Mindfulness
+    'anchoring_zones': reply<AnchoringZonesPayload>('request_anchoring_zones'),
+    'breathing_sync': push<BreathingSyncPayload>(),
+    'entered_anchoring_zone': reply<EnteredAnchoringZonePayload>('enter_anchoring_zone'),
+    'joined_group_meditation': reply<MeditationStartedPayload>('join_group_meditation'),
+    'left_anchoring_zone': reply<LeftAnchoringZonePayload>('leave_anchoring_zone'),
+    'meditation_ended': reply<MeditationEndedPayload>('end_meditation'),
+    'meditation_started': reply<MeditationStartedPayload>('start_meditation'),
+    'mindfulness_stats': reply<MindfulnessStatsPayload>('request_mindfulness_stats'),
+    'player_joined_zone': push<PlayerJoinedZonePayload>(),
+    'player_meditating': push<PlayerMeditatingPayload>(),
+
+    // Leaderboard
+    'friend_leaderboard': reply<FriendLeaderboardPayload>('request_friend_leaderboard'),
+    'global_stats': push<GlobalStatsPayload>(),
+    'leaderboard': reply<LeaderboardPayload>('request_leaderboard'),
+    'leaderboard_rank_changed': push<LeaderboardRankChangedPayload>(),
+    'leaderboard_types': reply<LeaderboardTypesPayload>('get_leaderboard_types'),
+    'nearby_ranks': reply<NearbyRanksPayload>('request_nearby_ranks'),
+    'player_rank': reply<PlayerRankPayload>('request_player_rank'),
+    'realm_leaderboard': reply<RealmLeaderboardPayload>('request_realm_leaderboard'),
+
+    // Quests
+    'daily_quests': reply<QuestListPayload>('get_daily_quests'),
+    'quest_abandoned': reply<QuestIdPayload>('abandon_quest'),
+    'quest_progress_updated': reply<QuestProgressUpdatedPayload>('update_quest_progress'),
+    'quest_reward_claimed': reply<QuestRewardClaimedPayload>('claim_quest_reward'),
+    'quest_started': reply<QuestIdPayload>('start_quest'),
+    'quest_stats': reply<QuestStatsPayload>('get_quest_stats'),
+    'quests_data': reply<QuestsDataPayload>('request_quests', 'get_quests'),
+    'story_quests': reply<StoryQuestsPayload>('get_active_quests', 'get_story_quests'),
+    'weekly_quests': reply<QuestListPayload>('get_weekly_quests'),
+
+    // Signals
+    'directed_signals': reply<DirectedSignalsPayload>('get_directed_signals'),
+    'response_sent': reply<SignalIdPayload>('respond_signal'),
+    'signal_acknowledged': reply<SignalIdPayload>('acknowledge_signal'),
+    'signal_cooldowns': reply<SignalCooldownsPayload>('get_signal_cooldowns'),
+    'signal_received': push<SignalReceivedPayload>(),
+    'signal_sent': reply<SignalIdPayload>('send_signal'),
+    'signal_types': reply<SignalTypesPayload>('get_signal_types'),
+    'signals_list': reply<SignalsListPayload>('request_signals', 'get_signals'),
+
+    // Exploration
+    'all_time_secrets': reply<AllTimeSecretsPayload>('get_all_time_secrets'),
+    'available_time_secrets': reply<AvailableTimeSecretsPayload>('get_available_time_secrets'),
+    'biome_discovered': reply<BiomeDiscoveredPayload>('discover_biome'),
+    'discovered_biomes': reply<DiscoveredBiomesPayload>('get_discovered_biomes'),
+    'exploration_data': reply<ExplorationDataPayload>('request_exploration_data'),
+    'exploration_milestones': reply<ExplorationMilestonesPayload>('get_exploration_milestones'),
+    'exploration_stats': reply<ExplorationStatsPayload>('get_exploration_stats'),
+    'exploration_update': reply<ExplorationUpdatePayload>('update_exploration'),
+    'fog_revealed': reply<FogRevealedPayload>('reveal_fog'),
+    'milestones_unlocked': reply<MilestonesUnlockedPayload>('update_exploration'),
+    'nearby_pois': reply<NearbyPoisPayload>('get_nearby_pois'),
+    'poi_discovered': reply<PoiDiscoveredPayload>('discover_poi'),
+    'poi_first_discovery': push<PoiFirstDiscoveryPayload>(),
+    'region_info': reply<RegionInfoPayload>('get_region_info'),
+    'time_secret_discovered': reply<TimeSecretDiscoveredPayload>('discover_time_secret'),
+    'time_secret_error': reply<TimeSecretErrorPayload>('discover_time_secret'),
+
+    // Reputation
+    'player_reputation': reply<PlayerReputationPayload>('get_player_reputation'),
+    'reputation_data': reply<ReputationDataPayload>('request_reputation'),
+    'reputation_leaderboard': reply<ReputationLeaderboardPayload>('get_reputation_leaderboard'),
+    'reputation_levels': push<ReputationLevelsPayload>(),
+    'reputation_reward_claimed': reply<ReputationRewardClaimedPayload>('claim_reputation_reward'),
+    'reputation_updated': reply<ReputationUpdatedPayload>('track_reputation_action'),
+    'track_progress': reply<TrackProgressPayload>('get_track_progress'),
+
+    // Notifications
+    'notification': push<NotificationPayload>(),
+    'notification_marked_read': reply<NotificationMarkedReadPayload>('mark_notification_read'),
+    'notification_prefs': reply<NotificationPrefsPayload>('get_notification_preferences', 'get_notification_prefs'),
+    'notification_prefs_updated': reply<SuccessPayload>('update_notification_preferences', 'update_notification_prefs'),
+    'notifications_all_read': reply<SuccessPayload>('mark_all_notifications_read', 'mark_all_read'),
+    'notifications_cleared': reply<SuccessPayload>('clear_notifications'),
+    'notifications_list': reply<InboxPagePayload>('get_notifications'),
+    'notifications_pending': push<InboxPagePayload>(),
+    'player_muted': reply<PlayerMutedPayload>('mute_player'),
+    'player_unmuted': reply<PlayerUnmutedPayload>('unmute_player'),
+
+    // Snapshots
+    'snapshot_saved': reply<SnapshotSavedPayload>('snapshot_taken'),
+
+    // Guilds
+    'guild_application_submitted': reply<GuildIdPayload>('join_guild'),
+    'guild_chat_message': push<GuildChatMessagePayload>(),
+    'guild_contribution_success': reply<GuildContributionSuccessPayload>('guild_contribute'),
+    'guild_created': reply<GuildCreatedPayload>('create_guild'),
+    'guild_info': reply<GuildInfoPayload>('get_guild_info'),
+    'guild_joined': reply<GuildJoinedPayload>('join_guild'),
+    'guild_left': reply<GuildIdPayload>('leave_guild'),
+    'guild_leveled_up': push<GuildLeveledUpPayload>(),
+    'guild_list': reply<GuildListPayload>('list_guilds'),
+    'guild_member_joined': push<GuildMemberJoinedPayload>(),
+    'guild_member_left': push<GuildMemberLeftPayload>(),
+
+    // Gifts
+    'gift_claimed': reply<GiftClaimedPayload>('claim_gift'),
+    'gift_cooldown': reply<GiftCooldownPayload>('get_gift_cooldown'),
+    'gift_history': reply<GiftHistoryPayload>('get_gift_history'),
+    'gift_received': push<GiftReceivedPayload>(),
+    'gift_sent': reply<GiftSentPayload>('send_gift'),
+    'gift_streak': reply<GiftStreakPayload>('get_gift_streak'),
+    'pending_gifts': reply<PendingGiftsPayload>('get_pending_gifts'),
+
+    // Voice Chat
+    'nearby_voice_peers': reply<NearbyVoicePeersPayload>('get_nearby_voice_peers'),
+    'player_speaking': push<PlayerSpeakingPayload>(),
+    'voice_room_joined': reply<VoiceRoomJoinedPayload>('voice_join_room'),
+    'voice_room_left': reply<VoiceRoomLeftPayload>('voice_leave_room'),
+    'voice_rooms_list': reply<VoiceRoomsListPayload>('get_voice_rooms'),
+    'voice_signal': push<VoiceSignalPayload>(),
+
+    // Bonds
+    'all_bonds': reply<AllBondsPayload>('get_all_bonds'),
+    'bond_data': reply<BondDataPayload>('get_bond'),
+    'bond_sealed': reply<BondSealedPayload>('seal_bond'),
+    'bond_moment': push<BondMomentPayload>(),
+    'bond_tier_changed': push<BondTierChangedPayload>(),
+    'bond_updated': reply<BondUpdatedPayload>('bond_interaction'),
+    'constellation_formed': push<ConstellationFormedPayload>(),
+    'constellation_visible': push<ConstellationVisiblePayload>(),
+    'constellations': reply<ConstellationsPayload>('get_constellations'),
+    'memory_added': reply<MemoryAddedPayload>('add_bond_memory'),
+    'new_shared_memory': push<NewSharedMemoryPayload>(),
+    'realm_stars': reply<RealmStarsPayload>('get_realm_stars'),
+    'seal_bond_error': reply<ErrorReplyPayload>('seal_bond'),
+    'seal_pending': reply<SealPendingPayload>('seal_bond'),
+    'seal_requested': push<SealRequestedPayload>(),
+    'star_memories': reply<StarMemoriesPayload>('get_star_memories'),
+
+    // Referrals
+    'my_referral_code': reply<MyReferralCodePayload>('get_my_referral_code'),
+    'referral_applied': reply<ReferralAppliedPayload>('apply_referral'),
+    'referral_code_generated': reply<ReferralCodeGeneratedPayload>('generate_referral_code'),
+    'referral_code_validated': reply<ReferralCodeValidatedPayload>('validate_referral_code'),
+    'referral_error': reply<ErrorReplyPayload>('generate_referral_code', 'apply_referral'),
+    'referral_reward_claimed': reply<ReferralRewardClaimedPayload>('claim_referral_reward'),
+    'referral_stats': reply<ReferralStatsPayload>('get_referral_stats'),
+    'referral_used': push<ReferralUsedPayload>(),
+    'referred_players': reply<ReferredPlayersPayload>('get_referred_players'),
+
+    // Mentorship
+    'available_mentors': reply<AvailableMentorsPayload>('get_available_mentors'),
+    'mentee_accepted': reply<SuccessPayload>('accept_mentee'),
+    'mentee_declined': reply<SuccessPayload>('decline_mentee'),
+    'mentee_request': push<MenteeRequestPayload>(),
+    'mentor_assigned': push<MentorAssignedPayload>(),
+    'mentor_registration': reply<SuccessPayload>('become_mentor'),
+    'mentor_request_declined': push<ErrorPayload>(),
+    'mentor_request_sent': reply<MentorRequestSentPayload>('request_mentor'),
+    'mentor_tip': push<MentorTipPayload>(),
+    'mentor_tip_error': reply<ErrorReplyPayload>('send_mentor_tip'),
+    'mentor_tip_sent': reply<MentorTipSentPayload>('send_mentor_tip'),
+    'mentorship_ended': reply<MentorshipEndedPayload>('end_mentorship'),
+    'mentorship_rated': reply<MentorshipRatedPayload>('rate_mentorship'),
+    'mentorship_status': reply<MentorshipStatusPayload>('get_mentorship_status'),
+    'pending_mentee_requests': reply<PendingMenteeRequestsPayload>('get_pending_mentee_requests'),
+
+    // Season Pass
+    'season:allRewardsClaimed': reply<SeasonAllRewardsClaimedPayload>('season:claimAll'),
+    'season:history': reply<SeasonHistoryPayload>('season:getHistory'),
+    'season:info': reply<SeasonInfoPayload>('season:getInfo'),
+    'season:playerTierUp': push<SeasonPlayerTierUpPayload>(),
+    'season:premiumUpgraded': reply<SeasonPremiumUpgradedPayload>('season:upgradePremium'),
+    'season:progress': reply<SeasonProgressPayload>('season:getProgress'),
+    'season:rewardClaimed': reply<SeasonPassRewardClaimedPayload>('season:claimReward'),
+    'season:rewards': reply<SeasonRewardsPayload>('season:getRewards'),
+    'season:rotated': push<SeasonRotatedPayload>(),
+    'season:tierUp': push<SeasonTierUpPayload>(),
+    'season:xpAdded': reply<SeasonXpAddedPayload>('season:addXP'),
+
+    // Gallery
+    'gallery:addedToAlbum': reply<GalleryAlbumEntryPayload>('gallery:addToAlbum'),
+    'gallery:albumCreated': reply<GalleryAlbumCreatedPayload>('gallery:createAlbum'),
+    'gallery:albumScreenshots': reply<GalleryAlbumScreenshotsPayload>('gallery:getAlbumScreenshots'),
+    'gallery:albumsList': reply<GalleryAlbumsListPayload>('gallery:getAlbums'),
+    'gallery:captionUpdated': reply<ScreenshotIdPayload>('gallery:updateCaption'),
+    'gallery:deleted': reply<ScreenshotIdPayload>('gallery:delete'),
+    'gallery:featured': push<GalleryFeaturedPayload>(),
+    'gallery:liked': reply<GalleryLikedPayload>('gallery:like'),
+    'gallery:list': reply<GalleryListPayload>('gallery:get'),
+    'gallery:publicList': reply<GalleryPublicListPayload>('gallery:getPublic'),
+    'gallery:publicToggled': reply<GalleryPublicToggledPayload>('gallery:togglePublic'),
+    'gallery:receivedLike': push<GalleryReceivedLikePayload>(),
+    'gallery:removedFromAlbum': reply<GalleryAlbumEntryPayload>('gallery:removeFromAlbum'),
+    'gallery:saved': reply<GallerySavedPayload>('gallery:save'),
+    'gallery:screenshot': reply<GalleryScreenshotPayload>('gallery:getOne'),
+    'gallery:shareTracked': reply<SuccessPayload>('gallery:trackShare'),
+    'gallery:stats': reply<GalleryStatsPayload>('gallery:getStats'),
+
+    // Daily Login
+    'daily:leaderboard': reply<DailyLeaderboardPayload>('daily:getLeaderboard'),
+    'daily:loginResult': reply<DailyLoginResultPayload>('daily:login'),
+    'daily:milestoneReached': push<DailyMilestoneReachedPayload>(),
+    'daily:mysteryBoxGranted': push<DailyMysteryBoxGrantedPayload>(),
+    'daily:playerMilestone': push<DailyPlayerMilestonePayload>(),
+    'daily:rewards': reply<DailyRewardsPayload>('daily:getRewards'),
+    'daily:streakBroken': push<DailyStreakBrokenPayload>(),
+    'daily:streakInfo': reply<DailyStreakInfoPayload>('daily:getStreak'),
+
+    // Constellation
+    'constellation:detail': reply<ConstellationDetailPayload>('constellation:getOne'),
+    'constellation:expanded': reply<ConstellationResultPayload>('constellation:expand'),
+    'constellation:formed': reply<ConstellationResultPayload>('constellation:form'),
+    'constellation:formedInRealm': push<ConstellationFormedInRealmPayload>(),
+    'constellation:globalStats': reply<ConstellationGlobalStatsPayload>('constellation:getGlobalStats'),
+    'constellation:newConstellation': push<ConstellationNewPayload>(),
+    'constellation:playerList': reply<ConstellationListPayload>('constellation:getPlayer'),
+    'constellation:potential': reply<ConstellationPotentialPayload>('constellation:checkPotential'),
+    'constellation:realmList': reply<ConstellationListPayload>('constellation:getRealm'),
+    'constellation:rewardsReceived': push<ConstellationRewardsReceivedPayload>(),
+    'constellation:stats': reply<ConstellationStatsPayload>('constellation:getStats'),
+    'constellation:updated': push<ConstellationUpdatedPayload>(),
+    'constellation:youFormedConstellation': push<YouFormedConstellationPayload>(),
+    'constellation:youJoinedConstellation': push<YouJoinedConstellationPayload>(),
+
+    // Activity Feed
+    'activity:feed': reply<FriendActivitiesPayload>('activity:getFeed'),
+    'activity:newFriendActivity': push<NewFriendActivityPayload>(),
+    'activity:playerActivities': reply<FriendActivitiesPayload>('activity:getPlayer'),
+    'activity:recorded': reply<SuccessPayload>('activity:recordLevelUp', 'activity:recordAchievement'),
+    'activity:stats': reply<ActivityStatsPayload>('activity:getStats'),
+
+    // Friends
+    'friend_added': reply<FriendAddedPayload>('friend:add'),
+    'friend_position': reply<FriendPositionPayload>('friend:getPosition'),
+    'friend_realm_changed': push<FriendRealmChangedPayload>(),
+    'friend_request_accepted': reply<FriendRequestAcceptedPayload>('friend:acceptRequest'),
+    'friend_request_declined': reply<FriendRequestDeclinedPayload>('friend:declineRequest'),
+    'friend_request_received': push<FriendRequestReceivedPayload>(),
+    'friend_status_changed': push<FriendStatusChangedPayload>(),
+    'friend_statuses': reply<FriendStatusesPayload>('friend:getStatuses'),
+    'friend_teleporting_to_you': push<FriendTeleportingToYouPayload>(),
+    'teleport_to_friend_result': reply<TeleportToFriendResultPayload>('friend:teleportTo'),
+
+    // Map Markers (v2)
+    'marker_added': push<MarkerAddedPayload>(),
+    'marker_created': reply<MarkerCreatedPayload>('marker:create'),
+    'marker_deleted': reply<MarkerIdPayload>('marker:delete'),
+    'marker_removed': push<MarkerIdPayload>(),
+    'marker_share_accepted': push<MarkerShareAcceptedPayload>(),
+    'marker_share_invite': push<MarkerShareInvitePayload>(),
+    'marker_share_sent': reply<MarkerShareSentPayload>('marker:share'),
+    'marker_updated': reply<MarkerUpdatedPayload>('marker:update'),
+    'markers_list': reply<MarkersListPayload>('marker:get'),
+    'preset_deleted': reply<PresetDeletedPayload>('marker:deletePreset'),
+    'preset_saved': reply<PresetSavedPayload>('marker:savePreset'),
+    'presets_list': reply<PresetsListPayload>('marker:getPresets'),
+    'share_invite_accepted': reply<MarkerIdPayload>('marker:acceptShare'),
+    'share_invite_declined': reply<ShareInviteDeclinedPayload>('marker:declineShare'),
+
+    // Seek Mode
+    'seek:attemptFind:error': reply<ErrorReplyPayload>('seek:attemptFind'),
+    'seek:attemptFind:result': reply<SeekAttemptFindResultPayload>('seek:attemptFind'),
+    'seek:confirmHiding:error': reply<ErrorReplyPayload>('seek:confirmHiding'),
+    'seek:confirmHiding:success': reply<EmptyPayload>('seek:confirmHiding'),
+    'seek:createGame:error': reply<ErrorReplyPayload>('seek:createGame'),
+    'seek:createGame:success': reply<SeekGamePayload>('seek:createGame'),
+    'seek:gameCreated': push<SeekGameCreatedPayload>(),
+    'seek:getCurrent:result': reply<SeekCurrentGamePayload>('seek:getCurrent'),
+    'seek:getGames:result': reply<SeekGamesPayload>('seek:getGames'),
+    'seek:getHistory:result': reply<SeekHistoryPayload>('seek:getHistory'),
+    'seek:joinGame:error': reply<ErrorReplyPayload>('seek:joinGame'),
+    'seek:joinGame:success': reply<SeekGamePayload>('seek:joinGame'),
+    'seek:leaveGame:success': reply<EmptyPayload>('seek:leaveGame'),
+    'seek:playerJoined': push<SeekPlayerJoinedPayload>(),
+    'seek:startGame:error': reply<ErrorReplyPayload>('seek:startGame'),
+    'seek:startGame:success': reply<SeekGameStartedPayload>('seek:startGame'),
+
+    // Analytics
+    'analytics:endAmbient:error': reply<ErrorReplyPayload>('analytics:endAmbient'),
+    'analytics:endAmbient:success': reply<EmptyPayload>('analytics:endAmbient'),
+    'analytics:endGameMode:error': reply<ErrorReplyPayload>('analytics:endGameMode'),
+    'analytics:endGameMode:success': reply<EmptyPayload>('analytics:endGameMode'),
+    'analytics:getAmbientStats:error': reply<ErrorReplyPayload>('analytics:getAmbientStats'),
+    'analytics:getAmbientStats:result': reply<StatsPayload<AmbientStats>>('analytics:getAmbientStats'),
+    'analytics:getGameModeStats:error': reply<ErrorReplyPayload>('analytics:getGameModeStats'),
+    'analytics:getGameModeStats:result': reply<StatsPayload<GameModeStats>>('analytics:getGameModeStats'),
+    'analytics:getGlobalAmbientStats:error': reply<ErrorReplyPayload>('analytics:getGlobalAmbientStats'),
+    'analytics:getGlobalAmbientStats:result': reply<StatsPayload<GlobalAmbientStats>>('analytics:getGlobalAmbientStats'),
+    'analytics:getGlobalGameModeStats:error': reply<ErrorReplyPayload>('analytics:getGlobalGameModeStats'),
+    'analytics:getGlobalGameModeStats:result': reply<StatsPayload<GlobalGameModeStats>>('analytics:getGlobalGameModeStats'),
+    'analytics:getPreferences:error': reply<ErrorReplyPayload>('analytics:getPreferences'),
+    'analytics:getPreferences:result': reply<PreferencesPayload>('analytics:getPreferences'),
+    'analytics:startAmbient:error': reply<ErrorReplyPayload>('analytics:startAmbient'),
+    'analytics:startAmbient:success': reply<AnalyticsSessionPayload>('analytics:startAmbient'),
+    'analytics:startGameMode:error': reply<ErrorReplyPayload>('analytics:startGameMode'),
+    'analytics:startGameMode:success': reply<AnalyticsSessionPayload>('analytics:startGameMode'),
+    'analytics:updateFilters:error': reply<ErrorReplyPayload>('analytics:updateFilters'),
+    'analytics:updateFilters:success': reply<EmptyPayload>('analytics:updateFilters'),
+    'analytics:updatePreferences:error': reply<ErrorReplyPayload>('analytics:updatePreferences'),
+    'analytics:updatePreferences:success': reply<PreferencesUpdatedPayload>('analytics:updatePreferences')
+} satisfies Record<string, ServerMessageSpec<unknown>>;
+
+export type ServerMessageType = keyof typeof SERVER_MESSAGES;
+
+export type ServerPayload<T extends ServerMessageType> =
+    (typeof SERVER_MESSAGES)[T] extends ServerMessageSpec<infer P> ? P : never;
+
+/**
+ * Envelope of a server message as it goes over the wire
+ */
+export interface ServerMessage<T extends ServerMessageType = ServerMessageType> {
+    type: T;
+    data?: ServerPayload<T>;
+    timestamp?: number;
+    seq?: number;               // Reliable messages only
+}
+
+export function isServerMessageType(type: string): type is ServerMessageType {
+    return Object.prototype.hasOwnProperty.call(SERVER_MESSAGES, type);
+}
@@ -0,0 +1,3153 @@
+// =============================================================================
+// Server → Client Payloads
+// =============================================================================
+// The `data` of every server message, grouped like the catalog in
+// ./messages.ts. These describe the wire: nested records list the fields the
+// client can rely on, and a server record with more fields still fits.
+//
+// This file is compiled by both the client and the server: it must not import
+// server-only code.
+// =============================================================================
+
+import type { RealmEntryDenial } from '../realms.js';
+import type { ValidatedPayload } from './requests.js';
+
+// =============================================================================
+// SHARED TYPES
+// =============================================================================
+
+// Dates are Date objects on the server and ISO strings once serialized
+export type WireDate = Date | string;
+
+// Record ids are ObjectIds in MongoDB and strings in memory; both serialize to a string
+export type WireId = string | { toHexString(): string };
+
+// Acknowledgements that carry nothing beyond their type
+export type EmptyPayload = Record<string, never>;
+
+export interface SuccessPayload {
+    success: boolean;
+    error?: string;
+}
+
+export interface ErrorPayload {
+    message: string;
+}
+
+export interface ErrorReplyPayload {
+    error: string;
+}
+
+export interface PlayerRef {
+    playerId: string;
+    playerName: string;
+}
+
+export interface XpReward {
+    stardust: number;
+    xp: number;
+}
+
+// =============================================================================
+// CONNECTION & WORLD PAYLOADS
+// =============================================================================
+
+export interface SessionGrant {
+    token: string;
+    playerId: string;
+    guest: boolean;
+    expiresAt: number;
+}
+
+export interface PongPayload {
+    timestamp?: number;         // Echo of the ping's timestamp
+}
+
+export interface RateLimitedPayload {
+    type: string;               // The rejected message type
+    limit: string;              // 'global' or the policy's bucket
+    reason: 'flood' | 'rate' | 'cooldown';
+    retryAfter: number;         // ms until the message would be accepted
+}
+
+export interface SessionResumedPayload {
+    replayed: number;
+    suspendedFor: number;
+}
+
+export interface ServerRestartingPayload {
+    resumeToken: string;
+    session: SessionGrant;
+    reconnectIn: number;
+}
+
+export interface RealmHandoffPayload {
+    realm: string;
+    shardId: string;
+    url: string;
+    session: SessionGrant;
+}
+
+export interface RealmDeniedPayload {
+    realm: string;              // Where the player was kept
+    requested: string;
+    reason: RealmEntryDenial;
+    unlockLevel?: number;
+    capacity?: number;
+}
+
+export interface PlayerIdPayload {
+    playerId: string;
+}
+
+export interface WorldPlayer {
+    id: string;
+    name: string;
+    x: number;
+    y: number;
+    hue: number;
+    xp: number;
+    level: number;
+}
+
+export interface WorldBot {
+    id: string;
+    name: string;
+    x: number;
+    y: number;
+    hue: number;
+    xp: number;
+    singing: number;
+    pulsing: number;
+    emoting: string | null;
+    isBot: true;
+    realm: string;
+    message: string | null;
+    messageTimer: number;
+}
+
+export interface WorldEcho {
+    id: string;
+    playerId: string;
+    playerName: string;
+    message: string;
+    x: number;
+    y: number;
+    createdAt: number;
+    expiresAt: number;
+    resonanceCount: number;
+    hue?: number;
+}
+
+export interface WorldNebula {
+    id: string;
+    x: number;
+    y: number;
+    radius: number;
+    hue: number;
+    alpha: number;
+}
+
+export interface WorldStar {
+    id: string;
+    x: number;
+    y: number;
+    size: number;
+    alpha: number;
+    twinklePhase: number;
+}
+
+export interface InitialStatePayload {
+    playerId: string;
+    isGuest: boolean;
+    realm: string;
+    codec: 'binary' | 'json';
+    players: WorldPlayer[];
+    bots: WorldBot[];
+    echoes: WorldEcho[];
+    litStars: string[];
+    nebulae: WorldNebula[];     // Static, only sent here
+    stars: WorldStar[];
+    serverTime: number;
+    resume: {
+        token: string | null;   // Reconnect with this to resume
+        graceMs: number;
+        newSession: boolean;    // Message sequencing restarted
+    };
+}
+
+export interface PositionCorrectionPayload {
+    x: number;
+    y: number;
+    reason: string;
+    seq?: number;               // The player_update input it answers
+}
+
+// One replicated entity: null clears a field
+export interface ReplicatedEntityState {
+    id: string;
+    x?: number;
+    y?: number;
+    [field: string]: unknown;
+}
+
+export type ReplicatedCollectionName = 'players' | 'bots' | 'echoes' | 'fragments' | 'powerUps' | 'beacons';
+
+export interface WorldDeltaPayload {
+    tick: number;
+    baseTick: number | null;    // null = keyframe (client replaces its state)
+    keyframe: boolean;
+    serverTime: number;
+    collections: Partial<Record<ReplicatedCollectionName, {
+        upsert?: ReplicatedEntityState[];
+        remove?: string[];
+    }>>;
+    litStars?: { add?: string[]; remove?: string[] };
+}
+
+// =============================================================================
+// GAME ACTION PAYLOADS
+// =============================================================================
+
+export interface BeaconState {
+    id: string;
+    realm: string;
+    x: number;
+    y: number;
+    litAt: number;
+    litBy: string;
+    charge: number;             // 0-100
+    isProtected: boolean;
+    protectedBy: string[];
+    permanentlyLit: boolean;
+}
+
+export interface BeaconLitPayload {
+    beaconId: string;
+    playerId: string;
+    beacon: BeaconState;
+    xpAwarded: number;
+}
+
+export interface BeaconStateUpdatePayload {
+    beaconId: string;
+    beacon: BeaconState;
+    litBy: string;
+    litByName: string;
+    x: number;
+    y: number;
+}
+
+export interface EchoResonatedPayload {
+    echoId: string;
+    resonanceCount: number;
+    resonatedBy: string;
+}
+
+export interface EmotePayload {
+    playerId: string;
+    emoteId: string;
+    x: number;
+    y: number;
+    timestamp: number;
+}
+
+export interface FragmentCollectedPayload {
+    fragmentId: string;
+    value: number;
+    isGolden: boolean;
+    xpGained: number;
+    totalXp: number;
+}
+
+export interface FragmentRemovedPayload {
+    fragmentId: string;
+    collectedBy?: string;       // Set when a bot took it
+    botDriven?: boolean;
+}
+
+export interface FragmentSpawnedPayload {
+    id: string;
+    x: number;
+    y: number;
+    isGolden: boolean;
+    value: number;
+    phase: number;
+    eventId?: string;           // Spawned by a world event
+}
+
+export interface PulsePayload {
+    playerId: string;
+    x: number;
+    y: number;
+    intensity: number;
+    color: string | number;     // The requested hex color, or the player's hue
+    timestamp: number;
+}
+
+export interface PulsePatternBroadcastPayload {
+    playerId: string;
+    playerName: string;
+    patternId: string;
+    patternName: string;
+    description: string;
+    x: number;
+    y: number;
+    color: number;
+}
+
+export interface PulsePatternConfirmedPayload {
+    patternId: string;
+    patternName: string;
+    xpEarned: number;
+}
+
+export interface PulsePatternInfo {
+    id: string;
+    name: string;
+    description: string;
+    pulseCount: number;
+    difficulty: 'easy' | 'medium' | 'hard';
+    xpReward: number;
+}
+
+export interface PulsePatternsListPayload {
+    patterns: PulsePatternInfo[];
+}
+
+export interface ResonanceReceivedPayload {
+    fromId: string;
+    fromName: string;
+    strength: number;
+}
+
+export interface ResonanceSentPayload {
+    targetId: string;
+    strength: number;
+}
+
+export interface StarLitPayload {
+    starId: string;
+    playerId: string;
+    playerName: string;
+    timestamp: number;
+}
+
+export interface VoiceRipplePayload {
+    playerId: string;
+    x: number;
+    y: number;
+    pitch: number;
+    duration: number;
+    intensity: number;
+    timestamp: number;
+}
+
+export interface WavePayload {
+    playerId: string;
+    playerName: string;
+    targetId?: string;
+    x: number;
+    y: number;
+    timestamp: number;
+}
+
+// =============================================================================
+// CHAT PAYLOADS
+// =============================================================================
+
+export interface ChatMessagePayload {
+    playerId: string;
+    playerName: string;
+    message: string;
+    channel: string;
+    timestamp: number;
+}
+
+export interface EmojiReactionPayload {
+    playerId: string;
+    emoji: string;
+    targetId?: string;
+    timestamp: number;
+}
+
+export interface ModerationSanctionPayload {
+    until: number | null;       // null = indefinitely
+    reason: string;
+}
+
+export interface ModerationNoticePayload {
+    reason?: 'muted' | 'blocked_content' | 'flood' | 'repeat';
+    message: string;
+    strikes?: number;
+    mutedUntil?: number | null;
+}
+
+export interface ReportSubmittedPayload {
+    reportId: string;
+    targetId: string;
+}
+
+export interface TypingIndicatorPayload {
+    playerId: string;
+    isTyping: boolean;
+}
+
+export interface WhisperReceivedPayload {
+    fromId: string;
+    fromName: string;
+    message: string;
+    timestamp: number;
+}
+
+export interface WhisperSentPayload {
+    toId: string;
+    message: string;
+    timestamp: number;
+}
+
+// =============================================================================
+// PROGRESSION PAYLOADS
+// =============================================================================
+
+export type ChallengeDifficulty = 'easy' | 'medium' | 'hard';
+
+export interface DailyChallenge {
+    id: string;
+    type: string;
+    desc: string;
+    progress: number;
+    target: number;
+    reward: XpReward;
+    completed: boolean;
+    claimed: boolean;
+    difficulty: ChallengeDifficulty;
+}
+
+export interface WeeklyChallenge extends DailyChallenge {
+    bonusReward?: XpReward;
+}
+
+export type CosmeticSlot = 'trail' | 'aura' | 'pulse' | 'color' | 'title';
+
+export interface ProgressionPayload {
+    playerId: string;
+    stardust: number;
+    crystals: number;           // Premium currency
+    dailyLoginStreak: number;
+    longestStreak: number;
+    totalLogins: number;
+    lastLoginDate: string | null;
+    seasonPassTier: number;
+    seasonPassXP: number;
+    seasonId: string;
+    isPremiumPass: boolean;
+    claimedDailyRewards: number[];
+    claimedSeasonRewards: number[];
+    guildId: string | null;
+    guildBonus: number;
+    totalChallengesCompleted: number;
+    rankPoints: number;
+    unlockedCosmetics: string[];
+    unlockedTitles: string[];
+    equippedCosmetics: Record<CosmeticSlot, string | null>;
+    dailyChallenges: DailyChallenge[];
+    weeklyChallenges: WeeklyChallenge[];
+}
+
+export interface AchievementUnlockedPayload {
+    achievementId: string;
+    validated: boolean;
+    xpAwarded: number;
+}
+
+export type ActivityFeedType = 'levelUp' | 'achievement' | 'gift' | 'online' | 'milestone' | 'bondFormed' | 'guildJoin' | 'challenge';
+
+export interface ActivityFeedEntry {
+    playerId: string;           // Owner of the feed
+    actorId: string;
+    actorName: string;
+    type: ActivityFeedType;
+    description: string;
+    data?: Record<string, unknown>;
+    read: boolean;
+    createdAt: WireDate;
+}
+
+export interface ActivityFeedPayload {
+    feed: ActivityFeedEntry[];
+    unreadCount: number;
+    total: number;
+}
+
+export interface ChallengeRerolledPayload {
+    challengeId: string;
+    success: boolean;
+}
+
+export interface ChallengeRewardClaimedPayload {
+    challengeId: string;
+    reward: XpReward;
+}
+
+export interface CosmeticEquippedPayload {
+    slot: CosmeticSlot;
+    cosmeticId: string | null;
+}
+
+export interface CosmeticPurchaseFailedPayload {
+    cosmeticId: string;
+    error: string;
+    stardust?: number;          // Current balance, when known
+}
+
+export interface CosmeticPurchasedPayload {
+    cosmeticId: string;
+    cost: number;
+    newStardust: number;
+}
+
+export interface DailyRewardClaimedPayload {
+    success: boolean;
+    reward?: {
+        stardust: number;
+        day: number;            // Day of the 30-day cycle
+        streak: number;
+    };
+    streakBonus?: number;
+}
+
+export interface FeedMarkedReadPayload {
+    entryIds: string[] | 'all';
+    success: boolean;
+}
+
+export interface SeasonRewardClaimedPayload {
+    success: boolean;
+    reward?: { tier: number; claimed: boolean };
+}
+
+export interface UnreadCountPayload {
+    unreadCount: number;
+}
+
+// =============================================================================
+// PLAYER DATA PAYLOADS
+// =============================================================================
+
+export interface PlayerStats {
+    starsLit: number;
+    echoesCreated: number;
+    sings: number;
+    pulses: number;
+    emotes: number;
+    teleports: number;
+    whispersSent: number;
+    connections: number;
+    fragmentsCollected: number;
+    beaconsLit: number;
+    bondsFormed: number;
+    giftsGiven: number;
+    giftsReceived: number;
+    challengesCompleted: number;
+    weeklyChallengesCompleted: number;
+    questsCompleted: number;
+}
+
+export interface PlayerSettings {
+    musicEnabled: boolean;
+    soundEnabled: boolean;
+    masterVolume: number;
+    musicVolume: number;
+    sfxVolume: number;
+    particlesEnabled: boolean;
+    screenShake: boolean;
+    reducedMotion: boolean;
+    colorblindMode: string | null;
+    highContrast: boolean;
+    notifications: boolean;
+    autoSave: boolean;
+}
+
+export interface PlayerCosmetics {
+    ownedItems: string[];
+    equippedTrail: string | null;
+    equippedAura: string | null;
+    equippedTitle: string | null;
+    equippedEmotes: string[];
+    equippedPulseEffect: string | null;
+}
+
+export interface PlayerCompanions {
+    ownedIds: string[];
+    activeId: string | null;
+    companionLevels: { [key: string]: number };
+    companionXp: { [key: string]: number };
+}
+
+export interface PlayerExploration {
+    discoveredAreas: string[];
+    visitedRealms: string[];
+    totalDistance: number;
+    explorationPercent: number;
+    discoveries: { id: string; type: string; timestamp: number }[];
+    x?: number;                 // Only in client updates, not stored
+    y?: number;
+}
+
+export interface PlayerQuests {
+    activeQuestIds: string[];
+    completedQuestIds: string[];
+    questProgress: Record<string, number>;
+}
+
+export interface PlayerAnchoring {
+    breathingCompleted: number;
+    lastAnchorDate: string | null;
+    preferredProvider: string | null;
+    sessionHistory: { type: string; duration: number; timestamp: number }[];
+}
+
+export interface PlayerGameState {
+    lastRealm: string;
+    lastPosition: { x: number; y: number };
+    litBeacons: string[];
+    bonds: { targetId: string; strength: number; type: string }[];
+    starMemories: { starId: string; memory: string; timestamp: number }[];
+}
+
+export interface PlayerLeaderboard {
+    rankPoints: number;
+    weeklyXp: number;
+    weeklyWins: number;
+    monthlyXp: number;
+    peakRank: string;
+}
+
+export interface PlayerDataPayload {
+    playerId: string;
+    name: string;
+    hue: number;
+    avatar: string;
+    xp: number;
+    level: number;
+    stardust: number;
+    lifetimeStardust: number;
+    seasonId: string;
+    seasonXp: number;
+    seasonLevel: number;
+    seasonTier: number;
+    claimedSeasonRewards: number[];
+    dailyLoginStreak: number;
+    longestStreak: number;
+    totalLogins: number;
+    lastLoginDate: string | null;
+    currentMonth: string | null;
+    claimedDailyRewards: number[];
+    stats: PlayerStats;
+    achievements: string[];
+    cosmetics: PlayerCosmetics;
+    companions: PlayerCompanions;
+    exploration: PlayerExploration;
+    quests: PlayerQuests;
+    anchoring: PlayerAnchoring;
+    gameState: PlayerGameState;
+    leaderboard: PlayerLeaderboard;
+    settings: PlayerSettings;
+}
+
+export interface RejectedField {
+    field: string;
+    reason: 'server_owned' | 'invalid';
+}
+
+export interface PlayerDataSyncedPayload {
+    success: boolean;
+    accepted: string[];         // Dot-notation paths that were stored
+    rejected: RejectedField[];
+}
+
+export type SettingsUpdatedPayload =
+    | { success: boolean; settings: ValidatedPayload<'update_settings'>; rejected: RejectedField[] }
+    | { success: false; error: string };
+
+export interface FriendAcceptedPayload {
+    friendId: string;
+}
+
+export interface FriendDeclinedPayload {
+    requesterId: string;
+}
+
+export interface FriendRemovedPayload {
+    friendId: string;
+}
+
+export type FriendRequestSentPayload =
+    | { requestId: string; toPlayerId: string }
+    | { targetId: string };
+
+export interface FriendInfo {
+    friendId: string;
+    friendName: string;
+    addedAt: WireDate;
+    isOnline: boolean;
+    realm?: string;             // Only while online
+}
+
+export interface FriendsListPayload {
+    friends: FriendInfo[];
+}
+
+export interface FriendRequestInfo {
+    requestId: string;
+    fromPlayerId: string;
+    fromPlayerName: string;
+    message: string | null;
+    createdAt: WireDate;
+}
+
+export interface PendingFriendRequestsPayload {
+    requests: FriendRequestInfo[];
+}
+
+export type FriendTeleportedToYouPayload = PlayerRef;
+
+export interface TeleportToFriendPayload {
+    success: true;
+    friendId: string;
+    x: number;
+    y: number;
+    realm: string;
+}
+
+// =============================================================================
+// COMMUNICATION SYNC PAYLOADS
+// =============================================================================
+
+export interface CommunicationDataPayload {
+    friends: string[];
+    blocked: string[];
+    favoriteEmotes: string[];
+    chatEnabled: boolean;
+    signalsEnabled: boolean;
+}
+
+// =============================================================================
+// MAP MARKER PAYLOADS
+// =============================================================================
+
+export interface FriendMarker {
+    id: string;
+    playerId: string;
+    playerName: string;
+    x: number;
+    y: number;
+    realm: string;
+    label?: string;
+    icon?: string;
+    expiresAt: number;
+}
+
+export interface FriendMarkersPayload {
+    markers: FriendMarker[];
+}
+
+export interface FriendMarkerUpdatePayload {
+    playerId: string;
+    playerName: string;
+    markerId: string;
+    x: number;
+    y: number;
+    label?: string;
+    icon?: string;
+    expiresAt: number;
+}
+
+export interface MapMarkerPlacedPayload {
+    markerId: string;
+    expiresAt: number;
+}
+
+export interface MapMarkerRemovedPayload {
+    markerId: string;
+}
+
+// =============================================================================
+// COMPANION PAYLOADS
+// =============================================================================
+
+export interface OwnedCompanion {
+    companionId: string;
+    level: number;
+    xp: number;
+    acquiredAt: WireDate;
+}
+
+export interface CompanionDataPayload {
+    playerId: string;
+    ownedCompanions: OwnedCompanion[];
+    equippedCompanionId: string | null;
+    constellationPieces: string[];
+    completedConstellations: string[];
+    earnedBadges: string[];
+    totalFragmentsCollected: number;
+    totalCompanionXPEarned: number;
+}
+
+export interface CompanionEquippedPayload {
+    companionId: string;
+}
+
+export interface CompanionFedPayload {
+    newXP: number;
+    newLevel: number;
+    levelUp: boolean;
+}
+
+export interface CompanionPurchasedPayload {
+    companionId: string;
+    newStardust: number;
+}
+
+export interface CompanionRenamedPayload {
+    name: string;
+}
+
+// =============================================================================
+// PET PAYLOADS
+// =============================================================================
+
+export interface PetStats {
+    happiness: number;
+    hunger: number;
+    lastInteracted: number;
+}
+
+export interface PetIdPayload {
+    petId: string;
+}
+
+export interface PetAdoptedPayload {
+    petId: string;
+    message: string;
+}
+
+export interface PetDetailsPayload {
+    id: string;
+    level: number;
+    xp: number;
+    stats: PetStats;
+    isEquipped: boolean;
+}
+
+export interface PetUpdatedPayload {
+    petId: string;
+    stats: PetStats;
+    activity: 'feed' | 'play';
+}
+
+// =============================================================================
+// WORLD EVENT PAYLOADS
+// =============================================================================
+
+export type DarknessPhase = 'calm' | 'warning' | 'active' | 'cooldown';
+
+export interface DarknessWarningPayload {
+    realm: string;
+    waveNumber: number;
+    warningDuration: number;    // Seconds
+}
+
+export interface DarknessActivePayload {
+    realm: string;
+    waveNumber: number;
+    duration: number;           // Seconds
+    forced?: boolean;           // Started by a world event
+}
+
+export interface DarknessEndedPayload {
+    realm: string;
+    waveNumber: number;
+    playersEndangered: number;
+    playersRescued: number;
+    cooldown: number;           // Seconds
+}
+
+export interface DarknessClearedPayload {
+    realm: string;
+    forced?: boolean;
+}
+
+export interface DarknessUpdatePayload {
+    phase: DarknessPhase;
+    intensity: number;          // 0-1
+    timeRemaining?: number;     // Seconds until the next phase
+    nextPhase?: DarknessPhase;
+    realm?: string;
+    waveNumber?: number;
+}
+
+export interface DarknessFoughtPayload {
+    power: number;
+    realm: string;
+}
+
+export interface DarknessHazardsPayload {
+    inSafeZone: boolean;
+    phase: DarknessPhase;
+    intensity: number;
+}
+
+export interface DarknessLevelPayload {
+    level: 'none' | 'low' | 'medium' | 'high' | 'extreme';
+    intensity: number;
+    phase: DarknessPhase;
+    realm: string;
+}
+
+export interface WorldEventRewards {
+    xpBonus: number;            // Multiplier (1.0 = normal)
+    stardustBonus: number;
+    participationXp: number;
+    completionXp: number;
+    completionStardust: number;
+    cosmetic?: string;
+    title?: string;
+}
+
+export interface WorldEventInfo {
+    id: string;
+    type: string;
+    name: string;
+    description: string;
+    realm: string;              // A realm id or 'all'
+    startTime: number;
+    endTime: number;
+    progress: number;           // 0-100
+    rewards: WorldEventRewards;
+    data: Record<string, unknown>;
+    isActive: boolean;
+}
+
+export interface WorldEventsPayload {
+    events: WorldEventInfo[];
+}
+
+export interface WorldEventStartedPayload {
+    event: WorldEventInfo;
+}
+
+export interface WorldEventEndedPayload {
+    eventId: string;
+    event: WorldEventInfo;
+}
+
+export interface WorldEventProgressPayload {
+    eventId: string;
+    eventType: string;
+    counters: Record<string, number>;
+    participants: number;
+    totalContribution: number;
+}
+
+export interface EventBonusesPayload {
+    bonuses: Array<WorldEventRewards & { eventId: string }>;
+}
+
+export interface EventContributions {
+    fragments: number;
+    beacons: number;
+    bonds: number;
+    actions: number;
+    custom: Record<string, number>;
+}
+
+export interface EventContributionPayload {
+    eventId: string;
+    contribution: string;       // The contribution type
+    amount: number;
+    newTotal: number;
+}
+
+export interface EventJoinedPayload {
+    eventId: string;
+    isNewParticipant: boolean;
+    progress: {
+        contributions: EventContributions;
+        totalContribution: number;
+        rank: number;
+    };
+}
+
+export interface EventProgressPayload {
+    eventId: string;
+    progress: {
+        contributions: EventContributions;
+        totalContribution: number;
+        rank: number;
+        rewardsClaimed: string[];
+    };
+}
+
+export interface EventLeaderboardEntry {
+    playerId: string;
+    playerName?: string;
+    totalContribution: number;
+    rank: number;
+}
+
+export interface EventLeaderboardPayload {
+    eventId: string;
+    leaderboard: EventLeaderboardEntry[];
+}
+
+export interface EventRewardClaimedPayload {
+    eventId: string;
+    rewardId: string;
+    success: boolean;
+    alreadyClaimed?: boolean;
+}
+
+export interface EventXpGainedPayload {
+    eventId: string;
+    xpGained: number;
+    totalXp: number;
+}
+
+export interface EventHistoryPayload {
+    events: WorldEventInfo[];
+}
+
+// =============================================================================
+// POWER-UP PAYLOADS
+// =============================================================================
+
+export interface PowerUpEffectConfig {
+    duration?: number;
+    effect?: string;
+    multiplier?: number;
+    intensity?: number;
+    range?: number;
+    strength?: number;
+    opacity?: number;
+}
+
+export interface WorldPowerUp {
+    id: string;
+    type: string;
+    x: number;
+    y: number;
+    expiresAt: number;
+    config?: PowerUpEffectConfig;
+}
+
+export interface ActivePowerUp {
+    type: string;
+    remainingTime: number;      // ms
+    effect?: PowerUpEffectConfig;
+}
+
+export interface ActivePowerUpsPayload {
+    powerUps: ActivePowerUp[];
+}
+
+export type PowerUpCollectedPayload =
+    | { powerUpId: string; playerId: string }                // To the realm
+    | { powerUpId: string; type: string; duration: number; effect?: PowerUpEffectConfig };
+
+export interface PowerUpEffectAppliedPayload {
+    playerId: string;
+    effect: {
+        type: string;
+        duration: number;
+    };
+}
+
+export interface PowerUpEffectEndedPayload {
+    effectType: string;
+}
+
+export interface PowerUpExpiredPayload {
+    powerUpId: string;
+}
+
+export interface PowerUpSpawnedPayload {
+    powerUp: WorldPowerUp;
+}
+
+export interface PowerUpsStatePayload {
+    powerUps: WorldPowerUp[];
+    activeEffects: ActivePowerUp[];
+}
+
+// =============================================================================
+// TAG GAME PAYLOADS
+// =============================================================================
+
+export interface PlayerJoinedTagPayload {
+    gameId: string;
+    playerId: string;
+    playerName: string;
+    playerCount: number;
+    canStart: boolean;
+}
+
+export interface PlayerLeftTagPayload {
+    gameId: string;
+    playerId: string;
+    newTaggerId: string | null;
+    playerCount: number;
+}
+
+export interface PlayerTaggedPayload {
+    gameId: string;
+    taggerId: string;
+    taggedId: string;
+    newTaggerId: string;
+}
+
+export interface TagGameAvailablePayload {
+    gameId: string;
+    createdBy: string;
+    playersNeeded: number;
+}
+
+export interface TagGameCreatedPayload {
+    gameId: string;
+    status: 'waiting';
+    players: string[];
+    minPlayers: number;
+    maxPlayers: number;
+}
+
+export interface TagScore {
+    playerId: string;
+    tags: number;
+}
+
+export interface TagGameEndedPayload {
+    gameId: string;
+    winner: string;
+    scores: TagScore[];
+    yourRank: number;
+    yourTags: number;
+}
+
+export type TagGameStartedPayload =
+    | { gameId: string; taggerId: string; endTime: number; players: string[] }
+    | { initialTagger: string };                            // Realm tag sessions
+
+export interface TagGameListing {
+    gameId: string;
+    createdBy: string;
+    playerCount: number;
+    minPlayers: number;
+    maxPlayers: number;
+}
+
+export interface TagGamesListPayload {
+    games: TagGameListing[];
+}
+
+export interface TagOccurredPayload {
+    tagger: string;
+    tagged: string;
+}
+
+export interface TagSessionCreatedPayload {
+    session: {
+        id: string;
+        realm: string;
+        maxPlayers: number;
+        duration: number;
+        playerCount: number;
+    };
+}
+
+// =============================================================================
+// MYSTERY BOX PAYLOADS
+// =============================================================================
+
+export type Rarity = 'common' | 'uncommon' | 'rare' | 'epic' | 'legendary';
+
+export type LootRewardType = 'stardust' | 'crystals' | 'xp_boost' | 'cosmetic' | 'emote' | 'title';
+
+export interface LootReward {
+    type: LootRewardType;
+    value: number | string;
+    rarity: Rarity;
+}
+
+export interface DropRate extends LootReward {
+    chance: number;             // 0..1
+}
+
+export interface MysteryBoxInfo {
+    id: string;
+    name: string;
+    stardustCost: number;
+    crystalCost: number;
+    pity: { threshold: number; minRarity: Rarity } | null;
+    odds: DropRate[];
+    pityOdds: DropRate[] | null;
+}
+
+export interface BoxStatsPayload {
+    playerId: string;
+    boxesOpened: Record<string, number>;
+    pityCounters: Record<string, number>;
+    lastOpenTime: number;
+    totalSpent: {
+        stardust: number;
+        crystals: number;
+    };
+    rewardsReceived: Array<{
+        boxTier: string;
+        reward: LootReward;
+        timestamp: number;
+    }>;
+}
+
+export interface GlobalBoxStatsPayload {
+    totalBoxesOpened: Record<string, number>;
+    totalStardustSpent: number;
+    totalCrystalsSpent: number;
+}
+
+export interface MysteryBoxInfoPayload {
+    boxes: MysteryBoxInfo[];
+    playerStats: BoxStatsPayload;
+}
+
+export interface MysteryBoxOpenedPayload {
+    tier: string;
+    rollId: string;
+    reward: {
+        type: string;
+        rarity: Rarity;
+        value: number | string;
+        displayName: string;
+        isPityReward: boolean;
+        isDuplicate: boolean;
+    };
+    pityProgress?: {
+        current: number;
+        threshold: number;
+    };
+}
+
+export interface PityProgressPayload {
+    tier: string;
+    current: number;
+    threshold: number;
+    percentage: number;
+}
+
+export interface RareRewardObtainedPayload {
+    playerName: string;
+    rewardName: string;
+    rarity: Rarity;
+}
+
+// =============================================================================
+// ANCHORING PAYLOADS
+// =============================================================================
+
+export type AnchoringTheme = 'tranquil' | 'cosmic' | 'nature' | 'void' | 'celestial';
+
+export interface AnchoringZone {
+    id: string;
+    name: string;
+    realm: string;
+    position: { x: number; y: number };
+    radius: number;
+    theme: AnchoringTheme;
+    minSessionDuration: number; // seconds
+    maxSessionDuration: number; // seconds
+    bonusMultiplier: number;
+    ambientSound?: string;
+    visualEffect?: string;
+}
+
+export interface MeditationReward {
+    xp: number;
+    stardust: number;
+    mindfulnessPoints: number;
+    bonusesApplied: string[];
+}
+
+export interface MeditationSession {
+    sessionId: string;
+    playerId: string;
+    zoneId: string;
+    startTime: number;
+    endTime?: number;
+    duration: number;           // seconds
+    interrupted: boolean;
+    rewards: MeditationReward;
+}
+
+export interface AnchoringZonesPayload {
+    zones: AnchoringZone[];
+}
+
+export interface BreathingSyncPayload {
+    playerId: string;
+    phase: string;
+}
+
+export interface EnteredAnchoringZonePayload {
+    zoneId: string;
+    sessionId: string;
+    zoneInfo: AnchoringZone;
+}
+
+export interface MeditationStartedPayload {
+    sessionId: string;
+    zone: AnchoringZone;
+}
+
+export interface LeftAnchoringZonePayload {
+    zoneId: string;
+    session?: MeditationSession;
+    rewards?: MeditationReward;
+}
+
+export interface MeditationEndedPayload {
+    sessionId: string;
+    session?: MeditationSession;
+    rewards?: MeditationReward;
+}
+
+export interface MindfulnessStatsPayload {
+    playerId: string;
+    totalMeditationTime: number;    // seconds
+    sessionsCompleted: number;
+    longestSession: number;         // seconds
+    currentStreak: number;
+    bestStreak: number;
+    lastSessionDate: string;        // YYYY-MM-DD
+    mindfulnessLevel: number;
+    mindfulnessXP: number;
+    unlockedZones: string[];
+    achievements: string[];
+    dailyGoalProgress: number;      // seconds
+    dailyGoalTarget: number;        // seconds
+}
+
+export interface PlayerJoinedZonePayload extends PlayerRef {
+    zoneId: string;
+}
+
+export type PlayerMeditatingPayload = PlayerRef;
+
+// =============================================================================
+// LEADERBOARD PAYLOADS
+// =============================================================================
+
+export type LeaderboardPeriod = 'alltime' | 'weekly' | 'monthly';
+
+export interface LeaderboardEntry {
+    rank: number;
+    playerId: string;
+    name: string;
+    avatar: string;
+    value: number;
+    level?: number;
+    seasonTier?: number;
+    hue?: number;
+}
+
+export interface LeaderboardPayload {
+    leaderboardType: string;
+    period: LeaderboardPeriod;
+    offset: number;
+    entries: LeaderboardEntry[];
+    totalPlayers: number;
+    lastUpdated: WireDate;
+}
+
+export type PlayerRankPayload =
+    | { leaderboardType: string; rank: number; value: number; percentile: number }
+    | { leaderboardType: string; rank: null };
+
+export interface NearbyRanksPayload {
+    leaderboardType: string;
+    players: LeaderboardEntry[];
+    yourRank?: number;
+}
+
+export interface FriendLeaderboardPayload {
+    leaderboardType: string;
+    entries: LeaderboardEntry[];
+}
+
+export interface RealmLeaderboardPayload extends FriendLeaderboardPayload {
+    realm: string;
+}
+
+export interface LeaderboardTypesPayload {
+    types: Array<{ id: string; name: string; description: string }>;
+}
+
+export interface GlobalStatsPayload {
+    totalPlayers: number;
+    totalXp: number;
+    totalStars: number;
+    totalEchoes: number;
+    totalConnections: number;
+}
+
+export interface LeaderboardRankChangedPayload {
+    leaderboardType: string;
+    period: LeaderboardPeriod;
+    rank: number;
+    previousRank: number | null;
+    milestone: number;          // The top-N the player entered or left
+    entered: boolean;
+}
+
+// =============================================================================
+// QUEST PAYLOADS
+// =============================================================================
+
+export type QuestStatus = 'available' | 'active' | 'completed' | 'claimed' | 'expired';
+
+export interface QuestRewards {
+    xp: number;
+    stardust: number;
+    cosmetic?: string;
+    title?: string;
+    companion?: string;
+}
+
+export interface QuestObjective {
+    id: string;
+    type: string;
+    description: string;
+    target: number;
+    progress: number;
+    completed: boolean;
+}
+
+export interface QuestProgress {
+    questId: string;
+    status: QuestStatus;
+    startedAt: WireDate | null;
+    completedAt: WireDate | null;
+    objectives: QuestObjective[];
+    expiresAt: WireDate | null;
+}
+
+export interface QuestInfo {
+    id: string;
+    name: string;
+    description: string;
+    type: 'daily' | 'weekly' | 'story' | 'event' | 'achievement';
+    category: string;
+    chapter?: number;
+    objectives: Array<{ id: string; type: string; description: string; target: number }>;
+    rewards: QuestRewards;
+    choices?: Array<{ id: string; label: string; description?: string; rewards?: Partial<QuestRewards> }>;
+    expirationHours?: number;
+}
+
+export interface QuestsDataPayload {
+    playerId: string;
+    quests: QuestProgress[];
+    activeQuestIds: string[];
+    completedQuestIds: string[];
+    questChoices: string[];         // Branches taken, `<questId>:<choiceId>`
+    dailyQuestDate: string | null;
+    weeklyQuestDate: string | null;
+    dailyQuestsCompleted: number;
+    weeklyQuestsCompleted: number;
+    storyChapter: number;
+    storyProgress: number;
+    totalQuestsCompleted: number;
+    totalRewardsClaimed: number;
+}
+
+export interface QuestListPayload {
+    quests: QuestProgress[];
+}
+
+export interface StoryQuestsPayload {
+    quests: QuestInfo[];
+}
+
+export interface QuestIdPayload {
+    questId: string;
+}
+
+export interface QuestProgressUpdatedPayload {
+    objectiveType: string;
+    completedQuests: string[];
+}
+
+export interface QuestRewardClaimedPayload {
+    questId: string;
+    choiceId?: string;
+    rewards?: QuestRewards;
+}
+
+export interface QuestStatsPayload {
+    totalCompleted: number;
+    dailyCompleted: number;
+    weeklyCompleted: number;
+    storyProgress: { chapter: number; progress: number };
+    activeQuests: number;
+}
+
+// =============================================================================
+// SIGNAL PAYLOADS
+// =============================================================================
+
+export type SignalType =
+    | 'wave' | 'invitation' | 'distress' | 'celebration' | 'discovery'
+    | 'rally' | 'warning' | 'thanks' | 'farewell' | 'heart';
+
+export interface Signal {
+    id: string;
+    senderId: string;
+    senderName: string;
+    type: SignalType;
+    position: { x: number; y: number };
+    realm: string;
+    targetId?: string;
+    message?: string;
+    intensity: number;          // 1-3, affects visibility range
+    color: number;              // Hue
+    createdAt: number;
+    expiresAt: number;
+}
+
+export interface SignalConfig {
+    type: SignalType;
+    name: string;
+    icon: string;
+    baseRange: number;
+    duration: number;           // ms
+    cooldown: number;           // ms
+    unlockLevel?: number;
+}
+
+export interface SignalIdPayload {
+    signalId: string;
+}
+
+export interface SignalReceivedPayload {
+    signal: Signal;
+}
+
+export interface SignalsListPayload {
+    signals: Array<{ signal: Signal; distance: number; isNew: boolean }>;
+}
+
+export interface DirectedSignalsPayload {
+    signals: Signal[];
+}
+
+export interface SignalCooldownsPayload {
+    cooldowns: Record<SignalType, number>;
+}
+
+export interface SignalTypesPayload {
+    available: SignalConfig[];
+    all: SignalConfig[];
+}
+
+// =============================================================================
+// EXPLORATION PAYLOADS
+// =============================================================================
+
+export type PoiType = 'shrine' | 'ruin' | 'fountain' | 'monument' | 'portal' | 'hidden' | 'ancient';
+
+export interface ExplorationMilestone {
+    id: string;
+    name: string;
+    unlockedAt: number;
+    reward: {
+        xp?: number;
+        stardust?: number;
+        title?: string;
+        cosmetic?: string;
+    };
+}
+
+export interface Poi {
+    id: string;
+    realm: string;
+    x: number;
+    y: number;
+    type: PoiType;
+    name: string;
+    discoveredBy: string | null;
+    discoveredAt: number | null;
+    xpReward: number;
+    description?: string;
+}
+
+export interface Biome {
+    id: string;
+    name: string;
+    realm: string;
+    centerX: number;
+    centerY: number;
+    radius: number;
+    xpMultiplier: number;
+    description: string;
+}
+
+export interface TimeSecret {
+    id: string;
+    name: string;
+    description: string;
+}
+
+export interface ExplorationDataPayload {
+    playerId: string;
+    discoveredPOIs: string[];
+    revealedCells: string[];        // "realm:x:y"
+    visitedBiomes: string[];
+    visitedRealms: string[];
+    totalDistanceTraveled: number;
+    explorationXp: number;
+    lastPosition: { realm: string; x: number; y: number };
+    achievements: string[];
+    milestones: ExplorationMilestone[];
+}
+
+export interface ExplorationUpdatePayload {
+    newPOI?: Poi;
+    newBiome?: Biome;
+    newRealm?: boolean;
+    cellsRevealed: number;
+    xpEarned: number;
+}
+
+export interface MilestonesUnlockedPayload {
+    milestones: ExplorationMilestone[];
+}
+
+export interface PoiDiscoveredPayload {
+    poiId: string;
+    poi?: Poi;
+    xpEarned?: number;
+    firstDiscoverer?: boolean;
+}
+
+export interface PoiFirstDiscoveryPayload extends PlayerRef {
+    poiName?: string;
+}
+
+export interface NearbyPoisPayload {
+    pois: Poi[];
+}
+
+export interface ExplorationStatsPayload {
+    totalCellsRevealed: number;
+    totalPOIsDiscovered: number;
+    totalBiomesVisited: number;
+    totalRealmsVisited: number;
+    totalDistanceTraveled: number;
+    explorationXp: number;
+    explorationLevel: number;
+    milestones: ExplorationMilestone[];
+}
+
+export interface RegionInfoPayload {
+    realm: string;
+    exploredCells: number;
+    cells: Array<{ realm: string; x: number; y: number }>;
+}
+
+export interface BiomeDiscoveredPayload {
+    biomeId: string;
+    biome?: Biome;
+    xpEarned?: number;
+}
+
+export interface FogRevealedPayload {
+    success: boolean;
+    cellsRevealed: string[];
+    xpEarned: number;
+}
+
+export interface ExplorationMilestonesPayload {
+    unlocked: ExplorationMilestone[];
+    available: Array<{
+        id: string;
+        threshold: number;
+        type: string;
+        currentProgress: number;
+        reward: ExplorationMilestone['reward'];
+    }>;
+}
+
+export interface DiscoveredBiomesPayload {
+    biomes: Biome[];
+}
+
+export interface AvailableTimeSecretsPayload {
+    secrets: Array<TimeSecret & { xpReward: number; expiresIn: number }>;
+    hasAvailable: boolean;
+}
+
+export interface TimeSecretErrorPayload {
+    error?: string;
+    alreadyDiscovered?: boolean;
+}
+
+export interface TimeSecretDiscoveredPayload {
+    secret?: TimeSecret;
+    xpEarned?: number;
+}
+
+export interface AllTimeSecretsPayload {
+    secrets: Array<TimeSecret & {
+        xpReward: number;
+        isDiscovered: boolean;
+        isAvailable: boolean;
+        hint: string;
+    }>;
+    totalDiscovered: number;
+    total: number;
+}
+
+// =============================================================================
+// REPUTATION PAYLOADS
+// =============================================================================
+
+export type ReputationTrack = 'explorer' | 'connector' | 'guardian' | 'beacon_keeper' | 'collector';
+
+export interface TrackStanding {
+    xp: number;
+    level: number;
+}
+
+export interface ReputationDataPayload {
+    playerId: string;
+    tracks: Record<ReputationTrack, TrackStanding>;
+    unlockedRewards: string[];      // Claimed reward ids
+    lastUpdated: WireDate;
+}
+
+export interface ReputationUpdatedPayload {
+    action: string;
+    xpGained: number;
+    track: ReputationTrack;
+    leveledUp: boolean;
+}
+
+export interface TrackProgressPayload extends TrackStanding {
+    track: ReputationTrack;
+    xpToNextLevel: number;
+    progressPercent: number;
+}
+
+export interface ReputationLevelsPayload {
+    levels: number[];               // XP needed for each level
+}
+
+export interface ReputationRewardClaimedPayload {
+    rewardId: string;
+}
+
+export interface ReputationLeaderboardPayload {
+    track: ReputationTrack;
+    entries: Array<TrackStanding & { rank: number; playerId: string }>;
+}
+
+export interface PlayerReputationPayload {
+    playerId: string;
+    tracks: Record<ReputationTrack, TrackStanding>;
+}
+
+// =============================================================================
+// NOTIFICATION PAYLOADS
+// =============================================================================
+
+export type NotificationType =
+    | 'friend_online' | 'friend_offline' | 'friend_request' | 'friend_accepted'
+    | 'gift_received' | 'achievement_unlocked' | 'level_up' | 'challenge_complete'
+    | 'world_event' | 'darkness_warning' | 'milestone' | 'guild_invite' | 'guild_message'
+    | 'system' | 'reward' | 'tag_invite' | 'whisper' | 'connection_made'
+    | 'social' | 'achievement' | 'gift' | 'bond' | 'digest';
+
+export interface NotificationPayload {
+    id: string;
+    type: NotificationType;
+    title: string;
+    message: string;
+    icon?: string;
+    data?: Record<string, unknown>;
+    priority: 'low' | 'normal' | 'high' | 'urgent';
+    timestamp: number;
+    expiresAt?: number;
+    read: boolean;
+    actionUrl?: string;
+    count: number;              // How many notifications this one stands for
+}
+
+export interface InboxPagePayload {
+    notifications: NotificationPayload[];
+    total: number;
+    unread: number;
+    nextOffset: number | null;  // Offset of the next page, null on the last one
+}
+
+export interface NotificationMarkedReadPayload {
+    notificationId: string;
+}
+
+export interface NotificationPrefsPayload {
+    enabledTypes: NotificationType[];
+    doNotDisturb: boolean;
+    mutedUntil: number | null;
+    quietHours: { startHour: number; endHour: number } | null;  // UTC, may wrap past midnight
+}
+
+// Also sent to voice peers when a player toggles their microphone
+export interface PlayerMutedPayload {
+    playerId: string;
+    isMuted?: boolean;
+}
+
+export interface PlayerUnmutedPayload {
+    playerId: string;
+}
+
+// =============================================================================
+// SNAPSHOT PAYLOADS
+// =============================================================================
+
+export interface SnapshotSavedPayload {
+    snapshotId: string;
+    timestamp: number;
+}
+
+// =============================================================================
+// GUILD PAYLOADS
+// =============================================================================
+
+export type GuildRole = 'leader' | 'officer' | 'member';
+
+export interface GuildContributions {
+    stardust: number;
+    challenges: number;
+    xp: number;
+}
+
+export interface GuildMember {
+    playerId: string;
+    playerName: string;
+    role: GuildRole;
+    joinedAt: WireDate;
+    contributions: GuildContributions;
+    lastActiveAt: WireDate;
+}
+
+export interface GuildPerk {
+    id: string;
+    name: string;
+    icon: string;
+    description: string;
+    level: number;
+    unlockedAt: WireDate;
+}
+
+export interface GuildChatEntry {
+    messageId: string;
+    playerId: string;
+    playerName: string;
+    playerRole: GuildRole;
+    message: string;
+    timestamp: WireDate;
+}
+
+export interface GuildInfo {
+    guildId: string;
+    name: string;
+    tag: string;
+    description: string;
+    icon: string;
+    color: string;
+    level: number;
+    xp: number;
+    xpToNextLevel: number;
+    leaderId: string;
+    leaderName: string;
+    members: GuildMember[];
+    maxMembers: number;
+    perks: GuildPerk[];
+    chat: GuildChatEntry[];
+    totalContributions: GuildContributions;
+    weeklyContributions: GuildContributions & { weekStart: string };
+    treasury: { stardust: number; crystals: number };
+    isPublic: boolean;
+    minLevelToJoin: number;
+    requiresApproval: boolean;
+    createdAt: WireDate;
+}
+
+export interface GuildIdPayload {
+    guildId: string;
+}
+
+export interface GuildChatMessagePayload {
+    guildId: string;
+    fromId: string;
+    fromName: string;
+    text: string;
+    timestamp: number;
+}
+
+export interface GuildContributionSuccessPayload {
+    guildId: string;
+    contributionType: string;
+    amount: number;
+    newGuildXp: number;
+    newGuildLevel: number;
+    leveledUp: boolean;
+    newPerks: string[];
+}
+
+export interface GuildCreatedPayload {
+    guildId: string;
+    name: string;
+    tag: string;
+    description: string;
+    icon: string;
+    color: string;
+}
+
+export interface GuildInfoPayload {
+    guild: GuildInfo;
+}
+
+export interface GuildJoinedPayload {
+    guildId: string;
+    guild: GuildInfo;
+}
+
+export interface GuildLeveledUpPayload {
+    guildId: string;
+    level: number;
+    newPerks: string[];
+}
+
+export interface GuildListPayload {
+    guilds: GuildInfo[];
+}
+
+export interface GuildMemberJoinedPayload extends PlayerRef {
+    guildId: string;
+}
+
+export interface GuildMemberLeftPayload {
+    guildId: string;
+    playerId: string;
+}
+
+// =============================================================================
+// GIFT PAYLOADS
+// =============================================================================
+
+export type GiftType = 'stardust' | 'cosmetic' | 'xpBoost' | 'fragment';
+
+export interface GiftInfo {
+    fromPlayerId: string;
+    toPlayerId: string;
+    giftType: GiftType;
+    amount: number;
+    message?: string;
+    claimed: boolean;
+    claimedAt?: WireDate;
+    createdAt: WireDate;
+}
+
+export interface GiftSentPayload {
+    giftId: string;
+    toPlayerId: string;
+    giftType: string;
+    amount: number;
+    remainingBalance?: number;
+}
+
+export interface GiftReceivedPayload {
+    giftId: string;
+    fromId: string;
+    fromName: string;
+    giftType: string;
+    amount: number;
+    message?: string;
+}
+
+export interface GiftClaimedPayload {
+    giftId: string;
+    giftType?: string;
+    amount?: number;
+    newBalance?: number;
+}
+
+export interface PendingGiftsPayload {
+    gifts: GiftInfo[];
+}
+
+export interface GiftHistoryPayload {
+    history: {
+        sent: GiftInfo[];
+        received: GiftInfo[];
+    };
+}
+
+export interface GiftCooldownPayload {
+    canGift: boolean;
+    remainingMs: number;
+    lastGiftTime?: number;
+}
+
+// null until the pair has exchanged a gift
+export type GiftStreakPayload = {
+    playerId: string;
+    friendId: string;
+    currentStreak: number;          // Consecutive days
+    longestStreak: number;
+    lastGiftDate: string;           // YYYY-MM-DD
+    lastReceivedDate: string;       // YYYY-MM-DD
+    totalGiftsSent: number;
+    totalGiftsReceived: number;
+    milestonesClaimed: number[];
+    nextMilestone: number;
+    streakBroken: boolean;
+} | null;
+
+// =============================================================================
+// VOICE CHAT PAYLOADS
+// =============================================================================
+
+export interface VoiceSignalPayload {
+    fromId: string;
+    fromName: string;
+    signalType: ValidatedPayload<'voice_signal'>['signalType'];
+    signalData: Record<string, unknown>;    // Relayed as sent
+    timestamp: number;
+}
+
+export interface VoiceRoomJoinedPayload {
+    roomId?: string;
+}
+
+export type VoiceRoomLeftPayload = EmptyPayload;
+
+export interface PlayerSpeakingPayload {
+    playerId: string;
+    speaking: boolean;
+}
+
+export interface NearbyVoicePeersPayload {
+    peers: string[];
+}
+
+export interface VoiceRoomsListPayload {
+    rooms: string[];
+}
+
+// =============================================================================
+// BOND PAYLOADS
+// =============================================================================
+
+// Bond tiers are the bond's mode: what the pair can do together
+export type BondTier = 'silent' | 'whisper' | 'voice';
+
+export type BondMomentType = 'fragment_co_collected' | 'beacon_lit_together' | 'darkness_survived';
+
+export type BondConsent = 'pending' | 'mutual' | 'declined';
+
+export interface BondMoment {
+    momentId: string;
+    type: BondMomentType;
+    realmId?: string;
+    x?: number;
+    y?: number;
+    at: number;
+}
+
+export interface SharedMemory {
+    text: string;
+    momentId?: string;          // The moment this memory pins
+    timestamp: WireDate;
+}
+
+export interface BondSummary {
+    targetId: string;
+    strength: number;
+    consent: BondConsent;
+    mode: BondTier;
+    sealed: boolean;
+    lastInteraction: WireDate;
+}
+
+export interface BondDataPayload {
+    targetId: string;
+    bond: {
+        strength: number;
+        consent: BondConsent;
+        mode: BondTier;
+        sealed: boolean;
+        sealWord1?: string;
+        sealWord2?: string;
+        sealedAt?: WireDate;
+        lastInteraction: WireDate;
+        stats: {
+            pulsesSent: number;
+            pulsesReceived: number;
+            whispersSent: number;
+            whispersReceived: number;
+            lightGifted: number;
+            lightReceived: number;
+            timeSpentNear: number;  // seconds
+        };
+        moments: BondMoment[];
+        sharedMemories: SharedMemory[];
+    } | null;
+}
+
+export interface AllBondsPayload {
+    bonds: BondSummary[];
+}
+
+export interface BondUpdatedPayload {
+    targetId: string;
+    strength: number;           // 0-100, decay settled
+    strengthDelta: number;
+    mode: BondTier;
+    reason: string;             // The interaction or shared moment behind the change
+}
+
+export interface BondTierChangedPayload {
+    targetId: string;
+    oldTier: BondTier;
+    newTier: BondTier;
+    strength: number;
+}
+
+export interface BondMomentPayload {
+    targetId: string;
+    moment: BondMoment;
+}
+
+export type MemoryAddedPayload =
+    | { targetId: string; success: false; error?: string }
+    | { targetId: string; success: true; memory: SharedMemory };
+
+export interface NewSharedMemoryPayload {
+    fromId: string;
+    fromName: string;
+    memoryText: string;
+    momentId?: string;
+}
+
+export interface BondSealedPayload {
+    success: boolean;
+    targetId: string;
+    starMemory: {
+        word1: string;
+        word2: string;
+        combinedPhrase: string;
+        brightness: number;
+        moments: Array<{ type: BondMomentType; at: WireDate }>;
+    };
+}
+
+export interface SealPendingPayload {
+    message: string;
+}
+
+export interface SealRequestedPayload {
+    fromId: string;
+    fromName: string;
+}
+
+export interface StarMemoriesPayload {
+    memories: Array<{
+        id?: string;
+        targetId: string;
+        targetName: string;
+        targetColor: string;
+        word1: string;
+        word2: string;
+        combinedPhrase: string;
+        sealedAt: WireDate;
+        brightness: number;
+        constellation?: string;
+    }>;
+}
+
+export interface RealmStarsPayload {
+    realmId: string;
+    stars: Array<{
+        id?: string;
+        position?: { x: number; y: number };
+        brightness: number;
+        color1: string;
+        color2: string;
+        combinedPhrase: string;
+        constellation?: string;
+    }>;
+}
+
+export type ConstellationRarity = 'common' | 'rare' | 'epic' | 'legendary';
+
+export type ConstellationBonusType = 'xp' | 'stardust' | 'cosmetic' | 'title';
+
+export interface ConstellationsPayload {
+    constellations: Array<{
+        id?: string;
+        name: string;
+        description: string;
+        playerCount: number;
+        formedAt: WireDate;
+        rarity: ConstellationRarity;
+        bonusType: ConstellationBonusType;
+        bonusAmount: number;
+    }>;
+}
+
+// Formed by nearby players, sized by how many there are
+export type ConstellationShape = 'triangle' | 'square' | 'star' | 'galaxy';
+
+export interface ConstellationFormedPayload {
+    constellationType: ConstellationShape;
+    xpBonus: number;
+    participants: string[];
+    participantCount: number;
+}
+
+export interface ConstellationVisiblePayload {
+    constellationType: ConstellationShape;
+    centerX: number;
+    centerY: number;
+    participantCount: number;
+}
+
+// =============================================================================
+// REFERRAL PAYLOADS
+// =============================================================================
+
+export interface ReferralCodeInfo {
+    code: string;
+    ownerId: string;
+    ownerName: string;
+    usageCount: number;
+    maxUses: number | null;     // null = unlimited
+    conversions: number;        // Players who reached level 10
+    totalRewardsEarned: { stardust: number; crystals: number };
+    isActive: boolean;
+    createdAt: WireDate;
+}
+
+export interface ReferralCodeGeneratedPayload {
+    success: true;
+    code: string;
+}
+
+export interface ReferralAppliedPayload {
+    success: boolean;
+    error?: string;
+    referrerId?: string;
+    refereeRewards?: { stardust: number; crystals: number };
+}
+
+export interface ReferralStatsPayload {
+    totalReferrals: number;
+    conversions: number;
+    totalStardustEarned: number;
+    totalCrystalsEarned: number;
+    nextMilestone: number | null;
+    referralsToNextMilestone: number;
+}
+
+export interface ReferredPlayersPayload {
+    totalReferrals: number;
+    conversions: number;
+}
+
+export interface ReferralRewardClaimedPayload {
+    success: boolean;
+    milestones: number[];
+    rewards: { stardust: number; crystals: number; cosmetics: string[]; titles: string[] };
+}
+
+// null when the player has no code yet
+export type MyReferralCodePayload = ReferralCodeInfo | null;
+
+export interface ReferralCodeValidatedPayload {
+    code: string;
+    isValid: boolean;
+    ownerName?: string;
+    error: string | null;
+}
+
+export type ReferralUsedPayload = PlayerRef;
+
+// =============================================================================
+// MENTORSHIP PAYLOADS
+// =============================================================================
+
+export interface MentorInfo {
+    playerId: string;
+    playerName: string;
+    mentorLevel: number;
+    menteesHelped: number;
+    rating: number;
+    isAvailable: boolean;
+    isOnline: boolean;
+}
+
+export interface MentorRequestSentPayload extends SuccessPayload {
+    mentorId?: string;
+}
+
+export interface MenteeRequestPayload {
+    menteeId: string;
+    menteeName: string;
+}
+
+export interface MentorAssignedPayload {
+    mentorId: string;
+    mentorName: string;
+}
+
+export interface AvailableMentorsPayload {
+    mentors: MentorInfo[];
+}
+
+export interface MentorshipStatusPayload {
+    isMentor: boolean;
+    mentorLevel: number;
+    currentMentor: string | null;
+    activeMentees: string[];
+    menteesHelped: number;
+    rating: number;             // 1-5 average
+}
+
+// To the player who ended it, and to the other side
+export type MentorshipEndedPayload =
+    | { success: boolean }
+    | { endedBy: string; endedByName: string };
+
+export interface MentorTipPayload {
+    mentorId: string;
+    mentorName: string;
+    tip: string;
+}
+
+export interface MentorTipSentPayload {
+    success: true;
+    menteeId: string;
+}
+
+export type MentorshipRatedPayload =
+    | { success: boolean; duration: number; xpAwarded: number }
+    | { success: false; error: string };
+
+export interface PendingMenteeRequestsPayload {
+    requests: Array<{ menteeId: string; isOnline: boolean }>;
+}
+
+// =============================================================================
+// SEASON PASS PAYLOADS
+// =============================================================================
+
+export interface SeasonRewardItems {
+    stardust?: number;
+    xp?: number;
+    cosmetic?: string;
+    title?: string;
+    companion?: string;
+}
+
+export interface SeasonTierReward {
+    tier: number;
+    free: Omit<SeasonRewardItems, 'companion'>;
+    premium: SeasonRewardItems;
+}
+
+// null while no season is running
+export type SeasonInfoPayload = {
+    seasonId: string;
+    name: string;
+    description: string;
+    startDate: WireDate;
+    endDate: WireDate;
+    daysRemaining: number;
+    maxTier: number;
+    xpPerTier: number;
+    isActive: boolean;
+} | null;
+
+export type SeasonProgressPayload = {
+    playerId: string;
+    seasonId: string;
+    seasonXp: number;
+    seasonTier: number;
+    isPremiumPass: boolean;
+    claimedFreeTiers: number[];
+    claimedPremiumTiers: number[];
+    premiumPurchaseDate?: WireDate;
+    lastXpGain: WireDate;
+    totalXpEarned: number;
+} | null;
+
+export type SeasonXpAddedPayload = {
+    newXp: number;
+    newTier: number;
+    previousTier: number;
+    tierUp: boolean;
+    tiersGained: number;
+    unclaimedRewards: number[];
+    seasonId: string;
+} | null;
+
+export interface SeasonTierUpPayload {
+    playerId: string;
+    newTier: number;
+    tiersGained: number;
+}
+
+export interface SeasonPlayerTierUpPayload extends SeasonTierUpPayload {
+    seasonId: string;
+    previousTier: number;
+}
+
+export interface SeasonPassRewardClaimedPayload {
+    success: boolean;
+    reward?: SeasonTierReward;
+    isPremium: boolean;
+    error?: string;
+    grantedItems?: SeasonRewardItems;
+}
+
+export interface SeasonAllRewardsClaimedPayload {
+    claimed: number;
+    rewards: SeasonPassRewardClaimedPayload[];
+}
+
+export interface SeasonPremiumUpgradedPayload {
+    success: boolean;
+    retroactiveRewards?: number;
+    error?: string;
+}
+
+export interface SeasonRewardsPayload {
+    rewards: SeasonTierReward[];
+}
+
+export interface SeasonHistoryPayload {
+    history: Array<{
+        playerId: string;
+        seasonId: string;
+        seasonName: string;
+        finalTier: number;
+        finalXp: number;
+        wasPremium: boolean;
+        rewardsClaimed: number;
+        premiumRewardsClaimed: number;
+        seasonStartDate: WireDate;
+        seasonEndDate: WireDate;
+        archivedAt: WireDate;
+    }>;
+}
+
+export interface SeasonRotatedPayload {
+    previousSeasonId?: string;
+    newSeasonId: string;
+}
+
+// =============================================================================
+// GALLERY PAYLOADS
+// =============================================================================
+
+export interface Screenshot {
+    screenshotId: string;
+    playerId: string;
+    playerName: string;
+    imageRef: string;
+    thumbnailRef?: string;
+    filter: string;
+    template: string;
+    caption?: string;
+    stats: {
+        fragments: number;
+        bonds: number;
+        beacons: number;
+        level: number;
+        stardust: number;
+    };
+    location: {
+        x: number;
+        y: number;
+        realm: string;
+        biome?: string;
+    };
+    visiblePlayers: PlayerRef[];
+    isPublic: boolean;
+    likes: number;
+    fileSize: number;
+    dimensions: { width: number; height: number };
+    createdAt: WireDate;
+}
+
+export interface GalleryAlbum {
+    albumId: string;
+    playerId: string;
+    name: string;
+    description?: string;
+    coverScreenshotId?: string;
+    screenshotIds: string[];
+    isDefault: boolean;
+    createdAt: WireDate;
+}
+
+export interface ScreenshotIdPayload extends SuccessPayload {
+    screenshotId: string;
+}
+
+export interface GallerySavedPayload extends SuccessPayload {
+    screenshot?: Screenshot;
+}
+
+export interface GalleryListPayload {
+    screenshots: Screenshot[];
+    count: number;
+}
+
+// null when the screenshot does not exist
+export type GalleryScreenshotPayload = Screenshot | null;
+
+export interface GalleryPublicToggledPayload extends ScreenshotIdPayload {
+    isPublic: boolean;
+}
+
+export interface GalleryLikedPayload extends ScreenshotIdPayload {
+    likes: number;
+}
+
+export interface GalleryReceivedLikePayload {
+    screenshotId: string;
+    likerId: string;
+    totalLikes: number;
+}
+
+export interface GalleryPublicListPayload {
+    screenshots: Screenshot[];
+}
+
+export interface GalleryStatsPayload {
+    totalScreenshots: number;
+    publicScreenshots: number;
+    totalLikes: number;
+    totalShares: number;
+    albumCount: number;
+    topFilters: Array<{ filter: string; count: number }>;
+}
+
+export interface GalleryAlbumCreatedPayload extends SuccessPayload {
+    album?: GalleryAlbum;
+}
+
+export interface GalleryAlbumsListPayload {
+    albums: GalleryAlbum[];
+}
+
+export interface GalleryAlbumEntryPayload extends ScreenshotIdPayload {
+    albumId: string;
+}
+
+export interface GalleryAlbumScreenshotsPayload {
+    albumId: string;
+    screenshots: Screenshot[];
+}
+
+export interface GalleryFeaturedPayload {
+    screenshotId: string;
+    category: string;
+}
+
+// =============================================================================
+// DAILY LOGIN PAYLOADS
+// =============================================================================
+
+export interface DailyLoginReward {
+    day: number;
+    type: 'stardust' | 'xp' | 'cosmetic' | 'companion' | 'mystery_box';
+    amount?: number;
+    itemId?: string;
+    name: string;
+    icon: string;
+    rarity?: Rarity;
+}
+
+export interface NextLoginMilestone {
+    streak: number;
+    reward: DailyLoginReward;
+    daysAway: number;
+}
+
+export interface DailyLoginResultPayload {
+    isNewDay: boolean;
+    currentStreak: number;
+    previousStreak: number;
+    streakBroken: boolean;
+    reward: DailyLoginReward;
+    streakBonus: number;        // Percent
+    bonusAmount: number;
+    milestoneReward?: DailyLoginReward;
+    nextMilestone?: NextLoginMilestone;
+    totalLogins: number;
+}
+
+export interface DailyMilestoneReachedPayload {
+    playerId: string;
+    streak: number;
+    milestone?: DailyLoginReward;
+}
+
+export interface DailyStreakInfoPayload {
+    currentStreak: number;
+    longestStreak: number;
+    lastLoginDate: string;
+    claimedToday: boolean;
+    nextReward: DailyLoginReward;
+    streakBonus: number;
+    milestonesReached: number[];
+    nextMilestone?: NextLoginMilestone;
+}
+
+export interface DailyRewardsPayload {
+    weeklyRewards: DailyLoginReward[];
+    milestones: Record<number, DailyLoginReward>;   // By streak length
+}
+
+export interface DailyLeaderboardPayload {
+    leaderboard: Array<{
+        playerId: string;
+        currentStreak: number;
+        longestStreak: number;
+        totalLogins: number;
+    }>;
+}
+
+export interface DailyPlayerMilestonePayload {
+    playerId: string;
+    milestone: number;
+    reward: DailyLoginReward;
+}
+
+export interface DailyStreakBrokenPayload {
+    previousStreak: number;
+}
+
+export interface DailyMysteryBoxGrantedPayload {
+    rarity?: Rarity;
+}
+
+// =============================================================================
+// CONSTELLATION PAYLOADS
+// =============================================================================
+
+export interface StarMemory {
+    _id: WireId;
+    bondId: string;
+    player1Id: string;
+    player1Name: string;
+    player1Color: string;
+    player2Id: string;
+    player2Name: string;
+    player2Color: string;
+    word1: string;
+    word2: string;
+    combinedPhrase: string;
+    sealedAt: WireDate;
+    realmId: string;
+    position?: { x: number; y: number };
+    brightness: number;
+    moments: Array<{ type: BondMomentType; at: WireDate }>;
+    constellation?: string;
+}
+
+export interface Constellation {
+    _id: WireId;
+    name: string;
+    description: string;
+    playerIds: string[];
+    starMemoryIds: string[];
+    formedAt: WireDate;
+    realmId: string;
+    shape: Array<{
+        from: { x: number; y: number };
+        to: { x: number; y: number };
+    }>;
+    bonusType: ConstellationBonusType;
+    bonusAmount: number;
+    rarity: ConstellationRarity;
+}
+
+export interface ConstellationRewards {
+    stardust: number;
+    xp: number;
+    cosmetic?: string;
+    title?: string;
+}
+
+export interface ConstellationResultPayload extends SuccessPayload {
+    constellation?: Constellation;
+    rewards?: ConstellationRewards;
+}
+
+export interface ConstellationNewPayload {
+    constellation: Constellation;
+    formingPlayers: string[];
+}
+
+export interface ConstellationUpdatedPayload {
+    constellation: Constellation;
+}
+
+export interface ConstellationListPayload {
+    constellations: Constellation[];
+}
+
+export interface ConstellationDetailPayload {
+    constellation: Constellation | null;
+    starMemories: StarMemory[];
+}
+
+export interface ConstellationStatsPayload {
+    total: number;
+    byRarity: Record<string, number>;
+    totalStarsUsed: number;
+    uniquePartners: number;
+}
+
+export interface ConstellationPotentialPayload {
+    potential: Array<{
+        starMemoryIds: string[];
+        playerIds: string[];
+        suggestedRarity: string;
+    }>;
+}
+
+export interface ConstellationGlobalStatsPayload {
+    total: number;
+    byRarity: Record<string, number>;
+    byRealm: Record<string, number>;
+    averageStars: number;
+}
+
+export interface YouFormedConstellationPayload {
+    constellation: Constellation;
+    rarity: ConstellationRarity;
+    rewards: ConstellationRewards;
+}
+
+export interface ConstellationFormedInRealmPayload {
+    constellationId: string;
+    name: string;
+    rarity: ConstellationRarity;
+    realmId: string;
+    playerCount: number;
+}
+
+export interface ConstellationRewardsReceivedPayload {
+    constellationId: string;
+    rewards: ConstellationRewards;
+}
+
+export interface YouJoinedConstellationPayload {
+    constellation: Constellation;
+    rewards: ConstellationRewards;
+}
+
+// =============================================================================
+// FRIEND ACTIVITY PAYLOADS
+// =============================================================================
+
+export interface FriendActivity {
+    id: string;
+    playerId: string;
+    playerName: string;
+    playerAvatar: string;
+    type: string;
+    data: {
+        level?: number;
+        achievementName?: string;
+        achievementIcon?: string;
+        recipientName?: string;
+        bondedWithName?: string;
+        bondLevel?: number;
+        milestoneName?: string;
+        questName?: string;
+        seasonTier?: number;
+        seasonName?: string;
+        constellationName?: string;
+        constellationRarity?: string;
+        [key: string]: unknown;
+    };
+    timestamp: WireDate;
+    timeAgo: string;
+}
+
+export interface FriendActivitiesPayload {
+    activities: FriendActivity[];
+}
+
+export interface ActivityStatsPayload {
+    totalActivities: number;
+    byType: Record<string, number>;
+    lastActive: WireDate | null;
+    activityRate: number;       // Activities per day over the last week
+}
+
+export type NewFriendActivityPayload = FriendActivity;
+
+// =============================================================================
+// FRIEND PAYLOADS
+// =============================================================================
+
+export interface FriendRef {
+    friendId: string;
+    friendName: string;
+}
+
+export interface FriendStatus extends FriendRef {
+    online: boolean;
+    realm: string | null;
+    x: number | null;
+    y: number | null;
+    lastSeen: number | null;
+}
+
+export interface FriendStatusesPayload {
+    friends: FriendStatus[];
+}
+
+export type FriendPositionPayload =
+    | { friendId: string; online: false }
+    | { friendId: string; online: true; x: number; y: number; realm: string; playerName: string };
+
+export type TeleportToFriendResultPayload =
+    | { success: false; error: string }
+    | {
+        success: true;
+        targetX: number;
+        targetY: number;
+        targetRealm: string;
+        friendId: string;
+        friendName: string;
+    };
+
+export type FriendTeleportingToYouPayload = FriendRef;
+
+export interface FriendStatusChangedPayload extends FriendRef {
+    online: boolean;
+    realm: string | null;
+}
+
+export interface FriendRealmChangedPayload extends FriendRef {
+    realm: string;
+}
+
+export type FriendAddedPayload = FriendRef;
+
+// The legacy friend_request flow sends the shorter shape
+export type FriendRequestReceivedPayload =
+    | { requestId: string; fromPlayerId: string; fromPlayerName: string }
+    | { fromId: string; fromName: string };
+
+export interface FriendRequestAcceptedPayload {
+    friendId: string;
+    friendName?: string;
+}
+
+export interface FriendRequestDeclinedPayload {
+    requestId: string;
+}
+
+// =============================================================================
+// MAP MARKER (V2) PAYLOADS
+// =============================================================================
+
+export type MarkerType = 'temporary' | 'permanent' | 'shared' | 'beacon' | 'waypoint' | 'custom';
+
+export type MarkerVisibility = 'private' | 'friends' | 'constellation' | 'public';
+
+export interface MarkerFields {
+    markerId: string;
+    x: number;
+    y: number;
+    label: string;
+    iconType: string;
+    color?: string;
+    visibility: MarkerVisibility;
+}
+
+export interface SharedMarker extends MarkerFields {
+    playerId: string;
+    playerName: string;
+}
+
+export interface MarkerCreatedPayload {
+    marker: MarkerFields & {
+        realm: string;
+        markerType: MarkerType;
+        expiresAt?: WireDate;
+    };
+}
+
+// Sent to the players a shared marker is visible to
+export interface MarkerAddedPayload {
+    marker: SharedMarker;
+}
+
+export interface MarkersListPayload {
+    realm: string;
+    markers: Array<SharedMarker & {
+        description?: string;
+        markerType: MarkerType;
+        isOwn: boolean;
+        expiresAt?: WireDate;
+    }>;
+    total: number;
+}
+
+// The owner gets the changed fields, players it is shared with the marker
+export type MarkerUpdatedPayload =
+    | {
+        markerId: string;
+        updates: Omit<MarkerFields, 'markerId'> & { description?: string };
+    }
+    | MarkerAddedPayload;
+
+export interface MarkerIdPayload {
+    markerId: string;
+}
+
+export interface MarkerShareInvitePayload {
+    inviteId: string;
+    markerId: string;
+    fromPlayerId: string;
+    fromPlayerName: string;
+    markerLabel: string;
+    realm: string;
+}
+
+export interface MarkerShareSentPayload {
+    inviteId: string;
+    targetPlayerId: string;
+}
+
+export interface MarkerShareAcceptedPayload {
+    inviteId: string;
+    markerId: string;
+    acceptedBy: string;
+    acceptedByName: string;
+}
+
+export interface ShareInviteDeclinedPayload {
+    inviteId: string;
+}
+
+export interface PresetSavedPayload {
+    presetId: string;
+    name: string;
+}
+
+export interface PresetDeletedPayload {
+    presetId: string;
+}
+
+export interface PresetsListPayload {
+    presets: Array<{
+        presetId: string;
+        name: string;
+        iconType: string;
+        color: string;
+        defaultVisibility: MarkerVisibility;
+    }>;
+}
+
+// =============================================================================
+// SEEK MODE PAYLOADS
+// =============================================================================
+
+export type SeekGameState = 'waiting' | 'hiding' | 'seeking' | 'ended';
+
+export interface SeekGameSettings {
+    hidingTime: number;
+    seekingTime: number;
+    maxPlayers: number;
+    allowHints: boolean;
+    boundaryRadius: number;
+    centerX: number;
+    centerY: number;
+}
+
+export interface SeekGameResults {
+    winnerId: string;
+    winnerName: string;
+    hidersFound: number;
+    totalHiders: number;
+    duration: number;
+}
+
+// A game as players see it: hiding positions stay on the server
+export interface SeekGameSession {
+    gameId: string;
+    realm: string;
+    state: SeekGameState;
+    hostId: string;
+    hostName: string;
+    seekerName: string | null;
+    hiders: Array<PlayerRef & { hidden: boolean; found: boolean }>;
+    settings: SeekGameSettings;
+    startedAt: WireDate | null;
+    hidingEndsAt: WireDate | null;
+    endsAt: WireDate | null;
+    results?: SeekGameResults;
+}
+
+export interface SeekGamePayload {
+    gameId: string;
+    session: SeekGameSession;
+}
+
+export interface SeekGameStartedPayload {
+    gameId: string;
+}
+
+export interface SeekAttemptFindResultPayload {
+    found: boolean;
+    playerId?: string;
+    playerName?: string;
+}
+
+export interface SeekGamesPayload {
+    games: SeekGameSession[];
+}
+
+export interface SeekHistoryPayload {
+    history: SeekGameSession[];
+}
+
+export interface SeekCurrentGamePayload {
+    session: SeekGameSession | null;
+}
+
+export interface SeekGameCreatedPayload {
+    gameId: string;
+    hostName: string;
+    maxPlayers: number;
+    currentPlayers: number;
+}
+
+export interface SeekPlayerJoinedPayload extends PlayerRef {
+    gameId: string;
+    currentPlayers: number;
+}
+
+// =============================================================================
+// ANALYTICS PAYLOADS
+// =============================================================================
+
+export interface PlayerPreferences {
+    visualFilters: {
+        enabled: boolean;
+        preset: string;
+        customSettings?: {
+            brightness: number;
+            contrast: number;
+            saturation: number;
+            blur: number;
+            vignette: number;
+            colorTint: string;
+        };
+    };
+    audioSettings: {
+        masterVolume: number;
+        musicVolume: number;
+        sfxVolume: number;
+        voiceVolume: number;
+        ambientVolume: number;
+    };
+    accessibility: {
+        reducedMotion: boolean;
+        highContrast: boolean;
+        colorBlindMode: string | null;
+        screenReader: boolean;
+        subtitles: boolean;
+    };
+    gameplayPreferences: {
+        autoJoinEvents: boolean;
+        showPlayerNames: boolean;
+        showPlayerCount: boolean;
+        defaultRealm: string;
+        preferredGameModes: string[];
+    };
+    notifications: {
+        friendOnline: boolean;
+        eventStart: boolean;
+        giftReceived: boolean;
+        achievementUnlocked: boolean;
+        questComplete: boolean;
+    };
+    updatedAt: WireDate;
+}
+
+export interface PreferencesPayload {
+    preferences: PlayerPreferences;
+}
+
+export interface PreferencesUpdatedPayload {
+    preferences: PlayerPreferences | null;
+}
+
+export interface AnalyticsSessionPayload {
+    sessionId: string;
+}
+
+export interface GameModeStats {
+    totalSessions: number;
+    totalPlayTime: number;
+    modeBreakdown: Record<string, { sessions: number; time: number; wins: number }>;
+    favoriteMode: string | null;
+    recentModes: string[];
+}
+
+export interface AmbientStats {
+    totalSessions: number;
+    totalTime: number;
+    modeBreakdown: Record<string, { sessions: number; time: number }>;
+    favoriteMode: string | null;
+    averageSessionLength: number;
+}
+
+export interface GlobalGameModeStats {
+    totalSessions: number;
+    uniquePlayers: number;
+    modePopularity: Record<string, number>;
+    averageSessionLength: number;
+}
+
+export interface GlobalAmbientStats {
+    totalSessions: number;
+    totalTime: number;
+    modePopularity: Record<string, number>;
+}
+
+export interface StatsPayload<S> {
+    stats: S;
+}
@@ -0,0 +1,72 @@
+// =============================================================================
+// Protocol Tests - the shared contract matches the router and the reference
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { CLIENT_MESSAGES, SERVER_MESSAGES, noPayload, renderProtocolReference } from './index.js';
+import { validateMessage, noDataRequiredMessages } from '../../websocket/validation/index.js';
+
+const here = path.dirname(fileURLToPath(import.meta.url));
+
+// Requests the client sends that the router has no case for yet
+const UNROUTED = ['light_beacon', 'reroll_challenge'];
+
+/**
+ * Message types the WebSocketHandler switch dispatches
+ */
+function routedMessageTypes(): string[] {
+    const source = readFileSync(path.join(here, '../../websocket/WebSocketHandler.ts'), 'utf8');
+    const start = source.indexOf('switch (request.type) {');
+    const end = source.indexOf('default:', start);
+    return Array.from(source.slice(start, end).matchAll(/case '([^']+)':/g), match => match[1]);
+}
+
+describe('protocol contract', () => {
+    it('has a request schema for every routed message and routes every request', () => {
+        const routed = routedMessageTypes();
+        const declared = Object.keys(CLIENT_MESSAGES);
+
+        expect(routed.length).toBeGreaterThan(200);
+        expect(routed.filter(type => !declared.includes(type))).toEqual([]);
+        expect(declared.filter(type => !routed.includes(type))).toEqual(UNROUTED);
+    });
+
+    it('only answers requests the client can send', () => {
+        for (const spec of Object.values(SERVER_MESSAGES)) {
+            for (const request of spec.replyTo) {
+                expect(CLIENT_MESSAGES).toHaveProperty([request]);
+            }
+        }
+    });
+
+    it('skips validation only for payload-free requests', () => {
+        expect(noDataRequiredMessages.has('ping')).toBe(true);
+        expect(noDataRequiredMessages.has('request_leaderboard')).toBe(false);
+        expect(validateMessage('ping', undefined)).toEqual({ success: true, request: { type: 'ping', data: {} } });
+        expect(CLIENT_MESSAGES.request_leaderboard).not.toBe(noPayload);
+    });
+
+    it('validates nested phase-1 payloads', () => {
+        expect(validateMessage('gallery:save', {
+            data: { imageRef: 'https://storage.test/a.png', location: { x: 1, y: 2, realm: 'genesis' } }
+        }).success).toBe(true);
+        expect(validateMessage('gallery:save', { imageRef: 'https://storage.test/a.png' }).success).toBe(false);
+        expect(validateMessage('constellation:expand', {
+            constellationId: 'c1',
+            data: { newStarMemoryIds: ['s1'] }
+        }).success).toBe(true);
+    });
+
+    it('strips fields the schema does not declare', () => {
+        const result = validateMessage('collect_fragment', { fragmentId: 'f1', playerId: 'someone-else' });
+        expect(result).toEqual({ success: true, request: { type: 'collect_fragment', data: { fragmentId: 'f1' } } });
+    });
+
+    it('keeps the committed reference in sync', () => {
+        const committed = readFileSync(path.join(here, 'REFERENCE.md'), 'utf8');
+        expect(committed).toBe(renderProtocolReference());
+    });
+});
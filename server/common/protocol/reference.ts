@@ -0,0 +1,125 @@
+// =============================================================================
+// Protocol Reference - Markdown listing of every message in the protocol
+// =============================================================================
+// Rendered from the request schemas and the server message catalog, so it
+// cannot drift from what the router accepts. Regenerate the committed copy
+// with `npm run protocol:reference`.
+// =============================================================================
+
+import type { z } from 'zod';
+import { CLIENT_MESSAGES, noPayload } from './requests.js';
+import type { ClientMessageType } from './requests.js';
+import { SERVER_MESSAGES } from './messages.js';
+import type { ServerMessageType } from './messages.js';
+
+/**
+ * Short TypeScript-like description of a schema
+ */
+function describe(schema: z.ZodTypeAny): string {
+    const def = schema._def;
+    switch (def.typeName) {
+        case 'ZodString': return 'string';
+        case 'ZodNumber': return 'number';
+        case 'ZodBoolean': return 'boolean';
+        case 'ZodUnknown':
+        case 'ZodAny': return 'unknown';
+        case 'ZodLiteral': return JSON.stringify(def.value);
+        case 'ZodEnum': return (def.values as string[]).map(v => `'${v}'`).join(' | ');
+        case 'ZodArray': return `${wrap(def.type)}[]`;
+        case 'ZodRecord': return `Record<string, ${describe(def.valueType)}>`;
+        case 'ZodUnion': {
+            const options = Array.from(new Set((def.options as z.ZodTypeAny[]).map(describe)));
+            return options.join(' | ');
+        }
+        case 'ZodOptional': return describe(def.innerType);
+        case 'ZodNullable': return `${describe(def.innerType)} | null`;
+        case 'ZodDefault': return describe(def.innerType);
+        case 'ZodEffects': return describe(def.schema);
+        case 'ZodObject': return `{ ${describeFields(schema).join('; ')} }`;
+        default: return 'unknown';
+    }
+}
+
+function wrap(schema: z.ZodTypeAny): string {
+    const text = describe(schema);
+    return /[ |]/.test(text) && !text.startsWith('{') ? `(${text})` : text;
+}
+
+function isOptional(schema: z.ZodTypeAny): boolean {
+    return schema.isOptional();
+}
+
+function unwrapObject(schema: z.ZodTypeAny): z.ZodTypeAny {
+    const def = schema._def;
+    if (def.typeName === 'ZodEffects') return unwrapObject(def.schema);
+    if (def.typeName === 'ZodDefault' || def.typeName === 'ZodOptional') return unwrapObject(def.innerType);
+    return schema;
+}
+
+function describeFields(schema: z.ZodTypeAny): string[] {
+    const shape = (unwrapObject(schema) as z.AnyZodObject).shape as Record<string, z.ZodTypeAny>;
+    return Object.entries(shape).map(([key, field]) =>
+        `${key}${isOptional(field) ? '?' : ''}: ${describe(field)}`
+    );
+}
+
+function describePayload(schema: z.ZodTypeAny): string {
+    if (schema === noPayload) return '—';
+    if (unwrapObject(schema)._def.typeName !== 'ZodObject') return describe(schema);
+    const fields = describeFields(schema);
+    return fields.length > 0 ? fields.join(', ') : '—';
+}
+
+function code(text: string): string {
+    return text === '—' ? text : `\`${text.replace(/\|/g, '\\|')}\``;
+}
+
+/**
+ * Render the protocol reference as markdown
+ */
+export function renderProtocolReference(): string {
+    const requestTypes = Object.keys(CLIENT_MESSAGES) as ClientMessageType[];
+    const serverTypes = Object.keys(SERVER_MESSAGES) as ServerMessageType[];
+
+    const responses = new Map<ClientMessageType, ServerMessageType[]>();
+    for (const type of serverTypes) {
+        for (const request of SERVER_MESSAGES[type].replyTo) {
+            responses.set(request, [...(responses.get(request) ?? []), type]);
+        }
+    }
+
+    const replies = serverTypes.filter(type => SERVER_MESSAGES[type].replyTo.length > 0);
+    const pushes = serverTypes.filter(type => SERVER_MESSAGES[type].replyTo.length === 0);
+
+    const lines = [
+        '# Realtime Protocol Reference',
+        '',
+        '<!-- Generated from server/common/protocol by `npm run protocol:reference`. Do not edit. -->',
+        '',
+        `${requestTypes.length} requests, ${replies.length} responses and ${pushes.length} server pushes.`,
+        'Every message is a JSON object `{ type, data, timestamp }`. The request table below describes `data`;',
+        'the `data` of every server message is declared in [payloads.ts](./payloads.ts).',
+        'Any request may also be answered with `error` or `rate_limited`.',
+        '',
+        '## Requests (client → server)',
+        '',
+        '| Message | Payload | Responses |',
+        '| --- | --- | --- |'
+    ];
+    for (const type of requestTypes) {
+        const answers = (responses.get(type) ?? []).map(code).join(', ') || '—';
+        lines.push(`| \`${type}\` | ${code(describePayload(CLIENT_MESSAGES[type]))} | ${answers} |`);
+    }
+
+    lines.push('', '## Responses (server → client)', '', '| Message | In response to |', '| --- | --- |');
+    for (const type of replies) {
+        lines.push(`| \`${type}\` | ${SERVER_MESSAGES[type].replyTo.map(code).join(', ')} |`);
+    }
+
+    lines.push('', '## Pushes (server → client)', '');
+    for (const type of pushes) {
+        lines.push(`- \`${type}\``);
+    }
+
+    return lines.join('\n') + '\n';
+}
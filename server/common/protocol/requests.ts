@@ -0,0 +1,1556 @@
+// =============================================================================
+// Client → Server Requests (Zod)
+// =============================================================================
+// The payload of every message the client may send, keyed by message type.
+// The server validates incoming messages against these schemas and the client
+// derives its send() signatures from them, so both sides share one contract.
+// Server → client messages are described in ./messages.ts.
+// =============================================================================
+
+import { z } from 'zod';
+import { ALL_REALM_IDS } from '../realms.js';
+import type { RealmId } from '../realms.js';
+
+// =============================================================================
+// SHARED PRIMITIVES
+// =============================================================================
+
+const playerId = z.string().min(1).max(64);
+const playerName = z.string().min(1).max(32);
+const realm = z.enum(ALL_REALM_IDS as [RealmId, ...RealmId[]]);
+const coordinate = z.number().min(-50000).max(50000);
+const timestamp = z.number().int().positive();
+const hue = z.number().min(0).max(360);
+const hexColor = z.string().regex(/^#[0-9A-Fa-f]{6}$/);
+const uuid = z.string().uuid();
+const mongoId = z.string().regex(/^[0-9a-fA-F]{24}$/);
+const idField = z.union([uuid, mongoId, z.string().min(1).max(64)]);
+
+// =============================================================================
+// CORE GAME ACTION SCHEMAS
+// =============================================================================
+
+export const playerUpdateSchema = z.object({
+    x: coordinate,
+    y: coordinate,
+    dx: z.number().min(-10).max(10).optional(),
+    dy: z.number().min(-10).max(10).optional(),
+    hue: z.number().min(0).max(360).optional(),
+    realm: realm.optional(),
+    realmChange: z.boolean().optional(),      // Move to `realm` (may hand off to another shard)
+    name: playerName.optional(),
+    speaking: z.boolean().optional(),
+    seq: z.number().int().min(0).optional()     // Input sequence, echoed in position_correction
+});
+
+export const singSchema = z.object({
+    pitch: z.number().min(0).max(1).optional(),
+    intensity: z.number().min(0).max(1).optional(),
+    radius: z.number().min(50).max(500).optional(),
+    duration: z.number().min(500).max(5000).optional()
+});
+
+export const pulseSchema = z.object({
+    radius: z.number().min(20).max(300).optional(),
+    strength: z.number().min(0).max(1).optional(),
+    intensity: z.number().min(0).max(1).optional(),
+    color: hexColor.optional()
+});
+
+export const worldStateAckSchema = z.object({
+    tick: z.number().int().min(0)
+});
+
+export const reliableAckSchema = z.object({
+    seq: z.number().int().min(0)
+});
+
+export const collectFragmentSchema = z.object({
+    fragmentId: idField,
+    x: coordinate.optional(),
+    y: coordinate.optional()
+});
+
+// ... existing code ...
+
+export const updateExplorationSchema = z.object({
+    x: coordinate.optional(),
+    y: coordinate.optional(),
+    realm: realm.optional(),
+    explorationPercent: z.number().min(0).max(100).optional(),
+    discoveredAreas: z.array(z.string()).optional()
+});
+
+export const emoteSchema = z.object({
+    emoteId: z.string().min(1).max(32),
+    emoteType: z.string().min(1).max(32).optional()
+});
+
+export const echoSchema = z.object({
+    message: z.string().min(1).max(280),
+    x: coordinate,
+    y: coordinate,
+    ttl: z.number().min(60000).max(3600000).optional() // 1min to 1hr
+});
+
+export const resonateEchoSchema = z.object({
+    echoId: idField
+});
+
+export const lightStarSchema = z.object({
+    starId: idField,
+    x: coordinate.optional(),
+    y: coordinate.optional()
+});
+
+export const waveSchema = z.object({
+    targetId: playerId.optional(),
+    direction: z.number().min(0).max(360).optional()
+});
+
+export const resonanceSchema = z.object({
+    targetId: playerId,
+    intensity: z.number().min(0).max(1).optional()
+});
+
+export const pulsePatternCompletedSchema = z.object({
+    patternId: idField,
+    accuracy: z.number().min(0).max(1),
+    duration: z.number().int().positive()
+});
+
+export const recordPulseSchema = z.object({
+    pulses: z.array(z.object({
+        timestamp: z.number(),
+        x: coordinate.optional(),
+        y: coordinate.optional()
+    })).max(100)
+});
+
+// =============================================================================
+// CHAT SCHEMAS
+// =============================================================================
+
+export const chatSchema = z.object({
+    message: z.string().min(1).max(500),
+    channel: z.enum(['global', 'realm', 'guild', 'party']).optional()
+});
+
+export const whisperSchema = z.object({
+    targetId: playerId,
+    // Accept both 'message' and 'text' since client sends 'text'
+    message: z.string().min(1).max(500).optional(),
+    text: z.string().min(1).max(500).optional()
+}).transform(data => ({
+    targetId: data.targetId,
+    message: data.message || data.text || ''
+}));
+
+export const reportPlayerSchema = z.object({
+    targetId: playerId,
+    reason: z.enum(['harassment', 'spam', 'offensive_language', 'cheating', 'inappropriate_name', 'other']),
+    details: z.string().max(500).optional()
+});
+
+export const emojiReactionSchema = z.object({
+    targetId: playerId.optional(),
+    messageId: idField.optional(),
+    emoji: z.string().min(1).max(8)
+});
+
+export const typingIndicatorSchema = z.object({
+    isTyping: z.boolean().optional(),
+    channel: z.string().optional(),
+    targetId: playerId.optional()
+});
+
+// =============================================================================
+// PROGRESSION SCHEMAS
+// =============================================================================
+
+export const challengeProgressSchema = z.object({
+    // Accept both old and new field names
+    challengeId: idField.optional(),
+    type: z.string().min(1).max(64).optional(),
+    progress: z.number().int().min(0).max(1000000).optional(),
+    amount: z.number().int().min(0).max(1000000).optional(),
+    action: z.string().min(1).max(64).optional()
+}).transform(data => ({
+    challengeId: data.challengeId || data.type || '',
+    progress: data.progress ?? data.amount ?? 0,
+    action: data.action
+}));
+
+export const claimDailyRewardSchema = z.object({
+    day: z.number().int().min(1).max(365).optional()
+});
+
+export const claimChallengeRewardSchema = z.object({
+    challengeId: idField
+});
+
+export const claimSeasonRewardSchema = z.object({
+    seasonId: idField,
+    tier: z.number().int().min(1).max(100)
+});
+
+export const purchaseCosmeticSchema = z.object({
+    // Accept both 'cosmeticId' and 'id' since client sends 'id'
+    cosmeticId: idField.optional(),
+    id: idField.optional()
+}).transform(data => ({
+    // Any client-supplied price is stripped: the server catalog sets the price
+    cosmeticId: data.cosmeticId || data.id || ''
+}));
+
+export const getActivityFeedSchema = z.object({
+    limit: z.number().int().min(1).max(100).optional()
+});
+
+export const equipCosmeticSchema = z.object({
+    cosmeticId: idField,
+    slot: z.enum(['trail', 'aura', 'pulse', 'color', 'title'])     // The equippedCosmetics slots
+});
+
+// =============================================================================
+// PLAYER DATA SCHEMAS
+// =============================================================================
+
+// Field-level checks happen in playerDataPolicy so rejected fields can be reported
+export const syncPlayerDataSchema = z.record(z.unknown());
+
+export const friendRequestSchema = z.object({
+    targetId: playerId,
+    message: z.string().max(200).optional()
+});
+
+export const friendResponseSchema = z.object({
+    requestId: idField.optional(),
+    senderId: playerId.optional()
+});
+
+export const teleportToFriendSchema = z.object({
+    friendId: playerId
+});
+
+// =============================================================================
+// MAP MARKER SCHEMAS
+// =============================================================================
+
+export const placeMapMarkerSchema = z.object({
+    x: coordinate,
+    y: coordinate,
+    label: z.string().min(1).max(50).optional(),
+    color: hexColor.optional(),
+    icon: z.string().max(32).optional(),
+    realm: realm.optional(),
+    expiresIn: z.number().int().min(10).max(86400).optional()   // seconds
+});
+
+export const removeMapMarkerSchema = z.object({
+    markerId: idField
+});
+
+export const requestFriendMarkersSchema = z.object({
+    realm: realm.optional()
+});
+
+// =============================================================================
+// COMPANION SCHEMAS
+// =============================================================================
+
+export const purchaseCompanionSchema = z.object({
+    companionId: idField,
+    currency: z.enum(['stars', 'echoes', 'premium']).optional()
+});
+
+export const equipCompanionSchema = z.object({
+    companionId: idField
+});
+
+export const feedCompanionSchema = z.object({
+    companionId: idField.optional(),
+    foodType: z.string().max(32).optional()
+});
+
+export const renameCompanionSchema = z.object({
+    companionId: idField.optional(),
+    name: z.string().min(1).max(24)
+});
+
+// =============================================================================
+// WORLD EVENT SCHEMAS
+// =============================================================================
+
+export const joinWorldEventSchema = z.object({
+    eventId: idField
+});
+
+export const contributeEventSchema = z.object({
+    eventId: idField,
+    contribution: z.number().int().min(1).max(10000),
+    contributionType: z.string().max(32).optional()
+});
+
+export const getEventProgressSchema = z.object({
+    eventId: idField
+});
+
+export const getEventLeaderboardSchema = z.object({
+    eventId: idField,
+    limit: z.number().int().min(1).max(100).optional()
+});
+
+export const claimEventRewardSchema = z.object({
+    eventId: idField,
+    tier: z.number().int().min(1).max(10).optional()
+});
+
+export const fightDarknessSchema = z.object({
+    realm: realm.optional(),
+    power: z.number().min(1).max(1000).optional()
+});
+
+// =============================================================================
+// POWER-UP SCHEMAS
+// =============================================================================
+
+export const collectPowerUpSchema = z.object({
+    powerUpId: idField,
+    x: coordinate.optional(),
+    y: coordinate.optional()
+});
+
+export const activatePowerUpSchema = z.object({
+    powerUpId: idField,
+    type: z.string().max(32).optional()
+});
+
+// =============================================================================
+// TAG GAME SCHEMAS
+// =============================================================================
+
+export const createTagGameSchema = z.object({
+    minPlayers: z.number().int().min(2).max(20).optional(),
+    maxPlayers: z.number().int().min(2).max(20).optional(),
+    duration: z.number().int().min(60000).max(600000).optional(), // 1-10 minutes
+    realm: realm.optional()
+});
+
+export const joinTagGameSchema = z.object({
+    sessionId: idField
+});
+
+export const tagAttemptSchema = z.object({
+    sessionId: idField,
+    targetId: playerId
+});
+
+export const startTagGameSchema = z.object({
+    sessionId: idField,
+    duration: z.number().int().min(60000).max(600000).optional()
+});
+
+export const leaveTagGameSchema = z.object({
+    sessionId: idField
+});
+
+// =============================================================================
+// MYSTERY BOX SCHEMAS
+// =============================================================================
+
+// Box tiers are the box ids in content/loot, so only their shape is checked here
+const boxTier = z.string().min(1).max(32);
+
+export const openMysteryBoxSchema = z.object({
+    tier: boxTier
+});
+
+export const getPityProgressSchema = z.object({
+    tier: boxTier
+});
+
+// =============================================================================
+// ANCHORING / MINDFULNESS SCHEMAS
+// =============================================================================
+
+export const enterAnchoringZoneSchema = z.object({
+    zoneId: idField
+});
+
+export const startMeditationSchema = z.object({
+    type: z.enum(['breathing', 'focus', 'body_scan', 'gratitude', 'visualization']).optional(),
+    duration: z.number().int().min(60).max(3600).optional() // 1-60 minutes
+});
+
+export const endMeditationSchema = z.object({
+    completed: z.boolean().optional(),
+    duration: z.number().int().min(0).max(3600).optional()
+});
+
+export const joinGroupMeditationSchema = z.object({
+    sessionId: idField
+});
+
+export const breathingSyncSchema = z.object({
+    phase: z.enum(['inhale', 'hold', 'exhale', 'rest']),
+    timestamp: timestamp.optional()
+});
+
+// =============================================================================
+// LEADERBOARD SCHEMAS
+// =============================================================================
+
+const leaderboardTimeframe = z.enum(['daily', 'weekly', 'monthly', 'alltime']);
+
+export const requestLeaderboardSchema = z.object({
+    type: z.string().max(32).optional(),
+    timeframe: leaderboardTimeframe.optional(),
+    limit: z.number().int().min(1).max(100).optional(),
+    offset: z.number().int().min(0).optional()
+});
+
+export const requestPlayerRankSchema = z.object({
+    type: z.string().max(32).optional(),
+    timeframe: leaderboardTimeframe.optional()
+});
+
+export const requestRealmLeaderboardSchema = z.object({
+    realm: realm,
+    type: z.string().max(32).optional(),
+    limit: z.number().int().min(1).max(100).optional()
+});
+
+// =============================================================================
+// QUEST SCHEMAS
+// =============================================================================
+
+export const startQuestSchema = z.object({
+    questId: idField
+});
+
+export const updateQuestProgressSchema = z.object({
+    objectiveType: z.string().min(1).max(50),
+    amount: z.number().int().min(1).max(100000).optional(),
+    partnerId: idField.optional()       // For objectives done with a friend or bond partner
+});
+
+export const claimQuestRewardSchema = z.object({
+    questId: idField,
+    choiceId: z.string().min(1).max(50).optional()  // Branch picked for quests with choices
+});
+
+export const abandonQuestSchema = z.object({
+    questId: idField
+});
+
+// =============================================================================
+// SIGNAL SCHEMAS
+// =============================================================================
+
+const signalType = z.enum([
+    'wave', 'invitation', 'distress', 'celebration', 'discovery',
+    'rally', 'warning', 'thanks', 'farewell', 'heart'
+]);
+
+export const sendSignalSchema = z.object({
+    type: signalType,
+    targetId: playerId.optional(),
+    x: coordinate.optional(),
+    y: coordinate.optional(),
+    message: z.string().max(100).optional(),
+    intensity: z.number().int().min(1).max(3).optional(),   // Widens the range it is seen from
+    color: hue.optional()
+});
+
+export const respondSignalSchema = z.object({
+    signalId: idField,
+    response: signalType    // Sent back to the signal's sender
+});
+
+export const acknowledgeSignalSchema = z.object({
+    signalId: idField
+});
+
+// =============================================================================
+// EXPLORATION SCHEMAS
+// =============================================================================
+
+export const getNearbyPoisSchema = z.object({
+    radius: z.number().min(50).max(5000).optional()
+});
+
+export const getRegionInfoSchema = z.object({
+    regionId: realm.optional()
+});
+
+export const discoverPoiSchema = z.object({
+    poiId: idField,
+    x: coordinate.optional(),
+    y: coordinate.optional()
+});
+
+export const discoverBiomeSchema = z.object({
+    biomeId: idField,
+    biomeType: z.string().max(32).optional()
+});
+
+export const revealFogSchema = z.object({
+    chunkX: z.number().int().min(-1000).max(1000),
+    chunkY: z.number().int().min(-1000).max(1000),
+    realm: realm.optional()
+});
+
+export const discoverTimeSecretSchema = z.object({
+    secretId: idField,
+    timeCondition: z.string().max(64).optional()
+});
+
+// =============================================================================
+// REPUTATION SCHEMAS
+// =============================================================================
+
+export const trackReputationActionSchema = z.object({
+    action: z.string().min(1).max(64),
+    target: playerId.optional(),
+    value: z.number().int().min(-100).max(100).optional()
+});
+
+const reputationTrack = z.enum(['explorer', 'connector', 'guardian', 'beacon_keeper', 'collector']);
+
+export const getTrackProgressSchema = z.object({
+    track: reputationTrack
+});
+
+export const getPlayerReputationSchema = z.object({
+    playerId: playerId
+});
+
+export const getReputationLeaderboardSchema = z.object({
+    track: reputationTrack,
+    limit: z.number().int().min(1).max(100).optional()
+});
+
+export const claimReputationRewardSchema = z.object({
+    rewardId: idField,
+    track: z.string().max(32).optional()
+});
+
+// =============================================================================
+// NOTIFICATION SCHEMAS
+// =============================================================================
+
+const hourOfDay = z.number().int().min(0).max(23);
+
+const notificationType = z.enum([
+    'friend_online', 'friend_offline', 'friend_request', 'friend_accepted', 'gift_received',
+    'achievement_unlocked', 'level_up', 'challenge_complete', 'world_event', 'darkness_warning',
+    'milestone', 'guild_invite', 'guild_message', 'system', 'reward', 'tag_invite', 'whisper',
+    'connection_made', 'social', 'achievement', 'gift', 'bond', 'digest'
+]);
+
+export const updateNotificationPrefsSchema = z.object({
+    enabled: z.boolean().optional(),
+    categories: z.record(z.boolean()).optional(),
+    sound: z.boolean().optional(),
+    vibration: z.boolean().optional(),
+    enabledTypes: z.array(notificationType).max(50).optional(),
+    doNotDisturb: z.boolean().optional(),
+    mutedUntil: z.number().int().nonnegative().nullable().optional(),
+    quietHours: z.object({ startHour: hourOfDay, endHour: hourOfDay }).nullable().optional()
+});
+
+export const getNotificationsSchema = z.object({
+    offset: z.number().int().min(0).max(10000).optional(),
+    limit: z.number().int().min(1).max(50).optional(),
+    unreadOnly: z.boolean().optional()
+}).default({});   // Sent with no payload for the first page
+
+export const markNotificationReadSchema = z.object({
+    notificationId: idField
+});
+
+export const mutePlayerSchema = z.object({
+    targetId: playerId,
+    duration: z.number().int().min(0).max(86400000).optional() // 0 = permanent, max 24hr
+});
+
+// =============================================================================
+// GUILD SCHEMAS
+// =============================================================================
+
+const guildSortBy = z.enum(['level', 'members', 'contributions', 'name']);
+
+const guildContributionType = z.enum(['stardust', 'xp', 'challenges']);
+
+export const createGuildSchema = z.object({
+    name: z.string().min(3).max(32),
+    description: z.string().max(500).optional(),
+    tag: z.string().min(2).max(6).optional(),
+    icon: z.string().max(32).optional(),
+    color: z.string().max(32).optional(),
+    isPublic: z.boolean().optional(),
+    minLevel: z.number().int().min(1).max(100).optional()
+});
+
+export const joinGuildSchema = z.object({
+    guildId: idField
+});
+
+export const guildActionSchema = z.object({
+    action: z.enum([
+        // Query actions
+        'info', 'list', 'get_gifts',
+        // Lifecycle actions  
+        'create', 'join', 'leave', 'disband',
+        // Management actions
+        'promote', 'demote', 'kick', 'invite', 'transfer', 'update',
+        // Gift/contribution actions
+        'claim_gift', 'contribute',
+        // Guild chat
+        'chat'
+    ]),
+    targetId: playerId.optional(),
+    guildId: idField.optional(),
+    guildName: z.string().min(3).max(32).optional(),
+    guildTag: z.string().min(2).max(5).optional(),
+    guildDescription: z.string().max(500).optional(),
+    icon: z.string().max(32).optional(),
+    color: z.string().max(32).optional(),
+    isPublic: z.boolean().optional(),
+    giftId: idField.optional(),
+    // list
+    limit: z.number().int().min(1).max(100).optional(),
+    offset: z.number().int().min(0).optional(),
+    query: z.string().max(64).optional(),
+    sortBy: guildSortBy.optional(),
+    // contribute
+    contributionType: guildContributionType.optional(),
+    amount: z.number().int().min(1).max(100000).optional(),
+    // chat
+    text: z.string().min(1).max(500).optional(),
+    data: z.record(z.unknown()).optional()
+});
+
+export const leaveGuildSchema = z.object({
+    guildId: idField.optional()
+});
+
+export const listGuildsSchema = z.object({
+    limit: z.number().int().min(1).max(100).optional(),
+    offset: z.number().int().min(0).optional(),
+    query: z.string().max(64).optional(),
+    sortBy: guildSortBy.optional()
+});
+
+export const getGuildInfoSchema = z.object({
+    guildId: idField.optional()
+});
+
+export const guildChatSchema = z.object({
+    message: z.string().min(1).max(500)
+});
+
+export const guildContributeSchema = z.object({
+    contributionType: guildContributionType,
+    amount: z.number().int().min(1).max(100000)
+});
+
+// =============================================================================
+// GIFT SCHEMAS
+// =============================================================================
+
+export const sendGiftSchema = z.object({
+    // Accept both 'recipientId' and 'toPlayerId' since client sends 'toPlayerId'
+    recipientId: playerId.optional(),
+    toPlayerId: playerId.optional(),
+    giftType: z.string().max(50).optional(),
+    amount: z.number().int().min(1).max(100).optional(),
+    message: z.string().max(200).optional()
+}).transform(data => ({
+    recipientId: data.recipientId || data.toPlayerId || '',
+    giftType: data.giftType,
+    amount: data.amount,
+    message: data.message
+}));
+
+export const claimGiftSchema = z.object({
+    giftId: idField
+});
+
+export const getGiftHistorySchema = z.object({
+    limit: z.number().int().min(1).max(100).optional()
+});
+
+export const giftTargetSchema = z.object({
+    targetId: playerId
+});
+
+// =============================================================================
+// VOICE CHAT SCHEMAS
+// =============================================================================
+
+export const voiceSignalSchema = z.object({
+    targetId: playerId,
+    signalType: z.enum(['offer', 'answer', 'ice']),
+    signal: z.record(z.unknown())
+});
+
+export const voiceJoinRoomSchema = z.object({
+    roomId: idField.optional()
+});
+
+export const voiceMuteSchema = z.object({
+    // Accept both 'muted' and 'isMuted'
+    muted: z.boolean().optional(),
+    isMuted: z.boolean().optional()
+}).transform(data => ({
+    isMuted: data.isMuted ?? data.muted ?? false
+}));
+
+export const voiceSpeakingSchema = z.object({
+    speaking: z.boolean()
+});
+
+// =============================================================================
+// PROFILE SCHEMAS
+// =============================================================================
+
+export const markFeedReadSchema = z.object({
+    entryIds: z.array(idField).max(100)
+});
+
+// Stored as-is under settings; the write policy decides what is kept
+export const updateSettingsSchema = z.record(z.unknown());
+
+export const syncCommunicationSchema = z.object({
+    friends: z.array(playerId).max(500).optional(),
+    blocked: z.array(playerId).max(500).optional(),
+    favoriteEmotes: z.array(z.string().max(32)).max(20).optional(),
+    chatEnabled: z.boolean().optional(),
+    signalsEnabled: z.boolean().optional()
+});
+
+// =============================================================================
+// PET SCHEMAS
+// =============================================================================
+
+export const petSchema = z.object({
+    petId: idField
+});
+
+// A null petId unequips
+export const equipPetSchema = z.object({
+    petId: idField.nullable()
+});
+
+// =============================================================================
+// BOND SCHEMAS
+// =============================================================================
+
+export const getBondSchema = z.object({
+    targetId: playerId
+});
+
+export const bondInteractionSchema = z.object({
+    targetId: playerId,
+    type: z.enum(['whisper', 'sing', 'pulse', 'gift', 'play', 'meditate']),
+    value: z.number().min(0).max(100).optional()
+});
+
+// A memory pins a moment from the bond's timeline, optionally with a caption
+export const addBondMemorySchema = z.object({
+    targetId: playerId,
+    momentId: idField,
+    memoryText: z.string().min(1).max(200).optional()
+});
+
+export const sealBondSchema = z.object({
+    targetId: playerId,
+    sealWord: z.string().min(1).max(32)
+});
+
+export const getRealmStarsSchema = z.object({
+    realmId: realm.optional(),
+    limit: z.number().int().min(1).max(200).optional()
+});
+
+// =============================================================================
+// REFERRAL SCHEMAS
+// =============================================================================
+
+export const referralCodeSchema = z.object({
+    code: z.string().min(4).max(20)
+});
+
+// =============================================================================
+// MENTORSHIP SCHEMAS
+// =============================================================================
+
+export const becomeMentorSchema = z.object({
+    playerLevel: z.number().int().min(0).max(1000).optional(),
+    sealedBonds: z.number().int().min(0).max(10000).optional()
+});
+
+export const requestMentorSchema = z.object({
+    preferredMentorId: playerId.optional()
+});
+
+export const menteeSchema = z.object({
+    menteeId: playerId
+});
+
+export const getAvailableMentorsSchema = z.object({
+    limit: z.number().int().min(1).max(50).optional()
+});
+
+export const sendMentorTipSchema = z.object({
+    menteeId: playerId,
+    tipMessage: z.string().min(1).max(300)
+});
+
+export const rateMentorshipSchema = z.object({
+    targetId: playerId,
+    rating: z.number().int().min(1).max(5),
+    feedback: z.string().max(500).optional()
+});
+
+export const endMentorshipSchema = z.object({
+    targetId: playerId
+});
+
+// =============================================================================
+// SEASON SCHEMAS
+// =============================================================================
+
+export const seasonAddXpSchema = z.object({
+    xp: z.number().int().min(1).max(100000),
+    source: z.string().max(32).optional()
+});
+
+export const seasonClaimRewardSchema = z.object({
+    tier: z.number().int().min(1).max(100),
+    claimPremium: z.boolean().optional()
+});
+
+// =============================================================================
+// GALLERY SCHEMAS
+// =============================================================================
+// Gallery messages carry their payload under `data`, next to the ids
+
+const screenshotId = z.object({
+    screenshotId: idField
+});
+
+const galleryQuery = z.object({
+    limit: z.number().int().min(1).max(100).optional(),
+    offset: z.number().int().min(0).optional(),
+    filter: z.string().max(32).optional(),
+    template: z.string().max(32).optional(),
+    realm: realm.optional(),
+    albumId: idField.optional(),
+    sortBy: z.enum(['recent', 'popular']).optional()
+});
+
+export const gallerySaveSchema = z.object({
+    data: z.object({
+        imageRef: z.string().min(1).max(2048),
+        thumbnailRef: z.string().max(2048).optional(),
+        filter: z.string().max(32).optional(),
+        template: z.string().max(32).optional(),
+        caption: z.string().max(200).optional(),
+        stats: z.object({
+            fragments: z.number().int().min(0),
+            bonds: z.number().int().min(0),
+            beacons: z.number().int().min(0),
+            level: z.number().int().min(0),
+            stardust: z.number().int().min(0).optional()
+        }).partial().optional(),
+        location: z.object({
+            x: coordinate,
+            y: coordinate,
+            realm: realm,
+            biome: z.string().max(32).optional()
+        }),
+        visiblePlayers: z.array(z.object({ playerId, playerName })).max(50).optional()
+    })
+});
+
+export const galleryQuerySchema = z.object({
+    data: galleryQuery.optional()
+});
+
+export const galleryScreenshotSchema = screenshotId;
+
+export const galleryUpdateCaptionSchema = screenshotId.extend({
+    data: z.object({ caption: z.string().max(200) })
+});
+
+export const galleryTrackShareSchema = screenshotId.extend({
+    data: z.object({ platform: z.string().min(1).max(32) })
+});
+
+export const galleryCreateAlbumSchema = z.object({
+    data: z.object({
+        name: z.string().min(1).max(50),
+        description: z.string().max(200).optional()
+    })
+});
+
+export const galleryAlbumSchema = z.object({
+    albumId: idField
+});
+
+export const galleryAlbumEntrySchema = screenshotId.extend({
+    albumId: idField
+});
+
+// =============================================================================
+// CONSTELLATION SCHEMAS
+// =============================================================================
+
+export const constellationFormSchema = z.object({
+    data: z.object({
+        playerIds: z.array(playerId).min(2).max(12),
+        starMemoryIds: z.array(idField).min(1).max(50),
+        realmId: realm,
+        name: z.string().max(50).optional(),
+        description: z.string().max(200).optional()
+    })
+});
+
+export const constellationExpandSchema = z.object({
+    constellationId: idField,
+    data: z.object({
+        newStarMemoryIds: z.array(idField).min(1).max(50)
+    })
+});
+
+export const constellationSchema = z.object({
+    constellationId: idField
+});
+
+export const constellationRealmSchema = z.object({
+    realmId: realm,
+    data: z.object({
+        limit: z.number().int().min(1).max(100).optional()
+    }).optional()
+});
+
+// =============================================================================
+// ACTIVITY FEED SCHEMAS
+// =============================================================================
+
+export const activityFeedSchema = z.object({
+    limit: z.number().int().min(1).max(100).optional()
+});
+
+export const activityLevelUpSchema = z.object({
+    playerAvatar: z.string().max(256).optional(),
+    data: z.object({ level: z.number().int().min(1).max(1000) })
+});
+
+export const activityAchievementSchema = z.object({
+    playerAvatar: z.string().max(256).optional(),
+    data: z.object({
+        achievementName: z.string().min(1).max(100),
+        achievementIcon: z.string().max(32).optional()
+    })
+});
+
+// =============================================================================
+// FRIEND SCHEMAS
+// =============================================================================
+
+export const friendIdSchema = z.object({
+    friendId: playerId
+});
+
+export const addFriendSchema = z.object({
+    friendId: playerId,
+    friendName: z.string().max(50).optional()
+});
+
+export const friendRequestIdSchema = z.object({
+    requestId: idField
+});
+
+// =============================================================================
+// MAP MARKER (v2) SCHEMAS
+// =============================================================================
+
+const markerType = z.enum(['temporary', 'permanent', 'shared', 'beacon', 'waypoint', 'custom']);
+const markerVisibility = z.enum(['private', 'friends', 'constellation', 'public']);
+
+export const createMarkerSchema = z.object({
+    realm: realm,
+    x: coordinate,
+    y: coordinate,
+    markerType: markerType.optional(),
+    iconType: z.string().max(32).optional(),
+    label: z.string().min(1).max(50),
+    description: z.string().max(200).optional(),
+    color: hexColor.optional(),
+    visibility: markerVisibility.optional(),
+    sharedWith: z.array(playerId).max(50).optional(),
+    expiresInMs: z.number().int().min(0).max(30 * 24 * 60 * 60 * 1000).optional(),
+    metadata: z.record(z.unknown()).optional()
+});
+
+export const getMarkersSchema = z.object({
+    realm: realm.optional(),
+    markerType: z.union([markerType, z.array(markerType)]).optional(),
+    bounds: z.object({
+        minX: coordinate,
+        maxX: coordinate,
+        minY: coordinate,
+        maxY: coordinate
+    }).optional(),
+    includeExpired: z.boolean().optional(),
+    limit: z.number().int().min(1).max(200).optional(),
+    skip: z.number().int().min(0).optional()
+});
+
+export const updateMarkerSchema = z.object({
+    markerId: idField,
+    updates: createMarkerSchema.omit({ realm: true, x: true, y: true }).partial().extend({
+        x: coordinate.optional(),
+        y: coordinate.optional()
+    })
+});
+
+export const markerIdSchema = z.object({
+    markerId: idField
+});
+
+export const shareMarkerSchema = z.object({
+    markerId: idField,
+    targetPlayerId: playerId
+});
+
+export const markerInviteSchema = z.object({
+    inviteId: idField
+});
+
+export const saveMarkerPresetSchema = z.object({
+    name: z.string().min(1).max(32),
+    iconType: z.string().max(32),
+    color: hexColor,
+    defaultVisibility: markerVisibility.optional()
+});
+
+export const markerPresetSchema = z.object({
+    presetId: idField
+});
+
+// =============================================================================
+// SEEK MODE SCHEMAS
+// =============================================================================
+
+export const createSeekGameSchema = z.object({
+    centerX: coordinate,
+    centerY: coordinate,
+    settings: z.object({
+        hidingTime: z.number().int().min(10).max(300),
+        seekingTime: z.number().int().min(30).max(1800),
+        maxPlayers: z.number().int().min(2).max(20),
+        allowHints: z.boolean(),
+        boundaryRadius: z.number().min(100).max(5000)
+    }).partial().optional()
+});
+
+export const seekGameSchema = z.object({
+    gameId: idField
+});
+
+export const confirmHidingSchema = z.object({
+    gameId: idField,
+    x: coordinate,
+    y: coordinate
+});
+
+export const attemptFindSchema = z.object({
+    gameId: idField,
+    targetX: coordinate,
+    targetY: coordinate
+});
+
+export const seekHistorySchema = z.object({
+    limit: z.number().int().min(1).max(100).optional()
+});
+
+// =============================================================================
+// ANALYTICS SCHEMAS
+// =============================================================================
+
+export const updateAnalyticsPreferencesSchema = z.object({
+    updates: z.record(z.unknown())
+});
+
+export const updateVisualFiltersSchema = z.object({
+    filters: z.object({
+        enabled: z.boolean(),
+        preset: z.string().min(1).max(32),
+        customSettings: z.object({
+            brightness: z.number(),
+            contrast: z.number(),
+            saturation: z.number(),
+            blur: z.number(),
+            vignette: z.number(),
+            colorTint: hexColor
+        }).optional()
+    })
+});
+
+export const startGameModeSchema = z.object({
+    gameMode: z.string().min(1).max(32),
+    metadata: z.record(z.unknown()).optional()
+});
+
+export const endGameModeSchema = z.object({
+    outcome: z.enum(['win', 'loss', 'draw', 'abandoned']).optional(),
+    score: z.number().optional()
+});
+
+export const startAmbientSchema = z.object({
+    mode: z.enum(['zen', 'aurora', 'stargazing', 'campfire', 'custom']),
+    settings: z.object({
+        musicTrack: z.string().max(64).optional(),
+        visualPreset: z.string().max(64).optional(),
+        particleDensity: z.number().min(0).max(1).optional()
+    }).optional()
+});
+
+// =============================================================================
+// SNAPSHOT SCHEMAS
+// =============================================================================
+
+export const snapshotTakenSchema = z.object({
+    x: coordinate,
+    y: coordinate,
+    realm: realm.optional(),
+    // Accept both field names for backward compatibility
+    playersInFrame: z.array(playerId).max(50).optional(),
+    visiblePlayers: z.array(playerId).max(50).optional(),
+    visibleEntities: z.array(idField).max(50).optional(),
+    caption: z.string().max(200).optional(),
+    timestamp: timestamp.optional()
+}).transform(data => ({
+    ...data,
+    playersInFrame: data.playersInFrame || data.visiblePlayers || []
+}));
+
+// =============================================================================
+// MISC ACTION SCHEMAS
+// =============================================================================
+
+export const removeFriendSchema = z.object({
+    friendId: playerId
+});
+
+export const trackStatSchema = z.object({
+    stat: z.string().min(1).max(64),
+    amount: z.number().int().default(1)
+});
+
+export const addAchievementSchema = z.object({
+    achievementId: idField
+});
+
+export const lightBeaconSchema = z.object({
+    beaconId: idField
+});
+
+export const rerollChallengeSchema = z.object({
+    challengeId: idField
+});
+
+// =============================================================================
+// MESSAGE REGISTRY
+// Every message type the router accepts, mapped to its payload schema
+// =============================================================================
+
+/**
+ * Queries and commands that carry no payload. Their data is passed through
+ * unchecked, so optional query parameters still reach the handler.
+ */
+export const noPayload = z.object({}).passthrough();
+
+export const CLIENT_MESSAGES = {
+    // Core Game Actions
+    'player_update': playerUpdateSchema,
+    'collect_fragment': collectFragmentSchema,
+    'refresh_session': noPayload,
+    'ping': noPayload,
+
+    // Game Actions
+    'sing': singSchema,
+    'pulse': pulseSchema,
+    'emote': emoteSchema,
+    'echo': echoSchema,
+    'echo_ignite': resonateEchoSchema,
+    'star_lit': lightStarSchema,
+    'light_beacon': lightBeaconSchema,
+    'wave': waveSchema,
+    'resonance': resonanceSchema,
+    'pulse_pattern_completed': pulsePatternCompletedSchema,
+    'record_pulse': recordPulseSchema,
+    'get_pulse_patterns': noPayload,
+
+    // Chat
+    'chat': chatSchema,
+    'whisper': whisperSchema,
+    'report_player': reportPlayerSchema,
+    'emoji_reaction': emojiReactionSchema,
+    'typing': typingIndicatorSchema,
+
+    // Progression
+    'challenge_progress': challengeProgressSchema,
+    'request_progression': noPayload,
+    'claim_daily_reward': claimDailyRewardSchema,
+    'claim_challenge_reward': claimChallengeRewardSchema,
+    'reroll_challenge': rerollChallengeSchema,
+    'claim_season_reward': claimSeasonRewardSchema,
+    'purchase_cosmetic': purchaseCosmeticSchema,
+    'equip_cosmetic': equipCosmeticSchema,
+    'get_activity_feed': getActivityFeedSchema,
+    'mark_feed_read': markFeedReadSchema,
+    'get_unread_count': noPayload,
+    'track_stat': trackStatSchema,
+    'add_achievement': addAchievementSchema,
+
+    // Player Data
+    'sync_player_data': syncPlayerDataSchema,
+    'update_settings': updateSettingsSchema,
+    'request_player_data': noPayload,
+    'friend_request': friendRequestSchema,
+    'accept_friend': friendResponseSchema,
+    'decline_friend': friendResponseSchema,
+    'remove_friend': removeFriendSchema,
+    'get_friends': noPayload,
+    'get_pending_requests': noPayload,
+    'teleport_to_friend': teleportToFriendSchema,
+
+    // Communication Sync
+    'sync_communication': syncCommunicationSchema,
+    'request_communication': noPayload,
+
+    // Map Markers
+    'place_map_marker': placeMapMarkerSchema,
+    'remove_map_marker': removeMapMarkerSchema,
+    'request_friend_markers': requestFriendMarkersSchema,
+
+    // Companion
+    'request_companion_data': noPayload,
+    'purchase_companion': purchaseCompanionSchema,
+    'equip_companion': equipCompanionSchema,
+    'unequip_companion': noPayload,
+    'feed_companion': feedCompanionSchema,
+    'rename_companion': renameCompanionSchema,
+
+    // Pets
+    'adopt_pet': petSchema,
+    'equip_pet': equipPetSchema,
+    'feed_pet': petSchema,
+    'play_pet': petSchema,
+    'get_pet_details': petSchema,
+
+    // World Events
+    'request_world_events': noPayload,
+    'join_world_event': joinWorldEventSchema,
+    'contribute_event': contributeEventSchema,
+    'get_event_progress': getEventProgressSchema,
+    'get_event_leaderboard': getEventLeaderboardSchema,
+    'claim_event_reward': claimEventRewardSchema,
+    'request_darkness': noPayload,
+    'get_darkness_level': noPayload,
+    'fight_darkness': fightDarknessSchema,
+    'get_darkness_hazards': noPayload,
+
+    // World State
+    'request_world_state': noPayload,
+    'world_state_ack': worldStateAckSchema,
+    'reliable_ack': reliableAckSchema,
+
+    // Power-ups
+    'request_power_ups': noPayload,
+    'collect_power_up': collectPowerUpSchema,
+    'activate_power_up': activatePowerUpSchema,
+    'get_active_power_ups': noPayload,
+
+    // Tag Game
+    'tag_create': createTagGameSchema,
+    'tag_join': joinTagGameSchema,
+    'tag_start': startTagGameSchema,
+    'tag_attempt': tagAttemptSchema,
+    'tag_leave': leaveTagGameSchema,
+    'get_tag_games': noPayload,
+
+    // Mystery Box
+    'request_mystery_boxes': noPayload,
+    'get_mystery_box_info': noPayload,
+    'open_mystery_box': openMysteryBoxSchema,
+    'request_box_stats': noPayload,
+    'get_box_stats': noPayload,
+    'get_pity_progress': getPityProgressSchema,
+    'get_global_box_stats': noPayload,
+
+    // Anchoring / Mindfulness
+    'request_anchoring_zones': noPayload,
+    'enter_anchoring_zone': enterAnchoringZoneSchema,
+    'leave_anchoring_zone': noPayload,
+    'start_meditation': startMeditationSchema,
+    'end_meditation': endMeditationSchema,
+    'request_mindfulness_stats': noPayload,
+    'join_group_meditation': joinGroupMeditationSchema,
+    'breathing_sync': breathingSyncSchema,
+
+    // Leaderboard
+    'request_leaderboard': requestLeaderboardSchema,
+    'request_player_rank': requestPlayerRankSchema,
+    'request_nearby_ranks': requestPlayerRankSchema,
+    'request_friend_leaderboard': requestPlayerRankSchema,
+    'request_realm_leaderboard': requestRealmLeaderboardSchema,
+    'get_leaderboard_types': noPayload,
+
+    // Quests
+    'request_quests': noPayload,
+    'get_quests': noPayload,
+    'get_active_quests': noPayload,
+    'get_story_quests': noPayload,
+    'start_quest': startQuestSchema,
+    'update_quest_progress': updateQuestProgressSchema,
+    'claim_quest_reward': claimQuestRewardSchema,
+    'abandon_quest': abandonQuestSchema,
+    'get_daily_quests': noPayload,
+    'get_weekly_quests': noPayload,
+    'get_quest_stats': noPayload,
+
+    // Signals
+    'send_signal': sendSignalSchema,
+    'request_signals': noPayload,
+    'get_signals': noPayload,
+    'respond_signal': respondSignalSchema,
+    'acknowledge_signal': acknowledgeSignalSchema,
+    'get_signal_types': noPayload,
+    'get_directed_signals': noPayload,
+    'get_signal_cooldowns': noPayload,
+
+    // Exploration
+    'update_exploration': updateExplorationSchema,
+    'request_exploration_data': noPayload,
+    'discover_poi': discoverPoiSchema,
+    'get_nearby_pois': getNearbyPoisSchema,
+    'get_exploration_stats': noPayload,
+    'get_region_info': getRegionInfoSchema,
+    'discover_biome': discoverBiomeSchema,
+    'reveal_fog': revealFogSchema,
+    'get_exploration_milestones': noPayload,
+    'get_discovered_biomes': noPayload,
+    'get_available_time_secrets': noPayload,
+    'discover_time_secret': discoverTimeSecretSchema,
+    'get_all_time_secrets': noPayload,
+
+    // Reputation
+    'request_reputation': noPayload,
+    'track_reputation_action': trackReputationActionSchema,
+    'get_track_progress': getTrackProgressSchema,
+    'get_player_reputation': getPlayerReputationSchema,
+    'claim_reputation_reward': claimReputationRewardSchema,
+    'get_reputation_leaderboard': getReputationLeaderboardSchema,
+
+    // Notifications
+    'get_notification_preferences': noPayload,
+    'get_notification_prefs': noPayload,
+    'update_notification_preferences': updateNotificationPrefsSchema,
+    'update_notification_prefs': updateNotificationPrefsSchema,
+    'get_notifications': getNotificationsSchema,
+    'mark_notification_read': markNotificationReadSchema,
+    'mark_all_notifications_read': noPayload,
+    'mark_all_read': noPayload,
+    'clear_notifications': noPayload,
+    'mute_player': mutePlayerSchema,
+    'unmute_player': mutePlayerSchema,
+
+    // Snapshots
+    'snapshot_taken': snapshotTakenSchema,
+
+    // Guilds
+    'guild_action': guildActionSchema,
+    'guild_chat': guildChatSchema,
+    'create_guild': createGuildSchema,
+    'join_guild': joinGuildSchema,
+    'leave_guild': leaveGuildSchema,
+    'list_guilds': listGuildsSchema,
+    'get_guild_info': getGuildInfoSchema,
+    'guild_contribute': guildContributeSchema,
+
+    // Gifts
+    'send_gift': sendGiftSchema,
+    'claim_gift': claimGiftSchema,
+    'get_pending_gifts': noPayload,
+    'get_gift_history': getGiftHistorySchema,
+    'get_gift_cooldown': giftTargetSchema,
+    'get_gift_streak': giftTargetSchema,
+
+    // Voice Chat
+    'voice_signal': voiceSignalSchema,
+    'voice_join_room': voiceJoinRoomSchema,
+    'voice_leave_room': noPayload,
+    'voice_mute': voiceMuteSchema,
+    'voice_speaking': voiceSpeakingSchema,
+    'get_nearby_voice_peers': noPayload,
+    'get_voice_rooms': noPayload,
+
+
+    // Bonds
+    'get_bond': getBondSchema,
+    'get_all_bonds': noPayload,
+    'bond_interaction': bondInteractionSchema,
+    'add_bond_memory': addBondMemorySchema,
+    'seal_bond': sealBondSchema,
+    'get_star_memories': noPayload,
+    'get_realm_stars': getRealmStarsSchema,
+    'get_constellations': noPayload,
+
+    // Referrals
+    'generate_referral_code': noPayload,
+    'apply_referral': referralCodeSchema,
+    'get_referral_stats': noPayload,
+    'get_referred_players': noPayload,
+    'claim_referral_reward': noPayload,
+    'get_my_referral_code': noPayload,
+    'validate_referral_code': referralCodeSchema,
+
+    // Mentorship
+    'become_mentor': becomeMentorSchema,
+    'request_mentor': requestMentorSchema,
+    'accept_mentee': menteeSchema,
+    'decline_mentee': menteeSchema,
+    'get_available_mentors': getAvailableMentorsSchema,
+    'get_mentorship_status': noPayload,
+    'end_mentorship': endMentorshipSchema,
+    'send_mentor_tip': sendMentorTipSchema,
+    'rate_mentorship': rateMentorshipSchema,
+    'get_pending_mentee_requests': noPayload,
+
+    // Season Pass
+    'season:getInfo': noPayload,
+    'season:getProgress': noPayload,
+    'season:addXP': seasonAddXpSchema,
+    'season:claimReward': seasonClaimRewardSchema,
+    'season:claimAll': noPayload,
+    'season:upgradePremium': noPayload,
+    'season:getRewards': noPayload,
+    'season:getHistory': noPayload,
+
+    // Gallery
+    'gallery:save': gallerySaveSchema,
+    'gallery:get': galleryQuerySchema,
+    'gallery:getOne': galleryScreenshotSchema,
+    'gallery:delete': galleryScreenshotSchema,
+    'gallery:updateCaption': galleryUpdateCaptionSchema,
+    'gallery:togglePublic': galleryScreenshotSchema,
+    'gallery:like': galleryScreenshotSchema,
+    'gallery:getPublic': galleryQuerySchema,
+    'gallery:trackShare': galleryTrackShareSchema,
+    'gallery:getStats': noPayload,
+    'gallery:createAlbum': galleryCreateAlbumSchema,
+    'gallery:getAlbums': noPayload,
+    'gallery:addToAlbum': galleryAlbumEntrySchema,
+    'gallery:removeFromAlbum': galleryAlbumEntrySchema,
+    'gallery:getAlbumScreenshots': galleryAlbumSchema,
+
+    // Daily Login
+    'daily:login': noPayload,
+    'daily:getStreak': noPayload,
+    'daily:getRewards': noPayload,
+    'daily:getLeaderboard': noPayload,
+
+    // Constellation
+    'constellation:form': constellationFormSchema,
+    'constellation:expand': constellationExpandSchema,
+    'constellation:getPlayer': noPayload,
+    'constellation:getOne': constellationSchema,
+    'constellation:getRealm': constellationRealmSchema,
+    'constellation:getStats': noPayload,
+    'constellation:checkPotential': noPayload,
+    'constellation:getGlobalStats': noPayload,
+
+    // Activity Feed
+    'activity:getFeed': activityFeedSchema,
+    'activity:getPlayer': activityFeedSchema,
+    'activity:getStats': noPayload,
+    'activity:recordLevelUp': activityLevelUpSchema,
+    'activity:recordAchievement': activityAchievementSchema,
+    'activity:recordOnline': noPayload,
+
+    // Friends
+    'friend:getStatuses': noPayload,
+    'friend:getPosition': friendIdSchema,
+    'friend:teleportTo': friendIdSchema,
+    'friend:add': addFriendSchema,
+    'friend:remove': friendIdSchema,
+    'friend:acceptRequest': friendRequestIdSchema,
+    'friend:declineRequest': friendRequestIdSchema,
+    'friend:getPendingRequests': noPayload,
+
+    // Map Markers (v2)
+    'marker:create': createMarkerSchema,
+    'marker:get': getMarkersSchema,
+    'marker:update': updateMarkerSchema,
+    'marker:delete': markerIdSchema,
+    'marker:share': shareMarkerSchema,
+    'marker:acceptShare': markerInviteSchema,
+    'marker:declineShare': markerInviteSchema,
+    'marker:savePreset': saveMarkerPresetSchema,
+    'marker:getPresets': noPayload,
+    'marker:deletePreset': markerPresetSchema,
+
+    // Seek Mode
+    'seek:createGame': createSeekGameSchema,
+    'seek:joinGame': seekGameSchema,
+    'seek:startGame': seekGameSchema,
+    'seek:confirmHiding': confirmHidingSchema,
+    'seek:attemptFind': attemptFindSchema,
+    'seek:leaveGame': noPayload,
+    'seek:getGames': noPayload,
+    'seek:getHistory': seekHistorySchema,
+    'seek:getCurrent': noPayload,
+
+    // Analytics
+    'analytics:getPreferences': noPayload,
+    'analytics:updatePreferences': updateAnalyticsPreferencesSchema,
+    'analytics:updateFilters': updateVisualFiltersSchema,
+    'analytics:startGameMode': startGameModeSchema,
+    'analytics:endGameMode': endGameModeSchema,
+    'analytics:getGameModeStats': noPayload,
+    'analytics:startAmbient': startAmbientSchema,
+    'analytics:endAmbient': noPayload,
+    'analytics:getAmbientStats': noPayload,
+    'analytics:getGlobalGameModeStats': noPayload,
+    'analytics:getGlobalAmbientStats': noPayload
+} satisfies Record<string, z.ZodTypeAny>;
+
+export type ClientMessageType = keyof typeof CLIENT_MESSAGES;
+
+/**
+ * What the client sends for a message type
+ */
+export type ClientPayload<T extends ClientMessageType> = z.input<(typeof CLIENT_MESSAGES)[T]>;
+
+/**
+ * What the handler receives once the payload has been validated
+ */
+export type ValidatedPayload<T extends ClientMessageType> = z.output<(typeof CLIENT_MESSAGES)[T]>;
+
+/**
+ * A validated request; switching on `type` narrows `data` to its payload
+ */
+export type ValidatedRequest = {
+    [T in ClientMessageType]: { type: T; data: ValidatedPayload<T> }
+}[ClientMessageType];
+
+export function isClientMessageType(type: string): type is ClientMessageType {
+    return Object.prototype.hasOwnProperty.call(CLIENT_MESSAGES, type);
+}
@@ -0,0 +1,119 @@
+// =============================================================================
+// Realm Registry Tests - entry rules and the rules the server applies per realm
+// =============================================================================
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { REALMS, ALL_REALM_IDS, checkRealmEntry, getRealmPhysics, isRealmId } from './realms.js';
+import { RealmIdSchema } from '../middleware/validation.js';
+import { tagGameService } from '../services/TagGameService.js';
+import { Simulation } from '../websocket/testing/index.js';
+import type { SimPlayer } from '../websocket/testing/index.js';
+
+describe('realm registry', () => {
+    it('knows every realm, including the ones the server used to reject', () => {
+        expect(ALL_REALM_IDS).toEqual(expect.arrayContaining(['abyss', 'crystal', 'celestial', 'tagarena']));
+        expect(RealmIdSchema.options).toEqual(ALL_REALM_IDS);
+        expect(isRealmId('tagarena')).toBe(true);
+        expect(isRealmId('toString')).toBe(false);
+        expect(getRealmPhysics('nowhere')).toEqual(getRealmPhysics('genesis'));
+    });
+
+    it('checks unlock level before capacity', () => {
+        expect(checkRealmEntry('celestial', 24, 0)).toEqual({ allowed: false, reason: 'locked', unlockLevel: 25 });
+        expect(checkRealmEntry('celestial', 25, REALMS.celestial.capacity)).toEqual({ allowed: false, reason: 'full', capacity: 50 });
+        expect(checkRealmEntry('celestial', 25, REALMS.celestial.capacity - 1)).toEqual({ allowed: true });
+        expect(checkRealmEntry('atlantis', 99, 0)).toEqual({ allowed: false, reason: 'unknown_realm' });
+    });
+});
+
+describe('realm rules in the game loop', () => {
+    const sims: Simulation[] = [];
+
+    afterEach(async () => {
+        for (const sim of sims.splice(0)) {
+            await sim.shutdown();
+        }
+    });
+
+    function createSim(): Simulation {
+        const sim = new Simulation({ seed: 13 });
+        sims.push(sim);
+        return sim;
+    }
+
+    function setLevel(sim: Simulation, player: SimPlayer, level: number): void {
+        sim.handler.players.get(player.playerId)!.level = level;
+    }
+
+    function switchRealm(player: SimPlayer, realm: string): void {
+        player.send('player_update', { x: 4000, y: 4000, realm, realmChange: true });
+    }
+
+    it('keeps players out of realms they have not unlocked', async () => {
+        const sim = createSim();
+        const novice = sim.connect('realm_novice');
+        await sim.settle();
+
+        switchRealm(novice, 'abyss');
+        await sim.settle();
+        expect(novice.last('realm_denied')).toEqual({ realm: 'genesis', requested: 'abyss', reason: 'locked', unlockLevel: 15 });
+        expect(sim.handler.players.get('realm_novice')!.realm).toBe('genesis');
+
+        setLevel(sim, novice, 15);
+        switchRealm(novice, 'abyss');
+        await sim.settle();
+        expect(novice.last('initial_state')).toMatchObject({ realm: 'abyss' });
+
+        // Connecting straight into a locked realm lands in genesis once the level is known
+        const sneaky = sim.connect('realm_sneaky', 'celestial');
+        await sim.settle();
+        expect(sneaky.last('realm_denied')).toMatchObject({ realm: 'genesis', requested: 'celestial', reason: 'locked' });
+        expect(sim.handler.players.get('realm_sneaky')!.realm).toBe('genesis');
+    });
+
+    it('puts everyone in the tag arena into its tag game and turns away players once full', async () => {
+        const sim = createSim();
+        const players = Array.from({ length: REALMS.tagarena.capacity + 1 }, (_, i) => sim.connect(`tagger_${i}`));
+        await sim.settle();
+
+        for (const player of players) {
+            setLevel(sim, player, 3);
+            switchRealm(player, 'tagarena');
+        }
+        await sim.settle();
+
+        const session = tagGameService.getRealmSession('tagarena')!;
+        expect(session).not.toBeNull();
+        expect(session.players.size).toBe(REALMS.tagarena.capacity);
+        expect(players[REALMS.tagarena.capacity].last('realm_denied')).toMatchObject({ reason: 'full', capacity: REALMS.tagarena.capacity });
+
+        // Leaving the arena leaves the game
+        switchRealm(players[0], 'genesis');
+        await sim.settle();
+        expect(session.players.has('tagger_0')).toBe(false);
+
+        for (const player of players.slice(1)) player.disconnect();
+        await sim.settle();
+        expect(session.players.size).toBe(0);
+    });
+
+    it('validates movement against the realm speed', async () => {
+        const sim = createSim();
+        const fast = sim.connect('realm_fast');
+        const slow = sim.connect('realm_slow');
+        await sim.settle();
+        setLevel(sim, slow, 15);
+        switchRealm(slow, 'abyss');
+        await sim.settle();
+
+        sim.tick(20);
+        // Within a burst at genesis drift (1.0), beyond one at abyss drift (0.5)
+        fast.send('player_update', { x: 4000, y: 4500 });
+        slow.send('player_update', { x: 4000, y: 4500 });
+        await sim.settle();
+
+        expect(fast.received('position_correction')).toEqual([]);
+        expect(slow.last('position_correction')).toMatchObject({ reason: 'speed' });
+        expect(sim.handler.players.get('realm_slow')!.y).toBeLessThan(4500);
+    });
+});
@@ -0,0 +1,290 @@
+// =============================================================================
+// Realm Registry - The one list of realms, shared by client and server
+// =============================================================================
+// The client imports this through src/constants/realms.ts for visuals and
+// local physics; the server uses it for which realms exist, who may enter
+// them (unlock level, capacity), how fast players may move in them and
+// which special rules apply:
+//
+// - tag:       players entering the realm are put into its tag game
+// - zen:       no tag games can be started in the realm
+// - confetti:  visual only (messages burst into particles on the client)
+//
+// Keep this file free of imports so both builds can compile it.
+// =============================================================================
+
+export type RealmId =
+    | 'genesis'
+    | 'nebula'
+    | 'void'
+    | 'starforge'
+    | 'sanctuary'
+    | 'abyss'
+    | 'crystal'
+    | 'celestial'
+    | 'tagarena';
+
+export type RealmSpecialMode = 'tag' | 'zen' | 'confetti';
+
+export interface RealmPhysics {
+    /** Movement speed multiplier (1.0 = normal) */
+    driftMultiplier: number;
+    /** Friction/deceleration multiplier (1.0 = normal, <1 = slippery) */
+    friction: number;
+    /** Optional gravity vector */
+    gravity?: { x: number; y: number };
+    /** Particle emission multiplier */
+    particleMultiplier?: number;
+}
+
+export interface RealmData {
+    /** Display name */
+    name: string;
+    /** Emoji icon */
+    icon: string;
+    /** Background color [R, G, B] */
+    bg: [number, number, number];
+    /** Nebula gradient color 1 [R, G, B] */
+    n1: [number, number, number];
+    /** Nebula gradient color 2 [R, G, B] */
+    n2: [number, number, number];
+    /** Level required to unlock */
+    unlock: number;
+    /** Most players the realm holds on one server */
+    capacity: number;
+    /** Short description */
+    desc: string;
+    /** Base drone frequency for audio */
+    drone: number;
+    /** Physics configuration */
+    physics: RealmPhysics;
+    /** Special realm mode */
+    special?: RealmSpecialMode;
+}
+
+export type RealmEntryDenial = 'unknown_realm' | 'locked' | 'full';
+
+export interface RealmEntryCheck {
+    allowed: boolean;
+    reason?: RealmEntryDenial;
+    unlockLevel?: number;
+    capacity?: number;
+}
+
+// ============================================================================
+// Realm Definitions
+// ============================================================================
+
+export const REALMS: Record<RealmId, RealmData> = {
+    genesis: {
+        name: 'Genesis',
+        icon: '🌌',
+        bg: [5, 5, 12],
+        n1: [78, 205, 196],     // Teal
+        n2: [255, 107, 157],    // Pink
+        unlock: 1,
+        capacity: 200,
+        desc: 'The birthplace',
+        drone: 55,
+        physics: {
+            driftMultiplier: 1.0,
+            friction: 1.0,
+        },
+    },
+
+    nebula: {
+        name: 'Nebula Gardens',
+        icon: '🌸',
+        bg: [15, 5, 20],
+        n1: [255, 107, 157],    // Pink
+        n2: [168, 85, 247],     // Purple
+        unlock: 1,
+        capacity: 150,
+        desc: 'Where echoes bloom',
+        drone: 62,
+        physics: {
+            driftMultiplier: 0.8,
+            friction: 0.95,
+            particleMultiplier: 1.5,
+        },
+        special: 'confetti',    // Messages explode with particles
+    },
+
+    void: {
+        name: 'The Void',
+        icon: '🌑',
+        bg: [2, 2, 5],
+        n1: [30, 30, 60],       // Dark blue
+        n2: [20, 20, 40],       // Darker blue
+        unlock: 1,
+        capacity: 150,
+        desc: 'Embrace darkness',
+        drone: 41,
+        physics: {
+            driftMultiplier: 0.6,
+            friction: 0.88,
+            gravity: { x: 0, y: 0.05 },   // Slight downward pull
+        },
+    },
+
+    starforge: {
+        name: 'Starforge',
+        icon: '🔥',
+        bg: [15, 8, 5],
+        n1: [255, 140, 0],      // Orange
+        n2: [255, 69, 0],       // Red-orange
+        unlock: 5,
+        capacity: 100,
+        desc: 'Born of fire',
+        drone: 73,
+        physics: {
+            driftMultiplier: 1.3,
+            friction: 1.1,
+            particleMultiplier: 2.0,
+        },
+    },
+
+    sanctuary: {
+        name: 'Sanctuary',
+        icon: '🏛️',
+        bg: [8, 12, 18],
+        n1: [100, 149, 237],    // Cornflower blue
+        n2: [135, 206, 250],    // Light sky blue
+        unlock: 10,
+        capacity: 80,
+        desc: 'A haven of peace',
+        drone: 49,
+        physics: {
+            driftMultiplier: 0.7,
+            friction: 0.92,
+        },
+        special: 'zen',         // Falling leaves, calming effects
+    },
+
+    abyss: {
+        name: 'The Abyss',
+        icon: '🌊',
+        bg: [3, 8, 15],
+        n1: [0, 100, 150],      // Deep ocean blue
+        n2: [0, 50, 100],       // Darker ocean
+        unlock: 15,
+        capacity: 80,
+        desc: 'Depths unknown',
+        drone: 36,
+        physics: {
+            driftMultiplier: 0.5,
+            friction: 0.85,
+            gravity: { x: 0, y: 0.1 },    // Stronger sinking feeling
+        },
+    },
+
+    crystal: {
+        name: 'Crystal Caverns',
+        icon: '💎',
+        bg: [12, 8, 18],
+        n1: [200, 150, 255],    // Light purple
+        n2: [150, 100, 200],    // Medium purple
+        unlock: 20,
+        capacity: 80,
+        desc: 'Prismatic wonder',
+        drone: 82,
+        physics: {
+            driftMultiplier: 1.1,
+            friction: 1.05,
+            particleMultiplier: 1.8,
+        },
+    },
+
+    celestial: {
+        name: 'Celestial Throne',
+        icon: '👑',
+        bg: [15, 12, 5],
+        n1: [255, 215, 0],      // Gold
+        n2: [255, 180, 0],      // Darker gold
+        unlock: 25,
+        capacity: 50,
+        desc: 'For the ascended',
+        drone: 110,
+        physics: {
+            driftMultiplier: 1.4,
+            friction: 1.0,
+            particleMultiplier: 2.5,
+        },
+    },
+
+    tagarena: {
+        name: 'Tag Arena',
+        icon: '⚡',
+        bg: [8, 5, 15],
+        n1: [255, 68, 102],     // Coral red
+        n2: [255, 215, 0],      // Gold
+        unlock: 3,
+        capacity: 20,           // One tag game's worth of players
+        desc: 'Run! Avoid the IT player',
+        drone: 80,
+        physics: {
+            driftMultiplier: 1.8,   // Much faster movement
+            friction: 0.95,
+        },
+        special: 'tag',           // Tag game mode
+    },
+};
+
+export const DEFAULT_REALM: RealmId = 'genesis';
+export const ALL_REALM_IDS = Object.keys(REALMS) as RealmId[];
+
+// ============================================================================
+// Realm Utilities
+// ============================================================================
+
+export function isRealmId(value: unknown): value is RealmId {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(REALMS, value);
+}
+
+/**
+ * Get realm data with safe fallback to genesis
+ */
+export function getRealm(realmId: string): RealmData {
+    return isRealmId(realmId) ? REALMS[realmId] : REALMS[DEFAULT_REALM];
+}
+
+/**
+ * Get realm physics with defaults filled in
+ */
+export function getRealmPhysics(realmId: string): Required<RealmPhysics> {
+    const realm = getRealm(realmId);
+    return {
+        driftMultiplier: realm.physics.driftMultiplier,
+        friction: realm.physics.friction,
+        gravity: realm.physics.gravity ?? { x: 0, y: 0 },
+        particleMultiplier: realm.physics.particleMultiplier ?? 1.0,
+    };
+}
+
+export function getRealmSpecialMode(realmId: string): RealmSpecialMode | undefined {
+    return getRealm(realmId).special;
+}
+
+export function isRealmUnlocked(realmId: RealmId, level: number): boolean {
+    return REALMS[realmId].unlock <= level;
+}
+
+export function getUnlockedRealms(level: number): RealmId[] {
+    return ALL_REALM_IDS.filter(realmId => isRealmUnlocked(realmId, level));
+}
+
+/**
+ * Whether a player of `level` may enter a realm currently holding `population` players
+ */
+export function checkRealmEntry(realm: string, level: number, population: number): RealmEntryCheck {
+    if (!isRealmId(realm)) return { allowed: false, reason: 'unknown_realm' };
+
+    const data = REALMS[realm];
+    if (level < data.unlock) {
+        return { allowed: false, reason: 'locked', unlockLevel: data.unlock };
+    }
+    if (population >= data.capacity) {
+        return { allowed: false, reason: 'full', capacity: data.capacity };
+    }
+    return { allowed: true };
+}
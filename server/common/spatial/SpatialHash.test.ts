@@ -0,0 +1,136 @@
+// =============================================================================
+// SpatialHash Tests - grid queries agree with a full scan
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { SpatialHash } from './SpatialHash.js';
+import { SpatialMap } from './SpatialMap.js';
+
+interface Point {
+    id: string;
+    x: number;
+    y: number;
+    realm: string;
+}
+
+// Small LCG so the fixtures are the same on every run
+function seededRandom(seed: number): () => number {
+    let state = seed;
+    return () => {
+        state = (state * 1664525 + 1013904223) % 4294967296;
+        return state / 4294967296;
+    };
+}
+
+function scatter(count: number, seed = 1): Point[] {
+    const random = seededRandom(seed);
+    return Array.from({ length: count }, (_, i) => ({
+        id: `p${i}`,
+        x: random() * 4000 - 500,
+        y: random() * 4000 - 500,
+        realm: i % 2 === 0 ? 'genesis' : 'nebula'
+    }));
+}
+
+function scan(points: Point[], x: number, y: number, radius: number): string[] {
+    return points.filter(p => Math.hypot(p.x - x, p.y - y) <= radius).map(p => p.id).sort();
+}
+
+const ids = (points: Point[]) => points.map(p => p.id).sort();
+
+describe('SpatialHash', () => {
+    it('finds exactly the points a full scan finds, before and after moves', () => {
+        const points = scatter(400);
+        const grid = new SpatialHash<Point>(100);
+        for (const point of points) grid.set(point.id, point);
+
+        const random = seededRandom(2);
+        for (let round = 0; round < 2; round++) {
+            for (let q = 0; q < 50; q++) {
+                const x = random() * 4000 - 500;
+                const y = random() * 4000 - 500;
+                const radius = random() * 600;
+                expect(ids(grid.within(x, y, radius))).toEqual(scan(points, x, y, radius));
+            }
+            // Move everyone, some across many cells
+            for (const point of points) {
+                point.x += (random() - 0.5) * 800;
+                point.y += (random() - 0.5) * 800;
+                grid.set(point.id, point);
+            }
+        }
+
+        // A radius covering the whole world walks the occupied cells instead
+        expect(grid.within(0, 0, 1e6)).toHaveLength(points.length);
+    });
+
+    it('returns the k nearest in order, within a maximum radius', () => {
+        const points = scatter(300, 3);
+        const grid = new SpatialHash<Point>(150);
+        for (const point of points) grid.set(point.id, point);
+
+        const byDistance = (x: number, y: number) =>
+            [...points].sort((a, b) => Math.hypot(a.x - x, a.y - y) - Math.hypot(b.x - x, b.y - y));
+
+        expect(grid.nearest(1000, 1000, 5).map(p => p.id)).toEqual(byDistance(1000, 1000).slice(0, 5).map(p => p.id));
+        // Far outside the occupied area the search still ends
+        expect(grid.nearest(-90_000, 90_000, 1).map(p => p.id)).toEqual([byDistance(-90_000, 90_000)[0].id]);
+        expect(grid.nearest(1000, 1000, 50, 100)).toEqual(
+            byDistance(1000, 1000).filter(p => Math.hypot(p.x - 1000, p.y - 1000) <= 100)
+        );
+        expect(grid.nearest(1000, 1000, 3, Infinity, p => p.realm === 'nebula').every(p => p.realm === 'nebula')).toBe(true);
+    });
+
+    it('forgets deleted points', () => {
+        const grid = new SpatialHash<Point>();
+        const point = { id: 'a', x: 10, y: 10, realm: 'genesis' };
+        grid.set('a', point);
+        expect(grid.delete('a')).toBe(true);
+        expect(grid.delete('a')).toBe(false);
+        expect(grid.within(10, 10, 50)).toEqual([]);
+        expect(grid.size).toBe(0);
+    });
+});
+
+describe('SpatialMap', () => {
+    it('keeps its grid in step with set, delete and moved', () => {
+        const map = new SpatialMap<Point>({ cellSize: 100 });
+        const a = { id: 'a', x: 0, y: 0, realm: 'genesis' };
+        const b = { id: 'b', x: 500, y: 500, realm: 'genesis' };
+        map.set(a.id, a).set(b.id, b);
+
+        expect(map.size).toBe(2);
+        expect(ids(map.within(0, 0, 50))).toEqual(['a']);
+
+        // Mutated in place: found from the old cell until moved() is called
+        a.x = 490;
+        a.y = 490;
+        map.moved('a');
+        expect(ids(map.within(500, 500, 50))).toEqual(['a', 'b']);
+        expect(map.within(0, 0, 50)).toEqual([]);
+
+        map.delete('b');
+        expect(ids(map.within(500, 500, 50))).toEqual(['a']);
+        map.clear();
+        expect(map.within(500, 500, 50)).toEqual([]);
+    });
+
+    it('queries one partition, or all of them', () => {
+        const map = new SpatialMap<Point>({ partition: point => point.realm });
+        const points = scatter(100, 4);
+        for (const point of points) map.set(point.id, point);
+
+        expect(ids(map.within(1000, 1000, 800, 'nebula'))).toEqual(
+            scan(points.filter(p => p.realm === 'nebula'), 1000, 1000, 800)
+        );
+        expect(ids(map.within(1000, 1000, 800))).toEqual(scan(points, 1000, 1000, 800));
+        expect(map.nearest(1000, 1000, 4, undefined, 'genesis').every(p => p.realm === 'genesis')).toBe(true);
+
+        // Changing partition moves the value to the other grid
+        const moving = points[0];
+        moving.realm = 'nebula';
+        map.moved(moving.id);
+        expect(map.within(moving.x, moving.y, 1, 'genesis')).toEqual([]);
+        expect(map.within(moving.x, moving.y, 1, 'nebula')).toContain(moving);
+    });
+});
@@ -0,0 +1,173 @@
+// =============================================================================
+// SpatialHash - Uniform grid over world positions for proximity queries
+// =============================================================================
+// A persistent version of the client's SpatialHashGrid (src/utils/culling.ts).
+// The client rebuilds its grid every frame; here entities stay in the grid
+// and are re-filed only when they move to another cell, so a realm with
+// hundreds of players costs a map lookup per move instead of a rebuild.
+//
+// Queries read the entity's live position, so an entity that moved within
+// its cell is still measured exactly. One that crossed into another cell
+// without `set` being called again is found only from its old cell - movers
+// must tell the grid (see SpatialMap.moved).
+// =============================================================================
+
+export interface Positioned {
+    x: number;
+    y: number;
+}
+
+export const DEFAULT_CELL_SIZE = 250;
+
+// Cell coordinates packed into one number: +-2^20 cells on each axis
+const CELL_OFFSET = 1 << 20;
+const CELL_SPAN = 1 << 21;
+
+interface Entry<T> {
+    entity: T;
+    cell: number;
+}
+
+export class SpatialHash<T extends Positioned> {
+    private cells: Map<number, Map<string, T>> = new Map();
+    private entries: Map<string, Entry<T>> = new Map();
+
+    constructor(readonly cellSize: number = DEFAULT_CELL_SIZE) {}
+
+    get size(): number {
+        return this.entries.size;
+    }
+
+    has(id: string): boolean {
+        return this.entries.has(id);
+    }
+
+    /**
+     * Add an entity, or re-file it after it moved
+     */
+    set(id: string, entity: T): void {
+        const cell = this.cellAt(entity.x, entity.y);
+        const entry = this.entries.get(id);
+        if (entry) {
+            if (entry.cell === cell) {
+                entry.entity = entity;
+                this.cells.get(cell)!.set(id, entity);
+                return;
+            }
+            this.removeFromCell(id, entry.cell);
+        }
+        this.entries.set(id, { entity, cell });
+        let members = this.cells.get(cell);
+        if (!members) {
+            members = new Map();
+            this.cells.set(cell, members);
+        }
+        members.set(id, entity);
+    }
+
+    delete(id: string): boolean {
+        const entry = this.entries.get(id);
+        if (!entry) return false;
+        this.removeFromCell(id, entry.cell);
+        this.entries.delete(id);
+        return true;
+    }
+
+    clear(): void {
+        this.cells.clear();
+        this.entries.clear();
+    }
+
+    /**
+     * Entities within `radius` of (x, y)
+     */
+    within(x: number, y: number, radius: number, filter?: (entity: T) => boolean): T[] {
+        const found: T[] = [];
+        const radiusSq = radius * radius;
+        this.forEachCellNear(x, y, radius, members => {
+            for (const entity of members.values()) {
+                const dx = entity.x - x;
+                const dy = entity.y - y;
+                if (dx * dx + dy * dy <= radiusSq && (!filter || filter(entity))) found.push(entity);
+            }
+        });
+        return found;
+    }
+
+    /**
+     * The `k` entities closest to (x, y), nearest first, searching outward
+     * ring by ring until nothing unvisited could be closer
+     */
+    nearest(x: number, y: number, k: number, maxRadius: number = Infinity, filter?: (entity: T) => boolean): T[] {
+        if (k <= 0 || this.entries.size === 0) return [];
+
+        const cx = Math.floor(x / this.cellSize);
+        const cy = Math.floor(y / this.cellSize);
+        const maxRadiusSq = maxRadius * maxRadius;
+        const best: Array<{ entity: T; distanceSq: number }> = [];
+        let visited = 0;
+
+        for (let ring = 0; ; ring++) {
+            // Everything outside this ring is at least this far away
+            const reach = ring * this.cellSize;
+            if (best.length >= k && best[k - 1].distanceSq <= reach * reach) break;
+            if (reach > maxRadius || visited >= this.entries.size) break;
+
+            for (let dx = -ring; dx <= ring; dx++) {
+                for (let dy = -ring; dy <= ring; dy++) {
+                    if (Math.max(Math.abs(dx), Math.abs(dy)) !== ring) continue;
+                    const members = this.cells.get(this.key(cx + dx, cy + dy));
+                    if (!members) continue;
+                    visited += members.size;
+                    for (const entity of members.values()) {
+                        const ex = entity.x - x;
+                        const ey = entity.y - y;
+                        const distanceSq = ex * ex + ey * ey;
+                        if (distanceSq > maxRadiusSq || (filter && !filter(entity))) continue;
+                        best.push({ entity, distanceSq });
+                    }
+                }
+            }
+            best.sort((a, b) => a.distanceSq - b.distanceSq);
+            if (best.length > k) best.length = k;
+        }
+
+        return best.map(candidate => candidate.entity);
+    }
+
+    private forEachCellNear(x: number, y: number, radius: number, visit: (members: Map<string, T>) => void): void {
+        const minX = Math.floor((x - radius) / this.cellSize);
+        const maxX = Math.floor((x + radius) / this.cellSize);
+        const minY = Math.floor((y - radius) / this.cellSize);
+        const maxY = Math.floor((y + radius) / this.cellSize);
+
+        // A radius wider than the occupied grid is cheaper to answer by
+        // walking the occupied cells
+        if ((maxX - minX + 1) * (maxY - minY + 1) > this.cells.size) {
+            for (const members of this.cells.values()) visit(members);
+            return;
+        }
+
+        for (let cx = minX; cx <= maxX; cx++) {
+            for (let cy = minY; cy <= maxY; cy++) {
+                const members = this.cells.get(this.key(cx, cy));
+                if (members) visit(members);
+            }
+        }
+    }
+
+    private cellAt(x: number, y: number): number {
+        return this.key(Math.floor(x / this.cellSize), Math.floor(y / this.cellSize));
+    }
+
+    private key(cx: number, cy: number): number {
+        return (cx + CELL_OFFSET) * CELL_SPAN + (cy + CELL_OFFSET);
+    }
+
+    private removeFromCell(id: string, cell: number): void {
+        const members = this.cells.get(cell);
+        if (!members) return;
+        members.delete(id);
+        if (members.size === 0) this.cells.delete(cell);
+    }
+}
@@ -0,0 +1,98 @@
+// =============================================================================
+// SpatialMap - An id-keyed Map that keeps a SpatialHash of its values
+// =============================================================================
+// Drop-in for the Map<string, T> collections the handler already keeps
+// (players per realm, fragments, bots, echoes, power-ups, beacons): every
+// set/delete also files the value in a grid, so the same collection answers
+// "who is near here?" without a full scan.
+//
+// Values are mutated in place when they move, which the map can't see, so
+// movers call `moved(id)` afterwards. Collections that span realms pass a
+// `partition` so each realm gets its own grid.
+// =============================================================================
+
+import { SpatialHash, DEFAULT_CELL_SIZE } from './SpatialHash.js';
+import type { Positioned } from './SpatialHash.js';
+
+export interface SpatialMapOptions<T> {
+    cellSize?: number;
+    partition?: (value: T) => string;
+}
+
+const WHOLE_MAP = '';
+
+export class SpatialMap<T extends Positioned> extends Map<string, T> {
+    private grids: Map<string, SpatialHash<T>> = new Map();
+    private filedIn: Map<string, string> = new Map();
+
+    // No initial entries: Map's constructor would call set() before the
+    // fields above exist
+    constructor(private readonly options: SpatialMapOptions<T> = {}) {
+        super();
+    }
+
+    set(id: string, value: T): this {
+        super.set(id, value);
+        this.file(id, value);
+        return this;
+    }
+
+    delete(id: string): boolean {
+        const partition = this.filedIn.get(id);
+        if (partition !== undefined) {
+            this.grids.get(partition)?.delete(id);
+            this.filedIn.delete(id);
+        }
+        return super.delete(id);
+    }
+
+    clear(): void {
+        this.grids.clear();
+        this.filedIn.clear();
+        super.clear();
+    }
+
+    /**
+     * Re-file a value whose position (or partition) changed in place
+     */
+    moved(id: string): void {
+        const value = this.get(id);
+        if (value) this.file(id, value);
+    }
+
+    /**
+     * Values within `radius` of (x, y), optionally only in one partition
+     */
+    within(x: number, y: number, radius: number, partition?: string, filter?: (value: T) => boolean): T[] {
+        if (partition === undefined && this.options.partition) {
+            return [...this.grids.values()].flatMap(grid => grid.within(x, y, radius, filter));
+        }
+        return this.grids.get(partition ?? WHOLE_MAP)?.within(x, y, radius, filter) ?? [];
+    }
+
+    /**
+     * The `k` values nearest (x, y) in one partition, nearest first
+     */
+    nearest(x: number, y: number, k: number, maxRadius?: number, partition?: string, filter?: (value: T) => boolean): T[] {
+        return this.grids.get(partition ?? WHOLE_MAP)?.nearest(x, y, k, maxRadius, filter) ?? [];
+    }
+
+    private file(id: string, value: T): void {
+        const partition = this.options.partition?.(value) ?? WHOLE_MAP;
+        const previous = this.filedIn.get(id);
+        if (previous !== undefined && previous !== partition) {
+            this.grids.get(previous)?.delete(id);
+        }
+        this.grid(partition).set(id, value);
+        this.filedIn.set(id, partition);
+    }
+
+    private grid(partition: string): SpatialHash<T> {
+        let grid = this.grids.get(partition);
+        if (!grid) {
+            grid = new SpatialHash<T>(this.options.cellSize ?? DEFAULT_CELL_SIZE);
+            this.grids.set(partition, grid);
+        }
+        return grid;
+    }
+}
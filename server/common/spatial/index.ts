@@ -0,0 +1,9 @@
+// =============================================================================
+// Spatial Module - Grids for proximity queries over realm entities
+// =============================================================================
+
+export { SpatialHash, DEFAULT_CELL_SIZE } from './SpatialHash.js';
+export { SpatialMap } from './SpatialMap.js';
+
+export type { Positioned } from './SpatialHash.js';
+export type { SpatialMapOptions } from './SpatialMap.js';
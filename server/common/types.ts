@@ -1,6 +1,6 @@
 // Shared type definitions between client and server
 
-import type { RealmId } from './constants';
+import type { RealmId } from './realms';
 
 /**
  * Trail point for player movement visualization
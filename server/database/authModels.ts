@@ -0,0 +1,49 @@
+// =============================================================================
+// Auth Models - Database models for session authentication
+// =============================================================================
+// A new player identity is claimed the first time a session is requested for
+// it. Players who existed before credentials did prove ownership with a legacy
+// secret the server issued them, which is exchanged for a fresh secret on first
+// use. The client keeps its secret; only the hash is stored here.
+// =============================================================================
+
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+// ============================================
+// PLAYER CREDENTIAL MODEL
+// ============================================
+
+export interface IPlayerCredential extends Document {
+    playerId: string;
+    secretHash: string;      // sha256 of the client-held secret
+    legacy: boolean;         // Server-issued legacy secret, replaced on first use
+    lastSessionAt: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const PlayerCredentialSchema = new Schema<IPlayerCredential>({
+    playerId: {
+        type: String,
+        required: true,
+        unique: true,
+        index: true
+    },
+    secretHash: {
+        type: String,
+        required: true
+    },
+    legacy: {
+        type: Boolean,
+        default: false
+    },
+    lastSessionAt: {
+        type: Date,
+        default: Date.now
+    }
+}, {
+    timestamps: true,
+    collection: 'player_credentials'
+});
+
+export const PlayerCredential: Model<IPlayerCredential> = mongoose.model<IPlayerCredential>('PlayerCredential', PlayerCredentialSchema);
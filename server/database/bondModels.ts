@@ -3,6 +3,7 @@
 // =============================================================================
 
 import mongoose, { Schema, Document, Model } from 'mongoose';
+import type { BondMomentType } from '../common/protocol/index.js';
 
 // ============================================
 // BOND MODEL
@@ -19,6 +20,7 @@ export interface IBond extends Document {
     sealWord2?: string;         // Word from player2
     sealedAt?: Date;
     lastInteraction: Date;
+    decayedAt?: Date;           // Decay is settled up to here
     stats: {
         pulsesSent: number;
         pulsesReceived: number;
@@ -28,8 +30,17 @@ export interface IBond extends Document {
         lightReceived: number;
         timeSpentNear: number;  // in seconds
     };
+    moments: Array<{            // Timeline of shared moments the server saw
+        momentId: string;
+        type: BondMomentType;
+        realmId?: string;
+        x?: number;
+        y?: number;
+        at: Date;
+    }>;
     sharedMemories: Array<{
         text: string;
+        momentId?: string;      // The moment this memory pins
         timestamp: Date;
     }>;
     realmId?: string;           // Realm where bond was formed
@@ -56,6 +67,7 @@ const BondSchema = new Schema<IBond>({
     sealWord2: { type: String, maxlength: 50 },
     sealedAt: { type: Date },
     lastInteraction: { type: Date, default: Date.now },
+    decayedAt: { type: Date },
     stats: {
         pulsesSent: { type: Number, default: 0 },
         pulsesReceived: { type: Number, default: 0 },
@@ -65,8 +77,21 @@ const BondSchema = new Schema<IBond>({
         lightReceived: { type: Number, default: 0 },
         timeSpentNear: { type: Number, default: 0 }
     },
+    moments: [{
+        momentId: { type: String, required: true },
+        type: {
+            type: String,
+            enum: ['fragment_co_collected', 'beacon_lit_together', 'darkness_survived'],
+            required: true
+        },
+        realmId: { type: String },
+        x: { type: Number },
+        y: { type: Number },
+        at: { type: Date, default: Date.now }
+    }],
     sharedMemories: [{
         text: { type: String, maxlength: 200 },
+        momentId: { type: String },
         timestamp: { type: Date, default: Date.now }
     }],
     realmId: { type: String }
@@ -103,6 +128,10 @@ export interface IStarMemory extends Document {
         y: number;
     };
     brightness: number;         // Visual intensity based on bond strength at seal
+    moments: Array<{            // The shared moments the star remembers
+        type: BondMomentType;
+        at: Date;
+    }>;
     constellation?: string;     // If part of a constellation
 }
 
@@ -124,6 +153,10 @@ const StarMemorySchema = new Schema<IStarMemory>({
         y: { type: Number }
     },
     brightness: { type: Number, default: 1, min: 0.1, max: 5 },
+    moments: [{
+        type: { type: String, required: true },
+        at: { type: Date }
+    }],
     constellation: { type: String }
 }, {
     timestamps: true,
@@ -78,6 +78,11 @@ export interface IGuild extends Document {
         xp: number;
         weekStart: string;
     };
+    // Currency held by the guild; moved only through the ledger
+    treasury: {
+        stardust: number;
+        crystals: number;
+    };
     
     // Settings
     isPublic: boolean;              // Can anyone join?
@@ -205,6 +210,10 @@ const GuildSchema = new Schema<IGuild>({
         xp: { type: Number, default: 0, min: 0 },
         weekStart: { type: String, default: '' }
     },
+    treasury: {
+        stardust: { type: Number, default: 0, min: 0 },
+        crystals: { type: Number, default: 0, min: 0 }
+    },
     
     // Settings
     isPublic: { type: Boolean, default: true },
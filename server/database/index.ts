@@ -61,3 +61,7 @@ export type {
     IStarMemory,
     IConstellation
 } from './bondModels';
+
+// Auth models
+export { PlayerCredential } from './authModels';
+export type { IPlayerCredential } from './authModels';
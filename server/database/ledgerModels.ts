@@ -0,0 +1,90 @@
+// =============================================================================
+// Ledger Models - Double-entry journal of every currency movement
+// =============================================================================
+
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+// ============================================
+// LEDGER ENTRY MODEL
+// ============================================
+
+export type Currency = 'stardust' | 'crystals';
+
+/**
+ * One posting line of a transaction. The lines of a transaction sum to zero
+ * per currency: what one account gains another loses. Accounts are named
+ * `player:<id>`, `guild:<id>`, `source:<name>` (where new currency comes
+ * from), `sink:<name>` (where spent currency goes), `escrow:<name>` and
+ * `equity:opening`.
+ */
+export interface ILedgerEntry extends Document {
+    entryId: string;
+    transactionId: string;
+    idempotencyKey: string | null;
+    account: string;
+    currency: Currency;
+    amount: number;                  // Signed: credits positive, debits negative
+    balanceAfter: number | null;     // Stored balance after posting; null for unbounded accounts
+    source: string;                  // System that moved the currency, e.g. 'gift', 'shop'
+    reason: string;                  // What for, e.g. 'mystery_box', 'claim'
+    metadata: Record<string, any>;
+    createdAt: Date;
+}
+
+const LedgerEntrySchema = new Schema<ILedgerEntry>({
+    entryId: { type: String, required: true, unique: true },
+    transactionId: { type: String, required: true, index: true },
+    idempotencyKey: { type: String, default: null },
+    account: { type: String, required: true },
+    currency: { type: String, enum: ['stardust', 'crystals'], required: true },
+    amount: { type: Number, required: true },
+    balanceAfter: { type: Number, default: null },
+    source: { type: String, required: true },
+    reason: { type: String, required: true },
+    metadata: { type: Schema.Types.Mixed, default: {} },
+    createdAt: { type: Date, default: Date.now }
+}, {
+    collection: 'ledger_entries',
+    minimize: false
+});
+
+LedgerEntrySchema.index({ account: 1, createdAt: -1 });
+LedgerEntrySchema.index({ account: 1, currency: 1 });
+// A keyed transaction posts at most once, even when two processes race
+LedgerEntrySchema.index(
+    { idempotencyKey: 1, account: 1, currency: 1 },
+    { unique: true, partialFilterExpression: { idempotencyKey: { $type: 'string' } } }
+);
+
+export const LedgerEntry: Model<ILedgerEntry> = mongoose.model<ILedgerEntry>('LedgerEntry', LedgerEntrySchema);
+
+// ============================================
+// LEDGER ACCOUNT MODEL
+// ============================================
+
+/**
+ * The running balance of an account, kept as its entries post. A player or
+ * guild account's record is created (with whatever the wallet held) by the
+ * first transaction to touch it, so exactly one transaction opens it.
+ */
+export interface ILedgerAccount extends Document {
+    account: string;
+    currency: Currency;
+    balance: number;                 // Sum of the account's entries
+    openedBy: string | null;         // Transaction that brought the opening balance in
+    createdAt: Date;
+}
+
+const LedgerAccountSchema = new Schema<ILedgerAccount>({
+    account: { type: String, required: true },
+    currency: { type: String, enum: ['stardust', 'crystals'], required: true },
+    balance: { type: Number, default: 0 },
+    openedBy: { type: String, default: null },
+    createdAt: { type: Date, default: Date.now }
+}, {
+    collection: 'ledger_accounts'
+});
+
+LedgerAccountSchema.index({ account: 1, currency: 1 }, { unique: true });
+
+export const LedgerAccount: Model<ILedgerAccount> = mongoose.model<ILedgerAccount>('LedgerAccount', LedgerAccountSchema);
@@ -0,0 +1,85 @@
+// =============================================================================
+// Loot Models - Mystery box roll log and the loot content it was rolled from
+// =============================================================================
+
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+// ============================================
+// LOOT ROLL MODEL
+// ============================================
+
+/**
+ * One opened box, with everything needed to roll it again: the seed, the
+ * content version and the options (pity, owned items) the roll ran with.
+ */
+export interface ILootRoll extends Document {
+    rollId: string;
+    playerId: string;
+    boxId: string;
+    contentVersion: string;
+    seed: string;
+    pity: boolean;                   // Rolled as the pity box
+    pityCount: number;               // Boxes of this tier without a pity-rarity reward, this one included
+    excluded: string[];              // Owned collectibles the roll left out
+    steps: Array<{ table: string; entry: number; draw: number }>;   // One weighted pick per table level
+    reward: { type: string; value: number | string; rarity: string };
+    duplicate: boolean;              // Everything was owned; the box's duplicate reward
+    transactionId: string;           // Ledger transaction that paid for the box
+    createdAt: Date;
+}
+
+const LootRollSchema = new Schema<ILootRoll>({
+    rollId: { type: String, required: true, unique: true },
+    playerId: { type: String, required: true },
+    boxId: { type: String, required: true },
+    contentVersion: { type: String, required: true },
+    seed: { type: String, required: true },
+    pity: { type: Boolean, default: false },
+    pityCount: { type: Number, default: 0 },
+    excluded: { type: [String], default: [] },
+    steps: [{
+        _id: false,
+        table: { type: String, required: true },
+        entry: { type: Number, required: true },
+        draw: { type: Number, required: true }
+    }],
+    reward: {
+        type: { type: String, required: true },
+        value: { type: Schema.Types.Mixed, required: true },
+        rarity: { type: String, required: true }
+    },
+    duplicate: { type: Boolean, default: false },
+    transactionId: { type: String, required: true },
+    createdAt: { type: Date, default: Date.now }
+}, {
+    collection: 'loot_rolls'
+});
+
+LootRollSchema.index({ playerId: 1, createdAt: -1 });
+
+export const LootRoll: Model<ILootRoll> = mongoose.model<ILootRoll>('LootRoll', LootRollSchema);
+
+// ============================================
+// LOOT CONTENT VERSION MODEL
+// ============================================
+
+/**
+ * Every set of boxes and tables that has been live, by version, so a roll
+ * can be replayed after the content has changed.
+ */
+export interface ILootContentVersion extends Document {
+    version: string;
+    content: { boxes: any[]; tables: any[] };
+    createdAt: Date;
+}
+
+const LootContentVersionSchema = new Schema<ILootContentVersion>({
+    version: { type: String, required: true, unique: true },
+    content: { type: Schema.Types.Mixed, required: true },
+    createdAt: { type: Date, default: Date.now }
+}, {
+    collection: 'loot_content_versions',
+    minimize: false
+});
+
+export const LootContentVersion: Model<ILootContentVersion> = mongoose.model<ILootContentVersion>('LootContentVersion', LootContentVersionSchema);
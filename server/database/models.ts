@@ -1,5 +1,6 @@
 // MongoDB models for AURA game data
 import mongoose, { Schema, Document, Model } from 'mongoose';
+import { ALL_REALM_IDS } from '../common/realms.js';
 
 // ============================================
 // ECHO MODEL - Permanent messages in the cosmos
@@ -60,7 +61,7 @@ const EchoSchema = new Schema<IEcho>({
     realm: {
         type: String,
         required: true,
-        enum: ['genesis', 'nebula', 'void', 'starforge', 'sanctuary'],
+        enum: ALL_REALM_IDS,
         index: true
     },
     votes: {
@@ -154,7 +155,7 @@ const MessageSchema = new Schema<IMessage>({
     realm: {
         type: String,
         required: true,
-        enum: ['genesis', 'nebula', 'void', 'starforge', 'sanctuary'],
+        enum: ALL_REALM_IDS,
         index: true
     },
     type: {
@@ -421,7 +422,7 @@ const BeaconSchema = new Schema<IBeacon>({
     realm: {
         type: String,
         required: true,
-        enum: ['genesis', 'nebula', 'void', 'starforge', 'sanctuary'],
+        enum: ALL_REALM_IDS,
         index: true
     },
     x: { type: Number, required: true },
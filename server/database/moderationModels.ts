@@ -0,0 +1,99 @@
+// =============================================================================
+// Moderation Models - Mutes, bans and player reports
+// =============================================================================
+
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+// ============================================
+// SANCTION MODEL (mutes and bans)
+// ============================================
+
+export type SanctionType = 'mute' | 'ban';
+
+export interface ISanction extends Document {
+    sanctionId: string;
+    playerId: string;
+    type: SanctionType;
+    reason: string;
+    issuedBy: string;            // Admin name or 'system' for automatic mutes
+    expiresAt: Date | null;      // null = permanent
+    liftedAt: Date | null;
+    liftedBy: string | null;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const SanctionSchema = new Schema<ISanction>({
+    sanctionId: { type: String, required: true, unique: true },
+    playerId: { type: String, required: true, index: true },
+    type: { type: String, enum: ['mute', 'ban'], required: true },
+    reason: { type: String, default: '' },
+    issuedBy: { type: String, default: 'system' },
+    expiresAt: { type: Date, default: null },
+    liftedAt: { type: Date, default: null },
+    liftedBy: { type: String, default: null }
+}, {
+    timestamps: true,
+    collection: 'moderation_sanctions'
+});
+
+SanctionSchema.index({ playerId: 1, type: 1, liftedAt: 1 });
+
+export const Sanction: Model<ISanction> = mongoose.model<ISanction>('Sanction', SanctionSchema);
+
+// ============================================
+// PLAYER REPORT MODEL
+// ============================================
+
+export const REPORT_STATUSES = ['open', 'actioned', 'dismissed'] as const;
+export type ReportStatus = typeof REPORT_STATUSES[number];
+
+export interface IReportContextLine {
+    playerId: string;
+    playerName: string;
+    channel: string;
+    text: string;
+    timestamp: number;
+}
+
+export interface IPlayerReport extends Document {
+    reportId: string;
+    reporterId: string;
+    targetId: string;
+    reason: string;
+    details: string;
+    realm: string;
+    context: IReportContextLine[];   // Recent chat captured when the report was made
+    status: ReportStatus;
+    resolution: string | null;
+    resolvedBy: string | null;
+    resolvedAt: Date | null;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const PlayerReportSchema = new Schema<IPlayerReport>({
+    reportId: { type: String, required: true, unique: true },
+    reporterId: { type: String, required: true, index: true },
+    targetId: { type: String, required: true, index: true },
+    reason: { type: String, required: true },
+    details: { type: String, default: '' },
+    realm: { type: String, default: '' },
+    context: [{
+        _id: false,
+        playerId: String,
+        playerName: String,
+        channel: String,
+        text: String,
+        timestamp: Number
+    }],
+    status: { type: String, enum: REPORT_STATUSES, default: 'open', index: true },
+    resolution: { type: String, default: null },
+    resolvedBy: { type: String, default: null },
+    resolvedAt: { type: Date, default: null }
+}, {
+    timestamps: true,
+    collection: 'player_reports'
+});
+
+export const PlayerReport: Model<IPlayerReport> = mongoose.model<IPlayerReport>('PlayerReport', PlayerReportSchema);
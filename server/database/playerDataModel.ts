@@ -149,6 +149,8 @@ export interface IPlayerData extends Document {
         highContrast: boolean;
         notifications: boolean;
         autoSave: boolean;
+        chatEnabled: boolean;
+        signalsEnabled: boolean;
     };
 
     // === ANCHORING (Wellness) ===
@@ -374,7 +376,9 @@ const PlayerDataSchema = new Schema<IPlayerData>({
         colorblindMode: { type: String, default: null },
         highContrast: { type: Boolean, default: false },
         notifications: { type: Boolean, default: true },
-        autoSave: { type: Boolean, default: true }
+        autoSave: { type: Boolean, default: true },
+        chatEnabled: { type: Boolean, default: true },
+        signalsEnabled: { type: Boolean, default: true }
     },
 
     // Anchoring
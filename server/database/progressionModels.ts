@@ -162,6 +162,7 @@ export interface IProgression extends Document {
     };
     rankPoints: number;         // Competitive rank points
     unlockedCosmetics: string[];
+    cosmeticPurchases: string[];    // Purchase ids already granted
     unlockedTitles: string[];
     equippedCosmetics: {
         trail: string | null;
@@ -212,6 +213,7 @@ const ProgressionSchema = new Schema<IProgression>({
     },
     rankPoints: { type: Number, default: 0, min: 0 },
     unlockedCosmetics: { type: [String], default: [] },
+    cosmeticPurchases: { type: [String], default: [] },
     unlockedTitles: { type: [String], default: [] },
     equippedCosmetics: {
         trail: { type: String, default: null },
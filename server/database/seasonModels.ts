@@ -94,17 +94,6 @@ const SeasonConfigSchema = new Schema<ISeasonConfig>({
   collection: 'season_configs'
 });
 
-// Ensure only one active season
-SeasonConfigSchema.pre('save', async function(next) {
-  if (this.isActive) {
-    await SeasonConfig.updateMany(
-      { _id: { $ne: this._id }, isActive: true },
-      { $set: { isActive: false } }
-    );
-  }
-  next();
-});
-
 export const SeasonConfig: Model<ISeasonConfig> = mongoose.model<ISeasonConfig>('SeasonConfig', SeasonConfigSchema);
 
 // ==========================================
@@ -14,6 +14,7 @@ dotenv.config({ path: path.resolve(__dirname, '../.env') });
 
 import { setupWebSocket } from './websocket/WebSocketHandler';
 import { mongoPersistence } from './services/MongoPersistenceService';
+import { persistence, loadPersistenceConfig } from './persistence';
 import { progressionService } from './services/ProgressionService';
 import { playerDataService } from './services/PlayerDataService';
 import { reputationService } from './services/ReputationService';
@@ -21,6 +22,7 @@ import { referralService } from './services/ReferralService';
 import { mentorshipService } from './services/MentorshipService';
 import { economyService } from './services/EconomyService';
 import { friendshipService } from './services/FriendshipService';
+import { bondService } from './services/BondService';
 import { leaderboardService } from './services/LeaderboardService';
 import { companionService } from './services/CompanionService';
 import { questService } from './services/QuestService';
@@ -58,6 +60,10 @@ import { gameModeAnalyticsService } from './services/GameModeAnalyticsService';
 // NEW Phase 4 Services (Backend Completeness - Guilds, Gifts)
 import { guildService } from './services/GuildService';
 import { giftStreakService } from './services/GiftStreakService';
+// Chat moderation, mutes, bans and reports
+import { moderationService } from './services/ModerationService';
+// Session tokens for the WebSocket handshake
+import { sessionService } from './services/SessionService';
 import progressionRoutes from './routes/progressionRoutes';
 import playerDataRoutes from './routes/playerDataRoutes';
 import socialRoutes from './routes/socialRoutes';
@@ -82,6 +88,7 @@ import mediaRoutes from './routes/mediaRoutes';
 // NEW Phase 4 Routes (Backend Completeness - Guilds, Gifts)
 import guildRoutes from './routes/guildRoutes';
 import giftRoutes from './routes/giftRoutes';
+import authRoutes from './routes/authRoutes';
 import { z } from 'zod';
 import {
     CreateEchoSchema,
@@ -108,11 +115,9 @@ function generateId(): string {
 const app = express();
 const server = createServer(app);
 const PORT = process.env.PORT || 3001;
-const MONGO_URI = process.env.MONGODB_URI || 'mongodb://localhost:27017';
-const MONGO_DB = process.env.MONGODB_DB || 'aura';
+const PERSISTENCE_CONFIG = loadPersistenceConfig();
 
 // Initialize WebSocket server
-// @ts-ignore wsHandler manages WebSocket lifecycle
 const wsHandler = setupWebSocket(server);
 
 // CORS configuration - restrict to allowed origins
@@ -205,10 +210,10 @@ interface Echo {
 }
 
 const players = new Map<string, PlayerState>();
-const litStars = new Set<string>(); // In-memory cache, synced with MongoDB
+const litStars = new Set<string>(); // In-memory cache, synced with persistence
 
-// Flag to track MongoDB availability
-let mongoConnected = false;
+// Flag to track whether storage (MongoDB or in-memory) is up
+let persistenceReady = false;
 
 // Bot Logic - Using shared implementation from common/bot.ts
 const bots: BotState[] = [];
@@ -338,6 +343,9 @@ app.use('/api/guilds', guildRoutes);
 // Mount gift routes (gift streaks, milestones, history)
 app.use('/api/gifts', giftRoutes);
 
+// Mount auth routes (session tokens for the WebSocket handshake)
+app.use('/api/auth', authRoutes);
+
 // Player endpoints
 app.get('/api/players', (req, res) => {
     try {
@@ -389,7 +397,7 @@ app.post('/api/events', postLimiter, (req, res) => {
         litStars.add(event.starId);
 
         // Persist to MongoDB if connected
-        if (mongoConnected && event.uid) {
+        if (persistenceReady && event.uid) {
             mongoPersistence.litStar(
                 event.starId,
                 event.realm || 'genesis',
@@ -445,7 +453,7 @@ app.get('/api/stars/lit', async (req, res) => {
     try {
         const realm = req.query.realm as string;
 
-        if (mongoConnected) {
+        if (persistenceReady) {
             const stars = await mongoPersistence.getLitStars(realm);
             res.json(stars);
         } else {
@@ -468,13 +476,13 @@ app.get('/api/echoes', async (req, res) => {
     try {
         const realm = req.query.realm as string;
 
-        if (mongoConnected) {
+        if (persistenceReady) {
             const echoes = realm
                 ? await mongoPersistence.getEchoes(realm)
                 : await mongoPersistence.getEchoes('genesis'); // Default realm
             res.json(echoes);
         } else {
-            // Fallback: return empty array if MongoDB not connected
+            // Fallback: return empty array until persistence is up
             res.json([]);
         }
     } catch (error) {
@@ -509,7 +517,7 @@ app.post('/api/echoes', postLimiter, async (req, res) => {
             authorId: req.body.authorId || req.body.uid || 'anonymous'
         };
 
-        if (mongoConnected) {
+        if (persistenceReady) {
             await mongoPersistence.createEcho(newEcho);
         }
 
@@ -526,7 +534,7 @@ app.post('/api/echoes/:echoId/vote', postLimiter, async (req, res) => {
         const { echoId } = req.params;
         const { delta } = req.body; // +1 for upvote, -1 for downvote
 
-        if (!mongoConnected) {
+        if (!persistenceReady) {
             return res.status(503).json({ error: 'Database not available' });
         }
 
@@ -543,7 +551,7 @@ app.get('/api/echoes/near', async (req, res) => {
     try {
         const { realm, x, y, radius } = req.query;
 
-        if (!mongoConnected) {
+        if (!persistenceReady) {
             return res.json([]);
         }
 
@@ -604,7 +612,7 @@ app.post('/api/messages', postLimiter, async (req, res) => {
             timestamp: Date.now()
         };
 
-        if (mongoConnected) {
+        if (persistenceReady) {
             await mongoPersistence.saveMessage(newMessage);
         }
 
@@ -621,7 +629,7 @@ app.get('/api/messages/history/:playerId', async (req, res) => {
         const { playerId } = req.params;
         const limit = parseInt(req.query.limit as string) || 50;
 
-        if (!mongoConnected) {
+        if (!persistenceReady) {
             return res.json([]);
         }
 
@@ -638,7 +646,7 @@ app.get('/api/messages/conversation', async (req, res) => {
     try {
         const { player1, player2, limit } = req.query;
 
-        if (!mongoConnected || !player1 || !player2) {
+        if (!persistenceReady || !player1 || !player2) {
             return res.json([]);
         }
 
@@ -659,7 +667,7 @@ app.get('/api/player/:playerId', async (req, res) => {
     try {
         const { playerId } = req.params;
 
-        if (!mongoConnected) {
+        if (!persistenceReady) {
             return res.status(503).json({ error: 'Database not available' });
         }
 
@@ -676,7 +684,7 @@ app.put('/api/player/:playerId', async (req, res) => {
         const { playerId } = req.params;
         const updates = req.body;
 
-        if (!mongoConnected) {
+        if (!persistenceReady) {
             return res.status(503).json({ error: 'Database not available' });
         }
 
@@ -694,7 +702,7 @@ app.post('/api/player/:playerId/stats', postLimiter, async (req, res) => {
         const { playerId } = req.params;
         const stats = req.body;
 
-        if (!mongoConnected) {
+        if (!persistenceReady) {
             return res.status(503).json({ error: 'Database not available' });
         }
 
@@ -712,7 +720,7 @@ app.post('/api/player/:playerId/achievement', postLimiter, async (req, res) => {
         const { playerId } = req.params;
         const { achievementId } = req.body;
 
-        if (!mongoConnected) {
+        if (!persistenceReady) {
             return res.status(503).json({ error: 'Database not available' });
         }
 
@@ -730,7 +738,7 @@ app.get('/api/leaderboard', async (req, res) => {
         const sortBy = (req.query.sortBy as 'xp' | 'stars' | 'echoesCreated') || 'xp';
         const limit = parseInt(req.query.limit as string) || 10;
 
-        if (!mongoConnected) {
+        if (!persistenceReady) {
             return res.json([]);
         }
 
@@ -745,7 +753,7 @@ app.get('/api/leaderboard', async (req, res) => {
 // Echo stats
 app.get('/api/stats/echoes', async (_req, res) => {
     try {
-        if (!mongoConnected) {
+        if (!persistenceReady) {
             return res.json({});
         }
 
@@ -767,7 +775,7 @@ app.get('/api/admin/stats', async (req, res) => {
             return res.status(401).json({ error: 'Unauthorized' });
         }
 
-        if (!mongoConnected) {
+        if (!persistenceReady) {
             return res.status(503).json({ error: 'Database not available' });
         }
 
@@ -782,8 +790,8 @@ app.get('/api/admin/stats', async (req, res) => {
 // Database status endpoint
 app.get('/api/db/status', (_req, res) => {
     res.json({
-        connected: mongoConnected,
-        type: 'mongodb'
+        connected: persistenceReady,
+        type: persistence.kind === 'mongo' ? 'mongodb' : 'memory'
     });
 });
 
@@ -800,15 +808,35 @@ app.get('*', (_req, res) => {
     res.sendFile(path.join(staticPath, 'index.html'));
 });
 
-// Initialize MongoDB and start server
+// Initialize persistence and start server
 async function startServer() {
-    // Try to connect to MongoDB
+    // Session tokens work with or without MongoDB
+    await sessionService.initialize();
+
+    // MongoDB, or in-memory when PERSISTENCE=memory. Without the configured
+    // backend the server does not start.
+    console.log(`🔌 Starting ${PERSISTENCE_CONFIG.kind} persistence...`);
+    let persistenceKind;
+    try {
+        persistenceKind = await persistence.init(PERSISTENCE_CONFIG);
+    } catch (error) {
+        console.error(`❌ ${PERSISTENCE_CONFIG.kind} persistence unavailable - refusing to start:`, error);
+        process.exit(1);
+    }
+    persistenceReady = true;
+
+    // Shards in other processes are reached over the configured message bus
     try {
-        console.log('🔌 Attempting MongoDB connection...');
-        await mongoPersistence.init(MONGO_URI, MONGO_DB);
-        mongoConnected = true;
-        console.log('✅ MongoDB connected - persistence enabled');
+        await wsHandler.connectCluster();
+    } catch (error) {
+        console.error('❌ Message bus unavailable - refusing to start:', error);
+        process.exit(1);
+    }
+    console.log(persistenceKind === 'mongo'
+        ? '✅ MongoDB connected - persistence enabled'
+        : `💾 In-memory persistence${PERSISTENCE_CONFIG.snapshotPath ? ` (snapshot: ${PERSISTENCE_CONFIG.snapshotPath})` : ' - nothing survives a restart'}`);
 
+    try {
         // Initialize progression service
         await progressionService.init();
         console.log('📊 Progression service initialized');
@@ -823,9 +851,10 @@ async function startServer() {
             referralService.init(),
             mentorshipService.init(),
             economyService.init(),
-            friendshipService.init()
+            friendshipService.init(),
+            bondService.init()
         ]);
-        console.log('🤝 Social services initialized (reputation, referral, mentorship, economy, friendship)');
+        console.log('🤝 Social services initialized (reputation, referral, mentorship, economy, friendship, bonds)');
 
         // Initialize game services
         await Promise.all([
@@ -901,48 +930,56 @@ async function startServer() {
         console.log(`⭐ Loaded ${cachedStars.length} lit stars from database`);
 
     } catch (error) {
-        console.warn('⚠️ MongoDB connection failed - running without persistence');
-        console.warn('   Echoes and messages will not be saved');
-        console.warn('   Set MONGODB_URI environment variable to enable persistence');
-        mongoConnected = false;
+        console.error('❌ Service initialization failed:', error);
     }
 
+    // Moderation works with or without MongoDB (loads active sanctions if connected)
+    await moderationService.initialize();
+
     // Start HTTP server
     server.listen(PORT, () => {
         console.log(`🌌 AURA Backend Server running on http://localhost:${PORT}`);
         console.log(`📡 API available at http://localhost:${PORT}/api`);
         console.log(`🔌 WebSocket available at ws://localhost:${PORT}/ws`);
-        console.log(`💾 Database: ${mongoConnected ? 'MongoDB connected' : 'In-memory only'}`);
+        console.log(`💾 Database: ${persistence.kind === 'mongo' ? 'MongoDB connected' : 'In-memory only'}`);
     });
 }
 
 // Handle graceful shutdown
 process.on('SIGINT', async () => {
     console.log('\n🛑 Shutting down gracefully...');
+    // Snapshot the world and send clients their resume tokens first
+    await wsHandler.shutdown();
     // Shutdown Phase 2 services
     leaderboardResetService.shutdown();
+    leaderboardService.shutdown();
     worldEventSchedulerService.shutdown();
     await warmthService.shutdown();
     // Shutdown Phase 4 services
     await guildService.shutdown();
     await giftStreakService.shutdown();
-    if (mongoConnected) {
-        await mongoPersistence.shutdown();
+    await bondService.shutdown();
+    if (persistenceReady) {
+        await persistence.shutdown();
     }
     process.exit(0);
 });
 
 process.on('SIGTERM', async () => {
     console.log('\n🛑 Shutting down gracefully...');
+    // Snapshot the world and send clients their resume tokens first
+    await wsHandler.shutdown();
     // Shutdown Phase 2 services
     leaderboardResetService.shutdown();
+    leaderboardService.shutdown();
     worldEventSchedulerService.shutdown();
     await warmthService.shutdown();
     // Shutdown Phase 4 services
     await guildService.shutdown();
     await giftStreakService.shutdown();
-    if (mongoConnected) {
-        await mongoPersistence.shutdown();
+    await bondService.shutdown();
+    if (persistenceReady) {
+        await persistence.shutdown();
     }
     process.exit(0);
 });
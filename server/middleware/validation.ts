@@ -1,12 +1,14 @@
 // Input validation schemas using Zod
 import { z } from 'zod';
+import { ALL_REALM_IDS } from '../common/realms.js';
+import type { RealmId } from '../common/realms.js';
 
 // ============================================
 // COMMON SCHEMAS
 // ============================================
 
-export const RealmIdSchema = z.enum(['genesis', 'nebula', 'void', 'starforge', 'sanctuary']);
-export type RealmId = z.infer<typeof RealmIdSchema>;
+export const RealmIdSchema = z.enum(ALL_REALM_IDS as [RealmId, ...RealmId[]]);
+export type { RealmId };
 
 export const CoordinateSchema = z.number().finite();
 
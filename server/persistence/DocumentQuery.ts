@@ -0,0 +1,359 @@
+// =============================================================================
+// DocumentQuery - MongoDB filters, updates and sorts over plain objects
+// =============================================================================
+// What MemoryBackend needs to answer the repository calls services make,
+// with MongoDB's semantics for the subset listed in Repository.ts: a dotted
+// path reaches into arrays, equality against an array matches any element,
+// and `null` matches a missing field.
+// =============================================================================
+
+import { isDeepStrictEqual } from 'util';
+import type { Filter, Update, SortSpec } from './Repository.js';
+
+type Doc = Record<string, any>;
+
+function isOperatorObject(value: unknown): value is Record<string, any> {
+    return isPlainObject(value) && Object.keys(value).some(key => key.startsWith('$'));
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+        && !(value instanceof Date) && !(value instanceof RegExp);
+}
+
+function isObjectId(value: any): boolean {
+    return value?._bsontype === 'ObjectId' || value?._bsontype === 'ObjectID';
+}
+
+/**
+ * Deep copy with ObjectIds as hex strings and Maps as objects, so records
+ * are safe to hand out, compare and write to JSON
+ */
+export function toPlain<T>(value: T): T {
+    if (value instanceof Date) return new Date(value.getTime()) as T;
+    if (value instanceof RegExp || value === null || typeof value !== 'object') return value;
+    if (isObjectId(value)) return String(value) as T;
+    if (Array.isArray(value)) return value.map(toPlain) as T;
+    if (value instanceof Map) return toPlain(Object.fromEntries(value)) as T;
+
+    const copy: Doc = {};
+    for (const [key, field] of Object.entries(value)) {
+        if (field !== undefined) copy[key] = toPlain(field);
+    }
+    return copy as T;
+}
+
+// ============================================
+// PATHS
+// ============================================
+
+/**
+ * Every value a dotted path reaches, stepping into array elements on the way
+ */
+function valuesAt(doc: unknown, path: string[]): unknown[] {
+    if (path.length === 0) return [doc];
+    if (Array.isArray(doc)) {
+        const index = Number(path[0]);
+        if (Number.isInteger(index)) return valuesAt(doc[index], path.slice(1));
+        return doc.flatMap(element => valuesAt(element, path));
+    }
+    if (!isPlainObject(doc)) return [];
+    return valuesAt(doc[path[0]], path.slice(1));
+}
+
+/** The value at a path without stepping into arrays */
+export function getPath(doc: Doc, path: string): any {
+    let current: any = doc;
+    for (const key of path.split('.')) {
+        if (current === null || typeof current !== 'object') return undefined;
+        current = current[key];
+    }
+    return current;
+}
+
+function setPath(doc: Doc, path: string, value: unknown): void {
+    const keys = path.split('.');
+    let current: any = doc;
+    for (const key of keys.slice(0, -1)) {
+        if (current[key] === null || typeof current[key] !== 'object') current[key] = {};
+        current = current[key];
+    }
+    current[keys[keys.length - 1]] = value;
+}
+
+function unsetPath(doc: Doc, path: string): void {
+    const keys = path.split('.');
+    const parent = keys.length === 1 ? doc : getPath(doc, keys.slice(0, -1).join('.'));
+    if (parent && typeof parent === 'object') delete parent[keys[keys.length - 1]];
+}
+
+// ============================================
+// FILTERS
+// ============================================
+
+function equal(a: unknown, b: unknown): boolean {
+    if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+    if (isObjectId(a) || isObjectId(b)) return String(a) === String(b);
+    return isDeepStrictEqual(a, b);
+}
+
+function comparable(value: unknown): number | string | null {
+    if (value instanceof Date) return value.getTime();
+    if (typeof value === 'number' || typeof value === 'string') return value;
+    return null;
+}
+
+function compare(a: unknown, b: unknown): number | null {
+    const left = comparable(a);
+    const right = comparable(b);
+    if (left === null || right === null || typeof left !== typeof right) return null;
+    return left < right ? -1 : left > right ? 1 : 0;
+}
+
+/** Candidates for a condition: the values themselves and any array elements */
+function candidates(values: unknown[]): unknown[] {
+    return values.flatMap(value => Array.isArray(value) ? [value, ...value] : [value]);
+}
+
+/** BSON type alias of a value, as `$type` names it */
+function typeAlias(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (value instanceof Date) return 'date';
+    if (typeof value === 'boolean') return 'bool';
+    return typeof value;
+}
+
+function equalsAny(values: unknown[], expected: unknown): boolean {
+    if (expected === null || expected === undefined) {
+        return values.length === 0 || values.some(value => value === null || value === undefined);
+    }
+    if (expected instanceof RegExp) {
+        return candidates(values).some(value => typeof value === 'string' && expected.test(value));
+    }
+    return candidates(values).some(value => equal(value, expected));
+}
+
+function matchesCondition(values: unknown[], condition: unknown): boolean {
+    if (!isOperatorObject(condition)) return equalsAny(values, condition);
+
+    for (const [operator, operand] of Object.entries(condition)) {
+        switch (operator) {
+            case '$eq':
+                if (!equalsAny(values, operand)) return false;
+                break;
+            case '$ne':
+                if (equalsAny(values, operand)) return false;
+                break;
+            case '$in':
+                if (!(operand as unknown[]).some(option => equalsAny(values, option))) return false;
+                break;
+            case '$nin':
+                if ((operand as unknown[]).some(option => equalsAny(values, option))) return false;
+                break;
+            case '$gt':
+            case '$gte':
+            case '$lt':
+            case '$lte': {
+                const ok = candidates(values).some(value => {
+                    const order = compare(value, operand);
+                    if (order === null) return false;
+                    return operator === '$gt' ? order > 0
+                        : operator === '$gte' ? order >= 0
+                            : operator === '$lt' ? order < 0
+                                : order <= 0;
+                });
+                if (!ok) return false;
+                break;
+            }
+            case '$exists': {
+                const exists = values.some(value => value !== undefined);
+                if (exists !== Boolean(operand)) return false;
+                break;
+            }
+            case '$regex': {
+                const pattern = operand instanceof RegExp ? operand : new RegExp(operand as string, condition.$options || '');
+                if (!equalsAny(values, pattern)) return false;
+                break;
+            }
+            case '$options':
+                break;
+            case '$type':
+                if (!candidates(values).some(value => value !== undefined && typeAlias(value) === operand)) return false;
+                break;
+            default:
+                throw new Error(`Unsupported query operator ${operator}`);
+        }
+    }
+    return true;
+}
+
+export function matches(doc: Doc, filter: Filter = {}): boolean {
+    for (const [key, condition] of Object.entries(filter)) {
+        if (key === '$or') {
+            if (!(condition as Filter[]).some(sub => matches(doc, sub))) return false;
+        } else if (key === '$and') {
+            if (!(condition as Filter[]).every(sub => matches(doc, sub))) return false;
+        } else if (key.startsWith('$')) {
+            throw new Error(`Unsupported query operator ${key}`);
+        } else if (!matchesCondition(valuesAt(doc, key.split('.')), condition)) {
+            return false;
+        }
+    }
+    return true;
+}
+
+/**
+ * The fields an upsert starts from: the filter's plain equalities
+ */
+export function upsertBase(filter: Filter): Doc {
+    const base: Doc = {};
+    for (const [key, condition] of Object.entries(filter)) {
+        if (key.startsWith('$') || isOperatorObject(condition) || condition instanceof RegExp) continue;
+        setPath(base, key, toPlain(condition));
+    }
+    return base;
+}
+
+// ============================================
+// UPDATES
+// ============================================
+
+function pullMatches(element: unknown, condition: unknown): boolean {
+    if (isPlainObject(condition) && !isOperatorObject(condition) && isPlainObject(element)) {
+        return matches(element, condition);
+    }
+    return matchesCondition([element], condition);
+}
+
+/**
+ * Replace a positional `$` with the index of the first array element the
+ * filter matched, as MongoDB does for `participants.$.contribution`
+ */
+function resolvePositional(doc: Doc, path: string, filter: Filter): string {
+    const keys = path.split('.');
+    const at = keys.indexOf('$');
+    if (at === -1) return path;
+
+    const prefix = keys.slice(0, at).join('.');
+    const array = getPath(doc, prefix);
+    const conditions = Object.entries(filter).filter(([key]) => key.startsWith(`${prefix}.`));
+    const index = Array.isArray(array) ? array.findIndex(element => conditions.every(([key, condition]) =>
+        matchesCondition(valuesAt(element, key.slice(prefix.length + 1).split('.')), condition)
+    )) : -1;
+    if (conditions.length === 0 || index === -1) {
+        throw new Error(`The positional operator did not find a match for ${path}`);
+    }
+    return [...keys.slice(0, at), String(index), ...keys.slice(at + 1)].join('.');
+}
+
+function arrayAt(doc: Doc, path: string): unknown[] {
+    const current = getPath(doc, path);
+    if (Array.isArray(current)) return current;
+    const created: unknown[] = [];
+    setPath(doc, path, created);
+    return created;
+}
+
+/**
+ * Apply an update in place. `$setOnInsert` only counts when inserting;
+ * `filter` is what a positional `$` in a path resolves against.
+ */
+export function applyUpdate(doc: Doc, update: Update, inserting: boolean = false, filter: Filter = {}): void {
+    const sets: Doc = {};
+    const operators: Doc = {};
+    for (const [key, value] of Object.entries(update)) {
+        if (key.startsWith('$')) operators[key] = value;
+        else sets[key] = value;
+    }
+    operators.$set = { ...sets, ...operators.$set };
+
+    for (const [operator, fields] of Object.entries(operators)) {
+        for (const [field, value] of Object.entries(fields as Doc)) {
+            const path = resolvePositional(doc, field, filter);
+            switch (operator) {
+                case '$set':
+                    setPath(doc, path, toPlain(value));
+                    break;
+                case '$setOnInsert':
+                    if (inserting) setPath(doc, path, toPlain(value));
+                    break;
+                case '$unset':
+                    unsetPath(doc, path);
+                    break;
+                case '$inc':
+                    setPath(doc, path, (getPath(doc, path) || 0) + value);
+                    break;
+                case '$push': {
+                    const array = arrayAt(doc, path);
+                    const each = isPlainObject(value) && '$each' in value;
+                    array.push(...(each ? value.$each : [value]).map(toPlain));
+                    if (each && typeof value.$slice === 'number') {
+                        const kept = value.$slice < 0 ? array.slice(value.$slice) : array.slice(0, value.$slice);
+                        array.splice(0, array.length, ...kept);
+                    }
+                    break;
+                }
+                case '$addToSet': {
+                    const array = arrayAt(doc, path);
+                    const items = isPlainObject(value) && '$each' in value ? value.$each : [value];
+                    for (const item of items) {
+                        if (!array.some(existing => equal(existing, item))) array.push(toPlain(item));
+                    }
+                    break;
+                }
+                case '$pull': {
+                    const current = getPath(doc, path);
+                    if (Array.isArray(current)) {
+                        setPath(doc, path, current.filter(element => !pullMatches(element, value)));
+                    }
+                    break;
+                }
+                default:
+                    throw new Error(`Unsupported update operator ${operator}`);
+            }
+        }
+    }
+}
+
+// ============================================
+// SORTING AND PROJECTION
+// ============================================
+
+function sortValue(doc: Doc, path: string): unknown {
+    const value = getPath(doc, path);
+    return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Missing values sort first ascending, as MongoDB puts null lowest
+ */
+export function sortComparator(sort: SortSpec): (a: Doc, b: Doc) => number {
+    const keys = Object.entries(sort);
+    return (a, b) => {
+        for (const [path, direction] of keys) {
+            const left = sortValue(a, path);
+            const right = sortValue(b, path);
+            const leftMissing = left === undefined || left === null;
+            const rightMissing = right === undefined || right === null;
+            let order = 0;
+            if (leftMissing || rightMissing) {
+                order = leftMissing === rightMissing ? 0 : leftMissing ? -1 : 1;
+            } else {
+                order = compare(left, right) ?? 0;
+            }
+            if (order !== 0) return order * direction;
+        }
+        return 0;
+    };
+}
+
+export function project(doc: Doc, fields: string[]): Doc {
+    const projected: Doc = {};
+    if (doc._id !== undefined) projected._id = doc._id;
+    for (const path of fields) {
+        const value = getPath(doc, path);
+        if (value !== undefined) setPath(projected, path, value);
+    }
+    return projected;
+}
@@ -0,0 +1,155 @@
+// =============================================================================
+// MemoryBackend Tests - query semantics, model hydration and snapshots
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { MemoryBackend, MemoryRepository } from './MemoryBackend.js';
+import { PlayerQuests } from '../services/QuestService.js';
+import { LedgerEntry } from '../database/ledgerModels.js';
+import { WorldEventSchedulerService, WorldEvent } from '../services/WorldEventSchedulerService.js';
+import type { WorldEventRecord } from '../services/WorldEventSchedulerService.js';
+
+interface Row {
+    id: string;
+    score?: number;
+    tags?: string[];
+    items?: Array<{ name: string; count: number }>;
+    meta?: { realm?: string | null };
+}
+
+function rows(): MemoryRepository<Row> {
+    return new MemoryRepository<Row>([
+        { id: 'a', score: 10, tags: ['red', 'blue'], items: [{ name: 'x', count: 1 }], meta: { realm: 'nebula' } },
+        { id: 'b', score: 30, tags: ['green'], items: [], meta: { realm: null } },
+        { id: 'c', tags: [], meta: {} }
+    ]);
+}
+
+describe('MemoryRepository queries', () => {
+    it('follows MongoDB filter semantics for arrays, nulls and operators', async () => {
+        const repo = rows();
+        const ids = async (filter: Record<string, any>) => (await repo.find(filter)).map(r => r.id);
+
+        expect(await ids({ tags: 'blue' })).toEqual(['a']);
+        expect(await ids({ 'items.name': 'x' })).toEqual(['a']);
+        expect(await ids({ 'meta.realm': null })).toEqual(['b', 'c']);
+        expect(await ids({ score: { $gte: 10, $lt: 30 } })).toEqual(['a']);
+        expect(await ids({ score: { $exists: false } })).toEqual(['c']);
+        expect(await ids({ id: { $nin: ['a'] }, $or: [{ tags: 'green' }, { score: 99 }] })).toEqual(['b']);
+        expect(await ids({ id: { $regex: '^[ab]$' } })).toEqual(['a', 'b']);
+        expect(await ids({ 'meta.realm': { $type: 'string' } })).toEqual(['a']);
+        expect(await repo.distinct('tags')).toEqual(['red', 'blue', 'green']);
+    });
+
+    it('sorts missing values first and pages the result', async () => {
+        const repo = rows();
+        const sorted = await repo.find({}, { sort: { score: -1 }, skip: 1, limit: 1, fields: ['score'] });
+        expect(sorted).toEqual([{ score: 10 }]);
+        expect((await repo.find({}, { sort: { score: 1 } })).map(r => r.id)).toEqual(['c', 'a', 'b']);
+    });
+
+    it('applies update operators, the positional $ and upserts', async () => {
+        const repo = rows();
+
+        const updated = await repo.update(
+            { id: 'a', 'items.name': 'x' },
+            { $inc: { 'items.$.count': 2, score: 5 }, $addToSet: { tags: { $each: ['red', 'gold'] } }, $pull: { tags: 'blue' } }
+        );
+        expect(updated?.score).toBe(15);
+        expect(updated?.items).toEqual([{ name: 'x', count: 3 }]);
+        expect(updated?.tags).toEqual(['red', 'gold']);
+
+        await repo.update({ id: 'b' }, { $push: { tags: { $each: ['a', 'b', 'c'], $slice: -2 } } });
+        expect((await repo.findOne({ id: 'b' }))?.tags).toEqual(['b', 'c']);
+
+        expect(await repo.update({ id: 'z' }, { $set: { score: 1 } })).toBeNull();
+        const created = await repo.update({ id: 'z' }, { $set: { score: 1 }, $setOnInsert: { tags: [] } }, { upsert: true });
+        expect(created).toMatchObject({ id: 'z', score: 1, tags: [] });
+
+        expect(await repo.updateMany({ score: { $gt: 0 } }, { $unset: { meta: 1 } })).toBe(2);
+        expect(await repo.deleteMany({ meta: { $exists: false } })).toBe(3);
+        expect(await repo.count()).toBe(1);
+    });
+
+    it('hands out copies rather than the stored records', async () => {
+        const repo = rows();
+        const row = await repo.findOne({ id: 'a' });
+        row!.tags!.push('mutated');
+        expect((await repo.findOne({ id: 'a' }))?.tags).toEqual(['red', 'blue']);
+    });
+});
+
+describe('MemoryRepository with a model', () => {
+    it('fills schema defaults and rejects invalid records', async () => {
+        const repo = new MemoryRepository<any>([], PlayerQuests);
+        const stored = await repo.insert({ playerId: 'p1' });
+        expect(stored.playerId).toBe('p1');
+        expect(stored.activeQuestIds).toEqual([]);
+        expect(stored.storyChapter).toBe(1);
+        expect(typeof stored._id).toBe('string');
+
+        await expect(repo.insert({})).rejects.toThrow(/playerId/);
+    });
+
+    it('enforces unique indexes on insert, partial ones only where they apply', async () => {
+        const entries = new MemoryRepository<any>([], LedgerEntry);
+        const line = (entryId: string, idempotencyKey: string | null) => ({
+            entryId, transactionId: 't', idempotencyKey, account: 'player:p1', currency: 'stardust', amount: 1, source: 'quest', reason: 'reward'
+        });
+
+        await entries.insert(line('e1', 'quest:1'));
+        await entries.insert(line('e2', null));
+        await entries.insert(line('e3', null));
+        await expect(entries.insert(line('e4', 'quest:1'))).rejects.toMatchObject({ code: 11000 });
+        await expect(entries.insert(line('e1', 'quest:2'))).rejects.toMatchObject({ code: 11000 });
+        expect(await entries.count()).toBe(3);
+    });
+
+    it('caps world event participants without $expr', async () => {
+        const repository = new MemoryRepository<WorldEventRecord>([], WorldEvent);
+        const scheduler = new WorldEventSchedulerService({ repository });
+        const event = await scheduler.scheduleEvent({ eventType: 'meteor_shower' });
+        await scheduler.startEvent(event!.eventId);
+
+        await scheduler.recordContribution(event!.eventId, 'p1', 3);
+        await scheduler.recordContribution(event!.eventId, 'p1', 4);
+        let stored = await repository.findOne({ eventId: event!.eventId });
+        expect(stored?.participants.map(p => [p.playerId, p.contribution])).toEqual([['p1', 7]]);
+
+        const crowd = Array.from({ length: 99 }, (_, i) => ({ playerId: `crowd${i}`, joinedAt: new Date(), contribution: 0 }));
+        await repository.update({ eventId: event!.eventId }, { $push: { participants: { $each: crowd } } });
+        await scheduler.recordContribution(event!.eventId, 'late', 1);
+        stored = await repository.findOne({ eventId: event!.eventId });
+        expect(stored?.participants).toHaveLength(100);
+        expect(stored?.participants.some(p => p.playerId === 'late')).toBe(false);
+        scheduler.shutdown();
+    });
+});
+
+describe('MemoryBackend snapshots', () => {
+    it('round-trips collections, dates included, through the snapshot file', async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'aura-persistence-'));
+        const snapshotPath = path.join(dir, 'state.json');
+        try {
+            const first = new MemoryBackend({ snapshotPath, snapshotIntervalMs: 60_000 });
+            await first.connect();
+            const quests = first.repository<any>(PlayerQuests);
+            await quests.insert({ playerId: 'p1', createdAt: new Date('2026-01-02T03:04:05Z') });
+            await first.disconnect();
+            expect(fs.existsSync(snapshotPath)).toBe(true);
+
+            const second = new MemoryBackend({ snapshotPath });
+            await second.connect();
+            const restored = await second.repository<any>(PlayerQuests).findOne({ playerId: 'p1' });
+            await second.disconnect();
+
+            expect(restored.createdAt).toBeInstanceOf(Date);
+            expect(restored.createdAt.toISOString()).toBe('2026-01-02T03:04:05.000Z');
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
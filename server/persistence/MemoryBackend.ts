@@ -0,0 +1,313 @@
+// =============================================================================
+// MemoryBackend - Every collection in-process, optionally kept in a JSON file
+// =============================================================================
+// Runs the server and its tests with no database. Records go through the
+// model before they are stored, so defaults, casting, validation and unique
+// indexes match what MongoDB would have kept. With a snapshot path the collections are
+// loaded at connect and written back on an interval and at disconnect.
+// =============================================================================
+
+import { promises as fs } from 'fs';
+import { isDeepStrictEqual } from 'util';
+import path from 'path';
+import mongoose from 'mongoose';
+import type { Model } from 'mongoose';
+import {
+    toPlain,
+    getPath,
+    matches,
+    applyUpdate,
+    upsertBase,
+    sortComparator,
+    project
+} from './DocumentQuery.js';
+import type { Filter, Update, FindOptions, Repository, PersistenceBackend } from './Repository.js';
+
+type Doc = Record<string, any>;
+
+export const MEMORY_SNAPSHOT_VERSION = 1;
+
+export interface MemorySnapshot {
+    version: number;
+    savedAt: number;
+    collections: Record<string, Doc[]>;
+}
+
+export interface MemoryBackendOptions {
+    snapshotPath?: string | null;
+    snapshotIntervalMs?: number;
+}
+
+// Dates survive the JSON round trip tagged, so strings that look like dates
+// stay strings
+function encode(this: any, key: string, value: unknown): unknown {
+    const raw = this[key];
+    return raw instanceof Date ? { $date: raw.toISOString() } : value;
+}
+
+function decode(_key: string, value: any): unknown {
+    if (value && typeof value === 'object' && typeof value.$date === 'string' && Object.keys(value).length === 1) {
+        return new Date(value.$date);
+    }
+    return value;
+}
+
+export class MemoryRepository<T> implements Repository<T> {
+    constructor(
+        private readonly records: Doc[],
+        private readonly model: Model<any> | null = null,
+        private readonly onWrite: () => void = () => {}
+    ) {}
+
+    async findOne(filter: Filter): Promise<T | null> {
+        const record = this.records.find(r => matches(r, filter));
+        return record ? toPlain(record) as T : null;
+    }
+
+    async find(filter: Filter = {}, options: FindOptions = {}): Promise<T[]> {
+        let found = this.records.filter(r => matches(r, filter));
+        if (options.sort) found = [...found].sort(sortComparator(options.sort));
+        const start = options.skip || 0;
+        found = found.slice(start, options.limit ? start + options.limit : undefined);
+        return found.map(r => toPlain(options.fields ? project(r, options.fields) : r) as T);
+    }
+
+    async count(filter: Filter = {}): Promise<number> {
+        return this.records.filter(r => matches(r, filter)).length;
+    }
+
+    async distinct(field: string, filter: Filter = {}): Promise<any[]> {
+        const values: any[] = [];
+        for (const record of this.records) {
+            if (!matches(record, filter)) continue;
+            const value = field.split('.').reduce<any>((current, key) => current?.[key], record);
+            for (const item of Array.isArray(value) ? value : [value]) {
+                if (item !== undefined && !values.some(v => String(v) === String(item))) values.push(item);
+            }
+        }
+        return toPlain(values);
+    }
+
+    async insert(record: Partial<T>): Promise<T> {
+        const stored = this.hydrate(record as Doc, true);
+        this.checkUnique(stored);
+        this.records.push(stored);
+        this.onWrite();
+        return toPlain(stored) as T;
+    }
+
+    async save(filter: Filter, record: T): Promise<void> {
+        const index = this.records.findIndex(r => matches(r, filter));
+        if (index === -1) {
+            await this.insert(record as Partial<T>);
+            return;
+        }
+        this.records[index] = this.hydrate({ ...record as Doc, _id: this.records[index]._id }, false);
+        this.onWrite();
+    }
+
+    async update(filter: Filter, update: Update, options: { upsert?: boolean } = {}): Promise<T | null> {
+        const record = this.records.find(r => matches(r, filter));
+        if (record) {
+            applyUpdate(record, update, false, filter);
+            this.touch(record);
+            this.onWrite();
+            return toPlain(record) as T;
+        }
+        if (!options.upsert) return null;
+
+        const created = upsertBase(filter);
+        applyUpdate(created, update, true);
+        return this.insert(created as Partial<T>);
+    }
+
+    async updateMany(filter: Filter, update: Update): Promise<number> {
+        let changed = 0;
+        for (const record of this.records) {
+            if (!matches(record, filter)) continue;
+            const before = toPlain(record);
+            applyUpdate(record, update, false, filter);
+            if (!isDeepStrictEqual(before, record)) {
+                this.touch(record);
+                changed++;
+            }
+        }
+        if (changed > 0) this.onWrite();
+        return changed;
+    }
+
+    async delete(filter: Filter): Promise<boolean> {
+        const index = this.records.findIndex(r => matches(r, filter));
+        if (index === -1) return false;
+        this.records.splice(index, 1);
+        this.onWrite();
+        return true;
+    }
+
+    async deleteMany(filter: Filter): Promise<number> {
+        const kept = this.records.filter(r => !matches(r, filter));
+        const removed = this.records.length - kept.length;
+        if (removed > 0) {
+            this.records.splice(0, this.records.length, ...kept);
+            this.onWrite();
+        }
+        return removed;
+    }
+
+    /**
+     * Defaults, casting and validation from the model, as a plain record
+     */
+    private hydrate(record: Doc, inserting: boolean): Doc {
+        if (!this.model) return toPlain(record);
+
+        const document = new this.model(record);
+        const error = document.validateSync();
+        if (error) throw error;
+
+        const stored: Doc = toPlain(document.toObject({ flattenMaps: true, versionKey: false }));
+        if (inserting && this.timestamps() && !record.createdAt) stored.createdAt = new Date();
+        this.touch(stored);
+        return stored;
+    }
+
+    /**
+     * The model's unique indexes hold on insert, failing with MongoDB's
+     * duplicate key code so callers handle both backends alike
+     */
+    private checkUnique(record: Doc): void {
+        for (const [fields, options] of this.model?.schema.indexes() || []) {
+            if (!options?.unique) continue;
+
+            const partial: Filter = options.partialFilterExpression || {};
+            if (!matches(record, partial)) continue;
+
+            const paths = Object.keys(fields);
+            const clash = this.records.some(existing => matches(existing, partial)
+                && paths.every(p => isDeepStrictEqual(toPlain(getPath(existing, p) ?? null), toPlain(getPath(record, p) ?? null))));
+            if (clash) {
+                throw Object.assign(new Error(`E11000 duplicate key error: ${paths.join(', ')}`), { code: 11000 });
+            }
+        }
+    }
+
+    private touch(record: Doc): void {
+        if (this.timestamps()) record.updatedAt = new Date();
+    }
+
+    private timestamps(): boolean {
+        return !!this.model?.schema.get('timestamps');
+    }
+}
+
+export class MemoryBackend implements PersistenceBackend {
+    readonly kind = 'memory' as const;
+    private collections: Map<string, Doc[]> = new Map();
+    private repositories: Map<string, MemoryRepository<any>> = new Map();
+    private snapshotPath: string | null;
+    private snapshotIntervalMs: number;
+    private snapshotTimer: NodeJS.Timeout | null = null;
+    private dirty = false;
+    private connected = false;
+
+    constructor(options: MemoryBackendOptions = {}) {
+        this.snapshotPath = options.snapshotPath || null;
+        this.snapshotIntervalMs = options.snapshotIntervalMs ?? 30_000;
+    }
+
+    async connect(): Promise<void> {
+        if (this.connected) return;
+
+        // Anything still calling a model directly should fail fast rather
+        // than queue for a connection that is never coming
+        mongoose.set('bufferCommands', false);
+
+        if (this.snapshotPath) {
+            const snapshot = await this.readSnapshot(this.snapshotPath);
+            if (snapshot) {
+                for (const [name, records] of Object.entries(snapshot.collections)) {
+                    this.collection(name).splice(0, Infinity, ...records);
+                }
+                console.log(`💾 Loaded ${Object.keys(snapshot.collections).length} collections from ${this.snapshotPath}`);
+            }
+            this.snapshotTimer = setInterval(() => {
+                this.flush().catch(error => console.error('Failed to write persistence snapshot:', error));
+            }, this.snapshotIntervalMs);
+            this.snapshotTimer.unref?.();
+        }
+
+        this.connected = true;
+    }
+
+    async disconnect(): Promise<void> {
+        if (this.snapshotTimer) {
+            clearInterval(this.snapshotTimer);
+            this.snapshotTimer = null;
+        }
+        await this.flush();
+        this.connected = false;
+    }
+
+    /**
+     * Always usable; connecting only matters for the snapshot
+     */
+    isReady(): boolean {
+        return true;
+    }
+
+    repository<T>(model: Model<any>): Repository<T> {
+        const name = model.collection.collectionName;
+        let repository = this.repositories.get(name);
+        if (!repository) {
+            repository = new MemoryRepository<T>(this.collection(name), model, () => { this.dirty = true; });
+            this.repositories.set(name, repository);
+        }
+        return repository;
+    }
+
+    snapshot(): MemorySnapshot {
+        return {
+            version: MEMORY_SNAPSHOT_VERSION,
+            savedAt: Date.now(),
+            collections: Object.fromEntries(this.collections)
+        };
+    }
+
+    /**
+     * Write the snapshot if anything changed since the last one. Writes go
+     * to a temp file and are renamed into place.
+     */
+    async flush(): Promise<void> {
+        if (!this.snapshotPath || !this.dirty) return;
+        this.dirty = false;
+
+        const tmpPath = `${this.snapshotPath}.tmp`;
+        await fs.mkdir(path.dirname(this.snapshotPath), { recursive: true });
+        await fs.writeFile(tmpPath, JSON.stringify(this.snapshot(), encode));
+        await fs.rename(tmpPath, this.snapshotPath);
+    }
+
+    private collection(name: string): Doc[] {
+        let records = this.collections.get(name);
+        if (!records) {
+            records = [];
+            this.collections.set(name, records);
+        }
+        return records;
+    }
+
+    private async readSnapshot(filePath: string): Promise<MemorySnapshot | null> {
+        try {
+            const snapshot: MemorySnapshot = JSON.parse(await fs.readFile(filePath, 'utf8'), decode);
+            if (snapshot.version !== MEMORY_SNAPSHOT_VERSION || !snapshot.collections) {
+                console.warn(`⚠️ Ignoring persistence snapshot ${filePath} (version ${snapshot.version})`);
+                return null;
+            }
+            return snapshot;
+        } catch (error: any) {
+            if (error?.code !== 'ENOENT') {
+                console.error(`Failed to read persistence snapshot ${filePath}:`, error);
+            }
+            return null;
+        }
+    }
+}
@@ -0,0 +1,106 @@
+// =============================================================================
+// MongoBackend - Repositories over the Mongoose models
+// =============================================================================
+
+import type { Model } from 'mongoose';
+import { database } from '../database/connection.js';
+import type { Filter, Update, FindOptions, Repository, PersistenceBackend } from './Repository.js';
+
+export interface MongoBackendOptions {
+    uri: string;
+    dbName: string;
+}
+
+export class MongoRepository<T> implements Repository<T> {
+    constructor(private readonly model: Model<any>) {}
+
+    async findOne(filter: Filter): Promise<T | null> {
+        return this.model.findOne(filter).lean<T>();
+    }
+
+    async find(filter: Filter = {}, options: FindOptions = {}): Promise<T[]> {
+        let query = this.model.find(filter);
+        if (options.sort) query = query.sort(options.sort);
+        if (options.skip) query = query.skip(options.skip);
+        if (options.limit) query = query.limit(options.limit);
+        if (options.fields) query = query.select(options.fields.join(' '));
+        return query.lean<T[]>();
+    }
+
+    async count(filter: Filter = {}): Promise<number> {
+        return this.model.countDocuments(filter);
+    }
+
+    async distinct(field: string, filter: Filter = {}): Promise<any[]> {
+        return this.model.distinct(field, filter);
+    }
+
+    async insert(record: Partial<T>): Promise<T> {
+        const document = await this.model.create(record);
+        return document.toObject({ flattenMaps: true }) as T;
+    }
+
+    async save(filter: Filter, record: T): Promise<void> {
+        await this.model.replaceOne(filter, record as any, { upsert: true, runValidators: true });
+    }
+
+    async update(filter: Filter, update: Update, options: { upsert?: boolean } = {}): Promise<T | null> {
+        return this.model.findOneAndUpdate(filter, update, {
+            new: true,
+            upsert: options.upsert || false,
+            setDefaultsOnInsert: true
+        }).lean<T>();
+    }
+
+    async updateMany(filter: Filter, update: Update): Promise<number> {
+        const result = await this.model.updateMany(filter, update);
+        return result.modifiedCount;
+    }
+
+    async delete(filter: Filter): Promise<boolean> {
+        const result = await this.model.deleteOne(filter);
+        return result.deletedCount > 0;
+    }
+
+    async deleteMany(filter: Filter): Promise<number> {
+        const result = await this.model.deleteMany(filter);
+        return result.deletedCount || 0;
+    }
+}
+
+export class MongoBackend implements PersistenceBackend {
+    readonly kind = 'mongo' as const;
+    private repositories: Map<string, MongoRepository<any>> = new Map();
+
+    constructor(private readonly options: MongoBackendOptions) {}
+
+    /**
+     * Throws when MongoDB cannot be reached
+     */
+    async connect(): Promise<void> {
+        await database.connect({
+            uri: this.options.uri,
+            dbName: this.options.dbName,
+            maxRetries: 3,
+            retryDelay: 1000
+        });
+    }
+
+    async disconnect(): Promise<void> {
+        await database.disconnect();
+    }
+
+    isReady(): boolean {
+        return database.getConnectionStatus();
+    }
+
+    repository<T>(model: Model<any>): Repository<T> {
+        const name = model.collection.collectionName;
+        let repository = this.repositories.get(name);
+        if (!repository) {
+            repository = new MongoRepository<T>(model);
+            this.repositories.set(name, repository);
+        }
+        return repository;
+    }
+}
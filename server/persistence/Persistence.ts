@@ -0,0 +1,122 @@
+// =============================================================================
+// Persistence - The configured backend behind every service's repositories
+// =============================================================================
+// PERSISTENCE picks the backend: `mongo` (default) connects to MONGODB_URI
+// and fails startup if it cannot; `memory` never touches a database.
+// PERSISTENCE_SNAPSHOT_PATH keeps the memory backend in a JSON file across
+// restarts, written every PERSISTENCE_SNAPSHOT_INTERVAL_MS and at shutdown.
+//
+// Services take their repositories when they are constructed, before the
+// backend is chosen; each call goes to whichever backend is current.
+// Until `init` runs that is an empty memory backend, which is what tests get.
+// =============================================================================
+
+import type { Model } from 'mongoose';
+import { MemoryBackend } from './MemoryBackend.js';
+import { MongoBackend } from './MongoBackend.js';
+import type {
+    Filter,
+    Update,
+    FindOptions,
+    Repository,
+    PersistenceBackend,
+    PersistenceKind
+} from './Repository.js';
+
+export interface PersistenceConfig {
+    kind: PersistenceKind;
+    mongoUri: string;
+    mongoDb: string;
+    snapshotPath: string | null;
+    snapshotIntervalMs: number;
+}
+
+export function loadPersistenceConfig(env: NodeJS.ProcessEnv = process.env): PersistenceConfig {
+    return {
+        kind: env.PERSISTENCE === 'memory' ? 'memory' : 'mongo',
+        mongoUri: env.MONGODB_URI || 'mongodb://localhost:27017',
+        mongoDb: env.MONGODB_DB || 'aura',
+        snapshotPath: env.PERSISTENCE_SNAPSHOT_PATH || null,
+        snapshotIntervalMs: Number(env.PERSISTENCE_SNAPSHOT_INTERVAL_MS) || 30_000
+    };
+}
+
+/**
+ * A repository that resolves the backend on every call
+ */
+class BoundRepository<T> implements Repository<T> {
+    constructor(private readonly layer: Persistence, private readonly model: Model<any>) {}
+
+    private get target(): Repository<T> {
+        return this.layer.backend.repository<T>(this.model);
+    }
+
+    findOne(filter: Filter) { return this.target.findOne(filter); }
+    find(filter?: Filter, options?: FindOptions) { return this.target.find(filter, options); }
+    count(filter?: Filter) { return this.target.count(filter); }
+    distinct(field: string, filter?: Filter) { return this.target.distinct(field, filter); }
+    insert(record: Partial<T>) { return this.target.insert(record); }
+    save(filter: Filter, record: T) { return this.target.save(filter, record); }
+    update(filter: Filter, update: Update, options?: { upsert?: boolean }) { return this.target.update(filter, update, options); }
+    updateMany(filter: Filter, update: Update) { return this.target.updateMany(filter, update); }
+    delete(filter: Filter) { return this.target.delete(filter); }
+    deleteMany(filter: Filter) { return this.target.deleteMany(filter); }
+}
+
+class Persistence {
+    backend: PersistenceBackend = new MemoryBackend();
+
+    /**
+     * Connect the configured backend. Throws when MongoDB was asked for and
+     * cannot be reached: quietly running on memory would accept writes that
+     * are lost at the next restart.
+     */
+    async init(config: PersistenceConfig): Promise<PersistenceKind> {
+        if (config.kind === 'mongo') {
+            await this.use(new MongoBackend({ uri: config.mongoUri, dbName: config.mongoDb }));
+            return this.backend.kind;
+        }
+
+        await this.use(new MemoryBackend({
+            snapshotPath: config.snapshotPath,
+            snapshotIntervalMs: config.snapshotIntervalMs
+        }));
+        return this.backend.kind;
+    }
+
+    /**
+     * Swap in a connected backend (tests and simulations start from empty)
+     */
+    async use(backend: PersistenceBackend): Promise<void> {
+        await backend.connect();
+        this.backend = backend;
+    }
+
+    get kind(): PersistenceKind {
+        return this.backend.kind;
+    }
+
+    isReady(): boolean {
+        return this.backend.isReady();
+    }
+
+    /**
+     * MongoDB is connected; services that still use their models directly
+     * check this before touching them
+     */
+    usesMongo(): boolean {
+        return this.backend.kind === 'mongo' && this.backend.isReady();
+    }
+
+    repository<T>(model: Model<any>): Repository<T> {
+        return new BoundRepository<T>(this, model);
+    }
+
+    async shutdown(): Promise<void> {
+        await this.backend.disconnect();
+        console.log(`💾 Persistence (${this.backend.kind}) shut down`);
+    }
+}
+
+export const persistence = new Persistence();
+export { Persistence };
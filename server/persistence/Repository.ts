@@ -0,0 +1,66 @@
+// =============================================================================
+// Repository - How services read and write their persisted aggregates
+// =============================================================================
+// Services never touch a Mongoose model directly; they ask the persistence
+// layer for a repository and speak a small subset of MongoDB's query and
+// update language to it. MongoBackend hands the calls to the model,
+// MemoryBackend evaluates them in-process (see DocumentQuery.ts), so the
+// same service code runs against a database or with no external services.
+//
+// Supported filters: field equality on dotted paths (matching array
+// elements), $eq $ne $gt $gte $lt $lte $in $nin $exists $regex/$options,
+// $or $and. Supported updates: $set $unset $inc $push ($each, $slice)
+// $addToSet ($each) $pull $setOnInsert, with a positional `$` in a path
+// standing for the array element the filter matched; top-level fields
+// without an operator are set, as Mongoose does.
+// =============================================================================
+
+import type { Document, Model } from 'mongoose';
+
+export type Filter = Record<string, any>;
+export type Update = Record<string, any>;
+
+/** Sort keys in priority order, 1 ascending and -1 descending */
+export type SortSpec = Record<string, 1 | -1>;
+
+export interface FindOptions {
+    sort?: SortSpec;
+    skip?: number;
+    limit?: number;
+    fields?: string[];              // Only these (dotted) paths, plus _id
+}
+
+/** A model's fields without the Mongoose document machinery */
+export type Stored<T> = Omit<T, Exclude<keyof Document, '_id'>>;
+
+/**
+ * Records come back as plain objects: change one and `save` it, or describe
+ * the change as an update so it applies atomically.
+ */
+export interface Repository<T> {
+    findOne(filter: Filter): Promise<T | null>;
+    find(filter?: Filter, options?: FindOptions): Promise<T[]>;
+    count(filter?: Filter): Promise<number>;
+    distinct(field: string, filter?: Filter): Promise<any[]>;
+    /** Stores a new record with the model's defaults filled in */
+    insert(record: Partial<T>): Promise<T>;
+    /** Replaces the record matching `filter`, inserting it if there is none */
+    save(filter: Filter, record: T): Promise<void>;
+    /** Updates the first match and returns it as it is afterwards */
+    update(filter: Filter, update: Update, options?: { upsert?: boolean }): Promise<T | null>;
+    /** Returns how many records changed */
+    updateMany(filter: Filter, update: Update): Promise<number>;
+    delete(filter: Filter): Promise<boolean>;
+    deleteMany(filter: Filter): Promise<number>;
+}
+
+export type PersistenceKind = 'mongo' | 'memory';
+
+export interface PersistenceBackend {
+    readonly kind: PersistenceKind;
+    connect(): Promise<void>;
+    disconnect(): Promise<void>;
+    isReady(): boolean;
+    /** One repository per collection; the model supplies its name and defaults */
+    repository<T>(model: Model<any>): Repository<T>;
+}
@@ -0,0 +1,21 @@
+// =============================================================================
+// Persistence Module - Repositories over MongoDB or in-process memory
+// =============================================================================
+
+export { persistence, Persistence, loadPersistenceConfig } from './Persistence.js';
+export { MemoryBackend, MemoryRepository, MEMORY_SNAPSHOT_VERSION } from './MemoryBackend.js';
+export { MongoBackend, MongoRepository } from './MongoBackend.js';
+
+export type { PersistenceConfig } from './Persistence.js';
+export type { MemorySnapshot, MemoryBackendOptions } from './MemoryBackend.js';
+export type { MongoBackendOptions } from './MongoBackend.js';
+export type {
+    Filter,
+    Update,
+    SortSpec,
+    FindOptions,
+    Stored,
+    Repository,
+    PersistenceKind,
+    PersistenceBackend
+} from './Repository.js';
@@ -3,7 +3,17 @@
 // =============================================================================
 
 import express from 'express';
-import { analyticsService, GlobalAnalytics, PlayerAnalytics } from '../services/AnalyticsService.js';
+import { z } from 'zod';
+import { analyticsService } from '../services/AnalyticsService.js';
+import { websocketHandler } from '../websocket/WebSocketHandler.js';
+import { moderationService } from '../services/ModerationService.js';
+import { questService } from '../services/QuestService.js';
+import { ledgerService, playerAccount, CURRENCIES } from '../services/LedgerService.js';
+import type { Currency } from '../services/LedgerService.js';
+import { playerDataService } from '../services/PlayerDataService.js';
+import { mysteryBoxService } from '../services/MysteryBoxService.js';
+import { REPORT_STATUSES } from '../database/moderationModels.js';
+import { PlayerIdSchema, formatZodError } from '../middleware/validation.js';
 
 const router = express.Router();
 
@@ -207,41 +217,13 @@ router.get('/analytics/retention', requireAdmin, async (req, res) => {
  */
 router.get('/players/stats', requireAdmin, async (req, res) => {
     try {
-        const totalPlayers = await PlayerAnalytics.countDocuments();
-        
-        // Get active players (played in last 7 days)
-        const weekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
-        const activePlayers = await PlayerAnalytics.countDocuments({
-            lastActiveDate: { $gte: weekAgo }
-        });
-        
-        // Get players with high streaks
-        const streakPlayers = await PlayerAnalytics.countDocuments({
-            currentStreak: { $gte: 7 }
-        });
-        
-        // Average playtime
-        const avgPlaytimeResult = await PlayerAnalytics.aggregate([
-            { $group: { _id: null, avgPlaytime: { $avg: '$totalPlaytime' } } }
-        ]);
-        const avgPlaytime = Math.round(avgPlaytimeResult[0]?.avgPlaytime || 0);
-        
-        // Top players by playtime
-        const topByPlaytime = await PlayerAnalytics.find()
-            .sort({ totalPlaytime: -1 })
-            .limit(10)
-            .select('playerId totalPlaytime sessionsCount currentStreak')
-            .lean();
-        
+        const overview = await analyticsService.getPlayerOverview();
+
         res.json({
             success: true,
             data: {
-                totalPlayers,
-                activePlayers,
-                activePercent: totalPlayers > 0 ? Math.round((activePlayers / totalPlayers) * 100) : 0,
-                playersWithWeekStreak: streakPlayers,
-                avgPlaytimeMinutes: avgPlaytime,
-                topPlayersByPlaytime: topByPlaytime
+                ...overview,
+                activePercent: overview.totalPlayers > 0 ? Math.round((overview.activePlayers / overview.totalPlayers) * 100) : 0
             }
         });
     } catch (error) {
@@ -275,22 +257,22 @@ router.get('/players/:playerId/analytics', requireAdmin, async (req, res) => {
 
 /**
  * GET /api/admin/realtime
- * Get real-time server metrics (would integrate with WebSocket handler)
+ * Get real-time server metrics from the WebSocket handler
  */
 router.get('/realtime', requireAdmin, async (_req, res) => {
     try {
-        // These would ideally come from the WebSocket handler
-        // For now, return placeholder structure
+        const bandwidth = websocketHandler.getReplicationStats();
+
         res.json({
             success: true,
             data: {
                 timestamp: Date.now(),
-                note: 'Real-time metrics require WebSocket handler integration',
-                placeholder: {
-                    onlinePlayers: 0,
-                    activeRooms: 0,
-                    messagesPerMinute: 0,
-                    serverUptime: process.uptime()
+                onlinePlayers: websocketHandler.players.size,
+                serverUptime: process.uptime(),
+                worldState: {
+                    clients: bandwidth.clients,
+                    totalBytesSent: bandwidth.totalBytesSent,
+                    avgBytesPerClientPerSecond: bandwidth.avgBytesPerClientPerSecond
                 }
             }
         });
@@ -300,4 +282,386 @@ router.get('/realtime', requireAdmin, async (_req, res) => {
     }
 });
 
+/**
+ * GET /api/admin/realtime/bandwidth
+ * Per-client world state bandwidth (bytes sent, keyframes, bytes/sec)
+ */
+router.get('/realtime/bandwidth', requireAdmin, async (_req, res) => {
+    try {
+        res.json({
+            success: true,
+            data: websocketHandler.getReplicationStats()
+        });
+    } catch (error) {
+        console.error('Failed to get bandwidth metrics:', error);
+        res.status(500).json({ error: 'Failed to get bandwidth metrics' });
+    }
+});
+
+/**
+ * GET /api/admin/movement/suspicion
+ * Movement violation counts and speed-hack suspicion scores, highest first
+ * Query: ?flagged=true to only list flagged players
+ */
+router.get('/movement/suspicion', requireAdmin, async (req, res) => {
+    try {
+        const flaggedOnly = req.query.flagged === 'true';
+        const players = websocketHandler.getMovementSuspicion()
+            .filter(p => !flaggedOnly || p.flagged);
+
+        res.json({
+            success: true,
+            data: {
+                total: players.length,
+                flagged: players.filter(p => p.flagged).length,
+                players
+            }
+        });
+    } catch (error) {
+        console.error('Failed to get movement suspicion:', error);
+        res.status(500).json({ error: 'Failed to get movement suspicion' });
+    }
+});
+
+/**
+ * GET /api/admin/realtime/ratelimits
+ * How often each message rate limit and cooldown has tripped, most tripped first
+ */
+router.get('/realtime/ratelimits', requireAdmin, async (_req, res) => {
+    try {
+        res.json({
+            success: true,
+            data: websocketHandler.getRateLimitMetrics()
+        });
+    } catch (error) {
+        console.error('Failed to get rate limit metrics:', error);
+        res.status(500).json({ error: 'Failed to get rate limit metrics' });
+    }
+});
+
+/**
+ * GET /api/admin/realtime/bots
+ * Bots by role, how many are retiring, and the director's spawn/retire counters
+ */
+router.get('/realtime/bots', requireAdmin, async (_req, res) => {
+    try {
+        res.json({
+            success: true,
+            data: websocketHandler.getBotStats()
+        });
+    } catch (error) {
+        console.error('Failed to get bot stats:', error);
+        res.status(500).json({ error: 'Failed to get bot stats' });
+    }
+});
+
+// ============================================
+// MODERATION
+// ============================================
+
+const adminName = (req: express.Request): string => String(req.headers['x-admin-name'] || 'admin');
+
+const ReportQuerySchema = z.object({
+    status: z.enum(REPORT_STATUSES).optional()
+});
+
+const ResolveReportSchema = z.object({
+    status: z.enum(['actioned', 'dismissed']),
+    resolution: z.string().max(1000).optional()
+});
+
+// Omitted or null duration: a mute lasts until lifted, a ban is permanent
+const SanctionSchema = z.object({
+    playerId: PlayerIdSchema,
+    reason: z.string().max(500).optional(),
+    durationMinutes: z.number().positive().nullable().optional()
+});
+
+const toDurationMs = (minutes: number | null | undefined): number | null =>
+    minutes === undefined || minutes === null ? null : Math.round(minutes * 60 * 1000);
+
+/**
+ * GET /api/admin/moderation/reports
+ * Player reports with captured chat context, newest first
+ * Query: ?status=open|actioned|dismissed
+ */
+router.get('/moderation/reports', requireAdmin, async (req, res) => {
+    try {
+        const parsed = ReportQuerySchema.safeParse(req.query);
+        if (!parsed.success) {
+            return res.status(400).json({ error: 'Invalid status', details: formatZodError(parsed.error) });
+        }
+
+        const reports = await moderationService.getReports(parsed.data.status);
+        res.json({ success: true, data: { total: reports.length, reports } });
+    } catch (error) {
+        console.error('Failed to get reports:', error);
+        res.status(500).json({ error: 'Failed to get reports' });
+    }
+});
+
+/**
+ * POST /api/admin/moderation/reports/:reportId/resolve
+ * Body: { status: 'actioned' | 'dismissed', resolution?: string }
+ */
+router.post('/moderation/reports/:reportId/resolve', requireAdmin, async (req, res) => {
+    try {
+        const parsed = ResolveReportSchema.safeParse(req.body ?? {});
+        if (!parsed.success) {
+            return res.status(400).json({ error: 'status must be actioned or dismissed', details: formatZodError(parsed.error) });
+        }
+
+        const { status, resolution } = parsed.data;
+        const report = await moderationService.resolveReport(req.params.reportId, status, resolution || '', adminName(req));
+        if (!report) {
+            return res.status(404).json({ error: 'Report not found' });
+        }
+        res.json({ success: true, data: report });
+    } catch (error) {
+        console.error('Failed to resolve report:', error);
+        res.status(500).json({ error: 'Failed to resolve report' });
+    }
+});
+
+/**
+ * GET /api/admin/moderation/players/:playerId
+ * Active mute/ban, strike count and sanction history for a player
+ */
+router.get('/moderation/players/:playerId', requireAdmin, async (req, res) => {
+    try {
+        const { playerId } = req.params;
+        const ban = await moderationService.checkConnection(playerId);
+
+        res.json({
+            success: true,
+            data: {
+                playerId,
+                mute: moderationService.getActiveMute(playerId),
+                ban,
+                strikes: moderationService.getStrikeCount(playerId),
+                history: await moderationService.getSanctions(playerId)
+            }
+        });
+    } catch (error) {
+        console.error('Failed to get moderation summary:', error);
+        res.status(500).json({ error: 'Failed to get moderation summary' });
+    }
+});
+
+/**
+ * POST /api/admin/moderation/mutes
+ * Body: { playerId, reason?, durationMinutes? } - no (or null) duration = until lifted
+ */
+router.post('/moderation/mutes', requireAdmin, async (req, res) => {
+    try {
+        const parsed = SanctionSchema.safeParse(req.body ?? {});
+        if (!parsed.success) {
+            return res.status(400).json({ error: 'Invalid request', details: formatZodError(parsed.error) });
+        }
+
+        const { playerId, reason, durationMinutes } = parsed.data;
+        const sanction = moderationService.mute(playerId, toDurationMs(durationMinutes), reason || '', adminName(req));
+        res.json({ success: true, data: sanction });
+    } catch (error) {
+        console.error('Failed to mute player:', error);
+        res.status(500).json({ error: 'Failed to mute player' });
+    }
+});
+
+/**
+ * DELETE /api/admin/moderation/mutes/:playerId
+ */
+router.delete('/moderation/mutes/:playerId', requireAdmin, async (req, res) => {
+    try {
+        const lifted = await moderationService.unmute(req.params.playerId, adminName(req));
+        res.json({ success: true, data: { lifted } });
+    } catch (error) {
+        console.error('Failed to unmute player:', error);
+        res.status(500).json({ error: 'Failed to unmute player' });
+    }
+});
+
+/**
+ * POST /api/admin/moderation/bans
+ * Body: { playerId, reason?, durationMinutes? } - no (or null) duration = permanent
+ * Connected players are disconnected; bans are checked on every connection.
+ */
+router.post('/moderation/bans', requireAdmin, async (req, res) => {
+    try {
+        const parsed = SanctionSchema.safeParse(req.body ?? {});
+        if (!parsed.success) {
+            return res.status(400).json({ error: 'Invalid request', details: formatZodError(parsed.error) });
+        }
+
+        const { playerId, reason, durationMinutes } = parsed.data;
+        const sanction = moderationService.ban(playerId, toDurationMs(durationMinutes), reason || '', adminName(req));
+        res.json({ success: true, data: sanction });
+    } catch (error) {
+        console.error('Failed to ban player:', error);
+        res.status(500).json({ error: 'Failed to ban player' });
+    }
+});
+
+/**
+ * DELETE /api/admin/moderation/bans/:playerId
+ */
+router.delete('/moderation/bans/:playerId', requireAdmin, async (req, res) => {
+    try {
+        const lifted = await moderationService.unban(req.params.playerId, adminName(req));
+        res.json({ success: true, data: { lifted } });
+    } catch (error) {
+        console.error('Failed to unban player:', error);
+        res.status(500).json({ error: 'Failed to unban player' });
+    }
+});
+
+/**
+ * GET /api/admin/moderation/wordlists
+ * PUT /api/admin/moderation/wordlists - Body: { masked: string[], blocked: string[] }
+ * Replaces the lists until restart (MODERATION_WORDLIST_PATH is read at startup)
+ */
+router.get('/moderation/wordlists', requireAdmin, (_req, res) => {
+    res.json({ success: true, data: moderationService.getWordLists() });
+});
+
+router.put('/moderation/wordlists', requireAdmin, (req, res) => {
+    const { masked, blocked } = req.body || {};
+    const isList = (list: unknown) => Array.isArray(list) && list.every(w => typeof w === 'string' && w.length <= 64);
+    if (!isList(masked) || !isList(blocked)) {
+        return res.status(400).json({ error: 'masked and blocked must be string arrays' });
+    }
+
+    moderationService.setWordLists({ masked, blocked });
+    res.json({ success: true, data: moderationService.getWordLists() });
+});
+
+// ============================================
+// CURRENCY LEDGER
+// ============================================
+
+/**
+ * GET /api/admin/players/:playerId/currency
+ * Ledger history of a player's stardust and crystals, newest first, with
+ * each stored balance reconciled against the sum of its entries. Non-zero
+ * drift means a balance was changed outside the ledger.
+ * Query: ?currency=stardust|crystals&limit=100&before=<ISO date>
+ */
+router.get('/players/:playerId/currency', requireAdmin, async (req, res) => {
+    try {
+        const { playerId } = req.params;
+        const currency = req.query.currency as Currency | undefined;
+        if (currency && !CURRENCIES.includes(currency)) {
+            return res.status(400).json({ error: 'Invalid currency' });
+        }
+
+        const before = req.query.before ? new Date(req.query.before as string) : undefined;
+        if (before && isNaN(before.getTime())) {
+            return res.status(400).json({ error: 'Invalid before date' });
+        }
+
+        const limit = Math.min(parseInt(req.query.limit as string) || 100, 1000);
+        const account = playerAccount(playerId);
+
+        const [balances, history, player] = await Promise.all([
+            ledgerService.reconcile(account),
+            ledgerService.getHistory(account, { currency, limit, before }),
+            playerDataService.getPlayerData(playerId)
+        ]);
+
+        res.json({
+            success: true,
+            data: {
+                playerId,
+                balances,
+                drifted: balances.some(balance => balance.drift !== 0),
+                // The player record mirrors the stardust wallet
+                playerDataStardust: player?.stardust ?? null,
+                history
+            }
+        });
+    } catch (error) {
+        console.error('Failed to get currency history:', error);
+        res.status(500).json({ error: 'Failed to get currency history' });
+    }
+});
+
+// ============================================
+// QUEST CONTENT
+// ============================================
+
+/**
+ * GET /api/admin/quests - Loaded quest definitions
+ */
+router.get('/quests', requireAdmin, (_req, res) => {
+    const quests = questService.getAllQuests();
+    res.json({ success: true, data: { count: quests.length, quests } });
+});
+
+/**
+ * POST /api/admin/quests/reload
+ * Re-reads the quest content files. Content with issues is rejected and the
+ * current quests stay live; the issues are returned.
+ */
+router.post('/quests/reload', requireAdmin, async (_req, res) => {
+    try {
+        const result = await questService.reloadQuests();
+        res.status(result.success ? 200 : 422).json({ success: result.success, data: result });
+    } catch (error) {
+        console.error('Failed to reload quests:', error);
+        res.status(500).json({ error: 'Failed to reload quests' });
+    }
+});
+
+// ============================================
+// LOOT TABLES
+// ============================================
+
+/**
+ * POST /api/admin/loot/reload
+ * Re-reads the loot content files. Content with issues is rejected and the
+ * current tables stay live; the issues are returned.
+ */
+router.post('/loot/reload', requireAdmin, async (_req, res) => {
+    try {
+        const result = await mysteryBoxService.reloadTables();
+        res.status(result.success ? 200 : 422).json({ success: result.success, data: result });
+    } catch (error) {
+        console.error('Failed to reload loot tables:', error);
+        res.status(500).json({ error: 'Failed to reload loot tables' });
+    }
+});
+
+/**
+ * GET /api/admin/players/:playerId/loot-rolls - Logged box rolls, newest first
+ * Query: ?limit=50
+ */
+router.get('/players/:playerId/loot-rolls', requireAdmin, async (req, res) => {
+    try {
+        const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
+        const rolls = await mysteryBoxService.getRolls(req.params.playerId, limit);
+        res.json({ success: true, data: { count: rolls.length, rolls } });
+    } catch (error) {
+        console.error('Failed to get loot rolls:', error);
+        res.status(500).json({ error: 'Failed to get loot rolls' });
+    }
+});
+
+/**
+ * GET /api/admin/loot/rolls/:rollId/replay
+ * Rolls a logged box again from its seed against the content it was rolled
+ * from. `matches` is false when the logged result cannot be reproduced.
+ */
+router.get('/loot/rolls/:rollId/replay', requireAdmin, async (req, res) => {
+    try {
+        const replay = await mysteryBoxService.replayRoll(req.params.rollId);
+        if (!replay) {
+            return res.status(404).json({ error: 'Roll not found' });
+        }
+        res.json({ success: true, data: replay });
+    } catch (error) {
+        console.error('Failed to replay loot roll:', error);
+        res.status(500).json({ error: 'Failed to replay loot roll' });
+    }
+});
+
 export default router;
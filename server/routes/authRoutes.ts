@@ -0,0 +1,65 @@
+/**
+ * Auth Routes - Session tokens for the WebSocket handshake
+ * Clients exchange a player identity (or nothing, for a guest) for a
+ * short-lived signed token and present it as `?token=` on `/ws`.
+ */
+
+import { Router, Request, Response } from 'express';
+import rateLimit from 'express-rate-limit';
+import { z } from 'zod';
+import { sessionService } from '../services/SessionService.js';
+import { PlayerIdSchema, formatZodError } from '../middleware/validation.js';
+
+const router = Router();
+
+// Session creation is cheap to spam and guards identity claims
+const sessionLimiter = rateLimit({
+    windowMs: 60 * 1000,
+    max: 20,
+    message: { error: 'Too many session requests' }
+});
+
+const SessionRequestSchema = z.object({
+    playerId: PlayerIdSchema.optional(),
+    secret: z.string().min(1).max(200).optional()
+});
+
+/**
+ * POST /api/auth/session
+ * Body: { playerId?, secret? }
+ * - No playerId: guest session under a new server-generated id
+ * - Unused playerId: claims it, response includes `secret` (store it!)
+ * - Existing player without a credential: refused until issued a legacy secret
+ * - Claimed playerId: requires the matching secret; a legacy secret is
+ *   exchanged once for a new `secret` in the response
+ */
+router.post('/session', sessionLimiter, async (req: Request, res: Response) => {
+    try {
+        const parsed = SessionRequestSchema.safeParse(req.body ?? {});
+        if (!parsed.success) {
+            return res.status(400).json({ error: 'Invalid request', details: formatZodError(parsed.error) });
+        }
+
+        const { playerId, secret } = parsed.data;
+
+        if (!playerId) {
+            return res.json({ success: true, ...sessionService.createGuestSession() });
+        }
+
+        const result = await sessionService.createPlayerSession(playerId, secret);
+        if (!result.success) {
+            return res.status(401).json({ success: false, error: result.error });
+        }
+
+        res.json({
+            success: true,
+            ...result.session,
+            ...(result.secret ? { secret: result.secret } : {})
+        });
+    } catch (error) {
+        console.error('Session creation error:', error);
+        res.status(500).json({ error: 'Failed to create session' });
+    }
+});
+
+export default router;
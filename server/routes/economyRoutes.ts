@@ -5,6 +5,7 @@
 import { Router, Request, Response } from 'express';
 import { mysteryBoxService } from '../services/MysteryBoxService.js';
 import { cosmeticsService } from '../services/CosmeticsService.js';
+import { economyService } from '../services/EconomyService.js';
 
 const router = Router();
 
@@ -33,7 +34,7 @@ router.get('/boxes', async (req: Request, res: Response) => {
 router.get('/boxes/:tier', async (req: Request, res: Response) => {
     try {
         const { tier } = req.params;
-        const box = mysteryBoxService.getBoxConfig(tier as any);
+        const box = mysteryBoxService.getBoxConfig(tier);
         
         if (!box) {
             return res.status(404).json({ success: false, error: 'Box tier not found' });
@@ -46,25 +47,42 @@ router.get('/boxes/:tier', async (req: Request, res: Response) => {
     }
 });
 
+/**
+ * GET /api/economy/boxes/:tier/odds
+ * Published drop rates, computed from the loot tables the box rolls.
+ * With ?playerId= the rates leave out items that player already owns.
+ */
+router.get('/boxes/:tier/odds', async (req: Request, res: Response) => {
+    try {
+        const { tier } = req.params;
+        const playerId = typeof req.query.playerId === 'string' ? req.query.playerId : undefined;
+        const odds = await mysteryBoxService.getDropRates(tier, playerId);
+
+        if (!odds) {
+            return res.status(404).json({ success: false, error: 'Box tier not found' });
+        }
+
+        res.json({ success: true, ...odds });
+    } catch (error) {
+        console.error('Error fetching drop rates:', error);
+        res.status(500).json({ success: false, error: 'Failed to fetch drop rates' });
+    }
+});
+
 /**
  * POST /api/economy/boxes/:tier/open
- * Open a mystery box (requires payment verification)
+ * Open a mystery box, paid from the player's wallet
  */
 router.post('/boxes/:tier/open', async (req: Request, res: Response) => {
     try {
         const { tier } = req.params;
-        const { playerId, paymentVerified } = req.body;
+        const { playerId } = req.body;
 
         if (!playerId) {
             return res.status(400).json({ success: false, error: 'Player ID required' });
         }
 
-        // In production, payment verification should happen server-side
-        if (!paymentVerified) {
-            return res.status(400).json({ success: false, error: 'Payment not verified' });
-        }
-
-        const result = await mysteryBoxService.openBox(playerId, tier as any);
+        const result = await economyService.openMysteryBox(playerId, tier);
         res.json(result);
     } catch (error) {
         console.error('Error opening mystery box:', error);
@@ -79,7 +97,7 @@ router.post('/boxes/:tier/open', async (req: Request, res: Response) => {
 router.get('/boxes/:tier/pity/:playerId', async (req: Request, res: Response) => {
     try {
         const { tier, playerId } = req.params;
-        const pityProgress = await mysteryBoxService.getPityProgress(playerId, tier as any);
+        const pityProgress = await mysteryBoxService.getPityProgress(playerId, tier);
         res.json({ success: true, pityProgress });
     } catch (error) {
         console.error('Error fetching pity progress:', error);
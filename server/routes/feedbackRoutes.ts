@@ -4,10 +4,14 @@
  */
 
 import express, { Router, Request, Response } from 'express';
-import { Feedback } from '../database/models.js';
+import { Feedback, IFeedback } from '../database/models.js';
+import { persistence } from '../persistence/index.js';
+import type { Stored } from '../persistence/index.js';
 
 const router: Router = express.Router();
 
+const feedbackEntries = persistence.repository<Stored<IFeedback>>(Feedback);
+
 // Rate limiting tracking (simple in-memory, consider Redis for production)
 const feedbackRateLimits = new Map<string, { count: number; resetAt: number }>();
 const MAX_FEEDBACK_PER_HOUR = 5;
@@ -99,7 +103,7 @@ router.post('/submit', async (req: Request, res: Response) => {
             : null;
         
         // Create feedback entry
-        const feedback = new Feedback({
+        const feedback = await feedbackEntries.insert({
             playerId,
             playerName: playerName.slice(0, 30),
             category,
@@ -120,8 +124,6 @@ router.post('/submit', async (req: Request, res: Response) => {
             adminNotes: ''
         });
         
-        await feedback.save();
-        
         console.log(`[Feedback] New ${category} from ${playerName} (${playerId})`);
         
         return res.status(201).json({
@@ -154,11 +156,11 @@ router.get('/my-submissions', async (req: Request, res: Response) => {
             });
         }
         
-        const submissions = await Feedback.find({ playerId })
-            .select('category message rating status createdAt')
-            .sort({ createdAt: -1 })
-            .limit(20)
-            .lean();
+        const submissions = await feedbackEntries.find({ playerId }, {
+            fields: ['category', 'message', 'rating', 'status', 'createdAt'],
+            sort: { createdAt: -1 },
+            limit: 20
+        });
         
         return res.status(200).json({
             success: true,
@@ -180,26 +182,23 @@ router.get('/my-submissions', async (req: Request, res: Response) => {
  */
 router.get('/stats', async (req: Request, res: Response) => {
     try {
-        const [total, byCategory, byStatus, avgRating] = await Promise.all([
-            Feedback.countDocuments(),
-            Feedback.aggregate([
-                { $group: { _id: '$category', count: { $sum: 1 } } }
-            ]),
-            Feedback.aggregate([
-                { $group: { _id: '$status', count: { $sum: 1 } } }
-            ]),
-            Feedback.aggregate([
-                { $group: { _id: null, avgRating: { $avg: '$rating' } } }
-            ])
-        ]);
+        const entries = await feedbackEntries.find({}, { fields: ['category', 'status', 'rating'] });
+        const byCategory: Record<string, number> = {};
+        const byStatus: Record<string, number> = {};
+        let ratingSum = 0;
+        for (const entry of entries) {
+            byCategory[entry.category] = (byCategory[entry.category] || 0) + 1;
+            byStatus[entry.status] = (byStatus[entry.status] || 0) + 1;
+            ratingSum += entry.rating;
+        }
         
         return res.status(200).json({
             success: true,
             stats: {
-                total,
-                byCategory: Object.fromEntries(byCategory.map((c: { _id: string; count: number }) => [c._id, c.count])),
-                byStatus: Object.fromEntries(byStatus.map((s: { _id: string; count: number }) => [s._id, s.count])),
-                averageRating: avgRating[0]?.avgRating?.toFixed(2) || '0.00'
+                total: entries.length,
+                byCategory,
+                byStatus,
+                averageRating: entries.length > 0 ? (ratingSum / entries.length).toFixed(2) : '0.00'
             }
         });
         
@@ -292,19 +292,19 @@ router.post('/quests/:playerId/progress', async (req: Request, res: Response) =>
 router.post('/quests/:playerId/claim', async (req: Request, res: Response) => {
     try {
         const { playerId } = req.params;
-        const { questId } = req.body;
+        const { questId, choiceId } = req.body;
         
         if (!questId) {
             return res.status(400).json({ error: 'Missing questId' });
         }
         
-        const result = await questService.claimQuestReward(playerId, questId);
+        const result = await questService.claimQuestReward(playerId, questId, choiceId);
         
         if (!result.success) {
             return res.status(400).json({ error: result.error });
         }
         
-        res.json({ success: true, rewards: result.rewards });
+        res.json({ success: true, rewards: result.rewards, choiceId: result.choiceId });
     } catch (error) {
         console.error('[Quests] Error claiming reward:', error);
         res.status(500).json({ error: 'Failed to claim quest reward' });
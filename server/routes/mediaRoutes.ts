@@ -247,8 +247,7 @@ router.get('/recordings/:recordingId', async (req: Request, res: Response) => {
         const playerId = req.headers['x-player-id'] as string;
 
         // Find the recording
-        const { Recording } = await import('../services/MediaStorageService.js');
-        const recording = await Recording.findOne({ recordingId }).lean() as any;
+        const recording = await mediaStorageService.getRecording(recordingId);
 
         if (!recording) {
             return res.status(404).json({ success: false, error: 'Recording not found' });
@@ -410,8 +409,7 @@ router.get('/file/:recordingId', async (req: Request, res: Response) => {
         const { recordingId } = req.params;
         const playerId = req.headers['x-player-id'] as string;
 
-        const { Recording } = await import('../services/MediaStorageService.js');
-        const recording = await Recording.findOne({ recordingId, status: 'ready' }).lean() as any;
+        const recording = await mediaStorageService.getRecording(recordingId, 'ready');
 
         if (!recording) {
             return res.status(404).json({ success: false, error: 'Recording not found' });
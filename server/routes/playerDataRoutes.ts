@@ -3,6 +3,7 @@ import { Router, Request, Response } from 'express';
 import rateLimit from 'express-rate-limit';
 import { z } from 'zod';
 import { playerDataService } from '../services/PlayerDataService.js';
+import { leaderboardService } from '../services/LeaderboardService.js';
 
 const router = Router();
 
@@ -349,8 +350,8 @@ router.get('/leaderboards/:type', async (req: Request, res: Response) => {
             return res.status(400).json({ error: 'Invalid leaderboard type' });
         }
         
-        const data = await playerDataService.getLeaderboard(type as any, limit);
-        res.json(data);
+        const leaderboard = await leaderboardService.getLeaderboard(type as any, limit);
+        res.json(leaderboard.entries);
     } catch (error) {
         res.status(500).json({ error: 'Failed to get leaderboard' });
     }
@@ -365,8 +366,8 @@ router.get('/leaderboards/:type/rank/:playerId', async (req: Request, res: Respo
             return res.status(400).json({ error: 'Invalid leaderboard type' });
         }
         
-        const rank = await playerDataService.getPlayerRank(playerId, type as any);
-        res.json({ rank });
+        const rankInfo = await leaderboardService.getPlayerRank(playerId, type as any);
+        res.json({ rank: rankInfo ? rankInfo.rank : -1 });
     } catch (error) {
         res.status(500).json({ error: 'Failed to get player rank' });
     }
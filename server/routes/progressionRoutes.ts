@@ -71,7 +71,11 @@ router.post('/challenges/daily/:playerId/claim/:challengeId', progressionLimiter
         
         if (result.success && result.reward) {
             // Apply rewards to player
-            await progressionService.addStardust(playerId, result.reward.stardust);
+            await progressionService.addStardust(playerId, result.reward.stardust, {
+                source: 'challenge',
+                reason: 'daily_challenge',
+                idempotencyKey: `daily_challenge:${playerId}:${challengeId}`
+            });
         }
         
         res.json(result);
@@ -160,11 +164,11 @@ router.post('/progression/:playerId/stardust', progressionLimiter, async (req: R
         const { playerId } = req.params;
         const { amount } = req.body;
         
-        if (typeof amount !== 'number') {
-            return res.status(400).json({ error: 'Amount required' });
+        if (!Number.isInteger(amount) || amount <= 0) {
+            return res.status(400).json({ error: 'Valid amount required' });
         }
         
-        const newTotal = await progressionService.addStardust(playerId, amount);
+        const newTotal = await progressionService.addStardust(playerId, amount, { source: 'api', reason: 'credit' });
         res.json({ success: true, stardust: newTotal });
     } catch (error) {
         console.error('Error adding stardust:', error);
@@ -177,11 +181,11 @@ router.post('/progression/:playerId/spend-stardust', progressionLimiter, async (
         const { playerId } = req.params;
         const { amount } = req.body;
         
-        if (typeof amount !== 'number' || amount <= 0) {
+        if (!Number.isInteger(amount) || amount <= 0) {
             return res.status(400).json({ error: 'Valid amount required' });
         }
         
-        const result = await progressionService.spendStardust(playerId, amount);
+        const result = await progressionService.spendStardust(playerId, amount, { source: 'api', reason: 'spend' });
         res.json(result);
     } catch (error) {
         console.error('Error spending stardust:', error);
@@ -424,7 +428,7 @@ router.post('/guilds/:guildId/contribute', progressionLimiter, async (req: Reque
     try {
         const { playerId, stardust } = req.body;
         
-        if (!playerId || typeof stardust !== 'number' || stardust <= 0) {
+        if (!playerId || !Number.isInteger(stardust) || stardust <= 0) {
             return res.status(400).json({ error: 'Player ID and valid stardust amount required' });
         }
         
@@ -6,6 +6,7 @@ import { Router, Request, Response } from 'express';
 import { realmStatsService } from '../services/RealmStatsService.js';
 import { beaconService } from '../services/BeaconService.js';
 import { explorationService } from '../services/ExplorationService.js';
+import { websocketHandler } from '../websocket/WebSocketHandler.js';
 
 const router = Router();
 
@@ -337,4 +338,18 @@ router.get('/:realm/biomes', async (req: Request, res: Response) => {
     }
 });
 
+/**
+ * GET /api/realms/:realm/shard
+ * Which server hosts a realm (url null: connect to this server)
+ */
+router.get('/:realm/shard', (req: Request, res: Response) => {
+    try {
+        const { realm } = req.params;
+        res.json({ success: true, ...websocketHandler.getRealmRoute(realm) });
+    } catch (error) {
+        console.error('Error routing realm:', error);
+        res.status(500).json({ success: false, error: 'Failed to route realm' });
+    }
+});
+
 export default router;
@@ -399,13 +399,17 @@ router.get('/economy/crystals/:playerId', async (req: Request, res: Response) =>
 router.post('/economy/crystals/:playerId/add', async (req: Request, res: Response) => {
     try {
         const { playerId } = req.params;
-        const { amount, source } = req.body;
+        const { amount, source, idempotencyKey } = req.body;
 
-        if (typeof amount !== 'number' || amount <= 0) {
+        if (!Number.isInteger(amount) || amount <= 0) {
             return res.status(400).json({ error: 'Valid amount required' });
         }
 
-        const newBalance = await economyService.addCrystals(playerId, amount, source || 'api');
+        // A receipt or order id as the key keeps a retried grant from paying twice
+        const newBalance = await economyService.addCrystals(
+            playerId, amount, source || 'api',
+            typeof idempotencyKey === 'string' ? idempotencyKey : undefined
+        );
         res.json({ success: true, crystals: newBalance });
     } catch (error) {
         console.error('Error adding crystals:', error);
@@ -0,0 +1,106 @@
+// =============================================================================
+// benchmarkTick - What one game tick costs with a crowded realm
+// =============================================================================
+// Usage: npm run bench:tick [-- <players> <ticks>]
+// Connects <players> (default 500) simulated players to one realm, spread
+// over the world, then runs <ticks> (default 200) game ticks with every
+// player moving and acknowledging its world deltas each tick. Reports the
+// time spent handling the moves and running the tick, which includes bots,
+// constellations and building every player's world_delta.
+// =============================================================================
+
+import { performance } from 'perf_hooks';
+import { Simulation, FakeSocket } from '../websocket/testing/index.js';
+import { seededRandom } from '../websocket/runtime/index.js';
+import { sessionService } from '../services/SessionService.js';
+import { REALMS } from '../common/realms.js';
+
+const PLAYERS = Number(process.argv[2]) || 500;
+const TICKS = Number(process.argv[3]) || 200;
+const WARMUP_TICKS = 20;
+const REALM = 'genesis';
+const WORLD_SIZE = 8000;
+const STEP = 60;    // World units per tick, well inside the speed limit
+
+/**
+ * Keeps the last world_delta instead of every message, so hundreds of
+ * clients don't fill memory
+ */
+class BenchSocket extends FakeSocket {
+    lastDelta: string | null = null;
+    bytes = 0;
+
+    send(data: string | Uint8Array): void {
+        if (this.readyState !== 1) return;
+        this.bytes += typeof data === 'string' ? Buffer.byteLength(data) : data.byteLength;
+        if (typeof data === 'string' && data.startsWith('{"type":"world_delta"')) this.lastDelta = data;
+    }
+}
+
+function percentile(sorted: number[], p: number): number {
+    return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))];
+}
+
+const log = console.log;
+console.log = () => {};
+console.warn = () => {};
+
+// One realm well past its usual capacity is the point of the exercise
+REALMS[REALM].capacity = Math.max(REALMS[REALM].capacity, PLAYERS);
+
+const random = seededRandom(42);
+const sim = new Simulation({ seed: 42, createSocket: () => new BenchSocket() });
+const players = Array.from({ length: PLAYERS }, (_, i) => {
+    const playerId = `bench_${i}`;
+    const position = { x: 100 + random() * (WORLD_SIZE - 200), y: 100 + random() * (WORLD_SIZE - 200) };
+    const resume = sessionService.issueResumeToken({ sub: playerId, realm: REALM, ...position });
+    return { sim: sim.connect(playerId, REALM, { resume }), ...position, heading: random() * Math.PI * 2 };
+});
+await sim.settle();
+
+const inputTimes: number[] = [];
+const tickTimes: number[] = [];
+let bytes = 0;
+
+for (let tick = 0; tick < WARMUP_TICKS + TICKS; tick++) {
+    const inputStarted = performance.now();
+    for (const player of players) {
+        player.heading += (random() - 0.5) * 0.5;
+        player.x = Math.max(100, Math.min(WORLD_SIZE - 100, player.x + Math.cos(player.heading) * STEP));
+        player.y = Math.max(100, Math.min(WORLD_SIZE - 100, player.y + Math.sin(player.heading) * STEP));
+        player.sim.send('player_update', { x: player.x, y: player.y });
+    }
+    const tickStarted = performance.now();
+    sim.tick();
+    const tickEnded = performance.now();
+
+    if (tick >= WARMUP_TICKS) {
+        inputTimes.push(tickStarted - inputStarted);
+        tickTimes.push(tickEnded - tickStarted);
+    }
+
+    // Acknowledge like a real client, so deltas stay deltas (not timed)
+    for (const player of players) {
+        const socket = player.sim.socket as BenchSocket;
+        const acked = socket.lastDelta?.match(/"tick":(\d+)/);
+        if (acked) player.sim.send('world_state_ack', { tick: Number(acked[1]) });
+        if (tick >= WARMUP_TICKS) bytes += socket.bytes;
+        socket.bytes = 0;
+    }
+    await sim.settle();
+}
+
+const connected = sim.handler.players.size;
+const bots = sim.handler.getBotStats().bots;
+await sim.shutdown();
+
+const sortedTicks = [...tickTimes].sort((a, b) => a - b);
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+log(`Tick benchmark: ${connected} players and ${bots} bots in ${REALM}, ${TICKS} ticks`);
+log(`  player input  ${mean(inputTimes).toFixed(2)} ms/tick`);
+log(`  game tick     mean ${mean(tickTimes).toFixed(2)} ms, p50 ${percentile(sortedTicks, 0.5).toFixed(2)} ms, p95 ${percentile(sortedTicks, 0.95).toFixed(2)} ms, max ${sortedTicks[sortedTicks.length - 1].toFixed(2)} ms`);
+log(`  budget        ${(mean(tickTimes) + mean(inputTimes)).toFixed(2)} of ${sim.tickMs} ms per tick`);
+log(`  sent          ${(bytes / TICKS / connected / 1024).toFixed(2)} KiB per player per tick`);
+
+process.exit(0);
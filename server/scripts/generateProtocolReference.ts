@@ -0,0 +1,25 @@
+// =============================================================================
+// generateProtocolReference - Write the realtime protocol reference
+// =============================================================================
+// Usage: npm run protocol:reference [-- --check]
+// With --check, exits non-zero when the committed reference is out of date.
+// =============================================================================
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+import { renderProtocolReference } from '../common/protocol/index.js';
+
+const target = fileURLToPath(new URL('../common/protocol/REFERENCE.md', import.meta.url));
+const rendered = renderProtocolReference();
+
+if (process.argv.includes('--check')) {
+    const committed = await readFile(target, 'utf8').catch(() => '');
+    if (committed !== rendered) {
+        console.error(`✗ ${target} is out of date - run npm run protocol:reference`);
+        process.exit(1);
+    }
+    console.log(`✓ ${target} is up to date`);
+} else {
+    await writeFile(target, rendered);
+    console.log(`✓ Wrote ${target}`);
+}
@@ -0,0 +1,42 @@
+// =============================================================================
+// issueLegacySecrets - Let players from before credentials claim their identity
+// =============================================================================
+// Usage: npm run auth:legacy-secrets -- <output.csv>
+// Issues a one-time legacy secret to every player with game data but no
+// credential, and writes `playerId,secret` lines for operators to deliver.
+// A player redeems theirs by opening `<client url>/?player=<playerId>&claim=<secret>`.
+// The file is only readable by its owner; delete it once delivered.
+// Players who already have a credential are skipped, so reruns are safe.
+// =============================================================================
+
+import dotenv from 'dotenv';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { persistence, loadPersistenceConfig } from '../persistence/index.js';
+import { sessionService } from '../services/SessionService.js';
+
+dotenv.config({ path: path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../../.env') });
+
+const output = process.argv[2];
+if (!output) {
+    console.error('Usage: npm run auth:legacy-secrets -- <output.csv>');
+    process.exit(1);
+}
+
+// Open the file first: a secret that was issued but never written is lost
+const file = fs.openSync(output, 'wx', 0o600);
+await persistence.init(loadPersistenceConfig());
+
+let issued = 0;
+for (const playerId of await sessionService.findUncredentialedPlayers()) {
+    const secret = await sessionService.issueLegacySecret(playerId);
+    if (!secret) continue;
+    fs.writeSync(file, `${playerId},${secret}\n`);
+    issued++;
+}
+
+fs.closeSync(file);
+await persistence.shutdown();
+
+console.log(`✓ Issued ${issued} legacy secret(s) to ${output}`);
@@ -0,0 +1,32 @@
+// =============================================================================
+// validateLoot - Check loot content files before they ship
+// =============================================================================
+// Usage: npm run validate:loot [-- <dir>]
+// Prints each box's drop rates so a change to the odds shows up in review.
+// Exits non-zero when any file has issues, so it can gate CI.
+// =============================================================================
+
+import { loadLootDirectory, LootTableSet, DEFAULT_LOOT_DIR } from '../services/LootTables.js';
+
+const dir = process.argv[2] || DEFAULT_LOOT_DIR;
+const result = await loadLootDirectory(dir);
+
+for (const issue of result.issues) {
+    const where = [issue.file, issue.id].filter(Boolean).join(' ') || dir;
+    console.error(`✗ ${where}: ${issue.message}`);
+}
+
+if (result.issues.length > 0) {
+    console.error(`\n${result.issues.length} issue(s) in ${dir}`);
+    process.exit(1);
+}
+
+const tables = new LootTableSet(result.content);
+for (const box of tables.allBoxes()) {
+    console.log(`\n${box.name} (${box.id})`);
+    for (const rate of tables.boxOdds(box.id)) {
+        console.log(`  ${(rate.chance * 100).toFixed(2).padStart(6)}%  ${rate.rarity.padEnd(9)} ${rate.type} ${rate.value}`);
+    }
+}
+
+console.log(`\n✓ ${tables.boxCount} boxes in ${result.files.length} file(s) are valid (version ${tables.version})`);
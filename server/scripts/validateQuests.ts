@@ -0,0 +1,23 @@
+// =============================================================================
+// validateQuests - Check quest content files before they ship
+// =============================================================================
+// Usage: npm run validate:quests [-- <dir>]
+// Exits non-zero when any file has issues, so it can gate CI.
+// =============================================================================
+
+import { loadQuestDirectory, DEFAULT_QUEST_DIR } from '../services/QuestCatalog.js';
+
+const dir = process.argv[2] || DEFAULT_QUEST_DIR;
+const result = await loadQuestDirectory(dir);
+
+for (const issue of result.issues) {
+    const where = [issue.file, issue.questId].filter(Boolean).join(' ') || dir;
+    console.error(`✗ ${where}: ${issue.message}`);
+}
+
+if (result.issues.length > 0) {
+    console.error(`\n${result.issues.length} issue(s) in ${dir}`);
+    process.exit(1);
+}
+
+console.log(`✓ ${result.quests.length} quests in ${result.files.length} file(s) are valid`);
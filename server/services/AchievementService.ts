@@ -2,7 +2,8 @@
 // Tracks player accomplishments across all game systems
 
 import mongoose, { Schema, Document, Model } from 'mongoose';
-import { mongoPersistence } from './MongoPersistenceService.js';
+import { persistence } from '../persistence/index.js';
+import type { Stored, Repository } from '../persistence/index.js';
 
 // ============================================
 // DATABASE MODELS
@@ -77,6 +78,8 @@ const PlayerAchievementsSchema = new Schema<IPlayerAchievements>({
 
 export const PlayerAchievements: Model<IPlayerAchievements> = mongoose.model<IPlayerAchievements>('PlayerAchievements', PlayerAchievementsSchema);
 
+export type PlayerAchievementsRecord = Stored<IPlayerAchievements>;
+
 // ============================================
 // ACHIEVEMENT DEFINITIONS
 // ============================================
@@ -380,7 +383,11 @@ const ACHIEVEMENT_RANKS = [
 
 export class AchievementService {
     private initialized: boolean = false;
-    private memoryStore: Map<string, IPlayerAchievements> = new Map();
+    private records: Repository<PlayerAchievementsRecord>;
+
+    constructor(options: { repository?: Repository<PlayerAchievementsRecord> } = {}) {
+        this.records = options.repository || persistence.repository<PlayerAchievementsRecord>(PlayerAchievements);
+    }
 
     async init(): Promise<void> {
         if (this.initialized) return;
@@ -392,67 +399,18 @@ export class AchievementService {
         return this.initialized;
     }
 
-    private useMongo(): boolean {
-        return mongoPersistence.isReady();
-    }
-
-    private async saveAchievements(data: IPlayerAchievements | any): Promise<void> {
-        if (this.useMongo() && typeof data.save === 'function') {
-            await data.save();
-        } else {
-            // In-memory save
-            this.memoryStore.set(data.playerId, data);
-        }
+    private async saveAchievements(data: PlayerAchievementsRecord): Promise<void> {
+        await this.records.save({ playerId: data.playerId }, data);
     }
 
     // ========================================
     // DATA ACCESS
     // ========================================
 
-    async getPlayerAchievements(playerId: string): Promise<IPlayerAchievements> {
-        if (this.useMongo()) {
-            let data = await PlayerAchievements.findOne({ playerId });
-
-            if (!data) {
-                data = new PlayerAchievements({
-                    playerId,
-                    achievements: [],
-                    unlockedIds: [],
-                    categoryProgress: {},
-                    badges: [],
-                    hiddenDiscovered: [],
-                    achievementPoints: 0,
-                    achievementRank: 'novice',
-                    displayBadge: null,
-                    totalUnlocked: 0,
-                    lastUnlocked: null
-                });
-                await this.saveAchievements(data);
-            }
-            return data;
-        } else {
-            // In-memory fallback
-            let data = this.memoryStore.get(playerId);
-            if (!data) {
-                data = {
-                    playerId,
-                    achievements: [],
-                    unlockedIds: [],
-                    categoryProgress: {},
-                    badges: [],
-                    hiddenDiscovered: [],
-                    achievementPoints: 0,
-                    achievementRank: 'novice',
-                    displayBadge: null,
-                    totalUnlocked: 0,
-                    lastUnlocked: null,
-                    createdAt: new Date(),
-                    updatedAt: new Date()
-                } as any;
-                this.memoryStore.set(playerId, data!);
-            }
-            return data!;
-        }
+    async getPlayerAchievements(playerId: string): Promise<PlayerAchievementsRecord> {
+        // Schema defaults fill in a new record
+        return (await this.records.findOne({ playerId }))
+            || (await this.records.update({ playerId }, { $setOnInsert: { playerId } }, { upsert: true }))!;
     }
 
     // ========================================
@@ -682,11 +640,7 @@ export class AchievementService {
         achievementRank: string;
         totalUnlocked: number;
     }[]> {
-        const topPlayers = await PlayerAchievements
-            .find({})
-            .sort({ achievementPoints: -1 })
-            .limit(limit)
-            .lean();
+        const topPlayers = await this.records.find({}, { sort: { achievementPoints: -1 }, limit });
 
         return topPlayers.map((player, index) => ({
             rank: index + 1,
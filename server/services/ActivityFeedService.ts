@@ -2,6 +2,8 @@ import { EventEmitter } from 'events';
 import mongoose, { Schema, Document, Model } from 'mongoose';
 import { friendshipService } from './FriendshipService.js';
 import { PlayerData } from '../database/playerDataModel.js';
+import { persistence } from '../persistence/index.js';
+import type { Stored, Repository } from '../persistence/index.js';
 
 // ==========================================
 // Activity Feed Model
@@ -38,6 +40,10 @@ FriendActivitySchema.index({ timestamp: 1 }, { expireAfterSeconds: 7 * 24 * 60 *
 
 const FriendActivity: Model<IFriendActivity> = mongoose.model<IFriendActivity>('FriendActivity', FriendActivitySchema);
 
+export type FriendActivityRecord = Stored<IFriendActivity>;
+
+const NEWEST_FIRST = { timestamp: -1 } as const;
+
 // ==========================================
 // Activity Feed Service
 // ==========================================
@@ -71,6 +77,12 @@ interface ActivityFeedItem {
 
 class ActivityFeedService extends EventEmitter {
   private readonly MAX_FEED_SIZE = 100;
+  private activities: Repository<FriendActivityRecord>;
+
+  constructor(options: { repository?: Repository<FriendActivityRecord> } = {}) {
+    super();
+    this.activities = options.repository || persistence.repository<FriendActivityRecord>(FriendActivity);
+  }
 
   async initialize(): Promise<void> {
     console.log('📰 Activity Feed Service initialized');
@@ -86,10 +98,10 @@ class ActivityFeedService extends EventEmitter {
     playerAvatar: string,
     activityType: IFriendActivity['activityType'],
     data: ActivityData = {}
-  ): Promise<IFriendActivity> {
+  ): Promise<FriendActivityRecord> {
     const activityId = `act_${playerId}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
-    const activity = new FriendActivity({
+    const activity = await this.activities.insert({
       activityId,
       playerId,
       playerName,
@@ -99,8 +111,6 @@ class ActivityFeedService extends EventEmitter {
       timestamp: new Date()
     });
 
-    await activity.save();
-
     // Broadcast to friends
     this.broadcastToFriends(playerId, activity);
 
@@ -194,7 +204,7 @@ class ActivityFeedService extends EventEmitter {
   async recordOnline(playerId: string, playerName: string, avatar: string): Promise<void> {
     // Only record online if not already recorded in last hour
     const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000);
-    const recentOnline = await FriendActivity.findOne({
+    const recentOnline = await this.activities.findOne({
       playerId,
       activityType: 'online',
       timestamp: { $gte: oneHourAgo }
@@ -218,23 +228,19 @@ class ActivityFeedService extends EventEmitter {
       return [];
     }
 
-    const activities = await FriendActivity.find({ playerId: { $in: friendIds } })
-      .sort({ timestamp: -1 })
-      .limit(limit);
+    const activities = await this.activities.find({ playerId: { $in: friendIds } }, { sort: NEWEST_FIRST, limit });
 
     return activities.map(a => this.formatActivity(a));
   }
 
   async getPlayerActivities(playerId: string, limit: number = 20): Promise<ActivityFeedItem[]> {
-    const activities = await FriendActivity.find({ playerId })
-      .sort({ timestamp: -1 })
-      .limit(limit);
+    const activities = await this.activities.find({ playerId }, { sort: NEWEST_FIRST, limit });
 
     return activities.map(a => this.formatActivity(a));
   }
 
   async getActivityById(activityId: string): Promise<ActivityFeedItem | null> {
-    const activity = await FriendActivity.findOne({ activityId });
+    const activity = await this.activities.findOne({ activityId });
     if (!activity) return null;
     return this.formatActivity(activity);
   }
@@ -243,9 +249,7 @@ class ActivityFeedService extends EventEmitter {
     activityType: IFriendActivity['activityType'],
     limit: number = 20
   ): Promise<ActivityFeedItem[]> {
-    const activities = await FriendActivity.find({ activityType })
-      .sort({ timestamp: -1 })
-      .limit(limit);
+    const activities = await this.activities.find({ activityType }, { sort: NEWEST_FIRST, limit });
 
     return activities.map(a => this.formatActivity(a));
   }
@@ -262,7 +266,7 @@ class ActivityFeedService extends EventEmitter {
   }> {
     const sevenDaysAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
     
-    const activities = await FriendActivity.find({ playerId });
+    const activities = await this.activities.find({ playerId });
     const recentActivities = activities.filter(a => a.timestamp >= sevenDaysAgo);
 
     const byType: Record<string, number> = {};
@@ -287,7 +291,7 @@ class ActivityFeedService extends EventEmitter {
   // Private Methods
   // ==========================================
 
-  private formatActivity(activity: IFriendActivity): ActivityFeedItem {
+  private formatActivity(activity: FriendActivityRecord): ActivityFeedItem {
     return {
       id: activity.activityId,
       playerId: activity.playerId,
@@ -310,7 +314,7 @@ class ActivityFeedService extends EventEmitter {
     return `${Math.floor(seconds / 604800)}w ago`;
   }
 
-  private broadcastToFriends(playerId: string, activity: IFriendActivity): void {
+  private broadcastToFriends(playerId: string, activity: FriendActivityRecord): void {
     this.emit('activity_created', {
       playerId,
       activity: this.formatActivity(activity)
@@ -323,8 +327,7 @@ class ActivityFeedService extends EventEmitter {
 
   async cleanupOldActivities(daysOld: number = 30): Promise<number> {
     const cutoffDate = new Date(Date.now() - daysOld * 24 * 60 * 60 * 1000);
-    const result = await FriendActivity.deleteMany({ timestamp: { $lt: cutoffDate } });
-    return result.deletedCount;
+    return this.activities.deleteMany({ timestamp: { $lt: cutoffDate } });
   }
 }
 
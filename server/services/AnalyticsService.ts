@@ -2,6 +2,9 @@
 // For admin dashboards and player statistics
 
 import mongoose, { Schema, Document, Model } from 'mongoose';
+import { isRealmId } from '../common/realms.js';
+import { persistence } from '../persistence/index.js';
+import type { Stored, Repository } from '../persistence/index.js';
 
 // ============================================
 // DATABASE MODELS
@@ -142,6 +145,10 @@ export interface IGlobalAnalytics extends Document {
         void: number;
         starforge: number;
         sanctuary: number;
+        abyss: number;
+        crystal: number;
+        celestial: number;
+        tagarena: number;
     };
 
     createdAt: Date;
@@ -181,7 +188,11 @@ const GlobalAnalyticsSchema = new Schema<IGlobalAnalytics>({
         nebula: { type: Number, default: 0 },
         void: { type: Number, default: 0 },
         starforge: { type: Number, default: 0 },
-        sanctuary: { type: Number, default: 0 }
+        sanctuary: { type: Number, default: 0 },
+        abyss: { type: Number, default: 0 },
+        crystal: { type: Number, default: 0 },
+        celestial: { type: Number, default: 0 },
+        tagarena: { type: Number, default: 0 }
     }
 }, {
     timestamps: true,
@@ -190,6 +201,9 @@ const GlobalAnalyticsSchema = new Schema<IGlobalAnalytics>({
 
 export const GlobalAnalytics: Model<IGlobalAnalytics> = mongoose.model<IGlobalAnalytics>('GlobalAnalytics', GlobalAnalyticsSchema);
 
+export type PlayerAnalyticsRecord = Stored<IPlayerAnalytics>;
+export type GlobalAnalyticsRecord = Stored<IGlobalAnalytics>;
+
 // ============================================
 // ANALYTICS SERVICE CLASS
 // ============================================
@@ -200,6 +214,16 @@ function getTodayString(): string {
 
 export class AnalyticsService {
     private initialized: boolean = false;
+    private players: Repository<PlayerAnalyticsRecord>;
+    private days: Repository<GlobalAnalyticsRecord>;
+
+    constructor(options: {
+        players?: Repository<PlayerAnalyticsRecord>;
+        days?: Repository<GlobalAnalyticsRecord>;
+    } = {}) {
+        this.players = options.players || persistence.repository<PlayerAnalyticsRecord>(PlayerAnalytics);
+        this.days = options.days || persistence.repository<GlobalAnalyticsRecord>(GlobalAnalytics);
+    }
 
     async init(): Promise<void> {
         if (this.initialized) return;
@@ -215,18 +239,21 @@ export class AnalyticsService {
     // PLAYER ANALYTICS
     // ========================================
 
-    async getOrCreatePlayerAnalytics(playerId: string): Promise<IPlayerAnalytics> {
-        let analytics = await PlayerAnalytics.findOne({ playerId });
+    private async savePlayer(analytics: PlayerAnalyticsRecord): Promise<void> {
+        await this.players.save({ playerId: analytics.playerId }, analytics);
+    }
+
+    async getOrCreatePlayerAnalytics(playerId: string): Promise<PlayerAnalyticsRecord> {
+        let analytics = await this.players.findOne({ playerId });
 
         if (!analytics) {
-            analytics = new PlayerAnalytics({
+            analytics = await this.players.insert({
                 playerId,
                 firstPlayDate: new Date(),
                 lastActiveDate: new Date(),
                 daysActive: 1,
                 currentStreak: 1
             });
-            await analytics.save();
 
             // Track new user globally
             await this.incrementGlobalStat('newUsers', 1);
@@ -268,7 +295,7 @@ export class AnalyticsService {
         analytics.lastActiveDate = now;
         analytics.daysActive++;
 
-        await analytics.save();
+        await this.savePlayer(analytics);
 
         // Track global session
         await this.incrementGlobalStat('totalSessions', 1);
@@ -276,7 +303,7 @@ export class AnalyticsService {
     }
 
     async endSession(playerId: string): Promise<void> {
-        const analytics = await PlayerAnalytics.findOne({ playerId });
+        const analytics = await this.players.findOne({ playerId });
         if (!analytics || !analytics.lastSessionStart) return;
 
         const sessionLength = Math.floor((Date.now() - analytics.lastSessionStart.getTime()) / (60 * 1000));
@@ -299,7 +326,7 @@ export class AnalyticsService {
             todayActivity.playtime += sessionLength;
         }
 
-        await analytics.save();
+        await this.savePlayer(analytics);
     }
 
     async trackEvent(playerId: string, eventType: string, data?: any): Promise<void> {
@@ -318,7 +345,7 @@ export class AnalyticsService {
             todayActivity.actions++;
         }
 
-        await analytics.save();
+        await this.savePlayer(analytics);
 
         // Track globally
         await this.incrementGlobalStat('totalActions', 1);
@@ -333,7 +360,7 @@ export class AnalyticsService {
             todayActivity.xpEarned += amount;
         }
 
-        await analytics.save();
+        await this.savePlayer(analytics);
     }
 
     async trackStardustEarned(playerId: string, amount: number): Promise<void> {
@@ -345,7 +372,7 @@ export class AnalyticsService {
             todayActivity.stardustEarned += amount;
         }
 
-        await analytics.save();
+        await this.savePlayer(analytics);
         await this.incrementGlobalStat('stardustEarned', amount);
     }
 
@@ -358,7 +385,32 @@ export class AnalyticsService {
             value
         });
 
-        await analytics.save();
+        await this.savePlayer(analytics);
+    }
+
+    /** Counts and leaders across every player, for the admin dashboard */
+    async getPlayerOverview(): Promise<{
+        totalPlayers: number;
+        activePlayers: number;
+        playersWithWeekStreak: number;
+        avgPlaytimeMinutes: number;
+        topPlayersByPlaytime: PlayerAnalyticsRecord[];
+    }> {
+        const weekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+        const playtimes = await this.players.find({}, { fields: ['totalPlaytime'] });
+        const totalPlaytime = playtimes.reduce((sum, p) => sum + (p.totalPlaytime || 0), 0);
+
+        return {
+            totalPlayers: playtimes.length,
+            activePlayers: await this.players.count({ lastActiveDate: { $gte: weekAgo } }),
+            playersWithWeekStreak: await this.players.count({ currentStreak: { $gte: 7 } }),
+            avgPlaytimeMinutes: playtimes.length > 0 ? Math.round(totalPlaytime / playtimes.length) : 0,
+            topPlayersByPlaytime: await this.players.find({}, {
+                sort: { totalPlaytime: -1 },
+                limit: 10,
+                fields: ['playerId', 'totalPlaytime', 'sessionsCount', 'currentStreak']
+            })
+        };
     }
 
     async getPlayerStats(playerId: string): Promise<{
@@ -387,21 +439,15 @@ export class AnalyticsService {
     // GLOBAL ANALYTICS
     // ========================================
 
-    async getOrCreateGlobalAnalytics(): Promise<IGlobalAnalytics> {
-        const today = getTodayString();
-        let analytics = await GlobalAnalytics.findOne({ date: today });
-
-        if (!analytics) {
-            analytics = new GlobalAnalytics({ date: today });
-            await analytics.save();
-        }
-
-        return analytics;
+    async getOrCreateGlobalAnalytics(): Promise<GlobalAnalyticsRecord> {
+        const date = getTodayString();
+        return (await this.days.findOne({ date }))
+            || (await this.days.update({ date }, { $setOnInsert: { date } }, { upsert: true }))!;
     }
 
     async incrementGlobalStat(stat: string, amount: number): Promise<void> {
         const today = getTodayString();
-        await GlobalAnalytics.findOneAndUpdate(
+        await this.days.update(
             { date: today },
             { $inc: { [stat]: amount } },
             { upsert: true }
@@ -409,25 +455,22 @@ export class AnalyticsService {
     }
 
     async trackRealmActivity(realm: string): Promise<void> {
-        const validRealms = ['genesis', 'nebula', 'void', 'starforge', 'sanctuary'];
-        if (!validRealms.includes(realm)) return;
+        if (!isRealmId(realm)) return;
 
         const today = getTodayString();
-        await GlobalAnalytics.findOneAndUpdate(
+        await this.days.update(
             { date: today },
             { $inc: { [`realmActivity.${realm}`]: 1 } },
             { upsert: true }
         );
     }
 
-    async getGlobalStats(days: number = 7): Promise<IGlobalAnalytics[]> {
+    async getGlobalStats(days: number = 7): Promise<GlobalAnalyticsRecord[]> {
         const startDate = new Date();
         startDate.setDate(startDate.getDate() - days);
         const startDateStr = startDate.toISOString().split('T')[0];
 
-        return GlobalAnalytics.find({ date: { $gte: startDateStr } })
-            .sort({ date: -1 })
-            .lean() as unknown as IGlobalAnalytics[];
+        return this.days.find({ date: { $gte: startDateStr } }, { sort: { date: -1 } });
     }
 
     async trackAmbientModeSession(playerId: string, mode: string, duration: number): Promise<void> {
@@ -442,14 +485,14 @@ export class AnalyticsService {
         // Also track as a general action
         analytics.dailyActivity[analytics.dailyActivity.length - 1].actions++;
 
-        await analytics.save();
+        await this.savePlayer(analytics);
 
         // Track globally
         await this.incrementGlobalStat('totalActions', 1);
     }
 
     async getDashboardSummary(): Promise<{
-        today: IGlobalAnalytics | null;
+        today: GlobalAnalyticsRecord | null;
         weeklyTotals: {
             dau: number;
             newUsers: number;
@@ -512,12 +555,12 @@ export class AnalyticsService {
         retention: number[];
     }> {
         // Get players who started on startDate
-        const cohortPlayers = await PlayerAnalytics.find({
+        const cohortPlayers = await this.players.find({
             firstPlayDate: {
                 $gte: new Date(startDate),
                 $lt: new Date(new Date(startDate).getTime() + 24 * 60 * 60 * 1000)
             }
-        }).select('playerId dailyActivity').lean();
+        }, { fields: ['playerId', 'dailyActivity'] });
 
         const cohortSize = cohortPlayers.length;
         if (cohortSize === 0) return { cohortSize: 0, retention: [] };
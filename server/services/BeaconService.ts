@@ -5,6 +5,9 @@
 
 import { EventEmitter } from 'events';
 import { Beacon as BeaconModel, IBeacon } from '../database/models.js';
+import { persistence } from '../persistence/index.js';
+import type { Stored, Repository } from '../persistence/index.js';
+import { SpatialMap } from '../common/spatial/index.js';
 
 export interface Beacon {
     id: string;
@@ -20,6 +23,13 @@ export interface Beacon {
     permanentlyLit: boolean;
 }
 
+/**
+ * Beacon as stored in a world snapshot (contributors as entries)
+ */
+export interface SerializedBeacon extends Omit<Beacon, 'contributors'> {
+    contributors: Array<[string, number]>;
+}
+
 export interface BeaconConfig {
     maxCharge: number;
     chargeDecayRate: number; // per second
@@ -43,9 +53,15 @@ const DEFAULT_CONFIG: BeaconConfig = {
 };
 
 class BeaconService extends EventEmitter {
-    private beacons: Map<string, Beacon> = new Map();
+    private beacons = new SpatialMap<Beacon>({ partition: beacon => beacon.realm });
     private config: BeaconConfig = DEFAULT_CONFIG;
     private updateInterval: NodeJS.Timeout | null = null;
+    private store: Repository<Stored<IBeacon>>;
+
+    constructor(options: { repository?: Repository<Stored<IBeacon>> } = {}) {
+        super();
+        this.store = options.repository || persistence.repository<Stored<IBeacon>>(BeaconModel);
+    }
 
     async initialize(): Promise<void> {
         console.log('💡 Beacon Service initializing...');
@@ -56,9 +72,12 @@ class BeaconService extends EventEmitter {
 
     private async loadBeacons(): Promise<void> {
         try {
-            const savedBeacons = await BeaconModel.find({}).lean();
+            const savedBeacons = await this.store.find({});
             if (savedBeacons && savedBeacons.length > 0) {
                 for (const beacon of savedBeacons) {
+                    // Already restored from a (newer) world snapshot
+                    if (this.beacons.has(beacon.beaconId)) continue;
+
                     // Convert array contributors to Map
                     const contributorsMap = new Map<string, number>();
                     if (beacon.contributors && Array.isArray(beacon.contributors)) {
@@ -126,10 +145,7 @@ class BeaconService extends EventEmitter {
     }
 
     getBeaconsNearPosition(position: { x: number; y: number }, realm: string, maxDistance: number = 500): Beacon[] {
-        return this.getBeaconsInRealm(realm).filter(b => {
-            const distance = Math.hypot(b.x - position.x, b.y - position.y);
-            return distance <= maxDistance;
-        });
+        return this.beacons.within(position.x, position.y, maxDistance, realm);
     }
 
     getLitBeacons(realm?: string): Beacon[] {
@@ -350,16 +366,9 @@ class BeaconService extends EventEmitter {
      * Check if a position is within protection radius of a lit beacon
      */
     isPositionProtected(realm: string, x: number, y: number): { protected: boolean; beaconId?: string } {
-        for (const beacon of this.beacons.values()) {
-            if (beacon.realm !== realm) continue;
-            if (beacon.charge < this.config.lightingThreshold) continue;
-
-            const distance = Math.hypot(beacon.x - x, beacon.y - y);
-            if (distance <= this.config.protectionRadius) {
-                return { protected: true, beaconId: beacon.id };
-            }
-        }
-        return { protected: false };
+        const [beacon] = this.beacons.within(x, y, this.config.protectionRadius, realm,
+            b => b.charge >= this.config.lightingThreshold);
+        return beacon ? { protected: true, beaconId: beacon.id } : { protected: false };
     }
 
     /**
@@ -386,7 +395,7 @@ class BeaconService extends EventEmitter {
                 ([playerId, amount]) => ({ playerId, amount })
             );
             
-            await BeaconModel.findOneAndUpdate(
+            await this.store.update(
                 { beaconId: beacon.id },
                 {
                     $set: {
@@ -404,7 +413,7 @@ class BeaconService extends EventEmitter {
                     },
                     $inc: { litCount: beacon.charge >= this.config.lightingThreshold ? 0 : 0 }
                 },
-                { upsert: true, new: true }
+                { upsert: true }
             );
         } catch (error) {
             console.error('Failed to persist beacon:', error);
@@ -447,6 +456,26 @@ class BeaconService extends EventEmitter {
         return stats;
     }
 
+    // =========================================================================
+    // World Snapshot
+    // =========================================================================
+
+    exportState(): SerializedBeacon[] {
+        return Array.from(this.beacons.values()).map(beacon => ({
+            ...beacon,
+            contributors: Array.from(beacon.contributors.entries())
+        }));
+    }
+
+    restoreState(beacons: SerializedBeacon[]): void {
+        for (const beacon of beacons) {
+            this.beacons.set(beacon.id, {
+                ...beacon,
+                contributors: new Map(beacon.contributors)
+            });
+        }
+    }
+
     shutdown(): void {
         if (this.updateInterval) {
             clearInterval(this.updateInterval);
@@ -0,0 +1,105 @@
+// =============================================================================
+// BondRules Tests - decay over real time, tiers, cooldowns and shared moments
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import {
+    BOND_CONFIG,
+    InteractionCooldowns,
+    SharedMomentDetector,
+    applyGain,
+    bondTier,
+    nearbyPairs,
+    settleDecay,
+    settleTier
+} from './BondRules.js';
+import type { BondStrengthState } from './BondRules.js';
+
+const HOUR = 60 * 60 * 1000;
+
+function bond(strength: number, at: number, extra: Partial<BondStrengthState> = {}): BondStrengthState {
+    return { strength, mode: bondTier(strength), sealed: false, lastInteraction: new Date(at), ...extra };
+}
+
+describe('bond strength', () => {
+    it('decays with elapsed real time, however often it is settled', () => {
+        const once = bond(50, 0);
+        const often = bond(50, 0);
+
+        settleDecay(once, 100 * HOUR);
+        for (let hour = 1; hour <= 100; hour++) settleDecay(often, hour * HOUR);
+
+        expect(once.strength).toBeCloseTo(50 - 100 * BOND_CONFIG.DECAY_RATE);
+        expect(often.strength).toBeCloseTo(once.strength);
+    });
+
+    it('never decays sealed bonds', () => {
+        const sealed = bond(95, 0, { sealed: true });
+        expect(settleDecay(sealed, 1000 * HOUR)).toBe(false);
+        expect(sealed.strength).toBe(95);
+    });
+
+    it('settles decay before a gain and reports the net change', () => {
+        const b = bond(30, 0);
+        const delta = applyGain(b, BOND_CONFIG.GAINS.whisper, 100 * HOUR);
+
+        expect(delta).toBeCloseTo(BOND_CONFIG.GAINS.whisper);
+        expect(b.strength).toBeCloseTo(30 - 100 * BOND_CONFIG.DECAY_RATE + BOND_CONFIG.GAINS.whisper);
+        expect(b.lastInteraction.getTime()).toBe(100 * HOUR);
+        expect(applyGain(bond(99, 0), 10, 0)).toBe(1);
+    });
+
+    it('moves tiers both ways and reports the tier it left', () => {
+        const b = bond(20, 0);
+        applyGain(b, 10, 0);
+        expect(settleTier(b)).toBe('silent');
+        expect(b.mode).toBe('whisper');
+        expect(settleTier(b)).toBeNull();
+
+        b.strength = BOND_CONFIG.WHISPER_THRESHOLD - 1;
+        expect(settleTier(b)).toBe('whisper');
+        expect(b.mode).toBe('silent');
+    });
+
+    it('lets each pair gain from an interaction once per cooldown', () => {
+        const cooldowns = new InteractionCooldowns();
+        expect(cooldowns.allow('a', 'b', 'pulse', 0)).toBe(true);
+        expect(cooldowns.allow('b', 'a', 'pulse', 1000)).toBe(false);
+        expect(cooldowns.allow('a', 'b', 'sing', 1000)).toBe(true);
+        expect(cooldowns.allow('a', 'c', 'pulse', 1000)).toBe(true);
+        expect(cooldowns.allow('a', 'b', 'pulse', BOND_CONFIG.GAIN_COOLDOWN)).toBe(true);
+    });
+});
+
+describe('shared moments', () => {
+    it('pairs fragments collected close together in space and time', () => {
+        const detector = new SharedMomentDetector();
+
+        expect(detector.fragmentCollected('a', 'genesis', 1000, 1000, 0)).toEqual([]);
+        expect(detector.fragmentCollected('b', 'genesis', 1200, 1000, 2000)).toEqual(['a']);
+        // Too far, another realm, then too late
+        expect(detector.fragmentCollected('c', 'genesis', 3000, 1000, 3000)).toEqual([]);
+        expect(detector.fragmentCollected('d', 'nebula', 1000, 1000, 3000)).toEqual([]);
+        expect(detector.fragmentCollected('e', 'genesis', 1000, 1000, 2000 + BOND_CONFIG.CO_COLLECT_WINDOW + 1)).toEqual([]);
+    });
+
+    it('only counts darkness survivors who were there when it fell', () => {
+        const detector = new SharedMomentDetector();
+        detector.darknessStarted('genesis', ['a', 'b', 'c']);
+
+        const pairs = detector.darknessEnded('genesis', [
+            { playerId: 'a', x: 0, y: 0 },
+            { playerId: 'b', x: 100, y: 0 },
+            { playerId: 'c', x: 5000, y: 0 },       // Survived alone
+            { playerId: 'late', x: 50, y: 0 }       // Arrived after it fell
+        ]);
+
+        expect(pairs).toEqual([['a', 'b']]);
+        expect(detector.darknessEnded('genesis', [])).toEqual([]);
+    });
+
+    it('caps the pairs one observation can produce', () => {
+        const crowd = Array.from({ length: 30 }, (_, i) => ({ playerId: `p${i}`, x: i, y: 0 }));
+        expect(nearbyPairs(crowd)).toHaveLength(BOND_CONFIG.MAX_MOMENT_PAIRS);
+    });
+});
@@ -0,0 +1,206 @@
+// =============================================================================
+// Bond Rules - Strength, tiers, decay and shared-moment detection
+// =============================================================================
+// Pure rules behind BondService: no database, no timers. The service loads a
+// bond, applies these and saves it; the detector only remembers what it needs
+// to spot two players sharing a moment.
+// =============================================================================
+
+import type { BondTier } from '../common/protocol/index.js';
+
+export const BOND_CONFIG = {
+    DECAY_RATE: 0.03,               // Strength lost per hour without interaction, online or not
+    DECAY_INTERVAL: 60 * 60 * 1000, // Sweep that settles decay on bonds nobody has looked at
+
+    // Strength gains from server-observed interactions and shared moments
+    GAINS: {
+        pulse: 5,
+        whisper: 12,
+        sing: 8,
+        proximity: 1,
+        gift: 15,
+        emote: 3,
+        play: 4,
+        meditate: 4,
+        echo_resonate: 10,
+        resonance: 10,
+        fragment_co_collected: 6,
+        beacon_lit_together: 10,
+        darkness_survived: 15
+    },
+    GAIN_COOLDOWN: 10 * 1000,       // Per pair and interaction, so spamming pulses farms nothing
+
+    // Thresholds
+    WHISPER_THRESHOLD: 25,          // Strength needed for whisper mode
+    VOICE_THRESHOLD: 75,            // Strength needed for voice mode
+    SEAL_THRESHOLD: 90,             // Strength needed to seal a bond
+    MIN_SEAL_MOMENTS: 3,            // Shared moments needed to seal a bond
+
+    // Shared moments
+    INTERACTION_RANGE: 400,         // Sing, emote and bond gestures reach this far
+    MOMENT_RANGE: 400,              // How close two players must be to share a moment
+    CO_COLLECT_WINDOW: 10 * 1000,   // Fragments collected this close in time count as together
+    MAX_MOMENT_PAIRS: 50,           // Per observation, so a crowded realm stays cheap
+
+    MAX_MOMENTS: 100,
+    MAX_SHARED_MEMORIES: 50,
+    MAX_STRENGTH: 100
+};
+
+export type BondInteraction = keyof typeof BOND_CONFIG.GAINS;
+
+/**
+ * The parts of a stored bond the rules read and write
+ */
+export interface BondStrengthState {
+    strength: number;
+    mode: BondTier;
+    sealed: boolean;
+    lastInteraction: Date;
+    decayedAt?: Date;
+}
+
+export interface MomentWitness {
+    playerId: string;
+    x: number;
+    y: number;
+}
+
+// =============================================================================
+// Strength
+// =============================================================================
+
+export function bondTier(strength: number): BondTier {
+    if (strength >= BOND_CONFIG.VOICE_THRESHOLD) return 'voice';
+    if (strength >= BOND_CONFIG.WHISPER_THRESHOLD) return 'whisper';
+    return 'silent';
+}
+
+/**
+ * Apply the decay accrued since it was last settled. Sealed bonds don't decay.
+ * Returns whether the strength changed.
+ */
+export function settleDecay(bond: BondStrengthState, now: number): boolean {
+    const since = (bond.decayedAt ?? bond.lastInteraction).getTime();
+    bond.decayedAt = new Date(Math.max(now, since));
+    if (bond.sealed || now <= since || bond.strength <= 0) return false;
+
+    const hours = (now - since) / (60 * 60 * 1000);
+    const before = bond.strength;
+    bond.strength = Math.max(0, bond.strength - BOND_CONFIG.DECAY_RATE * hours);
+    return bond.strength !== before;
+}
+
+/**
+ * Settle decay, then add `gain`. Returns the net change since the last settle.
+ */
+export function applyGain(bond: BondStrengthState, gain: number, now: number): number {
+    settleDecay(bond, now);
+    const before = bond.strength;
+    bond.strength = Math.min(BOND_CONFIG.MAX_STRENGTH, bond.strength + gain);
+    bond.lastInteraction = new Date(now);
+    return bond.strength - before;
+}
+
+/**
+ * Move the bond to the tier its strength earns. Returns the old tier when it changed.
+ */
+export function settleTier(bond: BondStrengthState): BondTier | null {
+    const tier = bondTier(bond.strength);
+    if (tier === bond.mode) return null;
+    const old = bond.mode;
+    bond.mode = tier;
+    return old;
+}
+
+export function pairKey(playerId1: string, playerId2: string): string {
+    return [playerId1, playerId2].sort().join(':');
+}
+
+/**
+ * Remembers when each pair last gained from each interaction
+ */
+export class InteractionCooldowns {
+    private last: Map<string, number> = new Map();
+
+    /**
+     * True (and starts the cooldown) when the pair may gain from `interaction` now
+     */
+    allow(playerId1: string, playerId2: string, interaction: BondInteraction, now: number): boolean {
+        const key = `${pairKey(playerId1, playerId2)}:${interaction}`;
+        const last = this.last.get(key);
+        if (last !== undefined && now - last < BOND_CONFIG.GAIN_COOLDOWN) return false;
+        this.last.set(key, now);
+        return true;
+    }
+
+    prune(now: number): void {
+        for (const [key, at] of this.last) {
+            if (now - at >= BOND_CONFIG.GAIN_COOLDOWN) this.last.delete(key);
+        }
+    }
+}
+
+// =============================================================================
+// Shared moments
+// =============================================================================
+
+/**
+ * Pairs of witnesses standing within MOMENT_RANGE of each other
+ */
+export function nearbyPairs(witnesses: MomentWitness[]): Array<[string, string]> {
+    const pairs: Array<[string, string]> = [];
+    for (let i = 0; i < witnesses.length; i++) {
+        for (let j = i + 1; j < witnesses.length; j++) {
+            const a = witnesses[i];
+            const b = witnesses[j];
+            if (a.playerId === b.playerId) continue;
+            if (Math.hypot(a.x - b.x, a.y - b.y) > BOND_CONFIG.MOMENT_RANGE) continue;
+            pairs.push([a.playerId, b.playerId]);
+            if (pairs.length >= BOND_CONFIG.MAX_MOMENT_PAIRS) return pairs;
+        }
+    }
+    return pairs;
+}
+
+/**
+ * Spots players sharing a moment: fragments collected side by side and
+ * darkness waves lived through together
+ */
+export class SharedMomentDetector {
+    private collections: Map<string, Array<MomentWitness & { at: number }>> = new Map();
+    private darknessWitnesses: Map<string, Set<string>> = new Map();
+
+    /**
+     * Partners who collected a fragment nearby within the window
+     */
+    fragmentCollected(playerId: string, realm: string, x: number, y: number, now: number): string[] {
+        const recent = (this.collections.get(realm) ?? [])
+            .filter(c => now - c.at <= BOND_CONFIG.CO_COLLECT_WINDOW);
+
+        const partners = new Set<string>();
+        for (const c of recent) {
+            if (c.playerId !== playerId && Math.hypot(c.x - x, c.y - y) <= BOND_CONFIG.MOMENT_RANGE) {
+                partners.add(c.playerId);
+            }
+        }
+
+        recent.push({ playerId, x, y, at: now });
+        this.collections.set(realm, recent);
+        return Array.from(partners);
+    }
+
+    darknessStarted(realm: string, playerIds: string[]): void {
+        this.darknessWitnesses.set(realm, new Set(playerIds));
+    }
+
+    /**
+     * Pairs who were in the realm when the darkness fell and are still together now
+     */
+    darknessEnded(realm: string, survivors: MomentWitness[]): Array<[string, string]> {
+        const witnesses = this.darknessWitnesses.get(realm);
+        this.darknessWitnesses.delete(realm);
+        if (!witnesses) return [];
+        return nearbyPairs(survivors.filter(s => witnesses.has(s.playerId)));
+    }
+}
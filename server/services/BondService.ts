@@ -3,38 +3,30 @@
 // =============================================================================
 
 import { EventEmitter } from 'events';
+// @ts-ignore - uuid package types
+import { v4 as uuidv4 } from 'uuid';
 import { Bond, StarMemory, Constellation, type IBond, type IStarMemory, type IConstellation } from '../database/bondModels.js';
-import { Progression } from '../database/progressionModels.js';
+import { persistence } from '../persistence/index.js';
+import type { Stored, Repository } from '../persistence/index.js';
 import { notificationService } from './NotificationService.js';
-
-// ============================================
-// BOND CONFIGURATION
-// ============================================
-
-const BOND_CONFIG = {
-    DECAY_RATE: 0.03,           // Strength decay per hour of no interaction
-    DECAY_INTERVAL: 60 * 60 * 1000, // Check decay every hour
-
-    // Strength gains from interactions
-    GAINS: {
-        pulse: 5,
-        whisper: 12,
-        sing: 8,
-        proximity: 1,           // Per minute near each other
-        gift: 15,
-        emote: 3,
-        echo_resonate: 10,
-        resonance: 10
-    },
-
-    // Thresholds
-    WHISPER_THRESHOLD: 25,      // Strength needed for whisper mode
-    VOICE_THRESHOLD: 75,        // Strength needed for voice mode
-    SEAL_THRESHOLD: 90,         // Strength needed to seal a bond
-
-    MAX_SHARED_MEMORIES: 50,
-    MAX_STRENGTH: 100
-};
+import { ledgerService } from './LedgerService.js';
+import { isBotId } from '../common/bot.js';
+import type { BondMoment, BondMomentType, BondTier } from '../common/protocol/index.js';
+import {
+    BOND_CONFIG,
+    InteractionCooldowns,
+    SharedMomentDetector,
+    applyGain,
+    nearbyPairs,
+    settleDecay,
+    settleTier,
+    type BondInteraction,
+    type MomentWitness
+} from './BondRules.js';
+
+export type BondRecord = Stored<IBond>;
+export type StarMemoryRecord = Stored<IStarMemory>;
+export type ConstellationRecord = Stored<IConstellation>;
 
 // Constellation patterns (minimum bonds needed)
 const CONSTELLATION_PATTERNS = {
@@ -44,33 +36,83 @@ const CONSTELLATION_PATTERNS = {
     galaxy: { minPlayers: 7, minBonds: 10, rarity: 'legendary' as const }
 };
 
+const MOMENT_DESCRIPTIONS: Record<BondMomentType, string> = {
+    fragment_co_collected: 'Gathered light side by side',
+    beacon_lit_together: 'Lit a beacon as one',
+    darkness_survived: 'Survived the darkness together'
+};
+
+// Star memories remember this many moments
+const STAR_MOMENTS = 5;
+
+const TIER_ORDER: BondTier[] = ['silent', 'whisper', 'voice'];
+
+/**
+ * A timeline entry as players see it
+ */
+function toBondMoment(moment: IBond['moments'][number]): BondMoment {
+    return {
+        momentId: moment.momentId,
+        type: moment.type,
+        realmId: moment.realmId,
+        x: moment.x,
+        y: moment.y,
+        at: moment.at.getTime()
+    };
+}
+
 // ============================================
 // BOND SERVICE
 // ============================================
+// The one authoritative bond model. Strength only moves on interactions the
+// server saw (pulses, songs, whispers, gifts) and on shared moments it
+// detected; decay is settled from real time whenever a bond is touched, so it
+// keeps fading while both players are offline.
+//
+// Events: bond_updated, bond_tier_changed, bond_moment, bond_sealed,
+// constellation_formed. Pair events carry player1Id < player2Id.
 
 class BondService extends EventEmitter {
     private initialized: boolean = false;
     private decayInterval: NodeJS.Timeout | null = null;
+    private cooldowns = new InteractionCooldowns();
+    private moments = new SharedMomentDetector();
+    private bonds: Repository<BondRecord>;
+    private starMemories: Repository<StarMemoryRecord>;
+    private constellations: Repository<ConstellationRecord>;
+
+    constructor(options: {
+        bonds?: Repository<BondRecord>;
+        starMemories?: Repository<StarMemoryRecord>;
+        constellations?: Repository<ConstellationRecord>;
+    } = {}) {
+        super();
+        this.bonds = options.bonds || persistence.repository<BondRecord>(Bond);
+        this.starMemories = options.starMemories || persistence.repository<StarMemoryRecord>(StarMemory);
+        this.constellations = options.constellations || persistence.repository<ConstellationRecord>(Constellation);
+    }
 
     async init(): Promise<void> {
         if (this.initialized) return;
         this.initialized = true;
 
-        // Start decay timer
+        // Settle decay on bonds nobody has touched, so tiers drop on time
         this.decayInterval = setInterval(() => this.processDecay(), BOND_CONFIG.DECAY_INTERVAL);
 
         console.log('💫 Bond service initialized');
     }
 
     /**
-     * Get or create a bond between two players
+     * Get the bond between two players, with decay settled up to now
      * Always stores with player1Id < player2Id to ensure uniqueness
      */
-    async getBond(playerId1: string, playerId2: string): Promise<IBond | null> {
+    async getBond(playerId1: string, playerId2: string): Promise<BondRecord | null> {
         const [p1, p2] = [playerId1, playerId2].sort();
 
         try {
-            return await Bond.findOne({ player1Id: p1, player2Id: p2 });
+            const bond = await this.bonds.findOne({ player1Id: p1, player2Id: p2 });
+            if (bond) await this.settle(bond, Date.now());
+            return bond;
         } catch (error) {
             console.error('Error getting bond:', error);
             return null;
@@ -84,7 +126,11 @@ class BondService extends EventEmitter {
         playerId1: string,
         playerId2: string,
         realmId?: string
-    ): Promise<IBond | null> {
+    ): Promise<BondRecord | null> {
+        // Bots are company, not bond partners
+        if (isBotId(playerId1) || isBotId(playerId2)) return null;
+        if (playerId1 === playerId2) return null;
+
         const [p1, p2] = [playerId1, playerId2].sort();
 
         try {
@@ -92,7 +138,7 @@ class BondService extends EventEmitter {
             const existing = await this.getBond(p1, p2);
             if (existing) return existing;
 
-            const bond = new Bond({
+            const bond = await this.bonds.insert({
                 player1Id: p1,
                 player2Id: p2,
                 strength: 1,
@@ -102,7 +148,6 @@ class BondService extends EventEmitter {
                 lastInteraction: new Date()
             });
 
-            await bond.save();
             this.emit('bond_created', { player1Id: p1, player2Id: p2 });
 
             return bond;
@@ -113,32 +158,24 @@ class BondService extends EventEmitter {
     }
 
     /**
-     * Update bond strength from an interaction
+     * Strengthen a bond from an interaction the server observed. Each pair
+     * gains from each kind of interaction at most once per GAIN_COOLDOWN.
      */
     async updateBondStrength(
         playerId1: string,
         playerId2: string,
-        interactionType: keyof typeof BOND_CONFIG.GAINS,
+        interactionType: BondInteraction,
         realmId?: string
-    ): Promise<{ bond: IBond | null; strengthDelta: number; modeChanged: boolean }> {
-        const [p1, p2] = [playerId1, playerId2].sort();
-
-        try {
-            let bond = await this.getBond(p1, p2);
+    ): Promise<{ bond: BondRecord | null; strengthDelta: number; modeChanged: boolean }> {
+        const none = { bond: null, strengthDelta: 0, modeChanged: false };
+        if (isBotId(playerId1) || isBotId(playerId2) || playerId1 === playerId2) return none;
 
-            // Create bond if doesn't exist
-            if (!bond) {
-                bond = await this.createBond(p1, p2, realmId);
-                if (!bond) return { bond: null, strengthDelta: 0, modeChanged: false };
-            }
+        const now = Date.now();
+        if (!this.cooldowns.allow(playerId1, playerId2, interactionType, now)) return none;
 
-            const gain = BOND_CONFIG.GAINS[interactionType] || 1;
-            const oldStrength = bond.strength;
-            const oldMode = bond.mode;
-
-            // Update strength
-            bond.strength = Math.min(BOND_CONFIG.MAX_STRENGTH, bond.strength + gain);
-            bond.lastInteraction = new Date();
+        try {
+            const bond = await this.findOrCreate(playerId1, playerId2, realmId);
+            if (!bond) return none;
 
             // Update stats based on interaction
             if (interactionType === 'pulse') {
@@ -149,65 +186,132 @@ class BondService extends EventEmitter {
                 bond.stats.lightGifted += 1;
             }
 
-            // Check for mode upgrades
-            let modeChanged = false;
-            if (bond.strength >= BOND_CONFIG.VOICE_THRESHOLD && bond.mode !== 'voice') {
-                bond.mode = 'voice';
-                modeChanged = true;
-            } else if (bond.strength >= BOND_CONFIG.WHISPER_THRESHOLD && bond.mode === 'silent') {
-                bond.mode = 'whisper';
-                modeChanged = true;
-            }
-
-            await bond.save();
+            const result = await this.strengthen(bond, BOND_CONFIG.GAINS[interactionType], interactionType, now);
+            return { bond, ...result };
+        } catch (error) {
+            console.error('Error updating bond strength:', error);
+            return none;
+        }
+    }
 
-            const strengthDelta = bond.strength - oldStrength;
+    /**
+     * Add a shared moment to the pair's timeline
+     */
+    async recordMoment(
+        playerId1: string,
+        playerId2: string,
+        type: BondMomentType,
+        where: { realmId?: string; x?: number; y?: number } = {}
+    ): Promise<BondMoment | null> {
+        if (isBotId(playerId1) || isBotId(playerId2) || playerId1 === playerId2) return null;
 
-            if (modeChanged) {
-                this.emit('bond_mode_changed', {
-                    player1Id: p1,
-                    player2Id: p2,
-                    oldMode,
-                    newMode: bond.mode
-                });
+        try {
+            const bond = await this.findOrCreate(playerId1, playerId2, where.realmId);
+            if (!bond) return null;
+
+            const now = Date.now();
+            const moment = {
+                momentId: `moment_${uuidv4()}`,
+                type,
+                realmId: where.realmId,
+                x: where.x !== undefined ? Math.round(where.x) : undefined,
+                y: where.y !== undefined ? Math.round(where.y) : undefined,
+                at: new Date(now)
+            };
+
+            // Oldest moments go first, except ones a memory still pins
+            bond.moments.push(moment);
+            const pinned = new Set(bond.sharedMemories.map(m => m.momentId));
+            while (bond.moments.length > BOND_CONFIG.MAX_MOMENTS) {
+                const index = bond.moments.findIndex(m => !pinned.has(m.momentId));
+                if (index < 0) break;
+                bond.moments.splice(index, 1);
             }
 
-            return { bond, strengthDelta, modeChanged };
+            await this.strengthen(bond, BOND_CONFIG.GAINS[type], type, now);
+
+            const published = toBondMoment(moment);
+            this.emit('bond_moment', { player1Id: bond.player1Id, player2Id: bond.player2Id, moment: published });
+            return published;
         } catch (error) {
-            console.error('Error updating bond strength:', error);
-            return { bond: null, strengthDelta: 0, modeChanged: false };
+            console.error('Error recording bond moment:', error);
+            return null;
+        }
+    }
+
+    // ============================================
+    // SHARED MOMENT OBSERVATION
+    // ============================================
+
+    /**
+     * A player collected a fragment: anyone who collected nearby moments ago shares it
+     */
+    observeFragmentCollected(playerId: string, realm: string, x: number, y: number, now: number = Date.now()): void {
+        for (const partnerId of this.moments.fragmentCollected(playerId, realm, x, y, now)) {
+            this.recordMoment(playerId, partnerId, 'fragment_co_collected', { realmId: realm, x, y });
         }
     }
 
     /**
-     * Add a shared memory to a bond
+     * A beacon was lit: the contributors standing near it lit it together
+     */
+    observeBeaconLit(realm: string, beacon: { x: number; y: number }, contributors: MomentWitness[]): void {
+        const present = contributors.filter(c => Math.hypot(c.x - beacon.x, c.y - beacon.y) <= BOND_CONFIG.MOMENT_RANGE);
+        for (const [a, b] of nearbyPairs(present)) {
+            this.recordMoment(a, b, 'beacon_lit_together', { realmId: realm, x: beacon.x, y: beacon.y });
+        }
+    }
+
+    observeDarknessStarted(realm: string, playerIds: string[]): void {
+        this.moments.darknessStarted(realm, playerIds);
+    }
+
+    /**
+     * Darkness lifted: pairs who were there when it fell and stayed together survived it
+     */
+    observeDarknessEnded(realm: string, survivors: MomentWitness[]): void {
+        for (const [a, b] of this.moments.darknessEnded(realm, survivors)) {
+            const partner = survivors.find(s => s.playerId === a)!;
+            this.recordMoment(a, b, 'darkness_survived', { realmId: realm, x: partner.x, y: partner.y });
+        }
+    }
+
+    /**
+     * Pin a moment from the bond's timeline as a shared memory
      */
     async addSharedMemory(
         playerId1: string,
         playerId2: string,
-        memoryText: string
-    ): Promise<boolean> {
-        const [p1, p2] = [playerId1, playerId2].sort();
-
+        momentId: string,
+        caption?: string
+    ): Promise<{ success: boolean; error?: string; memory?: { text: string; momentId: string; timestamp: Date } }> {
         try {
-            const bond = await this.getBond(p1, p2);
-            if (!bond) return false;
+            const bond = await this.getBond(playerId1, playerId2);
+            if (!bond) return { success: false, error: 'Bond does not exist' };
+
+            const moment = bond.moments.find(m => m.momentId === momentId);
+            if (!moment) return { success: false, error: 'That moment is not part of this bond' };
+            if (bond.sharedMemories.some(m => m.momentId === momentId)) {
+                return { success: false, error: 'That moment is already a memory' };
+            }
 
             // Limit memories
             if (bond.sharedMemories.length >= BOND_CONFIG.MAX_SHARED_MEMORIES) {
                 bond.sharedMemories.shift(); // Remove oldest
             }
 
-            bond.sharedMemories.push({
-                text: memoryText.substring(0, 200),
+            const memory = {
+                text: (caption || MOMENT_DESCRIPTIONS[moment.type]).substring(0, 200),
+                momentId,
                 timestamp: new Date()
-            });
+            };
+            bond.sharedMemories.push(memory);
 
-            await bond.save();
-            return true;
+            await this.save(bond);
+            return { success: true, memory };
         } catch (error) {
             console.error('Error adding shared memory:', error);
-            return false;
+            return { success: false, error: 'Failed to add memory' };
         }
     }
 
@@ -224,7 +328,7 @@ class BondService extends EventEmitter {
         word1: string,
         word2: string,
         realmId: string
-    ): Promise<{ success: boolean; starMemory?: IStarMemory; error?: string }> {
+    ): Promise<{ success: boolean; starMemory?: StarMemoryRecord; error?: string }> {
         const [p1, p2] = [playerId1, playerId2].sort();
         const [w1, w2] = playerId1 < playerId2 ? [word1, word2] : [word2, word1];
         const [n1, n2] = playerId1 < playerId2 ? [player1Name, player2Name] : [player2Name, player1Name];
@@ -245,15 +349,26 @@ class BondService extends EventEmitter {
                 return { success: false, error: `Bond strength must be at least ${BOND_CONFIG.SEAL_THRESHOLD}` };
             }
 
+            if (bond.moments.length < BOND_CONFIG.MIN_SEAL_MOMENTS) {
+                return { success: false, error: `Share at least ${BOND_CONFIG.MIN_SEAL_MOMENTS} moments before sealing` };
+            }
+
+            // The star remembers the moments the pair pinned, then the latest ones
+            const pinned = new Set(bond.sharedMemories.map(m => m.momentId));
+            const remembered = [
+                ...bond.moments.filter(m => pinned.has(m.momentId)),
+                ...bond.moments.filter(m => !pinned.has(m.momentId)).reverse()
+            ].slice(0, STAR_MOMENTS);
+
             // Mark bond as sealed
             bond.sealed = true;
             bond.sealWord1 = w1;
             bond.sealWord2 = w2;
             bond.sealedAt = new Date();
-            await bond.save();
+            await this.save(bond);
 
             // Create star memory
-            const starMemory = new StarMemory({
+            const starMemory = await this.starMemories.insert({
                 bondId: bond._id?.toString(),
                 player1Id: p1,
                 player1Name: n1,
@@ -270,22 +385,20 @@ class BondService extends EventEmitter {
                     x: Math.random() * 2000 - 1000,
                     y: Math.random() * 2000 - 1000
                 },
-                brightness: Math.min(5, bond.strength / 20)
+                brightness: Math.min(5, bond.strength / 20 + Math.min(1, bond.moments.length / 20)),
+                moments: remembered.map(m => ({ type: m.type, at: m.at }))
             });
 
-            await starMemory.save();
-
             // Award stardust to both players
-            await Promise.all([
-                Progression.findOneAndUpdate(
-                    { playerId: p1 },
-                    { $inc: { stardust: 500 } }
-                ),
-                Progression.findOneAndUpdate(
-                    { playerId: p2 },
-                    { $inc: { stardust: 500 } }
-                )
-            ]);
+            const bondId = bond._id?.toString();
+            await Promise.all([p1, p2].filter(id => !isBotId(id)).map(playerId =>
+                ledgerService.credit(playerId, 'stardust', 500, {
+                    source: 'bond',
+                    reason: 'seal',
+                    idempotencyKey: `bond_seal:${bondId}:${playerId}`,
+                    metadata: { bondId }
+                })
+            ));
 
             this.emit('bond_sealed', {
                 player1Id: p1,
@@ -306,14 +419,18 @@ class BondService extends EventEmitter {
     /**
      * Get all bonds for a player
      */
-    async getPlayerBonds(playerId: string): Promise<IBond[]> {
+    async getPlayerBonds(playerId: string): Promise<BondRecord[]> {
         try {
-            return await Bond.find({
+            const bonds = await this.bonds.find({
                 $or: [
                     { player1Id: playerId },
                     { player2Id: playerId }
                 ]
-            }).sort({ strength: -1 });
+            });
+
+            const now = Date.now();
+            for (const bond of bonds) await this.settle(bond, now);
+            return bonds.sort((a, b) => b.strength - a.strength);
         } catch (error) {
             console.error('Error getting player bonds:', error);
             return [];
@@ -323,14 +440,14 @@ class BondService extends EventEmitter {
     /**
      * Get all star memories for a player
      */
-    async getPlayerStarMemories(playerId: string): Promise<IStarMemory[]> {
+    async getPlayerStarMemories(playerId: string): Promise<StarMemoryRecord[]> {
         try {
-            return await StarMemory.find({
+            return await this.starMemories.find({
                 $or: [
                     { player1Id: playerId },
                     { player2Id: playerId }
                 ]
-            }).sort({ sealedAt: -1 });
+            }, { sort: { sealedAt: -1 } });
         } catch (error) {
             console.error('Error getting star memories:', error);
             return [];
@@ -340,11 +457,9 @@ class BondService extends EventEmitter {
     /**
      * Get star memories visible in a realm
      */
-    async getRealmStarMemories(realmId: string, limit: number = 100): Promise<IStarMemory[]> {
+    async getRealmStarMemories(realmId: string, limit: number = 100): Promise<StarMemoryRecord[]> {
         try {
-            return await StarMemory.find({ realmId })
-                .sort({ brightness: -1 })
-                .limit(limit);
+            return await this.starMemories.find({ realmId }, { sort: { brightness: -1 }, limit });
         } catch (error) {
             console.error('Error getting realm star memories:', error);
             return [];
@@ -354,10 +469,10 @@ class BondService extends EventEmitter {
     /**
      * Check if a constellation can be formed
      */
-    async checkForConstellation(playerIds: string[], realmId: string): Promise<IConstellation | null> {
+    async checkForConstellation(playerIds: string[], realmId: string): Promise<ConstellationRecord | null> {
         try {
             // Get all sealed bonds among these players
-            const bonds = await Bond.find({
+            const bonds = await this.bonds.find({
                 player1Id: { $in: playerIds },
                 player2Id: { $in: playerIds },
                 sealed: true
@@ -374,20 +489,18 @@ class BondService extends EventEmitter {
             for (const [patternName, pattern] of Object.entries(CONSTELLATION_PATTERNS)) {
                 if (connectedPlayers.size >= pattern.minPlayers && bonds.length >= pattern.minBonds) {
                     // Check if this constellation already exists
-                    const existingIds = Array.from(connectedPlayers).sort().join(',');
-                    const existing = await Constellation.findOne({
-                        playerIds: { $all: Array.from(connectedPlayers) },
-                        realmId
-                    });
+                    const members = Array.from(connectedPlayers);
+                    const existing = (await this.constellations.find({ playerIds: members[0], realmId }))
+                        .some(c => members.every(id => c.playerIds.includes(id)));
 
                     if (existing) continue;
 
                     // Create new constellation
-                    const starMemories = await StarMemory.find({
+                    const starMemories = await this.starMemories.find({
                         bondId: { $in: bonds.map(b => b._id?.toString()) }
                     });
 
-                    const constellation = new Constellation({
+                    const constellation = await this.constellations.insert({
                         name: `${patternName.charAt(0).toUpperCase() + patternName.slice(1)} of ${connectedPlayers.size}`,
                         description: `A ${patternName} constellation formed by ${connectedPlayers.size} souls`,
                         playerIds: Array.from(connectedPlayers),
@@ -399,16 +512,19 @@ class BondService extends EventEmitter {
                                 pattern.rarity === 'rare' ? 250 : 100
                     });
 
-                    await constellation.save();
-
                     // Award bonus to all players
-                    await Progression.updateMany(
-                        { playerId: { $in: Array.from(connectedPlayers) } },
-                        { $inc: { stardust: constellation.bonusAmount } }
-                    );
+                    const constellationId = constellation._id?.toString();
+                    await Promise.all(Array.from(connectedPlayers).filter(id => !isBotId(id)).map(playerId =>
+                        ledgerService.credit(playerId, 'stardust', constellation.bonusAmount, {
+                            source: 'bond',
+                            reason: 'constellation',
+                            idempotencyKey: `bond_constellation:${constellationId}:${playerId}`,
+                            metadata: { constellationId, rarity: pattern.rarity }
+                        })
+                    ));
 
                     this.emit('constellation_formed', {
-                        constellationId: constellation._id?.toString(),
+                        constellationId: constellationId,
                         playerIds: Array.from(connectedPlayers),
                         rarity: pattern.rarity
                     });
@@ -427,11 +543,9 @@ class BondService extends EventEmitter {
     /**
      * Get constellations a player is part of
      */
-    async getPlayerConstellations(playerId: string): Promise<IConstellation[]> {
+    async getPlayerConstellations(playerId: string): Promise<ConstellationRecord[]> {
         try {
-            return await Constellation.find({
-                playerIds: playerId
-            }).sort({ formedAt: -1 });
+            return await this.constellations.find({ playerIds: playerId }, { sort: { formedAt: -1 } });
         } catch (error) {
             console.error('Error getting player constellations:', error);
             return [];
@@ -439,52 +553,107 @@ class BondService extends EventEmitter {
     }
 
     /**
-     * Process bond decay for all bonds
+     * Settle decay on bonds that haven't been touched for a sweep interval
      */
     private async processDecay(): Promise<void> {
         try {
-            const cutoff = new Date(Date.now() - BOND_CONFIG.DECAY_INTERVAL);
+            const now = Date.now();
+            const cutoff = new Date(now - BOND_CONFIG.DECAY_INTERVAL);
+            this.cooldowns.prune(now);
 
-            // Find bonds that haven't been interacted with recently
-            const staleBonds = await Bond.find({
+            const staleBonds = await this.bonds.find({
                 lastInteraction: { $lt: cutoff },
                 sealed: false, // Sealed bonds don't decay
                 strength: { $gt: 0 }
             });
 
             for (const bond of staleBonds) {
-                const hoursSinceInteraction = (Date.now() - bond.lastInteraction.getTime()) / (60 * 60 * 1000);
-                const decay = BOND_CONFIG.DECAY_RATE * hoursSinceInteraction;
-
-                bond.strength = Math.max(0, bond.strength - decay);
-
-                // Downgrade mode if strength drops below threshold
-                const oldMode = bond.mode;
-                if (bond.strength < BOND_CONFIG.WHISPER_THRESHOLD && bond.mode !== 'silent') {
-                    bond.mode = 'silent';
-                } else if (bond.strength < BOND_CONFIG.VOICE_THRESHOLD && bond.mode === 'voice') {
-                    bond.mode = 'whisper';
-                }
+                const wasAboveCritical = bond.strength >= 5;
+                const tierChanged = await this.settle(bond, now);
 
-                if (oldMode !== bond.mode) {
-                    // Notify both players of the downgrade
-                    const message = `Your bond strength has faded to ${bond.mode} mode. Interact to restore it!`;
-                    notificationService.notify(bond.player1Id, 'connection_made', message, { priority: 'high' });
-                    notificationService.notify(bond.player2Id, 'connection_made', message, { priority: 'high' });
-                } else if (bond.strength < 5 && bond.strength > 0) {
-                    // Critical low warning (throttle this? simplified for now)
+                if (!tierChanged && wasAboveCritical && bond.strength < 5 && bond.strength > 0) {
                     const message = `A bond is becoming very weak. Reach out before it fades completely.`;
                     notificationService.notify(bond.player1Id, 'connection_made', message);
                     notificationService.notify(bond.player2Id, 'connection_made', message);
                 }
-
-                await bond.save();
             }
         } catch (error) {
             console.error('Error processing bond decay:', error);
         }
     }
 
+    // ============================================
+    // HELPERS
+    // ============================================
+
+    private async save(bond: BondRecord): Promise<void> {
+        await this.bonds.save({ player1Id: bond.player1Id, player2Id: bond.player2Id }, bond);
+    }
+
+    private async findOrCreate(playerId1: string, playerId2: string, realmId?: string): Promise<BondRecord | null> {
+        return (await this.getBond(playerId1, playerId2)) ?? this.createBond(playerId1, playerId2, realmId);
+    }
+
+    /**
+     * Apply a gain, move the tier and save. Decay since the last touch is
+     * settled first, so the delta is the net change players see.
+     */
+    private async strengthen(
+        bond: BondRecord,
+        gain: number,
+        reason: string,
+        now: number
+    ): Promise<{ strengthDelta: number; modeChanged: boolean }> {
+        const oldMode = bond.mode;
+        const strengthDelta = applyGain(bond, gain, now);
+        const previousTier = settleTier(bond);
+        await this.save(bond);
+
+        this.emit('bond_updated', {
+            player1Id: bond.player1Id,
+            player2Id: bond.player2Id,
+            strength: bond.strength,
+            strengthDelta,
+            mode: bond.mode,
+            reason
+        });
+        if (previousTier) this.tierChanged(bond, oldMode);
+
+        return { strengthDelta, modeChanged: previousTier !== null };
+    }
+
+    /**
+     * Settle decay up to `now`; saves when anything moved. Returns whether the tier changed.
+     */
+    private async settle(bond: BondRecord, now: number): Promise<boolean> {
+        const oldMode = bond.mode;
+        if (!settleDecay(bond, now)) return false;
+
+        const previousTier = settleTier(bond);
+        await this.save(bond);
+        if (previousTier) this.tierChanged(bond, oldMode);
+        return previousTier !== null;
+    }
+
+    private tierChanged(bond: BondRecord, oldTier: BondTier): void {
+        this.emit('bond_tier_changed', {
+            player1Id: bond.player1Id,
+            player2Id: bond.player2Id,
+            oldTier,
+            newTier: bond.mode,
+            strength: bond.strength
+        });
+
+        const grew = TIER_ORDER.indexOf(bond.mode) > TIER_ORDER.indexOf(oldTier);
+        const message = grew
+            ? `Your bond has grown to ${bond.mode} mode!`
+            : `Your bond strength has faded to ${bond.mode} mode. Interact to restore it!`;
+        for (const playerId of [bond.player1Id, bond.player2Id]) {
+            notificationService.notify(playerId, grew ? 'social' : 'connection_made', message,
+                grew ? { title: 'Bond Strengthened' } : { priority: 'high' });
+        }
+    }
+
     /**
      * Cleanup on shutdown
      */
@@ -496,4 +665,4 @@ class BondService extends EventEmitter {
 }
 
 export const bondService = new BondService();
-export { BondService };
+export { BondService, BOND_CONFIG, toBondMoment };
@@ -0,0 +1,51 @@
+// =============================================================================
+// CompanionService Tests - ownership, leveling and constellations on a repository
+// =============================================================================
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { CompanionService, CompanionData } from './CompanionService.js';
+import { MemoryRepository } from '../persistence/index.js';
+
+describe('CompanionService', () => {
+    let service: CompanionService;
+
+    beforeEach(() => {
+        service = new CompanionService({ repository: new MemoryRepository<any>([], CompanionData) });
+    });
+
+    it('grants a companion once and only equips owned ones', async () => {
+        expect(await service.unlockCompanion('ana', 'ember')).toBe(true);
+        expect(await service.unlockCompanion('ana', 'ember')).toBe(false);
+        expect(await service.purchaseCompanion('ana', 'ember')).toEqual({ success: false, error: 'Already owned' });
+
+        expect(await service.equipCompanion('ana', 'missing')).toBe(false);
+        expect(await service.equipCompanion('ana', 'ember')).toBe(true);
+
+        const { companion, data } = await service.getEquippedCompanion('ana');
+        expect(companion?.id).toBe('ember');
+        expect(data).toMatchObject({ companionId: 'ember', level: 1, xp: 0 });
+    });
+
+    it('levels a companion as its experience grows', async () => {
+        await service.unlockCompanion('ana', 'ember');
+
+        expect(await service.addCompanionXP('ana', 'ember', 50)).toEqual({ success: true, leveledUp: false, newLevel: 1, newXP: 50 });
+        expect(await service.addCompanionXP('ana', 'ember', 300)).toEqual({ success: true, leveledUp: true, newLevel: 3, newXP: 350 });
+        expect(await service.addCompanionXP('ana', 'missing', 10)).toMatchObject({ success: false });
+
+        const stats = await service.getCompanionStats('ana');
+        expect(stats).toMatchObject({ totalOwned: 1, totalXPEarned: 350 });
+    });
+
+    it('pays a constellation reward once all of its pieces are in', async () => {
+        for (let piece = 1; piece <= 4; piece++) {
+            await service.addConstellationPiece('ana', `orion_${piece}`);
+        }
+        expect(await service.addConstellationPiece('ana', 'orion_1')).toBe(false);
+        expect((await service.claimConstellationReward('ana', 'orion')).success).toBe(false);
+
+        await service.addConstellationPiece('ana', 'orion_5');
+        expect((await service.claimConstellationReward('ana', 'orion')).success).toBe(true);
+        expect((await service.claimConstellationReward('ana', 'orion')).success).toBe(false);
+    });
+});
@@ -2,6 +2,8 @@
 // Server-side persistence for companion system
 
 import mongoose, { Schema, Document, Model } from 'mongoose';
+import { persistence } from '../persistence/index.js';
+import type { Stored, Repository } from '../persistence/index.js';
 
 // ============================================
 // DATABASE MODEL
@@ -53,6 +55,8 @@ const CompanionDataSchema = new Schema<ICompanionData>({
 
 export const CompanionData: Model<ICompanionData> = mongoose.model<ICompanionData>('CompanionData', CompanionDataSchema);
 
+export type CompanionDataRecord = Stored<ICompanionData>;
+
 // ============================================
 // COMPANION CONSTANTS
 // ============================================
@@ -149,6 +153,11 @@ const COMPANION_CONFIGS: Record<string, CompanionConfig> = {
 
 export class CompanionService {
     private initialized: boolean = false;
+    private records: Repository<CompanionDataRecord>;
+
+    constructor(options: { repository?: Repository<CompanionDataRecord> } = {}) {
+        this.records = options.repository || persistence.repository<CompanionDataRecord>(CompanionData);
+    }
 
     async init(): Promise<void> {
         if (this.initialized) return;
@@ -164,24 +173,19 @@ export class CompanionService {
     // DATA ACCESS
     // ========================================
 
-    async getCompanionData(playerId: string): Promise<ICompanionData> {
-        let data = await CompanionData.findOne({ playerId });
-        
-        if (!data) {
-            data = new CompanionData({
-                playerId,
-                ownedCompanions: [],
-                equippedCompanionId: null,
-                constellationPieces: [],
-                completedConstellations: [],
-                earnedBadges: [],
-                totalFragmentsCollected: 0,
-                totalCompanionXPEarned: 0
-            });
-            await data.save();
-        }
-        
-        return data;
+    async getCompanionData(playerId: string): Promise<CompanionDataRecord> {
+        return (await this.records.findOne({ playerId }))
+            || (await this.records.update({ playerId }, { $setOnInsert: { playerId } }, { upsert: true }))!;
+    }
+
+    /** Adds a companion unless the player already owns it */
+    private async grantCompanion(playerId: string, companionId: string): Promise<boolean> {
+        await this.getCompanionData(playerId);
+        const granted = await this.records.update(
+            { playerId, 'ownedCompanions.companionId': { $ne: companionId } },
+            { $push: { ownedCompanions: { companionId, level: 1, xp: 0, acquiredAt: new Date() } } }
+        );
+        return granted !== null;
     }
 
     // ========================================
@@ -208,40 +212,15 @@ export class CompanionService {
             return { success: false, error: 'Invalid companion' };
         }
 
-        const data = await this.getCompanionData(playerId);
-        
-        if (data.ownedCompanions.some(c => c.companionId === companionId)) {
+        if (!(await this.grantCompanion(playerId, companionId))) {
             return { success: false, error: 'Already owned' };
         }
 
-        // Add companion
-        data.ownedCompanions.push({
-            companionId,
-            level: 1,
-            xp: 0,
-            acquiredAt: new Date()
-        });
-        await data.save();
-
         return { success: true, cost: config.price };
     }
 
     async unlockCompanion(playerId: string, companionId: string): Promise<boolean> {
-        const data = await this.getCompanionData(playerId);
-        
-        if (data.ownedCompanions.some(c => c.companionId === companionId)) {
-            return false; // Already owned
-        }
-
-        data.ownedCompanions.push({
-            companionId,
-            level: 1,
-            xp: 0,
-            acquiredAt: new Date()
-        });
-        await data.save();
-
-        return true;
+        return this.grantCompanion(playerId, companionId);
     }
 
     async equipCompanion(playerId: string, companionId: string | null): Promise<boolean> {
@@ -251,8 +230,7 @@ export class CompanionService {
             return false; // Don't own it
         }
 
-        data.equippedCompanionId = companionId;
-        await data.save();
+        await this.records.update({ playerId }, { $set: { equippedCompanionId: companionId } });
 
         return true;
     }
@@ -294,17 +272,24 @@ export class CompanionService {
         }
 
         const oldLevel = companion.level;
-        companion.xp += xpAmount;
-        companion.level = getCompanionLevel(companion.xp);
-        
-        data.totalCompanionXPEarned += xpAmount;
-        await data.save();
+        const updated = await this.records.update(
+            { playerId, 'ownedCompanions.companionId': companionId },
+            { $inc: { 'ownedCompanions.$.xp': xpAmount, totalCompanionXPEarned: xpAmount } }
+        );
+        const leveled = updated!.ownedCompanions.find(c => c.companionId === companionId)!;
+        const newLevel = getCompanionLevel(leveled.xp);
+        if (newLevel !== leveled.level) {
+            await this.records.update(
+                { playerId, 'ownedCompanions.companionId': companionId },
+                { $set: { 'ownedCompanions.$.level': newLevel } }
+            );
+        }
 
         return {
             success: true,
-            leveledUp: companion.level > oldLevel,
-            newLevel: companion.level,
-            newXP: companion.xp
+            leveledUp: newLevel > oldLevel,
+            newLevel,
+            newXP: leveled.xp
         };
     }
 
@@ -374,16 +359,12 @@ export class CompanionService {
     // ========================================
 
     async addConstellationPiece(playerId: string, pieceId: string): Promise<boolean> {
-        const data = await this.getCompanionData(playerId);
-        
-        if (data.constellationPieces.includes(pieceId)) {
-            return false; // Already have it
-        }
-
-        data.constellationPieces.push(pieceId);
-        await data.save();
-
-        return true;
+        await this.getCompanionData(playerId);
+        const added = await this.records.update(
+            { playerId, constellationPieces: { $ne: pieceId } },
+            { $push: { constellationPieces: pieceId } }
+        );
+        return added !== null; // null when they already have it
     }
 
     async getConstellationProgress(playerId: string, constellationId: string): Promise<{
@@ -420,8 +401,13 @@ export class CompanionService {
             return { success: false };
         }
 
-        data.completedConstellations.push(constellationId);
-        await data.save();
+        const claimed = await this.records.update(
+            { playerId, completedConstellations: { $ne: constellationId } },
+            { $push: { completedConstellations: constellationId } }
+        );
+        if (!claimed) {
+            return { success: false };
+        }
 
         return {
             success: true,
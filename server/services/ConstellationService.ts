@@ -1,7 +1,11 @@
 import { EventEmitter } from 'events';
-import { Constellation, IConstellation, StarMemory, IStarMemory } from '../database/bondModels.js';
+import { Constellation, StarMemory } from '../database/bondModels.js';
 import { PlayerData } from '../database/playerDataModel.js';
-import crypto from 'crypto';
+import { persistence } from '../persistence/index.js';
+import type { Repository } from '../persistence/index.js';
+import { ledgerService } from './LedgerService.js';
+import type { ConstellationRecord, StarMemoryRecord } from './BondService.js';
+import type { PlayerDataRecord } from './PlayerDataService.js';
 
 interface ConstellationFormation {
   playerIds: string[];
@@ -20,7 +24,7 @@ interface ConstellationRewards {
 
 interface FormationResult {
   success: boolean;
-  constellation?: IConstellation;
+  constellation?: ConstellationRecord;
   rewards?: ConstellationRewards;
   error?: string;
 }
@@ -54,6 +58,21 @@ class ConstellationService extends EventEmitter {
     suffixes: ['Bond', 'Unity', 'Harmony', 'Light', 'Star', 'Dream', 'Nexus', 'Circle']
   };
 
+  private constellations: Repository<ConstellationRecord>;
+  private starMemories: Repository<StarMemoryRecord>;
+  private players: Repository<PlayerDataRecord>;
+
+  constructor(options: {
+    constellations?: Repository<ConstellationRecord>;
+    starMemories?: Repository<StarMemoryRecord>;
+    players?: Repository<PlayerDataRecord>;
+  } = {}) {
+    super();
+    this.constellations = options.constellations || persistence.repository<ConstellationRecord>(Constellation);
+    this.starMemories = options.starMemories || persistence.repository<StarMemoryRecord>(StarMemory);
+    this.players = options.players || persistence.repository<PlayerDataRecord>(PlayerData);
+  }
+
   async initialize(): Promise<void> {
     console.log('⭐ Constellation Service initialized');
   }
@@ -80,7 +99,7 @@ class ConstellationService extends EventEmitter {
       }
 
       // Fetch and validate star memories
-      const starMemories = await StarMemory.find({
+      const starMemories = await this.starMemories.find({
         _id: { $in: formation.starMemoryIds }
       });
 
@@ -121,7 +140,7 @@ class ConstellationService extends EventEmitter {
       const name = formation.name || this.generateConstellationName();
 
       // Create constellation
-      const constellation = new Constellation({
+      const constellation = await this.constellations.insert({
         name,
         description: formation.description || `A constellation formed by ${formation.playerIds.length} souls`,
         playerIds: formation.playerIds,
@@ -134,10 +153,8 @@ class ConstellationService extends EventEmitter {
         formedAt: new Date()
       });
 
-      await constellation.save();
-
       // Update star memories to reference constellation
-      await StarMemory.updateMany(
+      await this.starMemories.updateMany(
         { _id: { $in: formation.starMemoryIds } },
         { $set: { constellation: constellation._id.toString() } }
       );
@@ -165,7 +182,7 @@ class ConstellationService extends EventEmitter {
 
   async expandConstellation(constellationId: string, newStarMemoryIds: string[]): Promise<FormationResult> {
     try {
-      const constellation = await Constellation.findById(constellationId);
+      const constellation = await this.constellations.findOne({ _id: constellationId });
       if (!constellation) {
         return { success: false, error: 'Constellation not found' };
       }
@@ -175,7 +192,7 @@ class ConstellationService extends EventEmitter {
       }
 
       // Validate New Memories
-      const newMemories = await StarMemory.find({ _id: { $in: newStarMemoryIds } });
+      const newMemories = await this.starMemories.find({ _id: { $in: newStarMemoryIds } });
       if (newMemories.length !== newStarMemoryIds.length) {
         return { success: false, error: 'Some star memories not found' };
       }
@@ -212,12 +229,12 @@ class ConstellationService extends EventEmitter {
 
       // Recalculate Rarity & Shape
       const newRarity = this.calculateRarity(allStars.length);
-      const fullStarMemories = await StarMemory.find({ _id: { $in: allStars } });
+      const fullStarMemories = await this.starMemories.find({ _id: { $in: allStars } });
       const newShape = this.calculateShape(fullStarMemories);
 
       // Update DB
-      const result = await Constellation.findByIdAndUpdate(
-        constellationId,
+      const result = await this.constellations.update(
+        { _id: constellationId },
         {
           $set: {
             playerIds: Array.from(allPlayers),
@@ -225,12 +242,11 @@ class ConstellationService extends EventEmitter {
             rarity: newRarity,
             shape: newShape
           }
-        },
-        { new: true }
+        }
       );
 
       // Link Stars
-      await StarMemory.updateMany(
+      await this.starMemories.updateMany(
         { _id: { $in: newStarMemoryIds } },
         { $set: { constellation: constellationId } }
       );
@@ -255,7 +271,7 @@ class ConstellationService extends EventEmitter {
 
       return {
         success: true,
-        constellation: result as IConstellation,
+        constellation: result as ConstellationRecord,
         rewards: expansionReward
       };
 
@@ -269,34 +285,32 @@ class ConstellationService extends EventEmitter {
   // Queries
   // ==========================================
 
-  async getPlayerConstellations(playerId: string): Promise<IConstellation[]> {
-    return Constellation.find({ playerIds: playerId }).sort({ formedAt: -1 });
+  async getPlayerConstellations(playerId: string): Promise<ConstellationRecord[]> {
+    return this.constellations.find({ playerIds: playerId }, { sort: { formedAt: -1 } });
   }
 
-  async getConstellation(constellationId: string): Promise<IConstellation | null> {
-    return Constellation.findById(constellationId);
+  async getConstellation(constellationId: string): Promise<ConstellationRecord | null> {
+    return this.constellations.findOne({ _id: constellationId });
   }
 
-  async getConstellationByName(name: string): Promise<IConstellation | null> {
-    return Constellation.findOne({ name });
+  async getConstellationByName(name: string): Promise<ConstellationRecord | null> {
+    return this.constellations.findOne({ name });
   }
 
-  async getRealmConstellations(realmId: string, limit: number = 50): Promise<IConstellation[]> {
-    return Constellation.find({ realmId })
-      .sort({ formedAt: -1 })
-      .limit(limit);
+  async getRealmConstellations(realmId: string, limit: number = 50): Promise<ConstellationRecord[]> {
+    return this.constellations.find({ realmId }, { sort: { formedAt: -1 }, limit });
   }
 
   async getConstellationWithStars(constellationId: string): Promise<{
-    constellation: IConstellation | null;
-    starMemories: IStarMemory[];
+    constellation: ConstellationRecord | null;
+    starMemories: StarMemoryRecord[];
   }> {
-    const constellation = await Constellation.findById(constellationId);
+    const constellation = await this.constellations.findOne({ _id: constellationId });
     if (!constellation) {
       return { constellation: null, starMemories: [] };
     }
 
-    const starMemories = await StarMemory.find({
+    const starMemories = await this.starMemories.find({
       _id: { $in: constellation.starMemoryIds }
     });
 
@@ -345,7 +359,7 @@ class ConstellationService extends EventEmitter {
     suggestedRarity: string;
   }>> {
     // Get all star memories involving this player that aren't in constellations
-    const starMemories = await StarMemory.find({
+    const starMemories = await this.starMemories.find({
       $or: [{ player1Id: playerId }, { player2Id: playerId }],
       constellation: { $exists: false }
     });
@@ -387,7 +401,7 @@ class ConstellationService extends EventEmitter {
     return 'common';
   }
 
-  private calculateShape(starMemories: IStarMemory[]): Array<{ from: { x: number; y: number }; to: { x: number; y: number } }> {
+  private calculateShape(starMemories: StarMemoryRecord[]): Array<{ from: { x: number; y: number }; to: { x: number; y: number } }> {
     const shape: Array<{ from: { x: number; y: number }; to: { x: number; y: number } }> = [];
 
     // Get positions from star memories
@@ -420,14 +434,12 @@ class ConstellationService extends EventEmitter {
     return shape;
   }
 
-  private determineBonusType(starMemories: IStarMemory[]): string {
-    // Analyze bond levels to determine bonus type
+  private determineBonusType(starMemories: StarMemoryRecord[]): ConstellationRecord['bonusType'] {
+    // Analyze bond levels to determine bonus type (the model only stores xp or stardust boosts)
     const bondLevelSum = starMemories.reduce((sum, sm) => sum + ((sm as any).bondLevel || 0), 0);
     const avgBondLevel = bondLevelSum / starMemories.length;
 
-    if (avgBondLevel >= 8) return 'xp_boost';
-    if (avgBondLevel >= 5) return 'stardust_boost';
-    return 'bond_boost';
+    return avgBondLevel >= 8 ? 'xp' : 'stardust';
   }
 
   private generateConstellationName(): string {
@@ -446,24 +458,26 @@ class ConstellationService extends EventEmitter {
     constellationId: string
   ): Promise<void> {
     for (const playerId of playerIds) {
-      const player = await PlayerData.findOne({ playerId });
+      // Grant XP, and the cosmetic if applicable
+      const player = await this.players.update(
+        { playerId },
+        {
+          $inc: { xp: rewards.xp },
+          ...(rewards.cosmetic ? { $addToSet: { 'cosmetics.ownedItems': rewards.cosmetic } } : {})
+        }
+      );
       if (!player) continue;
 
       // Grant stardust
-      player.stardust = (player.stardust || 0) + rewards.stardust;
-
-      // Grant XP
-      player.xp = (player.xp || 0) + rewards.xp;
-
-      // Grant cosmetic if applicable
-      if (rewards.cosmetic) {
-        if (!player.cosmetics.ownedItems.includes(rewards.cosmetic)) {
-          player.cosmetics.ownedItems.push(rewards.cosmetic);
-        }
+      if (rewards.stardust > 0) {
+        await ledgerService.credit(playerId, 'stardust', rewards.stardust, {
+          source: 'constellation',
+          reason: 'completion',
+          idempotencyKey: `constellation:${constellationId}:${playerId}`,
+          metadata: { constellationId }
+        });
       }
 
-      await player.save();
-
       this.emit('reward_distributed', {
         playerId,
         constellationId,
@@ -477,16 +491,16 @@ class ConstellationService extends EventEmitter {
   // ==========================================
 
   async deleteConstellation(constellationId: string): Promise<boolean> {
-    const constellation = await Constellation.findById(constellationId);
+    const constellation = await this.constellations.findOne({ _id: constellationId });
     if (!constellation) return false;
 
     // Remove constellation reference from star memories
-    await StarMemory.updateMany(
+    await this.starMemories.updateMany(
       { constellation: constellationId },
       { $unset: { constellation: 1 } }
     );
 
-    await Constellation.deleteOne({ _id: constellationId });
+    await this.constellations.delete({ _id: constellationId });
 
     this.emit('constellation_deleted', { constellationId });
     return true;
@@ -498,7 +512,7 @@ class ConstellationService extends EventEmitter {
     byRealm: Record<string, number>;
     averageStars: number;
   }> {
-    const constellations = await Constellation.find();
+    const constellations = await this.constellations.find({});
 
     const stats = {
       total: constellations.length,
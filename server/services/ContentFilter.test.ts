@@ -0,0 +1,55 @@
+// =============================================================================
+// ContentFilter Tests - normalization, evasions and false positives
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { ContentFilter, normalizeWord } from './ContentFilter.js';
+
+const filter = new ContentFilter({ masked: ['cheat', 'ass', 'spam'], blocked: ['kys', 'kill yourself'] });
+
+describe('ContentFilter', () => {
+    it('normalizes case, accents and leetspeak', () => {
+        expect(normalizeWord('Ch3@t')).toBe('cheat');
+        expect(normalizeWord('chéat')).toBe('cheat');
+        expect(normalizeWord('s.p.a.m')).toBe('spam');
+    });
+
+    it('masks listed words and keeps the rest of the message', () => {
+        const result = filter.filter('no CH34T plz');
+        expect(result.text).toBe('no ***** plz');
+        expect(result.masked).toEqual(['cheat']);
+        expect(result.blocked).toEqual([]);
+    });
+
+    it('catches stretched, spaced out and plural spellings', () => {
+        expect(filter.filter('cheeeeat').masked).toEqual(['cheat']);
+        expect(filter.filter('c h e a t now').text).toBe('* * * * * now');
+        expect(filter.filter('stop the spams').masked).toEqual(['spam']);
+    });
+
+    it('blocks phrases across words', () => {
+        expect(filter.filter('just k1ll  y0urself').blocked).toEqual(['kill yourself']);
+        expect(filter.filter('k y s').blocked).toEqual(['kys']);
+    });
+
+    it('leaves numbers alone', () => {
+        expect(normalizeWord('455')).toBe('');
+        for (const text of ['I have 455 stardust', 'meet at 4, 5, 5 ok', 'room 5455 at 7:30']) {
+            expect(filter.filter(text)).toEqual({ text, masked: [], blocked: [] });
+        }
+        // A letter in the word still turns its digits into letters
+        expect(filter.filter('a55').masked).toEqual(['ass']);
+    });
+
+    it('does not flag words that merely contain a listed word', () => {
+        for (const text of ['pass the class', 'assassin', 'spammer-free zone?']) {
+            expect(filter.isClean(text)).toBe(true);
+        }
+        expect(filter.isClean('a b')).toBe(true);
+    });
+
+    it('finds listed words run together, for names', () => {
+        expect(filter.containsEmbedded('xXCh3atLordXx')).toBe(true);
+        expect(filter.containsEmbedded('Cassandra')).toBe(false);
+    });
+});
@@ -0,0 +1,206 @@
+// =============================================================================
+// ContentFilter - Word list matching that survives common evasions
+// =============================================================================
+// Text is split into words and each word is normalized before matching:
+//
+// - Case, accents and leetspeak: "Ch3@t", "chéat" -> "cheat" (words with a letter only)
+// - Symbols inside a word: "s.p.a.m", "sh!t" -> "spam", "shit"
+// - Stretched letters: "cheeeeat" -> "cheat"
+// - Spaced out letters: "c h e a t" is joined back into one word
+//
+// Two lists with different consequences:
+// - masked: replaced with asterisks, the message still goes through
+// - blocked: the message is rejected (and the sender gets a strike)
+// Entries may be phrases ("kill yourself"), matched word by word.
+// =============================================================================
+
+export interface WordLists {
+    masked: string[];
+    blocked: string[];
+}
+
+export interface FilterResult {
+    text: string;           // Input with masked and blocked words starred out
+    masked: string[];       // List entries that matched
+    blocked: string[];
+}
+
+export const DEFAULT_WORD_LISTS: WordLists = {
+    masked: [
+        // Original list
+        'spam', 'hack', 'cheat',
+        // Profanity
+        'fuck', 'fucking', 'fucker', 'shit', 'bitch', 'bastard', 'asshole', 'ass',
+        'dick', 'cock', 'pussy', 'cunt', 'crap', 'damn', 'piss', 'wanker', 'twat'
+    ],
+    blocked: [
+        'kys', 'kill yourself', 'go die', 'nazi'
+    ]
+};
+
+const LEET_MAP: Record<string, string> = {
+    '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '8': 'b', '9': 'g',
+    '@': 'a', '$': 's', '!': 'i', '|': 'l', '+': 't', '€': 'e'
+};
+
+interface Token {
+    start: number;
+    end: number;
+    forms: string[];        // Normalized spellings to look up
+}
+
+/**
+ * Lowercase, strip accents, undo leetspeak and drop remaining symbols.
+ * Leetspeak only applies to words with a letter in them, so numbers ("455",
+ * "4, 5, 5") stay numbers.
+ */
+export function normalizeWord(word: string): string {
+    const chars = word.normalize('NFKD').toLowerCase();
+    const leet = /[a-z]/.test(chars);
+    let result = '';
+    for (const char of chars) {
+        const mapped = leet ? LEET_MAP[char] ?? char : char;
+        if (/[a-z]/.test(mapped)) result += mapped;
+    }
+    return result;
+}
+
+/**
+ * Spellings of a normalized word with stretched letters squeezed, so that
+ * "cheeeat" matches "cheat" while "pass" does not turn into "pas" only
+ */
+function wordForms(normalized: string): string[] {
+    const double = normalized.replace(/(.)\1{2,}/g, '$1$1');
+    const single = normalized.replace(/(.)\1+/g, '$1');
+    const forms = new Set([normalized, double, single]);
+    // Simple plurals
+    for (const form of Array.from(forms)) {
+        if (form.length > 3 && form.endsWith('s')) forms.add(form.slice(0, -1));
+    }
+    return Array.from(forms);
+}
+
+export class ContentFilter {
+    private words: Map<string, 'masked' | 'blocked'> = new Map();
+    private phrases: Array<{ words: string[]; entry: string; kind: 'masked' | 'blocked' }> = [];
+    private maxPhraseLength = 1;
+
+    constructor(lists: WordLists = DEFAULT_WORD_LISTS) {
+        this.addList(lists.masked, 'masked');
+        // Blocked wins if a word is on both lists
+        this.addList(lists.blocked, 'blocked');
+    }
+
+    /**
+     * Star out listed words and report which lists matched
+     */
+    filter(text: string): FilterResult {
+        const tokens = this.tokenize(text);
+        const hits: Array<{ start: number; end: number; entry: string; kind: 'masked' | 'blocked' }> = [];
+
+        for (let i = 0; i < tokens.length; i++) {
+            // Phrases first (longest match), then single words
+            for (let n = Math.min(this.maxPhraseLength, tokens.length - i); n >= 1; n--) {
+                const match = this.matchAt(tokens, i, n);
+                if (match) {
+                    hits.push({ start: tokens[i].start, end: tokens[i + n - 1].end, ...match });
+                    i += n - 1;
+                    break;
+                }
+            }
+        }
+
+        let result = text;
+        for (const hit of hits) {
+            const stars = text.slice(hit.start, hit.end).replace(/\S/g, '*');
+            result = result.slice(0, hit.start) + stars + result.slice(hit.end);
+        }
+
+        return {
+            text: result,
+            masked: hits.filter(h => h.kind === 'masked').map(h => h.entry),
+            blocked: hits.filter(h => h.kind === 'blocked').map(h => h.entry)
+        };
+    }
+
+    /**
+     * True when nothing in the text is on either list
+     */
+    isClean(text: string): boolean {
+        const result = this.filter(text);
+        return result.masked.length === 0 && result.blocked.length === 0;
+    }
+
+    /**
+     * Listed words hidden inside longer words ("xXsh1tlordXx"). Too eager for
+     * chat, but fine for names; short entries are skipped to spare "Cassandra".
+     */
+    containsEmbedded(text: string, minLength: number = 4): boolean {
+        const squeezed = wordForms(normalizeWord(text));
+        for (const [word] of this.words) {
+            if (word.length < minLength) continue;
+            if (squeezed.some(form => form.includes(word))) return true;
+        }
+        return this.phrases.some(phrase => squeezed.some(form => form.includes(phrase.words.join(''))));
+    }
+
+    private addList(entries: string[], kind: 'masked' | 'blocked'): void {
+        for (const entry of entries) {
+            const words = entry.split(/\s+/).map(normalizeWord).filter(Boolean);
+            if (words.length === 0) continue;
+
+            if (words.length === 1) {
+                this.words.set(words[0], kind);
+            } else {
+                this.phrases = this.phrases.filter(p => p.entry !== entry);
+                this.phrases.push({ words, entry, kind });
+                this.maxPhraseLength = Math.max(this.maxPhraseLength, words.length);
+            }
+        }
+    }
+
+    /**
+     * Split into words, joining runs of single letters ("s p a m")
+     */
+    private tokenize(text: string): Token[] {
+        const raw: Array<{ start: number; end: number; normalized: string }> = [];
+        const pattern = /\S+/g;
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(text)) !== null) {
+            const normalized = normalizeWord(match[0]);
+            if (normalized) raw.push({ start: match.index, end: match.index + match[0].length, normalized });
+        }
+
+        const tokens: Token[] = [];
+        for (let i = 0; i < raw.length; i++) {
+            let j = i;
+            while (j < raw.length && raw[j].normalized.length === 1) j++;
+
+            if (j - i >= 3) {
+                const joined = raw.slice(i, j).map(t => t.normalized).join('');
+                tokens.push({ start: raw[i].start, end: raw[j - 1].end, forms: wordForms(joined) });
+                i = j - 1;
+            } else {
+                tokens.push({ start: raw[i].start, end: raw[i].end, forms: wordForms(raw[i].normalized) });
+            }
+        }
+        return tokens;
+    }
+
+    private matchAt(tokens: Token[], index: number, length: number): { entry: string; kind: 'masked' | 'blocked' } | null {
+        if (length === 1) {
+            for (const form of tokens[index].forms) {
+                const kind = this.words.get(form);
+                if (kind) return { entry: form, kind };
+            }
+            return null;
+        }
+
+        for (const phrase of this.phrases) {
+            if (phrase.words.length !== length) continue;
+            const matches = phrase.words.every((word, k) => tokens[index + k].forms.includes(word));
+            if (matches) return { entry: phrase.entry, kind: phrase.kind };
+        }
+        return null;
+    }
+}
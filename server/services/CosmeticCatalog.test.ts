@@ -0,0 +1,66 @@
+// =============================================================================
+// CosmeticCatalog Tests - server-side prices and purchase eligibility
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { COSMETIC_CATALOG, checkStardustPurchase, getCosmeticItem, type CosmeticItem } from './CosmeticCatalog.js';
+
+const base = { level: 1, seasonPassTier: 0 };
+
+function item(overrides: Partial<CosmeticItem>): CosmeticItem {
+    return { id: 'test_item', type: 'trail', name: 'Test', description: '', rarity: 'common', stardustPrice: 100, ...overrides };
+}
+
+describe('CosmeticCatalog', () => {
+    it('has unique ids', () => {
+        const ids = COSMETIC_CATALOG.map(entry => entry.id);
+        expect(new Set(ids).size).toBe(ids.length);
+    });
+
+    it('prices client storefront items as the shop shows them', () => {
+        expect(getCosmeticItem('trail_galaxy')?.stardustPrice).toBe(5000);
+        expect(getCosmeticItem('color_rainbow')?.stardustPrice).toBe(5000);
+        expect(getCosmeticItem('aura_void')?.stardustPrice).toBe(5500);
+        expect(getCosmeticItem('sound_chime')?.stardustPrice).toBe(200);
+        expect(getCosmeticItem('frame_simple')?.stardustPrice).toBe(100);
+    });
+
+    it('returns the catalog price for purchasable items', () => {
+        expect(checkStardustPurchase(getCosmeticItem('trail_galaxy'), base)).toEqual({ allowed: true, price: 5000 });
+    });
+
+    it('rejects unknown ids', () => {
+        const result = checkStardustPurchase(getCosmeticItem('trail_free_stuff'), base);
+        expect(result.allowed).toBe(false);
+        expect(result.error).toBe('Unknown cosmetic');
+    });
+
+    it('rejects items without a stardust price', () => {
+        // Crystal-only and gameplay-only items
+        expect(checkStardustPurchase(getCosmeticItem('trail_nebula'), base).allowed).toBe(false);
+        expect(checkStardustPurchase(getCosmeticItem('title_explorer'), base).allowed).toBe(false);
+    });
+
+    it('enforces level requirements', () => {
+        const gated = item({ unlockCondition: { type: 'level', value: 50 } });
+        expect(checkStardustPurchase(gated, { ...base, level: 49 }).error).toBe('Requires level 50');
+        expect(checkStardustPurchase(gated, { ...base, level: 50 }).allowed).toBe(true);
+    });
+
+    it('enforces season pass tier requirements', () => {
+        const gated = item({ unlockCondition: { type: 'season', value: 10 } });
+        expect(checkStardustPurchase(gated, { ...base, seasonPassTier: 9 }).allowed).toBe(false);
+        expect(checkStardustPurchase(gated, { ...base, seasonPassTier: 10 }).allowed).toBe(true);
+    });
+
+    it('never sells achievement rewards', () => {
+        const reward = item({ unlockCondition: { type: 'achievement', value: 'void_master' } });
+        expect(checkStardustPurchase(reward, { level: 100, seasonPassTier: 100 }).allowed).toBe(false);
+    });
+
+    it('stops selling limited items after they expire', () => {
+        const limited = item({ isLimited: true, expiresAt: 1000 });
+        expect(checkStardustPurchase(limited, { ...base, now: 999 }).allowed).toBe(true);
+        expect(checkStardustPurchase(limited, { ...base, now: 1000 }).error).toBe('This cosmetic is no longer available');
+    });
+});
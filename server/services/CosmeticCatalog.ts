@@ -0,0 +1,201 @@
+// =============================================================================
+// Cosmetic Catalog - Authoritative cosmetic definitions and prices
+// =============================================================================
+// Every stardust/crystal price the server charges comes from here; prices sent
+// by clients are ignored. Items marked "Storefront" mirror the client shop in
+// src/constants/cosmetics.ts (ids are `<type>_<key>`); the client's
+// cosmetics.test.ts fails unless every item the shop sells has an entry here
+// with the same name, rarity and price.
+
+export type CosmeticType = 'trail' | 'color' | 'aura' | 'title' | 'frame' | 'emote' | 'sound';
+export type CosmeticRarity = 'common' | 'uncommon' | 'rare' | 'epic' | 'legendary' | 'mythic';
+
+export interface CosmeticItem {
+    id: string;
+    type: CosmeticType;
+    name: string;
+    description: string;
+    rarity: CosmeticRarity;
+    stardustPrice?: number;
+    crystalPrice?: number;
+    unlockCondition?: {
+        type: 'level' | 'achievement' | 'quest' | 'event' | 'reputation' | 'season';
+        value: string | number;
+    };
+    isLimited?: boolean;
+    expiresAt?: number;
+    setId?: string; // For cosmetic sets
+    metadata?: Record<string, any>;
+}
+
+export interface PurchaseRequirements {
+    level: number;
+    seasonPassTier: number;
+    now?: number;
+}
+
+export interface PurchaseEligibility {
+    allowed: boolean;
+    price?: number;
+    error?: string;
+}
+
+// =========================================================================
+// Catalog
+// =========================================================================
+
+export const COSMETIC_CATALOG: CosmeticItem[] = [
+    // === TRAILS ===
+    { id: 'trail_basic', type: 'trail', name: 'Basic Trail', description: 'A simple light trail', rarity: 'common', stardustPrice: 100 },
+    { id: 'trail_shimmer', type: 'trail', name: 'Shimmer Trail', description: 'A shimmering light path', rarity: 'uncommon', stardustPrice: 500 },
+    { id: 'trail_sparkle', type: 'trail', name: 'Sparkle Trail', description: 'Leaves sparkles behind', rarity: 'uncommon', stardustPrice: 750 },
+    { id: 'trail_rainbow', type: 'trail', name: 'Rainbow', description: 'Rainbow light trail', rarity: 'rare', stardustPrice: 800 },
+    { id: 'trail_stardust', type: 'trail', name: 'Stardust Trail', description: 'Made of actual stardust', rarity: 'rare', stardustPrice: 2500 },
+    { id: 'trail_cosmic', type: 'trail', name: 'Cosmic', description: 'Galaxy swirls', rarity: 'legendary', stardustPrice: 2500, crystalPrice: 200 },
+    { id: 'trail_nebula', type: 'trail', name: 'Nebula Trail', description: 'A nebula follows you', rarity: 'epic', crystalPrice: 500 },
+    { id: 'trail_aurora', type: 'trail', name: 'Aurora', description: 'Northern lights dance', rarity: 'legendary', stardustPrice: 2000, crystalPrice: 1000 },
+    { id: 'trail_void', type: 'trail', name: 'Void Trail', description: 'A trail of pure darkness', rarity: 'legendary', crystalPrice: 1500, unlockCondition: { type: 'achievement', value: 'void_master' } },
+    // Storefront
+    { id: 'trail_stars', type: 'trail', name: 'Stars', description: 'Leave stars behind', rarity: 'uncommon', stardustPrice: 300 },
+    { id: 'trail_hearts', type: 'trail', name: 'Hearts', description: 'Love in motion', rarity: 'uncommon', stardustPrice: 400 },
+    { id: 'trail_waves', type: 'trail', name: 'Waves', description: 'Flowing water trails', rarity: 'uncommon', stardustPrice: 400 },
+    { id: 'trail_bubbles', type: 'trail', name: 'Bubbles', description: 'Float with bubbles', rarity: 'rare', stardustPrice: 500 },
+    { id: 'trail_petals', type: 'trail', name: 'Petals', description: 'Cherry blossom petals', rarity: 'rare', stardustPrice: 600 },
+    { id: 'trail_constellation', type: 'trail', name: 'Constellation', description: 'Connected star patterns', rarity: 'epic', stardustPrice: 1000 },
+    { id: 'trail_lightning', type: 'trail', name: 'Lightning', description: 'Electric arcs follow', rarity: 'epic', stardustPrice: 1000 },
+    { id: 'trail_snowflakes', type: 'trail', name: 'Snowflakes', description: 'Winter wonderland', rarity: 'rare', stardustPrice: 800 },
+    { id: 'trail_fire', type: 'trail', name: 'Fire', description: 'Blazing flame trail', rarity: 'epic', stardustPrice: 1200 },
+    { id: 'trail_phoenix', type: 'trail', name: 'Phoenix', description: 'Rise from ashes', rarity: 'legendary', stardustPrice: 3000 },
+    { id: 'trail_galaxy', type: 'trail', name: 'Galaxy', description: 'Universe in motion', rarity: 'legendary', stardustPrice: 5000 },
+
+    // === COLORS ===
+    { id: 'color_crimson', type: 'color', name: 'Crimson', description: 'Deep red glow', rarity: 'rare', stardustPrice: 1000 },
+    { id: 'color_azure', type: 'color', name: 'Azure', description: 'Sky blue glow', rarity: 'uncommon', stardustPrice: 400 },
+    { id: 'color_emerald', type: 'color', name: 'Emerald', description: 'Forest green light', rarity: 'uncommon', stardustPrice: 400 },
+    { id: 'color_violet', type: 'color', name: 'Violet', description: 'Mystical violet glow', rarity: 'rare', stardustPrice: 500 },
+    { id: 'color_gold', type: 'color', name: 'Gold', description: 'Golden radiance', rarity: 'rare', stardustPrice: 1500 },
+    { id: 'color_prismatic', type: 'color', name: 'Prismatic', description: 'Shifts through all colors', rarity: 'epic', crystalPrice: 400 },
+    { id: 'color_void_black', type: 'color', name: 'Void Black', description: 'Absorbs all light', rarity: 'legendary', crystalPrice: 800 },
+    { id: 'color_cosmic_white', type: 'color', name: 'Cosmic White', description: 'Pure starlight', rarity: 'legendary', crystalPrice: 800 },
+    // Storefront
+    { id: 'color_rose', type: 'color', name: 'Rose', description: 'Soft rose light', rarity: 'uncommon', stardustPrice: 300 },
+    { id: 'color_coral', type: 'color', name: 'Coral', description: 'Warm coral light', rarity: 'rare', stardustPrice: 500 },
+    { id: 'color_mint', type: 'color', name: 'Mint', description: 'Fresh mint glow', rarity: 'rare', stardustPrice: 600 },
+    { id: 'color_golden', type: 'color', name: 'Golden', description: 'Royal golden light', rarity: 'rare', stardustPrice: 700 },
+    { id: 'color_ice', type: 'color', name: 'Ice', description: 'Frozen blue light', rarity: 'rare', stardustPrice: 700 },
+    { id: 'color_cyan', type: 'color', name: 'Cyan', description: 'Electric cyan light', rarity: 'epic', stardustPrice: 1200 },
+    { id: 'color_magenta', type: 'color', name: 'Magenta', description: 'Vivid magenta glow', rarity: 'epic', stardustPrice: 1200 },
+    { id: 'color_sunburst', type: 'color', name: 'Sunburst', description: 'Radiant solar light', rarity: 'legendary', stardustPrice: 2000 },
+    { id: 'color_rainbow', type: 'color', name: 'Rainbow Shift', description: 'Cycles through colors', rarity: 'legendary', stardustPrice: 5000 },
+
+    // === AURAS ===
+    { id: 'aura_soft_glow', type: 'aura', name: 'Soft Glow', description: 'A gentle ambient light', rarity: 'common', stardustPrice: 300 },
+    { id: 'aura_pulsing', type: 'aura', name: 'Pulsing Energy', description: 'Rhythmic pulses', rarity: 'epic', stardustPrice: 1500 },
+    { id: 'aura_flames', type: 'aura', name: 'Flame Aura', description: 'Surrounded by flames', rarity: 'rare', stardustPrice: 2000 },
+    { id: 'aura_frost', type: 'aura', name: 'Frost Aura', description: 'Icy crystals surround you', rarity: 'rare', stardustPrice: 2000 },
+    { id: 'aura_ethereal', type: 'aura', name: 'Ethereal Aura', description: 'Ghostly wisps circle you', rarity: 'epic', crystalPrice: 600 },
+    { id: 'aura_legendary', type: 'aura', name: 'Legendary Aura', description: 'A legendary presence', rarity: 'legendary', crystalPrice: 1200, unlockCondition: { type: 'level', value: 50 } },
+    // Storefront
+    { id: 'aura_gentle', type: 'aura', name: 'Gentle Glow', description: 'Soft ambient glow', rarity: 'uncommon', stardustPrice: 500 },
+    { id: 'aura_sparkle', type: 'aura', name: 'Sparkle Ring', description: 'Sparkling particles', rarity: 'uncommon', stardustPrice: 700 },
+    { id: 'aura_radiant', type: 'aura', name: 'Radiant Halo', description: 'Bright halo effect', rarity: 'rare', stardustPrice: 1000 },
+    { id: 'aura_flame', type: 'aura', name: 'Flame Aura', description: 'Flickering flames', rarity: 'rare', stardustPrice: 1200 },
+    { id: 'aura_electric', type: 'aura', name: 'Electric Field', description: 'Lightning arcs', rarity: 'epic', stardustPrice: 2000 },
+    { id: 'aura_cosmic', type: 'aura', name: 'Cosmic Field', description: 'Swirling stars', rarity: 'legendary', stardustPrice: 2500 },
+    { id: 'aura_divine', type: 'aura', name: 'Divine Radiance', description: 'Heavenly light', rarity: 'legendary', stardustPrice: 5000 },
+    { id: 'aura_celestial', type: 'aura', name: 'Celestial Halo', description: 'Starry celestial glow', rarity: 'legendary', stardustPrice: 3000 },
+    { id: 'aura_aurora', type: 'aura', name: 'Aurora Borealis', description: 'Northern lights effect', rarity: 'legendary', stardustPrice: 3500 },
+    { id: 'aura_galaxy', type: 'aura', name: 'Galaxy Spiral', description: 'Swirling galaxy effect', rarity: 'legendary', stardustPrice: 4000 },
+    { id: 'aura_phoenix', type: 'aura', name: 'Phoenix Wings', description: 'Flame/ember aura effect', rarity: 'legendary', stardustPrice: 4500 },
+    { id: 'aura_crystal', type: 'aura', name: 'Crystal Prism', description: 'Crystalline sparkles', rarity: 'epic', stardustPrice: 2800 },
+    { id: 'aura_void', type: 'aura', name: 'Void Essence', description: 'Dark ethereal aura', rarity: 'legendary', stardustPrice: 5500 },
+    { id: 'aura_prism', type: 'aura', name: 'Prism Refraction', description: 'Rainbow refraction', rarity: 'epic', stardustPrice: 3200 },
+    { id: 'aura_nature', type: 'aura', name: 'Nature Spirit', description: 'Organic leaf effect', rarity: 'epic', stardustPrice: 2200 },
+
+    // === TITLES ===
+    { id: 'title_explorer', type: 'title', name: 'Explorer', description: 'Wanderer of realms', rarity: 'common', unlockCondition: { type: 'achievement', value: 'first_steps' } },
+    { id: 'title_collector', type: 'title', name: 'Collector', description: 'Gatherer of treasures', rarity: 'uncommon', unlockCondition: { type: 'achievement', value: 'collect_100' } },
+    { id: 'title_guardian', type: 'title', name: 'Guardian', description: 'Protector of realms', rarity: 'rare', unlockCondition: { type: 'reputation', value: 'guardian_5' } },
+    { id: 'title_beacon_keeper', type: 'title', name: 'Beacon Keeper', description: 'Keeper of the light', rarity: 'rare', unlockCondition: { type: 'reputation', value: 'beacon_keeper_5' } },
+    { id: 'title_stargazer', type: 'title', name: 'Stargazer', description: 'Eyes on the cosmos', rarity: 'epic', crystalPrice: 500 },
+    { id: 'title_cosmic_traveler', type: 'title', name: 'Cosmic Traveler', description: 'Journeys through the stars', rarity: 'epic', unlockCondition: { type: 'achievement', value: 'visit_all_realms' } },
+    { id: 'title_celestial', type: 'title', name: 'Celestial', description: 'One with the cosmos', rarity: 'legendary', unlockCondition: { type: 'level', value: 100 } },
+    { id: 'title_eternal', type: 'title', name: 'Eternal', description: 'Beyond time itself', rarity: 'legendary', unlockCondition: { type: 'achievement', value: 'eternal_light' } },
+    { id: 'title_transcendent', type: 'title', name: 'Transcendent', description: 'Ascended being', rarity: 'mythic', unlockCondition: { type: 'achievement', value: 'transcendence' } },
+
+    // === FRAMES ===
+    { id: 'frame_basic', type: 'frame', name: 'Basic Frame', description: 'Simple profile frame', rarity: 'common', stardustPrice: 250 },
+    { id: 'frame_ornate', type: 'frame', name: 'Ornate Frame', description: 'Decorated frame', rarity: 'uncommon', stardustPrice: 600 },
+    { id: 'frame_golden', type: 'frame', name: 'Golden', description: 'Prestigious gold frame', rarity: 'uncommon', stardustPrice: 300 },
+    { id: 'frame_diamond', type: 'frame', name: 'Diamond Frame', description: 'Crystalline frame', rarity: 'epic', crystalPrice: 700 },
+    { id: 'frame_celestial', type: 'frame', name: 'Celestial', description: 'Orbiting stars frame', rarity: 'epic', stardustPrice: 1000, crystalPrice: 1500 },
+    // Storefront
+    { id: 'frame_simple', type: 'frame', name: 'Simple', description: 'Clean white border', rarity: 'common', stardustPrice: 100 },
+    { id: 'frame_rose', type: 'frame', name: 'Rose', description: 'Romantic pink frame', rarity: 'uncommon', stardustPrice: 350 },
+    { id: 'frame_ocean', type: 'frame', name: 'Ocean', description: 'Deep sea blue frame', rarity: 'rare', stardustPrice: 400 },
+    { id: 'frame_emerald', type: 'frame', name: 'Emerald', description: 'Nature\'s embrace', rarity: 'rare', stardustPrice: 400 },
+    { id: 'frame_flame', type: 'frame', name: 'Flame', description: 'Burning ember frame', rarity: 'rare', stardustPrice: 500 },
+    { id: 'frame_frost', type: 'frame', name: 'Frost', description: 'Icy crystal frame', rarity: 'rare', stardustPrice: 500 },
+    { id: 'frame_cosmic', type: 'frame', name: 'Cosmic', description: 'Galaxy swirl frame', rarity: 'epic', stardustPrice: 750 },
+
+    // === EMOTES ===
+    { id: 'emote_wave', type: 'emote', name: 'Wave', description: 'Friendly wave', rarity: 'common', stardustPrice: 100 },
+    { id: 'emote_dance', type: 'emote', name: 'Dance', description: 'Happy dance', rarity: 'uncommon', stardustPrice: 400 },
+    { id: 'emote_fireworks', type: 'emote', name: 'Fireworks', description: 'Celebration!', rarity: 'rare', stardustPrice: 1200 },
+    { id: 'emote_hearts', type: 'emote', name: 'Hearts', description: 'Spread love', rarity: 'rare', stardustPrice: 1000 },
+    { id: 'emote_explosion', type: 'emote', name: 'Explosion', description: 'Dramatic effect', rarity: 'epic', crystalPrice: 350 },
+    { id: 'emote_rainbow', type: 'emote', name: 'Rainbow', description: 'Colorful display', rarity: 'epic', crystalPrice: 400 },
+    { id: 'emote_supernova', type: 'emote', name: 'Supernova', description: 'Star explosion', rarity: 'legendary', crystalPrice: 900 },
+
+    // === SOUND PACKS ===
+    { id: 'sound_chime', type: 'sound', name: 'Crystal Chime', description: 'Delicate crystalline tones', rarity: 'uncommon', stardustPrice: 200 },
+    { id: 'sound_retro', type: 'sound', name: 'Retro 8-Bit', description: 'Classic game sounds', rarity: 'uncommon', stardustPrice: 300 },
+    { id: 'sound_nature', type: 'sound', name: 'Forest', description: 'Organic nature sounds', rarity: 'rare', stardustPrice: 350 },
+    { id: 'sound_cosmic', type: 'sound', name: 'Cosmic', description: 'Deep space resonance', rarity: 'rare', stardustPrice: 500 },
+    { id: 'sound_electric', type: 'sound', name: 'Electric', description: 'High energy electric buzz', rarity: 'epic', stardustPrice: 600 },
+    { id: 'sound_ethereal', type: 'sound', name: 'Ethereal', description: 'Ghostly whispers', rarity: 'epic', stardustPrice: 800 },
+];
+
+const COSMETIC_MAP = new Map<string, CosmeticItem>();
+COSMETIC_CATALOG.forEach(item => COSMETIC_MAP.set(item.id, item));
+
+export function getCosmeticItem(itemId: string): CosmeticItem | null {
+    return COSMETIC_MAP.get(itemId) || null;
+}
+
+/**
+ * Check whether an item can be bought with stardust right now and at what
+ * price. Items gated behind achievements, quests, events or reputation are
+ * never sold; level and season pass gates must be met first.
+ */
+export function checkStardustPurchase(item: CosmeticItem | null, requirements: PurchaseRequirements): PurchaseEligibility {
+    if (!item) {
+        return { allowed: false, error: 'Unknown cosmetic' };
+    }
+
+    if (!item.stardustPrice || item.stardustPrice <= 0) {
+        return { allowed: false, error: 'This cosmetic cannot be bought with stardust' };
+    }
+
+    const now = requirements.now ?? Date.now();
+    if (item.expiresAt && now >= item.expiresAt) {
+        return { allowed: false, error: 'This cosmetic is no longer available' };
+    }
+
+    const condition = item.unlockCondition;
+    if (condition) {
+        if (condition.type === 'level') {
+            if (requirements.level < Number(condition.value)) {
+                return { allowed: false, error: `Requires level ${condition.value}` };
+            }
+        } else if (condition.type === 'season') {
+            if (requirements.seasonPassTier < Number(condition.value)) {
+                return { allowed: false, error: `Requires season pass tier ${condition.value}` };
+            }
+        } else {
+            return { allowed: false, error: 'This cosmetic must be unlocked through gameplay' };
+        }
+    }
+
+    return { allowed: true, price: item.stardustPrice };
+}
@@ -5,27 +5,13 @@
 
 import { EventEmitter } from 'events';
 import { mongoPersistence } from './MongoPersistenceService.js';
+import { PlayerData } from '../database/playerDataModel.js';
+import { persistence } from '../persistence/index.js';
+import type { Repository } from '../persistence/index.js';
+import type { PlayerDataRecord } from './PlayerDataService.js';
+import { COSMETIC_CATALOG, getCosmeticItem, type CosmeticItem, type CosmeticType } from './CosmeticCatalog.js';
 
-export type CosmeticType = 'trail' | 'color' | 'aura' | 'title' | 'frame' | 'emote';
-export type CosmeticRarity = 'common' | 'uncommon' | 'rare' | 'epic' | 'legendary' | 'mythic';
-
-export interface CosmeticItem {
-    id: string;
-    type: CosmeticType;
-    name: string;
-    description: string;
-    rarity: CosmeticRarity;
-    stardustPrice?: number;
-    crystalPrice?: number;
-    unlockCondition?: {
-        type: 'level' | 'achievement' | 'quest' | 'event' | 'reputation' | 'season';
-        value: string | number;
-    };
-    isLimited?: boolean;
-    expiresAt?: number;
-    setId?: string; // For cosmetic sets
-    metadata?: Record<string, any>;
-}
+export type { CosmeticItem, CosmeticType, CosmeticRarity } from './CosmeticCatalog.js';
 
 export interface OwnedCosmetic {
     itemId: string;
@@ -50,74 +36,14 @@ export interface PlayerCosmetics {
     lastUpdated: number;
 }
 
-// =========================================================================
-// Cosmetic Catalog
-// =========================================================================
-
-const COSMETIC_CATALOG: CosmeticItem[] = [
-    // === TRAILS ===
-    { id: 'trail_basic', type: 'trail', name: 'Basic Trail', description: 'A simple light trail', rarity: 'common', stardustPrice: 100 },
-    { id: 'trail_shimmer', type: 'trail', name: 'Shimmer Trail', description: 'A shimmering light path', rarity: 'uncommon', stardustPrice: 500 },
-    { id: 'trail_sparkle', type: 'trail', name: 'Sparkle Trail', description: 'Leaves sparkles behind', rarity: 'uncommon', stardustPrice: 750 },
-    { id: 'trail_rainbow', type: 'trail', name: 'Rainbow Trail', description: 'A colorful rainbow trail', rarity: 'rare', stardustPrice: 2000 },
-    { id: 'trail_stardust', type: 'trail', name: 'Stardust Trail', description: 'Made of actual stardust', rarity: 'rare', stardustPrice: 2500 },
-    { id: 'trail_cosmic', type: 'trail', name: 'Cosmic Trail', description: 'Trails of cosmic energy', rarity: 'epic', stardustPrice: 5000, crystalPrice: 200 },
-    { id: 'trail_nebula', type: 'trail', name: 'Nebula Trail', description: 'A nebula follows you', rarity: 'epic', crystalPrice: 500 },
-    { id: 'trail_aurora', type: 'trail', name: 'Aurora Trail', description: 'Northern lights trail', rarity: 'legendary', crystalPrice: 1000 },
-    { id: 'trail_void', type: 'trail', name: 'Void Trail', description: 'A trail of pure darkness', rarity: 'legendary', crystalPrice: 1500, unlockCondition: { type: 'achievement', value: 'void_master' } },
-
-    // === COLORS ===
-    { id: 'color_crimson', type: 'color', name: 'Crimson', description: 'Deep red glow', rarity: 'common', stardustPrice: 200 },
-    { id: 'color_azure', type: 'color', name: 'Azure', description: 'Bright blue glow', rarity: 'common', stardustPrice: 200 },
-    { id: 'color_emerald', type: 'color', name: 'Emerald', description: 'Rich green glow', rarity: 'common', stardustPrice: 200 },
-    { id: 'color_violet', type: 'color', name: 'Violet', description: 'Royal purple glow', rarity: 'uncommon', stardustPrice: 400 },
-    { id: 'color_gold', type: 'color', name: 'Gold', description: 'Golden radiance', rarity: 'rare', stardustPrice: 1500 },
-    { id: 'color_prismatic', type: 'color', name: 'Prismatic', description: 'Shifts through all colors', rarity: 'epic', crystalPrice: 400 },
-    { id: 'color_void_black', type: 'color', name: 'Void Black', description: 'Absorbs all light', rarity: 'legendary', crystalPrice: 800 },
-    { id: 'color_cosmic_white', type: 'color', name: 'Cosmic White', description: 'Pure starlight', rarity: 'legendary', crystalPrice: 800 },
-
-    // === AURAS ===
-    { id: 'aura_soft_glow', type: 'aura', name: 'Soft Glow', description: 'A gentle ambient light', rarity: 'common', stardustPrice: 300 },
-    { id: 'aura_pulsing', type: 'aura', name: 'Pulsing Aura', description: 'Light that pulses rhythmically', rarity: 'uncommon', stardustPrice: 800 },
-    { id: 'aura_flames', type: 'aura', name: 'Flame Aura', description: 'Surrounded by flames', rarity: 'rare', stardustPrice: 2000 },
-    { id: 'aura_frost', type: 'aura', name: 'Frost Aura', description: 'Icy crystals surround you', rarity: 'rare', stardustPrice: 2000 },
-    { id: 'aura_ethereal', type: 'aura', name: 'Ethereal Aura', description: 'Ghostly wisps circle you', rarity: 'epic', crystalPrice: 600 },
-    { id: 'aura_legendary', type: 'aura', name: 'Legendary Aura', description: 'A legendary presence', rarity: 'legendary', crystalPrice: 1200, unlockCondition: { type: 'level', value: 50 } },
-
-    // === TITLES ===
-    { id: 'title_explorer', type: 'title', name: 'Explorer', description: 'Wanderer of realms', rarity: 'common', unlockCondition: { type: 'achievement', value: 'first_steps' } },
-    { id: 'title_collector', type: 'title', name: 'Collector', description: 'Gatherer of treasures', rarity: 'uncommon', unlockCondition: { type: 'achievement', value: 'collect_100' } },
-    { id: 'title_guardian', type: 'title', name: 'Guardian', description: 'Protector of realms', rarity: 'rare', unlockCondition: { type: 'reputation', value: 'guardian_5' } },
-    { id: 'title_beacon_keeper', type: 'title', name: 'Beacon Keeper', description: 'Keeper of the light', rarity: 'rare', unlockCondition: { type: 'reputation', value: 'beacon_keeper_5' } },
-    { id: 'title_stargazer', type: 'title', name: 'Stargazer', description: 'Eyes on the cosmos', rarity: 'epic', crystalPrice: 500 },
-    { id: 'title_cosmic_traveler', type: 'title', name: 'Cosmic Traveler', description: 'Journeys through the stars', rarity: 'epic', unlockCondition: { type: 'achievement', value: 'visit_all_realms' } },
-    { id: 'title_celestial', type: 'title', name: 'Celestial', description: 'One with the cosmos', rarity: 'legendary', unlockCondition: { type: 'level', value: 100 } },
-    { id: 'title_eternal', type: 'title', name: 'Eternal', description: 'Beyond time itself', rarity: 'legendary', unlockCondition: { type: 'achievement', value: 'eternal_light' } },
-    { id: 'title_transcendent', type: 'title', name: 'Transcendent', description: 'Ascended being', rarity: 'mythic', unlockCondition: { type: 'achievement', value: 'transcendence' } },
-
-    // === FRAMES ===
-    { id: 'frame_basic', type: 'frame', name: 'Basic Frame', description: 'Simple profile frame', rarity: 'common', stardustPrice: 250 },
-    { id: 'frame_ornate', type: 'frame', name: 'Ornate Frame', description: 'Decorated frame', rarity: 'uncommon', stardustPrice: 600 },
-    { id: 'frame_golden', type: 'frame', name: 'Golden Frame', description: 'Gilded frame', rarity: 'rare', stardustPrice: 1800 },
-    { id: 'frame_diamond', type: 'frame', name: 'Diamond Frame', description: 'Crystalline frame', rarity: 'epic', crystalPrice: 700 },
-    { id: 'frame_celestial', type: 'frame', name: 'Celestial Frame', description: 'Cosmic energy frame', rarity: 'legendary', crystalPrice: 1500 },
-
-    // === EMOTES ===
-    { id: 'emote_wave', type: 'emote', name: 'Wave', description: 'Friendly wave', rarity: 'common', stardustPrice: 100 },
-    { id: 'emote_dance', type: 'emote', name: 'Dance', description: 'Happy dance', rarity: 'uncommon', stardustPrice: 400 },
-    { id: 'emote_fireworks', type: 'emote', name: 'Fireworks', description: 'Celebration!', rarity: 'rare', stardustPrice: 1200 },
-    { id: 'emote_hearts', type: 'emote', name: 'Hearts', description: 'Spread love', rarity: 'rare', stardustPrice: 1000 },
-    { id: 'emote_explosion', type: 'emote', name: 'Explosion', description: 'Dramatic effect', rarity: 'epic', crystalPrice: 350 },
-    { id: 'emote_rainbow', type: 'emote', name: 'Rainbow', description: 'Colorful display', rarity: 'epic', crystalPrice: 400 },
-    { id: 'emote_supernova', type: 'emote', name: 'Supernova', description: 'Star explosion', rarity: 'legendary', crystalPrice: 900 },
-];
-
-// Build lookup map
-const COSMETIC_MAP = new Map<string, CosmeticItem>();
-COSMETIC_CATALOG.forEach(item => COSMETIC_MAP.set(item.id, item));
-
 class CosmeticsService extends EventEmitter {
     private playerCosmetics: Map<string, PlayerCosmetics> = new Map();
+    private players: Repository<PlayerDataRecord>;
+
+    constructor(options: { players?: Repository<PlayerDataRecord> } = {}) {
+        super();
+        this.players = options.players || persistence.repository<PlayerDataRecord>(PlayerData);
+    }
 
     async initialize(): Promise<void> {
         console.log('💎 Cosmetics Service initializing...');
@@ -138,7 +64,7 @@ class CosmeticsService extends EventEmitter {
     }
 
     getItem(itemId: string): CosmeticItem | null {
-        return COSMETIC_MAP.get(itemId) || null;
+        return getCosmeticItem(itemId);
     }
 
     getShopItems(): CosmeticItem[] {
@@ -213,7 +139,7 @@ class CosmeticsService extends EventEmitter {
         cost?: number;
         item?: CosmeticItem;
     }> {
-        const item = COSMETIC_MAP.get(itemId);
+        const item = getCosmeticItem(itemId);
         if (!item) {
             return { success: false, error: 'Item not found' };
         }
@@ -266,7 +192,7 @@ class CosmeticsService extends EventEmitter {
         error?: string;
         alreadyOwned?: boolean;
     }> {
-        const item = COSMETIC_MAP.get(itemId);
+        const item = getCosmeticItem(itemId);
         if (!item) {
             return { success: false, error: 'Item not found' };
         }
@@ -297,7 +223,7 @@ class CosmeticsService extends EventEmitter {
     // =========================================================================
 
     async grantRandomCosmetic(playerId: string, source: string): Promise<string | null> {
-        const allIds = Array.from(COSMETIC_MAP.keys());
+        const allIds = COSMETIC_CATALOG.map(item => item.id);
         if (allIds.length === 0) return null;
 
         const randomId = allIds[Math.floor(Math.random() * allIds.length)];
@@ -314,7 +240,7 @@ class CosmeticsService extends EventEmitter {
         type?: CosmeticType;
         previousEquipped?: string;
     }> {
-        const item = COSMETIC_MAP.get(itemId);
+        const item = getCosmeticItem(itemId);
         if (!item) {
             return { success: false, error: 'Item not found' };
         }
@@ -372,7 +298,7 @@ class CosmeticsService extends EventEmitter {
         success: boolean;
         error?: string;
     }> {
-        const item = COSMETIC_MAP.get(itemId);
+        const item = getCosmeticItem(itemId);
         if (!item) {
             return { success: false, error: 'Item not found' };
         }
@@ -416,9 +342,9 @@ class CosmeticsService extends EventEmitter {
 
         for (const [type, itemId] of Object.entries(cosmetics.equipped)) {
             if (type === 'emote_wheel' && Array.isArray(itemId)) {
-                result.emote_wheel = itemId.map(id => COSMETIC_MAP.get(id)).filter(Boolean);
+                result.emote_wheel = itemId.map(id => getCosmeticItem(id)).filter(Boolean);
             } else if (typeof itemId === 'string') {
-                result[type] = COSMETIC_MAP.get(itemId);
+                result[type] = getCosmeticItem(itemId);
             }
         }
 
@@ -536,7 +462,7 @@ class CosmeticsService extends EventEmitter {
         reason?: string;
         requirement?: { type: string; value: string | number; current?: string | number };
     }> {
-        const item = COSMETIC_MAP.get(itemId);
+        const item = getCosmeticItem(itemId);
         if (!item) {
             return { canUnlock: false, reason: 'Item not found' };
         }
@@ -706,16 +632,10 @@ class CosmeticsService extends EventEmitter {
 
         // Store custom color unlock
         try {
-            if (mongoPersistence.isReady()) {
-                await mongoPersistence.getCollection('custom_colors')?.updateOne(
-                    { playerId },
-                    {
-                        $addToSet: { unlockedColors: normalizedColor },
-                        $set: { updatedAt: Date.now() }
-                    },
-                    { upsert: true }
-                );
-            }
+            await this.players.update(
+                { playerId },
+                { $addToSet: { 'cosmetics.unlockedCustomColors': normalizedColor } }
+            );
         } catch (error) {
             console.error('Failed to persist custom color:', error);
             return { success: false, error: 'Failed to save custom color' };
@@ -731,15 +651,13 @@ class CosmeticsService extends EventEmitter {
      */
     async getUnlockedCustomColors(playerId: string): Promise<string[]> {
         try {
-            if (mongoPersistence.isReady()) {
-                // First try the new playerDataModel location
-                const { PlayerData } = await import('../database/playerDataModel.js');
-                const player = await PlayerData.findOne({ playerId }).select('cosmetics.unlockedCustomColors').lean();
-                if (player?.cosmetics?.unlockedCustomColors?.length) {
-                    return player.cosmetics.unlockedCustomColors;
-                }
+            const player = await this.players.findOne({ playerId });
+            if (player?.cosmetics?.unlockedCustomColors?.length) {
+                return player.cosmetics.unlockedCustomColors;
+            }
 
-                // Fallback to legacy custom_colors collection
+            // Fallback to legacy custom_colors collection
+            if (mongoPersistence.isReady()) {
                 const doc = await mongoPersistence.getCollection('custom_colors')?.findOne({ playerId });
                 return doc?.unlockedColors || [];
             }
@@ -761,11 +679,9 @@ class CosmeticsService extends EventEmitter {
         const normalizedColor = hexColor.toLowerCase();
 
         try {
-            const { PlayerData } = await import('../database/playerDataModel.js');
-            
             // Check if color is unlocked
             const unlockedColors = await this.getUnlockedCustomColors(playerId);
-            const player = await PlayerData.findOne({ playerId }).lean();
+            const player = await this.players.findOne({ playerId });
             
             // Allow if: player has customColorUnlocked, or color is in unlockedCustomColors, or level >= 25
             const canUse = 
@@ -777,7 +693,7 @@ class CosmeticsService extends EventEmitter {
                 return { success: false, error: 'Custom color feature not unlocked' };
             }
 
-            await PlayerData.updateOne(
+            await this.players.update(
                 { playerId },
                 { $set: { 'cosmetics.customColor': normalizedColor } }
             );
@@ -796,9 +712,7 @@ class CosmeticsService extends EventEmitter {
      */
     async unequipCustomColor(playerId: string): Promise<{ success: boolean }> {
         try {
-            const { PlayerData } = await import('../database/playerDataModel.js');
-            
-            await PlayerData.updateOne(
+            await this.players.update(
                 { playerId },
                 { $set: { 'cosmetics.customColor': null } }
             );
@@ -815,8 +729,7 @@ class CosmeticsService extends EventEmitter {
      */
     async getEquippedCustomColor(playerId: string): Promise<string | null> {
         try {
-            const { PlayerData } = await import('../database/playerDataModel.js');
-            const player = await PlayerData.findOne({ playerId }).select('cosmetics.customColor').lean();
+            const player = await this.players.findOne({ playerId });
             return player?.cosmetics?.customColor || null;
         } catch (error) {
             console.error('Failed to get equipped custom color:', error);
@@ -829,9 +742,7 @@ class CosmeticsService extends EventEmitter {
      */
     async unlockCustomColorFeature(playerId: string): Promise<{ success: boolean }> {
         try {
-            const { PlayerData } = await import('../database/playerDataModel.js');
-            
-            await PlayerData.updateOne(
+            await this.players.update(
                 { playerId },
                 { $set: { 'cosmetics.customColorUnlocked': true } }
             );
@@ -920,7 +831,7 @@ class CosmeticsService extends EventEmitter {
             return { canUse: true };
         }
 
-        const item = COSMETIC_MAP.get(frameId);
+        const item = getCosmeticItem(frameId);
         if (!item || item.type !== 'frame') {
             return { canUse: false, reason: 'Avatar frame not found' };
         }
@@ -7,6 +7,12 @@ import {
   STREAK_MILESTONES
 } from '../database/gameModels.js';
 import { PlayerData } from '../database/playerDataModel.js';
+import { persistence } from '../persistence/index.js';
+import type { Stored, Repository } from '../persistence/index.js';
+import { ledgerService } from './LedgerService.js';
+import type { PlayerDataRecord } from './PlayerDataService.js';
+
+export type DailyLoginRecordData = Stored<IDailyLoginRecord>;
 
 interface DailyLoginResult {
   isNewDay: boolean;
@@ -42,6 +48,17 @@ interface StreakInfo {
 
 class DailyLoginService extends EventEmitter {
   private readonly MAX_STREAK_BONUS = 50; // 50% max bonus
+  private records: Repository<DailyLoginRecordData>;
+  private players: Repository<PlayerDataRecord>;
+
+  constructor(options: {
+    records?: Repository<DailyLoginRecordData>;
+    players?: Repository<PlayerDataRecord>;
+  } = {}) {
+    super();
+    this.records = options.records || persistence.repository<DailyLoginRecordData>(DailyLoginRecord);
+    this.players = options.players || persistence.repository<PlayerDataRecord>(PlayerData);
+  }
 
   async initialize(): Promise<void> {
     console.log('📅 Daily Login Service initialized');
@@ -52,38 +69,27 @@ class DailyLoginService extends EventEmitter {
   // ==========================================
 
   async processDailyLogin(playerId: string): Promise<DailyLoginResult> {
-    let record = await DailyLoginRecord.findOne({ playerId });
-
-    // Create new record if doesn't exist
-    if (!record) {
-      record = new DailyLoginRecord({
-        playerId,
-        currentStreak: 0,
-        longestStreak: 0,
-        lastLoginDate: '',
-        totalLogins: 0,
-        claimedToday: false,
-        milestonesReached: []
-      });
-    }
+    const record = await this.getRecord(playerId);
 
     const today = this.getTodayString();
     const previousStreak = record.currentStreak;
     let streakBroken = false;
 
+    const alreadyToday = (): DailyLoginResult => ({
+      isNewDay: false,
+      currentStreak: record.currentStreak,
+      previousStreak,
+      streakBroken: false,
+      reward: this.getRewardForDay(record.currentStreak),
+      streakBonus: this.calculateStreakBonus(record.currentStreak),
+      bonusAmount: 0,
+      totalLogins: record.totalLogins,
+      nextMilestone: this.getNextMilestone(record.currentStreak)
+    });
+
     // Check if already logged in today
     if (record.lastLoginDate === today) {
-      return {
-        isNewDay: false,
-        currentStreak: record.currentStreak,
-        previousStreak,
-        streakBroken: false,
-        reward: this.getRewardForDay(record.currentStreak),
-        streakBonus: this.calculateStreakBonus(record.currentStreak),
-        bonusAmount: 0,
-        totalLogins: record.totalLogins,
-        nextMilestone: this.getNextMilestone(record.currentStreak)
-      };
+      return alreadyToday();
     }
 
     // Check streak continuity
@@ -97,7 +103,31 @@ class DailyLoginService extends EventEmitter {
       // Streak broken
       newStreak = 1;
       streakBroken = record.currentStreak > 0;
-      
+    }
+
+    const reward = this.getRewardForDay(newStreak);
+    const milestoneReward: IDailyLoginReward | undefined = STREAK_MILESTONES[newStreak];
+
+    // Claim the day; a concurrent login that claimed it first wins
+    const claimed = await this.records.update(
+      { playerId, lastLoginDate: record.lastLoginDate },
+      {
+        $set: {
+          currentStreak: newStreak,
+          lastLoginDate: today,
+          claimedToday: true,
+          lastClaimedReward: reward,
+          longestStreak: Math.max(record.longestStreak, newStreak)
+        },
+        $inc: { totalLogins: 1, totalRewardsClaimed: 1 },
+        ...(milestoneReward ? { $addToSet: { milestonesReached: newStreak } } : {})
+      }
+    );
+    if (!claimed) {
+      return alreadyToday();
+    }
+
+    if (streakBroken) {
       this.emit('streak_broken', {
         playerId,
         previousStreak: record.currentStreak,
@@ -106,41 +136,35 @@ class DailyLoginService extends EventEmitter {
     }
 
     // Calculate rewards
-    const reward = this.getRewardForDay(newStreak);
     const streakBonus = this.calculateStreakBonus(newStreak);
     let bonusAmount = 0;
 
     // Apply rewards to player
-    const player = await PlayerData.findOne({ playerId });
+    const player = await this.players.findOne({ playerId });
     if (player) {
       if (reward.type === 'stardust' && reward.amount) {
         bonusAmount = Math.floor(reward.amount * (streakBonus / 100));
         const totalReward = reward.amount + bonusAmount;
-        player.stardust = (player.stardust || 0) + totalReward;
+        await ledgerService.credit(playerId, 'stardust', totalReward, {
+          source: 'daily_login',
+          reason: 'login_reward',
+          idempotencyKey: `login_reward:${playerId}:${today}`,
+          metadata: { streak: newStreak, bonusAmount }
+        });
       } else if (reward.type === 'xp' && reward.amount) {
         bonusAmount = Math.floor(reward.amount * (streakBonus / 100));
         const totalReward = reward.amount + bonusAmount;
-        player.xp = (player.xp || 0) + totalReward;
+        await this.players.update({ playerId }, { $inc: { xp: totalReward } });
       } else if (reward.type === 'mystery_box') {
         // Add mystery box to inventory (implementation depends on your mystery box system)
         this.emit('mystery_box_granted', { playerId, rarity: reward.rarity });
       }
-      await player.save();
     }
 
-    // Check for milestone reward
-    let milestoneReward: IDailyLoginReward | undefined;
-    if (STREAK_MILESTONES[newStreak]) {
-      milestoneReward = STREAK_MILESTONES[newStreak];
-      
-      // Grant milestone reward
+    // Grant milestone reward
+    if (milestoneReward) {
       if (player) {
-        await this.grantMilestoneReward(player, milestoneReward);
-      }
-
-      // Track milestone
-      if (!record.milestonesReached.includes(newStreak)) {
-        record.milestonesReached.push(newStreak);
+        await this.grantMilestoneReward(playerId, milestoneReward, newStreak);
       }
 
       this.emit('milestone_reached', {
@@ -150,20 +174,6 @@ class DailyLoginService extends EventEmitter {
       });
     }
 
-    // Update record
-    record.currentStreak = newStreak;
-    record.lastLoginDate = today;
-    record.totalLogins += 1;
-    record.claimedToday = true;
-    record.lastClaimedReward = reward;
-    record.totalRewardsClaimed += 1;
-
-    if (newStreak > record.longestStreak) {
-      record.longestStreak = newStreak;
-    }
-
-    await record.save();
-
     // Emit login event
     this.emit('daily_login', {
       playerId,
@@ -183,7 +193,7 @@ class DailyLoginService extends EventEmitter {
       bonusAmount,
       milestoneReward,
       nextMilestone: this.getNextMilestone(newStreak),
-      totalLogins: record.totalLogins
+      totalLogins: claimed.totalLogins
     };
   }
 
@@ -192,20 +202,7 @@ class DailyLoginService extends EventEmitter {
   // ==========================================
 
   async getStreakInfo(playerId: string): Promise<StreakInfo> {
-    let record = await DailyLoginRecord.findOne({ playerId });
-
-    if (!record) {
-      record = new DailyLoginRecord({
-        playerId,
-        currentStreak: 0,
-        longestStreak: 0,
-        lastLoginDate: '',
-        totalLogins: 0,
-        claimedToday: false,
-        milestonesReached: []
-      });
-      await record.save();
-    }
+    const record = await this.getRecord(playerId);
 
     const today = this.getTodayString();
     const yesterday = this.getYesterdayString();
@@ -283,11 +280,11 @@ class DailyLoginService extends EventEmitter {
     longestStreak: number;
     totalLogins: number;
   }>> {
-    const records = await DailyLoginRecord
-      .find()
-      .sort({ currentStreak: -1 })
-      .limit(limit)
-      .select('playerId currentStreak longestStreak totalLogins');
+    const records = await this.records.find({}, {
+      sort: { currentStreak: -1 },
+      limit,
+      fields: ['playerId', 'currentStreak', 'longestStreak', 'totalLogins']
+    });
 
     return records.map(r => ({
       playerId: r.playerId,
@@ -301,6 +298,18 @@ class DailyLoginService extends EventEmitter {
   // Private Helpers
   // ==========================================
 
+  private async getRecord(playerId: string): Promise<DailyLoginRecordData> {
+    const existing = await this.records.findOne({ playerId });
+    if (existing) return existing;
+
+    // Upsert so two first logins share one record
+    return (await this.records.update(
+      { playerId },
+      { $setOnInsert: { playerId } },
+      { upsert: true }
+    ))!;
+  }
+
   private getTodayString(): string {
     return new Date().toISOString().split('T')[0];
   }
@@ -311,19 +320,19 @@ class DailyLoginService extends EventEmitter {
     return yesterday.toISOString().split('T')[0];
   }
 
-  private async grantMilestoneReward(player: any, reward: IDailyLoginReward): Promise<void> {
+  private async grantMilestoneReward(playerId: string, reward: IDailyLoginReward, streak: number): Promise<void> {
     if (reward.type === 'stardust' && reward.amount) {
-      player.stardust = (player.stardust || 0) + reward.amount;
+      await ledgerService.credit(playerId, 'stardust', reward.amount, {
+        source: 'daily_login',
+        reason: 'streak_milestone',
+        idempotencyKey: `login_milestone:${playerId}:${this.getTodayString()}:${streak}`,
+        metadata: { streak }
+      });
     } else if (reward.type === 'cosmetic' && reward.itemId) {
-      if (!player.cosmetics.ownedItems.includes(reward.itemId)) {
-        player.cosmetics.ownedItems.push(reward.itemId);
-      }
+      await this.players.update({ playerId }, { $addToSet: { 'cosmetics.ownedItems': reward.itemId } });
     } else if (reward.type === 'companion' && reward.itemId) {
-      if (!player.companions.ownedIds.includes(reward.itemId)) {
-        player.companions.ownedIds.push(reward.itemId);
-      }
+      await this.players.update({ playerId }, { $addToSet: { 'companions.ownedIds': reward.itemId } });
     }
-    await player.save();
   }
 
   // ==========================================
@@ -331,7 +340,7 @@ class DailyLoginService extends EventEmitter {
   // ==========================================
 
   async resetStreak(playerId: string): Promise<boolean> {
-    const result = await DailyLoginRecord.findOneAndUpdate(
+    const result = await this.records.update(
       { playerId },
       { 
         $set: { 
@@ -344,7 +353,7 @@ class DailyLoginService extends EventEmitter {
   }
 
   async setStreak(playerId: string, streak: number): Promise<boolean> {
-    const result = await DailyLoginRecord.findOneAndUpdate(
+    const result = await this.records.update(
       { playerId },
       { 
         $set: { 
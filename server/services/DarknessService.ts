@@ -12,6 +12,7 @@
 // =============================================================================
 
 import { EventEmitter } from 'events';
+import { ALL_REALM_IDS } from '../common/realms.js';
 
 export type DarknessPhase = 'calm' | 'warning' | 'active' | 'cooldown';
 
@@ -26,6 +27,17 @@ export interface DarknessState {
     playersRescued: Set<string>;
 }
 
+/**
+ * Darkness phase as stored in a world snapshot
+ */
+export interface SerializedDarknessState {
+    realm: string;
+    phase: DarknessPhase;
+    nextPhase: DarknessPhase;
+    timeRemaining: number;
+    waveNumber: number;
+}
+
 export interface DarknessConfig {
     calmDuration: number;       // Seconds
     warningDuration: number;
@@ -88,6 +100,46 @@ const REALM_CONFIGS: Record<string, DarknessConfig> = {
         maxIntensity: 0.5,
         intensityRampTime: 30,
         safeZoneRadius: 250
+    },
+    abyss: {
+        calmDuration: 100,      // The deep is rarely lit
+        warningDuration: 15,
+        activeDuration: 120,
+        cooldownDuration: 15,
+        baseIntensity: 0.6,
+        maxIntensity: 1.0,
+        intensityRampTime: 20,
+        safeZoneRadius: 140
+    },
+    crystal: {
+        calmDuration: 180,
+        warningDuration: 30,
+        activeDuration: 60,
+        cooldownDuration: 20,
+        baseIntensity: 0.35,
+        maxIntensity: 0.75,     // Crystals keep some light
+        intensityRampTime: 30,
+        safeZoneRadius: 220
+    },
+    celestial: {
+        calmDuration: 240,
+        warningDuration: 30,
+        activeDuration: 45,
+        cooldownDuration: 25,
+        baseIntensity: 0.4,
+        maxIntensity: 0.9,
+        intensityRampTime: 15,
+        safeZoneRadius: 180
+    },
+    tagarena: {
+        calmDuration: 600,      // Rarely dark - it's a game arena
+        warningDuration: 30,
+        activeDuration: 20,
+        cooldownDuration: 30,
+        baseIntensity: 0.2,
+        maxIntensity: 0.4,
+        intensityRampTime: 10,
+        safeZoneRadius: 250
     }
 };
 
@@ -115,9 +167,11 @@ export class DarknessService extends EventEmitter {
         if (this.ready) return;
 
         // Initialize state for all realms
-        const realms = ['genesis', 'nebula', 'void', 'starforge', 'sanctuary'];
-        for (const realm of realms) {
-            this.initializeRealmState(realm);
+        for (const realm of ALL_REALM_IDS) {
+            // Keep phases restored from a world snapshot
+            if (!this.realmStates.has(realm)) {
+                this.initializeRealmState(realm);
+            }
         }
 
         // Start update loop
@@ -283,6 +337,30 @@ export class DarknessService extends EventEmitter {
         };
     }
 
+    exportState(): SerializedDarknessState[] {
+        return Array.from(this.realmStates.values()).map(state => ({
+            realm: state.realm,
+            phase: state.phase,
+            nextPhase: state.nextPhase,
+            timeRemaining: state.timeRemaining,
+            waveNumber: state.waveNumber
+        }));
+    }
+
+    /**
+     * Resume darkness cycles where a previous process left them
+     */
+    restoreState(states: SerializedDarknessState[]): void {
+        for (const saved of states) {
+            this.realmStates.set(saved.realm, {
+                ...saved,
+                intensity: 0,       // Recomputed on the next update
+                playersEndangered: new Set(),
+                playersRescued: new Set()
+            });
+        }
+    }
+
     /**
      * Get all realm states
      */
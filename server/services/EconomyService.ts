@@ -1,9 +1,18 @@
 // Economy Service - Manages premium currency, mystery boxes, boosts, and purchases
 // Per lumina-viral-bible.md Sections 6.2 and 9.6
 
-import { PurchaseHistory, IPurchaseHistory, ActiveBoost, IActiveBoost, StreakFreeze } from '../database/socialModels.js';
+import { ActiveBoost, IActiveBoost, StreakFreeze, IStreakFreeze } from '../database/socialModels.js';
 import { Progression } from '../database/progressionModels.js';
-import crypto from 'crypto';
+import { persistence } from '../persistence/index.js';
+import type { Stored, Repository } from '../persistence/index.js';
+import { ledgerService, playerAccount } from './LedgerService.js';
+import type { EntryInfo, LedgerEntryRecord } from './LedgerService.js';
+import { mysteryBoxService } from './MysteryBoxService.js';
+import type { BoxOpenResult } from './MysteryBoxService.js';
+import type { ProgressionRecord } from './ProgressionService.js';
+
+export type ActiveBoostRecord = Stored<IActiveBoost>;
+export type StreakFreezeRecord = Stored<IStreakFreeze>;
 
 // Crystal packages from constants/economy.ts
 const CRYSTAL_PACKAGES = [
@@ -15,78 +24,6 @@ const CRYSTAL_PACKAGES = [
     { id: 'mega', crystals: 14000, bonusCrystals: 5000, priceUSD: 99.99 },
 ];
 
-// Mystery box configurations from constants/economy.ts
-const MYSTERY_BOXES: Record<string, {
-    stardustCost: number;
-    crystalCost: number;
-    rewards: { type: string; rarity: string; value: number | string; weight: number }[];
-    guaranteedRarity?: string;
-}> = {
-    common: {
-        stardustCost: 500,
-        crystalCost: 0,
-        rewards: [
-            { type: 'stardust', rarity: 'common', value: 100, weight: 40 },
-            { type: 'stardust', rarity: 'common', value: 200, weight: 25 },
-            { type: 'xp_boost', rarity: 'common', value: 'xp_boost_30m', weight: 20 },
-            { type: 'cosmetic', rarity: 'uncommon', value: 'random_common_trail', weight: 10 },
-            { type: 'emote', rarity: 'uncommon', value: 'random_common_emote', weight: 5 },
-        ]
-    },
-    rare: {
-        stardustCost: 1500,
-        crystalCost: 0,
-        rewards: [
-            { type: 'stardust', rarity: 'common', value: 300, weight: 30 },
-            { type: 'stardust', rarity: 'uncommon', value: 500, weight: 20 },
-            { type: 'xp_boost', rarity: 'uncommon', value: 'xp_boost_1h', weight: 20 },
-            { type: 'cosmetic', rarity: 'rare', value: 'random_rare_cosmetic', weight: 15 },
-            { type: 'emote', rarity: 'rare', value: 'random_rare_emote', weight: 10 },
-            { type: 'crystals', rarity: 'rare', value: 50, weight: 5 },
-        ],
-        guaranteedRarity: 'uncommon'
-    },
-    epic: {
-        stardustCost: 5000,
-        crystalCost: 250,
-        rewards: [
-            { type: 'stardust', rarity: 'uncommon', value: 750, weight: 25 },
-            { type: 'stardust', rarity: 'rare', value: 1000, weight: 15 },
-            { type: 'cosmetic', rarity: 'epic', value: 'random_epic_cosmetic', weight: 25 },
-            { type: 'emote', rarity: 'epic', value: 'random_epic_emote', weight: 15 },
-            { type: 'crystals', rarity: 'epic', value: 100, weight: 10 },
-            { type: 'title', rarity: 'epic', value: 'random_epic_title', weight: 10 },
-        ],
-        guaranteedRarity: 'rare'
-    },
-    legendary: {
-        stardustCost: 15000,
-        crystalCost: 750,
-        rewards: [
-            { type: 'stardust', rarity: 'rare', value: 2000, weight: 20 },
-            { type: 'cosmetic', rarity: 'legendary', value: 'random_legendary_cosmetic', weight: 30 },
-            { type: 'emote', rarity: 'legendary', value: 'random_legendary_emote', weight: 15 },
-            { type: 'crystals', rarity: 'legendary', value: 300, weight: 15 },
-            { type: 'title', rarity: 'legendary', value: 'random_legendary_title', weight: 15 },
-            { type: 'cosmetic', rarity: 'legendary', value: 'legendary_set_piece', weight: 5 },
-        ],
-        guaranteedRarity: 'epic'
-    },
-    mythic: {
-        stardustCost: 0,
-        crystalCost: 2000,
-        rewards: [
-            { type: 'cosmetic', rarity: 'legendary', value: 'random_legendary_cosmetic', weight: 30 },
-            { type: 'cosmetic', rarity: 'mythic', value: 'random_mythic_cosmetic', weight: 25 },
-            { type: 'crystals', rarity: 'mythic', value: 500, weight: 15 },
-            { type: 'title', rarity: 'mythic', value: 'random_mythic_title', weight: 10 },
-            { type: 'companion', rarity: 'mythic', value: 'random_mythic_companion', weight: 10 },
-            { type: 'cosmetic', rarity: 'mythic', value: 'mythic_set_piece', weight: 10 },
-        ],
-        guaranteedRarity: 'legendary'
-    }
-};
-
 // Boost durations in milliseconds
 const BOOST_DURATIONS: Record<string, number> = {
     'xp_boost_30m': 30 * 60 * 1000,
@@ -96,24 +33,66 @@ const BOOST_DURATIONS: Record<string, number> = {
     'stardust_boost_24h': 24 * 60 * 60 * 1000,
 };
 
-function generatePurchaseId(): string {
-    return 'purchase_' + crypto.randomBytes(8).toString('hex');
+type PurchaseItemType = 'crystal_pack' | 'mystery_box' | 'cosmetic' | 'companion' | 'boost' | 'season_pass';
+
+/**
+ * A purchase as read back from the ledger: the player's debit lines of one
+ * transaction whose metadata names the item bought
+ */
+export interface PurchaseRecord {
+    purchaseId: string;             // Ledger transaction id
+    playerId: string;
+    itemType: PurchaseItemType;
+    itemId: string;
+    crystalCost: number;
+    stardustCost: number;
+    realMoneyCost: number;
+    rewards: { type: string; value: string | number; rarity?: string }[];
+    createdAt: Date;
 }
 
-function weightedRandom<T extends { weight: number }>(items: T[]): T {
-    const totalWeight = items.reduce((sum, item) => sum + item.weight, 0);
-    let random = Math.random() * totalWeight;
-    
-    for (const item of items) {
-        random -= item.weight;
-        if (random <= 0) return item;
+function toPurchases(playerId: string, entries: LedgerEntryRecord[]): PurchaseRecord[] {
+    const purchases = new Map<string, PurchaseRecord>();
+    for (const entry of entries) {
+        let purchase = purchases.get(entry.transactionId);
+        if (!purchase) {
+            purchase = {
+                purchaseId: entry.transactionId,
+                playerId,
+                itemType: entry.metadata.itemType,
+                itemId: entry.metadata.itemId,
+                crystalCost: 0,
+                stardustCost: 0,
+                realMoneyCost: entry.metadata.realMoneyCost || 0,
+                rewards: entry.metadata.rewards || [],
+                createdAt: entry.createdAt
+            };
+            purchases.set(entry.transactionId, purchase);
+        }
+        if (entry.currency === 'crystals') purchase.crystalCost += -entry.amount;
+        else purchase.stardustCost += -entry.amount;
     }
-    
-    return items[items.length - 1];
+    return [...purchases.values()];
 }
 
+// Purchases are the player's debits that say what was bought
+const PURCHASE_FILTER = { amount: { $lt: 0 }, 'metadata.itemType': { $exists: true } };
+
 export class EconomyService {
     private initialized: boolean = false;
+    private progressions: Repository<ProgressionRecord>;
+    private boosts: Repository<ActiveBoostRecord>;
+    private streakFreezes: Repository<StreakFreezeRecord>;
+
+    constructor(options: {
+        progressions?: Repository<ProgressionRecord>;
+        boosts?: Repository<ActiveBoostRecord>;
+        streakFreezes?: Repository<StreakFreezeRecord>;
+    } = {}) {
+        this.progressions = options.progressions || persistence.repository<ProgressionRecord>(Progression);
+        this.boosts = options.boosts || persistence.repository<ActiveBoostRecord>(ActiveBoost);
+        this.streakFreezes = options.streakFreezes || persistence.repository<StreakFreezeRecord>(StreakFreeze);
+    }
 
     async init(): Promise<void> {
         if (this.initialized) return;
@@ -130,114 +109,70 @@ export class EconomyService {
     // ========================================
 
     async getCrystals(playerId: string): Promise<number> {
-        const progression = await Progression.findOne({ playerId });
-        return progression?.crystals || 0;
+        return ledgerService.getBalance(playerAccount(playerId), 'crystals');
     }
 
-    async addCrystals(playerId: string, amount: number, source: string): Promise<number> {
-        const result = await Progression.findOneAndUpdate(
-            { playerId },
-            { $inc: { crystals: amount } },
-            { new: true, upsert: true }
-        );
+    async addCrystals(playerId: string, amount: number, source: string, idempotencyKey?: string): Promise<number> {
+        const result = await ledgerService.credit(playerId, 'crystals', amount, { source, reason: 'grant', idempotencyKey });
         
         console.log(`💎 ${playerId} received ${amount} crystals from ${source}`);
-        return result?.crystals || amount;
+        return result.balance;
     }
 
-    async spendCrystals(playerId: string, amount: number): Promise<{
+    async spendCrystals(playerId: string, amount: number, info: EntryInfo): Promise<{
         success: boolean;
         newBalance?: number;
         error?: string;
     }> {
-        const progression = await Progression.findOne({ playerId });
-        if (!progression || progression.crystals < amount) {
-            return { success: false, error: 'Insufficient crystals' };
+        const result = await ledgerService.debit(playerId, 'crystals', amount, info);
+        if (!result.success) {
+            return { success: false, error: result.error };
         }
 
-        progression.crystals -= amount;
-        await progression.save();
-
-        return { success: true, newBalance: progression.crystals };
+        return { success: true, newBalance: result.balance };
     }
 
     // ========================================
     // MYSTERY BOXES
     // ========================================
 
-    async openMysteryBox(playerId: string, boxTier: string): Promise<{
-        success: boolean;
+    /**
+     * Open a box: the loot tables roll it and charge for it, then the
+     * rewards are granted here
+     */
+    async openMysteryBox(playerId: string, boxTier: string): Promise<BoxOpenResult & {
         rewards?: { type: string; value: string | number; rarity: string }[];
-        error?: string;
     }> {
-        const boxConfig = MYSTERY_BOXES[boxTier];
-        if (!boxConfig) {
-            return { success: false, error: 'Invalid box tier' };
+        const result = await mysteryBoxService.openBox(playerId, boxTier);
+        if (!result.success || !result.reward) {
+            return result;
         }
 
-        // Check and deduct costs
-        const progression = await Progression.findOne({ playerId });
-        if (!progression) {
-            return { success: false, error: 'Player not found' };
-        }
-
-        if (boxConfig.stardustCost > 0 && progression.stardust < boxConfig.stardustCost) {
-            return { success: false, error: 'Insufficient stardust' };
-        }
-        if (boxConfig.crystalCost > 0 && progression.crystals < boxConfig.crystalCost) {
-            return { success: false, error: 'Insufficient crystals' };
-        }
-
-        // Deduct costs
-        if (boxConfig.stardustCost > 0) {
-            progression.stardust -= boxConfig.stardustCost;
-        }
-        if (boxConfig.crystalCost > 0) {
-            progression.crystals -= boxConfig.crystalCost;
-        }
-        await progression.save();
-
-        // Roll for rewards
-        const reward = weightedRandom(boxConfig.rewards);
         const rewards = [{
-            type: reward.type,
-            value: reward.value,
-            rarity: reward.rarity
+            type: result.reward.type,
+            value: result.reward.value,
+            rarity: result.reward.rarity
         }];
+        await this.applyRewards(playerId, rewards, result.purchaseId!);
 
-        // Record purchase
-        const purchase = new PurchaseHistory({
-            purchaseId: generatePurchaseId(),
-            playerId,
-            itemType: 'mystery_box',
-            itemId: boxTier,
-            crystalCost: boxConfig.crystalCost,
-            stardustCost: boxConfig.stardustCost,
-            realMoneyCost: 0,
-            rewards
-        });
-        await purchase.save();
-
-        // Apply rewards
-        await this.applyRewards(playerId, rewards);
-
-        return { success: true, rewards };
+        return { ...result, rewards };
     }
 
-    private async applyRewards(playerId: string, rewards: { type: string; value: string | number; rarity: string }[]): Promise<void> {
-        for (const reward of rewards) {
+    private async applyRewards(
+        playerId: string,
+        rewards: { type: string; value: string | number; rarity: string }[],
+        purchaseId: string
+    ): Promise<void> {
+        for (const [index, reward] of rewards.entries()) {
             switch (reward.type) {
                 case 'stardust':
-                    await Progression.findOneAndUpdate(
-                        { playerId },
-                        { $inc: { stardust: reward.value as number } }
-                    );
-                    break;
                 case 'crystals':
-                    await Progression.findOneAndUpdate(
-                        { playerId },
-                        { $inc: { crystals: reward.value as number } }
-                    );
+                    await ledgerService.credit(playerId, reward.type, reward.value as number, {
+                        source: 'mystery_box',
+                        reason: 'reward',
+                        idempotencyKey: `${purchaseId}:reward:${index}`,
+                        metadata: { purchaseId, rarity: reward.rarity }
+                    });
                     break;
                 case 'xp_boost':
                 case 'stardust_boost':
@@ -246,7 +181,7 @@ export class EconomyService {
                 case 'cosmetic':
                 case 'emote':
                 case 'title':
-                    await Progression.findOneAndUpdate(
+                    await this.progressions.update(
                         { playerId },
                         { $addToSet: { unlockedCosmetics: reward.value } }
                     );
@@ -259,13 +194,13 @@ export class EconomyService {
     // BOOSTS
     // ========================================
 
-    async activateBoost(playerId: string, boostId: string, source: 'purchase' | 'reward' | 'event' | 'referral'): Promise<IActiveBoost | null> {
+    async activateBoost(playerId: string, boostId: string, source: 'purchase' | 'reward' | 'event' | 'referral'): Promise<ActiveBoostRecord | null> {
         const duration = BOOST_DURATIONS[boostId];
         if (!duration) return null;
 
         const boostType = boostId.includes('xp') ? 'xp' : boostId.includes('stardust') ? 'stardust' : 'fragment';
         
-        const boost = new ActiveBoost({
+        return this.boosts.insert({
             playerId,
             boostType,
             multiplier: 2.0,
@@ -273,20 +208,17 @@ export class EconomyService {
             endTime: new Date(Date.now() + duration),
             source
         });
-        await boost.save();
-
-        return boost;
     }
 
-    async getActiveBoosts(playerId: string): Promise<IActiveBoost[]> {
-        return ActiveBoost.find({
+    async getActiveBoosts(playerId: string): Promise<ActiveBoostRecord[]> {
+        return this.boosts.find({
             playerId,
             endTime: { $gt: new Date() }
         });
     }
 
     async getBoostMultiplier(playerId: string, boostType: 'xp' | 'stardust' | 'fragment'): Promise<number> {
-        const boosts = await ActiveBoost.find({
+        const boosts = await this.boosts.find({
             playerId,
             boostType,
             endTime: { $gt: new Date() }
@@ -309,35 +241,25 @@ export class EconomyService {
     }> {
         const FREEZE_COST = 100; // crystals
         
-        const spendResult = await this.spendCrystals(playerId, FREEZE_COST);
+        const spendResult = await this.spendCrystals(playerId, FREEZE_COST, {
+            source: 'shop',
+            reason: 'streak_freeze',
+            metadata: { itemType: 'boost', itemId: 'streak_freeze' }
+        });
         if (!spendResult.success) {
             return { success: false, error: spendResult.error };
         }
 
-        const freeze = new StreakFreeze({
+        await this.streakFreezes.insert({
             playerId,
             purchasedAt: new Date()
         });
-        await freeze.save();
-
-        // Record purchase
-        const purchase = new PurchaseHistory({
-            purchaseId: generatePurchaseId(),
-            playerId,
-            itemType: 'boost',
-            itemId: 'streak_freeze',
-            crystalCost: FREEZE_COST,
-            stardustCost: 0,
-            realMoneyCost: 0,
-            rewards: []
-        });
-        await purchase.save();
 
         return { success: true };
     }
 
     async useStreakFreeze(playerId: string, date: string): Promise<boolean> {
-        const freeze = await StreakFreeze.findOneAndUpdate(
+        const freeze = await this.streakFreezes.update(
             { playerId, usedAt: null },
             { $set: { freezeDate: date, usedAt: new Date() } }
         );
@@ -345,7 +267,7 @@ export class EconomyService {
     }
 
     async hasStreakFreeze(playerId: string): Promise<boolean> {
-        const freeze = await StreakFreeze.findOne({ playerId, usedAt: null });
+        const freeze = await this.streakFreezes.findOne({ playerId, usedAt: null });
         return !!freeze;
     }
 
@@ -353,31 +275,13 @@ export class EconomyService {
     // PURCHASE HISTORY
     // ========================================
 
-    async getPurchaseHistory(playerId: string, limit: number = 50): Promise<IPurchaseHistory[]> {
-        return PurchaseHistory.find({ playerId })
-            .sort({ createdAt: -1 })
-            .limit(limit);
-    }
-
-    async recordPurchase(
-        playerId: string,
-        itemType: 'crystal_pack' | 'mystery_box' | 'cosmetic' | 'boost' | 'season_pass',
-        itemId: string,
-        costs: { crystals?: number; stardust?: number; realMoney?: number },
-        rewards: { type: string; value: string | number; rarity?: string }[]
-    ): Promise<IPurchaseHistory> {
-        const purchase = new PurchaseHistory({
-            purchaseId: generatePurchaseId(),
-            playerId,
-            itemType,
-            itemId,
-            crystalCost: costs.crystals || 0,
-            stardustCost: costs.stardust || 0,
-            realMoneyCost: costs.realMoney || 0,
-            rewards
+    async getPurchaseHistory(playerId: string, limit: number = 50): Promise<PurchaseRecord[]> {
+        // A purchase has at most one line per currency
+        const entries = await ledgerService.getHistory(playerAccount(playerId), {
+            filter: PURCHASE_FILTER,
+            limit: limit * 2
         });
-        await purchase.save();
-        return purchase;
+        return toPurchases(playerId, entries).slice(0, limit);
     }
 
     // ========================================
@@ -390,25 +294,33 @@ export class EconomyService {
     }> {
         const PASS_COST = 950; // crystals
         
-        const progression = await Progression.findOne({ playerId });
+        const progression = await this.progressions.findOne({ playerId });
         if (!progression) {
             return { success: false, error: 'Player not found' };
         }
-
         if (progression.isPremiumPass) {
             return { success: false, error: 'Already have premium pass' };
         }
 
-        if (progression.crystals < PASS_COST) {
-            return { success: false, error: 'Insufficient crystals' };
+        // One pass per season: concurrent purchases share the key and pay once
+        const spendResult = await this.spendCrystals(playerId, PASS_COST, {
+            source: 'shop',
+            reason: 'premium_pass',
+            idempotencyKey: `premium_pass:${playerId}:${progression.seasonId}`,
+            metadata: { itemType: 'season_pass', itemId: 'premium_pass', seasonId: progression.seasonId }
+        });
+        if (!spendResult.success) {
+            return { success: false, error: spendResult.error };
         }
 
-        progression.crystals -= PASS_COST;
-        progression.isPremiumPass = true;
-        await progression.save();
-
-        // Record purchase
-        await this.recordPurchase(playerId, 'season_pass', 'premium_pass', { crystals: PASS_COST }, []);
+        // Paid but not granted yet (a racing or interrupted purchase) is granted here
+        const granted = await this.progressions.update(
+            { playerId, isPremiumPass: { $ne: true } },
+            { $set: { isPremiumPass: true } }
+        );
+        if (!granted) {
+            return { success: false, error: 'Already have premium pass' };
+        }
 
         return { success: true };
     }
@@ -424,7 +336,8 @@ export class EconomyService {
         purchaseCount: number;
         favoriteItemType: string | null;
     }> {
-        const purchases = await PurchaseHistory.find({ playerId });
+        const entries = await ledgerService.getHistory(playerAccount(playerId), { filter: PURCHASE_FILTER, limit: 0 });
+        const purchases = toPurchases(playerId, entries);
         
         const stats = {
             totalCrystalsSpent: 0,
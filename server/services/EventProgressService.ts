@@ -5,6 +5,10 @@
 
 import { EventEmitter } from 'events';
 import { EventProgress, IEventProgress } from '../database/models.js';
+import { persistence } from '../persistence/index.js';
+import type { Stored, Repository } from '../persistence/index.js';
+
+export type EventProgressRecord = Stored<IEventProgress>;
 
 export interface EventContribution {
     fragments: number;
@@ -36,9 +40,11 @@ export interface EventLeaderboardEntry {
 class EventProgressService extends EventEmitter {
     private progressCache: Map<string, PlayerEventProgress> = new Map();
     private activeEvents: Set<string> = new Set();
+    private progress: Repository<EventProgressRecord>;
 
-    constructor() {
+    constructor(options: { progress?: Repository<EventProgressRecord> } = {}) {
         super();
+        this.progress = options.progress || persistence.repository<EventProgressRecord>(EventProgress);
     }
 
     async initialize(): Promise<void> {
@@ -52,7 +58,7 @@ class EventProgressService extends EventEmitter {
         try {
             // Find distinct active eventIds from last 7 days
             const recentCutoff = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
-            const activeEventIds = await EventProgress.distinct('eventId', {
+            const activeEventIds = await this.progress.distinct('eventId', {
                 lastContributionAt: { $gte: recentCutoff }
             });
             
@@ -86,11 +92,11 @@ class EventProgressService extends EventEmitter {
         }
 
         try {
-            let progressDoc = await EventProgress.findOne({ playerId, eventId }).lean();
+            let progressDoc = await this.progress.findOne({ playerId, eventId });
             
             if (!progressDoc) {
                 // Create new progress entry
-                const newProgress = new EventProgress({
+                progressDoc = await this.progress.insert({
                     playerId,
                     eventId,
                     eventName: eventName || `Event ${eventId}`,
@@ -108,33 +114,20 @@ class EventProgressService extends EventEmitter {
                     lastContributionAt: new Date()
                 });
                 
-                await newProgress.save();
-                progressDoc = {
-                    playerId: newProgress.playerId,
-                    eventId: newProgress.eventId,
-                    eventName: newProgress.eventName,
-                    contributions: newProgress.contributions,
-                    totalContribution: newProgress.totalContribution,
-                    rank: newProgress.rank,
-                    rewardsClaimed: newProgress.rewardsClaimed,
-                    joinedAt: newProgress.joinedAt,
-                    lastContributionAt: newProgress.lastContributionAt
-                } as any;
-                
                 this.activeEvents.add(eventId);
                 this.emit('player_joined_event', { playerId, eventId });
             }
             
             const playerProgress: PlayerEventProgress = {
-                playerId: progressDoc!.playerId,
-                eventId: progressDoc!.eventId,
-                eventName: progressDoc!.eventName,
-                contributions: progressDoc!.contributions as EventContribution,
-                totalContribution: progressDoc!.totalContribution,
-                rank: progressDoc!.rank,
-                rewardsClaimed: progressDoc!.rewardsClaimed,
-                joinedAt: progressDoc!.joinedAt,
-                lastContributionAt: progressDoc!.lastContributionAt
+                playerId: progressDoc.playerId,
+                eventId: progressDoc.eventId,
+                eventName: progressDoc.eventName,
+                contributions: progressDoc.contributions as EventContribution,
+                totalContribution: progressDoc.totalContribution,
+                rank: progressDoc.rank,
+                rewardsClaimed: progressDoc.rewardsClaimed,
+                joinedAt: progressDoc.joinedAt,
+                lastContributionAt: progressDoc.lastContributionAt
             };
             
             this.progressCache.set(cacheKey, playerProgress);
@@ -176,7 +169,7 @@ class EventProgressService extends EventEmitter {
                 ? `contributions.custom.${contributionType}`
                 : `contributions.${contributionType}`;
             
-            const result = await EventProgress.findOneAndUpdate(
+            const result = (await this.progress.update(
                 { playerId, eventId },
                 {
                     $inc: {
@@ -185,16 +178,17 @@ class EventProgressService extends EventEmitter {
                     },
                     $set: {
                         lastContributionAt: new Date(),
-                        eventName: eventName || undefined
+                        ...(eventName ? { eventName } : {})
                     },
                     $setOnInsert: {
+                        ...(eventName ? {} : { eventName: `Event ${eventId}` }),
                         joinedAt: new Date(),
                         rewardsClaimed: [],
                         rank: 0
                     }
                 },
-                { upsert: true, new: true }
-            );
+                { upsert: true }
+            ))!;
             
             // Update cache
             const playerProgress: PlayerEventProgress = {
@@ -236,11 +230,11 @@ class EventProgressService extends EventEmitter {
      */
     async getLeaderboard(eventId: string, limit: number = 50): Promise<EventLeaderboardEntry[]> {
         try {
-            const entries = await EventProgress.find({ eventId })
-                .sort({ totalContribution: -1 })
-                .limit(limit)
-                .select('playerId totalContribution')
-                .lean();
+            const entries = await this.progress.find({ eventId }, {
+                sort: { totalContribution: -1 },
+                limit,
+                fields: ['playerId', 'totalContribution']
+            });
             
             return entries.map((entry, index) => ({
                 playerId: entry.playerId,
@@ -259,20 +253,15 @@ class EventProgressService extends EventEmitter {
      */
     async updateRanks(eventId: string): Promise<void> {
         try {
-            const entries = await EventProgress.find({ eventId })
-                .sort({ totalContribution: -1 })
-                .select('_id playerId')
-                .lean();
-            
-            const bulkOps = entries.map((entry, index) => ({
-                updateOne: {
-                    filter: { _id: entry._id },
-                    update: { $set: { rank: index + 1 } }
-                }
-            }));
+            const entries = await this.progress.find({ eventId }, {
+                sort: { totalContribution: -1 },
+                fields: ['_id', 'playerId']
+            });
             
-            if (bulkOps.length > 0) {
-                await EventProgress.bulkWrite(bulkOps);
+            if (entries.length > 0) {
+                await Promise.all(entries.map((entry, index) =>
+                    this.progress.update({ _id: entry._id }, { $set: { rank: index + 1 } })
+                ));
                 
                 // Clear cache for this event
                 for (const [key, progress] of this.progressCache.entries()) {
@@ -292,19 +281,16 @@ class EventProgressService extends EventEmitter {
      */
     async claimReward(playerId: string, eventId: string, rewardId: string): Promise<{ success: boolean; alreadyClaimed: boolean }> {
         try {
-            const progress = await EventProgress.findOne({ playerId, eventId });
-            
-            if (!progress) {
-                return { success: false, alreadyClaimed: false };
-            }
+            const claimed = await this.progress.update(
+                { playerId, eventId, rewardsClaimed: { $ne: rewardId } },
+                { $push: { rewardsClaimed: rewardId } }
+            );
             
-            if (progress.rewardsClaimed.includes(rewardId)) {
-                return { success: false, alreadyClaimed: true };
+            if (!claimed) {
+                const exists = await this.progress.count({ playerId, eventId });
+                return { success: false, alreadyClaimed: exists > 0 };
             }
             
-            progress.rewardsClaimed.push(rewardId);
-            await progress.save();
-            
             // Update cache
             const cacheKey = this.getCacheKey(playerId, eventId);
             const cached = this.progressCache.get(cacheKey);
@@ -331,39 +317,24 @@ class EventProgressService extends EventEmitter {
         contributionBreakdown: EventContribution;
     }> {
         try {
-            const stats = await EventProgress.aggregate([
-                { $match: { eventId } },
-                {
-                    $group: {
-                        _id: null,
-                        totalParticipants: { $sum: 1 },
-                        totalContributions: { $sum: '$totalContribution' },
-                        fragments: { $sum: '$contributions.fragments' },
-                        beacons: { $sum: '$contributions.beacons' },
-                        bonds: { $sum: '$contributions.bonds' },
-                        actions: { $sum: '$contributions.actions' }
-                    }
-                }
-            ]);
+            const entries = await this.progress.find({ eventId }, {
+                fields: ['totalContribution', 'contributions']
+            });
             
-            if (stats.length === 0) {
-                return {
-                    totalParticipants: 0,
-                    totalContributions: 0,
-                    contributionBreakdown: { fragments: 0, beacons: 0, bonds: 0, actions: 0, custom: {} }
-                };
+            const contributionBreakdown: EventContribution = { fragments: 0, beacons: 0, bonds: 0, actions: 0, custom: {} };
+            let totalContributions = 0;
+            for (const entry of entries) {
+                totalContributions += entry.totalContribution || 0;
+                contributionBreakdown.fragments += entry.contributions?.fragments || 0;
+                contributionBreakdown.beacons += entry.contributions?.beacons || 0;
+                contributionBreakdown.bonds += entry.contributions?.bonds || 0;
+                contributionBreakdown.actions += entry.contributions?.actions || 0;
             }
             
             return {
-                totalParticipants: stats[0].totalParticipants,
-                totalContributions: stats[0].totalContributions,
-                contributionBreakdown: {
-                    fragments: stats[0].fragments,
-                    beacons: stats[0].beacons,
-                    bonds: stats[0].bonds,
-                    actions: stats[0].actions,
-                    custom: {}
-                }
+                totalParticipants: entries.length,
+                totalContributions,
+                contributionBreakdown
             };
             
         } catch (error) {
@@ -584,7 +584,7 @@ class ExplorationService extends EventEmitter {
             threshold: number;
             type: string;
             currentProgress: number;
-            reward: any;
+            reward: ExplorationMilestone['reward'];
         }>;
     }> {
         const data = await this.getPlayerExploration(playerId);
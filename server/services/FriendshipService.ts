@@ -2,9 +2,15 @@
 // Enhances the existing Friendship model in models.ts
 
 import { FriendRequest, IFriendRequest, BlockedPlayer, IBlockedPlayer } from '../database/socialModels.js';
-import { Friendship } from '../database/models.js';
+import { Friendship, IFriendship } from '../database/models.js';
+import { persistence } from '../persistence/index.js';
+import type { Stored, Repository } from '../persistence/index.js';
 import crypto from 'crypto';
 
+export type FriendshipRecord = Stored<IFriendship>;
+export type FriendRequestRecord = Stored<IFriendRequest>;
+export type BlockedPlayerRecord = Stored<IBlockedPlayer>;
+
 function generateRequestId(): string {
     return 'req_' + crypto.randomBytes(6).toString('hex');
 }
@@ -17,6 +23,19 @@ export interface FriendInfo {
 
 export class FriendshipService {
     private initialized: boolean = false;
+    private friendships: Repository<FriendshipRecord>;
+    private requests: Repository<FriendRequestRecord>;
+    private blocks: Repository<BlockedPlayerRecord>;
+
+    constructor(options: {
+        friendships?: Repository<FriendshipRecord>;
+        requests?: Repository<FriendRequestRecord>;
+        blocks?: Repository<BlockedPlayerRecord>;
+    } = {}) {
+        this.friendships = options.friendships || persistence.repository<FriendshipRecord>(Friendship);
+        this.requests = options.requests || persistence.repository<FriendRequestRecord>(FriendRequest);
+        this.blocks = options.blocks || persistence.repository<BlockedPlayerRecord>(BlockedPlayer);
+    }
 
     async init(): Promise<void> {
         if (this.initialized) return;
@@ -43,7 +62,7 @@ export class FriendshipService {
         }
 
         // Check if already friends
-        const existingFriendship = await Friendship.findOne({
+        const existingFriendship = await this.friendships.findOne({
             $or: [
                 { playerId: fromPlayerId, friendId: toPlayerId },
                 { playerId: toPlayerId, friendId: fromPlayerId }
@@ -60,7 +79,7 @@ export class FriendshipService {
         }
 
         // Check for existing pending request
-        const existingRequest = await FriendRequest.findOne({
+        const existingRequest = await this.requests.findOne({
             fromPlayerId,
             toPlayerId,
             status: 'pending'
@@ -70,7 +89,7 @@ export class FriendshipService {
         }
 
         // Check if they sent us a request (auto-accept)
-        const reverseRequest = await FriendRequest.findOne({
+        const reverseRequest = await this.requests.findOne({
             fromPlayerId: toPlayerId,
             toPlayerId: fromPlayerId,
             status: 'pending'
@@ -82,7 +101,7 @@ export class FriendshipService {
 
         // Create new request
         const requestId = generateRequestId();
-        const request = new FriendRequest({
+        await this.requests.insert({
             requestId,
             fromPlayerId,
             fromPlayerName,
@@ -90,7 +109,6 @@ export class FriendshipService {
             message: message || null,
             status: 'pending'
         });
-        await request.save();
 
         return { success: true, requestId };
     }
@@ -100,30 +118,25 @@ export class FriendshipService {
         friendId?: string;
         error?: string;
     }> {
-        const request = await FriendRequest.findOne({
-            requestId,
-            toPlayerId: playerId,
-            status: 'pending'
-        });
+        // Update request status; only one response finds it pending
+        const request = await this.requests.update(
+            { requestId, toPlayerId: playerId, status: 'pending' },
+            { $set: { status: 'accepted', respondedAt: new Date() } }
+        );
 
         if (!request) {
             return { success: false, error: 'Friend request not found' };
         }
 
-        // Update request status
-        request.status = 'accepted';
-        request.respondedAt = new Date();
-        await request.save();
-
         // Create bidirectional friendship
-        await Friendship.findOneAndUpdate(
+        await this.friendships.update(
             { playerId: request.fromPlayerId, friendId: playerId },
-            { playerId: request.fromPlayerId, friendId: playerId, friendName: 'Friend' },
+            { $set: { friendName: 'Friend' } },
             { upsert: true }
         );
-        await Friendship.findOneAndUpdate(
+        await this.friendships.update(
             { playerId, friendId: request.fromPlayerId },
-            { playerId, friendId: request.fromPlayerId, friendName: request.fromPlayerName },
+            { $set: { friendName: request.fromPlayerName } },
             { upsert: true }
         );
 
@@ -131,7 +144,7 @@ export class FriendshipService {
     }
 
     async declineFriendRequest(playerId: string, requestId: string): Promise<boolean> {
-        const result = await FriendRequest.findOneAndUpdate(
+        const result = await this.requests.update(
             { requestId, toPlayerId: playerId, status: 'pending' },
             { $set: { status: 'declined', respondedAt: new Date() } }
         );
@@ -139,26 +152,25 @@ export class FriendshipService {
     }
 
     async cancelFriendRequest(playerId: string, requestId: string): Promise<boolean> {
-        const result = await FriendRequest.deleteOne({
+        return this.requests.delete({
             requestId,
             fromPlayerId: playerId,
             status: 'pending'
         });
-        return result.deletedCount > 0;
     }
 
-    async getPendingRequests(playerId: string): Promise<IFriendRequest[]> {
-        return FriendRequest.find({
+    async getPendingRequests(playerId: string): Promise<FriendRequestRecord[]> {
+        return this.requests.find({
             toPlayerId: playerId,
             status: 'pending'
-        }).sort({ createdAt: -1 });
+        }, { sort: { createdAt: -1 } });
     }
 
-    async getSentRequests(playerId: string): Promise<IFriendRequest[]> {
-        return FriendRequest.find({
+    async getSentRequests(playerId: string): Promise<FriendRequestRecord[]> {
+        return this.requests.find({
             fromPlayerId: playerId,
             status: 'pending'
-        }).sort({ createdAt: -1 });
+        }, { sort: { createdAt: -1 } });
     }
 
     // ========================================
@@ -166,8 +178,8 @@ export class FriendshipService {
     // ========================================
 
     async getFriends(playerId: string): Promise<FriendInfo[]> {
-        const friendships = await Friendship.find({ playerId }).lean();
-        return friendships.map((f: any) => ({
+        const friendships = await this.friendships.find({ playerId });
+        return friendships.map(f => ({
             friendId: f.friendId,
             friendName: f.friendName,
             addedAt: f.createdAt || new Date()
@@ -175,11 +187,11 @@ export class FriendshipService {
     }
 
     async getFriendCount(playerId: string): Promise<number> {
-        return Friendship.countDocuments({ playerId });
+        return this.friendships.count({ playerId });
     }
 
     async areFriends(playerId1: string, playerId2: string): Promise<boolean> {
-        const friendship = await Friendship.findOne({
+        const friendship = await this.friendships.findOne({
             playerId: playerId1,
             friendId: playerId2
         });
@@ -188,13 +200,13 @@ export class FriendshipService {
 
     async removeFriend(playerId: string, friendId: string): Promise<boolean> {
         // Remove both directions
-        const result1 = await Friendship.deleteOne({ playerId, friendId });
-        const result2 = await Friendship.deleteOne({ playerId: friendId, friendId: playerId });
-        return result1.deletedCount > 0 || result2.deletedCount > 0;
+        const removed1 = await this.friendships.delete({ playerId, friendId });
+        const removed2 = await this.friendships.delete({ playerId: friendId, friendId: playerId });
+        return removed1 || removed2;
     }
 
     async updateFriendName(playerId: string, friendId: string, newName: string): Promise<boolean> {
-        const result = await Friendship.findOneAndUpdate(
+        const result = await this.friendships.update(
             { playerId, friendId },
             { $set: { friendName: newName } }
         );
@@ -217,7 +229,7 @@ export class FriendshipService {
         await this.removeFriend(playerId, blockedPlayerId);
 
         // Cancel any pending friend requests
-        await FriendRequest.deleteMany({
+        await this.requests.deleteMany({
             $or: [
                 { fromPlayerId: playerId, toPlayerId: blockedPlayerId },
                 { fromPlayerId: blockedPlayerId, toPlayerId: playerId }
@@ -225,9 +237,9 @@ export class FriendshipService {
         });
 
         // Create block record
-        await BlockedPlayer.findOneAndUpdate(
+        await this.blocks.update(
             { playerId, blockedPlayerId },
-            { playerId, blockedPlayerId, reason, blockedAt: new Date() },
+            { $set: { reason, blockedAt: new Date() } },
             { upsert: true }
         );
 
@@ -235,24 +247,23 @@ export class FriendshipService {
     }
 
     async unblockPlayer(playerId: string, blockedPlayerId: string): Promise<boolean> {
-        const result = await BlockedPlayer.deleteOne({ playerId, blockedPlayerId });
-        return result.deletedCount > 0;
+        return this.blocks.delete({ playerId, blockedPlayerId });
     }
 
     async isBlocked(playerId: string, otherPlayerId: string): Promise<boolean> {
-        const block = await BlockedPlayer.findOne({
+        const block = await this.blocks.findOne({
             playerId,
             blockedPlayerId: otherPlayerId
         });
         return !!block;
     }
 
-    async getBlockedPlayers(playerId: string): Promise<IBlockedPlayer[]> {
-        return BlockedPlayer.find({ playerId });
+    async getBlockedPlayers(playerId: string): Promise<BlockedPlayerRecord[]> {
+        return this.blocks.find({ playerId });
     }
 
     async getBlockedByPlayers(playerId: string): Promise<string[]> {
-        const blocks = await BlockedPlayer.find({ blockedPlayerId: playerId });
+        const blocks = await this.blocks.find({ blockedPlayerId: playerId });
         return blocks.map(b => b.playerId);
     }
 
@@ -261,8 +272,8 @@ export class FriendshipService {
     // ========================================
 
     async getMutualFriends(playerId1: string, playerId2: string): Promise<string[]> {
-        const friends1 = await Friendship.find({ playerId: playerId1 }).distinct('friendId');
-        const friends2 = await Friendship.find({ playerId: playerId2 }).distinct('friendId');
+        const friends1 = await this.friendships.distinct('friendId', { playerId: playerId1 });
+        const friends2 = await this.friendships.distinct('friendId', { playerId: playerId2 });
 
         const set1 = new Set(friends1);
         return friends2.filter((f: string) => set1.has(f));
@@ -283,7 +294,7 @@ export class FriendshipService {
         source: 'mutual' | 'recent' | 'popular';
     }[]> {
         // Get player's friends
-        const friendIds = await Friendship.find({ playerId }).distinct('friendId');
+        const friendIds = await this.friendships.distinct('friendId', { playerId });
         const friendSet = new Set(friendIds);
         friendSet.add(playerId); // Exclude self
 
@@ -291,7 +302,7 @@ export class FriendshipService {
         const friendsOfFriends: Record<string, number> = {};
 
         for (const friendId of friendIds) {
-            const fof = await Friendship.find({ playerId: friendId }).distinct('friendId');
+            const fof = await this.friendships.distinct('friendId', { playerId: friendId });
             for (const f of fof) {
                 if (!friendSet.has(f)) {
                     friendsOfFriends[f] = (friendsOfFriends[f] || 0) + 1;
@@ -343,7 +354,7 @@ export class FriendshipService {
         // Let's assume this is for PERMANENT/SEALED bonds logic.
 
         // Determine if bond already exists
-        const existingFriendship = await Friendship.findOne({ playerId, friendId: targetId });
+        const existingFriendship = await this.friendships.findOne({ playerId, friendId: targetId });
 
         return {
             success: true,
@@ -6,11 +6,18 @@ import {
   IGalleryAlbum,
   FeaturedScreenshot,
   IFeaturedScreenshot,
-  ScreenshotReport
+  ScreenshotReport,
+  IScreenshotReport
 } from '../database/mediaModels.js';
-import { PlayerData } from '../database/playerDataModel.js';
+import { persistence } from '../persistence/index.js';
+import type { Stored, Repository, Filter } from '../persistence/index.js';
 import crypto from 'crypto';
 
+export type ScreenshotRecord = Stored<IScreenshot>;
+export type GalleryAlbumRecord = Stored<IGalleryAlbum>;
+export type FeaturedScreenshotRecord = Stored<IFeaturedScreenshot>;
+export type ScreenshotReportRecord = Stored<IScreenshotReport>;
+
 interface ScreenshotData {
   imageRef: string;
   thumbnailRef?: string;
@@ -47,7 +54,7 @@ interface GalleryQuery {
 
 interface SaveResult {
   success: boolean;
-  screenshot?: IScreenshot;
+  screenshot?: ScreenshotRecord;
   error?: string;
 }
 
@@ -56,6 +63,24 @@ class GalleryService extends EventEmitter {
   private readonly MAX_ALBUMS = 10;               // Max albums per player
   private readonly MAX_ALBUM_SIZE = 50;           // Max screenshots per album
 
+  private screenshots: Repository<ScreenshotRecord>;
+  private albums: Repository<GalleryAlbumRecord>;
+  private featured: Repository<FeaturedScreenshotRecord>;
+  private reports: Repository<ScreenshotReportRecord>;
+
+  constructor(options: {
+    screenshots?: Repository<ScreenshotRecord>;
+    albums?: Repository<GalleryAlbumRecord>;
+    featured?: Repository<FeaturedScreenshotRecord>;
+    reports?: Repository<ScreenshotReportRecord>;
+  } = {}) {
+    super();
+    this.screenshots = options.screenshots || persistence.repository<ScreenshotRecord>(Screenshot);
+    this.albums = options.albums || persistence.repository<GalleryAlbumRecord>(GalleryAlbum);
+    this.featured = options.featured || persistence.repository<FeaturedScreenshotRecord>(FeaturedScreenshot);
+    this.reports = options.reports || persistence.repository<ScreenshotReportRecord>(ScreenshotReport);
+  }
+
   async initialize(): Promise<void> {
     console.log('📸 Gallery Service initialized');
   }
@@ -67,19 +92,19 @@ class GalleryService extends EventEmitter {
   async saveScreenshot(playerId: string, playerName: string, data: ScreenshotData): Promise<SaveResult> {
     try {
       // Check gallery limit
-      const count = await Screenshot.countDocuments({ playerId });
+      const count = await this.screenshots.count({ playerId });
       if (count >= this.MAX_GALLERY_SIZE) {
         // Delete oldest screenshot
-        const oldest = await Screenshot.findOne({ playerId }).sort({ createdAt: 1 });
+        const [oldest] = await this.screenshots.find({ playerId }, { sort: { createdAt: 1 }, limit: 1 });
         if (oldest) {
-          await Screenshot.deleteOne({ _id: oldest._id });
+          await this.screenshots.delete({ _id: oldest._id });
           this.emit('screenshot_deleted', { playerId, screenshotId: oldest.screenshotId, reason: 'gallery_full' });
         }
       }
 
       const screenshotId = `ss_${playerId}_${crypto.randomBytes(8).toString('hex')}`;
 
-      const screenshot = new Screenshot({
+      const screenshot = await this.screenshots.insert({
         screenshotId,
         playerId,
         playerName,
@@ -89,11 +114,11 @@ class GalleryService extends EventEmitter {
         template: data.template || 'minimal',
         caption: data.caption?.substring(0, 200),
         stats: {
-          fragments: data.stats.fragments || 0,
-          bonds: data.stats.bonds || 0,
-          beacons: data.stats.beacons || 0,
-          level: data.stats.level || 1,
-          stardust: data.stats.stardust || 0
+          fragments: data.stats?.fragments || 0,
+          bonds: data.stats?.bonds || 0,
+          beacons: data.stats?.beacons || 0,
+          level: data.stats?.level || 1,
+          stardust: data.stats?.stardust || 0
         },
         location: {
           x: data.location.x,
@@ -110,8 +135,6 @@ class GalleryService extends EventEmitter {
         dimensions: data.dimensions || { width: 1920, height: 1080 }
       });
 
-      await screenshot.save();
-
       this.emit('screenshot_saved', { 
         playerId, 
         screenshotId, 
@@ -125,15 +148,15 @@ class GalleryService extends EventEmitter {
     }
   }
 
-  async getScreenshot(screenshotId: string): Promise<IScreenshot | null> {
-    return Screenshot.findOne({ screenshotId });
+  async getScreenshot(screenshotId: string): Promise<ScreenshotRecord | null> {
+    return this.screenshots.findOne({ screenshotId });
   }
 
-  async getGallery(playerId: string, query?: GalleryQuery): Promise<IScreenshot[]> {
+  async getGallery(playerId: string, query?: GalleryQuery): Promise<ScreenshotRecord[]> {
     const limit = query?.limit || 20;
     const offset = query?.offset || 0;
 
-    let findQuery: any = { playerId };
+    const findQuery: Filter = { playerId };
 
     if (query?.filter && query.filter !== 'all') {
       findQuery.filter = query.filter;
@@ -151,22 +174,19 @@ class GalleryService extends EventEmitter {
       ? { likes: -1, createdAt: -1 } 
       : { createdAt: -1 };
 
-    return Screenshot.find(findQuery)
-      .sort(sortField)
-      .skip(offset)
-      .limit(limit);
+    return this.screenshots.find(findQuery, { sort: sortField, skip: offset, limit });
   }
 
   async getGalleryCount(playerId: string): Promise<number> {
-    return Screenshot.countDocuments({ playerId });
+    return this.screenshots.count({ playerId });
   }
 
   async deleteScreenshot(playerId: string, screenshotId: string): Promise<boolean> {
-    const result = await Screenshot.deleteOne({ screenshotId, playerId });
+    const deleted = await this.screenshots.delete({ screenshotId, playerId });
     
-    if (result.deletedCount > 0) {
+    if (deleted) {
       // Remove from any albums
-      await GalleryAlbum.updateMany(
+      await this.albums.updateMany(
         { playerId },
         { $pull: { screenshotIds: screenshotId } }
       );
@@ -178,7 +198,7 @@ class GalleryService extends EventEmitter {
   }
 
   async updateCaption(playerId: string, screenshotId: string, caption: string): Promise<boolean> {
-    const result = await Screenshot.findOneAndUpdate(
+    const result = await this.screenshots.update(
       { screenshotId, playerId },
       { $set: { caption: caption.substring(0, 200) } }
     );
@@ -190,13 +210,15 @@ class GalleryService extends EventEmitter {
   // ==========================================
 
   async togglePublic(playerId: string, screenshotId: string): Promise<{ success: boolean; isPublic: boolean }> {
-    const screenshot = await Screenshot.findOne({ screenshotId, playerId });
-    if (!screenshot) {
+    const current = await this.screenshots.findOne({ screenshotId, playerId });
+    if (!current) {
       return { success: false, isPublic: false };
     }
 
-    screenshot.isPublic = !screenshot.isPublic;
-    await screenshot.save();
+    const screenshot = (await this.screenshots.update(
+      { screenshotId, playerId },
+      { $set: { isPublic: !current.isPublic } }
+    ))!;
 
     this.emit('visibility_changed', { 
       playerId, 
@@ -208,20 +230,16 @@ class GalleryService extends EventEmitter {
   }
 
   async likeScreenshot(screenshotId: string, likerPlayerId: string): Promise<{ success: boolean; likes: number }> {
-    const screenshot = await Screenshot.findOne({ screenshotId, isPublic: true });
+    // Only counts if not already liked
+    const screenshot = await this.screenshots.update(
+      { screenshotId, isPublic: true, likedBy: { $ne: likerPlayerId } },
+      { $inc: { likes: 1 }, $push: { likedBy: likerPlayerId } }
+    );
     if (!screenshot) {
-      return { success: false, likes: 0 };
-    }
-
-    // Check if already liked
-    if (screenshot.likedBy.includes(likerPlayerId)) {
-      return { success: false, likes: screenshot.likes };
+      const existing = await this.screenshots.findOne({ screenshotId, isPublic: true });
+      return { success: false, likes: existing?.likes || 0 };
     }
 
-    screenshot.likes += 1;
-    screenshot.likedBy.push(likerPlayerId);
-    await screenshot.save();
-
     this.emit('screenshot_liked', { 
       screenshotId, 
       ownerId: screenshot.playerId, 
@@ -233,13 +251,12 @@ class GalleryService extends EventEmitter {
   }
 
   async unlikeScreenshot(screenshotId: string, likerPlayerId: string): Promise<{ success: boolean; likes: number }> {
-    const result = await Screenshot.findOneAndUpdate(
+    const result = await this.screenshots.update(
       { screenshotId, isPublic: true, likedBy: likerPlayerId },
       { 
         $inc: { likes: -1 },
         $pull: { likedBy: likerPlayerId }
-      },
-      { new: true }
+      }
     );
 
     if (!result) {
@@ -255,11 +272,11 @@ class GalleryService extends EventEmitter {
     sortBy?: 'recent' | 'popular';
     realm?: string;
     filter?: string;
-  }): Promise<IScreenshot[]> {
+  }): Promise<ScreenshotRecord[]> {
     const limit = query?.limit || 20;
     const offset = query?.offset || 0;
     
-    let findQuery: any = { isPublic: true };
+    const findQuery: Filter = { isPublic: true };
     
     if (query?.realm) {
       findQuery['location.realm'] = query.realm;
@@ -273,10 +290,7 @@ class GalleryService extends EventEmitter {
       ? { likes: -1, createdAt: -1 } 
       : { createdAt: -1 };
 
-    return Screenshot.find(findQuery)
-      .sort(sortField)
-      .skip(offset)
-      .limit(limit);
+    return this.screenshots.find(findQuery, { sort: sortField, skip: offset, limit });
   }
 
   // ==========================================
@@ -284,7 +298,7 @@ class GalleryService extends EventEmitter {
   // ==========================================
 
   async trackShare(screenshotId: string, platform: string): Promise<void> {
-    await Screenshot.findOneAndUpdate(
+    await this.screenshots.update(
       { screenshotId },
       { $push: { shares: { platform, timestamp: new Date() } } }
     );
@@ -296,7 +310,7 @@ class GalleryService extends EventEmitter {
     totalShares: number;
     byPlatform: Record<string, number>;
   }> {
-    const screenshots = await Screenshot.find({ playerId });
+    const screenshots = await this.screenshots.find({ playerId });
     
     const stats = {
       totalShares: 0,
@@ -317,15 +331,15 @@ class GalleryService extends EventEmitter {
   // Album Management
   // ==========================================
 
-  async createAlbum(playerId: string, name: string, description?: string): Promise<{ success: boolean; album?: IGalleryAlbum; error?: string }> {
-    const albumCount = await GalleryAlbum.countDocuments({ playerId });
+  async createAlbum(playerId: string, name: string, description?: string): Promise<{ success: boolean; album?: GalleryAlbumRecord; error?: string }> {
+    const albumCount = await this.albums.count({ playerId });
     if (albumCount >= this.MAX_ALBUMS) {
       return { success: false, error: 'Maximum albums reached' };
     }
 
     const albumId = `album_${playerId}_${crypto.randomBytes(6).toString('hex')}`;
 
-    const album = new GalleryAlbum({
+    const album = await this.albums.insert({
       albumId,
       playerId,
       name: name.substring(0, 50),
@@ -334,21 +348,19 @@ class GalleryService extends EventEmitter {
       isDefault: false
     });
 
-    await album.save();
-
     return { success: true, album };
   }
 
-  async getAlbums(playerId: string): Promise<IGalleryAlbum[]> {
-    return GalleryAlbum.find({ playerId }).sort({ createdAt: -1 });
+  async getAlbums(playerId: string): Promise<GalleryAlbumRecord[]> {
+    return this.albums.find({ playerId }, { sort: { createdAt: -1 } });
   }
 
-  async getAlbum(albumId: string): Promise<IGalleryAlbum | null> {
-    return GalleryAlbum.findOne({ albumId });
+  async getAlbum(albumId: string): Promise<GalleryAlbumRecord | null> {
+    return this.albums.findOne({ albumId });
   }
 
   async addToAlbum(playerId: string, albumId: string, screenshotId: string): Promise<boolean> {
-    const album = await GalleryAlbum.findOne({ albumId, playerId });
+    const album = await this.albums.findOne({ albumId, playerId });
     if (!album) return false;
 
     if (album.screenshotIds.length >= this.MAX_ALBUM_SIZE) {
@@ -359,19 +371,19 @@ class GalleryService extends EventEmitter {
       return true; // Already in album
     }
 
-    album.screenshotIds.push(screenshotId);
-    
-    // Set cover if empty
-    if (!album.coverScreenshotId) {
-      album.coverScreenshotId = screenshotId;
-    }
-
-    await album.save();
+    await this.albums.update(
+      { albumId, playerId },
+      {
+        $addToSet: { screenshotIds: screenshotId },
+        // Set cover if empty
+        ...(album.coverScreenshotId ? {} : { $set: { coverScreenshotId: screenshotId } })
+      }
+    );
     return true;
   }
 
   async removeFromAlbum(playerId: string, albumId: string, screenshotId: string): Promise<boolean> {
-    const result = await GalleryAlbum.findOneAndUpdate(
+    const result = await this.albums.update(
       { albumId, playerId },
       { $pull: { screenshotIds: screenshotId } }
     );
@@ -379,19 +391,18 @@ class GalleryService extends EventEmitter {
   }
 
   async deleteAlbum(playerId: string, albumId: string): Promise<boolean> {
-    const result = await GalleryAlbum.deleteOne({ albumId, playerId, isDefault: false });
-    return result.deletedCount > 0;
+    return this.albums.delete({ albumId, playerId, isDefault: false });
   }
 
-  async getAlbumScreenshots(albumId: string): Promise<IScreenshot[]> {
-    const album = await GalleryAlbum.findOne({ albumId });
+  async getAlbumScreenshots(albumId: string): Promise<ScreenshotRecord[]> {
+    const album = await this.albums.findOne({ albumId });
     if (!album || album.screenshotIds.length === 0) {
       return [];
     }
 
-    return Screenshot.find({ 
+    return this.screenshots.find({ 
       screenshotId: { $in: album.screenshotIds } 
-    }).sort({ createdAt: -1 });
+    }, { sort: { createdAt: -1 } });
   }
 
   // ==========================================
@@ -403,11 +414,11 @@ class GalleryService extends EventEmitter {
     featuredBy: string, 
     category: string, 
     reason?: string
-  ): Promise<IFeaturedScreenshot | null> {
-    const screenshot = await Screenshot.findOne({ screenshotId, isPublic: true });
+  ): Promise<FeaturedScreenshotRecord | null> {
+    const screenshot = await this.screenshots.findOne({ screenshotId, isPublic: true });
     if (!screenshot) return null;
 
-    const featured = new FeaturedScreenshot({
+    const featured = await this.featured.insert({
       screenshotId,
       featuredBy,
       featuredReason: reason,
@@ -416,8 +427,6 @@ class GalleryService extends EventEmitter {
       isActive: true
     });
 
-    await featured.save();
-
     this.emit('screenshot_featured', { 
       screenshotId, 
       category, 
@@ -427,18 +436,13 @@ class GalleryService extends EventEmitter {
     return featured;
   }
 
-  async getFeaturedScreenshots(category?: string): Promise<IFeaturedScreenshot[]> {
-    const query: any = { isActive: true };
+  async getFeaturedScreenshots(category?: string): Promise<FeaturedScreenshotRecord[]> {
+    const query: Filter = { isActive: true };
     if (category) {
       query.category = category;
     }
 
-    const featured = await FeaturedScreenshot
-      .find(query)
-      .sort({ priority: -1, featuredAt: -1 })
-      .limit(20);
-
-    return featured;
+    return this.featured.find(query, { sort: { priority: -1, featuredAt: -1 }, limit: 20 });
   }
 
   // ==========================================
@@ -453,7 +457,7 @@ class GalleryService extends EventEmitter {
   ): Promise<boolean> {
     const reportId = `report_${crypto.randomBytes(8).toString('hex')}`;
 
-    const report = new ScreenshotReport({
+    await this.reports.insert({
       reportId,
       screenshotId,
       reporterId,
@@ -462,8 +466,6 @@ class GalleryService extends EventEmitter {
       status: 'pending'
     });
 
-    await report.save();
-
     this.emit('screenshot_reported', { screenshotId, reporterId, reason });
 
     return true;
@@ -481,8 +483,8 @@ class GalleryService extends EventEmitter {
     albumCount: number;
     topFilters: Array<{ filter: string; count: number }>;
   }> {
-    const screenshots = await Screenshot.find({ playerId });
-    const albums = await GalleryAlbum.countDocuments({ playerId });
+    const screenshots = await this.screenshots.find({ playerId });
+    const albums = await this.albums.count({ playerId });
 
     const filterCounts: Record<string, number> = {};
     let totalLikes = 0;
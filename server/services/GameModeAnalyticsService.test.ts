@@ -0,0 +1,51 @@
+// =============================================================================
+// GameModeAnalyticsService Tests - preferences and session stats on repositories
+// =============================================================================
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { GameModeAnalyticsService, PlayerPreferences, GameModeSession, AmbientSession } from './GameModeAnalyticsService.js';
+import { MemoryRepository } from '../persistence/index.js';
+
+describe('GameModeAnalyticsService', () => {
+    let service: GameModeAnalyticsService;
+    let ambientSessions: MemoryRepository<any>;
+
+    beforeEach(() => {
+        ambientSessions = new MemoryRepository<any>([], AmbientSession);
+        service = new GameModeAnalyticsService({
+            preferences: new MemoryRepository<any>([], PlayerPreferences),
+            gameModeSessions: new MemoryRepository<any>([], GameModeSession),
+            ambientSessions
+        });
+    });
+
+    it('creates preferences with defaults and applies updates', async () => {
+        const created = await service.getPlayerPreferences('ana');
+        expect(created.playerId).toBe('ana');
+
+        expect(created.visualFilters).toMatchObject({ enabled: false, preset: 'default' });
+
+        await service.updateVisualFilters('ana', { enabled: true, preset: 'dreamy' });
+        expect((await service.getPlayerPreferences('ana')).visualFilters).toEqual({ enabled: true, preset: 'dreamy' });
+    });
+
+    it('totals game mode and ambient sessions across players', async () => {
+        await service.startGameModeSession('ana', 'tag', 'genesis');
+        await service.endGameModeSession('ana', 'win', 3);
+        await service.startGameModeSession('bo', 'tag', 'genesis');
+        await service.startGameModeSession('bo', 'race', 'nebula');
+
+        const ana = await service.getGameModeStats('ana');
+        expect(ana).toMatchObject({ totalSessions: 1, modeBreakdown: { tag: { sessions: 1, wins: 1 } }, recentModes: ['tag'] });
+
+        expect(await service.getGlobalGameModeStats()).toMatchObject({
+            totalSessions: 3,
+            uniquePlayers: 2,
+            modePopularity: { tag: 2, race: 1 }
+        });
+
+        await ambientSessions.insert({ sessionId: 'a1', playerId: 'ana', mode: 'zen', startedAt: new Date(), realm: 'genesis', duration: 60 });
+        await ambientSessions.insert({ sessionId: 'a2', playerId: 'bo', mode: 'zen', startedAt: new Date(), realm: 'genesis', duration: 30 });
+        expect(await service.getGlobalAmbientStats()).toEqual({ totalSessions: 2, totalTime: 90, modePopularity: { zen: 2 } });
+    });
+});
@@ -5,7 +5,10 @@
 // =============================================================================
 
 import { EventEmitter } from 'events';
+import crypto from 'crypto';
 import mongoose, { Schema, Document, Model } from 'mongoose';
+import { persistence } from '../persistence/index.js';
+import type { Stored, Repository } from '../persistence/index.js';
 import { analyticsService } from './AnalyticsService.js';
 
 // ============================================
@@ -192,9 +195,36 @@ const AmbientSession = (mongoose.models.AmbientSession ||
 // GAME MODE ANALYTICS SERVICE
 // ============================================
 
-class GameModeAnalyticsService extends EventEmitter {
+export type PlayerPreferencesRecord = Stored<IPlayerPreferences>;
+export type GameModeSessionRecord = Stored<IGameModeSession>;
+export type AmbientSessionRecord = Stored<IAmbientSession>;
+
+/** Count of records per value of a field */
+function countBy<T>(records: T[], key: (record: T) => string): Record<string, number> {
+    const counts: Record<string, number> = {};
+    for (const record of records) {
+        counts[key(record)] = (counts[key(record)] || 0) + 1;
+    }
+    return counts;
+}
+
+export class GameModeAnalyticsService extends EventEmitter {
     private initialized: boolean = false;
     private activeSessions: Map<string, { sessionId: string; type: 'gameMode' | 'ambient' }> = new Map();
+    private preferences: Repository<PlayerPreferencesRecord>;
+    private gameModeSessions: Repository<GameModeSessionRecord>;
+    private ambientSessions: Repository<AmbientSessionRecord>;
+
+    constructor(options: {
+        preferences?: Repository<PlayerPreferencesRecord>;
+        gameModeSessions?: Repository<GameModeSessionRecord>;
+        ambientSessions?: Repository<AmbientSessionRecord>;
+    } = {}) {
+        super();
+        this.preferences = options.preferences || persistence.repository<PlayerPreferencesRecord>(PlayerPreferences);
+        this.gameModeSessions = options.gameModeSessions || persistence.repository<GameModeSessionRecord>(GameModeSession);
+        this.ambientSessions = options.ambientSessions || persistence.repository<AmbientSessionRecord>(AmbientSession);
+    }
 
     async initialize(): Promise<void> {
         if (this.initialized) return;
@@ -206,24 +236,19 @@ class GameModeAnalyticsService extends EventEmitter {
     // PLAYER PREFERENCES
     // =========================================================================
 
-    async getPlayerPreferences(playerId: string): Promise<IPlayerPreferences> {
-        let prefs = await PlayerPreferences.findOne({ playerId });
-
-        if (!prefs) {
-            prefs = await PlayerPreferences.create({ playerId });
-        }
-
-        return prefs;
+    async getPlayerPreferences(playerId: string): Promise<PlayerPreferencesRecord> {
+        return (await this.preferences.findOne({ playerId }))
+            || (await this.preferences.update({ playerId }, { $setOnInsert: { playerId } }, { upsert: true }))!;
     }
 
     async updatePreferences(
         playerId: string,
-        updates: Partial<IPlayerPreferences>
-    ): Promise<IPlayerPreferences | null> {
-        const result = await PlayerPreferences.findOneAndUpdate(
+        updates: Partial<PlayerPreferencesRecord>
+    ): Promise<PlayerPreferencesRecord | null> {
+        const result = await this.preferences.update(
             { playerId },
-            { ...updates, updatedAt: new Date() },
-            { new: true, upsert: true }
+            { $set: { ...updates, updatedAt: new Date() } },
+            { upsert: true }
         );
 
         this.emit('preferences_updated', { playerId, updates });
@@ -234,9 +259,9 @@ class GameModeAnalyticsService extends EventEmitter {
         playerId: string,
         filters: IPlayerPreferences['visualFilters']
     ): Promise<void> {
-        await PlayerPreferences.findOneAndUpdate(
+        await this.preferences.update(
             { playerId },
-            { visualFilters: filters, updatedAt: new Date() },
+            { $set: { visualFilters: filters, updatedAt: new Date() } },
             { upsert: true }
         );
 
@@ -253,9 +278,9 @@ class GameModeAnalyticsService extends EventEmitter {
         realm: string,
         metadata?: Record<string, any>
     ): Promise<string> {
-        const sessionId = `gm_${Date.now()}_${playerId}`;
+        const sessionId = `gm_${playerId}_${crypto.randomBytes(6).toString('hex')}`;
 
-        await GameModeSession.create({
+        await this.gameModeSessions.insert({
             sessionId,
             playerId,
             gameMode,
@@ -278,20 +303,22 @@ class GameModeAnalyticsService extends EventEmitter {
         const active = this.activeSessions.get(playerId);
         if (!active || active.type !== 'gameMode') return;
 
-        const session = await GameModeSession.findOne({ sessionId: active.sessionId });
+        const session = await this.gameModeSessions.findOne({ sessionId: active.sessionId });
         if (!session) return;
 
         const endedAt = new Date();
         const duration = (endedAt.getTime() - session.startedAt.getTime()) / 1000;
 
-        await GameModeSession.findOneAndUpdate(
+        await this.gameModeSessions.update(
             { sessionId: active.sessionId },
             {
-                endedAt,
-                duration,
-                completed: outcome !== 'abandoned',
-                outcome,
-                score
+                $set: {
+                    endedAt,
+                    duration,
+                    completed: outcome !== 'abandoned',
+                    outcome,
+                    score
+                }
             }
         );
 
@@ -311,7 +338,7 @@ class GameModeAnalyticsService extends EventEmitter {
         favoriteMode: string | null;
         recentModes: string[];
     }> {
-        const sessions = await GameModeSession.find({ playerId }).lean();
+        const sessions = await this.gameModeSessions.find({ playerId });
 
         const modeBreakdown: Record<string, { sessions: number; time: number; wins: number }> = {};
         let totalPlayTime = 0;
@@ -339,10 +366,7 @@ class GameModeAnalyticsService extends EventEmitter {
         }
 
         // Get recent modes
-        const recentSessions = await GameModeSession.find({ playerId })
-            .sort({ startedAt: -1 })
-            .limit(5)
-            .lean();
+        const recentSessions = await this.gameModeSessions.find({ playerId }, { sort: { startedAt: -1 }, limit: 5 });
         const recentModes = [...new Set(recentSessions.map(s => s.gameMode))];
 
         return {
@@ -367,9 +391,9 @@ class GameModeAnalyticsService extends EventEmitter {
         // End any existing ambient session
         await this.endAmbientSession(playerId);
 
-        const sessionId = `amb_${Date.now()}_${playerId}`;
+        const sessionId = `amb_${playerId}_${crypto.randomBytes(6).toString('hex')}`;
 
-        await AmbientSession.create({
+        await this.ambientSessions.insert({
             sessionId,
             playerId,
             mode,
@@ -388,15 +412,15 @@ class GameModeAnalyticsService extends EventEmitter {
         const active = this.activeSessions.get(playerId);
         if (!active || active.type !== 'ambient') return;
 
-        const session = await AmbientSession.findOne({ sessionId: active.sessionId });
+        const session = await this.ambientSessions.findOne({ sessionId: active.sessionId });
         if (!session) return;
 
         const endedAt = new Date();
         const duration = (endedAt.getTime() - session.startedAt.getTime()) / 1000;
 
-        await AmbientSession.findOneAndUpdate(
+        await this.ambientSessions.update(
             { sessionId: active.sessionId },
-            { endedAt, duration }
+            { $set: { endedAt, duration } }
         );
 
         // Track in general analytics
@@ -413,7 +437,7 @@ class GameModeAnalyticsService extends EventEmitter {
         favoriteMode: string | null;
         averageSessionLength: number;
     }> {
-        const sessions = await AmbientSession.find({ playerId }).lean();
+        const sessions = await this.ambientSessions.find({ playerId });
 
         const modeBreakdown: Record<string, { sessions: number; time: number }> = {};
         let totalTime = 0;
@@ -456,28 +480,15 @@ class GameModeAnalyticsService extends EventEmitter {
         modePopularity: Record<string, number>;
         averageSessionLength: number;
     }> {
-        const totalSessions = await GameModeSession.countDocuments();
-        const uniquePlayers = await GameModeSession.distinct('playerId').then(p => p.length);
-
-        const modeAgg = await GameModeSession.aggregate([
-            { $group: { _id: '$gameMode', count: { $sum: 1 } } }
-        ]);
-
-        const modePopularity: Record<string, number> = {};
-        for (const mode of modeAgg) {
-            modePopularity[mode._id] = mode.count;
-        }
-
-        const avgAgg = await GameModeSession.aggregate([
-            { $match: { duration: { $gt: 0 } } },
-            { $group: { _id: null, avg: { $avg: '$duration' } } }
-        ]);
+        const sessions = await this.gameModeSessions.find({}, { fields: ['playerId', 'gameMode', 'duration'] });
+        const uniquePlayers = new Set(sessions.map(s => s.playerId)).size;
+        const timed = sessions.filter(s => s.duration > 0);
 
         return {
-            totalSessions,
+            totalSessions: sessions.length,
             uniquePlayers,
-            modePopularity,
-            averageSessionLength: avgAgg[0]?.avg || 0
+            modePopularity: countBy(sessions, s => s.gameMode),
+            averageSessionLength: timed.length > 0 ? timed.reduce((sum, s) => sum + s.duration, 0) / timed.length : 0
         };
     }
 
@@ -486,25 +497,12 @@ class GameModeAnalyticsService extends EventEmitter {
         totalTime: number;
         modePopularity: Record<string, number>;
     }> {
-        const totalSessions = await AmbientSession.countDocuments();
-
-        const totalTimeAgg = await AmbientSession.aggregate([
-            { $group: { _id: null, total: { $sum: '$duration' } } }
-        ]);
-
-        const modeAgg = await AmbientSession.aggregate([
-            { $group: { _id: '$mode', count: { $sum: 1 } } }
-        ]);
-
-        const modePopularity: Record<string, number> = {};
-        for (const mode of modeAgg) {
-            modePopularity[mode._id] = mode.count;
-        }
+        const sessions = await this.ambientSessions.find({}, { fields: ['mode', 'duration'] });
 
         return {
-            totalSessions,
-            totalTime: totalTimeAgg[0]?.total || 0,
-            modePopularity
+            totalSessions: sessions.length,
+            totalTime: sessions.reduce((sum, s) => sum + (s.duration || 0), 0),
+            modePopularity: countBy(sessions, s => s.mode)
         };
     }
 
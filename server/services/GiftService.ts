@@ -6,9 +6,14 @@
 
 import { EventEmitter } from 'events';
 import { Progression } from '../database/progressionModels.js';
-import { Gift, GiftStreak, type IGift, type IGiftStreak } from '../database/socialModels.js';
+import { Gift, GiftStreak } from '../database/socialModels.js';
 import { PlayerData } from '../database/playerDataModel.js';
+import { persistence } from '../persistence/index.js';
+import type { Repository } from '../persistence/index.js';
 import { cosmeticsService } from './CosmeticsService.js';
+import { ledgerService } from './LedgerService.js';
+import type { ProgressionRecord, GiftRecord, GiftStreakRecord } from './ProgressionService.js';
+import type { PlayerDataRecord } from './PlayerDataService.js';
 
 // ============================================
 // GIFT CONFIG
@@ -36,6 +41,23 @@ const GIFT_COOLDOWN = 24 * 60 * 60 * 1000; // 24 hours between gifts to same pla
 
 class GiftService extends EventEmitter {
     private initialized: boolean = false;
+    private progressions: Repository<ProgressionRecord>;
+    private gifts: Repository<GiftRecord>;
+    private giftStreaks: Repository<GiftStreakRecord>;
+    private players: Repository<PlayerDataRecord>;
+
+    constructor(options: {
+        progressions?: Repository<ProgressionRecord>;
+        gifts?: Repository<GiftRecord>;
+        giftStreaks?: Repository<GiftStreakRecord>;
+        players?: Repository<PlayerDataRecord>;
+    } = {}) {
+        super();
+        this.progressions = options.progressions || persistence.repository<ProgressionRecord>(Progression);
+        this.gifts = options.gifts || persistence.repository<GiftRecord>(Gift);
+        this.giftStreaks = options.giftStreaks || persistence.repository<GiftStreakRecord>(GiftStreak);
+        this.players = options.players || persistence.repository<PlayerDataRecord>(PlayerData);
+    }
 
     async init(): Promise<void> {
         if (this.initialized) return;
@@ -64,6 +86,9 @@ class GiftService extends EventEmitter {
             if (!GIFT_COSTS[giftType]) {
                 return { success: false, error: 'Invalid gift type' };
             }
+            if (!Number.isInteger(amount) || amount < 1) {
+                return { success: false, error: 'Invalid gift amount' };
+            }
 
             // Check cooldown
             const cooldownInfo = await this.getGiftCooldown(fromId, toId);
@@ -72,7 +97,7 @@ class GiftService extends EventEmitter {
             }
 
             // Get sender's balance
-            const sender = await Progression.findOne({ playerId: fromId });
+            const sender = await this.progressions.count({ playerId: fromId });
             if (!sender) {
                 return { success: false, error: 'Sender not found' };
             }
@@ -80,26 +105,18 @@ class GiftService extends EventEmitter {
             const cost = GIFT_COSTS[giftType];
             const totalCost = cost.amount * amount;
 
-            // Check balance
-            if (cost.currency === 'stardust') {
-                if (sender.stardust < totalCost) {
-                    return { success: false, error: 'Not enough stardust' };
-                }
-            } else if (cost.currency === 'crystals') {
-                if ((sender.crystals || 0) < totalCost) {
-                    return { success: false, error: 'Not enough crystals' };
-                }
-            }
-
             // Deduct from sender
-            const updateField = cost.currency === 'stardust' ? 'stardust' : 'crystals';
-            await Progression.findOneAndUpdate(
-                { playerId: fromId },
-                { $inc: { [updateField]: -totalCost } }
-            );
+            const payment = await ledgerService.debit(fromId, cost.currency, totalCost, {
+                source: 'gift',
+                reason: 'send',
+                metadata: { toPlayerId: toId, giftType, amount }
+            });
+            if (!payment.success) {
+                return { success: false, error: `Not enough ${cost.currency}` };
+            }
 
             // Create gift using progressionModels Gift schema
-            const gift = new Gift({
+            const gift = await this.gifts.insert({
                 fromPlayerId: fromId,
                 toPlayerId: toId,
                 giftType: giftType as 'stardust' | 'cosmetic' | 'xpBoost' | 'fragment',
@@ -107,24 +124,17 @@ class GiftService extends EventEmitter {
                 message: message?.trim().substring(0, 100),
                 claimed: false
             });
-            await gift.save();
 
             // Update streak
             await this.updateGiftStreak(fromId, toId);
 
-            // Get remaining balance
-            const updatedSender = await Progression.findOne({ playerId: fromId });
-            const remainingBalance = cost.currency === 'stardust'
-                ? updatedSender?.stardust
-                : updatedSender?.crystals;
-
             const giftId = gift._id?.toString() || '';
             this.emit('gift_sent', { giftId, fromId, toId, giftType });
 
             return {
                 success: true,
                 giftId,
-                remainingBalance: remainingBalance || 0
+                remainingBalance: payment.balance
             };
         } catch (error) {
             console.error('Error sending gift:', error);
@@ -143,37 +153,33 @@ class GiftService extends EventEmitter {
         error?: string;
     }> {
         try {
-            const gift = await Gift.findOne({
-                _id: giftId,
-                toPlayerId: playerId,
-                claimed: false
-            });
+            // Mark as claimed; only one claim finds it unclaimed
+            const gift = await this.gifts.update(
+                { _id: giftId, toPlayerId: playerId, claimed: false },
+                { $set: { claimed: true, claimedAt: new Date() } }
+            );
 
             if (!gift) {
                 return { success: false, error: 'Gift not found or already claimed' };
             }
 
-            // Mark as claimed
-            gift.claimed = true;
-            gift.claimedAt = new Date();
-            await gift.save();
-
             // Award to recipient based on gift type
             let newBalance = 0;
 
             switch (gift.giftType) {
                 case 'stardust':
-                    const result1 = await Progression.findOneAndUpdate(
-                        { playerId },
-                        { $inc: { stardust: gift.amount } },
-                        { new: true, upsert: true }
-                    );
-                    newBalance = result1?.stardust || 0;
+                    const result1 = await ledgerService.credit(playerId, 'stardust', gift.amount, {
+                        source: 'gift',
+                        reason: 'claim',
+                        idempotencyKey: `gift_claim:${giftId}`,
+                        metadata: { giftId, fromPlayerId: gift.fromPlayerId }
+                    });
+                    newBalance = result1.balance;
                     break;
 
                 case 'xpBoost':
                     // Add XP boost to active boosts
-                    await PlayerData.findOneAndUpdate(
+                    await this.players.update(
                         { playerId },
                         {
                             $push: {
@@ -193,10 +199,10 @@ class GiftService extends EventEmitter {
                     break;
 
                 case 'fragment':
-                    const result2 = await PlayerData.findOneAndUpdate(
+                    const result2 = await this.players.update(
                         { playerId },
                         { $inc: { fragments: gift.amount } },
-                        { new: true, upsert: true }
+                        { upsert: true }
                     );
                     newBalance = result2?.fragments || 0;
                     break;
@@ -219,12 +225,12 @@ class GiftService extends EventEmitter {
     /**
      * Get pending (unclaimed) gifts for a player
      */
-    async getPendingGifts(playerId: string): Promise<IGift[]> {
+    async getPendingGifts(playerId: string): Promise<GiftRecord[]> {
         try {
-            return await Gift.find({
-                toPlayerId: playerId,
-                claimed: false
-            }).sort({ createdAt: -1 }).limit(50);
+            return await this.gifts.find(
+                { toPlayerId: playerId, claimed: false },
+                { sort: { createdAt: -1 }, limit: 50 }
+            );
         } catch (error) {
             console.error('Error getting pending gifts:', error);
             return [];
@@ -235,17 +241,13 @@ class GiftService extends EventEmitter {
      * Get gift history (sent and received)
      */
     async getGiftHistory(playerId: string, limit: number = 50): Promise<{
-        sent: IGift[];
-        received: IGift[];
+        sent: GiftRecord[];
+        received: GiftRecord[];
     }> {
         try {
             const [sent, received] = await Promise.all([
-                Gift.find({ fromPlayerId: playerId })
-                    .sort({ createdAt: -1 })
-                    .limit(limit),
-                Gift.find({ toPlayerId: playerId })
-                    .sort({ createdAt: -1 })
-                    .limit(limit)
+                this.gifts.find({ fromPlayerId: playerId }, { sort: { createdAt: -1 }, limit }),
+                this.gifts.find({ toPlayerId: playerId }, { sort: { createdAt: -1 }, limit })
             ]);
 
             return { sent, received };
@@ -264,10 +266,10 @@ class GiftService extends EventEmitter {
         lastGiftTime?: number;
     }> {
         try {
-            const lastGift = await Gift.findOne({
-                fromPlayerId: fromId,
-                toPlayerId: toId
-            }).sort({ createdAt: -1 });
+            const [lastGift] = await this.gifts.find(
+                { fromPlayerId: fromId, toPlayerId: toId },
+                { sort: { createdAt: -1 }, limit: 1 }
+            );
 
             if (!lastGift) {
                 return { canGift: true, remainingMs: 0 };
@@ -291,9 +293,9 @@ class GiftService extends EventEmitter {
      * Get gift streak between two players
      * Note: Uses 'friendId' field name to match progressionModels.ts schema
      */
-    async getGiftStreak(fromId: string, toId: string): Promise<IGiftStreak | null> {
+    async getGiftStreak(fromId: string, toId: string): Promise<GiftStreakRecord | null> {
         try {
-            return await GiftStreak.findOne({ playerId: fromId, friendId: toId });
+            return await this.giftStreaks.findOne({ playerId: fromId, friendId: toId });
         } catch (error) {
             console.error('Error getting gift streak:', error);
             return null;
@@ -308,10 +310,10 @@ class GiftService extends EventEmitter {
         try {
             const today = new Date().toISOString().split('T')[0];
 
-            let streak = await GiftStreak.findOne({ playerId: fromId, friendId: toId });
+            const streak = await this.giftStreaks.findOne({ playerId: fromId, friendId: toId });
 
             if (!streak) {
-                streak = new GiftStreak({
+                await this.giftStreaks.insert({
                     playerId: fromId,
                     friendId: toId,  // progressionModels uses 'friendId' not 'targetId'
                     currentStreak: 1,
@@ -320,26 +322,34 @@ class GiftService extends EventEmitter {
                     totalGiftsSent: 1,
                     totalGiftsReceived: 0
                 });
-            } else {
-                // Check if continuing streak (must be consecutive days)
-                const lastDate = streak.lastGiftDate;
-                const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString().split('T')[0];
-
-                if (lastDate === yesterday) {
-                    // Continuing streak
-                    streak.currentStreak += 1;
-                    streak.longestStreak = Math.max(streak.longestStreak, streak.currentStreak);
-                } else if (lastDate !== today) {
-                    // Streak broken
-                    streak.currentStreak = 1;
-                }
-                // If same day, don't increment streak
-
-                streak.lastGiftDate = today;
-                streak.totalGiftsSent += 1;
+                return;
             }
 
-            await streak.save();
+            // Check if continuing streak (must be consecutive days)
+            const lastDate = streak.lastGiftDate;
+            const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+            let currentStreak = streak.currentStreak;
+
+            if (lastDate === yesterday) {
+                // Continuing streak
+                currentStreak += 1;
+            } else if (lastDate !== today) {
+                // Streak broken
+                currentStreak = 1;
+            }
+            // If same day, don't increment streak
+
+            await this.giftStreaks.update(
+                { playerId: fromId, friendId: toId },
+                {
+                    $set: {
+                        currentStreak,
+                        longestStreak: Math.max(streak.longestStreak, currentStreak),
+                        lastGiftDate: today
+                    },
+                    $inc: { totalGiftsSent: 1 }
+                }
+            );
         } catch (error) {
             console.error('Error updating gift streak:', error);
         }
@@ -4,7 +4,12 @@
 
 import { EventEmitter } from 'events';
 import crypto from 'crypto';
-import { GiftStreak, DailyGiftLog, IGiftStreak, IDailyGiftLog } from '../database/socialModels.js';
+import { GiftStreak, DailyGiftLog, IDailyGiftLog } from '../database/socialModels.js';
+import { persistence } from '../persistence/index.js';
+import type { Stored, Repository } from '../persistence/index.js';
+import type { GiftStreakRecord } from './ProgressionService.js';
+
+export type DailyGiftLogRecord = Stored<IDailyGiftLog>;
 
 // ============================================
 // TYPES
@@ -26,8 +31,8 @@ interface StreakMilestoneReward {
 }
 
 interface SendGiftResult {
-    gift: IDailyGiftLog;
-    streak: IGiftStreak;
+    gift: DailyGiftLogRecord;
+    streak: GiftStreakRecord;
     milestoneReached: StreakMilestoneReward | null;
     streakIncreased: boolean;
 }
@@ -54,6 +59,17 @@ const GIFT_EXPIRY_HOURS = 72; // 3 days to claim
 
 class GiftStreakService extends EventEmitter {
     private initialized = false;
+    private streaks: Repository<GiftStreakRecord>;
+    private gifts: Repository<DailyGiftLogRecord>;
+
+    constructor(options: {
+        streaks?: Repository<GiftStreakRecord>;
+        gifts?: Repository<DailyGiftLogRecord>;
+    } = {}) {
+        super();
+        this.streaks = options.streaks || persistence.repository<GiftStreakRecord>(GiftStreak);
+        this.gifts = options.gifts || persistence.repository<DailyGiftLogRecord>(DailyGiftLog);
+    }
 
     async initialize(): Promise<void> {
         if (this.initialized) return;
@@ -84,10 +100,10 @@ class GiftStreakService extends EventEmitter {
         const today = this.getDateString();
         
         // Get or create streak record
-        let streak = await GiftStreak.findOne({ playerId: senderId, friendId: receiverId });
+        let streak = await this.streaks.findOne({ playerId: senderId, friendId: receiverId });
         
         if (!streak) {
-            streak = new GiftStreak({
+            streak = await this.streaks.insert({
                 playerId: senderId,
                 friendId: receiverId,
                 currentStreak: 0,
@@ -113,7 +129,7 @@ class GiftStreakService extends EventEmitter {
         const yesterday = this.getDateString(-1);
         
         // Check if we received a gift from them recently (mutual exchange maintains streak)
-        const reciprocalStreak = await GiftStreak.findOne({ playerId: receiverId, friendId: senderId });
+        const reciprocalStreak = await this.streaks.findOne({ playerId: receiverId, friendId: senderId });
         const theyGiftedYesterday = reciprocalStreak?.lastGiftDate === yesterday || reciprocalStreak?.lastGiftDate === today;
         
         if (streak.lastGiftDate === yesterday || theyGiftedYesterday) {
@@ -157,10 +173,10 @@ class GiftStreakService extends EventEmitter {
             streak.milestonesClaimed.push(achievedMilestone.milestone);
         }
 
-        await streak.save();
+        await this.streaks.save({ playerId: senderId, friendId: receiverId }, streak);
 
         // Create gift log
-        const gift = new DailyGiftLog({
+        const gift = await this.gifts.insert({
             giftId: crypto.randomBytes(12).toString('hex'),
             senderId,
             senderName,
@@ -177,10 +193,8 @@ class GiftStreakService extends EventEmitter {
             expiresAt: new Date(Date.now() + GIFT_EXPIRY_HOURS * 60 * 60 * 1000)
         });
 
-        await gift.save();
-
         // Update receiver's streak record (for tracking received gifts)
-        await GiftStreak.findOneAndUpdate(
+        await this.streaks.update(
             { playerId: receiverId, friendId: senderId },
             { 
                 $inc: { totalGiftsReceived: 1 },
@@ -203,19 +217,20 @@ class GiftStreakService extends EventEmitter {
     /**
      * Claim a received gift
      */
-    async claimGift(giftId: string, playerId: string): Promise<IDailyGiftLog | null> {
-        const gift = await DailyGiftLog.findOne({
-            giftId,
-            receiverId: playerId,
-            claimedAt: null,
-            expiresAt: { $gt: new Date() }
-        });
+    async claimGift(giftId: string, playerId: string): Promise<DailyGiftLogRecord | null> {
+        // Only one claim finds it unclaimed
+        const gift = await this.gifts.update(
+            {
+                giftId,
+                receiverId: playerId,
+                claimedAt: null,
+                expiresAt: { $gt: new Date() }
+            },
+            { $set: { claimedAt: new Date() } }
+        );
 
         if (!gift) return null;
 
-        gift.claimedAt = new Date();
-        await gift.save();
-
         this.emit('gift_claimed', {
             giftId,
             receiverId: playerId,
@@ -230,12 +245,12 @@ class GiftStreakService extends EventEmitter {
     /**
      * Get all pending (unclaimed) gifts for a player
      */
-    async getPendingGifts(playerId: string): Promise<IDailyGiftLog[]> {
-        return DailyGiftLog.find({
+    async getPendingGifts(playerId: string): Promise<DailyGiftLogRecord[]> {
+        return this.gifts.find({
             receiverId: playerId,
             claimedAt: null,
             expiresAt: { $gt: new Date() }
-        }).sort({ createdAt: -1 });
+        }, { sort: { createdAt: -1 } });
     }
 
     // ─────────────────────────────────────────────────────────────────────────
@@ -245,54 +260,50 @@ class GiftStreakService extends EventEmitter {
     /**
      * Get streak data between two players
      */
-    async getStreak(playerId: string, friendId: string): Promise<IGiftStreak | null> {
-        return GiftStreak.findOne({ playerId, friendId });
+    async getStreak(playerId: string, friendId: string): Promise<GiftStreakRecord | null> {
+        return this.streaks.findOne({ playerId, friendId });
     }
 
     /**
      * Get all streaks for a player
      */
-    async getPlayerStreaks(playerId: string): Promise<IGiftStreak[]> {
-        return GiftStreak.find({ playerId }).sort({ currentStreak: -1 });
+    async getPlayerStreaks(playerId: string): Promise<GiftStreakRecord[]> {
+        return this.streaks.find({ playerId }, { sort: { currentStreak: -1 } });
     }
 
     /**
      * Get top streaks for a player (active ones)
      */
-    async getActiveStreaks(playerId: string, limit: number = 10): Promise<IGiftStreak[]> {
+    async getActiveStreaks(playerId: string, limit: number = 10): Promise<GiftStreakRecord[]> {
         const today = this.getDateString();
         const yesterday = this.getDateString(-1);
 
-        return GiftStreak.find({
+        return this.streaks.find({
             playerId,
             currentStreak: { $gt: 0 },
             lastGiftDate: { $in: [today, yesterday] }
-        })
-            .sort({ currentStreak: -1 })
-            .limit(limit);
+        }, { sort: { currentStreak: -1 }, limit });
     }
 
     /**
      * Get friends with expiring streaks (haven't gifted today, but have active streak)
      */
-    async getExpiringStreaks(playerId: string): Promise<IGiftStreak[]> {
+    async getExpiringStreaks(playerId: string): Promise<GiftStreakRecord[]> {
         const today = this.getDateString();
         const yesterday = this.getDateString(-1);
 
-        return GiftStreak.find({
+        return this.streaks.find({
             playerId,
             currentStreak: { $gt: 0 },
             lastGiftDate: yesterday // Gifted yesterday but not today
-        }).sort({ currentStreak: -1 });
+        }, { sort: { currentStreak: -1 } });
     }
 
     /**
      * Get streak leaderboard across all players
      */
-    async getStreakLeaderboard(limit: number = 20): Promise<IGiftStreak[]> {
-        return GiftStreak.find({ currentStreak: { $gt: 0 } })
-            .sort({ currentStreak: -1 })
-            .limit(limit);
+    async getStreakLeaderboard(limit: number = 20): Promise<GiftStreakRecord[]> {
+        return this.streaks.find({ currentStreak: { $gt: 0 } }, { sort: { currentStreak: -1 }, limit });
     }
 
     /**
@@ -303,7 +314,7 @@ class GiftStreakService extends EventEmitter {
         friendId: string, 
         milestone: number
     ): Promise<StreakMilestoneReward | null> {
-        const streak = await GiftStreak.findOne({ playerId, friendId });
+        const streak = await this.streaks.findOne({ playerId, friendId });
         if (!streak) return null;
 
         // Check if milestone is valid and hasn't been claimed
@@ -318,8 +329,13 @@ class GiftStreakService extends EventEmitter {
             throw new Error('Milestone not yet reached');
         }
 
-        streak.milestonesClaimed.push(milestone);
-        await streak.save();
+        const claimed = await this.streaks.update(
+            { playerId, friendId, milestonesClaimed: { $ne: milestone } },
+            { $push: { milestonesClaimed: milestone } }
+        );
+        if (!claimed) {
+            throw new Error('Milestone already claimed');
+        }
 
         this.emit('milestone_claimed', {
             playerId,
@@ -335,7 +351,7 @@ class GiftStreakService extends EventEmitter {
      * Clear the "streak broken" notification flag
      */
     async acknowledgeStreakBroken(playerId: string, friendId: string): Promise<void> {
-        await GiftStreak.updateOne(
+        await this.streaks.update(
             { playerId, friendId },
             { $set: { streakBroken: false } }
         );
@@ -348,26 +364,22 @@ class GiftStreakService extends EventEmitter {
     /**
      * Get sent gift history
      */
-    async getSentGiftHistory(playerId: string, limit: number = 50): Promise<IDailyGiftLog[]> {
-        return DailyGiftLog.find({ senderId: playerId })
-            .sort({ createdAt: -1 })
-            .limit(limit);
+    async getSentGiftHistory(playerId: string, limit: number = 50): Promise<DailyGiftLogRecord[]> {
+        return this.gifts.find({ senderId: playerId }, { sort: { createdAt: -1 }, limit });
     }
 
     /**
      * Get received gift history
      */
-    async getReceivedGiftHistory(playerId: string, limit: number = 50): Promise<IDailyGiftLog[]> {
-        return DailyGiftLog.find({ receiverId: playerId })
-            .sort({ createdAt: -1 })
-            .limit(limit);
+    async getReceivedGiftHistory(playerId: string, limit: number = 50): Promise<DailyGiftLogRecord[]> {
+        return this.gifts.find({ receiverId: playerId }, { sort: { createdAt: -1 }, limit });
     }
 
     /**
      * Check if player can send gift to friend today
      */
     async canSendGiftToday(playerId: string, friendId: string): Promise<boolean> {
-        const streak = await GiftStreak.findOne({ playerId, friendId });
+        const streak = await this.streaks.findOne({ playerId, friendId });
         if (!streak) return true;
         return streak.lastGiftDate !== this.getDateString();
     }
@@ -378,13 +390,13 @@ class GiftStreakService extends EventEmitter {
     async getFriendsToGift(playerId: string, friendIds: string[]): Promise<string[]> {
         const today = this.getDateString();
         
-        const sentToday = await GiftStreak.find({
+        const sentToday = await this.streaks.find({
             playerId,
             friendId: { $in: friendIds },
             lastGiftDate: today
-        }).select('friendId');
+        }, { fields: ['friendId'] });
 
-        const sentTodayIds = new Set(sentToday.map((s: IGiftStreak) => s.friendId));
+        const sentTodayIds = new Set(sentToday.map(s => s.friendId));
         return friendIds.filter(id => !sentTodayIds.has(id));
     }
 
@@ -404,7 +416,7 @@ class GiftStreakService extends EventEmitter {
         totalMilestonesClaimed: number;
         uniqueFriendsGifted: number;
     }> {
-        const streaks = await GiftStreak.find({ playerId });
+        const streaks = await this.streaks.find({ playerId });
         
         const today = this.getDateString();
         const yesterday = this.getDateString(-1);
@@ -470,7 +482,7 @@ class GiftStreakService extends EventEmitter {
             const twoDaysAgo = this.getDateString(-2);
 
             // Mark streaks as broken if last gift was 2+ days ago
-            const result = await GiftStreak.updateMany(
+            const expired = await this.streaks.updateMany(
                 {
                     currentStreak: { $gt: 0 },
                     lastGiftDate: { $lte: twoDaysAgo },
@@ -481,8 +493,8 @@ class GiftStreakService extends EventEmitter {
                 }
             );
 
-            if (result.modifiedCount > 0) {
-                console.log(`🔥 ${result.modifiedCount} streaks expired`);
+            if (expired > 0) {
+                console.log(`🔥 ${expired} streaks expired`);
             }
         }, 60 * 60 * 1000); // Every hour
     }
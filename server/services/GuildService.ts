@@ -4,12 +4,19 @@
 
 import { EventEmitter } from 'events';
 import crypto from 'crypto';
-import { Guild, GuildGift, GuildApplication, IGuild, IGuildMember, IGuildGift, IGuildApplication } from '../database/guildModels.js';
+import { Guild, GuildGift, GuildApplication, IGuild, IGuildGift, IGuildApplication } from '../database/guildModels.js';
+import { persistence } from '../persistence/index.js';
+import type { Stored, Repository } from '../persistence/index.js';
+import { ledgerService, playerAccount, guildAccount } from './LedgerService.js';
 
 // ============================================
 // TYPES
 // ============================================
 
+export type GuildRecord = Stored<IGuild>;
+export type GuildGiftRecord = Stored<IGuildGift>;
+export type GuildApplicationRecord = Stored<IGuildApplication>;
+
 interface GuildCreateData {
     name: string;
     tag: string;
@@ -88,6 +95,21 @@ const GUILD_PERKS = [
 
 export class GuildService extends EventEmitter {
     private initialized = false;
+    private guilds: Repository<GuildRecord>;
+    private gifts: Repository<GuildGiftRecord>;
+    private applications: Repository<GuildApplicationRecord>;
+    private weeklyResetInterval: NodeJS.Timeout | null = null;
+
+    constructor(options: {
+        guilds?: Repository<GuildRecord>;
+        gifts?: Repository<GuildGiftRecord>;
+        applications?: Repository<GuildApplicationRecord>;
+    } = {}) {
+        super();
+        this.guilds = options.guilds || persistence.repository<GuildRecord>(Guild);
+        this.gifts = options.gifts || persistence.repository<GuildGiftRecord>(GuildGift);
+        this.applications = options.applications || persistence.repository<GuildApplicationRecord>(GuildApplication);
+    }
 
     async initialize(): Promise<void> {
         if (this.initialized) return;
@@ -110,15 +132,15 @@ export class GuildService extends EventEmitter {
         leaderName: string,
         leaderLevel: number,
         data: GuildCreateData
-    ): Promise<IGuild | null> {
+    ): Promise<GuildRecord | null> {
         try {
             // Validate name and tag uniqueness
-            const existingName = await Guild.findOne({ name: { $regex: new RegExp(`^${data.name}$`, 'i') } });
+            const existingName = await this.guilds.findOne({ name: { $regex: new RegExp(`^${data.name}$`, 'i') } });
             if (existingName) {
                 throw new Error('Guild name already taken');
             }
 
-            const existingTag = await Guild.findOne({ tag: data.tag.toUpperCase() });
+            const existingTag = await this.guilds.findOne({ tag: data.tag.toUpperCase() });
             if (existingTag) {
                 throw new Error('Guild tag already taken');
             }
@@ -132,7 +154,7 @@ export class GuildService extends EventEmitter {
             const guildId = crypto.randomBytes(8).toString('hex');
             const now = new Date();
 
-            const guild = new Guild({
+            const guild = await this.guilds.insert({
                 guildId,
                 name: data.name,
                 tag: data.tag.toUpperCase(),
@@ -149,7 +171,7 @@ export class GuildService extends EventEmitter {
                     contributions: { stardust: 0, challenges: 0, xp: 0 },
                     lastActiveAt: now
                 }],
-                perks: [{ ...GUILD_PERKS[0].perk, unlockedAt: now }],
+                perks: [{ ...GUILD_PERKS[0].perk, level: GUILD_PERKS[0].level, unlockedAt: now }],
                 isPublic: data.isPublic ?? true,
                 minLevelToJoin: data.minLevelToJoin ?? 1,
                 requiresApproval: data.requiresApproval ?? false,
@@ -161,8 +183,6 @@ export class GuildService extends EventEmitter {
                 }
             });
 
-            await guild.save();
-
             this.emit('guild_created', { guildId, name: data.name, leaderId });
 
             return guild;
@@ -172,20 +192,26 @@ export class GuildService extends EventEmitter {
         }
     }
 
-    async getGuild(guildId: string): Promise<IGuild | null> {
-        return Guild.findOne({ guildId });
+    async getGuild(guildId: string): Promise<GuildRecord | null> {
+        return this.guilds.findOne({ guildId });
+    }
+
+    async getGuildByName(name: string): Promise<GuildRecord | null> {
+        return this.guilds.findOne({ name: { $regex: new RegExp(`^${name}$`, 'i') } });
     }
 
-    async getGuildByName(name: string): Promise<IGuild | null> {
-        return Guild.findOne({ name: { $regex: new RegExp(`^${name}$`, 'i') } });
+    async getPlayerGuild(playerId: string): Promise<GuildRecord | null> {
+        return this.guilds.findOne({ 'members.playerId': playerId });
     }
 
-    async getPlayerGuild(playerId: string): Promise<IGuild | null> {
-        return Guild.findOne({ 'members.playerId': playerId });
+    /** Writes everything but the treasury, which only the ledger moves */
+    private async saveGuild(guild: GuildRecord): Promise<void> {
+        const { _id, treasury, ...fields } = guild as GuildRecord & { _id?: unknown };
+        await this.guilds.update({ guildId: guild.guildId }, { $set: fields });
     }
 
-    async updateGuild(guildId: string, playerId: string, updates: GuildUpdateData): Promise<IGuild | null> {
-        const guild = await Guild.findOne({ guildId });
+    async updateGuild(guildId: string, playerId: string, updates: GuildUpdateData): Promise<GuildRecord | null> {
+        const guild = await this.guilds.findOne({ guildId });
         if (!guild) return null;
 
         // Check permissions
@@ -205,7 +231,7 @@ export class GuildService extends EventEmitter {
             guild.maxMembers = Math.max(5, Math.min(100, updates.maxMembers));
         }
 
-        await guild.save();
+        await this.saveGuild(guild);
 
         this.emit('guild_updated', { guildId, updates });
 
@@ -213,7 +239,7 @@ export class GuildService extends EventEmitter {
     }
 
     async deleteGuild(guildId: string, playerId: string): Promise<boolean> {
-        const guild = await Guild.findOne({ guildId });
+        const guild = await this.guilds.findOne({ guildId });
         if (!guild) return false;
 
         // Only leader can delete
@@ -221,9 +247,9 @@ export class GuildService extends EventEmitter {
             throw new Error('Only the guild leader can delete the guild');
         }
 
-        await Guild.deleteOne({ guildId });
-        await GuildGift.deleteMany({ guildId });
-        await GuildApplication.deleteMany({ guildId });
+        await this.guilds.delete({ guildId });
+        await this.gifts.deleteMany({ guildId });
+        await this.applications.deleteMany({ guildId });
 
         this.emit('guild_deleted', { guildId, name: guild.name });
 
@@ -234,8 +260,8 @@ export class GuildService extends EventEmitter {
     // MEMBERSHIP MANAGEMENT
     // ─────────────────────────────────────────────────────────────────────────
 
-    async joinGuild(guildId: string, playerId: string, playerName: string, playerLevel: number): Promise<IGuild | null> {
-        const guild = await Guild.findOne({ guildId });
+    async joinGuild(guildId: string, playerId: string, playerName: string, playerLevel: number): Promise<GuildRecord | null> {
+        const guild = await this.guilds.findOne({ guildId });
         if (!guild) throw new Error('Guild not found');
 
         // Check if already a member
@@ -277,7 +303,7 @@ export class GuildService extends EventEmitter {
             lastActiveAt: now
         });
 
-        await guild.save();
+        await this.saveGuild(guild);
 
         this.emit('member_joined', { guildId, playerId, playerName });
 
@@ -285,7 +311,7 @@ export class GuildService extends EventEmitter {
     }
 
     async leaveGuild(guildId: string, playerId: string): Promise<boolean> {
-        const guild = await Guild.findOne({ guildId });
+        const guild = await this.guilds.findOne({ guildId });
         if (!guild) return false;
 
         const memberIndex = guild.members.findIndex(m => m.playerId === playerId);
@@ -305,7 +331,7 @@ export class GuildService extends EventEmitter {
         }
 
         guild.members.splice(memberIndex, 1);
-        await guild.save();
+        await this.saveGuild(guild);
 
         this.emit('member_left', { guildId, playerId });
 
@@ -313,7 +339,7 @@ export class GuildService extends EventEmitter {
     }
 
     async kickMember(guildId: string, actorId: string, targetId: string): Promise<boolean> {
-        const guild = await Guild.findOne({ guildId });
+        const guild = await this.guilds.findOne({ guildId });
         if (!guild) return false;
 
         const actor = guild.members.find(m => m.playerId === actorId);
@@ -333,7 +359,7 @@ export class GuildService extends EventEmitter {
         }
 
         guild.members = guild.members.filter(m => m.playerId !== targetId);
-        await guild.save();
+        await this.saveGuild(guild);
 
         this.emit('member_kicked', { guildId, actorId, targetId });
 
@@ -346,7 +372,7 @@ export class GuildService extends EventEmitter {
         targetId: string,
         newRole: 'officer' | 'member'
     ): Promise<boolean> {
-        const guild = await Guild.findOne({ guildId });
+        const guild = await this.guilds.findOne({ guildId });
         if (!guild) return false;
 
         const actor = guild.members.find(m => m.playerId === actorId);
@@ -360,7 +386,7 @@ export class GuildService extends EventEmitter {
         }
 
         target.role = newRole;
-        await guild.save();
+        await this.saveGuild(guild);
 
         this.emit('member_role_changed', { guildId, targetId, newRole });
 
@@ -368,7 +394,7 @@ export class GuildService extends EventEmitter {
     }
 
     async transferLeadership(guildId: string, currentLeaderId: string, newLeaderId: string): Promise<boolean> {
-        const guild = await Guild.findOne({ guildId });
+        const guild = await this.guilds.findOne({ guildId });
         if (!guild) return false;
 
         if (guild.leaderId !== currentLeaderId) {
@@ -388,7 +414,7 @@ export class GuildService extends EventEmitter {
         guild.leaderId = newLeaderId;
         guild.leaderName = newLeader.playerName;
 
-        await guild.save();
+        await this.saveGuild(guild);
 
         this.emit('leadership_transferred', { guildId, oldLeaderId: currentLeaderId, newLeaderId });
 
@@ -405,9 +431,9 @@ export class GuildService extends EventEmitter {
         playerName: string,
         playerLevel: number,
         message: string = ''
-    ): Promise<IGuildApplication> {
+    ): Promise<GuildApplicationRecord> {
         // Check for existing pending application
-        const existing = await GuildApplication.findOne({
+        const existing = await this.applications.findOne({
             guildId,
             playerId,
             status: 'pending'
@@ -416,10 +442,10 @@ export class GuildService extends EventEmitter {
             throw new Error('Application already pending');
         }
 
-        const application = new GuildApplication({
+        const application = await this.applications.insert({
             applicationId: crypto.randomBytes(8).toString('hex'),
             guildId,
-            guildName: (await Guild.findOne({ guildId }))?.name || 'Unknown',
+            guildName: (await this.guilds.findOne({ guildId }))?.name || 'Unknown',
             playerId,
             playerName,
             playerLevel,
@@ -427,8 +453,6 @@ export class GuildService extends EventEmitter {
             status: 'pending'
         });
 
-        await application.save();
-
         this.emit('application_received', { guildId, playerId, applicationId: application.applicationId });
 
         return application;
@@ -439,10 +463,10 @@ export class GuildService extends EventEmitter {
         reviewerId: string,
         approved: boolean
     ): Promise<boolean> {
-        const application = await GuildApplication.findOne({ applicationId });
+        const application = await this.applications.findOne({ applicationId });
         if (!application || application.status !== 'pending') return false;
 
-        const guild = await Guild.findOne({ guildId: application.guildId });
+        const guild = await this.guilds.findOne({ guildId: application.guildId });
         if (!guild) return false;
 
         // Check reviewer permissions
@@ -454,7 +478,7 @@ export class GuildService extends EventEmitter {
         application.status = approved ? 'approved' : 'rejected';
         application.reviewedBy = reviewerId;
         application.reviewedAt = new Date();
-        await application.save();
+        await this.applications.save({ applicationId }, application);
 
         if (approved) {
             // Add to guild
@@ -470,7 +494,7 @@ export class GuildService extends EventEmitter {
                 application.status = 'pending';
                 application.reviewedBy = undefined;
                 application.reviewedAt = undefined;
-                await application.save();
+                await this.applications.save({ applicationId }, application);
                 throw err;
             }
         }
@@ -484,12 +508,12 @@ export class GuildService extends EventEmitter {
         return true;
     }
 
-    async getGuildApplications(guildId: string): Promise<IGuildApplication[]> {
-        return GuildApplication.find({ guildId, status: 'pending' }).sort({ createdAt: -1 });
+    async getGuildApplications(guildId: string): Promise<GuildApplicationRecord[]> {
+        return this.applications.find({ guildId, status: 'pending' }, { sort: { createdAt: -1 } });
     }
 
-    async getPlayerApplications(playerId: string): Promise<IGuildApplication[]> {
-        return GuildApplication.find({ playerId }).sort({ createdAt: -1 });
+    async getPlayerApplications(playerId: string): Promise<GuildApplicationRecord[]> {
+        return this.applications.find({ playerId }, { sort: { createdAt: -1 } });
     }
 
     // ─────────────────────────────────────────────────────────────────────────
@@ -500,8 +524,8 @@ export class GuildService extends EventEmitter {
         guildId: string,
         playerId: string,
         contribution: ContributionData
-    ): Promise<{ guild: IGuild; leveledUp: boolean; newPerks: string[] }> {
-        const guild = await Guild.findOne({ guildId });
+    ): Promise<{ guild: GuildRecord; leveledUp: boolean; newPerks: string[] }> {
+        const guild = await this.guilds.findOne({ guildId });
         if (!guild) throw new Error('Guild not found');
 
         const member = guild.members.find(m => m.playerId === playerId);
@@ -509,6 +533,18 @@ export class GuildService extends EventEmitter {
 
         // Update member contributions
         if (contribution.stardust) {
+            // Stardust moves from the member's wallet into the treasury
+            const payment = await ledgerService.transfer(playerAccount(playerId), guildAccount(guildId), 'stardust', contribution.stardust, {
+                source: 'guild',
+                reason: 'contribution',
+                metadata: { guildId }
+            });
+            if (!payment.success) throw new Error(payment.error || 'Contribution failed');
+            guild.treasury = {
+                stardust: payment.balances[guildAccount(guildId)].stardust!,
+                crystals: guild.treasury?.crystals || 0
+            };
+
             member.contributions.stardust += contribution.stardust;
             guild.totalContributions.stardust += contribution.stardust;
             guild.weeklyContributions.stardust += contribution.stardust;
@@ -566,7 +602,7 @@ export class GuildService extends EventEmitter {
             }
         }
 
-        await guild.save();
+        await this.saveGuild(guild);
 
         if (leveledUp) {
             this.emit('guild_leveled_up', { guildId, level: guild.level, newPerks });
@@ -593,8 +629,8 @@ export class GuildService extends EventEmitter {
         guildId: string,
         playerId: string,
         message: string
-    ): Promise<IGuild | null> {
-        const guild = await Guild.findOne({ guildId });
+    ): Promise<GuildRecord | null> {
+        const guild = await this.guilds.findOne({ guildId });
         if (!guild) return null;
 
         const member = guild.members.find(m => m.playerId === playerId);
@@ -622,15 +658,15 @@ export class GuildService extends EventEmitter {
             guild.chat = guild.chat.slice(-100);
         }
 
-        await guild.save();
+        await this.saveGuild(guild);
 
         this.emit('chat_message', { guildId, message: chatMessage });
 
         return guild;
     }
 
-    async getChatHistory(guildId: string, limit: number = 50): Promise<IGuild['chat']> {
-        const guild = await Guild.findOne({ guildId });
+    async getChatHistory(guildId: string, limit: number = 50): Promise<GuildRecord['chat']> {
+        const guild = await this.guilds.findOne({ guildId });
         if (!guild) return [];
 
         return guild.chat.slice(-limit);
@@ -647,15 +683,26 @@ export class GuildService extends EventEmitter {
         amount: number,
         cosmeticId?: string,
         message?: string
-    ): Promise<IGuildGift> {
-        const guild = await Guild.findOne({ guildId });
+    ): Promise<GuildGiftRecord> {
+        const guild = await this.guilds.findOne({ guildId });
         if (!guild) throw new Error('Guild not found');
 
         const recipient = guild.members.find(m => m.playerId === recipientId);
         if (!recipient) throw new Error('Recipient not in guild');
 
-        const gift = new GuildGift({
-            giftId: crypto.randomBytes(8).toString('hex'),
+        // Stardust gifts are paid from the treasury and held until claimed
+        const giftId = crypto.randomBytes(8).toString('hex');
+        if (type === 'stardust') {
+            const payment = await ledgerService.transfer(guildAccount(guildId), `escrow:guild_gift:${giftId}`, 'stardust', amount, {
+                source: 'guild_gift',
+                reason: 'send',
+                metadata: { guildId, giftId, recipientId }
+            });
+            if (!payment.success) throw new Error(payment.error || 'Gift failed');
+        }
+
+        const gift = await this.gifts.insert({
+            giftId,
             guildId,
             guildName: guild.name,
             recipientId,
@@ -667,38 +714,45 @@ export class GuildService extends EventEmitter {
             expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000) // 7 days
         });
 
-        await gift.save();
-
         this.emit('guild_gift_sent', { guildId, recipientId, giftId: gift.giftId, type });
 
         return gift;
     }
 
-    async claimGuildGift(giftId: string, playerId: string): Promise<IGuildGift | null> {
-        const gift = await GuildGift.findOne({ giftId, recipientId: playerId, claimedAt: null });
+    async claimGuildGift(giftId: string, playerId: string): Promise<GuildGiftRecord | null> {
+        const gift = await this.gifts.findOne({ giftId, recipientId: playerId, claimedAt: null });
         if (!gift) return null;
 
         gift.claimedAt = new Date();
-        await gift.save();
+        await this.gifts.save({ giftId }, gift);
+
+        if (gift.type === 'stardust') {
+            await ledgerService.transfer(`escrow:guild_gift:${giftId}`, playerAccount(playerId), 'stardust', gift.amount, {
+                source: 'guild_gift',
+                reason: 'claim',
+                idempotencyKey: `guild_gift_claim:${giftId}`,
+                metadata: { guildId: gift.guildId, giftId }
+            });
+        }
 
         this.emit('guild_gift_claimed', { giftId, playerId, type: gift.type, amount: gift.amount });
 
         return gift;
     }
 
-    async getPendingGifts(playerId: string): Promise<IGuildGift[]> {
-        return GuildGift.find({
+    async getPendingGifts(playerId: string): Promise<GuildGiftRecord[]> {
+        return this.gifts.find({
             recipientId: playerId,
             claimedAt: null,
             expiresAt: { $gt: new Date() }
-        }).sort({ createdAt: -1 });
+        }, { sort: { createdAt: -1 } });
     }
 
     // ─────────────────────────────────────────────────────────────────────────
     // SEARCH & LEADERBOARD
     // ─────────────────────────────────────────────────────────────────────────
 
-    async searchGuilds(options: GuildSearchOptions): Promise<IGuild[]> {
+    async searchGuilds(options: GuildSearchOptions): Promise<GuildRecord[]> {
         const query: any = {};
 
         if (options.query) {
@@ -710,9 +764,6 @@ export class GuildService extends EventEmitter {
         if (options.minLevel) query.level = { $gte: options.minLevel };
         if (options.maxLevel) query.level = { ...query.level, $lte: options.maxLevel };
         if (options.isPublic !== undefined) query.isPublic = options.isPublic;
-        if (options.hasSpace) {
-            query.$expr = { $lt: [{ $size: '$members' }, '$maxMembers'] };
-        }
 
         let sortOption: any = {};
         switch (options.sortBy) {
@@ -723,24 +774,31 @@ export class GuildService extends EventEmitter {
             default: sortOption = { level: -1 };
         }
 
-        return Guild.find(query)
-            .sort(sortOption)
-            .skip(options.offset || 0)
-            .limit(Math.min(options.limit || 20, 50));
+        const offset = options.offset || 0;
+        const limit = Math.min(options.limit || 20, 50);
+
+        // Free space compares two fields of the same guild, so it is checked here
+        if (options.hasSpace) {
+            const guilds = await this.guilds.find(query, { sort: sortOption });
+            return guilds.filter(g => g.members.length < g.maxMembers).slice(offset, offset + limit);
+        }
+        return this.guilds.find(query, { sort: sortOption, skip: offset, limit });
     }
 
-    async getGuildLeaderboard(limit: number = 10): Promise<IGuild[]> {
-        return Guild.find()
-            .sort({ level: -1, xp: -1 })
-            .limit(limit)
-            .select('guildId name tag level xp members icon color');
+    async getGuildLeaderboard(limit: number = 10): Promise<GuildRecord[]> {
+        return this.guilds.find({}, {
+            sort: { level: -1, xp: -1 },
+            limit,
+            fields: ['guildId', 'name', 'tag', 'level', 'xp', 'members', 'icon', 'color']
+        });
     }
 
-    async getWeeklyLeaderboard(limit: number = 10): Promise<IGuild[]> {
-        return Guild.find()
-            .sort({ 'weeklyContributions.stardust': -1 })
-            .limit(limit)
-            .select('guildId name tag level weeklyContributions members icon color');
+    async getWeeklyLeaderboard(limit: number = 10): Promise<GuildRecord[]> {
+        return this.guilds.find({}, {
+            sort: { 'weeklyContributions.stardust': -1 },
+            limit,
+            fields: ['guildId', 'name', 'tag', 'level', 'weeklyContributions', 'members', 'icon', 'color']
+        });
     }
 
     // ─────────────────────────────────────────────────────────────────────────
@@ -780,25 +838,29 @@ export class GuildService extends EventEmitter {
 
     private scheduleWeeklyReset(): void {
         // Check every hour if we need to reset
-        setInterval(async () => {
+        this.weeklyResetInterval = setInterval(async () => {
             const currentWeekStart = this.getWeekStart();
 
-            const guildsToReset = await Guild.find({
-                'weeklyContributions.weekStart': { $ne: currentWeekStart }
-            });
-
-            for (const guild of guildsToReset) {
-                guild.weeklyContributions = {
-                    stardust: 0,
-                    challenges: 0,
-                    xp: 0,
-                    weekStart: currentWeekStart
-                };
-                await guild.save();
-            }
+            try {
+                const reset = await this.guilds.updateMany(
+                    { 'weeklyContributions.weekStart': { $ne: currentWeekStart } },
+                    {
+                        $set: {
+                            weeklyContributions: {
+                                stardust: 0,
+                                challenges: 0,
+                                xp: 0,
+                                weekStart: currentWeekStart
+                            }
+                        }
+                    }
+                );
 
-            if (guildsToReset.length > 0) {
-                console.log(`🔄 Reset weekly contributions for ${guildsToReset.length} guilds`);
+                if (reset > 0) {
+                    console.log(`🔄 Reset weekly contributions for ${reset} guilds`);
+                }
+            } catch (error) {
+                console.error('Error resetting weekly guild contributions:', error);
             }
         }, 60 * 60 * 1000); // Check every hour
     }
@@ -809,6 +871,10 @@ export class GuildService extends EventEmitter {
 
     async shutdown(): Promise<void> {
         console.log('🏛️ Guild Service shutting down...');
+        if (this.weeklyResetInterval) {
+            clearInterval(this.weeklyResetInterval);
+            this.weeklyResetInterval = null;
+        }
     }
 }
 
@@ -1,20 +1,31 @@
 // =============================================================================
-// Leaderboard Reset Service - Handles periodic leaderboard resets
+// Leaderboard Reset Service - Archives and rewards finished leaderboard periods
 // =============================================================================
 // Phase 1.3 & 1.4: Weekly and Monthly Leaderboard Reset Cron Jobs
+//
+// LeaderboardService keeps the weekly and monthly boards and notices when a
+// period ends; this service checks for that every hour and, on
+// 'period_ended', archives the standings and rewards the top ten. Archives
+// are keyed by period, so a period is only rewarded once even when several
+// server processes close it.
 // =============================================================================
 
 import { EventEmitter } from 'events';
 import { leaderboardService } from './LeaderboardService.js';
+import type { PeriodEnded, PeriodStanding } from './LeaderboardService.js';
+import type { PlayerDataRecord } from './PlayerDataService.js';
 import { notificationService } from './NotificationService.js';
+import { ledgerService } from './LedgerService.js';
 import { PlayerData } from '../database/playerDataModel.js';
-import { Progression } from '../database/progressionModels.js';
+import { Progression, IProgression } from '../database/progressionModels.js';
+import { persistence } from '../persistence/index.js';
+import type { Stored, Repository } from '../persistence/index.js';
 
 // Weekly/Monthly archive models
 import mongoose, { Schema, Document, Model } from 'mongoose';
 
 // ============================================
-// ARCHIVE MODELS
+// ARCHIVE MODEL
 // ============================================
 
 interface ILeaderboardArchive extends Document {
@@ -27,7 +38,6 @@ interface ILeaderboardArchive extends Document {
         playerName: string;
         xp: number;
         stardust: number;
-        challengesCompleted: number;
     }[];
     createdAt: Date;
 }
@@ -41,74 +51,17 @@ const LeaderboardArchiveSchema = new Schema<ILeaderboardArchive>({
         playerId: String,
         playerName: String,
         xp: Number,
-        stardust: Number,
-        challengesCompleted: Number
+        stardust: Number
     }],
     createdAt: { type: Date, default: Date.now }
 }, { collection: 'leaderboardArchives' });
 
+LeaderboardArchiveSchema.index({ periodType: 1, periodStart: 1 });
+
 const LeaderboardArchive = (mongoose.models.LeaderboardArchive || 
     mongoose.model<ILeaderboardArchive>('LeaderboardArchive', LeaderboardArchiveSchema)) as Model<ILeaderboardArchive>;
 
-// ============================================
-// WEEKLY STATS MODEL
-// ============================================
-
-interface IWeeklyStats extends Document {
-    playerId: string;
-    weekStart: Date;
-    xpEarned: number;
-    stardustEarned: number;
-    challengesCompleted: number;
-    gamesPlayed: number;
-    wins: number;
-    updatedAt: Date;
-}
-
-const WeeklyStatsSchema = new Schema<IWeeklyStats>({
-    playerId: { type: String, required: true, index: true },
-    weekStart: { type: Date, required: true, index: true },
-    xpEarned: { type: Number, default: 0 },
-    stardustEarned: { type: Number, default: 0 },
-    challengesCompleted: { type: Number, default: 0 },
-    gamesPlayed: { type: Number, default: 0 },
-    wins: { type: Number, default: 0 },
-    updatedAt: { type: Date, default: Date.now }
-}, { collection: 'weeklyStats' });
-
-WeeklyStatsSchema.index({ playerId: 1, weekStart: 1 }, { unique: true });
-
-const WeeklyStats = (mongoose.models.WeeklyStats || 
-    mongoose.model<IWeeklyStats>('WeeklyStats', WeeklyStatsSchema)) as Model<IWeeklyStats>;
-
-// ============================================
-// MONTHLY STATS MODEL
-// ============================================
-
-interface IMonthlyStats extends Document {
-    playerId: string;
-    monthStart: Date;
-    xpEarned: number;
-    stardustEarned: number;
-    challengesCompleted: number;
-    gamesPlayed: number;
-    updatedAt: Date;
-}
-
-const MonthlyStatsSchema = new Schema<IMonthlyStats>({
-    playerId: { type: String, required: true, index: true },
-    monthStart: { type: Date, required: true, index: true },
-    xpEarned: { type: Number, default: 0 },
-    stardustEarned: { type: Number, default: 0 },
-    challengesCompleted: { type: Number, default: 0 },
-    gamesPlayed: { type: Number, default: 0 },
-    updatedAt: { type: Date, default: Date.now }
-}, { collection: 'monthlyStats' });
-
-MonthlyStatsSchema.index({ playerId: 1, monthStart: 1 }, { unique: true });
-
-const MonthlyStats = (mongoose.models.MonthlyStats || 
-    mongoose.model<IMonthlyStats>('MonthlyStats', MonthlyStatsSchema)) as Model<IMonthlyStats>;
+type LeaderboardArchiveRecord = Stored<ILeaderboardArchive>;
 
 // ============================================
 // REWARD CONFIGURATION
@@ -151,335 +104,80 @@ const MONTHLY_REWARDS: Record<number, LeaderboardReward> = {
 // LEADERBOARD RESET SERVICE
 // ============================================
 
+const CHECK_INTERVAL_MS = 60 * 60 * 1000; // Every hour
+
 class LeaderboardResetService extends EventEmitter {
     private initialized: boolean = false;
-    private weeklyCheckInterval: NodeJS.Timeout | null = null;
-    private monthlyCheckInterval: NodeJS.Timeout | null = null;
-    private lastWeeklyReset: Date | null = null;
-    private lastMonthlyReset: Date | null = null;
+    private checkInterval: NodeJS.Timeout | null = null;
+    private archives: Repository<LeaderboardArchiveRecord>;
+    private progressions: Repository<Stored<IProgression>>;
+    private players: Repository<PlayerDataRecord>;
+
+    constructor() {
+        super();
+        this.archives = persistence.repository<LeaderboardArchiveRecord>(LeaderboardArchive);
+        this.progressions = persistence.repository<Stored<IProgression>>(Progression);
+        this.players = persistence.repository<PlayerDataRecord>(PlayerData);
+    }
 
     async initialize(): Promise<void> {
         if (this.initialized) return;
         this.initialized = true;
 
-        // Check for resets every hour
-        this.weeklyCheckInterval = setInterval(() => {
-            this.checkWeeklyReset();
-        }, 60 * 60 * 1000); // Every hour
+        leaderboardService.on('period_ended', (ended: PeriodEnded) => {
+            this.closePeriod(ended);
+        });
 
-        this.monthlyCheckInterval = setInterval(() => {
-            this.checkMonthlyReset();
-        }, 60 * 60 * 1000); // Every hour
+        this.checkInterval = setInterval(() => {
+            leaderboardService.checkPeriods();
+        }, CHECK_INTERVAL_MS);
 
-        // Initial check
-        await this.checkWeeklyReset();
-        await this.checkMonthlyReset();
+        // Initial check: closes a period that ended while the server was down
+        leaderboardService.checkPeriods();
 
         console.log('🏆 Leaderboard reset service initialized');
     }
 
     // =========================================================================
-    // RESET CHECKS
+    // PERIOD CLOSE
     // =========================================================================
 
-    private async checkWeeklyReset(): Promise<void> {
-        const now = new Date();
-        const dayOfWeek = now.getUTCDay(); // 0 = Sunday
-        const hour = now.getUTCHours();
-
-        // Reset on Sunday at midnight UTC
-        if (dayOfWeek === 0 && hour === 0) {
-            const weekStart = this.getWeekStart(now);
-
-            // Check if we already reset this week
-            if (this.lastWeeklyReset && 
-                this.lastWeeklyReset.getTime() >= weekStart.getTime()) {
-                return;
-            }
-
-            console.log('🏆 Running weekly leaderboard reset...');
-            await this.runWeeklyReset();
-            this.lastWeeklyReset = now;
-        }
-    }
+    async closePeriod(ended: PeriodEnded): Promise<void> {
+        const { period, periodStart, periodEnd, standings } = ended;
+        const label = period === 'weekly' ? 'Weekly' : 'Monthly';
 
-    private async checkMonthlyReset(): Promise<void> {
-        const now = new Date();
-        const dayOfMonth = now.getUTCDate();
-        const hour = now.getUTCHours();
-
-        // Reset on 1st of month at midnight UTC
-        if (dayOfMonth === 1 && hour === 0) {
-            const monthStart = this.getMonthStart(now);
-
-            // Check if we already reset this month
-            if (this.lastMonthlyReset && 
-                this.lastMonthlyReset.getTime() >= monthStart.getTime()) {
-                return;
-            }
-
-            console.log('🏆 Running monthly leaderboard reset...');
-            await this.runMonthlyReset();
-            this.lastMonthlyReset = now;
-        }
-    }
-
-    // =========================================================================
-    // WEEKLY RESET
-    // =========================================================================
-
-    async runWeeklyReset(): Promise<void> {
         try {
-            const now = new Date();
-            const weekEnd = now;
-            const weekStart = new Date(now);
-            weekStart.setUTCDate(weekStart.getUTCDate() - 7);
-
-            // Get top 10 players for this week
-            const topPlayers = await WeeklyStats.find({
-                weekStart: { $gte: weekStart, $lt: weekEnd }
-            })
-                .sort({ xpEarned: -1 })
-                .limit(10)
-                .lean();
-
-            if (topPlayers.length === 0) {
-                console.log('🏆 No weekly stats to reset');
+            if (standings.length === 0) {
+                console.log(`🏆 No ${period} standings to archive`);
                 return;
             }
 
-            // Get player names
-            const rankings = await Promise.all(
-                topPlayers.map(async (player, index) => {
-                    const playerData = await PlayerData.findOne({ playerId: player.playerId }).lean();
-                    return {
-                        rank: index + 1,
-                        playerId: player.playerId,
-                        playerName: playerData?.name || 'Unknown',
-                        xp: player.xpEarned,
-                        stardust: player.stardustEarned,
-                        challengesCompleted: player.challengesCompleted
-                    };
-                })
-            );
-
-            // Archive results
-            await LeaderboardArchive.create({
-                periodType: 'weekly',
-                periodStart: weekStart,
-                periodEnd: weekEnd,
-                rankings
-            });
-
-            // Award rewards
-            for (const ranking of rankings) {
-                const reward = WEEKLY_REWARDS[ranking.rank];
-                if (reward) {
-                    await this.awardReward(ranking.playerId, reward, 'weekly', ranking.rank);
-                }
-            }
-
-            // Clear weekly stats (or mark as processed)
-            await WeeklyStats.deleteMany({
-                weekStart: { $lt: weekEnd }
-            });
-
-            this.emit('weekly_reset_complete', { rankings, periodEnd: weekEnd });
-            console.log(`✅ Weekly leaderboard reset complete. Awarded ${rankings.length} players.`);
-        } catch (error) {
-            console.error('❌ Weekly reset failed:', error);
-        }
-    }
-
-    // =========================================================================
-    // MONTHLY RESET
-    // =========================================================================
-
-    async runMonthlyReset(): Promise<void> {
-        try {
-            const now = new Date();
-            const monthEnd = now;
-            const monthStart = new Date(now);
-            monthStart.setUTCMonth(monthStart.getUTCMonth() - 1);
-
-            // Get top 10 players for this month
-            const topPlayers = await MonthlyStats.find({
-                monthStart: { $gte: monthStart, $lt: monthEnd }
-            })
-                .sort({ xpEarned: -1 })
-                .limit(10)
-                .lean();
-
-            if (topPlayers.length === 0) {
-                console.log('🏆 No monthly stats to reset');
-                return;
-            }
+            // Another server process may have closed this period already
+            if (await this.archives.findOne({ periodType: period, periodStart })) return;
 
-            // Get player names
-            const rankings = await Promise.all(
-                topPlayers.map(async (player, index) => {
-                    const playerData = await PlayerData.findOne({ playerId: player.playerId }).lean();
-                    return {
-                        rank: index + 1,
-                        playerId: player.playerId,
-                        playerName: playerData?.name || 'Unknown',
-                        xp: player.xpEarned,
-                        stardust: player.stardustEarned,
-                        challengesCompleted: player.challengesCompleted
-                    };
-                })
-            );
+            const rankings = standings.map(standing => ({
+                rank: standing.rank,
+                playerId: standing.playerId,
+                playerName: standing.name,
+                xp: standing.xp,
+                stardust: standing.stardust
+            }));
 
-            // Archive results
-            await LeaderboardArchive.create({
-                periodType: 'monthly',
-                periodStart: monthStart,
-                periodEnd: monthEnd,
-                rankings
-            });
+            await this.archives.insert({ periodType: period, periodStart, periodEnd, rankings });
 
             // Award rewards
+            const rewards = period === 'weekly' ? WEEKLY_REWARDS : MONTHLY_REWARDS;
             for (const ranking of rankings) {
-                const reward = MONTHLY_REWARDS[ranking.rank];
+                const reward = rewards[ranking.rank];
                 if (reward) {
-                    await this.awardReward(ranking.playerId, reward, 'monthly', ranking.rank);
+                    await this.awardReward(ranking.playerId, reward, period, ranking.rank, periodStart);
                 }
             }
 
-            // Clear monthly stats
-            await MonthlyStats.deleteMany({
-                monthStart: { $lt: monthEnd }
-            });
-
-            this.emit('monthly_reset_complete', { rankings, periodEnd: monthEnd });
-            console.log(`✅ Monthly leaderboard reset complete. Awarded ${rankings.length} players.`);
+            this.emit(`${period}_reset_complete`, { rankings, periodEnd });
+            console.log(`✅ ${label} leaderboard reset complete. Awarded ${Math.min(rankings.length, Object.keys(rewards).length)} players.`);
         } catch (error) {
-            console.error('❌ Monthly reset failed:', error);
-        }
-    }
-
-    // =========================================================================
-    // STAT TRACKING
-    // =========================================================================
-
-    /**
-     * Track XP earned for leaderboards
-     */
-    async trackXPEarned(playerId: string, xp: number): Promise<void> {
-        try {
-            const now = new Date();
-            const weekStart = this.getWeekStart(now);
-            const monthStart = this.getMonthStart(now);
-
-            // Update weekly stats
-            await WeeklyStats.findOneAndUpdate(
-                { playerId, weekStart },
-                { 
-                    $inc: { xpEarned: xp },
-                    $set: { updatedAt: now }
-                },
-                { upsert: true }
-            );
-
-            // Update monthly stats
-            await MonthlyStats.findOneAndUpdate(
-                { playerId, monthStart },
-                { 
-                    $inc: { xpEarned: xp },
-                    $set: { updatedAt: now }
-                },
-                { upsert: true }
-            );
-        } catch (error) {
-            console.error('Error tracking XP:', error);
-        }
-    }
-
-    /**
-     * Track stardust earned for leaderboards
-     */
-    async trackStardustEarned(playerId: string, stardust: number): Promise<void> {
-        try {
-            const now = new Date();
-            const weekStart = this.getWeekStart(now);
-            const monthStart = this.getMonthStart(now);
-
-            await WeeklyStats.findOneAndUpdate(
-                { playerId, weekStart },
-                { 
-                    $inc: { stardustEarned: stardust },
-                    $set: { updatedAt: now }
-                },
-                { upsert: true }
-            );
-
-            await MonthlyStats.findOneAndUpdate(
-                { playerId, monthStart },
-                { 
-                    $inc: { stardustEarned: stardust },
-                    $set: { updatedAt: now }
-                },
-                { upsert: true }
-            );
-        } catch (error) {
-            console.error('Error tracking stardust:', error);
-        }
-    }
-
-    /**
-     * Track challenge completion for leaderboards
-     */
-    async trackChallengeCompleted(playerId: string): Promise<void> {
-        try {
-            const now = new Date();
-            const weekStart = this.getWeekStart(now);
-            const monthStart = this.getMonthStart(now);
-
-            await WeeklyStats.findOneAndUpdate(
-                { playerId, weekStart },
-                { 
-                    $inc: { challengesCompleted: 1 },
-                    $set: { updatedAt: now }
-                },
-                { upsert: true }
-            );
-
-            await MonthlyStats.findOneAndUpdate(
-                { playerId, monthStart },
-                { 
-                    $inc: { challengesCompleted: 1 },
-                    $set: { updatedAt: now }
-                },
-                { upsert: true }
-            );
-        } catch (error) {
-            console.error('Error tracking challenge:', error);
-        }
-    }
-
-    /**
-     * Track game played/won for leaderboards
-     */
-    async trackGamePlayed(playerId: string, won: boolean): Promise<void> {
-        try {
-            const now = new Date();
-            const weekStart = this.getWeekStart(now);
-
-            const update: any = { 
-                $inc: { gamesPlayed: 1 },
-                $set: { updatedAt: now }
-            };
-            if (won) {
-                update.$inc.wins = 1;
-            }
-
-            await WeeklyStats.findOneAndUpdate(
-                { playerId, weekStart },
-                update,
-                { upsert: true }
-            );
-        } catch (error) {
-            console.error('Error tracking game:', error);
+            console.error(`❌ ${label} reset failed:`, error);
         }
     }
 
@@ -487,61 +185,12 @@ class LeaderboardResetService extends EventEmitter {
     // LEADERBOARD QUERIES
     // =========================================================================
 
-    async getWeeklyLeaderboard(limit: number = 10): Promise<any[]> {
-        const weekStart = this.getWeekStart(new Date());
-
-        const stats = await WeeklyStats.find({ weekStart })
-            .sort({ xpEarned: -1 })
-            .limit(limit)
-            .lean();
-
-        return Promise.all(
-            stats.map(async (s, index) => {
-                const player = await PlayerData.findOne({ playerId: s.playerId }).lean();
-                return {
-                    rank: index + 1,
-                    playerId: s.playerId,
-                    playerName: player?.name || 'Unknown',
-                    xp: s.xpEarned,
-                    stardust: s.stardustEarned,
-                    challengesCompleted: s.challengesCompleted,
-                    wins: s.wins
-                };
-            })
-        );
-    }
-
-    async getMonthlyLeaderboard(limit: number = 10): Promise<any[]> {
-        const monthStart = this.getMonthStart(new Date());
-
-        const stats = await MonthlyStats.find({ monthStart })
-            .sort({ xpEarned: -1 })
-            .limit(limit)
-            .lean();
-
-        return Promise.all(
-            stats.map(async (s, index) => {
-                const player = await PlayerData.findOne({ playerId: s.playerId }).lean();
-                return {
-                    rank: index + 1,
-                    playerId: s.playerId,
-                    playerName: player?.name || 'Unknown',
-                    xp: s.xpEarned,
-                    stardust: s.stardustEarned,
-                    challengesCompleted: s.challengesCompleted
-                };
-            })
-        );
+    getWeeklyLeaderboard(limit: number = 10): PeriodStanding[] {
+        return leaderboardService.getStandings('weekly', limit);
     }
 
-    async getPlayerWeeklyStats(playerId: string): Promise<any | null> {
-        const weekStart = this.getWeekStart(new Date());
-        return WeeklyStats.findOne({ playerId, weekStart }).lean();
-    }
-
-    async getPlayerMonthlyStats(playerId: string): Promise<any | null> {
-        const monthStart = this.getMonthStart(new Date());
-        return MonthlyStats.findOne({ playerId, monthStart }).lean();
+    getMonthlyLeaderboard(limit: number = 10): PeriodStanding[] {
+        return leaderboardService.getStandings('monthly', limit);
     }
 
     // =========================================================================
@@ -552,24 +201,26 @@ class LeaderboardResetService extends EventEmitter {
         playerId: string, 
         reward: LeaderboardReward, 
         periodType: 'weekly' | 'monthly',
-        rank: number
+        rank: number,
+        periodStart: Date
     ): Promise<void> {
         try {
             // Award stardust and XP
-            await Progression.findOneAndUpdate(
+            await ledgerService.credit(playerId, 'stardust', reward.stardust, {
+                source: 'leaderboard',
+                reason: `${periodType}_rank`,
+                idempotencyKey: `leaderboard:${periodType}:${periodStart.toISOString()}:${playerId}`,
+                metadata: { rank, periodStart }
+            });
+            await this.progressions.update(
                 { playerId },
-                { 
-                    $inc: { 
-                        stardust: reward.stardust,
-                        xp: reward.xp
-                    }
-                },
+                { $inc: { xp: reward.xp } },
                 { upsert: true }
             );
 
             // Award title if any
             if (reward.title) {
-                await PlayerData.findOneAndUpdate(
+                await this.players.update(
                     { playerId },
                     { $addToSet: { 'cosmetics.ownedItems': `title_${reward.title.toLowerCase().replace(/\s+/g, '_')}` } }
                 );
@@ -577,7 +228,7 @@ class LeaderboardResetService extends EventEmitter {
 
             // Award cosmetic if any
             if (reward.cosmetic) {
-                await PlayerData.findOneAndUpdate(
+                await this.players.update(
                     { playerId },
                     { $addToSet: { 'cosmetics.ownedItems': reward.cosmetic } }
                 );
@@ -594,25 +245,9 @@ class LeaderboardResetService extends EventEmitter {
         }
     }
 
-    private getWeekStart(date: Date): Date {
-        const d = new Date(date);
-        d.setUTCHours(0, 0, 0, 0);
-        const day = d.getUTCDay();
-        const diff = d.getUTCDate() - day + (day === 0 ? -6 : 1); // Adjust for Sunday
-        d.setUTCDate(diff);
-        return d;
-    }
-
-    private getMonthStart(date: Date): Date {
-        const d = new Date(date);
-        d.setUTCDate(1);
-        d.setUTCHours(0, 0, 0, 0);
-        return d;
-    }
-
     shutdown(): void {
-        if (this.weeklyCheckInterval) clearInterval(this.weeklyCheckInterval);
-        if (this.monthlyCheckInterval) clearInterval(this.monthlyCheckInterval);
+        if (this.checkInterval) clearInterval(this.checkInterval);
+        this.checkInterval = null;
     }
 }
 
@@ -0,0 +1,125 @@
+// =============================================================================
+// LeaderboardService Tests - rebuilt boards, live updates, milestones, periods
+// =============================================================================
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { LeaderboardService, periodStartKey } from './LeaderboardService.js';
+import type { RankChange, PeriodEnded } from './LeaderboardService.js';
+import type { PlayerDataRecord } from './PlayerDataService.js';
+import { PlayerData } from '../database/playerDataModel.js';
+import { Progression } from '../database/progressionModels.js';
+import { Reputation } from '../database/socialModels.js';
+import { MemoryRepository } from '../persistence/index.js';
+
+describe('LeaderboardService', () => {
+    let players: MemoryRepository<PlayerDataRecord>;
+    let service: LeaderboardService;
+    const week = periodStartKey('weekly', new Date());
+
+    async function addPlayer(playerId: string, xp: number, weeklyXp = 0, weekStart: string | null = week) {
+        return players.insert({
+            playerId,
+            name: playerId.toUpperCase(),
+            xp,
+            leaderboard: { weekStart, weeklyStats: { xpEarned: weeklyXp } } as any
+        });
+    }
+
+    beforeEach(async () => {
+        players = new MemoryRepository<PlayerDataRecord>([], PlayerData);
+        service = new LeaderboardService({
+            players,
+            progressions: new MemoryRepository([], Progression),
+            reputations: new MemoryRepository([], Reputation)
+        });
+
+        for (let i = 1; i <= 8; i++) await addPlayer(`p${i}`, i * 100, i * 10);
+        await addPlayer('stale', 50, 9999, '2000-01-03');
+        await service.rebuild();
+    });
+
+    it('rebuilds ranks from storage and answers pages, ranks and subsets', async () => {
+        const top = await service.getLeaderboard('xp', 3);
+        expect(top.entries.map(e => [e.rank, e.playerId, e.name, e.value])).toEqual([
+            [1, 'p8', 'P8', 800], [2, 'p7', 'P7', 700], [3, 'p6', 'P6', 600]
+        ]);
+        expect(top.totalPlayers).toBe(9);
+
+        const page = await service.getLeaderboard('xp', 2, { offset: 7 });
+        expect(page.entries.map(e => e.playerId)).toEqual(['p1', 'stale']);
+
+        const rank = await service.getPlayerRank('p5', 'xp');
+        expect(rank).toMatchObject({ rank: 4, value: 500, period: 'alltime' });
+        expect(rank!.nearbyPlayers.map(e => e.playerId)).toEqual(['p7', 'p6', 'p5', 'p4', 'p3']);
+
+        expect((await service.getLeaderboardFor(['p2', 'p6', 'nobody'], 'xp')).map(e => [e.playerId, e.rank]))
+            .toEqual([['p6', 3], ['p2', 7]]);
+
+        // Gains stored for an earlier week are not this week's
+        const weekly = await service.getLeaderboard('weeklyXp', 10);
+        expect(weekly.period).toBe('weekly');
+        expect(weekly.entries.map(e => e.playerId)).toEqual(['p8', 'p7', 'p6', 'p5', 'p4', 'p3', 'p2', 'p1']);
+        expect(await service.getPlayerRank('stale', 'xp', 'weekly')).toBeNull();
+
+        expect((await service.getGlobalStats()).totalXp).toBe(3650);
+    });
+
+    it('moves players as their records change and reports milestones crossed', async () => {
+        const changes: RankChange[] = [];
+        service.on('rank_changed', change => changes.push(change));
+
+        const updated = await players.update({ playerId: 'p1' }, { $set: { xp: 900 } });
+        service.observePlayer(updated!);
+
+        expect((await service.getPlayerRank('p1', 'xp'))!.rank).toBe(1);
+        const xpChanges = changes.filter(c => c.category === 'xp' && c.period === 'alltime');
+        expect(xpChanges).toEqual(expect.arrayContaining([
+            { playerId: 'p1', category: 'xp', period: 'alltime', rank: 1, previousRank: 8, milestone: 1, entered: true },
+            { playerId: 'p8', category: 'xp', period: 'alltime', rank: 2, previousRank: 1, milestone: 1, entered: false },
+            { playerId: 'p1', category: 'xp', period: 'alltime', rank: 1, previousRank: 8, milestone: 3, entered: true },
+            { playerId: 'p6', category: 'xp', period: 'alltime', rank: 4, previousRank: 3, milestone: 3, entered: false }
+        ]));
+
+        // The 800 XP gained counts for the week and is written back
+        expect(await service.getPlayerRank('p1', 'xp', 'weekly')).toMatchObject({ rank: 1, value: 810 });
+        await new Promise(resolve => setImmediate(resolve));
+        const stored = await players.findOne({ playerId: 'p1' });
+        expect(stored!.leaderboard.weeklyStats.xpEarned).toBe(810);
+        expect(stored!.leaderboard.weekStart).toBe(week);
+
+        // A brand new record is a starting point, not a gain
+        const created = await addPlayer('newcomer', 5000, 0, null);
+        service.observePlayer(created);
+        expect((await service.getPlayerRank('newcomer', 'xp'))!.rank).toBe(1);
+        expect(await service.getPlayerRank('newcomer', 'xp', 'weekly')).toBeNull();
+    });
+
+    it('closes a finished period with its standings and starts the next one empty', async () => {
+        const ended: PeriodEnded[] = [];
+        service.on('period_ended', event => ended.push(event));
+
+        const nextWeek = new Date(Date.parse(week) + 7 * 24 * 60 * 60 * 1000);
+        service.checkPeriods(nextWeek);
+
+        const weekly = ended.find(e => e.period === 'weekly')!;
+        expect(weekly.periodStart.toISOString().slice(0, 10)).toBe(week);
+        expect(weekly.periodEnd).toEqual(nextWeek);
+        expect(weekly.standings.slice(0, 2)).toEqual([
+            { rank: 1, playerId: 'p8', name: 'P8', xp: 80, stardust: 0 },
+            { rank: 2, playerId: 'p7', name: 'P7', xp: 70, stardust: 0 }
+        ]);
+
+        expect((await service.getLeaderboard('xp', 10, { period: 'weekly' })).entries).toEqual([]);
+        expect(service.getPeriodStart('weekly')).toBe(periodStartKey('weekly', nextWeek));
+
+        await new Promise(resolve => setImmediate(resolve));
+        const stored = await players.findOne({ playerId: 'p8' });
+        expect(stored!.leaderboard.weeklyStats.xpEarned).toBe(0);
+        expect(stored!.leaderboard.weekStart).toBe(periodStartKey('weekly', nextWeek));
+
+        // Checking again in the same week changes nothing
+        const count = ended.length;
+        service.checkPeriods(nextWeek);
+        expect(ended.length).toBe(count);
+    });
+});
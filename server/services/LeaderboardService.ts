@@ -1,30 +1,73 @@
-// Leaderboard Service - Manages all leaderboard types and rankings
-// Supports multiple leaderboard categories with caching for performance
-
+// =============================================================================
+// Leaderboard Service - Ranked boards per category and period
+// =============================================================================
+// Every indexed category keeps a RankedBoard in memory, so top-N pages, a
+// player's rank, the players around them and friends-only boards are
+// answered without touching the database. The boards are rebuilt from
+// storage at startup and then follow PlayerDataService ('player_updated')
+// and ReputationService ('reputation_changed') as scores change.
+//
+// Weekly and monthly boards count the XP and stardust gained in the period.
+// Gains are written back to `leaderboard.weeklyStats` / `monthlyStats` so a
+// restart picks them up. When a period rolls over its standings go out as
+// 'period_ended' (LeaderboardResetService archives and rewards them) and the
+// boards start empty.
+//
+// 'rank_changed' fires when a player enters or leaves one of RANK_MILESTONES
+// on any board, including players pushed out by someone else's climb.
+//
+// Each server process keeps its own boards; changes made by other processes
+// sharing the database arrive with the next rebuild (REBUILD_INTERVAL_MS).
+// Challenges and season XP live on Progression, which does not report its
+// changes, so those two categories are still queried from storage.
+// =============================================================================
+
+import { EventEmitter } from 'events';
 import { PlayerData } from '../database/playerDataModel.js';
-import { Progression } from '../database/progressionModels.js';
-import { Reputation } from '../database/socialModels.js';
-import { mongoPersistence } from './MongoPersistenceService.js';
+import { Progression, IProgression } from '../database/progressionModels.js';
+import { Reputation, IReputation } from '../database/socialModels.js';
+import { persistence } from '../persistence/index.js';
+import type { Stored, Repository } from '../persistence/index.js';
+import { playerDataService } from './PlayerDataService.js';
+import type { PlayerDataRecord } from './PlayerDataService.js';
+import { reputationService } from './ReputationService.js';
+import type { ReputationTrack } from './ReputationService.js';
+import { RankedBoard } from './RankedBoard.js';
+import type { RankedEntry } from './RankedBoard.js';
+
+type ProgressionRecord = Stored<IProgression>;
+type ReputationRecord = Stored<IReputation>;
 
 // ============================================
 // TYPES
 // ============================================
 
-export type LeaderboardCategory =
-    | 'xp'
-    | 'stardust'
-    | 'stars'
-    | 'echoes'
-    | 'challenges'
-    | 'connections'
-    | 'seasonXp'
-    | 'weeklyXp'
-    | 'monthlyXp'
-    | 'reputation_explorer'
-    | 'reputation_connector'
-    | 'reputation_guardian'
-    | 'reputation_beacon_keeper'
-    | 'reputation_collector';
+export const LEADERBOARD_CATEGORIES = [
+    'xp',
+    'stardust',
+    'stars',
+    'echoes',
+    'challenges',
+    'connections',
+    'rankPoints',
+    'seasonXp',
+    'weeklyXp',
+    'monthlyXp',
+    'reputation_explorer',
+    'reputation_connector',
+    'reputation_guardian',
+    'reputation_beacon_keeper',
+    'reputation_collector'
+] as const;
+
+export type LeaderboardCategory = typeof LEADERBOARD_CATEGORIES[number];
+
+export function isLeaderboardCategory(value: string): value is LeaderboardCategory {
+    return (LEADERBOARD_CATEGORIES as readonly string[]).includes(value);
+}
+
+export type LeaderboardPeriod = 'alltime' | 'weekly' | 'monthly';
+export type RollingPeriod = Exclude<LeaderboardPeriod, 'alltime'>;
 
 export interface LeaderboardEntry {
     rank: number;
@@ -39,6 +82,7 @@ export interface LeaderboardEntry {
 
 export interface LeaderboardResult {
     category: LeaderboardCategory;
+    period: LeaderboardPeriod;
     entries: LeaderboardEntry[];
     lastUpdated: Date;
     totalPlayers: number;
@@ -47,364 +91,599 @@ export interface LeaderboardResult {
 export interface PlayerRankInfo {
     playerId: string;
     category: LeaderboardCategory;
+    period: LeaderboardPeriod;
     rank: number;
     value: number;
     percentile: number;
     nearbyPlayers: LeaderboardEntry[];
 }
 
-// Cache settings
-const CACHE_DURATION_MS = 60 * 1000; // 1 minute cache
+export interface RankChange {
+    playerId: string;
+    category: LeaderboardCategory;
+    period: LeaderboardPeriod;
+    rank: number;
+    previousRank: number | null;    // null when the player just joined the board
+    milestone: number;              // The top-N boundary that was crossed
+    entered: boolean;               // false when the player dropped out of it
+}
+
+export interface PeriodStanding {
+    rank: number;
+    playerId: string;
+    name: string;
+    xp: number;                     // Gained during the period
+    stardust: number;
+}
+
+export interface PeriodEnded {
+    period: RollingPeriod;
+    periodStart: Date;
+    periodEnd: Date;
+    standings: PeriodStanding[];    // By XP gained, best first
+}
+
+interface PlayerProfile {
+    name: string;
+    avatar: string;
+    hue?: number;
+    level?: number;
+    seasonTier?: number;
+}
+
+// ============================================
+// BOARD DEFINITIONS
+// ============================================
+
+type PlayerCategory = 'xp' | 'stardust' | 'stars' | 'echoes' | 'connections' | 'rankPoints';
+type PeriodCategory = 'xp' | 'stardust';
+type ProgressionCategory = 'challenges' | 'seasonXp';
+
+// Scores read straight off a PlayerData record
+const PLAYER_SCORES: Record<PlayerCategory, (player: PlayerDataRecord) => number> = {
+    xp: player => player.xp || 0,
+    stardust: player => player.stardust || 0,
+    stars: player => player.stats?.starsLit || 0,
+    echoes: player => player.stats?.echoesCreated || 0,
+    connections: player => player.stats?.connections || 0,
+    rankPoints: player => player.leaderboard?.rankPoints || 0
+};
+
+const PLAYER_CATEGORIES = Object.keys(PLAYER_SCORES) as PlayerCategory[];
+
+// Categories that also have weekly and monthly boards, and where their gains are stored
+const PERIOD_FIELDS: Record<PeriodCategory, 'xpEarned' | 'stardustEarned'> = {
+    xp: 'xpEarned',
+    stardust: 'stardustEarned'
+};
+
+const PERIOD_CATEGORIES = Object.keys(PERIOD_FIELDS) as PeriodCategory[];
+const ROLLING_PERIODS: RollingPeriod[] = ['weekly', 'monthly'];
+
+const PERIOD_STORAGE: Record<RollingPeriod, { start: 'weekStart' | 'monthStart'; stats: 'weeklyStats' | 'monthlyStats'; reset: Record<string, number> }> = {
+    weekly: { start: 'weekStart', stats: 'weeklyStats', reset: { 'leaderboard.weeklyXp': 0, 'leaderboard.weeklyWins': 0 } },
+    monthly: { start: 'monthStart', stats: 'monthlyStats', reset: { 'leaderboard.monthlyXp': 0 } }
+};
+
+const EMPTY_PERIOD_STATS = {
+    xpEarned: 0,
+    stardustEarned: 0,
+    challengesCompleted: 0,
+    playtimeMinutes: 0,
+    bondsFormed: 0,
+    giftsGiven: 0
+};
+
+// Pre-period categories that name their period
+const PERIOD_ALIASES: Partial<Record<LeaderboardCategory, [PeriodCategory, RollingPeriod]>> = {
+    weeklyXp: ['xp', 'weekly'],
+    monthlyXp: ['xp', 'monthly']
+};
+
+const REPUTATION_TRACKS: ReputationTrack[] = ['explorer', 'connector', 'guardian', 'beacon_keeper', 'collector'];
+
+const PROGRESSION_FIELDS: Record<ProgressionCategory, 'totalChallengesCompleted' | 'seasonPassXP'> = {
+    challenges: 'totalChallengesCompleted',
+    seasonXp: 'seasonPassXP'
+};
+
+// "You entered the top 10"
+const RANK_MILESTONES = [1, 3, 10, 100];
+
+// Players shown either side of a player's own rank
+const NEARBY_RANKS = 2;
+
+// Standings handed to 'period_ended'
+const PERIOD_STANDINGS = 100;
+
+const REBUILD_INTERVAL_MS = 10 * 60 * 1000;
+
+/**
+ * YYYY-MM-DD of the Monday (weekly) or the 1st (monthly) starting the period, UTC
+ */
+export function periodStartKey(period: RollingPeriod, date: Date): string {
+    const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+    if (period === 'weekly') {
+        start.setUTCDate(start.getUTCDate() - (start.getUTCDay() + 6) % 7);
+    } else {
+        start.setUTCDate(1);
+    }
+    return start.toISOString().split('T')[0];
+}
+
+function periodEndDate(period: RollingPeriod, startKey: string): Date {
+    const end = new Date(startKey);
+    if (period === 'weekly') {
+        end.setUTCDate(end.getUTCDate() + 7);
+    } else {
+        end.setUTCMonth(end.getUTCMonth() + 1);
+    }
+    return end;
+}
+
+function boardKey(category: string, period: LeaderboardPeriod): string {
+    return `${category}:${period}`;
+}
 
-interface CachedLeaderboard {
-    result: LeaderboardResult;
-    cachedAt: number;
+function profileOf(player: PlayerDataRecord): PlayerProfile {
+    return {
+        name: player.name || 'Wanderer',
+        avatar: player.avatar || '⭐',
+        hue: player.hue,
+        level: player.level,
+        seasonTier: player.seasonTier
+    };
 }
 
 // ============================================
 // LEADERBOARD SERVICE CLASS
 // ============================================
 
-export class LeaderboardService {
+export class LeaderboardService extends EventEmitter {
 
     private initialized: boolean = false;
-    private cache: Map<string, CachedLeaderboard> = new Map();
+    private players: Repository<PlayerDataRecord>;
+    private progressions: Repository<ProgressionRecord>;
+    private reputations: Repository<ReputationRecord>;
+
+    private boards: Map<string, RankedBoard> = new Map();
+    private profiles: Map<string, PlayerProfile> = new Map();
+    private periodStarts: Record<RollingPeriod, string>;
+    private rebuilt: boolean = false;
+    private lastUpdated: Date = new Date();
+    private rebuildInterval: NodeJS.Timeout | null = null;
+
+    constructor(options: {
+        players?: Repository<PlayerDataRecord>;
+        progressions?: Repository<ProgressionRecord>;
+        reputations?: Repository<ReputationRecord>;
+    } = {}) {
+        super();
+        this.players = options.players || persistence.repository<PlayerDataRecord>(PlayerData);
+        this.progressions = options.progressions || persistence.repository<ProgressionRecord>(Progression);
+        this.reputations = options.reputations || persistence.repository<ReputationRecord>(Reputation);
+
+        const now = new Date();
+        this.periodStarts = { weekly: periodStartKey('weekly', now), monthly: periodStartKey('monthly', now) };
+    }
 
     async init(): Promise<void> {
         if (this.initialized) return;
         this.initialized = true;
-        console.log('🏆 Leaderboard service initialized');
+
+        playerDataService.on('player_updated', (player: PlayerDataRecord) => this.observePlayer(player));
+        reputationService.on('reputation_changed', ({ playerId, tracks }: { playerId: string; tracks: IReputation['tracks'] }) => {
+            this.observeReputation(playerId, tracks);
+        });
+
+        await this.rebuild();
+        this.rebuildInterval = setInterval(() => this.rebuild(), REBUILD_INTERVAL_MS);
+
+        console.log(`🏆 Leaderboard service initialized (${this.profiles.size} players ranked)`);
     }
 
     isReady(): boolean {
         return this.initialized;
     }
 
-    private useMongo(): boolean {
-        return mongoPersistence.isReady();
+    shutdown(): void {
+        if (this.rebuildInterval) clearInterval(this.rebuildInterval);
+        this.rebuildInterval = null;
     }
 
     // ========================================
-    // CACHE MANAGEMENT
+    // BUILDING THE BOARDS
     // ========================================
 
-    private getCacheKey(category: LeaderboardCategory, limit: number): string {
-        return `${category}:${limit}`;
-    }
+    /**
+     * Reload every board from storage. Replaces the boards in one step and
+     * emits no rank changes.
+     */
+    async rebuild(): Promise<void> {
+        try {
+            const [players, reputations] = await Promise.all([
+                this.players.find({}),
+                this.reputations.find({}, { fields: ['playerId', 'tracks'] })
+            ]);
 
-    private getCached(key: string): LeaderboardResult | null {
-        const cached = this.cache.get(key);
-        if (!cached) return null;
+            // Stored gains belong to the latest period any player wrote; if that
+            // has ended since, checkPeriods closes it with these standings
+            const periodStarts = { ...this.periodStarts };
+            for (const period of ROLLING_PERIODS) {
+                const { start } = PERIOD_STORAGE[period];
+                let latest = this.rebuilt ? periodStarts[period] : '';
+                for (const player of players) {
+                    const stored = player.leaderboard?.[start];
+                    if (stored && stored > latest) latest = stored;
+                }
+                if (latest) periodStarts[period] = latest;
+            }
 
-        if (Date.now() - cached.cachedAt > CACHE_DURATION_MS) {
-            this.cache.delete(key);
-            return null;
-        }
+            const boards = new Map<string, RankedBoard>();
+            const board = (category: string, period: LeaderboardPeriod) => {
+                const key = boardKey(category, period);
+                if (!boards.has(key)) boards.set(key, new RankedBoard());
+                return boards.get(key)!;
+            };
+            const profiles = new Map<string, PlayerProfile>();
 
-        return cached.result;
-    }
+            for (const player of players) {
+                profiles.set(player.playerId, profileOf(player));
+                for (const category of PLAYER_CATEGORIES) {
+                    board(category, 'alltime').set(player.playerId, PLAYER_SCORES[category](player));
+                }
+                for (const period of ROLLING_PERIODS) {
+                    const { start, stats } = PERIOD_STORAGE[period];
+                    if (player.leaderboard?.[start] !== periodStarts[period]) continue;
+                    for (const category of PERIOD_CATEGORIES) {
+                        const gained = player.leaderboard[stats]?.[PERIOD_FIELDS[category]] || 0;
+                        if (gained > 0) board(category, period).set(player.playerId, gained);
+                    }
+                }
+            }
 
-    private setCache(key: string, result: LeaderboardResult): void {
-        this.cache.set(key, { result, cachedAt: Date.now() });
-    }
+            for (const reputation of reputations) {
+                for (const track of REPUTATION_TRACKS) {
+                    board(`reputation_${track}`, 'alltime').set(reputation.playerId, reputation.tracks?.[track]?.xp || 0);
+                }
+            }
 
-    clearCache(): void {
-        this.cache.clear();
+            this.boards = boards;
+            this.profiles = profiles;
+            this.periodStarts = periodStarts;
+            this.rebuilt = true;
+            this.lastUpdated = new Date();
+        } catch (error) {
+            console.error('Failed to rebuild leaderboards:', error);
+        }
     }
 
-    // ========================================
-    // MAIN LEADERBOARD METHODS
-    // ========================================
-
-    async getLeaderboard(category: LeaderboardCategory, limit: number = 50): Promise<LeaderboardResult> {
-        // Fallback if Mongo is not ready
-        if (!this.useMongo()) {
-            return {
-                category,
-                entries: [],
-                lastUpdated: new Date(),
-                totalPlayers: 0
-            };
-        }
+    /**
+     * Follow a player's stored record after it changed
+     */
+    observePlayer(player: PlayerDataRecord): void {
+        this.checkPeriods();
 
-        const cacheKey = this.getCacheKey(category, limit);
-        const cached = this.getCached(cacheKey);
-        if (cached) return cached;
+        const playerId = player.playerId;
+        this.profiles.set(playerId, profileOf(player));
 
-        let entries: LeaderboardEntry[] = [];
-        let totalPlayers = 0;
+        const gains: Partial<Record<PeriodCategory, number>> = {};
+        for (const category of PLAYER_CATEGORIES) {
+            const previous = this.board(category, 'alltime').score(playerId);
+            const score = PLAYER_SCORES[category](player);
+            this.setScore(category, 'alltime', playerId, score);
 
-        try {
-            switch (category) {
-                case 'xp':
-                case 'stardust':
-                case 'stars':
-                case 'echoes':
-                case 'connections':
-                    entries = await this.getPlayerDataLeaderboard(category, limit);
-                    totalPlayers = await PlayerData.countDocuments();
-                    break;
-
-                case 'challenges':
-                case 'seasonXp':
-                case 'weeklyXp':
-                case 'monthlyXp':
-                    entries = await this.getProgressionLeaderboard(category, limit);
-                    totalPlayers = await Progression.countDocuments();
-                    break;
-
-                case 'reputation_explorer':
-                case 'reputation_connector':
-                case 'reputation_guardian':
-                case 'reputation_beacon_keeper':
-                case 'reputation_collector':
-                    const track = category.replace('reputation_', '');
-                    entries = await this.getReputationLeaderboard(track, limit);
-                    totalPlayers = await Reputation.countDocuments();
-                    break;
+            // A player's first record is where they start, not a gain
+            if (previous !== undefined && score > previous && category in PERIOD_FIELDS) {
+                gains[category as PeriodCategory] = score - previous;
             }
-        } catch (error) {
-            console.error('Failed to fetch leaderboard:', error);
-            // Return empty result on error
-            return {
-                category,
-                entries: [],
-                lastUpdated: new Date(),
-                totalPlayers: 0
-            };
         }
 
-        const result: LeaderboardResult = {
-            category,
-            entries,
-            lastUpdated: new Date(),
-            totalPlayers
-        };
+        if (Object.keys(gains).length > 0) this.addGains(playerId, gains);
+    }
 
-        this.setCache(cacheKey, result);
-        return result;
+    observeReputation(playerId: string, tracks: IReputation['tracks']): void {
+        for (const track of REPUTATION_TRACKS) {
+            this.setScore(`reputation_${track}`, 'alltime', playerId, tracks?.[track]?.xp || 0);
+        }
     }
 
-    private async getPlayerDataLeaderboard(category: string, limit: number): Promise<LeaderboardEntry[]> {
-        const sortField = this.getPlayerDataSortField(category);
+    private addGains(playerId: string, gains: Partial<Record<PeriodCategory, number>>): void {
+        const stored: Record<string, string | number> = {};
 
-        const players = await PlayerData.find({})
-            .sort({ [sortField]: -1 })
-            .limit(limit)
-            .select('playerId name avatar hue xp level stats')
-            .lean();
+        for (const period of ROLLING_PERIODS) {
+            const { start, stats } = PERIOD_STORAGE[period];
+            stored[`leaderboard.${start}`] = this.periodStarts[period];
+            for (const category of PERIOD_CATEGORIES) {
+                const board = this.board(category, period);
+                const gained = gains[category];
+                if (gained) this.setScore(category, period, playerId, (board.score(playerId) || 0) + gained);
+                stored[`leaderboard.${stats}.${PERIOD_FIELDS[category]}`] = board.score(playerId) || 0;
+            }
+        }
 
-        return players.map((p: any, index: number) => ({
-            rank: index + 1,
-            playerId: p.playerId,
-            name: p.name || 'Wanderer',
-            avatar: p.avatar || '⭐',
-            hue: p.hue,
-            level: p.level,
-            value: this.getPlayerDataValue(p, category)
-        }));
+        // Written straight to the repository: going through PlayerDataService
+        // would report the record back to us
+        this.players.update({ playerId }, { $set: stored }).catch(error => {
+            console.error('Failed to store leaderboard gains:', error);
+        });
     }
 
-    private getPlayerDataSortField(category: string): string {
-        switch (category) {
-            case 'xp': return 'xp';
-            case 'stardust': return 'stardust';
-            case 'stars': return 'stats.starsLit';
-            case 'echoes': return 'stats.echoesCreated';
-            case 'connections': return 'stats.connections';
-            default: return 'xp';
+    private board(category: string, period: LeaderboardPeriod): RankedBoard {
+        const key = boardKey(category, period);
+        let board = this.boards.get(key);
+        if (!board) {
+            board = new RankedBoard();
+            this.boards.set(key, board);
+        }
+        return board;
+    }
+
+    private setScore(category: string, period: LeaderboardPeriod, playerId: string, score: number): void {
+        const board = this.board(category, period);
+        const sizeBefore = board.size;
+        const { previousRank, rank } = board.set(playerId, score);
+        this.lastUpdated = new Date();
+        if (previousRank === rank) return;
+
+        // Joining the board counts as climbing from just below the last entry
+        const from = previousRank ?? sizeBefore + 1;
+        for (const milestone of RANK_MILESTONES) {
+            if (rank <= milestone && milestone < from) {
+                this.emitRankChange(category, period, playerId, rank, previousRank, milestone, true);
+                const pushedOut = board.range(milestone + 1, 1)[0];
+                if (pushedOut) {
+                    this.emitRankChange(category, period, pushedOut.id, milestone + 1, milestone, milestone, false);
+                }
+            } else if (from <= milestone && milestone < rank) {
+                this.emitRankChange(category, period, playerId, rank, previousRank, milestone, false);
+                const movedIn = board.range(milestone, 1)[0];
+                if (movedIn) {
+                    this.emitRankChange(category, period, movedIn.id, milestone, milestone + 1, milestone, true);
+                }
+            }
         }
     }
 
-    private getPlayerDataValue(player: any, category: string): number {
-        switch (category) {
-            case 'xp': return player.xp || 0;
-            case 'stardust': return player.stardust || 0;
-            case 'stars': return player.stats?.starsLit || 0;
-            case 'echoes': return player.stats?.echoesCreated || 0;
-            case 'connections': return player.stats?.connections || 0;
-            default: return 0;
-        }
+    private emitRankChange(
+        category: string,
+        period: LeaderboardPeriod,
+        playerId: string,
+        rank: number,
+        previousRank: number | null,
+        milestone: number,
+        entered: boolean
+    ): void {
+        const change: RankChange = {
+            playerId,
+            category: category as LeaderboardCategory,
+            period,
+            rank,
+            previousRank,
+            milestone,
+            entered
+        };
+        this.emit('rank_changed', change);
     }
 
-    private async getProgressionLeaderboard(category: string, limit: number): Promise<LeaderboardEntry[]> {
-        const sortField = this.getProgressionSortField(category);
+    // ========================================
+    // PERIODS
+    // ========================================
+
+    /**
+     * Close any weekly or monthly period that has ended by `now`
+     */
+    checkPeriods(now: Date = new Date()): void {
+        for (const period of ROLLING_PERIODS) {
+            const current = periodStartKey(period, now);
+            if (current !== this.periodStarts[period]) this.endPeriod(period, current);
+        }
+    }
 
-        const progressions = await Progression.find({})
-            .sort({ [sortField]: -1 })
-            .limit(limit)
-            .lean();
+    getPeriodStart(period: RollingPeriod): string {
+        return this.periodStarts[period];
+    }
 
-        // Fetch player names
-        const playerIds = progressions.map((p: any) => p.playerId);
-        const players = await PlayerData.find({ playerId: { $in: playerIds } })
-            .select('playerId name avatar hue level')
-            .lean();
+    private endPeriod(period: RollingPeriod, nextStart: string): void {
+        const startKey = this.periodStarts[period];
+        const ended: PeriodEnded = {
+            period,
+            periodStart: new Date(startKey),
+            periodEnd: periodEndDate(period, startKey),
+            standings: this.getStandings(period, PERIOD_STANDINGS)
+        };
 
-        const playerMap = new Map(players.map((p: any) => [p.playerId, p]));
+        for (const category of PERIOD_CATEGORIES) this.board(category, period).clear();
+        this.periodStarts[period] = nextStart;
+        this.lastUpdated = new Date();
 
-        return progressions.map((p: any, index: number) => {
-            const player = playerMap.get(p.playerId);
-            return {
-                rank: index + 1,
-                playerId: p.playerId,
-                name: player?.name || 'Wanderer',
-                avatar: player?.avatar || '⭐',
-                hue: player?.hue,
-                level: player?.level,
-                seasonTier: p.seasonPassTier,
-                value: this.getProgressionValue(p, category)
-            };
+        const { start, stats, reset } = PERIOD_STORAGE[period];
+        this.players.updateMany(
+            { [`leaderboard.${start}`]: { $ne: nextStart } },
+            { $set: { [`leaderboard.${start}`]: nextStart, [`leaderboard.${stats}`]: { ...EMPTY_PERIOD_STATS }, ...reset } }
+        ).catch(error => {
+            console.error(`Failed to reset ${period} leaderboard stats:`, error);
         });
+
+        console.log(`🏆 ${period} leaderboard period ${startKey} ended (${ended.standings.length} ranked)`);
+        this.emit('period_ended', ended);
     }
 
-    private getProgressionSortField(category: string): string {
-        switch (category) {
-            case 'challenges': return 'totalChallengesCompleted';
-            case 'seasonXp': return 'seasonPassXP';
-            case 'weeklyXp': return 'weeklyStats.xpEarned';
-            case 'monthlyXp': return 'monthlyStats.xpEarned';
-            default: return 'stardust';
-        }
+    /**
+     * The current period's players by XP gained
+     */
+    getStandings(period: RollingPeriod, limit: number = 10): PeriodStanding[] {
+        const stardust = this.board('stardust', period);
+        return this.board('xp', period).top(limit).map(entry => ({
+            rank: entry.rank,
+            playerId: entry.id,
+            name: this.profiles.get(entry.id)?.name || 'Wanderer',
+            xp: entry.score,
+            stardust: stardust.score(entry.id) || 0
+        }));
     }
 
-    private getProgressionValue(progression: any, category: string): number {
-        switch (category) {
-            case 'challenges': return progression.totalChallengesCompleted || 0;
-            case 'seasonXp': return progression.seasonPassXP || 0;
-            case 'weeklyXp': return progression.weeklyStats?.xpEarned || 0;
-            case 'monthlyXp': return progression.monthlyStats?.xpEarned || 0;
-            default: return 0;
+    // ========================================
+    // MAIN LEADERBOARD METHODS
+    // ========================================
+
+    async getLeaderboard(
+        category: LeaderboardCategory,
+        limit: number = 50,
+        options: { period?: LeaderboardPeriod; offset?: number } = {}
+    ): Promise<LeaderboardResult> {
+        const offset = Math.max(0, options.offset || 0);
+
+        if (category in PROGRESSION_FIELDS) {
+            return this.getProgressionLeaderboard(category as ProgressionCategory, limit, offset);
         }
-    }
 
-    private async getReputationLeaderboard(track: string, limit: number): Promise<LeaderboardEntry[]> {
-        const sortField = `tracks.${track}.xp`;
+        const { period, board } = this.resolve(category, options.period);
+        return {
+            category,
+            period,
+            entries: board ? board.range(offset + 1, limit).map(entry => this.toEntry(entry)) : [],
+            lastUpdated: this.lastUpdated,
+            totalPlayers: board?.size || 0
+        };
+    }
 
-        const reputations = await Reputation.find({})
-            .sort({ [sortField]: -1 })
-            .limit(limit)
-            .lean();
+    private resolve(category: LeaderboardCategory, period: LeaderboardPeriod = 'alltime'): {
+        period: LeaderboardPeriod;
+        board: RankedBoard | undefined;
+    } {
+        const alias = PERIOD_ALIASES[category];
+        if (alias) return { period: alias[1], board: this.boards.get(boardKey(alias[0], alias[1])) };
+        return { period, board: this.boards.get(boardKey(category, period)) };
+    }
 
-        // Fetch player names
-        const playerIds = reputations.map((r: any) => r.playerId);
-        const players = await PlayerData.find({ playerId: { $in: playerIds } })
-            .select('playerId name avatar hue level')
-            .lean();
+    private toEntry(entry: RankedEntry): LeaderboardEntry {
+        const profile = this.profiles.get(entry.id);
+        return {
+            rank: entry.rank,
+            playerId: entry.id,
+            name: profile?.name || 'Wanderer',
+            avatar: profile?.avatar || '⭐',
+            value: entry.score,
+            level: profile?.level,
+            seasonTier: profile?.seasonTier,
+            hue: profile?.hue
+        };
+    }
 
-        const playerMap = new Map(players.map((p: any) => [p.playerId, p]));
+    private async getProgressionLeaderboard(category: ProgressionCategory, limit: number, offset: number): Promise<LeaderboardResult> {
+        const field = PROGRESSION_FIELDS[category];
+        try {
+            const [progressions, totalPlayers] = await Promise.all([
+                this.progressions.find({}, {
+                    sort: { [field]: -1, playerId: 1 },
+                    skip: offset,
+                    limit,
+                    fields: ['playerId', field, 'seasonPassTier']
+                }),
+                this.progressions.count()
+            ]);
 
-        return reputations.map((r: any, index: number) => {
-            const player = playerMap.get(r.playerId);
-            const trackData = r.tracks?.[track] || { xp: 0, level: 1 };
             return {
-                rank: index + 1,
-                playerId: r.playerId,
-                name: player?.name || 'Wanderer',
-                avatar: player?.avatar || '⭐',
-                hue: player?.hue,
-                level: trackData.level,
-                value: trackData.xp
+                category,
+                period: 'alltime',
+                entries: progressions.map((progression, index) => ({
+                    ...this.toEntry({ id: progression.playerId, score: progression[field] || 0, rank: offset + index + 1 }),
+                    seasonTier: progression.seasonPassTier
+                })),
+                lastUpdated: new Date(),
+                totalPlayers
             };
-        });
+        } catch (error) {
+            console.error('Failed to fetch leaderboard:', error);
+            return { category, period: 'alltime', entries: [], lastUpdated: new Date(), totalPlayers: 0 };
+        }
     }
 
     // ========================================
     // PLAYER RANK INFO
     // ========================================
 
-    async getPlayerRank(playerId: string, category: LeaderboardCategory): Promise<PlayerRankInfo | null> {
-        if (!this.useMongo()) return null;
-
-        const fullLeaderboard = await this.getLeaderboard(category, 1000);
-        const playerEntry = fullLeaderboard.entries.find(e => e.playerId === playerId);
-
-        if (!playerEntry) {
-            // Player not in top 1000, estimate rank
-            const playerValue = await this.getPlayerValue(playerId, category);
-            const higherCount = await this.countPlayersAbove(category, playerValue);
-
-            return {
-                playerId,
-                category,
-                rank: higherCount + 1,
-                value: playerValue,
-                percentile: Math.round((1 - (higherCount / fullLeaderboard.totalPlayers)) * 100),
-                nearbyPlayers: []
-            };
+    async getPlayerRank(
+        playerId: string,
+        category: LeaderboardCategory,
+        period?: LeaderboardPeriod
+    ): Promise<PlayerRankInfo | null> {
+        if (category in PROGRESSION_FIELDS) {
+            return this.getProgressionRank(playerId, category as ProgressionCategory);
         }
 
-        // Get nearby players
-        const nearbyPlayers = this.getNearbyPlayers(fullLeaderboard.entries, playerEntry.rank);
+        const resolved = this.resolve(category, period);
+        const rank = resolved.board?.rank(playerId);
+        if (!resolved.board || !rank) return null;
 
         return {
             playerId,
             category,
-            rank: playerEntry.rank,
-            value: playerEntry.value,
-            percentile: Math.round((1 - (playerEntry.rank / fullLeaderboard.totalPlayers)) * 100),
-            nearbyPlayers
+            period: resolved.period,
+            rank,
+            value: resolved.board.score(playerId)!,
+            percentile: Math.round((1 - (rank / resolved.board.size)) * 100),
+            nearbyPlayers: resolved.board.around(playerId, NEARBY_RANKS, NEARBY_RANKS).map(entry => this.toEntry(entry))
         };
     }
 
-    private getNearbyPlayers(entries: LeaderboardEntry[], rank: number): LeaderboardEntry[] {
-        const startIdx = Math.max(0, rank - 3);
-        const endIdx = Math.min(entries.length, rank + 2);
-        return entries.slice(startIdx, endIdx);
-    }
+    private async getProgressionRank(playerId: string, category: ProgressionCategory): Promise<PlayerRankInfo | null> {
+        const field = PROGRESSION_FIELDS[category];
+        const progression = await this.progressions.findOne({ playerId });
+        if (!progression) return null;
 
-    private async getPlayerValue(playerId: string, category: LeaderboardCategory): Promise<number> {
-        // Get the value for a specific player in a category
-        switch (category) {
-            case 'xp':
-            case 'stardust':
-            case 'stars':
-            case 'echoes':
-            case 'connections': {
-                const player = await PlayerData.findOne({ playerId }).lean();
-                return player ? this.getPlayerDataValue(player, category) : 0;
-            }
-            case 'challenges':
-            case 'seasonXp':
-            case 'weeklyXp':
-            case 'monthlyXp': {
-                const progression = await Progression.findOne({ playerId }).lean();
-                return progression ? this.getProgressionValue(progression, category) : 0;
-            }
-            default: {
-                const track = category.replace('reputation_', '');
-                const reputation = await Reputation.findOne({ playerId }).lean() as any;
-                return reputation?.tracks?.[track]?.xp || 0;
-            }
-        }
-    }
+        const value = progression[field] || 0;
+        const [above, totalPlayers] = await Promise.all([
+            this.progressions.count({ [field]: { $gt: value } }),
+            this.progressions.count()
+        ]);
 
-    private async countPlayersAbove(category: LeaderboardCategory, value: number): Promise<number> {
-        const field = this.getCategoryField(category);
+        return {
+            playerId,
+            category,
+            period: 'alltime',
+            rank: above + 1,
+            value,
+            percentile: Math.round((1 - ((above + 1) / totalPlayers)) * 100),
+            nearbyPlayers: []
+        };
+    }
 
-        if (category.startsWith('reputation_')) {
-            const track = category.replace('reputation_', '');
-            return Reputation.countDocuments({ [`tracks.${track}.xp`]: { $gt: value } });
-        } else if (['challenges', 'seasonXp', 'weeklyXp', 'monthlyXp'].includes(category)) {
-            return Progression.countDocuments({ [field]: { $gt: value } });
-        } else {
-            return PlayerData.countDocuments({ [field]: { $gt: value } });
+    /**
+     * Overall ranks of just these players (friends, a realm), best first
+     */
+    async getLeaderboardFor(
+        playerIds: Iterable<string>,
+        category: LeaderboardCategory,
+        period?: LeaderboardPeriod
+    ): Promise<LeaderboardEntry[]> {
+        if (category in PROGRESSION_FIELDS) {
+            const ranks = await Promise.all(
+                Array.from(new Set(playerIds), playerId => this.getProgressionRank(playerId, category as ProgressionCategory))
+            );
+            return ranks
+                .filter((info): info is PlayerRankInfo => info !== null)
+                .sort((a, b) => a.rank - b.rank)
+                .map(info => this.toEntry({ id: info.playerId, score: info.value, rank: info.rank }));
         }
+
+        const { board } = this.resolve(category, period);
+        return board ? board.ranksOf(playerIds).map(entry => this.toEntry(entry)) : [];
     }
 
-    private getCategoryField(category: LeaderboardCategory): string {
-        switch (category) {
-            case 'xp': return 'xp';
-            case 'stardust': return 'stardust';
-            case 'stars': return 'stats.starsLit';
-            case 'echoes': return 'stats.echoesCreated';
-            case 'connections': return 'stats.connections';
-            case 'challenges': return 'totalChallengesCompleted';
-            case 'seasonXp': return 'seasonPassXP';
-            case 'weeklyXp': return 'weeklyStats.xpEarned';
-            case 'monthlyXp': return 'monthlyStats.xpEarned';
-            default: return 'xp';
-        }
+    /**
+     * Get friends leaderboard
+     */
+    async getFriendsLeaderboard(
+        playerId: string,
+        category: LeaderboardCategory,
+        period?: LeaderboardPeriod
+    ): Promise<LeaderboardEntry[]> {
+        const player = await this.players.findOne({ playerId });
+        if (!player) return [];
+
+        return this.getLeaderboardFor([...(player.social?.friendIds || []), playerId], category, period);
     }
 
     // ========================================
@@ -418,47 +697,13 @@ export class LeaderboardService {
         totalEchoes: number;
         totalConnections: number;
     }> {
-        if (!this.useMongo()) {
-            return {
-                totalPlayers: 0,
-                totalXp: 0,
-                totalStars: 0,
-                totalEchoes: 0,
-                totalConnections: 0
-            };
-        }
-
-        try {
-            const result = await PlayerData.aggregate([
-                {
-                    $group: {
-                        _id: null,
-                        totalPlayers: { $sum: 1 },
-                        totalXp: { $sum: '$xp' },
-                        totalStars: { $sum: '$stats.starsLit' },
-                        totalEchoes: { $sum: '$stats.echoesCreated' },
-                        totalConnections: { $sum: '$stats.connections' }
-                    }
-                }
-            ]);
-
-            return result[0] || {
-                totalPlayers: 0,
-                totalXp: 0,
-                totalStars: 0,
-                totalEchoes: 0,
-                totalConnections: 0
-            };
-        } catch (error) {
-            console.error('Failed to get global stats:', error);
-            return {
-                totalPlayers: 0,
-                totalXp: 0,
-                totalStars: 0,
-                totalEchoes: 0,
-                totalConnections: 0
-            };
-        }
+        return {
+            totalPlayers: this.profiles.size,
+            totalXp: this.board('xp', 'alltime').total,
+            totalStars: this.board('stars', 'alltime').total,
+            totalEchoes: this.board('echoes', 'alltime').total,
+            totalConnections: this.board('connections', 'alltime').total
+        };
     }
 
     // ========================================
@@ -474,11 +719,7 @@ export class LeaderboardService {
         newRank: string;
         rankChanged: boolean;
     }> {
-        if (!this.useMongo()) {
-            return { newRankPoints: 0, oldRank: 'unranked', newRank: 'unranked', rankChanged: false };
-        }
-
-        const player = await PlayerData.findOne({ playerId });
+        const player = await this.players.findOne({ playerId });
         if (!player) {
             return { newRankPoints: 0, oldRank: 'unranked', newRank: 'unranked', rankChanged: false };
         }
@@ -489,19 +730,14 @@ export class LeaderboardService {
         const newRankPoints = Math.max(0, oldRankPoints + delta);
         const newRank = this.getRankFromPoints(newRankPoints);
 
-        // Update database
-        await PlayerData.findOneAndUpdate(
-            { playerId },
-            {
-                $set: { 'leaderboard.rankPoints': newRankPoints },
-                // Track peak rank
-                ...(this.getRankValue(newRank) > this.getRankValue(player.leaderboard?.peakRank || 'unranked')
-                    ? { $set: { 'leaderboard.peakRank': newRank } }
-                    : {})
-            }
-        );
+        const updates: Record<string, any> = { 'leaderboard.rankPoints': newRankPoints };
+        // Track peak rank
+        if (this.getRankValue(newRank) > this.getRankValue(player.leaderboard?.peakRank || 'unranked')) {
+            updates['leaderboard.peakRank'] = newRank;
+        }
 
-        this.clearCache();
+        const updated = await this.players.update({ playerId }, { $set: updates });
+        if (updated) this.observePlayer(updated);
 
         return {
             newRankPoints,
@@ -511,73 +747,14 @@ export class LeaderboardService {
         };
     }
 
-    /**
-     * Add XP to weekly/monthly tracking
-     */
-    async addCompetitiveXp(playerId: string, xp: number): Promise<void> {
-        if (!this.useMongo()) return;
-
-        await PlayerData.findOneAndUpdate(
-            { playerId },
-            {
-                $inc: {
-                    'leaderboard.weeklyXp': xp,
-                    'leaderboard.monthlyXp': xp
-                }
-            }
-        );
-        this.clearCache();
-    }
-
     /**
      * Record a competitive win
      */
     async recordWin(playerId: string): Promise<void> {
-        if (!this.useMongo()) return;
-
-        await PlayerData.findOneAndUpdate(
+        await this.players.update(
             { playerId },
             { $inc: { 'leaderboard.weeklyWins': 1 } }
         );
-        this.clearCache();
-    }
-
-    /**
-     * Process weekly reset (should be called via cron job every Monday)
-     */
-    async processWeeklyReset(): Promise<{ playersReset: number }> {
-        if (!this.useMongo()) return { playersReset: 0 };
-
-        console.log('🔄 Processing weekly leaderboard reset...');
-
-        const result = await PlayerData.updateMany(
-            {},
-            { $set: { 'leaderboard.weeklyXp': 0, 'leaderboard.weeklyWins': 0 } }
-        );
-
-        this.clearCache();
-        console.log(`✅ Weekly reset complete: ${result.modifiedCount} players reset`);
-
-        return { playersReset: result.modifiedCount };
-    }
-
-    /**
-     * Process monthly reset (should be called via cron job on 1st of month)
-     */
-    async processMonthlyReset(): Promise<{ playersReset: number }> {
-        if (!this.useMongo()) return { playersReset: 0 };
-
-        console.log('🔄 Processing monthly leaderboard reset...');
-
-        const result = await PlayerData.updateMany(
-            {},
-            { $set: { 'leaderboard.monthlyXp': 0 } }
-        );
-
-        this.clearCache();
-        console.log(`✅ Monthly reset complete: ${result.modifiedCount} players reset`);
-
-        return { playersReset: result.modifiedCount };
     }
 
     /**
@@ -639,9 +816,7 @@ export class LeaderboardService {
         step: number,
         stepId: string
     ): Promise<void> {
-        if (!this.useMongo()) return;
-
-        await PlayerData.updateOne(
+        await this.players.update(
             { playerId },
             {
                 $set: { 'tutorial.currentStep': step },
@@ -654,9 +829,7 @@ export class LeaderboardService {
      * Complete the tutorial for a player
      */
     async completeTutorial(playerId: string): Promise<void> {
-        if (!this.useMongo()) return;
-
-        await PlayerData.updateOne(
+        await this.players.update(
             { playerId },
             {
                 $set: {
@@ -671,9 +844,7 @@ export class LeaderboardService {
      * Skip the tutorial for a player
      */
     async skipTutorial(playerId: string): Promise<void> {
-        if (!this.useMongo()) return;
-
-        await PlayerData.updateOne(
+        await this.players.update(
             { playerId },
             {
                 $set: {
@@ -694,9 +865,7 @@ export class LeaderboardService {
         completedSteps: string[];
         skipped: boolean;
     } | null> {
-        if (!this.useMongo()) return null;
-
-        const player = await PlayerData.findOne({ playerId }).select('tutorial').lean();
+        const player = await this.players.findOne({ playerId });
         if (!player?.tutorial) return null;
 
         return {
@@ -712,7 +881,8 @@ export class LeaderboardService {
     // ─────────────────────────────────────────────────────────────────────────
 
     /**
-     * Record various stats for leaderboard tracking
+     * Record various stats for leaderboard tracking. Weekly and monthly XP and
+     * stardust are counted by the boards from the player's record instead.
      */
     async recordStats(playerId: string, stats: {
         xpEarned?: number;
@@ -722,21 +892,13 @@ export class LeaderboardService {
         bondsFormed?: number;
         giftsGiven?: number;
     }): Promise<void> {
-        if (!this.useMongo()) return;
-
         const updateOps: any = { $inc: {} };
 
         if (stats.xpEarned) {
-            updateOps.$inc['leaderboard.weeklyStats.xpEarned'] = stats.xpEarned;
-            updateOps.$inc['leaderboard.monthlyStats.xpEarned'] = stats.xpEarned;
             updateOps.$inc['leaderboard.allTimeStats.totalXpEarned'] = stats.xpEarned;
-            updateOps.$inc['leaderboard.weeklyXp'] = stats.xpEarned;
-            updateOps.$inc['leaderboard.monthlyXp'] = stats.xpEarned;
         }
 
         if (stats.stardustEarned) {
-            updateOps.$inc['leaderboard.weeklyStats.stardustEarned'] = stats.stardustEarned;
-            updateOps.$inc['leaderboard.monthlyStats.stardustEarned'] = stats.stardustEarned;
             updateOps.$inc['leaderboard.allTimeStats.totalStardustEarned'] = stats.stardustEarned;
         }
 
@@ -762,8 +924,8 @@ export class LeaderboardService {
             updateOps.$inc['leaderboard.monthlyStats.giftsGiven'] = stats.giftsGiven;
         }
 
-        await PlayerData.findOneAndUpdate({ playerId }, updateOps);
-        this.clearCache();
+        if (Object.keys(updateOps.$inc).length === 0) return;
+        await this.players.update({ playerId }, updateOps);
     }
 
     /**
@@ -795,39 +957,33 @@ export class LeaderboardService {
         };
         rankings: Record<string, number>;
     } | null> {
-        if (!this.useMongo()) return null;
-
-        const player = await PlayerData.findOne({ playerId }).select('leaderboard level').lean();
+        const player = await this.players.findOne({ playerId });
         if (!player?.leaderboard) return null;
 
         const lb = player.leaderboard as any;
+        const current = (period: RollingPeriod) => {
+            const { start, stats } = PERIOD_STORAGE[period];
+            const stored = lb[start] === this.periodStarts[period] ? lb[stats] || {} : {};
+            return {
+                ...EMPTY_PERIOD_STATS,
+                ...stored,
+                xpEarned: this.board('xp', period).score(playerId) || 0,
+                stardustEarned: this.board('stardust', period).score(playerId) || 0
+            };
+        };
 
         // Get main rankings
         const rankings: Record<string, number> = {};
         const categories: LeaderboardCategory[] = ['xp', 'stardust', 'challenges', 'weeklyXp'];
-        
+
         for (const cat of categories) {
             const rankInfo = await this.getPlayerRank(playerId, cat);
             rankings[cat] = rankInfo?.rank || 0;
         }
 
         return {
-            weekly: {
-                xpEarned: lb.weeklyStats?.xpEarned || 0,
-                stardustEarned: lb.weeklyStats?.stardustEarned || 0,
-                challengesCompleted: lb.weeklyStats?.challengesCompleted || 0,
-                playtimeMinutes: lb.weeklyStats?.playtimeMinutes || 0,
-                bondsFormed: lb.weeklyStats?.bondsFormed || 0,
-                giftsGiven: lb.weeklyStats?.giftsGiven || 0
-            },
-            monthly: {
-                xpEarned: lb.monthlyStats?.xpEarned || 0,
-                stardustEarned: lb.monthlyStats?.stardustEarned || 0,
-                challengesCompleted: lb.monthlyStats?.challengesCompleted || 0,
-                playtimeMinutes: lb.monthlyStats?.playtimeMinutes || 0,
-                bondsFormed: lb.monthlyStats?.bondsFormed || 0,
-                giftsGiven: lb.monthlyStats?.giftsGiven || 0
-            },
+            weekly: current('weekly'),
+            monthly: current('monthly'),
             allTime: {
                 highestLevel: lb.allTimeStats?.highestLevel || player.level || 1,
                 totalXpEarned: lb.allTimeStats?.totalXpEarned || 0,
@@ -838,100 +994,6 @@ export class LeaderboardService {
             rankings
         };
     }
-
-    /**
-     * Get friends leaderboard
-     */
-    async getFriendsLeaderboard(
-        playerId: string,
-        category: LeaderboardCategory
-    ): Promise<LeaderboardEntry[]> {
-        if (!this.useMongo()) return [];
-
-        const player = await PlayerData.findOne({ playerId }).select('social.friendIds').lean();
-        if (!player) return [];
-
-        const friendIds = [...(player.social?.friendIds || []), playerId]; // Include self
-
-        const sortField = this.getSortFieldForCategory(category);
-
-        const friends = await PlayerData.find({ playerId: { $in: friendIds } })
-            .sort({ [sortField]: -1 })
-            .select('playerId name avatar hue level xp stardust stats leaderboard')
-            .lean();
-
-        return friends.map((friend, index) => ({
-            rank: index + 1,
-            playerId: friend.playerId,
-            name: friend.name,
-            avatar: friend.avatar || '⭐',
-            value: this.getValueForCategory(friend as any, category),
-            level: friend.level,
-            hue: friend.hue
-        }));
-    }
-
-    /**
-     * Get sort field for a leaderboard category
-     */
-    private getSortFieldForCategory(category: LeaderboardCategory): string {
-        const sortFields: Record<LeaderboardCategory, string> = {
-            'xp': 'xp',
-            'stardust': 'stardust',
-            'stars': 'stars',
-            'echoes': 'echoes',
-            'challenges': 'stats.challengesCompleted',
-            'connections': 'stats.connections',
-            'seasonXp': 'leaderboard.seasonStats.xpEarned',
-            'weeklyXp': 'leaderboard.weeklyStats.xpEarned',
-            'monthlyXp': 'leaderboard.monthlyStats.xpEarned',
-            'reputation_explorer': 'reputation.explorer',
-            'reputation_connector': 'reputation.connector',
-            'reputation_guardian': 'reputation.guardian',
-            'reputation_beacon_keeper': 'reputation.beaconKeeper',
-            'reputation_collector': 'reputation.collector'
-        };
-        return sortFields[category] || 'xp';
-    }
-
-    /**
-     * Get value for a leaderboard category from player data
-     */
-    private getValueForCategory(player: any, category: LeaderboardCategory): number {
-        switch (category) {
-            case 'xp':
-                return player.xp || 0;
-            case 'stardust':
-                return player.stardust || 0;
-            case 'stars':
-                return player.stars || 0;
-            case 'echoes':
-                return player.echoes || 0;
-            case 'challenges':
-                return player.stats?.challengesCompleted || 0;
-            case 'connections':
-                return player.stats?.connections || 0;
-            case 'seasonXp':
-                return player.leaderboard?.seasonStats?.xpEarned || 0;
-            case 'weeklyXp':
-                return player.leaderboard?.weeklyStats?.xpEarned || 0;
-            case 'monthlyXp':
-                return player.leaderboard?.monthlyStats?.xpEarned || 0;
-            case 'reputation_explorer':
-                return player.reputation?.explorer || 0;
-            case 'reputation_connector':
-                return player.reputation?.connector || 0;
-            case 'reputation_guardian':
-                return player.reputation?.guardian || 0;
-            case 'reputation_beacon_keeper':
-                return player.reputation?.beaconKeeper || 0;
-            case 'reputation_collector':
-                return player.reputation?.collector || 0;
-            default:
-                return 0;
-        }
-    }
 }
 
 export const leaderboardService = new LeaderboardService();
-
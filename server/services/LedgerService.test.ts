@@ -0,0 +1,120 @@
+// =============================================================================
+// LedgerService Tests - balanced postings, guards, idempotency, reconciliation
+// =============================================================================
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { LedgerService, playerAccount, guildAccount, OPENING_ACCOUNT } from './LedgerService.js';
+import type { LedgerEntryRecord, LedgerAccountRecord, BalanceChange } from './LedgerService.js';
+import { LedgerEntry, LedgerAccount } from '../database/ledgerModels.js';
+import { Progression } from '../database/progressionModels.js';
+import { Guild } from '../database/guildModels.js';
+import { MemoryRepository } from '../persistence/index.js';
+
+describe('LedgerService', () => {
+    let entries: MemoryRepository<LedgerEntryRecord>;
+    let accounts: MemoryRepository<LedgerAccountRecord>;
+    let progressions: MemoryRepository<any>;
+    let guilds: MemoryRepository<any>;
+    let ledger: LedgerService;
+
+    beforeEach(async () => {
+        entries = new MemoryRepository<LedgerEntryRecord>([], LedgerEntry);
+        accounts = new MemoryRepository<LedgerAccountRecord>([], LedgerAccount);
+        progressions = new MemoryRepository<any>([], Progression);
+        guilds = new MemoryRepository<any>([], Guild);
+        ledger = new LedgerService({ entries, accounts, progressions, guilds });
+
+        await progressions.insert({ playerId: 'ana', stardust: 300, crystals: 20 });
+        await guilds.insert({ guildId: 'g1', name: 'Lanterns', tag: 'LNT', leaderId: 'ana', leaderName: 'Ana' });
+    });
+
+    it('posts credits and debits against the stored wallet and never overdraws', async () => {
+        const changes: BalanceChange[] = [];
+        ledger.on('balance_changed', change => changes.push(change));
+
+        const credit = await ledger.credit('ana', 'stardust', 200, { source: 'quest', reason: 'reward' });
+        expect(credit).toMatchObject({ success: true, balance: 500 });
+
+        const debit = await ledger.debit('ana', 'stardust', 450, { source: 'shop', reason: 'cosmetic' });
+        expect(debit).toMatchObject({ success: true, balance: 50 });
+
+        const refused = await ledger.debit('ana', 'stardust', 51, { source: 'shop', reason: 'cosmetic' });
+        expect(refused).toMatchObject({ success: false, balance: 50, error: 'Insufficient stardust' });
+        expect((await progressions.findOne({ playerId: 'ana' })).stardust).toBe(50);
+
+        // What the wallet held before the first posting came in as an opening balance
+        const history = await ledger.getHistory(playerAccount('ana'), { currency: 'stardust' });
+        expect(history.map(e => [e.reason, e.amount, e.balanceAfter])).toEqual(expect.arrayContaining([
+            ['opening_balance', 300, 300], ['reward', 200, 500], ['cosmetic', -450, 50]
+        ]));
+        expect(history).toHaveLength(3);
+        expect(await ledger.getLedgerBalance(OPENING_ACCOUNT, 'stardust')).toBe(-300);
+        expect(await ledger.getLedgerBalance('sink:shop', 'stardust')).toBe(450);
+
+        expect(changes.map(c => [c.playerId, c.balance, c.amount])).toEqual([['ana', 500, 200], ['ana', 50, -450]]);
+
+        // A new player's wallet is created by their first credit
+        expect(await ledger.credit('bo', 'crystals', 10, { source: 'api', reason: 'grant' }))
+            .toMatchObject({ success: true, balance: 10 });
+        expect(await ledger.credit('bo', 'crystals', -10, { source: 'api', reason: 'grant' }))
+            .toMatchObject({ success: false, error: 'Amount must be positive' });
+    });
+
+    it('opens a wallet once when its first postings race', async () => {
+        await Promise.all([
+            ledger.credit('ana', 'stardust', 10, { source: 'quest', reason: 'reward' }),
+            ledger.credit('ana', 'stardust', 20, { source: 'quest', reason: 'reward' }),
+            ledger.debit('ana', 'stardust', 5, { source: 'shop', reason: 'cosmetic' })
+        ]);
+
+        expect(await entries.count({ account: playerAccount('ana'), reason: 'opening_balance' })).toBe(1);
+        expect(await accounts.findOne({ account: playerAccount('ana'), currency: 'stardust' })).toMatchObject({ balance: 325 });
+        expect(await ledger.reconcile(playerAccount('ana'))).toContainEqual({ currency: 'stardust', stored: 325, ledger: 325, drift: 0 });
+        expect(await ledger.getLedgerBalance(OPENING_ACCOUNT, 'stardust')).toBe(-300);
+    });
+
+    it('posts a keyed movement once', async () => {
+        const info = { source: 'gift', reason: 'claim', idempotencyKey: 'gift_claim:g1' };
+
+        const first = await ledger.credit('ana', 'stardust', 50, info);
+        const second = await ledger.credit('ana', 'stardust', 50, info);
+
+        expect(first).toMatchObject({ success: true, balance: 350 });
+        expect(second).toMatchObject({ success: true, duplicate: true, balance: 350, transactionId: first.transactionId });
+        expect((await progressions.findOne({ playerId: 'ana' })).stardust).toBe(350);
+        expect(await entries.count({ idempotencyKey: 'gift_claim:g1' })).toBe(2);
+    });
+
+    it('moves currency between accounts, all or nothing', async () => {
+        const contribution = await ledger.transfer(playerAccount('ana'), guildAccount('g1'), 'stardust', 100, {
+            source: 'guild',
+            reason: 'contribution'
+        });
+        expect(contribution.balances).toEqual({ [playerAccount('ana')]: { stardust: 200 }, [guildAccount('g1')]: { stardust: 100 } });
+        expect((await guilds.findOne({ guildId: 'g1' })).treasury.stardust).toBe(100);
+
+        // Crystals fall short, so the stardust half is not taken either
+        const box = await ledger.charge('ana', { stardust: 150, crystals: 25 }, { source: 'shop', reason: 'mystery_box' });
+        expect(box).toMatchObject({ success: false, error: 'Insufficient crystals' });
+        expect(await progressions.findOne({ playerId: 'ana' })).toMatchObject({ stardust: 200, crystals: 20 });
+
+        expect(await ledger.post({
+            source: 'admin',
+            reason: 'mint',
+            postings: [{ account: playerAccount('ana'), currency: 'stardust', amount: 10 }, { account: 'source:admin', currency: 'crystals', amount: -10 }]
+        })).toMatchObject({ success: false, error: 'Postings in stardust do not balance' });
+    });
+
+    it('reports drift between stored balances and the ledger', async () => {
+        await ledger.credit('ana', 'stardust', 100, { source: 'quest', reason: 'reward' });
+        expect(await ledger.reconcile(playerAccount('ana'))).toEqual([
+            { currency: 'stardust', stored: 400, ledger: 400, drift: 0 },
+            { currency: 'crystals', stored: 20, ledger: 0, drift: 20 }
+        ]);
+
+        // A write that bypassed the ledger
+        await progressions.update({ playerId: 'ana' }, { $inc: { stardust: 75 } });
+        const [stardust] = await ledger.reconcile(playerAccount('ana'));
+        expect(stardust).toEqual({ currency: 'stardust', stored: 475, ledger: 400, drift: 75 });
+    });
+});
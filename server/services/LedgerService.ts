@@ -0,0 +1,497 @@
+// =============================================================================
+// Ledger Service - Double-entry bookkeeping for stardust and crystals
+// =============================================================================
+// Every currency movement is a transaction of posting lines that sum to zero
+// per currency, so nothing appears or disappears without a counter-account:
+// rewards come from `source:<name>`, purchases go to `sink:<name>`, gifts in
+// flight sit in `escrow:<name>`. Each line carries the source, reason and
+// optional idempotency key of the movement; a key that has already posted
+// returns the original transaction instead of moving currency again.
+//
+// Player and guild accounts also have a stored balance (Progression
+// stardust/crystals, Guild treasury) that the ledger updates with guarded
+// atomic increments, debits first, so a balance never goes below zero. The
+// first transaction to touch a wallet claims its ledger account with an
+// atomic upsert and brings in whatever it already held from
+// `equity:opening`. Every account keeps a running balance of its entries,
+// which should equal its stored balance; reconcile() reports the drift.
+//
+// 'balance_changed' fires for every player balance that moved (PlayerData
+// mirrors stardust from it), 'posted' for every transaction.
+// =============================================================================
+
+import { EventEmitter } from 'events';
+import crypto from 'crypto';
+import { LedgerEntry, ILedgerEntry, LedgerAccount, ILedgerAccount } from '../database/ledgerModels.js';
+import type { Currency } from '../database/ledgerModels.js';
+import { Progression, IProgression } from '../database/progressionModels.js';
+import { Guild, IGuild } from '../database/guildModels.js';
+import { persistence } from '../persistence/index.js';
+import type { Stored, Repository, Filter } from '../persistence/index.js';
+
+export type { Currency } from '../database/ledgerModels.js';
+export type LedgerEntryRecord = Stored<ILedgerEntry>;
+export type LedgerAccountRecord = Stored<ILedgerAccount>;
+
+type ProgressionRecord = Stored<IProgression>;
+type GuildRecord = Stored<IGuild>;
+
+export const CURRENCIES: Currency[] = ['stardust', 'crystals'];
+
+export const OPENING_ACCOUNT = 'equity:opening';
+
+export function playerAccount(playerId: string): string {
+    return `player:${playerId}`;
+}
+
+export function guildAccount(guildId: string): string {
+    return `guild:${guildId}`;
+}
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface Posting {
+    account: string;
+    currency: Currency;
+    amount: number;
+}
+
+/** Where a movement comes from and why; stored on every line */
+export interface EntryInfo {
+    source: string;
+    reason: string;
+    idempotencyKey?: string;
+    metadata?: Record<string, any>;
+}
+
+export interface Transaction extends EntryInfo {
+    postings: Posting[];
+}
+
+export interface PostResult {
+    success: boolean;
+    transactionId?: string;
+    duplicate?: boolean;                                        // Key had already posted
+    balances: Record<string, Partial<Record<Currency, number>>>; // Stored balances after, per account
+    error?: string;
+}
+
+/** Result of a single-account movement */
+export interface LedgerResult {
+    success: boolean;
+    balance: number;
+    transactionId?: string;
+    duplicate?: boolean;
+    error?: string;
+}
+
+export interface BalanceChange {
+    playerId: string;
+    currency: Currency;
+    balance: number;
+    amount: number;
+    source: string;
+    reason: string;
+}
+
+export interface Reconciliation {
+    currency: Currency;
+    stored: number;
+    ledger: number;
+    drift: number;              // stored - ledger
+}
+
+interface Wallet {
+    repository: Repository<any>;
+    filter: Filter;
+    path: string;
+    upsert: boolean;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function generateId(prefix: string): string {
+    return `${prefix}_${crypto.randomBytes(8).toString('hex')}`;
+}
+
+function readPath(record: any, path: string): number {
+    return path.split('.').reduce((value, key) => value?.[key], record) || 0;
+}
+
+function setBalance(balances: PostResult['balances'], account: string, currency: Currency, balance: number): void {
+    if (!balances[account]) balances[account] = {};
+    balances[account][currency] = balance;
+}
+
+function isDuplicateKeyError(error: any): boolean {
+    return error?.code === 11000;
+}
+
+// ============================================
+// LEDGER SERVICE
+// ============================================
+
+export class LedgerService extends EventEmitter {
+    private entries: Repository<LedgerEntryRecord>;
+    private accounts: Repository<LedgerAccountRecord>;
+    private progressions: Repository<ProgressionRecord>;
+    private guilds: Repository<GuildRecord>;
+
+    constructor(options: {
+        entries?: Repository<LedgerEntryRecord>;
+        accounts?: Repository<LedgerAccountRecord>;
+        progressions?: Repository<ProgressionRecord>;
+        guilds?: Repository<GuildRecord>;
+    } = {}) {
+        super();
+        this.entries = options.entries || persistence.repository<LedgerEntryRecord>(LedgerEntry);
+        this.accounts = options.accounts || persistence.repository<LedgerAccountRecord>(LedgerAccount);
+        this.progressions = options.progressions || persistence.repository<ProgressionRecord>(Progression);
+        this.guilds = options.guilds || persistence.repository<GuildRecord>(Guild);
+    }
+
+    // =========================================================================
+    // POSTING
+    // =========================================================================
+
+    /** Currency into a player's wallet from `source:<info.source>` */
+    async credit(playerId: string, currency: Currency, amount: number, info: EntryInfo): Promise<LedgerResult> {
+        if (!(amount > 0)) return { success: false, balance: 0, error: 'Amount must be positive' };
+        return this.single(playerAccount(playerId), currency, this.post({
+            ...info,
+            postings: [
+                { account: `source:${info.source}`, currency, amount: -amount },
+                { account: playerAccount(playerId), currency, amount }
+            ]
+        }));
+    }
+
+    /** Currency out of a player's wallet into `sink:<info.source>`; fails rather than overdraw */
+    async debit(playerId: string, currency: Currency, amount: number, info: EntryInfo): Promise<LedgerResult> {
+        if (!(amount > 0)) return { success: false, balance: 0, error: 'Amount must be positive' };
+        return this.single(playerAccount(playerId), currency, this.post({
+            ...info,
+            postings: [
+                { account: playerAccount(playerId), currency, amount: -amount },
+                { account: `sink:${info.source}`, currency, amount }
+            ]
+        }));
+    }
+
+    /** Prices in several currencies out of a player's wallet, all or nothing */
+    async charge(playerId: string, costs: Partial<Record<Currency, number>>, info: EntryInfo): Promise<PostResult> {
+        const postings: Posting[] = [];
+        for (const currency of CURRENCIES) {
+            const amount = costs[currency] || 0;
+            if (amount < 0) return { success: false, balances: {}, error: 'Amount must be positive' };
+            if (amount === 0) continue;
+            postings.push(
+                { account: playerAccount(playerId), currency, amount: -amount },
+                { account: `sink:${info.source}`, currency, amount }
+            );
+        }
+
+        if (postings.length === 0) return { success: true, balances: {} };
+        return this.post({ ...info, postings });
+    }
+
+    /** Moves currency between any two accounts */
+    async transfer(from: string, to: string, currency: Currency, amount: number, info: EntryInfo): Promise<PostResult> {
+        if (!(amount > 0)) return { success: false, balances: {}, error: 'Amount must be positive' };
+        return this.post({
+            ...info,
+            postings: [
+                { account: from, currency, amount: -amount },
+                { account: to, currency, amount }
+            ]
+        });
+    }
+
+    async post(transaction: Transaction): Promise<PostResult> {
+        const invalid = this.validate(transaction.postings);
+        if (invalid) return { success: false, balances: {}, error: invalid };
+
+        const { idempotencyKey } = transaction;
+        if (idempotencyKey) {
+            const existing = await this.replay(idempotencyKey);
+            if (existing) return existing;
+        }
+
+        const transactionId = generateId('txn');
+        const postings = this.net(transaction.postings);
+
+        // Wallets posting for the first time bring their current balance in
+        for (const posting of postings) {
+            await this.open(posting.account, posting.currency, transactionId);
+        }
+
+        // Debits first, so a failed debit leaves nothing to undo but earlier debits
+        const ordered = [...postings].sort((a, b) => a.amount - b.amount);
+        const applied: Posting[] = [];
+        const balances = new Map<Posting, number>();
+
+        for (const posting of ordered) {
+            const wallet = this.wallet(posting.account, posting.currency);
+            if (!wallet) continue;
+
+            const filter = posting.amount < 0
+                ? { ...wallet.filter, [wallet.path]: { $gte: -posting.amount } }
+                : wallet.filter;
+            const updated = await wallet.repository.update(
+                filter,
+                { $inc: { [wallet.path]: posting.amount } },
+                { upsert: wallet.upsert && posting.amount > 0 }
+            );
+
+            if (!updated) {
+                await this.revert(applied);
+                const error = posting.amount < 0 ? `Insufficient ${posting.currency}` : `Unknown account ${posting.account}`;
+                return { success: false, balances: {}, error };
+            }
+
+            applied.push(posting);
+            balances.set(posting, readPath(updated, wallet.path));
+        }
+
+        try {
+            await this.insertLines(transactionId, idempotencyKey || null, transaction,
+                postings.map(posting => ({ posting, balanceAfter: balances.get(posting) ?? null })));
+        } catch (error) {
+            await this.revert(applied);
+            await this.entries.deleteMany({ transactionId });
+
+            // Another process posted the same key between our check and insert
+            if (idempotencyKey && isDuplicateKeyError(error)) {
+                const existing = await this.replay(idempotencyKey);
+                if (existing) return existing;
+            }
+            throw error;
+        }
+
+        for (const posting of postings) {
+            await this.addToAccount(posting);
+        }
+
+        const result: PostResult = { success: true, transactionId, balances: {} };
+        for (const [posting, balance] of balances) {
+            setBalance(result.balances, posting.account, posting.currency, balance);
+
+            if (posting.account.startsWith('player:')) {
+                const change: BalanceChange = {
+                    playerId: posting.account.slice('player:'.length),
+                    currency: posting.currency,
+                    balance,
+                    amount: posting.amount,
+                    source: transaction.source,
+                    reason: transaction.reason
+                };
+                this.emit('balance_changed', change);
+            }
+        }
+
+        this.emit('posted', { transactionId, ...transaction, postings });
+        return result;
+    }
+
+    // =========================================================================
+    // QUERIES
+    // =========================================================================
+
+    /** Stored balance; 0 for accounts without one */
+    async getBalance(account: string, currency: Currency): Promise<number> {
+        const wallet = this.wallet(account, currency);
+        if (!wallet) return 0;
+
+        const record = await wallet.repository.findOne(wallet.filter);
+        return record ? readPath(record, wallet.path) : 0;
+    }
+
+    /** An account's entries, newest first; a limit of 0 returns them all */
+    async getHistory(account: string, options: {
+        currency?: Currency;
+        limit?: number;
+        before?: Date;
+        filter?: Filter;
+    } = {}): Promise<LedgerEntryRecord[]> {
+        const filter: Filter = { ...options.filter, account };
+        if (options.currency) filter.currency = options.currency;
+        if (options.before) filter.createdAt = { $lt: options.before };
+
+        const limit = options.limit === 0 ? undefined : options.limit || 50;
+        return this.entries.find(filter, { sort: { createdAt: -1 }, limit });
+    }
+
+    /** All lines of one transaction */
+    async getTransaction(transactionId: string): Promise<LedgerEntryRecord[]> {
+        return this.entries.find({ transactionId });
+    }
+
+    /** Running sum of an account's entries, which is what its balance should be */
+    async getLedgerBalance(account: string, currency: Currency): Promise<number> {
+        const record = await this.accounts.findOne({ account, currency });
+        return record?.balance || 0;
+    }
+
+    /** Stored balance against the ledger for each currency of an account */
+    async reconcile(account: string): Promise<Reconciliation[]> {
+        return Promise.all(CURRENCIES.map(async currency => {
+            const [stored, ledger] = await Promise.all([
+                this.getBalance(account, currency),
+                this.getLedgerBalance(account, currency)
+            ]);
+            return { currency, stored, ledger, drift: stored - ledger };
+        }));
+    }
+
+    // =========================================================================
+    // HELPERS
+    // =========================================================================
+
+    private validate(postings: Posting[]): string | null {
+        if (postings.length < 2) return 'A transaction needs at least two postings';
+
+        const totals = new Map<Currency, number>();
+        for (const posting of postings) {
+            if (!CURRENCIES.includes(posting.currency)) return `Unknown currency ${posting.currency}`;
+            if (!Number.isInteger(posting.amount) || posting.amount === 0) return 'Amounts must be non-zero whole numbers';
+            totals.set(posting.currency, (totals.get(posting.currency) || 0) + posting.amount);
+        }
+
+        for (const [currency, total] of totals) {
+            if (total !== 0) return `Postings in ${currency} do not balance`;
+        }
+        return null;
+    }
+
+    /** One posting per account and currency */
+    private net(postings: Posting[]): Posting[] {
+        const byKey = new Map<string, Posting>();
+        for (const posting of postings) {
+            const key = `${posting.account}|${posting.currency}`;
+            const existing = byKey.get(key);
+            if (existing) existing.amount += posting.amount;
+            else byKey.set(key, { ...posting });
+        }
+        return [...byKey.values()].filter(posting => posting.amount !== 0);
+    }
+
+    private wallet(account: string, currency: Currency): Wallet | null {
+        const separator = account.indexOf(':');
+        const kind = account.slice(0, separator);
+        const id = account.slice(separator + 1);
+
+        if (kind === 'player') {
+            return { repository: this.progressions, filter: { playerId: id }, path: currency, upsert: true };
+        }
+        if (kind === 'guild') {
+            return { repository: this.guilds, filter: { guildId: id }, path: `treasury.${currency}`, upsert: false };
+        }
+        return null;
+    }
+
+    /**
+     * Open a wallet's ledger account with what the wallet holds. The balance
+     * is read before the account exists, and no posting touches the wallet
+     * until it does, so whichever transaction wins the upsert reads a
+     * balance no other posting has moved.
+     */
+    private async open(account: string, currency: Currency, transactionId: string): Promise<void> {
+        const wallet = this.wallet(account, currency);
+        if (!wallet || await this.accounts.findOne({ account, currency })) return;
+
+        const openingBalance = await this.getBalance(account, currency);
+        let claimed: LedgerAccountRecord | null;
+        try {
+            claimed = await this.accounts.update(
+                { account, currency },
+                { $setOnInsert: { balance: openingBalance, openedBy: transactionId } },
+                { upsert: true }
+            );
+        } catch (error) {
+            // Another process inserted the account between our check and upsert
+            if (isDuplicateKeyError(error)) return;
+            throw error;
+        }
+        if (claimed?.openedBy !== transactionId || openingBalance === 0) return;
+
+        await this.insertLines(`${transactionId}_open`, `opening:${account}:${currency}`, {
+            source: 'ledger',
+            reason: 'opening_balance'
+        }, [
+            { posting: { account: OPENING_ACCOUNT, currency, amount: -openingBalance }, balanceAfter: null },
+            { posting: { account, currency, amount: openingBalance }, balanceAfter: openingBalance }
+        ]);
+        await this.addToAccount({ account: OPENING_ACCOUNT, currency, amount: -openingBalance });
+    }
+
+    private async addToAccount(posting: Posting): Promise<void> {
+        await this.accounts.update(
+            { account: posting.account, currency: posting.currency },
+            { $inc: { balance: posting.amount } },
+            { upsert: true }
+        );
+    }
+
+    private async revert(applied: Posting[]): Promise<void> {
+        for (const posting of applied) {
+            const wallet = this.wallet(posting.account, posting.currency)!;
+            await wallet.repository.update(wallet.filter, { $inc: { [wallet.path]: -posting.amount } });
+        }
+    }
+
+    private async insertLines(
+        transactionId: string,
+        idempotencyKey: string | null,
+        info: EntryInfo,
+        lines: { posting: Posting; balanceAfter: number | null }[]
+    ): Promise<void> {
+        const createdAt = new Date();
+        for (const { posting, balanceAfter } of lines) {
+            await this.entries.insert({
+                entryId: generateId('entry'),
+                transactionId,
+                idempotencyKey,
+                account: posting.account,
+                currency: posting.currency,
+                amount: posting.amount,
+                balanceAfter,
+                source: info.source,
+                reason: info.reason,
+                metadata: info.metadata || {},
+                createdAt
+            });
+        }
+    }
+
+    /** The earlier result of a keyed transaction, if it posted */
+    private async replay(idempotencyKey: string): Promise<PostResult | null> {
+        const lines = await this.entries.find({ idempotencyKey });
+        if (lines.length === 0) return null;
+
+        const balances: PostResult['balances'] = {};
+        for (const line of lines) {
+            if (line.balanceAfter !== null) {
+                setBalance(balances, line.account, line.currency, line.balanceAfter);
+            }
+        }
+        return { success: true, duplicate: true, transactionId: lines[0].transactionId, balances };
+    }
+
+    private async single(account: string, currency: Currency, pending: Promise<PostResult>): Promise<LedgerResult> {
+        const result = await pending;
+        const balance = result.balances[account]?.[currency] ?? await this.getBalance(account, currency);
+        return {
+            success: result.success,
+            balance,
+            transactionId: result.transactionId,
+            duplicate: result.duplicate,
+            error: result.error
+        };
+    }
+}
+
+export const ledgerService = new LedgerService();
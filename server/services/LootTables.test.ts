@@ -0,0 +1,128 @@
+// =============================================================================
+// LootTables Tests - content validation, nested rolls, duplicates, odds, seeds
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import {
+    LootTableSet,
+    createSeededRandom,
+    loadLootDirectory,
+    parseLootFile,
+    validateLootContent,
+    type LootContent
+} from './LootTables.js';
+
+const content: LootContent = {
+    boxes: [{
+        id: 'star',
+        name: 'Star Box',
+        stardustCost: 100,
+        crystalCost: 0,
+        table: 'star_box',
+        pity: { threshold: 3, minRarity: 'rare' },
+        duplicateReward: { type: 'stardust', value: 25, rarity: 'common' }
+    }],
+    tables: [
+        {
+            id: 'star_box',
+            entries: [
+                { weight: 3, reward: { type: 'stardust', value: 50, rarity: 'common' } },
+                { weight: 1, table: 'trails' }
+            ]
+        },
+        {
+            id: 'trails',
+            entries: [
+                { weight: 1, reward: { type: 'cosmetic', value: 'trail_a', rarity: 'rare' } },
+                { weight: 1, reward: { type: 'cosmetic', value: 'trail_b', rarity: 'epic' } }
+            ]
+        }
+    ]
+};
+
+const messages = (loot: LootContent) => validateLootContent(loot).map(issue => `${issue.id}: ${issue.message}`);
+
+describe('LootTables', () => {
+    it('ships content that validates', async () => {
+        const result = await loadLootDirectory();
+        expect(result.issues).toEqual([]);
+        expect(result.content.boxes.map(box => box.id)).toEqual(['common', 'rare', 'epic', 'legendary', 'mythic']);
+    });
+
+    it('rejects entries that are neither a reward nor a table, unknown tables, cycles and unreachable pity', () => {
+        const { issues } = parseLootFile('tables:\n  - id: t\n    entries:\n      - { weight: 1 }', 'bad.yaml');
+        expect(issues[0]).toMatchObject({ id: 't', file: 'bad.yaml' });
+        expect(issues[0].message).toContain('either a reward or a table');
+
+        expect(messages({
+            boxes: [{ ...content.boxes[0], table: 'missing' }],
+            tables: [
+                { id: 'a', entries: [{ weight: 1, table: 'b' }] },
+                { id: 'b', entries: [{ weight: 1, table: 'a' }, { weight: 1, table: 'nowhere' }] }
+            ]
+        })).toEqual([
+            'star: Box rolls unknown table "missing"',
+            'b: Entry 1 refers to unknown table "nowhere"',
+            'b: Nested table cycle through "a"'
+        ]);
+
+        expect(messages({ ...content, boxes: [{ ...content.boxes[0], pity: { threshold: 3, minRarity: 'legendary' } }] }))
+            .toEqual(['star: Pity rarity "legendary" cannot be rolled from table "star_box"']);
+    });
+
+    it('rolls through nested tables and records every pick', () => {
+        const tables = new LootTableSet(content);
+        const draws = [0.9, 0.6];
+        const rolled = tables.roll('star_box', () => draws.shift()!);
+
+        expect(rolled).toEqual({
+            reward: { type: 'cosmetic', value: 'trail_b', rarity: 'epic' },
+            steps: [{ table: 'star_box', entry: 1, draw: 0.9 }, { table: 'trails', entry: 1, draw: 0.6 }]
+        });
+    });
+
+    it('leaves owned items out, then falls back to the duplicate reward', () => {
+        const tables = new LootTableSet(content);
+
+        // The trails pool keeps its quarter; the item left in it takes all of it
+        expect(tables.boxOdds('star', { owned: new Set(['trail_a']) }).map(rate => [rate.value, rate.chance]))
+            .toEqual([[50, 0.75], ['trail_b', 0.25]]);
+
+        const owned = new Set(['trail_a', 'trail_b']);
+        expect(tables.boxOdds('star', { pity: true, owned })).toEqual([{ type: 'stardust', value: 25, rarity: 'common', chance: 1 }]);
+        expect(tables.open('star', Math.random, { pity: true, owned }))
+            .toEqual({ reward: { type: 'stardust', value: 25, rarity: 'common' }, steps: [], duplicate: true });
+    });
+
+    it('publishes the odds the rolls actually follow', () => {
+        const tables = new LootTableSet(content);
+        expect(tables.boxOdds('star').map(rate => [rate.value, rate.chance]))
+            .toEqual([[50, 0.75], ['trail_a', 0.125], ['trail_b', 0.125]]);
+        expect(tables.boxOdds('star', { pity: true }).map(rate => [rate.value, rate.chance]))
+            .toEqual([['trail_a', 0.5], ['trail_b', 0.5]]);
+
+        const random = createSeededRandom('odds');
+        const counts: Record<string, number> = {};
+        for (let i = 0; i < 8000; i++) {
+            const value = String(tables.open('star', random)!.reward.value);
+            counts[value] = (counts[value] || 0) + 1;
+        }
+        expect(counts['50'] / 8000).toBeCloseTo(0.75, 1);
+        expect(counts.trail_a / 8000).toBeCloseTo(0.125, 1);
+    });
+
+    it('repeats a roll exactly from its seed', () => {
+        const tables = new LootTableSet(content);
+        const first = tables.open('star', createSeededRandom('c0ffee'), { pity: true });
+        const again = tables.open('star', createSeededRandom('c0ffee'), { pity: true });
+
+        expect(again).toEqual(first);
+        expect(first!.reward.rarity).not.toBe('common');
+
+        const sequence = createSeededRandom('a');
+        const values = [sequence(), sequence(), sequence()];
+        expect(values.every(value => value >= 0 && value < 1)).toBe(true);
+        expect(new Set(values).size).toBe(3);
+        expect(createSeededRandom('b')()).not.toBe(values[0]);
+    });
+});
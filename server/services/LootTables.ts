@@ -0,0 +1,512 @@
+// =============================================================================
+// Loot Tables - Weighted reward tables behind mystery boxes
+// =============================================================================
+// Boxes and tables live in server/content/loot/*.yaml (or .json):
+//
+//   boxes:
+//     - id: rare
+//       name: Rare Lumina Box
+//       stardustCost: 1500
+//       table: rare_box
+//       pity: { threshold: 15, minRarity: rare }
+//       duplicateReward: { type: stardust, value: 400, rarity: uncommon }
+//   tables:
+//     - id: rare_box
+//       entries:
+//         - { weight: 30, reward: { type: stardust, value: 300, rarity: common } }
+//         - { weight: 15, table: cosmetics_rare }     # Nested: rolls again there
+//
+// A roll walks down from the box's table, one weighted pick per level, with
+// entries the player cannot get left out: cosmetics, emotes and titles they
+// already own, and on a pity roll everything below the pity rarity. A nested
+// table keeps its weight as long as anything in it can still drop. The
+// published odds come from odds()/boxOdds(), which apply the same rules to
+// the same tables, so what players are shown is what they get.
+//
+// Rolls take their randomness from createSeededRandom(seed); with the seed,
+// the content version and the roll options a roll can be replayed exactly.
+// =============================================================================
+
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { fileURLToPath } from 'url';
+import { z } from 'zod';
+import YAML from 'yaml';
+
+export type Rarity = 'common' | 'uncommon' | 'rare' | 'epic' | 'legendary';
+export type LootRewardType = 'stardust' | 'crystals' | 'xp_boost' | 'cosmetic' | 'emote' | 'title';
+
+export const RARITIES: Rarity[] = ['common', 'uncommon', 'rare', 'epic', 'legendary'];
+
+// Rewards a player owns once; these are what duplicate protection skips
+export const COLLECTIBLE_TYPES: ReadonlySet<LootRewardType> = new Set(['cosmetic', 'emote', 'title']);
+
+export interface LootReward {
+    type: LootRewardType;
+    value: number | string;
+    rarity: Rarity;
+}
+
+export interface LootEntry {
+    weight: number;
+    reward?: LootReward;
+    table?: string;                 // Nested table rolled when this entry is picked
+}
+
+export interface LootTable {
+    id: string;
+    entries: LootEntry[];
+}
+
+export interface LootBoxDefinition {
+    id: string;
+    name: string;
+    stardustCost: number;
+    crystalCost: number;
+    table: string;
+    pity?: { threshold: number; minRarity: Rarity };
+    duplicateReward?: LootReward;   // When everything the roll can reach is owned
+}
+
+export interface LootContent {
+    boxes: LootBoxDefinition[];
+    tables: LootTable[];
+}
+
+export interface LootIssue {
+    id: string | null;
+    file?: string;
+    message: string;
+}
+
+export interface LootLoadResult {
+    content: LootContent;
+    issues: LootIssue[];
+    files: string[];
+}
+
+/** Which rewards a roll may land on */
+export interface RewardFilter {
+    minRarity?: Rarity;
+    owned?: ReadonlySet<string>;
+}
+
+export interface BoxRollOptions {
+    pity?: boolean;
+    owned?: ReadonlySet<string>;
+}
+
+/** One pick: the entry chosen in a table and the random draw that chose it */
+export interface LootStep {
+    table: string;
+    entry: number;
+    draw: number;
+}
+
+export interface LootRollResult {
+    reward: LootReward;
+    steps: LootStep[];
+}
+
+export interface LootOutcome extends LootRollResult {
+    duplicate: boolean;             // Everything was owned; this is the box's duplicateReward
+}
+
+export interface DropRate extends LootReward {
+    chance: number;                 // 0..1
+}
+
+export const DEFAULT_LOOT_DIR = process.env.LOOT_CONTENT_DIR
+    || path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../content/loot');
+
+// =========================================================================
+// Schema
+// =========================================================================
+
+const lootId = z.string().regex(/^[a-z0-9_]+$/, 'Use lowercase letters, digits and underscores');
+const raritySchema = z.enum(['common', 'uncommon', 'rare', 'epic', 'legendary']);
+
+const rewardSchema = z.union([
+    z.object({
+        type: z.enum(['stardust', 'crystals']),
+        value: z.number().int().positive(),
+        rarity: raritySchema
+    }).strict(),
+    z.object({
+        type: z.enum(['xp_boost', 'cosmetic', 'emote', 'title']),
+        value: z.string().min(1),
+        rarity: raritySchema
+    }).strict()
+]);
+
+const entrySchema = z.object({
+    weight: z.number().positive(),
+    reward: rewardSchema.optional(),
+    table: lootId.optional()
+}).strict().refine(entry => !!entry.reward !== !!entry.table, 'An entry has either a reward or a table');
+
+const tableSchema = z.object({
+    id: lootId,
+    entries: z.array(entrySchema).min(1)
+}).strict();
+
+const boxSchema = z.object({
+    id: lootId,
+    name: z.string().min(1),
+    stardustCost: z.number().int().min(0).default(0),
+    crystalCost: z.number().int().min(0).default(0),
+    table: lootId,
+    pity: z.object({
+        threshold: z.number().int().min(1),
+        minRarity: raritySchema
+    }).strict().optional(),
+    duplicateReward: rewardSchema.optional()
+}).strict();
+
+const lootFileSchema = z.object({
+    boxes: z.array(boxSchema).default([]),
+    tables: z.array(tableSchema).default([])
+}).strict();
+
+// =========================================================================
+// Loading
+// =========================================================================
+
+/**
+ * Parse one content file; `fileName` picks YAML or JSON and labels issues
+ */
+export function parseLootFile(source: string, fileName: string): { content: LootContent; issues: LootIssue[] } {
+    const empty: LootContent = { boxes: [], tables: [] };
+    let raw: unknown;
+    try {
+        raw = /\.ya?ml$/i.test(fileName) ? YAML.parse(source) : JSON.parse(source);
+    } catch (error) {
+        return { content: empty, issues: [{ id: null, file: fileName, message: `Cannot parse: ${(error as Error).message}` }] };
+    }
+
+    const result = lootFileSchema.safeParse(raw);
+    if (!result.success) {
+        const issues = result.error.issues.map(issue => {
+            const [list, index] = issue.path;
+            const item = typeof list === 'string' && typeof index === 'number' ? (raw as any)?.[list]?.[index] : null;
+            const id = typeof item?.id === 'string' ? item.id : null;
+            return { id, file: fileName, message: `${issue.path.join('.')}: ${issue.message}` };
+        });
+        return { content: empty, issues };
+    }
+    return { content: result.data as LootContent, issues: [] };
+}
+
+/**
+ * Load every .yaml/.yml/.json file in a directory and validate the result
+ */
+export async function loadLootDirectory(dir: string = DEFAULT_LOOT_DIR): Promise<LootLoadResult> {
+    const content: LootContent = { boxes: [], tables: [] };
+    let entries: string[];
+    try {
+        entries = (await fs.readdir(dir)).filter(name => /\.(ya?ml|json)$/i.test(name)).sort();
+    } catch (error) {
+        return { content, files: [], issues: [{ id: null, message: `Cannot read loot directory ${dir}: ${(error as Error).message}` }] };
+    }
+
+    const issues: LootIssue[] = [];
+    const origin = new Map<string, string>();
+
+    for (const name of entries) {
+        const parsed = parseLootFile(await fs.readFile(path.join(dir, name), 'utf8'), name);
+        issues.push(...parsed.issues);
+        for (const box of parsed.content.boxes) {
+            origin.set(`box:${box.id}`, name);
+            content.boxes.push(box);
+        }
+        for (const table of parsed.content.tables) {
+            origin.set(`table:${table.id}`, name);
+            content.tables.push(table);
+        }
+    }
+
+    for (const issue of validateLootContent(content)) {
+        const file = issue.id ? origin.get(`box:${issue.id}`) || origin.get(`table:${issue.id}`) : undefined;
+        issues.push({ ...issue, file });
+    }
+    return { content, issues, files: entries };
+}
+
+// =========================================================================
+// Validation
+// =========================================================================
+
+/**
+ * Cross-table checks: ids, nested table references, cycles, box tables and
+ * whether each box's pity rarity can actually be rolled
+ */
+export function validateLootContent(content: LootContent): LootIssue[] {
+    const issues: LootIssue[] = [];
+    const tables = new Map<string, LootTable>();
+    const boxIds = new Set<string>();
+
+    for (const table of content.tables) {
+        if (tables.has(table.id)) {
+            issues.push({ id: table.id, message: 'Duplicate table id' });
+        }
+        tables.set(table.id, table);
+    }
+    for (const box of content.boxes) {
+        if (boxIds.has(box.id)) {
+            issues.push({ id: box.id, message: 'Duplicate box id' });
+        }
+        boxIds.add(box.id);
+        if (!tables.has(box.table)) {
+            issues.push({ id: box.id, message: `Box rolls unknown table "${box.table}"` });
+        }
+    }
+
+    for (const table of tables.values()) {
+        table.entries.forEach((entry, index) => {
+            if (entry.table && !tables.has(entry.table)) {
+                issues.push({ id: table.id, message: `Entry ${index} refers to unknown table "${entry.table}"` });
+            }
+        });
+    }
+
+    // Cycles: a nested table that leads back to itself would never finish rolling
+    const state = new Map<string, 'visiting' | 'done'>();
+    let cyclic = false;
+    const visit = (table: LootTable) => {
+        state.set(table.id, 'visiting');
+        for (const entry of table.entries) {
+            const nested = entry.table ? tables.get(entry.table) : undefined;
+            if (!nested) continue;
+            if (state.get(nested.id) === 'visiting') {
+                issues.push({ id: table.id, message: `Nested table cycle through "${nested.id}"` });
+                cyclic = true;
+            } else if (!state.has(nested.id)) {
+                visit(nested);
+            }
+        }
+        state.set(table.id, 'done');
+    };
+    for (const table of tables.values()) {
+        if (!state.has(table.id)) visit(table);
+    }
+
+    if (!cyclic && issues.length === 0) {
+        const set = new LootTableSet(content);
+        for (const box of content.boxes) {
+            if (box.pity && set.odds(box.table, { minRarity: box.pity.minRarity }).length === 0) {
+                issues.push({ id: box.id, message: `Pity rarity "${box.pity.minRarity}" cannot be rolled from table "${box.table}"` });
+            }
+        }
+    }
+
+    return issues;
+}
+
+// =========================================================================
+// Randomness
+// =========================================================================
+
+/**
+ * Deterministic random numbers in [0, 1) from a seed string (xmur3 hash
+ * feeding sfc32). The same seed always gives the same sequence.
+ */
+export function createSeededRandom(seed: string): () => number {
+    let h = 1779033703 ^ seed.length;
+    for (let i = 0; i < seed.length; i++) {
+        h = Math.imul(h ^ seed.charCodeAt(i), 3432918353);
+        h = (h << 13) | (h >>> 19);
+    }
+    const hash = () => {
+        h = Math.imul(h ^ (h >>> 16), 2246822507);
+        h = Math.imul(h ^ (h >>> 13), 3266489909);
+        return (h ^= h >>> 16) >>> 0;
+    };
+
+    let a = hash(), b = hash(), c = hash(), d = hash();
+    return () => {
+        const t = (((a + b) | 0) + d) | 0;
+        d = (d + 1) | 0;
+        a = b ^ (b >>> 9);
+        b = (c + (c << 3)) | 0;
+        c = (c << 21) | (c >>> 11);
+        c = (c + t) | 0;
+        return (t >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Identifies a set of boxes and tables; rolls record it so they can be
+ * replayed against the content they were made with
+ */
+export function lootContentVersion(content: LootContent): string {
+    return crypto.createHash('sha256').update(JSON.stringify(content)).digest('hex').slice(0, 12);
+}
+
+export function meetsRarity(rarity: Rarity, minRarity: Rarity): boolean {
+    return RARITIES.indexOf(rarity) >= RARITIES.indexOf(minRarity);
+}
+
+// =========================================================================
+// Table Set
+// =========================================================================
+
+/**
+ * Validated loot content, ready to roll. Build it from content that passed
+ * validateLootContent(); nested tables are assumed to be acyclic.
+ */
+export class LootTableSet {
+    readonly version: string;
+    private tables = new Map<string, LootTable>();
+    private boxes = new Map<string, LootBoxDefinition>();
+
+    constructor(readonly content: LootContent = { boxes: [], tables: [] }) {
+        for (const table of content.tables) {
+            this.tables.set(table.id, table);
+        }
+        for (const box of content.boxes) {
+            this.boxes.set(box.id, box);
+        }
+        this.version = lootContentVersion(content);
+    }
+
+    get boxCount(): number {
+        return this.boxes.size;
+    }
+
+    box(boxId: string): LootBoxDefinition | null {
+        return this.boxes.get(boxId) || null;
+    }
+
+    allBoxes(): LootBoxDefinition[] {
+        return Array.from(this.boxes.values());
+    }
+
+    /**
+     * Values of the collectible rewards a table can reach
+     */
+    collectibles(tableId: string): Set<string> {
+        const values = new Set<string>();
+        for (const rate of this.odds(tableId)) {
+            if (COLLECTIBLE_TYPES.has(rate.type)) values.add(String(rate.value));
+        }
+        return values;
+    }
+
+    /**
+     * Walk down from a table, one weighted pick per level. Null when the
+     * filter leaves nothing to land on.
+     */
+    roll(tableId: string, random: () => number = Math.random, filter: RewardFilter = {}): LootRollResult | null {
+        const steps: LootStep[] = [];
+        let table = this.tables.get(tableId);
+
+        while (table) {
+            const eligible = table.entries
+                .map((entry, index) => ({ entry, index }))
+                .filter(({ entry }) => this.isAvailable(entry, filter));
+            if (eligible.length === 0) return null;
+
+            const total = eligible.reduce((sum, { entry }) => sum + entry.weight, 0);
+            const draw = random();
+            let remaining = draw * total;
+            let picked = eligible[eligible.length - 1];
+            for (const candidate of eligible) {
+                remaining -= candidate.entry.weight;
+                if (remaining < 0) {
+                    picked = candidate;
+                    break;
+                }
+            }
+
+            steps.push({ table: table.id, entry: picked.index, draw });
+            if (picked.entry.reward) {
+                return { reward: picked.entry.reward, steps };
+            }
+            table = this.tables.get(picked.entry.table!);
+        }
+        return null;
+    }
+
+    /**
+     * Chance of every reward a roll can land on, most likely first
+     */
+    odds(tableId: string, filter: RewardFilter = {}): DropRate[] {
+        const rates = new Map<string, DropRate>();
+
+        const walk = (id: string, chance: number) => {
+            const table = this.tables.get(id);
+            if (!table) return;
+            const eligible = table.entries.filter(entry => this.isAvailable(entry, filter));
+            const total = eligible.reduce((sum, entry) => sum + entry.weight, 0);
+
+            for (const entry of eligible) {
+                const share = chance * entry.weight / total;
+                if (!entry.reward) {
+                    walk(entry.table!, share);
+                    continue;
+                }
+                const key = `${entry.reward.type}:${entry.reward.value}:${entry.reward.rarity}`;
+                const rate = rates.get(key);
+                if (rate) rate.chance += share;
+                else rates.set(key, { ...entry.reward, chance: share });
+            }
+        };
+
+        walk(tableId, 1);
+        return Array.from(rates.values()).sort((a, b) => b.chance - a.chance);
+    }
+
+    /**
+     * Roll a box. Null for an unknown box.
+     */
+    open(boxId: string, random: () => number, options: BoxRollOptions = {}): LootOutcome | null {
+        const box = this.boxes.get(boxId);
+        if (!box) return null;
+
+        const plan = this.plan(box, options);
+        if (plan.duplicate) {
+            return { reward: plan.duplicate, steps: [], duplicate: true };
+        }
+        const rolled = this.roll(box.table, random, plan.filter);
+        return rolled ? { ...rolled, duplicate: false } : null;
+    }
+
+    /**
+     * What open() would give with the same options, as chances
+     */
+    boxOdds(boxId: string, options: BoxRollOptions = {}): DropRate[] {
+        const box = this.boxes.get(boxId);
+        if (!box) return [];
+
+        const plan = this.plan(box, options);
+        if (plan.duplicate) {
+            return [{ ...plan.duplicate, chance: 1 }];
+        }
+        return this.odds(box.table, plan.filter);
+    }
+
+    // Pity narrows the roll to its rarity; owned items drop out. If owning
+    // everything leaves nothing, the box's duplicate reward stands in, or
+    // without one the owned items are back in.
+    private plan(box: LootBoxDefinition, options: BoxRollOptions): { filter: RewardFilter; duplicate?: LootReward } {
+        const minRarity = options.pity ? box.pity?.minRarity : undefined;
+        const filter: RewardFilter = { minRarity, owned: options.owned };
+        if (this.isTableAvailable(box.table, filter)) {
+            return { filter };
+        }
+        return { filter: { minRarity }, duplicate: box.duplicateReward };
+    }
+
+    private isAvailable(entry: LootEntry, filter: RewardFilter): boolean {
+        if (entry.table) return this.isTableAvailable(entry.table, filter);
+
+        const reward = entry.reward!;
+        if (filter.minRarity && !meetsRarity(reward.rarity, filter.minRarity)) return false;
+        return !(COLLECTIBLE_TYPES.has(reward.type) && filter.owned?.has(String(reward.value)));
+    }
+
+    private isTableAvailable(tableId: string, filter: RewardFilter): boolean {
+        return !!this.tables.get(tableId)?.entries.some(entry => this.isAvailable(entry, filter));
+    }
+}
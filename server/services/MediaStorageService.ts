@@ -9,6 +9,8 @@ import mongoose, { Schema, Document, Model } from 'mongoose';
 // @ts-ignore - uuid package types
 import { v4 as uuidv4 } from 'uuid';
 import crypto from 'crypto';
+import { persistence } from '../persistence/index.js';
+import type { Filter, Stored, Repository } from '../persistence/index.js';
 
 // ============================================
 // RECORDING MODEL
@@ -113,6 +115,8 @@ RecordingSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
 export const Recording = (mongoose.models.Recording || 
     mongoose.model<IRecording>('Recording', RecordingSchema)) as Model<IRecording>;
 
+export type RecordingRecord = Stored<IRecording>;
+
 // ============================================
 // UPLOAD TOKEN MODEL
 // ============================================
@@ -146,6 +150,10 @@ const UploadToken = (mongoose.models.UploadToken ||
 
 export { UploadToken };
 
+type UploadTokenRecord = Stored<IUploadToken>;
+
+const NOT_DELETED = { $ne: 'deleted' };
+
 // ============================================
 // STORAGE CONFIGURATION
 // ============================================
@@ -177,6 +185,17 @@ const DEFAULT_CONFIG: StorageConfig = {
 class MediaStorageService extends EventEmitter {
     private initialized: boolean = false;
     private config: StorageConfig = DEFAULT_CONFIG;
+    private recordings: Repository<RecordingRecord>;
+    private tokens: Repository<UploadTokenRecord>;
+
+    constructor(options: {
+        recordings?: Repository<RecordingRecord>;
+        tokens?: Repository<UploadTokenRecord>;
+    } = {}) {
+        super();
+        this.recordings = options.recordings || persistence.repository<RecordingRecord>(Recording);
+        this.tokens = options.tokens || persistence.repository<UploadTokenRecord>(UploadToken);
+    }
 
     async initialize(config?: Partial<StorageConfig>): Promise<void> {
         if (this.initialized) return;
@@ -221,7 +240,7 @@ class MediaStorageService extends EventEmitter {
                 ? ['png', 'jpg', 'jpeg', 'webp']
                 : ['png', 'jpg', 'jpeg', 'webp', 'gif'];
 
-        await UploadToken.create({
+        await this.tokens.insert({
             tokenId,
             playerId,
             type,
@@ -239,8 +258,8 @@ class MediaStorageService extends EventEmitter {
     async validateUploadToken(
         tokenId: string,
         playerId: string
-    ): Promise<{ valid: boolean; token?: IUploadToken; error?: string }> {
-        const token = await UploadToken.findOne({ tokenId, playerId });
+    ): Promise<{ valid: boolean; token?: UploadTokenRecord; error?: string }> {
+        const token = await this.tokens.findOne({ tokenId, playerId });
 
         if (!token) {
             return { valid: false, error: 'Token not found' };
@@ -261,9 +280,9 @@ class MediaStorageService extends EventEmitter {
      * Mark token as used
      */
     async consumeUploadToken(tokenId: string): Promise<void> {
-        await UploadToken.findOneAndUpdate(
+        await this.tokens.update(
             { tokenId },
-            { used: true }
+            { $set: { used: true } }
         );
     }
 
@@ -289,7 +308,7 @@ class MediaStorageService extends EventEmitter {
         visibility?: 'private' | 'friends' | 'public';
         tags?: string[];
         metadata?: IRecording['metadata'];
-    }): Promise<IRecording> {
+    }): Promise<RecordingRecord> {
         // Validate duration
         if (input.duration > this.config.maxRecordingDuration) {
             throw new Error(`Recording too long. Max ${this.config.maxRecordingDuration}s`);
@@ -306,7 +325,7 @@ class MediaStorageService extends EventEmitter {
         // Calculate expiration
         const expiresAt = new Date(Date.now() + this.config.retentionDays * 24 * 60 * 60 * 1000);
 
-        const recording = await Recording.create({
+        const recording = await this.recordings.insert({
             recordingId,
             playerId: input.playerId,
             playerName: input.playerName,
@@ -322,7 +341,7 @@ class MediaStorageService extends EventEmitter {
             fps: input.fps || 30,
             visibility: input.visibility || 'private',
             tags: input.tags || [],
-            metadata: input.metadata || {},
+            metadata: input.metadata || ({} as RecordingRecord['metadata']),
             status: 'processing',
             expiresAt
         });
@@ -339,13 +358,15 @@ class MediaStorageService extends EventEmitter {
         recordingId: string,
         thumbnailPath?: string
     ): Promise<void> {
-        await Recording.findOneAndUpdate(
+        await this.recordings.update(
             { recordingId },
-            { 
-                status: 'ready',
-                processedAt: new Date(),
-                thumbnailPath,
-                updatedAt: new Date()
+            {
+                $set: {
+                    status: 'ready',
+                    processedAt: new Date(),
+                    thumbnailPath,
+                    updatedAt: new Date()
+                }
             }
         );
 
@@ -356,17 +377,21 @@ class MediaStorageService extends EventEmitter {
      * Mark recording as failed
      */
     async markRecordingFailed(recordingId: string, error: string): Promise<void> {
-        await Recording.findOneAndUpdate(
+        await this.recordings.update(
             { recordingId },
-            { 
-                status: 'failed',
-                updatedAt: new Date()
-            }
+            { $set: { status: 'failed', updatedAt: new Date() } }
         );
 
         this.emit('recording_failed', { recordingId, error });
     }
 
+    /**
+     * Get one recording, optionally only in the given status
+     */
+    async getRecording(recordingId: string, status?: RecordingRecord['status']): Promise<RecordingRecord | null> {
+        return this.recordings.findOne(status ? { recordingId, status } : { recordingId });
+    }
+
     /**
      * Get player's recordings
      */
@@ -378,17 +403,17 @@ class MediaStorageService extends EventEmitter {
             limit?: number;
             skip?: number;
         }
-    ): Promise<any[]> {
-        const query: any = { playerId, status: { $ne: 'deleted' } };
+    ): Promise<RecordingRecord[]> {
+        const query: Filter = { playerId, status: NOT_DELETED };
         
         if (options?.type) query.type = options.type;
         if (options?.status) query.status = options.status;
 
-        return Recording.find(query)
-            .sort({ createdAt: -1 })
-            .limit(options?.limit || 20)
-            .skip(options?.skip || 0)
-            .lean();
+        return this.recordings.find(query, {
+            sort: { createdAt: -1 },
+            limit: options?.limit || 20,
+            skip: options?.skip || 0
+        });
     }
 
     /**
@@ -399,17 +424,17 @@ class MediaStorageService extends EventEmitter {
         tags?: string[];
         limit?: number;
         skip?: number;
-    }): Promise<any[]> {
-        const query: any = { visibility: 'public', status: 'ready' };
+    }): Promise<RecordingRecord[]> {
+        const query: Filter = { visibility: 'public', status: 'ready' };
 
         if (options?.realm) query.realm = options.realm;
         if (options?.tags?.length) query.tags = { $in: options.tags };
 
-        return Recording.find(query)
-            .sort({ 'stats.views': -1, createdAt: -1 })
-            .limit(options?.limit || 20)
-            .skip(options?.skip || 0)
-            .lean();
+        return this.recordings.find(query, {
+            sort: { 'stats.views': -1, createdAt: -1 },
+            limit: options?.limit || 20,
+            skip: options?.skip || 0
+        });
     }
 
     /**
@@ -420,9 +445,9 @@ class MediaStorageService extends EventEmitter {
         playerId: string,
         visibility: 'private' | 'friends' | 'public'
     ): Promise<boolean> {
-        const result = await Recording.findOneAndUpdate(
+        const result = await this.recordings.update(
             { recordingId, playerId },
-            { visibility, updatedAt: new Date() }
+            { $set: { visibility, updatedAt: new Date() } }
         );
 
         return !!result;
@@ -432,9 +457,9 @@ class MediaStorageService extends EventEmitter {
      * Delete a recording
      */
     async deleteRecording(recordingId: string, playerId: string): Promise<boolean> {
-        const result = await Recording.findOneAndUpdate(
+        const result = await this.recordings.update(
             { recordingId, playerId },
-            { status: 'deleted', updatedAt: new Date() }
+            { $set: { status: 'deleted', updatedAt: new Date() } }
         );
 
         if (result) {
@@ -452,7 +477,7 @@ class MediaStorageService extends EventEmitter {
      * Increment view count
      */
     async incrementViews(recordingId: string): Promise<void> {
-        await Recording.findOneAndUpdate(
+        await this.recordings.update(
             { recordingId },
             { $inc: { 'stats.views': 1 } }
         );
@@ -462,7 +487,7 @@ class MediaStorageService extends EventEmitter {
      * Toggle like
      */
     async toggleLike(recordingId: string, increment: boolean): Promise<void> {
-        await Recording.findOneAndUpdate(
+        await this.recordings.update(
             { recordingId },
             { $inc: { 'stats.likes': increment ? 1 : -1 } }
         );
@@ -472,7 +497,7 @@ class MediaStorageService extends EventEmitter {
      * Increment share count
      */
     async incrementShares(recordingId: string): Promise<void> {
-        await Recording.findOneAndUpdate(
+        await this.recordings.update(
             { recordingId },
             { $inc: { 'stats.shares': 1 } }
         );
@@ -482,12 +507,12 @@ class MediaStorageService extends EventEmitter {
      * Get user's total storage used
      */
     async getUserStorageUsed(playerId: string): Promise<number> {
-        const result = await Recording.aggregate([
-            { $match: { playerId, status: { $ne: 'deleted' } } },
-            { $group: { _id: null, total: { $sum: '$fileSize' } } }
-        ]);
+        const recordings = await this.recordings.find(
+            { playerId, status: NOT_DELETED },
+            { fields: ['fileSize'] }
+        );
 
-        return result[0]?.total || 0;
+        return recordings.reduce((total, recording) => total + (recording.fileSize || 0), 0);
     }
 
     /**
@@ -500,15 +525,11 @@ class MediaStorageService extends EventEmitter {
         oldestRecording?: Date;
     }> {
         const used = await this.getUserStorageUsed(playerId);
-        const count = await Recording.countDocuments({ 
-            playerId, 
-            status: { $ne: 'deleted' } 
-        });
+        const count = await this.recordings.count({ playerId, status: NOT_DELETED });
         
-        const oldest = await Recording.findOne(
-            { playerId, status: { $ne: 'deleted' } },
-            { createdAt: 1 },
-            { sort: { createdAt: 1 } }
+        const [oldest] = await this.recordings.find(
+            { playerId, status: NOT_DELETED },
+            { fields: ['createdAt'], sort: { createdAt: 1 }, limit: 1 }
         );
 
         return {
@@ -527,15 +548,15 @@ class MediaStorageService extends EventEmitter {
      * Cleanup expired recordings (called by cron job)
      */
     async cleanupExpiredRecordings(): Promise<number> {
-        const result = await Recording.deleteMany({
+        const deletedCount = await this.recordings.deleteMany({
             expiresAt: { $lt: new Date() }
         });
 
-        if (result.deletedCount > 0) {
-            console.log(`🗑️ Cleaned up ${result.deletedCount} expired recordings`);
+        if (deletedCount > 0) {
+            console.log(`🗑️ Cleaned up ${deletedCount} expired recordings`);
         }
 
-        return result.deletedCount;
+        return deletedCount;
     }
 }
 
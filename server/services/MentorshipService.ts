@@ -2,8 +2,13 @@
 // Per lumina-viral-bible.md Section 4.5
 
 import { MentorProfile, IMentorProfile, MentorshipSession, IMentorshipSession } from '../database/socialModels.js';
+import { persistence } from '../persistence/index.js';
+import type { Stored, Repository } from '../persistence/index.js';
 import crypto from 'crypto';
 
+export type MentorProfileRecord = Stored<IMentorProfile>;
+export type MentorshipSessionRecord = Stored<IMentorshipSession>;
+
 // Mentor level thresholds (from constants/mentorship.ts)
 const MENTOR_LEVELS = [
     { level: 1, name: 'Novice Mentor', menteesHelped: 0 },
@@ -46,6 +51,16 @@ export interface MentorSearchResult {
 
 export class MentorshipService {
     private initialized: boolean = false;
+    private profiles: Repository<MentorProfileRecord>;
+    private sessions: Repository<MentorshipSessionRecord>;
+
+    constructor(options: {
+        profiles?: Repository<MentorProfileRecord>;
+        sessions?: Repository<MentorshipSessionRecord>;
+    } = {}) {
+        this.profiles = options.profiles || persistence.repository<MentorProfileRecord>(MentorProfile);
+        this.sessions = options.sessions || persistence.repository<MentorshipSessionRecord>(MentorshipSession);
+    }
 
     async init(): Promise<void> {
         if (this.initialized) return;
@@ -61,11 +76,11 @@ export class MentorshipService {
     // PROFILE MANAGEMENT
     // ========================================
 
-    async getOrCreateProfile(playerId: string, playerName: string): Promise<IMentorProfile> {
-        let profile = await MentorProfile.findOne({ playerId });
+    async getOrCreateProfile(playerId: string, playerName: string): Promise<MentorProfileRecord> {
+        let profile = await this.profiles.findOne({ playerId });
         
         if (!profile) {
-            profile = new MentorProfile({
+            profile = await this.profiles.insert({
                 playerId,
                 playerName,
                 isMentor: false,
@@ -79,17 +94,15 @@ export class MentorshipService {
                 ratingCount: 0,
                 hasGraduated: false
             });
-            await profile.save();
         }
         
         return profile;
     }
 
-    async updateProfile(playerId: string, updates: Partial<IMentorProfile>): Promise<IMentorProfile | null> {
-        return MentorProfile.findOneAndUpdate(
+    async updateProfile(playerId: string, updates: Partial<MentorProfileRecord>): Promise<MentorProfileRecord | null> {
+        return this.profiles.update(
             { playerId },
-            { $set: updates },
-            { new: true }
+            { $set: updates }
         );
     }
 
@@ -109,19 +122,16 @@ export class MentorshipService {
             return { success: false, error: `Must have ${MENTOR_REQUIREMENTS.minSealedBonds} sealed bonds` };
         }
 
-        const profile = await MentorProfile.findOne({ playerId });
+        const profile = await this.profiles.update({ playerId }, { $set: { isMentor: true } });
         if (!profile) {
             return { success: false, error: 'Profile not found' };
         }
 
-        profile.isMentor = true;
-        await profile.save();
-
         return { success: true };
     }
 
     async isMentor(playerId: string): Promise<boolean> {
-        const profile = await MentorProfile.findOne({ playerId });
+        const profile = await this.profiles.findOne({ playerId });
         return profile?.isMentor || false;
     }
 
@@ -133,7 +143,7 @@ export class MentorshipService {
         success: boolean;
         error?: string;
     }> {
-        const mentorProfile = await MentorProfile.findOne({ playerId: mentorId });
+        const mentorProfile = await this.profiles.findOne({ playerId: mentorId });
         if (!mentorProfile?.isMentor) {
             return { success: false, error: 'Invalid mentor' };
         }
@@ -148,29 +158,32 @@ export class MentorshipService {
             return { success: false, error: 'Already graduated from mentorship' };
         }
 
-        // Assign mentor
-        menteeProfile.currentMentor = mentorId;
-        await menteeProfile.save();
+        // Assign mentor, unless another assignment got there first
+        const assigned = await this.profiles.update(
+            { playerId: menteeId, currentMentor: null },
+            { $set: { currentMentor: mentorId } }
+        );
+        if (!assigned) {
+            return { success: false, error: 'Already has a mentor' };
+        }
 
         // Add to mentor's active mentees
-        mentorProfile.activeMentees.push(menteeId);
-        await mentorProfile.save();
+        await this.profiles.update({ playerId: mentorId }, { $addToSet: { activeMentees: menteeId } });
 
         return { success: true };
     }
 
     async removeMentor(menteeId: string): Promise<boolean> {
-        const menteeProfile = await MentorProfile.findOne({ playerId: menteeId });
+        const menteeProfile = await this.profiles.findOne({ playerId: menteeId });
         if (!menteeProfile?.currentMentor) return false;
 
         const mentorId = menteeProfile.currentMentor;
         
         // Remove from mentee
-        menteeProfile.currentMentor = null;
-        await menteeProfile.save();
+        await this.profiles.update({ playerId: menteeId }, { $set: { currentMentor: null } });
 
         // Remove from mentor's list
-        await MentorProfile.findOneAndUpdate(
+        await this.profiles.update(
             { playerId: mentorId },
             { $pull: { activeMentees: menteeId } }
         );
@@ -183,26 +196,32 @@ export class MentorshipService {
         mentorId?: string;
         rewards?: { stardust: number; cosmetic: string };
     }> {
-        const menteeProfile = await MentorProfile.findOne({ playerId: menteeId });
+        const menteeProfile = await this.profiles.findOne({ playerId: menteeId });
         if (!menteeProfile?.currentMentor) {
             return { success: false };
         }
 
         const mentorId = menteeProfile.currentMentor;
 
-        // Graduate the mentee
-        menteeProfile.hasGraduated = true;
-        menteeProfile.graduatedAt = new Date();
-        menteeProfile.currentMentor = null;
-        await menteeProfile.save();
+        // Graduate the mentee, once
+        const graduated = await this.profiles.update(
+            { playerId: menteeId, currentMentor: mentorId },
+            { $set: { hasGraduated: true, graduatedAt: new Date(), currentMentor: null } }
+        );
+        if (!graduated) {
+            return { success: false };
+        }
 
         // Update mentor stats
-        const mentorProfile = await MentorProfile.findOne({ playerId: mentorId });
+        const mentorProfile = await this.profiles.update(
+            { playerId: mentorId },
+            { $inc: { menteesHelped: 1 }, $pull: { activeMentees: menteeId } }
+        );
         if (mentorProfile) {
-            mentorProfile.menteesHelped++;
-            mentorProfile.mentorLevel = getMentorLevel(mentorProfile.menteesHelped);
-            mentorProfile.activeMentees = mentorProfile.activeMentees.filter(id => id !== menteeId);
-            await mentorProfile.save();
+            await this.profiles.update(
+                { playerId: mentorId },
+                { $set: { mentorLevel: getMentorLevel(mentorProfile.menteesHelped) } }
+            );
         }
 
         return {
@@ -216,22 +235,22 @@ export class MentorshipService {
     // MENTORSHIP SESSIONS
     // ========================================
 
-    async startSession(mentorId: string, menteeId: string): Promise<IMentorshipSession | null> {
+    async startSession(mentorId: string, menteeId: string): Promise<MentorshipSessionRecord | null> {
         // Verify relationship
-        const menteeProfile = await MentorProfile.findOne({ playerId: menteeId });
+        const menteeProfile = await this.profiles.findOne({ playerId: menteeId });
         if (menteeProfile?.currentMentor !== mentorId) {
             return null;
         }
 
         // Check for existing active session
-        const existing = await MentorshipSession.findOne({
+        const existing = await this.sessions.findOne({
             mentorId,
             menteeId,
             status: 'active'
         });
         if (existing) return existing;
 
-        const session = new MentorshipSession({
+        return this.sessions.insert({
             sessionId: generateSessionId(),
             mentorId,
             menteeId,
@@ -241,9 +260,6 @@ export class MentorshipService {
             xpAwarded: 0,
             bonusAwarded: 0
         });
-        await session.save();
-
-        return session;
     }
 
     async endSession(sessionId: string, rating?: number, feedback?: string): Promise<{
@@ -251,7 +267,7 @@ export class MentorshipService {
         duration: number;
         xpAwarded: number;
     }> {
-        const session = await MentorshipSession.findOne({ sessionId, status: 'active' });
+        const session = await this.sessions.findOne({ sessionId, status: 'active' });
         if (!session) {
             return { success: false, duration: 0, xpAwarded: 0 };
         }
@@ -264,16 +280,26 @@ export class MentorshipService {
         const activityXP = session.activitiesCompleted.length * 20;
         const xpAwarded = baseXP + activityXP;
 
-        session.endTime = endTime;
-        session.duration = duration;
-        session.status = 'completed';
-        session.xpAwarded = xpAwarded;
-        if (rating) session.rating = rating;
-        if (feedback) session.feedback = feedback;
-        await session.save();
+        // Only one end finds the session still active
+        const ended = await this.sessions.update(
+            { sessionId, status: 'active' },
+            {
+                $set: {
+                    endTime,
+                    duration,
+                    status: 'completed',
+                    xpAwarded,
+                    ...(rating ? { rating } : {}),
+                    ...(feedback ? { feedback } : {})
+                }
+            }
+        );
+        if (!ended) {
+            return { success: false, duration: 0, xpAwarded: 0 };
+        }
 
         // Update mentor stats
-        await MentorProfile.findOneAndUpdate(
+        await this.profiles.update(
             { playerId: session.mentorId },
             {
                 $inc: {
@@ -286,18 +312,19 @@ export class MentorshipService {
 
         // Update mentor rating if provided
         if (rating) {
-            const mentor = await MentorProfile.findOne({ playerId: session.mentorId });
+            const mentor = await this.profiles.findOne({ playerId: session.mentorId });
             if (mentor) {
                 const newRatingCount = mentor.ratingCount + 1;
                 const newRating = ((mentor.rating * mentor.ratingCount) + rating) / newRatingCount;
-                mentor.rating = Math.round(newRating * 10) / 10;
-                mentor.ratingCount = newRatingCount;
-                await mentor.save();
+                await this.profiles.update(
+                    { playerId: session.mentorId },
+                    { $set: { rating: Math.round(newRating * 10) / 10, ratingCount: newRatingCount } }
+                );
             }
         }
 
         // Update mentee stats
-        await MentorProfile.findOneAndUpdate(
+        await this.profiles.update(
             { playerId: session.menteeId },
             {
                 $inc: { sessionsCompleted: 1 },
@@ -309,27 +336,25 @@ export class MentorshipService {
     }
 
     async addSessionActivity(sessionId: string, activity: string): Promise<boolean> {
-        const result = await MentorshipSession.findOneAndUpdate(
+        const result = await this.sessions.update(
             { sessionId, status: 'active' },
             { $addToSet: { activitiesCompleted: activity } }
         );
         return !!result;
     }
 
-    async getActiveSession(playerId: string): Promise<IMentorshipSession | null> {
-        return MentorshipSession.findOne({
+    async getActiveSession(playerId: string): Promise<MentorshipSessionRecord | null> {
+        return this.sessions.findOne({
             $or: [{ mentorId: playerId }, { menteeId: playerId }],
             status: 'active'
         });
     }
 
-    async getSessionHistory(playerId: string, limit: number = 20): Promise<IMentorshipSession[]> {
-        return MentorshipSession.find({
+    async getSessionHistory(playerId: string, limit: number = 20): Promise<MentorshipSessionRecord[]> {
+        return this.sessions.find({
             $or: [{ mentorId: playerId }, { menteeId: playerId }],
             status: 'completed'
-        })
-        .sort({ endTime: -1 })
-        .limit(limit);
+        }, { sort: { endTime: -1 }, limit });
     }
 
     // ========================================
@@ -337,13 +362,9 @@ export class MentorshipService {
     // ========================================
 
     async findAvailableMentors(limit: number = 20): Promise<MentorSearchResult[]> {
-        const mentors = await MentorProfile.find({
-            isMentor: true,
-            $expr: { $lt: [{ $size: '$activeMentees' }, 5] } // Max 5 mentees
-        })
-        .sort({ rating: -1, menteesHelped: -1 })
-        .limit(limit)
-        .lean();
+        const mentors = (await this.profiles.find({ isMentor: true }, { sort: { rating: -1, menteesHelped: -1 } }))
+            .filter(m => m.activeMentees.length < 5) // Max 5 mentees
+            .slice(0, limit);
 
         return mentors.map(m => ({
             playerId: m.playerId,
@@ -356,10 +377,7 @@ export class MentorshipService {
     }
 
     async getMentorLeaderboard(limit: number = 50): Promise<any[]> {
-        const mentors = await MentorProfile.find({ isMentor: true })
-            .sort({ menteesHelped: -1, rating: -1 })
-            .limit(limit)
-            .lean();
+        const mentors = await this.profiles.find({ isMentor: true }, { sort: { menteesHelped: -1, rating: -1 }, limit });
 
         return mentors.map((m, i) => ({
             rank: i + 1,
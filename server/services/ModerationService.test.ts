@@ -0,0 +1,107 @@
+// =============================================================================
+// ModerationService Tests - flood, repeats, strikes, sanctions and reports
+// =============================================================================
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ModerationService } from './ModerationService.js';
+import type { MessageContext } from './ModerationService.js';
+import { Sanction, PlayerReport } from '../database/moderationModels.js';
+import { MemoryRepository } from '../persistence/index.js';
+
+const chat: MessageContext = { playerName: 'Troll', realm: 'genesis', channel: 'chat' };
+
+describe('ModerationService', () => {
+    let moderation: ModerationService;
+    const T = 1_000_000;
+
+    beforeEach(() => {
+        moderation = new ModerationService({ muteLadder: [0, 0, 60000, 300000] }, {
+            sanctions: new MemoryRepository<any>([], Sanction),
+            reports: new MemoryRepository<any>([], PlayerReport)
+        });
+    });
+
+    it('delivers clean messages and masks listed words', () => {
+        expect(moderation.moderateMessage('p1', 'hello there', chat, T)).toEqual({ allowed: true, text: 'hello there' });
+        expect(moderation.moderateMessage('p1', 'stop the h4ck', chat, T + 1000).text).toBe('stop the ****');
+    });
+
+    it('rejects blocked content with a strike', () => {
+        const verdict = moderation.moderateMessage('p1', 'just kys', chat, T);
+        expect(verdict).toMatchObject({ allowed: false, reason: 'blocked_content', strikes: 1 });
+    });
+
+    it('detects floods and repeated messages', () => {
+        for (let i = 0; i < 6; i++) {
+            expect(moderation.moderateMessage('flooder', `message ${i}`, chat, T + i * 100).allowed).toBe(true);
+        }
+        expect(moderation.moderateMessage('flooder', 'one more', chat, T + 700).reason).toBe('flood');
+
+        for (let i = 0; i < 3; i++) {
+            expect(moderation.moderateMessage('repeater', 'BUY GOLD', chat, T + i * 2000).allowed).toBe(true);
+        }
+        expect(moderation.moderateMessage('repeater', 'buy   gold', chat, T + 6000).reason).toBe('repeat');
+        // Different text, or the same text after the window, is fine
+        expect(moderation.moderateMessage('repeater', 'anyone around?', chat, T + 8000).allowed).toBe(true);
+        expect(moderation.moderateMessage('repeater', 'BUY GOLD', chat, T + 40000).allowed).toBe(true);
+    });
+
+    it('escalates strikes into longer mutes and lets strikes decay', () => {
+        const muted: number[] = [];
+        moderation.on('player_muted', sanction => muted.push(sanction.expiresAt - sanction.createdAt));
+
+        moderation.moderateMessage('p1', 'kys', chat, T);
+        const second = moderation.moderateMessage('p1', 'kys', chat, T + 1000);
+        expect(second).toMatchObject({ reason: 'blocked_content', strikes: 2, mutedUntil: T + 1000 + 60000 });
+
+        expect(moderation.moderateMessage('p1', 'sorry', chat, T + 2000)).toMatchObject({ allowed: false, reason: 'muted' });
+        expect(moderation.moderateMessage('p1', 'sorry', chat, T + 62000).allowed).toBe(true);
+
+        moderation.moderateMessage('p1', 'kys', chat, T + 63000);
+        expect(muted).toEqual([60000, 300000]);
+
+        // An hour later the old strikes no longer count
+        expect(moderation.getStrikeCount('p1', T + 63000)).toBe(3);
+        expect(moderation.getStrikeCount('p1', T + 63000 + 60 * 60 * 1000)).toBe(0);
+    });
+
+    it('tracks bans and lifts sanctions', async () => {
+        moderation.ban('cheater', 60000, 'speed hack', 'admin', T);
+        expect(await moderation.checkConnection('cheater', T + 1000)).toMatchObject({ type: 'ban', reason: 'speed hack' });
+        expect(await moderation.checkConnection('cheater', T + 61000)).toBeNull();
+
+        moderation.ban('cheater', null, 'again', 'admin');
+        expect(await moderation.unban('cheater', 'admin')).toBe(true);
+        expect(await moderation.checkConnection('cheater')).toBeNull();
+
+        moderation.mute('loud', null, 'manual', 'admin');
+        expect(moderation.moderateMessage('loud', 'hi', chat).reason).toBe('muted');
+        await moderation.unmute('loud', 'admin');
+        expect(moderation.moderateMessage('loud', 'hi', chat).allowed).toBe(true);
+    });
+
+    it('rejects names containing listed words', () => {
+        expect(moderation.isNameAllowed('Stargazer')).toBe(true);
+        expect(moderation.isNameAllowed('Sh1tL0rd')).toBe(false);
+    });
+
+    it('captures realm chat and only the relevant whispers in reports', async () => {
+        moderation.moderateMessage('bystander', 'hi all', { ...chat, playerName: 'Bystander' }, T);
+        moderation.moderateMessage('troll', 'you are trash', chat, T + 1000);
+        moderation.moderateMessage('troll', 'secret to victim', { ...chat, channel: 'whisper', targetId: 'victim' }, T + 2000);
+        moderation.moderateMessage('troll', 'secret to friend', { ...chat, channel: 'whisper', targetId: 'friend' }, T + 3000);
+        moderation.moderateMessage('victim', 'leave me alone', { ...chat, playerName: 'Victim', channel: 'whisper', targetId: 'troll' }, T + 4000);
+
+        const result = await moderation.reportPlayer('victim', 'troll', 'harassment', 'keeps following me', 'genesis', T + 5000);
+        expect(result.success).toBe(true);
+        expect(result.report!.context.map(line => line.text)).toEqual([
+            'hi all', 'you are trash', 'secret to victim', 'leave me alone'
+        ]);
+
+        expect((await moderation.getReports('open')).map(r => r.reportId)).toEqual([result.report!.reportId]);
+        await moderation.resolveReport(result.report!.reportId, 'actioned', 'muted', 'admin');
+        expect(await moderation.getReports('open')).toEqual([]);
+
+        expect((await moderation.reportPlayer('victim', 'victim', 'other', '', 'genesis')).success).toBe(false);
+    });
+});
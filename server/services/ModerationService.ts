@@ -0,0 +1,569 @@
+// =============================================================================
+// ModerationService - Chat filtering, strikes, mutes, bans and reports
+// =============================================================================
+// Every player-written text (chat, whispers, guild chat, echoes) goes through
+// moderateMessage() before anyone else sees it:
+//
+// 1. Muted players are refused
+// 2. Flooding (too many messages in a short window) earns a strike
+// 3. Blocked words reject the message and earn a strike; masked words are
+//    starred out and the message goes through
+// 4. Repeating the same message over and over earns a strike
+//
+// Strikes decay after an hour. Each strike past the first two mutes the
+// player for longer (see muteLadder). Admins can also mute and ban directly;
+// bans are checked when a WebSocket connects.
+//
+// Reports capture the recent chat around the reported player so reviewers
+// see what was actually said. Sanctions and reports are stored through the
+// persistence layer.
+// =============================================================================
+
+import { EventEmitter } from 'events';
+import crypto from 'crypto';
+import fs from 'fs';
+import { ContentFilter, DEFAULT_WORD_LISTS } from './ContentFilter.js';
+import type { WordLists } from './ContentFilter.js';
+import { Sanction, PlayerReport } from '../database/moderationModels.js';
+import type { ISanction, IPlayerReport, SanctionType, ReportStatus, IReportContextLine } from '../database/moderationModels.js';
+import { persistence } from '../persistence/index.js';
+import type { Repository, Stored } from '../persistence/index.js';
+
+export type ModerationChannel = 'chat' | 'whisper' | 'guild' | 'echo';
+export type ModerationRejectReason = 'muted' | 'blocked_content' | 'flood' | 'repeat';
+
+export const REPORT_REASONS = ['harassment', 'spam', 'offensive_language', 'cheating', 'inappropriate_name', 'other'] as const;
+export type ReportReason = typeof REPORT_REASONS[number];
+
+export interface ModerationConfig {
+    floodMaxMessages: number;     // Messages allowed per flood window
+    floodWindowMs: number;
+    repeatMaxCount: number;       // Identical messages allowed per repeat window
+    repeatWindowMs: number;
+    strikeDecayMs: number;        // Strikes older than this no longer count
+    muteLadder: number[];         // Mute duration (ms) by active strike count
+    playerHistorySize: number;    // Recent messages kept per player
+    realmHistorySize: number;     // Recent public messages kept per realm
+    reportContextSize: number;    // Lines captured with a report
+    maxReportsPerHour: number;
+}
+
+export const DEFAULT_MODERATION_CONFIG: ModerationConfig = {
+    floodMaxMessages: 6,
+    floodWindowMs: 5000,
+    repeatMaxCount: 3,
+    repeatWindowMs: 30000,
+    strikeDecayMs: 60 * 60 * 1000,
+    muteLadder: [0, 0, 0, 60 * 1000, 5 * 60 * 1000, 30 * 60 * 1000, 24 * 60 * 60 * 1000],
+    playerHistorySize: 20,
+    realmHistorySize: 50,
+    reportContextSize: 30,
+    maxReportsPerHour: 5
+};
+
+export interface MessageContext {
+    playerName: string;
+    realm: string;
+    channel: ModerationChannel;
+    targetId?: string;            // Whisper recipient
+}
+
+export interface ModerationVerdict {
+    allowed: boolean;
+    text: string;                 // Filtered text to deliver
+    reason?: ModerationRejectReason;
+    mutedUntil?: number | null;   // Set when the player is (now) muted; null = indefinitely
+    strikes?: number;
+}
+
+export interface SanctionRecord {
+    sanctionId: string;
+    playerId: string;
+    type: SanctionType;
+    reason: string;
+    issuedBy: string;
+    createdAt: number;
+    expiresAt: number | null;
+    liftedAt: number | null;
+    liftedBy: string | null;
+}
+
+export interface ReportRecord {
+    reportId: string;
+    reporterId: string;
+    targetId: string;
+    reason: string;
+    details: string;
+    realm: string;
+    context: IReportContextLine[];
+    status: ReportStatus;
+    resolution: string | null;
+    resolvedBy: string | null;
+    resolvedAt: number | null;
+    createdAt: number;
+}
+
+interface HistoryLine extends IReportContextLine {
+    realm: string;
+    targetId?: string;
+    normalized: string;
+}
+
+export class ModerationService extends EventEmitter {
+    private static instance: ModerationService;
+    private config: ModerationConfig;
+    private filter: ContentFilter;
+    private wordLists: WordLists = DEFAULT_WORD_LISTS;
+    private ready = false;
+
+    // Per-player recent activity
+    private attempts: Map<string, number[]> = new Map();          // Message timestamps (flood)
+    private playerHistory: Map<string, HistoryLine[]> = new Map();
+    private realmHistory: Map<string, HistoryLine[]> = new Map();
+    private strikes: Map<string, number[]> = new Map();
+    private reportTimes: Map<string, number[]> = new Map();
+
+    // Active sanctions by player (the sanctions repository is the shared record)
+    private mutes: Map<string, SanctionRecord> = new Map();
+    private bans: Map<string, SanctionRecord> = new Map();
+
+    private sanctions: Repository<Stored<ISanction>>;
+    private reports: Repository<Stored<IPlayerReport>>;
+
+    constructor(
+        config: Partial<ModerationConfig> = {},
+        options: {
+            sanctions?: Repository<Stored<ISanction>>;
+            reports?: Repository<Stored<IPlayerReport>>;
+        } = {}
+    ) {
+        super();
+        this.config = { ...DEFAULT_MODERATION_CONFIG, ...config };
+        this.filter = new ContentFilter(this.wordLists);
+        this.sanctions = options.sanctions ?? persistence.repository<Stored<ISanction>>(Sanction);
+        this.reports = options.reports ?? persistence.repository<Stored<IPlayerReport>>(PlayerReport);
+    }
+
+    static getInstance(): ModerationService {
+        if (!ModerationService.instance) {
+            ModerationService.instance = new ModerationService();
+        }
+        return ModerationService.instance;
+    }
+
+    async initialize(): Promise<void> {
+        if (this.ready) return;
+
+        // Extra words: MODERATION_WORDLIST_PATH={"masked":[...],"blocked":[...]}
+        const listPath = process.env.MODERATION_WORDLIST_PATH;
+        if (listPath) {
+            try {
+                const extra = JSON.parse(fs.readFileSync(listPath, 'utf8'));
+                this.setWordLists({
+                    masked: [...DEFAULT_WORD_LISTS.masked, ...(extra.masked || [])],
+                    blocked: [...DEFAULT_WORD_LISTS.blocked, ...(extra.blocked || [])]
+                });
+            } catch (error) {
+                console.error(`Failed to load moderation word list ${listPath}:`, error);
+            }
+        }
+
+        await this.loadActiveSanctions();
+        this.ready = true;
+        console.log('🛡️ ModerationService initialized');
+    }
+
+    isReady(): boolean {
+        return this.ready;
+    }
+
+    // =========================================================================
+    // Messages
+    // =========================================================================
+
+    /**
+     * Decide whether a player's message may be delivered, and in what form
+     */
+    moderateMessage(playerId: string, text: string, context: MessageContext, now: number = Date.now()): ModerationVerdict {
+        const mute = this.getActiveMute(playerId, now);
+        if (mute) {
+            return { allowed: false, text: '', reason: 'muted', mutedUntil: mute.expiresAt };
+        }
+
+        // Flood: count every attempt, including rejected ones
+        const attempts = this.recent(this.attempts, playerId, now - this.config.floodWindowMs);
+        attempts.push(now);
+        if (attempts.length > this.config.floodMaxMessages) {
+            return this.reject(playerId, 'flood', now);
+        }
+
+        const filtered = this.filter.filter(text);
+        if (filtered.blocked.length > 0) {
+            return this.reject(playerId, 'blocked_content', now);
+        }
+
+        const normalized = text.toLowerCase().replace(/\s+/g, ' ').trim();
+        const repeats = (this.playerHistory.get(playerId) || [])
+            .filter(line => line.timestamp > now - this.config.repeatWindowMs && line.normalized === normalized)
+            .length;
+        if (repeats >= this.config.repeatMaxCount) {
+            return this.reject(playerId, 'repeat', now);
+        }
+
+        this.record({
+            playerId,
+            playerName: context.playerName,
+            channel: context.channel,
+            text: filtered.text,
+            timestamp: now,
+            realm: context.realm,
+            targetId: context.targetId,
+            normalized
+        });
+
+        return { allowed: true, text: filtered.text };
+    }
+
+    /**
+     * Names must not contain anything on either word list, even run together
+     */
+    isNameAllowed(name: string): boolean {
+        return this.filter.isClean(name) && !this.filter.containsEmbedded(name);
+    }
+
+    getWordLists(): WordLists {
+        return this.wordLists;
+    }
+
+    setWordLists(lists: WordLists): void {
+        this.wordLists = { masked: [...lists.masked], blocked: [...lists.blocked] };
+        this.filter = new ContentFilter(this.wordLists);
+    }
+
+    // =========================================================================
+    // Strikes
+    // =========================================================================
+
+    /**
+     * Record a strike and apply the mute the strike count calls for
+     */
+    addStrike(playerId: string, reason: string, now: number = Date.now()): { strikes: number; mute: SanctionRecord | null } {
+        const strikes = this.recent(this.strikes, playerId, now - this.config.strikeDecayMs);
+        strikes.push(now);
+
+        const ladder = this.config.muteLadder;
+        const duration = ladder[Math.min(strikes.length, ladder.length - 1)];
+        const mute = duration > 0
+            ? this.mute(playerId, duration, `Automatic: ${reason} (${strikes.length} strikes)`, 'system', now)
+            : null;
+
+        return { strikes: strikes.length, mute };
+    }
+
+    getStrikeCount(playerId: string, now: number = Date.now()): number {
+        return this.recent(this.strikes, playerId, now - this.config.strikeDecayMs).length;
+    }
+
+    // =========================================================================
+    // Mutes & Bans
+    // =========================================================================
+
+    /**
+     * Mute a player. durationMs null = until lifted.
+     */
+    mute(playerId: string, durationMs: number | null, reason: string, issuedBy: string, now: number = Date.now()): SanctionRecord {
+        const sanction = this.createSanction(playerId, 'mute', durationMs, reason, issuedBy, now);
+        this.mutes.set(playerId, sanction);
+        this.emit('player_muted', sanction);
+        return sanction;
+    }
+
+    /**
+     * Ban a player. durationMs null = permanent.
+     */
+    ban(playerId: string, durationMs: number | null, reason: string, issuedBy: string, now: number = Date.now()): SanctionRecord {
+        const sanction = this.createSanction(playerId, 'ban', durationMs, reason, issuedBy, now);
+        this.bans.set(playerId, sanction);
+        this.emit('player_banned', sanction);
+        return sanction;
+    }
+
+    async unmute(playerId: string, liftedBy: string): Promise<boolean> {
+        return this.lift(this.mutes, playerId, 'mute', liftedBy, 'player_unmuted');
+    }
+
+    async unban(playerId: string, liftedBy: string): Promise<boolean> {
+        return this.lift(this.bans, playerId, 'ban', liftedBy, 'player_unbanned');
+    }
+
+    getActiveMute(playerId: string, now: number = Date.now()): SanctionRecord | null {
+        return this.activeSanction(this.mutes, playerId, now);
+    }
+
+    /**
+     * Active ban for a connecting player. Also refreshes their mute, since
+     * either may have been issued by another server process.
+     */
+    async checkConnection(playerId: string, now: number = Date.now()): Promise<SanctionRecord | null> {
+        try {
+            const docs = await this.sanctions.find({
+                playerId,
+                liftedAt: null,
+                $or: [{ expiresAt: null }, { expiresAt: { $gt: new Date(now) } }]
+            });
+            for (const doc of docs) {
+                const sanction = this.fromDocument(doc);
+                (sanction.type === 'ban' ? this.bans : this.mutes).set(playerId, sanction);
+            }
+        } catch (error) {
+            console.error('Failed to load sanctions:', error);
+        }
+        return this.activeSanction(this.bans, playerId, now);
+    }
+
+    /**
+     * Sanction history for a player, newest first
+     */
+    async getSanctions(playerId: string): Promise<SanctionRecord[]> {
+        const docs = await this.sanctions.find({ playerId }, { sort: { createdAt: -1 }, limit: 100 });
+        return docs.map(doc => this.fromDocument(doc));
+    }
+
+    // =========================================================================
+    // Reports
+    // =========================================================================
+
+    /**
+     * File a report, capturing what the reported player recently said
+     */
+    async reportPlayer(
+        reporterId: string,
+        targetId: string,
+        reason: ReportReason,
+        details: string,
+        realm: string,
+        now: number = Date.now()
+    ): Promise<{ success: boolean; report?: ReportRecord; error?: string }> {
+        if (reporterId === targetId) {
+            return { success: false, error: 'You cannot report yourself' };
+        }
+
+        const recentReports = this.recent(this.reportTimes, reporterId, now - 60 * 60 * 1000);
+        if (recentReports.length >= this.config.maxReportsPerHour) {
+            return { success: false, error: 'Too many reports, please try again later' };
+        }
+        recentReports.push(now);
+
+        const report: ReportRecord = {
+            reportId: crypto.randomBytes(8).toString('hex'),
+            reporterId,
+            targetId,
+            reason,
+            details: details.slice(0, 500),
+            realm,
+            context: this.captureContext(reporterId, targetId, realm),
+            status: 'open',
+            resolution: null,
+            resolvedBy: null,
+            resolvedAt: null,
+            createdAt: now
+        };
+
+        try {
+            await this.reports.insert({ ...report, resolvedAt: null, createdAt: new Date(now) });
+        } catch (error) {
+            console.error('Failed to save report:', error);
+            return { success: false, error: 'Failed to submit report' };
+        }
+
+        console.log(`🚩 Report ${report.reportId}: ${reporterId} reported ${targetId} (${reason})`);
+        this.emit('report_created', report);
+        return { success: true, report };
+    }
+
+    async getReports(status?: ReportStatus, limit: number = 50): Promise<ReportRecord[]> {
+        const docs = await this.reports.find(status ? { status } : {}, { sort: { createdAt: -1 }, limit });
+        return docs.map(doc => this.reportFromDocument(doc));
+    }
+
+    async getReport(reportId: string): Promise<ReportRecord | null> {
+        const doc = await this.reports.findOne({ reportId });
+        return doc ? this.reportFromDocument(doc) : null;
+    }
+
+    async resolveReport(reportId: string, status: 'actioned' | 'dismissed', resolution: string, resolvedBy: string): Promise<ReportRecord | null> {
+        const doc = await this.reports.update(
+            { reportId },
+            { $set: { status, resolution, resolvedBy, resolvedAt: new Date() } }
+        );
+        return doc ? this.reportFromDocument(doc) : null;
+    }
+
+    // =========================================================================
+    // Internals
+    // =========================================================================
+
+    private reject(playerId: string, reason: ModerationRejectReason, now: number): ModerationVerdict {
+        const { strikes, mute } = this.addStrike(playerId, reason, now);
+        return {
+            allowed: false,
+            text: '',
+            reason,
+            strikes,
+            ...(mute ? { mutedUntil: mute.expiresAt } : {})
+        };
+    }
+
+    /**
+     * Timestamps newer than `since` (pruned in place)
+     */
+    private recent(map: Map<string, number[]>, playerId: string, since: number): number[] {
+        const kept = (map.get(playerId) || []).filter(t => t > since);
+        map.set(playerId, kept);
+        return kept;
+    }
+
+    private record(line: HistoryLine): void {
+        const playerLines = this.playerHistory.get(line.playerId) || [];
+        playerLines.push(line);
+        this.playerHistory.set(line.playerId, playerLines.slice(-this.config.playerHistorySize));
+
+        // Only public messages go in the realm log
+        if (line.channel === 'chat' || line.channel === 'echo') {
+            const realmLines = this.realmHistory.get(line.realm) || [];
+            realmLines.push(line);
+            this.realmHistory.set(line.realm, realmLines.slice(-this.config.realmHistorySize));
+        }
+    }
+
+    /**
+     * Public realm chat plus the target's own recent messages. Whispers are
+     * only included if they were between the reporter and the target.
+     */
+    private captureContext(reporterId: string, targetId: string, realm: string): IReportContextLine[] {
+        const lines = new Map<HistoryLine, true>();
+        for (const line of this.realmHistory.get(realm) || []) lines.set(line, true);
+        for (const line of this.playerHistory.get(targetId) || []) {
+            if (line.channel !== 'whisper' || line.targetId === reporterId) lines.set(line, true);
+        }
+        for (const line of this.playerHistory.get(reporterId) || []) {
+            if (line.channel === 'whisper' && line.targetId === targetId) lines.set(line, true);
+        }
+
+        return Array.from(lines.keys())
+            .sort((a, b) => a.timestamp - b.timestamp)
+            .slice(-this.config.reportContextSize)
+            .map(({ playerId, playerName, channel, text, timestamp }) => ({ playerId, playerName, channel, text, timestamp }));
+    }
+
+    private createSanction(
+        playerId: string,
+        type: SanctionType,
+        durationMs: number | null,
+        reason: string,
+        issuedBy: string,
+        now: number
+    ): SanctionRecord {
+        const sanction: SanctionRecord = {
+            sanctionId: crypto.randomBytes(8).toString('hex'),
+            playerId,
+            type,
+            reason,
+            issuedBy,
+            createdAt: now,
+            expiresAt: durationMs === null ? null : now + durationMs,
+            liftedAt: null,
+            liftedBy: null
+        };
+
+        console.log(`🛡️ ${type === 'ban' ? 'Banned' : 'Muted'} ${playerId} ${durationMs === null ? 'indefinitely' : `for ${Math.round(durationMs / 1000)}s`} by ${issuedBy}: ${reason}`);
+
+        this.sanctions.insert({
+            ...sanction,
+            createdAt: new Date(now),
+            expiresAt: sanction.expiresAt === null ? null : new Date(sanction.expiresAt),
+            liftedAt: null
+        }).catch(error => console.error('Failed to save sanction:', error));
+
+        return sanction;
+    }
+
+    private async lift(
+        map: Map<string, SanctionRecord>,
+        playerId: string,
+        type: SanctionType,
+        liftedBy: string,
+        event: string
+    ): Promise<boolean> {
+        const active = this.activeSanction(map, playerId, Date.now());
+        map.delete(playerId);
+
+        const modified = await this.sanctions.updateMany(
+            { playerId, type, liftedAt: null },
+            { $set: { liftedAt: new Date(), liftedBy } }
+        );
+        const lifted = !!active || modified > 0;
+
+        if (lifted) this.emit(event, { playerId, liftedBy });
+        return lifted;
+    }
+
+    private activeSanction(map: Map<string, SanctionRecord>, playerId: string, now: number): SanctionRecord | null {
+        const sanction = map.get(playerId);
+        if (!sanction) return null;
+        if (sanction.liftedAt !== null || (sanction.expiresAt !== null && now >= sanction.expiresAt)) {
+            map.delete(playerId);
+            return null;
+        }
+        return sanction;
+    }
+
+    private async loadActiveSanctions(): Promise<void> {
+        try {
+            const docs = await this.sanctions.find({
+                liftedAt: null,
+                $or: [{ expiresAt: null }, { expiresAt: { $gt: new Date() } }]
+            });
+            for (const doc of docs) {
+                const sanction = this.fromDocument(doc);
+                (sanction.type === 'ban' ? this.bans : this.mutes).set(sanction.playerId, sanction);
+            }
+            console.log(`🛡️ Loaded ${docs.length} active sanctions`);
+        } catch (error) {
+            console.error('Failed to load sanctions:', error);
+        }
+    }
+
+    private fromDocument(doc: any): SanctionRecord {
+        return {
+            sanctionId: doc.sanctionId,
+            playerId: doc.playerId,
+            type: doc.type,
+            reason: doc.reason,
+            issuedBy: doc.issuedBy,
+            createdAt: new Date(doc.createdAt).getTime(),
+            expiresAt: doc.expiresAt ? new Date(doc.expiresAt).getTime() : null,
+            liftedAt: doc.liftedAt ? new Date(doc.liftedAt).getTime() : null,
+            liftedBy: doc.liftedBy ?? null
+        };
+    }
+
+    private reportFromDocument(doc: any): ReportRecord {
+        return {
+            reportId: doc.reportId,
+            reporterId: doc.reporterId,
+            targetId: doc.targetId,
+            reason: doc.reason,
+            details: doc.details,
+            realm: doc.realm,
+            context: doc.context || [],
+            status: doc.status,
+            resolution: doc.resolution ?? null,
+            resolvedBy: doc.resolvedBy ?? null,
+            resolvedAt: doc.resolvedAt ? new Date(doc.resolvedAt).getTime() : null,
+            createdAt: new Date(doc.createdAt).getTime()
+        };
+    }
+}
+
+export const moderationService = ModerationService.getInstance();
@@ -1,9 +1,10 @@
-// MongoDB-backed persistence service for AURA
-// Replaces file-based persistence with proper database storage
+// Persistence service for AURA - echoes, messages, lit stars, players, friends
+// Stored through the persistence layer, so MongoDB or in-memory alike
 
 import { database, Echo, Message, LitStar, Player, Friendship } from '../database';
-// IEcho, IMessage, IPlayer reserved for future type guards
-import type { IEcho as _IEcho, IMessage as _IMessage, IPlayer as _IPlayer, IFriendship as _IFriendship } from '../database';
+import type { IEcho, IMessage, ILitStar, IPlayer, IFriendship } from '../database';
+import { persistence } from '../persistence/index.js';
+import type { Stored } from '../persistence/index.js';
 
 interface EchoData {
     id: string;
@@ -57,48 +58,53 @@ interface PlayerData {
     lastPosition?: { x: number; y: number };
 }
 
+function toMessageData(m: Stored<IMessage>): MessageData {
+    return {
+        id: m.messageId,
+        fromId: m.fromId,
+        fromName: m.fromName,
+        toId: m.toId,
+        toName: m.toName,
+        text: m.text,
+        x: m.x,
+        y: m.y,
+        realm: m.realm,
+        type: m.type,
+        timestamp: m.createdAt.getTime()
+    };
+}
+
+function toEchoData(e: Stored<IEcho>): EchoData {
+    return {
+        id: e.echoId,
+        x: e.x,
+        y: e.y,
+        text: e.text,
+        hue: e.hue,
+        name: e.authorName,
+        realm: e.realm,
+        timestamp: e.createdAt.getTime(),
+        authorId: e.authorId,
+        votes: e.votes
+    };
+}
+
 /**
- * MongoDB-backed persistence service
  * Provides async methods for storing and retrieving game data
  */
 export class MongoPersistenceService {
-    private initialized: boolean = false;
-
-    /**
-     * Initialize the persistence service
-     * Attempts connection once - local MongoDB should work immediately or not at all
-     */
-    async init(mongoUri: string, dbName: string = 'aura'): Promise<void> {
-        if (this.initialized) {
-            console.log('💾 MongoDB persistence already initialized');
-            return;
-        }
-
-        await database.connect({
-            uri: mongoUri,
-            dbName,
-            maxRetries: 3,
-            retryDelay: 1000
-        });
-
-        this.initialized = true;
-        console.log('💾 MongoDB persistence service ready');
-    }
+    private echoes = persistence.repository<Stored<IEcho>>(Echo);
+    private messages = persistence.repository<Stored<IMessage>>(Message);
+    private litStars = persistence.repository<Stored<ILitStar>>(LitStar);
+    private players = persistence.repository<Stored<IPlayer>>(Player);
+    private friendships = persistence.repository<Stored<IFriendship>>(Friendship);
 
     /**
-     * Check if service is ready
+     * Whether MongoDB is connected. Everything here works on any backend;
+     * services that still use their models directly check this first.
      */
     isReady(): boolean {
-        return this.initialized && database.getConnectionStatus();
-    }
-
-    /**
-     * Shutdown the service
-     */
-    async shutdown(): Promise<void> {
-        await database.disconnect();
-        this.initialized = false;
-        console.log('💾 MongoDB persistence service shut down');
+        return persistence.usesMongo();
     }
 
     /**
@@ -120,7 +126,7 @@ export class MongoPersistenceService {
      * Create a new echo
      */
     async createEcho(data: EchoData): Promise<EchoData> {
-        const echo = new Echo({
+        const echo = await this.echoes.insert({
             echoId: data.id,
             x: data.x,
             y: data.y,
@@ -133,79 +139,36 @@ export class MongoPersistenceService {
             ignited: 0
         });
 
-        await echo.save();
         console.log(`📢 Echo created: "${data.text.substring(0, 30)}..." in ${data.realm}`);
 
-        return {
-            id: echo.echoId,
-            x: echo.x,
-            y: echo.y,
-            text: echo.text,
-            hue: echo.hue,
-            name: echo.authorName,
-            realm: echo.realm,
-            timestamp: echo.createdAt.getTime(),
-            authorId: echo.authorId,
-            votes: echo.votes
-        };
+        return toEchoData(echo);
     }
 
     /**
      * Get echoes for a specific realm
      */
     async getEchoes(realm: string, limit: number = 500): Promise<EchoData[]> {
-        const echoes = await Echo.find({ realm })
-            .sort({ createdAt: -1 })
-            .limit(limit)
-            .lean();
-
-        return echoes.map((e: any) => ({
-            id: e.echoId,
-            x: e.x,
-            y: e.y,
-            text: e.text,
-            hue: e.hue,
-            name: e.authorName,
-            realm: e.realm,
-            timestamp: e.createdAt.getTime(),
-            authorId: e.authorId,
-            votes: e.votes
-        }));
+        const echoes = await this.echoes.find({ realm }, { sort: { createdAt: -1 }, limit });
+        return echoes.map(toEchoData);
     }
 
     /**
      * Get echoes near a position (within radius)
      */
     async getEchoesNear(realm: string, x: number, y: number, radius: number): Promise<EchoData[]> {
-        const echoes = await Echo.find({
+        const echoes = await this.echoes.find({
             realm,
             x: { $gte: x - radius, $lte: x + radius },
             y: { $gte: y - radius, $lte: y + radius }
-        }).lean();
-
-        return echoes.map((e: any) => ({
-            id: e.echoId,
-            x: e.x,
-            y: e.y,
-            text: e.text,
-            hue: e.hue,
-            name: e.authorName,
-            realm: e.realm,
-            timestamp: e.createdAt.getTime(),
-            authorId: e.authorId,
-            votes: e.votes
-        }));
+        });
+        return echoes.map(toEchoData);
     }
 
     /**
      * Vote on an echo (positive = upvote, negative = downvote)
      */
     async voteEcho(echoId: string, delta: number): Promise<number> {
-        const result = await Echo.findOneAndUpdate(
-            { echoId },
-            { $inc: { votes: delta } },
-            { new: true }
-        );
+        const result = await this.echoes.update({ echoId }, { $inc: { votes: delta } });
         return result?.votes || 0;
     }
 
@@ -213,19 +176,14 @@ export class MongoPersistenceService {
      * Delete an echo
      */
     async deleteEcho(echoId: string): Promise<boolean> {
-        const result = await Echo.deleteOne({ echoId });
-        return result.deletedCount > 0;
+        return this.echoes.delete({ echoId });
     }
 
     /**
      * Increment echo ignited count
      */
     async igniteEcho(echoId: string): Promise<number> {
-        const result = await Echo.findOneAndUpdate(
-            { echoId },
-            { $inc: { ignited: 1 } },
-            { new: true }
-        );
+        const result = await this.echoes.update({ echoId }, { $inc: { ignited: 1 } });
         return result?.ignited || 0;
     }
 
@@ -233,14 +191,13 @@ export class MongoPersistenceService {
      * Get echo count per realm
      */
     async getEchoStats(): Promise<Record<string, number>> {
-        const stats = await Echo.aggregate([
-            { $group: { _id: '$realm', count: { $sum: 1 } } }
-        ]);
+        const realms: string[] = await this.echoes.distinct('realm');
+        const counts = await Promise.all(realms.map(realm => this.echoes.count({ realm })));
 
         const result: Record<string, number> = {};
-        for (const stat of stats) {
-            result[stat._id] = stat.count;
-        }
+        realms.forEach((realm, i) => {
+            result[realm] = counts[i];
+        });
         return result;
     }
 
@@ -252,7 +209,7 @@ export class MongoPersistenceService {
      * Save a message/whisper
      */
     async saveMessage(data: MessageData): Promise<MessageData> {
-        const message = new Message({
+        const message = await this.messages.insert({
             messageId: data.id,
             fromId: data.fromId,
             fromName: data.fromName,
@@ -266,7 +223,6 @@ export class MongoPersistenceService {
             delivered: false
         });
 
-        await message.save();
         return {
             ...data,
             timestamp: message.createdAt.getTime()
@@ -277,64 +233,35 @@ export class MongoPersistenceService {
      * Get message history for a player
      */
     async getMessageHistory(playerId: string, limit: number = 50): Promise<MessageData[]> {
-        const messages = await Message.find({
-            $or: [{ fromId: playerId }, { toId: playerId }]
-        })
-            .sort({ createdAt: -1 })
-            .limit(limit)
-            .lean();
-
-        return messages.map(m => ({
-            id: m.messageId,
-            fromId: m.fromId,
-            fromName: m.fromName,
-            toId: m.toId,
-            toName: m.toName,
-            text: m.text,
-            x: m.x,
-            y: m.y,
-            realm: m.realm,
-            type: m.type,
-            timestamp: m.createdAt.getTime()
-        }));
+        const messages = await this.messages.find(
+            { $or: [{ fromId: playerId }, { toId: playerId }] },
+            { sort: { createdAt: -1 }, limit }
+        );
+
+        return messages.map(toMessageData);
     }
 
     /**
      * Get conversation between two players
      */
     async getConversation(player1Id: string, player2Id: string, limit: number = 50): Promise<MessageData[]> {
-        const messages = await Message.find({
+        const messages = await this.messages.find({
             $or: [
                 { fromId: player1Id, toId: player2Id },
                 { fromId: player2Id, toId: player1Id }
             ]
-        })
-            .sort({ createdAt: -1 })
-            .limit(limit)
-            .lean();
-
-        return messages.map((m: any) => ({
-            id: m.messageId,
-            fromId: m.fromId,
-            fromName: m.fromName,
-            toId: m.toId,
-            toName: m.toName,
-            text: m.text,
-            x: m.x,
-            y: m.y,
-            realm: m.realm,
-            type: m.type,
-            timestamp: m.createdAt.getTime()
-        }));
+        }, { sort: { createdAt: -1 }, limit });
+
+        return messages.map(toMessageData);
     }
 
     /**
      * Mark messages as delivered
      */
     async markMessagesDelivered(messageIds: string[]): Promise<void> {
-        await Message.updateMany(
+        await this.messages.updateMany(
             { messageId: { $in: messageIds } },
-            { delivered: true }
+            { $set: { delivered: true } }
         );
     }
 
@@ -342,26 +269,12 @@ export class MongoPersistenceService {
      * Get undelivered messages for a player
      */
     async getUndeliveredMessages(playerId: string): Promise<MessageData[]> {
-        const messages = await Message.find({
-            toId: playerId,
-            delivered: false
-        })
-            .sort({ createdAt: 1 })
-            .lean();
-
-        return messages.map((m: any) => ({
-            id: m.messageId,
-            fromId: m.fromId,
-            fromName: m.fromName,
-            toId: m.toId,
-            toName: m.toName,
-            text: m.text,
-            x: m.x,
-            y: m.y,
-            realm: m.realm,
-            type: m.type,
-            timestamp: m.createdAt.getTime()
-        }));
+        const messages = await this.messages.find(
+            { toId: playerId, delivered: false },
+            { sort: { createdAt: 1 } }
+        );
+
+        return messages.map(toMessageData);
     }
 
     // ============================================
@@ -372,9 +285,9 @@ export class MongoPersistenceService {
      * Mark a star as lit
      */
     async litStar(starId: string, realm: string, playerId: string): Promise<void> {
-        await LitStar.findOneAndUpdate(
+        await this.litStars.update(
             { starId },
-            { starId, realm, litBy: playerId, litAt: new Date() },
+            { $set: { realm, litBy: playerId, litAt: new Date() } },
             { upsert: true }
         );
     }
@@ -383,7 +296,7 @@ export class MongoPersistenceService {
      * Check if a star is lit
      */
     async isStarLit(starId: string): Promise<boolean> {
-        const star = await LitStar.findOne({ starId }).lean();
+        const star = await this.litStars.findOne({ starId });
         return !!star;
     }
 
@@ -392,8 +305,8 @@ export class MongoPersistenceService {
      */
     async getLitStars(realm?: string): Promise<string[]> {
         const query = realm ? { realm } : {};
-        const stars = await LitStar.find(query).select('starId').lean();
-        return stars.map((s: any) => s.starId);
+        const stars = await this.litStars.find(query, { fields: ['starId'] });
+        return stars.map(s => s.starId);
     }
 
     /**
@@ -401,7 +314,7 @@ export class MongoPersistenceService {
      */
     async getLitStarCount(realm?: string): Promise<number> {
         const query = realm ? { realm } : {};
-        return await LitStar.countDocuments(query);
+        return this.litStars.count(query);
     }
 
     // ============================================
@@ -412,10 +325,10 @@ export class MongoPersistenceService {
      * Get or create player
      */
     async getOrCreatePlayer(playerId: string, name?: string): Promise<PlayerData> {
-        let player: any = await Player.findOne({ playerId: playerId }).lean();
+        let player = await this.players.findOne({ playerId: playerId });
 
         if (!player) {
-            const newPlayer = new Player({
+            player = await this.players.insert({
                 playerId: playerId,
                 name: name || 'Wanderer',
                 hue: Math.floor(Math.random() * 360),
@@ -432,8 +345,6 @@ export class MongoPersistenceService {
                 achievements: [],
                 lastSeen: new Date()
             });
-            await newPlayer.save();
-            player = newPlayer.toObject();
         }
 
         return {
@@ -480,9 +391,9 @@ export class MongoPersistenceService {
         if (updates.lastRealm !== undefined) updateData.lastRealm = updates.lastRealm;
         if (updates.lastPosition !== undefined) updateData.lastPosition = updates.lastPosition;
 
-        await Player.findOneAndUpdate(
+        await this.players.update(
             { playerId: playerId },
-            updateData,
+            { $set: updateData },
             { upsert: true }
         );
     }
@@ -512,9 +423,9 @@ export class MongoPersistenceService {
         if (stats.whispersSent) inc.whispersSent = stats.whispersSent;
         if (stats.connections) inc.connections = stats.connections;
 
-        await Player.findOneAndUpdate(
+        await this.players.update(
             { playerId: playerId },
-            { $inc: inc, lastSeen: new Date() }
+            { $inc: inc, $set: { lastSeen: new Date() } }
         );
     }
 
@@ -522,7 +433,7 @@ export class MongoPersistenceService {
      * Add achievement to player
      */
     async addAchievement(playerId: string, achievementId: string): Promise<void> {
-        await Player.findOneAndUpdate(
+        await this.players.update(
             { playerId: playerId },
             { $addToSet: { achievements: achievementId } }
         );
@@ -533,12 +444,9 @@ export class MongoPersistenceService {
      */
     async getLeaderboard(sortBy: 'xp' | 'stars' | 'echoesCreated' = 'xp', limit: number = 10): Promise<PlayerData[]> {
         const sortField = sortBy === 'echoesCreated' ? 'echoesCreated' : sortBy;
-        const players = await Player.find()
-            .sort({ [sortField]: -1 })
-            .limit(limit)
-            .lean();
+        const players = await this.players.find({}, { sort: { [sortField]: -1 }, limit });
 
-        return players.map((p: any) => ({
+        return players.map(p => ({
             id: p.playerId,
             name: p.name,
             hue: p.hue,
@@ -565,9 +473,9 @@ export class MongoPersistenceService {
      */
     async addFriend(playerId: string, friendId: string, friendName: string): Promise<boolean> {
         try {
-            await Friendship.findOneAndUpdate(
+            await this.friendships.update(
                 { playerId, friendId },
-                { playerId, friendId, friendName },
+                { $set: { friendName } },
                 { upsert: true }
             );
             console.log(`👥 ${playerId} added ${friendName} as friend`);
@@ -583,8 +491,7 @@ export class MongoPersistenceService {
      */
     async removeFriend(playerId: string, friendId: string): Promise<boolean> {
         try {
-            const result = await Friendship.deleteOne({ playerId, friendId });
-            return result.deletedCount > 0;
+            return await this.friendships.delete({ playerId, friendId });
         } catch (error) {
             console.error('Failed to remove friend:', error);
             return false;
@@ -596,8 +503,8 @@ export class MongoPersistenceService {
      */
     async getFriends(playerId: string): Promise<{ friendId: string; friendName: string }[]> {
         try {
-            const friends = await Friendship.find({ playerId }).lean();
-            return friends.map((f: any) => ({
+            const friends = await this.friendships.find({ playerId });
+            return friends.map(f => ({
                 friendId: f.friendId,
                 friendName: f.friendName
             }));
@@ -612,7 +519,7 @@ export class MongoPersistenceService {
      */
     async areFriends(playerId: string, friendId: string): Promise<boolean> {
         try {
-            const friendship = await Friendship.findOne({ playerId, friendId }).lean();
+            const friendship = await this.friendships.findOne({ playerId, friendId });
             return !!friendship;
         } catch (error) {
             console.error('Failed to check friendship:', error);
@@ -625,15 +532,13 @@ export class MongoPersistenceService {
      */
     async litStarsBatch(starIds: string[], realm: string, playerId: string): Promise<number> {
         try {
-            const operations = starIds.map(starId => ({
-                updateOne: {
-                    filter: { starId },
-                    update: { starId, realm, litBy: playerId, litAt: new Date() },
-                    upsert: true
-                }
-            }));
-            const result = await LitStar.bulkWrite(operations);
-            return result.upsertedCount + result.modifiedCount;
+            const litAt = new Date();
+            await Promise.all(starIds.map(starId => this.litStars.update(
+                { starId },
+                { $set: { realm, litBy: playerId, litAt } },
+                { upsert: true }
+            )));
+            return starIds.length;
         } catch (error) {
             console.error('Failed to batch light stars:', error);
             return 0;
@@ -652,15 +557,15 @@ export class MongoPersistenceService {
                 litStarCount,
                 friendshipCount
             ] = await Promise.all([
-                Player.countDocuments(),
-                Echo.countDocuments(),
-                Message.countDocuments(),
+                this.players.count(),
+                this.echoes.count(),
+                this.messages.count(),
                 Promise.resolve(0), // Star count (static assets, not fully in DB yet unless lit)
-                LitStar.countDocuments(),
-                Friendship.countDocuments()
+                this.litStars.count(),
+                this.friendships.count()
             ]);
 
-            const recentPlayers = await Player.countDocuments({
+            const recentPlayers = await this.players.count({
                 lastSeen: { $gte: new Date(Date.now() - 24 * 60 * 60 * 1000) }
             });
 
@@ -676,8 +581,8 @@ export class MongoPersistenceService {
                     friendships: friendshipCount
                 },
                 dbStatus: {
-                    connected: this.initialized,
-                    type: 'MongoDB'
+                    connected: persistence.isReady(),
+                    type: persistence.kind === 'mongo' ? 'MongoDB' : 'In-memory'
                 }
             };
         } catch (error) {
@@ -0,0 +1,110 @@
+// =============================================================================
+// MysteryBoxService Tests - paid rolls, pity, the roll log and replays
+// =============================================================================
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MysteryBoxService } from './MysteryBoxService.js';
+import type { LootRollRecord } from './MysteryBoxService.js';
+import { LedgerService } from './LedgerService.js';
+import type { LootContent } from './LootTables.js';
+import { LootRoll, LootContentVersion } from '../database/lootModels.js';
+import { LedgerEntry, LedgerAccount } from '../database/ledgerModels.js';
+import { Progression } from '../database/progressionModels.js';
+import { Guild } from '../database/guildModels.js';
+import { MemoryRepository } from '../persistence/index.js';
+
+const content: LootContent = {
+    boxes: [{
+        id: 'star',
+        name: 'Star Box',
+        stardustCost: 100,
+        crystalCost: 0,
+        table: 'star_box',
+        pity: { threshold: 2, minRarity: 'rare' }
+    }],
+    tables: [{
+        id: 'star_box',
+        entries: [
+            { weight: 100000, reward: { type: 'stardust', value: 10, rarity: 'common' } },
+            { weight: 1, reward: { type: 'cosmetic', value: 'trail_a', rarity: 'rare' } },
+            { weight: 1, reward: { type: 'cosmetic', value: 'trail_b', rarity: 'epic' } }
+        ]
+    }]
+};
+
+describe('MysteryBoxService', () => {
+    let progressions: MemoryRepository<any>;
+    let rolls: MemoryRepository<LootRollRecord>;
+    let versions: MemoryRepository<any>;
+    let service: MysteryBoxService;
+
+    beforeEach(async () => {
+        progressions = new MemoryRepository<any>([], Progression);
+        rolls = new MemoryRepository<LootRollRecord>([], LootRoll);
+        versions = new MemoryRepository<any>([], LootContentVersion);
+        const ledger = new LedgerService({
+            entries: new MemoryRepository([], LedgerEntry),
+            accounts: new MemoryRepository([], LedgerAccount),
+            progressions,
+            guilds: new MemoryRepository([], Guild)
+        });
+        service = new MysteryBoxService({ ledger, rolls, versions, progressions });
+
+        await progressions.insert({ playerId: 'ana', stardust: 250, crystals: 0, unlockedCosmetics: ['trail_a'] });
+        expect((await service.setTables(content)).success).toBe(true);
+    });
+
+    it('charges for a box, logs the roll and counts towards pity', async () => {
+        const first = await service.openBox('ana', 'star');
+        expect(first).toMatchObject({ success: true, pityProgress: { current: 1, threshold: 2 } });
+        expect((await progressions.findOne({ playerId: 'ana' })).stardust).toBe(150);
+
+        const [logged] = await service.getRolls('ana');
+        expect(logged).toMatchObject({
+            rollId: first.rollId,
+            boxId: 'star',
+            pity: false,
+            excluded: ['trail_a'],
+            transactionId: first.purchaseId
+        });
+
+        // The second box is the pity box, and the owned trail is left out of it
+        const second = await service.openBox('ana', 'star');
+        expect(second.reward).toMatchObject({ value: 'trail_b', rarity: 'epic', isPityReward: true });
+        expect(second.pityProgress).toEqual({ current: 0, threshold: 2 });
+
+        // Out of stardust: nothing is logged and pity does not move
+        expect(await service.openBox('ana', 'star')).toMatchObject({ success: false, error: 'Insufficient stardust' });
+        expect(await rolls.count({ playerId: 'ana' })).toBe(2);
+        expect((await service.getPityProgress('ana', 'star')).current).toBe(0);
+    });
+
+    it('replays a logged roll against the content it was rolled from', async () => {
+        const opened = await service.openBox('ana', 'star');
+
+        // The tables change after the roll; the archived version still replays it
+        await service.setTables({ ...content, tables: [{ id: 'star_box', entries: [content.tables[0].entries[1]] }] });
+        const replay = await service.replayRoll(opened.rollId!);
+        expect(replay).toMatchObject({ replayable: true, matches: true });
+        expect(replay!.replayed!.reward.value).toBe(opened.reward!.value);
+
+        // A tampered log no longer matches its seed
+        await rolls.update({ rollId: opened.rollId }, { $set: { 'reward.value': 'trail_b' } });
+        expect(await service.replayRoll(opened.rollId!)).toMatchObject({ replayable: true, matches: false });
+
+        await versions.deleteMany({});
+        expect(await service.replayRoll(opened.rollId!)).toMatchObject({ replayable: false });
+        expect(await service.replayRoll('roll_missing')).toBeNull();
+    });
+
+    it('publishes odds per player with owned items left out', async () => {
+        const odds = await service.getDropRates('star', 'ana');
+        expect(odds!.personalized).toBe(true);
+        expect(odds!.odds.map(rate => rate.value)).toEqual([10, 'trail_b']);
+        expect(odds!.pity).toMatchObject({ threshold: 2, minRarity: 'rare', current: 0 });
+        expect(odds!.pity!.odds).toEqual([{ type: 'cosmetic', value: 'trail_b', rarity: 'epic', chance: 1 }]);
+
+        expect(service.getBoxConfig('star')!.odds.map(rate => rate.value)).toEqual([10, 'trail_a', 'trail_b']);
+        expect(await service.getDropRates('nope')).toBeNull();
+    });
+});
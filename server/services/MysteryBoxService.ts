@@ -1,39 +1,67 @@
 // =============================================================================
 // Mystery Box Service - Server-side loot box system
 // =============================================================================
-// Handles mystery box purchases, opening, pity system, and rewards
+// Handles mystery box opening, pity and the roll log. Boxes and what they
+// drop are loot tables (see LootTables.ts, content in server/content/loot);
+// every box opened is rolled from a fresh seed and logged with it, so a
+// disputed result can be replayed. Rewards are granted by
+// EconomyService.openMysteryBox, which is how boxes are opened.
 
 import { EventEmitter } from 'events';
+import crypto from 'crypto';
 import { mongoPersistence } from './MongoPersistenceService.js';
-
-type Rarity = 'common' | 'uncommon' | 'rare' | 'epic' | 'legendary';
-type MysteryBoxTier = 'common' | 'rare' | 'epic' | 'legendary' | 'mythic';
-
-export interface MysteryBoxReward {
-    type: 'stardust' | 'crystals' | 'cosmetic' | 'title' | 'xp_boost' | 'emote';
-    rarity: Rarity;
-    value: number | string;
-    weight: number;
-}
-
-export interface MysteryBoxConfig {
+import { ledgerService, LedgerService } from './LedgerService.js';
+import {
+    DEFAULT_LOOT_DIR,
+    LootTableSet,
+    createSeededRandom,
+    loadLootDirectory,
+    meetsRarity,
+    validateLootContent
+} from './LootTables.js';
+import type { Rarity, LootReward, LootContent, LootIssue, LootOutcome, DropRate } from './LootTables.js';
+import { LootRoll, ILootRoll, LootContentVersion, ILootContentVersion } from '../database/lootModels.js';
+import { Progression, IProgression } from '../database/progressionModels.js';
+import { persistence } from '../persistence/index.js';
+import type { Stored, Repository } from '../persistence/index.js';
+
+type MysteryBoxTier = string;
+
+export type LootRollRecord = Stored<ILootRoll>;
+type ContentVersionRecord = Stored<ILootContentVersion>;
+type ProgressionRecord = Stored<IProgression>;
+
+/** A box as players see it, odds included */
+export interface MysteryBoxInfo {
     id: MysteryBoxTier;
     name: string;
     stardustCost: number;
     crystalCost: number;
-    rewards: MysteryBoxReward[];
-    guaranteedRarity?: Rarity;
+    pity: { threshold: number; minRarity: Rarity } | null;
+    odds: DropRate[];
+    pityOdds: DropRate[] | null;
+}
+
+export interface BoxOddsResult {
+    tier: MysteryBoxTier;
+    version: string;
+    personalized: boolean;          // Owned items left out for one player
+    odds: DropRate[];
+    pity: { threshold: number; minRarity: Rarity; current: number | null; odds: DropRate[] } | null;
 }
 
 export interface BoxOpenResult {
     success: boolean;
     error?: string;
+    rollId?: string;
+    purchaseId?: string;            // Ledger transaction that paid for the box
     reward?: {
         type: string;
         rarity: Rarity;
         value: number | string;
         displayName: string;
         isPityReward: boolean;
+        isDuplicate: boolean;
     };
     pityProgress?: {
         current: number;
@@ -41,6 +69,21 @@ export interface BoxOpenResult {
     };
 }
 
+export interface RollReplay {
+    roll: LootRollRecord;
+    replayable: boolean;
+    matches: boolean;               // Replaying gives the logged reward by the logged picks
+    replayed: LootOutcome | null;
+    error?: string;
+}
+
+export interface LootReloadResult {
+    success: boolean;
+    version: string;
+    boxCount: number;
+    issues: LootIssue[];
+}
+
 export interface PlayerBoxStats {
     playerId: string;
     boxesOpened: Record<MysteryBoxTier, number>;
@@ -52,140 +95,130 @@ export interface PlayerBoxStats {
     };
     rewardsReceived: Array<{
         boxTier: MysteryBoxTier;
-        reward: MysteryBoxReward;
+        reward: LootReward;
         timestamp: number;
     }>;
 }
 
-// Box configurations
-const MYSTERY_BOXES: Record<MysteryBoxTier, MysteryBoxConfig> = {
-    common: {
-        id: 'common',
-        name: 'Common Lumina Box',
-        stardustCost: 500,
-        crystalCost: 0,
-        rewards: [
-            { type: 'stardust', rarity: 'common', value: 100, weight: 40 },
-            { type: 'stardust', rarity: 'common', value: 200, weight: 25 },
-            { type: 'xp_boost', rarity: 'common', value: 'xp_boost_30m', weight: 20 },
-            { type: 'cosmetic', rarity: 'uncommon', value: 'random_common_trail', weight: 10 },
-            { type: 'emote', rarity: 'uncommon', value: 'random_common_emote', weight: 5 },
-        ],
-    },
-    rare: {
-        id: 'rare',
-        name: 'Rare Lumina Box',
-        stardustCost: 1500,
-        crystalCost: 0,
-        rewards: [
-            { type: 'stardust', rarity: 'common', value: 300, weight: 30 },
-            { type: 'stardust', rarity: 'uncommon', value: 500, weight: 20 },
-            { type: 'xp_boost', rarity: 'uncommon', value: 'xp_boost_1h', weight: 20 },
-            { type: 'cosmetic', rarity: 'rare', value: 'random_rare_cosmetic', weight: 15 },
-            { type: 'emote', rarity: 'rare', value: 'random_rare_emote', weight: 10 },
-            { type: 'crystals', rarity: 'rare', value: 50, weight: 5 },
-        ],
-        guaranteedRarity: 'uncommon',
-    },
-    epic: {
-        id: 'epic',
-        name: 'Epic Lumina Box',
-        stardustCost: 5000,
-        crystalCost: 250,
-        rewards: [
-            { type: 'stardust', rarity: 'uncommon', value: 750, weight: 25 },
-            { type: 'stardust', rarity: 'rare', value: 1000, weight: 15 },
-            { type: 'cosmetic', rarity: 'epic', value: 'random_epic_cosmetic', weight: 25 },
-            { type: 'emote', rarity: 'epic', value: 'random_epic_emote', weight: 15 },
-            { type: 'crystals', rarity: 'epic', value: 100, weight: 10 },
-            { type: 'title', rarity: 'epic', value: 'random_epic_title', weight: 10 },
-        ],
-        guaranteedRarity: 'rare',
-    },
-    legendary: {
-        id: 'legendary',
-        name: 'Legendary Lumina Box',
-        stardustCost: 15000,
-        crystalCost: 750,
-        rewards: [
-            { type: 'stardust', rarity: 'rare', value: 2000, weight: 20 },
-            { type: 'cosmetic', rarity: 'legendary', value: 'random_legendary_cosmetic', weight: 30 },
-            { type: 'emote', rarity: 'legendary', value: 'random_legendary_emote', weight: 15 },
-            { type: 'crystals', rarity: 'legendary', value: 300, weight: 15 },
-            { type: 'title', rarity: 'legendary', value: 'random_legendary_title', weight: 15 },
-            { type: 'cosmetic', rarity: 'legendary', value: 'legendary_set_piece', weight: 5 },
-        ],
-        guaranteedRarity: 'epic',
-    },
-    mythic: {
-        id: 'mythic',
-        name: 'Mythic Lumina Box',
-        stardustCost: 0,
-        crystalCost: 2000,
-        rewards: [
-            { type: 'cosmetic', rarity: 'legendary', value: 'random_mythic_cosmetic', weight: 35 },
-            { type: 'crystals', rarity: 'legendary', value: 500, weight: 20 },
-            { type: 'title', rarity: 'legendary', value: 'mythic_title', weight: 15 },
-            { type: 'cosmetic', rarity: 'legendary', value: 'complete_mythic_set', weight: 10 },
-            { type: 'cosmetic', rarity: 'legendary', value: 'exclusive_mythic_aura', weight: 10 },
-            { type: 'crystals', rarity: 'legendary', value: 1000, weight: 10 },
-        ],
-        guaranteedRarity: 'legendary',
-    },
-};
-
-// Pity system thresholds
-const PITY_THRESHOLDS: Record<MysteryBoxTier, { threshold: number; guaranteedRarity: Rarity }> = {
-    common: { threshold: 10, guaranteedRarity: 'rare' },
-    rare: { threshold: 15, guaranteedRarity: 'epic' },
-    epic: { threshold: 20, guaranteedRarity: 'legendary' },
-    legendary: { threshold: 10, guaranteedRarity: 'legendary' },
-    mythic: { threshold: 5, guaranteedRarity: 'legendary' },
-};
-
-// Cosmetic pools for random rewards
-const COSMETIC_POOLS: Record<Rarity, string[]> = {
-    common: ['trail_basic_1', 'trail_basic_2', 'color_pastel_1', 'color_pastel_2'],
-    uncommon: ['trail_shimmer', 'trail_sparkle', 'aura_soft_glow', 'frame_basic'],
-    rare: ['trail_rainbow', 'trail_stardust', 'aura_pulsing', 'frame_ornate', 'companion_spark'],
-    epic: ['trail_cosmic', 'trail_nebula', 'aura_ethereal', 'frame_golden', 'companion_wisp'],
-    legendary: ['trail_aurora', 'trail_void', 'aura_legendary', 'frame_diamond', 'companion_phoenix'],
-};
-
-const EMOTE_POOLS: Record<Rarity, string[]> = {
-    common: ['wave', 'nod', 'spin'],
-    uncommon: ['dance', 'bow', 'cheer'],
-    rare: ['fireworks', 'hearts', 'stars'],
-    epic: ['explosion', 'rainbow', 'galaxy'],
-    legendary: ['cosmic_dance', 'supernova', 'transcend'],
-};
-
-const TITLE_POOLS: Record<Rarity, string[]> = {
-    common: [],
-    uncommon: [],
-    rare: ['Wanderer', 'Seeker', 'Dreamer'],
-    epic: ['Stargazer', 'Cosmic Traveler', 'Light Bearer'],
-    legendary: ['Celestial', 'Eternal', 'Transcendent'],
-};
+function generateId(prefix: string): string {
+    return `${prefix}_${crypto.randomBytes(8).toString('hex')}`;
+}
 
 class MysteryBoxService extends EventEmitter {
     private playerStats: Map<string, PlayerBoxStats> = new Map();
+    private tables = new LootTableSet();
+    private lootDir: string;
+    private ledger: LedgerService;
+    private rolls: Repository<LootRollRecord>;
+    private versions: Repository<ContentVersionRecord>;
+    private progressions: Repository<ProgressionRecord>;
+
+    constructor(options: {
+        lootDir?: string;
+        ledger?: LedgerService;
+        rolls?: Repository<LootRollRecord>;
+        versions?: Repository<ContentVersionRecord>;
+        progressions?: Repository<ProgressionRecord>;
+    } = {}) {
+        super();
+        this.lootDir = options.lootDir || DEFAULT_LOOT_DIR;
+        this.ledger = options.ledger || ledgerService;
+        this.rolls = options.rolls || persistence.repository<LootRollRecord>(LootRoll);
+        this.versions = options.versions || persistence.repository<ContentVersionRecord>(LootContentVersion);
+        this.progressions = options.progressions || persistence.repository<ProgressionRecord>(Progression);
+    }
 
     async initialize(): Promise<void> {
         console.log('📦 Mystery Box Service initializing...');
-        console.log('📦 Mystery Box Service initialized');
+        const result = await this.reloadTables();
+        if (!result.success) {
+            console.error(`📦 Loot content in ${this.lootDir} has ${result.issues.length} issue(s); no boxes loaded`);
+        }
+        console.log(`📦 Mystery Box Service initialized (${this.tables.boxCount} boxes, loot ${this.tables.version})`);
+    }
+
+    // =========================================================================
+    // Loot Content
+    // =========================================================================
+
+    /**
+     * Re-read the loot content directory. The current tables stay in place
+     * unless the new content validates cleanly.
+     */
+    async reloadTables(): Promise<LootReloadResult> {
+        const loaded = await loadLootDirectory(this.lootDir);
+        if (loaded.issues.length > 0) {
+            for (const issue of loaded.issues) {
+                console.error(`[Loot] ${issue.file || this.lootDir}${issue.id ? ` (${issue.id})` : ''}: ${issue.message}`);
+            }
+            return { success: false, version: this.tables.version, boxCount: this.tables.boxCount, issues: loaded.issues };
+        }
+        return this.setTables(loaded.content);
+    }
+
+    /**
+     * Replace the tables with the given content if it validates, keeping a
+     * copy of it under its version for replays
+     */
+    async setTables(content: LootContent): Promise<LootReloadResult> {
+        const issues = validateLootContent(content);
+        if (issues.length === 0) {
+            this.tables = new LootTableSet(content);
+            await this.versions.update(
+                { version: this.tables.version },
+                { $setOnInsert: { version: this.tables.version, content, createdAt: new Date() } },
+                { upsert: true }
+            );
+        }
+        return { success: issues.length === 0, version: this.tables.version, boxCount: this.tables.boxCount, issues };
     }
 
     // =========================================================================
     // Box Operations
     // =========================================================================
 
-    getBoxConfig(tier: MysteryBoxTier): MysteryBoxConfig | null {
-        return MYSTERY_BOXES[tier] || null;
+    getBoxConfig(tier: MysteryBoxTier): MysteryBoxInfo | null {
+        const box = this.tables.box(tier);
+        if (!box) return null;
+
+        return {
+            id: box.id,
+            name: box.name,
+            stardustCost: box.stardustCost,
+            crystalCost: box.crystalCost,
+            pity: box.pity || null,
+            odds: this.tables.boxOdds(box.id),
+            pityOdds: box.pity ? this.tables.boxOdds(box.id, { pity: true }) : null
+        };
+    }
+
+    getAllBoxConfigs(): MysteryBoxInfo[] {
+        return this.tables.allBoxes().map(box => this.getBoxConfig(box.id)!);
     }
 
-    getAllBoxConfigs(): MysteryBoxConfig[] {
-        return Object.values(MYSTERY_BOXES);
+    /**
+     * The published drop rates of a box, computed from the tables it rolls.
+     * With a player, owned items are left out the way their next roll
+     * would leave them out.
+     */
+    async getDropRates(tier: MysteryBoxTier, playerId?: string): Promise<BoxOddsResult | null> {
+        const box = this.tables.box(tier);
+        if (!box) return null;
+
+        const owned = playerId ? await this.getOwnedItems(playerId, tier) : undefined;
+        const current = playerId ? (await this.getPlayerStats(playerId)).pityCounters[tier] || 0 : null;
+
+        return {
+            tier,
+            version: this.tables.version,
+            personalized: !!playerId,
+            odds: this.tables.boxOdds(tier, { owned }),
+            pity: box.pity ? {
+                ...box.pity,
+                current,
+                odds: this.tables.boxOdds(tier, { pity: true, owned })
+            } : null
+        };
     }
 
     /**
@@ -196,7 +229,7 @@ class MysteryBoxService extends EventEmitter {
         playerStardust: number,
         playerCrystals: number
     ): { canAfford: boolean; stardustNeeded: number; crystalsNeeded: number } {
-        const config = MYSTERY_BOXES[tier];
+        const config = this.tables.box(tier);
         if (!config) {
             return { canAfford: false, stardustNeeded: 0, crystalsNeeded: 0 };
         }
@@ -212,147 +245,113 @@ class MysteryBoxService extends EventEmitter {
     }
 
     /**
-     * Open a mystery box (after payment is processed externally)
+     * Roll a box, charge for it and log the roll. Pity and stats only move
+     * once the player has paid.
      */
     async openBox(playerId: string, tier: MysteryBoxTier): Promise<BoxOpenResult> {
-        const config = MYSTERY_BOXES[tier];
+        const config = this.tables.box(tier);
         if (!config) {
             return { success: false, error: 'Invalid box tier' };
         }
 
         const stats = await this.getPlayerStats(playerId);
-        
-        // Increment counters
-        stats.boxesOpened[tier] = (stats.boxesOpened[tier] || 0) + 1;
-        stats.pityCounters[tier] = (stats.pityCounters[tier] || 0) + 1;
-        stats.lastOpenTime = Date.now();
-        stats.totalSpent.stardust += config.stardustCost;
-        stats.totalSpent.crystals += config.crystalCost;
+        const pityCount = (stats.pityCounters[tier] || 0) + 1;
+        const isPityReward = !!config.pity && pityCount >= config.pity.threshold;
+
+        const owned = await this.getOwnedItems(playerId, tier);
+        const seed = crypto.randomBytes(16).toString('hex');
+        const outcome = this.tables.open(tier, createSeededRandom(seed), { pity: isPityReward, owned });
+        if (!outcome) {
+            return { success: false, error: 'Box has nothing to roll' };
+        }
 
-        // Check pity system
-        const pity = PITY_THRESHOLDS[tier];
-        const isPityReward = stats.pityCounters[tier] >= pity.threshold;
-        
-        // Roll for reward
-        let reward: MysteryBoxReward;
-        if (isPityReward) {
-            // Guaranteed high rarity reward
-            reward = this.rollRewardWithMinRarity(config.rewards, pity.guaranteedRarity);
-            stats.pityCounters[tier] = 0; // Reset pity counter
-        } else {
-            reward = this.rollReward(config.rewards);
+        const rollId = generateId('roll');
+        const reward = outcome.reward;
+        const payment = await this.ledger.charge(playerId, {
+            stardust: config.stardustCost,
+            crystals: config.crystalCost
+        }, {
+            source: 'shop',
+            reason: 'mystery_box',
+            metadata: { itemType: 'mystery_box', itemId: tier, rollId, rewards: [reward] }
+        });
+        if (!payment.success) {
+            return { success: false, error: payment.error };
         }
 
-        // Resolve random values
-        const resolvedValue = this.resolveRandomValue(reward);
-        const displayName = this.getDisplayName(reward.type, resolvedValue, reward.rarity);
+        try {
+            await this.rolls.insert({
+                rollId,
+                playerId,
+                boxId: tier,
+                contentVersion: this.tables.version,
+                seed,
+                pity: isPityReward,
+                pityCount,
+                excluded: Array.from(owned),
+                steps: outcome.steps,
+                reward,
+                duplicate: outcome.duplicate,
+                transactionId: payment.transactionId!,
+                createdAt: new Date()
+            });
+        } catch (error) {
+            console.error('Failed to log mystery box roll:', error);
+        }
 
-        // Record reward
-        stats.rewardsReceived.push({
-            boxTier: tier,
-            reward: { ...reward, value: resolvedValue },
-            timestamp: Date.now()
-        });
+        // The count runs until a reward of the pity rarity, by luck or by pity
+        const reachedPity = !!config.pity && (isPityReward || meetsRarity(reward.rarity, config.pity.minRarity));
+        stats.boxesOpened[tier] = (stats.boxesOpened[tier] || 0) + 1;
+        stats.pityCounters[tier] = reachedPity ? 0 : pityCount;
+        stats.lastOpenTime = Date.now();
+        stats.totalSpent.stardust += config.stardustCost;
+        stats.totalSpent.crystals += config.crystalCost;
+        stats.rewardsReceived.push({ boxTier: tier, reward, timestamp: Date.now() });
 
         // Keep only last 100 rewards in memory
         if (stats.rewardsReceived.length > 100) {
             stats.rewardsReceived = stats.rewardsReceived.slice(-100);
         }
 
-        // Persist
         await this.persistPlayerStats(stats);
 
-        // Emit event
         this.emit('box_opened', {
             playerId,
             tier,
-            reward: { ...reward, value: resolvedValue },
+            rollId,
+            reward,
             isPityReward
         });
 
         return {
             success: true,
+            rollId,
+            purchaseId: payment.transactionId,
             reward: {
                 type: reward.type,
                 rarity: reward.rarity,
-                value: resolvedValue,
-                displayName,
-                isPityReward
+                value: reward.value,
+                displayName: this.getDisplayName(reward.type, reward.value, reward.rarity),
+                isPityReward,
+                isDuplicate: outcome.duplicate
             },
             pityProgress: {
                 current: stats.pityCounters[tier],
-                threshold: pity.threshold
+                threshold: config.pity?.threshold || 0
             }
         };
     }
 
     /**
-     * Roll a random reward based on weights
+     * Owned cosmetics, emotes and titles that a box could otherwise drop
      */
-    private rollReward(rewards: MysteryBoxReward[]): MysteryBoxReward {
-        const totalWeight = rewards.reduce((sum, r) => sum + r.weight, 0);
-        let roll = Math.random() * totalWeight;
-        
-        for (const reward of rewards) {
-            roll -= reward.weight;
-            if (roll <= 0) {
-                return reward;
-            }
-        }
-        
-        return rewards[rewards.length - 1];
-    }
+    private async getOwnedItems(playerId: string, tier: MysteryBoxTier): Promise<Set<string>> {
+        const box = this.tables.box(tier);
+        const progression = await this.progressions.findOne({ playerId });
+        if (!box || !progression) return new Set();
 
-    /**
-     * Roll reward with minimum rarity (for pity system)
-     */
-    private rollRewardWithMinRarity(rewards: MysteryBoxReward[], minRarity: Rarity): MysteryBoxReward {
-        const rarityOrder: Rarity[] = ['common', 'uncommon', 'rare', 'epic', 'legendary'];
-        const minIndex = rarityOrder.indexOf(minRarity);
-        
-        const filteredRewards = rewards.filter(r => 
-            rarityOrder.indexOf(r.rarity) >= minIndex
-        );
-        
-        if (filteredRewards.length === 0) {
-            // Fallback to any reward
-            return this.rollReward(rewards);
-        }
-        
-        return this.rollReward(filteredRewards);
-    }
-
-    /**
-     * Resolve random value strings to actual items
-     */
-    private resolveRandomValue(reward: MysteryBoxReward): string | number {
-        if (typeof reward.value === 'number') {
-            return reward.value;
-        }
-
-        const value = reward.value;
-        
-        // Handle random cosmetics
-        if (value.startsWith('random_') && value.includes('cosmetic')) {
-            const pool = COSMETIC_POOLS[reward.rarity] || COSMETIC_POOLS.common;
-            return pool[Math.floor(Math.random() * pool.length)];
-        }
-        
-        // Handle random emotes
-        if (value.startsWith('random_') && value.includes('emote')) {
-            const pool = EMOTE_POOLS[reward.rarity] || EMOTE_POOLS.common;
-            return pool[Math.floor(Math.random() * pool.length)];
-        }
-        
-        // Handle random titles
-        if (value.startsWith('random_') && value.includes('title')) {
-            const pool = TITLE_POOLS[reward.rarity] || [];
-            if (pool.length > 0) {
-                return pool[Math.floor(Math.random() * pool.length)];
-            }
-        }
-        
-        return value;
+        const droppable = this.tables.collectibles(box.table);
+        return new Set((progression.unlockedCosmetics || []).filter(item => droppable.has(item)));
     }
 
     /**
@@ -369,6 +368,50 @@ class MysteryBoxService extends EventEmitter {
         return `${rarity} Reward`;
     }
 
+    // =========================================================================
+    // Roll Log
+    // =========================================================================
+
+    async getRolls(playerId: string, limit: number = 50): Promise<LootRollRecord[]> {
+        return this.rolls.find({ playerId }, { sort: { createdAt: -1 }, limit });
+    }
+
+    async getRoll(rollId: string): Promise<LootRollRecord | null> {
+        return this.rolls.findOne({ rollId });
+    }
+
+    /**
+     * Roll a logged box again from its seed, against the content it was
+     * rolled from, and compare with what was logged
+     */
+    async replayRoll(rollId: string): Promise<RollReplay | null> {
+        const roll = await this.rolls.findOne({ rollId });
+        if (!roll) return null;
+
+        let tables: LootTableSet | null = this.tables;
+        if (roll.contentVersion !== this.tables.version) {
+            const archived = await this.versions.findOne({ version: roll.contentVersion });
+            tables = archived ? new LootTableSet(archived.content as LootContent) : null;
+        }
+        if (!tables) {
+            return { roll, replayable: false, matches: false, replayed: null, error: `Loot content ${roll.contentVersion} is not archived` };
+        }
+
+        const replayed = tables.open(roll.boxId, createSeededRandom(roll.seed), {
+            pity: roll.pity,
+            owned: new Set(roll.excluded)
+        });
+        const matches = !!replayed
+            && replayed.duplicate === roll.duplicate
+            && replayed.reward.type === roll.reward.type
+            && replayed.reward.value === roll.reward.value
+            && replayed.reward.rarity === roll.reward.rarity
+            && replayed.steps.length === roll.steps.length
+            && replayed.steps.every((step, i) => step.table === roll.steps[i].table && step.entry === roll.steps[i].entry);
+
+        return { roll, replayable: true, matches, replayed };
+    }
+
     // =========================================================================
     // Player Stats
     // =========================================================================
@@ -412,13 +455,13 @@ class MysteryBoxService extends EventEmitter {
         percentage: number;
     }> {
         const stats = await this.getPlayerStats(playerId);
-        const pity = PITY_THRESHOLDS[tier];
+        const threshold = this.tables.box(tier)?.pity?.threshold || 0;
         const current = stats.pityCounters[tier] || 0;
         
         return {
             current,
-            threshold: pity.threshold,
-            percentage: Math.round((current / pity.threshold) * 100)
+            threshold,
+            percentage: threshold > 0 ? Math.round((current / threshold) * 100) : 0
         };
     }
 
@@ -0,0 +1,165 @@
+// =============================================================================
+// NotificationService Tests - inbox, offline delivery, collapse, quiet hours, digest
+// =============================================================================
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { NotificationService } from './NotificationService.js';
+import { RepositoryNotificationStore, InboxNotification, NotificationPrefs } from './NotificationStore.js';
+import { MemoryBackend, MemoryRepository } from '../persistence/index.js';
+
+const HOUR = 60 * 60 * 1000;
+const NOON = Date.UTC(2026, 0, 15, 12, 0, 0);
+
+describe('NotificationService', () => {
+    let store: RepositoryNotificationStore;
+    let now: number;
+    let service: NotificationService;
+    let pushed: Array<{ playerId: string; notification: any }>;
+    let deliveries: Array<{ playerId: string; inbox: any }>;
+
+    function createService(): NotificationService {
+        const created = new NotificationService({ store, now: () => now });
+        created.on('notification', event => pushed.push(event));
+        created.on('inbox_delivery', event => deliveries.push(event));
+        return created;
+    }
+
+    beforeEach(() => {
+        store = new RepositoryNotificationStore({
+            inbox: new MemoryRepository<any>([], InboxNotification),
+            prefs: new MemoryRepository<any>([], NotificationPrefs)
+        });
+        now = NOON;
+        pushed = [];
+        deliveries = [];
+        service = createService();
+    });
+
+    it('keeps notifications for offline players and delivers them a page at a time on connect', async () => {
+        for (let i = 0; i < 25; i++) {
+            now += 1000;
+            await service.post('offline', 'friend_request', `Request ${i}`, { fromId: `friend_${i}` });
+        }
+        expect(pushed).toEqual([]);
+
+        // A restart loses nothing: a fresh service over the same store delivers it
+        service = createService();
+        await service.setPlayerOnline('offline');
+
+        expect(deliveries).toHaveLength(1);
+        const { inbox } = deliveries[0];
+        expect(inbox.notifications).toHaveLength(20);
+        expect(inbox.notifications[0].message).toBe('Request 24');
+        expect(inbox).toMatchObject({ total: 25, unread: 25, nextOffset: 20 });
+
+        const rest = await service.getInbox('offline', { offset: 20 });
+        expect(rest.notifications.map(n => n.message)).toEqual(['Request 4', 'Request 3', 'Request 2', 'Request 1', 'Request 0']);
+        expect(rest.nextOffset).toBeNull();
+    });
+
+    it('collapses repeated friend online notifications into one', async () => {
+        await service.setPlayerOnline('popular');
+        for (let i = 0; i < 5; i++) {
+            now += 60 * 1000;
+            await service.post('popular', 'friend_online', `Friend ${i} is now online!`, { friendId: `f${i}` });
+        }
+
+        const inbox = await service.getInbox('popular');
+        expect(inbox.total).toBe(1);
+        expect(inbox.notifications[0]).toMatchObject({ message: '5 friends came online', count: 5 });
+        // The running notification is re-pushed under the same id
+        expect(new Set(pushed.map(p => p.notification.id)).size).toBe(1);
+
+        // Once read, the next one starts fresh
+        await service.markAllAsRead('popular');
+        await service.post('popular', 'friend_online', 'Friend 5 is now online!', { friendId: 'f5' });
+        expect((await service.getInbox('popular')).total).toBe(2);
+    });
+
+    it('drops notifications when their type retention runs out', async () => {
+        await service.post('player', 'darkness_warning', 'Darkness approaching in 30 seconds!');
+        await service.post('player', 'gift_received', 'Nova sent you a star!', { fromId: 'nova' });
+
+        now += 11 * 60 * 1000;
+        const inbox = await service.getInbox('player');
+        expect(inbox.notifications.map(n => n.type)).toEqual(['gift_received']);
+    });
+
+    it('holds pushes during quiet hours and do-not-disturb until they end', async () => {
+        await service.setPlayerOnline('sleepy');
+        await service.updatePlayerPrefs('sleepy', { quietHours: { startHour: 22, endHour: 7 } });
+
+        now = Date.UTC(2026, 0, 15, 23, 0, 0);
+        await service.post('sleepy', 'gift_received', 'A late gift', { fromId: 'owl' });
+        expect(pushed).toEqual([]);
+
+        now = Date.UTC(2026, 0, 16, 7, 30, 0);
+        await service.runMaintenance();
+        expect(deliveries.map(d => d.inbox.notifications[0].message)).toEqual(['A late gift']);
+
+        await service.updatePlayerPrefs('sleepy', { doNotDisturb: true });
+        await service.post('sleepy', 'whisper', 'psst');
+        expect(pushed).toEqual([]);
+
+        await service.updatePlayerPrefs('sleepy', { doNotDisturb: false });
+        expect(deliveries[1].inbox.notifications[0].message).toBe('psst');
+
+        // Preferences survive a restart
+        service = createService();
+        expect((await service.loadPlayerPrefs('sleepy')).quietHours).toEqual({ startHour: 22, endHour: 7 });
+    });
+
+    it('sends offline players one daily digest of what they missed', async () => {
+        await service.post('away', 'friend_request', 'Vega sent you a friend request', { fromId: 'vega' });
+        for (let i = 0; i < 3; i++) {
+            await service.post('away', 'gift_received', `Gift ${i}`, { fromId: `g${i}` });
+        }
+        await service.post('busy', 'whisper', 'only one thing');
+
+        expect(await service.runDailyDigests()).toBe(1);
+        const inbox = await service.getInbox('away');
+        expect(inbox.notifications[0]).toMatchObject({
+            type: 'digest',
+            message: 'While you were away: 3 gifts, 1 friend request',
+            data: { total: 4 }
+        });
+
+        // Nothing new within the day
+        now += HOUR;
+        expect(await service.runDailyDigests()).toBe(0);
+    });
+
+    it('keeps inboxes and preferences in the memory backend snapshot', async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'aura-notifications-'));
+        const snapshotPath = path.join(dir, 'state.json');
+        const storeOn = (backend: MemoryBackend) => new RepositoryNotificationStore({
+            inbox: backend.repository(InboxNotification),
+            prefs: backend.repository(NotificationPrefs)
+        });
+        try {
+            const first = new MemoryBackend({ snapshotPath, snapshotIntervalMs: 60_000 });
+            await first.connect();
+            store = storeOn(first);
+            service = createService();
+            await service.post('offline', 'gift_received', 'A gift for you', { fromId: 'vega' });
+            await service.updatePlayerPrefs('offline', { doNotDisturb: true });
+            await first.disconnect();
+
+            const second = new MemoryBackend({ snapshotPath });
+            await second.connect();
+            store = storeOn(second);
+            service = createService();
+            const inbox = await service.getInbox('offline');
+            const prefs = await service.loadPlayerPrefs('offline');
+            await second.disconnect();
+
+            expect(inbox.notifications.map(n => n.message)).toEqual(['A gift for you']);
+            expect(prefs.doNotDisturb).toBe(true);
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
@@ -7,9 +7,18 @@
 // - Achievement unlocks
 // - World events
 // - System announcements
+//
+// Every notification lands in the player's inbox (NotificationStore, on the
+// configured persistence backend) and is pushed right away only when the player
+// is online and not in quiet hours. Whatever wasn't pushed is delivered on
+// their next connect, a page at a time. Each type has its own retention, some
+// types collapse into one running notification ("5 friends came online"),
+// and offline players get a daily digest of what they missed.
 // =============================================================================
 
 import { EventEmitter } from 'events';
+import { RepositoryNotificationStore } from './NotificationStore.js';
+import type { NotificationStore, StoredNotification, QuietHours } from './NotificationStore.js';
 
 export type NotificationType = 
     | 'friend_online'
@@ -33,7 +42,8 @@ export type NotificationType =
     | 'social'
     | 'achievement'
     | 'gift'
-    | 'bond';
+    | 'bond'
+    | 'digest';
 
 export interface Notification {
     id: string;
@@ -55,6 +65,31 @@ export interface PlayerNotificationPrefs {
     mutedPlayers: Set<string>;
     mutedUntil: number | null;  // Timestamp for temporary mute
     doNotDisturb: boolean;
+    quietHours: QuietHours | null;
+    lastDigestAt: number | null;
+}
+
+export interface NotifyOptions {
+    title?: string;
+    icon?: string;
+    priority?: Notification['priority'];
+    expiresIn?: number; // seconds, capped by the type's retention
+    actionUrl?: string;
+}
+
+export interface NotificationServiceOptions {
+    store?: NotificationStore;      // Defaults to repositories on the persistence backend
+    now?: () => number;
+}
+
+// A notification as clients receive it, folded duplicates counted
+export type DeliveredNotification = Notification & { count: number };
+
+export interface InboxPage {
+    notifications: DeliveredNotification[];
+    total: number;
+    unread: number;
+    nextOffset: number | null;      // Offset of the next page, null on the last one
 }
 
 // Default notification templates
@@ -80,26 +115,112 @@ const NOTIFICATION_TEMPLATES: Record<NotificationType, { title: string; icon: st
     social: { title: 'Social', icon: '👥', priority: 'normal' },
     achievement: { title: 'Achievement', icon: '🏆', priority: 'high' },
     gift: { title: 'Gift', icon: '🎁', priority: 'normal' },
-    bond: { title: 'Bond', icon: '💖', priority: 'normal' }
+    bond: { title: 'Bond', icon: '💖', priority: 'normal' },
+    digest: { title: 'While You Were Away', icon: '📬', priority: 'normal' }
+};
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// How long each type stays in the inbox
+const NOTIFICATION_RETENTION: Record<NotificationType, number> = {
+    friend_online: HOUR,
+    friend_offline: HOUR,
+    friend_request: 30 * DAY,
+    friend_accepted: 7 * DAY,
+    gift_received: 30 * DAY,
+    achievement_unlocked: 30 * DAY,
+    level_up: 7 * DAY,
+    challenge_complete: 7 * DAY,
+    world_event: 6 * HOUR,
+    darkness_warning: 10 * MINUTE,
+    milestone: 30 * DAY,
+    guild_invite: 14 * DAY,
+    guild_message: 3 * DAY,
+    system: 7 * DAY,
+    reward: 30 * DAY,
+    tag_invite: 10 * MINUTE,
+    whisper: 7 * DAY,
+    connection_made: 7 * DAY,
+    social: 7 * DAY,
+    achievement: 30 * DAY,
+    gift: 30 * DAY,
+    bond: 7 * DAY,
+    digest: 7 * DAY
+};
+
+// Types that fold into one unread notification within a window
+const COLLAPSE_RULES: Partial<Record<NotificationType, { windowMs: number; summarize: (count: number) => string }>> = {
+    friend_online: { windowMs: 30 * MINUTE, summarize: count => `${count} friends came online` },
+    friend_offline: { windowMs: 30 * MINUTE, summarize: count => `${count} friends went offline` },
+    gift_received: { windowMs: 6 * HOUR, summarize: count => `You received ${count} gifts` },
+    gift: { windowMs: 6 * HOUR, summarize: count => `You received ${count} gifts` },
+    guild_message: { windowMs: HOUR, summarize: count => `${count} new guild messages` },
+    whisper: { windowMs: HOUR, summarize: count => `${count} new whispers` }
+};
+
+// Singular / plural wording for digest lines
+const DIGEST_LABELS: Partial<Record<NotificationType, [string, string]>> = {
+    friend_online: ['friend came online', 'friends came online'],
+    friend_request: ['friend request', 'friend requests'],
+    friend_accepted: ['accepted friend request', 'accepted friend requests'],
+    gift_received: ['gift', 'gifts'],
+    gift: ['gift', 'gifts'],
+    achievement_unlocked: ['achievement', 'achievements'],
+    achievement: ['achievement', 'achievements'],
+    guild_invite: ['guild invite', 'guild invites'],
+    guild_message: ['guild message', 'guild messages'],
+    whisper: ['whisper', 'whispers'],
+    reward: ['reward', 'rewards'],
+    world_event: ['world event', 'world events']
 };
 
+function describeCount(type: NotificationType, count: number): string {
+    const [singular, plural] = DIGEST_LABELS[type] || ['other notification', 'other notifications'];
+    return `${count} ${count === 1 ? singular : plural}`;
+}
+
+/**
+ * UTC hour window; start > end wraps past midnight, start === end is never quiet
+ */
+function isWithinQuietHours(quietHours: QuietHours, now: number): boolean {
+    const { startHour, endHour } = quietHours;
+    const hour = new Date(now).getUTCHours();
+    if (startHour === endHour) return false;
+    return startHour < endHour
+        ? hour >= startHour && hour < endHour
+        : hour >= startHour || hour < endHour;
+}
+
 export class NotificationService extends EventEmitter {
     private static instance: NotificationService;
-    
-    // Player notification queues (for offline storage)
-    private pendingNotifications: Map<string, Notification[]> = new Map();
-    
-    // Player preferences
+
+    private store: NotificationStore;
+    private now: () => number;
+
+    // Player preferences (cached here, persisted in the store)
     private playerPrefs: Map<string, PlayerNotificationPrefs> = new Map();
-    
+
     // Connected players (set by WebSocket handler)
     private onlinePlayers: Set<string> = new Set();
-    
+
+    private maintenanceInterval: NodeJS.Timeout | null = null;
     private ready = false;
-    
+
     // Limits
-    private readonly MAX_PENDING_PER_PLAYER = 50;
-    private readonly NOTIFICATION_EXPIRE_HOURS = 24;
+    private readonly MAX_INBOX_PER_PLAYER = 200;
+    private readonly PAGE_SIZE = 20;
+    private readonly MAX_PAGE_SIZE = 50;
+    private readonly MAINTENANCE_INTERVAL = 60 * 1000;
+    private readonly DIGEST_INTERVAL = 24 * HOUR;
+    private readonly DIGEST_MIN_ITEMS = 3;
+
+    constructor(options: NotificationServiceOptions = {}) {
+        super();
+        this.store = options.store || new RepositoryNotificationStore();
+        this.now = options.now || Date.now;
+    }
 
     // Singleton
     static getInstance(): NotificationService {
@@ -111,7 +232,12 @@ export class NotificationService extends EventEmitter {
 
     async initialize(): Promise<void> {
         if (this.ready) return;
-        
+
+        // Purge expired items, push held notifications once quiet hours end, send digests
+        this.maintenanceInterval = setInterval(() => {
+            this.runMaintenance().catch(error => console.error('Notification maintenance failed:', error));
+        }, this.MAINTENANCE_INTERVAL);
+
         this.ready = true;
         console.log('🔔 NotificationService initialized');
     }
@@ -121,13 +247,20 @@ export class NotificationService extends EventEmitter {
     }
 
     /**
-     * Mark a player as online
+     * Mark a player as online and deliver what arrived while they were away
      */
-    setPlayerOnline(playerId: string): void {
+    async setPlayerOnline(playerId: string): Promise<void> {
         this.onlinePlayers.add(playerId);
-        
+
         // Notify friends of online status
         this.notifyFriendsOfStatus(playerId, true);
+
+        try {
+            await this.loadPlayerPrefs(playerId);
+            await this.deliverPending(playerId);
+        } catch (error) {
+            console.error('Failed to deliver pending notifications:', error);
+        }
     }
 
     /**
@@ -135,7 +268,7 @@ export class NotificationService extends EventEmitter {
      */
     setPlayerOffline(playerId: string): void {
         this.onlinePlayers.delete(playerId);
-        
+
         // Notify friends of offline status
         this.notifyFriendsOfStatus(playerId, false);
     }
@@ -152,61 +285,93 @@ export class NotificationService extends EventEmitter {
     }
 
     /**
-     * Send notification to a player
+     * Send notification to a player (stored in their inbox, pushed when possible)
      */
     notify(
         playerId: string,
         type: NotificationType,
         message: string,
         data?: Record<string, any>,
-        options?: {
-            title?: string;
-            icon?: string;
-            priority?: Notification['priority'];
-            expiresIn?: number; // seconds
-            actionUrl?: string;
-        }
-    ): Notification {
-        const template = NOTIFICATION_TEMPLATES[type];
-        const now = Date.now();
-        
-        const notification: Notification = {
-            id: `notif-${now}-${Math.random().toString(36).substr(2, 6)}`,
-            type,
-            title: options?.title || template.title,
-            message,
-            icon: options?.icon || template.icon,
-            data,
-            priority: options?.priority || template.priority,
-            timestamp: now,
-            expiresAt: options?.expiresIn ? now + (options.expiresIn * 1000) : undefined,
-            read: false,
-            actionUrl: options?.actionUrl
-        };
-
-        // Check player preferences
-        const prefs = this.getPlayerPrefs(playerId);
-        if (prefs.doNotDisturb || (prefs.mutedUntil && now < prefs.mutedUntil)) {
-            // Store for later but don't send
-            this.storePendingNotification(playerId, notification);
-            return notification;
-        }
+        options?: NotifyOptions
+    ): void {
+        this.post(playerId, type, message, data, options).catch(error => {
+            console.error('Failed to store notification:', error);
+        });
+    }
 
+    /**
+     * Store a notification in the player's inbox, folding it into an unread
+     * one of the same kind when a collapse rule applies, and push it if the
+     * player is online and not in quiet hours. Null when the player has the
+     * type disabled or the sender muted.
+     */
+    async post(
+        playerId: string,
+        type: NotificationType,
+        message: string,
+        data?: Record<string, any>,
+        options?: NotifyOptions
+    ): Promise<Notification | null> {
+        const prefs = await this.loadPlayerPrefs(playerId);
         if (!prefs.enabledTypes.has(type)) {
             // Type disabled, don't notify
-            return notification;
+            return null;
+        }
+        const fromId = data?.fromId ?? data?.friendId;
+        if (fromId && prefs.mutedPlayers.has(fromId)) {
+            return null;
+        }
+
+        const template = NOTIFICATION_TEMPLATES[type];
+        const now = this.now();
+        const retention = NOTIFICATION_RETENTION[type];
+        const expiresAt = now + (options?.expiresIn ? Math.min(options.expiresIn * 1000, retention) : retention);
+
+        const rule = COLLAPSE_RULES[type];
+        const existing = rule ? await this.store.findCollapsible(playerId, type, now - rule.windowMs, now) : null;
+
+        let notification: StoredNotification;
+        if (rule && existing) {
+            const count = existing.count + 1;
+            const changes = {
+                message: rule.summarize(count),
+                data: { ...data, collapsedCount: count },
+                timestamp: now,
+                expiresAt,
+                count,
+                delivered: false
+            };
+            await this.store.update(playerId, existing.id, changes);
+            notification = { ...existing, ...changes };
+        } else {
+            notification = {
+                id: `notif-${now}-${Math.random().toString(36).substr(2, 6)}`,
+                playerId,
+                type,
+                title: options?.title || template.title,
+                message,
+                icon: options?.icon || template.icon,
+                data,
+                priority: options?.priority || template.priority,
+                timestamp: now,
+                expiresAt,
+                read: false,
+                actionUrl: options?.actionUrl,
+                delivered: false,
+                collapseKey: rule ? type : undefined,
+                count: 1
+            };
+            await this.store.insert(notification, this.MAX_INBOX_PER_PLAYER);
         }
 
-        // Check if player is online
-        if (this.onlinePlayers.has(playerId)) {
+        if (this.onlinePlayers.has(playerId) && !this.isQuiet(prefs, now)) {
             // Emit for WebSocket handler to send
             this.emit('notification', {
                 playerId,
                 notification: this.serializeNotification(notification)
             });
-        } else {
-            // Store for when they come online
-            this.storePendingNotification(playerId, notification);
+            await this.store.markDelivered(playerId, [notification.id]);
+            notification.delivered = true;
         }
 
         return notification;
@@ -255,76 +420,152 @@ export class NotificationService extends EventEmitter {
                 type,
                 message,
                 data,
-                timestamp: Date.now()
+                timestamp: this.now()
             }
         });
     }
 
+    // =========================================================================
+    // Inbox
+    // =========================================================================
+
     /**
-     * Store pending notification for offline player
+     * A page of the player's inbox, newest first
      */
-    private storePendingNotification(playerId: string, notification: Notification): void {
-        if (!this.pendingNotifications.has(playerId)) {
-            this.pendingNotifications.set(playerId, []);
-        }
+    async getInbox(playerId: string, query: { offset?: number; limit?: number; unreadOnly?: boolean } = {}): Promise<InboxPage> {
+        const now = this.now();
+        const offset = Math.max(0, Math.floor(query.offset ?? 0));
+        const limit = Math.max(1, Math.min(this.MAX_PAGE_SIZE, Math.floor(query.limit ?? this.PAGE_SIZE)));
 
-        const pending = this.pendingNotifications.get(playerId)!;
-        pending.push(notification);
+        const [page, unread] = await Promise.all([
+            this.store.list(playerId, { offset, limit, unreadOnly: query.unreadOnly }, now),
+            this.store.countUnread(playerId, now)
+        ]);
+        const nextOffset = offset + page.notifications.length;
 
-        // Trim old notifications if too many
-        while (pending.length > this.MAX_PENDING_PER_PLAYER) {
-            pending.shift();
-        }
+        return {
+            notifications: page.notifications.map(n => this.serializeNotification(n)),
+            total: page.total,
+            unread,
+            nextOffset: nextOffset < page.total ? nextOffset : null
+        };
     }
 
     /**
-     * Get pending notifications for a player (when they come online)
+     * Push the first page of notifications the player hasn't been sent yet.
+     * The client pages through the rest of the inbox with getInbox.
      */
-    getPendingNotifications(playerId: string): Notification[] {
-        const pending = this.pendingNotifications.get(playerId) || [];
-        const now = Date.now();
-        const expireCutoff = now - (this.NOTIFICATION_EXPIRE_HOURS * 60 * 60 * 1000);
-
-        // Filter out expired notifications
-        const valid = pending.filter(n => {
-            if (n.expiresAt && now > n.expiresAt) return false;
-            if (n.timestamp < expireCutoff) return false;
-            return true;
-        });
-
-        return valid;
+    async deliverPending(playerId: string): Promise<InboxPage | null> {
+        const now = this.now();
+        if (!this.onlinePlayers.has(playerId) || this.isQuiet(this.getPlayerPrefs(playerId), now)) return null;
+
+        const page = await this.store.list(playerId, { offset: 0, limit: this.PAGE_SIZE, undeliveredOnly: true }, now);
+        if (page.notifications.length === 0) return null;
+
+        await this.store.markDelivered(playerId, page.notifications.map(n => n.id));
+        const inbox: InboxPage = {
+            notifications: page.notifications.map(n => this.serializeNotification(n)),
+            total: page.total,
+            unread: await this.store.countUnread(playerId, now),
+            nextOffset: page.notifications.length < page.total ? page.notifications.length : null
+        };
+        this.emit('inbox_delivery', { playerId, inbox });
+        return inbox;
     }
 
     /**
-     * Clear pending notifications for a player
+     * Clear a player's inbox
      */
-    clearPendingNotifications(playerId: string): void {
-        this.pendingNotifications.delete(playerId);
+    async clearInbox(playerId: string): Promise<void> {
+        await this.store.clear(playerId);
     }
 
     /**
      * Mark notification as read
      */
-    markAsRead(playerId: string, notificationId: string): void {
-        const pending = this.pendingNotifications.get(playerId) || [];
-        const notification = pending.find(n => n.id === notificationId);
-        if (notification) {
-            notification.read = true;
-        }
+    async markAsRead(playerId: string, notificationId: string): Promise<void> {
+        await this.store.markRead(playerId, [notificationId]);
     }
 
     /**
      * Mark all notifications as read
      */
-    markAllAsRead(playerId: string): void {
-        const pending = this.pendingNotifications.get(playerId) || [];
-        for (const notification of pending) {
-            notification.read = true;
+    async markAllAsRead(playerId: string): Promise<void> {
+        await this.store.markRead(playerId, null);
+    }
+
+    // =========================================================================
+    // Digest
+    // =========================================================================
+
+    /**
+     * Summarize the player's unread notifications since their last digest
+     * into a single notification. Null when there is too little to summarize.
+     */
+    async generateDigest(playerId: string): Promise<Notification | null> {
+        const now = this.now();
+        const prefs = await this.loadPlayerPrefs(playerId);
+        const since = prefs.lastDigestAt ?? now - this.DIGEST_INTERVAL;
+
+        const unread = (await this.store.unreadSince(playerId, since, now)).filter(n => n.type !== 'digest');
+        const counts: Partial<Record<NotificationType, number>> = {};
+        let total = 0;
+        for (const notification of unread) {
+            counts[notification.type] = (counts[notification.type] || 0) + notification.count;
+            total += notification.count;
+        }
+        if (total < this.DIGEST_MIN_ITEMS) return null;
+
+        prefs.lastDigestAt = now;
+        await this.savePlayerPrefs(prefs);
+
+        const summary = (Object.entries(counts) as Array<[NotificationType, number]>)
+            .sort((a, b) => b[1] - a[1])
+            .map(([type, count]) => describeCount(type, count));
+
+        return this.post(playerId, 'digest', `While you were away: ${summary.join(', ')}`, {
+            counts,
+            total,
+            since
+        });
+    }
+
+    /**
+     * Send a digest to every offline player with unread notifications who
+     * hasn't had one for a day
+     */
+    async runDailyDigests(): Promise<number> {
+        const now = this.now();
+        let sent = 0;
+
+        for (const playerId of await this.store.playersWithUnread(now)) {
+            if (this.onlinePlayers.has(playerId)) continue;
+
+            const prefs = await this.loadPlayerPrefs(playerId);
+            if (prefs.lastDigestAt !== null && now - prefs.lastDigestAt < this.DIGEST_INTERVAL) continue;
+
+            if (await this.generateDigest(playerId)) sent++;
         }
+        return sent;
     }
 
+    async runMaintenance(): Promise<void> {
+        await this.store.purgeExpired(this.now());
+
+        // Notifications held back by quiet hours go out once they end
+        for (const playerId of this.onlinePlayers) {
+            await this.deliverPending(playerId);
+        }
+
+        await this.runDailyDigests();
+    }
+
+    // =========================================================================
+    // Preferences
+    // =========================================================================
+
     /**
-     * Get player notification preferences
+     * Get player notification preferences (cached; see loadPlayerPrefs)
      */
     getPlayerPrefs(playerId: string): PlayerNotificationPrefs {
         if (!this.playerPrefs.has(playerId)) {
@@ -334,22 +575,44 @@ export class NotificationService extends EventEmitter {
                 enabledTypes: new Set(Object.keys(NOTIFICATION_TEMPLATES) as NotificationType[]),
                 mutedPlayers: new Set(),
                 mutedUntil: null,
-                doNotDisturb: false
+                doNotDisturb: false,
+                quietHours: null,
+                lastDigestAt: null
             };
             this.playerPrefs.set(playerId, defaultPrefs);
         }
         return this.playerPrefs.get(playerId)!;
     }
 
+    /**
+     * Get player notification preferences, reading them from the store if not cached
+     */
+    async loadPlayerPrefs(playerId: string): Promise<PlayerNotificationPrefs> {
+        const cached = this.playerPrefs.get(playerId);
+        if (cached) return cached;
+
+        const stored = await this.store.loadPrefs(playerId);
+        if (!stored) return this.getPlayerPrefs(playerId);
+
+        const prefs: PlayerNotificationPrefs = {
+            ...stored,
+            enabledTypes: new Set(stored.enabledTypes),
+            mutedPlayers: new Set(stored.mutedPlayers)
+        };
+        this.playerPrefs.set(playerId, prefs);
+        return prefs;
+    }
+
     /**
      * Update player notification preferences
      */
-    updatePlayerPrefs(playerId: string, updates: Partial<{
+    async updatePlayerPrefs(playerId: string, updates: Partial<{
         enabledTypes: NotificationType[];
         doNotDisturb: boolean;
         mutedUntil: number | null;
-    }>): void {
-        const prefs = this.getPlayerPrefs(playerId);
+        quietHours: QuietHours | null;
+    }>): Promise<void> {
+        const prefs = await this.loadPlayerPrefs(playerId);
 
         if (updates.enabledTypes) {
             prefs.enabledTypes = new Set(updates.enabledTypes);
@@ -360,22 +623,32 @@ export class NotificationService extends EventEmitter {
         if (updates.mutedUntil !== undefined) {
             prefs.mutedUntil = updates.mutedUntil;
         }
+        if (updates.quietHours !== undefined) {
+            prefs.quietHours = updates.quietHours;
+        }
+
+        await this.savePlayerPrefs(prefs);
+
+        // Turning do-not-disturb off releases what was held back
+        await this.deliverPending(playerId);
     }
 
     /**
      * Mute notifications from a specific player
      */
-    mutePlayer(playerId: string, mutedPlayerId: string): void {
-        const prefs = this.getPlayerPrefs(playerId);
+    async mutePlayer(playerId: string, mutedPlayerId: string): Promise<void> {
+        const prefs = await this.loadPlayerPrefs(playerId);
         prefs.mutedPlayers.add(mutedPlayerId);
+        await this.savePlayerPrefs(prefs);
     }
 
     /**
      * Unmute a player
      */
-    unmutePlayer(playerId: string, mutedPlayerId: string): void {
-        const prefs = this.getPlayerPrefs(playerId);
+    async unmutePlayer(playerId: string, mutedPlayerId: string): Promise<void> {
+        const prefs = await this.loadPlayerPrefs(playerId);
         prefs.mutedPlayers.delete(mutedPlayerId);
+        await this.savePlayerPrefs(prefs);
     }
 
     /**
@@ -386,10 +659,27 @@ export class NotificationService extends EventEmitter {
         return prefs.mutedPlayers.has(fromPlayerId);
     }
 
+    /**
+     * Whether pushes are held back right now: do-not-disturb, a timed mute or quiet hours
+     */
+    isQuiet(prefs: PlayerNotificationPrefs, now: number = this.now()): boolean {
+        if (prefs.doNotDisturb) return true;
+        if (prefs.mutedUntil && now < prefs.mutedUntil) return true;
+        return !!prefs.quietHours && isWithinQuietHours(prefs.quietHours, now);
+    }
+
+    private async savePlayerPrefs(prefs: PlayerNotificationPrefs): Promise<void> {
+        await this.store.savePrefs({
+            ...prefs,
+            enabledTypes: Array.from(prefs.enabledTypes),
+            mutedPlayers: Array.from(prefs.mutedPlayers)
+        });
+    }
+
     /**
      * Serialize notification for network transmission
      */
-    private serializeNotification(notification: Notification): any {
+    private serializeNotification(notification: Notification & { count?: number }): DeliveredNotification {
         return {
             id: notification.id,
             type: notification.type,
@@ -401,7 +691,8 @@ export class NotificationService extends EventEmitter {
             timestamp: notification.timestamp,
             expiresAt: notification.expiresAt,
             read: notification.read,
-            actionUrl: notification.actionUrl
+            actionUrl: notification.actionUrl,
+            count: notification.count ?? 1
         };
     }
 
@@ -475,7 +766,10 @@ export class NotificationService extends EventEmitter {
      * Shutdown service
      */
     shutdown(): void {
-        this.pendingNotifications.clear();
+        if (this.maintenanceInterval) {
+            clearInterval(this.maintenanceInterval);
+            this.maintenanceInterval = null;
+        }
         this.playerPrefs.clear();
         this.onlinePlayers.clear();
         this.ready = false;
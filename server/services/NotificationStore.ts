@@ -0,0 +1,285 @@
+// =============================================================================
+// NotificationStore - Where notification inboxes and preferences live
+// =============================================================================
+// NotificationService writes every notification to the player's inbox, online
+// or not, and pushes it when it can. Inboxes and preferences are repositories
+// on the configured persistence backend, so they outlive restarts in MongoDB
+// and in the memory backend's snapshot alike.
+//
+// Expired notifications (per-type retention, see NotificationService) are
+// never returned; MongoDB also drops them through a TTL index.
+// =============================================================================
+
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import { persistence } from '../persistence/index.js';
+import type { Stored, Repository, Filter } from '../persistence/index.js';
+import type { Notification, NotificationType } from './NotificationService.js';
+
+export interface StoredNotification extends Notification {
+    playerId: string;
+    delivered: boolean;             // Pushed to the client at least once
+    collapseKey?: string;           // Notifications sharing a key fold into one
+    count: number;                  // How many notifications this one stands for
+}
+
+export interface QuietHours {
+    startHour: number;              // UTC, 0-23; may wrap past midnight
+    endHour: number;
+}
+
+export interface StoredNotificationPrefs {
+    playerId: string;
+    enabledTypes: NotificationType[];
+    mutedPlayers: string[];
+    mutedUntil: number | null;
+    doNotDisturb: boolean;
+    quietHours: QuietHours | null;
+    lastDigestAt: number | null;
+}
+
+export interface InboxQuery {
+    offset: number;
+    limit: number;
+    unreadOnly?: boolean;
+    undeliveredOnly?: boolean;
+}
+
+export interface NotificationStore {
+    insert(notification: StoredNotification, maxPerPlayer: number): Promise<void>;
+    update(playerId: string, id: string, changes: Partial<StoredNotification>): Promise<void>;
+    /** Newest unread notification with this key created or updated since `since` */
+    findCollapsible(playerId: string, collapseKey: string, since: number, now: number): Promise<StoredNotification | null>;
+    /** Newest first */
+    list(playerId: string, query: InboxQuery, now: number): Promise<{ notifications: StoredNotification[]; total: number }>;
+    countUnread(playerId: string, now: number): Promise<number>;
+    unreadSince(playerId: string, since: number, now: number): Promise<StoredNotification[]>;
+    markDelivered(playerId: string, ids: string[]): Promise<void>;
+    /** `ids` null marks every notification */
+    markRead(playerId: string, ids: string[] | null): Promise<void>;
+    clear(playerId: string): Promise<void>;
+    playersWithUnread(now: number): Promise<string[]>;
+    purgeExpired(now: number): Promise<number>;
+    loadPrefs(playerId: string): Promise<StoredNotificationPrefs | null>;
+    savePrefs(prefs: StoredNotificationPrefs): Promise<void>;
+}
+
+// ============================================
+// MODELS
+// ============================================
+
+interface IInboxNotification extends Document {
+    notificationId: string;
+    playerId: string;
+    type: string;
+    title: string;
+    message: string;
+    icon?: string;
+    data?: Record<string, any>;
+    priority: string;
+    timestamp: number;
+    expiresAt: Date | null;
+    read: boolean;
+    delivered: boolean;
+    collapseKey?: string;
+    count: number;
+    actionUrl?: string;
+}
+
+interface INotificationPrefs extends Document {
+    playerId: string;
+    enabledTypes: string[];
+    mutedPlayers: string[];
+    mutedUntil: number | null;
+    doNotDisturb: boolean;
+    quietHours: QuietHours | null;
+    lastDigestAt: number | null;
+}
+
+const InboxNotificationSchema = new Schema<IInboxNotification>({
+    notificationId: { type: String, required: true, unique: true },
+    playerId: { type: String, required: true, index: true },
+    type: { type: String, required: true },
+    title: { type: String, required: true },
+    message: { type: String, required: true },
+    icon: { type: String },
+    data: { type: Schema.Types.Mixed },
+    priority: { type: String, default: 'normal' },
+    timestamp: { type: Number, required: true },
+    expiresAt: { type: Date, default: null, index: { expires: 0 } },
+    read: { type: Boolean, default: false },
+    delivered: { type: Boolean, default: false },
+    collapseKey: { type: String },
+    count: { type: Number, default: 1 },
+    actionUrl: { type: String }
+}, {
+    collection: 'notification_inbox'
+});
+
+InboxNotificationSchema.index({ playerId: 1, timestamp: -1 });
+
+const NotificationPrefsSchema = new Schema<INotificationPrefs>({
+    playerId: { type: String, required: true, unique: true, index: true },
+    enabledTypes: { type: [String], default: [] },
+    mutedPlayers: { type: [String], default: [] },
+    mutedUntil: { type: Number, default: null },
+    doNotDisturb: { type: Boolean, default: false },
+    quietHours: {
+        type: new Schema({ startHour: Number, endHour: Number }, { _id: false }),
+        default: null
+    },
+    lastDigestAt: { type: Number, default: null }
+}, {
+    timestamps: true,
+    collection: 'notification_prefs'
+});
+
+export const InboxNotification: Model<IInboxNotification> = mongoose.model<IInboxNotification>('InboxNotification', InboxNotificationSchema);
+export const NotificationPrefs: Model<INotificationPrefs> = mongoose.model<INotificationPrefs>('NotificationPrefs', NotificationPrefsSchema);
+
+type InboxNotificationRecord = Stored<IInboxNotification>;
+type NotificationPrefsRecord = Stored<INotificationPrefs>;
+
+function fromDocument(doc: any): StoredNotification {
+    return {
+        id: doc.notificationId,
+        playerId: doc.playerId,
+        type: doc.type,
+        title: doc.title,
+        message: doc.message,
+        icon: doc.icon,
+        data: doc.data,
+        priority: doc.priority,
+        timestamp: doc.timestamp,
+        expiresAt: doc.expiresAt ? new Date(doc.expiresAt).getTime() : undefined,
+        read: doc.read,
+        delivered: doc.delivered,
+        collapseKey: doc.collapseKey,
+        count: doc.count,
+        actionUrl: doc.actionUrl
+    };
+}
+
+function toDocument(notification: Partial<StoredNotification>): Record<string, any> {
+    const { id, expiresAt, ...rest } = notification;
+    const doc: Record<string, any> = { ...rest };
+    if (id !== undefined) doc.notificationId = id;
+    if ('expiresAt' in notification) doc.expiresAt = expiresAt ? new Date(expiresAt) : null;
+    return doc;
+}
+
+/**
+ * Live notifications only: the TTL monitor runs about once a minute
+ */
+function live(now: number): Filter {
+    return { $or: [{ expiresAt: null }, { expiresAt: { $gt: new Date(now) } }] };
+}
+
+// ============================================
+// STORE
+// ============================================
+
+const NEWEST_FIRST = { timestamp: -1, _id: -1 } as const;
+
+export class RepositoryNotificationStore implements NotificationStore {
+    private inbox: Repository<InboxNotificationRecord>;
+    private prefs: Repository<NotificationPrefsRecord>;
+
+    constructor(options: {
+        inbox?: Repository<InboxNotificationRecord>;
+        prefs?: Repository<NotificationPrefsRecord>;
+    } = {}) {
+        this.inbox = options.inbox || persistence.repository<InboxNotificationRecord>(InboxNotification);
+        this.prefs = options.prefs || persistence.repository<NotificationPrefsRecord>(NotificationPrefs);
+    }
+
+    async insert(notification: StoredNotification, maxPerPlayer: number): Promise<void> {
+        await this.inbox.insert(toDocument(notification));
+
+        // Keep the newest `maxPerPlayer` notifications
+        const overflow = await this.inbox.find({ playerId: notification.playerId }, {
+            sort: NEWEST_FIRST,
+            skip: maxPerPlayer,
+            fields: ['notificationId']
+        });
+        if (overflow.length > 0) {
+            await this.inbox.deleteMany({ notificationId: { $in: overflow.map(doc => doc.notificationId) } });
+        }
+    }
+
+    async update(playerId: string, id: string, changes: Partial<StoredNotification>): Promise<void> {
+        await this.inbox.update({ playerId, notificationId: id }, { $set: toDocument(changes) });
+    }
+
+    async findCollapsible(playerId: string, collapseKey: string, since: number, now: number): Promise<StoredNotification | null> {
+        const [doc] = await this.inbox.find({
+            playerId,
+            collapseKey,
+            read: false,
+            timestamp: { $gte: since },
+            ...live(now)
+        }, { sort: NEWEST_FIRST, limit: 1 });
+        return doc ? fromDocument(doc) : null;
+    }
+
+    async list(playerId: string, query: InboxQuery, now: number): Promise<{ notifications: StoredNotification[]; total: number }> {
+        const filter: Filter = { playerId, ...live(now) };
+        if (query.unreadOnly) filter.read = false;
+        if (query.undeliveredOnly) filter.delivered = false;
+
+        const [docs, total] = await Promise.all([
+            this.inbox.find(filter, { sort: NEWEST_FIRST, skip: query.offset, limit: query.limit }),
+            this.inbox.count(filter)
+        ]);
+        return { notifications: docs.map(fromDocument), total };
+    }
+
+    async countUnread(playerId: string, now: number): Promise<number> {
+        return this.inbox.count({ playerId, read: false, ...live(now) });
+    }
+
+    async unreadSince(playerId: string, since: number, now: number): Promise<StoredNotification[]> {
+        const docs = await this.inbox.find({ playerId, read: false, timestamp: { $gte: since }, ...live(now) }, { sort: NEWEST_FIRST });
+        return docs.map(fromDocument);
+    }
+
+    async markDelivered(playerId: string, ids: string[]): Promise<void> {
+        if (ids.length === 0) return;
+        await this.inbox.updateMany({ playerId, notificationId: { $in: ids } }, { $set: { delivered: true } });
+    }
+
+    async markRead(playerId: string, ids: string[] | null): Promise<void> {
+        const filter: Filter = { playerId };
+        if (ids) filter.notificationId = { $in: ids };
+        await this.inbox.updateMany(filter, { $set: { read: true } });
+    }
+
+    async clear(playerId: string): Promise<void> {
+        await this.inbox.deleteMany({ playerId });
+    }
+
+    async playersWithUnread(now: number): Promise<string[]> {
+        return this.inbox.distinct('playerId', { read: false, ...live(now) });
+    }
+
+    async purgeExpired(now: number): Promise<number> {
+        return this.inbox.deleteMany({ expiresAt: { $ne: null, $lte: new Date(now) } });
+    }
+
+    async loadPrefs(playerId: string): Promise<StoredNotificationPrefs | null> {
+        const doc = await this.prefs.findOne({ playerId });
+        if (!doc) return null;
+        return {
+            playerId: doc.playerId,
+            enabledTypes: doc.enabledTypes as NotificationType[],
+            mutedPlayers: doc.mutedPlayers,
+            mutedUntil: doc.mutedUntil ?? null,
+            doNotDisturb: doc.doNotDisturb,
+            quietHours: doc.quietHours ? { startHour: doc.quietHours.startHour, endHour: doc.quietHours.endHour } : null,
+            lastDigestAt: doc.lastDigestAt ?? null
+        };
+    }
+
+    async savePrefs(prefs: StoredNotificationPrefs): Promise<void> {
+        await this.prefs.update({ playerId: prefs.playerId }, { $set: prefs }, { upsert: true });
+    }
+}
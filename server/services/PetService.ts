@@ -4,7 +4,9 @@
 
 import { EventEmitter } from 'events';
 import { PlayerData } from '../database/playerDataModel.js';
-import { mongoPersistence } from './MongoPersistenceService.js';
+import { persistence } from '../persistence/index.js';
+import type { Repository } from '../persistence/index.js';
+import type { PlayerDataRecord } from './PlayerDataService.js';
 
 interface PetStats {
     happiness: number;
@@ -14,6 +16,12 @@ interface PetStats {
 
 export class PetService extends EventEmitter {
     private initialized: boolean = false;
+    private players: Repository<PlayerDataRecord>;
+
+    constructor(options: { players?: Repository<PlayerDataRecord> } = {}) {
+        super();
+        this.players = options.players || persistence.repository<PlayerDataRecord>(PlayerData);
+    }
 
     async initialize(): Promise<void> {
         if (this.initialized) return;
@@ -26,15 +34,14 @@ export class PetService extends EventEmitter {
     // ─────────────────────────────────────────────────────────────────────────
 
     async adoptPet(playerId: string, petId: string): Promise<{ success: boolean; message: string }> {
-        const player = await PlayerData.findOne({ playerId });
+        const player = await this.players.findOne({ playerId });
         if (!player) throw new Error('Player not found');
 
         if (player.pets.ownedIds.includes(petId)) {
             return { success: false, message: 'Pet already owned' };
         }
 
-        // Initialize proper defaults using Mongoose Mixed type handling
-        // We need to ensure the objects exist before setting properties
+        // The per-pet maps are Mixed and may be missing on older records
         if (!player.pets.petLevels) player.pets.petLevels = {};
         if (!player.pets.petXp) player.pets.petXp = {};
         if (!player.pets.petStats) player.pets.petStats = {};
@@ -53,15 +60,14 @@ export class PetService extends EventEmitter {
             player.pets.equippedId = petId;
         }
 
-        player.markModified('pets');
-        await player.save();
+        await this.savePets(player);
 
         this.emit('pet_adopted', { playerId, petId });
         return { success: true, message: 'Pet adopted successfully' };
     }
 
     async equipPet(playerId: string, petId: string): Promise<boolean> {
-        const player = await PlayerData.findOne({ playerId });
+        const player = await this.players.findOne({ playerId });
         if (!player) return false;
 
         if (!player.pets.ownedIds.includes(petId) && petId !== null) {
@@ -70,9 +76,7 @@ export class PetService extends EventEmitter {
 
         player.pets.equippedId = petId;
 
-        // Mark as modified since pets is a nested object
-        player.markModified('pets');
-        await player.save();
+        await this.savePets(player);
 
         this.emit('pet_equipped', { playerId, petId });
         return true;
@@ -83,7 +87,7 @@ export class PetService extends EventEmitter {
     // ─────────────────────────────────────────────────────────────────────────
 
     async feedPet(playerId: string, petId: string): Promise<{ stats: PetStats; leveledUp: boolean }> {
-        const player = await PlayerData.findOne({ playerId });
+        const player = await this.players.findOne({ playerId });
         if (!player) throw new Error('Player not found');
 
         if (!player.pets.ownedIds.includes(petId)) {
@@ -101,15 +105,14 @@ export class PetService extends EventEmitter {
         const { leveledUp } = await this.addPetXp(player, petId, 10);
 
         player.pets.petStats[petId] = stats;
-        player.markModified('pets');
-        await player.save();
+        await this.savePets(player);
 
         this.emit('pet_fed', { playerId, petId, stats });
         return { stats, leveledUp };
     }
 
     async playWithPet(playerId: string, petId: string): Promise<{ stats: PetStats; leveledUp: boolean }> {
-        const player = await PlayerData.findOne({ playerId });
+        const player = await this.players.findOne({ playerId });
         if (!player) throw new Error('Player not found');
 
         const stats = player.pets.petStats[petId] || { happiness: 50, hunger: 50, lastInteracted: 0 };
@@ -123,8 +126,7 @@ export class PetService extends EventEmitter {
         const { leveledUp } = await this.addPetXp(player, petId, 15);
 
         player.pets.petStats[petId] = stats;
-        player.markModified('pets');
-        await player.save();
+        await this.savePets(player);
 
         this.emit('pet_played', { playerId, petId, stats });
         return { stats, leveledUp };
@@ -134,7 +136,11 @@ export class PetService extends EventEmitter {
     // LEVELING
     // ─────────────────────────────────────────────────────────────────────────
 
-    private async addPetXp(player: any, petId: string, amount: number): Promise<{ leveledUp: boolean }> {
+    private async savePets(player: PlayerDataRecord): Promise<void> {
+        await this.players.update({ playerId: player.playerId }, { $set: { pets: player.pets } });
+    }
+
+    private async addPetXp(player: PlayerDataRecord, petId: string, amount: number): Promise<{ leveledUp: boolean }> {
         const currentLevel = player.pets.petLevels[petId] || 1;
         const currentXp = player.pets.petXp[petId] || 0;
 
@@ -158,7 +164,7 @@ export class PetService extends EventEmitter {
     }
 
     async getPetDetails(playerId: string, petId: string): Promise<any> {
-        const player = await PlayerData.findOne({ playerId });
+        const player = await this.players.findOne({ playerId });
         if (!player) return null;
 
         return {
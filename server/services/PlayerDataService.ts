@@ -1,6 +1,13 @@
 // PlayerData Service - Comprehensive player state management
+// Emits 'player_updated' with the stored record after every change to one player
+import { EventEmitter } from 'events';
 import { PlayerData, IPlayerData } from '../database/playerDataModel.js';
-import { mongoPersistence } from './MongoPersistenceService.js';
+import { persistence } from '../persistence/index.js';
+import type { Stored, Repository } from '../persistence/index.js';
+import { ledgerService } from './LedgerService.js';
+import type { BalanceChange } from './LedgerService.js';
+
+export type PlayerDataRecord = Stored<IPlayerData>;
 
 // Default player data structure
 const DEFAULT_PLAYER_DATA = {
@@ -93,7 +100,9 @@ const DEFAULT_PLAYER_DATA = {
         colorblindMode: null,
         highContrast: false,
         notifications: true,
-        autoSave: true
+        autoSave: true,
+        chatEnabled: true,
+        signalsEnabled: true
     },
     anchoring: {
         breathingCompleted: 0,
@@ -127,14 +136,28 @@ const DEFAULT_PLAYER_DATA = {
     }
 };
 
-export class PlayerDataService {
+export class PlayerDataService extends EventEmitter {
 
     private initialized: boolean = false;
-    private memoryStore: Map<string, IPlayerData> = new Map();
+    private players: Repository<PlayerDataRecord>;
+
+    constructor(options: { repository?: Repository<PlayerDataRecord> } = {}) {
+        super();
+        this.players = options.repository || persistence.repository<PlayerDataRecord>(PlayerData);
+    }
 
     async init(): Promise<void> {
         if (this.initialized) return;
         this.initialized = true;
+
+        // Stardust is kept in the ledger's wallet; the player record mirrors it
+        ledgerService.on('balance_changed', (change: BalanceChange) => {
+            if (change.currency !== 'stardust') return;
+            this.mirrorStardust(change).catch(error => {
+                console.error('Failed to mirror stardust balance:', error);
+            });
+        });
+
         console.log('👤 PlayerData service initialized');
     }
 
@@ -142,87 +165,59 @@ export class PlayerDataService {
         return this.initialized;
     }
 
-    private useMongo(): boolean {
-        return mongoPersistence.isReady();
-    }
-
     // ========================================
     // CORE CRUD OPERATIONS
     // ========================================
 
-    async getPlayerData(playerId: string): Promise<IPlayerData | null> {
-        if (this.useMongo()) {
-            return PlayerData.findOne({ playerId });
-        }
-        return this.memoryStore.get(playerId) || null;
+    async getPlayerData(playerId: string): Promise<PlayerDataRecord | null> {
+        return this.players.findOne({ playerId });
     }
 
-    async getOrCreatePlayerData(playerId: string, initialName?: string): Promise<IPlayerData> {
-        if (this.useMongo()) {
-            let player = await PlayerData.findOne({ playerId });
+    async getOrCreatePlayerData(playerId: string, initialName?: string): Promise<PlayerDataRecord> {
+        const player = await this.players.findOne({ playerId });
+        if (player) return player;
 
-            if (!player) {
-                player = new PlayerData({
-                    playerId,
-                    ...DEFAULT_PLAYER_DATA,
-                    name: initialName || DEFAULT_PLAYER_DATA.name,
-                    lastSeen: new Date()
-                });
-                await player.save();
-                console.log(`👤 Created new player data for ${playerId} (MongoDB)`);
-            }
-            return player;
-        } else {
-            // In-memory fallback
-            let player = this.memoryStore.get(playerId);
-            if (!player) {
-                // Clone default data
-                const now = new Date();
-                player = {
-                    ...JSON.parse(JSON.stringify(DEFAULT_PLAYER_DATA)),
-                    playerId,
-                    name: initialName || DEFAULT_PLAYER_DATA.name,
-                    lastSeen: now,
-                    createdAt: now,
-                    updatedAt: now
-                } as IPlayerData;
-                // Type assertion needed because IPlayerData is Mongoose document
-                this.memoryStore.set(playerId, player);
-                console.log(`👤 Created new player data for ${playerId} (In-Memory)`);
-            }
-            return player;
-        }
+        const created = await this.players.insert({
+            playerId,
+            ...JSON.parse(JSON.stringify(DEFAULT_PLAYER_DATA)),
+            name: initialName || DEFAULT_PLAYER_DATA.name,
+            lastSeen: new Date()
+        });
+        console.log(`👤 Created new player data for ${playerId} (${persistence.kind})`);
+        this.emit('player_updated', created);
+        return created;
     }
 
-    async updatePlayerData(playerId: string, updates: Partial<IPlayerData>): Promise<IPlayerData | null> {
-        if (this.useMongo()) {
-            return PlayerData.findOneAndUpdate(
-                { playerId },
-                { $set: { ...updates, lastSeen: new Date() } },
-                { new: true, upsert: false }
-            );
-        } else {
-            const player = this.memoryStore.get(playerId);
-            if (!player) return null;
-
-            const updated = {
-                ...player,
-                ...updates,
-                lastSeen: new Date(),
-                updatedAt: new Date()
-            };
-            this.memoryStore.set(playerId, updated as IPlayerData);
-            return updated as IPlayerData;
-        }
+    private async updatePlayer(filter: { playerId: string }, update: Record<string, any>): Promise<PlayerDataRecord | null> {
+        const updated = await this.players.update(filter, update);
+        if (updated) this.emit('player_updated', updated);
+        return updated;
+    }
+
+    /** Copies a wallet balance posted by the ledger onto the player record */
+    private async mirrorStardust(change: BalanceChange): Promise<void> {
+        const update: Record<string, any> = { $set: { stardust: change.balance } };
+        if (change.amount > 0) update.$inc = { lifetimeStardust: change.amount };
+        await this.updatePlayer({ playerId: change.playerId }, update);
+    }
+
+    async updatePlayerData(playerId: string, updates: Partial<PlayerDataRecord>): Promise<PlayerDataRecord | null> {
+        return this.updatePlayer(
+            { playerId },
+            { $set: { ...updates, lastSeen: new Date() } }
+        );
+    }
+
+    /** Sets dot-notation paths, as produced by the player data write policy */
+    async setPlayerFields(playerId: string, paths: Record<string, unknown>): Promise<PlayerDataRecord | null> {
+        return this.updatePlayer(
+            { playerId },
+            { $set: { ...paths, lastSeen: new Date() } }
+        );
     }
 
     async deletePlayerData(playerId: string): Promise<boolean> {
-        if (this.useMongo()) {
-            const result = await PlayerData.deleteOne({ playerId });
-            return result.deletedCount > 0;
-        } else {
-            return this.memoryStore.delete(playerId);
-        }
+        return this.players.delete({ playerId });
     }
 
     // ========================================
@@ -232,110 +227,105 @@ export class PlayerDataService {
     async updateProgression(playerId: string, data: {
         xp?: number;
         level?: number;
-        stardust?: number;
         seasonXp?: number;
         seasonLevel?: number;
         seasonTier?: number;
-    }): Promise<IPlayerData | null> {
+    }): Promise<PlayerDataRecord | null> {
         const updates: any = { lastSeen: new Date() };
+        const update: any = { $set: updates };
 
         if (data.xp !== undefined) updates.xp = data.xp;
         if (data.level !== undefined) updates.level = data.level;
-        if (data.stardust !== undefined) {
-            updates.stardust = data.stardust;
-            updates.$inc = { lifetimeStardust: Math.max(0, data.stardust) };
-        }
         if (data.seasonXp !== undefined) updates.seasonXp = data.seasonXp;
         if (data.seasonLevel !== undefined) updates.seasonLevel = data.seasonLevel;
         if (data.seasonTier !== undefined) updates.seasonTier = data.seasonTier;
 
-        return PlayerData.findOneAndUpdate(
-            { playerId },
-            { $set: updates },
-            { new: true }
-        );
+        return this.updatePlayer({ playerId }, update);
     }
 
-    async updateStats(playerId: string, statUpdates: Partial<IPlayerData['stats']>): Promise<IPlayerData | null> {
+    async updateStats(playerId: string, statUpdates: Partial<IPlayerData['stats']>): Promise<PlayerDataRecord | null> {
         const updates: any = {};
         for (const [key, value] of Object.entries(statUpdates)) {
             updates[`stats.${key}`] = value;
         }
         updates.lastSeen = new Date();
 
-        return PlayerData.findOneAndUpdate(
+        return this.updatePlayer(
             { playerId },
-            { $set: updates },
-            { new: true }
+            { $set: updates }
         );
     }
 
-    async incrementStat(playerId: string, stat: keyof IPlayerData['stats'], amount: number = 1): Promise<IPlayerData | null> {
-        return PlayerData.findOneAndUpdate(
+    async incrementStat(playerId: string, stat: keyof IPlayerData['stats'], amount: number = 1): Promise<PlayerDataRecord | null> {
+        return this.updatePlayer(
             { playerId },
             {
                 $inc: { [`stats.${stat}`]: amount },
                 $set: { lastSeen: new Date() }
-            },
-            { new: true }
+            }
         );
     }
 
-    async updateSettings(playerId: string, settings: Partial<IPlayerData['settings']>): Promise<IPlayerData | null> {
+    /**
+     * Count a server-observed action towards a stat (fire-and-forget, so
+     * gameplay handlers never wait on the write)
+     */
+    recordStat(playerId: string, stat: keyof IPlayerData['stats'], amount: number = 1): void {
+        this.incrementStat(playerId, stat, amount)
+            .catch(error => console.error(`Failed to record stat ${stat}:`, error));
+    }
+
+    async updateSettings(playerId: string, settings: Partial<IPlayerData['settings']>): Promise<PlayerDataRecord | null> {
         const updates: any = {};
         for (const [key, value] of Object.entries(settings)) {
             updates[`settings.${key}`] = value;
         }
         updates.lastSeen = new Date();
 
-        return PlayerData.findOneAndUpdate(
+        return this.updatePlayer(
             { playerId },
-            { $set: updates },
-            { new: true }
+            { $set: updates }
         );
     }
 
-    async updateCosmetics(playerId: string, cosmetics: Partial<IPlayerData['cosmetics']>): Promise<IPlayerData | null> {
+    async updateCosmetics(playerId: string, cosmetics: Partial<IPlayerData['cosmetics']>): Promise<PlayerDataRecord | null> {
         const updates: any = {};
         for (const [key, value] of Object.entries(cosmetics)) {
             updates[`cosmetics.${key}`] = value;
         }
         updates.lastSeen = new Date();
 
-        return PlayerData.findOneAndUpdate(
+        return this.updatePlayer(
             { playerId },
-            { $set: updates },
-            { new: true }
+            { $set: updates }
         );
     }
 
-    async addOwnedCosmetic(playerId: string, itemId: string): Promise<IPlayerData | null> {
-        return PlayerData.findOneAndUpdate(
+    async addOwnedCosmetic(playerId: string, itemId: string): Promise<PlayerDataRecord | null> {
+        return this.updatePlayer(
             { playerId },
             {
                 $addToSet: { 'cosmetics.ownedItems': itemId },
                 $set: { lastSeen: new Date() }
-            },
-            { new: true }
+            }
         );
     }
 
-    async updateCompanions(playerId: string, companions: Partial<IPlayerData['companions']>): Promise<IPlayerData | null> {
+    async updateCompanions(playerId: string, companions: Partial<IPlayerData['companions']>): Promise<PlayerDataRecord | null> {
         const updates: any = {};
         for (const [key, value] of Object.entries(companions)) {
             updates[`companions.${key}`] = value;
         }
         updates.lastSeen = new Date();
 
-        return PlayerData.findOneAndUpdate(
+        return this.updatePlayer(
             { playerId },
-            { $set: updates },
-            { new: true }
+            { $set: updates }
         );
     }
 
-    async addCompanion(playerId: string, companionId: string): Promise<IPlayerData | null> {
-        return PlayerData.findOneAndUpdate(
+    async addCompanion(playerId: string, companionId: string): Promise<PlayerDataRecord | null> {
+        return this.updatePlayer(
             { playerId },
             {
                 $addToSet: { 'companions.ownedIds': companionId },
@@ -344,27 +334,25 @@ export class PlayerDataService {
                     [`companions.companionXp.${companionId}`]: 0,
                     lastSeen: new Date()
                 }
-            },
-            { new: true }
+            }
         );
     }
 
-    async updateExploration(playerId: string, exploration: Partial<IPlayerData['exploration']>): Promise<IPlayerData | null> {
+    async updateExploration(playerId: string, exploration: Partial<IPlayerData['exploration']>): Promise<PlayerDataRecord | null> {
         const updates: any = {};
         for (const [key, value] of Object.entries(exploration)) {
             updates[`exploration.${key}`] = value;
         }
         updates.lastSeen = new Date();
 
-        return PlayerData.findOneAndUpdate(
+        return this.updatePlayer(
             { playerId },
-            { $set: updates },
-            { new: true }
+            { $set: updates }
         );
     }
 
-    async addDiscovery(playerId: string, discovery: { id: string; type: string }): Promise<IPlayerData | null> {
-        return PlayerData.findOneAndUpdate(
+    async addDiscovery(playerId: string, discovery: { id: string; type: string }): Promise<PlayerDataRecord | null> {
+        return this.updatePlayer(
             { playerId },
             {
                 $push: {
@@ -375,67 +363,62 @@ export class PlayerDataService {
                 },
                 $addToSet: { 'exploration.discoveredAreas': discovery.id },
                 $set: { lastSeen: new Date() }
-            },
-            { new: true }
+            }
         );
     }
 
-    async updateQuests(playerId: string, quests: Partial<IPlayerData['quests']>): Promise<IPlayerData | null> {
+    async updateQuests(playerId: string, quests: Partial<IPlayerData['quests']>): Promise<PlayerDataRecord | null> {
         const updates: any = {};
         for (const [key, value] of Object.entries(quests)) {
             updates[`quests.${key}`] = value;
         }
         updates.lastSeen = new Date();
 
-        return PlayerData.findOneAndUpdate(
+        return this.updatePlayer(
             { playerId },
-            { $set: updates },
-            { new: true }
+            { $set: updates }
         );
     }
 
-    async updateQuestProgress(playerId: string, questId: string, progress: number): Promise<IPlayerData | null> {
-        return PlayerData.findOneAndUpdate(
+    async updateQuestProgress(playerId: string, questId: string, progress: number): Promise<PlayerDataRecord | null> {
+        return this.updatePlayer(
             { playerId },
             {
                 $set: {
                     [`quests.questProgress.${questId}`]: progress,
                     lastSeen: new Date()
                 }
-            },
-            { new: true }
+            }
         );
     }
 
-    async completeQuest(playerId: string, questId: string): Promise<IPlayerData | null> {
-        return PlayerData.findOneAndUpdate(
+    async completeQuest(playerId: string, questId: string): Promise<PlayerDataRecord | null> {
+        return this.updatePlayer(
             { playerId },
             {
                 $addToSet: { 'quests.completedQuestIds': questId },
                 $pull: { 'quests.activeQuestIds': questId },
                 $inc: { 'stats.questsCompleted': 1 },
                 $set: { lastSeen: new Date() }
-            },
-            { new: true }
+            }
         );
     }
 
-    async updateAnchoring(playerId: string, anchoring: Partial<IPlayerData['anchoring']>): Promise<IPlayerData | null> {
+    async updateAnchoring(playerId: string, anchoring: Partial<IPlayerData['anchoring']>): Promise<PlayerDataRecord | null> {
         const updates: any = {};
         for (const [key, value] of Object.entries(anchoring)) {
             updates[`anchoring.${key}`] = value;
         }
         updates.lastSeen = new Date();
 
-        return PlayerData.findOneAndUpdate(
+        return this.updatePlayer(
             { playerId },
-            { $set: updates },
-            { new: true }
+            { $set: updates }
         );
     }
 
-    async addAnchoringSession(playerId: string, session: { type: string; duration: number }): Promise<IPlayerData | null> {
-        return PlayerData.findOneAndUpdate(
+    async addAnchoringSession(playerId: string, session: { type: string; duration: number }): Promise<PlayerDataRecord | null> {
+        return this.updatePlayer(
             { playerId },
             {
                 $push: {
@@ -449,45 +432,42 @@ export class PlayerDataService {
                     'anchoring.lastAnchorDate': new Date().toISOString().split('T')[0],
                     lastSeen: new Date()
                 }
-            },
-            { new: true }
+            }
         );
     }
 
-    async updateGameState(playerId: string, gameState: Partial<IPlayerData['gameState']>): Promise<IPlayerData | null> {
+    async updateGameState(playerId: string, gameState: Partial<IPlayerData['gameState']>): Promise<PlayerDataRecord | null> {
         const updates: any = {};
         for (const [key, value] of Object.entries(gameState)) {
             updates[`gameState.${key}`] = value;
         }
         updates.lastSeen = new Date();
 
-        return PlayerData.findOneAndUpdate(
+        return this.updatePlayer(
             { playerId },
-            { $set: updates },
-            { new: true }
+            { $set: updates }
         );
     }
 
-    async addBond(playerId: string, bond: { targetId: string; strength: number; type: string }): Promise<IPlayerData | null> {
+    async addBond(playerId: string, bond: { targetId: string; strength: number; type: string }): Promise<PlayerDataRecord | null> {
         // First remove existing bond with same target
-        await PlayerData.updateOne(
+        await this.updatePlayer(
             { playerId },
             { $pull: { 'gameState.bonds': { targetId: bond.targetId } } }
         );
 
-        return PlayerData.findOneAndUpdate(
+        return this.updatePlayer(
             { playerId },
             {
                 $push: { 'gameState.bonds': bond },
                 $inc: { 'stats.bondsFormed': 1 },
                 $set: { lastSeen: new Date() }
-            },
-            { new: true }
+            }
         );
     }
 
-    async addStarMemory(playerId: string, memory: { starId: string; memory: string }): Promise<IPlayerData | null> {
-        return PlayerData.findOneAndUpdate(
+    async addStarMemory(playerId: string, memory: { starId: string; memory: string }): Promise<PlayerDataRecord | null> {
+        return this.updatePlayer(
             { playerId },
             {
                 $push: {
@@ -497,33 +477,30 @@ export class PlayerDataService {
                     }
                 },
                 $set: { lastSeen: new Date() }
-            },
-            { new: true }
+            }
         );
     }
 
-    async updateLeaderboard(playerId: string, leaderboard: Partial<IPlayerData['leaderboard']>): Promise<IPlayerData | null> {
+    async updateLeaderboard(playerId: string, leaderboard: Partial<IPlayerData['leaderboard']>): Promise<PlayerDataRecord | null> {
         const updates: any = {};
         for (const [key, value] of Object.entries(leaderboard)) {
             updates[`leaderboard.${key}`] = value;
         }
         updates.lastSeen = new Date();
 
-        return PlayerData.findOneAndUpdate(
+        return this.updatePlayer(
             { playerId },
-            { $set: updates },
-            { new: true }
+            { $set: updates }
         );
     }
 
-    async addRankPoints(playerId: string, points: number): Promise<IPlayerData | null> {
-        return PlayerData.findOneAndUpdate(
+    async addRankPoints(playerId: string, points: number): Promise<PlayerDataRecord | null> {
+        return this.updatePlayer(
             { playerId },
             {
                 $inc: { 'leaderboard.rankPoints': points },
                 $set: { lastSeen: new Date() }
-            },
-            { new: true }
+            }
         );
     }
 
@@ -531,19 +508,18 @@ export class PlayerDataService {
     // ACHIEVEMENTS
     // ========================================
 
-    async addAchievement(playerId: string, achievementId: string): Promise<IPlayerData | null> {
-        return PlayerData.findOneAndUpdate(
+    async addAchievement(playerId: string, achievementId: string): Promise<PlayerDataRecord | null> {
+        return this.updatePlayer(
             { playerId },
             {
                 $addToSet: { achievements: achievementId },
                 $set: { lastSeen: new Date() }
-            },
-            { new: true }
+            }
         );
     }
 
     async hasAchievement(playerId: string, achievementId: string): Promise<boolean> {
-        const player = await PlayerData.findOne({ playerId, achievements: achievementId });
+        const player = await this.players.findOne({ playerId, achievements: achievementId });
         return !!player;
     }
 
@@ -579,7 +555,7 @@ export class PlayerDataService {
             xp: baseXp * streakMultiplier
         };
 
-        await PlayerData.findOneAndUpdate(
+        await this.updatePlayer(
             { playerId },
             {
                 $set: {
@@ -589,13 +565,18 @@ export class PlayerDataService {
                 },
                 $inc: {
                     totalLogins: 1,
-                    stardust: rewards.stardust,
-                    xp: rewards.xp,
-                    lifetimeStardust: rewards.stardust
+                    xp: rewards.xp
                 }
             }
         );
 
+        await ledgerService.credit(playerId, 'stardust', rewards.stardust, {
+            source: 'daily_login',
+            reason: 'streak_reward',
+            idempotencyKey: `daily_login:${playerId}:${today}`,
+            metadata: { streak: newStreak }
+        });
+
         return { isNewDay: true, streak: newStreak, rewards };
     }
 
@@ -603,38 +584,35 @@ export class PlayerDataService {
     // SOCIAL
     // ========================================
 
-    async addFriend(playerId: string, friendId: string): Promise<IPlayerData | null> {
-        return PlayerData.findOneAndUpdate(
+    async addFriend(playerId: string, friendId: string): Promise<PlayerDataRecord | null> {
+        return this.updatePlayer(
             { playerId },
             {
                 $addToSet: { 'social.friendIds': friendId },
                 $pull: { 'social.pendingFriendRequests': friendId },
                 $set: { lastSeen: new Date() }
-            },
-            { new: true }
+            }
         );
     }
 
-    async removeFriend(playerId: string, friendId: string): Promise<IPlayerData | null> {
-        return PlayerData.findOneAndUpdate(
+    async removeFriend(playerId: string, friendId: string): Promise<PlayerDataRecord | null> {
+        return this.updatePlayer(
             { playerId },
             {
                 $pull: { 'social.friendIds': friendId },
                 $set: { lastSeen: new Date() }
-            },
-            { new: true }
+            }
         );
     }
 
-    async blockPlayer(playerId: string, blockedId: string): Promise<IPlayerData | null> {
-        return PlayerData.findOneAndUpdate(
+    async blockPlayer(playerId: string, blockedId: string): Promise<PlayerDataRecord | null> {
+        return this.updatePlayer(
             { playerId },
             {
                 $addToSet: { 'social.blockedIds': blockedId },
                 $pull: { 'social.friendIds': blockedId },
                 $set: { lastSeen: new Date() }
-            },
-            { new: true }
+            }
         );
     }
 
@@ -644,7 +622,7 @@ export class PlayerDataService {
 
     async trackSession(playerId: string, action: 'start' | 'end'): Promise<void> {
         if (action === 'start') {
-            await PlayerData.findOneAndUpdate(
+            await this.updatePlayer(
                 { playerId },
                 {
                     $set: { 'analytics.lastSessionStart': Date.now() },
@@ -655,7 +633,7 @@ export class PlayerDataService {
             const player = await this.getPlayerData(playerId);
             if (player?.analytics.lastSessionStart) {
                 const sessionDuration = Date.now() - player.analytics.lastSessionStart;
-                await PlayerData.findOneAndUpdate(
+                await this.updatePlayer(
                     { playerId },
                     {
                         $inc: { 'analytics.totalPlaytime': sessionDuration },
@@ -667,7 +645,7 @@ export class PlayerDataService {
     }
 
     async addAnalyticsEvent(playerId: string, event: { type: string; data?: any }): Promise<void> {
-        await PlayerData.findOneAndUpdate(
+        await this.updatePlayer(
             { playerId },
             {
                 $push: {
@@ -680,104 +658,14 @@ export class PlayerDataService {
         );
     }
 
-    async addMilestone(playerId: string, milestoneId: string): Promise<IPlayerData | null> {
-        return PlayerData.findOneAndUpdate(
+    async addMilestone(playerId: string, milestoneId: string): Promise<PlayerDataRecord | null> {
+        return this.updatePlayer(
             { playerId },
             {
                 $addToSet: { 'analytics.milestones': milestoneId },
                 $set: { lastSeen: new Date() }
-            },
-            { new: true }
-        );
-    }
-
-    // ========================================
-    // LEADERBOARDS
-    // ========================================
-
-    async getLeaderboard(type: 'xp' | 'stardust' | 'rankPoints' | 'challenges', limit: number = 50): Promise<any[]> {
-        let sortField: string;
-        switch (type) {
-            case 'xp': sortField = 'xp'; break;
-            case 'stardust': sortField = 'lifetimeStardust'; break;
-            case 'rankPoints': sortField = 'leaderboard.rankPoints'; break;
-            case 'challenges': sortField = 'stats.challengesCompleted'; break;
-            default: sortField = 'xp';
-        }
-
-        const players = await PlayerData.find()
-            .sort({ [sortField]: -1 })
-            .limit(limit)
-            .select('playerId name level xp stardust lifetimeStardust leaderboard stats.challengesCompleted')
-            .lean();
-
-        return players.map((p, i) => ({
-            rank: i + 1,
-            playerId: p.playerId,
-            name: p.name,
-            level: p.level,
-            value: type === 'xp' ? p.xp :
-                type === 'stardust' ? p.lifetimeStardust :
-                    type === 'rankPoints' ? p.leaderboard?.rankPoints || 0 :
-                        p.stats?.challengesCompleted || 0
-        }));
-    }
-
-    async getPlayerRank(playerId: string, type: 'xp' | 'stardust' | 'rankPoints' | 'challenges'): Promise<number> {
-        const player = await this.getPlayerData(playerId);
-        if (!player) return -1;
-
-        let field: string;
-        let value: number;
-
-        switch (type) {
-            case 'xp':
-                field = 'xp';
-                value = player.xp;
-                break;
-            case 'stardust':
-                field = 'lifetimeStardust';
-                value = player.lifetimeStardust;
-                break;
-            case 'rankPoints':
-                field = 'leaderboard.rankPoints';
-                value = player.leaderboard?.rankPoints || 0;
-                break;
-            case 'challenges':
-                field = 'stats.challengesCompleted';
-                value = player.stats?.challengesCompleted || 0;
-                break;
-            default:
-                return -1;
-        }
-
-        const count = await PlayerData.countDocuments({ [field]: { $gt: value } });
-        return count + 1;
-    }
-
-    // ========================================
-    // WEEKLY RESET
-    // ========================================
-
-    async resetWeeklyStats(): Promise<number> {
-        const result = await PlayerData.updateMany(
-            {},
-            {
-                $set: {
-                    'leaderboard.weeklyXp': 0,
-                    'leaderboard.weeklyWins': 0
-                }
             }
         );
-        return result.modifiedCount;
-    }
-
-    async resetMonthlyStats(): Promise<number> {
-        const result = await PlayerData.updateMany(
-            {},
-            { $set: { 'leaderboard.monthlyXp': 0 } }
-        );
-        return result.modifiedCount;
     }
 }
 
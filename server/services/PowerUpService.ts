@@ -47,6 +47,14 @@ export interface ActiveEffect {
     multiplier: number;      // Effect strength
 }
 
+/**
+ * Power-ups and effects as stored in a world snapshot
+ */
+export interface PowerUpServiceState {
+    powerUps: PowerUp[];
+    activeEffects: ActiveEffect[];
+}
+
 export interface PowerUpConfig {
     type: PowerUpType;
     name: string;
@@ -595,6 +603,30 @@ export class PowerUpService extends EventEmitter {
         this.activeEffects.delete(playerId);
     }
 
+    exportState(): PowerUpServiceState {
+        return {
+            powerUps: Array.from(this.powerUps.values()),
+            activeEffects: Array.from(this.activeEffects.values()).flat()
+        };
+    }
+
+    /**
+     * Restore uncollected power-ups and running effects that have not expired
+     */
+    restoreState(state: PowerUpServiceState, now: number = Date.now()): void {
+        for (const powerUp of state.powerUps) {
+            if (!powerUp.collected && powerUp.expiresAt > now) {
+                this.powerUps.set(powerUp.id, powerUp);
+            }
+        }
+        for (const effect of state.activeEffects) {
+            if (effect.endTime <= now) continue;
+            const effects = this.activeEffects.get(effect.playerId) || [];
+            effects.push(effect);
+            this.activeEffects.set(effect.playerId, effects);
+        }
+    }
+
     /**
      * Shutdown service
      */
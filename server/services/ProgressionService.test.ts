@@ -0,0 +1,96 @@
+// =============================================================================
+// ProgressionService Tests - stored progression, cosmetic purchases, fragments
+// =============================================================================
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ProgressionService } from './ProgressionService.js';
+import { LedgerService } from './LedgerService.js';
+import { LedgerEntry, LedgerAccount } from '../database/ledgerModels.js';
+import { Progression, DailyChallenge } from '../database/progressionModels.js';
+import { Guild } from '../database/guildModels.js';
+import { MemoryRepository } from '../persistence/index.js';
+
+describe('ProgressionService', () => {
+    let progressions: MemoryRepository<any>;
+    let dailyChallenges: MemoryRepository<any>;
+    let entries: MemoryRepository<any>;
+    let service: ProgressionService;
+
+    beforeEach(async () => {
+        progressions = new MemoryRepository<any>([], Progression);
+        dailyChallenges = new MemoryRepository<any>([], DailyChallenge);
+        entries = new MemoryRepository<any>([], LedgerEntry);
+        const guilds = new MemoryRepository<any>([], Guild);
+        const ledger = new LedgerService({ entries, accounts: new MemoryRepository([], LedgerAccount), progressions, guilds });
+        service = new ProgressionService({ ledger, progressions, dailyChallenges, guilds });
+
+        await progressions.insert({ playerId: 'ana', stardust: 1000 });
+    });
+
+    it('reads and writes progression through the repository the ledger uses', async () => {
+        const created = await service.getProgression('bo');
+        expect(created).toMatchObject({ playerId: 'bo', stardust: 0, seasonPassTier: 0 });
+        expect(await progressions.count({ playerId: 'bo' })).toBe(1);
+
+        await service.addStardust('bo', 40, { source: 'quest', reason: 'reward' });
+        expect(await service.addSeasonXP('bo', 2500)).toEqual({ tieredUp: true, newTier: 2, xpToNextTier: 500 });
+
+        // A season reward is claimed once, and only once the tier is reached
+        expect((await service.claimSeasonReward('bo', 3)).success).toBe(false);
+        expect((await service.claimSeasonReward('bo', 2)).success).toBe(true);
+        expect((await service.claimSeasonReward('bo', 2)).success).toBe(false);
+
+        expect(await progressions.findOne({ playerId: 'bo' })).toMatchObject({
+            stardust: 40,
+            seasonPassTier: 2,
+            claimedSeasonRewards: [2],
+            monthlyStats: { stardustEarned: 40 }
+        });
+    });
+
+    it('charges every purchase, once, and grants nothing when payment fails', async () => {
+        const [first, second] = await Promise.all([
+            service.purchaseCosmetic('ana', 'trail_stars', 300),
+            service.purchaseCosmetic('ana', 'trail_stars', 300)
+        ]);
+        expect([first.success, second.success].sort()).toEqual([false, true]);
+        expect((await progressions.findOne({ playerId: 'ana' })).stardust).toBe(700);
+
+        // Lost and bought again: a new purchase, charged again
+        await progressions.update({ playerId: 'ana' }, { $pull: { unlockedCosmetics: 'trail_stars' } });
+        const again = await service.purchaseCosmetic('ana', 'trail_stars', 300);
+        expect(again).toMatchObject({ success: true, remaining: 400 });
+        expect(again.purchaseId).not.toBe((first.success ? first : second).purchaseId);
+
+        expect(await service.purchaseCosmetic('ana', 'trail_galaxy', 5000))
+            .toMatchObject({ success: false, remaining: 400, error: 'Insufficient stardust' });
+        expect((await progressions.findOne({ playerId: 'ana' })).unlockedCosmetics).toEqual(['trail_stars']);
+    });
+
+    it('grants a paid purchase on retry without charging it again', async () => {
+        const paid = await service.purchaseCosmetic('ana', 'aura_moon', 300);
+
+        // Interrupted between the debit and the grant
+        await progressions.update({ playerId: 'ana' }, { $pull: { unlockedCosmetics: 'aura_moon', cosmeticPurchases: paid.purchaseId } });
+        const retried = await service.purchaseCosmetic('ana', 'aura_moon', 300);
+
+        expect(retried).toMatchObject({ success: true, remaining: 700, purchaseId: paid.purchaseId });
+        expect(await entries.count({ idempotencyKey: `cosmetic_purchase:ana:${paid.purchaseId}` })).toBe(2);
+        expect((await progressions.findOne({ playerId: 'ana' })).unlockedCosmetics).toEqual(['aura_moon']);
+    });
+
+    it('credits a fragment once and counts it towards challenges once', async () => {
+        const challenges = await service.getDailyChallenges('ana');
+        await dailyChallenges.update({ playerId: 'ana' }, {
+            $set: { challenges: challenges!.challenges.map((c: any, i: number) => i === 0 ? { ...c, type: 'fragment', target: 5 } : c) }
+        });
+
+        const collected = await service.collectFragment('ana', 'frag_1', 3);
+        const retried = await service.collectFragment('ana', 'frag_1', 3);
+
+        expect(collected).toMatchObject({ success: true, totalCollected: 1003 });
+        expect(retried).toMatchObject({ success: true, totalCollected: 1003 });
+        expect(await entries.count({ idempotencyKey: 'fragment_collect:frag_1' })).toBe(2);
+        expect((await service.getDailyChallenges('ana'))!.challenges[0].progress).toBe(1);
+    });
+});
@@ -1,4 +1,4 @@
-// MongoDB-backed progression and social service
+// Persisted progression and social service
 // Handles challenges, progression, gifts, guilds, and activity feeds
 
 import {
@@ -12,8 +12,21 @@ import {
     Gift, IGift,
     GiftStreak, IGiftStreak
 } from '../database/socialModels.js';
-import { PlayerData } from '../database/playerDataModel.js';
-import { mongoPersistence } from './MongoPersistenceService.js';
+import { PlayerData, IPlayerData } from '../database/playerDataModel.js';
+import { persistence } from '../persistence/index.js';
+import type { Stored, Repository, SortSpec } from '../persistence/index.js';
+import { ledgerService, playerAccount, guildAccount } from './LedgerService.js';
+import type { EntryInfo, LedgerService } from './LedgerService.js';
+
+export type ProgressionRecord = Stored<IProgression>;
+export type DailyChallengeRecord = Stored<IDailyChallenge>;
+export type WeeklyChallengeRecord = Stored<IWeeklyChallenge>;
+export type ActivityFeedRecord = Stored<IActivityFeed>;
+export type GiftRecord = Stored<IGift>;
+export type GiftStreakRecord = Stored<IGiftStreak>;
+
+type GuildRecord = Stored<IGuild>;
+type PlayerDataRecord = Stored<IPlayerData>;
 
 // ============================================
 // HELPER FUNCTIONS
@@ -36,6 +49,14 @@ function getMonthStartString(): string {
     return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-01`;
 }
 
+function freshWeeklyStats(weekStart: string): IProgression['weeklyStats'] {
+    return { weekStart, wins: 0, gamesPlayed: 0, xpEarned: 0, challengesCompleted: 0 };
+}
+
+function freshMonthlyStats(monthStart: string): IProgression['monthlyStats'] {
+    return { monthStart, xpEarned: 0, challengesCompleted: 0, stardustEarned: 0 };
+}
+
 // Challenge templates
 const CHALLENGE_TEMPLATES = {
     fragment: [
@@ -122,7 +143,37 @@ function generateChallenge(difficulty: 'easy' | 'medium' | 'hard', isWeekly: boo
 
 export class ProgressionService {
     private initialized: boolean = false;
-    private memoryStore: Map<string, IProgression> = new Map();
+    private ledger: LedgerService;
+    private progressions: Repository<ProgressionRecord>;
+    private dailyChallenges: Repository<DailyChallengeRecord>;
+    private weeklyChallenges: Repository<WeeklyChallengeRecord>;
+    private guilds: Repository<GuildRecord>;
+    private activityFeed: Repository<ActivityFeedRecord>;
+    private gifts: Repository<GiftRecord>;
+    private giftStreaks: Repository<GiftStreakRecord>;
+    private players: Repository<PlayerDataRecord>;
+
+    constructor(options: {
+        ledger?: LedgerService;
+        progressions?: Repository<ProgressionRecord>;
+        dailyChallenges?: Repository<DailyChallengeRecord>;
+        weeklyChallenges?: Repository<WeeklyChallengeRecord>;
+        guilds?: Repository<GuildRecord>;
+        activityFeed?: Repository<ActivityFeedRecord>;
+        gifts?: Repository<GiftRecord>;
+        giftStreaks?: Repository<GiftStreakRecord>;
+        players?: Repository<PlayerDataRecord>;
+    } = {}) {
+        this.ledger = options.ledger || ledgerService;
+        this.progressions = options.progressions || persistence.repository<ProgressionRecord>(Progression);
+        this.dailyChallenges = options.dailyChallenges || persistence.repository<DailyChallengeRecord>(DailyChallenge);
+        this.weeklyChallenges = options.weeklyChallenges || persistence.repository<WeeklyChallengeRecord>(WeeklyChallenge);
+        this.guilds = options.guilds || persistence.repository<GuildRecord>(Guild);
+        this.activityFeed = options.activityFeed || persistence.repository<ActivityFeedRecord>(ActivityFeed);
+        this.gifts = options.gifts || persistence.repository<GiftRecord>(Gift);
+        this.giftStreaks = options.giftStreaks || persistence.repository<GiftStreakRecord>(GiftStreak);
+        this.players = options.players || persistence.repository<PlayerDataRecord>(PlayerData);
+    }
 
     async init(): Promise<void> {
         if (this.initialized) return;
@@ -134,50 +185,36 @@ export class ProgressionService {
         return this.initialized;
     }
 
-    private useMongo(): boolean {
-        return mongoPersistence.isReady();
-    }
-
-    private async saveProgression(data: IProgression | any): Promise<void> {
-        if (this.useMongo() && typeof data.save === 'function') {
-            await data.save();
-        } else {
-            // In-memory save
-            // data.updatedAt = new Date(); // IProgression doesn't stricly have timestamps in interface but Mongoose adds them.
-            this.memoryStore.set(data.playerId, data);
-        }
-    }
-
     // ========================================
     // DAILY CHALLENGES
     // ========================================
 
-    async getDailyChallenges(playerId: string): Promise<IDailyChallenge | null> {
+    async getDailyChallenges(playerId: string): Promise<DailyChallengeRecord | null> {
         const today = getTodayString();
-        let challenges = await DailyChallenge.findOne({ playerId, date: today });
-
-        if (!challenges) {
-            // Generate new challenges for today
-            challenges = new DailyChallenge({
-                playerId,
-                date: today,
-                challenges: [
-                    generateChallenge('easy'),
-                    generateChallenge('medium'),
-                    generateChallenge('hard')
-                ],
-                completedToday: 0,
-                rerollsUsed: 0
-            });
-            await challenges.save();
-        }
+        const challenges = await this.dailyChallenges.findOne({ playerId, date: today });
+        if (challenges) return challenges;
 
-        return challenges;
+        // Generate new challenges for today
+        return this.dailyChallenges.update(
+            { playerId, date: today },
+            {
+                $setOnInsert: {
+                    challenges: [
+                        generateChallenge('easy'),
+                        generateChallenge('medium'),
+                        generateChallenge('hard')
+                    ],
+                    completedToday: 0,
+                    rerollsUsed: 0
+                }
+            },
+            { upsert: true }
+        );
     }
 
     async updateChallengeProgress(playerId: string, challengeType: string, amount: number = 1): Promise<{ updated: boolean; completed: boolean; challengeId?: string }> {
         const today = getTodayString();
-        const challenges = await DailyChallenge.findOne({ playerId, date: today });
+        const challenges = await this.dailyChallenges.findOne({ playerId, date: today });
 
         if (!challenges) {
             return { updated: false, completed: false };
@@ -202,7 +239,10 @@ export class ProgressionService {
         }
 
         if (updated) {
-            await challenges.save();
+            await this.dailyChallenges.update(
+                { playerId, date: today },
+                { $set: { challenges: challenges.challenges, completedToday: challenges.completedToday } }
+            );
         }
 
         return { updated, completed, challengeId: completedChallengeId };
@@ -210,7 +250,7 @@ export class ProgressionService {
 
     async claimChallengeReward(playerId: string, challengeId: string): Promise<{ success: boolean; reward?: { stardust: number; xp: number } }> {
         const today = getTodayString();
-        const challenges = await DailyChallenge.findOne({ playerId, date: today });
+        const challenges = await this.dailyChallenges.findOne({ playerId, date: today });
 
         if (!challenges) {
             return { success: false };
@@ -221,31 +261,36 @@ export class ProgressionService {
             return { success: false };
         }
 
-        challenge.claimed = true;
-        await challenges.save();
+        await this.dailyChallenges.update(
+            { playerId, date: today, 'challenges.id': challengeId },
+            { $set: { 'challenges.$.claimed': true } }
+        );
 
         return { success: true, reward: challenge.reward };
     }
 
     async rerollChallenge(playerId: string, challengeId: string): Promise<{ success: boolean; newChallenge?: any }> {
         const today = getTodayString();
-        const challenges = await DailyChallenge.findOne({ playerId, date: today });
+        const challenges = await this.dailyChallenges.findOne({ playerId, date: today });
 
         if (!challenges || challenges.rerollsUsed >= 3) {
             return { success: false };
         }
 
-        const challengeIdx = challenges.challenges.findIndex((c: ChallengeData) => c.id === challengeId);
-        if (challengeIdx === -1 || challenges.challenges[challengeIdx].completed) {
+        const oldChallenge = challenges.challenges.find((c: ChallengeData) => c.id === challengeId);
+        if (!oldChallenge || oldChallenge.completed) {
             return { success: false };
         }
 
-        const oldChallenge = challenges.challenges[challengeIdx];
         const newChallenge = generateChallenge(oldChallenge.difficulty);
-        challenges.challenges[challengeIdx] = newChallenge;
-        challenges.rerollsUsed++;
+        const rerolled = await this.dailyChallenges.update(
+            { playerId, date: today, rerollsUsed: challenges.rerollsUsed, 'challenges.id': challengeId },
+            { $set: { 'challenges.$': newChallenge }, $inc: { rerollsUsed: 1 } }
+        );
+        if (!rerolled) {
+            return { success: false };
+        }
 
-        await challenges.save();
         return { success: true, newChallenge };
     }
 
@@ -254,31 +299,26 @@ export class ProgressionService {
     // ========================================
 
     async collectFragment(playerId: string, fragmentId: string, value: number = 1): Promise<{ success: boolean; totalCollected: number; firstCollection: boolean }> {
-        const progression = await this.getProgression(playerId);
-
-        // Use stardust field or add a specific fragment counter if needed. 
-        // For now, let's say fragments convert directly to stardust or we track them in a new field if schema allows.
-        // Assuming 'crystals' might be fragments, or we just track total for challenges.
-
-        // Let's add it to stardust for now as a simple reward, 
-        // but we should probably track unique fragment IDs to prevent double collection if they are static.
-        // If they are random spawns, we just rate limit.
-
-        // Simple rate limit check could go here if we tracked last collection time.
-
-        const reward = Math.max(1, value);
-        progression.stardust += reward;
-        progression.monthlyStats.stardustEarned += reward;
+        // A fragment is worth stardust once, however often its collection is retried
+        const reward = Math.max(1, Math.floor(value));
+        const credited = await this.ledger.credit(playerId, 'stardust', reward, {
+            source: 'fragment',
+            reason: 'collect',
+            idempotencyKey: `fragment_collect:${fragmentId}`,
+            metadata: { fragmentId }
+        });
 
-        await progression.save();
+        if (credited.success && !credited.duplicate) {
+            await this.progressions.update({ playerId }, { $inc: { 'monthlyStats.stardustEarned': reward } });
 
-        // Update challenges
-        await this.updateChallengeProgress(playerId, 'fragment', 1);
-        await this.updateWeeklyChallengeProgress(playerId, 'fragment', 1);
+            // Update challenges
+            await this.updateChallengeProgress(playerId, 'fragment', 1);
+            await this.updateWeeklyChallengeProgress(playerId, 'fragment', 1);
+        }
 
         return {
-            success: true,
-            totalCollected: progression.stardust, // Using stardust as proxy for now
+            success: credited.success,
+            totalCollected: credited.balance, // Using stardust as proxy for now
             firstCollection: false
         };
     }
@@ -287,30 +327,30 @@ export class ProgressionService {
     // WEEKLY CHALLENGES
     // ========================================
 
-    async getWeeklyChallenges(playerId: string): Promise<IWeeklyChallenge | null> {
+    async getWeeklyChallenges(playerId: string): Promise<WeeklyChallengeRecord | null> {
         const weekStart = getWeekStartString();
-        let challenges = await WeeklyChallenge.findOne({ playerId, weekStart });
-
-        if (!challenges) {
-            challenges = new WeeklyChallenge({
-                playerId,
-                weekStart,
-                challenges: [
-                    { ...generateChallenge('easy', true), bonusReward: { stardust: 100, xp: 50 } },
-                    { ...generateChallenge('medium', true), bonusReward: { stardust: 200, xp: 100 } },
-                    { ...generateChallenge('hard', true), bonusReward: { stardust: 400, xp: 200 } }
-                ],
-                completedThisWeek: 0
-            });
-            await challenges.save();
-        }
+        const challenges = await this.weeklyChallenges.findOne({ playerId, weekStart });
+        if (challenges) return challenges;
 
-        return challenges;
+        return this.weeklyChallenges.update(
+            { playerId, weekStart },
+            {
+                $setOnInsert: {
+                    challenges: [
+                        { ...generateChallenge('easy', true), bonusReward: { stardust: 100, xp: 50 } },
+                        { ...generateChallenge('medium', true), bonusReward: { stardust: 200, xp: 100 } },
+                        { ...generateChallenge('hard', true), bonusReward: { stardust: 400, xp: 200 } }
+                    ],
+                    completedThisWeek: 0
+                }
+            },
+            { upsert: true }
+        );
     }
 
     async updateWeeklyChallengeProgress(playerId: string, challengeType: string, amount: number = 1): Promise<{ updated: boolean; completed: boolean }> {
         const weekStart = getWeekStartString();
-        const challenges = await WeeklyChallenge.findOne({ playerId, weekStart });
+        const challenges = await this.weeklyChallenges.findOne({ playerId, weekStart });
 
         if (!challenges) {
             return { updated: false, completed: false };
@@ -333,7 +373,10 @@ export class ProgressionService {
         }
 
         if (updated) {
-            await challenges.save();
+            await this.weeklyChallenges.update(
+                { playerId, weekStart },
+                { $set: { challenges: challenges.challenges, completedThisWeek: challenges.completedThisWeek } }
+            );
         }
 
         return { updated, completed };
@@ -343,171 +386,52 @@ export class ProgressionService {
     // PLAYER PROGRESSION
     // ========================================
 
-    async getProgression(playerId: string): Promise<IProgression> {
-        if (this.useMongo()) {
-            let progression = await Progression.findOne({ playerId });
-
-            if (!progression) {
-                progression = new Progression({
-                    playerId,
-                    stardust: 0,
-                    crystals: 0,
-                    dailyLoginStreak: 0,
-                    longestStreak: 0,
-                    totalLogins: 0,
-                    lastLoginDate: null,
-                    currentMonth: null,
-                    seasonPassTier: 0,
-                    seasonPassXP: 0,
-                    seasonId: 'season_1',
-                    isPremiumPass: false,
-                    claimedDailyRewards: [],
-                    claimedSeasonRewards: [],
-                    guildId: null,
-                    guildBonus: 0,
-                    totalChallengesCompleted: 0,
-                    weeklyStats: {
-                        weekStart: getWeekStartString(),
-                        wins: 0,
-                        gamesPlayed: 0,
-                        xpEarned: 0,
-                        challengesCompleted: 0
-                    },
-                    monthlyStats: {
-                        monthStart: getMonthStartString(),
-                        xpEarned: 0,
-                        challengesCompleted: 0,
-                        stardustEarned: 0
-                    },
-                    rankPoints: 0,
-                    unlockedCosmetics: [],
-                    unlockedTitles: [],
-                    equippedCosmetics: {
-                        trail: null,
-                        aura: null,
-                        pulse: null,
-                        color: null,
-                        title: null
-                    }
-                });
-                await this.saveProgression(progression);
-            }
-
-            // Check for weekly/monthly reset
-            const currentWeek = getWeekStartString();
-            const currentMonth = getMonthStartString();
-
-            let needsSave = false;
-            if (progression.weeklyStats.weekStart !== currentWeek) {
-                progression.weeklyStats = {
-                    weekStart: currentWeek,
-                    wins: 0,
-                    gamesPlayed: 0,
-                    xpEarned: 0,
-                    challengesCompleted: 0
-                };
-                needsSave = true;
-            }
+    async getProgression(playerId: string): Promise<ProgressionRecord> {
+        const currentWeek = getWeekStartString();
+        const currentMonth = getMonthStartString();
 
-            if (progression.monthlyStats.monthStart !== currentMonth) {
-                progression.monthlyStats = {
-                    monthStart: currentMonth,
-                    xpEarned: 0,
-                    challengesCompleted: 0,
-                    stardustEarned: 0
-                };
-                needsSave = true;
-            }
+        // The ledger may already have created the record with a first credit
+        const progression = await this.progressions.findOne({ playerId })
+            || (await this.progressions.update(
+                { playerId },
+                { $setOnInsert: { weeklyStats: freshWeeklyStats(currentWeek), monthlyStats: freshMonthlyStats(currentMonth) } },
+                { upsert: true }
+            ))!;
 
-            if (needsSave) {
-                await this.saveProgression(progression);
-            }
+        // Check for weekly/monthly reset
+        const resets: Partial<IProgression> = {};
+        if (progression.weeklyStats.weekStart !== currentWeek) {
+            resets.weeklyStats = freshWeeklyStats(currentWeek);
+        }
+        if (progression.monthlyStats.monthStart !== currentMonth) {
+            resets.monthlyStats = freshMonthlyStats(currentMonth);
+        }
 
-            return progression;
-        } else {
-            // In-memory fallback
-            let progression = this.memoryStore.get(playerId);
-            if (!progression) {
-                // Initialize default progression
-                progression = {
-                    playerId,
-                    stardust: 0,
-                    crystals: 0,
-                    dailyLoginStreak: 0,
-                    longestStreak: 0,
-                    totalLogins: 0,
-                    lastLoginDate: null,
-                    currentMonth: null,
-                    seasonPassTier: 0,
-                    seasonPassXP: 0,
-                    seasonId: 'season_1',
-                    isPremiumPass: false,
-                    claimedDailyRewards: [],
-                    claimedSeasonRewards: [],
-                    guildId: null,
-                    guildBonus: 0,
-                    totalChallengesCompleted: 0,
-                    weeklyStats: {
-                        weekStart: getWeekStartString(),
-                        wins: 0,
-                        gamesPlayed: 0,
-                        xpEarned: 0,
-                        challengesCompleted: 0
-                    },
-                    monthlyStats: {
-                        monthStart: getMonthStartString(),
-                        xpEarned: 0,
-                        challengesCompleted: 0,
-                        stardustEarned: 0
-                    },
-                    rankPoints: 0,
-                    unlockedCosmetics: [],
-                    unlockedTitles: [],
-                    equippedCosmetics: {
-                        trail: null,
-                        aura: null,
-                        pulse: null,
-                        color: null,
-                        title: null
-                    }
-                } as any;
-                this.memoryStore.set(playerId, progression!);
-            }
-            return progression!;
+        if (Object.keys(resets).length > 0) {
+            return (await this.progressions.update({ playerId }, { $set: resets })) || { ...progression, ...resets };
         }
+        return progression;
     }
 
     async updateProgression(playerId: string, updates: Partial<IProgression>): Promise<void> {
-        await Progression.findOneAndUpdate(
+        await this.progressions.update(
             { playerId },
             { $set: updates },
             { upsert: true }
         );
     }
 
-    async addStardust(playerId: string, amount: number): Promise<number> {
-        const result = await Progression.findOneAndUpdate(
-            { playerId },
-            {
-                $inc: {
-                    stardust: amount,
-                    'monthlyStats.stardustEarned': amount
-                }
-            },
-            { new: true, upsert: true }
-        );
-        return result?.stardust || 0;
-    }
-
-    async spendStardust(playerId: string, amount: number): Promise<{ success: boolean; remaining: number }> {
-        const progression = await Progression.findOne({ playerId });
-        if (!progression || progression.stardust < amount) {
-            return { success: false, remaining: progression?.stardust || 0 };
+    async addStardust(playerId: string, amount: number, info: EntryInfo): Promise<number> {
+        const result = await this.ledger.credit(playerId, 'stardust', amount, info);
+        if (result.success && !result.duplicate) {
+            await this.progressions.update({ playerId }, { $inc: { 'monthlyStats.stardustEarned': amount } });
         }
+        return result.balance;
+    }
 
-        progression.stardust -= amount;
-        await this.saveProgression(progression);
-        return { success: true, remaining: progression.stardust };
+    async spendStardust(playerId: string, amount: number, info: EntryInfo): Promise<{ success: boolean; remaining: number }> {
+        const result = await this.ledger.debit(playerId, 'stardust', amount, info);
+        return { success: result.success, remaining: result.balance };
     }
 
     async claimDailyReward(playerId: string): Promise<{ success: boolean; reward?: any; streakBonus?: number }> {
@@ -521,41 +445,53 @@ export class ProgressionService {
         }
 
         // Check streak
-        if (progression.lastLoginDate === yesterday) {
-            progression.dailyLoginStreak++;
-        } else if (progression.lastLoginDate !== today) {
-            progression.dailyLoginStreak = 1; // Reset streak
-        }
+        const dailyLoginStreak = progression.lastLoginDate === yesterday
+            ? progression.dailyLoginStreak + 1
+            : 1; // Reset streak
 
-        if (progression.dailyLoginStreak > progression.longestStreak) {
-            progression.longestStreak = progression.dailyLoginStreak;
+        // Only the claim that still sees the old login date moves the streak
+        const claimed = await this.progressions.update(
+            { playerId, lastLoginDate: progression.lastLoginDate },
+            {
+                $set: {
+                    dailyLoginStreak,
+                    longestStreak: Math.max(progression.longestStreak, dailyLoginStreak),
+                    lastLoginDate: today
+                },
+                $inc: { totalLogins: 1 }
+            }
+        );
+        if (!claimed) {
+            return { success: false };
         }
-        progression.totalLogins++;
-        progression.lastLoginDate = today;
 
         // Calculate reward based on streak day (30-day cycle)
-        const day = ((progression.dailyLoginStreak - 1) % 30) + 1;
+        const day = ((dailyLoginStreak - 1) % 30) + 1;
         const baseReward = 50 + (day * 5);
 
         // Streak bonus multiplier
         let streakBonus = 1;
-        if (progression.dailyLoginStreak >= 365) streakBonus = 10;
-        else if (progression.dailyLoginStreak >= 100) streakBonus = 3.5;
-        else if (progression.dailyLoginStreak >= 30) streakBonus = 2;
-        else if (progression.dailyLoginStreak >= 7) streakBonus = 1.25;
-        else if (progression.dailyLoginStreak >= 3) streakBonus = 1.1;
+        if (dailyLoginStreak >= 365) streakBonus = 10;
+        else if (dailyLoginStreak >= 100) streakBonus = 3.5;
+        else if (dailyLoginStreak >= 30) streakBonus = 2;
+        else if (dailyLoginStreak >= 7) streakBonus = 1.25;
+        else if (dailyLoginStreak >= 3) streakBonus = 1.1;
 
         const totalReward = Math.floor(baseReward * streakBonus);
-        progression.stardust += totalReward;
 
-        await this.saveProgression(progression);
+        await this.ledger.credit(playerId, 'stardust', totalReward, {
+            source: 'daily_reward',
+            reason: 'streak_reward',
+            idempotencyKey: `daily_reward:${playerId}:${today}`,
+            metadata: { day, streak: dailyLoginStreak }
+        });
 
         return {
             success: true,
             reward: {
                 stardust: totalReward,
                 day,
-                streak: progression.dailyLoginStreak
+                streak: dailyLoginStreak
             },
             streakBonus
         };
@@ -565,66 +501,109 @@ export class ProgressionService {
         const progression = await this.getProgression(playerId);
         const XP_PER_TIER = 1000;
 
-        progression.seasonPassXP += amount;
-        const oldTier = progression.seasonPassTier;
+        let seasonPassXP = progression.seasonPassXP + amount;
+        let seasonPassTier = progression.seasonPassTier;
 
-        while (progression.seasonPassXP >= XP_PER_TIER && progression.seasonPassTier < 100) {
-            progression.seasonPassXP -= XP_PER_TIER;
-            progression.seasonPassTier++;
+        while (seasonPassXP >= XP_PER_TIER && seasonPassTier < 100) {
+            seasonPassXP -= XP_PER_TIER;
+            seasonPassTier++;
         }
 
-        await this.saveProgression(progression);
+        await this.progressions.update({ playerId }, { $set: { seasonPassXP, seasonPassTier } });
 
         return {
-            tieredUp: progression.seasonPassTier > oldTier,
-            newTier: progression.seasonPassTier,
-            xpToNextTier: XP_PER_TIER - progression.seasonPassXP
+            tieredUp: seasonPassTier > progression.seasonPassTier,
+            newTier: seasonPassTier,
+            xpToNextTier: XP_PER_TIER - seasonPassXP
         };
     }
 
     async claimSeasonReward(playerId: string, tier: number): Promise<{ success: boolean; reward?: any }> {
-        const progression = await this.getProgression(playerId);
+        await this.getProgression(playerId);
 
-        if (tier > progression.seasonPassTier || progression.claimedSeasonRewards.includes(tier)) {
+        const claimed = await this.progressions.update(
+            { playerId, seasonPassTier: { $gte: tier }, claimedSeasonRewards: { $ne: tier } },
+            { $push: { claimedSeasonRewards: tier } }
+        );
+        if (!claimed) {
             return { success: false };
         }
 
-        progression.claimedSeasonRewards.push(tier);
-        await this.saveProgression(progression);
-
         // Return base reward (actual reward calculation based on tier in constants)
         return { success: true, reward: { tier, claimed: true } };
     }
 
     async addRankPoints(playerId: string, points: number): Promise<{ newPoints: number; newRank?: string }> {
         const progression = await this.getProgression(playerId);
-        progression.rankPoints = Math.max(0, progression.rankPoints + points);
-        await this.saveProgression(progression);
+        const rankPoints = Math.max(0, progression.rankPoints + points);
+        await this.progressions.update({ playerId }, { $set: { rankPoints } });
 
-        return { newPoints: progression.rankPoints };
+        return { newPoints: rankPoints };
     }
 
     async unlockCosmetic(playerId: string, cosmeticId: string): Promise<boolean> {
-        const result = await Progression.findOneAndUpdate(
+        const result = await this.progressions.update(
             { playerId },
             { $addToSet: { unlockedCosmetics: cosmeticId } },
-            { new: true, upsert: true }
+            { upsert: true }
         );
         return !!result;
     }
 
+    /**
+     * Debit stardust for a cosmetic, then grant it. The purchase id counts
+     * the player's earlier purchases of the item, so requests racing to buy
+     * it share one id and the ledger charges it once; the grant is keyed by
+     * the same id, so only one of them gets it and a purchase that was paid
+     * but never granted is granted on retry without paying again. Buying an
+     * item again after losing it is a new purchase, charged again.
+     */
+    async purchaseCosmetic(playerId: string, cosmeticId: string, price: number): Promise<{ success: boolean; remaining: number; purchaseId?: string; error?: string }> {
+        const progression = await this.getProgression(playerId);
+        if (progression.unlockedCosmetics.includes(cosmeticId)) {
+            return { success: false, remaining: progression.stardust, error: 'Cosmetic already owned' };
+        }
+
+        const earlier = (progression.cosmeticPurchases || []).filter(id => id.startsWith(`${cosmeticId}:`)).length;
+        const purchaseId = `${cosmeticId}:${earlier + 1}`;
+
+        let remaining = progression.stardust;
+        if (price > 0) {
+            const payment = await this.ledger.debit(playerId, 'stardust', price, {
+                source: 'shop',
+                reason: 'cosmetic',
+                idempotencyKey: `cosmetic_purchase:${playerId}:${purchaseId}`,
+                metadata: { itemType: 'cosmetic', itemId: cosmeticId, purchaseId }
+            });
+            if (!payment.success) {
+                return { success: false, remaining: payment.balance, error: payment.error };
+            }
+            remaining = payment.balance;
+        }
+
+        const granted = await this.progressions.update(
+            { playerId, cosmeticPurchases: { $ne: purchaseId } },
+            { $addToSet: { unlockedCosmetics: cosmeticId, cosmeticPurchases: purchaseId } }
+        );
+        if (!granted) {
+            return { success: false, remaining, error: 'Cosmetic already owned' };
+        }
+
+        return { success: true, remaining, purchaseId };
+    }
+
     async unlockTitle(playerId: string, titleId: string): Promise<boolean> {
-        const result = await Progression.findOneAndUpdate(
+        const result = await this.progressions.update(
             { playerId },
             { $addToSet: { unlockedTitles: titleId } },
-            { new: true, upsert: true }
+            { upsert: true }
         );
         return !!result;
     }
 
     async equipCosmetic(playerId: string, slot: 'trail' | 'aura' | 'pulse' | 'color' | 'title', cosmeticId: string | null): Promise<boolean> {
         const updateField = `equippedCosmetics.${slot}`;
-        await Progression.findOneAndUpdate(
+        await this.progressions.update(
             { playerId },
             { $set: { [updateField]: cosmeticId } }
         );
@@ -638,14 +617,15 @@ export class ProgressionService {
     async sendGift(fromPlayerId: string, toPlayerId: string, giftType: 'stardust' | 'cosmetic' | 'xpBoost' | 'fragment', amount: number, message?: string): Promise<{ success: boolean; giftId?: string }> {
         // Check cooldown (one gift per friend per day)
         const today = getTodayString();
-        const streak = await GiftStreak.findOne({ playerId: fromPlayerId, friendId: toPlayerId });
+        const yesterday = new Date(Date.now() - 86400000).toISOString().split('T')[0];
+        const streak = await this.giftStreaks.findOne({ playerId: fromPlayerId, friendId: toPlayerId });
 
         if (streak && streak.lastGiftDate === today) {
             return { success: false }; // Already sent today
         }
 
         // Create gift
-        const gift = new Gift({
+        const gift = await this.gifts.insert({
             fromPlayerId,
             toPlayerId,
             giftType,
@@ -653,20 +633,18 @@ export class ProgressionService {
             message,
             claimed: false
         });
-        await gift.save();
 
         // Update streak
-        await GiftStreak.findOneAndUpdate(
+        const currentStreak = streak?.lastGiftDate === yesterday ? (streak?.currentStreak || 0) + 1 : 1;
+        await this.giftStreaks.update(
             { playerId: fromPlayerId, friendId: toPlayerId },
             {
                 $inc: { totalGiftsSent: 1 },
                 $set: {
                     lastGiftDate: today,
-                    currentStreak: streak?.lastGiftDate === new Date(Date.now() - 86400000).toISOString().split('T')[0]
-                        ? (streak?.currentStreak || 0) + 1
-                        : 1
-                },
-                $max: { longestStreak: (streak?.currentStreak || 0) + 1 }
+                    currentStreak,
+                    longestStreak: Math.max(streak?.longestStreak || 0, currentStreak)
+                }
             },
             { upsert: true }
         );
@@ -674,41 +652,45 @@ export class ProgressionService {
         // Create activity feed entry for recipient
         await this.addActivityFeedEntry(toPlayerId, fromPlayerId, 'FromPlayer', 'gift', `sent you a ${giftType} gift!`);
 
-        return { success: true, giftId: gift._id.toString() };
+        return { success: true, giftId: String(gift._id) };
     }
 
-    async getPendingGifts(playerId: string): Promise<IGift[]> {
-        return await Gift.find({ toPlayerId: playerId, claimed: false }).sort({ createdAt: -1 });
+    async getPendingGifts(playerId: string): Promise<GiftRecord[]> {
+        return this.gifts.find({ toPlayerId: playerId, claimed: false }, { sort: { createdAt: -1 } });
     }
 
-    async claimGift(playerId: string, giftId: string): Promise<{ success: boolean; gift?: IGift }> {
-        const gift = await Gift.findOne({ _id: giftId, toPlayerId: playerId, claimed: false });
+    async claimGift(playerId: string, giftId: string): Promise<{ success: boolean; gift?: GiftRecord }> {
+        const gift = await this.gifts.update(
+            { _id: giftId, toPlayerId: playerId, claimed: false },
+            { $set: { claimed: true, claimedAt: new Date() } }
+        );
 
         if (!gift) {
             return { success: false };
         }
 
-        gift.claimed = true;
-        gift.claimedAt = new Date();
-        await gift.save();
-
         // Apply gift effect
         if (gift.giftType === 'stardust') {
-            await this.addStardust(playerId, gift.amount);
+            await this.addStardust(playerId, gift.amount, {
+                source: 'gift',
+                reason: 'claim',
+                idempotencyKey: `gift_claim:${gift._id}`,
+                metadata: { giftId: String(gift._id), fromPlayerId: gift.fromPlayerId }
+            });
         }
 
         return { success: true, gift };
     }
 
-    async getGiftStreak(playerId: string, friendId: string): Promise<IGiftStreak | null> {
-        return await GiftStreak.findOne({ playerId, friendId });
+    async getGiftStreak(playerId: string, friendId: string): Promise<GiftStreakRecord | null> {
+        return this.giftStreaks.findOne({ playerId, friendId });
     }
 
     // ========================================
     // GUILDS
     // ========================================
 
-    async createGuild(leaderId: string, name: string, tag: string, description?: string): Promise<{ success: boolean; guild?: IGuild; error?: string }> {
+    async createGuild(leaderId: string, name: string, tag: string, description?: string): Promise<{ success: boolean; guild?: GuildRecord; error?: string }> {
         // Check if player already in a guild
         const progression = await this.getProgression(leaderId);
         if (progression.guildId) {
@@ -716,18 +698,18 @@ export class ProgressionService {
         }
 
         // Check name/tag availability
-        const existing = await Guild.findOne({ $or: [{ name }, { tag: tag.toUpperCase() }] });
+        const existing = await this.guilds.findOne({ $or: [{ name }, { tag: tag.toUpperCase() }] });
         if (existing) {
             return { success: false, error: 'Guild name or tag already taken' };
         }
 
         const guildId = `guild_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-        
+
         // Get leader's player data for name
-        const leaderData = await PlayerData.findOne({ odaId: leaderId });
+        const leaderData = await this.players.findOne({ odaId: leaderId });
         const leaderName = leaderData?.name || 'Leader';
-        
-        const guild = new Guild({
+
+        const guild = await this.guilds.insert({
             guildId,
             name,
             tag: tag.toUpperCase(),
@@ -758,17 +740,14 @@ export class ProgressionService {
             minLevelToJoin: 1,
             requiresApproval: false
         });
-        await guild.save();
 
-        progression.guildId = guildId;
-        progression.guildBonus = 0.05;
-        await this.saveProgression(progression);
+        await this.progressions.update({ playerId: leaderId }, { $set: { guildId, guildBonus: 0.05 } });
 
         return { success: true, guild };
     }
 
     async joinGuild(playerId: string, guildId: string): Promise<{ success: boolean; error?: string }> {
-        const guild = await Guild.findOne({ guildId });
+        const guild = await this.guilds.findOne({ guildId });
         if (!guild) {
             return { success: false, error: 'Guild not found' };
         }
@@ -784,23 +763,32 @@ export class ProgressionService {
         }
 
         // Get player data for name
-        const playerData = await PlayerData.findOne({ odaId: playerId });
+        const playerData = await this.players.findOne({ odaId: playerId });
         const playerName = playerData?.name || 'Player';
 
-        guild.members.push({
-            playerId,
-            playerName,
-            role: 'member',
-            joinedAt: new Date(),
-            contributions: { stardust: 0, challenges: 0, xp: 0 },
-            lastActiveAt: new Date()
-        } as any);
-        await guild.save();
+        const joined = await this.guilds.update(
+            { guildId, 'members.playerId': { $ne: playerId } },
+            {
+                $push: {
+                    members: {
+                        playerId,
+                        playerName,
+                        role: 'member',
+                        joinedAt: new Date(),
+                        contributions: { stardust: 0, challenges: 0, xp: 0 },
+                        lastActiveAt: new Date()
+                    }
+                }
+            }
+        );
+        if (!joined) {
+            return { success: false, error: 'Already a member' };
+        }
 
         // Calculate XP bonus based on guild level (5% + 1% per level, max 50%)
         const xpBonus = Math.min(0.5, 0.05 + guild.level * 0.01);
-        
-        await Progression.findOneAndUpdate(
+
+        await this.progressions.update(
             { playerId },
             { $set: { guildId, guildBonus: xpBonus } }
         );
@@ -814,38 +802,30 @@ export class ProgressionService {
             return { success: false };
         }
 
-        const guild = await Guild.findOne({ guildId: progression.guildId });
+        const guild = await this.guilds.findOne({ guildId: progression.guildId });
         if (guild) {
             // Filter out the leaving member
             guild.members = guild.members.filter(m => m.playerId !== playerId);
 
-            // Transfer leadership if leader leaves
-            if (guild.leaderId === playerId) {
-                // Find officers first
-                const officers = guild.members.filter(m => m.role === 'officer');
-                if (officers.length > 0) {
-                    guild.leaderId = officers[0].playerId;
-                    guild.leaderName = officers[0].playerName;
-                    officers[0].role = 'leader';
-                } else if (guild.members.length > 0) {
-                    guild.leaderId = guild.members[0].playerId;
-                    guild.leaderName = guild.members[0].playerName;
-                    guild.members[0].role = 'leader';
-                } else {
-                    // Delete empty guild
-                    await Guild.deleteOne({ guildId: guild.guildId });
-                    progression.guildId = null;
-                    progression.guildBonus = 0;
-                    await this.saveProgression(progression);
-                    return { success: true };
+            if (guild.members.length === 0) {
+                // Delete empty guild
+                await this.guilds.delete({ guildId: guild.guildId });
+            } else {
+                // Transfer leadership if leader leaves, to an officer first
+                if (guild.leaderId === playerId) {
+                    const successor = guild.members.find(m => m.role === 'officer') || guild.members[0];
+                    guild.leaderId = successor.playerId;
+                    guild.leaderName = successor.playerName;
+                    successor.role = 'leader';
                 }
+                await this.guilds.update(
+                    { guildId: guild.guildId },
+                    { $set: { members: guild.members, leaderId: guild.leaderId, leaderName: guild.leaderName } }
+                );
             }
-            await guild.save();
         }
 
-        progression.guildId = null;
-        progression.guildBonus = 0;
-        await this.saveProgression(progression);
+        await this.progressions.update({ playerId }, { $set: { guildId: null, guildBonus: 0 } });
 
         return { success: true };
     }
@@ -856,58 +836,59 @@ export class ProgressionService {
             return { success: false };
         }
 
-        if (progression.stardust < stardust) {
+        const payment = await this.ledger.transfer(playerAccount(playerId), guildAccount(progression.guildId), 'stardust', stardust, {
+            source: 'guild',
+            reason: 'contribution',
+            metadata: { guildId: progression.guildId }
+        });
+        if (!payment.success) {
             return { success: false };
         }
 
-        progression.stardust -= stardust;
-        await this.saveProgression(progression);
-
-        const guild = await Guild.findOneAndUpdate(
-            { guildId: progression.guildId },
+        // Update guild and member contributions
+        const guild = await this.guilds.update(
+            { guildId: progression.guildId, 'members.playerId': playerId },
             {
                 $inc: {
                     'totalContributions.stardust': stardust,
                     'weeklyContributions.stardust': stardust,
+                    'members.$.contributions.stardust': stardust,
                     xp: Math.floor(stardust / 10)
-                }
-            },
-            { new: true }
+                },
+                $set: { 'members.$.lastActiveAt': new Date() }
+            }
         );
 
-        // Update member contributions
-        if (guild) {
-            const memberIndex = guild.members.findIndex(m => m.playerId === playerId);
-            if (memberIndex !== -1) {
-                guild.members[memberIndex].contributions.stardust += stardust;
-                guild.members[memberIndex].lastActiveAt = new Date();
+        // Level up guild if enough XP
+        if (guild && guild.xp >= guild.xpToNextLevel && guild.level < 50) {
+            let { xp, level, xpToNextLevel, maxMembers } = guild;
+            while (xp >= xpToNextLevel && level < 50) {
+                xp -= xpToNextLevel;
+                level++;
+                xpToNextLevel = 1000 * level;
+                maxMembers = 20 + level * 2;
             }
-            
-            // Level up guild if enough XP
-            while (guild.xp >= guild.xpToNextLevel && guild.level < 50) {
-                guild.xp -= guild.xpToNextLevel;
-                guild.level++;
-                guild.xpToNextLevel = 1000 * guild.level;
-                guild.maxMembers = 20 + guild.level * 2;
-            }
-            await guild.save();
+            await this.guilds.update(
+                { guildId: guild.guildId, level: guild.level },
+                { $set: { level, xpToNextLevel, maxMembers }, $inc: { xp: xp - guild.xp } }
+            );
         }
 
         return { success: true, newContributions: guild?.totalContributions };
     }
 
-    async getGuild(guildId: string): Promise<IGuild | null> {
-        return await Guild.findOne({ guildId });
+    async getGuild(guildId: string): Promise<GuildRecord | null> {
+        return this.guilds.findOne({ guildId });
     }
 
-    async searchGuilds(query: string, limit: number = 20): Promise<IGuild[]> {
-        return await Guild.find({
+    async searchGuilds(query: string, limit: number = 20): Promise<GuildRecord[]> {
+        return this.guilds.find({
             $or: [
                 { name: { $regex: query, $options: 'i' } },
                 { tag: { $regex: query, $options: 'i' } }
             ],
             isPublic: true
-        }).limit(limit);
+        }, { limit });
     }
 
     // ========================================
@@ -915,7 +896,7 @@ export class ProgressionService {
     // ========================================
 
     async addActivityFeedEntry(playerId: string, actorId: string, actorName: string, type: IActivityFeed['type'], description: string, data?: Record<string, any>): Promise<void> {
-        const entry = new ActivityFeed({
+        await this.activityFeed.insert({
             playerId,
             actorId,
             actorName,
@@ -924,23 +905,20 @@ export class ProgressionService {
             data,
             read: false
         });
-        await entry.save();
     }
 
-    async getActivityFeed(playerId: string, limit: number = 50): Promise<IActivityFeed[]> {
-        return await ActivityFeed.find({ playerId })
-            .sort({ createdAt: -1 })
-            .limit(limit);
+    async getActivityFeed(playerId: string, limit: number = 50): Promise<ActivityFeedRecord[]> {
+        return this.activityFeed.find({ playerId }, { sort: { createdAt: -1 }, limit });
     }
 
     async markFeedAsRead(playerId: string, entryIds?: string[]): Promise<void> {
         if (entryIds && entryIds.length > 0) {
-            await ActivityFeed.updateMany(
+            await this.activityFeed.updateMany(
                 { playerId, _id: { $in: entryIds } },
                 { $set: { read: true } }
             );
         } else {
-            await ActivityFeed.updateMany(
+            await this.activityFeed.updateMany(
                 { playerId },
                 { $set: { read: true } }
             );
@@ -948,7 +926,7 @@ export class ProgressionService {
     }
 
     async getUnreadCount(playerId: string): Promise<number> {
-        return await ActivityFeed.countDocuments({ playerId, read: false });
+        return this.activityFeed.count({ playerId, read: false });
     }
 
     // ========================================
@@ -956,20 +934,20 @@ export class ProgressionService {
     // ========================================
 
     async getProgressionLeaderboard(sortBy: 'stardust' | 'rankPoints' | 'dailyLoginStreak' | 'totalLogins' = 'rankPoints', limit: number = 50): Promise<any[]> {
-        const sortField = sortBy;
-        return await Progression.find()
-            .sort({ [sortField]: -1 })
-            .limit(limit)
-            .select('playerId stardust rankPoints dailyLoginStreak totalLogins seasonPassTier');
+        return this.progressions.find({}, {
+            sort: { [sortBy]: -1 },
+            limit,
+            fields: ['playerId', 'stardust', 'rankPoints', 'dailyLoginStreak', 'totalLogins', 'seasonPassTier']
+        });
     }
 
-    async getGuildLeaderboard(sortBy: 'level' | 'members' | 'contributions' = 'level', limit: number = 20): Promise<IGuild[]> {
-        let sortOption: any;
-        if (sortBy === 'level') sortOption = { level: -1, xp: -1 };
-        else if (sortBy === 'members') sortOption = { 'members.length': -1 };
-        else sortOption = { 'contributions.stardust': -1 };
+    async getGuildLeaderboard(sortBy: 'level' | 'members' | 'contributions' = 'level', limit: number = 20): Promise<GuildRecord[]> {
+        let sort: SortSpec;
+        if (sortBy === 'level') sort = { level: -1, xp: -1 };
+        else if (sortBy === 'members') sort = { 'members.length': -1 };
+        else sort = { 'contributions.stardust': -1 };
 
-        return await Guild.find().sort(sortOption).limit(limit);
+        return this.guilds.find({}, { sort, limit });
     }
 
     /**
@@ -6,7 +6,11 @@
 
 import { EventEmitter } from 'events';
 import { PlayerData } from '../database/playerDataModel.js';
+import { persistence } from '../persistence/index.js';
+import type { Repository } from '../persistence/index.js';
 import { achievementService } from './AchievementService.js';
+import { ledgerService } from './LedgerService.js';
+import type { PlayerDataRecord } from './PlayerDataService.js';
 
 // ============================================
 // PATTERN DEFINITIONS
@@ -99,6 +103,12 @@ class PulsePatternService extends EventEmitter {
     private playerStates: Map<string, PlayerPulseState> = new Map();
     private cooldowns: Map<string, Map<string, number>> = new Map(); // playerId -> patternId -> lastCompleteTime
     private readonly PATTERN_COOLDOWN = 60000; // 1 minute cooldown per pattern
+    private players: Repository<PlayerDataRecord>;
+
+    constructor(options: { players?: Repository<PlayerDataRecord> } = {}) {
+        super();
+        this.players = options.players || persistence.repository<PlayerDataRecord>(PlayerData);
+    }
 
     async initialize(): Promise<void> {
         if (this.initialized) return;
@@ -265,17 +275,15 @@ class PulsePatternService extends EventEmitter {
         };
 
         try {
-            // Award XP and stardust
-            if (result.xp > 0 || result.stardust > 0) {
-                await PlayerData.findOneAndUpdate(
-                    { playerId },
-                    {
-                        $inc: {
-                            xp: result.xp,
-                            stardust: result.stardust
-                        }
-                    }
-                );
+            // Award XP and stardust; stardust goes through the ledger
+            if (result.xp > 0) {
+                await this.players.update({ playerId }, { $inc: { xp: result.xp } });
+            }
+            if (result.stardust > 0) {
+                await ledgerService.credit(playerId, 'stardust', result.stardust, {
+                    source: 'pulse_pattern',
+                    reason: pattern.id
+                });
             }
 
             // Award achievement
@@ -284,11 +292,9 @@ class PulsePatternService extends EventEmitter {
             }
 
             // Track pattern usage
-            await PlayerData.findOneAndUpdate(
+            await this.players.update(
                 { playerId },
-                {
-                    $addToSet: { 'communication.signalPatterns': pattern.id }
-                }
+                { $addToSet: { 'communication.signalPatterns': pattern.id } }
             );
 
             this.emit('pattern_completed', { playerId, patternId: pattern.id, rewards: result });
@@ -313,7 +319,7 @@ class PulsePatternService extends EventEmitter {
         availablePatterns: string[];
     }> {
         try {
-            const player = await PlayerData.findOne({ playerId }).lean();
+            const player = await this.players.findOne({ playerId });
             const completedPatterns = player?.communication?.signalPatterns || [];
 
             return {
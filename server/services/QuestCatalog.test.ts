@@ -0,0 +1,103 @@
+// =============================================================================
+// QuestCatalog Tests - content parsing and cross-quest validation
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import {
+    loadQuestDirectory,
+    parseQuestFile,
+    validateQuestDefinitions,
+    isWithinTimeWindow,
+    type QuestDefinition
+} from './QuestCatalog.js';
+
+function quest(id: string, overrides: Partial<QuestDefinition> = {}): QuestDefinition {
+    return {
+        id,
+        name: id,
+        description: '',
+        type: 'story',
+        category: 'test',
+        objectives: [{ id: 'pulse', type: 'pulse', description: '', target: 1 }],
+        rewards: { xp: 10, stardust: 10 },
+        ...overrides
+    };
+}
+
+const messages = (quests: QuestDefinition[]) => validateQuestDefinitions(quests).map(issue => `${issue.questId}: ${issue.message}`);
+
+describe('QuestCatalog', () => {
+    it('ships content that validates', async () => {
+        const result = await loadQuestDirectory();
+        expect(result.issues).toEqual([]);
+        expect(result.quests.filter(q => q.type === 'daily').length).toBeGreaterThanOrEqual(3);
+        expect(result.quests.some(q => q.choices?.length)).toBe(true);
+    });
+
+    it('parses YAML with defaults and normalizes realm conditions', () => {
+        const { quests, issues } = parseQuestFile([
+            'quests:',
+            '  - id: night_walk',
+            '    name: Night Walk',
+            '    type: event',
+            '    objectives:',
+            '      - { id: walk, type: travel, target: 500, conditions: { realm: nebula, timeWindow: { startHour: 22, endHour: 4 } } }',
+            '    rewards: { stardust: 50 }'
+        ].join('\n'), 'events.yaml');
+
+        expect(issues).toEqual([]);
+        expect(quests[0].rewards).toEqual({ xp: 0, stardust: 50 });
+        expect(quests[0].category).toBe('general');
+        expect(quests[0].objectives[0].conditions?.realm).toEqual(['nebula']);
+    });
+
+    it('reports schema errors with the quest id and field path', () => {
+        const { quests, issues } = parseQuestFile(JSON.stringify([quest('bad', { rewards: { xp: -5, stardust: 0 } })]), 'bad.json');
+        expect(quests).toEqual([]);
+        expect(issues[0]).toMatchObject({ questId: 'bad', file: 'bad.json' });
+        expect(issues[0].message).toContain('rewards.xp');
+    });
+
+    it('rejects unknown objective types and missing prerequisites', () => {
+        expect(messages([
+            quest('a', { objectives: [{ id: 'x', type: 'teleport', description: '', target: 1 }] }),
+            quest('b', { requirements: { questsCompleted: ['ghost'] } })
+        ])).toEqual([
+            'a: Unknown objective type "teleport" in "x"',
+            'b: Requires unknown quest "ghost"'
+        ]);
+    });
+
+    it('finds prerequisite cycles', () => {
+        const issues = messages([
+            quest('a', { requirements: { questsCompleted: ['c'] } }),
+            quest('b', { requirements: { questsCompleted: ['a'] } }),
+            quest('c', { requirements: { questsCompleted: ['b'] } }),
+            quest('d')
+        ]);
+        expect(issues.some(message => message.includes('Prerequisite cycle'))).toBe(true);
+        expect(issues.some(message => message.startsWith('d:'))).toBe(false);
+    });
+
+    it('finds quests that need both sides of a branch', () => {
+        const fork = quest('fork', { choices: [{ id: 'left', label: 'Left' }, { id: 'right', label: 'Right' }] });
+        expect(messages([
+            fork,
+            quest('left_path', { requirements: { choices: ['fork:left'] } }),
+            quest('right_path', { requirements: { choices: ['fork:right'] } }),
+            quest('both', { requirements: { questsCompleted: ['left_path', 'right_path'] } }),
+            quest('typo', { requirements: { choices: ['fork:up'] } })
+        ])).toEqual([
+            'typo: Quest "fork" has no choice "up"',
+            'both: Unreachable: its prerequisites can never all be met'
+        ]);
+    });
+
+    it('checks time windows that wrap past midnight', () => {
+        const at = (hour: number) => Date.UTC(2026, 0, 1, hour);
+        expect(isWithinTimeWindow({ startHour: 20, endHour: 6 }, at(23))).toBe(true);
+        expect(isWithinTimeWindow({ startHour: 20, endHour: 6 }, at(3))).toBe(true);
+        expect(isWithinTimeWindow({ startHour: 20, endHour: 6 }, at(12))).toBe(false);
+        expect(isWithinTimeWindow({ startHour: 9, endHour: 17 }, at(17))).toBe(false);
+    });
+});
@@ -0,0 +1,409 @@
+// =============================================================================
+// Quest Catalog - Quest definitions loaded from content files
+// =============================================================================
+// Quests live in server/content/quests/*.yaml (or .json), one list per file:
+//
+//   quests:
+//     - id: story_1_2
+//       type: story
+//       requirements: { questsCompleted: [story_1_1] }
+//       objectives:
+//         - { id: pulse, type: pulse, target: 1, conditions: { realm: genesis } }
+//       choices:                  # Branch: the player picks one when claiming
+//         - { id: wanderer, label: Follow the comet }
+//
+// A quest that should only open on one branch lists it as
+// `requirements.choices: [story_1_2:wanderer]`.
+//
+// validateQuestDefinitions() catches what the schema cannot: unknown
+// objective types, prerequisites that do not exist, cycles and quests no
+// player can ever reach. The same checks run on reload and in the CLI
+// (scripts/validateQuests.ts), so broken content never replaces a good catalog.
+// =============================================================================
+
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { z } from 'zod';
+import YAML from 'yaml';
+
+export type QuestType = 'daily' | 'weekly' | 'story' | 'event' | 'achievement';
+export type QuestPartnerKind = 'friend' | 'bond';
+
+export interface QuestRewards {
+    xp: number;
+    stardust: number;
+    cosmetic?: string;
+    title?: string;
+    companion?: string;
+}
+
+export interface QuestRewardTableEntry {
+    weight: number;
+    rewards: Partial<QuestRewards>;
+}
+
+export interface ObjectiveConditions {
+    realm?: string[];                                   // Progress only counts in these realms
+    timeWindow?: { startHour: number; endHour: number }; // UTC hours, may wrap past midnight
+    withPartner?: QuestPartnerKind;                     // Progress needs a friend or bond partner present
+}
+
+export interface QuestObjectiveDefinition {
+    id: string;
+    type: string;
+    description: string;
+    target: number;
+    conditions?: ObjectiveConditions;
+}
+
+export interface QuestChoice {
+    id: string;
+    label: string;
+    description?: string;
+    rewards?: Partial<QuestRewards>;    // Added to the quest rewards when picked
+}
+
+export interface QuestDefinition {
+    id: string;
+    name: string;
+    description: string;
+    type: QuestType;
+    category: string;
+    chapter?: number;
+    objectives: QuestObjectiveDefinition[];
+    rewards: QuestRewards;
+    rewardTable?: QuestRewardTableEntry[];  // One entry rolled on claim, weighted
+    choices?: QuestChoice[];
+    requirements?: {
+        level?: number;
+        questsCompleted?: string[];
+        chapter?: number;
+        choices?: string[];                 // `<questId>:<choiceId>`
+    };
+    expirationHours?: number;
+}
+
+export interface QuestCatalogIssue {
+    questId: string | null;
+    file?: string;
+    message: string;
+}
+
+export interface QuestLoadResult {
+    quests: QuestDefinition[];
+    issues: QuestCatalogIssue[];
+    files: string[];
+}
+
+// Every objective type the server reports progress for
+export const OBJECTIVE_TYPES: ReadonlySet<string> = new Set([
+    'travel', 'discover_area', 'enter_realm',
+    'pulse', 'sing', 'emote', 'whisper', 'chat',
+    'bond', 'connection', 'meet_player', 'time_together', 'send_gift',
+    'light_star', 'collect_fragment', 'create_echo'
+]);
+
+export const DEFAULT_QUEST_DIR = process.env.QUEST_CONTENT_DIR
+    || path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../content/quests');
+
+// =========================================================================
+// Schema
+// =========================================================================
+
+const questId = z.string().regex(/^[a-z0-9_]+$/, 'Use lowercase letters, digits and underscores');
+
+const partialRewardsSchema = z.object({
+    xp: z.number().int().min(0).optional(),
+    stardust: z.number().int().min(0).optional(),
+    cosmetic: z.string().optional(),
+    title: z.string().optional(),
+    companion: z.string().optional()
+}).strict();
+
+const rewardsSchema = partialRewardsSchema.extend({
+    xp: z.number().int().min(0).default(0),
+    stardust: z.number().int().min(0).default(0)
+});
+
+const conditionsSchema = z.object({
+    realm: z.union([z.string(), z.array(z.string()).min(1)])
+        .transform(realm => Array.isArray(realm) ? realm : [realm])
+        .optional(),
+    timeWindow: z.object({
+        startHour: z.number().int().min(0).max(23),
+        endHour: z.number().int().min(0).max(24)
+    }).strict().optional(),
+    withPartner: z.enum(['friend', 'bond']).optional()
+}).strict();
+
+const questSchema = z.object({
+    id: questId,
+    name: z.string().min(1),
+    description: z.string().default(''),
+    type: z.enum(['daily', 'weekly', 'story', 'event', 'achievement']),
+    category: z.string().default('general'),
+    chapter: z.number().int().min(1).optional(),
+    objectives: z.array(z.object({
+        id: z.string().min(1),
+        type: z.string().min(1),
+        description: z.string().default(''),
+        target: z.number().int().min(1),
+        conditions: conditionsSchema.optional()
+    }).strict()).min(1),
+    rewards: rewardsSchema,
+    rewardTable: z.array(z.object({
+        weight: z.number().positive(),
+        rewards: partialRewardsSchema
+    }).strict()).min(1).optional(),
+    choices: z.array(z.object({
+        id: z.string().min(1),
+        label: z.string().min(1),
+        description: z.string().optional(),
+        rewards: partialRewardsSchema.optional()
+    }).strict()).min(2).optional(),
+    requirements: z.object({
+        level: z.number().int().min(1).optional(),
+        questsCompleted: z.array(questId).optional(),
+        chapter: z.number().int().min(1).optional(),
+        choices: z.array(z.string().regex(/^[a-z0-9_]+:[^:]+$/, 'Use <questId>:<choiceId>')).optional()
+    }).strict().optional(),
+    expirationHours: z.number().positive().optional()
+}).strict();
+
+const questFileSchema = z.union([
+    z.array(questSchema),
+    z.object({ quests: z.array(questSchema) }).strict().transform(file => file.quests)
+]);
+
+// =========================================================================
+// Loading
+// =========================================================================
+
+/**
+ * Parse one content file; `fileName` picks YAML or JSON and labels issues
+ */
+export function parseQuestFile(source: string, fileName: string): { quests: QuestDefinition[]; issues: QuestCatalogIssue[] } {
+    let raw: unknown;
+    try {
+        raw = /\.ya?ml$/i.test(fileName) ? YAML.parse(source) : JSON.parse(source);
+    } catch (error) {
+        return { quests: [], issues: [{ questId: null, file: fileName, message: `Cannot parse: ${(error as Error).message}` }] };
+    }
+
+    const result = questFileSchema.safeParse(raw);
+    if (!result.success) {
+        const issues = result.error.issues.map(issue => {
+            const index = issue.path.find(part => typeof part === 'number');
+            const entry = Array.isArray(raw) ? raw : (raw as any)?.quests;
+            const id = typeof index === 'number' && typeof entry?.[index]?.id === 'string' ? entry[index].id : null;
+            return { questId: id, file: fileName, message: `${issue.path.join('.')}: ${issue.message}` };
+        });
+        return { quests: [], issues };
+    }
+    return { quests: result.data as QuestDefinition[], issues: [] };
+}
+
+/**
+ * Load every .yaml/.yml/.json file in a directory and validate the result
+ */
+export async function loadQuestDirectory(dir: string = DEFAULT_QUEST_DIR): Promise<QuestLoadResult> {
+    let entries: string[];
+    try {
+        entries = (await fs.readdir(dir)).filter(name => /\.(ya?ml|json)$/i.test(name)).sort();
+    } catch (error) {
+        return { quests: [], files: [], issues: [{ questId: null, message: `Cannot read quest directory ${dir}: ${(error as Error).message}` }] };
+    }
+
+    const quests: QuestDefinition[] = [];
+    const issues: QuestCatalogIssue[] = [];
+    const origin = new Map<string, string>();
+
+    for (const name of entries) {
+        const parsed = parseQuestFile(await fs.readFile(path.join(dir, name), 'utf8'), name);
+        issues.push(...parsed.issues);
+        for (const quest of parsed.quests) {
+            origin.set(quest.id, name);
+            quests.push(quest);
+        }
+    }
+
+    for (const issue of validateQuestDefinitions(quests)) {
+        issues.push({ ...issue, file: issue.questId ? origin.get(issue.questId) : undefined });
+    }
+    return { quests, issues, files: entries };
+}
+
+// =========================================================================
+// Validation
+// =========================================================================
+
+/**
+ * Cross-quest checks: ids, objective types, prerequisites, cycles, reachability
+ */
+export function validateQuestDefinitions(quests: QuestDefinition[]): QuestCatalogIssue[] {
+    const issues: QuestCatalogIssue[] = [];
+    const byId = new Map<string, QuestDefinition>();
+
+    for (const quest of quests) {
+        if (byId.has(quest.id)) {
+            issues.push({ questId: quest.id, message: 'Duplicate quest id' });
+        }
+        byId.set(quest.id, quest);
+
+        const objectiveIds = new Set<string>();
+        for (const objective of quest.objectives) {
+            if (objectiveIds.has(objective.id)) {
+                issues.push({ questId: quest.id, message: `Duplicate objective id "${objective.id}"` });
+            }
+            objectiveIds.add(objective.id);
+            if (!OBJECTIVE_TYPES.has(objective.type)) {
+                issues.push({ questId: quest.id, message: `Unknown objective type "${objective.type}" in "${objective.id}"` });
+            }
+        }
+
+        const choiceIds = new Set<string>();
+        for (const choice of quest.choices || []) {
+            if (choiceIds.has(choice.id)) {
+                issues.push({ questId: quest.id, message: `Duplicate choice id "${choice.id}"` });
+            }
+            choiceIds.add(choice.id);
+        }
+    }
+
+    // Missing references
+    for (const quest of byId.values()) {
+        for (const required of quest.requirements?.questsCompleted || []) {
+            if (!byId.has(required)) {
+                issues.push({ questId: quest.id, message: `Requires unknown quest "${required}"` });
+            }
+        }
+        for (const required of quest.requirements?.choices || []) {
+            const [ownerId, choiceId] = required.split(':');
+            const owner = byId.get(ownerId);
+            if (!owner) {
+                issues.push({ questId: quest.id, message: `Requires a choice of unknown quest "${ownerId}"` });
+            } else if (!owner.choices?.some(choice => choice.id === choiceId)) {
+                issues.push({ questId: quest.id, message: `Quest "${ownerId}" has no choice "${choiceId}"` });
+            }
+        }
+    }
+
+    // Cycles and reachability. A quest is reachable when every quest it
+    // depends on is, and its dependencies never need two different choices
+    // of the same quest.
+    const state = new Map<string, 'visiting' | 'done'>();
+    const neededChoices = new Map<string, Map<string, string> | null>();   // null = unreachable
+    const reportedCycles = new Set<string>();
+
+    const visit = (quest: QuestDefinition): Map<string, string> | null => {
+        if (state.get(quest.id) === 'done') return neededChoices.get(quest.id)!;
+        if (state.get(quest.id) === 'visiting') return null;
+        state.set(quest.id, 'visiting');
+
+        const choices = new Map<string, string>();
+        let reachable = true;
+        const merge = (from: Map<string, string>) => {
+            for (const [ownerId, choiceId] of from) {
+                if (choices.has(ownerId) && choices.get(ownerId) !== choiceId) reachable = false;
+                choices.set(ownerId, choiceId);
+            }
+        };
+
+        const dependencies = [
+            ...(quest.requirements?.questsCompleted || []),
+            ...(quest.requirements?.choices || []).map(required => required.split(':')[0])
+        ];
+        for (const dependencyId of dependencies) {
+            const dependency = byId.get(dependencyId);
+            if (!dependency) {
+                reachable = false;
+                continue;
+            }
+            if (state.get(dependencyId) === 'visiting') {
+                const key = [quest.id, dependencyId].sort().join('|');
+                if (!reportedCycles.has(key)) {
+                    reportedCycles.add(key);
+                    issues.push({ questId: quest.id, message: `Prerequisite cycle through "${dependencyId}"` });
+                }
+                reachable = false;
+                continue;
+            }
+            const upstream = visit(dependency);
+            if (upstream === null) reachable = false;
+            else merge(upstream);
+        }
+
+        for (const required of quest.requirements?.choices || []) {
+            const [ownerId, choiceId] = required.split(':');
+            merge(new Map([[ownerId, choiceId]]));
+        }
+
+        const result = reachable ? choices : null;
+        state.set(quest.id, 'done');
+        neededChoices.set(quest.id, result);
+        return result;
+    };
+
+    for (const quest of byId.values()) {
+        if (visit(quest) === null && !issues.some(issue => issue.questId === quest.id)) {
+            issues.push({ questId: quest.id, message: 'Unreachable: its prerequisites can never all be met' });
+        }
+    }
+
+    return issues;
+}
+
+// =========================================================================
+// Catalog
+// =========================================================================
+
+export class QuestCatalog {
+    private quests = new Map<string, QuestDefinition>();
+
+    constructor(quests: QuestDefinition[] = []) {
+        for (const quest of quests) {
+            this.quests.set(quest.id, quest);
+        }
+    }
+
+    get size(): number {
+        return this.quests.size;
+    }
+
+    get(questId: string): QuestDefinition | null {
+        return this.quests.get(questId) || null;
+    }
+
+    all(): QuestDefinition[] {
+        return Array.from(this.quests.values());
+    }
+
+    byType(type: QuestType): QuestDefinition[] {
+        return this.all().filter(quest => quest.type === type);
+    }
+}
+
+/**
+ * True when the UTC hour of `now` falls inside the window
+ */
+export function isWithinTimeWindow(window: { startHour: number; endHour: number }, now: number): boolean {
+    const hour = new Date(now).getUTCHours();
+    if (window.startHour <= window.endHour) {
+        return hour >= window.startHour && hour < window.endHour;
+    }
+    return hour >= window.startHour || hour < window.endHour;
+}
+
+/**
+ * Pick one reward table entry by weight
+ */
+export function rollRewardTable(table: QuestRewardTableEntry[], random: () => number = Math.random): Partial<QuestRewards> {
+    const total = table.reduce((sum, entry) => sum + entry.weight, 0);
+    let roll = random() * total;
+    for (const entry of table) {
+        roll -= entry.weight;
+        if (roll < 0) return entry.rewards;
+    }
+    return table[table.length - 1].rewards;
+}
@@ -0,0 +1,103 @@
+// =============================================================================
+// QuestService Tests - branches, objective conditions and content reloads
+// =============================================================================
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { QuestService, PlayerQuests } from './QuestService.js';
+import { MemoryRepository } from '../persistence/index.js';
+import type { QuestDefinition } from './QuestCatalog.js';
+
+const QUESTS: QuestDefinition[] = [
+    {
+        id: 'fork', name: 'Fork', description: '', type: 'story', category: 'test', chapter: 2,
+        objectives: [{ id: 'pulse', type: 'pulse', description: '', target: 1 }],
+        rewards: { xp: 100, stardust: 50 },
+        choices: [
+            { id: 'left', label: 'Left', rewards: { stardust: 25 } },
+            { id: 'right', label: 'Right', rewards: { title: 'Rightward' } }
+        ]
+    },
+    {
+        id: 'left_path', name: 'Left', description: '', type: 'story', category: 'test',
+        objectives: [{ id: 'stars', type: 'light_star', description: '', target: 2, conditions: { realm: ['nebula'] } }],
+        rewards: { xp: 10, stardust: 10 },
+        requirements: { choices: ['fork:left'] }
+    },
+    {
+        id: 'right_path', name: 'Right', description: '', type: 'story', category: 'test',
+        objectives: [{ id: 'sing', type: 'sing', description: '', target: 1, conditions: { withPartner: 'friend' } }],
+        rewards: { xp: 10, stardust: 10 },
+        requirements: { choices: ['fork:right'] }
+    }
+];
+
+describe('QuestService', () => {
+    let service: QuestService;
+    const friends = new Set(['p1|buddy']);
+
+    beforeEach(() => {
+        service = new QuestService({
+            partnerCheck: async (playerId, partnerId) => friends.has(`${playerId}|${partnerId}`),
+            repository: new MemoryRepository([], PlayerQuests)
+        });
+        expect(service.setQuests(QUESTS).success).toBe(true);
+    });
+
+    async function finishFork(playerId: string, choiceId?: string) {
+        await service.startQuest(playerId, 'fork');
+        await service.updateQuestProgress(playerId, 'pulse');
+        return service.claimQuestReward(playerId, 'fork', choiceId);
+    }
+
+    it('requires a choice to claim a branching quest and unlocks only that branch', async () => {
+        expect((await finishFork('p1')).error).toBe('Choose a path to claim this quest');
+
+        const claimed = await service.claimQuestReward('p1', 'fork', 'left');
+        expect(claimed).toMatchObject({ success: true, choiceId: 'left', rewards: { xp: 100, stardust: 75 } });
+
+        const available = (await service.getAvailableStoryQuests('p1')).map(q => q.id);
+        expect(available).toEqual(['left_path']);
+        expect((await service.startQuest('p1', 'right_path')).error).toBe('Quest requirements not met');
+        expect((await service.getQuestStats('p1')).storyProgress.chapter).toBe(2);
+    });
+
+    it('only counts realm-limited objectives in that realm', async () => {
+        await finishFork('p2', 'left');
+        await service.startQuest('p2', 'left_path');
+
+        expect((await service.updateQuestProgress('p2', 'light_star', 2, { realm: 'genesis' })).updated).toBe(false);
+        const result = await service.updateQuestProgress('p2', 'light_star', 2, { realm: 'nebula' });
+        expect(result).toEqual({ updated: true, completedQuests: ['left_path'] });
+    });
+
+    it('only counts partner objectives with a real friend', async () => {
+        await finishFork('p1', 'right');
+        await service.startQuest('p1', 'right_path');
+
+        expect((await service.updateQuestProgress('p1', 'sing', 1)).updated).toBe(false);
+        expect((await service.updateQuestProgress('p1', 'sing', 1, { partnerId: 'stranger' })).updated).toBe(false);
+        expect((await service.updateQuestProgress('p1', 'sing', 1, { partnerId: 'buddy' })).completedQuests).toEqual(['right_path']);
+    });
+
+    it('keeps the current quests when reloaded content is invalid', async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'quests-'));
+        try {
+            const reloading = new QuestService({ questDir: dir });
+            fs.writeFileSync(path.join(dir, 'good.json'), JSON.stringify([QUESTS[0]]));
+            expect(await reloading.reloadQuests()).toMatchObject({ success: true, questCount: 1 });
+
+            fs.writeFileSync(path.join(dir, 'bad.yaml'), 'quests:\n  - id: loop\n    name: Loop\n    type: story\n'
+                + '    objectives: [{ id: a, type: pulse, target: 1 }]\n    rewards: { xp: 1 }\n'
+                + '    requirements: { questsCompleted: [loop] }\n');
+            const result = await reloading.reloadQuests();
+            expect(result.success).toBe(false);
+            expect(result.issues[0]).toMatchObject({ questId: 'loop', file: 'bad.yaml' });
+            expect(reloading.getAllQuests().map(q => q.id)).toEqual(['fork']);
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
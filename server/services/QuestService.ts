@@ -1,8 +1,23 @@
 // Quest Service - Manages quests, objectives, and rewards
 // Supports daily, weekly, story, and event quests
+// Quest definitions come from content files, see QuestCatalog.ts
 
 import mongoose, { Schema, Document, Model } from 'mongoose';
 import { mongoPersistence } from './MongoPersistenceService.js';
+import { persistence } from '../persistence/index.js';
+import type { Stored, Repository } from '../persistence/index.js';
+import { bondService } from './BondService.js';
+import {
+    QuestCatalog,
+    loadQuestDirectory,
+    validateQuestDefinitions,
+    isWithinTimeWindow,
+    rollRewardTable,
+    DEFAULT_QUEST_DIR
+} from './QuestCatalog.js';
+import type { QuestDefinition, QuestRewards, QuestCatalogIssue, QuestPartnerKind } from './QuestCatalog.js';
+
+export type { QuestDefinition } from './QuestCatalog.js';
 
 // ============================================
 // DATABASE MODELS
@@ -35,6 +50,7 @@ export interface IPlayerQuests extends Document {
     // Quest categories
     activeQuestIds: string[];
     completedQuestIds: string[];
+    questChoices: string[];          // Branches taken, `<questId>:<choiceId>`
 
     // Daily/Weekly tracking
     dailyQuestDate: string | null;
@@ -57,7 +73,7 @@ export interface IPlayerQuests extends Document {
 const QuestObjectiveSchema = new Schema({
     id: { type: String, required: true },
     type: { type: String, required: true },
-    description: { type: String, required: true },
+    description: { type: String, default: '' },    // Catalog objectives may leave it empty
     target: { type: Number, required: true },
     progress: { type: Number, default: 0 },
     completed: { type: Boolean, default: false }
@@ -86,6 +102,7 @@ const PlayerQuestsSchema = new Schema<IPlayerQuests>({
     quests: [QuestSchema],
     activeQuestIds: { type: [String], default: [] },
     completedQuestIds: { type: [String], default: [] },
+    questChoices: { type: [String], default: [] },
     dailyQuestDate: { type: String, default: null },
     weeklyQuestDate: { type: String, default: null },
     dailyQuestsCompleted: { type: Number, default: 0 },
@@ -101,185 +118,7 @@ const PlayerQuestsSchema = new Schema<IPlayerQuests>({
 
 export const PlayerQuests: Model<IPlayerQuests> = mongoose.model<IPlayerQuests>('PlayerQuests', PlayerQuestsSchema);
 
-// ============================================
-// QUEST DEFINITIONS
-// ============================================
-
-export interface QuestDefinition {
-    id: string;
-    name: string;
-    description: string;
-    type: 'daily' | 'weekly' | 'story' | 'event' | 'achievement';
-    category: string;
-    objectives: {
-        id: string;
-        type: string;
-        description: string;
-        target: number;
-    }[];
-    rewards: {
-        xp: number;
-        stardust: number;
-        cosmetic?: string;
-        title?: string;
-        companion?: string;
-    };
-    requirements?: {
-        level?: number;
-        questsCompleted?: string[];
-        chapter?: number;
-    };
-    expirationHours?: number;
-}
-
-// Daily quest templates
-const DAILY_QUEST_TEMPLATES: QuestDefinition[] = [
-    {
-        id: 'daily_explorer',
-        name: 'Daily Explorer',
-        description: 'Explore the realm and discover new areas',
-        type: 'daily',
-        category: 'exploration',
-        objectives: [
-            { id: 'travel', type: 'travel', description: 'Travel 1000 units', target: 1000 },
-            { id: 'discover', type: 'discover_area', description: 'Discover 3 new areas', target: 3 }
-        ],
-        rewards: { xp: 100, stardust: 200 },
-        expirationHours: 24
-    },
-    {
-        id: 'daily_social',
-        name: 'Social Butterfly',
-        description: 'Connect with other players',
-        type: 'daily',
-        category: 'social',
-        objectives: [
-            { id: 'pulse', type: 'pulse', description: 'Send 5 pulses', target: 5 },
-            { id: 'bond', type: 'bond', description: 'Strengthen 2 bonds', target: 2 }
-        ],
-        rewards: { xp: 75, stardust: 150 },
-        expirationHours: 24
-    },
-    {
-        id: 'daily_starkeeper',
-        name: 'Star Keeper',
-        description: 'Light up the cosmos',
-        type: 'daily',
-        category: 'beacon',
-        objectives: [
-            { id: 'stars', type: 'light_star', description: 'Light 20 stars', target: 20 },
-            { id: 'sing', type: 'sing', description: 'Perform 10 sings', target: 10 }
-        ],
-        rewards: { xp: 100, stardust: 200 },
-        expirationHours: 24
-    },
-    {
-        id: 'daily_collector',
-        name: 'Fragment Hunter',
-        description: 'Collect fragments across the realm',
-        type: 'daily',
-        category: 'collect',
-        objectives: [
-            { id: 'fragments', type: 'collect_fragment', description: 'Collect 15 fragments', target: 15 }
-        ],
-        rewards: { xp: 50, stardust: 100 },
-        expirationHours: 24
-    }
-];
-
-// Weekly quest templates
-const WEEKLY_QUEST_TEMPLATES: QuestDefinition[] = [
-    {
-        id: 'weekly_champion',
-        name: 'Weekly Champion',
-        description: 'Complete major goals this week',
-        type: 'weekly',
-        category: 'general',
-        objectives: [
-            { id: 'stars', type: 'light_star', description: 'Light 100 stars', target: 100 },
-            { id: 'bonds', type: 'bond', description: 'Form 10 bonds', target: 10 },
-            { id: 'echoes', type: 'create_echo', description: 'Create 5 echoes', target: 5 }
-        ],
-        rewards: { xp: 500, stardust: 1000 },
-        expirationHours: 168
-    },
-    {
-        id: 'weekly_social_master',
-        name: 'Social Master',
-        description: 'Become a beacon of connection',
-        type: 'weekly',
-        category: 'social',
-        objectives: [
-            { id: 'connections', type: 'connection', description: 'Make 20 connections', target: 20 },
-            { id: 'gifts', type: 'send_gift', description: 'Send 5 gifts', target: 5 },
-            { id: 'whispers', type: 'whisper', description: 'Send 30 whispers', target: 30 }
-        ],
-        rewards: { xp: 400, stardust: 800, cosmetic: 'weekly_social_trail' },
-        expirationHours: 168
-    }
-];
-
-// Story quests (chapter-based)
-const STORY_QUESTS: QuestDefinition[] = [
-    {
-        id: 'story_1_1',
-        name: 'Awakening',
-        description: 'Your journey begins in the realm of Genesis',
-        type: 'story',
-        category: 'chapter_1',
-        objectives: [
-            { id: 'move', type: 'travel', description: 'Take your first steps (100 units)', target: 100 },
-            { id: 'star', type: 'light_star', description: 'Light your first star', target: 1 }
-        ],
-        rewards: { xp: 50, stardust: 100 },
-        requirements: { chapter: 1 }
-    },
-    {
-        id: 'story_1_2',
-        name: 'First Connection',
-        description: 'Discover you are not alone',
-        type: 'story',
-        category: 'chapter_1',
-        objectives: [
-            { id: 'meet', type: 'meet_player', description: 'Encounter another being', target: 1 },
-            { id: 'pulse', type: 'pulse', description: 'Send a pulse to connect', target: 1 }
-        ],
-        rewards: { xp: 100, stardust: 200 },
-        requirements: { questsCompleted: ['story_1_1'] }
-    },
-    {
-        id: 'story_1_3',
-        name: 'The First Bond',
-        description: 'Form a meaningful connection',
-        type: 'story',
-        category: 'chapter_1',
-        objectives: [
-            { id: 'bond', type: 'bond', description: 'Form your first bond', target: 1 },
-            { id: 'time', type: 'time_together', description: 'Spend time near another player (60 seconds)', target: 60 }
-        ],
-        rewards: { xp: 150, stardust: 300, title: 'Bonded Soul' },
-        requirements: { questsCompleted: ['story_1_2'] }
-    },
-    {
-        id: 'story_2_1',
-        name: 'Beyond Genesis',
-        description: 'The wider cosmos awaits',
-        type: 'story',
-        category: 'chapter_2',
-        objectives: [
-            { id: 'realm', type: 'enter_realm', description: 'Visit a new realm', target: 1 },
-            { id: 'explore', type: 'travel', description: 'Explore 2000 units', target: 2000 }
-        ],
-        rewards: { xp: 200, stardust: 400 },
-        requirements: { questsCompleted: ['story_1_3'], level: 5 }
-    }
-];
-
-// Combine all quest definitions
-const ALL_QUESTS = new Map<string, QuestDefinition>();
-[...DAILY_QUEST_TEMPLATES, ...WEEKLY_QUEST_TEMPLATES, ...STORY_QUESTS].forEach(q => {
-    ALL_QUESTS.set(q.id, q);
-});
+export type PlayerQuestsRecord = Stored<IPlayerQuests>;
 
 // ============================================
 // QUEST SERVICE CLASS
@@ -297,86 +136,117 @@ function getWeekStartString(): string {
     return monday.toISOString().split('T')[0];
 }
 
+/**
+ * Whether two players are friends or bonded, for objectives that need a partner
+ */
+export type QuestPartnerCheck = (playerId: string, partnerId: string, kind: QuestPartnerKind) => Promise<boolean>;
+
+export interface ObjectiveContext {
+    realm?: string;
+    partnerId?: string;          // Player the action was done with
+    now?: number;
+}
+
+export interface QuestReloadResult {
+    success: boolean;
+    questCount: number;
+    issues: QuestCatalogIssue[];
+}
+
+const defaultPartnerCheck: QuestPartnerCheck = async (playerId, partnerId, kind) => {
+    if (kind === 'friend') {
+        return mongoPersistence.areFriends(playerId, partnerId);
+    }
+    // Bonds still live on their model, which needs MongoDB
+    if (!mongoPersistence.isReady()) return false;
+    const bond = await bondService.getBond(playerId, partnerId);
+    return !!bond && bond.strength > 0;
+};
+
 export class QuestService {
     private initialized: boolean = false;
-    private memoryStore: Map<string, IPlayerQuests> = new Map();
+    private catalog = new QuestCatalog();
+    private questDir: string;
+    private partnerCheck: QuestPartnerCheck;
+    private playerQuests: Repository<PlayerQuestsRecord>;
+
+    constructor(options: {
+        questDir?: string;
+        partnerCheck?: QuestPartnerCheck;
+        repository?: Repository<PlayerQuestsRecord>;
+    } = {}) {
+        this.questDir = options.questDir || DEFAULT_QUEST_DIR;
+        this.partnerCheck = options.partnerCheck || defaultPartnerCheck;
+        this.playerQuests = options.repository || persistence.repository<PlayerQuestsRecord>(PlayerQuests);
+    }
 
     async init(): Promise<void> {
         if (this.initialized) return;
+        const result = await this.reloadQuests();
+        if (!result.success) {
+            console.error(`📜 Quest content in ${this.questDir} has ${result.issues.length} issue(s); no quests loaded`);
+        }
         this.initialized = true;
-        console.log('📜 Quest service initialized');
+        console.log(`📜 Quest service initialized (${this.catalog.size} quests)`);
     }
 
-    isReady(): boolean {
-        return this.initialized;
+    /**
+     * Re-read the quest content directory. The current catalog stays in
+     * place unless the new content validates cleanly.
+     */
+    async reloadQuests(): Promise<QuestReloadResult> {
+        const loaded = await loadQuestDirectory(this.questDir);
+        if (loaded.issues.length > 0) {
+            for (const issue of loaded.issues) {
+                console.error(`[Quests] ${issue.file || this.questDir}${issue.questId ? ` (${issue.questId})` : ''}: ${issue.message}`);
+            }
+            return { success: false, questCount: this.catalog.size, issues: loaded.issues };
+        }
+        return this.setQuests(loaded.quests);
     }
 
-    private useMongo(): boolean {
-        return mongoPersistence.isReady();
+    /**
+     * Replace the catalog with the given definitions if they validate
+     */
+    setQuests(quests: QuestDefinition[]): QuestReloadResult {
+        const issues = validateQuestDefinitions(quests);
+        if (issues.length === 0) {
+            this.catalog = new QuestCatalog(quests);
+        }
+        return { success: issues.length === 0, questCount: this.catalog.size, issues };
     }
 
-    private async savePlayerQuests(data: IPlayerQuests | any): Promise<void> {
-        if (this.useMongo() && typeof data.save === 'function') {
-            await data.save();
-        } else {
-            // In-memory save (update timestamp)
-            data.updatedAt = new Date();
-            this.memoryStore.set(data.playerId, data);
-        }
+    isReady(): boolean {
+        return this.initialized;
+    }
+
+    private async savePlayerQuests(data: PlayerQuestsRecord): Promise<void> {
+        await this.playerQuests.save({ playerId: data.playerId }, data);
     }
 
     // ========================================
     // DATA ACCESS
     // ========================================
 
-    async getPlayerQuests(playerId: string): Promise<IPlayerQuests> {
-        if (this.useMongo()) {
-            let data = await PlayerQuests.findOne({ playerId });
-
-            if (!data) {
-                data = new PlayerQuests({
-                    playerId,
-                    quests: [],
-                    activeQuestIds: [],
-                    completedQuestIds: [],
-                    dailyQuestDate: null,
-                    weeklyQuestDate: null,
-                    dailyQuestsCompleted: 0,
-                    weeklyQuestsCompleted: 0,
-                    storyChapter: 1,
-                    storyProgress: 0,
-                    totalQuestsCompleted: 0,
-                    totalRewardsClaimed: 0
-                });
-                await this.savePlayerQuests(data);
-            }
-            return data;
-        } else {
-            // In-memory fallback
-            let data = this.memoryStore.get(playerId);
-            if (!data) {
-                const now = new Date();
-                // Create a plain object that mimics IPlayerQuests structure
-                data = {
-                    playerId,
-                    quests: [],
-                    activeQuestIds: [],
-                    completedQuestIds: [],
-                    dailyQuestDate: null,
-                    weeklyQuestDate: null,
-                    dailyQuestsCompleted: 0,
-                    weeklyQuestsCompleted: 0,
-                    storyChapter: 1,
-                    storyProgress: 0,
-                    totalQuestsCompleted: 0,
-                    totalRewardsClaimed: 0,
-                    createdAt: now,
-                    updatedAt: now
-                } as any; // Cast to any to bypass Document methods
-                this.memoryStore.set(playerId, data!);
-            }
-            return data!;
-        }
+    async getPlayerQuests(playerId: string): Promise<PlayerQuestsRecord> {
+        const data = await this.playerQuests.findOne({ playerId });
+        if (data) return data;
+
+        return this.playerQuests.insert({
+            playerId,
+            quests: [],
+            activeQuestIds: [],
+            completedQuestIds: [],
+            questChoices: [],
+            dailyQuestDate: null,
+            weeklyQuestDate: null,
+            dailyQuestsCompleted: 0,
+            weeklyQuestsCompleted: 0,
+            storyChapter: 1,
+            storyProgress: 0,
+            totalQuestsCompleted: 0,
+            totalRewardsClaimed: 0
+        });
     }
 
     // ========================================
@@ -393,22 +263,22 @@ export class QuestService {
         }
 
         return data.quests.filter(q => {
-            const def = ALL_QUESTS.get(q.questId);
+            const def = this.catalog.get(q.questId);
             return def?.type === 'daily' && q.status !== 'expired';
         });
     }
 
-    private async generateDailyQuests(playerId: string, data: IPlayerQuests): Promise<void> {
+    private async generateDailyQuests(playerId: string, data: PlayerQuestsRecord): Promise<void> {
         // Mark old daily quests as expired
         for (const quest of data.quests) {
-            const def = ALL_QUESTS.get(quest.questId);
+            const def = this.catalog.get(quest.questId);
             if (def?.type === 'daily' && quest.status === 'active') {
                 quest.status = 'expired';
             }
         }
 
         // Pick 3 random daily quests
-        const shuffled = [...DAILY_QUEST_TEMPLATES].sort(() => Math.random() - 0.5);
+        const shuffled = this.catalog.byType('daily').sort(() => Math.random() - 0.5);
         const selected = shuffled.slice(0, 3);
 
         for (const template of selected) {
@@ -449,22 +319,22 @@ export class QuestService {
         }
 
         return data.quests.filter(q => {
-            const def = ALL_QUESTS.get(q.questId);
+            const def = this.catalog.get(q.questId);
             return def?.type === 'weekly' && q.status !== 'expired';
         });
     }
 
-    private async generateWeeklyQuests(playerId: string, data: IPlayerQuests): Promise<void> {
+    private async generateWeeklyQuests(playerId: string, data: PlayerQuestsRecord): Promise<void> {
         // Mark old weekly quests as expired
         for (const quest of data.quests) {
-            const def = ALL_QUESTS.get(quest.questId);
+            const def = this.catalog.get(quest.questId);
             if (def?.type === 'weekly' && quest.status === 'active') {
                 quest.status = 'expired';
             }
         }
 
         // Add all weekly quests
-        for (const template of WEEKLY_QUEST_TEMPLATES) {
+        for (const template of this.catalog.byType('weekly')) {
             const quest: IQuest = {
                 questId: template.id,
                 status: 'available',
@@ -496,23 +366,23 @@ export class QuestService {
     async getAvailableStoryQuests(playerId: string): Promise<QuestDefinition[]> {
         const data = await this.getPlayerQuests(playerId);
 
-        return STORY_QUESTS.filter(quest => {
+        return this.catalog.byType('story').filter(quest => {
             // Already completed?
             if (data.completedQuestIds.includes(quest.id)) return false;
-
-            // Check requirements
-            if (quest.requirements) {
-                if (quest.requirements.questsCompleted) {
-                    for (const reqQuestId of quest.requirements.questsCompleted) {
-                        if (!data.completedQuestIds.includes(reqQuestId)) return false;
-                    }
-                }
-            }
-
-            return true;
+            return this.meetsRequirements(data, quest);
         });
     }
 
+    /**
+     * Prerequisite quests claimed and the required branches taken
+     */
+    private meetsRequirements(data: PlayerQuestsRecord, quest: QuestDefinition): boolean {
+        const completed = quest.requirements?.questsCompleted || [];
+        const choices = quest.requirements?.choices || [];
+        return completed.every(id => data.completedQuestIds.includes(id))
+            && choices.every(choice => (data.questChoices || []).includes(choice));
+    }
+
     // ========================================
     // QUEST ACTIONS
     // ========================================
@@ -522,12 +392,16 @@ export class QuestService {
         error?: string;
     }> {
         const data = await this.getPlayerQuests(playerId);
-        const definition = ALL_QUESTS.get(questId);
+        const definition = this.catalog.get(questId);
 
         if (!definition) {
             return { success: false, error: 'Quest not found' };
         }
 
+        if (!this.meetsRequirements(data, definition)) {
+            return { success: false, error: 'Quest requirements not met' };
+        }
+
         // Check if already active
         if (data.activeQuestIds.includes(questId)) {
             return { success: false, error: 'Quest already active' };
@@ -565,12 +439,13 @@ export class QuestService {
         return { success: true };
     }
 
-    async updateQuestProgress(playerId: string, objectiveType: string, amount: number = 1): Promise<{
+    async updateQuestProgress(playerId: string, objectiveType: string, amount: number = 1, context: ObjectiveContext = {}): Promise<{
         updated: boolean;
         completedQuests: string[];
     }> {
         const data = await this.getPlayerQuests(playerId);
         const completedQuests: string[] = [];
+        const partners = new Map<QuestPartnerKind, Promise<boolean>>();
         let updated = false;
 
         for (const quest of data.quests) {
@@ -578,6 +453,8 @@ export class QuestService {
 
             for (const objective of quest.objectives) {
                 if (objective.type === objectiveType && !objective.completed) {
+                    if (!await this.objectiveConditionsMet(playerId, quest.questId, objective.id, context, partners)) continue;
+
                     objective.progress = Math.min(objective.target, objective.progress + amount);
 
                     if (objective.progress >= objective.target) {
@@ -602,9 +479,44 @@ export class QuestService {
         return { updated, completedQuests };
     }
 
-    async claimQuestReward(playerId: string, questId: string): Promise<{
+    /**
+     * Check an objective's realm, time window and partner conditions
+     */
+    private async objectiveConditionsMet(
+        playerId: string,
+        questId: string,
+        objectiveId: string,
+        context: ObjectiveContext,
+        partners: Map<QuestPartnerKind, Promise<boolean>>
+    ): Promise<boolean> {
+        const conditions = this.catalog.get(questId)?.objectives.find(o => o.id === objectiveId)?.conditions;
+        if (!conditions) return true;
+
+        if (conditions.realm && (!context.realm || !conditions.realm.includes(context.realm))) {
+            return false;
+        }
+        if (conditions.timeWindow && !isWithinTimeWindow(conditions.timeWindow, context.now ?? Date.now())) {
+            return false;
+        }
+        if (conditions.withPartner) {
+            if (!context.partnerId || context.partnerId === playerId) return false;
+            // One lookup per kind for the whole update
+            if (!partners.has(conditions.withPartner)) {
+                partners.set(conditions.withPartner, this.partnerCheck(playerId, context.partnerId, conditions.withPartner)
+                    .catch(error => {
+                        console.error('Failed to check quest partner:', error);
+                        return false;
+                    }));
+            }
+            return partners.get(conditions.withPartner)!;
+        }
+        return true;
+    }
+
+    async claimQuestReward(playerId: string, questId: string, choiceId?: string): Promise<{
         success: boolean;
-        rewards?: { xp: number; stardust: number; cosmetic?: string; title?: string };
+        rewards?: QuestRewards;
+        choiceId?: string;
         error?: string;
     }> {
         const data = await this.getPlayerQuests(playerId);
@@ -618,11 +530,16 @@ export class QuestService {
             return { success: false, error: 'Quest not completed' };
         }
 
-        const definition = ALL_QUESTS.get(questId);
+        const definition = this.catalog.get(questId);
         if (!definition) {
             return { success: false, error: 'Quest definition not found' };
         }
 
+        const choice = definition.choices?.find(c => c.id === choiceId);
+        if (definition.choices && !choice) {
+            return { success: false, error: 'Choose a path to claim this quest' };
+        }
+
         quest.status = 'claimed';
         data.completedQuestIds.push(questId);
         data.activeQuestIds = data.activeQuestIds.filter(id => id !== questId);
@@ -636,20 +553,42 @@ export class QuestService {
             data.weeklyQuestsCompleted++;
         } else if (definition.type === 'story') {
             // Update story progress
-            const chapter = parseInt(questId.split('_')[1]);
+            const chapter = definition.chapter ?? parseInt(questId.split('_')[1]);
             if (chapter > data.storyChapter) {
                 data.storyChapter = chapter;
             }
         }
 
+        if (choice) {
+            data.questChoices = [...(data.questChoices || []), `${questId}:${choice.id}`];
+        }
+
         await this.savePlayerQuests(data);
 
         return {
             success: true,
-            rewards: definition.rewards
+            rewards: this.combineRewards(definition.rewards, choice?.rewards,
+                definition.rewardTable ? rollRewardTable(definition.rewardTable) : undefined),
+            choiceId: choice?.id
         };
     }
 
+    /**
+     * Add up fixed, branch and rolled rewards; later unlocks win
+     */
+    private combineRewards(...parts: Array<Partial<QuestRewards> | undefined>): QuestRewards {
+        const total: QuestRewards = { xp: 0, stardust: 0 };
+        for (const part of parts) {
+            if (!part) continue;
+            total.xp += part.xp || 0;
+            total.stardust += part.stardust || 0;
+            if (part.cosmetic) total.cosmetic = part.cosmetic;
+            if (part.title) total.title = part.title;
+            if (part.companion) total.companion = part.companion;
+        }
+        return total;
+    }
+
     async abandonQuest(playerId: string, questId: string): Promise<boolean> {
         const data = await this.getPlayerQuests(playerId);
         const quest = data.quests.find(q => q.questId === questId);
@@ -701,11 +640,15 @@ export class QuestService {
     // ========================================
 
     getQuestDefinition(questId: string): QuestDefinition | null {
-        return ALL_QUESTS.get(questId) || null;
+        return this.catalog.get(questId);
     }
 
     getAllStoryQuests(): QuestDefinition[] {
-        return STORY_QUESTS;
+        return this.catalog.byType('story');
+    }
+
+    getAllQuests(): QuestDefinition[] {
+        return this.catalog.all();
     }
 }
 
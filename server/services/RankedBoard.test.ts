@@ -0,0 +1,67 @@
+// =============================================================================
+// RankedBoard Tests - ranks agree with sorting everything
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { RankedBoard } from './RankedBoard.js';
+
+function sorted(scores: Map<string, number>): Array<{ id: string; score: number }> {
+    return Array.from(scores, ([id, score]) => ({ id, score }))
+        .sort((a, b) => b.score - a.score || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+}
+
+describe('RankedBoard', () => {
+    it('matches a full sort through inserts, score changes and deletes', () => {
+        const board = new RankedBoard(7);
+        const scores = new Map<string, number>();
+        let state = 12345;
+        const random = () => (state = (state * 1103515245 + 12345) % 2147483648) / 2147483648;
+
+        for (let step = 0; step < 3000; step++) {
+            const id = `p${Math.floor(random() * 400)}`;
+            if (random() < 0.15) {
+                expect(board.delete(id)).toBe(scores.delete(id));
+            } else {
+                // Few distinct scores, so ties are common
+                const score = Math.floor(random() * 50);
+                const before = sorted(scores).findIndex(e => e.id === id);
+                const change = board.set(id, score);
+                scores.set(id, score);
+                expect(change.previousRank).toBe(before === -1 ? null : before + 1);
+                expect(change.rank).toBe(sorted(scores).findIndex(e => e.id === id) + 1);
+            }
+
+            if (step % 250 === 0) {
+                const expected = sorted(scores);
+                expect(board.size).toBe(expected.length);
+                expect(board.total).toBe(expected.reduce((sum, e) => sum + e.score, 0));
+                expect(board.top(expected.length + 5).map(e => [e.id, e.score])).toEqual(expected.map(e => [e.id, e.score]));
+                expected.forEach((entry, i) => expect(board.rank(entry.id)).toBe(i + 1));
+            }
+        }
+    });
+
+    it('pages, looks around a player and ranks a subset', () => {
+        const board = new RankedBoard();
+        for (let i = 1; i <= 20; i++) board.set(`p${String(i).padStart(2, '0')}`, i * 10);
+
+        expect(board.top(3).map(e => e.id)).toEqual(['p20', 'p19', 'p18']);
+        expect(board.range(19, 5).map(e => [e.id, e.rank])).toEqual([['p02', 19], ['p01', 20]]);
+        expect(board.range(21, 5)).toEqual([]);
+        expect(board.around('p19', 2, 2).map(e => e.rank)).toEqual([1, 2, 3, 4]);
+        expect(board.around('p01', 2, 2).map(e => e.rank)).toEqual([18, 19, 20]);
+        expect(board.around('nobody', 2, 2)).toEqual([]);
+        expect(board.ranksOf(['p05', 'nobody', 'p15', 'p05'])).toEqual([
+            { id: 'p15', score: 150, rank: 6 },
+            { id: 'p05', score: 50, rank: 16 }
+        ]);
+
+        expect(board.set('p01', 1000)).toEqual({ previousRank: 20, rank: 1 });
+        expect(board.set('p01', 1000)).toEqual({ previousRank: 1, rank: 1 });
+        board.clear();
+        expect(board.size).toBe(0);
+        expect(board.total).toBe(0);
+        expect(board.top(5)).toEqual([]);
+        expect(board.set('a', 1)).toEqual({ previousRank: null, rank: 1 });
+    });
+});
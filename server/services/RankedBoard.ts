@@ -0,0 +1,235 @@
+// =============================================================================
+// RankedBoard - Scores kept in rank order, with rank lookups by id
+// =============================================================================
+// An indexable skip list (the structure behind Redis sorted sets): every link
+// also records how many entries it jumps over, so finding a player's rank,
+// the entry at a rank, or moving a player after a score change are all
+// O(log n). Higher scores rank first; equal scores are ordered by id so every
+// entry has exactly one rank.
+//
+// Pure data structure: LeaderboardService decides what goes in and persists
+// nothing here.
+// =============================================================================
+
+export interface RankedEntry {
+    id: string;
+    score: number;
+    rank: number;       // 1 = top
+}
+
+interface Node {
+    id: string;
+    score: number;
+    next: Array<Node | null>;
+    span: number[];     // Entries passed by following next[level]
+}
+
+const MAX_LEVEL = 32;
+const LEVEL_UP_CHANCE = 0.25;
+
+export class RankedBoard {
+    private head: Node = { id: '', score: Infinity, next: new Array(MAX_LEVEL).fill(null), span: new Array(MAX_LEVEL).fill(0) };
+    private nodes: Map<string, Node> = new Map();
+    private levels = 1;
+    private sum = 0;
+    private seed: number;
+
+    constructor(seed: number = 0x2545f491) {
+        this.seed = seed >>> 0 || 1;
+    }
+
+    get size(): number {
+        return this.nodes.size;
+    }
+
+    /** Sum of every score on the board */
+    get total(): number {
+        return this.sum;
+    }
+
+    has(id: string): boolean {
+        return this.nodes.has(id);
+    }
+
+    score(id: string): number | undefined {
+        return this.nodes.get(id)?.score;
+    }
+
+    /**
+     * Insert or move an entry; returns its rank before and after
+     */
+    set(id: string, score: number): { previousRank: number | null; rank: number } {
+        const existing = this.nodes.get(id);
+        const previousRank = existing ? this.rankOf(existing) : null;
+        if (existing) {
+            if (existing.score === score) return { previousRank, rank: previousRank! };
+            this.unlink(existing);
+        }
+        return { previousRank, rank: this.insert(id, score) };
+    }
+
+    delete(id: string): boolean {
+        const node = this.nodes.get(id);
+        if (!node) return false;
+        this.unlink(node);
+        return true;
+    }
+
+    clear(): void {
+        this.head.next.fill(null);
+        this.head.span.fill(0);
+        this.nodes.clear();
+        this.levels = 1;
+        this.sum = 0;
+    }
+
+    rank(id: string): number | null {
+        const node = this.nodes.get(id);
+        return node ? this.rankOf(node) : null;
+    }
+
+    /**
+     * `count` entries starting at `fromRank` (1-based)
+     */
+    range(fromRank: number, count: number): RankedEntry[] {
+        const entries: RankedEntry[] = [];
+        let node = fromRank >= 1 ? this.nodeAt(fromRank) : null;
+        for (let rank = fromRank; node && entries.length < count; rank++) {
+            entries.push({ id: node.id, score: node.score, rank });
+            node = node.next[0];
+        }
+        return entries;
+    }
+
+    top(count: number): RankedEntry[] {
+        return this.range(1, count);
+    }
+
+    /**
+     * The entry for `id` with up to `before` entries above and `after` below
+     */
+    around(id: string, before: number, after: number): RankedEntry[] {
+        const rank = this.rank(id);
+        if (rank === null) return [];
+        const from = Math.max(1, rank - before);
+        return this.range(from, rank - from + 1 + after);
+    }
+
+    /**
+     * Ranks of a handful of ids (e.g. a friends list), best first
+     */
+    ranksOf(ids: Iterable<string>): RankedEntry[] {
+        const entries: RankedEntry[] = [];
+        for (const id of new Set(ids)) {
+            const node = this.nodes.get(id);
+            if (node) entries.push({ id, score: node.score, rank: this.rankOf(node) });
+        }
+        return entries.sort((a, b) => a.rank - b.rank);
+    }
+
+    // =========================================================================
+    // Skip list internals
+    // =========================================================================
+
+    private precedes(a: Node, score: number, id: string): boolean {
+        return a.score > score || (a.score === score && a.id < id);
+    }
+
+    private insert(id: string, score: number): number {
+        const update: Node[] = new Array(MAX_LEVEL);
+        const passed: number[] = new Array(MAX_LEVEL).fill(0);
+
+        let node = this.head;
+        for (let level = this.levels - 1; level >= 0; level--) {
+            passed[level] = level === this.levels - 1 ? 0 : passed[level + 1];
+            while (node.next[level] && this.precedes(node.next[level]!, score, id)) {
+                passed[level] += node.span[level];
+                node = node.next[level]!;
+            }
+            update[level] = node;
+        }
+
+        const height = this.randomLevel();
+        if (height > this.levels) {
+            for (let level = this.levels; level < height; level++) {
+                passed[level] = 0;
+                update[level] = this.head;
+                this.head.span[level] = this.nodes.size;
+            }
+            this.levels = height;
+        }
+
+        const created: Node = { id, score, next: new Array(height).fill(null), span: new Array(height).fill(0) };
+        for (let level = 0; level < height; level++) {
+            created.next[level] = update[level].next[level];
+            update[level].next[level] = created;
+            created.span[level] = update[level].span[level] - (passed[0] - passed[level]);
+            update[level].span[level] = passed[0] - passed[level] + 1;
+        }
+        for (let level = height; level < this.levels; level++) {
+            update[level].span[level]++;
+        }
+
+        this.nodes.set(id, created);
+        this.sum += score;
+        return passed[0] + 1;
+    }
+
+    private unlink(target: Node): void {
+        let node = this.head;
+        for (let level = this.levels - 1; level >= 0; level--) {
+            while (node.next[level] && this.precedes(node.next[level]!, target.score, target.id)) {
+                node = node.next[level]!;
+            }
+            if (node.next[level] === target) {
+                node.span[level] += target.span[level] - 1;
+                node.next[level] = target.next[level];
+            } else {
+                node.span[level]--;
+            }
+        }
+        while (this.levels > 1 && !this.head.next[this.levels - 1]) this.levels--;
+        this.nodes.delete(target.id);
+        this.sum -= target.score;
+    }
+
+    private rankOf(target: Node): number {
+        let rank = 0;
+        let node = this.head;
+        for (let level = this.levels - 1; level >= 0; level--) {
+            while (node.next[level] && (node.next[level] === target || this.precedes(node.next[level]!, target.score, target.id))) {
+                rank += node.span[level];
+                node = node.next[level]!;
+            }
+            if (node === target) return rank;
+        }
+        return rank;
+    }
+
+    private nodeAt(rank: number): Node | null {
+        let passed = 0;
+        let node = this.head;
+        for (let level = this.levels - 1; level >= 0; level--) {
+            while (node.next[level] && passed + node.span[level] <= rank) {
+                passed += node.span[level];
+                node = node.next[level]!;
+            }
+            if (passed === rank) return node;
+        }
+        return null;
+    }
+
+    private randomLevel(): number {
+        let level = 1;
+        while (level < MAX_LEVEL && this.random() < LEVEL_UP_CHANCE) level++;
+        return level;
+    }
+
+    // xorshift32: levels only need to be well spread, not unpredictable
+    private random(): number {
+        this.seed ^= this.seed << 13;
+        this.seed ^= this.seed >>> 17;
+        this.seed ^= this.seed << 5;
+        return (this.seed >>> 0) / 4294967296;
+    }
+}
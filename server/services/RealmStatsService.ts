@@ -4,8 +4,10 @@
 // Tracks realm populations, activity metrics, and server statistics
 
 import { EventEmitter } from 'events';
+import { REALMS, ALL_REALM_IDS } from '../common/realms.js';
+import type { RealmId, RealmSpecialMode } from '../common/realms.js';
 
-export type RealmId = 'genesis' | 'nebula' | 'void' | 'starforge' | 'sanctuary';
+export type { RealmId };
 
 export interface RealmStats {
     realm: RealmId;
@@ -48,58 +50,77 @@ export interface RealmInfo {
     theme: string;
     difficulty: 'easy' | 'medium' | 'hard' | 'extreme';
     minLevel: number;
+    capacity: number;
+    special?: RealmSpecialMode;
     features: string[];
 }
 
-const REALM_INFO: Record<RealmId, RealmInfo> = {
+// Name, unlock level, capacity and special mode come from the shared realm registry
+const REALM_FLAVOR: Record<RealmId, Pick<RealmInfo, 'description' | 'theme' | 'difficulty' | 'features'>> = {
     genesis: {
-        id: 'genesis',
-        name: 'Genesis',
         description: 'The starting realm, peaceful and welcoming',
         theme: 'meadow',
         difficulty: 'easy',
-        minLevel: 1,
         features: ['tutorials', 'safe_zones', 'beginner_quests']
     },
     nebula: {
-        id: 'nebula',
-        name: 'Nebula',
         description: 'Cosmic clouds filled with mystery',
         theme: 'cosmic',
         difficulty: 'medium',
-        minLevel: 5,
         features: ['cosmic_events', 'nebula_storms', 'star_clusters']
     },
     void: {
-        id: 'void',
-        name: 'Void',
         description: 'The darkness between stars, dangerous but rewarding',
         theme: 'dark',
         difficulty: 'hard',
-        minLevel: 15,
         features: ['darkness_cycles', 'void_entities', 'rare_resources']
     },
     starforge: {
-        id: 'starforge',
-        name: 'Starforge',
         description: 'Where new stars are born, intense energy flows',
         theme: 'fire',
         difficulty: 'extreme',
-        minLevel: 30,
         features: ['star_creation', 'forging', 'legendary_items']
     },
     sanctuary: {
-        id: 'sanctuary',
-        name: 'Sanctuary',
         description: 'A peaceful haven for meditation and recovery',
         theme: 'tranquil',
         difficulty: 'easy',
-        minLevel: 10,
         features: ['meditation', 'healing', 'social_hub']
+    },
+    abyss: {
+        description: 'The deepest dark, where light sinks and currents pull',
+        theme: 'deep',
+        difficulty: 'hard',
+        features: ['strong_currents', 'long_darkness', 'deep_echoes']
+    },
+    crystal: {
+        description: 'Prismatic caverns that scatter every light',
+        theme: 'prismatic',
+        difficulty: 'medium',
+        features: ['light_refraction', 'crystal_harmonics', 'rare_resources']
+    },
+    celestial: {
+        description: 'The throne of the ascended, radiant and fast',
+        theme: 'radiant',
+        difficulty: 'extreme',
+        features: ['ascended_gatherings', 'golden_fragments', 'legendary_items']
+    },
+    tagarena: {
+        description: 'A fast arena where everyone plays tag',
+        theme: 'arena',
+        difficulty: 'medium',
+        features: ['tag_games', 'speed_boosts', 'score_chains']
     }
 };
 
-const ALL_REALMS: RealmId[] = ['genesis', 'nebula', 'void', 'starforge', 'sanctuary'];
+const REALM_INFO = Object.fromEntries(ALL_REALM_IDS.map(id => [id, {
+    id,
+    name: REALMS[id].name,
+    minLevel: REALMS[id].unlock,
+    capacity: REALMS[id].capacity,
+    special: REALMS[id].special,
+    ...REALM_FLAVOR[id]
+}])) as Record<RealmId, RealmInfo>;
 
 class RealmStatsService extends EventEmitter {
     private playerActivity: Map<string, PlayerActivity> = new Map();
@@ -117,7 +138,7 @@ class RealmStatsService extends EventEmitter {
         console.log('📊 Realm Stats Service initializing...');
         
         // Initialize realm stats
-        for (const realm of ALL_REALMS) {
+        for (const realm of ALL_REALM_IDS) {
             this.realmStats.set(realm, this.createEmptyRealmStats(realm));
         }
 
@@ -333,7 +354,7 @@ class RealmStatsService extends EventEmitter {
         preferActive?: boolean;
         preferChallenging?: boolean;
     }): RealmId {
-        const availableRealms = ALL_REALMS.filter(r => 
+        const availableRealms = ALL_REALM_IDS.filter(r => 
             REALM_INFO[r].minLevel <= playerLevel
         );
 
@@ -369,7 +390,7 @@ class RealmStatsService extends EventEmitter {
 
         if (preferences?.preferChallenging) {
             // Find hardest available realm
-            const challengingOrder: RealmId[] = ['starforge', 'void', 'nebula', 'genesis', 'sanctuary'];
+            const challengingOrder: RealmId[] = ['celestial', 'starforge', 'abyss', 'void', 'crystal', 'tagarena', 'nebula', 'genesis', 'sanctuary'];
             for (const realm of challengingOrder) {
                 if (availableRealms.includes(realm)) {
                     return realm;
@@ -2,9 +2,13 @@
 // Per lumina-viral-bible.md Section 15.2
 
 import { ReferralCode, IReferralCode, Referral, IReferral } from '../database/socialModels.js';
-import { Progression } from '../database/progressionModels.js';
+import { persistence } from '../persistence/index.js';
+import type { Stored, Repository } from '../persistence/index.js';
 import crypto from 'crypto';
 
+export type ReferralCodeRecord = Stored<IReferralCode>;
+export type ReferralRecord = Stored<IReferral>;
+
 // Referral milestones from constants/referral.ts
 const REFERRAL_MILESTONES = [
     { milestone: 1, stardust: 500, crystals: 50, refereeStardust: 500, refereeCrystals: 50 },
@@ -31,6 +35,16 @@ export interface ReferralStats {
 
 export class ReferralService {
     private initialized: boolean = false;
+    private codes: Repository<ReferralCodeRecord>;
+    private referrals: Repository<ReferralRecord>;
+
+    constructor(options: {
+        codes?: Repository<ReferralCodeRecord>;
+        referrals?: Repository<ReferralRecord>;
+    } = {}) {
+        this.codes = options.codes || persistence.repository<ReferralCodeRecord>(ReferralCode);
+        this.referrals = options.referrals || persistence.repository<ReferralRecord>(Referral);
+    }
 
     async init(): Promise<void> {
         if (this.initialized) return;
@@ -46,19 +60,19 @@ export class ReferralService {
     // REFERRAL CODE MANAGEMENT
     // ========================================
 
-    async getOrCreateReferralCode(playerId: string, playerName: string): Promise<IReferralCode> {
-        let code = await ReferralCode.findOne({ ownerId: playerId });
+    async getOrCreateReferralCode(playerId: string, playerName: string): Promise<ReferralCodeRecord> {
+        let code = await this.codes.findOne({ ownerId: playerId });
         
         if (!code) {
             // Generate unique code
             let newCode = generateCode();
             let attempts = 0;
-            while (await ReferralCode.findOne({ code: newCode }) && attempts < 10) {
+            while (await this.codes.findOne({ code: newCode }) && attempts < 10) {
                 newCode = generateCode();
                 attempts++;
             }
             
-            code = new ReferralCode({
+            code = await this.codes.insert({
                 code: newCode,
                 ownerId: playerId,
                 ownerName: playerName,
@@ -67,18 +81,17 @@ export class ReferralService {
                 totalRewardsEarned: { stardust: 0, crystals: 0 },
                 isActive: true
             });
-            await code.save();
         }
         
         return code;
     }
 
-    async getReferralCode(playerId: string): Promise<IReferralCode | null> {
-        return ReferralCode.findOne({ ownerId: playerId });
+    async getReferralCode(playerId: string): Promise<ReferralCodeRecord | null> {
+        return this.codes.findOne({ ownerId: playerId });
     }
 
-    async lookupCode(code: string): Promise<IReferralCode | null> {
-        return ReferralCode.findOne({ code: code.toUpperCase(), isActive: true });
+    async lookupCode(code: string): Promise<ReferralCodeRecord | null> {
+        return this.codes.findOne({ code: code.toUpperCase(), isActive: true });
     }
 
     // ========================================
@@ -92,13 +105,13 @@ export class ReferralService {
         refereeRewards?: { stardust: number; crystals: number };
     }> {
         // Check if player was already referred
-        const existingReferral = await Referral.findOne({ refereeId });
+        const existingReferral = await this.referrals.findOne({ refereeId });
         if (existingReferral) {
             return { success: false, error: 'You have already used a referral code' };
         }
 
         // Find the code
-        const referralCode = await ReferralCode.findOne({ code: code.toUpperCase(), isActive: true });
+        const referralCode = await this.codes.findOne({ code: code.toUpperCase(), isActive: true });
         if (!referralCode) {
             return { success: false, error: 'Invalid or inactive referral code' };
         }
@@ -114,7 +127,7 @@ export class ReferralService {
         }
 
         // Create referral relationship
-        const referral = new Referral({
+        await this.referrals.insert({
             referrerId: referralCode.ownerId,
             refereeId,
             refereeName,
@@ -123,11 +136,9 @@ export class ReferralService {
             hasConverted: false,
             bonusXpEndTime: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000) // 7 days bonus
         });
-        await referral.save();
 
         // Increment code usage
-        referralCode.usageCount++;
-        await referralCode.save();
+        await this.codes.update({ code: referralCode.code }, { $inc: { usageCount: 1 } });
 
         // Award referee welcome bonus (first milestone referee reward)
         const refereeRewards = { stardust: 500, crystals: 50 };
@@ -144,8 +155,8 @@ export class ReferralService {
     // ========================================
 
     async getReferralStats(playerId: string): Promise<ReferralStats> {
-        const code = await ReferralCode.findOne({ ownerId: playerId });
-        const referrals = await Referral.find({ referrerId: playerId });
+        const code = await this.codes.findOne({ ownerId: playerId });
+        const referrals = await this.referrals.find({ referrerId: playerId });
         
         const totalReferrals = referrals.length;
         const conversions = referrals.filter(r => r.hasConverted).length;
@@ -173,7 +184,7 @@ export class ReferralService {
         newMilestones: number[];
         rewards: { stardust: number; crystals: number; cosmetics: string[]; titles: string[] };
     }> {
-        const referrals = await Referral.find({ referrerId });
+        const referrals = await this.referrals.find({ referrerId });
         const count = referrals.length;
         
         // Get already claimed milestones from first referral (any of them stores the claimed list)
@@ -197,13 +208,13 @@ export class ReferralService {
 
         // Mark milestones as claimed
         if (newMilestones.length > 0) {
-            await Referral.updateMany(
+            await this.referrals.updateMany(
                 { referrerId },
                 { $addToSet: { referrerRewardsClaimed: { $each: newMilestones } } }
             );
 
             // Update total rewards earned
-            await ReferralCode.findOneAndUpdate(
+            await this.codes.update(
                 { ownerId: referrerId },
                 { 
                     $inc: { 
@@ -225,42 +236,41 @@ export class ReferralService {
         converted: boolean;
         referrerId?: string;
     }> {
-        const referral = await Referral.findOne({ refereeId });
+        const referral = await this.referrals.update({ refereeId }, { $set: { refereeLevel: newLevel } });
         if (!referral) {
             return { converted: false };
         }
 
-        referral.refereeLevel = newLevel;
-        
-        // Check for conversion (reaching level 10)
-        if (newLevel >= 10 && !referral.hasConverted) {
-            referral.hasConverted = true;
-            
-            // Increment conversions on the code
-            await ReferralCode.findOneAndUpdate(
-                { code: referral.code },
-                { $inc: { conversions: 1 } }
+        // Check for conversion (reaching level 10), counted once
+        if (newLevel >= 10) {
+            const converted = await this.referrals.update(
+                { refereeId, hasConverted: false },
+                { $set: { hasConverted: true } }
             );
-            
-            await referral.save();
-            return { converted: true, referrerId: referral.referrerId };
+            if (converted) {
+                // Increment conversions on the code
+                await this.codes.update(
+                    { code: referral.code },
+                    { $inc: { conversions: 1 } }
+                );
+                return { converted: true, referrerId: referral.referrerId };
+            }
         }
 
-        await referral.save();
         return { converted: false };
     }
 
     async getReferrer(refereeId: string): Promise<string | null> {
-        const referral = await Referral.findOne({ refereeId });
+        const referral = await this.referrals.findOne({ refereeId });
         return referral?.referrerId || null;
     }
 
-    async getReferees(referrerId: string): Promise<IReferral[]> {
-        return Referral.find({ referrerId }).sort({ createdAt: -1 });
+    async getReferees(referrerId: string): Promise<ReferralRecord[]> {
+        return this.referrals.find({ referrerId }, { sort: { createdAt: -1 } });
     }
 
     async hasActiveXPBoost(refereeId: string): Promise<boolean> {
-        const referral = await Referral.findOne({ refereeId });
+        const referral = await this.referrals.findOne({ refereeId });
         if (!referral || !referral.bonusXpEndTime) return false;
         return new Date() < referral.bonusXpEndTime;
     }
@@ -270,10 +280,7 @@ export class ReferralService {
     // ========================================
 
     async getReferralLeaderboard(limit: number = 50): Promise<any[]> {
-        const codes = await ReferralCode.find()
-            .sort({ usageCount: -1 })
-            .limit(limit)
-            .lean();
+        const codes = await this.codes.find({}, { sort: { usageCount: -1 }, limit });
 
         return codes.map((c, i) => ({
             rank: i + 1,
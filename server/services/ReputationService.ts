@@ -1,7 +1,13 @@
 // Reputation Service - Manages reputation tracks for different playstyles
 // Tracks: explorer, connector, guardian, beacon_keeper, collector
+// Emits 'reputation_changed' ({ playerId, tracks }) whenever a player's tracks are saved
 
+import { EventEmitter } from 'events';
 import { Reputation, IReputation } from '../database/socialModels.js';
+import { persistence } from '../persistence/index.js';
+import type { Stored, Repository } from '../persistence/index.js';
+
+export type ReputationRecord = Stored<IReputation>;
 
 // Reputation level thresholds (per constants/reputation.ts)
 const REPUTATION_LEVELS = [0, 100, 500, 1500, 4000, 8000, 15000, 30000, 50000, 100000];
@@ -62,8 +68,14 @@ function getLevel(xp: number): number {
     return 1;
 }
 
-export class ReputationService {
+export class ReputationService extends EventEmitter {
     private initialized: boolean = false;
+    private reputations: Repository<ReputationRecord>;
+
+    constructor(options: { reputations?: Repository<ReputationRecord> } = {}) {
+        super();
+        this.reputations = options.reputations || persistence.repository<ReputationRecord>(Reputation);
+    }
 
     async init(): Promise<void> {
         if (this.initialized) return;
@@ -79,11 +91,11 @@ export class ReputationService {
     // CORE OPERATIONS
     // ========================================
 
-    async getReputation(playerId: string): Promise<IReputation> {
-        let reputation = await Reputation.findOne({ playerId });
+    async getReputation(playerId: string): Promise<ReputationRecord> {
+        let reputation = await this.reputations.findOne({ playerId });
         
         if (!reputation) {
-            reputation = new Reputation({
+            reputation = await this.reputations.insert({
                 playerId,
                 tracks: {
                     explorer: { xp: 0, level: 1 },
@@ -94,7 +106,7 @@ export class ReputationService {
                 },
                 unlockedRewards: []
             });
-            await reputation.save();
+            this.emitChanged(reputation);
         }
         
         return reputation;
@@ -114,31 +126,31 @@ export class ReputationService {
             return null;
         }
 
-        const reputation = await this.getReputation(playerId);
+        await this.getReputation(playerId);
         const track = source.track;
         const xpGained = Math.floor(source.xp * multiplier);
-        
+
+        let reputation = (await this.reputations.update(
+            { playerId },
+            { $inc: { [`tracks.${track}.xp`]: xpGained }, $set: { lastUpdated: new Date() } }
+        ))!;
+
         const oldLevel = reputation.tracks[track].level;
-        reputation.tracks[track].xp += xpGained;
         const newLevel = getLevel(reputation.tracks[track].xp);
-        reputation.tracks[track].level = newLevel;
-        reputation.lastUpdated = new Date();
-
         const leveledUp = newLevel > oldLevel;
         let rewards: { stardust?: number; title?: string; cosmetic?: string } | undefined;
 
         // Award level-up rewards
         if (leveledUp) {
             rewards = this.getLevelRewards(track, newLevel);
+            const update: Record<string, any> = { $set: { [`tracks.${track}.level`]: newLevel } };
             if (rewards) {
-                const rewardId = `${track}_level_${newLevel}`;
-                if (!reputation.unlockedRewards.includes(rewardId)) {
-                    reputation.unlockedRewards.push(rewardId);
-                }
+                update.$addToSet = { unlockedRewards: `${track}_level_${newLevel}` };
             }
+            reputation = (await this.reputations.update({ playerId }, update)) || reputation;
         }
 
-        await reputation.save();
+        this.emitChanged(reputation);
 
         return {
             track,
@@ -152,6 +164,7 @@ export class ReputationService {
 
     async addBulkReputationXP(playerId: string, actions: { action: string; count: number }[]): Promise<void> {
         const reputation = await this.getReputation(playerId);
+        const updates: Record<string, any> = { lastUpdated: new Date() };
         
         for (const { action, count } of actions) {
             const source = XP_SOURCES[action];
@@ -160,10 +173,16 @@ export class ReputationService {
             const track = source.track;
             reputation.tracks[track].xp += source.xp * count;
             reputation.tracks[track].level = getLevel(reputation.tracks[track].xp);
+            updates[`tracks.${track}`] = reputation.tracks[track];
         }
         
-        reputation.lastUpdated = new Date();
-        await reputation.save();
+        reputation.lastUpdated = updates.lastUpdated;
+        await this.reputations.update({ playerId }, { $set: updates });
+        this.emitChanged(reputation);
+    }
+
+    private emitChanged(reputation: ReputationRecord): void {
+        this.emit('reputation_changed', { playerId: reputation.playerId, tracks: reputation.tracks });
     }
 
     getLevelRewards(track: ReputationTrack, level: number): { stardust?: number; title?: string; cosmetic?: string } | undefined {
@@ -223,13 +242,18 @@ export class ReputationService {
         };
     }
 
-    async getReputationLeaderboard(track: ReputationTrack, limit: number = 50): Promise<any[]> {
+    async getReputationLeaderboard(track: ReputationTrack, limit: number = 50): Promise<Array<{
+        rank: number;
+        playerId: string;
+        xp: number;
+        level: number;
+    }>> {
         const field = `tracks.${track}.xp`;
-        const players = await Reputation.find()
-            .sort({ [field]: -1 })
-            .limit(limit)
-            .select(`playerId tracks.${track}`)
-            .lean();
+        const players = await this.reputations.find({}, {
+            sort: { [field]: -1 },
+            limit,
+            fields: ['playerId', `tracks.${track}`]
+        });
 
         return players.map((p, i) => ({
             rank: i + 1,
@@ -240,10 +264,9 @@ export class ReputationService {
     }
 
     async claimReward(playerId: string, rewardId: string): Promise<boolean> {
-        const result = await Reputation.findOneAndUpdate(
+        const result = await this.reputations.update(
             { playerId, unlockedRewards: { $ne: rewardId } },
-            { $addToSet: { unlockedRewards: rewardId } },
-            { new: true }
+            { $addToSet: { unlockedRewards: rewardId } }
         );
         return !!result;
     }
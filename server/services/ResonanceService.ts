@@ -2,6 +2,7 @@
 import { EventEmitter } from 'events';
 import { bondService } from './BondService.js';
 import { progressionService } from './ProgressionService.js';
+import { isBotId } from '../common/bot.js';
 
 class ResonanceService extends EventEmitter {
     private static instance: ResonanceService;
@@ -21,6 +22,9 @@ class ResonanceService extends EventEmitter {
      * Record a resonance interaction between two players
      */
     async recordResonance(sourceId: string, targetId: string, strength: number = 1.0): Promise<void> {
+        // Resonating with a bot is fine, it just doesn't count
+        if (isBotId(targetId)) return;
+
         try {
             // 1. Strengthen bond
             await bondService.updateBondStrength(sourceId, targetId, 'resonance');
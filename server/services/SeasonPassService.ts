@@ -5,11 +5,19 @@ import {
   SeasonHistory,
   ISeasonConfig,
   ISeasonProgress,
+  ISeasonHistory,
   ISeasonReward,
   generateDefaultSeasonRewards
 } from '../database/seasonModels.js';
-import { PlayerData } from '../database/playerDataModel.js';
+import { PlayerData, IPlayerData } from '../database/playerDataModel.js';
+import { persistence } from '../persistence/index.js';
+import type { Stored, Repository } from '../persistence/index.js';
 import crypto from 'crypto';
+import { ledgerService } from './LedgerService.js';
+
+export type SeasonConfigRecord = Stored<ISeasonConfig>;
+export type SeasonProgressRecord = Stored<ISeasonProgress>;
+export type SeasonHistoryRecord = Stored<ISeasonHistory>;
 
 interface SeasonXPResult {
   newXp: number;
@@ -48,8 +56,25 @@ interface SeasonInfo {
 }
 
 class SeasonPassService extends EventEmitter {
-  private currentSeason: ISeasonConfig | null = null;
+  private currentSeason: SeasonConfigRecord | null = null;
   private rotationCheckInterval: NodeJS.Timeout | null = null;
+  private seasons: Repository<SeasonConfigRecord>;
+  private progress: Repository<SeasonProgressRecord>;
+  private history: Repository<SeasonHistoryRecord>;
+  private players: Repository<Stored<IPlayerData>>;
+
+  constructor(options: {
+    seasons?: Repository<SeasonConfigRecord>;
+    progress?: Repository<SeasonProgressRecord>;
+    history?: Repository<SeasonHistoryRecord>;
+    players?: Repository<Stored<IPlayerData>>;
+  } = {}) {
+    super();
+    this.seasons = options.seasons || persistence.repository<SeasonConfigRecord>(SeasonConfig);
+    this.progress = options.progress || persistence.repository<SeasonProgressRecord>(SeasonProgress);
+    this.history = options.history || persistence.repository<SeasonHistoryRecord>(SeasonHistory);
+    this.players = options.players || persistence.repository<Stored<IPlayerData>>(PlayerData);
+  }
 
   async initialize(): Promise<void> {
     console.log('🌟 Initializing Season Pass Service...');
@@ -96,7 +121,7 @@ class SeasonPassService extends EventEmitter {
 
   async getSeasonRewards(seasonId?: string): Promise<ISeasonReward[]> {
     const season = seasonId 
-      ? await SeasonConfig.findOne({ seasonId })
+      ? await this.seasons.findOne({ seasonId })
       : this.currentSeason;
     
     return season?.rewards || [];
@@ -111,10 +136,15 @@ class SeasonPassService extends EventEmitter {
     xpPerTier?: number;
     rewards?: ISeasonReward[];
     activateImmediately?: boolean;
-  }): Promise<ISeasonConfig> {
+  }): Promise<SeasonConfigRecord> {
     const seasonId = `season_${Date.now()}_${crypto.randomBytes(4).toString('hex')}`;
+
+    // Only one season is active at a time
+    if (config.activateImmediately) {
+      await this.seasons.updateMany({ isActive: true }, { $set: { isActive: false } });
+    }
     
-    const season = new SeasonConfig({
+    const season = await this.seasons.insert({
       seasonId,
       name: config.name,
       description: config.description || '',
@@ -126,8 +156,6 @@ class SeasonPassService extends EventEmitter {
       isActive: config.activateImmediately || false
     });
 
-    await season.save();
-
     if (config.activateImmediately) {
       this.currentSeason = season;
       this.emit('season_activated', { season });
@@ -141,19 +169,19 @@ class SeasonPassService extends EventEmitter {
   // Player Progress
   // ==========================================
 
-  async getPlayerProgress(playerId: string): Promise<ISeasonProgress | null> {
+  async getPlayerProgress(playerId: string): Promise<SeasonProgressRecord | null> {
     if (!this.currentSeason) {
       return null;
     }
 
-    let progress = await SeasonProgress.findOne({
+    let progress = await this.progress.findOne({
       playerId,
       seasonId: this.currentSeason.seasonId
     });
 
     // Create new progress if doesn't exist
     if (!progress) {
-      progress = new SeasonProgress({
+      progress = await this.progress.insert({
         playerId,
         seasonId: this.currentSeason.seasonId,
         seasonXp: 0,
@@ -162,7 +190,6 @@ class SeasonPassService extends EventEmitter {
         claimedFreeTiers: [],
         claimedPremiumTiers: []
       });
-      await progress.save();
     }
 
     return progress;
@@ -192,7 +219,7 @@ class SeasonPassService extends EventEmitter {
     );
     progress.seasonTier = newTier;
 
-    await progress.save();
+    await this.saveProgress(progress);
 
     const tierUp = newTier > previousTier;
     const tiersGained = newTier - previousTier;
@@ -271,10 +298,9 @@ class SeasonPassService extends EventEmitter {
     const grantedItems: ClaimRewardResult['grantedItems'] = {};
 
     // Grant rewards to player
-    const player = await PlayerData.findOne({ playerId });
+    const player = await this.players.findOne({ playerId });
     if (player) {
       if (reward.stardust) {
-        player.stardust = (player.stardust || 0) + reward.stardust;
         grantedItems.stardust = reward.stardust;
       }
       if (reward.xp) {
@@ -299,7 +325,17 @@ class SeasonPassService extends EventEmitter {
         }
         grantedItems.companion = premiumReward.companion;
       }
-      await player.save();
+      await this.players.save({ playerId }, player);
+
+      if (reward.stardust) {
+        const seasonId = this.currentSeason.seasonId;
+        await ledgerService.credit(playerId, 'stardust', reward.stardust, {
+          source: 'season_pass',
+          reason: claimPremium ? 'premium_tier' : 'free_tier',
+          idempotencyKey: `season_reward:${seasonId}:${playerId}:${tier}:${claimPremium ? 'premium' : 'free'}`,
+          metadata: { seasonId, tier }
+        });
+      }
     }
 
     // Mark as claimed
@@ -308,7 +344,7 @@ class SeasonPassService extends EventEmitter {
     } else {
       progress.claimedFreeTiers.push(tier);
     }
-    await progress.save();
+    await this.saveProgress(progress);
 
     this.emit('reward_claimed', {
       playerId,
@@ -385,7 +421,7 @@ class SeasonPassService extends EventEmitter {
 
     progress.isPremiumPass = true;
     progress.premiumPurchaseDate = new Date();
-    await progress.save();
+    await this.saveProgress(progress);
 
     // Count retroactive rewards available
     let retroactiveRewards = 0;
@@ -421,7 +457,7 @@ class SeasonPassService extends EventEmitter {
       
       // Deactivate current season
       this.currentSeason.isActive = false;
-      await (this.currentSeason as any).save();
+      await this.seasons.save({ seasonId: this.currentSeason.seasonId }, this.currentSeason);
     }
 
     // Create new season
@@ -445,11 +481,11 @@ class SeasonPassService extends EventEmitter {
     console.log(`🔄 Season rotated to: ${newSeason.name}`);
   }
 
-  private async archiveSeasonProgress(season: ISeasonConfig): Promise<void> {
-    const progressRecords = await SeasonProgress.find({ seasonId: season.seasonId });
+  private async archiveSeasonProgress(season: SeasonConfigRecord): Promise<void> {
+    const progressRecords = await this.progress.find({ seasonId: season.seasonId });
 
     for (const progress of progressRecords) {
-      const history = new SeasonHistory({
+      await this.history.insert({
         playerId: progress.playerId,
         seasonId: season.seasonId,
         seasonName: season.name,
@@ -461,23 +497,25 @@ class SeasonPassService extends EventEmitter {
         seasonStartDate: season.startDate,
         seasonEndDate: season.endDate
       });
-
-      await history.save();
     }
 
     console.log(`📦 Archived ${progressRecords.length} player progress records`);
   }
 
-  async getPlayerSeasonHistory(playerId: string): Promise<any[]> {
-    return SeasonHistory.find({ playerId }).sort({ archivedAt: -1 });
+  async getPlayerSeasonHistory(playerId: string): Promise<SeasonHistoryRecord[]> {
+    return this.history.find({ playerId }, { sort: { archivedAt: -1 } });
   }
 
   // ==========================================
   // Private Methods
   // ==========================================
 
+  private async saveProgress(progress: SeasonProgressRecord): Promise<void> {
+    await this.progress.save({ playerId: progress.playerId, seasonId: progress.seasonId }, progress);
+  }
+
   private async loadCurrentSeason(): Promise<void> {
-    this.currentSeason = await SeasonConfig.findOne({ isActive: true });
+    this.currentSeason = await this.seasons.findOne({ isActive: true });
 
     // If no active season, create default
     if (!this.currentSeason) {
@@ -8,6 +8,8 @@ import { EventEmitter } from 'events';
 import mongoose, { Schema, Document, Model } from 'mongoose';
 // @ts-ignore - uuid package types
 import { v4 as uuidv4 } from 'uuid';
+import { persistence } from '../persistence/index.js';
+import type { Stored, Repository } from '../persistence/index.js';
 
 // ============================================
 // SEEK GAME SESSION MODEL
@@ -99,13 +101,15 @@ const SeekGameSessionSchema = new Schema<ISeekGameSession>({
 const SeekGameSession = (mongoose.models.SeekGameSession || 
     mongoose.model<ISeekGameSession>('SeekGameSession', SeekGameSessionSchema)) as Model<ISeekGameSession>;
 
+export type SeekGameSessionRecord = Stored<ISeekGameSession>;
+
 // ============================================
 // SEEK MODE SERVICE
 // ============================================
 
 interface ActiveGame {
     gameId: string;
-    session: ISeekGameSession;
+    session: SeekGameSessionRecord;
     hidingTimer: NodeJS.Timeout | null;
     seekingTimer: NodeJS.Timeout | null;
     hintInterval: NodeJS.Timeout | null;
@@ -115,13 +119,19 @@ class SeekModeService extends EventEmitter {
     private initialized: boolean = false;
     private activeGames: Map<string, ActiveGame> = new Map();
     private playerToGame: Map<string, string> = new Map();
+    private sessions: Repository<SeekGameSessionRecord>;
+
+    constructor(options: { repository?: Repository<SeekGameSessionRecord> } = {}) {
+        super();
+        this.sessions = options.repository || persistence.repository<SeekGameSessionRecord>(SeekGameSession);
+    }
 
     async initialize(): Promise<void> {
         if (this.initialized) return;
         this.initialized = true;
 
         // Load any active games from database
-        const activeSessions = await SeekGameSession.find({
+        const activeSessions = await this.sessions.find({
             state: { $in: ['waiting', 'hiding', 'seeking'] }
         });
 
@@ -157,7 +167,7 @@ class SeekModeService extends EventEmitter {
         centerX: number,
         centerY: number,
         settings?: Partial<ISeekGameSession['settings']>
-    ): Promise<ISeekGameSession | null> {
+    ): Promise<SeekGameSessionRecord | null> {
         // Check if player already in a game
         if (this.playerToGame.has(hostId)) {
             return null;
@@ -174,7 +184,7 @@ class SeekModeService extends EventEmitter {
             centerY
         };
 
-        const session = await SeekGameSession.create({
+        const session = await this.sessions.insert({
             gameId,
             realm,
             state: 'waiting',
@@ -204,7 +214,7 @@ class SeekModeService extends EventEmitter {
         gameId: string,
         playerId: string,
         playerName: string
-    ): Promise<{ success: boolean; error?: string; session?: ISeekGameSession }> {
+    ): Promise<{ success: boolean; error?: string; session?: SeekGameSessionRecord }> {
         const game = this.activeGames.get(gameId);
         if (!game) {
             return { success: false, error: 'Game not found' };
@@ -232,7 +242,7 @@ class SeekModeService extends EventEmitter {
             foundBy: null
         });
 
-        await SeekGameSession.findOneAndUpdate(
+        await this.sessions.update(
             { gameId },
             { $push: { hiders: { playerId, playerName, hidden: false } } }
         );
@@ -269,7 +279,7 @@ class SeekModeService extends EventEmitter {
         game.session.startedAt = now;
         game.session.hidingEndsAt = hidingEndsAt;
 
-        await SeekGameSession.findOneAndUpdate(
+        await this.sessions.update(
             { gameId },
             { 
                 state: 'hiding',
@@ -298,7 +308,7 @@ class SeekModeService extends EventEmitter {
         game.session.state = 'seeking';
         game.session.endsAt = endsAt;
 
-        await SeekGameSession.findOneAndUpdate(
+        await this.sessions.update(
             { gameId },
             { state: 'seeking', endsAt }
         );
@@ -365,7 +375,7 @@ class SeekModeService extends EventEmitter {
         game.session.hiders[hiderIndex].hidden = true;
         game.session.hiders[hiderIndex].position = { x, y };
 
-        await SeekGameSession.findOneAndUpdate(
+        await this.sessions.update(
             { gameId, 'hiders.playerId': playerId },
             { 
                 $set: { 
@@ -419,7 +429,7 @@ class SeekModeService extends EventEmitter {
                 game.session.hiders[i].foundAt = new Date();
                 game.session.hiders[i].foundBy = seekerId;
 
-                await SeekGameSession.findOneAndUpdate(
+                await this.sessions.update(
                     { gameId, 'hiders.playerId': hider.playerId },
                     { 
                         $set: { 
@@ -540,7 +550,7 @@ class SeekModeService extends EventEmitter {
             duration
         };
 
-        await SeekGameSession.findOneAndUpdate(
+        await this.sessions.update(
             { gameId },
             { 
                 state: 'ended',
@@ -583,7 +593,7 @@ class SeekModeService extends EventEmitter {
 
         // Remove from hiders
         game.session.hiders = game.session.hiders.filter(h => h.playerId !== playerId);
-        await SeekGameSession.findOneAndUpdate(
+        await this.sessions.update(
             { gameId },
             { $pull: { hiders: { playerId } } }
         );
@@ -596,7 +606,7 @@ class SeekModeService extends EventEmitter {
     // QUERIES
     // =========================================================================
 
-    getPlayerGame(playerId: string): ISeekGameSession | null {
+    getPlayerGame(playerId: string): SeekGameSessionRecord | null {
         const gameId = this.playerToGame.get(playerId);
         if (!gameId) return null;
 
@@ -604,24 +614,21 @@ class SeekModeService extends EventEmitter {
         return game?.session || null;
     }
 
-    async getActiveGames(realm: string): Promise<any[]> {
-        return SeekGameSession.find({
+    async getActiveGames(realm: string): Promise<SeekGameSessionRecord[]> {
+        return this.sessions.find({
             realm,
             state: { $in: ['waiting', 'hiding', 'seeking'] }
-        }).lean();
+        });
     }
 
-    async getGameHistory(playerId: string, limit: number = 10): Promise<any[]> {
-        return SeekGameSession.find({
+    async getGameHistory(playerId: string, limit: number = 10): Promise<SeekGameSessionRecord[]> {
+        return this.sessions.find({
             state: 'ended',
             $or: [
                 { seekerId: playerId },
                 { 'hiders.playerId': playerId }
             ]
-        })
-        .sort({ createdAt: -1 })
-        .limit(limit)
-        .lean();
+        }, { sort: { createdAt: -1 }, limit });
     }
 
     // =========================================================================
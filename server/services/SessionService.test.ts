@@ -0,0 +1,107 @@
+// =============================================================================
+// SessionService Tests - token signing, verification and identity claims
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { SessionService, signSessionToken, verifySessionToken } from './SessionService.js';
+import { PlayerCredential } from '../database/authModels.js';
+import { Player } from '../database/models.js';
+import { PlayerData } from '../database/playerDataModel.js';
+import { MemoryRepository } from '../persistence/index.js';
+
+const SECRET = 'test-secret';
+
+describe('session tokens', () => {
+    const claims = { sub: 'player_1', guest: false, iat: 1000, exp: 2000 };
+
+    it('verifies a token signed with the same secret', () => {
+        const result = verifySessionToken(signSessionToken(claims, SECRET), SECRET, 1500);
+        expect(result.valid).toBe(true);
+        expect(result.claims).toEqual(claims);
+    });
+
+    it('rejects missing, malformed, tampered and expired tokens', () => {
+        const token = signSessionToken(claims, SECRET);
+        const [payload, signature] = token.split('.');
+        const forged = Buffer.from(JSON.stringify({ ...claims, sub: 'victim' })).toString('base64url');
+
+        expect(verifySessionToken(null, SECRET, 1500).reason).toBe('missing');
+        expect(verifySessionToken('not-a-token', SECRET, 1500).reason).toBe('malformed');
+        expect(verifySessionToken(`${forged}.${signature}`, SECRET, 1500).reason).toBe('bad_signature');
+        expect(verifySessionToken(`${payload}.${signature}`, 'other-secret', 1500).reason).toBe('bad_signature');
+        expect(verifySessionToken(token, SECRET, 2000).reason).toBe('expired');
+    });
+});
+
+describe('SessionService', () => {
+    function createService(playerData: MemoryRepository<any> = new MemoryRepository<any>([], PlayerData)) {
+        return new SessionService({
+            credentials: new MemoryRepository<any>([], PlayerCredential),
+            players: new MemoryRepository<any>([], Player),
+            playerData
+        });
+    }
+
+    it('claims an identity once and then requires its secret', async () => {
+        const service = createService();
+
+        const first = await service.createPlayerSession('player_claim');
+        expect(first.success).toBe(true);
+        expect(first.secret).toBeTruthy();
+        expect(first.session?.guest).toBe(false);
+
+        expect((await service.createPlayerSession('player_claim')).success).toBe(false);
+        expect((await service.createPlayerSession('player_claim', 'wrong')).success).toBe(false);
+
+        const again = await service.createPlayerSession('player_claim', first.secret);
+        expect(again.success).toBe(true);
+        expect(again.secret).toBeUndefined();
+        expect(service.verifyToken(again.session!.token).claims?.sub).toBe('player_claim');
+    });
+
+    it('only lets an existing player be claimed with a legacy secret, once', async () => {
+        const playerData = new MemoryRepository<any>([], PlayerData);
+        await playerData.insert({ playerId: 'player_old', name: 'Old' });
+        const service = createService(playerData);
+
+        expect((await service.createPlayerSession('player_old')).success).toBe(false);
+        expect(await service.findUncredentialedPlayers()).toEqual(['player_old']);
+
+        const legacySecret = await service.issueLegacySecret('player_old');
+        expect(legacySecret).toBeTruthy();
+        expect(await service.issueLegacySecret('player_old')).toBeNull();
+        expect(await service.findUncredentialedPlayers()).toEqual([]);
+
+        expect((await service.createPlayerSession('player_old')).success).toBe(false);
+        const exchanged = await service.createPlayerSession('player_old', legacySecret!);
+        expect(exchanged.success).toBe(true);
+        expect(exchanged.secret).toBeTruthy();
+        expect(exchanged.secret).not.toBe(legacySecret);
+
+        expect((await service.createPlayerSession('player_old', legacySecret!)).success).toBe(false);
+        expect((await service.createPlayerSession('player_old', exchanged.secret)).success).toBe(true);
+    });
+
+    it('issues flagged guest sessions that cannot be claimed', async () => {
+        const service = createService();
+        const guest = service.createGuestSession();
+
+        expect(guest.guest).toBe(true);
+        expect(service.verifyToken(guest.token).claims).toMatchObject({ sub: guest.playerId, guest: true });
+        expect((await service.createPlayerSession(guest.playerId)).success).toBe(false);
+    });
+
+    it('issues resume tokens that only resume the same player and never open a session', () => {
+        const service = createService();
+        const position = { sub: 'player_resume', realm: 'nebula', x: 120, y: -40 };
+        const token = service.issueResumeToken(position, 1000);
+
+        expect(service.verifyResumeToken(token, 'player_resume', 2000)).toMatchObject(position);
+        expect(service.verifyResumeToken(token, 'someone_else', 2000)).toBeNull();
+        expect(service.verifyResumeToken(token, 'player_resume', 1000 + service.RESUME_TTL)).toBeNull();
+        expect(service.verifyToken(token).valid).toBe(false);
+
+        const forged = Buffer.from(JSON.stringify({ ...position, x: 9999, exp: 1e15 })).toString('base64url');
+        expect(service.verifyResumeToken(`${forged}.${token.split('.')[1]}`, 'player_resume', 2000)).toBeNull();
+    });
+});
@@ -0,0 +1,376 @@
+// =============================================================================
+// SessionService - Signed session tokens for WebSocket authentication
+// =============================================================================
+// The WebSocket used to trust a `playerId` query parameter, so anyone could
+// connect as anyone. Clients now obtain a short-lived session token over REST
+// and present it on the `/ws` upgrade.
+//
+// Tokens are `base64url(claims).base64url(HMAC-SHA256(claims))` signed with
+// SESSION_SECRET, so any process holding the secret can verify them offline.
+//
+// Identities:
+// - Player: the client must present the identity's secret for every session.
+//   An id no player has used yet is claimed by the first session request for
+//   it, which returns the secret. An existing player without a credential
+//   cannot be claimed that way: they present a legacy secret the server
+//   issued them (npm run auth:legacy-secrets), and get a fresh secret back.
+// - Guest: a throwaway server-generated id, flagged on the connection
+//
+// Resume tokens carry a player's realm and position across a server restart.
+// They are signed with a key derived from the secret, so one can never be
+// presented as a session token.
+// =============================================================================
+
+import { EventEmitter } from 'events';
+import crypto from 'crypto';
+import { PlayerCredential } from '../database/authModels.js';
+import type { IPlayerCredential } from '../database/authModels.js';
+import { Player } from '../database/models.js';
+import type { IPlayer } from '../database/models.js';
+import { PlayerData } from '../database/playerDataModel.js';
+import { persistence } from '../persistence/index.js';
+import type { Stored, Repository } from '../persistence/index.js';
+import type { PlayerDataRecord } from './PlayerDataService.js';
+
+export type PlayerCredentialRecord = Stored<IPlayerCredential>;
+
+export interface SessionClaims {
+    sub: string;        // playerId
+    guest: boolean;
+    iat: number;        // Issued at (ms)
+    exp: number;        // Expires at (ms)
+}
+
+export interface ResumeClaims {
+    sub: string;        // playerId
+    realm: string;
+    x: number;
+    y: number;
+    exp: number;
+}
+
+export type SessionTokenError = 'missing' | 'malformed' | 'bad_signature' | 'expired';
+
+export interface SessionVerifyResult {
+    valid: boolean;
+    claims?: SessionClaims;
+    reason?: SessionTokenError;
+}
+
+export interface IssuedSession {
+    token: string;
+    playerId: string;
+    guest: boolean;
+    expiresAt: number;
+}
+
+export interface PlayerSessionResult {
+    success: boolean;
+    session?: IssuedSession;
+    secret?: string;        // Only when the identity was just claimed, or a legacy secret was exchanged
+    error?: string;
+}
+
+export const GUEST_ID_PREFIX = 'guest_';
+
+/**
+ * Sign session claims with an HMAC secret
+ */
+export function signSessionToken(claims: SessionClaims, secret: string): string {
+    const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+    const signature = crypto.createHmac('sha256', secret).update(payload).digest('base64url');
+    return `${payload}.${signature}`;
+}
+
+/**
+ * Verify a session token's signature and expiry (no server state needed)
+ */
+export function verifySessionToken(token: string | null | undefined, secret: string, now: number = Date.now()): SessionVerifyResult {
+    if (!token) return { valid: false, reason: 'missing' };
+
+    const parts = token.split('.');
+    if (parts.length !== 2) return { valid: false, reason: 'malformed' };
+    const [payload, signature] = parts;
+
+    const expected = crypto.createHmac('sha256', secret).update(payload).digest();
+    const actual = Buffer.from(signature, 'base64url');
+    if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+        return { valid: false, reason: 'bad_signature' };
+    }
+
+    let claims: SessionClaims;
+    try {
+        claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    } catch {
+        return { valid: false, reason: 'malformed' };
+    }
+    if (typeof claims?.sub !== 'string' || typeof claims.exp !== 'number') {
+        return { valid: false, reason: 'malformed' };
+    }
+
+    if (now >= claims.exp) return { valid: false, reason: 'expired' };
+
+    return { valid: true, claims: { sub: claims.sub, guest: claims.guest === true, iat: claims.iat, exp: claims.exp } };
+}
+
+function resumeKey(secret: string): Buffer {
+    return crypto.createHmac('sha256', secret).update('resume').digest();
+}
+
+function reattachKey(secret: string): Buffer {
+    return crypto.createHmac('sha256', secret).update('reattach').digest();
+}
+
+function signResumeClaims(claims: ResumeClaims, secret: string): string {
+    const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+    const signature = crypto.createHmac('sha256', resumeKey(secret)).update(payload).digest('base64url');
+    return `${payload}.${signature}`;
+}
+
+function hashSecret(secret: string): string {
+    return crypto.createHash('sha256').update(secret).digest('hex');
+}
+
+export class SessionService extends EventEmitter {
+    private static instance: SessionService;
+    private secret: string | null = null;
+    private ready = false;
+    private credentials: Repository<PlayerCredentialRecord>;
+    private players: Repository<Stored<IPlayer>>;
+    private playerData: Repository<PlayerDataRecord>;
+
+    readonly TOKEN_TTL = 15 * 60 * 1000;    // 15 minutes
+    readonly RESUME_TTL = 5 * 60 * 1000;    // 5 minutes to come back after a restart
+
+    constructor(options: {
+        credentials?: Repository<PlayerCredentialRecord>;
+        players?: Repository<Stored<IPlayer>>;
+        playerData?: Repository<PlayerDataRecord>;
+    } = {}) {
+        super();
+        this.credentials = options.credentials || persistence.repository<PlayerCredentialRecord>(PlayerCredential);
+        this.players = options.players || persistence.repository<Stored<IPlayer>>(Player);
+        this.playerData = options.playerData || persistence.repository<PlayerDataRecord>(PlayerData);
+    }
+
+    static getInstance(): SessionService {
+        if (!SessionService.instance) {
+            SessionService.instance = new SessionService();
+        }
+        return SessionService.instance;
+    }
+
+    async initialize(): Promise<void> {
+        if (this.ready) return;
+        this.getSecret();
+        this.ready = true;
+        console.log('🔐 SessionService initialized');
+    }
+
+    isReady(): boolean {
+        return this.ready;
+    }
+
+    /**
+     * Issue a signed token for an already-authenticated identity
+     */
+    issueToken(playerId: string, guest: boolean, now: number = Date.now()): IssuedSession {
+        const claims: SessionClaims = { sub: playerId, guest, iat: now, exp: now + this.TOKEN_TTL };
+        return {
+            token: signSessionToken(claims, this.getSecret()),
+            playerId,
+            guest,
+            expiresAt: claims.exp
+        };
+    }
+
+    verifyToken(token: string | null | undefined, now: number = Date.now()): SessionVerifyResult {
+        return verifySessionToken(token, this.getSecret(), now);
+    }
+
+    /**
+     * Sign a player's position so they can pick up there after a restart
+     */
+    issueResumeToken(position: Omit<ResumeClaims, 'exp'>, now: number = Date.now()): string {
+        return signResumeClaims({ ...position, exp: now + this.RESUME_TTL }, this.getSecret());
+    }
+
+    /**
+     * Claims of a valid, unexpired resume token issued to `playerId`, else null
+     */
+    verifyResumeToken(token: string | null | undefined, playerId: string, now: number = Date.now()): ResumeClaims | null {
+        if (!token) return null;
+
+        const parts = token.split('.');
+        if (parts.length !== 2) return null;
+        const [payload, signature] = parts;
+
+        const expected = crypto.createHmac('sha256', resumeKey(this.getSecret())).update(payload).digest();
+        const actual = Buffer.from(signature, 'base64url');
+        if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+            return null;
+        }
+
+        let claims: ResumeClaims;
+        try {
+            claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+        } catch {
+            return null;
+        }
+        if (claims?.sub !== playerId || typeof claims.realm !== 'string' ||
+            typeof claims.x !== 'number' || typeof claims.y !== 'number' || !(now < claims.exp)) {
+            return null;
+        }
+        return claims;
+    }
+
+    /**
+     * Token letting a dropped socket reattach to its suspended connection.
+     * The server only accepts the one it is still holding for that
+     * connection, so it needs no expiry of its own.
+     */
+    issueReattachToken(playerId: string, connectionId: number): string {
+        return crypto.createHmac('sha256', reattachKey(this.getSecret())).update(`${playerId}:${connectionId}`).digest('base64url');
+    }
+
+    /**
+     * Start a session under a fresh guest identity
+     */
+    createGuestSession(): IssuedSession {
+        const playerId = GUEST_ID_PREFIX + crypto.randomBytes(8).toString('hex');
+        return this.issueToken(playerId, true);
+    }
+
+    /**
+     * Start a session for a player identity. A new identity is claimed and its
+     * secret returned; an existing one requires its secret. A legacy secret is
+     * accepted once and exchanged for a new secret, returned like a claim.
+     */
+    async createPlayerSession(playerId: string, secret?: string): Promise<PlayerSessionResult> {
+        if (playerId.startsWith(GUEST_ID_PREFIX)) {
+            return { success: false, error: 'Guest identities cannot be claimed' };
+        }
+
+        try {
+            const credential = await this.credentials.findOne({ playerId });
+
+            if (!credential) {
+                // Player ids are public, so only ids nobody has played under can be claimed
+                if (await this.playerExists(playerId)) {
+                    return { success: false, error: 'Invalid credentials' };
+                }
+                const newSecret = this.newSecret();
+                if (!await this.storeSecretHash(playerId, hashSecret(newSecret))) {
+                    return { success: false, error: 'Identity already claimed' };
+                }
+                console.log(`🔐 Player identity claimed: ${playerId}`);
+                return { success: true, session: this.issueToken(playerId, false), secret: newSecret };
+            }
+
+            if (!secret || !this.hashesMatch(credential.secretHash, hashSecret(secret))) {
+                return { success: false, error: 'Invalid credentials' };
+            }
+
+            if (credential.legacy) {
+                // Exchange once; a second request with the same legacy secret finds it replaced
+                const newSecret = this.newSecret();
+                const exchanged = await this.credentials.update(
+                    { playerId, secretHash: credential.secretHash, legacy: true },
+                    { $set: { secretHash: hashSecret(newSecret), legacy: false, lastSessionAt: new Date() } }
+                );
+                if (!exchanged) {
+                    return { success: false, error: 'Invalid credentials' };
+                }
+                console.log(`🔐 Legacy player identity claimed: ${playerId}`);
+                return { success: true, session: this.issueToken(playerId, false), secret: newSecret };
+            }
+
+            this.touchCredential(playerId);
+            return { success: true, session: this.issueToken(playerId, false) };
+        } catch (error) {
+            console.error('Failed to create player session:', error);
+            return { success: false, error: 'Failed to create session' };
+        }
+    }
+
+    /**
+     * Issue a legacy secret for an existing player who has no credential yet.
+     * Returns null when the player already has one.
+     */
+    async issueLegacySecret(playerId: string): Promise<string | null> {
+        const legacySecret = this.newSecret();
+        const stored = await this.storeSecretHash(playerId, hashSecret(legacySecret), true);
+        return stored ? legacySecret : null;
+    }
+
+    /**
+     * Ids of players with game data but no credential, who need a legacy secret
+     */
+    async findUncredentialedPlayers(): Promise<string[]> {
+        const [players, playerData, credentialed] = await Promise.all([
+            this.players.distinct('playerId'),
+            this.playerData.distinct('playerId'),
+            this.credentials.distinct('playerId')
+        ]);
+        const claimed = new Set<string>(credentialed);
+        return Array.from(new Set<string>([...players, ...playerData]))
+            .filter(playerId => !claimed.has(playerId) && !playerId.startsWith(GUEST_ID_PREFIX))
+            .sort();
+    }
+
+    // =========================================================================
+    // Internals
+    // =========================================================================
+
+    private getSecret(): string {
+        if (!this.secret) {
+            // Read lazily: env is loaded after module imports are evaluated
+            const configured = process.env.SESSION_SECRET;
+            if (configured) {
+                this.secret = configured;
+            } else {
+                console.warn('⚠️ SESSION_SECRET not set - using a random per-process secret (tokens will not survive restarts)');
+                this.secret = crypto.randomBytes(32).toString('hex');
+            }
+        }
+        return this.secret;
+    }
+
+    private newSecret(): string {
+        return crypto.randomBytes(32).toString('base64url');
+    }
+
+    private async playerExists(playerId: string): Promise<boolean> {
+        const [players, playerData] = await Promise.all([
+            this.players.count({ playerId }),
+            this.playerData.count({ playerId })
+        ]);
+        return players + playerData > 0;
+    }
+
+    /**
+     * Store a credential unless one already exists. Returns false if another
+     * request claimed the identity first.
+     */
+    private async storeSecretHash(playerId: string, secretHash: string, legacy: boolean = false): Promise<boolean> {
+        const stored = await this.credentials.update(
+            { playerId },
+            { $setOnInsert: { secretHash, legacy, lastSessionAt: new Date() } },
+            { upsert: true }
+        );
+        return stored?.secretHash === secretHash;
+    }
+
+    private touchCredential(playerId: string): void {
+        this.credentials.update({ playerId }, { $set: { lastSessionAt: new Date() } })
+            .catch(error => console.error('Failed to update credential:', error));
+    }
+
+    private hashesMatch(a: string, b: string): boolean {
+        const bufA = Buffer.from(a, 'hex');
+        const bufB = Buffer.from(b, 'hex');
+        return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
+    }
+}
+
+export const sessionService = SessionService.getInstance();
@@ -6,6 +6,8 @@
 
 import { EventEmitter } from 'events';
 import mongoose, { Schema, Document, Model } from 'mongoose';
+import { persistence } from '../persistence/index.js';
+import type { Stored, Repository } from '../persistence/index.js';
 
 // ============================================
 // WARMTH STATE MODEL
@@ -38,6 +40,8 @@ const WarmthStateSchema = new Schema<IWarmthState>({
 const WarmthState = (mongoose.models.WarmthState || 
     mongoose.model<IWarmthState>('WarmthState', WarmthStateSchema)) as Model<IWarmthState>;
 
+type WarmthStateRecord = Stored<IWarmthState>;
+
 // ============================================
 // WARMTH/DARKNESS ZONES
 // ============================================
@@ -201,6 +205,12 @@ class WarmthService extends EventEmitter {
     private playerStates: Map<string, PlayerWarmthState> = new Map();
     private updateInterval: NodeJS.Timeout | null = null;
     private readonly UPDATE_RATE = 1000; // Update every second
+    private states: Repository<WarmthStateRecord>;
+
+    constructor(options: { repository?: Repository<WarmthStateRecord> } = {}) {
+        super();
+        this.states = options.repository || persistence.repository<WarmthStateRecord>(WarmthState);
+    }
 
     async initialize(): Promise<void> {
         if (this.initialized) return;
@@ -224,18 +234,8 @@ class WarmthService extends EventEmitter {
         if (state) return state;
 
         // Load from database
-        let dbState = await WarmthState.findOne({ playerId }).lean();
-        
-        if (!dbState) {
-            // Create new state
-            dbState = await WarmthState.create({
-                playerId,
-                warmth: 100,
-                darkness: 0,
-                lightsCarried: 0,
-                zone: 'neutral'
-            });
-        }
+        const dbState = (await this.states.findOne({ playerId }))
+            || (await this.states.update({ playerId }, { $setOnInsert: { playerId } }, { upsert: true }))!;
 
         state = {
             playerId,
@@ -256,14 +256,16 @@ class WarmthService extends EventEmitter {
         const state = this.playerStates.get(playerId);
         if (!state) return;
 
-        await WarmthState.findOneAndUpdate(
+        await this.states.update(
             { playerId },
             {
-                warmth: state.warmth,
-                darkness: state.darkness,
-                zone: state.zone,
-                lightsCarried: state.lightsCarried,
-                updatedAt: new Date()
+                $set: {
+                    warmth: state.warmth,
+                    darkness: state.darkness,
+                    zone: state.zone,
+                    lightsCarried: state.lightsCarried,
+                    updatedAt: new Date()
+                }
             },
             { upsert: true }
         );
@@ -7,6 +7,8 @@
 import { EventEmitter } from 'events';
 import mongoose, { Schema, Document, Model } from 'mongoose';
 import { v4 as uuidv4 } from 'uuid';
+import { persistence } from '../persistence/index.js';
+import type { Stored, Repository } from '../persistence/index.js';
 
 // ============================================
 // WORLD EVENT MODELS
@@ -87,6 +89,8 @@ const WorldEventSchema = new Schema<IWorldEvent>({
 const WorldEvent = (mongoose.models.WorldEvent || 
     mongoose.model<IWorldEvent>('WorldEvent', WorldEventSchema)) as Model<IWorldEvent>;
 
+export type WorldEventRecord = Stored<IWorldEvent>;
+
 // ============================================
 // EVENT TYPE DEFINITIONS
 // ============================================
@@ -242,8 +246,14 @@ const SCHEDULED_EVENTS: ScheduledEventConfig[] = [
 class WorldEventSchedulerService extends EventEmitter {
     private initialized: boolean = false;
     private checkInterval: NodeJS.Timeout | null = null;
-    private activeEvents: Map<string, IWorldEvent> = new Map();
+    private activeEvents: Map<string, WorldEventRecord> = new Map();
     private readonly CHECK_RATE = 60 * 1000; // Check every minute
+    private events: Repository<WorldEventRecord>;
+
+    constructor(options: { repository?: Repository<WorldEventRecord> } = {}) {
+        super();
+        this.events = options.repository || persistence.repository<WorldEventRecord>(WorldEvent);
+    }
 
     async initialize(): Promise<void> {
         if (this.initialized) return;
@@ -279,7 +289,7 @@ class WorldEventSchedulerService extends EventEmitter {
             
             if (shouldTrigger) {
                 // Check if event already scheduled or active
-                const existing = await WorldEvent.findOne({
+                const existing = await this.events.findOne({
                     eventType: config.type,
                     state: { $in: ['scheduled', 'active'] }
                 });
@@ -332,7 +342,7 @@ class WorldEventSchedulerService extends EventEmitter {
         duration?: number;
         position?: { x: number; y: number };
         metadata?: Record<string, any>;
-    }): Promise<IWorldEvent | null> {
+    }): Promise<WorldEventRecord | null> {
         const typeConfig = EVENT_TYPES[options.eventType];
         if (!typeConfig) {
             console.error(`Unknown event type: ${options.eventType}`);
@@ -343,7 +353,7 @@ class WorldEventSchedulerService extends EventEmitter {
         const duration = options.duration || typeConfig.defaultDuration;
         const endTime = new Date(startTime.getTime() + duration);
 
-        const event = await WorldEvent.create({
+        const event = await this.events.insert({
             eventId: `event_${uuidv4()}`,
             eventType: options.eventType,
             name: typeConfig.name,
@@ -370,12 +380,14 @@ class WorldEventSchedulerService extends EventEmitter {
     // =========================================================================
 
     private async loadActiveEvents(): Promise<void> {
-        const events = await WorldEvent.find({
+        const events = await this.events.find({
             state: 'active'
-        }).lean();
+        });
 
         for (const event of events) {
-            this.activeEvents.set(event.eventId, event as unknown as IWorldEvent);
+            this.activeEvents.set(event.eventId, event);
+            // Events that were running before a restart pick their mechanics back up
+            this.emit('event_resumed', event);
         }
 
         console.log(`📊 Loaded ${events.length} active events`);
@@ -385,7 +397,7 @@ class WorldEventSchedulerService extends EventEmitter {
         const now = new Date();
 
         // Start scheduled events
-        const toStart = await WorldEvent.find({
+        const toStart = await this.events.find({
             state: 'scheduled',
             startTime: { $lte: now }
         });
@@ -395,7 +407,7 @@ class WorldEventSchedulerService extends EventEmitter {
         }
 
         // End expired events
-        const toEnd = await WorldEvent.find({
+        const toEnd = await this.events.find({
             state: 'active',
             endTime: { $lte: now }
         });
@@ -406,10 +418,9 @@ class WorldEventSchedulerService extends EventEmitter {
     }
 
     async startEvent(eventId: string): Promise<boolean> {
-        const event = await WorldEvent.findOneAndUpdate(
+        const event = await this.events.update(
             { eventId, state: 'scheduled' },
-            { state: 'active', updatedAt: new Date() },
-            { new: true }
+            { state: 'active', updatedAt: new Date() }
         );
 
         if (!event) return false;
@@ -422,10 +433,9 @@ class WorldEventSchedulerService extends EventEmitter {
     }
 
     async endEvent(eventId: string): Promise<boolean> {
-        const event = await WorldEvent.findOneAndUpdate(
+        const event = await this.events.update(
             { eventId, state: 'active' },
-            { state: 'completed', updatedAt: new Date() },
-            { new: true }
+            { state: 'completed', updatedAt: new Date() }
         );
 
         if (!event) return false;
@@ -442,10 +452,9 @@ class WorldEventSchedulerService extends EventEmitter {
     }
 
     async cancelEvent(eventId: string): Promise<boolean> {
-        const event = await WorldEvent.findOneAndUpdate(
+        const event = await this.events.update(
             { eventId, state: { $in: ['scheduled', 'active'] } },
-            { state: 'cancelled', updatedAt: new Date() },
-            { new: true }
+            { state: 'cancelled', updatedAt: new Date() }
         );
 
         if (!event) return false;
@@ -462,7 +471,7 @@ class WorldEventSchedulerService extends EventEmitter {
     // =========================================================================
 
     async joinEvent(eventId: string, playerId: string): Promise<boolean> {
-        const event = await WorldEvent.findOne({ eventId, state: 'active' });
+        const event = await this.events.findOne({ eventId, state: 'active' });
         if (!event) return false;
 
         const typeConfig = EVENT_TYPES[event.eventType];
@@ -478,7 +487,7 @@ class WorldEventSchedulerService extends EventEmitter {
             return true; // Already joined
         }
 
-        await WorldEvent.findOneAndUpdate(
+        await this.events.update(
             { eventId },
             {
                 $push: {
@@ -495,8 +504,38 @@ class WorldEventSchedulerService extends EventEmitter {
         return true;
     }
 
+    /**
+     * Add server-observed contribution, joining the player to the event if needed
+     */
+    async recordContribution(eventId: string, playerId: string, amount: number): Promise<void> {
+        const updated = await this.events.update(
+            { eventId, state: 'active', 'participants.playerId': playerId },
+            { $inc: { 'participants.$.contribution': amount }, updatedAt: new Date() }
+        );
+        if (updated) return;
+
+        const event = this.activeEvents.get(eventId);
+        const maxParticipants = EVENT_TYPES[event?.eventType || '']?.maxParticipants ?? Number.MAX_SAFE_INTEGER;
+        // The event has room while the slot past its last allowed participant is empty
+        const joined = await this.events.update(
+            {
+                eventId,
+                state: 'active',
+                'participants.playerId': { $ne: playerId },
+                [`participants.${maxParticipants - 1}`]: { $exists: false }
+            },
+            {
+                $push: { participants: { playerId, joinedAt: new Date(), contribution: amount } },
+                updatedAt: new Date()
+            }
+        );
+        if (joined) {
+            this.emit('player_joined_event', { eventId, playerId, eventName: event?.name });
+        }
+    }
+
     async addContribution(eventId: string, playerId: string, amount: number): Promise<void> {
-        await WorldEvent.findOneAndUpdate(
+        await this.events.update(
             { 
                 eventId, 
                 state: 'active',
@@ -512,7 +551,7 @@ class WorldEventSchedulerService extends EventEmitter {
     // REWARDS
     // =========================================================================
 
-    private async distributeRewards(event: IWorldEvent): Promise<void> {
+    private async distributeRewards(event: WorldEventRecord): Promise<void> {
         const typeConfig = EVENT_TYPES[event.eventType];
         if (!typeConfig) return;
 
@@ -549,16 +588,16 @@ class WorldEventSchedulerService extends EventEmitter {
     // QUERIES
     // =========================================================================
 
-    async getActiveEvents(realm?: string): Promise<IWorldEvent[]> {
+    async getActiveEvents(realm?: string): Promise<WorldEventRecord[]> {
         const query: any = { state: 'active' };
         if (realm) {
             query.$or = [{ realm }, { realm: null }];
         }
 
-        return WorldEvent.find(query).lean() as unknown as IWorldEvent[];
+        return this.events.find(query);
     }
 
-    async getUpcomingEvents(realm?: string, limit: number = 10): Promise<IWorldEvent[]> {
+    async getUpcomingEvents(realm?: string, limit: number = 10): Promise<WorldEventRecord[]> {
         const query: any = { 
             state: 'scheduled',
             startTime: { $gt: new Date() }
@@ -567,28 +606,29 @@ class WorldEventSchedulerService extends EventEmitter {
             query.$or = [{ realm }, { realm: null }];
         }
 
-        return WorldEvent.find(query)
-            .sort({ startTime: 1 })
-            .limit(limit)
-            .lean() as unknown as IWorldEvent[];
+        return this.events.find(query, { sort: { startTime: 1 }, limit });
     }
 
-    async getEventHistory(realm?: string, limit: number = 20): Promise<IWorldEvent[]> {
+    async getEventHistory(realm?: string, limit: number = 20): Promise<WorldEventRecord[]> {
         const query: any = { state: 'completed' };
         if (realm) {
             query.$or = [{ realm }, { realm: null }];
         }
 
-        return WorldEvent.find(query)
-            .sort({ endTime: -1 })
-            .limit(limit)
-            .lean() as unknown as IWorldEvent[];
+        return this.events.find(query, { sort: { endTime: -1 }, limit });
     }
 
     getEventTypes(): EventTypeConfig[] {
         return Object.values(EVENT_TYPES);
     }
 
+    /**
+     * Events currently running on this process (no database round trip)
+     */
+    getRunningEvents(): WorldEventRecord[] {
+        return Array.from(this.activeEvents.values());
+    }
+
     // =========================================================================
     // MANUAL TRIGGERS
     // =========================================================================
@@ -597,7 +637,7 @@ class WorldEventSchedulerService extends EventEmitter {
         realm?: string;
         duration?: number;
         position?: { x: number; y: number };
-    }): Promise<IWorldEvent | null> {
+    }): Promise<WorldEventRecord | null> {
         return this.scheduleEvent({
             eventType,
             realm: options?.realm,
@@ -619,4 +659,4 @@ class WorldEventSchedulerService extends EventEmitter {
 }
 
 export const worldEventSchedulerService = new WorldEventSchedulerService();
-export { EVENT_TYPES, WorldEvent };
+export { EVENT_TYPES, WorldEvent, WorldEventSchedulerService };
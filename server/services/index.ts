@@ -42,3 +42,6 @@ export { BondService, bondService } from './BondService.js';
 
 // Guild system
 export { GuildService, guildService } from './GuildService.js';
+
+// Moderation
+export { ModerationService, moderationService } from './ModerationService.js';
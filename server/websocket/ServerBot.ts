@@ -3,6 +3,8 @@
 // =============================================================================
 
 import type { PlayerConnection } from './types.js';
+import type { RandomSource } from './runtime/index.js';
+import { BOT_ID_PREFIX } from '../common/bot.js';
 
 // Bot names for variety
 const BOT_NAMES = ['Luna', 'Sol', 'Nova', 'Atlas', 'Lyra', 'Echo', 'Zen', 'Mira', 'Orion', 'Flux', 'Vega', 'Kai', 'Iris', 'Aria', 'Juno', 'Nix', 'Ember', 'Sage', 'River', 'Sky'];
@@ -11,10 +13,17 @@ const BOT_NAMES = ['Luna', 'Sol', 'Nova', 'Atlas', 'Lyra', 'Echo', 'Zen', 'Mira'
 const BOT_GREETINGS = ['Hello! ✨', 'Hi there!', 'Welcome!', 'Hey!', '*waves*', 'Nice to see you!', 'Hello friend!'];
 const BOT_THOUGHTS = ['The stars are beautiful tonight...', 'I love this place', 'So peaceful here', 'Anyone want to explore?', 'Let\'s light some stars!', 'Connection is everything', 'Together we shine brighter', 'The void speaks to me...', 'I sense kindred spirits nearby', 'What brings you here?'];
 const BOT_REACTIONS = ['Wow!', 'Beautiful!', 'Amazing!', '✨✨✨', 'Love it!', 'So cool!', 'Yes!', 'Incredible!'];
+const BOT_FAREWELLS = ['I should drift on...', 'See you among the stars!', 'Enjoy your new friends ✨', 'Farewell for now!', '*waves goodbye*'];
 const BOT_QUESTIONS = ['How are you?', 'What\'s your name?', 'Seen any new stars?', 'Want to connect?', 'Shall we explore together?', 'Feeling the cosmic energy?'];
 
+// How far a bot notices players, for greetings, chat and following
+export const BOT_SIGHT_RADIUS = 600;
+
 export type BotPersonality = 'social' | 'explorer' | 'mystic';
 
+// Assigned by the BotDirector; wanderers keep their personality's movement
+export type BotRole = 'wanderer' | 'greeter' | 'collector' | 'beacon_helper';
+
 export class ServerBot {
     id: string;
     x: number;
@@ -32,6 +41,7 @@ export class ServerBot {
     singing: number;
     pulsing: number;
     emoting: string | null;
+    emoteTimer: number;
     bonds: Map<string, number>;
     currentMessage: string | null;
     messageTimer: number;
@@ -39,43 +49,54 @@ export class ServerBot {
     personality: BotPersonality;
     lastGreeted: Set<string>;
     excitement: number;
-
-    constructor(x: number, y: number, realm: string = 'genesis') {
-        this.id = 'bot-' + Math.random().toString(36).substr(2, 9);
+    role: BotRole;
+    anchorId: string | null;                    // Player the director spawned this bot for
+    goal: { x: number; y: number } | null;      // Where the director wants the bot to go
+    retiringSince: number | null;
+    private random: RandomSource;
+
+    constructor(x: number, y: number, realm: string = 'genesis', random: RandomSource = Math.random) {
+        this.random = random;
+        this.id = BOT_ID_PREFIX + this.random().toString(36).substr(2, 9);
         this.x = x;
         this.y = y;
         this.vx = 0;
         this.vy = 0;
-        this.hue = Math.random() * 360;
-        this.name = BOT_NAMES[Math.floor(Math.random() * BOT_NAMES.length)];
-        this.xp = 100 + Math.random() * 800;
-        this.moveAngle = Math.random() * Math.PI * 2;
-        this.actionTimer = Math.floor(Math.random() * 100);
-        this.thinkTimer = Math.floor(Math.random() * 200);
+        this.hue = this.random() * 360;
+        this.name = BOT_NAMES[Math.floor(this.random() * BOT_NAMES.length)];
+        this.xp = 100 + this.random() * 800;
+        this.moveAngle = this.random() * Math.PI * 2;
+        this.actionTimer = Math.floor(this.random() * 100);
+        this.thinkTimer = Math.floor(this.random() * 200);
         this.chatTimer = 0;
         this.realm = realm;
         this.singing = 0;
         this.pulsing = 0;
         this.emoting = null;
+        this.emoteTimer = 0;
         this.bonds = new Map();
         this.currentMessage = null;
         this.messageTimer = 0;
         this.targetPlayerId = null;
-        this.personality = ['social', 'explorer', 'mystic'][Math.floor(Math.random() * 3)] as BotPersonality;
+        this.personality = ['social', 'explorer', 'mystic'][Math.floor(this.random() * 3)] as BotPersonality;
         this.lastGreeted = new Set();
         this.excitement = 0;
+        this.role = 'wanderer';
+        this.anchorId = null;
+        this.goal = null;
+        this.retiringSince = null;
     }
 
-    findNearbyPlayers(connections: Map<string, PlayerConnection>): { closest: PlayerConnection | null; count: number; avgDist: number } {
+    findNearbyPlayers(connections: Iterable<PlayerConnection>): { closest: PlayerConnection | null; count: number; avgDist: number } {
         let closest: PlayerConnection | null = null;
         let closestDist = Infinity;
         let count = 0;
         let totalDist = 0;
 
-        for (const conn of connections.values()) {
+        for (const conn of connections) {
             if (conn.realm !== this.realm) continue;
             const dist = Math.hypot(conn.x - this.x, conn.y - this.y);
-            if (dist < 600) {
+            if (dist < BOT_SIGHT_RADIUS) {
                 count++;
                 totalDist += dist;
                 if (dist < closestDist) {
@@ -88,7 +109,7 @@ export class ServerBot {
         return { closest, count, avgDist: count > 0 ? totalDist / count : 0 };
     }
 
-    update(connections: Map<string, PlayerConnection>): { action: string | null; data?: any } {
+    update(connections: Iterable<PlayerConnection>): { action: string | null; data?: any } {
         const nearby = this.findNearbyPlayers(connections);
         let actionResult: { action: string | null; data?: any } = { action: null };
 
@@ -102,7 +123,11 @@ export class ServerBot {
         // Movement logic
         const distToCenter = Math.hypot(this.x, this.y);
 
-        if (this.personality === 'social' && nearby.closest) {
+        let goalDist = 0;
+        if (this.goal) {
+            goalDist = Math.hypot(this.goal.x - this.x, this.goal.y - this.y);
+            this.moveAngle = Math.atan2(this.goal.y - this.y, this.goal.x - this.x);
+        } else if (this.personality === 'social' && nearby.closest) {
             const targetDist = Math.hypot(nearby.closest.x - this.x, nearby.closest.y - this.y);
             if (targetDist > 80 && targetDist < 500) {
                 const angleToPlayer = Math.atan2(nearby.closest.y - this.y, nearby.closest.x - this.x);
@@ -111,23 +136,24 @@ export class ServerBot {
                 this.moveAngle += 0.03;
             }
         } else if (this.personality === 'explorer') {
-            if (Math.random() < 0.04) {
-                this.moveAngle += (Math.random() - 0.5) * 2.5;
+            if (this.random() < 0.04) {
+                this.moveAngle += (this.random() - 0.5) * 2.5;
             }
         } else {
-            if (Math.random() < 0.01) {
-                this.moveAngle += (Math.random() - 0.5) * 1.5;
+            if (this.random() < 0.01) {
+                this.moveAngle += (this.random() - 0.5) * 1.5;
             }
         }
 
-        // Stay within bounds
-        if (distToCenter > 1800) {
+        // Stay within bounds (goals are set near players, so they win)
+        if (!this.goal && distToCenter > 1800) {
             const angleToCenter = Math.atan2(-this.y, -this.x);
             this.moveAngle = this.moveAngle * 0.8 + angleToCenter * 0.2;
         }
 
         // Apply movement
-        const speed = this.personality === 'explorer' ? 0.35 : (this.personality === 'social' ? 0.25 : 0.15);
+        // Ease off near a goal so the bot settles instead of overshooting
+        const speed = this.goal ? 0.35 * Math.min(1, goalDist / 150) : (this.personality === 'explorer' ? 0.35 : (this.personality === 'social' ? 0.25 : 0.15));
         this.vx += Math.cos(this.moveAngle) * speed;
         this.vy += Math.sin(this.moveAngle) * speed;
         this.vx *= 0.94;
@@ -144,6 +170,14 @@ export class ServerBot {
         this.singing = Math.max(0, this.singing - 0.02);
         this.pulsing = Math.max(0, this.pulsing - 0.02);
 
+        // Clear emote
+        if (this.emoteTimer > 0) {
+            this.emoteTimer--;
+            if (this.emoteTimer <= 0) {
+                this.emoting = null;
+            }
+        }
+
         // Decay message timer
         if (this.messageTimer > 0) {
             this.messageTimer--;
@@ -155,10 +189,7 @@ export class ServerBot {
         // Greet new nearby players
         if (nearby.closest && !this.lastGreeted.has(nearby.closest.playerId) && this.chatTimer === 0) {
             const greetChance = this.personality === 'social' ? 0.15 : 0.05;
-            if (Math.random() < greetChance) {
-                this.speak(BOT_GREETINGS[Math.floor(Math.random() * BOT_GREETINGS.length)]);
-                this.lastGreeted.add(nearby.closest.playerId);
-                this.chatTimer = 120;
+            if (this.random() < greetChance && this.greet(nearby.closest.playerId)) {
                 actionResult = { action: 'greet', data: { targetId: nearby.closest.playerId } };
             }
         }
@@ -169,15 +200,15 @@ export class ServerBot {
             if (this.personality === 'social') chatChance *= 2;
             if (this.personality === 'mystic') chatChance *= 1.5;
 
-            if (Math.random() < chatChance && nearby.count > 0) {
+            if (this.random() < chatChance && nearby.count > 0) {
                 let message: string;
-                if (this.personality === 'social' && Math.random() < 0.4) {
-                    message = BOT_QUESTIONS[Math.floor(Math.random() * BOT_QUESTIONS.length)];
-                } else if (this.personality === 'mystic' && Math.random() < 0.5) {
-                    message = BOT_THOUGHTS[Math.floor(Math.random() * BOT_THOUGHTS.length)];
+                if (this.personality === 'social' && this.random() < 0.4) {
+                    message = BOT_QUESTIONS[Math.floor(this.random() * BOT_QUESTIONS.length)];
+                } else if (this.personality === 'mystic' && this.random() < 0.5) {
+                    message = BOT_THOUGHTS[Math.floor(this.random() * BOT_THOUGHTS.length)];
                 } else {
                     const allMessages = [...BOT_THOUGHTS, ...BOT_REACTIONS];
-                    message = allMessages[Math.floor(Math.random() * allMessages.length)];
+                    message = allMessages[Math.floor(this.random() * allMessages.length)];
                 }
                 this.speak(message);
                 this.thinkTimer = 0;
@@ -187,27 +218,27 @@ export class ServerBot {
 
         // Sing more often when excited
         const singChance = 0.003 + this.excitement * 0.008;
-        if (this.actionTimer > 150 && Math.random() < singChance && nearby.count > 0) {
+        if (this.actionTimer > 150 && this.random() < singChance && nearby.count > 0) {
             this.actionTimer = 0;
             this.singing = 1;
             actionResult = { action: 'sing' };
         }
 
         // Pulse when very excited
-        if (this.excitement > 0.7 && Math.random() < 0.005) {
+        if (this.excitement > 0.7 && this.random() < 0.005) {
             this.pulsing = 1;
             actionResult = { action: 'pulse' };
         }
 
         // Emote occasionally
-        if (Math.random() < 0.002 && nearby.count > 0) {
+        if (this.random() < 0.002 && nearby.count > 0) {
             const emotes = ['✨', '💫', '🌟', '❤️', '👋', '🎵'];
-            this.emoting = emotes[Math.floor(Math.random() * emotes.length)];
-            setTimeout(() => { this.emoting = null; }, 2000);
+            this.emoting = emotes[Math.floor(this.random() * emotes.length)];
+            this.emoteTimer = 40; // ~2s at 20Hz
         }
 
         // Clean up old greetings periodically
-        if (Math.random() < 0.001) {
+        if (this.random() < 0.001) {
             this.lastGreeted.clear();
         }
 
@@ -221,15 +252,15 @@ export class ServerBot {
 
         const reactChance = (1 - distance / 400) * (this.personality === 'social' ? 0.4 : 0.2);
 
-        if (Math.random() < reactChance && this.chatTimer === 0) {
+        if (this.random() < reactChance && this.chatTimer === 0) {
             if (actionType === 'sing') {
-                if (Math.random() < 0.3) {
+                if (this.random() < 0.3) {
                     this.singing = 1;
                 } else {
-                    this.speak(BOT_REACTIONS[Math.floor(Math.random() * BOT_REACTIONS.length)]);
+                    this.speak(BOT_REACTIONS[Math.floor(this.random() * BOT_REACTIONS.length)]);
                 }
             } else if (actionType === 'pulse') {
-                if (Math.random() < 0.3) {
+                if (this.random() < 0.3) {
                     this.pulsing = 1;
                 }
             }
@@ -237,6 +268,31 @@ export class ServerBot {
         }
     }
 
+    /**
+     * Say hello to a player once; false while still talking or already greeted
+     */
+    greet(playerId: string): boolean {
+        if (this.chatTimer > 0 || this.lastGreeted.has(playerId)) return false;
+        this.speak(BOT_GREETINGS[Math.floor(this.random() * BOT_GREETINGS.length)]);
+        this.lastGreeted.add(playerId);
+        this.chatTimer = 120;
+        return true;
+    }
+
+    /**
+     * Say goodbye and head away from `from` until the director despawns us
+     */
+    retire(now: number, from: { x: number; y: number }): void {
+        if (this.retiringSince !== null) return;
+        this.retiringSince = now;
+        this.role = 'wanderer';
+        this.speak(BOT_FAREWELLS[Math.floor(this.random() * BOT_FAREWELLS.length)]);
+        this.chatTimer = 180;
+
+        const away = Math.atan2(this.y - from.y, this.x - from.x);
+        this.goal = { x: this.x + Math.cos(away) * 2000, y: this.y + Math.sin(away) * 2000 };
+    }
+
     speak(message: string): void {
         this.currentMessage = message;
         this.messageTimer = 180;
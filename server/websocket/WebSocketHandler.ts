@@ -6,12 +6,19 @@
 //
 // Key principles:
 // 1. Server runs the game loop at 20Hz (serverGameTick)
-// 2. Server broadcasts world_state to all clients every tick
-// 3. Clients RECEIVE state, they don't dictate it (except player input)
+// 2. Server replicates world state to every client each tick
+//    (interest-filtered deltas, see ./replication/)
+// 3. Clients RECEIVE state, they don't dictate it (except player input,
+//    and reported movement is speed-checked, see ./movement/)
 // 4. Bots are 100% server-controlled (ServerBot class)
-// 5. Actions (sing, pulse, emote, echo) are validated server-side
+// 5. Actions (sing, pulse, emote, echo) are validated server-side, and every
+//    message passes its rate limit / cooldown policy first (see ./ratelimit/)
 // 6. XP is calculated SERVER-SIDE only - client cannot manipulate
-// 7. Player data is persisted to MongoDB on disconnect
+// 7. Player data is persisted to MongoDB on disconnect. A dropped socket is
+//    held for a grace period and can resume, replaying reliable messages
+//    (see ./resume/)
+// 8. Connections must present a signed session token (see SessionService);
+//    the player identity comes from the token, never from the URL
 //
 // ARCHITECTURE:
 // - Core lifecycle and routing in this file
@@ -23,23 +30,38 @@
 import { WebSocket, WebSocketServer } from 'ws';
 import type { IncomingMessage } from 'http';
 import type { Server } from 'http';
+import type { Duplex } from 'stream';
 
 // Services
 import { mongoPersistence } from '../services/MongoPersistenceService.js';
 import { progressionService } from '../services/ProgressionService.js';
 import { playerDataService } from '../services/PlayerDataService.js';
 import { worldEventsService } from '../services/WorldEventsService.js';
+import { worldEventSchedulerService, EVENT_TYPES } from '../services/WorldEventSchedulerService.js';
+import type { WorldEventRecord } from '../services/WorldEventSchedulerService.js';
 import { darknessService } from '../services/DarknessService.js';
 import { powerUpService } from '../services/PowerUpService.js';
+import { sessionService } from '../services/SessionService.js';
+import type { SessionClaims } from '../services/SessionService.js';
 import { tagGameService } from '../services/TagGameService.js';
 import { notificationService } from '../services/NotificationService.js';
+import type { DeliveredNotification, InboxPage } from '../services/NotificationService.js';
 import { activityTrackingService } from '../services/ActivityTrackingService.js';
 import { friendshipService } from '../services/FriendshipService.js';
 import { beaconService } from '../services/BeaconService.js';
+import type { Beacon } from '../services/BeaconService.js';
+import { bondService } from '../services/BondService.js';
+import { leaderboardService } from '../services/LeaderboardService.js';
+import type { RankChange } from '../services/LeaderboardService.js';
+import { moderationService } from '../services/ModerationService.js';
+import type { SanctionRecord } from '../services/ModerationService.js';
 import { SHARED_CONFIG, getLevel } from '../common/constants.js';
+import { ALL_REALM_IDS, DEFAULT_REALM, checkRealmEntry, getRealmPhysics, getRealmSpecialMode, isRealmId } from '../common/realms.js';
+import type { RealmEntryCheck } from '../common/realms.js';
+import { SpatialMap } from '../common/spatial/index.js';
 
 // Types
-import type { PlayerConnection, WebSocketMessage, HandlerContext, Echo, PowerUpInstance, WorldEvent, ServerFragment } from './types.js';
+import type { PlayerConnection, WebSocketMessage, HandlerContext, Echo, PowerUpInstance, WorldEvent, ServerFragment, SendMessage, BroadcastMessage } from './types.js';
 
 // Bot
 import { ServerBot } from './ServerBot.js';
@@ -91,6 +113,45 @@ import {
 
 // Phase 3 Security: Message validation
 import { validateMessage, sanitizeString } from './validation/index.js';
+// Message contract shared with the client
+import { isClientMessageType } from '../common/protocol/index.js';
+import type { ServerMessage, ServerMessageType, ValidatedPayload, ValidatedRequest } from '../common/protocol/index.js';
+
+// World state replication (interest management + delta compression)
+import { ReplicationManager } from './replication/index.js';
+import type { RealmSnapshot, ReplicatedEntity, BandwidthStats } from './replication/index.js';
+// Movement validation (speed checks, rubber-banding, suspicion scores)
+import { MovementAuthority } from './movement/index.js';
+import type { SuspicionReport } from './movement/index.js';
+// Suspended connections and reliable message replay across reconnects
+import { ResumeManager, FINAL_CLOSE_CODES } from './resume/index.js';
+// Per-message-type rate limits and action cooldowns
+import { RateLimiter } from './ratelimit/index.js';
+import { BotDirector } from './bots/index.js';
+import type { BotWorld, BotDirectorStats } from './bots/index.js';
+import type { RateLimitMetrics } from './ratelimit/index.js';
+// Realm sharding across server processes
+import { ShardCoordinator } from './cluster/index.js';
+import type { PlayerLocation, HandoffState } from './cluster/index.js';
+// World snapshots for warm restarts
+import { FileSnapshotStore, WORLD_SNAPSHOT_VERSION, serializeEcho, deserializeEcho, isUsableSnapshot } from './snapshot/index.js';
+import type { SnapshotStore, WorldSnapshot } from './snapshot/index.js';
+// Binary encoding for hot message types (negotiated per connection)
+import { BINARY_MESSAGE_TYPES, encodeBinaryMessage, decodeBinaryMessage } from '../common/protocol/index.js';
+// Time and randomness (injectable for deterministic simulation)
+import { WorldEventRuntime } from './events/index.js';
+import type { ActiveWorldEvent, EventWorld } from './events/index.js';
+
+import { systemClock, seededRandom } from './runtime/index.js';
+import type { Clock, TimerHandle, RandomSource } from './runtime/index.js';
+
+export interface WebSocketInitOptions {
+    cluster?: ShardCoordinator;         // Default: shard layout from the environment
+    snapshotStore?: SnapshotStore | null;   // Default: file from the environment; null disables
+    clock?: Clock;                      // Default: wall clock and Node timers
+    random?: RandomSource;              // Default: Math.random
+    botCpuTime?: () => number;          // Default: performance.now, for the bot tick budget
+}
 
 /**
  * WebSocket server for real-time game synchronization
@@ -99,23 +160,28 @@ import { validateMessage, sanitizeString } from './validation/index.js';
 export class WebSocketHandler {
     private wss: WebSocketServer | null = null;
     private connections: Map<string, PlayerConnection> = new Map();
-    private cleanupInterval: NodeJS.Timeout | null = null;
-    private gameLoopInterval: NodeJS.Timeout | null = null;
-    private saveInterval: NodeJS.Timeout | null = null;
+    private cleanupInterval: TimerHandle | null = null;
+    private gameLoopInterval: TimerHandle | null = null;
+    private saveInterval: TimerHandle | null = null;
+    private snapshotInterval: TimerHandle | null = null;
+
+    // Time and randomness for the game loop, fragments and bots
+    private clock: Clock = systemClock;
+    private random: RandomSource = Math.random;
+    private tickCount = 0;
 
     // Server-authoritative bots
-    private bots: Map<string, ServerBot> = new Map();
-    private readonly MIN_POPULATION = 3;
+    private bots = new SpatialMap<ServerBot>({ partition: bot => bot.realm });
 
     // Server-authoritative state
     private litStars: Set<string> = new Set();
-    private echoes: Map<string, Echo> = new Map();
-    private powerUps: Map<string, PowerUpInstance> = new Map();
+    private echoes = new SpatialMap<Echo>();
+    private powerUps = new SpatialMap<PowerUpInstance>();
     private worldEvents: Map<string, WorldEvent> = new Map();
-    private realms: Map<string, Map<string, PlayerConnection>> = new Map();
+    private realms: Map<string, SpatialMap<PlayerConnection>> = new Map();    // Players by id, indexed by position
 
     // Server-authoritative fragments (per realm)
-    private fragments: Map<string, Map<string, ServerFragment>> = new Map();
+    private fragments: Map<string, SpatialMap<ServerFragment>> = new Map();
     private readonly WORLD_SIZE = 8000;
     private readonly INITIAL_FRAGMENTS_PER_REALM = 150;
     private readonly MAX_FRAGMENTS_PER_REALM = 200;
@@ -131,18 +197,53 @@ export class WebSocketHandler {
     private stars: Array<{ id: string; x: number; y: number; size: number; alpha: number; twinklePhase: number }> = [];
     private visualsInitialized = false;
 
+    // Per-connection world state replication
+    private replication = new ReplicationManager();
+
+    // Per-connection movement validation
+    private movement = new MovementAuthority();
+
+    // Dropped connections held for a grace period, reliable message sequencing
+    private resume = new ResumeManager();
+    private socketOwners: WeakMap<WebSocket, string> = new WeakMap();
+    private connectionCount = 0;
+
+    // Token buckets and cooldowns per player, applied before dispatch
+    private rateLimiter = new RateLimiter();
+
+    // Spawns, directs and retires bots around players
+    private botDirector = new BotDirector(this.createBotWorld());
+
+    // Mechanics of scheduled world events (meteor collectibles, aurora XP, forced darkness)
+    private eventRuntime = new WorldEventRuntime(this.createEventWorld(), {
+        onContribution: (eventId, playerId, amount) => {
+            if (!mongoPersistence.isReady()) return;
+            worldEventSchedulerService.recordContribution(eventId, playerId, amount)
+                .catch(error => console.error('Failed to record event contribution:', error));
+        },
+        onProgress: (progress, realms) => {
+            for (const realm of realms) {
+                this.broadcastToRealm(realm, { type: 'world_event_progress', data: progress, timestamp: this.clock.now() });
+            }
+        }
+    });
+
+    // Sockets that negotiated the binary codec (?codec=binary)
+    private binaryClients: WeakSet<WebSocket> = new WeakSet();
+
+    // Which realms this process hosts, and messaging to the other shards
+    private cluster!: ShardCoordinator;
+
+    // Where the world is saved for the next process
+    private snapshotStore: SnapshotStore | null = null;
+
     // Timing constants
     private readonly PLAYER_TIMEOUT = 30000;
     private readonly CLEANUP_INTERVAL = 10000;
     private readonly GAME_TICK_RATE = 50; // 20Hz server tick
     private readonly SAVE_INTERVAL = 30000;
-
-    // Bond system constants
-    private readonly BOND_DECAY_RATE = 0.03;
-    private readonly BOND_WHISPER_GAIN = 12;
-    private readonly BOND_SING_GAIN = 8;
-    private readonly BOND_PULSE_GAIN = 5;
-    private readonly BOND_THRESHOLD_NOTIFY = 25;
+    private readonly SNAPSHOT_INTERVAL = 60000;
+    private readonly RESTART_RECONNECT_DELAY = 3000; // Suggested wait before reconnecting after a restart
 
     // XP reward constants (server-authoritative)
     private readonly XP_STAR_LIT = SHARED_CONFIG.XP_STAR_LIT;
@@ -153,18 +254,6 @@ export class WebSocketHandler {
     private readonly XP_EMOTE = 1;
     private readonly XP_CONNECTION_MADE = 10;
 
-    // Action cooldowns (in ms)
-    private readonly COOLDOWN_SING = 2000;
-    private readonly COOLDOWN_PULSE = 1500;
-    private readonly COOLDOWN_ECHO = 5000;
-    private readonly COOLDOWN_EMOTE = 1000;
-    private actionCooldowns: Map<string, Map<string, number>> = new Map();
-
-    // Rate limiting
-    private readonly MESSAGE_RATE_LIMIT = 50;
-    private readonly MESSAGE_RATE_WINDOW = 1000;
-    private messageRateLimits: Map<string, { count: number; windowStart: number }> = new Map();
-
     // Player movement bounds
     private readonly MAX_COORDINATE = 50000;
 
@@ -183,39 +272,66 @@ export class WebSocketHandler {
     // ==========================================================================
 
     /**
-     * Initialize WebSocket server
+     * Initialize WebSocket server. Without a coordinator the shard layout and
+     * message bus are read from the environment (standalone unless
+     * REALM_SHARDS is set); call connectCluster() before serving players.
+     * Without an HTTP server nothing listens; connections are handed in
+     * through acceptConnection() (simulation tests).
      */
-    init(server: Server): void {
-        this.wss = new WebSocketServer({
-            server,
-            path: '/ws'
+    init(server: Server | null, options: WebSocketInitOptions = {}): void {
+        this.clock = options.clock ?? systemClock;
+        this.random = options.random ?? Math.random;
+        if (options.botCpuTime) {
+            this.botDirector = new BotDirector(this.createBotWorld(), { cpuTime: options.botCpuTime });
+        }
+        this.cluster = options.cluster ?? ShardCoordinator.fromEnv();
+        this.snapshotStore = options.snapshotStore !== undefined
+            ? options.snapshotStore
+            : FileSnapshotStore.fromEnv(this.cluster.router.isStandalone() ? null : this.cluster.shardId);
+        this.cluster.attach({
+            deliver: (playerId, message) => this.sendToPlayer(playerId, message),
+            broadcast: (message) => this.broadcast(message),
+            locate: (playerId) => this.locateLocalPlayer(playerId)
         });
 
+        // Upgrades are authenticated before the WebSocket is accepted
+        if (server) {
+            this.wss = new WebSocketServer({ noServer: true });
+            server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+                this.handleUpgrade(req, socket, head);
+            });
+            this.wss.on('connection', (ws: WebSocket, req: IncomingMessage, session: SessionClaims) => {
+                const url = new URL(req.url || '', `http://${req.headers.host}`);
+                this.acceptConnection(ws, session, url.searchParams);
+            });
+        }
+
         // Initialize realms
         this.initializeRealms();
 
         // Create handler context
         this.handlerContext = this.createHandlerContext();
 
-        this.wss.on('connection', (ws: WebSocket, req: IncomingMessage) => {
-            this.handleConnection(ws, req);
-        });
-
         // Start cleanup interval
-        this.cleanupInterval = setInterval(() => {
+        this.cleanupInterval = this.clock.setInterval(() => {
             this.cleanupStaleConnections();
         }, this.CLEANUP_INTERVAL);
 
         // Start server game loop
-        this.gameLoopInterval = setInterval(() => {
+        this.gameLoopInterval = this.clock.setInterval(() => {
             this.serverGameTick();
         }, this.GAME_TICK_RATE);
 
         // Start periodic save
-        this.saveInterval = setInterval(() => {
+        this.saveInterval = this.clock.setInterval(() => {
             this.saveDirtyPlayers();
         }, this.SAVE_INTERVAL);
 
+        // Start periodic world snapshot
+        this.snapshotInterval = this.clock.setInterval(() => {
+            this.saveSnapshot();
+        }, this.SNAPSHOT_INTERVAL);
+
         // Load persisted data
         this.loadPersistedData();
 
@@ -223,30 +339,31 @@ export class WebSocketHandler {
         this.initializeServices();
 
         console.log('🔌 WebSocket server initialized (modular architecture)');
+        if (!this.cluster.router.isStandalone()) {
+            console.log(`🧩 Shard ${this.cluster.shardId} hosting realms: ${Array.from(this.realms.keys()).join(', ')}`);
+        }
         console.log('🎮 Server game loop running at 20Hz');
         console.log('💾 Player persistence enabled');
     }
 
+    /**
+     * Connect the cluster's message bus. Throws when a networked bus cannot
+     * be reached; shards would otherwise run unaware of each other.
+     */
+    async connectCluster(): Promise<void> {
+        await this.cluster.connect();
+    }
+
     /**
      * Initialize realm structures
      */
     private initializeRealms(): void {
-        const realmNames = [
-            'genesis',
-            'nebula',
-            'void',
-            'starforge',
-            'sanctuary',
-            'abyss',
-            'crystal',
-            'celestial',
-            'tagarena'
-        ];
+        const realmNames = ALL_REALM_IDS.filter(realm => this.cluster.router.isLocal(realm));
         for (const realm of realmNames) {
-            this.realms.set(realm, new Map());
+            this.realms.set(realm, new SpatialMap());
             // Initialize fragments for this realm with seeded random
             this.initializeFragmentsForRealm(realm);
-            this.lastFragmentSpawn.set(realm, Date.now());
+            this.lastFragmentSpawn.set(realm, this.clock.now());
         }
         console.log(`✨ Initialized ${realmNames.length} realms with ${this.INITIAL_FRAGMENTS_PER_REALM} fragments each`);
 
@@ -263,7 +380,7 @@ export class WebSocketHandler {
 
         // Use seeded random for consistent visuals across restarts
         const seed = 42424242; // Fixed seed for consistent world
-        const random = this.seededRandom(seed);
+        const random = seededRandom(seed);
 
         // Generate nebulae
         for (let i = 0; i < 12; i++) {
@@ -293,27 +410,14 @@ export class WebSocketHandler {
         console.log(`🌌 Initialized ${this.nebulae.length} nebulae and ${this.stars.length} stars`);
     }
 
-    /**
-     * Seeded random number generator for consistent fragment placement
-     * Using simple mulberry32 algorithm
-     */
-    private seededRandom(seed: number): () => number {
-        return () => {
-            let t = seed += 0x6D2B79F5;
-            t = Math.imul(t ^ t >>> 15, t | 1);
-            t ^= t + Math.imul(t ^ t >>> 7, t | 61);
-            return ((t ^ t >>> 14) >>> 0) / 4294967296;
-        };
-    }
-
     /**
      * Initialize fragments for a realm using seeded random
      */
     private initializeFragmentsForRealm(realm: string): void {
-        const realmFragments = new Map<string, ServerFragment>();
+        const realmFragments = new SpatialMap<ServerFragment>();
         // Use realm name as seed for consistent fragment placement across restarts
         const seed = realm.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0) * 12345;
-        const random = this.seededRandom(seed);
+        const random = seededRandom(seed);
 
         for (let i = 0; i < this.INITIAL_FRAGMENTS_PER_REALM; i++) {
             const id = `frag_${realm}_${i}`;
@@ -326,7 +430,7 @@ export class WebSocketHandler {
                 isGolden,
                 value: isGolden ? 5 : 1,
                 phase: random() * Math.PI * 2,
-                spawnedAt: Date.now()
+                spawnedAt: this.clock.now()
             };
             realmFragments.set(id, fragment);
         }
@@ -343,22 +447,147 @@ export class WebSocketHandler {
         }
 
         this.fragmentIdCounter++;
-        const id = `frag_${realm}_${Date.now()}_${this.fragmentIdCounter}`;
-        const isGolden = Math.random() < 0.1;
+        const id = `frag_${realm}_${this.clock.now()}_${this.fragmentIdCounter}`;
+        const isGolden = this.random() < 0.1;
         const fragment: ServerFragment = {
             id,
-            x: 50 + Math.random() * (this.WORLD_SIZE - 100),
-            y: 50 + Math.random() * (this.WORLD_SIZE - 100),
+            x: 50 + this.random() * (this.WORLD_SIZE - 100),
+            y: 50 + this.random() * (this.WORLD_SIZE - 100),
             realm,
             isGolden,
             value: isGolden ? 5 : 1,
-            phase: Math.random() * Math.PI * 2,
-            spawnedAt: Date.now()
+            phase: this.random() * Math.PI * 2,
+            spawnedAt: this.clock.now()
         };
         realmFragments.set(id, fragment);
         return fragment;
     }
 
+    /**
+     * Tell a realm about a new fragment
+     */
+    private broadcastFragmentSpawned(fragment: ServerFragment): void {
+        this.broadcastToRealm(fragment.realm, {
+            type: 'fragment_spawned',
+            data: {
+                id: fragment.id,
+                x: Math.round(fragment.x),
+                y: Math.round(fragment.y),
+                isGolden: fragment.isGolden,
+                value: fragment.value,
+                phase: fragment.phase,
+                ...(fragment.eventId ? { eventId: fragment.eventId } : {})
+            },
+            timestamp: this.clock.now()
+        });
+    }
+
+    /**
+     * The world as seen by world event mechanics
+     */
+    private createEventWorld(): EventWorld {
+        return {
+            realms: () => Array.from(this.realms.keys()),
+            players: (realm) => this.realmPlayers(realm),
+            spawnCollectible: (realm, eventId, x, y) => {
+                const realmFragments = this.fragments.get(realm);
+                if (!realmFragments) return null;
+
+                this.fragmentIdCounter++;
+                const fragment: ServerFragment = {
+                    id: `frag_${realm}_event_${this.clock.now()}_${this.fragmentIdCounter}`,
+                    x: Math.max(50, Math.min(this.WORLD_SIZE - 50, x)),
+                    y: Math.max(50, Math.min(this.WORLD_SIZE - 50, y)),
+                    realm,
+                    isGolden: true,
+                    value: 3,
+                    phase: this.random() * Math.PI * 2,
+                    spawnedAt: this.clock.now(),
+                    eventId
+                };
+                realmFragments.set(fragment.id, fragment);
+                this.broadcastFragmentSpawned(fragment);
+                return fragment;
+            },
+            removeCollectible: (realm, fragmentId) => {
+                if (this.fragments.get(realm)?.delete(fragmentId)) {
+                    this.broadcastToRealm(realm, { type: 'fragment_removed', data: { fragmentId }, timestamp: this.clock.now() });
+                }
+            },
+            grantXp: (player, amount, eventId) => {
+                player.xp += amount;
+                this.send(player.ws, {
+                    type: 'event_xp_gained',
+                    data: { eventId, xpGained: amount, totalXp: player.xp },
+                    timestamp: this.clock.now()
+                });
+            },
+            forceDarkness: (realm, durationMs) => darknessService.forceDarkness(realm, durationMs),
+            clearDarkness: (realm) => darknessService.clearDarkness(realm),
+            random: () => this.random()
+        };
+    }
+
+    private createBotWorld(): BotWorld {
+        return {
+            realms: () => Array.from(this.realms.keys()),
+            players: (realm) => this.realmPlayers(realm),
+            player: (realm, playerId) => {
+                const connection = this.realms.get(realm)?.get(playerId);
+                return connection && !connection.isBot ? connection : undefined;
+            },
+            playersNear: (realm, x, y, radius) => this.realms.get(realm)?.within(x, y, radius, undefined, c => !c.isBot) ?? [],
+            bots: () => this.bots.values(),
+            botsNear: (realm, x, y, radius) => this.bots.within(x, y, radius, realm),
+            botMoved: (bot) => this.bots.moved(bot.id),
+            spawnBot: (realm, x, y) => {
+                const bot = new ServerBot(x, y, realm, this.random);
+                this.bots.set(bot.id, bot);
+                return bot;
+            },
+            removeBot: (bot) => {
+                this.bots.delete(bot.id);
+            },
+            fragments: (realm) => this.fragments.get(realm)?.values() || [],
+            fragmentsNear: (realm, x, y, radius) => this.fragments.get(realm)?.within(x, y, radius) ?? [],
+            collectFragment: (bot, fragmentId) => {
+                if (!this.fragments.get(bot.realm)?.delete(fragmentId)) return false;
+                this.broadcastToRealm(bot.realm, {
+                    type: 'fragment_removed',
+                    data: { fragmentId, collectedBy: bot.id, botDriven: true },
+                    timestamp: this.clock.now()
+                });
+                return true;
+            },
+            darknessActive: (realm) => darknessService.getState(realm)?.phase === 'active',
+            litBeacons: (realm) => beaconService.getLitBeaconsInRealm(realm),
+            random: () => this.random()
+        };
+    }
+
+    /**
+     * Scheduler event record -> what the mechanics runtime needs
+     */
+    private toActiveWorldEvent(event: WorldEventRecord): ActiveWorldEvent {
+        return {
+            eventId: event.eventId,
+            eventType: event.eventType,
+            realm: event.realm || null,
+            mechanics: EVENT_TYPES[event.eventType]?.mechanics || [],
+            startTime: new Date(event.startTime).getTime(),
+            endTime: new Date(event.endTime).getTime(),
+            position: event.position?.x !== undefined ? { x: event.position.x, y: event.position.y } : undefined,
+            radius: event.radius
+        };
+    }
+
+    /**
+     * Mechanics of scheduled world events running on this process
+     */
+    get worldEventRuntime(): WorldEventRuntime {
+        return this.eventRuntime;
+    }
+
     /**
      * Get all fragments as a flat map (for handler context)
      */
@@ -386,12 +615,23 @@ export class WebSocketHandler {
             litStars: this.litStars,
             fragments: this.getAllFragmentsFlat(),
             send: this.send.bind(this),
-            broadcast: this.broadcast.bind(this),
+            broadcast: this.broadcastGlobal.bind(this),
             broadcastToRealm: this.broadcastToRealm.bind(this),
-            sendError: this.sendError.bind(this)
+            sendError: this.sendError.bind(this),
+            sendToPlayers: (playerIds, message) => this.cluster.sendToPlayers(playerIds, message),
+            locatePlayer: (playerId: string) => this.cluster.locatePlayer(playerId),
+            grantTeleport: (connection: PlayerConnection, x: number, y: number) =>
+                this.movement.grantTeleport(connection.playerId, x, y, this.clock.now())
         };
     }
 
+    /**
+     * Real players connected to a realm on this shard
+     */
+    private realmPlayers(realm: string): PlayerConnection[] {
+        return Array.from(this.realms.get(realm)?.values() || []).filter(c => !c.isBot);
+    }
+
     /**
      * Initialize service event listeners
      */
@@ -406,16 +646,59 @@ export class WebSocketHandler {
         });
 
         // Darkness Service
+        // Scheduled world events: run their mechanics while active
+        const startEventMechanics = (event: WorldEventRecord) => {
+            this.eventRuntime.start(this.toActiveWorldEvent(event), this.clock.now());
+        };
+        const endEventMechanics = (event: WorldEventRecord) => {
+            this.eventRuntime.end(event.eventId, this.clock.now());
+        };
+        worldEventSchedulerService.on('event_started', startEventMechanics);
+        worldEventSchedulerService.on('event_resumed', startEventMechanics);
+        worldEventSchedulerService.on('event_ended', endEventMechanics);
+        worldEventSchedulerService.on('event_cancelled', endEventMechanics);
+        worldEventSchedulerService.getRunningEvents().forEach(startEventMechanics);
+
         darknessService.on('darkness_warning', (darknessData: any) => {
             this.broadcastToRealm(darknessData.realm, { type: 'darkness_warning', data: darknessData });
         });
 
         darknessService.on('darkness_active', (darknessData: any) => {
             this.broadcastToRealm(darknessData.realm, { type: 'darkness_active', data: darknessData });
+            bondService.observeDarknessStarted(darknessData.realm, this.realmPlayers(darknessData.realm).map(p => p.playerId));
         });
 
         darknessService.on('darkness_ended', (darknessData: any) => {
             this.broadcastToRealm(darknessData.realm, { type: 'darkness_ended', data: darknessData });
+            bondService.observeDarknessEnded(darknessData.realm, this.realmPlayers(darknessData.realm));
+        });
+
+        // Beacons lit together become shared moments for the contributors standing by
+        beaconService.on('beacon_lit', ({ beacon }: { beacon: Beacon }) => {
+            const contributors = this.realmPlayers(beacon.realm).filter(p => beacon.contributors.has(p.playerId));
+            bondService.observeBeaconLit(beacon.realm, beacon, contributors);
+        });
+
+        // Bond Service: both players hear about every change to their bond
+        bondService.on('bond_updated', (update: any) => {
+            const { player1Id, player2Id, ...data } = update;
+            this.cluster.sendToPlayers([player1Id], { type: 'bond_updated', data: { ...data, targetId: player2Id } });
+            this.cluster.sendToPlayers([player2Id], { type: 'bond_updated', data: { ...data, targetId: player1Id } });
+        });
+
+        bondService.on('bond_tier_changed', (change: any) => {
+            const { player1Id, player2Id, ...data } = change;
+            this.cluster.sendToPlayers([player1Id], { type: 'bond_tier_changed', data: { ...data, targetId: player2Id } });
+            this.cluster.sendToPlayers([player2Id], { type: 'bond_tier_changed', data: { ...data, targetId: player1Id } });
+        });
+
+        bondService.on('bond_moment', ({ player1Id, player2Id, moment }: any) => {
+            this.cluster.sendToPlayers([player1Id], { type: 'bond_moment', data: { targetId: player2Id, moment } });
+            this.cluster.sendToPlayers([player2Id], { type: 'bond_moment', data: { targetId: player1Id, moment } });
+        });
+
+        leaderboardService.on('rank_changed', ({ playerId, category, ...change }: RankChange) => {
+            this.cluster.sendToPlayers([playerId], { type: 'leaderboard_rank_changed', data: { leaderboardType: category, ...change } });
         });
 
         // Power-up Service
@@ -465,6 +748,43 @@ export class WebSocketHandler {
                 }
             });
         });
+
+        // Notification Service: live pushes, and the inbox page sent on connect
+        notificationService.on('notification', ({ playerId, notification }: { playerId: string; notification: DeliveredNotification }) => {
+            this.sendToPlayer(playerId, {
+                type: 'notification',
+                data: notification,
+                timestamp: this.clock.now()
+            });
+        });
+
+        notificationService.on('inbox_delivery', ({ playerId, inbox }: { playerId: string; inbox: InboxPage }) => {
+            this.sendToPlayer(playerId, {
+                type: 'notifications_pending',
+                data: inbox,
+                timestamp: this.clock.now()
+            });
+        });
+
+        // Moderation Service (sanctions issued elsewhere apply on next connect)
+        moderationService.on('player_muted', (sanction: SanctionRecord) => {
+            this.sendToPlayer(sanction.playerId, {
+                type: 'moderation_muted',
+                data: { until: sanction.expiresAt, reason: sanction.reason },
+                timestamp: this.clock.now()
+            });
+        });
+
+        moderationService.on('player_banned', (sanction: SanctionRecord) => {
+            const connection = this.connections.get(sanction.playerId);
+            if (!connection) return;
+            this.sendToPlayer(sanction.playerId, {
+                type: 'moderation_banned',
+                data: { until: sanction.expiresAt, reason: sanction.reason },
+                timestamp: this.clock.now()
+            });
+            connection.ws.close(4003, 'Banned');
+        });
     }
 
     // ==========================================================================
@@ -472,13 +792,71 @@ export class WebSocketHandler {
     // ==========================================================================
 
     /**
-     * Handle new WebSocket connection
+     * Authenticate a `/ws` upgrade request before accepting the WebSocket.
+     * Missing, invalid and expired session tokens are rejected with 401.
+     */
+    private async handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): Promise<void> {
+        const url = new URL(req.url || '', `http://${req.headers.host}`);
+        if (url.pathname !== '/ws') {
+            this.rejectUpgrade(socket, 404, 'Not Found');
+            return;
+        }
+
+        const result = sessionService.verifyToken(url.searchParams.get('token'));
+        if (!result.valid) {
+            console.warn(`🚫 WebSocket upgrade rejected: ${result.reason} session token`);
+            this.rejectUpgrade(socket, 401, 'Unauthorized');
+            return;
+        }
+
+        // Realms hosted elsewhere: the client should ask /api/realms/:realm/shard
+        const realm = url.searchParams.get('realm') || 'genesis';
+        if (!this.cluster.router.isLocal(realm)) {
+            this.rejectUpgrade(socket, 421, 'Misdirected Request');
+            return;
+        }
+
+        try {
+            const ban = await moderationService.checkConnection(result.claims.sub);
+            if (ban) {
+                console.warn(`🚫 WebSocket upgrade rejected: ${result.claims.sub} is banned`);
+                this.rejectUpgrade(socket, 403, 'Forbidden');
+                return;
+            }
+        } catch (error) {
+            console.error('Failed to check bans:', error);
+        }
+
+        this.wss!.handleUpgrade(req, socket, head, (ws) => {
+            this.wss!.emit('connection', ws, req, result.claims);
+        });
+    }
+
+    private rejectUpgrade(socket: Duplex, status: number, message: string): void {
+        socket.write(`HTTP/1.1 ${status} ${message}\r\nConnection: close\r\n\r\n`);
+        socket.destroy();
+    }
+
+    /**
+     * Handle new WebSocket connection (session already verified).
+     * `params` are the connection URL's query parameters (realm, resume).
      */
-    private handleConnection(ws: WebSocket, req: IncomingMessage): void {
-        const playerId = this.extractPlayerId(req) || this.generatePlayerId();
-        const realm = this.extractRealm(req) || 'genesis';
+    acceptConnection(ws: WebSocket, session: SessionClaims, params: URLSearchParams): void {
+        const playerId = session.sub;
+
+        // Back within the grace period: reattach to the suspended connection
+        if (this.resumeConnection(ws, playerId, params)) return;
+        // A suspended connection that isn't picked up ends here
+        if (this.resume.isSuspended(playerId)) this.handleDisconnect(playerId);
+
+        const requested = params.get('realm') || DEFAULT_REALM;
+
+        // Unknown or full realms start the player in the fallback realm. The
+        // unlock level is checked once their level is known (see enforceRealmUnlock).
+        const entry = checkRealmEntry(requested, Infinity, this.getRealmPopulation(requested));
+        const realm = entry.allowed ? requested : this.fallbackRealm();
 
-        console.log(`🔗 Player connected: ${playerId} to realm ${realm}`);
+        console.log(`🔗 ${session.guest ? 'Guest' : 'Player'} connected: ${playerId} to realm ${realm}`);
 
         // Initialize at world center (WORLD_SIZE = 8000, so center is 4000)
         const WORLD_CENTER = 4000;
@@ -488,47 +866,141 @@ export class WebSocketHandler {
             playerId,
             playerName: `Player_${playerId.substring(0, 6)}`,
             realm,
-            lastSeen: Date.now(),
+            lastSeen: this.clock.now(),
             x: WORLD_CENTER,
             y: WORLD_CENTER,
-            color: Math.floor(Math.random() * 360),
+            color: Math.floor(this.random() * 360),
             xp: 0,
             level: 1,
-            isBot: false
+            isBot: false,
+            isGuest: session.guest,
+            sessionExpiresAt: session.exp
         };
 
+        // Arriving from another shard: pick up where the player left off
+        const handoff = this.cluster.claimHandoff(playerId);
+        if (handoff && handoff.realm === realm) {
+            this.restoreHandoff(connection, handoff);
+        } else {
+            // Reconnecting after a server restart: back to the saved position
+            const resume = sessionService.verifyResumeToken(params.get('resume'), playerId);
+            if (resume && resume.realm === realm) {
+                connection.x = resume.x;
+                connection.y = resume.y;
+            }
+        }
+
+        if (params.get('codec') === 'binary') {
+            this.binaryClients.add(ws);
+        }
+
         // Store connection
         this.connections.set(playerId, connection);
+        this.resume.open(playerId, this.issueReattachToken(playerId));
+        this.movement.spawn(playerId, connection.x, connection.y, this.clock.now());
 
         // Add to realm
         const realmConnections = this.realms.get(realm);
         if (realmConnections) {
             realmConnections.set(playerId, connection);
         }
+        this.onRealmEntered(connection);
 
-        // Load player data from database
-        this.loadPlayerData(connection);
+        // Load player data from database (a handoff already carries it)
+        const loaded = handoff ? Promise.resolve() : this.loadPlayerData(connection);
 
         // Set up Phase 1 handlers for this connection
         this.setupPhase1Handlers(playerId, ws);
 
+        this.attachSocket(playerId, ws);
+
+        // Send initial world state
+        this.sendInitialWorldState(connection, true);
+        if (!entry.allowed) {
+            this.sendRealmDenied(connection, requested, entry);
+        }
+        loaded.then(() => this.enforceRealmUnlock(connection));
+
+        // Deliver notifications that arrived while the player was away
+        notificationService.setPlayerOnline(playerId);
+    }
+
+    /**
+     * Route a socket's messages and close to the player's connection
+     */
+    private attachSocket(playerId: string, ws: WebSocket): void {
+        this.socketOwners.set(ws, playerId);
+
         // Set up message handler
-        ws.on('message', (data) => {
-            this.handleMessage(playerId, data.toString());
+        ws.on('message', (data, isBinary) => {
+            this.handleMessage(playerId, isBinary ? new Uint8Array(data as Buffer) : data.toString());
         });
 
         // Set up close handler
-        ws.on('close', () => {
-            this.handleDisconnect(playerId);
+        ws.on('close', (code: number) => {
+            this.handleSocketClosed(playerId, ws, code);
         });
 
         // Set up error handler
         ws.on('error', (error) => {
             console.error(`WebSocket error for ${playerId}:`, error);
         });
+    }
+
+    private issueReattachToken(playerId: string): string {
+        return sessionService.issueReattachToken(playerId, ++this.connectionCount);
+    }
+
+    /**
+     * Reattach a new socket to a suspended connection: fresh world state, then
+     * the reliable messages sent after the client's `lastSeq`, in order.
+     * False when there is nothing to resume (the caller connects normally).
+     */
+    private resumeConnection(ws: WebSocket, playerId: string, params: URLSearchParams): boolean {
+        const connection = this.connections.get(playerId);
+        if (!connection) return false;
+
+        const lastSeq = Number(params.get('lastSeq')) || 0;
+        const now = this.clock.now();
+        const result = this.resume.resume(playerId, params.get('reattach'), lastSeq, this.issueReattachToken(playerId), now);
+        if (!result) return false;
+
+        console.log(`▶️ Player resumed: ${playerId} after ${result.suspendedFor}ms`);
+
+        if (params.get('codec') === 'binary') {
+            this.binaryClients.add(ws);
+        }
+        connection.ws = ws;
+        connection.lastSeen = now;
+        this.setupPhase1Handlers(playerId, ws);
+        this.attachSocket(playerId, ws);
 
-        // Send initial world state
         this.sendInitialWorldState(connection);
+        this.send(ws, {
+            type: 'session_resumed',
+            data: { replayed: result.replay.length, suspendedFor: result.suspendedFor },
+            timestamp: now
+        });
+        for (const message of result.replay) {
+            this.transmit(ws, message);
+        }
+        return true;
+    }
+
+    /**
+     * A socket closed. Unexpected closes suspend the connection for the
+     * resume grace period; everything else disconnects the player now.
+     */
+    private handleSocketClosed(playerId: string, ws: WebSocket, code: number): void {
+        const connection = this.connections.get(playerId);
+        // A newer socket has already taken over this player
+        if (!connection || connection.ws !== ws) return;
+
+        if (!FINAL_CLOSE_CODES.has(code) && this.resume.suspend(playerId, this.clock.now())) {
+            console.log(`⏸️ Connection lost: ${playerId} - holding it for ${this.resume.config.graceMs}ms`);
+            return;
+        }
+        this.handleDisconnect(playerId);
     }
 
     /**
@@ -538,28 +1010,29 @@ export class WebSocketHandler {
         console.log(`🔌 Player disconnected: ${playerId}`);
 
         const connection = this.connections.get(playerId);
+        this.resume.remove(playerId);
         if (connection) {
-            // Save player data
-            await this.savePlayerData(connection);
-
             // Remove from realm
             const realmConnections = this.realms.get(connection.realm);
             if (realmConnections) {
                 realmConnections.delete(playerId);
             }
+            this.onRealmLeft(connection, connection.realm);
 
             // Notify realm
             this.broadcastToRealm(connection.realm, {
                 type: 'player_left',
                 data: { playerId },
-                timestamp: Date.now()
+                timestamp: this.clock.now()
             }, playerId);
         }
 
         // Remove connection
         this.connections.delete(playerId);
-        this.actionCooldowns.delete(playerId);
-        this.messageRateLimits.delete(playerId);
+        notificationService.setPlayerOffline(playerId);
+        this.rateLimiter.remove(playerId);
+        this.replication.removeClient(playerId);
+        this.movement.removePlayer(playerId);
 
         // Clean up Phase 1 handlers
         this.seasonHandlers.delete(playerId);
@@ -567,6 +1040,11 @@ export class WebSocketHandler {
         this.dailyLoginHandlers.delete(playerId);
         this.constellationHandlers.delete(playerId);
         this.activityHandlers.delete(playerId);
+
+        // Save player data (after the cleanup, so a reconnect can't be removed by it)
+        if (connection) {
+            await this.savePlayerData(connection);
+        }
     }
 
     // ==========================================================================
@@ -576,21 +1054,28 @@ export class WebSocketHandler {
     /**
      * Route incoming messages to appropriate handlers
      */
-    private handleMessage(playerId: string, rawData: string): void {
+    private handleMessage(playerId: string, rawData: string | Uint8Array): void {
         try {
-            // Rate limiting
-            if (this.isRateLimited(playerId)) {
-                return;
-            }
-
-            const message: WebSocketMessage = JSON.parse(rawData);
+            const message: WebSocketMessage = typeof rawData === 'string'
+                ? JSON.parse(rawData)
+                : decodeBinaryMessage(rawData, this.clock.now());
             const connection = this.connections.get(playerId);
 
             if (!connection) return;
 
-            connection.lastSeen = Date.now();
+            // Rate limits and cooldowns (see ./ratelimit/)
+            if (this.isRateLimited(connection, message.type)) {
+                return;
+            }
+
+            connection.lastSeen = this.clock.now();
             const ctx = this.handlerContext;
 
+            if (!isClientMessageType(message.type)) {
+                console.warn(`Unknown message type: ${message.type}`);
+                return;
+            }
+
             // Phase 3 Security: Validate message data with Zod schemas
             const validation = validateMessage(message.type, message.data);
             if (!validation.success) {
@@ -600,632 +1085,656 @@ export class WebSocketHandler {
                 return;
             }
 
-            // Use validated data - cast to any since handlers have varied type expectations
-            const validatedData = validation.data as any;
+            // Switching on the validated request narrows its data to the payload type
+            const request = validation.request;
 
-            switch (message.type) {
+            switch (request.type) {
                 // === CORE GAME ACTIONS ===
                 case 'player_update':
-                    this.handlePlayerUpdate(playerId, connection, validatedData);
+                    this.handlePlayerUpdate(playerId, connection, request.data);
                     break;
                 case 'collect_fragment':
-                    this.handleCollectFragment(connection, validatedData);
+                    this.handleCollectFragment(connection, request.data);
+                    break;
+                case 'refresh_session':
+                    this.handleRefreshSession(connection);
                     break;
                 case 'ping':
-                    this.send(connection.ws, { type: 'pong', data: { timestamp: message.timestamp }, timestamp: Date.now() });
+                    this.send(connection.ws, { type: 'pong', data: { timestamp: message.timestamp }, timestamp: this.clock.now() });
                     break;
 
                 // === GAME ACTIONS ===
                 case 'sing':
-                    GameActionHandlers.handleSing(connection, validatedData, ctx);
+                    GameActionHandlers.handleSing(connection, request.data, ctx);
                     break;
                 case 'pulse':
-                    GameActionHandlers.handlePulse(connection, validatedData, ctx);
+                    GameActionHandlers.handlePulse(connection, request.data, ctx);
                     break;
                 case 'emote':
-                    GameActionHandlers.handleEmote(connection, validatedData, ctx);
+                    GameActionHandlers.handleEmote(connection, request.data, ctx);
                     break;
                 case 'echo':
-                    GameActionHandlers.handleCreateEcho(connection, validatedData, ctx);
+                    GameActionHandlers.handleCreateEcho(connection, request.data, ctx);
                     break;
                 case 'echo_ignite':
-                    GameActionHandlers.handleResonateEcho(connection, validatedData, ctx);
+                    GameActionHandlers.handleResonateEcho(connection, request.data, ctx);
                     break;
                 case 'star_lit':
-                    GameActionHandlers.handleLightStar(connection, validatedData, ctx);
+                    GameActionHandlers.handleLightStar(connection, request.data, ctx);
                     break;
                 case 'wave':
-                    GameActionHandlers.handleWave(connection, validatedData, ctx);
+                    GameActionHandlers.handleWave(connection, request.data, ctx);
                     break;
                 case 'resonance':
-                    GameActionHandlers.handleResonance(connection, validatedData, ctx);
+                    GameActionHandlers.handleResonance(connection, request.data, ctx);
                     break;
                 case 'pulse_pattern_completed':
-                    GameActionHandlers.handlePulsePatternCompleted(connection, validatedData, ctx);
+                    GameActionHandlers.handlePulsePatternCompleted(connection, request.data, ctx);
                     break;
                 case 'record_pulse':
-                    GameActionHandlers.handleRecordPulse(connection, validatedData, ctx);
+                    GameActionHandlers.handleRecordPulse(connection, request.data, ctx);
                     break;
                 case 'get_pulse_patterns':
-                    GameActionHandlers.handleGetPulsePatterns(connection, validatedData, ctx);
+                    GameActionHandlers.handleGetPulsePatterns(connection, request.data, ctx);
                     break;
 
                 // === CHAT ===
                 case 'chat':
-                    ChatHandlers.handleChatMessage(connection, validatedData, ctx);
+                    ChatHandlers.handleChatMessage(connection, request.data, ctx);
                     break;
                 case 'whisper':
-                    ChatHandlers.handleWhisper(connection, validatedData, ctx);
+                    ChatHandlers.handleWhisper(connection, request.data, ctx);
+                    break;
+                case 'report_player':
+                    ChatHandlers.handleReportPlayer(connection, request.data, ctx);
                     break;
                 case 'emoji_reaction':
-                    ChatHandlers.handleEmojiReaction(connection, validatedData, ctx);
+                    ChatHandlers.handleEmojiReaction(connection, request.data, ctx);
                     break;
                 case 'typing':
-                    ChatHandlers.handleTypingIndicator(connection, validatedData, ctx);
+                    ChatHandlers.handleTypingIndicator(connection, request.data, ctx);
                     break;
 
                 // === PROGRESSION ===
                 case 'challenge_progress':
-                    ProgressionHandlers.handleChallengeProgress(connection, validatedData, ctx);
+                    ProgressionHandlers.handleChallengeProgress(connection, request.data, ctx);
                     break;
                 case 'request_progression':
-                    ProgressionHandlers.handleRequestProgression(connection, validatedData, ctx);
+                    ProgressionHandlers.handleRequestProgression(connection, request.data, ctx);
                     break;
                 case 'claim_daily_reward':
-                    ProgressionHandlers.handleClaimDailyReward(connection, validatedData, ctx);
+                    ProgressionHandlers.handleClaimDailyReward(connection, request.data, ctx);
                     break;
                 case 'claim_challenge_reward':
-                    ProgressionHandlers.handleClaimChallengeReward(connection, validatedData, ctx);
+                    ProgressionHandlers.handleClaimChallengeReward(connection, request.data, ctx);
                     break;
                 case 'claim_season_reward':
-                    ProgressionHandlers.handleClaimSeasonReward(connection, validatedData, ctx);
+                    ProgressionHandlers.handleClaimSeasonReward(connection, request.data, ctx);
                     break;
                 case 'purchase_cosmetic':
-                    ProgressionHandlers.handlePurchaseCosmetic(connection, validatedData, ctx);
+                    ProgressionHandlers.handlePurchaseCosmetic(connection, request.data, ctx);
                     break;
                 case 'equip_cosmetic':
-                    ProgressionHandlers.handleEquipCosmetic(connection, validatedData, ctx);
+                    ProgressionHandlers.handleEquipCosmetic(connection, request.data, ctx);
                     break;
                 case 'get_activity_feed':
-                    ProgressionHandlers.handleGetActivityFeed(connection, validatedData, ctx);
+                    ProgressionHandlers.handleGetActivityFeed(connection, request.data, ctx);
                     break;
                 case 'mark_feed_read':
-                    ProgressionHandlers.handleMarkFeedRead(connection, validatedData, ctx);
+                    ProgressionHandlers.handleMarkFeedRead(connection, request.data, ctx);
                     break;
                 case 'get_unread_count':
-                    ProgressionHandlers.handleGetUnreadCount(connection, validatedData, ctx);
+                    ProgressionHandlers.handleGetUnreadCount(connection, request.data, ctx);
+                    break;
+                case 'track_stat':
+                    ProgressionHandlers.handleTrackStat(connection, request.data, ctx);
+                    break;
+                case 'add_achievement':
+                    ProgressionHandlers.handleAddAchievement(connection, request.data, ctx);
                     break;
 
                 // === PLAYER DATA ===
                 case 'sync_player_data':
-                    PlayerDataHandlers.handleSyncPlayerData(connection, validatedData, ctx);
+                    PlayerDataHandlers.handleSyncPlayerData(connection, request.data, ctx);
                     break;
                 case 'update_settings':
-                    PlayerDataHandlers.handleUpdateSettings(connection, validatedData, ctx);
+                    PlayerDataHandlers.handleUpdateSettings(connection, request.data, ctx);
                     break;
                 case 'request_player_data':
-                    PlayerDataHandlers.handleRequestPlayerData(connection, validatedData, ctx);
+                    PlayerDataHandlers.handleRequestPlayerData(connection, request.data, ctx);
                     break;
                 case 'friend_request':
-                    PlayerDataHandlers.handleFriendRequest(connection, validatedData, ctx);
+                    PlayerDataHandlers.handleFriendRequest(connection, request.data, ctx);
                     break;
                 case 'accept_friend':
-                    PlayerDataHandlers.handleAcceptFriend(connection, validatedData, ctx);
+                    PlayerDataHandlers.handleAcceptFriend(connection, request.data, ctx);
                     break;
                 case 'decline_friend':
-                    PlayerDataHandlers.handleDeclineFriend(connection, validatedData, ctx);
+                    PlayerDataHandlers.handleDeclineFriend(connection, request.data, ctx);
                     break;
                 case 'remove_friend':
-                    PlayerDataHandlers.handleRemoveFriend(connection, validatedData, ctx);
+                    PlayerDataHandlers.handleRemoveFriend(connection, request.data, ctx);
                     break;
                 case 'get_friends':
-                    PlayerDataHandlers.handleGetFriends(connection, validatedData, ctx);
+                    PlayerDataHandlers.handleGetFriends(connection, request.data, ctx);
                     break;
                 case 'get_pending_requests':
-                    PlayerDataHandlers.handleGetPendingRequests(connection, validatedData, ctx);
+                    PlayerDataHandlers.handleGetPendingRequests(connection, request.data, ctx);
                     break;
                 case 'teleport_to_friend':
-                    PlayerDataHandlers.handleTeleportToFriend(connection, validatedData, ctx);
+                    PlayerDataHandlers.handleTeleportToFriend(connection, request.data, ctx);
                     break;
 
                 // === COMMUNICATION SYNC ===
                 case 'sync_communication':
-                    PlayerDataHandlers.handleSyncCommunication(connection, validatedData, ctx);
+                    PlayerDataHandlers.handleSyncCommunication(connection, request.data, ctx);
                     break;
                 case 'request_communication':
-                    PlayerDataHandlers.handleRequestCommunication(connection, validatedData, ctx);
+                    PlayerDataHandlers.handleRequestCommunication(connection, request.data, ctx);
                     break;
 
                 // === MAP MARKERS ===
                 case 'place_map_marker':
-                    PlayerDataHandlers.handlePlaceMapMarker(connection, validatedData, ctx);
+                    PlayerDataHandlers.handlePlaceMapMarker(connection, request.data, ctx);
                     break;
                 case 'remove_map_marker':
-                    PlayerDataHandlers.handleRemoveMapMarker(connection, validatedData, ctx);
+                    PlayerDataHandlers.handleRemoveMapMarker(connection, request.data, ctx);
                     break;
                 case 'request_friend_markers':
-                    PlayerDataHandlers.handleRequestFriendMarkers(connection, validatedData, ctx);
+                    PlayerDataHandlers.handleRequestFriendMarkers(connection, request.data, ctx);
                     break;
 
                 // === COMPANION ===
                 case 'request_companion_data':
-                    CompanionHandlers.handleRequestCompanionData(connection, validatedData, ctx);
+                    CompanionHandlers.handleRequestCompanionData(connection, request.data, ctx);
                     break;
                 case 'purchase_companion':
-                    CompanionHandlers.handlePurchaseCompanion(connection, validatedData, ctx);
+                    CompanionHandlers.handlePurchaseCompanion(connection, request.data, ctx);
                     break;
                 case 'equip_companion':
-                    CompanionHandlers.handleEquipCompanion(connection, validatedData, ctx);
+                    CompanionHandlers.handleEquipCompanion(connection, request.data, ctx);
                     break;
                 case 'unequip_companion':
-                    CompanionHandlers.handleUnequipCompanion(connection, validatedData, ctx);
+                    CompanionHandlers.handleUnequipCompanion(connection, request.data, ctx);
                     break;
                 case 'feed_companion':
-                    CompanionHandlers.handleFeedCompanion(connection, validatedData, ctx);
+                    CompanionHandlers.handleFeedCompanion(connection, request.data, ctx);
                     break;
                 case 'rename_companion':
-                    CompanionHandlers.handleRenameCompanion(connection, validatedData, ctx);
+                    CompanionHandlers.handleRenameCompanion(connection, request.data, ctx);
                     break;
 
                 // === PETS ===
                 case 'adopt_pet':
-                    PetHandlers.handleAdoptPet(connection, validatedData, ctx);
+                    PetHandlers.handleAdoptPet(connection, request.data, ctx);
                     break;
                 case 'equip_pet':
-                    PetHandlers.handleEquipPet(connection, validatedData, ctx);
+                    PetHandlers.handleEquipPet(connection, request.data, ctx);
                     break;
                 case 'feed_pet':
-                    PetHandlers.handleFeedPet(connection, validatedData, ctx);
+                    PetHandlers.handleFeedPet(connection, request.data, ctx);
                     break;
                 case 'play_pet':
-                    PetHandlers.handlePlayPet(connection, validatedData, ctx);
+                    PetHandlers.handlePlayPet(connection, request.data, ctx);
                     break;
                 case 'get_pet_details':
-                    PetHandlers.handleGetPetDetails(connection, validatedData, ctx);
+                    PetHandlers.handleGetPetDetails(connection, request.data, ctx);
                     break;
 
                 // === WORLD EVENTS ===
                 case 'request_world_events':
-                    WorldEventHandlers.handleGetWorldEvents(connection, validatedData, ctx);
+                    WorldEventHandlers.handleGetWorldEvents(connection, request.data, ctx);
                     break;
                 case 'join_world_event':
-                    WorldEventHandlers.handleJoinWorldEvent(connection, validatedData, ctx);
+                    WorldEventHandlers.handleJoinWorldEvent(connection, request.data, ctx);
                     break;
                 case 'contribute_event':
-                    WorldEventHandlers.handleContributeToEvent(connection, validatedData, ctx);
+                    // Progress of simulated events comes from what players do in the world
+                    if (this.eventRuntime.isRunning(request.data.eventId)) {
+                        this.sendError(connection, 'Progress for this event is tracked by the server');
+                        break;
+                    }
+                    WorldEventHandlers.handleContributeToEvent(connection, request.data, ctx);
                     break;
                 case 'get_event_progress':
-                    WorldEventHandlers.handleGetEventProgress(connection, validatedData, ctx);
+                    WorldEventHandlers.handleGetEventProgress(connection, request.data, ctx);
                     break;
                 case 'get_event_leaderboard':
-                    WorldEventHandlers.handleGetEventLeaderboard(connection, validatedData, ctx);
+                    WorldEventHandlers.handleGetEventLeaderboard(connection, request.data, ctx);
                     break;
                 case 'claim_event_reward':
-                    WorldEventHandlers.handleClaimEventReward(connection, validatedData, ctx);
+                    WorldEventHandlers.handleClaimEventReward(connection, request.data, ctx);
                     break;
                 case 'request_darkness':
                 case 'get_darkness_level':
-                    WorldEventHandlers.handleGetDarknessLevel(connection, validatedData, ctx);
+                    WorldEventHandlers.handleGetDarknessLevel(connection, request.data, ctx);
                     break;
                 case 'fight_darkness':
-                    WorldEventHandlers.handleFightDarkness(connection, validatedData, ctx);
+                    WorldEventHandlers.handleFightDarkness(connection, request.data, ctx);
                     break;
                 case 'get_darkness_hazards':
-                    WorldEventHandlers.handleGetDarknessHazards(connection, validatedData, ctx);
+                    WorldEventHandlers.handleGetDarknessHazards(connection, request.data, ctx);
                     break;
 
                 // === WORLD STATE ===
                 case 'request_world_state':
-                    // Trigger a world_state broadcast for this player's realm (not initial_state!)
-                    this.broadcastWorldState(connection.realm);
+                    // Resync this player with a full keyframe (not initial_state!)
+                    this.replication.reset(playerId);
+                    this.sendWorldUpdate(connection, this.buildRealmSnapshot(connection.realm));
+                    break;
+                case 'world_state_ack':
+                    this.replication.acknowledge(playerId, request.data.tick);
+                    break;
+                case 'reliable_ack':
+                    this.resume.acknowledge(playerId, request.data.seq);
                     break;
 
                 // === POWER-UPS ===
                 case 'request_power_ups':
-                    PowerUpHandlers.handleRequestPowerUps(connection, validatedData, ctx);
+                    PowerUpHandlers.handleRequestPowerUps(connection, request.data, ctx);
                     break;
                 case 'collect_power_up':
-                    PowerUpHandlers.handleCollectPowerUp(connection, validatedData, ctx);
+                    PowerUpHandlers.handleCollectPowerUp(connection, request.data, ctx);
                     break;
                 case 'activate_power_up':
-                    PowerUpHandlers.handleActivatePowerUp(connection, validatedData, ctx);
+                    PowerUpHandlers.handleActivatePowerUp(connection, request.data, ctx);
                     break;
                 case 'get_active_power_ups':
-                    PowerUpHandlers.handleGetActivePowerUps(connection, validatedData, ctx);
+                    PowerUpHandlers.handleGetActivePowerUps(connection, request.data, ctx);
                     break;
 
                 // === TAG GAME ===
                 case 'tag_create':
-                    TagGameHandlers.handleCreateTagGame(connection, validatedData, ctx);
+                    TagGameHandlers.handleCreateTagGame(connection, request.data, ctx);
                     break;
                 case 'tag_join':
-                    TagGameHandlers.handleJoinTagGame(connection, validatedData, ctx);
+                    TagGameHandlers.handleJoinTagGame(connection, request.data, ctx);
                     break;
                 case 'tag_start':
-                    TagGameHandlers.handleStartTagGame(connection, validatedData, ctx);
+                    TagGameHandlers.handleStartTagGame(connection, request.data, ctx);
                     break;
                 case 'tag_attempt':
-                    TagGameHandlers.handleTag(connection, validatedData, ctx);
+                    TagGameHandlers.handleTag(connection, request.data, ctx);
                     break;
                 case 'tag_leave':
-                    TagGameHandlers.handleLeaveTagGame(connection, validatedData, ctx);
+                    TagGameHandlers.handleLeaveTagGame(connection, request.data, ctx);
                     break;
                 case 'get_tag_games':
-                    TagGameHandlers.handleGetTagGames(connection, validatedData, ctx);
+                    TagGameHandlers.handleGetTagGames(connection, request.data, ctx);
                     break;
 
                 // === MYSTERY BOX ===
                 case 'request_mystery_boxes':
                 case 'get_mystery_box_info':
-                    MysteryBoxHandlers.handleGetMysteryBoxInfo(connection, validatedData, ctx);
+                    MysteryBoxHandlers.handleGetMysteryBoxInfo(connection, request.data, ctx);
                     break;
                 case 'open_mystery_box':
-                    MysteryBoxHandlers.handleOpenMysteryBox(connection, validatedData, ctx);
+                    MysteryBoxHandlers.handleOpenMysteryBox(connection, request.data, ctx);
                     break;
                 case 'request_box_stats':
                 case 'get_box_stats':
-                    MysteryBoxHandlers.handleGetBoxStats(connection, validatedData, ctx);
+                    MysteryBoxHandlers.handleGetBoxStats(connection, request.data, ctx);
                     break;
                 case 'get_pity_progress':
-                    MysteryBoxHandlers.handleGetPityProgress(connection, validatedData, ctx);
+                    MysteryBoxHandlers.handleGetPityProgress(connection, request.data, ctx);
                     break;
                 case 'get_global_box_stats':
-                    MysteryBoxHandlers.handleGetGlobalBoxStats(connection, validatedData, ctx);
+                    MysteryBoxHandlers.handleGetGlobalBoxStats(connection, request.data, ctx);
                     break;
 
                 // === ANCHORING / MINDFULNESS ===
                 case 'request_anchoring_zones':
-                    AnchoringHandlers.handleGetAnchoringZones(connection, validatedData, ctx);
+                    AnchoringHandlers.handleGetAnchoringZones(connection, request.data, ctx);
                     break;
                 case 'enter_anchoring_zone':
-                    AnchoringHandlers.handleEnterAnchoringZone(connection, validatedData, ctx);
+                    AnchoringHandlers.handleEnterAnchoringZone(connection, request.data, ctx);
                     break;
                 case 'leave_anchoring_zone':
-                    AnchoringHandlers.handleLeaveAnchoringZone(connection, validatedData, ctx);
+                    AnchoringHandlers.handleLeaveAnchoringZone(connection, request.data, ctx);
                     break;
                 case 'start_meditation':
-                    AnchoringHandlers.handleStartMeditation(connection, validatedData, ctx);
+                    AnchoringHandlers.handleStartMeditation(connection, request.data, ctx);
                     break;
                 case 'end_meditation':
-                    AnchoringHandlers.handleEndMeditation(connection, validatedData, ctx);
+                    AnchoringHandlers.handleEndMeditation(connection, request.data, ctx);
                     break;
                 case 'request_mindfulness_stats':
-                    AnchoringHandlers.handleGetMindfulnessStats(connection, validatedData, ctx);
+                    AnchoringHandlers.handleGetMindfulnessStats(connection, request.data, ctx);
                     break;
                 case 'join_group_meditation':
-                    AnchoringHandlers.handleJoinGroupMeditation(connection, validatedData, ctx);
+                    AnchoringHandlers.handleJoinGroupMeditation(connection, request.data, ctx);
                     break;
                 case 'breathing_sync':
-                    AnchoringHandlers.handleBreathingSync(connection, validatedData, ctx);
+                    AnchoringHandlers.handleBreathingSync(connection, request.data, ctx);
                     break;
 
                 // === LEADERBOARD ===
                 case 'request_leaderboard':
-                    LeaderboardHandlers.handleRequestLeaderboard(connection, validatedData, ctx);
+                    LeaderboardHandlers.handleRequestLeaderboard(connection, request.data, ctx);
                     break;
                 case 'request_player_rank':
-                    LeaderboardHandlers.handleGetPlayerRank(connection, validatedData, ctx);
+                    LeaderboardHandlers.handleGetPlayerRank(connection, request.data, ctx);
                     break;
                 case 'request_nearby_ranks':
-                    LeaderboardHandlers.handleGetNearbyRanks(connection, validatedData, ctx);
+                    LeaderboardHandlers.handleGetNearbyRanks(connection, request.data, ctx);
                     break;
                 case 'request_friend_leaderboard':
-                    LeaderboardHandlers.handleGetFriendLeaderboard(connection, validatedData, ctx);
+                    LeaderboardHandlers.handleGetFriendLeaderboard(connection, request.data, ctx);
                     break;
                 case 'request_realm_leaderboard':
-                    LeaderboardHandlers.handleGetRealmLeaderboard(connection, validatedData, ctx);
+                    LeaderboardHandlers.handleGetRealmLeaderboard(connection, request.data, ctx);
                     break;
                 case 'get_leaderboard_types':
-                    LeaderboardHandlers.handleGetLeaderboardTypes(connection, validatedData, ctx);
+                    LeaderboardHandlers.handleGetLeaderboardTypes(connection, request.data, ctx);
                     break;
 
                 // === QUESTS ===
                 case 'request_quests':
                 case 'get_quests':
-                    QuestHandlers.handleGetQuests(connection, validatedData, ctx);
+                    QuestHandlers.handleGetQuests(connection, request.data, ctx);
                     break;
                 case 'get_active_quests':
                 case 'get_story_quests':
-                    QuestHandlers.handleGetStoryQuests(connection, validatedData, ctx);
+                    QuestHandlers.handleGetStoryQuests(connection, request.data, ctx);
                     break;
                 case 'start_quest':
-                    QuestHandlers.handleStartQuest(connection, validatedData, ctx);
+                    QuestHandlers.handleStartQuest(connection, request.data, ctx);
                     break;
                 case 'update_quest_progress':
-                    QuestHandlers.handleUpdateQuestProgress(connection, validatedData, ctx);
+                    QuestHandlers.handleUpdateQuestProgress(connection, request.data, ctx);
                     break;
                 case 'claim_quest_reward':
-                    QuestHandlers.handleClaimQuestReward(connection, validatedData, ctx);
+                    QuestHandlers.handleClaimQuestReward(connection, request.data, ctx);
                     break;
                 case 'abandon_quest':
-                    QuestHandlers.handleAbandonQuest(connection, validatedData, ctx);
+                    QuestHandlers.handleAbandonQuest(connection, request.data, ctx);
                     break;
                 case 'get_daily_quests':
-                    QuestHandlers.handleGetDailyQuests(connection, validatedData, ctx);
+                    QuestHandlers.handleGetDailyQuests(connection, request.data, ctx);
                     break;
                 case 'get_weekly_quests':
-                    QuestHandlers.handleGetWeeklyQuests(connection, validatedData, ctx);
+                    QuestHandlers.handleGetWeeklyQuests(connection, request.data, ctx);
                     break;
                 case 'get_quest_stats':
-                    QuestHandlers.handleGetQuestStats(connection, validatedData, ctx);
+                    QuestHandlers.handleGetQuestStats(connection, request.data, ctx);
                     break;
 
                 // === SIGNALS ===
                 case 'send_signal':
-                    SignalsHandlers.handleSendSignal(connection, validatedData, ctx);
+                    SignalsHandlers.handleSendSignal(connection, request.data, ctx);
                     break;
                 case 'request_signals':
                 case 'get_signals':
-                    SignalsHandlers.handleGetSignals(connection, validatedData, ctx);
+                    SignalsHandlers.handleGetSignals(connection, request.data, ctx);
                     break;
                 case 'respond_signal':
-                    SignalsHandlers.handleRespondToSignal(connection, validatedData, ctx);
+                    SignalsHandlers.handleRespondToSignal(connection, request.data, ctx);
                     break;
                 case 'acknowledge_signal':
-                    SignalsHandlers.handleAcknowledgeSignal(connection, validatedData, ctx);
+                    SignalsHandlers.handleAcknowledgeSignal(connection, request.data, ctx);
                     break;
                 case 'get_signal_types':
-                    SignalsHandlers.handleGetSignalTypes(connection, validatedData, ctx);
+                    SignalsHandlers.handleGetSignalTypes(connection, request.data, ctx);
                     break;
                 case 'get_directed_signals':
-                    SignalsHandlers.handleGetDirectedSignals(connection, validatedData, ctx);
+                    SignalsHandlers.handleGetDirectedSignals(connection, request.data, ctx);
                     break;
                 case 'get_signal_cooldowns':
-                    SignalsHandlers.handleGetSignalCooldowns(connection, validatedData, ctx);
+                    SignalsHandlers.handleGetSignalCooldowns(connection, request.data, ctx);
                     break;
 
                 // === EXPLORATION ===
                 case 'update_exploration':
-                    ExplorationHandlers.handleUpdateExploration(connection, validatedData, ctx);
+                    ExplorationHandlers.handleUpdateExploration(connection, request.data, ctx);
                     break;
                 case 'request_exploration_data':
-                    ExplorationHandlers.handleGetExplorationData(connection, validatedData, ctx);
+                    ExplorationHandlers.handleGetExplorationData(connection, request.data, ctx);
                     break;
                 case 'discover_poi':
-                    ExplorationHandlers.handleDiscoverPOI(connection, validatedData, ctx);
+                    ExplorationHandlers.handleDiscoverPOI(connection, request.data, ctx);
                     break;
                 case 'get_nearby_pois':
-                    ExplorationHandlers.handleGetNearbyPOIs(connection, validatedData, ctx);
+                    ExplorationHandlers.handleGetNearbyPOIs(connection, request.data, ctx);
                     break;
                 case 'get_exploration_stats':
-                    ExplorationHandlers.handleGetExplorationStats(connection, validatedData, ctx);
+                    ExplorationHandlers.handleGetExplorationStats(connection, request.data, ctx);
                     break;
                 case 'get_region_info':
-                    ExplorationHandlers.handleGetRegionInfo(connection, validatedData, ctx);
+                    ExplorationHandlers.handleGetRegionInfo(connection, request.data, ctx);
                     break;
                 case 'discover_biome':
-                    ExplorationHandlers.handleDiscoverBiome(connection, validatedData, ctx);
+                    ExplorationHandlers.handleDiscoverBiome(connection, request.data, ctx);
                     break;
                 case 'reveal_fog':
-                    ExplorationHandlers.handleRevealFog(connection, validatedData, ctx);
+                    ExplorationHandlers.handleRevealFog(connection, request.data, ctx);
                     break;
                 case 'get_exploration_milestones':
-                    ExplorationHandlers.handleGetMilestones(connection, validatedData, ctx);
+                    ExplorationHandlers.handleGetMilestones(connection, request.data, ctx);
                     break;
                 case 'get_discovered_biomes':
-                    ExplorationHandlers.handleGetDiscoveredBiomes(connection, validatedData, ctx);
+                    ExplorationHandlers.handleGetDiscoveredBiomes(connection, request.data, ctx);
                     break;
                 case 'get_available_time_secrets':
-                    ExplorationHandlers.handleGetAvailableTimeSecrets(connection, validatedData, ctx);
+                    ExplorationHandlers.handleGetAvailableTimeSecrets(connection, request.data, ctx);
                     break;
                 case 'discover_time_secret':
-                    ExplorationHandlers.handleDiscoverTimeSecret(connection, validatedData, ctx);
+                    ExplorationHandlers.handleDiscoverTimeSecret(connection, request.data, ctx);
                     break;
                 case 'get_all_time_secrets':
-                    ExplorationHandlers.handleGetAllTimeSecrets(connection, validatedData, ctx);
+                    ExplorationHandlers.handleGetAllTimeSecrets(connection, request.data, ctx);
                     break;
 
                 // === REPUTATION ===
                 case 'request_reputation':
-                    ReputationHandlers.handleRequestReputation(connection, validatedData, ctx);
+                    ReputationHandlers.handleRequestReputation(connection, request.data, ctx);
                     break;
                 case 'track_reputation_action':
-                    ReputationHandlers.handleTrackReputationAction(connection, validatedData, ctx);
+                    ReputationHandlers.handleTrackReputationAction(connection, request.data, ctx);
                     break;
                 case 'get_track_progress':
-                    ReputationHandlers.handleGetTrackProgress(connection, validatedData, ctx);
+                    ReputationHandlers.handleGetTrackProgress(connection, request.data, ctx);
                     break;
                 case 'get_player_reputation':
-                    ReputationHandlers.handleGetPlayerReputation(connection, validatedData, ctx);
+                    ReputationHandlers.handleGetPlayerReputation(connection, request.data, ctx);
                     break;
                 case 'claim_reputation_reward':
-                    ReputationHandlers.handleClaimReputationReward(connection, validatedData, ctx);
+                    ReputationHandlers.handleClaimReputationReward(connection, request.data, ctx);
                     break;
                 case 'get_reputation_leaderboard':
-                    ReputationHandlers.handleGetReputationLeaderboard(connection, validatedData, ctx);
+                    ReputationHandlers.handleGetReputationLeaderboard(connection, request.data, ctx);
                     break;
 
                 // === NOTIFICATIONS ===
                 case 'get_notification_preferences':
                 case 'get_notification_prefs':
-                    NotificationHandlers.handleGetNotificationPrefs(connection, validatedData, ctx);
+                    NotificationHandlers.handleGetNotificationPrefs(connection, request.data, ctx);
                     break;
                 case 'update_notification_preferences':
                 case 'update_notification_prefs':
-                    NotificationHandlers.handleUpdateNotificationPrefs(connection, validatedData, ctx);
+                    NotificationHandlers.handleUpdateNotificationPrefs(connection, request.data, ctx);
                     break;
                 case 'get_notifications':
-                    NotificationHandlers.handleGetNotifications(connection, validatedData, ctx);
+                    NotificationHandlers.handleGetNotifications(connection, request.data, ctx);
                     break;
                 case 'mark_notification_read':
-                    NotificationHandlers.handleMarkNotificationRead(connection, validatedData, ctx);
+                    NotificationHandlers.handleMarkNotificationRead(connection, request.data, ctx);
                     break;
                 case 'mark_all_notifications_read':
                 case 'mark_all_read':
-                    NotificationHandlers.handleMarkAllRead(connection, validatedData, ctx);
+                    NotificationHandlers.handleMarkAllRead(connection, request.data, ctx);
                     break;
                 case 'clear_notifications':
-                    NotificationHandlers.handleClearNotifications(connection, validatedData, ctx);
+                    NotificationHandlers.handleClearNotifications(connection, request.data, ctx);
                     break;
                 case 'mute_player':
-                    NotificationHandlers.handleMutePlayer(connection, validatedData, ctx);
+                    NotificationHandlers.handleMutePlayer(connection, request.data, ctx);
                     break;
                 case 'unmute_player':
-                    NotificationHandlers.handleUnmutePlayer(connection, validatedData, ctx);
+                    NotificationHandlers.handleUnmutePlayer(connection, request.data, ctx);
                     break;
 
                 case 'unmute_player':
-                    NotificationHandlers.handleUnmutePlayer(connection, validatedData, ctx);
+                    NotificationHandlers.handleUnmutePlayer(connection, request.data, ctx);
                     break;
 
                 // === SNAPSHOTS ===
                 case 'snapshot_taken':
-                    SnapshotHandlers.handleSnapshotTaken(connection, validatedData, ctx);
+                    SnapshotHandlers.handleSnapshotTaken(connection, request.data, ctx);
                     break;
 
                 // === GUILDS ===
                 case 'guild_action':
-                    GuildHandlers.handleGuildAction(connection, validatedData, ctx);
+                    GuildHandlers.handleGuildAction(connection, request.data, ctx);
                     break;
                 case 'guild_chat':
-                    GuildHandlers.handleGuildChat(connection, validatedData, ctx);
+                    GuildHandlers.handleGuildChat(connection, request.data, ctx);
                     break;
                 case 'create_guild':
-                    GuildHandlers.handleCreateGuild(connection, validatedData, ctx);
+                    GuildHandlers.handleCreateGuild(connection, request.data, ctx);
                     break;
                 case 'join_guild':
-                    GuildHandlers.handleJoinGuild(connection, validatedData, ctx);
+                    GuildHandlers.handleJoinGuild(connection, request.data, ctx);
                     break;
                 case 'leave_guild':
-                    GuildHandlers.handleLeaveGuild(connection, validatedData, ctx);
+                    GuildHandlers.handleLeaveGuild(connection, request.data, ctx);
                     break;
                 case 'list_guilds':
-                    GuildHandlers.handleListGuilds(connection, validatedData, ctx);
+                    GuildHandlers.handleListGuilds(connection, request.data, ctx);
                     break;
                 case 'get_guild_info':
-                    GuildHandlers.handleGetGuildInfo(connection, validatedData, ctx);
+                    GuildHandlers.handleGetGuildInfo(connection, request.data, ctx);
                     break;
                 case 'guild_contribute':
-                    GuildHandlers.handleGuildContribute(connection, validatedData, ctx);
+                    GuildHandlers.handleGuildContribute(connection, request.data, ctx);
                     break;
 
                 // === GIFTS ===
                 case 'send_gift':
-                    GiftHandlers.handleSendGift(connection, validatedData, ctx);
+                    GiftHandlers.handleSendGift(connection, request.data, ctx);
                     break;
                 case 'claim_gift':
-                    GiftHandlers.handleClaimGift(connection, validatedData, ctx);
+                    GiftHandlers.handleClaimGift(connection, request.data, ctx);
                     break;
                 case 'get_pending_gifts':
-                    GiftHandlers.handleGetPendingGifts(connection, validatedData, ctx);
+                    GiftHandlers.handleGetPendingGifts(connection, request.data, ctx);
                     break;
                 case 'get_gift_history':
-                    GiftHandlers.handleGetGiftHistory(connection, validatedData, ctx);
+                    GiftHandlers.handleGetGiftHistory(connection, request.data, ctx);
                     break;
                 case 'get_gift_cooldown':
-                    GiftHandlers.handleGetGiftCooldown(connection, validatedData, ctx);
+                    GiftHandlers.handleGetGiftCooldown(connection, request.data, ctx);
                     break;
                 case 'get_gift_streak':
-                    GiftHandlers.handleGetGiftStreak(connection, validatedData, ctx);
+                    GiftHandlers.handleGetGiftStreak(connection, request.data, ctx);
                     break;
 
                 // === VOICE CHAT ===
                 case 'voice_signal':
-                    VoiceHandlers.handleVoiceSignal(connection, validatedData, ctx);
+                    VoiceHandlers.handleVoiceSignal(connection, request.data, ctx);
                     break;
                 case 'voice_join_room':
-                    VoiceHandlers.handleJoinRoom(connection, validatedData, ctx);
+                    VoiceHandlers.handleJoinRoom(connection, request.data, ctx);
                     break;
                 case 'voice_leave_room':
-                    VoiceHandlers.handleLeaveRoom(connection, validatedData, ctx);
+                    VoiceHandlers.handleLeaveRoom(connection, request.data, ctx);
                     break;
                 case 'voice_mute':
-                    VoiceHandlers.handleMute(connection, validatedData, ctx);
+                    VoiceHandlers.handleMute(connection, request.data, ctx);
                     break;
                 case 'voice_speaking':
-                    VoiceHandlers.handleSpeaking(connection, validatedData, ctx);
+                    VoiceHandlers.handleSpeaking(connection, request.data, ctx);
                     break;
                 case 'get_nearby_voice_peers':
-                    VoiceHandlers.handleGetNearbyVoicePeers(connection, validatedData, ctx);
+                    VoiceHandlers.handleGetNearbyVoicePeers(connection, request.data, ctx);
                     break;
                 case 'get_voice_rooms':
-                    VoiceHandlers.handleGetVoiceRooms(connection, validatedData, ctx);
+                    VoiceHandlers.handleGetVoiceRooms(connection, request.data, ctx);
                     break;
 
                 // === FRIEND TELEPORT ===
                 case 'teleport_to_friend':
-                    PlayerDataHandlers.handleTeleportToFriend(connection, validatedData, ctx);
+                    PlayerDataHandlers.handleTeleportToFriend(connection, request.data, ctx);
                     break;
 
                 // === BONDS ===
                 case 'get_bond':
-                    BondHandlers.handleGetBond(connection, validatedData, ctx);
+                    BondHandlers.handleGetBond(connection, request.data, ctx);
                     break;
                 case 'get_all_bonds':
-                    BondHandlers.handleGetAllBonds(connection, validatedData, ctx);
+                    BondHandlers.handleGetAllBonds(connection, request.data, ctx);
                     break;
                 case 'bond_interaction':
-                    BondHandlers.handleBondInteraction(connection, validatedData, ctx);
+                    BondHandlers.handleBondInteraction(connection, request.data, ctx);
                     break;
                 case 'add_bond_memory':
-                    BondHandlers.handleAddMemory(connection, validatedData, ctx);
+                    BondHandlers.handleAddMemory(connection, request.data, ctx);
                     break;
                 case 'seal_bond':
-                    BondHandlers.handleSealBond(connection, validatedData, ctx);
+                    BondHandlers.handleSealBond(connection, request.data, ctx);
                     break;
                 case 'get_star_memories':
-                    BondHandlers.handleGetStarMemories(connection, validatedData, ctx);
+                    BondHandlers.handleGetStarMemories(connection, request.data, ctx);
                     break;
                 case 'get_realm_stars':
-                    BondHandlers.handleGetRealmStars(connection, validatedData, ctx);
+                    BondHandlers.handleGetRealmStars(connection, request.data, ctx);
                     break;
                 case 'get_constellations':
-                    BondHandlers.handleGetConstellations(connection, validatedData, ctx);
+                    BondHandlers.handleGetConstellations(connection, request.data, ctx);
                     break;
 
                 // === REFERRALS ===
                 case 'generate_referral_code':
-                    ReferralHandlers.handleGenerateCode(connection, validatedData, ctx);
+                    ReferralHandlers.handleGenerateCode(connection, request.data, ctx);
                     break;
                 case 'apply_referral':
-                    ReferralHandlers.handleApplyReferral(connection, validatedData, ctx);
+                    ReferralHandlers.handleApplyReferral(connection, request.data, ctx);
                     break;
                 case 'get_referral_stats':
-                    ReferralHandlers.handleGetReferralStats(connection, validatedData, ctx);
+                    ReferralHandlers.handleGetReferralStats(connection, request.data, ctx);
                     break;
                 case 'get_referred_players':
-                    ReferralHandlers.handleGetReferredPlayers(connection, validatedData, ctx);
+                    ReferralHandlers.handleGetReferredPlayers(connection, request.data, ctx);
                     break;
                 case 'claim_referral_reward':
-                    ReferralHandlers.handleClaimReferralReward(connection, validatedData, ctx);
+                    ReferralHandlers.handleClaimReferralReward(connection, request.data, ctx);
                     break;
                 case 'get_my_referral_code':
-                    ReferralHandlers.handleGetMyReferralCode(connection, validatedData, ctx);
+                    ReferralHandlers.handleGetMyReferralCode(connection, request.data, ctx);
                     break;
                 case 'validate_referral_code':
-                    ReferralHandlers.handleValidateReferralCode(connection, validatedData, ctx);
+                    ReferralHandlers.handleValidateReferralCode(connection, request.data, ctx);
                     break;
 
                 // === MENTORSHIP ===
                 case 'become_mentor':
-                    MentorshipHandlers.handleBecomeMentor(connection, validatedData, ctx);
+                    MentorshipHandlers.handleBecomeMentor(connection, request.data, ctx);
                     break;
                 case 'request_mentor':
-                    MentorshipHandlers.handleRequestMentor(connection, validatedData, ctx);
+                    MentorshipHandlers.handleRequestMentor(connection, request.data, ctx);
                     break;
                 case 'accept_mentee':
-                    MentorshipHandlers.handleAcceptMentee(connection, validatedData, ctx);
+                    MentorshipHandlers.handleAcceptMentee(connection, request.data, ctx);
                     break;
                 case 'decline_mentee':
-                    MentorshipHandlers.handleDeclineMentee(connection, validatedData, ctx);
+                    MentorshipHandlers.handleDeclineMentee(connection, request.data, ctx);
                     break;
                 case 'get_available_mentors':
-                    MentorshipHandlers.handleGetAvailableMentors(connection, validatedData, ctx);
+                    MentorshipHandlers.handleGetAvailableMentors(connection, request.data, ctx);
                     break;
                 case 'get_mentorship_status':
-                    MentorshipHandlers.handleGetMentorshipStatus(connection, validatedData, ctx);
+                    MentorshipHandlers.handleGetMentorshipStatus(connection, request.data, ctx);
                     break;
                 case 'end_mentorship':
-                    MentorshipHandlers.handleEndMentorship(connection, validatedData, ctx);
+                    MentorshipHandlers.handleEndMentorship(connection, request.data, ctx);
                     break;
                 case 'send_mentor_tip':
-                    MentorshipHandlers.handleSendMentorTip(connection, validatedData, ctx);
+                    MentorshipHandlers.handleSendMentorTip(connection, request.data, ctx);
                     break;
                 case 'rate_mentorship':
-                    MentorshipHandlers.handleRateMentorship(connection, validatedData, ctx);
+                    MentorshipHandlers.handleRateMentorship(connection, request.data, ctx);
                     break;
                 case 'get_pending_mentee_requests':
-                    MentorshipHandlers.handleGetPendingMenteeRequests(connection, validatedData, ctx);
+                    MentorshipHandlers.handleGetPendingMenteeRequests(connection, request.data, ctx);
                     break;
 
                 // === SEASON PASS (Phase 1) ===
@@ -1238,7 +1747,7 @@ export class WebSocketHandler {
                 case 'season:getRewards':
                 case 'season:getHistory':
                     // Delegate to season handler setup
-                    this.handleSeasonMessage(connection, message);
+                    this.handleSeasonMessage(connection, request);
                     break;
 
                 // === GALLERY (Phase 1) ===
@@ -1257,7 +1766,7 @@ export class WebSocketHandler {
                 case 'gallery:addToAlbum':
                 case 'gallery:removeFromAlbum':
                 case 'gallery:getAlbumScreenshots':
-                    this.handleGalleryMessage(connection, message);
+                    this.handleGalleryMessage(connection, request);
                     break;
 
                 // === DAILY LOGIN (Phase 1) ===
@@ -1265,7 +1774,7 @@ export class WebSocketHandler {
                 case 'daily:getStreak':
                 case 'daily:getRewards':
                 case 'daily:getLeaderboard':
-                    this.handleDailyLoginMessage(connection, message);
+                    this.handleDailyLoginMessage(connection, request);
                     break;
 
                 // === CONSTELLATION (Phase 1) ===
@@ -1277,7 +1786,7 @@ export class WebSocketHandler {
                 case 'constellation:getStats':
                 case 'constellation:checkPotential':
                 case 'constellation:getGlobalStats':
-                    this.handleConstellationMessage(connection, message);
+                    this.handleConstellationMessage(connection, request);
                     break;
 
                 // === ACTIVITY FEED (Phase 1) ===
@@ -1287,133 +1796,133 @@ export class WebSocketHandler {
                 case 'activity:recordLevelUp':
                 case 'activity:recordAchievement':
                 case 'activity:recordOnline':
-                    this.handleActivityMessage(connection, message);
+                    this.handleActivityMessage(connection, request);
                     break;
 
                 // === FRIEND STATUS (Phase 2 - Backend Completeness) ===
                 case 'friend:getStatuses':
-                    FriendHandlers.handleStatusRequest(connection, validatedData, ctx);
+                    FriendHandlers.handleStatusRequest(connection, request.data, ctx);
                     break;
                 case 'friend:getPosition':
-                    FriendHandlers.handleFriendPositionRequest(connection, validatedData, ctx);
+                    FriendHandlers.handleFriendPositionRequest(connection, request.data, ctx);
                     break;
                 case 'friend:teleportTo':
-                    FriendHandlers.handleTeleportToFriend(connection, validatedData, ctx);
+                    FriendHandlers.handleTeleportToFriend(connection, request.data, ctx);
                     break;
                 case 'friend:add':
-                    FriendHandlers.handleAddFriend(connection, validatedData, ctx);
+                    FriendHandlers.handleAddFriend(connection, request.data, ctx);
                     break;
                 case 'friend:remove':
-                    FriendHandlers.handleRemoveFriend(connection, validatedData, ctx);
+                    FriendHandlers.handleRemoveFriend(connection, request.data, ctx);
                     break;
                 case 'friend:acceptRequest':
-                    FriendHandlers.handleAcceptFriendRequest(connection, validatedData, ctx);
+                    FriendHandlers.handleAcceptFriendRequest(connection, request.data, ctx);
                     break;
                 case 'friend:declineRequest':
-                    FriendHandlers.handleDeclineFriendRequest(connection, validatedData, ctx);
+                    FriendHandlers.handleDeclineFriendRequest(connection, request.data, ctx);
                     break;
                 case 'friend:getPendingRequests':
-                    FriendHandlers.handleGetPendingRequests(connection, validatedData, ctx);
+                    FriendHandlers.handleGetPendingRequests(connection, request.data, ctx);
                     break;
 
                 // === MAP MARKERS (Phase 2 - Backend Completeness) ===
                 case 'marker:create':
-                    MapMarkerHandlers.handleCreateMarker(connection, validatedData, ctx);
+                    MapMarkerHandlers.handleCreateMarker(connection, request.data, ctx);
                     break;
                 case 'marker:get':
-                    MapMarkerHandlers.handleGetMarkers(connection, validatedData, ctx);
+                    MapMarkerHandlers.handleGetMarkers(connection, request.data, ctx);
                     break;
                 case 'marker:update':
-                    MapMarkerHandlers.handleUpdateMarker(connection, validatedData, ctx);
+                    MapMarkerHandlers.handleUpdateMarker(connection, request.data, ctx);
                     break;
                 case 'marker:delete':
-                    MapMarkerHandlers.handleDeleteMarker(connection, validatedData, ctx);
+                    MapMarkerHandlers.handleDeleteMarker(connection, request.data, ctx);
                     break;
                 case 'marker:share':
-                    MapMarkerHandlers.handleShareMarker(connection, validatedData, ctx);
+                    MapMarkerHandlers.handleShareMarker(connection, request.data, ctx);
                     break;
                 case 'marker:acceptShare':
-                    MapMarkerHandlers.handleAcceptShareInvite(connection, validatedData, ctx);
+                    MapMarkerHandlers.handleAcceptShareInvite(connection, request.data, ctx);
                     break;
                 case 'marker:declineShare':
-                    MapMarkerHandlers.handleDeclineShareInvite(connection, validatedData, ctx);
+                    MapMarkerHandlers.handleDeclineShareInvite(connection, request.data, ctx);
                     break;
                 case 'marker:savePreset':
-                    MapMarkerHandlers.handleSavePreset(connection, validatedData, ctx);
+                    MapMarkerHandlers.handleSavePreset(connection, request.data, ctx);
                     break;
                 case 'marker:getPresets':
-                    MapMarkerHandlers.handleGetPresets(connection, validatedData, ctx);
+                    MapMarkerHandlers.handleGetPresets(connection, request.data, ctx);
                     break;
                 case 'marker:deletePreset':
-                    MapMarkerHandlers.handleDeletePreset(connection, validatedData, ctx);
+                    MapMarkerHandlers.handleDeletePreset(connection, request.data, ctx);
                     break;
 
                 // =========================================================
                 // SEEK MODE HANDLERS (Phase 1.6)
                 // =========================================================
                 case 'seek:createGame':
-                    SeekModeHandlers.handleCreateSeekGame(connection.ws, validatedData);
+                    SeekModeHandlers.handleCreateSeekGame(connection, request.data, ctx);
                     break;
                 case 'seek:joinGame':
-                    SeekModeHandlers.handleJoinSeekGame(connection.ws, validatedData);
+                    SeekModeHandlers.handleJoinSeekGame(connection, request.data, ctx);
                     break;
                 case 'seek:startGame':
-                    SeekModeHandlers.handleStartSeekGame(connection.ws, validatedData);
+                    SeekModeHandlers.handleStartSeekGame(connection, request.data, ctx);
                     break;
                 case 'seek:confirmHiding':
-                    SeekModeHandlers.handleConfirmHiding(connection.ws, validatedData);
+                    SeekModeHandlers.handleConfirmHiding(connection, request.data, ctx);
                     break;
                 case 'seek:attemptFind':
-                    SeekModeHandlers.handleAttemptFind(connection.ws, validatedData);
+                    SeekModeHandlers.handleAttemptFind(connection, request.data, ctx);
                     break;
                 case 'seek:leaveGame':
-                    SeekModeHandlers.handleLeaveSeekGame(connection.ws);
+                    SeekModeHandlers.handleLeaveSeekGame(connection, ctx);
                     break;
                 case 'seek:getGames':
-                    SeekModeHandlers.handleGetActiveSeekGames(connection.ws);
+                    SeekModeHandlers.handleGetActiveSeekGames(connection, ctx);
                     break;
                 case 'seek:getHistory':
-                    SeekModeHandlers.handleGetSeekHistory(connection.ws, validatedData);
+                    SeekModeHandlers.handleGetSeekHistory(connection, request.data, ctx);
                     break;
                 case 'seek:getCurrent':
-                    SeekModeHandlers.handleGetCurrentSeekGame(connection.ws);
+                    SeekModeHandlers.handleGetCurrentSeekGame(connection, ctx);
                     break;
 
                 // =========================================================
                 // ANALYTICS HANDLERS (Phase 3.4-3.6)
                 // =========================================================
                 case 'analytics:getPreferences':
-                    AnalyticsHandlers.handleGetPreferences(connection.ws);
+                    AnalyticsHandlers.handleGetPreferences(connection, ctx);
                     break;
                 case 'analytics:updatePreferences':
-                    AnalyticsHandlers.handleUpdatePreferences(connection.ws, validatedData);
+                    AnalyticsHandlers.handleUpdatePreferences(connection, request.data, ctx);
                     break;
                 case 'analytics:updateFilters':
-                    AnalyticsHandlers.handleUpdateVisualFilters(connection.ws, validatedData);
+                    AnalyticsHandlers.handleUpdateVisualFilters(connection, request.data, ctx);
                     break;
                 case 'analytics:startGameMode':
-                    AnalyticsHandlers.handleStartGameMode(connection.ws, validatedData);
+                    AnalyticsHandlers.handleStartGameMode(connection, request.data, ctx);
                     break;
                 case 'analytics:endGameMode':
-                    AnalyticsHandlers.handleEndGameMode(connection.ws, validatedData);
+                    AnalyticsHandlers.handleEndGameMode(connection, request.data, ctx);
                     break;
                 case 'analytics:getGameModeStats':
-                    AnalyticsHandlers.handleGetGameModeStats(connection.ws);
+                    AnalyticsHandlers.handleGetGameModeStats(connection, ctx);
                     break;
                 case 'analytics:startAmbient':
-                    AnalyticsHandlers.handleStartAmbientMode(connection.ws, validatedData);
+                    AnalyticsHandlers.handleStartAmbientMode(connection, request.data, ctx);
                     break;
                 case 'analytics:endAmbient':
-                    AnalyticsHandlers.handleEndAmbientMode(connection.ws);
+                    AnalyticsHandlers.handleEndAmbientMode(connection, ctx);
                     break;
                 case 'analytics:getAmbientStats':
-                    AnalyticsHandlers.handleGetAmbientStats(connection.ws);
+                    AnalyticsHandlers.handleGetAmbientStats(connection, ctx);
                     break;
                 case 'analytics:getGlobalGameModeStats':
-                    AnalyticsHandlers.handleGetGlobalGameModeStats(connection.ws);
+                    AnalyticsHandlers.handleGetGlobalGameModeStats(connection, ctx);
                     break;
                 case 'analytics:getGlobalAmbientStats':
-                    AnalyticsHandlers.handleGetGlobalAmbientStats(connection.ws);
+                    AnalyticsHandlers.handleGetGlobalAmbientStats(connection, ctx);
                     break;
 
                 default:
@@ -1431,19 +1940,34 @@ export class WebSocketHandler {
     /**
      * Handle player position/state update
      */
-    private handlePlayerUpdate(playerId: string, connection: PlayerConnection, data: any): void {
+    private handlePlayerUpdate(playerId: string, connection: PlayerConnection, data: ValidatedPayload<'player_update'>): void {
         const oldX = connection.x;
         const oldY = connection.y;
 
         // Bounds check and clamp coordinates
-        if (typeof data.x === 'number') {
-            connection.x = Math.max(-this.MAX_COORDINATE, Math.min(this.MAX_COORDINATE, data.x));
-        }
-        if (typeof data.y === 'number') {
-            connection.y = Math.max(-this.MAX_COORDINATE, Math.min(this.MAX_COORDINATE, data.y));
+        const targetX = typeof data.x === 'number'
+            ? Math.max(-this.MAX_COORDINATE, Math.min(this.MAX_COORDINATE, data.x))
+            : connection.x;
+        const targetY = typeof data.y === 'number'
+            ? Math.max(-this.MAX_COORDINATE, Math.min(this.MAX_COORDINATE, data.y))
+            : connection.y;
+
+        // Speed check - offenders are clamped and rubber-banded. The input's
+        // sequence number goes back so the client can replay what it sent since.
+        const result = this.movement.validate(playerId, targetX, targetY, this.getSpeedMultiplier(connection), this.clock.now());
+        connection.x = result.x;
+        connection.y = result.y;
+        this.realms.get(connection.realm)?.moved(playerId);
+        if (result.correction) {
+            this.send(connection.ws, {
+                type: 'position_correction',
+                data: { x: result.x, y: result.y, reason: result.reason, seq: data.seq },
+                timestamp: this.clock.now()
+            });
         }
 
         // Debug log position updates (log every 5 seconds per player if they moved)
+        // Log sampling uses Math.random so it never shifts the game's random sequence
         const moved = Math.abs(connection.x - oldX) > 1 || Math.abs(connection.y - oldY) > 1;
         if (moved && Math.random() < 0.05) {
             console.log(`📍 Player ${playerId.substring(0, 20)} moved to (${Math.round(connection.x)}, ${Math.round(connection.y)})`);
@@ -1452,7 +1976,7 @@ export class WebSocketHandler {
         // Validate and sanitize player name
         if (typeof data.name === 'string') {
             const sanitized = data.name.trim().substring(0, SHARED_CONFIG.MAX_PLAYER_NAME);
-            if (sanitized.length > 0) {
+            if (sanitized.length > 0 && moderationService.isNameAllowed(sanitized)) {
                 connection.playerName = sanitized;
             }
         }
@@ -1463,46 +1987,182 @@ export class WebSocketHandler {
 
         // Handle realm change
         if (data.realmChange && data.realm !== connection.realm) {
-            const validRealms = ['genesis', 'nebula', 'void', 'starforge', 'sanctuary'];
-            if (!validRealms.includes(data.realm)) return;
+            if (!isRealmId(data.realm)) return;
 
-            const oldRealm = connection.realm;
-
-            // Remove from old realm
-            const oldRealmConnections = this.realms.get(oldRealm);
-            if (oldRealmConnections) {
-                oldRealmConnections.delete(playerId);
+            // Capacity is per server: a realm on another shard checks it on arrival
+            const local = this.cluster.router.isLocal(data.realm);
+            const entry = checkRealmEntry(data.realm, connection.level, local ? this.getRealmPopulation(data.realm) : 0);
+            if (!entry.allowed) {
+                this.sendRealmDenied(connection, data.realm, entry);
+                return;
             }
 
-            // Add to new realm
-            connection.realm = data.realm;
-            const newRealmConnections = this.realms.get(data.realm);
-            if (newRealmConnections) {
-                newRealmConnections.set(playerId, connection);
+            if (!local) {
+                this.handOffPlayer(connection, data.realm);
+                return;
             }
 
-            // Notify realms
-            this.broadcastToRealm(oldRealm, {
-                type: 'player_leave',
-                data: { playerId },
-                timestamp: Date.now()
-            }, playerId);
+            this.moveToRealm(connection, data.realm);
+        }
+    }
 
-            this.broadcastToRealm(data.realm, {
-                type: 'player_joined',
-                data: { playerId },
-                timestamp: Date.now()
-            }, playerId);
+    /**
+     * Move a player between two realms hosted on this process
+     */
+    private moveToRealm(connection: PlayerConnection, realm: string): void {
+        const playerId = connection.playerId;
+        const oldRealm = connection.realm;
+
+        // Remove from old realm
+        const oldRealmConnections = this.realms.get(oldRealm);
+        if (oldRealmConnections) {
+            oldRealmConnections.delete(playerId);
+        }
+        this.onRealmLeft(connection, oldRealm);
+
+        // Add to new realm
+        connection.realm = realm;
+        const newRealmConnections = this.realms.get(realm);
+        if (newRealmConnections) {
+            newRealmConnections.set(playerId, connection);
+        }
+        this.onRealmEntered(connection);
+
+        // Notify realms
+        this.broadcastToRealm(oldRealm, {
+            type: 'player_leave',
+            data: { playerId },
+            timestamp: this.clock.now()
+        }, playerId);
+
+        this.broadcastToRealm(realm, {
+            type: 'player_joined',
+            data: { playerId },
+            timestamp: this.clock.now()
+        }, playerId);
+
+        // Send initial state for new realm
+        this.sendInitialWorldState(connection);
+    }
+
+    /**
+     * Players whose saved level turns out too low for the realm they
+     * connected to are moved to the fallback realm
+     */
+    private enforceRealmUnlock(connection: PlayerConnection): void {
+        if (this.connections.get(connection.playerId) !== connection) return;
+
+        const entry = checkRealmEntry(connection.realm, connection.level, 0);
+        if (entry.reason !== 'locked') return;
+
+        const requested = connection.realm;
+        this.moveToRealm(connection, this.fallbackRealm());
+        this.sendRealmDenied(connection, requested, entry);
+    }
+
+    private sendRealmDenied(connection: PlayerConnection, requested: string, entry: RealmEntryCheck): void {
+        this.send(connection.ws, {
+            type: 'realm_denied',
+            data: {
+                realm: connection.realm,
+                requested,
+                reason: entry.reason,
+                unlockLevel: entry.unlockLevel,
+                capacity: entry.capacity
+            },
+            timestamp: this.clock.now()
+        });
+    }
+
+    private getRealmPopulation(realm: string): number {
+        return this.realms.get(realm)?.size ?? 0;
+    }
+
+    /**
+     * Where players go when they can't be where they asked: the default
+     * realm, or the first realm this shard hosts when it lives elsewhere
+     */
+    private fallbackRealm(): string {
+        return this.realms.has(DEFAULT_REALM) ? DEFAULT_REALM : this.realms.keys().next().value ?? DEFAULT_REALM;
+    }
+
+    /**
+     * Special realm rules: in a tag realm every player is in the realm's tag game
+     */
+    private onRealmEntered(connection: PlayerConnection): void {
+        if (getRealmSpecialMode(connection.realm) !== 'tag') return;
 
-            // Send initial state for new realm
-            this.sendInitialWorldState(connection);
+        const session = tagGameService.createSession(connection.realm, connection.playerId, connection.playerName);
+        if (session && !session.players.has(connection.playerId)) {
+            tagGameService.joinGame(session.id, connection.playerId, connection.playerName);
         }
     }
 
+    private onRealmLeft(connection: PlayerConnection, realm: string): void {
+        if (getRealmSpecialMode(realm) !== 'tag') return;
+
+        const session = tagGameService.getPlayerSession(connection.playerId);
+        if (session && session.realm === realm) {
+            tagGameService.leaveGame(session.id, connection.playerId);
+        }
+    }
+
+    /**
+     * Move a player to the shard hosting `realm`: their state is sent ahead
+     * over the bus, and the client gets a fresh token and the shard's URL
+     * to reconnect to. Closing the socket runs the normal disconnect path.
+     */
+    private handOffPlayer(connection: PlayerConnection, realm: string): void {
+        const shard = this.cluster.handOff({
+            playerId: connection.playerId,
+            playerName: connection.playerName,
+            realm,
+            x: connection.x,
+            y: connection.y,
+            color: connection.color,
+            xp: connection.xp,
+            level: connection.level
+        });
+
+        console.log(`🧩 Handing off ${connection.playerId} to shard ${shard.id} (${realm})`);
+
+        const session = sessionService.issueToken(connection.playerId, connection.isGuest);
+        this.send(connection.ws, {
+            type: 'realm_handoff',
+            data: { realm, shardId: shard.id, url: shard.url, session },
+            timestamp: this.clock.now()
+        });
+        connection.ws.close(4010, 'Realm handoff');
+    }
+
+    private restoreHandoff(connection: PlayerConnection, handoff: HandoffState): void {
+        connection.playerName = handoff.playerName;
+        connection.x = handoff.x;
+        connection.y = handoff.y;
+        connection.color = handoff.color;
+        connection.xp = handoff.xp;
+        connection.level = handoff.level;
+    }
+
+    /**
+     * Issue a fresh session token to an authenticated connection so the
+     * client can keep the socket alive and reconnect without re-authenticating
+     */
+    private handleRefreshSession(connection: PlayerConnection): void {
+        const session = sessionService.issueToken(connection.playerId, connection.isGuest);
+        connection.sessionExpiresAt = session.expiresAt;
+
+        this.send(connection.ws, {
+            type: 'session_refreshed',
+            data: session,
+            timestamp: this.clock.now()
+        });
+    }
+
     /**
      * Handle fragment collection request from client
      */
-    private handleCollectFragment(connection: PlayerConnection, data: any): void {
+    private handleCollectFragment(connection: PlayerConnection, data: ValidatedPayload<'collect_fragment'>): void {
         const { fragmentId } = data;
         if (!fragmentId || typeof fragmentId !== 'string') {
             return;
@@ -1530,10 +2190,13 @@ export class WebSocketHandler {
 
         // Remove fragment from realm
         realmFragments.delete(fragmentId);
+        this.eventRuntime.handleCollect(connection, fragment);
+        bondService.observeFragmentCollected(connection.playerId, realm, fragment.x, fragment.y, this.clock.now());
 
         // Award XP to player
         const xpReward = fragment.isGolden ? this.XP_GOLDEN_FRAGMENT_COLLECT : this.XP_FRAGMENT_COLLECT;
         connection.xp += xpReward;
+        playerDataService.recordStat(connection.playerId, 'fragmentsCollected');
 
         // Notify the collecting player
         this.send(connection.ws, {
@@ -1545,14 +2208,14 @@ export class WebSocketHandler {
                 xpGained: xpReward,
                 totalXp: connection.xp
             },
-            timestamp: Date.now()
+            timestamp: this.clock.now()
         });
 
         // Broadcast to realm that fragment was collected (so others remove it)
         this.broadcastToRealm(realm, {
             type: 'fragment_removed',
             data: { fragmentId },
-            timestamp: Date.now()
+            timestamp: this.clock.now()
         }, connection.playerId);
     }
 
@@ -1560,13 +2223,11 @@ export class WebSocketHandler {
      * Server game tick - runs at 20Hz
      */
     private serverGameTick(): void {
-        const now = Date.now();
+        const now = this.clock.now();
+        this.tickCount++;
 
-        // Update bots
-        for (const bot of this.bots.values()) {
-            const realmConnections = this.realms.get(bot.realm) || new Map();
-            bot.update(realmConnections);
-        }
+        // Spawn, move and retire bots
+        this.botDirector.tick(now);
 
         // Clean up expired chat messages
         for (const connection of this.connections.values()) {
@@ -1583,9 +2244,6 @@ export class WebSocketHandler {
             }
         }
 
-        // Ensure minimum population
-        this.ensureMinimumPopulation();
-
         // Clean up expired echoes
         for (const [id, echo] of this.echoes) {
             if (echo.expiresAt < now) {
@@ -1603,27 +2261,18 @@ export class WebSocketHandler {
                 if (now - lastSpawn > this.FRAGMENT_SPAWN_INTERVAL) {
                     const newFragment = this.spawnFragment(realmName);
                     if (newFragment) {
-                        // Broadcast new fragment to realm
-                        this.broadcastToRealm(realmName, {
-                            type: 'fragment_spawned',
-                            data: {
-                                id: newFragment.id,
-                                x: Math.round(newFragment.x),
-                                y: Math.round(newFragment.y),
-                                isGolden: newFragment.isGolden,
-                                value: newFragment.value,
-                                phase: newFragment.phase
-                            },
-                            timestamp: now
-                        });
+                        this.broadcastFragmentSpawned(newFragment);
                     }
                     this.lastFragmentSpawn.set(realmName, now);
                 }
             }
         }
 
+        // Run world event mechanics
+        this.eventRuntime.tick(now);
+
         // Detect constellations every 2 seconds (tick counter)
-        if (now % 2000 < this.GAME_TICK_RATE) {
+        if (this.tickCount % this.CONSTELLATION_CHECK_TICKS === 0) {
             for (const realmName of this.realms.keys()) {
                 this.detectConstellations(realmName);
             }
@@ -1640,6 +2289,7 @@ export class WebSocketHandler {
     // Constellation detection state
     private lastConstellationDetection: Map<string, number> = new Map();
     private readonly CONSTELLATION_COOLDOWN = 30000; // 30 seconds between same constellation rewards
+    private readonly CONSTELLATION_CHECK_TICKS = 2000 / this.GAME_TICK_RATE;
 
     /**
      * Detect constellation patterns formed by nearby players
@@ -1661,18 +2311,11 @@ export class WebSocketHandler {
         };
 
         // Find clusters of players
-        for (let i = 0; i < players.length; i++) {
-            const p1 = players[i];
-            const nearbyPlayers: PlayerConnection[] = [p1];
-
-            for (let j = 0; j < players.length; j++) {
-                if (i === j) continue;
-                const p2 = players[j];
-                const dist = Math.hypot(p1.x - p2.x, p1.y - p2.y);
-                if (dist <= CONSTELLATION_RANGE) {
-                    nearbyPlayers.push(p2);
-                }
-            }
+        for (const p1 of players) {
+            const nearbyPlayers: PlayerConnection[] = [
+                p1,
+                ...realmConnections.within(p1.x, p1.y, CONSTELLATION_RANGE, undefined, p2 => p2 !== p1 && !p2.isBot)
+            ];
 
             // Determine constellation type based on cluster size
             let constellationType: 'triangle' | 'square' | 'star' | 'galaxy' | null = null;
@@ -1692,11 +2335,11 @@ export class WebSocketHandler {
                 const constellationKey = `${realm}:${participantIds.join(',')}`;
                 const lastDetected = this.lastConstellationDetection.get(constellationKey) || 0;
 
-                if (Date.now() - lastDetected < this.CONSTELLATION_COOLDOWN) {
+                if (this.clock.now() - lastDetected < this.CONSTELLATION_COOLDOWN) {
                     continue; // Skip, recently awarded
                 }
 
-                this.lastConstellationDetection.set(constellationKey, Date.now());
+                this.lastConstellationDetection.set(constellationKey, this.clock.now());
 
                 // Award XP to all participants
                 const xpBonus = XP_BONUSES[constellationType];
@@ -1712,7 +2355,7 @@ export class WebSocketHandler {
                             participants: participantIds,
                             participantCount: nearbyPlayers.length
                         },
-                        timestamp: Date.now()
+                        timestamp: this.clock.now()
                     });
                 }
 
@@ -1725,7 +2368,7 @@ export class WebSocketHandler {
                         centerY: nearbyPlayers.reduce((sum, p) => sum + p.y, 0) / nearbyPlayers.length,
                         participantCount: nearbyPlayers.length
                     },
-                    timestamp: Date.now()
+                    timestamp: this.clock.now()
                 });
 
                 // Only detect one constellation per tick to avoid duplicates
@@ -1736,108 +2379,189 @@ export class WebSocketHandler {
 
     /**
      * Broadcast world state to a realm
+     * Each connection gets an interest-filtered delta against what it last acknowledged
      */
     private broadcastWorldState(realm: string): void {
         const realmConnections = this.realms.get(realm);
         if (!realmConnections) return;
 
-        // Gather player states
-        const players: any[] = [];
+        const snapshot = this.buildRealmSnapshot(realm);
+
+        // Debug log if multiple players
+        if (snapshot.players.length > 1 && Math.random() < 0.02) {
+            console.log(`🌐 Broadcasting to ${realm}: ${snapshot.players.length} players`, snapshot.players.map(p => `${p.id.substring(0, 12)}@(${p.x},${p.y})`));
+        }
+
         for (const conn of realmConnections.values()) {
-            players.push({
-                id: conn.playerId,
-                name: conn.playerName,
-                x: Math.round(conn.x),
-                y: Math.round(conn.y),
-                hue: conn.color,
-                xp: conn.xp,
-                level: conn.level,
-                isBot: conn.isBot,
-                // Synced Social State
-                message: conn.currentMessage,
-                speaking: conn.isSpeaking,
-                pulsing: conn.isPulsing
-            });
+            this.sendWorldUpdate(conn, snapshot);
         }
+    }
 
-        // Debug log if multiple players
-        if (players.length > 1 && Math.random() < 0.02) {
-            console.log(`🌐 Broadcasting to ${realm}: ${players.length} players`, players.map(p => `${p.id.substring(0, 12)}@(${p.x},${p.y})`));
+    /**
+     * Send the next world_delta to a single connection
+     */
+    private sendWorldUpdate(connection: PlayerConnection, snapshot: RealmSnapshot): void {
+        if (connection.ws.readyState !== WebSocket.OPEN) return;
+
+        const data = this.replication.buildUpdate(
+            { playerId: connection.playerId, x: connection.x, y: connection.y },
+            snapshot,
+            this.clock.now()
+        );
+        const payload = this.encode(connection.ws, { type: 'world_delta', data, timestamp: data.serverTime });
+
+        try {
+            connection.ws.send(payload);
+            this.replication.recordSent(connection.playerId, typeof payload === 'string' ? Buffer.byteLength(payload) : payload.byteLength);
+        } catch (error) {
+            console.error('Failed to send world delta:', error);
+        }
+    }
+
+    /**
+     * Gather the full, unfiltered replicated state of a realm for this tick
+     */
+    private buildRealmSnapshot(realm: string): RealmSnapshot {
+        const now = this.clock.now();
+        const realmConnections = this.realms.get(realm);
+
+        // Gather player states
+        const players: ReplicatedEntity[] = [];
+        if (realmConnections) {
+            for (const conn of realmConnections.values()) {
+                players.push({
+                    id: conn.playerId,
+                    name: conn.playerName,
+                    x: Math.round(conn.x),
+                    y: Math.round(conn.y),
+                    hue: conn.color,
+                    xp: conn.xp,
+                    level: conn.level,
+                    isBot: conn.isBot,
+                    // Synced Social State
+                    message: conn.currentMessage ?? null,
+                    speaking: !!conn.isSpeaking,
+                    pulsing: !!conn.isPulsing
+                });
+            }
         }
 
-        // Gather bot states in this realm
-        const bots: any[] = [];
+        // Gather bot states in this realm (messageTimer is internal and changes every tick)
+        const bots: ReplicatedEntity[] = [];
         for (const bot of this.bots.values()) {
             if (bot.realm === realm) {
-                bots.push(bot.toPlayerData());
+                const { messageTimer, ...botData } = bot.toPlayerData();
+                bots.push({ ...botData, message: botData.message ?? null, emoting: botData.emoting ?? null });
             }
         }
 
         // Gather echoes
-        const echoes = Array.from(this.echoes.values())
-            .filter(e => e.expiresAt > Date.now());
+        const echoes: ReplicatedEntity[] = Array.from(this.echoes.values())
+            .filter(e => e.expiresAt > now)
+            .map(e => ({
+                id: e.id,
+                playerId: e.playerId,
+                playerName: e.playerName,
+                message: e.message,
+                x: Math.round(e.x),
+                y: Math.round(e.y),
+                hue: e.hue ?? null,
+                createdAt: e.createdAt,
+                expiresAt: e.expiresAt,
+                resonanceCount: e.resonanceCount
+            }));
 
         // Gather fragments for this realm
         const realmFragments = this.fragments.get(realm);
-        const fragmentsArray = realmFragments
+        const fragments: ReplicatedEntity[] = realmFragments
             ? Array.from(realmFragments.values()).map(f => ({
                 id: f.id,
                 x: Math.round(f.x),
                 y: Math.round(f.y),
                 isGolden: f.isGolden,
                 value: f.value,
-                phase: f.phase
+                phase: f.phase,
+                ...(f.eventId ? { eventId: f.eventId } : {})
             }))
             : [];
 
         // Gather power-ups for this realm
-        const powerUpsArray = Array.from(this.powerUps.values())
-            .filter(p => !p.collectedBy && p.expiresAt > Date.now())
+        const powerUps: ReplicatedEntity[] = Array.from(this.powerUps.values())
+            .filter(p => !p.collectedBy && p.expiresAt > now)
             .map(p => ({
                 id: p.id,
                 type: p.type,
                 x: Math.round(p.x),
                 y: Math.round(p.y),
                 expiresAt: p.expiresAt,
-                config: p.config
+                config: p.config ?? null
             }));
 
         // Gather beacons for this realm from BeaconService
-        const beaconsArray = beaconService.getBeaconsInRealm(realm).map(b => ({
+        const beacons: ReplicatedEntity[] = beaconService.getBeaconsInRealm(realm).map(b => ({
             id: b.id,
             x: Math.round(b.x),
             y: Math.round(b.y),
             lit: b.charge >= 50, // lightingThreshold from BeaconService config
             charge: b.charge || 0,
-            litBy: b.litBy,
-            litAt: b.litAt,
-            permanentlyLit: b.permanentlyLit,
-            isProtected: b.isProtected
+            litBy: b.litBy ?? null,
+            litAt: b.litAt ?? null,
+            permanentlyLit: b.permanentlyLit ?? false,
+            isProtected: b.isProtected ?? false
         }));
 
-        const worldState = {
-            type: 'world_state',
-            data: {
-                players,
-                bots,
-                echoes,
-                fragments: fragmentsArray,
-                powerUps: powerUpsArray,
-                beacons: beaconsArray,
-                nebulae: this.nebulae,
-                stars: this.stars,
-                litStars: Array.from(this.litStars),
-                serverTime: Date.now()
-            },
-            timestamp: Date.now()
+        return {
+            players,
+            bots,
+            echoes,
+            fragments,
+            powerUps,
+            beacons,
+            litStars: Array.from(this.litStars)
         };
+    }
 
-        // Send to all players in realm
-        for (const conn of realmConnections.values()) {
-            if (conn.ws.readyState === WebSocket.OPEN) {
-                this.send(conn.ws, worldState);
-            }
+    /**
+     * Bandwidth-per-client metric for world state replication
+     */
+    getReplicationStats(): BandwidthStats {
+        return this.replication.getBandwidthStats(this.clock.now());
+    }
+
+    /**
+     * Movement violation counts and suspicion scores, highest first
+     */
+    getMovementSuspicion(): SuspicionReport[] {
+        return this.movement.getSuspicionReport(this.clock.now());
+    }
+
+    /**
+     * How often each rate limit has been checked and tripped, most tripped first
+     */
+    getRateLimitMetrics(): RateLimitMetrics[] {
+        return this.rateLimiter.getMetrics();
+    }
+
+    /**
+     * Bot population by role and the director's spawn/retire counters
+     */
+    getBotStats(): BotDirectorStats {
+        return this.botDirector.getStats();
+    }
+
+    /**
+     * Max speed multiplier from either power-up system
+     */
+    private getSpeedMultiplier(connection: PlayerConnection): number {
+        let multiplier = Math.max(1, powerUpService.getSpeedMultiplier(connection.playerId));
+
+        const boost = connection.activePowerUps?.get('speed_boost');
+        if (boost && boost.activeUntil > this.clock.now()) {
+            multiplier = Math.max(multiplier, boost.config?.multiplier ?? 1);
         }
+
+        // The client scales its movement by the realm's drift the same way
+        return multiplier * getRealmPhysics(connection.realm).driftMultiplier;
     }
 
     // ==========================================================================
@@ -1845,18 +2569,35 @@ export class WebSocketHandler {
     // ==========================================================================
 
     /**
-     * Send message to a WebSocket
+     * Send message to a WebSocket. Reliable messages are numbered and kept
+     * for replay, so they also survive a socket that is down right now.
      */
-    private send(ws: WebSocket, message: any): void {
+    private send<T extends ServerMessageType>(ws: WebSocket, message: ServerMessage<T>): void {
+        const playerId = this.socketOwners.get(ws);
+        this.transmit(ws, playerId ? this.resume.stamp(playerId, message) : message);
+    }
+
+    private transmit(ws: WebSocket, message: any): void {
         if (ws.readyState === WebSocket.OPEN) {
             try {
-                ws.send(JSON.stringify(message));
+                ws.send(this.encode(ws, message));
             } catch (error) {
                 console.error('Failed to send message:', error);
             }
         }
     }
 
+    /**
+     * Binary frame for hot message types on binary sockets, JSON otherwise
+     */
+    private encode(ws: WebSocket, message: any): string | Uint8Array {
+        if (BINARY_MESSAGE_TYPES.has(message.type) && this.binaryClients.has(ws)) {
+            const frame = encodeBinaryMessage(message);
+            if (frame) return frame;
+        }
+        return JSON.stringify(message);
+    }
+
     /**
      * Send error message to connection
      */
@@ -1864,14 +2605,14 @@ export class WebSocketHandler {
         this.send(connection.ws, {
             type: 'error',
             data: { message: error },
-            timestamp: Date.now()
+            timestamp: this.clock.now()
         });
     }
 
     /**
      * Broadcast message to all connected clients
      */
-    private broadcast(message: any, excludePlayerId?: string): void {
+    private broadcast<T extends ServerMessageType>(message: ServerMessage<T>, excludePlayerId?: string): void {
         for (const connection of this.connections.values()) {
             if (connection.playerId !== excludePlayerId) {
                 this.send(connection.ws, message);
@@ -1879,10 +2620,18 @@ export class WebSocketHandler {
         }
     }
 
+    /**
+     * Broadcast message to all players on every shard
+     */
+    private broadcastGlobal<T extends ServerMessageType>(message: ServerMessage<T>, excludePlayerId?: string): void {
+        this.broadcast(message, excludePlayerId);
+        this.cluster.broadcast(message);
+    }
+
     /**
      * Broadcast message to all players in a realm
      */
-    private broadcastToRealm(realm: string, message: any, excludePlayerId?: string): void {
+    private broadcastToRealm<T extends ServerMessageType>(realm: string, message: ServerMessage<T>, excludePlayerId?: string): void {
         const realmConnections = this.realms.get(realm);
         if (!realmConnections) return;
 
@@ -1896,7 +2645,7 @@ export class WebSocketHandler {
     /**
      * Broadcast to tag session participants
      */
-    private broadcastToTagSession(sessionId: string, message: any): void {
+    private broadcastToTagSession<T extends ServerMessageType>(sessionId: string, message: ServerMessage<T>): void {
         // Get session participants from tag game service
         const session = tagGameService.getSession(sessionId);
         if (!session) return;
@@ -1910,92 +2659,21 @@ export class WebSocketHandler {
     }
 
     /**
-     * Check if player is rate limited
-     */
-    private isRateLimited(playerId: string): boolean {
-        const now = Date.now();
-        let limit = this.messageRateLimits.get(playerId);
-
-        if (!limit || now - limit.windowStart > this.MESSAGE_RATE_WINDOW) {
-            this.messageRateLimits.set(playerId, { count: 1, windowStart: now });
-            return false;
-        }
-
-        limit.count++;
-        return limit.count > this.MESSAGE_RATE_LIMIT;
-    }
-
-    /**
-     * Get players near a bot for AI decisions
-     */
-    private getPlayersNearBot(bot: ServerBot): any {
-        const nearby: any[] = [];
-        const realmConnections = this.realms.get(bot.realm);
-
-        if (realmConnections) {
-            for (const conn of realmConnections.values()) {
-                const dx = conn.x - bot.x;
-                const dy = conn.y - bot.y;
-                const distance = Math.sqrt(dx * dx + dy * dy);
-                if (distance < 500) {
-                    nearby.push({ ...conn, distance });
-                }
-            }
-        }
-
-        return {
-            count: nearby.length,
-            closest: nearby.sort((a, b) => a.distance - b.distance)[0] || null
-        };
-    }
-
-    /**
-     * Ensure minimum population with bots
+     * Check a message against its rate limit policy. The first rejection of
+     * a streak tells the client which limit tripped and when to retry.
      */
-    private ensureMinimumPopulation(): void {
-        for (const [realmName, realmConnections] of this.realms) {
-            const botsInRealm = Array.from(this.bots.values()).filter(b => b.realm === realmName).length;
-            const totalPopulation = realmConnections.size + botsInRealm;
-            const botsNeeded = this.MIN_POPULATION - totalPopulation;
-
-            for (let i = 0; i < botsNeeded; i++) {
-                this.spawnBot(realmName);
-            }
+    private isRateLimited(connection: PlayerConnection, type: string): boolean {
+        const hit = this.rateLimiter.check(connection.playerId, type, this.clock.now());
+        if (!hit) return false;
+
+        if (hit.notify) {
+            this.send(connection.ws, {
+                type: 'rate_limited',
+                data: { type, limit: hit.limit, reason: hit.reason, retryAfter: hit.retryAfter },
+                timestamp: this.clock.now()
+            });
         }
-    }
-
-    /**
-     * Spawn a bot in a realm
-     */
-    private spawnBot(realm: string): void {
-        // Random spawn position within realm bounds
-        const x = Math.random() * 2000 - 1000;
-        const y = Math.random() * 2000 - 1000;
-        const bot = new ServerBot(x, y, realm);
-        this.bots.set(bot.id, bot);
-    }
-
-    /**
-     * Extract player ID from request
-     */
-    private extractPlayerId(req: IncomingMessage): string | null {
-        const url = new URL(req.url || '', `http://${req.headers.host}`);
-        return url.searchParams.get('playerId');
-    }
-
-    /**
-     * Extract realm from request
-     */
-    private extractRealm(req: IncomingMessage): string | null {
-        const url = new URL(req.url || '', `http://${req.headers.host}`);
-        return url.searchParams.get('realm');
-    }
-
-    /**
-     * Generate unique player ID
-     */
-    private generatePlayerId(): string {
-        return `player_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+        return true;
     }
 
     // ==========================================================================
@@ -2005,7 +2683,7 @@ export class WebSocketHandler {
     /**
      * Send initial world state to new connection
      */
-    private sendInitialWorldState(connection: PlayerConnection): void {
+    private sendInitialWorldState(connection: PlayerConnection, newSession: boolean = false): void {
         const realmConnections = this.realms.get(connection.realm);
 
         // Current players in realm
@@ -2033,20 +2711,34 @@ export class WebSocketHandler {
 
         // Echoes
         const echoes = Array.from(this.echoes.values())
-            .filter(e => e.expiresAt > Date.now());
+            .filter(e => e.expiresAt > this.clock.now());
+
+        // Client state is rebuilt from scratch - next world_delta is a keyframe
+        this.replication.reset(connection.playerId);
 
         this.send(connection.ws, {
             type: 'initial_state',
             data: {
                 playerId: connection.playerId,
+                isGuest: connection.isGuest,
                 realm: connection.realm,
+                codec: this.binaryClients.has(connection.ws) ? 'binary' : 'json',
                 players,
                 bots,
                 echoes,
                 litStars: Array.from(this.litStars),
-                serverTime: Date.now()
+                // Static visual entities are only sent here, never per tick
+                nebulae: this.nebulae,
+                stars: this.stars,
+                serverTime: this.clock.now(),
+                // Reconnect with this to resume; a new session restarts message sequencing
+                resume: {
+                    token: this.resume.getToken(connection.playerId),
+                    graceMs: this.resume.config.graceMs,
+                    newSession
+                }
             },
-            timestamp: Date.now()
+            timestamp: this.clock.now()
         });
     }
 
@@ -2059,7 +2751,9 @@ export class WebSocketHandler {
             if (data) {
                 connection.xp = data.xp || 0;
                 connection.level = getLevel(connection.xp);
-                connection.playerName = data.name || connection.playerName;
+                if (data.name && moderationService.isNameAllowed(data.name)) {
+                    connection.playerName = data.name;
+                }
                 connection.color = data.hue || connection.color;
             }
         } catch (error) {
@@ -2096,45 +2790,195 @@ export class WebSocketHandler {
      * Load persisted data on startup
      */
     private async loadPersistedData(): Promise<void> {
+        if (!this.snapshotStore) return;
+
         try {
-            // Load any persisted world state if needed
             console.log('📥 Loading persisted data...');
+            const snapshot = await this.snapshotStore.load();
+            if (!snapshot) return;
+
+            if (!isUsableSnapshot(snapshot)) {
+                console.warn('⚠️ Ignoring world snapshot with an unknown format');
+                return;
+            }
+
+            this.restoreSnapshot(snapshot);
         } catch (error) {
             console.error('Failed to load persisted data:', error);
         }
     }
 
+    /**
+     * Serialize the authoritative world (this shard's realms + service state)
+     */
+    captureSnapshot(): WorldSnapshot {
+        const now = this.clock.now();
+
+        return {
+            version: WORLD_SNAPSHOT_VERSION,
+            savedAt: now,
+            shardId: this.cluster.shardId,
+            litStars: Array.from(this.litStars),
+            echoes: Array.from(this.echoes.values())
+                .filter(e => e.expiresAt > now)
+                .map(serializeEcho),
+            fragments: Array.from(this.fragments.values()).flatMap(realm => Array.from(realm.values())),
+            fragmentIdCounter: this.fragmentIdCounter,
+            powerUps: Array.from(this.powerUps.values()).filter(p => p.expiresAt > now),
+            bots: Array.from(this.bots.values()).map(bot => ({
+                id: bot.id,
+                name: bot.name,
+                realm: bot.realm,
+                x: bot.x,
+                y: bot.y,
+                hue: bot.hue,
+                xp: bot.xp
+            })),
+            beacons: beaconService.exportState(),
+            darkness: darknessService.exportState(),
+            powerUpService: powerUpService.exportState()
+        };
+    }
+
+    /**
+     * Put the world back the way a snapshot left it. Realms this shard does
+     * not host and anything that expired in the meantime are skipped.
+     */
+    restoreSnapshot(snapshot: WorldSnapshot): void {
+        const now = this.clock.now();
+
+        for (const starId of snapshot.litStars) {
+            this.litStars.add(starId);
+        }
+
+        for (const echo of snapshot.echoes) {
+            if (echo.expiresAt > now) {
+                this.echoes.set(echo.id, deserializeEcho(echo));
+            }
+        }
+
+        // Realms in the snapshot replace their freshly seeded fragments
+        const restoredRealms = new Set<string>();
+        for (const fragment of snapshot.fragments) {
+            const realmFragments = this.fragments.get(fragment.realm);
+            if (!realmFragments) continue;
+            if (!restoredRealms.has(fragment.realm)) {
+                realmFragments.clear();
+                restoredRealms.add(fragment.realm);
+            }
+            // Event collectibles are respawned by the event's mechanics
+            if (fragment.eventId) continue;
+            realmFragments.set(fragment.id, fragment);
+        }
+        this.fragmentIdCounter = Math.max(this.fragmentIdCounter, snapshot.fragmentIdCounter || 0);
+
+        for (const powerUp of snapshot.powerUps) {
+            if (powerUp.expiresAt > now) {
+                this.powerUps.set(powerUp.id, powerUp);
+            }
+        }
+
+        for (const saved of snapshot.bots) {
+            if (!this.realms.has(saved.realm)) continue;
+            const bot = new ServerBot(saved.x, saved.y, saved.realm, this.random);
+            bot.id = saved.id;
+            bot.name = saved.name;
+            bot.hue = saved.hue;
+            bot.xp = saved.xp;
+            this.bots.set(bot.id, bot);
+        }
+
+        if (snapshot.beacons) beaconService.restoreState(snapshot.beacons);
+        if (snapshot.darkness) darknessService.restoreState(snapshot.darkness);
+        if (snapshot.powerUpService) powerUpService.restoreState(snapshot.powerUpService, now);
+
+        const age = Math.round((now - snapshot.savedAt) / 1000);
+        console.log(`♻️ Restored world snapshot from ${age}s ago: ${this.litStars.size} lit stars, ${this.echoes.size} echoes, ${snapshot.fragments.length} fragments, ${this.bots.size} bots`);
+    }
+
+    /**
+     * Write a world snapshot (periodically and on shutdown)
+     */
+    private async saveSnapshot(): Promise<void> {
+        if (!this.snapshotStore) return;
+
+        try {
+            await this.snapshotStore.save(this.captureSnapshot());
+        } catch (error) {
+            console.error('Failed to save world snapshot:', error);
+        }
+    }
+
     /**
      * Cleanup stale connections
      */
     private cleanupStaleConnections(): void {
-        const now = Date.now();
+        const now = this.clock.now();
+
+        // Dropped connections nobody came back for
+        for (const playerId of this.resume.expired(now)) {
+            console.log(`⌛ Resume window closed: ${playerId}`);
+            this.handleDisconnect(playerId);
+        }
 
         for (const [playerId, connection] of this.connections) {
+            if (this.resume.isSuspended(playerId)) continue;
             if (now - connection.lastSeen > this.PLAYER_TIMEOUT) {
                 console.log(`⏰ Cleaning up stale connection: ${playerId}`);
                 connection.ws.close();
                 this.handleDisconnect(playerId);
+            } else if (connection.sessionExpiresAt && now >= connection.sessionExpiresAt) {
+                // Client stopped refreshing its session token
+                console.log(`🔐 Session expired: ${playerId}`);
+                connection.ws.close(4001, 'Session expired');
+                this.handleDisconnect(playerId);
             }
         }
     }
 
     /**
-     * Shutdown handler
+     * Shutdown handler: snapshot the world, hand every client a resume token
+     * so it can reconnect to the next process where it was, then disconnect
      */
-    shutdown(): void {
+    async shutdown(): Promise<void> {
         console.log('🔌 Shutting down WebSocket server...');
 
-        if (this.cleanupInterval) clearInterval(this.cleanupInterval);
-        if (this.gameLoopInterval) clearInterval(this.gameLoopInterval);
-        if (this.saveInterval) clearInterval(this.saveInterval);
+        if (this.cleanupInterval) this.clock.clearInterval(this.cleanupInterval);
+        if (this.gameLoopInterval) this.clock.clearInterval(this.gameLoopInterval);
+        if (this.saveInterval) this.clock.clearInterval(this.saveInterval);
+        if (this.snapshotInterval) this.clock.clearInterval(this.snapshotInterval);
+
+        this.cluster?.detach();
+        await this.cluster?.close();
+
+        // Flush event contributions; running events resume in the next process
+        this.eventRuntime.stopAll(this.clock.now());
+
+        await this.saveSnapshot();
+
+        for (const connection of this.connections.values()) {
+            this.send(connection.ws, {
+                type: 'server_restarting',
+                data: {
+                    resumeToken: sessionService.issueResumeToken({
+                        sub: connection.playerId,
+                        realm: connection.realm,
+                        x: connection.x,
+                        y: connection.y
+                    }),
+                    session: sessionService.issueToken(connection.playerId, connection.isGuest),
+                    reconnectIn: this.RESTART_RECONNECT_DELAY
+                },
+                timestamp: this.clock.now()
+            });
+        }
 
         // Save all player data
-        this.saveDirtyPlayers();
+        await this.saveDirtyPlayers();
 
-        // Close all connections
+        // Close all connections (1012: Service Restart)
         for (const connection of this.connections.values()) {
-            connection.ws.close();
+            connection.ws.close(1012, 'Server restarting');
         }
 
         if (this.wss) {
@@ -2155,21 +2999,20 @@ export class WebSocketHandler {
      * Set up Phase 1 handlers for a new connection
      */
     private setupPhase1Handlers(playerId: string, ws: WebSocket): void {
-        const broadcast = (message: any, excludeWs?: WebSocket) => {
-            this.broadcastToAll(message, excludeWs);
-        };
-
-        this.seasonHandlers.set(playerId, setupSeasonHandlers(ws, broadcast));
-        this.galleryHandlers.set(playerId, setupGalleryHandlers(ws, broadcast));
-        this.dailyLoginHandlers.set(playerId, setupDailyLoginHandlers(ws, broadcast));
-        this.constellationHandlers.set(playerId, setupConstellationHandlers(ws, broadcast));
-        this.activityHandlers.set(playerId, setupActivityFeedHandlers(ws, broadcast));
+        const send: SendMessage = (message) => this.send(ws, message);
+        const broadcast: BroadcastMessage = (message) => this.broadcastToAll(message);
+
+        this.seasonHandlers.set(playerId, setupSeasonHandlers(send, broadcast));
+        this.galleryHandlers.set(playerId, setupGalleryHandlers(send, broadcast));
+        this.dailyLoginHandlers.set(playerId, setupDailyLoginHandlers(send, broadcast));
+        this.constellationHandlers.set(playerId, setupConstellationHandlers(send, broadcast));
+        this.activityHandlers.set(playerId, setupActivityFeedHandlers(send, broadcast));
     }
 
     /**
      * Handle season-related messages
      */
-    private handleSeasonMessage(connection: PlayerConnection, message: any): void {
+    private handleSeasonMessage(connection: PlayerConnection, message: Extract<ValidatedRequest, { type: `season:${string}` }>): void {
         const handler = this.seasonHandlers.get(connection.playerId);
         if (handler) {
             handler.handleSeasonMessage({
@@ -2183,7 +3026,7 @@ export class WebSocketHandler {
     /**
      * Handle gallery-related messages
      */
-    private handleGalleryMessage(connection: PlayerConnection, message: any): void {
+    private handleGalleryMessage(connection: PlayerConnection, message: Extract<ValidatedRequest, { type: `gallery:${string}` }>): void {
         const handler = this.galleryHandlers.get(connection.playerId);
         if (handler) {
             handler.handleGalleryMessage({
@@ -2198,7 +3041,7 @@ export class WebSocketHandler {
     /**
      * Handle daily login messages
      */
-    private handleDailyLoginMessage(connection: PlayerConnection, message: any): void {
+    private handleDailyLoginMessage(connection: PlayerConnection, message: Extract<ValidatedRequest, { type: `daily:${string}` }>): void {
         const handler = this.dailyLoginHandlers.get(connection.playerId);
         if (handler) {
             handler.handleDailyLoginMessage({
@@ -2211,7 +3054,7 @@ export class WebSocketHandler {
     /**
      * Handle constellation messages
      */
-    private handleConstellationMessage(connection: PlayerConnection, message: any): void {
+    private handleConstellationMessage(connection: PlayerConnection, message: Extract<ValidatedRequest, { type: `constellation:${string}` }>): void {
         const handler = this.constellationHandlers.get(connection.playerId);
         if (handler) {
             handler.handleConstellationMessage({
@@ -2225,7 +3068,7 @@ export class WebSocketHandler {
     /**
      * Handle activity feed messages
      */
-    private handleActivityMessage(connection: PlayerConnection, message: any): void {
+    private handleActivityMessage(connection: PlayerConnection, message: Extract<ValidatedRequest, { type: `activity:${string}` }>): void {
         const handler = this.activityHandlers.get(connection.playerId);
         if (handler) {
             handler.handleActivityMessage({
@@ -2238,25 +3081,46 @@ export class WebSocketHandler {
     }
 
     /**
-     * Broadcast to all connected players
+     * Broadcast to all connected players (on every shard)
      */
-    private broadcastToAll(message: any, excludeWs?: WebSocket): void {
+    private broadcastToAll<T extends ServerMessageType>(message: ServerMessage<T>): void {
         const data = JSON.stringify(message);
         for (const connection of this.connections.values()) {
-            if (connection.ws !== excludeWs && connection.ws.readyState === 1) {
+            if (connection.ws.readyState === 1) {
                 connection.ws.send(data);
             }
         }
+        this.cluster.broadcast(message);
     }
 
     /**
-     * Send message to a specific player
+     * Send message to a specific player on this shard
      */
-    private sendToPlayer(playerId: string, message: any): void {
+    private sendToPlayer<T extends ServerMessageType>(playerId: string, message: ServerMessage<T>): boolean {
         const connection = this.connections.get(playerId);
-        if (connection && connection.ws.readyState === 1) {
-            connection.ws.send(JSON.stringify(message));
-        }
+        if (!connection) return false;
+        this.send(connection.ws, message);
+        return true;
+    }
+
+    private locateLocalPlayer(playerId: string): Omit<PlayerLocation, 'shardId'> | null {
+        const connection = this.connections.get(playerId);
+        if (!connection) return null;
+        return {
+            playerId,
+            playerName: connection.playerName,
+            realm: connection.realm,
+            x: connection.x,
+            y: connection.y
+        };
+    }
+
+    /**
+     * Which shard hosts a realm, for clients choosing where to connect
+     */
+    getRealmRoute(realm: string): { realm: string; shardId: string; url: string | null } {
+        const shard = this.cluster.router.getOwner(realm);
+        return { realm, shardId: shard.id, url: shard.url };
     }
 
     /**
@@ -0,0 +1,165 @@
+// =============================================================================
+// BotDirector Tests - bots spawned around players, given roles and retired
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { BotDirector, BOT_DIRECTOR_CONFIG } from './BotDirector.js';
+import type { BotWorld, BotDirectorOptions } from './BotDirector.js';
+import { ServerBot } from '../ServerBot.js';
+import type { PlayerConnection, ServerFragment } from '../types.js';
+import { seededRandom } from '../runtime/index.js';
+import { isBotId } from '../../common/bot.js';
+import { bondService } from '../../services/BondService.js';
+
+const TICK = 50;
+
+function fakeWorld(players: Array<Partial<PlayerConnection>>) {
+    const random = seededRandom(7);
+    const bots = new Map<string, ServerBot>();
+    const fragments = new Map<string, ServerFragment>();
+    const collected: Array<{ botId: string; fragmentId: string }> = [];
+    const state = { darkness: false, beacons: [] as Array<{ x: number; y: number }> };
+
+    const world: BotWorld = {
+        realms: () => ['genesis', 'nebula'],
+        players: (realm) => players.filter(p => p.realm === realm) as PlayerConnection[],
+        player: (realm, playerId) => players.find(p => p.realm === realm && p.playerId === playerId) as PlayerConnection | undefined,
+        playersNear: (realm, x, y, radius) =>
+            players.filter(p => p.realm === realm && Math.hypot(p.x! - x, p.y! - y) <= radius) as PlayerConnection[],
+        bots: () => bots.values(),
+        botsNear: (realm, x, y, radius) =>
+            Array.from(bots.values()).filter(b => b.realm === realm && Math.hypot(b.x - x, b.y - y) <= radius),
+        botMoved: () => {},
+        spawnBot: (realm, x, y) => {
+            const bot = new ServerBot(x, y, realm, random);
+            bots.set(bot.id, bot);
+            return bot;
+        },
+        removeBot: (bot) => bots.delete(bot.id),
+        fragments: (realm) => Array.from(fragments.values()).filter(f => f.realm === realm),
+        fragmentsNear: (realm, x, y, radius) =>
+            Array.from(fragments.values()).filter(f => f.realm === realm && Math.hypot(f.x - x, f.y - y) <= radius),
+        collectFragment: (bot, fragmentId) => {
+            if (!fragments.delete(fragmentId)) return false;
+            collected.push({ botId: bot.id, fragmentId });
+            return true;
+        },
+        darknessActive: () => state.darkness,
+        litBeacons: () => state.beacons,
+        random
+    };
+
+    function addFragment(id: string, x: number, y: number, extra: Partial<ServerFragment> = {}): void {
+        fragments.set(id, { id, x, y, realm: 'genesis', isGolden: false, value: 1, phase: 0, spawnedAt: 0, ...extra });
+    }
+
+    return { world, bots, fragments, collected, state, addFragment };
+}
+
+function player(playerId: string, x: number, y: number, level = 10): Partial<PlayerConnection> {
+    return { playerId, realm: 'genesis', x, y, level, isBot: false };
+}
+
+function run(director: BotDirector, from: number, ms: number): number {
+    let now = from;
+    for (; now < from + ms; now += TICK) director.tick(now);
+    return now;
+}
+
+describe('BotDirector', () => {
+    it('spawns bots around lonely players only', () => {
+        const { world, bots } = fakeWorld([player('alice', 4000, 4000)]);
+        const director = new BotDirector(world);
+
+        director.tick(0);
+
+        // Alice gets company up to the per-player cap; the empty realm gets none
+        expect(bots.size).toBe(BOT_DIRECTOR_CONFIG.MAX_BOTS_PER_PLAYER);
+        for (const bot of bots.values()) {
+            expect(bot.realm).toBe('genesis');
+            expect(bot.anchorId).toBe('alice');
+            expect(isBotId(bot.id)).toBe(true);
+            expect(Math.hypot(bot.x - 4000, bot.y - 4000)).toBeGreaterThan(BOT_DIRECTOR_CONFIG.SPAWN_DISTANCE - 10);
+        }
+
+        // Bots walk in and stay near their player
+        run(director, TICK, 10_000);
+        for (const bot of bots.values()) {
+            expect(Math.hypot(bot.x - 4000, bot.y - 4000)).toBeLessThan(BOT_DIRECTOR_CONFIG.INTEREST_RADIUS);
+        }
+    });
+
+    it('retires bots gracefully as players arrive', () => {
+        const players = [player('alice', 4000, 4000)];
+        const { world, bots } = fakeWorld(players);
+        const director = new BotDirector(world);
+        let now = run(director, 0, 2000);
+        expect(bots.size).toBe(2);
+
+        players.push(player('bob', 4100, 4000), player('carol', 3900, 4000), player('dave', 4000, 4100));
+        now = run(director, now, 1000);
+
+        // Alice has three real neighbours now: her bots say goodbye and leave
+        const retiring = Array.from(bots.values());
+        expect(retiring.every(bot => bot.retiringSince !== null && bot.currentMessage)).toBe(true);
+        expect(director.getStats()).toMatchObject({ retiring: 2, retired: 2 });
+
+        run(director, now, BOT_DIRECTOR_CONFIG.RETIRE_AFTER + 1000);
+        expect(bots.size).toBe(0);
+    });
+
+    it('greets new players, collects plain fragments and helps in the dark', () => {
+        const { world, bots, collected, state, addFragment } = fakeWorld([player('newbie', 4000, 4000, 1)]);
+        const director = new BotDirector(world);
+        addFragment('plain', 4150, 4000);
+        addFragment('golden', 4000, 4150, { isGolden: true });
+        addFragment('event', 3850, 4000, { eventId: 'meteor' });
+
+        director.tick(0);
+        const roles = Array.from(bots.values(), bot => bot.role).sort();
+        expect(roles).toEqual(['collector', 'greeter']);
+
+        let now = run(director, TICK, 15_000);
+        const greeter = Array.from(bots.values()).find(bot => bot.lastGreeted.has('newbie'));
+        expect(greeter).toBeDefined();
+        expect(collected).toEqual([{ botId: expect.stringMatching(/^bot-/), fragmentId: 'plain' }]);
+
+        state.darkness = true;
+        state.beacons = [{ x: 4500, y: 4000 }];
+        now = run(director, now, 1000);
+        for (const bot of bots.values()) {
+            expect(bot.role).toBe('beacon_helper');
+            expect(bot.goal).toEqual({ x: 4500, y: 4000 });
+        }
+    });
+
+    it('keeps bot updates within the tick budget and round robin', () => {
+        const players = Array.from({ length: 6 }, (_, i) => player(`p${i}`, i * 3000, 0));
+        const { world, bots } = fakeWorld(players);
+        // Every clock read costs 1ms, so a 4ms budget fits a handful of updates
+        let cpu = 0;
+        const options: BotDirectorOptions = { config: { TICK_BUDGET_MS: 4 }, cpuTime: () => cpu++ };
+        const director = new BotDirector(world, options);
+
+        director.tick(0);
+        expect(bots.size).toBe(12);
+        const positions = () => Array.from(bots.values(), bot => `${bot.x},${bot.y}`);
+
+        const before = positions();
+        director.tick(TICK);
+        const moved = positions().filter((p, i) => p !== before[i]).length;
+        expect(moved).toBeGreaterThan(0);
+        expect(moved).toBeLessThan(12);
+        expect(director.getStats().deferredUpdates).toBeGreaterThan(0);
+
+        // A few more ticks and every bot has had its turn
+        for (let i = 2; i < 8; i++) director.tick(i * TICK);
+        const after = positions();
+        expect(after.every((p, i) => p !== before[i])).toBe(true);
+    });
+
+    it('never lets a bot become a bond partner', async () => {
+        expect(await bondService.createBond('alice', 'bot-abc123')).toBeNull();
+        expect(await bondService.updateBondStrength('alice', 'bot-abc123', 'pulse')).toMatchObject({ bond: null, strengthDelta: 0 });
+    });
+});
@@ -0,0 +1,354 @@
+// =============================================================================
+// BotDirector - Puts bots where players are, and takes them away again
+// =============================================================================
+// Bots used to be topped up to a fixed count per realm and wander on their own,
+// wherever players happened to be. The director works per player instead:
+//
+// 1. Every plan interval it counts each player's neighbours (players and bots
+//    within the interest radius). Lonely players get bots spawned just out of
+//    view, anchored to them; crowded players see their bots retire
+// 2. Anchored bots get a role: greeters meet new players, collectors gather
+//    fragments near their player, beacon helpers lead the way to lit beacons
+//    while darkness is active. Retiring bots say goodbye, walk away and are
+//    removed a few seconds later
+// 3. Bot updates share a CPU budget per game tick. Bots over budget wait for
+//    the next tick, picked up round robin so none is starved
+//
+// Whatever a bot does is marked as bot-driven; bots never earn or grant bond,
+// leaderboard or event credit (see isBotId in common/bot.ts).
+// =============================================================================
+
+import type { PlayerConnection, ServerFragment } from '../types.js';
+import { BOT_SIGHT_RADIUS } from '../ServerBot.js';
+import type { ServerBot, BotRole } from '../ServerBot.js';
+
+export const BOT_DIRECTOR_CONFIG = {
+    PLAN_INTERVAL: 1000,            // ms between spawn, retire and role decisions
+    INTEREST_RADIUS: 800,           // A player's neighbourhood
+    TARGET_NEIGHBOURS: 3,           // Players and bots the director wants around each player
+    MAX_BOTS_PER_PLAYER: 2,
+    MAX_BOTS_PER_REALM: 12,
+    MAX_BOTS: 60,
+    SPAWN_DISTANCE: 600,            // Just out of view; bots walk in
+    ESCORT_DISTANCE: 120,           // How close anchored bots keep to their player
+    RETIRE_AFTER: 8000,             // ms a retiring bot walks away before it is removed
+    NEW_PLAYER_LEVEL: 2,            // Players up to this level get a greeter
+    GREET_RANGE: 150,
+    FRAGMENT_SEARCH_RADIUS: 500,    // Around the anchor player
+    COLLECT_RANGE: 40,
+    BEACON_SEARCH_RADIUS: 1200,
+    TICK_BUDGET_MS: 2               // CPU for bot planning and updates per game tick
+};
+
+export type BotDirectorConfig = typeof BOT_DIRECTOR_CONFIG;
+
+/**
+ * The parts of the world the director can touch, provided by WebSocketHandler
+ */
+export interface BotWorld {
+    realms(): string[];                                         // Realms hosted on this process
+    players(realm: string): PlayerConnection[];                 // Connected players, bots excluded
+    player(realm: string, playerId: string): PlayerConnection | undefined;
+    playersNear(realm: string, x: number, y: number, radius: number): PlayerConnection[];
+    bots(): Iterable<ServerBot>;
+    botsNear(realm: string, x: number, y: number, radius: number): ServerBot[];
+    botMoved(bot: ServerBot): void;                             // After the director moved a bot
+    spawnBot(realm: string, x: number, y: number): ServerBot;
+    removeBot(bot: ServerBot): void;
+    fragments(realm: string): Iterable<ServerFragment>;
+    fragmentsNear(realm: string, x: number, y: number, radius: number): ServerFragment[];
+    collectFragment(bot: ServerBot, fragmentId: string): boolean;  // No XP or stats; bot-driven
+    darknessActive(realm: string): boolean;
+    litBeacons(realm: string): Array<{ x: number; y: number }>;
+    random(): number;
+}
+
+export interface BotDirectorOptions {
+    config?: Partial<BotDirectorConfig>;
+    cpuTime?: () => number;                                     // ms, for the tick budget
+}
+
+export interface BotDirectorStats {
+    bots: number;
+    retiring: number;
+    byRole: Record<BotRole, number>;
+    spawned: number;
+    retired: number;
+    fragmentsCollected: number;
+    deferredUpdates: number;                                    // Bot updates pushed to a later tick by the budget
+    lastTickMs: number;
+}
+
+export class BotDirector {
+    private world: BotWorld;
+    private config: BotDirectorConfig;
+    private cpuTime: () => number;
+    private lastPlan = -Infinity;
+    private cursor = 0;
+    private claimedFragments: Map<string, string> = new Map();    // Fragment id -> bot id
+    private counters = { spawned: 0, retired: 0, fragmentsCollected: 0, deferredUpdates: 0 };
+    private lastTickMs = 0;
+
+    constructor(world: BotWorld, options: BotDirectorOptions = {}) {
+        this.world = world;
+        this.config = { ...BOT_DIRECTOR_CONFIG, ...options.config };
+        this.cpuTime = options.cpuTime ?? (() => performance.now());
+    }
+
+    /**
+     * Called every game tick
+     */
+    tick(now: number): void {
+        const started = this.cpuTime();
+
+        if (now - this.lastPlan >= this.config.PLAN_INTERVAL) {
+            this.lastPlan = now;
+            for (const realm of this.world.realms()) {
+                this.plan(realm, now);
+            }
+        }
+
+        const bots = Array.from(this.world.bots());
+        let updated = 0;
+        while (updated < bots.length) {
+            // Always move at least one bot so a slow plan can't freeze them all
+            if (updated > 0 && this.cpuTime() - started >= this.config.TICK_BUDGET_MS) break;
+            this.update(bots[(this.cursor + updated) % bots.length], now);
+            updated++;
+        }
+        this.cursor = bots.length > 0 ? (this.cursor + updated) % bots.length : 0;
+        this.counters.deferredUpdates += bots.length - updated;
+        this.lastTickMs = this.cpuTime() - started;
+    }
+
+    getStats(): BotDirectorStats {
+        const byRole: Record<BotRole, number> = { wanderer: 0, greeter: 0, collector: 0, beacon_helper: 0 };
+        let bots = 0;
+        let retiring = 0;
+        for (const bot of this.world.bots()) {
+            bots++;
+            if (bot.retiringSince !== null) retiring++;
+            else byRole[bot.role]++;
+        }
+        return { bots, retiring, byRole, ...this.counters, lastTickMs: this.lastTickMs };
+    }
+
+    // =========================================================================
+    // Planning
+    // =========================================================================
+
+    private plan(realm: string, now: number): void {
+        const players = this.world.players(realm);
+        const byId = new Map(players.map(p => [p.playerId, p]));
+        const active: ServerBot[] = [];
+        for (const bot of this.world.bots()) {
+            if (bot.realm === realm && bot.retiringSince === null) active.push(bot);
+        }
+
+        // Bots whose player left look for someone else nearby, or leave too
+        for (const bot of active) {
+            if (bot.anchorId && byId.has(bot.anchorId)) continue;
+            const adopter = this.world.playersNear(realm, bot.x, bot.y, this.config.INTEREST_RADIUS)
+                .filter(p => this.anchoredTo(active, p.playerId).length < this.config.MAX_BOTS_PER_PLAYER)
+                .sort((a, b) => this.distance(a, bot) - this.distance(b, bot))[0];
+            if (adopter) {
+                bot.anchorId = adopter.playerId;
+            } else {
+                this.retire(bot, now, bot);
+            }
+        }
+
+        let realmBots = active.filter(bot => bot.retiringSince === null).length;
+
+        for (const player of players) {
+            const mine = this.anchoredTo(active, player.playerId);
+            const neighbours = this.neighbours(player);
+
+            if (neighbours > this.config.TARGET_NEIGHBOURS) {
+                // Crowded: our bots make room, newest arrivals first
+                const surplus = Math.min(neighbours - this.config.TARGET_NEIGHBOURS, mine.length);
+                for (const bot of mine.slice(mine.length - surplus)) {
+                    this.retire(bot, now, player);
+                    realmBots--;
+                }
+            } else if (neighbours < this.config.TARGET_NEIGHBOURS) {
+                const wanted = Math.min(
+                    this.config.TARGET_NEIGHBOURS - neighbours,
+                    this.config.MAX_BOTS_PER_PLAYER - mine.length,
+                    this.config.MAX_BOTS_PER_REALM - realmBots,
+                    this.config.MAX_BOTS - this.countBots()
+                );
+                for (let i = 0; i < wanted; i++) {
+                    const angle = this.world.random() * Math.PI * 2;
+                    const bot = this.world.spawnBot(
+                        realm,
+                        player.x + Math.cos(angle) * this.config.SPAWN_DISTANCE,
+                        player.y + Math.sin(angle) * this.config.SPAWN_DISTANCE
+                    );
+                    bot.anchorId = player.playerId;
+                    active.push(bot);
+                    realmBots++;
+                    this.counters.spawned++;
+                }
+            }
+        }
+
+        const darkness = this.world.darknessActive(realm);
+        const liveFragments = new Set(Array.from(this.world.fragments(realm), f => f.id));
+        // Drop this realm's claims on fragments someone else already picked up
+        for (const bot of active) {
+            const fragmentId = this.claimOf(bot);
+            if (fragmentId && !liveFragments.has(fragmentId)) this.claimedFragments.delete(fragmentId);
+        }
+
+        for (const bot of active) {
+            if (bot.retiringSince !== null) continue;
+            const anchor = byId.get(bot.anchorId!);
+            if (anchor) this.assignRole(bot, anchor, active, darkness);
+        }
+    }
+
+    private assignRole(
+        bot: ServerBot,
+        anchor: PlayerConnection,
+        active: ServerBot[],
+        darkness: boolean
+    ): void {
+        this.releaseClaim(bot);
+
+        if (darkness) {
+            const beacon = this.world.litBeacons(bot.realm)
+                .filter(b => this.distance(b, anchor) <= this.config.BEACON_SEARCH_RADIUS)
+                .sort((a, b) => this.distance(a, anchor) - this.distance(b, anchor))[0];
+            bot.role = 'beacon_helper';
+            bot.goal = beacon ? { x: beacon.x, y: beacon.y } : this.escortPoint(bot, anchor);
+            return;
+        }
+
+        const isNew = anchor.level <= this.config.NEW_PLAYER_LEVEL && !bot.lastGreeted.has(anchor.playerId);
+        const greeted = active.some(other => other.lastGreeted.has(anchor.playerId));
+        const hasGreeter = active.some(other => other !== bot && other.role === 'greeter' && other.anchorId === anchor.playerId);
+        if (isNew && !greeted && !hasGreeter) {
+            bot.role = 'greeter';
+            bot.goal = this.escortPoint(bot, anchor);
+            return;
+        }
+
+        // Only plain fragments: golden and event fragments are left for players
+        const fragment = this.world.fragmentsNear(bot.realm, anchor.x, anchor.y, this.config.FRAGMENT_SEARCH_RADIUS)
+            .filter(f => !f.isGolden && !f.eventId && !this.claimedFragments.has(f.id))
+            .sort((a, b) => this.distance(a, bot) - this.distance(b, bot))[0];
+        if (fragment) {
+            bot.role = 'collector';
+            bot.goal = { x: fragment.x, y: fragment.y };
+            this.claimedFragments.set(fragment.id, bot.id);
+            return;
+        }
+
+        bot.role = 'wanderer';
+        bot.goal = this.escortPoint(bot, anchor);
+    }
+
+    private retire(bot: ServerBot, now: number, from: { x: number; y: number }): void {
+        if (bot.retiringSince !== null) return;
+        this.releaseClaim(bot);
+        bot.retire(now, from);
+        bot.anchorId = null;
+        this.counters.retired++;
+    }
+
+    // =========================================================================
+    // Per-tick behaviour
+    // =========================================================================
+
+    private update(bot: ServerBot, now: number): void {
+        if (bot.retiringSince !== null && now - bot.retiringSince >= this.config.RETIRE_AFTER) {
+            this.world.removeBot(bot);
+            return;
+        }
+
+        bot.update(this.world.playersNear(bot.realm, bot.x, bot.y, BOT_SIGHT_RADIUS));
+        this.world.botMoved(bot);
+        if (bot.retiringSince !== null || !bot.goal) return;
+
+        const anchor = bot.anchorId ? this.world.player(bot.realm, bot.anchorId) : undefined;
+        const atGoal = this.distance(bot, bot.goal) <= this.config.COLLECT_RANGE;
+        switch (bot.role) {
+            case 'greeter': {
+                if (anchor && this.distance(bot, anchor) <= this.config.GREET_RANGE) {
+                    bot.greet(anchor.playerId);
+                }
+                break;
+            }
+            case 'collector': {
+                const fragmentId = this.claimOf(bot);
+                if (atGoal && fragmentId) {
+                    this.claimedFragments.delete(fragmentId);
+                    if (this.world.collectFragment(bot, fragmentId)) {
+                        this.counters.fragmentsCollected++;
+                    }
+                    bot.goal = anchor ? this.escortPoint(bot, anchor) : null;
+                }
+                break;
+            }
+            case 'beacon_helper':
+                // Glow to show the way
+                if (atGoal && bot.pulsing === 0 && this.world.random() < 0.02) {
+                    bot.pulsing = 1;
+                }
+                break;
+        }
+    }
+
+    // =========================================================================
+    // Helpers
+    // =========================================================================
+
+    private neighbours(player: PlayerConnection): number {
+        const radius = this.config.INTEREST_RADIUS;
+        const players = this.world.playersNear(player.realm, player.x, player.y, radius).filter(other => other !== player);
+        const bots = this.world.botsNear(player.realm, player.x, player.y, radius).filter(bot => bot.retiringSince === null);
+        return players.length + bots.length;
+    }
+
+    private anchoredTo(bots: ServerBot[], playerId: string): ServerBot[] {
+        return bots.filter(bot => bot.retiringSince === null && bot.anchorId === playerId);
+    }
+
+    private countBots(): number {
+        let count = 0;
+        for (const bot of this.world.bots()) {
+            if (bot.retiringSince === null) count++;
+        }
+        return count;
+    }
+
+    /**
+     * A spot beside the anchor player, stable per bot so escorts spread out
+     */
+    private escortPoint(bot: ServerBot, anchor: PlayerConnection): { x: number; y: number } {
+        let hash = 0;
+        for (let i = 0; i < bot.id.length; i++) hash = (hash * 31 + bot.id.charCodeAt(i)) | 0;
+        const angle = (Math.abs(hash) % 360) * Math.PI / 180;
+        return {
+            x: anchor.x + Math.cos(angle) * this.config.ESCORT_DISTANCE,
+            y: anchor.y + Math.sin(angle) * this.config.ESCORT_DISTANCE
+        };
+    }
+
+    private claimOf(bot: ServerBot): string | null {
+        for (const [fragmentId, botId] of this.claimedFragments) {
+            if (botId === bot.id) return fragmentId;
+        }
+        return null;
+    }
+
+    private releaseClaim(bot: ServerBot): void {
+        const fragmentId = this.claimOf(bot);
+        if (fragmentId) this.claimedFragments.delete(fragmentId);
+    }
+
+    private distance(a: { x: number; y: number }, b: { x: number; y: number }): number {
+        return Math.hypot(a.x - b.x, a.y - b.y);
+    }
+}
@@ -0,0 +1,12 @@
+// =============================================================================
+// Bot Population Module
+// =============================================================================
+
+export { BotDirector, BOT_DIRECTOR_CONFIG } from './BotDirector.js';
+
+export type {
+    BotWorld,
+    BotDirectorConfig,
+    BotDirectorOptions,
+    BotDirectorStats
+} from './BotDirector.js';
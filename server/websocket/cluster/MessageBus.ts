@@ -0,0 +1,75 @@
+// =============================================================================
+// MessageBus - Pub/sub transport between server processes
+// =============================================================================
+// Shards talk to each other only through this interface, so the transport is
+// pluggable: a deployment spanning machines uses RedisMessageBus, while a
+// single process and the tests use InProcessMessageBus.
+//
+// MESSAGE_BUS picks the transport: `memory` (default) or `redis`, which
+// connects to REDIS_URL. Shards in separate processes only hear each other
+// over a networked bus, so REALM_SHARDS requires `redis`.
+//
+// Messages must survive a JSON round-trip. Delivery is asynchronous and
+// at-most-once; publishers also receive their own messages if subscribed.
+// =============================================================================
+
+import { EventEmitter } from 'events';
+
+export type BusHandler = (message: any) => void;
+
+export interface MessageBus {
+    /** Handlers may subscribe before the bus is connected */
+    connect(): Promise<void>;
+    close(): Promise<void>;
+    publish(channel: string, message: unknown): void;
+    /** Returns an unsubscribe function */
+    subscribe(channel: string, handler: BusHandler): () => void;
+}
+
+export type MessageBusKind = 'memory' | 'redis';
+
+export interface MessageBusConfig {
+    kind: MessageBusKind;
+    redisUrl: string;
+}
+
+export function loadMessageBusConfig(env: NodeJS.ProcessEnv = process.env): MessageBusConfig {
+    return {
+        kind: env.MESSAGE_BUS === 'redis' ? 'redis' : 'memory',
+        redisUrl: env.REDIS_URL || 'redis://localhost:6379'
+    };
+}
+
+/**
+ * Bus for shards that share a process. Messages are serialized like a real
+ * transport would, so no shard can hold a reference into another's state.
+ */
+export class InProcessMessageBus implements MessageBus {
+    private emitter = new EventEmitter();
+
+    constructor() {
+        // One listener per shard per channel
+        this.emitter.setMaxListeners(0);
+    }
+
+    async connect(): Promise<void> {}
+
+    async close(): Promise<void> {}
+
+    publish(channel: string, message: unknown): void {
+        const payload = JSON.stringify(message);
+        setImmediate(() => this.emitter.emit(channel, payload));
+    }
+
+    subscribe(channel: string, handler: BusHandler): () => void {
+        const listener = (payload: string) => {
+            try {
+                handler(JSON.parse(payload));
+            } catch (error) {
+                console.error(`Message bus handler failed on ${channel}:`, error);
+            }
+        };
+        this.emitter.on(channel, listener);
+        return () => this.emitter.off(channel, listener);
+    }
+}
@@ -0,0 +1,102 @@
+// =============================================================================
+// Realm Handoff Tests - two WebSocketHandler shards in one process
+// =============================================================================
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type http from 'http';
+import { WebSocketHandler } from '../WebSocketHandler.js';
+import { InProcessMessageBus, RealmRouter, ShardCoordinator } from './index.js';
+import type { ShardInfo } from './index.js';
+import { sessionService } from '../../services/SessionService.js';
+import { TestClient, listen } from '../testing/index.js';
+import { ManualClock } from '../runtime/index.js';
+
+interface Shard {
+    server: http.Server;
+    handler: WebSocketHandler;
+    url: string;
+}
+
+describe('Realm sharding across WebSocketHandler instances', () => {
+    const bus = new InProcessMessageBus();
+    // Shard A's clock only moves when a test says so
+    const clock = new ManualClock(Date.now());
+    let shardA: Shard;
+    let shardB: Shard;
+    const clients: TestClient[] = [];
+
+    function connect(shard: Shard, playerId: string, realm: string, token?: string): TestClient {
+        const client = new TestClient(shard.url, token ?? sessionService.issueToken(playerId, false).token, realm);
+        clients.push(client);
+        return client;
+    }
+
+    beforeAll(async () => {
+        const a = await listen();
+        const b = await listen();
+        const layout: ShardInfo[] = [
+            { id: 'a', url: a.url, realms: ['genesis'] },
+            { id: 'b', url: b.url, realms: ['void'] }
+        ];
+
+        shardA = { ...a, handler: new WebSocketHandler() };
+        shardB = { ...b, handler: new WebSocketHandler() };
+        shardA.handler.init(a.server, { cluster: new ShardCoordinator(new RealmRouter('a', layout), bus), snapshotStore: null, clock });
+        shardB.handler.init(b.server, { cluster: new ShardCoordinator(new RealmRouter('b', layout), bus), snapshotStore: null });
+    });
+
+    afterAll(async () => {
+        clients.forEach(c => c.close());
+        for (const shard of [shardA, shardB]) {
+            await shard.handler.shutdown();
+            await new Promise(resolve => shard.server.close(resolve));
+        }
+    });
+
+    it('rejects connections for realms hosted by another shard', async () => {
+        const client = connect(shardA, 'misrouted_player', 'void');
+        const error = await new Promise<Error>(resolve => client.ws.once('error', resolve));
+        expect(error.message).toContain('421');
+    });
+
+    it('hands a player off to the shard owning their new realm', async () => {
+        const playerId = 'handoff_player';
+        const client = connect(shardA, playerId, 'genesis');
+        await client.waitFor('initial_state');
+
+        const onA = shardA.handler.players.get(playerId)!;
+        onA.xp = 250;
+        onA.level = 4;
+        onA.playerName = 'Wanderer';
+
+        // Let the movement budget cover the step away from the spawn point
+        clock.advance(100);
+        client.send('player_update', { x: 4010, y: 3990, realm: 'void', realmChange: true });
+        const handoff = await client.waitFor('realm_handoff');
+        expect(handoff).toMatchObject({ realm: 'void', shardId: 'b', url: shardB.url });
+        expect(await client.waitForClose()).toBe(4010);
+
+        // Reconnect where the server pointed us, with the token it issued
+        const resumed = connect(shardB, playerId, 'void', handoff.session.token);
+        const initial = await resumed.waitFor('initial_state');
+        expect(initial).toMatchObject({ playerId, realm: 'void' });
+
+        const onB = shardB.handler.players.get(playerId)!;
+        expect(onB).toMatchObject({ realm: 'void', x: 4010, y: 3990, xp: 250, level: 4, playerName: 'Wanderer' });
+        expect(shardA.handler.players.has(playerId)).toBe(false);
+    });
+
+    it('delivers whispers to players on another shard', async () => {
+        const sender = connect(shardA, 'whisper_sender', 'genesis');
+        const target = connect(shardB, 'whisper_target', 'void');
+        await Promise.all([sender.waitFor('initial_state'), target.waitFor('initial_state')]);
+
+        sender.send('whisper', { targetId: 'whisper_target', message: 'hello across shards' });
+
+        expect(await target.waitFor('whisper_received')).toMatchObject({
+            fromId: 'whisper_sender',
+            message: 'hello across shards'
+        });
+        expect(await sender.waitFor('whisper_sent')).toMatchObject({ toId: 'whisper_target' });
+    });
+});
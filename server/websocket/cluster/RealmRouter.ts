@@ -0,0 +1,102 @@
+// =============================================================================
+// RealmRouter - Which server process (shard) owns which realm
+// =============================================================================
+// Every realm is simulated by exactly one shard. Connections are routed to the
+// owner of their realm and hand off to another shard when they change realm.
+//
+// Configured from the environment:
+//   SHARD_ID=shard-a
+//   REALM_SHARDS=[{"id":"shard-a","url":"wss://a.example.com/ws","realms":["genesis","nebula"]},
+//                 {"id":"shard-b","url":"wss://b.example.com/ws","realms":["void"]}]
+//
+// Realms not listed belong to the first shard. Without REALM_SHARDS the
+// process runs standalone and owns every realm. Shards reach each other over
+// Redis (MESSAGE_BUS=redis, REDIS_URL); see MessageBus.ts.
+// =============================================================================
+
+import { z } from 'zod';
+
+export interface ShardInfo {
+    id: string;
+    url: string | null;         // WebSocket URL clients connect to (null: same server)
+    realms: string[];
+}
+
+export const STANDALONE_SHARD_ID = 'local';
+
+const shardListSchema = z.array(z.object({
+    id: z.string().min(1).max(64),
+    url: z.string().url().nullable().default(null),
+    realms: z.array(z.string().min(1).max(32)).default([])
+})).min(1);
+
+export class RealmRouter {
+    private shards: Map<string, ShardInfo> = new Map();
+    private realmOwners: Map<string, ShardInfo> = new Map();
+    private defaultShard: ShardInfo;
+
+    constructor(readonly localShardId: string, shards: ShardInfo[]) {
+        if (shards.length === 0) {
+            throw new Error('RealmRouter needs at least one shard');
+        }
+
+        for (const shard of shards) {
+            this.shards.set(shard.id, shard);
+            for (const realm of shard.realms) {
+                if (this.realmOwners.has(realm)) {
+                    throw new Error(`Realm ${realm} is assigned to more than one shard`);
+                }
+                this.realmOwners.set(realm, shard);
+            }
+        }
+
+        if (!this.shards.has(localShardId)) {
+            throw new Error(`Unknown local shard: ${localShardId}`);
+        }
+
+        this.defaultShard = shards[0];
+    }
+
+    /**
+     * A single shard owning every realm
+     */
+    static standalone(): RealmRouter {
+        return new RealmRouter(STANDALONE_SHARD_ID, [{ id: STANDALONE_SHARD_ID, url: null, realms: [] }]);
+    }
+
+    /**
+     * Build from SHARD_ID / REALM_SHARDS, falling back to standalone
+     */
+    static fromEnv(env: NodeJS.ProcessEnv = process.env): RealmRouter {
+        if (!env.REALM_SHARDS) return RealmRouter.standalone();
+
+        try {
+            const shards = shardListSchema.parse(JSON.parse(env.REALM_SHARDS)) as ShardInfo[];
+            const localShardId = env.SHARD_ID || shards[0].id;
+            return new RealmRouter(localShardId, shards);
+        } catch (error) {
+            console.error('⚠️ Invalid REALM_SHARDS - running standalone:', error);
+            return RealmRouter.standalone();
+        }
+    }
+
+    getOwner(realm: string): ShardInfo {
+        return this.realmOwners.get(realm) ?? this.defaultShard;
+    }
+
+    isLocal(realm: string): boolean {
+        return this.getOwner(realm).id === this.localShardId;
+    }
+
+    getShard(shardId: string): ShardInfo | null {
+        return this.shards.get(shardId) ?? null;
+    }
+
+    getShards(): ShardInfo[] {
+        return Array.from(this.shards.values());
+    }
+
+    isStandalone(): boolean {
+        return this.shards.size === 1;
+    }
+}
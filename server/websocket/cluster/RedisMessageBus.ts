@@ -0,0 +1,96 @@
+// =============================================================================
+// RedisMessageBus - MessageBus over Redis pub/sub, for shards on many machines
+// =============================================================================
+// Each bus holds two connections: Redis reserves a subscribing connection for
+// pub/sub, so publishing goes through a second one. Channels are subscribed
+// on Redis once, however many local handlers listen on them.
+//
+// Handlers may subscribe before `connect`; their channels are subscribed on
+// Redis as the bus connects. Messages published while the bus is not
+// connected are dropped, in keeping with at-most-once delivery.
+// =============================================================================
+
+import { createClient } from 'redis';
+import type { MessageBus, BusHandler } from './MessageBus.js';
+
+type RedisClient = ReturnType<typeof createClient>;
+
+export class RedisMessageBus implements MessageBus {
+    private publisher: RedisClient;
+    private subscriber: RedisClient;
+    private handlers: Map<string, Set<BusHandler>> = new Map();
+    private remoteChannels: Set<string> = new Set();     // Subscribed (or being subscribed) on Redis
+
+    constructor(url: string) {
+        this.publisher = createClient({ url });
+        this.subscriber = this.publisher.duplicate();
+        for (const client of [this.publisher, this.subscriber]) {
+            client.on('error', (error) => console.error('Redis message bus error:', error));
+        }
+    }
+
+    async connect(): Promise<void> {
+        await Promise.all([this.publisher.connect(), this.subscriber.connect()]);
+        for (const channel of this.handlers.keys()) {
+            await this.subscribeRemote(channel);
+        }
+    }
+
+    async close(): Promise<void> {
+        this.remoteChannels.clear();
+        const open = [this.publisher, this.subscriber].filter(client => client.isOpen);
+        await Promise.all(open.map(client => client.close()));
+    }
+
+    publish(channel: string, message: unknown): void {
+        if (!this.publisher.isOpen) {
+            console.warn(`Message bus not connected - dropped message on ${channel}`);
+            return;
+        }
+        this.publisher.publish(channel, JSON.stringify(message)).catch(error =>
+            console.error(`Message bus publish failed on ${channel}:`, error)
+        );
+    }
+
+    subscribe(channel: string, handler: BusHandler): () => void {
+        let handlers = this.handlers.get(channel);
+        if (!handlers) {
+            handlers = new Set();
+            this.handlers.set(channel, handlers);
+            if (this.subscriber.isOpen) {
+                this.subscribeRemote(channel).catch(error =>
+                    console.error(`Message bus subscribe failed on ${channel}:`, error)
+                );
+            }
+        }
+        handlers.add(handler);
+
+        return () => {
+            handlers!.delete(handler);
+            if (handlers!.size > 0 || this.handlers.get(channel) !== handlers) return;
+            this.handlers.delete(channel);
+            if (this.remoteChannels.delete(channel) && this.subscriber.isOpen) {
+                this.subscriber.unsubscribe(channel).catch(error =>
+                    console.error(`Message bus unsubscribe failed on ${channel}:`, error)
+                );
+            }
+        };
+    }
+
+    private async subscribeRemote(channel: string): Promise<void> {
+        if (this.remoteChannels.has(channel)) return;
+        this.remoteChannels.add(channel);
+        await this.subscriber.subscribe(channel, (payload: string) => this.dispatch(channel, payload));
+    }
+
+    private dispatch(channel: string, payload: string): void {
+        for (const handler of Array.from(this.handlers.get(channel) ?? [])) {
+            try {
+                // Parsed per handler, so no handler can change another's copy
+                handler(JSON.parse(payload));
+            } catch (error) {
+                console.error(`Message bus handler failed on ${channel}:`, error);
+            }
+        }
+    }
+}
@@ -0,0 +1,246 @@
+// =============================================================================
+// ShardCoordinator Tests - realm routing, cross-shard delivery, handoffs
+// =============================================================================
+
+import { describe, it, expect, afterEach, beforeAll, afterAll } from 'vitest';
+import { InProcessMessageBus } from './MessageBus.js';
+import { RedisMessageBus } from './RedisMessageBus.js';
+import { RealmRouter } from './RealmRouter.js';
+import { ShardCoordinator } from './ShardCoordinator.js';
+import { PubSubServer } from '../testing/PubSubServer.js';
+import type { MessageBus } from './MessageBus.js';
+import type { LocalShard, PlayerLocation } from './ShardCoordinator.js';
+
+const shards = [
+    { id: 'a', url: 'ws://a.test/ws', realms: ['genesis', 'nebula'] },
+    { id: 'b', url: 'ws://b.test/ws', realms: ['void'] }
+];
+
+/**
+ * A fake local handler with a fixed set of connected players
+ */
+function createShard(shardId: string, bus: MessageBus, players: Array<Omit<PlayerLocation, 'shardId'>>) {
+    const received: Array<{ playerId: string | null; message: any }> = [];
+    const local: LocalShard = {
+        deliver: (playerId, message) => {
+            if (!players.some(p => p.playerId === playerId)) return false;
+            received.push({ playerId, message });
+            return true;
+        },
+        broadcast: (message) => received.push({ playerId: null, message }),
+        locate: (playerId) => players.find(p => p.playerId === playerId) ?? null
+    };
+
+    const coordinator = new ShardCoordinator(new RealmRouter(shardId, shards), bus);
+    coordinator.attach(local);
+    return { coordinator, received };
+}
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 10));
+
+async function until(condition: () => boolean, timeout = 2000): Promise<void> {
+    const deadline = Date.now() + timeout;
+    while (!condition()) {
+        if (Date.now() > deadline) throw new Error('Timed out waiting for the bus');
+        await flush();
+    }
+}
+
+describe('RealmRouter', () => {
+    it('assigns listed realms to their shard and the rest to the first shard', () => {
+        const router = new RealmRouter('b', shards);
+
+        expect(router.getOwner('void').id).toBe('b');
+        expect(router.getOwner('nebula').id).toBe('a');
+        expect(router.getOwner('crystal').id).toBe('a');
+        expect(router.isLocal('void')).toBe(true);
+        expect(router.isLocal('genesis')).toBe(false);
+    });
+
+    it('rejects a realm assigned to two shards', () => {
+        expect(() => new RealmRouter('a', [
+            { id: 'a', url: null, realms: ['void'] },
+            { id: 'b', url: null, realms: ['void'] }
+        ])).toThrow();
+    });
+
+    it('runs standalone without REALM_SHARDS or with an invalid layout', () => {
+        expect(RealmRouter.fromEnv({}).isStandalone()).toBe(true);
+        expect(RealmRouter.fromEnv({ REALM_SHARDS: 'not json' }).isStandalone()).toBe(true);
+
+        const router = RealmRouter.fromEnv({ SHARD_ID: 'b', REALM_SHARDS: JSON.stringify(shards) });
+        expect(router.localShardId).toBe('b');
+        expect(router.isLocal('void')).toBe(true);
+    });
+});
+
+describe('ShardCoordinator', () => {
+    let coordinators: ShardCoordinator[] = [];
+
+    afterEach(() => {
+        coordinators.forEach(c => c.detach());
+        coordinators = [];
+    });
+
+    function setup() {
+        const bus = new InProcessMessageBus();
+        const a = createShard('a', bus, [{ playerId: 'alice', playerName: 'Alice', realm: 'genesis', x: 10, y: 20 }]);
+        const b = createShard('b', bus, [{ playerId: 'bob', playerName: 'Bob', realm: 'void', x: 30, y: 40 }]);
+        coordinators = [a.coordinator, b.coordinator];
+        return { a, b };
+    }
+
+    it('delivers to local players directly and remote players over the bus', async () => {
+        const { a, b } = setup();
+
+        a.coordinator.sendToPlayers(['alice', 'bob', 'nobody'], { type: 'guild_chat_message' });
+        expect(a.received).toEqual([{ playerId: 'alice', message: { type: 'guild_chat_message' } }]);
+
+        await flush();
+        expect(b.received).toEqual([{ playerId: 'bob', message: { type: 'guild_chat_message' } }]);
+        expect(a.received).toHaveLength(1);
+    });
+
+    it('broadcasts to the other shards only', async () => {
+        const { a, b } = setup();
+
+        a.coordinator.broadcast({ type: 'announcement' });
+        await flush();
+
+        expect(a.received).toHaveLength(0);
+        expect(b.received).toEqual([{ playerId: null, message: { type: 'announcement' } }]);
+    });
+
+    it('locates players on any shard', async () => {
+        const { a } = setup();
+
+        expect(await a.coordinator.locatePlayer('alice')).toMatchObject({ realm: 'genesis', shardId: 'a' });
+        expect(await a.coordinator.locatePlayer('bob')).toEqual({
+            playerId: 'bob', playerName: 'Bob', realm: 'void', x: 30, y: 40, shardId: 'b'
+        });
+    });
+
+    it('resolves an unknown player to null after the timeout', async () => {
+        const { a } = setup();
+        (a.coordinator as any).LOCATE_TIMEOUT = 20;
+
+        expect(await a.coordinator.locatePlayer('nobody')).toBeNull();
+    });
+
+    it('hands a player off to the owner of the new realm', async () => {
+        const { a, b } = setup();
+        const state = { playerId: 'alice', playerName: 'Alice', realm: 'void', x: 1, y: 2, color: 90, xp: 120, level: 3 };
+
+        const owner = a.coordinator.handOff(state);
+        expect(owner).toMatchObject({ id: 'b', url: 'ws://b.test/ws' });
+
+        await flush();
+        expect(a.coordinator.claimHandoff('alice')).toBeNull();
+        expect(b.coordinator.claimHandoff('alice')).toEqual({ ...state, fromShard: 'a' });
+
+        // Claimed once
+        expect(b.coordinator.claimHandoff('alice')).toBeNull();
+    });
+
+    it('drops handoffs the client never claimed', async () => {
+        const { a, b } = setup();
+
+        a.coordinator.handOff({ playerId: 'alice', playerName: 'Alice', realm: 'void', x: 0, y: 0, color: 0, xp: 0, level: 1 });
+        await flush();
+
+        expect(b.coordinator.claimHandoff('alice', Date.now() + b.coordinator.HANDOFF_TTL + 1)).toBeNull();
+    });
+});
+
+describe('ShardCoordinator over Redis', () => {
+    let pubsub: PubSubServer | null = null;
+    let url: string;
+    let coordinators: ShardCoordinator[] = [];
+
+    beforeAll(async () => {
+        if (process.env.TEST_REDIS_URL) {
+            url = process.env.TEST_REDIS_URL;
+        } else {
+            pubsub = await PubSubServer.start();
+            url = pubsub.url;
+        }
+    });
+
+    afterAll(async () => {
+        await pubsub?.stop();
+    });
+
+    afterEach(async () => {
+        for (const coordinator of coordinators) {
+            coordinator.detach();
+            await coordinator.close();
+        }
+        coordinators = [];
+    });
+
+    // Each shard has its own bus and connections, as separate processes would
+    async function setup() {
+        const a = createShard('a', new RedisMessageBus(url), [{ playerId: 'alice', playerName: 'Alice', realm: 'genesis', x: 10, y: 20 }]);
+        const b = createShard('b', new RedisMessageBus(url), [{ playerId: 'bob', playerName: 'Bob', realm: 'void', x: 30, y: 40 }]);
+        coordinators = [a.coordinator, b.coordinator];
+        await Promise.all(coordinators.map(c => c.connect()));
+        return { a, b };
+    }
+
+    it('delivers, broadcasts and locates across the two buses', async () => {
+        const { a, b } = await setup();
+
+        a.coordinator.sendToPlayers(['alice', 'bob'], { type: 'guild_chat_message' });
+        a.coordinator.broadcast({ type: 'announcement' });
+        await until(() => b.received.length === 2);
+        expect(b.received).toEqual([
+            { playerId: 'bob', message: { type: 'guild_chat_message' } },
+            { playerId: null, message: { type: 'announcement' } }
+        ]);
+        expect(a.received).toEqual([{ playerId: 'alice', message: { type: 'guild_chat_message' } }]);
+
+        expect(await b.coordinator.locatePlayer('alice')).toMatchObject({ realm: 'genesis', x: 10, y: 20, shardId: 'a' });
+    });
+
+    it('hands a player off to the shard on the other bus', async () => {
+        const { a, b } = await setup();
+        const state = { playerId: 'alice', playerName: 'Alice', realm: 'void', x: 1, y: 2, color: 90, xp: 120, level: 3 };
+
+        a.coordinator.handOff(state);
+        let claimed = null;
+        await until(() => (claimed = b.coordinator.claimHandoff('alice')) !== null);
+        expect(claimed).toEqual({ ...state, fromShard: 'a' });
+    });
+
+    it('stops hearing a channel once the coordinator detaches', async () => {
+        const { a, b } = await setup();
+
+        b.coordinator.detach();
+        a.coordinator.broadcast({ type: 'announcement' });
+        await new Promise(resolve => setTimeout(resolve, 50));
+
+        expect(b.received).toEqual([]);
+    });
+});
+
+describe('ShardCoordinator.fromEnv', () => {
+    it('refuses a realm layout on the in-process bus', () => {
+        expect(() => ShardCoordinator.fromEnv({ REALM_SHARDS: JSON.stringify(shards) }))
+            .toThrow(/MESSAGE_BUS=redis/);
+        expect(() => ShardCoordinator.fromEnv({ MESSAGE_BUS: 'memory', REALM_SHARDS: JSON.stringify(shards) }))
+            .toThrow(/MESSAGE_BUS=redis/);
+    });
+
+    it('runs standalone in process, and sharded over Redis', async () => {
+        expect(ShardCoordinator.fromEnv({}).router.isStandalone()).toBe(true);
+
+        const sharded = ShardCoordinator.fromEnv({
+            MESSAGE_BUS: 'redis',
+            REDIS_URL: 'redis://127.0.0.1:1',
+            SHARD_ID: 'b',
+            REALM_SHARDS: JSON.stringify(shards)
+        });
+        expect(sharded.shardId).toBe('b');
+        await sharded.close();
+    });
+});
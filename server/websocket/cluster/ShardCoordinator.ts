@@ -0,0 +1,257 @@
+// =============================================================================
+// ShardCoordinator - Cross-shard messaging for one server process
+// =============================================================================
+// Each WebSocketHandler owns one coordinator. Features that reach players in
+// other realms go through it instead of the local connection map:
+//
+// - sendToPlayers: whispers, guild chat, friend notifications
+// - broadcast: global announcements
+// - locatePlayer: friend teleports (realm + position of a remote player)
+// - handOff / claimHandoff: a player changing to a realm owned by another
+//   shard. The old shard publishes the player's state to the new owner, the
+//   client reconnects there and the new shard restores it on connect.
+//
+// Channels:
+//   cluster:deliver    { origin, playerIds, message }   every shard
+//   cluster:broadcast  { origin, message }              every shard
+//   cluster:locate     { origin, requestId, playerId }  every shard
+//   shard:<id>         ShardMessage                     one shard
+// =============================================================================
+
+import crypto from 'crypto';
+import { InProcessMessageBus, loadMessageBusConfig } from './MessageBus.js';
+import { RedisMessageBus } from './RedisMessageBus.js';
+import { RealmRouter } from './RealmRouter.js';
+import type { MessageBus } from './MessageBus.js';
+import type { ShardInfo } from './RealmRouter.js';
+
+export interface PlayerLocation {
+    playerId: string;
+    playerName: string;
+    realm: string;
+    x: number;
+    y: number;
+    shardId: string;
+}
+
+/**
+ * Connection state carried across a realm handoff
+ */
+export interface HandoffState {
+    playerId: string;
+    playerName: string;
+    realm: string;
+    x: number;
+    y: number;
+    color: number;
+    xp: number;
+    level: number;
+    fromShard?: string;
+}
+
+/**
+ * Hooks into the local WebSocketHandler
+ */
+export interface LocalShard {
+    /** Send to a connected player; false if they are not on this shard */
+    deliver(playerId: string, message: any): boolean;
+    /** Send to every player on this shard */
+    broadcast(message: any): void;
+    locate(playerId: string): Omit<PlayerLocation, 'shardId'> | null;
+}
+
+interface ShardMessage {
+    kind: 'handoff' | 'located';
+    state?: HandoffState;
+    requestId?: string;
+    location?: PlayerLocation | null;
+}
+
+interface PendingHandoff {
+    state: HandoffState;
+    expiresAt: number;
+}
+
+interface PendingLocate {
+    resolve: (location: PlayerLocation | null) => void;
+    timer: NodeJS.Timeout;
+}
+
+export class ShardCoordinator {
+    private local: LocalShard | null = null;
+    private unsubscribers: Array<() => void> = [];
+    private pendingHandoffs: Map<string, PendingHandoff> = new Map();
+    private pendingLocates: Map<string, PendingLocate> = new Map();
+
+    readonly HANDOFF_TTL = 30000;       // Client must reconnect within 30s
+    readonly LOCATE_TIMEOUT = 1000;
+
+    constructor(readonly router: RealmRouter, private bus: MessageBus) {}
+
+    /**
+     * Build from the environment: the shard layout from REALM_SHARDS and the
+     * bus from MESSAGE_BUS. Throws when REALM_SHARDS is set on the in-process
+     * bus, which would leave every shard deaf to the others.
+     */
+    static fromEnv(env: NodeJS.ProcessEnv = process.env): ShardCoordinator {
+        const config = loadMessageBusConfig(env);
+        if (env.REALM_SHARDS && config.kind !== 'redis') {
+            throw new Error('REALM_SHARDS needs a networked message bus - set MESSAGE_BUS=redis and REDIS_URL');
+        }
+        const bus = config.kind === 'redis' ? new RedisMessageBus(config.redisUrl) : new InProcessMessageBus();
+        return new ShardCoordinator(RealmRouter.fromEnv(env), bus);
+    }
+
+    get shardId(): string {
+        return this.router.localShardId;
+    }
+
+    /**
+     * Connect the bus; subscriptions made by attach() take effect from here
+     */
+    connect(): Promise<void> {
+        return this.bus.connect();
+    }
+
+    close(): Promise<void> {
+        return this.bus.close();
+    }
+
+    /**
+     * Start serving cluster traffic for a local handler
+     */
+    attach(local: LocalShard): void {
+        this.detach();
+        this.local = local;
+
+        this.unsubscribers.push(
+            this.bus.subscribe('cluster:deliver', (msg) => {
+                if (msg.origin === this.shardId) return;
+                for (const playerId of msg.playerIds) {
+                    this.local?.deliver(playerId, msg.message);
+                }
+            }),
+            this.bus.subscribe('cluster:broadcast', (msg) => {
+                if (msg.origin === this.shardId) return;
+                this.local?.broadcast(msg.message);
+            }),
+            this.bus.subscribe('cluster:locate', (msg) => {
+                if (msg.origin === this.shardId) return;
+                const found = this.local?.locate(msg.playerId);
+                // Only the shard holding the player answers
+                if (found) {
+                    this.bus.publish(`shard:${msg.origin}`, {
+                        kind: 'located',
+                        requestId: msg.requestId,
+                        location: { ...found, shardId: this.shardId }
+                    } as ShardMessage);
+                }
+            }),
+            this.bus.subscribe(`shard:${this.shardId}`, (msg: ShardMessage) => {
+                this.handleShardMessage(msg);
+            })
+        );
+    }
+
+    detach(): void {
+        for (const unsubscribe of this.unsubscribers) unsubscribe();
+        this.unsubscribers = [];
+        this.local = null;
+
+        for (const pending of this.pendingLocates.values()) {
+            clearTimeout(pending.timer);
+            pending.resolve(null);
+        }
+        this.pendingLocates.clear();
+    }
+
+    /**
+     * Send a message to players wherever they are connected
+     */
+    sendToPlayers(playerIds: string[], message: any): void {
+        const remote = playerIds.filter(playerId => !this.local?.deliver(playerId, message));
+        if (remote.length === 0 || this.router.isStandalone()) return;
+
+        this.bus.publish('cluster:deliver', { origin: this.shardId, playerIds: remote, message });
+    }
+
+    /**
+     * Send a message to players on every other shard
+     */
+    broadcast(message: any): void {
+        if (this.router.isStandalone()) return;
+        this.bus.publish('cluster:broadcast', { origin: this.shardId, message });
+    }
+
+    /**
+     * Find an online player on any shard (null if offline or no reply in time)
+     */
+    locatePlayer(playerId: string): Promise<PlayerLocation | null> {
+        const found = this.local?.locate(playerId);
+        if (found) return Promise.resolve({ ...found, shardId: this.shardId });
+        if (this.router.isStandalone()) return Promise.resolve(null);
+
+        const requestId = crypto.randomBytes(8).toString('hex');
+        return new Promise((resolve) => {
+            const timer = setTimeout(() => {
+                this.pendingLocates.delete(requestId);
+                resolve(null);
+            }, this.LOCATE_TIMEOUT);
+
+            this.pendingLocates.set(requestId, { resolve, timer });
+            this.bus.publish('cluster:locate', { origin: this.shardId, requestId, playerId });
+        });
+    }
+
+    /**
+     * Send a player's state to the shard owning their new realm.
+     * Returns that shard so the client can be pointed at it.
+     */
+    handOff(state: HandoffState): ShardInfo {
+        const owner = this.router.getOwner(state.realm);
+        const message: ShardMessage = { kind: 'handoff', state: { ...state, fromShard: this.shardId } };
+        this.bus.publish(`shard:${owner.id}`, message);
+        return owner;
+    }
+
+    /**
+     * Take the pending handoff for a connecting player, if any
+     */
+    claimHandoff(playerId: string, now: number = Date.now()): HandoffState | null {
+        this.pruneHandoffs(now);
+
+        const pending = this.pendingHandoffs.get(playerId);
+        if (!pending) return null;
+
+        this.pendingHandoffs.delete(playerId);
+        return pending.state;
+    }
+
+    private handleShardMessage(msg: ShardMessage): void {
+        if (msg.kind === 'handoff' && msg.state) {
+            this.pruneHandoffs(Date.now());
+            this.pendingHandoffs.set(msg.state.playerId, {
+                state: msg.state,
+                expiresAt: Date.now() + this.HANDOFF_TTL
+            });
+            return;
+        }
+
+        if (msg.kind === 'located' && msg.requestId) {
+            const pending = this.pendingLocates.get(msg.requestId);
+            if (!pending) return;       // Timed out or already answered
+
+            clearTimeout(pending.timer);
+            this.pendingLocates.delete(msg.requestId);
+            pending.resolve(msg.location ?? null);
+        }
+    }
+
+    private pruneHandoffs(now: number): void {
+        for (const [playerId, pending] of this.pendingHandoffs) {
+            if (now >= pending.expiresAt) {
+                this.pendingHandoffs.delete(playerId);
+            }
+        }
+    }
+}
@@ -0,0 +1,12 @@
+// =============================================================================
+// Cluster Module - Realm sharding across server processes
+// =============================================================================
+
+export { InProcessMessageBus, loadMessageBusConfig } from './MessageBus.js';
+export { RedisMessageBus } from './RedisMessageBus.js';
+export { RealmRouter, STANDALONE_SHARD_ID } from './RealmRouter.js';
+export { ShardCoordinator } from './ShardCoordinator.js';
+
+export type { MessageBus, BusHandler, MessageBusKind, MessageBusConfig } from './MessageBus.js';
+export type { ShardInfo } from './RealmRouter.js';
+export type { PlayerLocation, HandoffState, LocalShard } from './ShardCoordinator.js';
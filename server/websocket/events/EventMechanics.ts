@@ -0,0 +1,184 @@
+// =============================================================================
+// EventMechanics - What each world event `mechanics` tag does in the world
+// =============================================================================
+// Event types in WorldEventSchedulerService list mechanics tags. The tags
+// below have a server-side behaviour that runs from the game loop:
+//
+// - collectibles:  event fragments spawn near players (or inside the event
+//                  area); picking one up counts as a contribution
+// - passive_gain:  players inside the event area earn XP every interval
+// - warmth:        darkness is forced over the realm for the whole event;
+//                  players huddled near someone else earn contribution
+//
+// Tags without an entry here (timed, ambient, cooperative, ...) describe the
+// event for clients and have no behaviour of their own.
+// =============================================================================
+
+import type { PlayerConnection, ServerFragment } from '../types.js';
+
+export interface ActiveWorldEvent {
+    eventId: string;
+    eventType: string;
+    realm: string | null;           // null = every realm on this process
+    mechanics: string[];
+    startTime: number;
+    endTime: number;
+    position?: { x: number; y: number };
+    radius?: number;
+}
+
+/**
+ * The parts of the world mechanics can touch, provided by WebSocketHandler
+ */
+export interface EventWorld {
+    realms(): string[];                                 // Realms hosted on this process
+    players(realm: string): PlayerConnection[];         // Connected players, bots excluded
+    spawnCollectible(realm: string, eventId: string, x: number, y: number): ServerFragment | null;
+    removeCollectible(realm: string, fragmentId: string): void;
+    grantXp(player: PlayerConnection, amount: number, eventId: string): void;
+    forceDarkness(realm: string, durationMs: number): void;
+    clearDarkness(realm: string): void;
+    random(): number;
+}
+
+/**
+ * Per-event state shared by its mechanics
+ */
+export interface EventRun {
+    event: ActiveWorldEvent;
+    realms: string[];                                   // Realms the event covers right now
+    counters: Record<string, number>;                   // Progress counters, e.g. collected
+    collectibles: Map<string, string>;                  // Live event fragment id -> realm
+    lastRun: Map<string, number>;                       // Mechanic tag -> last interval run
+    contribute(playerId: string, amount: number, counter: string): void;
+}
+
+export interface EventMechanic {
+    start?(run: EventRun, world: EventWorld, now: number): void;
+    tick?(run: EventRun, world: EventWorld, now: number): void;
+    collect?(run: EventRun, world: EventWorld, player: PlayerConnection, fragment: ServerFragment): void;
+    end?(run: EventRun, world: EventWorld, now: number): void;
+}
+
+export const EVENT_MECHANIC_CONFIG = {
+    DEFAULT_RADIUS: 1000,             // Event area when an event has a position but no radius
+    COLLECTIBLE_SPAWN_INTERVAL: 3000,
+    COLLECTIBLES_PER_REALM: 20,       // Live event fragments per realm
+    COLLECTIBLE_SPAWN_RADIUS: 600,    // Around a random player when the event has no position
+    PASSIVE_GAIN_INTERVAL: 10000,
+    PASSIVE_GAIN_XP: 5,
+    WARMTH_INTERVAL: 10000,
+    WARMTH_RANGE: 300                 // How close another player must be to share warmth
+};
+
+/**
+ * Whether a point is inside the event area; events without a position cover the realm
+ */
+export function isInEventArea(event: ActiveWorldEvent, x: number, y: number): boolean {
+    if (!event.position) return true;
+    const radius = event.radius ?? EVENT_MECHANIC_CONFIG.DEFAULT_RADIUS;
+    return Math.hypot(x - event.position.x, y - event.position.y) <= radius;
+}
+
+/**
+ * True once per interval for a mechanic of a run
+ */
+function due(run: EventRun, tag: string, interval: number, now: number): boolean {
+    const last = run.lastRun.get(tag) ?? run.event.startTime;
+    if (now - last < interval) return false;
+    run.lastRun.set(tag, now);
+    return true;
+}
+
+const collectibles: EventMechanic = {
+    tick(run, world, now) {
+        if (!due(run, 'collectibles', EVENT_MECHANIC_CONFIG.COLLECTIBLE_SPAWN_INTERVAL, now)) return;
+
+        for (const realm of run.realms) {
+            const players = world.players(realm);
+            if (players.length === 0) continue;
+
+            const live = Array.from(run.collectibles.values()).filter(r => r === realm).length;
+            if (live >= EVENT_MECHANIC_CONFIG.COLLECTIBLES_PER_REALM) continue;
+
+            let x: number;
+            let y: number;
+            const angle = world.random() * Math.PI * 2;
+            if (run.event.position) {
+                const distance = Math.sqrt(world.random()) * (run.event.radius ?? EVENT_MECHANIC_CONFIG.DEFAULT_RADIUS);
+                x = run.event.position.x + Math.cos(angle) * distance;
+                y = run.event.position.y + Math.sin(angle) * distance;
+            } else {
+                const near = players[Math.floor(world.random() * players.length)];
+                const distance = world.random() * EVENT_MECHANIC_CONFIG.COLLECTIBLE_SPAWN_RADIUS;
+                x = near.x + Math.cos(angle) * distance;
+                y = near.y + Math.sin(angle) * distance;
+            }
+
+            const fragment = world.spawnCollectible(realm, run.event.eventId, x, y);
+            if (fragment) {
+                run.collectibles.set(fragment.id, realm);
+                run.counters.spawned = (run.counters.spawned || 0) + 1;
+            }
+        }
+    },
+
+    collect(run, _world, player, fragment) {
+        run.collectibles.delete(fragment.id);
+        run.contribute(player.playerId, fragment.value, 'collected');
+    },
+
+    end(run, world) {
+        for (const [fragmentId, realm] of run.collectibles) {
+            world.removeCollectible(realm, fragmentId);
+        }
+        run.collectibles.clear();
+    }
+};
+
+const passiveGain: EventMechanic = {
+    tick(run, world, now) {
+        if (!due(run, 'passive_gain', EVENT_MECHANIC_CONFIG.PASSIVE_GAIN_INTERVAL, now)) return;
+
+        for (const realm of run.realms) {
+            for (const player of world.players(realm)) {
+                if (!isInEventArea(run.event, player.x, player.y)) continue;
+                world.grantXp(player, EVENT_MECHANIC_CONFIG.PASSIVE_GAIN_XP, run.event.eventId);
+                run.contribute(player.playerId, 1, 'passiveTicks');
+            }
+        }
+    }
+};
+
+const warmth: EventMechanic = {
+    start(run, world, now) {
+        for (const realm of run.realms) {
+            world.forceDarkness(realm, Math.max(0, run.event.endTime - now));
+        }
+    },
+
+    tick(run, world, now) {
+        if (!due(run, 'warmth', EVENT_MECHANIC_CONFIG.WARMTH_INTERVAL, now)) return;
+
+        for (const realm of run.realms) {
+            const players = world.players(realm).filter(p => isInEventArea(run.event, p.x, p.y));
+            for (const player of players) {
+                const huddled = players.some(other => other !== player
+                    && Math.hypot(other.x - player.x, other.y - player.y) <= EVENT_MECHANIC_CONFIG.WARMTH_RANGE);
+                if (huddled) run.contribute(player.playerId, 1, 'warmthShared');
+            }
+        }
+    },
+
+    end(run, world) {
+        for (const realm of run.realms) {
+            world.clearDarkness(realm);
+        }
+    }
+};
+
+export const EVENT_MECHANICS: Record<string, EventMechanic> = {
+    collectibles,
+    passive_gain: passiveGain,
+    warmth
+};
@@ -0,0 +1,138 @@
+// =============================================================================
+// WorldEventRuntime Tests - event mechanics driving progress from the world
+// =============================================================================
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { WorldEventRuntime } from './WorldEventRuntime.js';
+import { EVENT_MECHANIC_CONFIG } from './EventMechanics.js';
+import type { ActiveWorldEvent, EventWorld } from './EventMechanics.js';
+import type { PlayerConnection } from '../types.js';
+import { Simulation } from '../testing/index.js';
+
+const START = 1_000_000;
+
+function event(overrides: Partial<ActiveWorldEvent>): ActiveWorldEvent {
+    return {
+        eventId: 'event_test',
+        eventType: 'test',
+        realm: null,
+        mechanics: [],
+        startTime: START,
+        endTime: START + 60_000,
+        ...overrides
+    };
+}
+
+function fakeWorld(players: Array<Partial<PlayerConnection>>) {
+    const calls = {
+        xp: [] as Array<{ playerId: string; amount: number }>,
+        darkness: [] as string[],
+        cleared: [] as string[]
+    };
+    const world: EventWorld = {
+        realms: () => ['genesis', 'nebula'],
+        players: (realm) => players.filter(p => p.realm === realm) as PlayerConnection[],
+        spawnCollectible: () => null,
+        removeCollectible: () => {},
+        grantXp: (player, amount) => calls.xp.push({ playerId: player.playerId, amount }),
+        forceDarkness: (realm, duration) => calls.darkness.push(`${realm}:${duration}`),
+        clearDarkness: (realm) => calls.cleared.push(realm),
+        random: () => 0.5
+    };
+    return { world, calls };
+}
+
+describe('WorldEventRuntime', () => {
+    it('grants passive XP only inside the event area and reports contributions', () => {
+        const { world, calls } = fakeWorld([
+            { playerId: 'inside', realm: 'genesis', x: 1000, y: 1000 },
+            { playerId: 'outside', realm: 'genesis', x: 5000, y: 5000 }
+        ]);
+        const contributions: string[] = [];
+        const runtime = new WorldEventRuntime(world, {
+            onContribution: (_eventId, playerId, amount) => contributions.push(`${playerId}:${amount}`)
+        });
+
+        runtime.start(event({ mechanics: ['ambient', 'passive_gain'], position: { x: 1000, y: 1000 }, radius: 500 }), START);
+        for (let t = START; t <= START + 20_000; t += 50) runtime.tick(t);
+
+        expect(calls.xp).toEqual([
+            { playerId: 'inside', amount: EVENT_MECHANIC_CONFIG.PASSIVE_GAIN_XP },
+            { playerId: 'inside', amount: EVENT_MECHANIC_CONFIG.PASSIVE_GAIN_XP }
+        ]);
+        expect(contributions).toEqual(['inside:1', 'inside:1']);
+        expect(runtime.getProgress('event_test')).toMatchObject({ participants: 1, totalContribution: 2, counters: { passiveTicks: 2 } });
+    });
+
+    it('forces darkness for the event and rewards huddling players', () => {
+        const { world, calls } = fakeWorld([
+            { playerId: 'a', realm: 'nebula', x: 100, y: 100 },
+            { playerId: 'b', realm: 'nebula', x: 250, y: 100 },
+            { playerId: 'alone', realm: 'nebula', x: 3000, y: 3000 }
+        ]);
+        const runtime = new WorldEventRuntime(world);
+
+        runtime.start(event({ realm: 'nebula', mechanics: ['survival', 'warmth'] }), START);
+        expect(calls.darkness).toEqual(['nebula:60000']);
+
+        runtime.tick(START + EVENT_MECHANIC_CONFIG.WARMTH_INTERVAL);
+        expect(runtime.getProgress('event_test')?.counters).toEqual({ warmthShared: 2 });
+
+        // Ends on its own at endTime, lifting the darkness
+        runtime.tick(START + 60_000);
+        expect(runtime.isRunning('event_test')).toBe(false);
+        expect(calls.cleared).toEqual(['nebula']);
+    });
+});
+
+describe('World event mechanics in the game loop', () => {
+    const sims: Simulation[] = [];
+
+    afterEach(async () => {
+        for (const sim of sims.splice(0)) {
+            await sim.shutdown();
+        }
+    });
+
+    it('spawns meteor collectibles and counts pickups as contributions', async () => {
+        const sim = new Simulation({ seed: 5 });
+        sims.push(sim);
+        const player = sim.connect('meteor_player');
+        await sim.settle();
+
+        const runtime = sim.handler.worldEventRuntime;
+        const now = sim.clock.now();
+        runtime.start(event({
+            eventId: 'event_meteors',
+            eventType: 'meteor_shower',
+            mechanics: ['collectibles', 'timed'],
+            startTime: now,
+            endTime: now + 60_000,
+            position: { x: 4000, y: 4000 },
+            radius: 200
+        }), now);
+
+        sim.tick(EVENT_MECHANIC_CONFIG.COLLECTIBLE_SPAWN_INTERVAL / sim.tickMs);
+        const spawned = player.received('fragment_spawned').find(f => f.eventId === 'event_meteors');
+        expect(spawned).toBeDefined();
+
+        // Clients can't report progress for simulated events
+        player.send('contribute_event', { eventId: 'event_meteors', contribution: 50 });
+        await sim.settle();
+        expect(player.last('error').message).toContain('tracked by the server');
+
+        sim.walkTo(player, spawned.x, spawned.y);
+        player.send('collect_fragment', { fragmentId: spawned.id });
+        await sim.settle();
+
+        expect(player.last('fragment_collected').fragmentId).toBe(spawned.id);
+        expect(runtime.getProgress('event_meteors')).toMatchObject({ participants: 1, totalContribution: 3, counters: { collected: 3 } });
+
+        // Leftover collectibles disappear with the event
+        sim.tick(EVENT_MECHANIC_CONFIG.COLLECTIBLE_SPAWN_INTERVAL / sim.tickMs);
+        const live = () => sim.handler.captureSnapshot().fragments.filter(f => f.eventId === 'event_meteors');
+        expect(live().length).toBeGreaterThan(0);
+        runtime.end('event_meteors', sim.clock.now());
+        expect(live()).toEqual([]);
+    });
+});
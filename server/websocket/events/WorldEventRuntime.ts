@@ -0,0 +1,186 @@
+// =============================================================================
+// WorldEventRuntime - Runs the mechanics of active world events
+// =============================================================================
+// The scheduler decides when events start and end; this runs them. Each game
+// tick every running event ticks the mechanics its type lists (see
+// EventMechanics.ts). Contributions come only from what mechanics observe in
+// the world - event fragments picked up, time spent in the aurora, huddling
+// in the dark - and are handed to `onContribution` in batches for the
+// scheduler to persist. Clients cannot report progress for these events.
+// =============================================================================
+
+import type { PlayerConnection, ServerFragment } from '../types.js';
+import { EVENT_MECHANICS } from './EventMechanics.js';
+import type { ActiveWorldEvent, EventRun, EventWorld } from './EventMechanics.js';
+
+export interface WorldEventProgress {
+    eventId: string;
+    eventType: string;
+    counters: Record<string, number>;
+    participants: number;
+    totalContribution: number;
+}
+
+export interface WorldEventRuntimeOptions {
+    onContribution?: (eventId: string, playerId: string, amount: number) => void;
+    onProgress?: (progress: WorldEventProgress, realms: string[]) => void;
+    flushInterval?: number;         // ms between contribution batches
+}
+
+interface RunState extends EventRun {
+    pending: Map<string, number>;   // Contributions not yet handed to onContribution
+    totals: Map<string, number>;
+    lastFlush: number;
+    dirty: boolean;
+}
+
+export class WorldEventRuntime {
+    private runs: Map<string, RunState> = new Map();
+    private world: EventWorld;
+    private options: WorldEventRuntimeOptions;
+    private flushInterval: number;
+
+    constructor(world: EventWorld, options: WorldEventRuntimeOptions = {}) {
+        this.world = world;
+        this.options = options;
+        this.flushInterval = options.flushInterval ?? 5000;
+    }
+
+    /**
+     * Begin running an event's mechanics; already-running events are ignored
+     */
+    start(event: ActiveWorldEvent, now: number): boolean {
+        if (this.runs.has(event.eventId) || now >= event.endTime) return false;
+
+        const run: RunState = {
+            event,
+            realms: this.realmsFor(event),
+            counters: {},
+            collectibles: new Map(),
+            lastRun: new Map(),
+            pending: new Map(),
+            totals: new Map(),
+            lastFlush: now,
+            dirty: false,
+            contribute(playerId: string, amount: number, counter: string) {
+                this.pending.set(playerId, (this.pending.get(playerId) || 0) + amount);
+                this.totals.set(playerId, (this.totals.get(playerId) || 0) + amount);
+                this.counters[counter] = (this.counters[counter] || 0) + amount;
+                this.dirty = true;
+            }
+        };
+        this.runs.set(event.eventId, run);
+
+        for (const mechanic of this.mechanicsOf(event)) {
+            mechanic.start?.(run, this.world, now);
+        }
+        return true;
+    }
+
+    /**
+     * Stop an event: clean up its mechanics and flush what is left
+     */
+    end(eventId: string, now: number): boolean {
+        const run = this.runs.get(eventId);
+        if (!run) return false;
+
+        for (const mechanic of this.mechanicsOf(run.event)) {
+            mechanic.end?.(run, this.world, now);
+        }
+        this.flush(run, now);
+        this.runs.delete(eventId);
+        return true;
+    }
+
+    /**
+     * Called every game tick
+     */
+    tick(now: number): void {
+        for (const run of Array.from(this.runs.values())) {
+            if (now >= run.event.endTime) {
+                this.end(run.event.eventId, now);
+                continue;
+            }
+
+            run.realms = this.realmsFor(run.event);
+            for (const mechanic of this.mechanicsOf(run.event)) {
+                mechanic.tick?.(run, this.world, now);
+            }
+
+            if (now - run.lastFlush >= this.flushInterval) {
+                this.flush(run, now);
+            }
+        }
+    }
+
+    /**
+     * A player picked up a fragment; true when it belonged to a running event
+     */
+    handleCollect(player: PlayerConnection, fragment: ServerFragment): boolean {
+        const run = fragment.eventId ? this.runs.get(fragment.eventId) : undefined;
+        if (!run) return false;
+
+        for (const mechanic of this.mechanicsOf(run.event)) {
+            mechanic.collect?.(run, this.world, player, fragment);
+        }
+        return true;
+    }
+
+    isRunning(eventId: string): boolean {
+        return this.runs.has(eventId);
+    }
+
+    getRunningEvents(): ActiveWorldEvent[] {
+        return Array.from(this.runs.values()).map(run => run.event);
+    }
+
+    getProgress(eventId: string): WorldEventProgress | null {
+        const run = this.runs.get(eventId);
+        return run ? this.progressOf(run) : null;
+    }
+
+    /**
+     * End everything (process shutdown)
+     */
+    stopAll(now: number): void {
+        for (const eventId of Array.from(this.runs.keys())) {
+            this.end(eventId, now);
+        }
+    }
+
+    private flush(run: RunState, now: number): void {
+        run.lastFlush = now;
+        if (this.options.onContribution) {
+            for (const [playerId, amount] of run.pending) {
+                this.options.onContribution(run.event.eventId, playerId, amount);
+            }
+        }
+        run.pending.clear();
+
+        if (run.dirty) {
+            run.dirty = false;
+            this.options.onProgress?.(this.progressOf(run), run.realms);
+        }
+    }
+
+    private progressOf(run: RunState): WorldEventProgress {
+        let totalContribution = 0;
+        for (const amount of run.totals.values()) totalContribution += amount;
+        return {
+            eventId: run.event.eventId,
+            eventType: run.event.eventType,
+            counters: { ...run.counters },
+            participants: run.totals.size,
+            totalContribution
+        };
+    }
+
+    private realmsFor(event: ActiveWorldEvent): string[] {
+        const hosted = this.world.realms();
+        return event.realm ? hosted.filter(realm => realm === event.realm) : hosted;
+    }
+
+    private mechanicsOf(event: ActiveWorldEvent) {
+        return event.mechanics.map(tag => EVENT_MECHANICS[tag]).filter(Boolean);
+    }
+}
@@ -0,0 +1,9 @@
+// =============================================================================
+// World Event Mechanics Module
+// =============================================================================
+
+export { WorldEventRuntime } from './WorldEventRuntime.js';
+export { EVENT_MECHANICS, EVENT_MECHANIC_CONFIG, isInEventArea } from './EventMechanics.js';
+
+export type { WorldEventProgress, WorldEventRuntimeOptions } from './WorldEventRuntime.js';
+export type { ActiveWorldEvent, EventWorld, EventRun, EventMechanic } from './EventMechanics.js';
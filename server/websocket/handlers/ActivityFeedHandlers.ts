@@ -1,4 +1,4 @@
-import { WebSocket } from 'ws';
+import type { BroadcastMessage, SendMessage, SendToPlayer } from '../types.js';
 import { activityFeedService } from '../../services/ActivityFeedService.js';
 
 interface ActivityMessage {
@@ -12,8 +12,8 @@ interface ActivityMessage {
 }
 
 export function setupActivityFeedHandlers(
-  ws: WebSocket,
-  broadcast: (message: any, excludeWs?: WebSocket) => void
+  send: SendMessage,
+  broadcast: BroadcastMessage
 ) {
   return {
     handleActivityMessage: async (message: ActivityMessage) => {
@@ -26,10 +26,10 @@ export function setupActivityFeedHandlers(
             message.limit || 50
           );
           
-          ws.send(JSON.stringify({
+          send({
             type: 'activity:feed',
             data: { activities }
-          }));
+          });
           break;
         }
 
@@ -39,20 +39,20 @@ export function setupActivityFeedHandlers(
             message.limit || 20
           );
           
-          ws.send(JSON.stringify({
+          send({
             type: 'activity:playerActivities',
             data: { activities }
-          }));
+          });
           break;
         }
 
         case 'activity:getStats': {
           const stats = await activityFeedService.getPlayerActivityStats(playerId);
           
-          ws.send(JSON.stringify({
+          send({
             type: 'activity:stats',
             data: stats
-          }));
+          });
           break;
         }
 
@@ -67,10 +67,10 @@ export function setupActivityFeedHandlers(
             message.data.level
           );
           
-          ws.send(JSON.stringify({
+          send({
             type: 'activity:recorded',
             data: { success: true }
-          }));
+          });
           break;
         }
 
@@ -85,10 +85,10 @@ export function setupActivityFeedHandlers(
             message.data.achievementIcon
           );
           
-          ws.send(JSON.stringify({
+          send({
             type: 'activity:recorded',
             data: { success: true }
-          }));
+          });
           break;
         }
 
@@ -109,7 +109,7 @@ export function setupActivityFeedHandlers(
 
 // Event listeners for activity feed service
 export function initializeActivityFeedEventListeners(
-  sendToPlayer: (playerId: string, message: any) => void,
+  sendToPlayer: SendToPlayer,
   getPlayerFriends: (playerId: string) => Promise<string[]>
 ) {
   activityFeedService.on('activity_created', async (data) => {
@@ -4,97 +4,89 @@
 // Phase 3.4-3.6: Game Mode Analytics, Filter Preferences, Ambient Mode
 // =============================================================================
 
-import { WebSocket } from 'ws';
-import { gameModeAnalyticsService, IPlayerPreferences } from '../../services/GameModeAnalyticsService.js';
+import type { ValidatedPayload } from '../../common/protocol/index.js';
+import { gameModeAnalyticsService } from '../../services/GameModeAnalyticsService.js';
 import { activityTrackingService } from '../../services/ActivityTrackingService.js';
-
-interface ExtendedWebSocket extends WebSocket {
-    playerId?: string;
-    playerName?: string;
-    realm?: string;
-}
+import type { HandlerContext, PlayerConnection } from '../types.js';
 
 // ============================================
 // PREFERENCES HANDLERS
 // ============================================
 
-export async function handleGetPreferences(ws: ExtendedWebSocket): Promise<void> {
-    if (!ws.playerId) {
-        ws.send(JSON.stringify({
-            type: 'analytics:getPreferences:error',
-            error: 'Not authenticated'
-        }));
-        return;
-    }
-
+export async function handleGetPreferences(connection: PlayerConnection, ctx: HandlerContext): Promise<void> {
     try {
-        const preferences = await gameModeAnalyticsService.getPlayerPreferences(ws.playerId);
+        const preferences = await gameModeAnalyticsService.getPlayerPreferences(connection.playerId);
 
-        ws.send(JSON.stringify({
+        ctx.send(connection.ws, {
             type: 'analytics:getPreferences:result',
-            preferences
-        }));
+            data: { preferences },
+            timestamp: Date.now()
+        });
     } catch (error: any) {
-        ws.send(JSON.stringify({
+        ctx.send(connection.ws, {
             type: 'analytics:getPreferences:error',
-            error: error.message
-        }));
+            data: { error: error.message },
+            timestamp: Date.now()
+        });
     }
 }
 
 export async function handleUpdatePreferences(
-    ws: ExtendedWebSocket,
-    data: { updates: Partial<IPlayerPreferences> }
+    connection: PlayerConnection,
+    data: ValidatedPayload<'analytics:updatePreferences'>,
+    ctx: HandlerContext
 ): Promise<void> {
-    if (!ws.playerId) {
-        ws.send(JSON.stringify({
-            type: 'analytics:updatePreferences:error',
-            error: 'Not authenticated'
-        }));
-        return;
-    }
-
     try {
         const preferences = await gameModeAnalyticsService.updatePreferences(
-            ws.playerId,
+            connection.playerId,
             data.updates
         );
 
-        ws.send(JSON.stringify({
+        ctx.send(connection.ws, {
             type: 'analytics:updatePreferences:success',
-            preferences
-        }));
+            data: { preferences },
+            timestamp: Date.now()
+        });
     } catch (error: any) {
-        ws.send(JSON.stringify({
+        ctx.send(connection.ws, {
             type: 'analytics:updatePreferences:error',
-            error: error.message
-        }));
+            data: { error: error.message },
+            timestamp: Date.now()
+        });
     }
 }
 
 export async function handleUpdateVisualFilters(
-    ws: ExtendedWebSocket,
-    data: { filters: IPlayerPreferences['visualFilters'] }
+    connection: PlayerConnection,
+    data: ValidatedPayload<'analytics:updateFilters'>,
+    ctx: HandlerContext
 ): Promise<void> {
-    if (!ws.playerId) {
-        ws.send(JSON.stringify({
-            type: 'analytics:updateFilters:error',
-            error: 'Not authenticated'
-        }));
-        return;
-    }
-
     try {
-        await gameModeAnalyticsService.updateVisualFilters(ws.playerId, data.filters);
-
-        ws.send(JSON.stringify({
-            type: 'analytics:updateFilters:success'
-        }));
+        const { enabled, preset, customSettings } = data.filters;
+        await gameModeAnalyticsService.updateVisualFilters(connection.playerId, {
+            enabled,
+            preset,
+            customSettings: customSettings && {
+                brightness: customSettings.brightness,
+                contrast: customSettings.contrast,
+                saturation: customSettings.saturation,
+                blur: customSettings.blur,
+                vignette: customSettings.vignette,
+                colorTint: customSettings.colorTint
+            }
+        });
+
+        ctx.send(connection.ws, {
+            type: 'analytics:updateFilters:success',
+            data: {},
+            timestamp: Date.now()
+        });
     } catch (error: any) {
-        ws.send(JSON.stringify({
+        ctx.send(connection.ws, {
             type: 'analytics:updateFilters:error',
-            error: error.message
-        }));
+            data: { error: error.message },
+            timestamp: Date.now()
+        });
     }
 }
 
@@ -103,88 +95,73 @@ export async function handleUpdateVisualFilters(
 // ============================================
 
 export async function handleStartGameMode(
-    ws: ExtendedWebSocket,
-    data: { gameMode: string; metadata?: Record<string, any> }
+    connection: PlayerConnection,
+    data: ValidatedPayload<'analytics:startGameMode'>,
+    ctx: HandlerContext
 ): Promise<void> {
-    if (!ws.playerId || !ws.realm) {
-        ws.send(JSON.stringify({
-            type: 'analytics:startGameMode:error',
-            error: 'Not authenticated'
-        }));
-        return;
-    }
-
     try {
         const sessionId = await gameModeAnalyticsService.startGameModeSession(
-            ws.playerId,
+            connection.playerId,
             data.gameMode,
-            ws.realm,
+            connection.realm,
             data.metadata
         );
 
-        ws.send(JSON.stringify({
+        ctx.send(connection.ws, {
             type: 'analytics:startGameMode:success',
-            sessionId
-        }));
+            data: { sessionId },
+            timestamp: Date.now()
+        });
     } catch (error: any) {
-        ws.send(JSON.stringify({
+        ctx.send(connection.ws, {
             type: 'analytics:startGameMode:error',
-            error: error.message
-        }));
+            data: { error: error.message },
+            timestamp: Date.now()
+        });
     }
 }
 
 export async function handleEndGameMode(
-    ws: ExtendedWebSocket,
-    data?: { outcome?: 'win' | 'loss' | 'draw' | 'abandoned'; score?: number }
+    connection: PlayerConnection,
+    data: ValidatedPayload<'analytics:endGameMode'>,
+    ctx: HandlerContext
 ): Promise<void> {
-    if (!ws.playerId) {
-        ws.send(JSON.stringify({
-            type: 'analytics:endGameMode:error',
-            error: 'Not authenticated'
-        }));
-        return;
-    }
-
     try {
         await gameModeAnalyticsService.endGameModeSession(
-            ws.playerId,
-            data?.outcome,
-            data?.score
+            connection.playerId,
+            data.outcome,
+            data.score
         );
 
-        ws.send(JSON.stringify({
-            type: 'analytics:endGameMode:success'
-        }));
+        ctx.send(connection.ws, {
+            type: 'analytics:endGameMode:success',
+            data: {},
+            timestamp: Date.now()
+        });
     } catch (error: any) {
-        ws.send(JSON.stringify({
+        ctx.send(connection.ws, {
             type: 'analytics:endGameMode:error',
-            error: error.message
-        }));
+            data: { error: error.message },
+            timestamp: Date.now()
+        });
     }
 }
 
-export async function handleGetGameModeStats(ws: ExtendedWebSocket): Promise<void> {
-    if (!ws.playerId) {
-        ws.send(JSON.stringify({
-            type: 'analytics:getGameModeStats:error',
-            error: 'Not authenticated'
-        }));
-        return;
-    }
-
+export async function handleGetGameModeStats(connection: PlayerConnection, ctx: HandlerContext): Promise<void> {
     try {
-        const stats = await gameModeAnalyticsService.getGameModeStats(ws.playerId);
+        const stats = await gameModeAnalyticsService.getGameModeStats(connection.playerId);
 
-        ws.send(JSON.stringify({
+        ctx.send(connection.ws, {
             type: 'analytics:getGameModeStats:result',
-            stats
-        }));
+            data: { stats },
+            timestamp: Date.now()
+        });
     } catch (error: any) {
-        ws.send(JSON.stringify({
+        ctx.send(connection.ws, {
             type: 'analytics:getGameModeStats:error',
-            error: error.message
-        }));
+            data: { error: error.message },
+            timestamp: Date.now()
+        });
     }
 }
 
@@ -193,84 +170,65 @@ export async function handleGetGameModeStats(ws: ExtendedWebSocket): Promise<voi
 // ============================================
 
 export async function handleStartAmbientMode(
-    ws: ExtendedWebSocket,
-    data: {
-        mode: 'zen' | 'aurora' | 'stargazing' | 'campfire' | 'custom';
-        settings?: { musicTrack?: string; visualPreset?: string; particleDensity?: number };
-    }
+    connection: PlayerConnection,
+    data: ValidatedPayload<'analytics:startAmbient'>,
+    ctx: HandlerContext
 ): Promise<void> {
-    if (!ws.playerId || !ws.realm) {
-        ws.send(JSON.stringify({
-            type: 'analytics:startAmbient:error',
-            error: 'Not authenticated'
-        }));
-        return;
-    }
-
     try {
         const sessionId = await gameModeAnalyticsService.startAmbientSession(
-            ws.playerId,
+            connection.playerId,
             data.mode,
-            ws.realm,
+            connection.realm,
             data.settings
         );
 
-        ws.send(JSON.stringify({
+        ctx.send(connection.ws, {
             type: 'analytics:startAmbient:success',
-            sessionId
-        }));
+            data: { sessionId },
+            timestamp: Date.now()
+        });
     } catch (error: any) {
-        ws.send(JSON.stringify({
+        ctx.send(connection.ws, {
             type: 'analytics:startAmbient:error',
-            error: error.message
-        }));
+            data: { error: error.message },
+            timestamp: Date.now()
+        });
     }
 }
 
-export async function handleEndAmbientMode(ws: ExtendedWebSocket): Promise<void> {
-    if (!ws.playerId) {
-        ws.send(JSON.stringify({
-            type: 'analytics:endAmbient:error',
-            error: 'Not authenticated'
-        }));
-        return;
-    }
-
+export async function handleEndAmbientMode(connection: PlayerConnection, ctx: HandlerContext): Promise<void> {
     try {
-        await gameModeAnalyticsService.endAmbientSession(ws.playerId);
+        await gameModeAnalyticsService.endAmbientSession(connection.playerId);
 
-        ws.send(JSON.stringify({
-            type: 'analytics:endAmbient:success'
-        }));
+        ctx.send(connection.ws, {
+            type: 'analytics:endAmbient:success',
+            data: {},
+            timestamp: Date.now()
+        });
     } catch (error: any) {
-        ws.send(JSON.stringify({
+        ctx.send(connection.ws, {
             type: 'analytics:endAmbient:error',
-            error: error.message
-        }));
+            data: { error: error.message },
+            timestamp: Date.now()
+        });
     }
 }
 
-export async function handleGetAmbientStats(ws: ExtendedWebSocket): Promise<void> {
-    if (!ws.playerId) {
-        ws.send(JSON.stringify({
-            type: 'analytics:getAmbientStats:error',
-            error: 'Not authenticated'
-        }));
-        return;
-    }
-
+export async function handleGetAmbientStats(connection: PlayerConnection, ctx: HandlerContext): Promise<void> {
     try {
-        const stats = await gameModeAnalyticsService.getAmbientStats(ws.playerId);
+        const stats = await gameModeAnalyticsService.getAmbientStats(connection.playerId);
 
-        ws.send(JSON.stringify({
+        ctx.send(connection.ws, {
             type: 'analytics:getAmbientStats:result',
-            stats
-        }));
+            data: { stats },
+            timestamp: Date.now()
+        });
     } catch (error: any) {
-        ws.send(JSON.stringify({
+        ctx.send(connection.ws, {
             type: 'analytics:getAmbientStats:error',
-            error: error.message
-        }));
+            data: { error: error.message },
+            timestamp: Date.now()
+        });
     }
 }
 
@@ -278,45 +236,48 @@ export async function handleGetAmbientStats(ws: ExtendedWebSocket): Promise<void
 // GLOBAL ANALYTICS (Admin)
 // ============================================
 
-export async function handleGetGlobalGameModeStats(ws: ExtendedWebSocket): Promise<void> {
+export async function handleGetGlobalGameModeStats(connection: PlayerConnection, ctx: HandlerContext): Promise<void> {
     // In production, check if user is admin
     try {
         const stats = await gameModeAnalyticsService.getGlobalGameModeStats();
 
-        ws.send(JSON.stringify({
+        ctx.send(connection.ws, {
             type: 'analytics:getGlobalGameModeStats:result',
-            stats
-        }));
+            data: { stats },
+            timestamp: Date.now()
+        });
     } catch (error: any) {
-        ws.send(JSON.stringify({
+        ctx.send(connection.ws, {
             type: 'analytics:getGlobalGameModeStats:error',
-            error: error.message
-        }));
+            data: { error: error.message },
+            timestamp: Date.now()
+        });
     }
 }
 
-export async function handleGetGlobalAmbientStats(ws: ExtendedWebSocket): Promise<void> {
+export async function handleGetGlobalAmbientStats(connection: PlayerConnection, ctx: HandlerContext): Promise<void> {
     // In production, check if user is admin
     try {
         const stats = await gameModeAnalyticsService.getGlobalAmbientStats();
 
-        ws.send(JSON.stringify({
+        ctx.send(connection.ws, {
             type: 'analytics:getGlobalAmbientStats:result',
-            stats
-        }));
+            data: { stats },
+            timestamp: Date.now()
+        });
     } catch (error: any) {
-        ws.send(JSON.stringify({
+        ctx.send(connection.ws, {
             type: 'analytics:getGlobalAmbientStats:error',
-            error: error.message
-        }));
+            data: { error: error.message },
+            timestamp: Date.now()
+        });
     }
 }
 
 
-export async function handleTrackStat(ws: ExtendedWebSocket, data: { stat: string; amount?: number }): Promise<void> {
-    if (!ws.playerId) return;
+export async function handleTrackStat(connection: PlayerConnection, data: ValidatedPayload<'track_stat'>): Promise<void> {
     try {
-        await activityTrackingService.trackActivity(ws.playerId, data.stat as any, { amount: data.amount || 1 });
+        await activityTrackingService.trackActivity(connection.playerId, data.stat, { amount: data.amount });
     } catch (error: any) {
         console.error('Failed to track stat:', error);
     }
@@ -3,13 +3,14 @@
 // =============================================================================
 
 import type { PlayerConnection, HandlerContext } from '../types.js';
+import type { ValidatedPayload } from '../../common/protocol/index.js';
 import { anchoringService } from '../../services/AnchoringService.js';
 
 export class AnchoringHandlers {
     /**
      * Get anchoring zones
      */
-    static async handleGetAnchoringZones(connection: PlayerConnection, _data: any, ctx: HandlerContext): Promise<void> {
+    static async handleGetAnchoringZones(connection: PlayerConnection, _data: ValidatedPayload<'request_anchoring_zones'>, ctx: HandlerContext): Promise<void> {
         try {
             const zones = anchoringService.getZonesByRealm(connection.realm || 'default');
 
@@ -26,7 +27,7 @@ export class AnchoringHandlers {
     /**
      * Enter an anchoring zone
      */
-    static async handleEnterAnchoringZone(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleEnterAnchoringZone(connection: PlayerConnection, data: ValidatedPayload<'enter_anchoring_zone'>, ctx: HandlerContext): Promise<void> {
         try {
             const { zoneId } = data;
 
@@ -84,7 +85,7 @@ export class AnchoringHandlers {
     /**
      * Leave an anchoring zone
      */
-    static async handleLeaveAnchoringZone(connection: PlayerConnection, _data: any, ctx: HandlerContext): Promise<void> {
+    static async handleLeaveAnchoringZone(connection: PlayerConnection, _data: ValidatedPayload<'leave_anchoring_zone'>, ctx: HandlerContext): Promise<void> {
         try {
             const zoneId = connection.currentAnchoringZone;
             if (!zoneId) return;
@@ -111,9 +112,10 @@ export class AnchoringHandlers {
     /**
      * Start a meditation session
      */
-    static async handleStartMeditation(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleStartMeditation(connection: PlayerConnection, data: ValidatedPayload<'start_meditation'>, ctx: HandlerContext): Promise<void> {
         try {
-            const { zoneId } = data;
+            // Meditation happens in the zone the player entered
+            const zoneId = connection.currentAnchoringZone;
 
             if (!zoneId) {
                 ctx.sendError(connection, 'Zone ID required');
@@ -150,7 +152,7 @@ export class AnchoringHandlers {
             // Notify nearby players
             if (connection.realm && ctx.realms.has(connection.realm)) {
                 const realm = ctx.realms.get(connection.realm)!;
-                for (const conn of Array.from(realm.values())) {
+                for (const conn of realm.within(connection.x, connection.y, 200)) {
                     if (conn.playerId !== connection.playerId) {
                         const dx = conn.x - connection.x;
                         const dy = conn.y - connection.y;
@@ -177,7 +179,7 @@ export class AnchoringHandlers {
     /**
      * End a meditation session
      */
-    static async handleEndMeditation(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleEndMeditation(connection: PlayerConnection, data: ValidatedPayload<'end_meditation'>, ctx: HandlerContext): Promise<void> {
         try {
             const session = connection.meditationSession;
             if (!session) {
@@ -185,8 +187,7 @@ export class AnchoringHandlers {
                 return;
             }
 
-            const { interrupted } = data;
-            const result = await anchoringService.endSession(connection.playerId, interrupted === true);
+            const result = await anchoringService.endSession(connection.playerId, data.completed === false);
 
             connection.meditationSession = undefined;
 
@@ -207,7 +208,7 @@ export class AnchoringHandlers {
     /**
      * Get mindfulness stats
      */
-    static async handleGetMindfulnessStats(connection: PlayerConnection, _data: any, ctx: HandlerContext): Promise<void> {
+    static async handleGetMindfulnessStats(connection: PlayerConnection, _data: ValidatedPayload<'request_mindfulness_stats'>, ctx: HandlerContext): Promise<void> {
         try {
             const stats = await anchoringService.getPlayerMindfulness(connection.playerId);
 
@@ -224,9 +225,13 @@ export class AnchoringHandlers {
     /**
      * Join group meditation
      */
-    static async handleJoinGroupMeditation(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleJoinGroupMeditation(connection: PlayerConnection, data: ValidatedPayload<'join_group_meditation'>, ctx: HandlerContext): Promise<void> {
         try {
-            const { zoneId } = data;
+            const zoneId = connection.currentAnchoringZone;
+            if (!zoneId) {
+                ctx.sendError(connection, 'Zone ID required');
+                return;
+            }
 
             // For group meditation, just start a session in the same zone
             const result = await anchoringService.startSession(
@@ -256,14 +261,14 @@ export class AnchoringHandlers {
     /**
      * Send breathing sync pulse
      */
-    static handleBreathingSync(connection: PlayerConnection, data: any, ctx: HandlerContext): void {
+    static handleBreathingSync(connection: PlayerConnection, data: ValidatedPayload<'breathing_sync'>, ctx: HandlerContext): void {
         try {
             const { phase } = data; // 'inhale', 'hold', 'exhale'
 
             // Broadcast to nearby meditating players
             if (connection.realm && ctx.realms.has(connection.realm)) {
                 const realm = ctx.realms.get(connection.realm)!;
-                for (const conn of Array.from(realm.values())) {
+                for (const conn of realm.within(connection.x, connection.y, 100)) {
                     if (conn.playerId !== connection.playerId && conn.meditationSession) {
                         const dx = conn.x - connection.x;
                         const dy = conn.y - connection.y;
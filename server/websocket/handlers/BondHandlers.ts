@@ -3,14 +3,16 @@
 // =============================================================================
 
 import type { PlayerConnection, HandlerContext } from '../types.js';
-import { bondService } from '../../services/BondService.js';
+import type { ValidatedPayload } from '../../common/protocol/index.js';
+import { bondService, toBondMoment, BOND_CONFIG } from '../../services/BondService.js';
+import { playerDataService } from '../../services/PlayerDataService.js';
 import { notificationService } from '../../services/NotificationService.js';
 
 export class BondHandlers {
     /**
      * Get bond with another player
      */
-    static async handleGetBond(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleGetBond(connection: PlayerConnection, data: ValidatedPayload<'get_bond'>, ctx: HandlerContext): Promise<void> {
         try {
             const { targetId } = data;
             if (!targetId) return;
@@ -31,6 +33,7 @@ export class BondHandlers {
                         sealedAt: bond.sealedAt,
                         lastInteraction: bond.lastInteraction,
                         stats: bond.stats,
+                        moments: bond.moments.slice(-20).map(toBondMoment),     // To pick memories from
                         sharedMemories: bond.sharedMemories.slice(-10) // Last 10 memories
                     } : null
                 },
@@ -44,7 +47,7 @@ export class BondHandlers {
     /**
      * Get all bonds for current player
      */
-    static async handleGetAllBonds(connection: PlayerConnection, _data: any, ctx: HandlerContext): Promise<void> {
+    static async handleGetAllBonds(connection: PlayerConnection, _data: ValidatedPayload<'get_all_bonds'>, ctx: HandlerContext): Promise<void> {
         try {
             const bonds = await bondService.getPlayerBonds(connection.playerId);
 
@@ -68,97 +71,69 @@ export class BondHandlers {
     }
 
     /**
-     * Update bond from interaction (called internally from other handlers)
+     * A bond gesture toward a player standing nearby. The bond update reaches
+     * both players through the service's bond_updated event.
      */
-    static async handleBondInteraction(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleBondInteraction(connection: PlayerConnection, data: ValidatedPayload<'bond_interaction'>, ctx: HandlerContext): Promise<void> {
         try {
-            const { targetId, interactionType } = data;
-            if (!targetId || !interactionType) return;
+            const { targetId, type } = data;
+            if (!targetId || !type) return;
 
-            const result = await bondService.updateBondStrength(
-                connection.playerId,
-                targetId,
-                interactionType,
-                connection.realm
-            );
-
-            if (result.bond) {
-                // Notify both players of bond update
-                ctx.send(connection.ws, {
-                    type: 'bond_updated',
-                    data: {
-                        targetId,
-                        strength: result.bond.strength,
-                        strengthDelta: result.strengthDelta,
-                        mode: result.bond.mode,
-                        modeChanged: result.modeChanged
-                    },
-                    timestamp: Date.now()
-                });
-
-                // Notify target if online
-                const targetConn = ctx.connections.get(targetId);
-                if (targetConn) {
-                    ctx.send(targetConn.ws, {
-                        type: 'bond_updated',
-                        data: {
-                            targetId: connection.playerId,
-                            strength: result.bond.strength,
-                            strengthDelta: result.strengthDelta,
-                            mode: result.bond.mode,
-                            modeChanged: result.modeChanged
-                        },
-                        timestamp: Date.now()
-                    });
-                }
-
-                // Notify on mode change
-                if (result.modeChanged) {
-                    notificationService.notify(connection.playerId, 'social',
-                        `Your bond has grown to ${result.bond.mode} mode!`,
-                        { title: 'Bond Strengthened' }
-                    );
-                }
+            const target = ctx.realms.get(connection.realm)?.get(targetId);
+            if (!target || Math.hypot(target.x - connection.x, target.y - connection.y) > BOND_CONFIG.INTERACTION_RANGE) {
+                ctx.sendError(connection, 'Too far away to bond');
+                return;
             }
+
+            await bondService.updateBondStrength(connection.playerId, targetId, type, connection.realm);
         } catch (error) {
             console.error('Error handling bond interaction:', error);
         }
     }
 
     /**
-     * Add a shared memory to a bond
+     * Pin a moment from the bond's timeline as a shared memory
      */
-    static async handleAddMemory(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleAddMemory(connection: PlayerConnection, data: ValidatedPayload<'add_bond_memory'>, ctx: HandlerContext): Promise<void> {
         try {
-            const { targetId, memoryText } = data;
-            if (!targetId || !memoryText) return;
+            const { targetId, momentId, memoryText } = data;
+            if (!targetId || !momentId) return;
 
-            const success = await bondService.addSharedMemory(
+            const result = await bondService.addSharedMemory(
                 connection.playerId,
                 targetId,
+                momentId,
                 memoryText
             );
 
-            if (success) {
+            if (!result.success || !result.memory) {
                 ctx.send(connection.ws, {
                     type: 'memory_added',
-                    data: { targetId, success: true },
+                    data: { targetId, success: false, error: result.error },
                     timestamp: Date.now()
                 });
+                return;
+            }
 
-                // Notify target
-                const targetConn = ctx.connections.get(targetId);
-                if (targetConn) {
-                    ctx.send(targetConn.ws, {
-                        type: 'new_shared_memory',
-                        data: {
-                            fromId: connection.playerId,
-                            fromName: connection.playerName,
-                            memoryText
-                        },
-                        timestamp: Date.now()
-                    });
-                }
+            ctx.send(connection.ws, {
+                type: 'memory_added',
+                data: { targetId, success: true, memory: result.memory },
+                timestamp: Date.now()
+            });
+
+            // Notify target
+            const targetConn = ctx.connections.get(targetId);
+            if (targetConn) {
+                ctx.send(targetConn.ws, {
+                    type: 'new_shared_memory',
+                    data: {
+                        fromId: connection.playerId,
+                        fromName: connection.playerName,
+                        memoryText: result.memory.text,
+                        momentId
+                    },
+                    timestamp: Date.now()
+                });
             }
         } catch (error) {
             console.error('Error adding memory:', error);
@@ -168,7 +143,7 @@ export class BondHandlers {
     /**
      * Seal a bond (both players must provide words)
      */
-    static async handleSealBond(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleSealBond(connection: PlayerConnection, data: ValidatedPayload<'seal_bond'>, ctx: HandlerContext): Promise<void> {
         try {
             const { targetId, sealWord } = data;
             if (!targetId || !sealWord) return;
@@ -209,6 +184,9 @@ export class BondHandlers {
                 pendingSeals.delete(pairKey);
 
                 if (result.success && result.starMemory) {
+                    playerDataService.recordStat(connection.playerId, 'bondsFormed');
+                    playerDataService.recordStat(targetId, 'bondsFormed');
+
                     // Notify both players
                     const sealData = {
                         success: true,
@@ -216,7 +194,8 @@ export class BondHandlers {
                             word1: result.starMemory.word1,
                             word2: result.starMemory.word2,
                             combinedPhrase: result.starMemory.combinedPhrase,
-                            brightness: result.starMemory.brightness
+                            brightness: result.starMemory.brightness,
+                            moments: result.starMemory.moments
                         }
                     };
 
@@ -275,7 +254,7 @@ export class BondHandlers {
     /**
      * Get star memories for current player
      */
-    static async handleGetStarMemories(connection: PlayerConnection, _data: any, ctx: HandlerContext): Promise<void> {
+    static async handleGetStarMemories(connection: PlayerConnection, _data: ValidatedPayload<'get_star_memories'>, ctx: HandlerContext): Promise<void> {
         try {
             const memories = await bondService.getPlayerStarMemories(connection.playerId);
 
@@ -305,7 +284,7 @@ export class BondHandlers {
     /**
      * Get realm star map (all visible star memories)
      */
-    static async handleGetRealmStars(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleGetRealmStars(connection: PlayerConnection, data: ValidatedPayload<'get_realm_stars'>, ctx: HandlerContext): Promise<void> {
         try {
             const { realmId, limit } = data;
             const realm = realmId || connection.realm;
@@ -336,7 +315,7 @@ export class BondHandlers {
     /**
      * Get constellations player is part of
      */
-    static async handleGetConstellations(connection: PlayerConnection, _data: any, ctx: HandlerContext): Promise<void> {
+    static async handleGetConstellations(connection: PlayerConnection, _data: ValidatedPayload<'get_constellations'>, ctx: HandlerContext): Promise<void> {
         try {
             const constellations = await bondService.getPlayerConstellations(connection.playerId);
 
@@ -3,24 +3,41 @@
 // =============================================================================
 
 import type { PlayerConnection, HandlerContext } from '../types.js';
-
-// Profanity filter (basic - expand as needed)
-const BLOCKED_WORDS = ['spam', 'hack', 'cheat'];
-
-function filterMessage(text: string): string {
-    let filtered = text;
-    for (const word of BLOCKED_WORDS) {
-        const regex = new RegExp(word, 'gi');
-        filtered = filtered.replace(regex, '*'.repeat(word.length));
-    }
-    return filtered;
+import type { ValidatedPayload } from '../../common/protocol/index.js';
+import type { ServerMessage } from '../../common/protocol/index.js';
+import { playerDataService } from '../../services/PlayerDataService.js';
+import { bondService } from '../../services/BondService.js';
+import { moderationService } from '../../services/ModerationService.js';
+import type { ModerationVerdict } from '../../services/ModerationService.js';
+
+const MODERATION_MESSAGES: Record<string, string> = {
+    muted: 'You are muted',
+    blocked_content: 'Message blocked by the chat filter',
+    flood: 'You are sending messages too quickly',
+    repeat: 'Please do not repeat the same message'
+};
+
+/**
+ * Tell a player why their message was not delivered
+ */
+export function sendModerationNotice(connection: PlayerConnection, verdict: ModerationVerdict, ctx: HandlerContext): void {
+    ctx.send(connection.ws, {
+        type: 'moderation_notice',
+        data: {
+            reason: verdict.reason,
+            message: MODERATION_MESSAGES[verdict.reason!] || 'Message not delivered',
+            strikes: verdict.strikes,
+            mutedUntil: verdict.mutedUntil
+        },
+        timestamp: Date.now()
+    });
 }
 
 export class ChatHandlers {
     /**
      * Handle chat message
      */
-    static async handleChatMessage(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleChatMessage(connection: PlayerConnection, data: ValidatedPayload<'chat'>, ctx: HandlerContext): Promise<void> {
         try {
             console.log(`🔍 [DEBUG] handleChatMessage ENTERED for ${connection.playerId}`);
             console.log(`🔍 [DEBUG] Payload:`, JSON.stringify(data));
@@ -35,14 +52,6 @@ export class ChatHandlers {
                 return;
             }
 
-            // Rate limiting
-            const now = Date.now();
-            if (connection.lastChatTime && now - connection.lastChatTime < 500) {
-                ctx.sendError(connection, 'Please wait before sending another message');
-                return;
-            }
-            connection.lastChatTime = now;
-
             // Message validation
             const trimmed = message.trim();
             if (trimmed.length === 0 || trimmed.length > 500) {
@@ -50,14 +59,23 @@ export class ChatHandlers {
                 return;
             }
 
-            // Filter message
-            const filtered = filterMessage(trimmed);
+            const now = Date.now();
+            const verdict = moderationService.moderateMessage(connection.playerId, trimmed, {
+                playerName: connection.playerName,
+                realm: connection.realm,
+                channel: 'chat'
+            }, now);
+            if (!verdict.allowed) {
+                sendModerationNotice(connection, verdict, ctx);
+                return;
+            }
+            const filtered = verdict.text;
 
             // Update connection state for world sync
             connection.currentMessage = filtered;
             connection.messageExpiresAt = now + 5000;
 
-            const chatMessage = {
+            const chatMessage: ServerMessage<'chat_message'> = {
                 type: 'chat_message',
                 data: {
                     playerId: connection.playerId,
@@ -92,7 +110,7 @@ export class ChatHandlers {
     /**
      * Handle whisper (private message)
      */
-    static async handleWhisper(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleWhisper(connection: PlayerConnection, data: ValidatedPayload<'whisper'>, ctx: HandlerContext): Promise<void> {
         try {
             const { targetId, message } = data;
 
@@ -104,28 +122,28 @@ export class ChatHandlers {
                 return;
             }
 
-            // Find target player
-            let targetConnection: PlayerConnection | null = null;
-            for (const realm of Array.from(ctx.realms.values())) {
-                for (const conn of Array.from(realm.values())) {
-                    if (conn.playerId === targetId) {
-                        targetConnection = conn;
-                        break;
-                    }
-                }
-                if (targetConnection) break;
-            }
-
-            if (!targetConnection) {
+            // Find target player (may be in a realm on another shard)
+            const target = await ctx.locatePlayer(targetId);
+            if (!target) {
                 ctx.sendError(connection, 'Player not online');
                 return;
             }
 
-            const filtered = filterMessage(trimmed);
             const now = Date.now();
+            const verdict = moderationService.moderateMessage(connection.playerId, trimmed, {
+                playerName: connection.playerName,
+                realm: connection.realm,
+                channel: 'whisper',
+                targetId
+            }, now);
+            if (!verdict.allowed) {
+                sendModerationNotice(connection, verdict, ctx);
+                return;
+            }
+            const filtered = verdict.text;
 
             // Send to target
-            ctx.send(targetConnection.ws, {
+            ctx.sendToPlayers([targetId], {
                 type: 'whisper_received',
                 data: {
                     fromId: connection.playerId,
@@ -136,6 +154,9 @@ export class ChatHandlers {
                 timestamp: now
             });
 
+            playerDataService.recordStat(connection.playerId, 'whispersSent');
+            bondService.updateBondStrength(connection.playerId, targetId, 'whisper', connection.realm);
+
             // Confirm to sender
             ctx.send(connection.ws, {
                 type: 'whisper_sent',
@@ -151,17 +172,47 @@ export class ChatHandlers {
         }
     }
 
+    /**
+     * Handle player report - captures recent chat for the moderators
+     */
+    static async handleReportPlayer(connection: PlayerConnection, data: ValidatedPayload<'report_player'>, ctx: HandlerContext): Promise<void> {
+        try {
+            const { targetId, reason, details } = data;
+
+            const result = await moderationService.reportPlayer(
+                connection.playerId,
+                targetId,
+                reason,
+                details || '',
+                connection.realm
+            );
+
+            if (!result.success) {
+                ctx.sendError(connection, result.error || 'Failed to submit report');
+                return;
+            }
+
+            ctx.send(connection.ws, {
+                type: 'report_submitted',
+                data: { reportId: result.report!.reportId, targetId },
+                timestamp: Date.now()
+            });
+        } catch (error) {
+            console.error('Failed to handle report:', error);
+        }
+    }
+
     /**
      * Handle emoji reaction
      */
-    static async handleEmojiReaction(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleEmojiReaction(connection: PlayerConnection, data: ValidatedPayload<'emoji_reaction'>, ctx: HandlerContext): Promise<void> {
         try {
             const { emoji, targetId } = data;
 
             if (!emoji || typeof emoji !== 'string') return;
 
             const now = Date.now();
-            const reaction = {
+            const reaction: ServerMessage<'emoji_reaction'> = {
                 type: 'emoji_reaction',
                 data: {
                     playerId: connection.playerId,
@@ -187,7 +238,7 @@ export class ChatHandlers {
     /**
      * Handle typing indicator
      */
-    static handleTypingIndicator(connection: PlayerConnection, data: any, ctx: HandlerContext): void {
+    static handleTypingIndicator(connection: PlayerConnection, data: ValidatedPayload<'typing'>, ctx: HandlerContext): void {
         try {
             const { isTyping } = data;
 
@@ -3,6 +3,7 @@
 // =============================================================================
 
 import type { PlayerConnection, HandlerContext } from '../types.js';
+import type { ValidatedPayload } from '../../common/protocol/index.js';
 import { companionService } from '../../services/CompanionService.js';
 import { progressionService } from '../../services/ProgressionService.js';
 
@@ -10,7 +11,7 @@ export class CompanionHandlers {
     /**
      * Request companion data
      */
-    static async handleRequestCompanionData(connection: PlayerConnection, _data: any, ctx: HandlerContext): Promise<void> {
+    static async handleRequestCompanionData(connection: PlayerConnection, _data: ValidatedPayload<'request_companion_data'>, ctx: HandlerContext): Promise<void> {
         try {
             const data = await companionService.getCompanionData(connection.playerId);
             ctx.send(connection.ws, {
@@ -26,7 +27,7 @@ export class CompanionHandlers {
     /**
      * Purchase a companion
      */
-    static async handlePurchaseCompanion(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handlePurchaseCompanion(connection: PlayerConnection, data: ValidatedPayload<'purchase_companion'>, ctx: HandlerContext): Promise<void> {
         try {
             const { companionId } = data;
             const config = companionService.getCompanionConfig(companionId);
@@ -43,22 +44,24 @@ export class CompanionHandlers {
                 return;
             }
 
-            // Check currency
-            const progression = await progressionService.getProgression(connection.playerId);
-            if (!progression || progression.stardust < config.price) {
+            // Purchase
+            const payment = await progressionService.spendStardust(connection.playerId, config.price, {
+                source: 'shop',
+                reason: 'companion',
+                idempotencyKey: `companion:${connection.playerId}:${companionId}`,
+                metadata: { itemType: 'companion', itemId: companionId }
+            });
+            if (!payment.success) {
                 ctx.sendError(connection, 'Insufficient stardust');
                 return;
             }
-
-            // Purchase
-            await progressionService.spendStardust(connection.playerId, config.price);
             await companionService.unlockCompanion(connection.playerId, companionId);
 
             ctx.send(connection.ws, {
                 type: 'companion_purchased',
                 data: {
                     companionId,
-                    newStardust: progression.stardust - config.price
+                    newStardust: payment.remaining
                 },
                 timestamp: Date.now()
             });
@@ -70,7 +73,7 @@ export class CompanionHandlers {
     /**
      * Equip/activate a companion
      */
-    static async handleEquipCompanion(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleEquipCompanion(connection: PlayerConnection, data: ValidatedPayload<'equip_companion'>, ctx: HandlerContext): Promise<void> {
         try {
             const { companionId } = data;
             const result = await companionService.equipCompanion(connection.playerId, companionId);
@@ -92,7 +95,7 @@ export class CompanionHandlers {
     /**
      * Unequip companion
      */
-    static async handleUnequipCompanion(connection: PlayerConnection, _data: any, ctx: HandlerContext): Promise<void> {
+    static async handleUnequipCompanion(connection: PlayerConnection, _data: ValidatedPayload<'unequip_companion'>, ctx: HandlerContext): Promise<void> {
         try {
             // Pass null to unequip
             await companionService.equipCompanion(connection.playerId, null);
@@ -110,9 +113,9 @@ export class CompanionHandlers {
     /**
      * Feed companion (add XP)
      */
-    static async handleFeedCompanion(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleFeedCompanion(connection: PlayerConnection, data: ValidatedPayload<'feed_companion'>, ctx: HandlerContext): Promise<void> {
         try {
-            const { companionId, xpAmount } = data;
+            const { companionId } = data;
             
             if (!companionId) {
                 ctx.sendError(connection, 'Companion ID required');
@@ -122,7 +125,7 @@ export class CompanionHandlers {
             const result = await companionService.addCompanionXP(
                 connection.playerId,
                 companionId,
-                xpAmount || 10
+                10
             );
 
             if (result.success) {
@@ -146,7 +149,7 @@ export class CompanionHandlers {
     /**
      * Rename companion - Note: This needs to be added to CompanionService if needed
      */
-    static async handleRenameCompanion(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleRenameCompanion(connection: PlayerConnection, data: ValidatedPayload<'rename_companion'>, ctx: HandlerContext): Promise<void> {
         try {
             const { name } = data;
             if (!name || name.length > 20) {
@@ -1,4 +1,4 @@
-import { WebSocket } from 'ws';
+import type { BroadcastMessage, SendMessage, SendToPlayer } from '../types.js';
 import { constellationService } from '../../services/ConstellationService.js';
 
 interface ConstellationMessage {
@@ -18,8 +18,8 @@ interface ConstellationMessage {
 }
 
 export function setupConstellationHandlers(
-  ws: WebSocket,
-  broadcast: (message: any, excludeWs?: WebSocket) => void
+  send: SendMessage,
+  broadcast: BroadcastMessage
 ) {
   return {
     handleConstellationMessage: async (message: ConstellationMessage) => {
@@ -37,10 +37,10 @@ export function setupConstellationHandlers(
             description: data.description
           });
 
-          ws.send(JSON.stringify({
+          send({
             type: 'constellation:formed',
             data: result
-          }));
+          });
 
           // Broadcast constellation formation to all players in realm
           if (result.success && result.constellation) {
@@ -63,10 +63,10 @@ export function setupConstellationHandlers(
             data.newStarMemoryIds
           );
 
-          ws.send(JSON.stringify({
+          send({
             type: 'constellation:expanded',
             data: result
-          }));
+          });
 
           if (result.success && result.constellation) {
             broadcast({
@@ -82,10 +82,10 @@ export function setupConstellationHandlers(
         case 'constellation:getPlayer': {
           const constellations = await constellationService.getPlayerConstellations(playerId);
 
-          ws.send(JSON.stringify({
+          send({
             type: 'constellation:playerList',
             data: { constellations }
-          }));
+          });
           break;
         }
 
@@ -94,10 +94,10 @@ export function setupConstellationHandlers(
 
           const result = await constellationService.getConstellationWithStars(constellationId);
 
-          ws.send(JSON.stringify({
+          send({
             type: 'constellation:detail',
             data: result
-          }));
+          });
           break;
         }
 
@@ -109,40 +109,40 @@ export function setupConstellationHandlers(
             data?.limit || 50
           );
 
-          ws.send(JSON.stringify({
+          send({
             type: 'constellation:realmList',
             data: { constellations }
-          }));
+          });
           break;
         }
 
         case 'constellation:getStats': {
           const stats = await constellationService.getPlayerConstellationStats(playerId);
 
-          ws.send(JSON.stringify({
+          send({
             type: 'constellation:stats',
             data: stats
-          }));
+          });
           break;
         }
 
         case 'constellation:checkPotential': {
           const potential = await constellationService.checkForPotentialConstellations(playerId);
 
-          ws.send(JSON.stringify({
+          send({
             type: 'constellation:potential',
             data: { potential }
-          }));
+          });
           break;
         }
 
         case 'constellation:getGlobalStats': {
           const stats = await constellationService.getGlobalConstellationStats();
 
-          ws.send(JSON.stringify({
+          send({
             type: 'constellation:globalStats',
             data: stats
-          }));
+          });
           break;
         }
       }
@@ -152,8 +152,8 @@ export function setupConstellationHandlers(
 
 // Event listeners for constellation service
 export function initializeConstellationEventListeners(
-  broadcast: (message: any) => void,
-  sendToPlayer: (playerId: string, message: any) => void
+  broadcast: BroadcastMessage,
+  sendToPlayer: SendToPlayer
 ) {
   constellationService.on('constellation_formed', (data) => {
     // Notify all players involved
@@ -1,4 +1,4 @@
-import { WebSocket } from 'ws';
+import type { BroadcastMessage, SendMessage, SendToPlayer } from '../types.js';
 import { dailyLoginService } from '../../services/DailyLoginService.js';
 
 interface DailyLoginMessage {
@@ -7,8 +7,8 @@ interface DailyLoginMessage {
 }
 
 export function setupDailyLoginHandlers(
-  ws: WebSocket,
-  broadcast: (message: any, excludeWs?: WebSocket) => void
+  send: SendMessage,
+  broadcast: BroadcastMessage
 ) {
   return {
     handleDailyLoginMessage: async (message: DailyLoginMessage) => {
@@ -18,10 +18,10 @@ export function setupDailyLoginHandlers(
         case 'daily:login': {
           const result = await dailyLoginService.processDailyLogin(playerId);
           
-          ws.send(JSON.stringify({
+          send({
             type: 'daily:loginResult',
             data: result
-          }));
+          });
 
           // If it's a new day and they got rewards, broadcast milestone achievements
           if (result.isNewDay && result.milestoneReward) {
@@ -40,10 +40,10 @@ export function setupDailyLoginHandlers(
         case 'daily:getStreak': {
           const streakInfo = await dailyLoginService.getStreakInfo(playerId);
           
-          ws.send(JSON.stringify({
+          send({
             type: 'daily:streakInfo',
             data: streakInfo
-          }));
+          });
           break;
         }
 
@@ -51,20 +51,20 @@ export function setupDailyLoginHandlers(
           const weeklyRewards = dailyLoginService.getWeeklyRewards();
           const milestones = dailyLoginService.getAllMilestones();
           
-          ws.send(JSON.stringify({
+          send({
             type: 'daily:rewards',
             data: { weeklyRewards, milestones }
-          }));
+          });
           break;
         }
 
         case 'daily:getLeaderboard': {
           const leaderboard = await dailyLoginService.getStreakLeaderboard(50);
           
-          ws.send(JSON.stringify({
+          send({
             type: 'daily:leaderboard',
             data: { leaderboard }
-          }));
+          });
           break;
         }
       }
@@ -74,8 +74,8 @@ export function setupDailyLoginHandlers(
 
 // Event listeners for daily login service
 export function initializeDailyLoginEventListeners(
-  broadcast: (message: any) => void,
-  sendToPlayer: (playerId: string, message: any) => void
+  broadcast: BroadcastMessage,
+  sendToPlayer: SendToPlayer
 ) {
   dailyLoginService.on('daily_login', (data) => {
     // Could broadcast to friends that player logged in
@@ -3,6 +3,7 @@
 // =============================================================================
 
 import type { PlayerConnection, HandlerContext } from '../types.js';
+import type { ValidatedPayload } from '../../common/protocol/index.js';
 import { explorationService } from '../../services/ExplorationService.js';
 import { progressionService } from '../../services/ProgressionService.js';
 
@@ -10,14 +11,14 @@ export class ExplorationHandlers {
     /**
      * Update exploration data (player position)
      */
-    static async handleUpdateExploration(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleUpdateExploration(connection: PlayerConnection, data: ValidatedPayload<'update_exploration'>, ctx: HandlerContext): Promise<void> {
         try {
-            const { x, y, region } = data;
+            const { x, y, realm } = data;
 
             // Update player's position and get exploration results
             const result = await explorationService.updatePlayerPosition(
                 connection.playerId,
-                region || connection.realm || 'genesis',
+                realm || connection.realm || 'genesis',
                 x ?? connection.x,
                 y ?? connection.y
             );
@@ -62,7 +63,7 @@ export class ExplorationHandlers {
     /**
      * Get exploration data
      */
-    static async handleGetExplorationData(connection: PlayerConnection, _data: any, ctx: HandlerContext): Promise<void> {
+    static async handleGetExplorationData(connection: PlayerConnection, _data: ValidatedPayload<'request_exploration_data'>, ctx: HandlerContext): Promise<void> {
         try {
             const data = await explorationService.getPlayerExploration(connection.playerId);
 
@@ -79,7 +80,7 @@ export class ExplorationHandlers {
     /**
      * Discover a point of interest
      */
-    static async handleDiscoverPOI(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleDiscoverPOI(connection: PlayerConnection, data: ValidatedPayload<'discover_poi'>, ctx: HandlerContext): Promise<void> {
         try {
             const { poiId } = data;
 
@@ -136,7 +137,7 @@ export class ExplorationHandlers {
     /**
      * Get nearby POIs
      */
-    static async handleGetNearbyPOIs(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleGetNearbyPOIs(connection: PlayerConnection, data: ValidatedPayload<'get_nearby_pois'>, ctx: HandlerContext): Promise<void> {
         try {
             const { radius } = data;
 
@@ -160,7 +161,7 @@ export class ExplorationHandlers {
     /**
      * Get exploration stats
      */
-    static async handleGetExplorationStats(connection: PlayerConnection, _data: any, ctx: HandlerContext): Promise<void> {
+    static async handleGetExplorationStats(connection: PlayerConnection, _data: ValidatedPayload<'get_exploration_stats'>, ctx: HandlerContext): Promise<void> {
         try {
             const stats = await explorationService.getExplorationStats(connection.playerId);
 
@@ -177,7 +178,7 @@ export class ExplorationHandlers {
     /**
      * Get region/realm info
      */
-    static async handleGetRegionInfo(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleGetRegionInfo(connection: PlayerConnection, data: ValidatedPayload<'get_region_info'>, ctx: HandlerContext): Promise<void> {
         try {
             const { regionId } = data;
             const realm = regionId || connection.realm || 'genesis';
@@ -202,7 +203,7 @@ export class ExplorationHandlers {
     /**
      * Discover a new biome
      */
-    static async handleDiscoverBiome(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleDiscoverBiome(connection: PlayerConnection, data: ValidatedPayload<'discover_biome'>, ctx: HandlerContext): Promise<void> {
         try {
             const { biomeId } = data;
 
@@ -240,15 +241,16 @@ export class ExplorationHandlers {
     /**
      * Reveal fog at a position
      */
-    static async handleRevealFog(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleRevealFog(connection: PlayerConnection, data: ValidatedPayload<'reveal_fog'>, ctx: HandlerContext): Promise<void> {
         try {
-            const { x, y, realm } = data;
-            
+            const { realm } = data;
+
+            // Fog clears where the player is, not where the client says
             const result = await explorationService.revealFog(
                 connection.playerId,
                 realm || connection.realm || 'genesis',
-                x ?? connection.x,
-                y ?? connection.y
+                connection.x,
+                connection.y
             );
 
             ctx.send(connection.ws, {
@@ -264,7 +266,7 @@ export class ExplorationHandlers {
     /**
      * Get milestones
      */
-    static async handleGetMilestones(connection: PlayerConnection, _data: any, ctx: HandlerContext): Promise<void> {
+    static async handleGetMilestones(connection: PlayerConnection, _data: ValidatedPayload<'get_exploration_milestones'>, ctx: HandlerContext): Promise<void> {
         try {
             const milestones = await explorationService.getMilestones(connection.playerId);
 
@@ -281,7 +283,7 @@ export class ExplorationHandlers {
     /**
      * Get discovered biomes
      */
-    static async handleGetDiscoveredBiomes(connection: PlayerConnection, _data: any, ctx: HandlerContext): Promise<void> {
+    static async handleGetDiscoveredBiomes(connection: PlayerConnection, _data: ValidatedPayload<'get_discovered_biomes'>, ctx: HandlerContext): Promise<void> {
         try {
             const biomes = await explorationService.discoveredBiomes(connection.playerId);
 
@@ -302,7 +304,7 @@ export class ExplorationHandlers {
     /**
      * Get available time secrets (currently active windows)
      */
-    static async handleGetAvailableTimeSecrets(connection: PlayerConnection, _data: any, ctx: HandlerContext): Promise<void> {
+    static async handleGetAvailableTimeSecrets(connection: PlayerConnection, _data: ValidatedPayload<'get_available_time_secrets'>, ctx: HandlerContext): Promise<void> {
         try {
             const available = explorationService.getAvailableTimeSecrets();
             const discovered = await explorationService.getDiscoveredTimeSecrets(connection.playerId);
@@ -327,7 +329,7 @@ export class ExplorationHandlers {
     /**
      * Discover a time-based secret
      */
-    static async handleDiscoverTimeSecret(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleDiscoverTimeSecret(connection: PlayerConnection, data: ValidatedPayload<'discover_time_secret'>, ctx: HandlerContext): Promise<void> {
         try {
             const { secretId } = data;
 
@@ -371,7 +373,7 @@ export class ExplorationHandlers {
     /**
      * Get all time secrets (with discovered status)
      */
-    static async handleGetAllTimeSecrets(connection: PlayerConnection, _data: any, ctx: HandlerContext): Promise<void> {
+    static async handleGetAllTimeSecrets(connection: PlayerConnection, _data: ValidatedPayload<'get_all_time_secrets'>, ctx: HandlerContext): Promise<void> {
         try {
             const secrets = await explorationService.getAllTimeSecrets(connection.playerId);
 
@@ -5,7 +5,9 @@
 // =============================================================================
 
 import type { PlayerConnection, HandlerContext } from '../types.js';
+import type { ValidatedPayload } from '../../common/protocol/index.js';
 import { friendshipService } from '../../services/FriendshipService.js';
+import { playerDataService } from '../../services/PlayerDataService.js';
 import { activityFeedService } from '../../services/ActivityFeedService.js';
 
 export class FriendHandlers {
@@ -18,7 +20,7 @@ export class FriendHandlers {
      */
     static async handleStatusRequest(
         connection: PlayerConnection,
-        _data: any,
+        _data: ValidatedPayload<'friend:getStatuses'>,
         ctx: HandlerContext
     ): Promise<void> {
         try {
@@ -53,7 +55,7 @@ export class FriendHandlers {
      */
     static async handleFriendPositionRequest(
         connection: PlayerConnection,
-        data: { friendId: string },
+        data: ValidatedPayload<'friend:getPosition'>,
         ctx: HandlerContext
     ): Promise<void> {
         try {
@@ -107,7 +109,7 @@ export class FriendHandlers {
      */
     static async handleTeleportToFriend(
         connection: PlayerConnection,
-        data: { friendId: string },
+        data: ValidatedPayload<'friend:teleportTo'>,
         ctx: HandlerContext
     ): Promise<void> {
         try {
@@ -127,8 +129,8 @@ export class FriendHandlers {
                 return;
             }
 
-            // Get friend's current position
-            const friendConn = ctx.connections.get(friendId);
+            // Get friend's current position (on any shard)
+            const friendConn = await ctx.locatePlayer(friendId);
             if (!friendConn) {
                 ctx.send(connection.ws, {
                     type: 'teleport_to_friend_result',
@@ -147,7 +149,9 @@ export class FriendHandlers {
             const targetX = friendConn.x + Math.cos(angle) * distance;
             const targetY = friendConn.y + Math.sin(angle) * distance;
 
-            // Send teleport data
+            // Send teleport data (and let the jump pass the speed check)
+            ctx.grantTeleport(connection, targetX, targetY);
+            playerDataService.recordStat(connection.playerId, 'teleports');
             ctx.send(connection.ws, {
                 type: 'teleport_to_friend_result',
                 data: {
@@ -162,7 +166,7 @@ export class FriendHandlers {
             });
 
             // Notify friend of incoming teleport
-            ctx.send(friendConn.ws, {
+            ctx.sendToPlayers([friendId], {
                 type: 'friend_teleporting_to_you',
                 data: {
                     friendId: connection.playerId,
@@ -266,7 +270,7 @@ export class FriendHandlers {
      */
     static async handleAddFriend(
         connection: PlayerConnection,
-        data: { friendId: string; friendName: string },
+        data: ValidatedPayload<'friend:add'>,
         ctx: HandlerContext
     ): Promise<void> {
         try {
@@ -349,7 +353,7 @@ export class FriendHandlers {
      */
     static async handleRemoveFriend(
         connection: PlayerConnection,
-        data: { friendId: string },
+        data: ValidatedPayload<'friend:remove'>,
         ctx: HandlerContext
     ): Promise<void> {
         try {
@@ -387,7 +391,7 @@ export class FriendHandlers {
      */
     static async handleAcceptFriendRequest(
         connection: PlayerConnection,
-        data: { requestId: string },
+        data: ValidatedPayload<'friend:acceptRequest'>,
         ctx: HandlerContext
     ): Promise<void> {
         try {
@@ -428,7 +432,7 @@ export class FriendHandlers {
      */
     static async handleDeclineFriendRequest(
         connection: PlayerConnection,
-        data: { requestId: string },
+        data: ValidatedPayload<'friend:declineRequest'>,
         ctx: HandlerContext
     ): Promise<void> {
         try {
@@ -456,7 +460,7 @@ export class FriendHandlers {
      */
     static async handleGetPendingRequests(
         connection: PlayerConnection,
-        _data: any,
+        _data: ValidatedPayload<'friend:getPendingRequests'>,
         ctx: HandlerContext
     ): Promise<void> {
         try {
@@ -1,4 +1,4 @@
-import { WebSocket } from 'ws';
+import type { BroadcastMessage, SendMessage, SendToPlayer } from '../types.js';
 import { galleryService } from '../../services/GalleryService.js';
 
 interface GalleryMessage {
@@ -11,8 +11,8 @@ interface GalleryMessage {
 }
 
 export function setupGalleryHandlers(
-  ws: WebSocket,
-  broadcast: (message: any, excludeWs?: WebSocket) => void
+  send: SendMessage,
+  broadcast: BroadcastMessage
 ) {
   return {
     handleGalleryMessage: async (message: GalleryMessage) => {
@@ -28,10 +28,10 @@ export function setupGalleryHandlers(
             message.data
           );
           
-          ws.send(JSON.stringify({
+          send({
             type: 'gallery:saved',
             data: result
-          }));
+          });
           break;
         }
 
@@ -39,10 +39,10 @@ export function setupGalleryHandlers(
           const screenshots = await galleryService.getGallery(playerId, message.data);
           const count = await galleryService.getGalleryCount(playerId);
           
-          ws.send(JSON.stringify({
+          send({
             type: 'gallery:list',
             data: { screenshots, count }
-          }));
+          });
           break;
         }
 
@@ -51,10 +51,10 @@ export function setupGalleryHandlers(
           
           const screenshot = await galleryService.getScreenshot(message.screenshotId);
           
-          ws.send(JSON.stringify({
+          send({
             type: 'gallery:screenshot',
             data: screenshot
-          }));
+          });
           break;
         }
 
@@ -63,10 +63,10 @@ export function setupGalleryHandlers(
           
           const success = await galleryService.deleteScreenshot(playerId, message.screenshotId);
           
-          ws.send(JSON.stringify({
+          send({
             type: 'gallery:deleted',
             data: { success, screenshotId: message.screenshotId }
-          }));
+          });
           break;
         }
 
@@ -79,10 +79,10 @@ export function setupGalleryHandlers(
             message.data.caption
           );
           
-          ws.send(JSON.stringify({
+          send({
             type: 'gallery:captionUpdated',
             data: { success, screenshotId: message.screenshotId }
-          }));
+          });
           break;
         }
 
@@ -91,10 +91,10 @@ export function setupGalleryHandlers(
           
           const result = await galleryService.togglePublic(playerId, message.screenshotId);
           
-          ws.send(JSON.stringify({
+          send({
             type: 'gallery:publicToggled',
             data: { ...result, screenshotId: message.screenshotId }
-          }));
+          });
           break;
         }
 
@@ -103,10 +103,10 @@ export function setupGalleryHandlers(
           
           const result = await galleryService.likeScreenshot(message.screenshotId, playerId);
           
-          ws.send(JSON.stringify({
+          send({
             type: 'gallery:liked',
             data: { ...result, screenshotId: message.screenshotId }
-          }));
+          });
 
           // Broadcast like to screenshot owner
           if (result.success) {
@@ -125,10 +125,10 @@ export function setupGalleryHandlers(
         case 'gallery:getPublic': {
           const screenshots = await galleryService.getPublicGallery(message.data);
           
-          ws.send(JSON.stringify({
+          send({
             type: 'gallery:publicList',
             data: { screenshots }
-          }));
+          });
           break;
         }
 
@@ -137,20 +137,20 @@ export function setupGalleryHandlers(
           
           await galleryService.trackShare(message.screenshotId, message.data.platform);
           
-          ws.send(JSON.stringify({
+          send({
             type: 'gallery:shareTracked',
             data: { success: true }
-          }));
+          });
           break;
         }
 
         case 'gallery:getStats': {
           const stats = await galleryService.getPlayerGalleryStats(playerId);
           
-          ws.send(JSON.stringify({
+          send({
             type: 'gallery:stats',
             data: stats
-          }));
+          });
           break;
         }
 
@@ -164,20 +164,20 @@ export function setupGalleryHandlers(
             message.data.description
           );
           
-          ws.send(JSON.stringify({
+          send({
             type: 'gallery:albumCreated',
             data: result
-          }));
+          });
           break;
         }
 
         case 'gallery:getAlbums': {
           const albums = await galleryService.getAlbums(playerId);
           
-          ws.send(JSON.stringify({
+          send({
             type: 'gallery:albumsList',
             data: { albums }
-          }));
+          });
           break;
         }
 
@@ -190,10 +190,10 @@ export function setupGalleryHandlers(
             message.screenshotId
           );
           
-          ws.send(JSON.stringify({
+          send({
             type: 'gallery:addedToAlbum',
             data: { success, albumId: message.albumId, screenshotId: message.screenshotId }
-          }));
+          });
           break;
         }
 
@@ -206,10 +206,10 @@ export function setupGalleryHandlers(
             message.screenshotId
           );
           
-          ws.send(JSON.stringify({
+          send({
             type: 'gallery:removedFromAlbum',
             data: { success, albumId: message.albumId, screenshotId: message.screenshotId }
-          }));
+          });
           break;
         }
 
@@ -218,10 +218,10 @@ export function setupGalleryHandlers(
           
           const screenshots = await galleryService.getAlbumScreenshots(message.albumId);
           
-          ws.send(JSON.stringify({
+          send({
             type: 'gallery:albumScreenshots',
             data: { albumId: message.albumId, screenshots }
-          }));
+          });
           break;
         }
       }
@@ -231,8 +231,8 @@ export function setupGalleryHandlers(
 
 // Event listeners for gallery service
 export function initializeGalleryEventListeners(
-  broadcast: (message: any) => void,
-  sendToPlayer: (playerId: string, message: any) => void
+  broadcast: BroadcastMessage,
+  sendToPlayer: SendToPlayer
 ) {
   galleryService.on('screenshot_liked', (data) => {
     // Notify the screenshot owner
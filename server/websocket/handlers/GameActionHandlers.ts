@@ -3,15 +3,36 @@
 // =============================================================================
 
 import type { PlayerConnection, HandlerContext, Echo } from '../types.js';
+import type { ValidatedPayload } from '../../common/protocol/index.js';
+import type { PulsePatternInfo, ServerMessage } from '../../common/protocol/index.js';
+import type { SpatialMap } from '../../common/spatial/index.js';
 import { progressionService } from '../../services/ProgressionService.js';
+import { playerDataService } from '../../services/PlayerDataService.js';
 import { resonanceService } from '../../services/ResonanceService.js';
 import { beaconService } from '../../services/BeaconService.js';
+import { bondService, BOND_CONFIG } from '../../services/BondService.js';
+import { moderationService } from '../../services/ModerationService.js';
+import { sendModerationNotice } from './ChatHandlers.js';
+
+/**
+ * Players within reach of a sing, pulse or emote grow their bond with the actor
+ */
+function strengthenNearbyBonds(
+    connection: PlayerConnection,
+    players: SpatialMap<PlayerConnection>,
+    interaction: 'sing' | 'pulse' | 'emote'
+): void {
+    for (const other of players.within(connection.x, connection.y, BOND_CONFIG.INTERACTION_RANGE)) {
+        if (other.playerId === connection.playerId || other.isBot) continue;
+        bondService.updateBondStrength(connection.playerId, other.playerId, interaction, connection.realm);
+    }
+}
 
 export class GameActionHandlers {
     /**
      * Handle singing (voice ripple)
      */
-    static async handleSing(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleSing(connection: PlayerConnection, data: ValidatedPayload<'sing'>, ctx: HandlerContext): Promise<void> {
         try {
             const { pitch, duration, intensity } = data;
 
@@ -21,7 +42,7 @@ export class GameActionHandlers {
             const now = Date.now();
 
             // Create ripple effect
-            const ripple = {
+            const ripple: ServerMessage<'voice_ripple'> = {
                 type: 'voice_ripple',
                 data: {
                     playerId: connection.playerId,
@@ -41,10 +62,12 @@ export class GameActionHandlers {
                 for (const conn of realm.values()) {
                     ctx.send(conn.ws, ripple);
                 }
+                strengthenNearbyBonds(connection, realm, 'sing');
             }
 
             // Award XP for singing
             await progressionService.addXP(connection.playerId, 1, 'sing');
+            playerDataService.recordStat(connection.playerId, 'sings');
         } catch (error) {
             console.error('Failed to handle sing:', error);
         }
@@ -53,7 +76,7 @@ export class GameActionHandlers {
     /**
      * Handle pulse (heartbeat visualization)
      */
-    static handlePulse(connection: PlayerConnection, data: any, ctx: HandlerContext): void {
+    static handlePulse(connection: PlayerConnection, data: ValidatedPayload<'pulse'>, ctx: HandlerContext): void {
         try {
             const { intensity, color } = data;
 
@@ -61,7 +84,7 @@ export class GameActionHandlers {
 
             const now = Date.now();
 
-            const pulse = {
+            const pulse: ServerMessage<'pulse'> = {
                 type: 'pulse',
                 data: {
                     playerId: connection.playerId,
@@ -84,7 +107,7 @@ export class GameActionHandlers {
                 let broadcastCount = 0;
                 console.log(`🟠 [SERVER GameAction] Checking broadcast for pulse in realm=${connection.realm} (total players: ${realm.size})`);
 
-                for (const conn of realm.values()) {
+                for (const conn of realm.within(connection.x, connection.y, 300)) {
                     const dx = conn.x - connection.x;
                     const dy = conn.y - connection.y;
                     const distance = Math.sqrt(dx * dx + dy * dy);
@@ -97,6 +120,8 @@ export class GameActionHandlers {
                     }
                 }
                 console.log(`🟠 [SERVER GameAction] Pulse broadcast to ${broadcastCount} nearby players`);
+                playerDataService.recordStat(connection.playerId, 'pulses');
+                strengthenNearbyBonds(connection, realm, 'pulse');
             } else {
                 console.log(`🟠 [SERVER GameAction] NO REALM FOUND for ${connection.realm}`);
             }
@@ -108,7 +133,7 @@ export class GameActionHandlers {
     /**
      * Handle emote
      */
-    static async handleEmote(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleEmote(connection: PlayerConnection, data: ValidatedPayload<'emote'>, ctx: HandlerContext): Promise<void> {
         try {
             const { emoteId } = data;
 
@@ -116,7 +141,7 @@ export class GameActionHandlers {
 
             const now = Date.now();
 
-            const emote = {
+            const emote: ServerMessage<'emote'> = {
                 type: 'emote',
                 data: {
                     playerId: connection.playerId,
@@ -134,10 +159,12 @@ export class GameActionHandlers {
                 for (const conn of realm.values()) {
                     ctx.send(conn.ws, emote);
                 }
+                strengthenNearbyBonds(connection, realm, 'emote');
             }
 
             // Track emote for achievements
             await progressionService.addXP(connection.playerId, 1, 'emote');
+            playerDataService.recordStat(connection.playerId, 'emotes');
         } catch (error) {
             console.error('Failed to handle emote:', error);
         }
@@ -146,9 +173,9 @@ export class GameActionHandlers {
     /**
      * Handle creating an echo
      */
-    static async handleCreateEcho(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleCreateEcho(connection: PlayerConnection, data: ValidatedPayload<'echo'>, ctx: HandlerContext): Promise<void> {
         try {
-            const { message, duration } = data;
+            const { message, ttl } = data;
 
             if (!message || typeof message !== 'string') return;
 
@@ -158,15 +185,25 @@ export class GameActionHandlers {
                 return;
             }
 
+            const verdict = moderationService.moderateMessage(connection.playerId, trimmed, {
+                playerName: connection.playerName,
+                realm: connection.realm,
+                channel: 'echo'
+            });
+            if (!verdict.allowed) {
+                sendModerationNotice(connection, verdict, ctx);
+                return;
+            }
+
             const echo: Echo = {
                 id: `echo_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
                 playerId: connection.playerId,
                 playerName: connection.playerName,
-                message: trimmed,
+                message: verdict.text,
                 x: connection.x,
                 y: connection.y,
                 createdAt: Date.now(),
-                expiresAt: Date.now() + (duration || 60000),
+                expiresAt: Date.now() + (ttl || 60000),
                 resonanceCount: 0
             };
 
@@ -187,6 +224,7 @@ export class GameActionHandlers {
 
             // Award XP
             await progressionService.addXP(connection.playerId, 5, 'create_echo');
+            playerDataService.recordStat(connection.playerId, 'echoesCreated');
         } catch (error) {
             console.error('Failed to create echo:', error);
         }
@@ -195,7 +233,7 @@ export class GameActionHandlers {
     /**
      * Handle resonating with an echo
      */
-    static async handleResonateEcho(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleResonateEcho(connection: PlayerConnection, data: ValidatedPayload<'echo_ignite'>, ctx: HandlerContext): Promise<void> {
         try {
             const { echoId } = data;
 
@@ -235,23 +273,16 @@ export class GameActionHandlers {
     /**
      * Handle lighting a star
      */
-    static async handleLightStar(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleLightStar(connection: PlayerConnection, data: ValidatedPayload<'star_lit'>, ctx: HandlerContext): Promise<void> {
         try {
-            const { starId, message } = data;
+            const { starId } = data;
 
             if (!starId) return;
 
             const now = Date.now();
 
             // Track star lighting
-            if (!ctx.litStars) {
-                (ctx as any).litStars = new Map();
-            }
-            (ctx as any).litStars.set(starId, {
-                playerId: connection.playerId,
-                message: message?.substring(0, 100) || '',
-                litAt: now
-            });
+            ctx.litStars.add(starId);
 
             // Broadcast to realm
             if (connection.realm && ctx.realms.has(connection.realm)) {
@@ -263,7 +294,6 @@ export class GameActionHandlers {
                             starId,
                             playerId: connection.playerId,
                             playerName: connection.playerName,
-                            message: message?.substring(0, 100) || '',
                             timestamp: now
                         },
                         timestamp: now
@@ -273,6 +303,7 @@ export class GameActionHandlers {
 
             // Award XP
             await progressionService.addXP(connection.playerId, 10, 'light_star');
+            playerDataService.recordStat(connection.playerId, 'starsLit');
         } catch (error) {
             console.error('Failed to light star:', error);
         }
@@ -281,14 +312,14 @@ export class GameActionHandlers {
     /**
      * Handle resonance with another player
      */
-    static async handleResonance(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleResonance(connection: PlayerConnection, data: ValidatedPayload<'resonance'>, ctx: HandlerContext): Promise<void> {
         try {
-            const { targetId, strength } = data;
+            const { targetId, intensity } = data;
 
             if (!targetId) return;
 
             // Track resonance
-            await resonanceService.recordResonance(connection.playerId, targetId, strength || 1.0);
+            await resonanceService.recordResonance(connection.playerId, targetId, intensity || 1.0);
 
             const now = Date.now();
 
@@ -303,7 +334,7 @@ export class GameActionHandlers {
                         data: {
                             fromId: connection.playerId,
                             fromName: connection.playerName,
-                            strength: strength || 1.0
+                            strength: intensity || 1.0
                         },
                         timestamp: now
                     });
@@ -314,7 +345,7 @@ export class GameActionHandlers {
                 type: 'resonance_sent',
                 data: {
                     targetId,
-                    strength: strength || 1.0
+                    strength: intensity || 1.0
                 },
                 timestamp: Date.now()
             });
@@ -326,13 +357,13 @@ export class GameActionHandlers {
     /**
      * Handle wave gesture
      */
-    static handleWave(connection: PlayerConnection, data: any, ctx: HandlerContext): void {
+    static handleWave(connection: PlayerConnection, data: ValidatedPayload<'wave'>, ctx: HandlerContext): void {
         try {
             const { targetId } = data;
 
             const now = Date.now();
 
-            const wave = {
+            const wave: ServerMessage<'wave'> = {
                 type: 'wave',
                 data: {
                     playerId: connection.playerId,
@@ -433,13 +464,18 @@ export class GameActionHandlers {
     private static readonly PULSE_TIMEOUT = 5000; // Reset if no pulse for 5s
 
     /**
-     * Handle pulse pattern completion
+     * Handle pulse pattern completion reported by the client. The pattern is
+     * verified against the pulses the server recorded for the player.
+     */
+    static async handlePulsePatternCompleted(connection: PlayerConnection, data: ValidatedPayload<'pulse_pattern_completed'>, ctx: HandlerContext): Promise<void> {
+        await this.completePulsePattern(connection, data.patternId, this.recentPulses.get(connection.playerId) || [], ctx);
+    }
+
+    /**
      * When a player completes a recognized pattern, broadcast to nearby players
      */
-    static async handlePulsePatternCompleted(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    private static async completePulsePattern(connection: PlayerConnection, patternId: string, pulseTimestamps: number[], ctx: HandlerContext): Promise<void> {
         try {
-            const { patternId, pulseTimestamps } = data;
-
             // Validate pattern exists
             const pattern = this.PULSE_PATTERNS[patternId];
             if (!pattern) {
@@ -461,7 +497,7 @@ export class GameActionHandlers {
             // Broadcast pattern completion to nearby players
             if (connection.realm && ctx.realms.has(connection.realm)) {
                 const realm = ctx.realms.get(connection.realm)!;
-                for (const conn of realm.values()) {
+                for (const conn of realm.within(connection.x, connection.y, 400)) {
                     const dx = conn.x - connection.x;
                     const dy = conn.y - connection.y;
                     const distance = Math.sqrt(dx * dx + dy * dy);
@@ -505,7 +541,7 @@ export class GameActionHandlers {
     /**
      * Record a pulse and check for pattern completion
      */
-    static async handleRecordPulse(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleRecordPulse(connection: PlayerConnection, data: ValidatedPayload<'record_pulse'>, ctx: HandlerContext): Promise<void> {
         try {
             const now = Date.now();
             const playerId = connection.playerId;
@@ -535,10 +571,7 @@ export class GameActionHandlers {
                 this.recentPulses.set(playerId, []);
 
                 // Auto-broadcast the pattern
-                await this.handlePulsePatternCompleted(connection, {
-                    patternId: matchedPattern,
-                    pulseTimestamps: pulses
-                }, ctx);
+                await this.completePulsePattern(connection, matchedPattern, pulses, ctx);
             }
 
         } catch (error) {
@@ -610,9 +643,9 @@ export class GameActionHandlers {
     /**
      * Get available pulse patterns for learning
      */
-    static handleGetPulsePatterns(connection: PlayerConnection, _data: any, ctx: HandlerContext): void {
+    static handleGetPulsePatterns(connection: PlayerConnection, _data: ValidatedPayload<'get_pulse_patterns'>, ctx: HandlerContext): void {
         try {
-            const patterns = Object.entries(this.PULSE_PATTERNS).map(([id, pattern]) => ({
+            const patterns = Object.entries(this.PULSE_PATTERNS).map(([id, pattern]): PulsePatternInfo => ({
                 id,
                 name: pattern.name,
                 description: pattern.description,
@@ -670,6 +703,7 @@ export class GameActionHandlers {
 
             // Grant XP via progressionService for consistency
             await progressionService.addXP(connection.playerId, result.xpAwarded || 10, 'beacon');
+            playerDataService.recordStat(connection.playerId, 'beaconsLit');
 
             // Broadcast beacon state update to entire realm
             if (connection.realm) {
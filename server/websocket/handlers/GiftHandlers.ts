@@ -3,16 +3,19 @@
 // =============================================================================
 
 import type { PlayerConnection, HandlerContext } from '../types.js';
+import type { ValidatedPayload } from '../../common/protocol/index.js';
 import { giftService } from '../../services/GiftService.js';
+import { playerDataService } from '../../services/PlayerDataService.js';
+import { bondService } from '../../services/BondService.js';
 import { notificationService } from '../../services/NotificationService.js';
 
 export class GiftHandlers {
     /**
      * Send a gift to another player
      */
-    static async handleSendGift(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleSendGift(connection: PlayerConnection, data: ValidatedPayload<'send_gift'>, ctx: HandlerContext): Promise<void> {
         try {
-            const { toPlayerId, giftType, amount, message } = data;
+            const { recipientId: toPlayerId, giftType, amount, message } = data;
 
             if (!toPlayerId) {
                 ctx.sendError(connection, 'Recipient ID required');
@@ -40,6 +43,10 @@ export class GiftHandlers {
             );
 
             if (result.success) {
+                playerDataService.recordStat(connection.playerId, 'giftsGiven');
+                playerDataService.recordStat(toPlayerId, 'giftsReceived');
+                bondService.updateBondStrength(connection.playerId, toPlayerId, 'gift', connection.realm);
+
                 // Confirm to sender
                 ctx.send(connection.ws, {
                     type: 'gift_sent',
@@ -90,7 +97,7 @@ export class GiftHandlers {
     /**
      * Claim a received gift
      */
-    static async handleClaimGift(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleClaimGift(connection: PlayerConnection, data: ValidatedPayload<'claim_gift'>, ctx: HandlerContext): Promise<void> {
         try {
             const { giftId } = data;
 
@@ -124,7 +131,7 @@ export class GiftHandlers {
     /**
      * Get pending gifts
      */
-    static async handleGetPendingGifts(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleGetPendingGifts(connection: PlayerConnection, data: ValidatedPayload<'get_pending_gifts'>, ctx: HandlerContext): Promise<void> {
         try {
             const gifts = await giftService.getPendingGifts(connection.playerId);
 
@@ -142,7 +149,7 @@ export class GiftHandlers {
     /**
      * Get gift history
      */
-    static async handleGetGiftHistory(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleGetGiftHistory(connection: PlayerConnection, data: ValidatedPayload<'get_gift_history'>, ctx: HandlerContext): Promise<void> {
         try {
             const { limit = 50 } = data;
             const history = await giftService.getGiftHistory(connection.playerId, limit);
@@ -161,7 +168,7 @@ export class GiftHandlers {
     /**
      * Get gift cooldown info
      */
-    static async handleGetGiftCooldown(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleGetGiftCooldown(connection: PlayerConnection, data: ValidatedPayload<'get_gift_cooldown'>, ctx: HandlerContext): Promise<void> {
         try {
             const { targetId } = data;
             const cooldownInfo = await giftService.getGiftCooldown(connection.playerId, targetId);
@@ -180,7 +187,7 @@ export class GiftHandlers {
     /**
      * Get gift streak with a player
      */
-    static async handleGetGiftStreak(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleGetGiftStreak(connection: PlayerConnection, data: ValidatedPayload<'get_gift_streak'>, ctx: HandlerContext): Promise<void> {
         try {
             const { targetId } = data;
             const streakInfo = await giftService.getGiftStreak(connection.playerId, targetId);
@@ -3,37 +3,54 @@
 // =============================================================================
 
 import type { PlayerConnection, HandlerContext } from '../types.js';
+import type { ValidatedPayload } from '../../common/protocol/index.js';
+import type { ServerMessage } from '../../common/protocol/index.js';
 import { guildService } from '../../services/index.js';
 import { notificationService } from '../../services/NotificationService.js';
+import { moderationService } from '../../services/ModerationService.js';
+import { sendModerationNotice } from './ChatHandlers.js';
 
 export class GuildHandlers {
     /**
      * Route guild actions to appropriate handler
      */
-    static async handleGuildAction(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleGuildAction(connection: PlayerConnection, data: ValidatedPayload<'guild_action'>, ctx: HandlerContext): Promise<void> {
         const { action } = data;
 
+        // guild_action carries the fields of every action; each handler gets its own message's shape
         switch (action) {
             case 'create':
-                await this.handleCreateGuild(connection, data, ctx);
+                await this.handleCreateGuild(connection, {
+                    name: data.guildName,
+                    tag: data.guildTag,
+                    description: data.guildDescription,
+                    icon: data.icon,
+                    color: data.color,
+                    isPublic: data.isPublic
+                }, ctx);
                 break;
             case 'join':
-                await this.handleJoinGuild(connection, data, ctx);
+                await this.handleJoinGuild(connection, { guildId: data.guildId }, ctx);
                 break;
             case 'leave':
-                await this.handleLeaveGuild(connection, data, ctx);
+                await this.handleLeaveGuild(connection, { guildId: data.guildId }, ctx);
                 break;
             case 'list':
-                await this.handleListGuilds(connection, data, ctx); // Rename to search/list
+                await this.handleListGuilds(connection, {
+                    limit: data.limit,
+                    offset: data.offset,
+                    query: data.query,
+                    sortBy: data.sortBy
+                }, ctx); // Rename to search/list
                 break;
             case 'info':
-                await this.handleGetGuildInfo(connection, data, ctx);
+                await this.handleGetGuildInfo(connection, { guildId: data.guildId }, ctx);
                 break;
             case 'contribute':
-                await this.handleGuildContribute(connection, data, ctx);
+                await this.handleGuildContribute(connection, { contributionType: data.contributionType, amount: data.amount }, ctx);
                 break;
             case 'chat':
-                await this.handleGuildChat(connection, data, ctx);
+                await this.handleGuildChat(connection, { message: data.text }, ctx);
                 break;
             default:
                 ctx.sendError(connection, `Unknown guild action: ${action}`);
@@ -43,9 +60,9 @@ export class GuildHandlers {
     /**
      * Create a new guild
      */
-    static async handleCreateGuild(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleCreateGuild(connection: PlayerConnection, data: ValidatedPayload<'create_guild'>, ctx: HandlerContext): Promise<void> {
         try {
-            const { guildName, guildTag, guildDescription, icon, color, isPublic } = data;
+            const { name: guildName, tag: guildTag, description: guildDescription, icon, color, isPublic } = data;
 
             if (!guildName || guildName.length < 3 || guildName.length > 30) {
                 ctx.sendError(connection, 'Guild name must be 3-30 characters');
@@ -96,7 +113,7 @@ export class GuildHandlers {
     /**
      * Join an existing guild
      */
-    static async handleJoinGuild(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleJoinGuild(connection: PlayerConnection, data: ValidatedPayload<'join_guild'>, ctx: HandlerContext): Promise<void> {
         try {
             const { guildId } = data;
 
@@ -163,7 +180,7 @@ export class GuildHandlers {
     /**
      * Leave current guild
      */
-    static async handleLeaveGuild(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleLeaveGuild(connection: PlayerConnection, data: ValidatedPayload<'leave_guild'>, ctx: HandlerContext): Promise<void> {
         try {
             const { guildId } = data; // Usually client sends guildId, or we can look it up
 
@@ -220,7 +237,7 @@ export class GuildHandlers {
     /**
      * List available guilds
      */
-    static async handleListGuilds(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleListGuilds(connection: PlayerConnection, data: ValidatedPayload<'list_guilds'>, ctx: HandlerContext): Promise<void> {
         try {
             const { limit = 20, offset = 0, query, sortBy } = data;
             const guilds = await guildService.searchGuilds({
@@ -244,7 +261,7 @@ export class GuildHandlers {
     /**
      * Get guild info
      */
-    static async handleGetGuildInfo(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleGetGuildInfo(connection: PlayerConnection, data: ValidatedPayload<'get_guild_info'>, ctx: HandlerContext): Promise<void> {
         try {
             const { guildId } = data;
             if (!guildId) {
@@ -282,16 +299,11 @@ export class GuildHandlers {
     /**
      * Contribute to guild
      */
-    static async handleGuildContribute(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleGuildContribute(connection: PlayerConnection, data: ValidatedPayload<'guild_contribute'>, ctx: HandlerContext): Promise<void> {
         try {
-            const { contributionType, amount, guildId } = data;
-
-            let targetGuildId = guildId;
-            if (!targetGuildId) {
-                const playerGuild = await guildService.getPlayerGuild(connection.playerId);
-                if (playerGuild) targetGuildId = playerGuild.guildId;
-            }
+            const { contributionType, amount } = data;
 
+            const targetGuildId = (await guildService.getPlayerGuild(connection.playerId))?.guildId;
             if (!targetGuildId) {
                 ctx.sendError(connection, 'Not in a guild');
                 return;
@@ -350,27 +362,32 @@ export class GuildHandlers {
     /**
      * Handle guild chat message
      */
-    static async handleGuildChat(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleGuildChat(connection: PlayerConnection, data: ValidatedPayload<'guild_chat'>, ctx: HandlerContext): Promise<void> {
         try {
-            const { text, guildId } = data;
+            const { message: text } = data;
 
             if (!text || text.trim().length === 0) {
                 return;
             }
 
-            let targetGuildId = guildId;
+            const targetGuildId = (await guildService.getPlayerGuild(connection.playerId))?.guildId;
             if (!targetGuildId) {
-                const playerGuild = await guildService.getPlayerGuild(connection.playerId);
-                if (playerGuild) targetGuildId = playerGuild.guildId;
+                ctx.sendError(connection, 'Not in a guild');
+                return;
             }
 
-            if (!targetGuildId) {
-                ctx.sendError(connection, 'Not in a guild');
+            const verdict = moderationService.moderateMessage(connection.playerId, text.trim().substring(0, 500), {
+                playerName: connection.playerName,
+                realm: connection.realm,
+                channel: 'guild'
+            });
+            if (!verdict.allowed) {
+                sendModerationNotice(connection, verdict, ctx);
                 return;
             }
 
             // Use service to save and send
-            await guildService.sendChatMessage(targetGuildId, connection.playerId, text);
+            await guildService.sendChatMessage(targetGuildId, connection.playerId, verdict.text);
 
             // Note: guildService emits 'chat_message', but we might want to manually broadcast here
             // if we are not listening to the service events globally. 
@@ -380,24 +397,20 @@ export class GuildHandlers {
             const guild = await guildService.getGuild(targetGuildId);
             if (!guild) return;
 
-            const chatMessage = {
+            const chatMessage: ServerMessage<'guild_chat_message'> = {
                 type: 'guild_chat_message',
                 data: {
                     guildId: targetGuildId,
                     fromId: connection.playerId,
                     fromName: connection.playerName,
-                    text: text.trim().substring(0, 500),
+                    text: verdict.text,
                     timestamp: Date.now()
                 },
                 timestamp: Date.now()
             };
 
-            for (const member of guild.members) {
-                const memberConn = ctx.connections.get(member.playerId);
-                if (memberConn) {
-                    ctx.send(memberConn.ws, chatMessage);
-                }
-            }
+            // Members may be connected to other shards
+            ctx.sendToPlayers(guild.members.map(member => member.playerId), chatMessage);
         } catch (error: any) {
             console.error('Error sending guild chat:', error);
             ctx.sendError(connection, error.message || 'Failed to send guild chat'); // Optional, maybe silent fail
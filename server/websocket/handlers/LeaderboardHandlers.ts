@@ -3,23 +3,40 @@
 // =============================================================================
 
 import type { PlayerConnection, HandlerContext } from '../types.js';
-import { leaderboardService } from '../../services/LeaderboardService.js';
+import type { ValidatedPayload } from '../../common/protocol/index.js';
+import { leaderboardService, isLeaderboardCategory } from '../../services/LeaderboardService.js';
+import type { LeaderboardCategory, LeaderboardPeriod } from '../../services/LeaderboardService.js';
+
+// There are no daily boards; a daily timeframe gets the all-time board
+function periodOf(timeframe?: string): LeaderboardPeriod {
+    return timeframe === 'weekly' || timeframe === 'monthly' ? timeframe : 'alltime';
+}
+
+// A missing or unknown type gets the XP board
+function categoryOf(type?: string): LeaderboardCategory {
+    return type && isLeaderboardCategory(type) ? type : 'xp';
+}
 
 export class LeaderboardHandlers {
     /**
      * Request leaderboard
      */
-    static async handleRequestLeaderboard(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleRequestLeaderboard(connection: PlayerConnection, data: ValidatedPayload<'request_leaderboard'>, ctx: HandlerContext): Promise<void> {
         try {
-            const { type, limit } = data;
-            const category = type || 'xp';
+            const { type, timeframe, limit, offset } = data;
+            const category = categoryOf(type);
 
-            const result = await leaderboardService.getLeaderboard(category, limit || 50);
+            const result = await leaderboardService.getLeaderboard(category, limit || 50, {
+                period: periodOf(timeframe),
+                offset
+            });
 
             ctx.send(connection.ws, {
                 type: 'leaderboard',
                 data: {
                     leaderboardType: category,
+                    period: result.period,
+                    offset: offset || 0,
                     entries: result.entries,
                     totalPlayers: result.totalPlayers,
                     lastUpdated: result.lastUpdated
@@ -34,12 +51,12 @@ export class LeaderboardHandlers {
     /**
      * Get player's rank
      */
-    static async handleGetPlayerRank(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleGetPlayerRank(connection: PlayerConnection, data: ValidatedPayload<'request_player_rank'>, ctx: HandlerContext): Promise<void> {
         try {
-            const { type } = data;
-            const category = type || 'xp';
+            const { type, timeframe } = data;
+            const category = categoryOf(type);
 
-            const rank = await leaderboardService.getPlayerRank(connection.playerId, category);
+            const rank = await leaderboardService.getPlayerRank(connection.playerId, category, periodOf(timeframe));
 
             if (rank) {
                 ctx.send(connection.ws, {
@@ -67,13 +84,13 @@ export class LeaderboardHandlers {
     /**
      * Get nearby players on leaderboard
      */
-    static async handleGetNearbyRanks(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleGetNearbyRanks(connection: PlayerConnection, data: ValidatedPayload<'request_nearby_ranks'>, ctx: HandlerContext): Promise<void> {
         try {
-            const { type } = data;
-            const category = type || 'xp';
+            const { type, timeframe } = data;
+            const category = categoryOf(type);
 
             // getPlayerRank includes nearbyPlayers
-            const rank = await leaderboardService.getPlayerRank(connection.playerId, category);
+            const rank = await leaderboardService.getPlayerRank(connection.playerId, category, periodOf(timeframe));
 
             ctx.send(connection.ws, {
                 type: 'nearby_ranks',
@@ -92,17 +109,15 @@ export class LeaderboardHandlers {
     /**
      * Get friend leaderboard
      */
-    static async handleGetFriendLeaderboard(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleGetFriendLeaderboard(connection: PlayerConnection, data: ValidatedPayload<'request_friend_leaderboard'>, ctx: HandlerContext): Promise<void> {
         try {
-            const { type } = data;
-            const category = type || 'xp';
+            const { type, timeframe } = data;
+            const category = categoryOf(type);
 
-            // Get full leaderboard and filter by friends
-            const result = await leaderboardService.getLeaderboard(category, 1000);
             const friendIds = connection.friends ? Array.from(connection.friends) : [];
             friendIds.push(connection.playerId);
-            
-            const friendEntries = result.entries.filter(e => friendIds.includes(e.playerId));
+
+            const friendEntries = await leaderboardService.getLeaderboardFor(friendIds, category, periodOf(timeframe));
 
             ctx.send(connection.ws, {
                 type: 'friend_leaderboard',
@@ -120,24 +135,16 @@ export class LeaderboardHandlers {
     /**
      * Get realm leaderboard
      */
-    static async handleGetRealmLeaderboard(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleGetRealmLeaderboard(connection: PlayerConnection, data: ValidatedPayload<'request_realm_leaderboard'>, ctx: HandlerContext): Promise<void> {
         try {
             const { type, limit } = data;
-            const category = type || 'xp';
-            const realm = connection.realm || 'genesis';
-
-            // Get leaderboard and filter by current realm players
-            const result = await leaderboardService.getLeaderboard(category, limit || 500);
-            
-            const realmPlayerIds: string[] = [];
-            if (ctx.realms.has(realm)) {
-                const realmMap = ctx.realms.get(realm)!;
-                for (const [playerId] of Array.from(realmMap.entries())) {
-                    realmPlayerIds.push(playerId);
-                }
-            }
-            
-            const realmEntries = result.entries.filter(e => realmPlayerIds.includes(e.playerId));
+            const category = categoryOf(type);
+            const realm = data.realm || connection.realm || 'genesis';
+
+            // Overall ranks of the players currently in this realm
+            const realmPlayerIds = ctx.realms.get(realm)?.keys() || [];
+            const realmEntries = (await leaderboardService.getLeaderboardFor(realmPlayerIds, category))
+                .slice(0, limit || 100);
 
             ctx.send(connection.ws, {
                 type: 'realm_leaderboard',
@@ -156,7 +163,7 @@ export class LeaderboardHandlers {
     /**
      * Get available leaderboard types
      */
-    static handleGetLeaderboardTypes(connection: PlayerConnection, _data: any, ctx: HandlerContext): void {
+    static handleGetLeaderboardTypes(connection: PlayerConnection, _data: ValidatedPayload<'get_leaderboard_types'>, ctx: HandlerContext): void {
         try {
             const types = [
                 { id: 'xp', name: 'Experience Points', description: 'Total XP earned' },
@@ -164,6 +171,7 @@ export class LeaderboardHandlers {
                 { id: 'stars', name: 'Star Lighters', description: 'Stars lit' },
                 { id: 'echoes', name: 'Echo Creators', description: 'Echoes created' },
                 { id: 'connections', name: 'Social Butterflies', description: 'Connections made' },
+                { id: 'rankPoints', name: 'Competitors', description: 'Competitive rank points' },
                 { id: 'challenges', name: 'Challenge Masters', description: 'Challenges completed' },
                 { id: 'seasonXp', name: 'Season Champions', description: 'Season pass XP' },
                 { id: 'reputation_explorer', name: 'Explorers', description: 'Explorer reputation' },
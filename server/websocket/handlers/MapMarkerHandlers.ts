@@ -7,6 +7,7 @@
 // @ts-ignore - uuid package types
 import { v4 as uuidv4 } from 'uuid';
 import type { PlayerConnection, HandlerContext } from '../types.js';
+import type { ValidatedPayload } from '../../common/protocol/index.js';
 import { 
     MapMarker, 
     MarkerShareInvite, 
@@ -14,8 +15,17 @@ import {
     CreateMarkerInput,
     MarkerQueryOptions 
 } from '../../database/markerModels.js';
+import type { IMapMarker, IMarkerShareInvite, IMarkerPreset } from '../../database/markerModels.js';
 import { friendshipService } from '../../services/FriendshipService.js';
 import { constellationService } from '../../services/ConstellationService.js';
+import { persistence } from '../../persistence/index.js';
+import type { Filter, Stored } from '../../persistence/index.js';
+
+type MapMarkerRecord = Stored<IMapMarker>;
+
+const markers = persistence.repository<MapMarkerRecord>(MapMarker);
+const shareInvites = persistence.repository<Stored<IMarkerShareInvite>>(MarkerShareInvite);
+const presets = persistence.repository<Stored<IMarkerPreset>>(MarkerPreset);
 
 // ============================================
 // LIMITS
@@ -42,7 +52,7 @@ export class MapMarkerHandlers {
 
     static async handleCreateMarker(
         connection: PlayerConnection,
-        data: CreateMarkerInput,
+        data: ValidatedPayload<'marker:create'>,
         ctx: HandlerContext
     ): Promise<void> {
         try {
@@ -58,13 +68,13 @@ export class MapMarkerHandlers {
             }
 
             // Check marker limits
-            const existingCount = await MapMarker.countDocuments({ playerId: connection.playerId });
+            const existingCount = await markers.count({ playerId: connection.playerId });
             if (existingCount >= LIMITS.MAX_MARKERS_PER_PLAYER) {
                 ctx.sendError(connection, `Maximum ${LIMITS.MAX_MARKERS_PER_PLAYER} markers allowed`);
                 return;
             }
 
-            const realmCount = await MapMarker.countDocuments({ 
+            const realmCount = await markers.count({ 
                 playerId: connection.playerId, 
                 realm: connection.realm 
             });
@@ -81,7 +91,7 @@ export class MapMarkerHandlers {
 
             // Create marker
             const markerId = `marker_${uuidv4()}`;
-            const marker = await MapMarker.create({
+            const marker = await markers.insert({
                 markerId,
                 playerId: connection.playerId,
                 playerName: connection.playerName,
@@ -141,14 +151,14 @@ export class MapMarkerHandlers {
 
     static async handleGetMarkers(
         connection: PlayerConnection,
-        data: MarkerQueryOptions,
+        data: ValidatedPayload<'marker:get'>,
         ctx: HandlerContext
     ): Promise<void> {
         try {
             const realm = data.realm || connection.realm;
             
             // Build query for markers visible to this player
-            const query: any = {
+            const query: Filter = {
                 realm,
                 $or: [
                     // Player's own markers
@@ -206,17 +216,17 @@ export class MapMarkerHandlers {
                 });
             }
 
-            const markers = await MapMarker.find(query)
-                .sort({ createdAt: -1 })
-                .limit(data.limit || 100)
-                .skip(data.skip || 0)
-                .lean();
+            const visible = await markers.find(query, {
+                sort: { createdAt: -1 },
+                limit: data.limit || 100,
+                skip: data.skip || 0
+            });
 
             ctx.send(connection.ws, {
                 type: 'markers_list',
                 data: {
                     realm,
-                    markers: markers.map(m => ({
+                    markers: visible.map(m => ({
                         markerId: m.markerId,
                         playerId: m.playerId,
                         playerName: m.playerName,
@@ -231,7 +241,7 @@ export class MapMarkerHandlers {
                         isOwn: m.playerId === connection.playerId,
                         expiresAt: m.expiresAt
                     })),
-                    total: await MapMarker.countDocuments(query)
+                    total: await markers.count(query)
                 },
                 timestamp: Date.now()
             });
@@ -248,17 +258,14 @@ export class MapMarkerHandlers {
 
     static async handleUpdateMarker(
         connection: PlayerConnection,
-        data: { 
-            markerId: string; 
-            updates: Partial<CreateMarkerInput> 
-        },
+        data: ValidatedPayload<'marker:update'>,
         ctx: HandlerContext
     ): Promise<void> {
         try {
             const { markerId, updates } = data;
 
             // Find and verify ownership
-            const marker = await MapMarker.findOne({ 
+            const marker = await markers.findOne({ 
                 markerId, 
                 playerId: connection.playerId 
             });
@@ -279,7 +286,7 @@ export class MapMarkerHandlers {
             if (updates.markerType) marker.markerType = updates.markerType;
             
             marker.updatedAt = new Date();
-            await marker.save();
+            await markers.save({ markerId }, marker);
 
             ctx.send(connection.ws, {
                 type: 'marker_updated',
@@ -320,13 +327,13 @@ export class MapMarkerHandlers {
 
     static async handleDeleteMarker(
         connection: PlayerConnection,
-        data: { markerId: string },
+        data: ValidatedPayload<'marker:delete'>,
         ctx: HandlerContext
     ): Promise<void> {
         try {
             const { markerId } = data;
 
-            const marker = await MapMarker.findOne({ 
+            const marker = await markers.findOne({ 
                 markerId, 
                 playerId: connection.playerId 
             });
@@ -339,7 +346,7 @@ export class MapMarkerHandlers {
             const wasShared = marker.visibility !== 'private';
             const realm = marker.realm;
             
-            await marker.deleteOne();
+            await markers.delete({ markerId });
 
             ctx.send(connection.ws, {
                 type: 'marker_deleted',
@@ -369,14 +376,14 @@ export class MapMarkerHandlers {
 
     static async handleShareMarker(
         connection: PlayerConnection,
-        data: { markerId: string; targetPlayerId: string },
+        data: ValidatedPayload<'marker:share'>,
         ctx: HandlerContext
     ): Promise<void> {
         try {
             const { markerId, targetPlayerId } = data;
 
             // Verify ownership
-            const marker = await MapMarker.findOne({ 
+            const marker = await markers.findOne({ 
                 markerId, 
                 playerId: connection.playerId 
             });
@@ -394,7 +401,7 @@ export class MapMarkerHandlers {
 
             // Create share invite
             const inviteId = `invite_${uuidv4()}`;
-            await MarkerShareInvite.create({
+            await shareInvites.insert({
                 inviteId,
                 markerId,
                 fromPlayerId: connection.playerId,
@@ -438,18 +445,17 @@ export class MapMarkerHandlers {
 
     static async handleAcceptShareInvite(
         connection: PlayerConnection,
-        data: { inviteId: string },
+        data: ValidatedPayload<'marker:acceptShare'>,
         ctx: HandlerContext
     ): Promise<void> {
         try {
-            const invite = await MarkerShareInvite.findOneAndUpdate(
+            const invite = await shareInvites.update(
                 { 
                     inviteId: data.inviteId, 
                     toPlayerId: connection.playerId,
                     status: 'pending'
                 },
-                { status: 'accepted' },
-                { new: true }
+                { $set: { status: 'accepted' } }
             );
 
             if (!invite) {
@@ -458,7 +464,7 @@ export class MapMarkerHandlers {
             }
 
             // Add player to marker's sharedWith
-            await MapMarker.findOneAndUpdate(
+            await markers.update(
                 { markerId: invite.markerId },
                 { $addToSet: { sharedWith: connection.playerId } }
             );
@@ -492,18 +498,17 @@ export class MapMarkerHandlers {
 
     static async handleDeclineShareInvite(
         connection: PlayerConnection,
-        data: { inviteId: string },
+        data: ValidatedPayload<'marker:declineShare'>,
         ctx: HandlerContext
     ): Promise<void> {
         try {
-            const invite = await MarkerShareInvite.findOneAndUpdate(
+            const invite = await shareInvites.update(
                 { 
                     inviteId: data.inviteId, 
                     toPlayerId: connection.playerId,
                     status: 'pending'
                 },
-                { status: 'declined' },
-                { new: true }
+                { $set: { status: 'declined' } }
             );
 
             if (!invite) {
@@ -529,18 +534,18 @@ export class MapMarkerHandlers {
 
     static async handleSavePreset(
         connection: PlayerConnection,
-        data: { name: string; iconType: string; color: string; defaultVisibility?: string },
+        data: ValidatedPayload<'marker:savePreset'>,
         ctx: HandlerContext
     ): Promise<void> {
         try {
-            const presetCount = await MarkerPreset.countDocuments({ playerId: connection.playerId });
+            const presetCount = await presets.count({ playerId: connection.playerId });
             if (presetCount >= LIMITS.MAX_PRESETS) {
                 ctx.sendError(connection, `Maximum ${LIMITS.MAX_PRESETS} presets allowed`);
                 return;
             }
 
             const presetId = `preset_${uuidv4()}`;
-            await MarkerPreset.create({
+            await presets.insert({
                 playerId: connection.playerId,
                 presetId,
                 name: data.name.slice(0, 30),
@@ -563,16 +568,16 @@ export class MapMarkerHandlers {
 
     static async handleGetPresets(
         connection: PlayerConnection,
-        _data: any,
+        _data: ValidatedPayload<'marker:getPresets'>,
         ctx: HandlerContext
     ): Promise<void> {
         try {
-            const presets = await MarkerPreset.find({ playerId: connection.playerId }).lean();
+            const saved = await presets.find({ playerId: connection.playerId });
 
             ctx.send(connection.ws, {
                 type: 'presets_list',
                 data: {
-                    presets: presets.map(p => ({
+                    presets: saved.map(p => ({
                         presetId: p.presetId,
                         name: p.name,
                         iconType: p.iconType,
@@ -591,11 +596,11 @@ export class MapMarkerHandlers {
 
     static async handleDeletePreset(
         connection: PlayerConnection,
-        data: { presetId: string },
+        data: ValidatedPayload<'marker:deletePreset'>,
         ctx: HandlerContext
     ): Promise<void> {
         try {
-            await MarkerPreset.deleteOne({ 
+            await presets.delete({ 
                 playerId: connection.playerId, 
                 presetId: data.presetId 
             });
@@ -618,8 +623,8 @@ export class MapMarkerHandlers {
 
     private static async broadcastMarkerUpdate(
         connection: PlayerConnection,
-        marker: any,
-        eventType: string,
+        marker: MapMarkerRecord,
+        eventType: 'marker_added' | 'marker_updated',
         ctx: HandlerContext
     ): Promise<void> {
         const targetPlayerIds = new Set<string>();
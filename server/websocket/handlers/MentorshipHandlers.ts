@@ -3,6 +3,7 @@
 // =============================================================================
 
 import type { PlayerConnection, HandlerContext } from '../types.js';
+import type { ValidatedPayload } from '../../common/protocol/index.js';
 import { mentorshipService } from '../../services/MentorshipService.js';
 import { notificationService } from '../../services/NotificationService.js';
 
@@ -10,7 +11,7 @@ export class MentorshipHandlers {
     /**
      * Request to become a mentor
      */
-    static async handleBecomeMentor(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleBecomeMentor(connection: PlayerConnection, data: ValidatedPayload<'become_mentor'>, ctx: HandlerContext): Promise<void> {
         try {
             const { playerLevel = 20, sealedBonds = 10 } = data;
             
@@ -44,7 +45,7 @@ export class MentorshipHandlers {
     /**
      * Request a mentor (new player looking for guidance)
      */
-    static async handleRequestMentor(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleRequestMentor(connection: PlayerConnection, data: ValidatedPayload<'request_mentor'>, ctx: HandlerContext): Promise<void> {
         try {
             const { preferredMentorId } = data;
 
@@ -97,7 +98,7 @@ export class MentorshipHandlers {
     /**
      * Accept a mentee request (mentor already assigned, this confirms)
      */
-    static async handleAcceptMentee(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleAcceptMentee(connection: PlayerConnection, data: ValidatedPayload<'accept_mentee'>, ctx: HandlerContext): Promise<void> {
         try {
             const { menteeId } = data;
             if (!menteeId) return;
@@ -134,7 +135,7 @@ export class MentorshipHandlers {
     /**
      * Decline a mentee request
      */
-    static async handleDeclineMentee(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleDeclineMentee(connection: PlayerConnection, data: ValidatedPayload<'decline_mentee'>, ctx: HandlerContext): Promise<void> {
         try {
             const { menteeId } = data;
             if (!menteeId) return;
@@ -167,7 +168,7 @@ export class MentorshipHandlers {
     /**
      * Get list of available mentors
      */
-    static async handleGetAvailableMentors(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleGetAvailableMentors(connection: PlayerConnection, data: ValidatedPayload<'get_available_mentors'>, ctx: HandlerContext): Promise<void> {
         try {
             const { limit } = data;
             const mentors = await mentorshipService.findAvailableMentors(limit || 20);
@@ -191,7 +192,7 @@ export class MentorshipHandlers {
     /**
      * Get mentorship status (current mentor/mentees)
      */
-    static async handleGetMentorshipStatus(connection: PlayerConnection, _data: any, ctx: HandlerContext): Promise<void> {
+    static async handleGetMentorshipStatus(connection: PlayerConnection, _data: ValidatedPayload<'get_mentorship_status'>, ctx: HandlerContext): Promise<void> {
         try {
             const profile = await mentorshipService.getOrCreateProfile(connection.playerId, connection.playerName || 'Player');
             
@@ -217,7 +218,7 @@ export class MentorshipHandlers {
     /**
      * End mentorship relationship
      */
-    static async handleEndMentorship(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleEndMentorship(connection: PlayerConnection, data: ValidatedPayload<'end_mentorship'>, ctx: HandlerContext): Promise<void> {
         try {
             const { targetId } = data;
             if (!targetId) return;
@@ -258,7 +259,7 @@ export class MentorshipHandlers {
     /**
      * Send a tip/guidance message to mentee
      */
-    static async handleSendMentorTip(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleSendMentorTip(connection: PlayerConnection, data: ValidatedPayload<'send_mentor_tip'>, ctx: HandlerContext): Promise<void> {
         try {
             const { menteeId, tipMessage } = data;
             if (!menteeId || !tipMessage) return;
@@ -308,7 +309,7 @@ export class MentorshipHandlers {
     /**
      * Rate your mentor/mentee (after graduation)
      */
-    static async handleRateMentorship(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleRateMentorship(connection: PlayerConnection, data: ValidatedPayload<'rate_mentorship'>, ctx: HandlerContext): Promise<void> {
         try {
             const { targetId, rating, feedback } = data;
             if (!targetId || !rating) return;
@@ -341,7 +342,7 @@ export class MentorshipHandlers {
     /**
      * Get pending mentee requests (for mentors)
      */
-    static async handleGetPendingMenteeRequests(connection: PlayerConnection, _data: any, ctx: HandlerContext): Promise<void> {
+    static async handleGetPendingMenteeRequests(connection: PlayerConnection, _data: ValidatedPayload<'get_pending_mentee_requests'>, ctx: HandlerContext): Promise<void> {
         try {
             // Get the mentor's profile to see active mentees
             const profile = await mentorshipService.getOrCreateProfile(connection.playerId, connection.playerName || 'Player');
@@ -3,14 +3,15 @@
 // =============================================================================
 
 import type { PlayerConnection, HandlerContext } from '../types.js';
+import type { ValidatedPayload } from '../../common/protocol/index.js';
 import { mysteryBoxService } from '../../services/MysteryBoxService.js';
-import { progressionService } from '../../services/ProgressionService.js';
+import { economyService } from '../../services/EconomyService.js';
 
 export class MysteryBoxHandlers {
     /**
      * Get mystery box info and player stats
      */
-    static async handleGetMysteryBoxInfo(connection: PlayerConnection, _data: any, ctx: HandlerContext): Promise<void> {
+    static async handleGetMysteryBoxInfo(connection: PlayerConnection, _data: ValidatedPayload<'request_mystery_boxes' | 'get_mystery_box_info'>, ctx: HandlerContext): Promise<void> {
         try {
             const stats = await mysteryBoxService.getPlayerStats(connection.playerId);
             const boxConfigs = mysteryBoxService.getAllBoxConfigs();
@@ -31,7 +32,7 @@ export class MysteryBoxHandlers {
     /**
      * Open a mystery box
      */
-    static async handleOpenMysteryBox(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleOpenMysteryBox(connection: PlayerConnection, data: ValidatedPayload<'open_mystery_box'>, ctx: HandlerContext): Promise<void> {
         try {
             const { tier } = data;
 
@@ -40,38 +41,15 @@ export class MysteryBoxHandlers {
                 return;
             }
 
-            // Check if player can afford
-            const config = mysteryBoxService.getBoxConfig(tier);
-            if (!config) {
-                ctx.sendError(connection, 'Invalid box tier');
-                return;
-            }
-
-            const progression = await progressionService.getProgression(connection.playerId);
-            
-            // Check affordability
-            const affordability = mysteryBoxService.canAffordBox(
-                tier,
-                progression.stardust,
-                progression.crystals || 0
-            );
-            
-            if (!affordability.canAfford) {
-                ctx.sendError(connection, 'Insufficient stardust');
-                return;
-            }
-
-            // Deduct cost
-            await progressionService.spendStardust(connection.playerId, config.stardustCost);
-
-            // Open box
-            const result = await mysteryBoxService.openBox(connection.playerId, tier);
+            // Rolled, charged and granted; the ledger refuses it if the player cannot afford it
+            const result = await economyService.openMysteryBox(connection.playerId, tier);
 
             if (result.success) {
                 ctx.send(connection.ws, {
                     type: 'mystery_box_opened',
                     data: {
                         tier,
+                        rollId: result.rollId,
                         reward: result.reward,
                         pityProgress: result.pityProgress
                     },
@@ -108,7 +86,7 @@ export class MysteryBoxHandlers {
     /**
      * Get pity progress for a specific tier
      */
-    static async handleGetPityProgress(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleGetPityProgress(connection: PlayerConnection, data: ValidatedPayload<'get_pity_progress'>, ctx: HandlerContext): Promise<void> {
         try {
             const { tier } = data;
 
@@ -132,7 +110,7 @@ export class MysteryBoxHandlers {
     /**
      * Get player's box opening stats
      */
-    static async handleGetBoxStats(connection: PlayerConnection, _data: any, ctx: HandlerContext): Promise<void> {
+    static async handleGetBoxStats(connection: PlayerConnection, _data: ValidatedPayload<'request_box_stats' | 'get_box_stats'>, ctx: HandlerContext): Promise<void> {
         try {
             const stats = await mysteryBoxService.getPlayerStats(connection.playerId);
 
@@ -149,7 +127,7 @@ export class MysteryBoxHandlers {
     /**
      * Get global mystery box stats
      */
-    static async handleGetGlobalBoxStats(connection: PlayerConnection, _data: any, ctx: HandlerContext): Promise<void> {
+    static async handleGetGlobalBoxStats(connection: PlayerConnection, _data: ValidatedPayload<'get_global_box_stats'>, ctx: HandlerContext): Promise<void> {
         try {
             const stats = await mysteryBoxService.getGlobalStats();
 
@@ -3,19 +3,21 @@
 // =============================================================================
 
 import type { PlayerConnection, HandlerContext } from '../types.js';
+import type { ValidatedPayload } from '../../common/protocol/index.js';
 import { notificationService } from '../../services/NotificationService.js';
 
 export class NotificationHandlers {
     /**
-     * Get pending notifications
+     * Get a page of the notification inbox
      */
-    static handleGetNotifications(connection: PlayerConnection, _data: any, ctx: HandlerContext): void {
+    static async handleGetNotifications(connection: PlayerConnection, data: ValidatedPayload<'get_notifications'>, ctx: HandlerContext): Promise<void> {
         try {
-            const notifications = notificationService.getPendingNotifications(connection.playerId);
+            const { offset, limit, unreadOnly } = data;
+            const inbox = await notificationService.getInbox(connection.playerId, { offset, limit, unreadOnly });
 
             ctx.send(connection.ws, {
                 type: 'notifications_list',
-                data: { notifications },
+                data: inbox,
                 timestamp: Date.now()
             });
         } catch (error) {
@@ -26,7 +28,7 @@ export class NotificationHandlers {
     /**
      * Mark notification as read
      */
-    static handleMarkNotificationRead(connection: PlayerConnection, data: any, ctx: HandlerContext): void {
+    static async handleMarkNotificationRead(connection: PlayerConnection, data: ValidatedPayload<'mark_notification_read'>, ctx: HandlerContext): Promise<void> {
         try {
             const { notificationId } = data;
 
@@ -34,7 +36,7 @@ export class NotificationHandlers {
                 return;
             }
 
-            notificationService.markAsRead(connection.playerId, notificationId);
+            await notificationService.markAsRead(connection.playerId, notificationId);
 
             ctx.send(connection.ws, {
                 type: 'notification_marked_read',
@@ -49,9 +51,9 @@ export class NotificationHandlers {
     /**
      * Mark all notifications as read
      */
-    static handleMarkAllRead(connection: PlayerConnection, _data: any, ctx: HandlerContext): void {
+    static async handleMarkAllRead(connection: PlayerConnection, _data: ValidatedPayload<'mark_all_notifications_read' | 'mark_all_read'>, ctx: HandlerContext): Promise<void> {
         try {
-            notificationService.markAllAsRead(connection.playerId);
+            await notificationService.markAllAsRead(connection.playerId);
 
             ctx.send(connection.ws, {
                 type: 'notifications_all_read',
@@ -64,11 +66,11 @@ export class NotificationHandlers {
     }
 
     /**
-     * Clear all pending notifications
+     * Clear the notification inbox
      */
-    static handleClearNotifications(connection: PlayerConnection, _data: any, ctx: HandlerContext): void {
+    static async handleClearNotifications(connection: PlayerConnection, _data: ValidatedPayload<'clear_notifications'>, ctx: HandlerContext): Promise<void> {
         try {
-            notificationService.clearPendingNotifications(connection.playerId);
+            await notificationService.clearInbox(connection.playerId);
 
             ctx.send(connection.ws, {
                 type: 'notifications_cleared',
@@ -83,16 +85,17 @@ export class NotificationHandlers {
     /**
      * Get notification preferences
      */
-    static handleGetNotificationPrefs(connection: PlayerConnection, _data: any, ctx: HandlerContext): void {
+    static async handleGetNotificationPrefs(connection: PlayerConnection, _data: ValidatedPayload<'get_notification_preferences' | 'get_notification_prefs'>, ctx: HandlerContext): Promise<void> {
         try {
-            const prefs = notificationService.getPlayerPrefs(connection.playerId);
+            const prefs = await notificationService.loadPlayerPrefs(connection.playerId);
 
             ctx.send(connection.ws, {
                 type: 'notification_prefs',
                 data: {
                     enabledTypes: Array.from(prefs.enabledTypes),
                     doNotDisturb: prefs.doNotDisturb,
-                    mutedUntil: prefs.mutedUntil
+                    mutedUntil: prefs.mutedUntil,
+                    quietHours: prefs.quietHours
                 },
                 timestamp: Date.now()
             });
@@ -104,14 +107,15 @@ export class NotificationHandlers {
     /**
      * Update notification preferences
      */
-    static handleUpdateNotificationPrefs(connection: PlayerConnection, data: any, ctx: HandlerContext): void {
+    static async handleUpdateNotificationPrefs(connection: PlayerConnection, data: ValidatedPayload<'update_notification_preferences' | 'update_notification_prefs'>, ctx: HandlerContext): Promise<void> {
         try {
-            const { enabledTypes, doNotDisturb, mutedUntil } = data;
+            const { enabledTypes, doNotDisturb, mutedUntil, quietHours } = data;
 
-            notificationService.updatePlayerPrefs(connection.playerId, {
+            await notificationService.updatePlayerPrefs(connection.playerId, {
                 enabledTypes,
                 doNotDisturb,
-                mutedUntil
+                mutedUntil,
+                quietHours: quietHours && { startHour: quietHours.startHour, endHour: quietHours.endHour }
             });
 
             ctx.send(connection.ws, {
@@ -127,7 +131,7 @@ export class NotificationHandlers {
     /**
      * Mute a player's notifications
      */
-    static handleMutePlayer(connection: PlayerConnection, data: any, ctx: HandlerContext): void {
+    static async handleMutePlayer(connection: PlayerConnection, data: ValidatedPayload<'mute_player'>, ctx: HandlerContext): Promise<void> {
         try {
             const { targetId } = data;
 
@@ -135,7 +139,7 @@ export class NotificationHandlers {
                 return;
             }
 
-            notificationService.mutePlayer(connection.playerId, targetId);
+            await notificationService.mutePlayer(connection.playerId, targetId);
 
             ctx.send(connection.ws, {
                 type: 'player_muted',
@@ -150,7 +154,7 @@ export class NotificationHandlers {
     /**
      * Unmute a player's notifications
      */
-    static handleUnmutePlayer(connection: PlayerConnection, data: any, ctx: HandlerContext): void {
+    static async handleUnmutePlayer(connection: PlayerConnection, data: ValidatedPayload<'unmute_player'>, ctx: HandlerContext): Promise<void> {
         try {
             const { targetId } = data;
 
@@ -158,7 +162,7 @@ export class NotificationHandlers {
                 return;
             }
 
-            notificationService.unmutePlayer(connection.playerId, targetId);
+            await notificationService.unmutePlayer(connection.playerId, targetId);
 
             ctx.send(connection.ws, {
                 type: 'player_unmuted',
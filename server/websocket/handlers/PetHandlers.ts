@@ -3,10 +3,11 @@
 // =============================================================================
 
 import { HandlerContext } from '../types.js';
+import type { ValidatedPayload } from '../../common/protocol/index.js';
 import { petService } from '../../services/index.js';
 
 export const PetHandlers = {
-    handleAdoptPet: async (connection: any, data: any, ctx: HandlerContext) => {
+    handleAdoptPet: async (connection: any, data: ValidatedPayload<'adopt_pet'>, ctx: HandlerContext) => {
         try {
             const { petId } = data;
             if (!petId) throw new Error('Missing petId');
@@ -28,7 +29,7 @@ export const PetHandlers = {
         }
     },
 
-    handleEquipPet: async (connection: any, data: any, ctx: HandlerContext) => {
+    handleEquipPet: async (connection: any, data: ValidatedPayload<'equip_pet'>, ctx: HandlerContext) => {
         try {
             const { petId } = data;
             // petId can be null to unequip
@@ -46,7 +47,7 @@ export const PetHandlers = {
         }
     },
 
-    handleFeedPet: async (connection: any, data: any, ctx: HandlerContext) => {
+    handleFeedPet: async (connection: any, data: ValidatedPayload<'feed_pet'>, ctx: HandlerContext) => {
         try {
             const { petId } = data;
             if (!petId) throw new Error('Missing petId');
@@ -76,7 +77,7 @@ export const PetHandlers = {
         }
     },
 
-    handlePlayPet: async (connection: any, data: any, ctx: HandlerContext) => {
+    handlePlayPet: async (connection: any, data: ValidatedPayload<'play_pet'>, ctx: HandlerContext) => {
         try {
             const { petId } = data;
             if (!petId) throw new Error('Missing petId');
@@ -106,7 +107,7 @@ export const PetHandlers = {
         }
     },
 
-    handleGetPetDetails: async (connection: any, data: any, ctx: HandlerContext) => {
+    handleGetPetDetails: async (connection: any, data: ValidatedPayload<'get_pet_details'>, ctx: HandlerContext) => {
         try {
             const { petId } = data;
             if (!petId) throw new Error('Missing petId');
@@ -3,23 +3,33 @@
 // =============================================================================
 
 import type { PlayerConnection, HandlerContext } from '../types.js';
+import type { ValidatedPayload } from '../../common/protocol/index.js';
 import { playerDataService } from '../../services/PlayerDataService.js';
 import { friendshipService } from '../../services/FriendshipService.js';
+import { applyPlayerDataWritePolicy } from '../validation/playerDataPolicy.js';
 
 export class PlayerDataHandlers {
     /**
-     * Sync partial player data updates
+     * Sync partial player data updates. Only client-writable fields are
+     * applied; server-owned ones are reported back as rejected.
      */
-    static async handleSyncPlayerData(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleSyncPlayerData(connection: PlayerConnection, data: ValidatedPayload<'sync_player_data'>, ctx: HandlerContext): Promise<void> {
         try {
-            const updated = await playerDataService.updatePlayerData(connection.playerId, data);
-            if (updated) {
-                ctx.send(connection.ws, {
-                    type: 'player_data_synced',
-                    data: { success: true },
-                    timestamp: Date.now()
-                });
+            const { updates, accepted, rejected } = applyPlayerDataWritePolicy(data);
+
+            if (rejected.length > 0) {
+                console.warn(`[PlayerData] Rejected sync fields from ${connection.playerId}: ${rejected.map(r => r.field).join(', ')}`);
             }
+
+            if (accepted.length > 0) {
+                await playerDataService.setPlayerFields(connection.playerId, updates);
+            }
+
+            ctx.send(connection.ws, {
+                type: 'player_data_synced',
+                data: { success: rejected.length === 0, accepted, rejected },
+                timestamp: Date.now()
+            });
         } catch (error) {
             console.error('Failed to sync player data:', error);
         }
@@ -28,7 +38,7 @@ export class PlayerDataHandlers {
     /**
      * Request full player data from server
      */
-    static async handleRequestPlayerData(connection: PlayerConnection, _data: any, ctx: HandlerContext): Promise<void> {
+    static async handleRequestPlayerData(connection: PlayerConnection, _data: ValidatedPayload<'request_player_data'>, ctx: HandlerContext): Promise<void> {
         try {
             const playerData = await playerDataService.getOrCreatePlayerData(connection.playerId, connection.playerName || 'Player');
 
@@ -45,7 +55,7 @@ export class PlayerDataHandlers {
     /**
      * Handle friend request
      */
-    static async handleFriendRequest(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleFriendRequest(connection: PlayerConnection, data: ValidatedPayload<'friend_request'>, ctx: HandlerContext): Promise<void> {
         try {
             const { targetId } = data;
             if (!targetId || targetId === connection.playerId) return;
@@ -77,9 +87,9 @@ export class PlayerDataHandlers {
     /**
      * Accept friend request
      */
-    static async handleAcceptFriend(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleAcceptFriend(connection: PlayerConnection, data: ValidatedPayload<'accept_friend'>, ctx: HandlerContext): Promise<void> {
         try {
-            const { requesterId } = data;
+            const { senderId: requesterId } = data;
             const result = await friendshipService.acceptFriendRequest(requesterId, connection.playerId);
 
             if (result.success) {
@@ -110,9 +120,9 @@ export class PlayerDataHandlers {
     /**
      * Decline friend request
      */
-    static async handleDeclineFriend(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleDeclineFriend(connection: PlayerConnection, data: ValidatedPayload<'decline_friend'>, ctx: HandlerContext): Promise<void> {
         try {
-            const { requesterId } = data;
+            const { senderId: requesterId } = data;
             await friendshipService.declineFriendRequest(requesterId, connection.playerId);
 
             ctx.send(connection.ws, {
@@ -128,7 +138,7 @@ export class PlayerDataHandlers {
     /**
      * Remove friend
      */
-    static async handleRemoveFriend(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleRemoveFriend(connection: PlayerConnection, data: ValidatedPayload<'remove_friend'>, ctx: HandlerContext): Promise<void> {
         try {
             const { friendId } = data;
             await friendshipService.removeFriend(connection.playerId, friendId);
@@ -154,7 +164,7 @@ export class PlayerDataHandlers {
     /**
      * Get friends list with online status
      */
-    static async handleGetFriends(connection: PlayerConnection, _data: any, ctx: HandlerContext): Promise<void> {
+    static async handleGetFriends(connection: PlayerConnection, _data: ValidatedPayload<'get_friends'>, ctx: HandlerContext): Promise<void> {
         try {
             const friends = await friendshipService.getFriends(connection.playerId);
 
@@ -177,7 +187,7 @@ export class PlayerDataHandlers {
     /**
      * Get pending friend requests
      */
-    static async handleGetPendingRequests(connection: PlayerConnection, _data: any, ctx: HandlerContext): Promise<void> {
+    static async handleGetPendingRequests(connection: PlayerConnection, _data: ValidatedPayload<'get_pending_requests'>, ctx: HandlerContext): Promise<void> {
         try {
             const requests = await friendshipService.getPendingRequests(connection.playerId);
 
@@ -194,7 +204,7 @@ export class PlayerDataHandlers {
     /**
      * Teleport to a friend's location
      */
-    static async handleTeleportToFriend(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleTeleportToFriend(connection: PlayerConnection, data: ValidatedPayload<'teleport_to_friend'>, ctx: HandlerContext): Promise<void> {
         try {
             const { friendId } = data;
             if (!friendId) {
@@ -219,8 +229,8 @@ export class PlayerDataHandlers {
                 return;
             }
 
-            // Check if friend is online
-            const friendConn = ctx.connections.get(friendId);
+            // Check if friend is online (on any shard)
+            const friendConn = await ctx.locatePlayer(friendId);
             if (!friendConn) {
                 ctx.send(connection.ws, {
                     type: 'teleport_failed',
@@ -230,7 +240,9 @@ export class PlayerDataHandlers {
                 return;
             }
 
-            // Send teleport coordinates to the client
+            // Send teleport coordinates to the client (and let the jump pass the speed check)
+            ctx.grantTeleport(connection, friendConn.x, friendConn.y);
+            playerDataService.recordStat(connection.playerId, 'teleports');
             ctx.send(connection.ws, {
                 type: 'teleport_to_friend',
                 data: {
@@ -244,7 +256,7 @@ export class PlayerDataHandlers {
             });
 
             // Notify the friend that someone teleported to them
-            ctx.send(friendConn.ws, {
+            ctx.sendToPlayers([friendId], {
                 type: 'friend_teleported_to_you',
                 data: {
                     playerId: connection.playerId,
@@ -270,12 +282,12 @@ export class PlayerDataHandlers {
     /**
      * Sync communication preferences (friends, blocked, favorites, settings)
      */
-    static async handleSyncCommunication(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleSyncCommunication(connection: PlayerConnection, data: ValidatedPayload<'sync_communication'>, ctx: HandlerContext): Promise<void> {
         try {
             const { friends, blocked, favoriteEmotes, chatEnabled, signalsEnabled } = data;
 
             // Build update object
-            const updates: any = {};
+            const updates: Record<string, unknown> = {};
 
             if (friends !== undefined) {
                 updates['social.friendIds'] = friends;
@@ -287,16 +299,15 @@ export class PlayerDataHandlers {
             if (favoriteEmotes !== undefined) {
                 updates['cosmetics.equippedEmotes'] = favoriteEmotes;
             }
-            if (chatEnabled !== undefined || signalsEnabled !== undefined) {
-                // Store in settings or a communication settings field
-                const settingsUpdate: any = {};
-                if (chatEnabled !== undefined) settingsUpdate['settings.chatEnabled'] = chatEnabled;
-                if (signalsEnabled !== undefined) settingsUpdate['settings.signalsEnabled'] = signalsEnabled;
-                Object.assign(updates, settingsUpdate);
+            if (chatEnabled !== undefined) {
+                updates['settings.chatEnabled'] = chatEnabled;
+            }
+            if (signalsEnabled !== undefined) {
+                updates['settings.signalsEnabled'] = signalsEnabled;
             }
 
             if (Object.keys(updates).length > 0) {
-                await playerDataService.updatePlayerData(connection.playerId, updates);
+                await playerDataService.setPlayerFields(connection.playerId, updates);
             }
 
             ctx.send(connection.ws, {
@@ -317,7 +328,7 @@ export class PlayerDataHandlers {
     /**
      * Request communication data from server
      */
-    static async handleRequestCommunication(connection: PlayerConnection, _data: any, ctx: HandlerContext): Promise<void> {
+    static async handleRequestCommunication(connection: PlayerConnection, _data: ValidatedPayload<'request_communication'>, ctx: HandlerContext): Promise<void> {
         try {
             const playerData = await playerDataService.getOrCreatePlayerData(connection.playerId, connection.playerName || 'Player');
 
@@ -327,8 +338,8 @@ export class PlayerDataHandlers {
                     friends: playerData.social?.friendIds || [],
                     blocked: playerData.social?.blockedIds || [],
                     favoriteEmotes: playerData.cosmetics?.equippedEmotes || [],
-                    chatEnabled: (playerData.settings as any)?.chatEnabled ?? true,
-                    signalsEnabled: (playerData.settings as any)?.signalsEnabled ?? true
+                    chatEnabled: playerData.settings?.chatEnabled ?? true,
+                    signalsEnabled: playerData.settings?.signalsEnabled ?? true
                 },
                 timestamp: Date.now()
             });
@@ -340,20 +351,17 @@ export class PlayerDataHandlers {
     /**
      * Update player settings
      */
-    static async handleUpdateSettings(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleUpdateSettings(connection: PlayerConnection, data: ValidatedPayload<'update_settings'>, ctx: HandlerContext): Promise<void> {
         try {
-            const updates: any = {};
+            const { updates, accepted, rejected } = applyPlayerDataWritePolicy({ settings: data });
 
-            // Map settings to dot notation updates for nested schema
-            for (const [key, value] of Object.entries(data)) {
-                updates[`settings.${key}`] = value;
+            if (accepted.length > 0) {
+                await playerDataService.setPlayerFields(connection.playerId, updates);
             }
 
-            await playerDataService.updatePlayerData(connection.playerId, updates);
-
             ctx.send(connection.ws, {
                 type: 'settings_updated',
-                data: { success: true, settings: data },
+                data: { success: rejected.length === 0, settings: data, rejected },
                 timestamp: Date.now()
             });
         } catch (error) {
@@ -385,7 +393,7 @@ export class PlayerDataHandlers {
     /**
      * Place a map marker visible to friends
      */
-    static async handlePlaceMapMarker(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handlePlaceMapMarker(connection: PlayerConnection, data: ValidatedPayload<'place_map_marker'>, ctx: HandlerContext): Promise<void> {
         try {
             const { x, y, realm, label, icon, expiresIn = 300 } = data;
 
@@ -451,7 +459,7 @@ export class PlayerDataHandlers {
     /**
      * Remove a map marker
      */
-    static handleRemoveMapMarker(connection: PlayerConnection, data: any, ctx: HandlerContext): void {
+    static handleRemoveMapMarker(connection: PlayerConnection, data: ValidatedPayload<'remove_map_marker'>, ctx: HandlerContext): void {
         try {
             const { markerId } = data;
 
@@ -473,7 +481,7 @@ export class PlayerDataHandlers {
     /**
      * Request friend markers for current realm
      */
-    static async handleRequestFriendMarkers(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleRequestFriendMarkers(connection: PlayerConnection, data: ValidatedPayload<'request_friend_markers'>, ctx: HandlerContext): Promise<void> {
         try {
             const { realm } = data;
             if (!realm) return;
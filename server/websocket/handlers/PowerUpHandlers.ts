@@ -3,6 +3,7 @@
 // =============================================================================
 
 import type { PlayerConnection, HandlerContext, PowerUpInstance } from '../types.js';
+import type { ValidatedPayload } from '../../common/protocol/index.js';
 import { progressionService } from '../../services/ProgressionService.js';
 
 // PowerUp configuration
@@ -60,7 +61,7 @@ export class PowerUpHandlers {
     /**
      * Handle collecting a powerup
      */
-    static async handleCollectPowerUp(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleCollectPowerUp(connection: PlayerConnection, data: ValidatedPayload<'collect_power_up'>, ctx: HandlerContext): Promise<void> {
         try {
             const { powerUpId } = data;
 
@@ -139,9 +140,9 @@ export class PowerUpHandlers {
     /**
      * Handle using/activating a powerup
      */
-    static handleActivatePowerUp(connection: PlayerConnection, data: any, ctx: HandlerContext): void {
+    static handleActivatePowerUp(connection: PlayerConnection, data: ValidatedPayload<'activate_power_up'>, ctx: HandlerContext): void {
         try {
-            const { powerUpType } = data;
+            const { type: powerUpType } = data;
 
             if (!connection.activePowerUps) {
                 ctx.sendError(connection, 'No active powerups');
@@ -179,7 +180,7 @@ export class PowerUpHandlers {
     /**
      * Handle requesting available powerups
      */
-    static handleRequestPowerUps(connection: PlayerConnection, _data: any, ctx: HandlerContext): void {
+    static handleRequestPowerUps(connection: PlayerConnection, _data: ValidatedPayload<'request_power_ups'>, ctx: HandlerContext): void {
         try {
             const now = Date.now();
 
@@ -200,7 +201,7 @@ export class PowerUpHandlers {
     /**
      * Handle requesting active player powerups
      */
-    static handleGetActivePowerUps(connection: PlayerConnection, _data: any, ctx: HandlerContext): void {
+    static handleGetActivePowerUps(connection: PlayerConnection, _data: ValidatedPayload<'get_active_power_ups'>, ctx: HandlerContext): void {
         try {
             const now = Date.now();
             const activePowerUps: any[] = [];
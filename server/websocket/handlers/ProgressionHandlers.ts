@@ -3,9 +3,12 @@
 // =============================================================================
 
 import type { PlayerConnection, HandlerContext } from '../types.js';
+import type { ValidatedPayload } from '../../common/protocol/index.js';
 import { progressionService } from '../../services/ProgressionService.js';
 import { playerDataService } from '../../services/PlayerDataService.js';
 import { achievementService } from '../../services/AchievementService.js';
+import { checkStardustPurchase, getCosmeticItem } from '../../services/CosmeticCatalog.js';
+import { SERVER_TRACKED_STATS, checkClientStatReport } from '../validation/playerDataPolicy.js';
 
 // Server-side achievement validation definitions
 // Maps achievement IDs to their validation requirements
@@ -50,11 +53,9 @@ export class ProgressionHandlers {
     /**
      * Handle challenge progress update from client
      */
-    static async handleChallengeProgress(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleChallengeProgress(connection: PlayerConnection, data: ValidatedPayload<'challenge_progress'>, ctx: HandlerContext): Promise<void> {
         try {
-            const { type, amount } = data;
-            const updateType = type || data.challengeType;
-            const updateAmount = typeof amount === 'number' ? amount : 1;
+            const { challengeId: updateType, progress: updateAmount } = data;
 
             if (!updateType) return;
 
@@ -68,7 +69,7 @@ export class ProgressionHandlers {
     /**
      * Request full progression data
      */
-    static async handleRequestProgression(connection: PlayerConnection, _data: any, ctx: HandlerContext): Promise<void> {
+    static async handleRequestProgression(connection: PlayerConnection, _data: ValidatedPayload<'request_progression'>, ctx: HandlerContext): Promise<void> {
         try {
             const [progression, dailyChallenges, weeklyChallenges] = await Promise.all([
                 progressionService.getProgression(connection.playerId),
@@ -93,7 +94,7 @@ export class ProgressionHandlers {
     /**
      * Claim daily reward
      */
-    static async handleClaimDailyReward(connection: PlayerConnection, _data: any, ctx: HandlerContext): Promise<void> {
+    static async handleClaimDailyReward(connection: PlayerConnection, _data: ValidatedPayload<'claim_daily_reward'>, ctx: HandlerContext): Promise<void> {
         try {
             const result = await progressionService.claimDailyReward(connection.playerId);
 
@@ -110,7 +111,7 @@ export class ProgressionHandlers {
     /**
      * Claim challenge reward
      */
-    static async handleClaimChallengeReward(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleClaimChallengeReward(connection: PlayerConnection, data: ValidatedPayload<'claim_challenge_reward'>, ctx: HandlerContext): Promise<void> {
         try {
             const { challengeId } = data;
 
@@ -118,6 +119,7 @@ export class ProgressionHandlers {
             const result = await progressionService.claimChallengeReward(connection.playerId, challengeId);
 
             if (result?.success) {
+                playerDataService.recordStat(connection.playerId, 'challengesCompleted');
                 ctx.send(connection.ws, {
                     type: 'challenge_reward_claimed',
                     data: { challengeId, reward: result.reward },
@@ -132,7 +134,7 @@ export class ProgressionHandlers {
     /**
      * Claim season pass tier reward
      */
-    static async handleClaimSeasonReward(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleClaimSeasonReward(connection: PlayerConnection, data: ValidatedPayload<'claim_season_reward'>, ctx: HandlerContext): Promise<void> {
         try {
             const { tier } = data;
             const result = await progressionService.claimSeasonReward(connection.playerId, tier);
@@ -148,35 +150,50 @@ export class ProgressionHandlers {
     }
 
     /**
-     * Purchase cosmetic
+     * Purchase cosmetic at the server catalog price
      */
-    static async handlePurchaseCosmetic(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
-        try {
-            const { cosmeticId, cost } = data;
+    static async handlePurchaseCosmetic(connection: PlayerConnection, data: ValidatedPayload<'purchase_cosmetic'>, ctx: HandlerContext): Promise<void> {
+        const { cosmeticId } = data;
+        const reject = (error: string, stardust?: number) => {
+            ctx.send(connection.ws, {
+                type: 'cosmetic_purchase_failed',
+                data: { cosmeticId, error, stardust },
+                timestamp: Date.now()
+            });
+        };
 
+        try {
             const progression = await progressionService.getProgression(connection.playerId);
-            if (!progression || progression.stardust < cost) {
-                ctx.sendError(connection, 'Insufficient stardust');
+            const eligibility = checkStardustPurchase(getCosmeticItem(cosmeticId), {
+                level: connection.level || 1,
+                seasonPassTier: progression?.seasonPassTier || 0
+            });
+            if (!eligibility.allowed) {
+                reject(eligibility.error || 'Cannot purchase this cosmetic', progression?.stardust);
                 return;
             }
 
-            await progressionService.spendStardust(connection.playerId, cost);
-            await progressionService.unlockCosmetic(connection.playerId, cosmeticId);
+            const result = await progressionService.purchaseCosmetic(connection.playerId, cosmeticId, eligibility.price!);
+            if (!result.success) {
+                reject(result.error || 'Purchase failed', result.remaining);
+                return;
+            }
 
             ctx.send(connection.ws, {
                 type: 'cosmetic_purchased',
-                data: { cosmeticId, newStardust: progression.stardust - cost },
+                data: { cosmeticId, cost: eligibility.price, newStardust: result.remaining },
                 timestamp: Date.now()
             });
         } catch (error) {
             console.error('Failed to purchase cosmetic:', error);
+            reject('Purchase failed');
         }
     }
 
     /**
      * Equip cosmetic
      */
-    static async handleEquipCosmetic(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleEquipCosmetic(connection: PlayerConnection, data: ValidatedPayload<'equip_cosmetic'>, ctx: HandlerContext): Promise<void> {
         try {
             const { slot, cosmeticId } = data;
             await progressionService.equipCosmetic(connection.playerId, slot, cosmeticId);
@@ -198,7 +215,7 @@ export class ProgressionHandlers {
     /**
      * Get activity feed for player
      */
-    static async handleGetActivityFeed(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleGetActivityFeed(connection: PlayerConnection, data: ValidatedPayload<'get_activity_feed'>, ctx: HandlerContext): Promise<void> {
         try {
             const limit = data?.limit || 50;
             const feed = await progressionService.getActivityFeed(connection.playerId, limit);
@@ -221,7 +238,7 @@ export class ProgressionHandlers {
     /**
      * Mark activity feed items as read
      */
-    static async handleMarkFeedRead(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleMarkFeedRead(connection: PlayerConnection, data: ValidatedPayload<'mark_feed_read'>, ctx: HandlerContext): Promise<void> {
         try {
             const { entryIds } = data;
             await progressionService.markFeedAsRead(connection.playerId, entryIds);
@@ -242,7 +259,7 @@ export class ProgressionHandlers {
     /**
      * Get unread count for activity feed
      */
-    static async handleGetUnreadCount(connection: PlayerConnection, _data: any, ctx: HandlerContext): Promise<void> {
+    static async handleGetUnreadCount(connection: PlayerConnection, _data: ValidatedPayload<'get_unread_count'>, ctx: HandlerContext): Promise<void> {
         try {
             const unreadCount = await progressionService.getUnreadCount(connection.playerId);
 
@@ -283,11 +300,34 @@ export class ProgressionHandlers {
         }
     }
 
+    /**
+     * Handle a client-reported stat. Stats the server counts itself are
+     * rejected; the rest are accepted one increment at a time.
+     */
+    static async handleTrackStat(connection: PlayerConnection, data: ValidatedPayload<'track_stat'>, ctx: HandlerContext): Promise<void> {
+        try {
+            const { stat, amount } = data;
+
+            // Already counted where the action happened
+            if (SERVER_TRACKED_STATS.has(stat)) return;
+
+            const check = checkClientStatReport(stat, amount);
+            if (!check.allowed) {
+                ctx.sendError(connection, check.error || 'Stat rejected');
+                return;
+            }
+
+            playerDataService.recordStat(connection.playerId, check.stat, amount);
+        } catch (error) {
+            console.error('Failed to track stat:', error);
+        }
+    }
+
     /**
      * Handle add achievement - SERVER-VALIDATED
      * Validates that the player actually meets achievement requirements before granting
      */
-    static async handleAddAchievement(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleAddAchievement(connection: PlayerConnection, data: ValidatedPayload<'add_achievement'>, ctx: HandlerContext): Promise<void> {
         try {
             const { achievementId } = data;
             
@@ -309,24 +349,21 @@ export class ProgressionHandlers {
                 return;
             }
 
-            // 3. Validate achievement requirements
+            // 3. Only achievements backed by a server-tracked stat can be claimed
             const requirement = ACHIEVEMENT_REQUIREMENTS.get(achievementId);
-            
-            if (requirement) {
-                // Get the stat value from player data
-                const statValue = (playerData.stats as any)[requirement.stat] || 0;
-                const compareFn = requirement.compareFn || ((v, t) => v >= t);
-                
-                if (!compareFn(statValue, requirement.target)) {
-                    console.warn(`[Achievement] Rejected: ${achievementId} for ${connection.playerId} - stat ${requirement.stat}=${statValue}, required=${requirement.target}`);
-                    ctx.sendError(connection, 'Achievement requirements not met');
-                    return;
-                }
+            if (!requirement || !SERVER_TRACKED_STATS.has(requirement.stat)) {
+                console.warn(`[Achievement] Rejected unverifiable achievement: ${achievementId} for ${connection.playerId}`);
+                ctx.sendError(connection, 'Achievement cannot be verified');
+                return;
             }
-            // Note: If achievement not in our map, we still allow it (for tutorial/special achievements)
-            // But we log it for monitoring
-            if (!requirement) {
-                console.log(`[Achievement] Unlocking unmapped achievement: ${achievementId} for ${connection.playerId}`);
+
+            const statValue = (playerData.stats as any)[requirement.stat] || 0;
+            const compareFn = requirement.compareFn || ((v, t) => v >= t);
+
+            if (!compareFn(statValue, requirement.target)) {
+                console.warn(`[Achievement] Rejected: ${achievementId} for ${connection.playerId} - stat ${requirement.stat}=${statValue}, required=${requirement.target}`);
+                ctx.sendError(connection, 'Achievement requirements not met');
+                return;
             }
 
             // 4. Grant the achievement via service (persists to DB)
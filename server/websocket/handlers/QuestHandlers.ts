@@ -3,13 +3,14 @@
 // =============================================================================
 
 import type { PlayerConnection, HandlerContext } from '../types.js';
+import type { ValidatedPayload } from '../../common/protocol/index.js';
 import { questService } from '../../services/QuestService.js';
 
 export class QuestHandlers {
     /**
      * Get all player quests (daily, weekly, story)
      */
-    static async handleGetQuests(connection: PlayerConnection, _data: any, ctx: HandlerContext): Promise<void> {
+    static async handleGetQuests(connection: PlayerConnection, _data: ValidatedPayload<'request_quests' | 'get_quests'>, ctx: HandlerContext): Promise<void> {
         try {
             const quests = await questService.getPlayerQuests(connection.playerId);
 
@@ -26,7 +27,7 @@ export class QuestHandlers {
     /**
      * Get daily quests
      */
-    static async handleGetDailyQuests(connection: PlayerConnection, _data: any, ctx: HandlerContext): Promise<void> {
+    static async handleGetDailyQuests(connection: PlayerConnection, _data: ValidatedPayload<'get_daily_quests'>, ctx: HandlerContext): Promise<void> {
         try {
             const quests = await questService.getDailyQuests(connection.playerId);
 
@@ -43,7 +44,7 @@ export class QuestHandlers {
     /**
      * Get weekly quests
      */
-    static async handleGetWeeklyQuests(connection: PlayerConnection, _data: any, ctx: HandlerContext): Promise<void> {
+    static async handleGetWeeklyQuests(connection: PlayerConnection, _data: ValidatedPayload<'get_weekly_quests'>, ctx: HandlerContext): Promise<void> {
         try {
             const quests = await questService.getWeeklyQuests(connection.playerId);
 
@@ -60,7 +61,7 @@ export class QuestHandlers {
     /**
      * Get available story quests
      */
-    static async handleGetStoryQuests(connection: PlayerConnection, _data: any, ctx: HandlerContext): Promise<void> {
+    static async handleGetStoryQuests(connection: PlayerConnection, _data: ValidatedPayload<'get_active_quests' | 'get_story_quests'>, ctx: HandlerContext): Promise<void> {
         try {
             const quests = await questService.getAvailableStoryQuests(connection.playerId);
 
@@ -77,7 +78,7 @@ export class QuestHandlers {
     /**
      * Start a quest
      */
-    static async handleStartQuest(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleStartQuest(connection: PlayerConnection, data: ValidatedPayload<'start_quest'>, ctx: HandlerContext): Promise<void> {
         try {
             const { questId } = data;
 
@@ -105,9 +106,9 @@ export class QuestHandlers {
     /**
      * Update quest progress
      */
-    static async handleUpdateQuestProgress(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleUpdateQuestProgress(connection: PlayerConnection, data: ValidatedPayload<'update_quest_progress'>, ctx: HandlerContext): Promise<void> {
         try {
-            const { objectiveType, amount } = data;
+            const { objectiveType, amount, partnerId } = data;
 
             if (!objectiveType) {
                 return;
@@ -116,7 +117,8 @@ export class QuestHandlers {
             const result = await questService.updateQuestProgress(
                 connection.playerId,
                 objectiveType,
-                amount || 1
+                amount || 1,
+                { realm: connection.realm, partnerId }
             );
 
             if (result.updated) {
@@ -137,22 +139,23 @@ export class QuestHandlers {
     /**
      * Claim quest reward
      */
-    static async handleClaimQuestReward(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleClaimQuestReward(connection: PlayerConnection, data: ValidatedPayload<'claim_quest_reward'>, ctx: HandlerContext): Promise<void> {
         try {
-            const { questId } = data;
+            const { questId, choiceId } = data;
 
             if (!questId) {
                 ctx.sendError(connection, 'Quest ID required');
                 return;
             }
 
-            const result = await questService.claimQuestReward(connection.playerId, questId);
+            const result = await questService.claimQuestReward(connection.playerId, questId, choiceId);
 
             if (result.success) {
                 ctx.send(connection.ws, {
                     type: 'quest_reward_claimed',
                     data: {
                         questId,
+                        choiceId: result.choiceId,
                         rewards: result.rewards
                     },
                     timestamp: Date.now()
@@ -168,7 +171,7 @@ export class QuestHandlers {
     /**
      * Abandon quest
      */
-    static async handleAbandonQuest(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleAbandonQuest(connection: PlayerConnection, data: ValidatedPayload<'abandon_quest'>, ctx: HandlerContext): Promise<void> {
         try {
             const { questId } = data;
 
@@ -196,7 +199,7 @@ export class QuestHandlers {
     /**
      * Get quest stats
      */
-    static async handleGetQuestStats(connection: PlayerConnection, _data: any, ctx: HandlerContext): Promise<void> {
+    static async handleGetQuestStats(connection: PlayerConnection, _data: ValidatedPayload<'get_quest_stats'>, ctx: HandlerContext): Promise<void> {
         try {
             const stats = await questService.getQuestStats(connection.playerId);
 
@@ -3,6 +3,7 @@
 // =============================================================================
 
 import type { PlayerConnection, HandlerContext } from '../types.js';
+import type { ValidatedPayload } from '../../common/protocol/index.js';
 import { referralService } from '../../services/ReferralService.js';
 import { notificationService } from '../../services/NotificationService.js';
 
@@ -10,7 +11,7 @@ export class ReferralHandlers {
     /**
      * Generate a referral code for the player
      */
-    static async handleGenerateCode(connection: PlayerConnection, _data: any, ctx: HandlerContext): Promise<void> {
+    static async handleGenerateCode(connection: PlayerConnection, _data: ValidatedPayload<'generate_referral_code'>, ctx: HandlerContext): Promise<void> {
         try {
             // getOrCreateReferralCode will create one if it doesn't exist
             const codeData = await referralService.getOrCreateReferralCode(
@@ -36,7 +37,7 @@ export class ReferralHandlers {
     /**
      * Apply a referral code (new player using someone's code)
      */
-    static async handleApplyReferral(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleApplyReferral(connection: PlayerConnection, data: ValidatedPayload<'apply_referral'>, ctx: HandlerContext): Promise<void> {
         try {
             const { code } = data;
             if (!code) {
@@ -93,7 +94,7 @@ export class ReferralHandlers {
     /**
      * Get referral stats for the player
      */
-    static async handleGetReferralStats(connection: PlayerConnection, _data: any, ctx: HandlerContext): Promise<void> {
+    static async handleGetReferralStats(connection: PlayerConnection, _data: ValidatedPayload<'get_referral_stats'>, ctx: HandlerContext): Promise<void> {
         try {
             const stats = await referralService.getReferralStats(connection.playerId);
 
@@ -110,7 +111,7 @@ export class ReferralHandlers {
     /**
      * Get list of referred players
      */
-    static async handleGetReferredPlayers(connection: PlayerConnection, _data: any, ctx: HandlerContext): Promise<void> {
+    static async handleGetReferredPlayers(connection: PlayerConnection, _data: ValidatedPayload<'get_referred_players'>, ctx: HandlerContext): Promise<void> {
         try {
             // Get stats which includes referral count
             const stats = await referralService.getReferralStats(connection.playerId);
@@ -131,7 +132,7 @@ export class ReferralHandlers {
     /**
      * Claim referral milestone reward
      */
-    static async handleClaimReferralReward(connection: PlayerConnection, _data: any, ctx: HandlerContext): Promise<void> {
+    static async handleClaimReferralReward(connection: PlayerConnection, _data: ValidatedPayload<'claim_referral_reward'>, ctx: HandlerContext): Promise<void> {
         try {
             const result = await referralService.checkAndAwardMilestones(connection.playerId);
 
@@ -159,7 +160,7 @@ export class ReferralHandlers {
     /**
      * Get referral code info (for sharing)
      */
-    static async handleGetMyReferralCode(connection: PlayerConnection, _data: any, ctx: HandlerContext): Promise<void> {
+    static async handleGetMyReferralCode(connection: PlayerConnection, _data: ValidatedPayload<'get_my_referral_code'>, ctx: HandlerContext): Promise<void> {
         try {
             const codeInfo = await referralService.getReferralCode(connection.playerId);
 
@@ -176,7 +177,7 @@ export class ReferralHandlers {
     /**
      * Check if a referral code is valid (preview before applying)
      */
-    static async handleValidateReferralCode(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleValidateReferralCode(connection: PlayerConnection, data: ValidatedPayload<'validate_referral_code'>, ctx: HandlerContext): Promise<void> {
         try {
             const { code } = data;
             if (!code) return;
@@ -3,13 +3,14 @@
 // =============================================================================
 
 import type { PlayerConnection, HandlerContext } from '../types.js';
+import type { ValidatedPayload } from '../../common/protocol/index.js';
 import { reputationService } from '../../services/ReputationService.js';
 
 export class ReputationHandlers {
     /**
      * Get player's reputation
      */
-    static async handleRequestReputation(connection: PlayerConnection, _data: any, ctx: HandlerContext): Promise<void> {
+    static async handleRequestReputation(connection: PlayerConnection, _data: ValidatedPayload<'request_reputation'>, ctx: HandlerContext): Promise<void> {
         try {
             const reputation = await reputationService.getReputation(connection.playerId);
 
@@ -26,19 +27,16 @@ export class ReputationHandlers {
     /**
      * Track a reputation action
      */
-    static async handleTrackReputationAction(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleTrackReputationAction(connection: PlayerConnection, data: ValidatedPayload<'track_reputation_action'>, ctx: HandlerContext): Promise<void> {
         try {
-            const { action, multiplier } = data;
+            const { action } = data;
 
             if (!action) {
                 return;
             }
 
-            const result = await reputationService.addReputationXP(
-                connection.playerId,
-                action,
-                multiplier || 1
-            );
+            // The service sets the XP an action is worth; clients only name the action
+            const result = await reputationService.addReputationXP(connection.playerId, action);
 
             if (result && result.xpGained > 0) {
                 ctx.send(connection.ws, {
@@ -60,7 +58,7 @@ export class ReputationHandlers {
     /**
      * Get track progress
      */
-    static async handleGetTrackProgress(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleGetTrackProgress(connection: PlayerConnection, data: ValidatedPayload<'get_track_progress'>, ctx: HandlerContext): Promise<void> {
         try {
             const { track } = data;
 
@@ -102,7 +100,7 @@ export class ReputationHandlers {
     /**
      * Claim reputation reward
      */
-    static async handleClaimReputationReward(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleClaimReputationReward(connection: PlayerConnection, data: ValidatedPayload<'claim_reputation_reward'>, ctx: HandlerContext): Promise<void> {
         try {
             const { rewardId } = data;
 
@@ -130,7 +128,7 @@ export class ReputationHandlers {
     /**
      * Get reputation leaderboard for a track
      */
-    static async handleGetReputationLeaderboard(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleGetReputationLeaderboard(connection: PlayerConnection, data: ValidatedPayload<'get_reputation_leaderboard'>, ctx: HandlerContext): Promise<void> {
         try {
             const { track, limit } = data;
 
@@ -154,7 +152,7 @@ export class ReputationHandlers {
     /**
      * Get another player's public reputation
      */
-    static async handleGetPlayerReputation(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleGetPlayerReputation(connection: PlayerConnection, data: ValidatedPayload<'get_player_reputation'>, ctx: HandlerContext): Promise<void> {
         try {
             const { playerId } = data;
 
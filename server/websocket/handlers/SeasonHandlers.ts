@@ -1,4 +1,4 @@
-import { WebSocket } from 'ws';
+import type { BroadcastMessage, SendMessage } from '../types.js';
 import { seasonPassService } from '../../services/SeasonPassService.js';
 
 interface SeasonMessage {
@@ -11,8 +11,8 @@ interface SeasonMessage {
 }
 
 export function setupSeasonHandlers(
-  ws: WebSocket,
-  broadcast: (message: any, excludeWs?: WebSocket) => void
+  send: SendMessage,
+  broadcast: BroadcastMessage
 ) {
   return {
     handleSeasonMessage: async (message: SeasonMessage) => {
@@ -21,19 +21,19 @@ export function setupSeasonHandlers(
       switch (type) {
         case 'season:getInfo': {
           const season = await seasonPassService.getCurrentSeason();
-          ws.send(JSON.stringify({
+          send({
             type: 'season:info',
             data: season
-          }));
+          });
           break;
         }
 
         case 'season:getProgress': {
           const progress = await seasonPassService.getPlayerProgress(playerId);
-          ws.send(JSON.stringify({
+          send({
             type: 'season:progress',
             data: progress
-          }));
+          });
           break;
         }
 
@@ -46,10 +46,10 @@ export function setupSeasonHandlers(
             message.source
           );
           
-          ws.send(JSON.stringify({
+          send({
             type: 'season:xpAdded',
             data: result
-          }));
+          });
 
           // If tier up, broadcast to room
           if (result?.tierUp) {
@@ -74,50 +74,50 @@ export function setupSeasonHandlers(
             message.claimPremium || false
           );
           
-          ws.send(JSON.stringify({
+          send({
             type: 'season:rewardClaimed',
             data: result
-          }));
+          });
           break;
         }
 
         case 'season:claimAll': {
           const result = await seasonPassService.claimAllAvailableRewards(playerId);
           
-          ws.send(JSON.stringify({
+          send({
             type: 'season:allRewardsClaimed',
             data: result
-          }));
+          });
           break;
         }
 
         case 'season:upgradePremium': {
           const result = await seasonPassService.upgradeToPremium(playerId);
           
-          ws.send(JSON.stringify({
+          send({
             type: 'season:premiumUpgraded',
             data: result
-          }));
+          });
           break;
         }
 
         case 'season:getRewards': {
           const rewards = await seasonPassService.getSeasonRewards();
           
-          ws.send(JSON.stringify({
+          send({
             type: 'season:rewards',
             data: { rewards }
-          }));
+          });
           break;
         }
 
         case 'season:getHistory': {
           const history = await seasonPassService.getPlayerSeasonHistory(playerId);
           
-          ws.send(JSON.stringify({
+          send({
             type: 'season:history',
             data: { history }
-          }));
+          });
           break;
         }
       }
@@ -127,7 +127,7 @@ export function setupSeasonHandlers(
 
 // Event listeners for season service
 export function initializeSeasonEventListeners(
-  broadcast: (message: any) => void
+  broadcast: BroadcastMessage
 ) {
   seasonPassService.on('tier_up', (data) => {
     broadcast({
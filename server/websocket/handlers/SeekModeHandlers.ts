@@ -4,258 +4,214 @@
 // Phase 1.6: Seek Mode Server Validation
 // =============================================================================
 
-import { WebSocket } from 'ws';
-import { seekModeService, ISeekGameSession } from '../../services/SeekModeService.js';
-
-interface ExtendedWebSocket extends WebSocket {
-    playerId?: string;
-    playerName?: string;
-    realm?: string;
-}
+import type { SeekGameSession, ValidatedPayload } from '../../common/protocol/index.js';
+import { seekModeService, SeekGameSessionRecord } from '../../services/SeekModeService.js';
+import type { HandlerContext, PlayerConnection } from '../types.js';
 
 // ============================================
 // MESSAGE HANDLERS
 // ============================================
 
 export async function handleCreateSeekGame(
-    ws: ExtendedWebSocket,
-    data: {
-        centerX: number;
-        centerY: number;
-        settings?: Partial<ISeekGameSession['settings']>;
-    }
+    connection: PlayerConnection,
+    data: ValidatedPayload<'seek:createGame'>,
+    ctx: HandlerContext
 ): Promise<void> {
-    if (!ws.playerId || !ws.realm) {
-        ws.send(JSON.stringify({
-            type: 'seek:createGame:error',
-            error: 'Not authenticated'
-        }));
-        return;
-    }
-
     const session = await seekModeService.createGame(
-        ws.playerId,
-        ws.playerName || 'Unknown',
-        ws.realm,
+        connection.playerId,
+        connection.playerName,
+        connection.realm,
         data.centerX,
         data.centerY,
         data.settings
     );
 
     if (!session) {
-        ws.send(JSON.stringify({
+        ctx.send(connection.ws, {
             type: 'seek:createGame:error',
-            error: 'Already in a game or failed to create'
-        }));
+            data: { error: 'Already in a game or failed to create' },
+            timestamp: Date.now()
+        });
         return;
     }
 
-    ws.send(JSON.stringify({
+    ctx.send(connection.ws, {
         type: 'seek:createGame:success',
-        gameId: session.gameId,
-        session: sanitizeSession(session)
-    }));
+        data: {
+            gameId: session.gameId,
+            session: sanitizeSession(session)
+        },
+        timestamp: Date.now()
+    });
 }
 
 export async function handleJoinSeekGame(
-    ws: ExtendedWebSocket,
-    data: { gameId: string }
+    connection: PlayerConnection,
+    data: ValidatedPayload<'seek:joinGame'>,
+    ctx: HandlerContext
 ): Promise<void> {
-    if (!ws.playerId) {
-        ws.send(JSON.stringify({
-            type: 'seek:joinGame:error',
-            error: 'Not authenticated'
-        }));
-        return;
-    }
-
     const result = await seekModeService.joinGame(
         data.gameId,
-        ws.playerId,
-        ws.playerName || 'Unknown'
+        connection.playerId,
+        connection.playerName
     );
 
     if (!result.success) {
-        ws.send(JSON.stringify({
+        ctx.send(connection.ws, {
             type: 'seek:joinGame:error',
-            error: result.error
-        }));
+            data: { error: result.error },
+            timestamp: Date.now()
+        });
         return;
     }
 
-    ws.send(JSON.stringify({
+    ctx.send(connection.ws, {
         type: 'seek:joinGame:success',
-        gameId: data.gameId,
-        session: sanitizeSession(result.session!)
-    }));
+        data: {
+            gameId: data.gameId,
+            session: sanitizeSession(result.session!)
+        },
+        timestamp: Date.now()
+    });
 }
 
 export async function handleStartSeekGame(
-    ws: ExtendedWebSocket,
-    data: { gameId: string }
+    connection: PlayerConnection,
+    data: ValidatedPayload<'seek:startGame'>,
+    ctx: HandlerContext
 ): Promise<void> {
-    if (!ws.playerId) {
-        ws.send(JSON.stringify({
-            type: 'seek:startGame:error',
-            error: 'Not authenticated'
-        }));
-        return;
-    }
-
-    const result = await seekModeService.startGame(data.gameId, ws.playerId);
+    const result = await seekModeService.startGame(data.gameId, connection.playerId);
 
     if (!result.success) {
-        ws.send(JSON.stringify({
+        ctx.send(connection.ws, {
             type: 'seek:startGame:error',
-            error: result.error
-        }));
+            data: { error: result.error },
+            timestamp: Date.now()
+        });
         return;
     }
 
-    ws.send(JSON.stringify({
+    ctx.send(connection.ws, {
         type: 'seek:startGame:success',
-        gameId: data.gameId
-    }));
+        data: { gameId: data.gameId },
+        timestamp: Date.now()
+    });
 }
 
 export async function handleConfirmHiding(
-    ws: ExtendedWebSocket,
-    data: { gameId: string; x: number; y: number }
+    connection: PlayerConnection,
+    data: ValidatedPayload<'seek:confirmHiding'>,
+    ctx: HandlerContext
 ): Promise<void> {
-    if (!ws.playerId) {
-        ws.send(JSON.stringify({
-            type: 'seek:confirmHiding:error',
-            error: 'Not authenticated'
-        }));
-        return;
-    }
-
     const result = await seekModeService.confirmHidingPosition(
         data.gameId,
-        ws.playerId,
+        connection.playerId,
         data.x,
         data.y
     );
 
     if (!result.success) {
-        ws.send(JSON.stringify({
+        ctx.send(connection.ws, {
             type: 'seek:confirmHiding:error',
-            error: result.error
-        }));
+            data: { error: result.error },
+            timestamp: Date.now()
+        });
         return;
     }
 
-    ws.send(JSON.stringify({
-        type: 'seek:confirmHiding:success'
-    }));
+    ctx.send(connection.ws, {
+        type: 'seek:confirmHiding:success',
+        data: {},
+        timestamp: Date.now()
+    });
 }
 
 export async function handleAttemptFind(
-    ws: ExtendedWebSocket,
-    data: { gameId: string; targetX: number; targetY: number }
+    connection: PlayerConnection,
+    data: ValidatedPayload<'seek:attemptFind'>,
+    ctx: HandlerContext
 ): Promise<void> {
-    if (!ws.playerId) {
-        ws.send(JSON.stringify({
-            type: 'seek:attemptFind:error',
-            error: 'Not authenticated'
-        }));
-        return;
-    }
-
     const result = await seekModeService.attemptFind(
         data.gameId,
-        ws.playerId,
+        connection.playerId,
         data.targetX,
         data.targetY
     );
 
     if (!result.success) {
-        ws.send(JSON.stringify({
+        ctx.send(connection.ws, {
             type: 'seek:attemptFind:error',
-            error: result.error
-        }));
+            data: { error: result.error },
+            timestamp: Date.now()
+        });
         return;
     }
 
-    ws.send(JSON.stringify({
+    ctx.send(connection.ws, {
         type: 'seek:attemptFind:result',
-        found: result.found,
-        playerId: result.playerId,
-        playerName: result.playerName
-    }));
+        data: {
+            found: result.found,
+            playerId: result.playerId,
+            playerName: result.playerName
+        },
+        timestamp: Date.now()
+    });
 }
 
 export async function handleLeaveSeekGame(
-    ws: ExtendedWebSocket
+    connection: PlayerConnection,
+    ctx: HandlerContext
 ): Promise<void> {
-    if (!ws.playerId) return;
+    await seekModeService.leaveGame(connection.playerId);
 
-    await seekModeService.leaveGame(ws.playerId);
-
-    ws.send(JSON.stringify({
-        type: 'seek:leaveGame:success'
-    }));
+    ctx.send(connection.ws, {
+        type: 'seek:leaveGame:success',
+        data: {},
+        timestamp: Date.now()
+    });
 }
 
 export async function handleGetActiveSeekGames(
-    ws: ExtendedWebSocket
+    connection: PlayerConnection,
+    ctx: HandlerContext
 ): Promise<void> {
-    if (!ws.realm) {
-        ws.send(JSON.stringify({
-            type: 'seek:getGames:error',
-            error: 'No realm'
-        }));
-        return;
-    }
-
-    const games = await seekModeService.getActiveGames(ws.realm);
+    const games = await seekModeService.getActiveGames(connection.realm);
 
-    ws.send(JSON.stringify({
+    ctx.send(connection.ws, {
         type: 'seek:getGames:result',
-        games: games.map(sanitizeSession)
-    }));
+        data: { games: games.map(sanitizeSession) },
+        timestamp: Date.now()
+    });
 }
 
 export async function handleGetSeekHistory(
-    ws: ExtendedWebSocket,
-    data?: { limit?: number }
+    connection: PlayerConnection,
+    data: ValidatedPayload<'seek:getHistory'>,
+    ctx: HandlerContext
 ): Promise<void> {
-    if (!ws.playerId) {
-        ws.send(JSON.stringify({
-            type: 'seek:getHistory:error',
-            error: 'Not authenticated'
-        }));
-        return;
-    }
-
     const history = await seekModeService.getGameHistory(
-        ws.playerId,
-        data?.limit || 10
+        connection.playerId,
+        data.limit || 10
     );
 
-    ws.send(JSON.stringify({
+    ctx.send(connection.ws, {
         type: 'seek:getHistory:result',
-        history: history.map(sanitizeSession)
-    }));
+        data: { history: history.map(sanitizeSession) },
+        timestamp: Date.now()
+    });
 }
 
 export async function handleGetCurrentSeekGame(
-    ws: ExtendedWebSocket
+    connection: PlayerConnection,
+    ctx: HandlerContext
 ): Promise<void> {
-    if (!ws.playerId) {
-        ws.send(JSON.stringify({
-            type: 'seek:getCurrent:error',
-            error: 'Not authenticated'
-        }));
-        return;
-    }
+    const session = seekModeService.getPlayerGame(connection.playerId);
 
-    const session = seekModeService.getPlayerGame(ws.playerId);
-
-    ws.send(JSON.stringify({
+    ctx.send(connection.ws, {
         type: 'seek:getCurrent:result',
-        session: session ? sanitizeSession(session) : null
-    }));
+        data: { session: session ? sanitizeSession(session) : null },
+        timestamp: Date.now()
+    });
 }
 
 // ============================================
@@ -263,16 +219,19 @@ export async function handleGetCurrentSeekGame(
 // ============================================
 
 export function setupSeekModeEventListeners(
-    broadcastToRealm: (realm: string, message: any) => void,
-    broadcastToPlayers: (playerIds: string[], message: any) => void
+    broadcastToRealm: HandlerContext['broadcastToRealm'],
+    broadcastToPlayers: HandlerContext['sendToPlayers']
 ): void {
-    seekModeService.on('game_created', (session: ISeekGameSession) => {
+    seekModeService.on('game_created', (session: SeekGameSessionRecord) => {
         broadcastToRealm(session.realm, {
             type: 'seek:gameCreated',
-            gameId: session.gameId,
-            hostName: session.hostName,
-            maxPlayers: session.settings.maxPlayers,
-            currentPlayers: 1
+            data: {
+                gameId: session.gameId,
+                hostName: session.hostName,
+                maxPlayers: session.settings.maxPlayers,
+                currentPlayers: 1
+            },
+            timestamp: Date.now()
         });
     });
 
@@ -280,13 +239,16 @@ export function setupSeekModeEventListeners(
         const session = seekModeService.getPlayerGame(playerId);
         if (!session) return;
 
-        const allPlayerIds = [session.seekerId!, ...session.hiders.map((h: any) => h.playerId)];
+        const allPlayerIds = [session.seekerId!, ...session.hiders.map(h => h.playerId)];
         broadcastToPlayers(allPlayerIds, {
             type: 'seek:playerJoined',
-            gameId,
-            playerId,
-            playerName,
-            currentPlayers: session.hiders.length + 1
+            data: {
+                gameId,
+                playerId,
+                playerName,
+                currentPlayers: session.hiders.length + 1
+            },
+            timestamp: Date.now()
         });
     });
 
@@ -320,7 +282,7 @@ export function setupSeekModeEventListeners(
 // HELPERS
 // ============================================
 
-function sanitizeSession(session: ISeekGameSession): any {
+function sanitizeSession(session: SeekGameSessionRecord): SeekGameSession {
     return {
         gameId: session.gameId,
         realm: session.realm,
@@ -328,7 +290,7 @@ function sanitizeSession(session: ISeekGameSession): any {
         hostId: session.hostId,
         hostName: session.hostName,
         seekerName: session.seekerName,
-        hiders: session.hiders.map((h: any) => ({
+        hiders: session.hiders.map(h => ({
             playerId: h.playerId,
             playerName: h.playerName,
             hidden: h.hidden,
@@ -3,13 +3,14 @@
 // =============================================================================
 
 import type { PlayerConnection, HandlerContext } from '../types.js';
+import type { ValidatedPayload } from '../../common/protocol/index.js';
 import { signalsService } from '../../services/SignalsService.js';
 
 export class SignalsHandlers {
     /**
      * Send a signal
      */
-    static handleSendSignal(connection: PlayerConnection, data: any, ctx: HandlerContext): void {
+    static handleSendSignal(connection: PlayerConnection, data: ValidatedPayload<'send_signal'>, ctx: HandlerContext): void {
         try {
             const { type, targetId, message, intensity, color } = data;
 
@@ -64,10 +65,8 @@ export class SignalsHandlers {
     /**
      * Get signals in range
      */
-    static handleGetSignals(connection: PlayerConnection, data: any, ctx: HandlerContext): void {
+    static handleGetSignals(connection: PlayerConnection, _data: ValidatedPayload<'request_signals' | 'get_signals'>, ctx: HandlerContext): void {
         try {
-            const { maxRange } = data;
-
             const signals = signalsService.getSignalsForPlayer(
                 connection.playerId,
                 { x: connection.x, y: connection.y },
@@ -87,7 +86,7 @@ export class SignalsHandlers {
     /**
      * Acknowledge a signal (mark as seen)
      */
-    static handleAcknowledgeSignal(connection: PlayerConnection, data: any, ctx: HandlerContext): void {
+    static handleAcknowledgeSignal(connection: PlayerConnection, data: ValidatedPayload<'acknowledge_signal'>, ctx: HandlerContext): void {
         try {
             const { signalId } = data;
 
@@ -112,11 +111,11 @@ export class SignalsHandlers {
     /**
      * Respond to a signal
      */
-    static handleRespondToSignal(connection: PlayerConnection, data: any, ctx: HandlerContext): void {
+    static handleRespondToSignal(connection: PlayerConnection, data: ValidatedPayload<'respond_signal'>, ctx: HandlerContext): void {
         try {
-            const { signalId, responseType } = data;
+            const { signalId, response } = data;
 
-            if (!signalId || !responseType) {
+            if (!signalId || !response) {
                 ctx.sendError(connection, 'Signal ID and response type required');
                 return;
             }
@@ -125,7 +124,7 @@ export class SignalsHandlers {
                 connection.playerId,
                 connection.playerName || 'Player',
                 signalId,
-                responseType,
+                response,
                 { x: connection.x, y: connection.y },
                 connection.realm || 'genesis'
             );
@@ -161,7 +160,7 @@ export class SignalsHandlers {
     /**
      * Get directed signals (signals aimed at you)
      */
-    static handleGetDirectedSignals(connection: PlayerConnection, _data: any, ctx: HandlerContext): void {
+    static handleGetDirectedSignals(connection: PlayerConnection, _data: ValidatedPayload<'get_directed_signals'>, ctx: HandlerContext): void {
         try {
             const signals = signalsService.getDirectedSignals(connection.playerId);
 
@@ -178,7 +177,7 @@ export class SignalsHandlers {
     /**
      * Get signal cooldowns
      */
-    static handleGetSignalCooldowns(connection: PlayerConnection, _data: any, ctx: HandlerContext): void {
+    static handleGetSignalCooldowns(connection: PlayerConnection, _data: ValidatedPayload<'get_signal_cooldowns'>, ctx: HandlerContext): void {
         try {
             const cooldowns = signalsService.getCooldowns(connection.playerId);
 
@@ -195,7 +194,7 @@ export class SignalsHandlers {
     /**
      * Get available signal types
      */
-    static handleGetSignalTypes(connection: PlayerConnection, _data: any, ctx: HandlerContext): void {
+    static handleGetSignalTypes(connection: PlayerConnection, _data: ValidatedPayload<'get_signal_types'>, ctx: HandlerContext): void {
         try {
             const available = signalsService.getAvailableSignals(connection.level || 1);
             const all = signalsService.getAllSignalConfigs();
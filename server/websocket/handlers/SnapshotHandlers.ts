@@ -3,13 +3,14 @@
 // =============================================================================
 
 import type { PlayerConnection, HandlerContext } from '../types.js';
+import type { ValidatedPayload } from '../../common/protocol/index.js';
 import { snapshotService } from '../../services/SnapshotService.js';
 
 export class SnapshotHandlers {
     /**
      * Handle snapshot taken event
      */
-    static async handleSnapshotTaken(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleSnapshotTaken(connection: PlayerConnection, data: ValidatedPayload<'snapshot_taken'>, ctx: HandlerContext): Promise<void> {
         try {
             const { x, y, realm, visiblePlayers, visibleEntities, caption } = data;
 
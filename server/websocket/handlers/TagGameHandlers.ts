@@ -3,7 +3,9 @@
 // =============================================================================
 
 import type { PlayerConnection, HandlerContext } from '../types.js';
+import type { ValidatedPayload } from '../../common/protocol/index.js';
 import { progressionService } from '../../services/ProgressionService.js';
+import { getRealmSpecialMode } from '../../common/realms.js';
 
 interface TagGame {
     id: string;
@@ -25,10 +27,16 @@ export class TagGameHandlers {
     /**
      * Create a new tag game
      */
-    static handleCreateTagGame(connection: PlayerConnection, data: any, ctx: HandlerContext): void {
+    static handleCreateTagGame(connection: PlayerConnection, data: ValidatedPayload<'tag_create'>, ctx: HandlerContext): void {
         try {
             const { duration, minPlayers, maxPlayers } = data;
 
+            // Zen realms are for resting, not chasing
+            if (getRealmSpecialMode(connection.realm) === 'zen') {
+                ctx.sendError(connection, 'Tag games cannot be started in this realm');
+                return;
+            }
+
             // Check if player is already in a game
             for (const game of TagGameHandlers.activeGames.values()) {
                 if (game.players.has(connection.playerId)) {
@@ -91,9 +99,9 @@ export class TagGameHandlers {
     /**
      * Join a tag game
      */
-    static handleJoinTagGame(connection: PlayerConnection, data: any, ctx: HandlerContext): void {
+    static handleJoinTagGame(connection: PlayerConnection, data: ValidatedPayload<'tag_join'>, ctx: HandlerContext): void {
         try {
-            const { gameId } = data;
+            const { sessionId: gameId } = data;
 
             const game = TagGameHandlers.activeGames.get(gameId);
             if (!game) {
@@ -151,9 +159,9 @@ export class TagGameHandlers {
     /**
      * Start a tag game
      */
-    static handleStartTagGame(connection: PlayerConnection, data: any, ctx: HandlerContext): void {
+    static handleStartTagGame(connection: PlayerConnection, data: ValidatedPayload<'tag_start'>, ctx: HandlerContext): void {
         try {
-            const { gameId } = data;
+            const { sessionId: gameId } = data;
 
             const game = TagGameHandlers.activeGames.get(gameId);
             if (!game) {
@@ -207,9 +215,9 @@ export class TagGameHandlers {
     /**
      * Handle tagging another player
      */
-    static async handleTag(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleTag(connection: PlayerConnection, data: ValidatedPayload<'tag_attempt'>, ctx: HandlerContext): Promise<void> {
         try {
-            const { gameId, targetId } = data;
+            const { sessionId: gameId, targetId } = data;
 
             const game = TagGameHandlers.activeGames.get(gameId);
             if (!game) {
@@ -286,9 +294,9 @@ export class TagGameHandlers {
     /**
      * Leave a tag game
      */
-    static handleLeaveTagGame(connection: PlayerConnection, data: any, ctx: HandlerContext): void {
+    static handleLeaveTagGame(connection: PlayerConnection, data: ValidatedPayload<'tag_leave'>, ctx: HandlerContext): void {
         try {
-            const { gameId } = data;
+            const { sessionId: gameId } = data;
 
             const game = TagGameHandlers.activeGames.get(gameId);
             if (!game) return;
@@ -393,7 +401,7 @@ export class TagGameHandlers {
     /**
      * Get available tag games
      */
-    static handleGetTagGames(connection: PlayerConnection, _data: any, ctx: HandlerContext): void {
+    static handleGetTagGames(connection: PlayerConnection, _data: ValidatedPayload<'get_tag_games'>, ctx: HandlerContext): void {
         try {
             const games = Array.from(TagGameHandlers.activeGames.values())
                 .filter(g => g.realm === connection.realm && g.status === 'waiting')
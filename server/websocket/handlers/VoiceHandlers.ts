@@ -3,12 +3,14 @@
 // =============================================================================
 
 import type { PlayerConnection, HandlerContext } from '../types.js';
+import type { ValidatedPayload } from '../../common/protocol/index.js';
+import type { ServerMessage } from '../../common/protocol/index.js';
 
 export class VoiceHandlers {
     /**
      * Handle voice signal (WebRTC offer/answer/ice)
      */
-    static async handleVoiceSignal(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleVoiceSignal(connection: PlayerConnection, data: ValidatedPayload<'voice_signal'>, ctx: HandlerContext): Promise<void> {
         try {
             const { targetId, signalType, signal } = data;
 
@@ -66,7 +68,7 @@ export class VoiceHandlers {
     /**
      * Handle joining a voice room (or channel)
      */
-    static async handleJoinRoom(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleJoinRoom(connection: PlayerConnection, data: ValidatedPayload<'voice_join_room'>, ctx: HandlerContext): Promise<void> {
         // For now, simpler proximity voice is used, but we acknowledge the room request
         // Could be used for Guild voice channels later
         connection.voiceRoom = data.roomId;
@@ -76,7 +78,7 @@ export class VoiceHandlers {
     /**
      * Handle leaving a voice room
      */
-    static async handleLeaveRoom(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleLeaveRoom(connection: PlayerConnection, data: ValidatedPayload<'voice_leave_room'>, ctx: HandlerContext): Promise<void> {
         connection.voiceRoom = undefined;
         ctx.send(connection.ws, { type: 'voice_room_left', data: {}, timestamp: Date.now() });
     }
@@ -84,7 +86,7 @@ export class VoiceHandlers {
     /**
      * Handle mute state change
      */
-    static async handleMute(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleMute(connection: PlayerConnection, data: ValidatedPayload<'voice_mute'>, ctx: HandlerContext): Promise<void> {
         // Broadcast mute state to nearby players or room members
         // For proximity, we broadcast to realm
         if (connection.realm && ctx.realms.has(connection.realm)) {
@@ -104,10 +106,10 @@ export class VoiceHandlers {
     /**
      * Handle speaking state change (for visual indicators)
      */
-    static async handleSpeaking(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleSpeaking(connection: PlayerConnection, data: ValidatedPayload<'voice_speaking'>, ctx: HandlerContext): Promise<void> {
         if (connection.realm && ctx.realms.has(connection.realm)) {
             const realm = ctx.realms.get(connection.realm)!;
-            const msg = {
+            const msg: ServerMessage<'player_speaking'> = {
                 type: 'player_speaking',
                 data: { playerId: connection.playerId, speaking: data.speaking },
                 timestamp: Date.now()
@@ -123,7 +125,7 @@ export class VoiceHandlers {
     /**
      * Get nearby peers for voice connection
      */
-    static async handleGetNearbyVoicePeers(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleGetNearbyVoicePeers(connection: PlayerConnection, data: ValidatedPayload<'get_nearby_voice_peers'>, ctx: HandlerContext): Promise<void> {
         // Return list of players in same realm for now (simplest proximity)
         // In real massive game, we'd use a spatial grid query
         if (connection.realm && ctx.realms.has(connection.realm)) {
@@ -143,7 +145,7 @@ export class VoiceHandlers {
     /**
      * Get available voice rooms
      */
-    static async handleGetVoiceRooms(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleGetVoiceRooms(connection: PlayerConnection, data: ValidatedPayload<'get_voice_rooms'>, ctx: HandlerContext): Promise<void> {
         // Stub: return empty list or guild rooms if implemented
         ctx.send(connection.ws, {
             type: 'voice_rooms_list',
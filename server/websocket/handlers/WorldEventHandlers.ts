@@ -3,6 +3,7 @@
 // =============================================================================
 
 import type { PlayerConnection, HandlerContext, WorldEvent } from '../types.js';
+import type { ValidatedPayload } from '../../common/protocol/index.js';
 import { worldEventsService } from '../../services/WorldEventsService.js';
 import { darknessService } from '../../services/DarknessService.js';
 import { eventProgressService } from '../../services/EventProgressService.js';
@@ -11,7 +12,7 @@ export class WorldEventHandlers {
     /**
      * Get active world events
      */
-    static handleGetWorldEvents(connection: PlayerConnection, _data: any, ctx: HandlerContext): void {
+    static handleGetWorldEvents(connection: PlayerConnection, _data: ValidatedPayload<'request_world_events'>, ctx: HandlerContext): void {
         try {
             const events = worldEventsService.getActiveEvents(connection.realm);
 
@@ -28,9 +29,9 @@ export class WorldEventHandlers {
     /**
      * Join/participate in a world event
      */
-    static async handleJoinWorldEvent(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleJoinWorldEvent(connection: PlayerConnection, data: ValidatedPayload<'join_world_event'>, ctx: HandlerContext): Promise<void> {
         try {
-            const { eventId, eventName } = data;
+            const { eventId } = data;
 
             if (!eventId) {
                 ctx.sendError(connection, 'Event ID required');
@@ -43,7 +44,7 @@ export class WorldEventHandlers {
             const progress = await eventProgressService.getPlayerProgress(
                 connection.playerId,
                 eventId,
-                eventName
+                worldEventsService.getEvent(eventId)?.name
             );
 
             ctx.send(connection.ws, {
@@ -67,32 +68,33 @@ export class WorldEventHandlers {
     /**
      * Contribute to a world event (for goal-based events)
      */
-    static async handleContributeToEvent(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleContributeToEvent(connection: PlayerConnection, data: ValidatedPayload<'contribute_event'>, ctx: HandlerContext): Promise<void> {
         try {
-            const { eventId, contribution, amount, eventName } = data;
+            const { eventId, contribution, contributionType } = data;
+            const amount = contribution || 1;
 
-            if (!eventId || !contribution) {
+            if (!eventId || !contributionType) {
                 return;
             }
 
-            worldEventsService.updateEventProgress(eventId, contribution, amount || 1);
+            worldEventsService.updateEventProgress(eventId, contributionType, amount);
             worldEventsService.participateInEvent(eventId, connection.playerId);
             
             // Persist the contribution to MongoDB
             const result = await eventProgressService.addContribution(
                 connection.playerId,
                 eventId,
-                contribution,
-                amount || 1,
-                eventName
+                contributionType,
+                amount,
+                worldEventsService.getEvent(eventId)?.name
             );
 
             ctx.send(connection.ws, {
                 type: 'event_contribution',
                 data: { 
                     eventId, 
-                    contribution, 
-                    amount: amount || 1,
+                    contribution: contributionType, 
+                    amount,
                     newTotal: result.newTotal
                 },
                 timestamp: Date.now()
@@ -105,7 +107,7 @@ export class WorldEventHandlers {
     /**
      * Get player's event progress
      */
-    static async handleGetEventProgress(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleGetEventProgress(connection: PlayerConnection, data: ValidatedPayload<'get_event_progress'>, ctx: HandlerContext): Promise<void> {
         try {
             const { eventId } = data;
             
@@ -140,7 +142,7 @@ export class WorldEventHandlers {
     /**
      * Get event leaderboard
      */
-    static async handleGetEventLeaderboard(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleGetEventLeaderboard(connection: PlayerConnection, data: ValidatedPayload<'get_event_leaderboard'>, ctx: HandlerContext): Promise<void> {
         try {
             const { eventId, limit } = data;
             
@@ -164,14 +166,16 @@ export class WorldEventHandlers {
     /**
      * Claim event reward
      */
-    static async handleClaimEventReward(connection: PlayerConnection, data: any, ctx: HandlerContext): Promise<void> {
+    static async handleClaimEventReward(connection: PlayerConnection, data: ValidatedPayload<'claim_event_reward'>, ctx: HandlerContext): Promise<void> {
         try {
-            const { eventId, rewardId } = data;
+            const { eventId, tier } = data;
             
-            if (!eventId || !rewardId) {
-                ctx.sendError(connection, 'Event ID and Reward ID required');
+            if (!eventId || !tier) {
+                ctx.sendError(connection, 'Event ID and reward tier required');
                 return;
             }
+
+            const rewardId = `tier_${tier}`;
             
             const result = await eventProgressService.claimReward(
                 connection.playerId,
@@ -241,7 +245,7 @@ export class WorldEventHandlers {
     /**
      * Get current darkness level
      */
-    static handleGetDarknessLevel(connection: PlayerConnection, _data: any, ctx: HandlerContext): void {
+    static handleGetDarknessLevel(connection: PlayerConnection, _data: ValidatedPayload<'request_darkness' | 'get_darkness_level'>, ctx: HandlerContext): void {
         try {
             const realm = connection.realm || 'genesis';
             const level = darknessService.getDangerLevel(realm);
@@ -266,7 +270,7 @@ export class WorldEventHandlers {
      * Fight back darkness (collective action)
      * Note: Uses clearDarkness for emergency clear, or relies on beacon system
      */
-    static handleFightDarkness(connection: PlayerConnection, data: any, ctx: HandlerContext): void {
+    static handleFightDarkness(connection: PlayerConnection, data: ValidatedPayload<'fight_darkness'>, ctx: HandlerContext): void {
         try {
             const { power } = data;
             const realm = connection.realm || 'genesis';
@@ -300,7 +304,7 @@ export class WorldEventHandlers {
     /**
      * Get darkness safe zones (beacon-protected areas)
      */
-    static handleGetDarknessHazards(connection: PlayerConnection, data: any, ctx: HandlerContext): void {
+    static handleGetDarknessHazards(connection: PlayerConnection, data: ValidatedPayload<'get_darkness_hazards'>, ctx: HandlerContext): void {
         try {
             const realm = connection.realm || 'genesis';
             const state = darknessService.getSerializedState(realm);
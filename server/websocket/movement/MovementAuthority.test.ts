@@ -0,0 +1,142 @@
+// =============================================================================
+// MovementAuthority Tests - speed checks, teleport grants, suspicion scores
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { MovementAuthority } from './MovementAuthority.js';
+import { SHARED_CONFIG } from '../../common/constants.js';
+
+const config = { maxSpeed: 1000, tolerance: 1, burstSeconds: 1, correctionCooldown: 500 };
+
+describe('MovementAuthority', () => {
+    it('accepts movement within max speed', () => {
+        const authority = new MovementAuthority(config);
+        authority.spawn('p', 0, 0, 0);
+
+        // 20Hz updates at 900 units/sec
+        let x = 0;
+        for (let t = 50; t <= 1000; t += 50) {
+            x += 45;
+            const result = authority.validate('p', x, 0, 1, t);
+            expect(result.accepted).toBe(true);
+        }
+        expect(authority.getSuspicion('p')).toBeNull();
+    });
+
+    it('tolerates bunched updates after a lag spike', () => {
+        const authority = new MovementAuthority(config);
+        authority.spawn('p', 0, 0, 0);
+
+        // Nothing for 500ms, then three updates arrive at once
+        expect(authority.validate('p', 150, 0, 1, 500).accepted).toBe(true);
+        expect(authority.validate('p', 300, 0, 1, 501).accepted).toBe(true);
+        expect(authority.validate('p', 450, 0, 1, 502).accepted).toBe(true);
+    });
+
+    it('clamps a teleport to the reachable point and requests a correction', () => {
+        const authority = new MovementAuthority(config);
+        authority.spawn('p', 0, 0, 0);
+
+        const result = authority.validate('p', 8000, 0, 1, 100);
+        expect(result.accepted).toBe(false);
+        expect(result.reason).toBe('speed');
+        expect(result.correction).toBe(true);
+        expect(result.x).toBeCloseTo(100);
+        expect(result.y).toBe(0);
+
+        // The client has not applied the correction yet: clamped, but no second correction
+        const again = authority.validate('p', 8000, 0, 1, 150);
+        expect(again.accepted).toBe(false);
+        expect(again.correction).toBe(false);
+        expect(authority.getSuspicion('p', 150)?.violations).toBe(1);
+    });
+
+    it('allows faster movement while a speed power-up is active', () => {
+        const authority = new MovementAuthority(config);
+        authority.spawn('p', 0, 0, 0);
+
+        expect(authority.validate('p', 70, 0, 1, 50).accepted).toBe(false);
+
+        authority.spawn('p', 0, 0, 1000);
+        expect(authority.validate('p', 70, 0, 1.5, 1050).accepted).toBe(true);
+    });
+
+    it('lets a granted teleport through once', () => {
+        const authority = new MovementAuthority(config);
+        authority.spawn('p', 0, 0, 0);
+        authority.grantTeleport('p', 6000, 6000, 0);
+
+        // Landing slightly off the granted spot still counts
+        const result = authority.validate('p', 6100, 6050, 1, 100);
+        expect(result.accepted).toBe(true);
+        expect(result.teleported).toBe(true);
+
+        // The grant is consumed
+        expect(authority.validate('p', 0, 0, 1, 150).accepted).toBe(false);
+    });
+
+    it('ignores expired teleport grants', () => {
+        const authority = new MovementAuthority({ ...config, teleportGrantTtl: 1000 });
+        authority.spawn('p', 0, 0, 0);
+        authority.grantTeleport('p', 6000, 6000, 0);
+
+        expect(authority.validate('p', 6000, 6000, 1, 2000).accepted).toBe(false);
+    });
+
+    it('builds a decaying suspicion score and flags repeat offenders', () => {
+        const authority = new MovementAuthority({ ...config, flagThreshold: 25, suspicionHalfLife: 60000 });
+        authority.spawn('cheater', 0, 0, 0);
+        authority.spawn('honest', 0, 0, 0);
+
+        let t = 0;
+        for (let i = 0; i < 5; i++) {
+            t += 600;
+            authority.validate('cheater', 7000, 7000, 1, t);
+        }
+        authority.validate('honest', 50, 0, 1, t);
+
+        const report = authority.getSuspicionReport(t);
+        expect(report).toHaveLength(1);
+        expect(report[0].playerId).toBe('cheater');
+        expect(report[0].violations).toBe(5);
+        expect(report[0].flagged).toBe(true);
+
+        // Score halves after one half-life, the flag stays
+        const later = authority.getSuspicion('cheater', t + 60000)!;
+        expect(later.score).toBeCloseTo(report[0].score / 2, 1);
+        expect(later.flagged).toBe(true);
+    });
+
+    it('keeps suspicion across reconnects until it decays', () => {
+        const authority = new MovementAuthority({ ...config, suspicionHalfLife: 1000 });
+        authority.spawn('p', 0, 0, 0);
+        authority.validate('p', 5000, 0, 1, 100);
+        authority.removePlayer('p');
+
+        expect(authority.getSuspicionReport(200)[0]).toMatchObject({ playerId: 'p', online: false });
+        expect(authority.getSuspicionReport(100000)).toHaveLength(0);
+    });
+
+    it('caps a single update at the default burst, well short of crossing the world', () => {
+        const authority = new MovementAuthority();
+        const maxJump = SHARED_CONFIG.PLAYER_MAX_SPEED * 1.15 * 0.5;
+        expect(maxJump).toBeLessThan(1000);
+
+        // A long stall banks no more than the burst
+        authority.spawn('p', 0, 0, 0);
+        expect(authority.validate('p', maxJump - 1, 0, 1, 10000).accepted).toBe(true);
+
+        authority.spawn('q', 0, 0, 0);
+        const over = authority.validate('q', maxJump + 1, 0, 1, 10000);
+        expect(over.accepted).toBe(false);
+        expect(over.x).toBeCloseTo(maxJump);
+
+        // Full speed at 20Hz is never corrected
+        authority.spawn('r', 0, 0, 0);
+        let x = 0;
+        for (let t = 50; t <= 2000; t += 50) {
+            x += SHARED_CONFIG.PLAYER_MAX_SPEED / 20;
+            expect(authority.validate('r', x, 0, 1, t).accepted).toBe(true);
+        }
+    });
+});
@@ -0,0 +1,284 @@
+// =============================================================================
+// MovementAuthority - Server-side movement validation and speed-hack detection
+// =============================================================================
+// Clients own their own movement (tap-to-move physics runs in the browser) and
+// report positions through `player_update`. Without a check a client can jump
+// anywhere in the world every tick, which also defeats the distance check in
+// fragment collection. For each player we:
+//
+// 1. Track the last accepted position and when it was accepted
+// 2. Accrue a movement budget (distance) at the player's max speed (scaled by
+//    power-ups and the realm's drift), capped to a short burst so bunched-up
+//    packets after a lag spike still pass
+// 3. Accept moves that fit in the budget; clamp the rest to the reachable
+//    point and ask the client to rubber-band to it
+// 4. Let granted teleports (e.g. teleport_to_friend) skip the speed check once
+// 5. Feed violations into a decaying suspicion score for admins
+// =============================================================================
+
+import { SHARED_CONFIG } from '../../common/constants.js';
+
+export interface MovementConfig {
+    maxSpeed: number;              // World units per second at speed multiplier 1
+    tolerance: number;             // Headroom for frame-time and clock jitter
+    burstSeconds: number;          // Max unused movement that can be banked
+    teleportRadius: number;        // How close a client must land to a granted teleport
+    teleportGrantTtl: number;      // ms a granted teleport stays valid
+    correctionCooldown: number;    // ms between corrections (and counted violations)
+    suspicionHalfLife: number;     // ms for the suspicion score to halve
+    flagThreshold: number;         // Score at which a player is flagged
+    maxViolationWeight: number;    // Cap on how much one violation adds to the score
+}
+
+export type MovementRejectReason = 'speed';
+
+export interface MovementResult {
+    accepted: boolean;
+    x: number;                     // Authoritative position after this update
+    y: number;
+    reason?: MovementRejectReason;
+    correction: boolean;           // True when the client should be rubber-banded
+    teleported?: boolean;
+}
+
+export interface SuspicionReport {
+    playerId: string;
+    violations: number;
+    score: number;
+    flagged: boolean;
+    online: boolean;
+    lastViolationAt: number | null;
+    lastViolation: {
+        distance: number;
+        allowed: number;
+        speedMultiplier: number;
+    } | null;
+}
+
+interface MovementTrack {
+    x: number;
+    y: number;
+    lastUpdateAt: number;
+    budget: number;
+    lastCorrectionAt: number;
+    teleport: { x: number; y: number; expiresAt: number } | null;
+}
+
+interface SuspicionRecord {
+    violations: number;
+    score: number;
+    scoreUpdatedAt: number;
+    flagged: boolean;
+    lastViolationAt: number | null;
+    lastViolation: SuspicionReport['lastViolation'];
+}
+
+// The client's follow physics (5% of the cursor offset per frame) is capped at
+// SHARED_CONFIG.PLAYER_MAX_SPEED times the realm drift, the same speed checked
+// here. The tolerance covers frame-time jitter; half a second of burst lets
+// the ~20Hz updates that bunch up after a short stall through. At multiplier
+// 1 a single update can move at most maxSpeed * tolerance * burstSeconds
+// (690 units); longer stalls are rubber-banded.
+const DEFAULT_CONFIG: MovementConfig = {
+    maxSpeed: SHARED_CONFIG.PLAYER_MAX_SPEED,
+    tolerance: 1.15,
+    burstSeconds: 0.5,
+    teleportRadius: 250,
+    teleportGrantTtl: 10000,
+    correctionCooldown: 500,
+    suspicionHalfLife: 5 * 60 * 1000,
+    flagThreshold: 25,
+    maxViolationWeight: 10
+};
+
+export class MovementAuthority {
+    private readonly config: MovementConfig;
+    private tracks: Map<string, MovementTrack> = new Map();
+    private suspicion: Map<string, SuspicionRecord> = new Map();
+
+    constructor(config: Partial<MovementConfig> = {}) {
+        this.config = { ...DEFAULT_CONFIG, ...config };
+    }
+
+    /**
+     * Start (or restart) tracking a player at an authoritative position.
+     * Used on join and whenever the server itself moves the player.
+     */
+    spawn(playerId: string, x: number, y: number, now: number = Date.now()): void {
+        this.tracks.set(playerId, {
+            x,
+            y,
+            lastUpdateAt: now,
+            budget: 0,
+            lastCorrectionAt: -Infinity,
+            teleport: null
+        });
+    }
+
+    /**
+     * Allow the player's next position report to land near (x, y)
+     * regardless of distance travelled
+     */
+    grantTeleport(playerId: string, x: number, y: number, now: number = Date.now()): void {
+        const track = this.tracks.get(playerId);
+        if (!track) return;
+        track.teleport = { x, y, expiresAt: now + this.config.teleportGrantTtl };
+    }
+
+    /**
+     * Validate a reported position against the player's last accepted one
+     */
+    validate(
+        playerId: string,
+        x: number,
+        y: number,
+        speedMultiplier: number = 1,
+        now: number = Date.now()
+    ): MovementResult {
+        const track = this.tracks.get(playerId);
+        if (!track) {
+            // Untracked players are placed where they say and tracked from there
+            this.spawn(playerId, x, y, now);
+            return { accepted: true, x, y, correction: false };
+        }
+
+        if (track.teleport) {
+            const grant = track.teleport;
+            if (now > grant.expiresAt) {
+                track.teleport = null;
+            } else if (Math.hypot(x - grant.x, y - grant.y) <= this.config.teleportRadius) {
+                this.spawn(playerId, x, y, now);
+                return { accepted: true, x, y, correction: false, teleported: true };
+            }
+        }
+
+        const speed = this.config.maxSpeed * (speedMultiplier > 0 ? speedMultiplier : 1) * this.config.tolerance;
+        const elapsedSeconds = Math.max(0, now - track.lastUpdateAt) / 1000;
+        track.budget = Math.min(track.budget + speed * elapsedSeconds, speed * this.config.burstSeconds);
+        track.lastUpdateAt = now;
+
+        const dx = x - track.x;
+        const dy = y - track.y;
+        const distance = Math.hypot(dx, dy);
+
+        if (distance <= track.budget) {
+            track.budget -= distance;
+            track.x = x;
+            track.y = y;
+            return { accepted: true, x, y, correction: false };
+        }
+
+        // Too far: advance only as far as the budget allows
+        const allowed = track.budget;
+        const ratio = distance > 0 ? allowed / distance : 0;
+        track.x += dx * ratio;
+        track.y += dy * ratio;
+        track.budget = 0;
+
+        // The client keeps reporting its own position until the correction
+        // arrives, so only one violation is counted per correction window
+        const correction = now - track.lastCorrectionAt >= this.config.correctionCooldown;
+        if (correction) {
+            track.lastCorrectionAt = now;
+            this.recordViolation(playerId, distance, allowed, speedMultiplier, now);
+        }
+
+        return { accepted: false, x: track.x, y: track.y, reason: 'speed', correction };
+    }
+
+    /**
+     * Stop tracking a disconnected player. Suspicion is kept so it
+     * survives reconnects and decays naturally.
+     */
+    removePlayer(playerId: string): void {
+        this.tracks.delete(playerId);
+    }
+
+    /**
+     * Current suspicion for one player (null if they never violated)
+     */
+    getSuspicion(playerId: string, now: number = Date.now()): SuspicionReport | null {
+        const record = this.suspicion.get(playerId);
+        if (!record) return null;
+        return this.toReport(playerId, record, now);
+    }
+
+    /**
+     * Suspicion scores for every player with violations, highest first
+     */
+    getSuspicionReport(now: number = Date.now()): SuspicionReport[] {
+        const reports: SuspicionReport[] = [];
+        for (const [playerId, record] of this.suspicion) {
+            const report = this.toReport(playerId, record, now);
+            // Forget offline players whose score has fully decayed
+            if (!report.online && report.score < 0.1) {
+                this.suspicion.delete(playerId);
+                continue;
+            }
+            reports.push(report);
+        }
+        return reports.sort((a, b) => b.score - a.score);
+    }
+
+    // =========================================================================
+    // Internals
+    // =========================================================================
+
+    private recordViolation(
+        playerId: string,
+        distance: number,
+        allowed: number,
+        speedMultiplier: number,
+        now: number
+    ): void {
+        let record = this.suspicion.get(playerId);
+        if (!record) {
+            record = {
+                violations: 0,
+                score: 0,
+                scoreUpdatedAt: now,
+                flagged: false,
+                lastViolationAt: null,
+                lastViolation: null
+            };
+            this.suspicion.set(playerId, record);
+        }
+
+        // Weight by how far over the limit the move was: a lag spike is
+        // slightly over, a cross-world teleport is far over
+        const weight = Math.min(this.config.maxViolationWeight, distance / Math.max(allowed, 1));
+
+        record.score = this.decayedScore(record, now) + weight;
+        record.scoreUpdatedAt = now;
+        record.violations++;
+        record.lastViolationAt = now;
+        record.lastViolation = {
+            distance: Math.round(distance),
+            allowed: Math.round(allowed),
+            speedMultiplier
+        };
+
+        if (!record.flagged && record.score >= this.config.flagThreshold) {
+            record.flagged = true;
+            console.warn(`🚨 [Movement] Player ${playerId} flagged for speed hacking (${record.violations} violations)`);
+        }
+    }
+
+    private decayedScore(record: SuspicionRecord, now: number): number {
+        const elapsed = Math.max(0, now - record.scoreUpdatedAt);
+        return record.score * Math.pow(0.5, elapsed / this.config.suspicionHalfLife);
+    }
+
+    private toReport(playerId: string, record: SuspicionRecord, now: number): SuspicionReport {
+        const score = this.decayedScore(record, now);
+        return {
+            playerId,
+            violations: record.violations,
+            score: Math.round(score * 100) / 100,
+            flagged: record.flagged,
+            online: this.tracks.has(playerId),
+            lastViolationAt: record.lastViolationAt,
+            lastViolation: record.lastViolation
+        };
+    }
+}
@@ -0,0 +1,12 @@
+// =============================================================================
+// Movement Validation Module
+// =============================================================================
+
+export { MovementAuthority } from './MovementAuthority.js';
+
+export type {
+    MovementConfig,
+    MovementResult,
+    MovementRejectReason,
+    SuspicionReport
+} from './MovementAuthority.js';
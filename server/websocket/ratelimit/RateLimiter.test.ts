@@ -0,0 +1,96 @@
+// =============================================================================
+// RateLimiter Tests - token buckets, cooldowns, trip metrics
+// =============================================================================
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { RateLimiter } from './RateLimiter.js';
+import { Simulation } from '../testing/index.js';
+
+describe('RateLimiter', () => {
+    it('cuts off a flood of any message type and refills over time', () => {
+        const limiter = new RateLimiter({}, { burst: 5, rate: 10 });
+
+        for (let i = 0; i < 5; i++) {
+            expect(limiter.check('p', 'player_update', 0)).toBeNull();
+        }
+        expect(limiter.check('p', 'ping', 0)).toEqual({
+            limit: 'global', reason: 'flood', retryAfter: 100, notify: true
+        });
+        expect(limiter.check('p', 'ping', 50)).toMatchObject({ notify: false });
+
+        expect(limiter.check('p', 'ping', 200)).toBeNull();
+        expect(limiter.check('other', 'ping', 0)).toBeNull();
+    });
+
+    it('lets message types share a tighter bucket', () => {
+        const query = { bucket: 'leaderboard', burst: 2, rate: 0.5 };
+        const limiter = new RateLimiter({ top: query, rank: query });
+
+        expect(limiter.check('p', 'top', 0)).toBeNull();
+        expect(limiter.check('p', 'rank', 0)).toBeNull();
+        expect(limiter.check('p', 'top', 0)).toMatchObject({ limit: 'leaderboard', reason: 'rate', retryAfter: 2000 });
+        expect(limiter.check('p', 'chat', 0)).toBeNull();
+        expect(limiter.check('p', 'rank', 2000)).toBeNull();
+    });
+
+    it('rejects a repeated action until its cooldown has passed', () => {
+        const limiter = new RateLimiter({ sing: { burst: 5, rate: 5, cooldown: 2000 } });
+
+        expect(limiter.check('p', 'sing', 0)).toBeNull();
+        expect(limiter.check('p', 'sing', 1500)).toMatchObject({ reason: 'cooldown', retryAfter: 500 });
+        expect(limiter.check('p', 'sing', 2000)).toBeNull();
+
+        expect(limiter.getMetrics()).toEqual([
+            { limit: 'sing', checked: 3, tripped: 1, lastTrippedAt: 1500 },
+            { limit: 'global', checked: 3, tripped: 0, lastTrippedAt: null }
+        ]);
+    });
+});
+
+describe('Rate limits in the router', () => {
+    let sim: Simulation;
+
+    afterEach(async () => {
+        await sim.shutdown();
+    });
+
+    it('drops chat sent inside the cooldown and tells the sender once', async () => {
+        sim = new Simulation({ seed: 17 });
+        const alice = sim.connect('limit_alice');
+        const bob = sim.connect('limit_bob');
+        await sim.settle();
+
+        alice.send('chat', { message: 'hello' });
+        alice.send('chat', { message: 'hello again' });
+        alice.send('chat', { message: 'anyone?' });
+        await sim.settle();
+
+        expect(bob.received('chat_message').map(m => m.message)).toEqual(['hello']);
+        expect(alice.received('rate_limited')).toEqual([
+            { type: 'chat', limit: 'chat', reason: 'cooldown', retryAfter: 500 }
+        ]);
+
+        sim.tick(500 / sim.tickMs);
+        alice.send('chat', { message: 'there we go' });
+        await sim.settle();
+        expect(bob.received('chat_message').map(m => m.message)).toEqual(['hello', 'there we go']);
+
+        const chat = sim.handler.getRateLimitMetrics().find(m => m.limit === 'chat');
+        expect(chat).toMatchObject({ checked: 4, tripped: 2 });
+    });
+
+    it('keeps leaderboard queries well below the global rate', async () => {
+        sim = new Simulation({ seed: 17 });
+        const alice = sim.connect('limit_ranker');
+        await sim.settle();
+
+        for (let i = 0; i < 6; i++) alice.send('request_leaderboard', { type: 'xp', limit: 10 });
+        alice.send('ping', {});
+        await sim.settle();
+
+        expect(alice.received('rate_limited')).toEqual([
+            { type: 'request_leaderboard', limit: 'leaderboard', reason: 'rate', retryAfter: 2000 }
+        ]);
+        expect(alice.received('pong')).toHaveLength(1);
+    });
+});
@@ -0,0 +1,203 @@
+// =============================================================================
+// RateLimiter - Per-message-type rate limits and action cooldowns
+// =============================================================================
+// Every incoming message is checked against a policy table before dispatch:
+//
+// 1. All messages from a player draw from one global token bucket, so a
+//    flood of anything is cut off (50 messages/second sustained)
+// 2. Message types with a policy also draw from their own bucket. Types that
+//    name the same bucket (e.g. every leaderboard query) share its tokens,
+//    which keeps expensive Mongo-backed requests well below the global rate
+// 3. Policies with a cooldown reject a repeat of the same action until the
+//    cooldown has passed (sing, pulse, chat, ...)
+//
+// A rejected message is dropped and the player is told once per streak which
+// limit tripped and when to try again. Trip counts per limit are kept for
+// the admin dashboard.
+// =============================================================================
+
+export interface RatePolicy {
+    bucket?: string;            // Types naming the same bucket share its tokens (defaults to the type)
+    burst: number;              // Bucket size: messages allowed back to back
+    rate: number;               // Tokens refilled per second
+    cooldown?: number;          // ms before the same action may be repeated
+}
+
+export type RateLimitReason = 'flood' | 'rate' | 'cooldown';
+
+export interface RateLimitHit {
+    limit: string;              // 'global' or the policy's bucket
+    reason: RateLimitReason;
+    retryAfter: number;         // ms until the message would be accepted
+    notify: boolean;            // First rejection of this limit since it last passed
+}
+
+export interface RateLimitMetrics {
+    limit: string;
+    checked: number;
+    tripped: number;
+    lastTrippedAt: number | null;
+}
+
+const GLOBAL_LIMIT = 'global';
+
+/**
+ * Applies to every message on top of its own policy
+ */
+export const GLOBAL_POLICY: RatePolicy = { burst: 50, rate: 50 };
+
+const LEADERBOARD_QUERY: RatePolicy = { bucket: 'leaderboard', burst: 4, rate: 0.5 };
+const GALLERY_QUERY: RatePolicy = { bucket: 'gallery_query', burst: 6, rate: 1 };
+
+/**
+ * Limits by message type. Types without an entry only count towards the
+ * global bucket.
+ */
+export const RATE_POLICIES: Readonly<Record<string, RatePolicy>> = {
+    // Broadcast actions
+    sing: { burst: 1, rate: 0.5, cooldown: 2000 },
+    pulse: { burst: 2, rate: 1, cooldown: 1500 },
+    echo: { burst: 1, rate: 0.2, cooldown: 5000 },
+    emote: { burst: 3, rate: 1, cooldown: 1000 },
+
+    // Chat
+    chat: { burst: 5, rate: 1, cooldown: 500 },
+    whisper: { burst: 5, rate: 1, cooldown: 500 },
+    report_player: { burst: 3, rate: 1 / 60 },
+
+    // Leaderboards aggregate over the players collection
+    request_leaderboard: LEADERBOARD_QUERY,
+    request_player_rank: LEADERBOARD_QUERY,
+    request_nearby_ranks: LEADERBOARD_QUERY,
+    request_friend_leaderboard: LEADERBOARD_QUERY,
+    request_realm_leaderboard: LEADERBOARD_QUERY,
+    get_event_leaderboard: LEADERBOARD_QUERY,
+    get_reputation_leaderboard: LEADERBOARD_QUERY,
+    'daily:getLeaderboard': LEADERBOARD_QUERY,
+
+    // Gallery reads page through stored screenshots
+    'gallery:get': GALLERY_QUERY,
+    'gallery:getOne': GALLERY_QUERY,
+    'gallery:getPublic': GALLERY_QUERY,
+    'gallery:getStats': GALLERY_QUERY,
+    'gallery:getAlbums': GALLERY_QUERY,
+    'gallery:getAlbumScreenshots': GALLERY_QUERY,
+    'gallery:save': { burst: 3, rate: 0.1 }
+};
+
+interface Bucket {
+    tokens: number;
+    updatedAt: number;
+}
+
+interface PlayerLimits {
+    buckets: Map<string, Bucket>;
+    lastAction: Map<string, number>;
+    notified: Set<string>;
+}
+
+export class RateLimiter {
+    private players: Map<string, PlayerLimits> = new Map();
+    private metrics: Map<string, RateLimitMetrics> = new Map();
+
+    constructor(
+        private readonly policies: Readonly<Record<string, RatePolicy>> = RATE_POLICIES,
+        private readonly globalPolicy: RatePolicy = GLOBAL_POLICY
+    ) {}
+
+    /**
+     * Check a message and, if it is allowed, spend its tokens. Returns the
+     * limit it ran into, or null if it may be handled.
+     */
+    check(playerId: string, type: string, now: number): RateLimitHit | null {
+        const limits = this.getPlayer(playerId);
+
+        // Every message counts towards the flood limit, accepted or not
+        const global = this.refill(limits, GLOBAL_LIMIT, this.globalPolicy, now);
+        this.count(GLOBAL_LIMIT);
+        if (global.tokens < 1) {
+            return this.reject(limits, GLOBAL_LIMIT, 'flood', this.waitForToken(global, this.globalPolicy), now);
+        }
+        global.tokens--;
+        limits.notified.delete(GLOBAL_LIMIT);
+
+        const policy = this.policies[type];
+        if (!policy) return null;
+
+        const limit = policy.bucket ?? type;
+        this.count(limit);
+
+        if (policy.cooldown) {
+            const last = limits.lastAction.get(limit);
+            if (last !== undefined && now - last < policy.cooldown) {
+                return this.reject(limits, limit, 'cooldown', policy.cooldown - (now - last), now);
+            }
+        }
+
+        const bucket = this.refill(limits, limit, policy, now);
+        if (bucket.tokens < 1) {
+            return this.reject(limits, limit, 'rate', this.waitForToken(bucket, policy), now);
+        }
+        bucket.tokens--;
+        limits.lastAction.set(limit, now);
+        limits.notified.delete(limit);
+        return null;
+    }
+
+    /**
+     * Trip counts per limit, most tripped first
+     */
+    getMetrics(): RateLimitMetrics[] {
+        return Array.from(this.metrics.values(), m => ({ ...m }))
+            .sort((a, b) => b.tripped - a.tripped || a.limit.localeCompare(b.limit));
+    }
+
+    remove(playerId: string): void {
+        this.players.delete(playerId);
+    }
+
+    private getPlayer(playerId: string): PlayerLimits {
+        let limits = this.players.get(playerId);
+        if (!limits) {
+            limits = { buckets: new Map(), lastAction: new Map(), notified: new Set() };
+            this.players.set(playerId, limits);
+        }
+        return limits;
+    }
+
+    private refill(limits: PlayerLimits, key: string, policy: RatePolicy, now: number): Bucket {
+        let bucket = limits.buckets.get(key);
+        if (!bucket) {
+            bucket = { tokens: policy.burst, updatedAt: now };
+            limits.buckets.set(key, bucket);
+            return bucket;
+        }
+        const elapsed = Math.max(0, now - bucket.updatedAt) / 1000;
+        bucket.tokens = Math.min(policy.burst, bucket.tokens + elapsed * policy.rate);
+        bucket.updatedAt = now;
+        return bucket;
+    }
+
+    private waitForToken(bucket: Bucket, policy: RatePolicy): number {
+        return Math.ceil((1 - bucket.tokens) / policy.rate * 1000);
+    }
+
+    private count(limit: string): void {
+        let metrics = this.metrics.get(limit);
+        if (!metrics) {
+            metrics = { limit, checked: 0, tripped: 0, lastTrippedAt: null };
+            this.metrics.set(limit, metrics);
+        }
+        metrics.checked++;
+    }
+
+    private reject(limits: PlayerLimits, limit: string, reason: RateLimitReason, retryAfter: number, now: number): RateLimitHit {
+        const metrics = this.metrics.get(limit)!;
+        metrics.tripped++;
+        metrics.lastTrippedAt = now;
+
+        const notify = !limits.notified.has(limit);
+        limits.notified.add(limit);
+        return { limit, reason, retryAfter, notify };
+    }
+}
@@ -0,0 +1,12 @@
+// =============================================================================
+// Rate Limiting Module
+// =============================================================================
+
+export { RateLimiter, RATE_POLICIES, GLOBAL_POLICY } from './RateLimiter.js';
+
+export type {
+    RatePolicy,
+    RateLimitHit,
+    RateLimitReason,
+    RateLimitMetrics
+} from './RateLimiter.js';
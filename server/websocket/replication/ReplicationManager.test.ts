@@ -0,0 +1,172 @@
+// =============================================================================
+// ReplicationManager Tests - delta correctness and bandwidth harness
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { ReplicationManager } from './ReplicationManager.js';
+import type { RealmSnapshot, ReplicatedEntity } from './ReplicationManager.js';
+
+// Deterministic layout so bandwidth numbers are stable between runs
+function seededRandom(seed: number): () => number {
+    return () => {
+        let t = seed += 0x6D2B79F5;
+        t = Math.imul(t ^ t >>> 15, t | 1);
+        t ^= t + Math.imul(t ^ t >>> 7, t | 61);
+        return ((t ^ t >>> 14) >>> 0) / 4294967296;
+    };
+}
+
+function buildRealm(playerCount: number, fragmentCount: number): RealmSnapshot {
+    const random = seededRandom(42);
+    const players: ReplicatedEntity[] = [];
+    for (let i = 0; i < playerCount; i++) {
+        players.push({
+            id: `player_${i}`,
+            name: `Player ${i}`,
+            x: Math.round(random() * 8000),
+            y: Math.round(random() * 8000),
+            hue: Math.round(random() * 360),
+            xp: 100,
+            level: 2,
+            isBot: false,
+            message: null,
+            speaking: false,
+            pulsing: false
+        });
+    }
+
+    const fragments: ReplicatedEntity[] = [];
+    for (let i = 0; i < fragmentCount; i++) {
+        fragments.push({
+            id: `frag_${i}`,
+            x: Math.round(random() * 8000),
+            y: Math.round(random() * 8000),
+            isGolden: random() < 0.1,
+            value: 1,
+            phase: random() * Math.PI * 2
+        });
+    }
+
+    return { players, bots: [], echoes: [], fragments, powerUps: [], beacons: [], litStars: ['genesis:1'] };
+}
+
+function moveEveryone(snapshot: RealmSnapshot): RealmSnapshot {
+    return {
+        ...snapshot,
+        players: snapshot.players.map((p, i) => ({ ...p, x: (p.x as number) + (i % 3) - 1, y: (p.y as number) + 2 }))
+    };
+}
+
+// Legacy payload: every entity plus the static visuals, every tick
+function legacyWorldStateBytes(snapshot: RealmSnapshot, nebulae: unknown[], stars: unknown[]): number {
+    return JSON.stringify({
+        type: 'world_state',
+        data: { ...snapshot, nebulae, stars, serverTime: Date.now() },
+        timestamp: Date.now()
+    }).length;
+}
+
+describe('ReplicationManager', () => {
+    it('sends a keyframe first, then only changed fields against the acknowledged tick', () => {
+        const manager = new ReplicationManager({ interestRadius: 100000 });
+        const viewer = { playerId: 'player_0', x: 0, y: 0 };
+        let snapshot = buildRealm(3, 5);
+
+        const first = manager.buildUpdate(viewer, snapshot, 1000);
+        expect(first.keyframe).toBe(true);
+        expect(first.baseTick).toBeNull();
+        expect(first.collections.players?.upsert).toHaveLength(3);
+
+        manager.acknowledge('player_0', first.tick);
+        snapshot = moveEveryone(snapshot);
+
+        const second = manager.buildUpdate(viewer, snapshot, 1050);
+        expect(second.keyframe).toBe(false);
+        expect(second.baseTick).toBe(first.tick);
+        expect(second.collections.fragments).toBeUndefined();
+        for (const update of second.collections.players!.upsert!) {
+            expect(Object.keys(update).sort()).toEqual(expect.arrayContaining(['id', 'y']));
+            expect(update).not.toHaveProperty('name');
+        }
+    });
+
+    it('diffs against the last acknowledged tick, not the last sent one', () => {
+        const manager = new ReplicationManager({ interestRadius: 100000 });
+        const viewer = { playerId: 'p', x: 0, y: 0 };
+        const snapshot = buildRealm(2, 0);
+
+        const keyframe = manager.buildUpdate(viewer, snapshot, 0);
+        manager.acknowledge('p', keyframe.tick);
+
+        const withoutP1 = { ...snapshot, players: [snapshot.players[0]] };
+        const unacked = manager.buildUpdate(viewer, withoutP1, 50);
+        expect(unacked.collections.players?.remove).toEqual(['player_1']);
+
+        // Not acknowledged: the next delta is still based on the keyframe
+        const next = manager.buildUpdate(viewer, withoutP1, 100);
+        expect(next.baseTick).toBe(keyframe.tick);
+        expect(next.collections.players?.remove).toEqual(['player_1']);
+    });
+
+    it('only replicates entities inside the area of interest', () => {
+        const manager = new ReplicationManager({ interestRadius: 500 });
+        const snapshot: RealmSnapshot = {
+            players: [
+                { id: 'me', x: 0, y: 0 },
+                { id: 'near', x: 300, y: 300 },
+                { id: 'far', x: 4000, y: 4000 }
+            ],
+            bots: [], echoes: [], fragments: [], powerUps: [], beacons: [], litStars: []
+        };
+
+        const update = manager.buildUpdate({ playerId: 'me', x: 0, y: 0 }, snapshot);
+        expect(update.collections.players?.upsert?.map(p => p.id)).toEqual(['me', 'near']);
+    });
+
+    it('forces periodic keyframes and keyframes after reset', () => {
+        const manager = new ReplicationManager({ interestRadius: 100000, keyframeInterval: 3 });
+        const viewer = { playerId: 'p', x: 0, y: 0 };
+        const snapshot = buildRealm(1, 1);
+
+        const kinds: boolean[] = [];
+        for (let i = 0; i < 4; i++) {
+            const update = manager.buildUpdate(viewer, snapshot);
+            manager.acknowledge('p', update.tick);
+            kinds.push(update.keyframe);
+        }
+        expect(kinds).toEqual([true, false, false, true]);
+
+        manager.reset('p');
+        expect(manager.buildUpdate(viewer, snapshot).keyframe).toBe(true);
+    });
+
+    it('bandwidth harness: delta replication uses a fraction of full snapshots', () => {
+        const TICKS = 100;
+        const nebulae = Array.from({ length: 12 }, (_, i) => ({ id: `nebula_${i}`, x: i, y: i, radius: 500, hue: 200, alpha: 0.3 }));
+        const stars = Array.from({ length: 400 }, (_, i) => ({ id: `star_${i}`, x: i, y: i, size: 2, alpha: 0.8, twinklePhase: 1.2 }));
+        const manager = new ReplicationManager();
+
+        let snapshot = buildRealm(50, 200);
+        let legacyBytes = 0;
+
+        for (let tick = 0; tick < TICKS; tick++) {
+            for (const player of snapshot.players) {
+                legacyBytes += legacyWorldStateBytes(snapshot, nebulae, stars);
+
+                const viewer = { playerId: player.id, x: player.x as number, y: player.y as number };
+                const delta = manager.buildUpdate(viewer, snapshot, tick * 50);
+                const payload = JSON.stringify({ type: 'world_delta', data: delta, timestamp: tick * 50 });
+                manager.recordSent(player.id, payload.length);
+                manager.acknowledge(player.id, delta.tick);
+            }
+            snapshot = moveEveryone(snapshot);
+        }
+
+        const stats = manager.getBandwidthStats(TICKS * 50);
+        const legacyPerClient = legacyBytes / snapshot.players.length;
+        const deltaPerClient = stats.totalBytesSent / stats.clients;
+
+        expect(stats.clients).toBe(50);
+        expect(deltaPerClient).toBeLessThan(legacyPerClient * 0.05);
+    });
+});
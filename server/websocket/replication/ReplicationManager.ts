@@ -0,0 +1,390 @@
+// =============================================================================
+// ReplicationManager - Interest-managed, delta-compressed world state
+// =============================================================================
+// Replaces the full world_state snapshot that used to be sent to every client
+// on every tick. For each connection we:
+//
+// 1. Filter the realm snapshot down to an area of interest around the player
+// 2. Diff it field-by-field against the last view the client ACKNOWLEDGED
+// 3. Send only upserts (changed fields) and removals as a `world_delta`
+// 4. Fall back to a full keyframe periodically, after a reset (join, realm
+//    change, resync request) or when the acknowledged base is too old
+//
+// Static visual entities (nebulae, stars) are NOT replicated here - they are
+// sent once in initial_state.
+// =============================================================================
+
+import { SpatialHash } from '../../common/spatial/index.js';
+
+/**
+ * A single replicated entity. Values must be JSON-serializable;
+ * `null` is used for cleared fields (e.g. a chat message that expired).
+ */
+export interface ReplicatedEntity {
+    id: string;
+    x?: number;
+    y?: number;
+    [field: string]: unknown;
+}
+
+/**
+ * Collections replicated per realm
+ */
+export const REPLICATED_COLLECTIONS = ['players', 'bots', 'echoes', 'fragments', 'powerUps', 'beacons'] as const;
+export type ReplicatedCollection = typeof REPLICATED_COLLECTIONS[number];
+
+/**
+ * Full, unfiltered state of a realm for one tick.
+ * Built once per realm per tick and shared by every connection in it.
+ */
+export type RealmSnapshot = Record<ReplicatedCollection, ReplicatedEntity[]> & {
+    litStars: string[];
+};
+
+/**
+ * Per-collection change set
+ */
+export interface CollectionDelta {
+    upsert?: ReplicatedEntity[];
+    remove?: string[];
+}
+
+/**
+ * Payload of a `world_delta` message
+ */
+export interface WorldDeltaData {
+    tick: number;
+    baseTick: number | null;   // null = keyframe (client replaces its state)
+    keyframe: boolean;
+    serverTime: number;
+    collections: Partial<Record<ReplicatedCollection, CollectionDelta>>;
+    litStars?: { add?: string[]; remove?: string[] };
+}
+
+/**
+ * Position of the connection the update is built for
+ */
+export interface Viewer {
+    playerId: string;
+    x: number;
+    y: number;
+}
+
+export interface ReplicationConfig {
+    interestRadius: number;     // World units around the viewer
+    keyframeInterval: number;   // Force a keyframe every N updates
+    maxHistory: number;         // Unacknowledged views kept per client
+}
+
+export interface ClientBandwidthStats {
+    playerId: string;
+    bytesSent: number;
+    messagesSent: number;
+    keyframesSent: number;
+    bytesPerSecond: number;
+}
+
+export interface BandwidthStats {
+    clients: number;
+    totalBytesSent: number;
+    avgBytesPerClientPerSecond: number;
+    perClient: ClientBandwidthStats[];
+}
+
+/**
+ * What a client was sent for one tick (after interest filtering)
+ */
+interface ReplicatedView {
+    collections: Record<ReplicatedCollection, Map<string, ReplicatedEntity>>;
+    litStars: Set<string>;
+}
+
+/**
+ * A snapshot collection filed by position, built once per snapshot and
+ * shared by every viewer's interest query
+ */
+interface CollectionIndex {
+    grid: SpatialHash<{ x: number; y: number; index: number }>;
+    unpositioned: number[];                 // Entities every viewer gets
+    indexById: Map<string, number>;
+}
+
+interface ClientReplicationState {
+    nextTick: number;
+    ackedTick: number | null;
+    lastKeyframeTick: number;
+    history: Map<number, ReplicatedView>;
+    bytesSent: number;
+    messagesSent: number;
+    keyframesSent: number;
+    startedAt: number;
+}
+
+const DEFAULT_CONFIG: ReplicationConfig = {
+    interestRadius: 2000,
+    keyframeInterval: 100, // 5 seconds at 20Hz
+    maxHistory: 40
+};
+
+export class ReplicationManager {
+    private readonly config: ReplicationConfig;
+    private clients: Map<string, ClientReplicationState> = new Map();
+    private indexes: WeakMap<RealmSnapshot, Record<ReplicatedCollection, CollectionIndex>> = new WeakMap();
+
+    constructor(config: Partial<ReplicationConfig> = {}) {
+        this.config = { ...DEFAULT_CONFIG, ...config };
+    }
+
+    /**
+     * Build the next world_delta payload for a connection and remember
+     * what was sent so later deltas can be based on it.
+     */
+    buildUpdate(viewer: Viewer, snapshot: RealmSnapshot, now: number = Date.now()): WorldDeltaData {
+        const client = this.getOrCreateClient(viewer.playerId, now);
+        const tick = client.nextTick++;
+        const view = this.buildView(viewer, snapshot);
+
+        const base = client.ackedTick !== null ? client.history.get(client.ackedTick) : undefined;
+        const keyframe = !base || tick - client.lastKeyframeTick >= this.config.keyframeInterval;
+
+        const data: WorldDeltaData = {
+            tick,
+            baseTick: keyframe ? null : client.ackedTick,
+            keyframe,
+            serverTime: now,
+            collections: {}
+        };
+
+        for (const name of REPLICATED_COLLECTIONS) {
+            const delta = keyframe
+                ? { upsert: Array.from(view.collections[name].values()) }
+                : this.diffCollection(base!.collections[name], view.collections[name]);
+            if (delta.upsert?.length || delta.remove?.length || keyframe) {
+                data.collections[name] = delta;
+            }
+        }
+
+        if (keyframe) {
+            data.litStars = { add: Array.from(view.litStars) };
+            client.lastKeyframeTick = tick;
+            client.keyframesSent++;
+        } else {
+            const add = Array.from(view.litStars).filter(id => !base!.litStars.has(id));
+            const remove = Array.from(base!.litStars).filter(id => !view.litStars.has(id));
+            if (add.length || remove.length) {
+                data.litStars = {};
+                if (add.length) data.litStars.add = add;
+                if (remove.length) data.litStars.remove = remove;
+            }
+        }
+
+        client.history.set(tick, view);
+        this.trimHistory(client);
+
+        return data;
+    }
+
+    /**
+     * Client confirmed it applied `tick` - future deltas are based on it
+     */
+    acknowledge(playerId: string, tick: number): void {
+        const client = this.clients.get(playerId);
+        if (!client || !client.history.has(tick)) return;
+        if (client.ackedTick !== null && tick <= client.ackedTick) return;
+
+        client.ackedTick = tick;
+        for (const sentTick of client.history.keys()) {
+            if (sentTick < tick) client.history.delete(sentTick);
+        }
+    }
+
+    /**
+     * Forget everything the client has - the next update is a keyframe.
+     * Used on join, realm change and explicit resync requests.
+     */
+    reset(playerId: string): void {
+        const client = this.clients.get(playerId);
+        if (!client) return;
+        client.ackedTick = null;
+        client.history.clear();
+    }
+
+    /**
+     * Record the serialized size of a message sent to a client
+     */
+    recordSent(playerId: string, bytes: number): void {
+        const client = this.clients.get(playerId);
+        if (!client) return;
+        client.bytesSent += bytes;
+        client.messagesSent++;
+    }
+
+    /**
+     * Drop all state for a disconnected client
+     */
+    removeClient(playerId: string): void {
+        this.clients.delete(playerId);
+    }
+
+    /**
+     * Bandwidth-per-client metric for dashboards and test harnesses
+     */
+    getBandwidthStats(now: number = Date.now()): BandwidthStats {
+        const perClient: ClientBandwidthStats[] = [];
+        let totalBytesSent = 0;
+
+        for (const [playerId, client] of this.clients) {
+            const elapsedSeconds = Math.max(1, now - client.startedAt) / 1000;
+            totalBytesSent += client.bytesSent;
+            perClient.push({
+                playerId,
+                bytesSent: client.bytesSent,
+                messagesSent: client.messagesSent,
+                keyframesSent: client.keyframesSent,
+                bytesPerSecond: Math.round(client.bytesSent / elapsedSeconds)
+            });
+        }
+
+        const avgBytesPerClientPerSecond = perClient.length > 0
+            ? Math.round(perClient.reduce((sum, c) => sum + c.bytesPerSecond, 0) / perClient.length)
+            : 0;
+
+        return {
+            clients: perClient.length,
+            totalBytesSent,
+            avgBytesPerClientPerSecond,
+            perClient
+        };
+    }
+
+    // =========================================================================
+    // Internals
+    // =========================================================================
+
+    private getOrCreateClient(playerId: string, now: number): ClientReplicationState {
+        let client = this.clients.get(playerId);
+        if (!client) {
+            client = {
+                nextTick: 1,
+                ackedTick: null,
+                lastKeyframeTick: 0,
+                history: new Map(),
+                bytesSent: 0,
+                messagesSent: 0,
+                keyframesSent: 0,
+                startedAt: now
+            };
+            this.clients.set(playerId, client);
+        }
+        return client;
+    }
+
+    /**
+     * Apply the area of interest to a realm snapshot
+     */
+    private buildView(viewer: Viewer, snapshot: RealmSnapshot): ReplicatedView {
+        const indexes = this.indexFor(snapshot);
+        const collections = {} as ReplicatedView['collections'];
+
+        for (const name of REPLICATED_COLLECTIONS) {
+            const { grid, unpositioned, indexById } = indexes[name];
+            const picked = grid.within(viewer.x, viewer.y, this.config.interestRadius).map(entry => entry.index);
+            picked.push(...unpositioned);
+            const own = indexById.get(viewer.playerId);
+            if (own !== undefined) picked.push(own);
+
+            // Snapshot order, so views don't depend on how the grid is walked
+            picked.sort((a, b) => a - b);
+            const visible = new Map<string, ReplicatedEntity>();
+            for (const index of picked) {
+                const entity = snapshot[name][index];
+                visible.set(entity.id, entity);
+            }
+            collections[name] = visible;
+        }
+
+        return { collections, litStars: new Set(snapshot.litStars) };
+    }
+
+    private indexFor(snapshot: RealmSnapshot): Record<ReplicatedCollection, CollectionIndex> {
+        let indexes = this.indexes.get(snapshot);
+        if (indexes) return indexes;
+
+        indexes = {} as Record<ReplicatedCollection, CollectionIndex>;
+        for (const name of REPLICATED_COLLECTIONS) {
+            const index: CollectionIndex = {
+                grid: new SpatialHash(this.config.interestRadius / 2),
+                unpositioned: [],
+                indexById: new Map()
+            };
+            snapshot[name].forEach((entity, i) => {
+                index.indexById.set(entity.id, i);
+                if (typeof entity.x !== 'number' || typeof entity.y !== 'number') {
+                    index.unpositioned.push(i);
+                } else {
+                    index.grid.set(String(i), { x: entity.x, y: entity.y, index: i });
+                }
+            });
+            indexes[name] = index;
+        }
+        this.indexes.set(snapshot, indexes);
+        return indexes;
+    }
+
+    /**
+     * Field-level diff of one collection
+     */
+    private diffCollection(
+        base: Map<string, ReplicatedEntity>,
+        current: Map<string, ReplicatedEntity>
+    ): CollectionDelta {
+        const upsert: ReplicatedEntity[] = [];
+        const remove: string[] = [];
+
+        for (const [id, entity] of current) {
+            const previous = base.get(id);
+            if (!previous) {
+                upsert.push(entity);
+                continue;
+            }
+
+            let changed: ReplicatedEntity | null = null;
+            for (const field of Object.keys(entity)) {
+                if (!fieldEquals(previous[field], entity[field])) {
+                    if (!changed) changed = { id };
+                    changed[field] = entity[field];
+                }
+            }
+            if (changed) upsert.push(changed);
+        }
+
+        for (const id of base.keys()) {
+            if (!current.has(id)) remove.push(id);
+        }
+
+        const delta: CollectionDelta = {};
+        if (upsert.length) delta.upsert = upsert;
+        if (remove.length) delta.remove = remove;
+        return delta;
+    }
+
+    private trimHistory(client: ClientReplicationState): void {
+        if (client.history.size <= this.config.maxHistory) return;
+
+        // Oldest ticks go first; if the acked view falls out the next update is a keyframe
+        for (const tick of client.history.keys()) {
+            if (client.history.size <= this.config.maxHistory) break;
+            client.history.delete(tick);
+            if (tick === client.ackedTick) client.ackedTick = null;
+        }
+    }
+}
+
+/**
+ * Compare two field values - primitives by value, objects structurally
+ */
+function fieldEquals(a: unknown, b: unknown): boolean {
+    if (a === b) return true;
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+    return JSON.stringify(a) === JSON.stringify(b);
+}
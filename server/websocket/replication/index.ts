@@ -0,0 +1,20 @@
+// =============================================================================
+// World State Replication Module
+// =============================================================================
+
+export {
+    ReplicationManager,
+    REPLICATED_COLLECTIONS
+} from './ReplicationManager.js';
+
+export type {
+    ReplicatedEntity,
+    ReplicatedCollection,
+    RealmSnapshot,
+    CollectionDelta,
+    WorldDeltaData,
+    Viewer,
+    ReplicationConfig,
+    BandwidthStats,
+    ClientBandwidthStats
+} from './ReplicationManager.js';
@@ -0,0 +1,131 @@
+// =============================================================================
+// ResumeManager Tests - suspended connections and reliable message replay
+// =============================================================================
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { ResumeManager } from './ResumeManager.js';
+import { Simulation } from '../testing/index.js';
+import { notificationService } from '../../services/NotificationService.js';
+
+describe('ResumeManager', () => {
+    it('numbers reliable messages and replays the unacknowledged ones', () => {
+        const resume = new ResumeManager({ graceMs: 1000 });
+        resume.open('p', 'token-1');
+
+        expect(resume.stamp('p', { type: 'world_delta', data: {} })).toEqual({ type: 'world_delta', data: {} });
+        for (let i = 0; i < 3; i++) {
+            resume.stamp('p', { type: 'gift_received', data: { giftId: `g${i}` }, timestamp: i });
+        }
+        resume.acknowledge('p', 1);
+
+        expect(resume.suspend('p', 0)).toBe(true);
+        expect(resume.resume('p', 'wrong', 0, 'token-2', 500)).toBeNull();
+
+        const result = resume.resume('p', 'token-1', 2, 'token-2', 500)!;
+        expect(result.replay.map(m => m.seq)).toEqual([3]);
+        expect(result.suspendedFor).toBe(500);
+        expect(resume.isSuspended('p')).toBe(false);
+        expect(resume.getToken('p')).toBe('token-2');
+    });
+
+    it('keeps a dropped connection only for the grace period', () => {
+        const resume = new ResumeManager({ graceMs: 1000 });
+        resume.open('p', 'token');
+        resume.suspend('p', 0);
+
+        expect(resume.expired(1000)).toEqual([]);
+        expect(resume.expired(1001)).toEqual(['p']);
+        expect(resume.resume('p', 'token', 0, 'next', 1001)).toBeNull();
+    });
+
+    it('caps the replay buffer', () => {
+        const resume = new ResumeManager({ maxBuffered: 2 });
+        resume.open('p', 'token');
+        for (let i = 0; i < 5; i++) resume.stamp('p', { type: 'notification', data: {} });
+        resume.suspend('p', 0);
+
+        expect(resume.resume('p', 'token', 0, 'next', 10)!.replay.map(m => m.seq)).toEqual([4, 5]);
+    });
+});
+
+describe('Session resume', () => {
+    let sim: Simulation;
+
+    afterEach(async () => {
+        await sim.shutdown();
+    });
+
+    function reattachParams(token: string, lastSeq: number): Record<string, string> {
+        return { reattach: token, lastSeq: String(lastSeq) };
+    }
+
+    it('holds a dropped player in the world and replays what they missed', async () => {
+        sim = new Simulation({ seed: 16 });
+        const alice = sim.connect('resume_alice');
+        const bob = sim.connect('resume_bob');
+        await sim.settle();
+
+        const { resume } = alice.last('initial_state');
+        expect(resume).toMatchObject({ graceMs: 30000, newSession: true });
+
+        notificationService.notify('resume_alice', 'gift_received', 'Before the drop', { fromId: 'resume_bob' });
+        await sim.settle();
+        const before = alice.socket.sent.find(m => m.type === 'notification');
+        expect(before.seq).toBe(1);
+
+        alice.drop();
+        notificationService.notify('resume_alice', 'friend_request', 'During the drop', { fromId: 'resume_carol' });
+        await sim.settle();
+        sim.tick(100);
+
+        // Nobody saw alice leave
+        expect(bob.received('player_left')).toEqual([]);
+        expect(sim.handler.players.has('resume_alice')).toBe(true);
+
+        const back = sim.connect('resume_alice', 'genesis', reattachParams(resume.token, 1));
+        await sim.settle();
+
+        expect(back.types()).toEqual(['initial_state', 'session_resumed', 'notification']);
+        expect(back.last('session_resumed')).toEqual({ replayed: 1, suspendedFor: 5000 });
+        expect(back.socket.sent[2]).toMatchObject({ seq: 2, data: { message: 'During the drop' } });
+        expect(back.last('initial_state').resume).toMatchObject({ newSession: false });
+        expect(back.last('initial_state').resume.token).not.toBe(resume.token);
+
+        // The new socket is the connection now
+        sim.tick(2);
+        expect(back.received('world_delta').length).toBeGreaterThan(0);
+        expect(bob.received('player_joined')).toEqual([]);
+    });
+
+    it('lets the player go once the grace period is over', async () => {
+        sim = new Simulation({ seed: 16 });
+        const alice = sim.connect('resume_late');
+        const bob = sim.connect('resume_watcher');
+        await sim.settle();
+        const { resume } = alice.last('initial_state');
+
+        alice.drop();
+        sim.tick((resume.graceMs + 10000) / sim.tickMs);
+        await sim.settle();
+
+        expect(bob.received('player_left')).toEqual([{ playerId: 'resume_late' }]);
+        expect(sim.handler.players.has('resume_late')).toBe(false);
+
+        // Too late: the token starts a new session instead
+        const again = sim.connect('resume_late', 'genesis', reattachParams(resume.token, 0));
+        await sim.settle();
+        expect(again.types()).not.toContain('session_resumed');
+        expect(again.last('initial_state').resume.newSession).toBe(true);
+    });
+
+    it('ends the session right away when the client closes on purpose', async () => {
+        sim = new Simulation({ seed: 16 });
+        const alice = sim.connect('resume_leaver');
+        const bob = sim.connect('resume_stayer');
+        await sim.settle();
+
+        alice.disconnect();
+        await sim.settle();
+        expect(bob.received('player_left')).toEqual([{ playerId: 'resume_leaver' }]);
+    });
+});
@@ -0,0 +1,171 @@
+// =============================================================================
+// ResumeManager - Suspended connections and reliable message replay
+// =============================================================================
+// A dropped socket (network blip, phone switching towers) used to end the
+// player's session on the spot. Instead, for each connection we:
+//
+// 1. Hand the client a reattach token in initial_state
+// 2. Number every reliable message (gifts, friend requests, quest results)
+//    sent to the player and keep it until the client acknowledges it
+// 3. On an unexpected close, suspend the connection for a grace period:
+//    the player stays in the world and reliable messages keep queueing
+// 4. When the client reconnects with the token and the last sequence it saw
+//    in time, give back every message it missed; otherwise the connection
+//    is finally closed once the grace period runs out
+//
+// Everything else (world deltas, chat, effects) is not worth replaying - the
+// client gets a fresh initial_state on resume.
+// =============================================================================
+
+import crypto from 'crypto';
+import type { ServerMessage } from '../../common/protocol/index.js';
+
+export interface ResumeConfig {
+    graceMs: number;            // How long a dropped connection is held
+    maxBuffered: number;        // Unacknowledged reliable messages kept per player
+}
+
+/**
+ * Server messages that must reach the player even across a reconnect
+ */
+export const RELIABLE_MESSAGE_TYPES: ReadonlySet<string> = new Set([
+    'gift_received',
+    'friend_request_received',
+    'friend_request_accepted',
+    'quest_progress_updated',
+    'quest_reward_claimed',
+    'notification'
+]);
+
+/**
+ * Connection close codes that end a session for good: the client left on
+ * purpose or the server sent it away
+ */
+export const FINAL_CLOSE_CODES: ReadonlySet<number> = new Set([
+    1000,   // Normal closure
+    1001,   // Going away (tab closed)
+    1012,   // Server restarting (resumes through a restart resume token)
+    4001,   // Session expired
+    4003,   // Banned
+    4010    // Realm handoff
+]);
+
+export interface SequencedMessage extends ServerMessage {
+    seq: number;
+}
+
+export interface ResumeResult {
+    token: string;
+    replay: SequencedMessage[];
+    suspendedFor: number;
+}
+
+interface ResumeState {
+    token: string;
+    nextSeq: number;
+    buffer: SequencedMessage[];
+    suspendedAt: number | null;
+}
+
+const DEFAULT_CONFIG: ResumeConfig = {
+    graceMs: 30000,
+    maxBuffered: 100
+};
+
+export class ResumeManager {
+    readonly config: ResumeConfig;
+    private states: Map<string, ResumeState> = new Map();
+
+    constructor(config: Partial<ResumeConfig> = {}) {
+        this.config = { ...DEFAULT_CONFIG, ...config };
+    }
+
+    /**
+     * Start tracking a new connection with the token the client will present
+     */
+    open(playerId: string, token: string): void {
+        this.states.set(playerId, { token, nextSeq: 1, buffer: [], suspendedAt: null });
+    }
+
+    getToken(playerId: string): string | null {
+        return this.states.get(playerId)?.token ?? null;
+    }
+
+    /**
+     * Number a reliable message and keep it for replay. Other messages are
+     * returned unchanged.
+     */
+    stamp<T extends { type: string }>(playerId: string, message: T): T | SequencedMessage {
+        const state = this.states.get(playerId);
+        if (!state || !RELIABLE_MESSAGE_TYPES.has(message.type)) return message;
+
+        const sequenced = { ...message, seq: state.nextSeq++ } as unknown as SequencedMessage;
+        state.buffer.push(sequenced);
+        if (state.buffer.length > this.config.maxBuffered) state.buffer.shift();
+        return sequenced;
+    }
+
+    /**
+     * The client has everything up to `seq`
+     */
+    acknowledge(playerId: string, seq: number): void {
+        const state = this.states.get(playerId);
+        if (!state) return;
+        state.buffer = state.buffer.filter(message => message.seq > seq);
+    }
+
+    /**
+     * Hold a dropped connection. Returns false if it isn't tracked.
+     */
+    suspend(playerId: string, now: number): boolean {
+        const state = this.states.get(playerId);
+        if (!state) return false;
+        state.suspendedAt = now;
+        return true;
+    }
+
+    isSuspended(playerId: string): boolean {
+        return this.states.get(playerId)?.suspendedAt != null;
+    }
+
+    /**
+     * Reattach a suspended connection. Null when the token is wrong or the
+     * grace period is over; otherwise the messages after `lastSeq` and the
+     * token for next time.
+     */
+    resume(playerId: string, token: string | null, lastSeq: number, nextToken: string, now: number): ResumeResult | null {
+        const state = this.states.get(playerId);
+        if (!state || state.suspendedAt === null || !token) return null;
+        if (now - state.suspendedAt > this.config.graceMs) return null;
+        if (!tokensMatch(state.token, token)) return null;
+
+        const suspendedFor = now - state.suspendedAt;
+        this.acknowledge(playerId, lastSeq);
+        state.token = nextToken;
+        state.suspendedAt = null;
+        return { token: nextToken, replay: [...state.buffer], suspendedFor };
+    }
+
+    /**
+     * Players whose grace period ran out
+     */
+    expired(now: number): string[] {
+        const expired: string[] = [];
+        for (const [playerId, state] of this.states) {
+            if (state.suspendedAt !== null && now - state.suspendedAt > this.config.graceMs) {
+                expired.push(playerId);
+            }
+        }
+        return expired;
+    }
+
+    remove(playerId: string): void {
+        this.states.delete(playerId);
+    }
+}
+
+function tokensMatch(expected: string, actual: string): boolean {
+    const a = Buffer.from(expected);
+    const b = Buffer.from(actual);
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
@@ -0,0 +1,11 @@
+// =============================================================================
+// Session Resume Module
+// =============================================================================
+
+export { ResumeManager, RELIABLE_MESSAGE_TYPES, FINAL_CLOSE_CODES } from './ResumeManager.js';
+
+export type {
+    ResumeConfig,
+    ResumeResult,
+    SequencedMessage
+} from './ResumeManager.js';
@@ -0,0 +1,79 @@
+// =============================================================================
+// Clock - Time source and interval timers for the game server
+// =============================================================================
+// The handler reads time and schedules its loops through a Clock so tests
+// can swap the wall clock for a ManualClock and advance time tick by tick.
+// =============================================================================
+
+export type TimerHandle = unknown;
+
+export interface Clock {
+    now(): number;
+    setInterval(callback: () => void, ms: number): TimerHandle;
+    clearInterval(handle: TimerHandle): void;
+}
+
+/**
+ * Wall-clock time and Node timers
+ */
+export const systemClock: Clock = {
+    now: () => Date.now(),
+    setInterval: (callback, ms) => setInterval(callback, ms),
+    clearInterval: (handle) => clearInterval(handle as NodeJS.Timeout)
+};
+
+interface ManualTimer {
+    id: number;
+    callback: () => void;
+    interval: number;
+    due: number;
+}
+
+/**
+ * Time only moves when advance() is called. Intervals that fall due are run
+ * in order of due time (then creation order), each seeing now() at its due time.
+ */
+export class ManualClock implements Clock {
+    private time: number;
+    private timers: Map<number, ManualTimer> = new Map();
+    private nextId = 1;
+
+    constructor(startTime: number = 0) {
+        this.time = startTime;
+    }
+
+    now(): number {
+        return this.time;
+    }
+
+    setInterval(callback: () => void, ms: number): TimerHandle {
+        const id = this.nextId++;
+        this.timers.set(id, { id, callback, interval: Math.max(1, ms), due: this.time + Math.max(1, ms) });
+        return id;
+    }
+
+    clearInterval(handle: TimerHandle): void {
+        this.timers.delete(handle as number);
+    }
+
+    /**
+     * Move time forward, running every interval that falls due on the way
+     */
+    advance(ms: number): void {
+        const target = this.time + ms;
+        for (;;) {
+            let next: ManualTimer | null = null;
+            for (const timer of this.timers.values()) {
+                if (timer.due <= target && (!next || timer.due < next.due || (timer.due === next.due && timer.id < next.id))) {
+                    next = timer;
+                }
+            }
+            if (!next) break;
+
+            this.time = next.due;
+            next.due += next.interval;
+            next.callback();
+        }
+        this.time = target;
+    }
+}
@@ -0,0 +1,21 @@
+// =============================================================================
+// Random - Injectable random number source
+// =============================================================================
+
+/**
+ * Returns a number in [0, 1), like Math.random
+ */
+export type RandomSource = () => number;
+
+/**
+ * Seeded random number generator (mulberry32): the same seed always gives
+ * the same sequence
+ */
+export function seededRandom(seed: number): RandomSource {
+    return () => {
+        let t = seed += 0x6D2B79F5;
+        t = Math.imul(t ^ t >>> 15, t | 1);
+        t ^= t + Math.imul(t ^ t >>> 7, t | 61);
+        return ((t ^ t >>> 14) >>> 0) / 4294967296;
+    };
+}
@@ -0,0 +1,9 @@
+// =============================================================================
+// Runtime Module - Clock and randomness the handler depends on
+// =============================================================================
+
+export { systemClock, ManualClock } from './Clock.js';
+export { seededRandom } from './Random.js';
+
+export type { Clock, TimerHandle } from './Clock.js';
+export type { RandomSource } from './Random.js';
@@ -0,0 +1,61 @@
+// =============================================================================
+// SnapshotStore - Where world snapshots are kept between processes
+// =============================================================================
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { WorldSnapshot } from './WorldSnapshot.js';
+
+export interface SnapshotStore {
+    load(): Promise<WorldSnapshot | null>;
+    save(snapshot: WorldSnapshot): Promise<void>;
+}
+
+/**
+ * JSON file on local disk. Writes go to a temp file and are renamed into
+ * place, so a crash mid-write never leaves a truncated snapshot.
+ */
+export class FileSnapshotStore implements SnapshotStore {
+    constructor(private readonly filePath: string) {}
+
+    /**
+     * WORLD_SNAPSHOT_PATH, or data/world-snapshot[-<shard>].json
+     */
+    static fromEnv(shardId: string | null, env: NodeJS.ProcessEnv = process.env): FileSnapshotStore {
+        const fileName = shardId ? `world-snapshot-${shardId}.json` : 'world-snapshot.json';
+        return new FileSnapshotStore(env.WORLD_SNAPSHOT_PATH || path.join('data', fileName));
+    }
+
+    async load(): Promise<WorldSnapshot | null> {
+        try {
+            return JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+        } catch (error: any) {
+            if (error?.code !== 'ENOENT') {
+                console.error(`Failed to read world snapshot ${this.filePath}:`, error);
+            }
+            return null;
+        }
+    }
+
+    async save(snapshot: WorldSnapshot): Promise<void> {
+        const tmpPath = `${this.filePath}.tmp`;
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.writeFile(tmpPath, JSON.stringify(snapshot));
+        await fs.rename(tmpPath, this.filePath);
+    }
+}
+
+/**
+ * Keeps the last snapshot in memory (tests, or restarting a handler in-process)
+ */
+export class MemorySnapshotStore implements SnapshotStore {
+    private json: string | null = null;
+
+    async load(): Promise<WorldSnapshot | null> {
+        return this.json ? JSON.parse(this.json) : null;
+    }
+
+    async save(snapshot: WorldSnapshot): Promise<void> {
+        this.json = JSON.stringify(snapshot);
+    }
+}
@@ -0,0 +1,124 @@
+// =============================================================================
+// Warm Restart Tests - snapshot on shutdown, restore on boot, resume tokens
+// =============================================================================
+
+import { describe, it, expect, afterAll } from 'vitest';
+import type http from 'http';
+import { WebSocketHandler } from '../WebSocketHandler.js';
+import { MemorySnapshotStore } from './index.js';
+import type { WorldSnapshot } from './index.js';
+import { RealmRouter, ShardCoordinator, InProcessMessageBus } from '../cluster/index.js';
+import { sessionService } from '../../services/SessionService.js';
+import { ManualClock } from '../runtime/index.js';
+import { TestClient, listen } from '../testing/index.js';
+
+interface Instance {
+    server: http.Server;
+    url: string;
+    handler: WebSocketHandler;
+    clock: ManualClock;
+}
+
+async function waitUntil(check: () => boolean, timeout = 3000): Promise<void> {
+    const deadline = Date.now() + timeout;
+    while (!check()) {
+        if (Date.now() > deadline) throw new Error('Timed out');
+        await new Promise(resolve => setTimeout(resolve, 20));
+    }
+}
+
+describe('Warm restart with world snapshots', () => {
+    const store = new MemorySnapshotStore();
+    const instances: Instance[] = [];
+    const clients: TestClient[] = [];
+
+    async function boot(): Promise<Instance> {
+        const { server, url } = await listen();
+        const handler = new WebSocketHandler();
+        // Time only moves when the test says so, so game ticks can't change the world mid-test
+        const clock = new ManualClock(Date.now());
+        handler.init(server, {
+            cluster: new ShardCoordinator(RealmRouter.standalone(), new InProcessMessageBus()),
+            snapshotStore: store,
+            clock
+        });
+        const instance = { server, url, handler, clock };
+        instances.push(instance);
+        return instance;
+    }
+
+    function connect(instance: Instance, playerId: string, params: Record<string, string> = {}, token?: string): TestClient {
+        const client = new TestClient(instance.url, token ?? sessionService.issueToken(playerId, false).token, 'genesis', params);
+        clients.push(client);
+        return client;
+    }
+
+    afterAll(async () => {
+        clients.forEach(c => c.close());
+        for (const instance of instances) {
+            await instance.handler.shutdown();
+            await new Promise(resolve => instance.server.close(resolve));
+        }
+    });
+
+    it('restores the world and player positions after a restart', async () => {
+        const first = await boot();
+        const playerId = 'restart_player';
+        const client = connect(first, playerId);
+        await client.waitFor('initial_state');
+
+        // Let enough time pass for the move to be within speed limits
+        first.clock.advance(1000);
+        client.send('player_update', { x: 4030, y: 3980 });
+        client.send('star_lit', { starId: 'star_restart' });
+        client.send('echo', { message: 'still here', x: 4030, y: 3980 });
+        await client.waitFor('echo_created');
+
+        const before = first.handler.captureSnapshot();
+        expect(before.litStars).toContain('star_restart');
+
+        // Shutdown: world saved, client told how to come back
+        await first.handler.shutdown();
+        const restarting = await client.waitFor('server_restarting');
+        expect(restarting.resumeToken).toBeTruthy();
+        expect(await client.waitForClose()).toBe(1012);
+
+        const saved = (await store.load()) as WorldSnapshot;
+        expect(saved.litStars).toContain('star_restart');
+        expect(saved.echoes.map(e => e.message)).toContain('still here');
+
+        // Next process restores it on boot
+        const second = await boot();
+        await waitUntil(() => second.handler.captureSnapshot().litStars.includes('star_restart'));
+        const after = second.handler.captureSnapshot();
+        expect(after.echoes.map(e => e.id)).toEqual(before.echoes.map(e => e.id));
+        expect(after.fragments.map(f => f.id).sort()).toEqual(before.fragments.map(f => f.id).sort());
+        expect(after.bots.map(b => b.id).sort()).toEqual(before.bots.map(b => b.id).sort());
+
+        // Reconnecting with the resume token puts the player back where they were
+        const resumed = connect(second, playerId, { resume: restarting.resumeToken }, restarting.session.token);
+        await resumed.waitFor('initial_state');
+        expect(second.handler.players.get(playerId)).toMatchObject({ x: 4030, y: 3980 });
+    });
+
+    it('spawns at the default position without a valid resume token', async () => {
+        const instance = instances[instances.length - 1];
+        const forged = sessionService.issueResumeToken({ sub: 'another_player', realm: 'genesis', x: 100, y: 100 });
+
+        const client = connect(instance, 'no_resume_player', { resume: forged });
+        await client.waitFor('initial_state');
+        expect(instance.handler.players.get('no_resume_player')).toMatchObject({ x: 4000, y: 4000 });
+    });
+
+    it('drops expired echoes on restore', async () => {
+        const { handler, clock } = instances[instances.length - 1];
+        const snapshot = handler.captureSnapshot();
+        snapshot.echoes = [{
+            id: 'echo_expired', playerId: 'p', playerName: 'P', message: 'gone', x: 0, y: 0,
+            createdAt: 0, expiresAt: clock.now() - 1, resonanceCount: 0
+        }];
+
+        handler.restoreSnapshot(snapshot);
+        expect(handler.captureSnapshot().echoes.map(e => e.id)).not.toContain('echo_expired');
+    });
+});
@@ -0,0 +1,71 @@
+// =============================================================================
+// WorldSnapshot - Serialized authoritative world for warm restarts
+// =============================================================================
+// Lit stars, echoes, fragments, power-ups and bots only live in the
+// WebSocketHandler's memory, and beacon charge and darkness phases in their
+// services. A snapshot captures all of it so a restarted process (or a
+// replacement during a deploy) picks up the same world instead of a fresh one.
+//
+// Snapshots are written periodically and on shutdown, and read once on boot.
+// Anything that expired while the server was down is dropped on restore.
+// =============================================================================
+
+import type { Echo, PowerUpInstance, ServerFragment } from '../types.js';
+import type { SerializedBeacon } from '../../services/BeaconService.js';
+import type { SerializedDarknessState } from '../../services/DarknessService.js';
+import type { PowerUpServiceState } from '../../services/PowerUpService.js';
+
+export const WORLD_SNAPSHOT_VERSION = 1;
+
+export interface SerializedEcho extends Omit<Echo, 'likedBy'> {
+    likedBy?: string[];
+}
+
+export interface SerializedBot {
+    id: string;
+    name: string;
+    realm: string;
+    x: number;
+    y: number;
+    hue: number;
+    xp: number;
+}
+
+export interface WorldSnapshot {
+    version: number;
+    savedAt: number;
+    shardId: string;
+
+    litStars: string[];
+    echoes: SerializedEcho[];
+    fragments: ServerFragment[];
+    fragmentIdCounter: number;
+    powerUps: PowerUpInstance[];
+    bots: SerializedBot[];
+
+    // Service-owned state
+    beacons: SerializedBeacon[];
+    darkness: SerializedDarknessState[];
+    powerUpService: PowerUpServiceState;
+}
+
+export function serializeEcho(echo: Echo): SerializedEcho {
+    return { ...echo, likedBy: echo.likedBy ? Array.from(echo.likedBy) : undefined };
+}
+
+export function deserializeEcho(echo: SerializedEcho): Echo {
+    return { ...echo, likedBy: echo.likedBy ? new Set(echo.likedBy) : undefined };
+}
+
+/**
+ * Basic shape check for a snapshot read from storage
+ */
+export function isUsableSnapshot(snapshot: any): snapshot is WorldSnapshot {
+    return !!snapshot &&
+        snapshot.version === WORLD_SNAPSHOT_VERSION &&
+        typeof snapshot.savedAt === 'number' &&
+        Array.isArray(snapshot.litStars) &&
+        Array.isArray(snapshot.echoes) &&
+        Array.isArray(snapshot.fragments) &&
+        Array.isArray(snapshot.bots);
+}
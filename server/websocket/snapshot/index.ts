@@ -0,0 +1,14 @@
+// =============================================================================
+// Snapshot Module - World state persistence across restarts
+// =============================================================================
+
+export {
+    WORLD_SNAPSHOT_VERSION,
+    serializeEcho,
+    deserializeEcho,
+    isUsableSnapshot
+} from './WorldSnapshot.js';
+export { FileSnapshotStore, MemorySnapshotStore } from './SnapshotStore.js';
+
+export type { WorldSnapshot, SerializedEcho, SerializedBot } from './WorldSnapshot.js';
+export type { SnapshotStore } from './SnapshotStore.js';
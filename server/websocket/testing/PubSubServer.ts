@@ -0,0 +1,119 @@
+// =============================================================================
+// PubSubServer - the pub/sub corner of the Redis protocol, for bus tests
+// =============================================================================
+// Speaks just enough RESP2 for RedisMessageBus to run against it over TCP:
+// SUBSCRIBE, UNSUBSCRIBE, PUBLISH and PING. Any other command is answered
+// with +OK (the client's connection handshake). Point TEST_REDIS_URL at a
+// real Redis to run the same tests against it instead.
+//
+//   const pubsub = await PubSubServer.start();
+//   const bus = new RedisMessageBus(pubsub.url);
+//   ...
+//   await pubsub.stop();
+// =============================================================================
+
+import net from 'net';
+import type { AddressInfo } from 'net';
+
+function bulk(value: string): string {
+    return `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+}
+
+function push(kind: string, channel: string, value: string | number): string {
+    const last = typeof value === 'number' ? `:${value}\r\n` : bulk(value);
+    return `*3\r\n${bulk(kind)}${bulk(channel)}${last}`;
+}
+
+/**
+ * Take one complete command (an array of bulk strings) off the front of the
+ * buffer, or null if it has not fully arrived yet
+ */
+function readCommand(buffer: Buffer): { args: string[]; rest: Buffer } | null {
+    let offset = 0;
+    const readLine = (): string | null => {
+        const end = buffer.indexOf('\r\n', offset);
+        if (end < 0) return null;
+        const line = buffer.toString('utf8', offset, end);
+        offset = end + 2;
+        return line;
+    };
+
+    const header = readLine();
+    if (header === null) return null;
+    const count = Number(header.slice(1));
+    const args: string[] = [];
+    for (let i = 0; i < count; i++) {
+        const length = readLine();
+        if (length === null) return null;
+        const size = Number(length.slice(1));
+        if (buffer.length < offset + size + 2) return null;
+        args.push(buffer.toString('utf8', offset, offset + size));
+        offset += size + 2;
+    }
+    return { args, rest: buffer.subarray(offset) };
+}
+
+export class PubSubServer {
+    private subscriptions: Map<net.Socket, Set<string>> = new Map();
+
+    private constructor(private server: net.Server, readonly url: string) {
+        server.on('connection', socket => this.serve(socket));
+    }
+
+    static async start(): Promise<PubSubServer> {
+        const server = net.createServer();
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        const { port } = server.address() as AddressInfo;
+        return new PubSubServer(server, `redis://127.0.0.1:${port}`);
+    }
+
+    async stop(): Promise<void> {
+        for (const socket of this.subscriptions.keys()) socket.destroy();
+        await new Promise<void>(resolve => this.server.close(() => resolve()));
+    }
+
+    private serve(socket: net.Socket): void {
+        const channels = new Set<string>();
+        this.subscriptions.set(socket, channels);
+        let pending: Buffer = Buffer.alloc(0);
+
+        socket.on('data', chunk => {
+            pending = Buffer.concat([pending, chunk]);
+            for (let command = readCommand(pending); command; command = readCommand(pending)) {
+                pending = command.rest;
+                socket.write(this.execute(channels, command.args));
+            }
+        });
+        socket.on('close', () => this.subscriptions.delete(socket));
+        socket.on('error', () => socket.destroy());
+    }
+
+    private execute(channels: Set<string>, [name, ...args]: string[]): string {
+        switch (name.toUpperCase()) {
+            case 'SUBSCRIBE':
+                return args.map(channel => {
+                    channels.add(channel);
+                    return push('subscribe', channel, channels.size);
+                }).join('');
+            case 'UNSUBSCRIBE':
+                return (args.length > 0 ? args : Array.from(channels)).map(channel => {
+                    channels.delete(channel);
+                    return push('unsubscribe', channel, channels.size);
+                }).join('');
+            case 'PUBLISH': {
+                const [channel, message] = args;
+                let receivers = 0;
+                for (const [subscriber, subscribed] of this.subscriptions) {
+                    if (!subscribed.has(channel)) continue;
+                    subscriber.write(push('message', channel, message));
+                    receivers++;
+                }
+                return `:${receivers}\r\n`;
+            }
+            case 'PING':
+                return '+PONG\r\n';
+            default:
+                return '+OK\r\n';
+        }
+    }
+}
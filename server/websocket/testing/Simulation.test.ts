@@ -0,0 +1,147 @@
+// =============================================================================
+// Simulation Tests - the game loop on a manual clock and seeded randomness
+// =============================================================================
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { Simulation } from './Simulation.js';
+import type { SimPlayer } from './Simulation.js';
+
+describe('WebSocketHandler simulation', () => {
+    const sims: Simulation[] = [];
+
+    function createSim(seed = 1): Simulation {
+        const sim = new Simulation({ seed });
+        sims.push(sim);
+        return sim;
+    }
+
+    afterEach(async () => {
+        for (const sim of sims.splice(0)) {
+            await sim.shutdown();
+        }
+    });
+
+    async function run(seed: number): Promise<any[]> {
+        const sim = createSim(seed);
+        const player = sim.connect('determinism_player');
+        await sim.settle();
+        sim.walkTo(player, 4300, 4200);
+        sim.tick(200);
+        return player.socket.sent;
+    }
+
+    it('produces identical messages for the same seed and inputs', async () => {
+        const first = await run(42);
+        const second = await run(42);
+        const other = await run(43);
+
+        expect(second).toEqual(first);
+        expect(other).not.toEqual(first);
+        // Fragments spawn every 5 seconds in occupied realms
+        expect(first.filter(m => m.type === 'fragment_spawned')).toHaveLength(2);
+    });
+
+    it('keeps lonely players company with bots and retires them as others arrive', async () => {
+        const sim = createSim();
+        sim.connect('pop_alice');
+        sim.tick();
+
+        // Alice gets two bots; a realm nobody is in gets none
+        const bob = sim.connect('pop_bob');
+        expect(bob.last('initial_state').bots).toHaveLength(2);
+
+        const carol = sim.connect('pop_carol', 'nebula');
+        expect(carol.last('initial_state').bots).toHaveLength(0);
+
+        // A fourth neighbour makes one bot surplus: it says goodbye, then leaves
+        sim.connect('pop_dave');
+        sim.tick(20);
+        sim.tick(200);
+        const erin = sim.connect('pop_erin');
+        expect(erin.last('initial_state').bots).toHaveLength(1);
+    });
+
+    it('collects a fragment within reach and tells the rest of the realm', async () => {
+        const sim = createSim();
+        const alice = sim.connect('frag_alice');
+        const bob = sim.connect('frag_bob');
+        await sim.settle();
+        sim.tick();
+
+        const nearest = (player: SimPlayer) => player.view('fragments')
+            .sort((a, b) => Math.hypot(a.x! - 4000, a.y! - 4000) - Math.hypot(b.x! - 4000, b.y! - 4000))[0];
+        const fragment = nearest(alice);
+
+        // Out of reach: ignored
+        alice.send('collect_fragment', { fragmentId: fragment.id });
+        expect(alice.received('fragment_collected')).toHaveLength(0);
+
+        sim.walkTo(alice, fragment.x!, fragment.y!);
+        alice.send('collect_fragment', { fragmentId: fragment.id });
+
+        const xp = fragment.isGolden ? 5 : 1;
+        expect(alice.received('fragment_collected')).toEqual([{
+            fragmentId: fragment.id,
+            value: fragment.value,
+            isGolden: fragment.isGolden,
+            xpGained: xp,
+            totalXp: xp
+        }]);
+        expect(bob.received('fragment_removed')).toEqual([{ fragmentId: fragment.id }]);
+
+        // Collected once
+        alice.send('collect_fragment', { fragmentId: fragment.id });
+        expect(alice.received('fragment_collected')).toHaveLength(1);
+
+        sim.tick();
+        expect(bob.view('fragments').map(f => f.id)).not.toContain(fragment.id);
+    });
+
+    it('detects constellations every two seconds and honours the cooldown', async () => {
+        const sim = createSim();
+        const players = ['star_a', 'star_b', 'star_c'].map(id => sim.connect(id));
+        const loner = sim.connect('star_far');
+        await sim.settle();
+        sim.walkTo(loner, 4000, 4600);
+
+        players.forEach(p => p.clear());
+        sim.tick(40 - sim.tickCount % 40);
+
+        for (const player of players) {
+            expect(player.received('constellation_formed')).toEqual([{
+                constellationType: 'triangle',
+                xpBonus: 25,
+                participants: ['star_a', 'star_b', 'star_c'],
+                participantCount: 3
+            }]);
+            expect(player.received('constellation_visible')).toHaveLength(1);
+        }
+        expect(loner.received('constellation_formed')).toHaveLength(0);
+        expect(loner.last('constellation_visible')).toMatchObject({ centerX: 4000, centerY: 4000 });
+
+        // Same group again within 30 seconds: no second reward
+        sim.tick(200);
+        expect(players[0].received('constellation_formed')).toHaveLength(1);
+    });
+
+    it('moves players between realms and notifies both', async () => {
+        const sim = createSim();
+        const alice = sim.connect('realm_alice');
+        const bob = sim.connect('realm_bob');
+        const carol = sim.connect('realm_carol', 'nebula');
+        await sim.settle();
+        sim.tick();
+
+        alice.clear();
+        alice.send('player_update', { x: 4000, y: 4000, realm: 'nebula', realmChange: true });
+
+        expect(alice.last('initial_state')).toMatchObject({ realm: 'nebula' });
+        expect(alice.last('initial_state').players.map((p: any) => p.id)).toEqual(['realm_carol']);
+        expect(bob.received('player_leave')).toEqual([{ playerId: 'realm_alice' }]);
+        expect(carol.received('player_joined')).toEqual([{ playerId: 'realm_alice' }]);
+
+        sim.tick();
+        expect(carol.view('players').map(p => p.id).sort()).toEqual(['realm_alice', 'realm_carol']);
+        expect(bob.view('players').map(p => p.id)).toEqual(['realm_bob']);
+    });
+});
@@ -0,0 +1,221 @@
+// =============================================================================
+// Simulation - a WebSocketHandler driven tick by tick, without sockets
+// =============================================================================
+// The handler runs on a ManualClock and a seeded random source, with fake
+// sockets standing in for WebSocket connections. Nothing happens until the
+// test advances time, so two runs with the same seed and the same inputs
+// produce exactly the same messages.
+//
+//   const sim = new Simulation({ seed: 7 });
+//   const alice = sim.connect('alice');
+//   alice.send('player_update', { x: 4100, y: 4000 });
+//   sim.tick(40);
+//   await sim.settle();
+//   alice.received('world_delta');
+// =============================================================================
+
+import { EventEmitter } from 'events';
+import type { WebSocket } from 'ws';
+import { WebSocketHandler } from '../WebSocketHandler.js';
+import { InProcessMessageBus, RealmRouter, ShardCoordinator } from '../cluster/index.js';
+import { ManualClock, seededRandom } from '../runtime/index.js';
+import type { ReplicatedCollection, ReplicatedEntity } from '../replication/index.js';
+import { decodeBinaryMessage, encodeBinaryMessage } from '../../common/protocol/index.js';
+
+const OPEN = 1;
+const CLOSED = 3;
+
+/**
+ * Stands in for a `ws` WebSocket: records what the server sends and lets
+ * the test play the client side
+ */
+export class FakeSocket extends EventEmitter {
+    readyState = OPEN;
+    readonly sent: any[] = [];
+    binaryFrames = 0;
+    closeCode: number | null = null;
+
+    send(data: string | Uint8Array): void {
+        if (this.readyState !== OPEN) return;
+        if (typeof data === 'string') {
+            this.sent.push(JSON.parse(data));
+        } else {
+            this.binaryFrames++;
+            this.sent.push(decodeBinaryMessage(data));
+        }
+    }
+
+    close(code: number = 1000, reason: string = ''): void {
+        if (this.readyState === CLOSED) return;
+        this.readyState = CLOSED;
+        this.closeCode = code;
+        this.emit('close', code, Buffer.from(reason));
+    }
+}
+
+/**
+ * The client side of one simulated connection
+ */
+export class SimPlayer {
+    constructor(
+        readonly playerId: string,
+        readonly socket: FakeSocket,
+        private readonly clock: ManualClock
+    ) { }
+
+    send(type: string, data: any = {}): void {
+        const message = JSON.stringify({ type, data, timestamp: this.clock.now() });
+        this.socket.emit('message', Buffer.from(message), false);
+    }
+
+    /**
+     * Send as a binary frame (the message type must be binary-encodable)
+     */
+    sendBinary(type: string, data: any): void {
+        const frame = encodeBinaryMessage({ type, data });
+        if (!frame) throw new Error(`${type} cannot be sent as binary`);
+        this.socket.emit('message', Buffer.from(frame), true);
+    }
+
+    /**
+     * Message payloads received so far, optionally of one type
+     */
+    received(type?: string): any[] {
+        return this.socket.sent.filter(m => !type || m.type === type).map(m => m.data);
+    }
+
+    /**
+     * Message types in the order they arrived (world_delta left out by default)
+     */
+    types(includeDeltas = false): string[] {
+        return this.socket.sent.map(m => m.type).filter(t => includeDeltas || t !== 'world_delta');
+    }
+
+    last(type: string): any {
+        const matching = this.received(type);
+        return matching[matching.length - 1];
+    }
+
+    /**
+     * Entities the latest world_delta showed this client. The simulated
+     * client never acknowledges, so every world_delta is a keyframe.
+     */
+    view(collection: ReplicatedCollection): ReplicatedEntity[] {
+        const delta = this.last('world_delta');
+        return delta?.collections[collection]?.upsert ?? [];
+    }
+
+    clear(): void {
+        this.socket.sent.length = 0;
+    }
+
+    disconnect(): void {
+        this.socket.close();
+    }
+
+    /**
+     * Lose the connection without a close handshake (1006), as a network drop would
+     */
+    drop(): void {
+        this.socket.close(1006);
+    }
+}
+
+export interface SimulationOptions {
+    seed?: number;
+    startTime?: number;
+    createSocket?: () => FakeSocket;    // e.g. one that keeps only the last frame, for benchmarks
+}
+
+export class Simulation {
+    readonly clock: ManualClock;
+    readonly handler: WebSocketHandler;
+    readonly tickMs = 50;   // GAME_TICK_RATE
+    private readonly startTime: number;
+    private readonly createSocket: () => FakeSocket;
+    private players: Map<string, SimPlayer> = new Map();
+
+    constructor(options: SimulationOptions = {}) {
+        this.startTime = options.startTime ?? Date.UTC(2025, 0, 1);
+        this.clock = new ManualClock(this.startTime);
+        this.createSocket = options.createSocket ?? (() => new FakeSocket());
+        this.handler = new WebSocketHandler();
+        this.handler.init(null, {
+            clock: this.clock,
+            random: seededRandom(options.seed ?? 1),
+            botCpuTime: () => 0,        // Budget never runs out, so every bot moves every tick
+            snapshotStore: null,
+            cluster: new ShardCoordinator(RealmRouter.standalone(), new InProcessMessageBus())
+        });
+    }
+
+    /**
+     * Connect a player as if their session token had been verified
+     */
+    connect(playerId: string, realm: string = 'genesis', params: Record<string, string> = {}): SimPlayer {
+        const socket = this.createSocket();
+        const now = this.clock.now();
+        this.handler.acceptConnection(
+            socket as unknown as WebSocket,
+            { sub: playerId, guest: false, iat: now, exp: now + 24 * 60 * 60 * 1000 },
+            new URLSearchParams({ realm, ...params })
+        );
+
+        const player = new SimPlayer(playerId, socket, this.clock);
+        this.players.set(playerId, player);
+        return player;
+    }
+
+    player(playerId: string): SimPlayer | undefined {
+        return this.players.get(playerId);
+    }
+
+    /**
+     * Game ticks run so far
+     */
+    get tickCount(): number {
+        return Math.floor((this.clock.now() - this.startTime) / this.tickMs);
+    }
+
+    /**
+     * Run `count` game ticks (and any other timers that fall due)
+     */
+    tick(count: number = 1): void {
+        this.clock.advance(count * this.tickMs);
+    }
+
+    /**
+     * Let async message handlers and player data loads finish
+     */
+    async settle(): Promise<void> {
+        for (let i = 0; i < 10; i++) {
+            await new Promise(resolve => setImmediate(resolve));
+        }
+    }
+
+    /**
+     * Walk a player to (x, y) within the server's speed limit, one
+     * player_update per tick
+     */
+    walkTo(player: SimPlayer, x: number, y: number, stepPerTick: number = 100): void {
+        const connection = this.handler.players.get(player.playerId);
+        if (!connection) return;
+
+        let { x: cx, y: cy } = connection;
+        for (;;) {
+            const distance = Math.hypot(x - cx, y - cy);
+            const step = Math.min(distance, stepPerTick);
+            if (step > 0) {
+                cx += (x - cx) / distance * step;
+                cy += (y - cy) / distance * step;
+            }
+            this.tick();
+            player.send('player_update', { x: cx, y: cy });
+            if (step === distance) return;
+        }
+    }
+
+    async shutdown(): Promise<void> {
+        await this.handler.shutdown();
+    }
+}
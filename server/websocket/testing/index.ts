@@ -0,0 +1,71 @@
+// =============================================================================
+// WebSocket Test Helpers - real clients, or a simulated handler without sockets
+// =============================================================================
+
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { WebSocket } from 'ws';
+
+/**
+ * Buffers every message so waiting never misses one that already arrived
+ */
+export class TestClient {
+    readonly ws: WebSocket;
+    private messages: any[] = [];
+    private waiters: Array<() => void> = [];
+    closeCode: number | null = null;
+
+    constructor(url: string, token: string, realm: string, params: Record<string, string> = {}) {
+        const query = new URLSearchParams({ token, realm, ...params });
+        this.ws = new WebSocket(`${url}?${query}`);
+        this.ws.on('message', (raw) => {
+            this.messages.push(JSON.parse(raw.toString()));
+            this.waiters.forEach(wake => wake());
+        });
+        this.ws.on('close', (code) => {
+            this.closeCode = code;
+            this.waiters.forEach(wake => wake());
+        });
+    }
+
+    send(type: string, data: any): void {
+        this.ws.send(JSON.stringify({ type, data, timestamp: Date.now() }));
+    }
+
+    async waitFor(type: string, timeout = 3000): Promise<any> {
+        const deadline = Date.now() + timeout;
+        for (;;) {
+            const found = this.messages.find(m => m.type === type);
+            if (found) return found.data;
+            if (Date.now() > deadline) throw new Error(`Timed out waiting for ${type}`);
+            await new Promise<void>(resolve => {
+                this.waiters.push(resolve);
+                setTimeout(resolve, 50);
+            });
+        }
+    }
+
+    async waitForClose(timeout = 3000): Promise<number> {
+        const deadline = Date.now() + timeout;
+        while (this.closeCode === null) {
+            if (Date.now() > deadline) throw new Error('Timed out waiting for close');
+            await new Promise(resolve => setTimeout(resolve, 20));
+        }
+        return this.closeCode;
+    }
+
+    close(): void {
+        this.ws.close();
+    }
+}
+
+export async function listen(): Promise<{ server: http.Server; url: string }> {
+    const server = http.createServer();
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    return { server, url: `ws://127.0.0.1:${port}/ws` };
+}
+
+export { Simulation, SimPlayer, FakeSocket } from './Simulation.js';
+export { PubSubServer } from './PubSubServer.js';
+export type { SimulationOptions } from './Simulation.js';
@@ -4,6 +4,9 @@
 
 import type { WebSocket } from 'ws';
 import type { ServerBot } from './ServerBot.js';
+import type { PlayerLocation } from './cluster/index.js';
+import type { SpatialMap } from '../common/spatial/index.js';
+import type { ServerMessage, ServerMessageType } from '../common/protocol/index.js';
 
 /**
  * Player connection state - all data about a connected player
@@ -21,6 +24,10 @@ export interface PlayerConnection {
     level: number;
     isBot: boolean;
 
+    // Session (identity comes from the verified token)
+    isGuest: boolean;               // Throwaway guest identity, not a claimed player
+    sessionExpiresAt?: number;      // Socket is closed if the token is not refreshed by then
+
     // Optional extended state
     stars?: number;
     echoes?: number;
@@ -41,8 +48,7 @@ export interface PlayerConnection {
     pulseExpiresAt?: number;
     isSpeaking?: boolean;
 
-    // Chat rate limiting
-    lastChatTime?: number;
+    // Chat
     mutedPlayers?: Set<string>;
 
     // Voice Chat
@@ -136,21 +142,36 @@ export interface WorldEvent {
 export interface HandlerContext {
     // Shared state
     connections: Map<string, PlayerConnection>;
-    realms: Map<string, Map<string, PlayerConnection>>;
-    bots: Map<string, ServerBot>;
-    echoes: Map<string, Echo>;
-    powerUps: Map<string, PowerUpInstance>;
+    realms: Map<string, SpatialMap<PlayerConnection>>;    // Call moved() after changing a position
+    bots: SpatialMap<ServerBot>;                          // Partitioned by realm
+    echoes: SpatialMap<Echo>;
+    powerUps: SpatialMap<PowerUpInstance>;
     worldEvents: Map<string, WorldEvent>;
     litStars: Set<string>;
     fragments: Map<string, ServerFragment>;
 
     // Helper methods
-    send: (ws: WebSocket, message: any) => void;
+    send: <T extends ServerMessageType>(ws: WebSocket, message: ServerMessage<T>) => void;
     sendError: (connection: PlayerConnection, message: string) => void;
-    broadcast: (message: any, excludePlayerId?: string) => void;
-    broadcastToRealm: (realm: string, message: any, excludePlayerId?: string) => void;
+    broadcast: <T extends ServerMessageType>(message: ServerMessage<T>, excludePlayerId?: string) => void;     // Every shard
+    broadcastToRealm: <T extends ServerMessageType>(realm: string, message: ServerMessage<T>, excludePlayerId?: string) => void;
+
+    // Cross-shard: reach players in realms hosted by other server processes
+    sendToPlayers: <T extends ServerMessageType>(playerIds: string[], message: ServerMessage<T>) => void;
+    locatePlayer: (playerId: string) => Promise<PlayerLocation | null>;
+
+    // Let the player's next position report skip the speed check (lands near x, y)
+    grantTeleport: (connection: PlayerConnection, x: number, y: number) => void;
 }
 
+/**
+ * Delivery callbacks for the handlers set up per connection (season, gallery,
+ * daily login, constellation and activity feed)
+ */
+export type SendMessage = <T extends ServerMessageType>(message: ServerMessage<T>) => void;
+export type BroadcastMessage = <T extends ServerMessageType>(message: ServerMessage<T>) => void;
+export type SendToPlayer = <T extends ServerMessageType>(playerId: string, message: ServerMessage<T>) => void;
+
 /**
  * Base handler interface for message handlers
  */
@@ -170,6 +191,7 @@ export interface ServerFragment {
     value: number;
     phase: number;
     spawnedAt: number;
+    eventId?: string;       // Spawned by a world event's collectibles mechanic
 }
 
 /**
@@ -26,6 +26,7 @@ export {
     resonanceSchema,
     chatSchema,
     whisperSchema,
+    reportPlayerSchema,
     friendRequestSchema,
     teleportToFriendSchema,
     createGuildSchema,
@@ -37,8 +38,7 @@ export {
     claimGiftSchema,
     startMeditationSchema,
     endMeditationSchema,
-    sendSignalSchema,
-    trackAnalyticsSchema
+    sendSignalSchema
 } from './schemas.js';
 
 // Type inference helpers
@@ -48,6 +48,7 @@ import type {
     singSchema,
     chatSchema,
     whisperSchema,
+    reportPlayerSchema,
     echoSchema,
     createGuildSchema,
     sendGiftSchema
@@ -61,3 +62,13 @@ export type WhisperPayload = z.infer<typeof whisperSchema>;
 export type EchoPayload = z.infer<typeof echoSchema>;
 export type CreateGuildPayload = z.infer<typeof createGuildSchema>;
 export type SendGiftPayload = z.infer<typeof sendGiftSchema>;
+
+// Player data write policy
+export {
+    applyPlayerDataWritePolicy,
+    checkClientStatReport,
+    SERVER_TRACKED_STATS,
+    CLIENT_REPORTED_STATS
+} from './playerDataPolicy.js';
+
+export type { PlayerDataWriteResult, RejectedField, StatWriteCheck, ClientReportedStat } from './playerDataPolicy.js';
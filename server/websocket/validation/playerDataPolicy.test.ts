@@ -0,0 +1,80 @@
+// =============================================================================
+// Player Data Write Policy Tests - client-writable vs server-owned fields
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { applyPlayerDataWritePolicy, checkClientStatReport } from './playerDataPolicy.js';
+
+describe('applyPlayerDataWritePolicy', () => {
+    it('applies client-writable fields as dot-notation paths', () => {
+        const result = applyPlayerDataWritePolicy({
+            hue: 200,
+            settings: { musicEnabled: false, masterVolume: 40 },
+            cosmetics: { equippedTrail: 'trail_stars' }
+        });
+
+        expect(result.rejected).toEqual([]);
+        expect(result.updates).toEqual({
+            hue: 200,
+            'settings.musicEnabled': false,
+            'settings.masterVolume': 40,
+            'cosmetics.equippedTrail': 'trail_stars'
+        });
+    });
+
+    it('rejects server-owned fields', () => {
+        const result = applyPlayerDataWritePolicy({
+            xp: 999999,
+            stardust: 999999,
+            achievements: ['master'],
+            stats: { fragmentsCollected: 1000 },
+            cosmetics: { ownedItems: ['aura_void'], equippedAura: 'aura_void' }
+        });
+
+        expect(result.rejected.map(r => r.field)).toEqual([
+            'xp', 'stardust', 'achievements', 'stats', 'cosmetics.ownedItems'
+        ]);
+        expect(result.rejected.every(r => r.reason === 'server_owned')).toBe(true);
+        expect(result.updates).toEqual({ 'cosmetics.equippedAura': 'aura_void' });
+    });
+
+    it('rejects invalid values for writable fields', () => {
+        const result = applyPlayerDataWritePolicy({
+            hue: 720,
+            name: '<script>',
+            settings: { masterVolume: 'loud' },
+            tutorial: 'done'
+        });
+
+        expect(result.accepted).toEqual([]);
+        expect(result.rejected).toEqual([
+            { field: 'hue', reason: 'invalid' },
+            { field: 'name', reason: 'invalid' },
+            { field: 'settings.masterVolume', reason: 'invalid' },
+            { field: 'tutorial', reason: 'invalid' }
+        ]);
+    });
+
+    it('stamps tutorial completion on the server', () => {
+        const result = applyPlayerDataWritePolicy({ tutorial: { completed: true, completedAt: '1970-01-01' } });
+
+        expect(result.rejected).toEqual([{ field: 'tutorial.completedAt', reason: 'server_owned' }]);
+        expect(result.updates['tutorial.completedAt']).toBeInstanceOf(Date);
+    });
+});
+
+describe('checkClientStatReport', () => {
+    it('rejects stats the server tracks itself', () => {
+        expect(checkClientStatReport('fragmentsCollected', 1).allowed).toBe(false);
+    });
+
+    it('accepts single increments of client-reported stats', () => {
+        expect(checkClientStatReport('questsCompleted', 1).allowed).toBe(true);
+        expect(checkClientStatReport('questsCompleted', 50).allowed).toBe(false);
+        expect(checkClientStatReport('questsCompleted', -1).allowed).toBe(false);
+    });
+
+    it('rejects unknown stats', () => {
+        expect(checkClientStatReport('stardust', 1).allowed).toBe(false);
+    });
+});
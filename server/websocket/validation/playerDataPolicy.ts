@@ -0,0 +1,213 @@
+// =============================================================================
+// Player Data Write Policy - What clients may write to IPlayerData
+// =============================================================================
+// `sync_player_data` used to $set whatever the client sent, so a client could
+// grant itself XP, stardust, achievements or stats. Every field is now either:
+//
+// - Client-writable: state the client owns (profile look, settings, cosmetic
+//   and companion loadout, tutorial flags, resume point), validated per field
+// - Server-owned: everything else (progression, currencies, inventories,
+//   achievements, stats). Writes are rejected and reported back.
+//
+// Stats follow the same split: most are counted by the server where the action
+// happens, a few the server cannot observe are client-reported. Only stats the
+// server counts may back an achievement.
+// =============================================================================
+
+import { z } from 'zod';
+import { moderationService } from '../../services/ModerationService.js';
+
+const cosmeticId = z.string().min(1).max(64).nullable();
+
+/**
+ * Client-writable fields. Objects list the sub-fields clients may write;
+ * anything not listed is server-owned.
+ */
+const CLIENT_WRITABLE_FIELDS: Record<string, z.ZodTypeAny | Record<string, z.ZodTypeAny>> = {
+    name: z.string().trim().min(1).max(20).regex(/^[^<>\x00-\x1F\x7F]+$/)
+        .refine(name => moderationService.isNameAllowed(name)),
+    hue: z.number().min(0).max(360),
+    avatar: z.string().min(1).max(16),
+
+    settings: {
+        musicEnabled: z.boolean(),
+        soundEnabled: z.boolean(),
+        masterVolume: z.number().min(0).max(100),
+        musicVolume: z.number().min(0).max(100),
+        sfxVolume: z.number().min(0).max(100),
+        particlesEnabled: z.boolean(),
+        screenShake: z.boolean(),
+        reducedMotion: z.boolean(),
+        colorblindMode: z.string().max(32).nullable(),
+        highContrast: z.boolean(),
+        notifications: z.boolean(),
+        autoSave: z.boolean()
+    },
+
+    // Loadout only: what is owned is granted by the server
+    cosmetics: {
+        equippedTrail: cosmeticId,
+        equippedAura: cosmeticId,
+        equippedTitle: cosmeticId,
+        equippedPulseEffect: cosmeticId,
+        equippedEmotes: z.array(z.string().min(1).max(64)).max(8),
+        equippedSoundPack: z.string().min(1).max(64),
+        equippedFrame: z.string().min(1).max(64),
+        customColor: z.string().regex(/^#[0-9A-Fa-f]{6}$/).nullable()
+    },
+
+    companions: {
+        activeId: cosmeticId
+    },
+
+    // Wellness sessions happen entirely on the client
+    anchoring: {
+        breathingCompleted: z.number().int().min(0).max(1_000_000),
+        lastAnchorDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullable(),
+        preferredProvider: z.string().max(32).nullable()
+    },
+
+    // Resume point only; beacons, bonds and memories are recorded by the server
+    gameState: {
+        lastRealm: z.string().min(1).max(32),
+        lastPosition: z.object({
+            x: z.number().min(-50000).max(50000),
+            y: z.number().min(-50000).max(50000)
+        })
+    },
+
+    tutorial: {
+        completed: z.boolean(),
+        currentStep: z.number().int().min(0).max(1000),
+        completedSteps: z.array(z.string().min(1).max(64)).max(100),
+        skipped: z.boolean()
+    }
+};
+
+export interface RejectedField {
+    field: string;
+    reason: 'server_owned' | 'invalid';
+}
+
+export interface PlayerDataWriteResult {
+    updates: Record<string, unknown>;   // Dot-notation $set paths
+    accepted: string[];
+    rejected: RejectedField[];
+}
+
+/**
+ * Split a client update into allowed `$set` paths and rejected fields
+ */
+export function applyPlayerDataWritePolicy(data: Record<string, unknown>): PlayerDataWriteResult {
+    const result: PlayerDataWriteResult = { updates: {}, accepted: [], rejected: [] };
+
+    for (const [field, value] of Object.entries(data || {})) {
+        const policy = CLIENT_WRITABLE_FIELDS[field];
+
+        if (!policy) {
+            result.rejected.push({ field, reason: 'server_owned' });
+            continue;
+        }
+
+        if (policy instanceof z.ZodType) {
+            acceptIfValid(result, field, policy, value);
+            continue;
+        }
+
+        if (!value || typeof value !== 'object' || Array.isArray(value)) {
+            result.rejected.push({ field, reason: 'invalid' });
+            continue;
+        }
+
+        for (const [subField, subValue] of Object.entries(value)) {
+            const path = `${field}.${subField}`;
+            const schema = policy[subField];
+            if (!schema) {
+                result.rejected.push({ field: path, reason: 'server_owned' });
+                continue;
+            }
+            acceptIfValid(result, path, schema, subValue);
+        }
+    }
+
+    // Completion time is recorded by the server
+    if (result.updates['tutorial.completed'] === true) {
+        result.updates['tutorial.completedAt'] = new Date();
+    }
+
+    return result;
+}
+
+function acceptIfValid(result: PlayerDataWriteResult, path: string, schema: z.ZodTypeAny, value: unknown): void {
+    const parsed = schema.safeParse(value);
+    if (!parsed.success) {
+        result.rejected.push({ field: path, reason: 'invalid' });
+        return;
+    }
+    result.updates[path] = parsed.data;
+    result.accepted.push(path);
+}
+
+// =============================================================================
+// Stats
+// =============================================================================
+
+/**
+ * Stats the server increments itself when the action happens
+ */
+export const SERVER_TRACKED_STATS: ReadonlySet<string> = new Set([
+    'starsLit',
+    'echoesCreated',
+    'sings',
+    'pulses',
+    'emotes',
+    'teleports',
+    'whispersSent',
+    'fragmentsCollected',
+    'beaconsLit',
+    'bondsFormed',
+    'giftsGiven',
+    'giftsReceived',
+    'challengesCompleted'
+]);
+
+/**
+ * Stats the server cannot observe, accepted from `track_stat` one at a time
+ */
+const clientReportedStats = [
+    'connections',
+    'weeklyChallengesCompleted',
+    'questsCompleted'
+] as const;
+
+export type ClientReportedStat = typeof clientReportedStats[number];
+
+export const CLIENT_REPORTED_STATS: ReadonlySet<string> = new Set(clientReportedStats);
+
+function isClientReportedStat(stat: string): stat is ClientReportedStat {
+    return CLIENT_REPORTED_STATS.has(stat);
+}
+
+export const MAX_CLIENT_STAT_INCREMENT = 1;
+
+export interface StatWriteCheck {
+    allowed: boolean;
+    stat?: ClientReportedStat;      // Set when allowed
+    error?: string;
+}
+
+/**
+ * Check a client `track_stat` report against the stat policy
+ */
+export function checkClientStatReport(stat: string, amount: number): StatWriteCheck {
+    if (SERVER_TRACKED_STATS.has(stat)) {
+        return { allowed: false, error: `${stat} is tracked by the server` };
+    }
+    if (!isClientReportedStat(stat)) {
+        return { allowed: false, error: `Unknown stat: ${stat}` };
+    }
+    if (!Number.isInteger(amount) || amount < 1 || amount > MAX_CLIENT_STAT_INCREMENT) {
+        return { allowed: false, error: 'Invalid stat amount' };
+    }
+    return { allowed: true, stat };
+}
@@ -48,6 +48,7 @@ import { NetworkStatusHUD } from '@/components/ui/NetworkStatusHUD';
 import { useSnapshot, useQuests, useSettings } from '@/hooks';
 import { useAnchoringTriggers } from '@/hooks/useAnchoringTriggers';
 import { gameClient } from '@/services/GameClient';
+import type { NetworkStats } from '@/services/Netcode';
 import { useMobile } from '@/hooks/useMobile';
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -55,7 +56,7 @@ import { useMobile } from '@/hooks/useMobile';
 // ─────────────────────────────────────────────────────────────────────────────
 
 function AppLayout(): JSX.Element {
-  const { activePanel, closePanel } = useUI();
+  const { activePanel, closePanel, showToast } = useUI();
   const { exploration, settings, audio } = useGame();
   const { startBackgroundMusic, stopBackgroundMusic, playChatChime } = audio;
   const { isVisible: showHint, dismiss: dismissHint } = useHintPill({ storageKey: 'aura-welcome-hint' });
@@ -82,6 +83,7 @@ function AppLayout(): JSX.Element {
 
   // Real network stats from WebSocket connection
   const [latency, setLatency] = useState(gameClient.getLatency());
+  const [jitter, setJitter] = useState(gameClient.getNetworkStats().jitter);
   const [nearbyCount, setNearbyCount] = useState(gameClient.getNearbyPlayerCount());
   const [isConnected, setIsConnected] = useState(gameClient.isConnected());
 
@@ -118,6 +120,10 @@ function AppLayout(): JSX.Element {
       setNearbyCount(data.count);
     };
 
+    const handleNetworkStats = (stats: NetworkStats) => {
+      setJitter(stats.jitter);
+    };
+
     const handleConnected = () => {
       setIsConnected(true);
     };
@@ -128,17 +134,38 @@ function AppLayout(): JSX.Element {
 
     gameClient.on('latency_update', handleLatencyUpdate);
     gameClient.on('nearby_count_update', handleNearbyCountUpdate);
+    gameClient.on('network_stats', handleNetworkStats);
     gameClient.on('connected', handleConnected);
     gameClient.on('disconnected', handleDisconnected);
 
     return () => {
       gameClient.off('latency_update', handleLatencyUpdate);
       gameClient.off('nearby_count_update', handleNearbyCountUpdate);
+      gameClient.off('network_stats', handleNetworkStats);
       gameClient.off('connected', handleConnected);
       gameClient.off('disconnected', handleDisconnected);
     };
   }, []);
 
+  // Tell the player when the server would not let them in as themselves
+  useEffect(() => {
+    const handleSessionRefused = (data: { legacy: boolean }) => {
+      showToast(
+        data.legacy
+          ? 'That claim link was not accepted - it may already have been used. Playing as a guest for now.'
+          : 'Your identity could not be verified. Playing as a guest - progress will not be saved to your account.',
+        'warning',
+        10000,
+        'top-center'
+      );
+    };
+
+    gameClient.on('session_refused', handleSessionRefused);
+    return () => {
+      gameClient.off('session_refused', handleSessionRefused);
+    };
+  }, [showToast]);
+
   return (
     <div className="relative w-screen h-screen overflow-hidden bg-black">
       {/* Game Canvas - Full screen background */}
@@ -180,6 +207,7 @@ function AppLayout(): JSX.Element {
         <div className="fixed bottom-4 right-4 flex items-center gap-3 px-3 py-2 bg-black/50 backdrop-blur-md rounded-lg border border-white/10 z-50 pointer-events-auto">
           <NetworkStatusHUD
             latency={latency}
+            jitter={jitter}
             isConnected={isConnected}
             nearbyCount={nearbyCount}
             visible={true}
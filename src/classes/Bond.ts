@@ -5,6 +5,7 @@
 
 import { IBond, BondConsent, Position, StarMemory } from '@/types';
 import { BOND_GROW_RATE, BOND_DECAY_RATE } from '@/constants/game';
+import type { BondMoment, BondMomentType, BondTier } from '../../server/common/protocol';
 
 // ILight represents any entity that can form a bond (player, AI agent, etc.)
 export interface ILight extends Position {
@@ -44,6 +45,13 @@ export interface BondMemory {
   data?: Record<string, unknown>;
 }
 
+// Shared moments the server detected, as the memory they become here
+const SERVER_MOMENT_MEMORIES: Record<BondMomentType, BondMemoryType> = {
+  fragment_co_collected: 'found_treasure',
+  beacon_lit_together: 'beacon_lit',
+  darkness_survived: 'survived_darkness',
+};
+
 const MAX_MEMORIES = 50;
 const MEMORY_DESCRIPTIONS: Record<BondMemoryType, string> = {
   first_meeting: 'First touched light with',
@@ -95,6 +103,9 @@ export class Bond implements IBond {
   memories: BondMemory[];
   lastMilestoneStrength: number; // Track milestones (0.25, 0.5, 0.75, 1.0)
 
+  // Set once the server reports this bond; from then on it owns strength and tier
+  serverBacked: boolean;
+
   constructor(targetId: string, targetName: string, targetColor: string) {
     this.id = `bond_${targetId}_${Date.now()}`;
     this.targetId = targetId;
@@ -124,6 +135,7 @@ export class Bond implements IBond {
     // Initialize memory system
     this.memories = [];
     this.lastMilestoneStrength = 0;
+    this.serverBacked = false;
 
     // Record first meeting
     this.recordMemory('first_meeting', `${targetName}`);
@@ -204,6 +216,29 @@ export class Bond implements IBond {
     return this.memories.filter(m => m.type === type);
   }
 
+  /**
+   * Take strength (0-100 on the server) and tier from the server. Local
+   * proximity growth and decay stop touching strength after the first call.
+   */
+  applyServerState(state: { strength: number; mode: BondTier; sealed?: boolean }): void {
+    const previousStrength = this.strength;
+    this.serverBacked = true;
+    this.strength = Math.max(0, Math.min(1, state.strength / 100));
+    this.mode = state.mode;
+    if (state.sealed !== undefined) this.sealed = state.sealed;
+    this.lastInteraction = Date.now();
+    this.checkStrengthMilestone(previousStrength);
+  }
+
+  /**
+   * Remember a shared moment from the server's timeline (once per moment)
+   */
+  recordServerMoment(moment: BondMoment): void {
+    if (this.memories.some(m => m.data?.momentId === moment.momentId)) return;
+    const location = moment.x !== undefined && moment.y !== undefined ? { x: moment.x, y: moment.y } : undefined;
+    this.recordMemory(SERVER_MOMENT_MEMORIES[moment.type], undefined, location, { momentId: moment.momentId });
+  }
+
   /**
    * Get recent memories (last N)
    */
@@ -264,7 +299,7 @@ export class Bond implements IBond {
 
     // Legacy: Gifting light boosts bond strength
     // 0.05 strength boost per gift unit (to match legacy feeling)
-    this.strength = Math.min(1, this.strength + amount * 0.05);
+    if (!this.serverBacked) this.strength = Math.min(1, this.strength + amount * 0.05);
     this.recordMemory('light_gift', `Gifted ${amount} light`);
   }
 
@@ -347,7 +382,9 @@ export class Bond implements IBond {
 
     // ... (existing code)
 
-    if (distance <= maxDistance) {
+    if (this.serverBacked) {
+      // The server applies gains and decay for this bond
+    } else if (distance <= maxDistance) {
       // Within connection range - strengthen
       // Use multiplier 60 to convert per-frame rate to per-second (since deltaTime is in seconds)
       this.strength = Math.min(1, this.strength + deltaTime * (BOND_GROW_RATE * 60));
@@ -473,7 +510,7 @@ export class Bond implements IBond {
    * Respects sealed status - sealed bonds don't decay
    */
   decay(amount: number): void {
-    if (!this.sealed) {
+    if (!this.sealed && !this.serverBacked) {
       this.strength = Math.max(0, this.strength - amount);
     }
   }
@@ -482,6 +519,7 @@ export class Bond implements IBond {
    * Grow bond strength (from legacy_2)
    */
   grow(amount: number): void {
+    if (this.serverBacked) return;
     const previousStrength = this.strength;
     this.strength = Math.min(1, this.strength + amount);
     this.lastInteraction = Date.now();
@@ -6,7 +6,7 @@ import React, { useRef, useEffect, useCallback, useState } from 'react';
 import { useGame } from '@/contexts/GameContext';
 import { useUI } from '@/contexts/UIContext';
 import { VoiceVisualizer } from '@/components/ui/VoiceVisualizer';
-import { WORLD_SIZE, BOND_CONFIRM_THRESHOLD } from '@/constants/game';
+import { WORLD_SIZE, BOND_CONFIRM_THRESHOLD, PLAYER_MAX_SPEED } from '@/constants/game';
 import {
   BIOMES,
   BIOME_GRADIENTS,
@@ -15,7 +15,7 @@ import {
   FOG_CELL_SIZE,
   getBiomeAtPosition,
 } from '@/constants/world';
-import { REALMS, type RealmId } from '@/constants/realms';
+import { REALMS, getRealmPhysics, type RealmId } from '@/constants/realms';
 import { lerp, clamp, distance, randomRange } from '@/utils/math';
 import { hexToRgb, addAlpha, resolveColor } from '@/utils/colors';
 import { Particle } from '@/utils/ParticleSystem';
@@ -457,9 +457,15 @@ export function GameCanvas(): JSX.Element {
       // Smooth follow
       const dist = Math.sqrt(dx * dx + dy * dy);
       if (dist > 5) { // Deadzone
-        const speed = 0.05; // Follow factor
-        state.playerVX = dx * speed;
-        state.playerVY = dy * speed;
+        // Follow factor, scaled by the realm's drift (the server validates against the same registry)
+        const drift = getRealmPhysics(state.currentRealm || DEFAULT_REALM).driftMultiplier;
+        const speed = 0.05 * drift;
+        // Capped per frame (velocity is applied as units per 1/60s) to the speed the server accepts
+        const maxStep = (PLAYER_MAX_SPEED / 60) * drift;
+        const step = dist * speed;
+        const scale = step > maxStep ? maxStep / step : 1;
+        state.playerVX = dx * speed * scale;
+        state.playerVY = dy * speed * scale;
       } else {
         state.playerVX *= 0.8;
         state.playerVY *= 0.8;
@@ -516,7 +522,17 @@ export function GameCanvas(): JSX.Element {
 
     // Update AI agents (with distance-based culling - only update agents within 1500 units)
     const AGENT_UPDATE_DISTANCE = 1500;
+    const frameTime = Date.now();
     state.aiAgents.forEach(agent => {
+      // Server entities are drawn a fixed delay behind the snapshot buffer
+      if (agent.isRemotePlayer) {
+        const sample = gameClient.netcode.sample(agent.id, frameTime);
+        if (sample) {
+          agent.x = agent.targetX = sample.x;
+          agent.y = agent.targetY = sample.y;
+        }
+      }
+
       const dx = agent.x - state.playerX;
       const dy = agent.y - state.playerY;
       const distSq = dx * dx + dy * dy;
@@ -78,7 +78,7 @@ export { QuickReactionsBar, DEFAULT_REACTIONS, EXTENDED_REACTIONS } from './ui/Q
 export type { QuickReactionsBarProps, QuickReaction } from './ui/QuickReactionsBar';
 
 // LEGACY Ports (Phase 3)
-export { SignalHUD, ClusterHUD, NetworkStatusHUD, latencyToStrength, getSignalQuality, getSignalColor } from './ui/NetworkStatusHUD';
+export { SignalHUD, ClusterHUD, NetworkStatusHUD, latencyToStrength, formatNetworkTitle, getSignalQuality, getSignalColor } from './ui/NetworkStatusHUD';
 export type { SignalHUDProps, ClusterHUDProps, NetworkStatusHUDProps, SignalQuality } from './ui/NetworkStatusHUD';
 export { HintPill, useHintPill, HINT_MESSAGES } from './ui/HintPill';
 export type { HintPillProps, UseHintPillOptions } from './ui/HintPill';
@@ -2,7 +2,7 @@
  * Network Status HUD Components
  * Ported from LEGACY main.ts - updateSignalHUD, cluster-hud
  * 
- * Shows signal strength (latency) and nearby player count
+ * Shows signal strength (latency and jitter) and nearby player count
  */
 
 import React, { useEffect, useState, useMemo } from 'react';
@@ -16,6 +16,8 @@ export type SignalQuality = 'excellent' | 'good' | 'weak' | 'poor' | 'disconnect
 export interface SignalHUDProps {
   /** Current latency in milliseconds */
   latency: number;
+  /** Variation in server snapshot arrival times in milliseconds */
+  jitter?: number;
   /** Whether connected to server */
   isConnected: boolean;
   /** Whether to show the HUD */
@@ -48,10 +50,18 @@ export interface NetworkStatusHUDProps extends SignalHUDProps, Omit<ClusterHUDPr
 
 /**
  * Convert latency to signal strength percentage
- * 0ms = 100%, 500ms+ = 0%
+ * 0ms = 100%, 500ms+ = 0%. Jitter counts double: uneven snapshots
+ * stutter more than a steady delay.
  */
-export function latencyToStrength(latency: number): number {
-  return Math.max(0, Math.min(100, Math.round(100 - latency / 5)));
+export function latencyToStrength(latency: number, jitter: number = 0): number {
+  return Math.max(0, Math.min(100, Math.round(100 - (latency + jitter * 2) / 5)));
+}
+
+/**
+ * Tooltip text for the signal indicator
+ */
+export function formatNetworkTitle(latency: number, jitter?: number): string {
+  return jitter === undefined ? `Latency: ${latency}ms` : `Latency: ${latency}ms · Jitter: ${jitter}ms`;
 }
 
 /**
@@ -174,13 +184,14 @@ const getPositionStyles = (position: string): React.CSSProperties => {
 
 export const SignalHUD: React.FC<SignalHUDProps> = ({
   latency,
+  jitter,
   isConnected,
   visible = true,
   position = 'bottom-right',
 }) => {
   const [isHovered, setIsHovered] = useState(false);
 
-  const strength = useMemo(() => latencyToStrength(latency), [latency]);
+  const strength = useMemo(() => latencyToStrength(latency, jitter), [latency, jitter]);
   const quality = useMemo(() => getSignalQuality(strength, isConnected), [strength, isConnected]);
   const color = useMemo(() => getSignalColor(quality), [quality]);
 
@@ -197,7 +208,7 @@ export const SignalHUD: React.FC<SignalHUDProps> = ({
       }}
       onMouseEnter={() => setIsHovered(true)}
       onMouseLeave={() => setIsHovered(false)}
-      title={`Latency: ${latency}ms`}
+      title={formatNetworkTitle(latency, jitter)}
       role="status"
       aria-label={`Signal strength: ${displayText}`}
     >
@@ -250,13 +261,14 @@ export const ClusterHUD: React.FC<ClusterHUDProps> = ({
 
 export const NetworkStatusHUD: React.FC<NetworkStatusHUDProps> = ({
   latency,
+  jitter,
   isConnected,
   nearbyCount,
   visible = true,
   showCluster = true,
   explorationPercent,
 }) => {
-  const strength = useMemo(() => latencyToStrength(latency), [latency]);
+  const strength = useMemo(() => latencyToStrength(latency, jitter), [latency, jitter]);
   const quality = useMemo(() => getSignalQuality(strength, isConnected), [strength, isConnected]);
   const color = useMemo(() => getSignalColor(quality), [quality]);
 
@@ -273,7 +285,7 @@ export const NetworkStatusHUD: React.FC<NetworkStatusHUDProps> = ({
           fontSize: '0.75rem',
           color: '#94a3b8',
         }}
-        title={`Latency: ${latency}ms`}
+        title={formatNetworkTitle(latency, jitter)}
       >
         {/* Exploration percentage */}
         {explorationPercent !== undefined && (
@@ -307,6 +319,7 @@ export const NetworkStatusHUD: React.FC<NetworkStatusHUDProps> = ({
     <>
       <SignalHUD
         latency={latency}
+        jitter={jitter}
         isConnected={isConnected}
         visible={visible}
         position="bottom-right"
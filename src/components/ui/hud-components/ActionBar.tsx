@@ -3,7 +3,7 @@
 // Unified bottom action bar with primary and secondary actions
 // ═══════════════════════════════════════════════════════════════════════════
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import { MessageCircle, Zap, Navigation, Star, Camera, Image } from 'lucide-react';
 import { PulseButton } from './PulseButton';
 import { VoiceButton } from './VoiceButton';
@@ -11,6 +11,7 @@ import { QuickChatWheel } from '../QuickChatWheel';
 import { useSignals } from '@/hooks/useSignals';
 import { useUI } from '@/contexts/UIContext';
 import { useGameStateContext, useMediaContext } from '@/contexts/GameContext';
+import { gameClient } from '@/services/GameClient';
 
 interface QuickActionProps {
   icon: React.ReactNode;
@@ -47,6 +48,22 @@ export function ActionBar({ isMobile = false }: ActionBarProps): JSX.Element {
   const { getPlayerPosition, broadcastGesture, broadcastMessage, gameState } = useGameStateContext();
   const { addToGallery } = useMediaContext();
 
+  // Server dropped an action for coming too fast
+  useEffect(() => {
+    const handleRateLimited = (data: { reason: string; retryAfter: number }) => {
+      const seconds = Math.max(1, Math.ceil(data.retryAfter / 1000));
+      const message = data.reason === 'cooldown'
+        ? `Still recharging - try again in ${seconds}s`
+        : `Slow down - try again in ${seconds}s`;
+      showToast(message, 'warning');
+    };
+
+    gameClient.on('rate_limited', handleRateLimited);
+    return () => {
+      gameClient.off('rate_limited', handleRateLimited);
+    };
+  }, [showToast]);
+
   // Capture screenshot of the game canvas
   const captureScreenshot = useCallback(async () => {
     if (isCapturing) return;
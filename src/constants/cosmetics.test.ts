@@ -0,0 +1,51 @@
+// ═══════════════════════════════════════════════════════════════════════════
+// AVESTELLA - Cosmetics Unit Tests (shop prices against the server catalog)
+// ═══════════════════════════════════════════════════════════════════════════
+
+import { describe, it, expect } from 'vitest';
+import { TRAIL_STYLES, LIGHT_COLORS, AURA_EFFECTS, AVATAR_FRAMES, SOUND_PACKS } from './cosmetics';
+import { COSMETIC_CATALOG, getCosmeticItem } from '../../server/services/CosmeticCatalog';
+
+// Shop tables and the catalog type their ids are prefixed with
+const SHOP = {
+  trail: TRAIL_STYLES,
+  color: LIGHT_COLORS,
+  aura: AURA_EFFECTS,
+  frame: AVATAR_FRAMES,
+  sound: SOUND_PACKS,
+} as const;
+
+const shopItems = Object.entries(SHOP).flatMap(([type, table]) =>
+  Object.entries(table)
+    .filter(([, item]) => item.unlock.type === 'purchase')
+    .map(([key, item]) => ({ id: `${type}_${key}`, type, name: item.name, price: item.price, rarity: item.rarity }))
+);
+
+describe('Cosmetics shop', () => {
+  it('sells every purchasable item under a catalog id, at the catalog price', () => {
+    const mismatched = shopItems.filter(item => {
+      const entry = getCosmeticItem(item.id);
+      return !entry
+        || entry.type !== item.type
+        || entry.stardustPrice !== item.price
+        || entry.rarity !== item.rarity
+        || entry.name !== item.name
+        || entry.unlockCondition;
+    });
+    expect(mismatched.map(item => item.id)).toEqual([]);
+  });
+
+  it('gives away default items the catalog does not charge for', () => {
+    const free = Object.entries(SHOP).flatMap(([type, table]) =>
+      Object.entries(table)
+        .filter(([, item]) => item.unlock.type === 'default')
+        .map(([key]) => `${type}_${key}`)
+    );
+    expect(free.filter(id => getCosmeticItem(id)?.stardustPrice)).toEqual([]);
+  });
+
+  it('has a catalog entry of every shop type', () => {
+    const catalogTypes = new Set(COSMETIC_CATALOG.map(entry => entry.type));
+    expect(Object.keys(SHOP).filter(type => !catalogTypes.has(type as never))).toEqual([]);
+  });
+});
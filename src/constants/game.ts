@@ -3,12 +3,14 @@
 // ═══════════════════════════════════════════════════════════════════════════
 
 import type { Beacon, Season } from '@/types';
+import { SHARED_CONFIG } from '../../server/common/constants';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // World Configuration
 // ─────────────────────────────────────────────────────────────────────────────
 
 export const WORLD_SIZE = 8000;
+export const PLAYER_MAX_SPEED = SHARED_CONFIG.PLAYER_MAX_SPEED; // Units/s before realm drift; the server rejects faster moves
 export const AI_COUNT = 15;
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -17,6 +17,7 @@ import {
 } from '@/constants/companions';
 import { gameClient } from '@/services/GameClient';
 import { loadFromStorage, saveToStorage } from '@/utils/storage';
+import type { CompanionDataPayload, CompanionPurchasedPayload } from '../../server/common/protocol';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Types
@@ -115,11 +116,21 @@ export const useCompanions = (): UseCompanionsReturn => {
       gameClient.requestCompanionData();
     }
 
-    const onCompanionData = (newData: Partial<CompanionData>) => {
-      setData(prev => ({ ...prev, ...newData }));
+    const onCompanionData = ({ playerId: _playerId, ownedCompanions, ...newData }: CompanionDataPayload) => {
+      setData(prev => ({
+        ...prev,
+        ...newData,
+        // The server sends a list; the hook keys companions by id
+        ownedCompanions: Object.fromEntries(ownedCompanions.map(owned => [owned.companionId, {
+          id: owned.companionId,
+          level: owned.level,
+          xp: owned.xp,
+          acquiredAt: new Date(owned.acquiredAt).getTime(),
+        }])),
+      }));
     };
 
-    const onCompanionPurchased = (eventData: { companionId: string, remainingStardust: number }) => {
+    const onCompanionPurchased = (eventData: CompanionPurchasedPayload) => {
       const { companionId } = eventData;
 
       setData(prev => ({
@@ -143,23 +154,14 @@ export const useCompanions = (): UseCompanionsReturn => {
       }));
     };
 
-    const onConstellationReward = (eventData: { constellationId: string, reward: any }) => {
-      setData(prev => ({
-        ...prev,
-        completedConstellations: [...prev.completedConstellations, eventData.constellationId]
-      }));
-    };
-
     gameClient.on('companion_data', onCompanionData);
     gameClient.on('companion_purchased', onCompanionPurchased);
     gameClient.on('companion_equipped', onCompanionEquipped);
-    gameClient.on('constellation_reward_claimed', onConstellationReward);
 
     return () => {
       gameClient.off('companion_data', onCompanionData);
       gameClient.off('companion_purchased', onCompanionPurchased);
       gameClient.off('companion_equipped', onCompanionEquipped);
-      gameClient.off('constellation_reward_claimed', onConstellationReward);
     };
   }, []);
 
@@ -375,7 +377,14 @@ export const useCompanions = (): UseCompanionsReturn => {
   }, [data.constellationPieces]);
 
   const claimConstellationReward = useCallback((constellationId: string): boolean => {
-    gameClient.claimConstellationReward(constellationId);
+    // Completion is tracked locally; the server has no constellation reward
+    if (!checkConstellationComplete(constellationId)) return false;
+    if (data.completedConstellations.includes(constellationId)) return false;
+
+    setData(prev => ({
+      ...prev,
+      completedConstellations: [...prev.completedConstellations, constellationId]
+    }));
     return true;
   }, [checkConstellationComplete, data.completedConstellations]);
 
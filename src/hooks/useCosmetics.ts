@@ -226,6 +226,33 @@ export function useCosmetics(playerId?: string): UseCosmeticsReturn {
     }
   }, [serverSync.playerData?.cosmetics]);
 
+  // Roll back optimistic ownership when the server rejects a purchase
+  useEffect(() => {
+    const OWNED_KEYS: Record<string, keyof CosmeticsData> = {
+      trail: 'ownedTrails',
+      color: 'ownedColors',
+      aura: 'ownedAuras',
+      sound: 'ownedSoundPacks',
+      frame: 'ownedFrames',
+    };
+
+    const handlePurchaseFailed = (failure: { cosmeticId: string }) => {
+      const [type, ...rest] = failure.cosmeticId.split('_');
+      const key = OWNED_KEYS[type];
+      if (!key) return;
+      const itemId = rest.join('_');
+      setData(prev => ({
+        ...prev,
+        [key]: (prev[key] as string[]).filter(id => id !== itemId),
+      }));
+    };
+
+    gameClient.on('cosmetic_purchase_failed', handlePurchaseFailed);
+    return () => {
+      gameClient.off('cosmetic_purchase_failed', handlePurchaseFailed);
+    };
+  }, []);
+
   // ─────────────────────────────────────────────────────────────────────────
   // Current Equipped Items (memoized)
   // ─────────────────────────────────────────────────────────────────────────
@@ -425,7 +452,7 @@ export function useCosmetics(playerId?: string): UseCosmeticsReturn {
     if (!spendStardust(trail.price)) return false;
 
     // Server purchase
-    gameClient.purchaseCosmetic(`trail_${trailId}`, trail.price);
+    gameClient.purchaseCosmetic(`trail_${trailId}`);
 
     // Optimistic
     setData(prev => ({
@@ -446,7 +473,7 @@ export function useCosmetics(playerId?: string): UseCosmeticsReturn {
     if (!spendStardust(color.price)) return false;
 
     // Server purchase
-    gameClient.purchaseCosmetic(`color_${colorId}`, color.price);
+    gameClient.purchaseCosmetic(`color_${colorId}`);
 
     setData(prev => ({
       ...prev,
@@ -466,7 +493,7 @@ export function useCosmetics(playerId?: string): UseCosmeticsReturn {
     if (!spendStardust(aura.price)) return false;
 
     // Server purchase
-    gameClient.purchaseCosmetic(`aura_${auraId}`, aura.price);
+    gameClient.purchaseCosmetic(`aura_${auraId}`);
 
     setData(prev => ({
       ...prev,
@@ -486,7 +513,7 @@ export function useCosmetics(playerId?: string): UseCosmeticsReturn {
     if (!spendStardust(pack.price)) return false;
 
     // Server purchase
-    gameClient.purchaseCosmetic(`sound_${packId}`, pack.price);
+    gameClient.purchaseCosmetic(`sound_${packId}`);
 
     setData(prev => ({
       ...prev,
@@ -506,7 +533,7 @@ export function useCosmetics(playerId?: string): UseCosmeticsReturn {
     if (!spendStardust(frame.price)) return false;
 
     // Server purchase
-    gameClient.purchaseCosmetic(`frame_${frameId}`, frame.price);
+    gameClient.purchaseCosmetic(`frame_${frameId}`);
 
     setData(prev => ({
       ...prev,
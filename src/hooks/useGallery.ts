@@ -6,7 +6,7 @@
 // ═══════════════════════════════════════════════════════════════════════════
 
 import { useState, useCallback, useEffect, useRef } from 'react';
-import { gameClient } from '../services/GameClient';
+import { gameClient, type RealmId } from '../services/GameClient';
 import { 
   uploadScreenshot as uploadToStorage, 
   deleteFile as deleteFromStorage,
@@ -79,9 +79,8 @@ export interface UseGalleryReturn {
     caption?: string;
     filter?: string;
     template?: string;
-    location?: { x: number; y: number; realm: string };
-    visiblePlayers?: string[];
-    isPublic?: boolean;
+    location: { x: number; y: number; realm: RealmId };
+    visiblePlayers?: Array<{ playerId: string; playerName: string }>;
   }) => Promise<void>;
   
   saveScreenshot: (data: {
@@ -89,9 +88,8 @@ export interface UseGalleryReturn {
     caption?: string;
     filter?: string;
     template?: string;
-    location?: { x: number; y: number; realm: string };
-    visiblePlayers?: string[];
-    isPublic?: boolean;
+    location: { x: number; y: number; realm: RealmId };
+    visiblePlayers?: Array<{ playerId: string; playerName: string }>;
   }) => void;
   deleteScreenshot: (screenshotId: string, storagePath?: string) => void;
   updateCaption: (screenshotId: string, caption: string) => void;
@@ -105,7 +103,7 @@ export interface UseGalleryReturn {
   
   // Navigation
   loadMore: () => void;
-  loadPublicGallery: (options?: { realm?: string; sortBy?: 'recent' | 'popular' }) => void;
+  loadPublicGallery: (options?: { realm?: RealmId; sortBy?: 'recent' | 'popular' }) => void;
   refresh: () => void;
 }
 
@@ -277,9 +275,8 @@ export function useGallery(): UseGalleryReturn {
     caption?: string;
     filter?: string;
     template?: string;
-    location?: { x: number; y: number; realm: string };
-    visiblePlayers?: string[];
-    isPublic?: boolean;
+    location: { x: number; y: number; realm: RealmId };
+    visiblePlayers?: Array<{ playerId: string; playerName: string }>;
   }) => {
     const playerId = gameClient.getPlayerId();
     if (!playerId) {
@@ -307,7 +304,7 @@ export function useGallery(): UseGalleryReturn {
         metadata: {
           filter: options.filter || '',
           template: options.template || '',
-          realm: options.location?.realm || '',
+          realm: options.location.realm,
         },
       });
 
@@ -319,7 +316,6 @@ export function useGallery(): UseGalleryReturn {
         template: options.template,
         location: options.location,
         visiblePlayers: options.visiblePlayers,
-        isPublic: options.isPublic,
       });
 
       // Track storage path for cleanup
@@ -340,9 +336,8 @@ export function useGallery(): UseGalleryReturn {
     caption?: string;
     filter?: string;
     template?: string;
-    location?: { x: number; y: number; realm: string };
-    visiblePlayers?: string[];
-    isPublic?: boolean;
+    location: { x: number; y: number; realm: RealmId };
+    visiblePlayers?: Array<{ playerId: string; playerName: string }>;
   }) => {
     gameClient.saveScreenshot(data);
   }, []);
@@ -400,7 +395,7 @@ export function useGallery(): UseGalleryReturn {
     gameClient.getGallery({ limit: LIMIT, offset: newOffset });
   }, [offset]);
 
-  const loadPublicGallery = useCallback((options?: { realm?: string; sortBy?: 'recent' | 'popular' }) => {
+  const loadPublicGallery = useCallback((options?: { realm?: RealmId; sortBy?: 'recent' | 'popular' }) => {
     setLoading(true);
     gameClient.getPublicGallery(options);
   }, []);
@@ -86,6 +86,7 @@ export interface UseGameModesReturn {
 // ─────────────────────────────────────────────────────────────────────────────
 
 import { gameClient } from '@/services/GameClient';
+import type { TagGameAvailablePayload, TagGameStartedPayload, TagOccurredPayload } from '../../server/common/protocol';
 
 const DEFAULT_SEEK_INTERVAL = 3; // seconds
 const DEFAULT_SEEK_RANGE = 2.0; // 2x normal detection
@@ -282,25 +283,29 @@ export function useGameModes(): UseGameModesReturn {
       console.log('Tag session created:', data.session);
     };
 
-    const handleGameAvailable = (data: {
-      sessionId: string;
-      initiator: string;
-      playerCount: number;
-      minPlayers: number;
-    }) => {
-      setAvailableTagSession(data);
+    const handleGameAvailable = (data: TagGameAvailablePayload) => {
+      setAvailableTagSession({
+        sessionId: data.gameId,
+        initiator: data.createdBy,
+        playerCount: 1, // Just the creator so far
+        minPlayers: data.playersNeeded + 1
+      });
     };
 
     const handlePlayerJoined = (data: { playerId: string, playerCount: number }) => {
       setAvailableTagSession(prev => prev ? { ...prev, playerCount: data.playerCount } : null);
     };
 
-    const handleGameStarted = (data: { initialTagger: string, sessionId?: string }) => {
+    const handleGameStarted = (data: TagGameStartedPayload) => {
+      // Lobby games name their tagger; realm sessions only their initial one
+      const started = 'gameId' in data
+        ? { sessionId: data.gameId, itPlayerId: data.taggerId }
+        : { sessionId: null, itPlayerId: data.initialTagger };
       setTagGame(prev => ({
         ...prev,
         active: true,
-        sessionId: data.sessionId || availableTagSession?.sessionId || null,
-        itPlayerId: data.initialTagger,
+        sessionId: started.sessionId || availableTagSession?.sessionId || null,
+        itPlayerId: started.itPlayerId,
         startTime: Date.now(),
         lastTagTime: Date.now(), // Immunity starts
         survivalTime: 0
@@ -308,7 +313,7 @@ export function useGameModes(): UseGameModesReturn {
       setAvailableTagSession(null); // Clear lobby state
     };
 
-    const handleTagOccurred = (data: { tagger: string, tagged: string, chainBonus: number }) => {
+    const handleTagOccurred = (data: TagOccurredPayload) => {
       setTagGame(prev => ({
         ...prev,
         itPlayerId: data.tagged, // New IT player is the one who was tagged? 
@@ -330,7 +335,7 @@ export function useGameModes(): UseGameModesReturn {
 
     gameClient.on('tag_session_created', handleSessionCreated);
     gameClient.on('tag_game_available', handleGameAvailable); // Broadcast to realm
-    gameClient.on('tag_player_joined', handlePlayerJoined);
+    gameClient.on('player_joined_tag', handlePlayerJoined);
     gameClient.on('tag_game_started', handleGameStarted);
     gameClient.on('tag_occurred', handleTagOccurred);
     gameClient.on('tag_game_ended', handleGameEnded);
@@ -338,7 +343,7 @@ export function useGameModes(): UseGameModesReturn {
     return () => {
       gameClient.off('tag_session_created', handleSessionCreated);
       gameClient.off('tag_game_available', handleGameAvailable);
-      gameClient.off('tag_player_joined', handlePlayerJoined);
+      gameClient.off('player_joined_tag', handlePlayerJoined);
       gameClient.off('tag_game_started', handleGameStarted);
       gameClient.off('tag_occurred', handleTagOccurred);
       gameClient.off('tag_game_ended', handleGameEnded);
@@ -13,10 +13,34 @@ import { WORLD_SIZE, BEACONS, getRandomName } from '@/constants/game';
 // Entities are now server-authoritative
 import { loadFromStorage, saveToStorage, STORAGE_KEYS } from '@/utils/storage';
 import { ALL_REALM_IDS, DEFAULT_REALM } from '@/constants/realms';
-import { gameClient, type RealmId } from '@/services/GameClient';
+import { gameClient, readLegacyClaimFromUrl, type GameClientEventData, type RealmId } from '@/services/GameClient';
+import type { ReplicatedEntity } from '@/services/WorldStateReplica';
+import type { ServerPayload } from '../../server/common/protocol';
 
 // Note: PERSONALITY_TYPES removed - AI agents are now server-authoritative
 
+// Fields the world_state handler reads from replicated players and bots
+interface RemoteAgentState extends ReplicatedEntity {
+  x: number;
+  y: number;
+  name?: string;
+  hue?: number | null;
+  message?: string | null;
+  speaking?: boolean;
+  pulsing?: boolean;
+}
+
+// Replicated beacon charge state; look and name stay with the client's BEACONS
+interface RemoteBeaconState extends ReplicatedEntity {
+  x: number;
+  y: number;
+  lit: boolean;
+  charge?: number;
+  litBy?: string | null;
+  litAt?: number | null;
+  permanentlyLit?: boolean;
+  isProtected?: boolean;
+}
 
 
 export interface UseGameStateReturn {
@@ -62,8 +86,15 @@ export function useGameState(): UseGameStateReturn {
   const [selectedEntity, setSelectedEntity] = useState<IAIAgent | null>(null);
   const [isTalking, setIsTalking] = useState(false);
 
+  // A legacy claim link names the player it restores
+  const legacyClaim = readLegacyClaimFromUrl();
+
   // Get unique player ID
   const getPlayerId = () => {
+    if (legacyClaim) {
+      saveToStorage('player_id', legacyClaim.playerId);
+      return legacyClaim.playerId;
+    }
     let id = loadFromStorage('player_id', '');
     if (!id) {
       id = `player_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -239,17 +270,20 @@ export function useGameState(): UseGameStateReturn {
     setIsInitialized(true);
 
     // Connect to Multiplayer Server
-    gameClient.connect(playerId, (state.currentRealm || DEFAULT_REALM) as RealmId);
+    gameClient.connect(playerId, (state.currentRealm || DEFAULT_REALM) as RealmId, { legacySecret: legacyClaim?.secret });
+
+    // The session may run under a guest id if ours could not be verified
+    const isSelf = (id: string) => id === (gameClient.getPlayerId() || playerId);
 
     // Listen for world state updates (contains all remote players)
-    const handleWorldState = (data: any) => {
+    const handleWorldState = (data: GameClientEventData<'world_state'>) => {
       if (!data?.players) {
         return;
       }
 
       const state = gameState.current;
-      const remotePlayers = data.players.filter((p: any) => p.id !== playerId);
-      const serverBots = data.bots || [];
+      const remotePlayers = (data.players as RemoteAgentState[]).filter(p => !isSelf(p.id));
+      const serverBots = (data.bots || []) as RemoteAgentState[];
 
       // ═══════════════════════════════════════════════════════════════════════
       // SERVER-AUTHORITATIVE: Update ALL entities from server
@@ -270,16 +304,6 @@ export function useGameState(): UseGameStateReturn {
         }));
       }
 
-      // Update nebulae from server (cosmetic, consistent for all players)
-      if (data.nebulae && Array.isArray(data.nebulae)) {
-        state.nebulae = data.nebulae;
-      }
-
-      // Update stars from server (cosmetic, consistent for all players)
-      if (data.stars && Array.isArray(data.stars)) {
-        state.stars = data.stars;
-      }
-
       // Update echoes from server
       if (data.echoes && Array.isArray(data.echoes)) {
         state.echoes = data.echoes.map((e: any) => ({
@@ -298,7 +322,13 @@ export function useGameState(): UseGameStateReturn {
 
       // Update beacons from server (server-authoritative beacon state)
       if (data.beacons && Array.isArray(data.beacons)) {
-        state.beacons = data.beacons.map((b: any) => ({
+        const knownBeacons = new Map(state.beacons.map(b => [b.id, b]));
+        state.beacons = (data.beacons as RemoteBeaconState[]).map(b => ({
+          color: '#ffffff',
+          active: false,
+          lightLevel: 0,
+          name: b.id,
+          ...knownBeacons.get(b.id),
           id: b.id,
           x: b.x,
           y: b.y,
@@ -327,7 +357,7 @@ export function useGameState(): UseGameStateReturn {
       for (const botData of serverBots) {
         const existing = currentAgentsById.get(botData.id);
         if (existing) {
-          // Set TARGET positions for smooth interpolation (not direct x/y which causes stuttering)
+          // Latest server position; GameCanvas draws the buffered interpolation from gameClient.netcode
           existing.targetX = botData.x;
           existing.targetY = botData.y;
           existing.name = botData.name;
@@ -363,7 +393,7 @@ export function useGameState(): UseGameStateReturn {
       for (const playerData of remotePlayers) {
         const existing = currentAgentsById.get(playerData.id);
         if (existing) {
-          // Set TARGET positions for smooth interpolation (not direct x/y which causes stuttering)
+          // Latest server position; GameCanvas draws the buffered interpolation from gameClient.netcode
           existing.targetX = playerData.x;
           existing.targetY = playerData.y;
           existing.name = playerData.name || `Player_${playerData.id.substring(0, 6)}`;
@@ -402,10 +432,48 @@ export function useGameState(): UseGameStateReturn {
 
     };
 
-    (gameClient as any).on('world_state', handleWorldState);
+    gameClient.on('world_state', handleWorldState);
+
+    // Static visual entities arrive once in initial_state (never per tick)
+    const handleInitialState = (data: ServerPayload<'initial_state'>) => {
+      const state = gameState.current;
+
+      // Nebulae and stars are cosmetic but consistent for all players
+      if (data?.nebulae && Array.isArray(data.nebulae)) {
+        state.nebulae = data.nebulae;
+      }
+      if (data?.stars && Array.isArray(data.stars)) {
+        state.stars = data.stars;
+      }
+    };
+    gameClient.on('initial_state', handleInitialState);
+
+    // Server rejected our movement (too fast) - take its position and replay
+    // the inputs it hasn't seen yet on top
+    const handlePositionCorrection = (data: ServerPayload<'position_correction'>) => {
+      const state = gameState.current;
+      if (typeof data?.x !== 'number' || typeof data?.y !== 'number') return;
+      const corrected = gameClient.netcode.reconcile(
+        { x: data.x, y: data.y, seq: typeof data.seq === 'number' ? data.seq : undefined },
+        { x: state.playerX, y: state.playerY }
+      );
+      state.playerX = corrected.x;
+      state.playerY = corrected.y;
+      state.playerVX = 0;
+      state.playerVY = 0;
+    };
+    gameClient.on('position_correction', handlePositionCorrection);
+
+    // Server refused a realm change (locked or full) - stay in the realm it kept us in
+    const handleRealmDenied = (data: ServerPayload<'realm_denied'>) => {
+      if (typeof data?.realm !== 'string') return;
+      gameState.current.currentRealm = data.realm;
+      console.warn(`🚪 Cannot enter ${data.requested}: ${data.reason}`);
+    };
+    gameClient.on('realm_denied', handleRealmDenied);
 
     // Listen for fragment spawned events (incremental update)
-    const handleFragmentSpawned = (data: any) => {
+    const handleFragmentSpawned = (data: ServerPayload<'fragment_spawned'>) => {
       const state = gameState.current;
       if (data && data.id) {
         state.fragments.push({
@@ -421,19 +489,19 @@ export function useGameState(): UseGameStateReturn {
         });
       }
     };
-    (gameClient as any).on('fragment_spawned', handleFragmentSpawned);
+    gameClient.on('fragment_spawned', handleFragmentSpawned);
 
     // Listen for fragment removed events (when another player collects)
-    const handleFragmentRemoved = (data: any) => {
+    const handleFragmentRemoved = (data: ServerPayload<'fragment_removed'>) => {
       const state = gameState.current;
       if (data && data.fragmentId) {
         state.fragments = state.fragments.filter(f => f.id !== data.fragmentId);
       }
     };
-    (gameClient as any).on('fragment_removed', handleFragmentRemoved);
+    gameClient.on('fragment_removed', handleFragmentRemoved);
 
     // Listen for fragment collected confirmation (when we collect)
-    const handleFragmentCollected = (data: any) => {
+    const handleFragmentCollected = (data: ServerPayload<'fragment_collected'>) => {
       const state = gameState.current;
       if (data && data.fragmentId) {
         // Remove fragment from local state
@@ -445,25 +513,16 @@ export function useGameState(): UseGameStateReturn {
         }
       }
     };
-    (gameClient as any).on('fragment_collected', handleFragmentCollected);
-
-    // Listen for individual player updates (legacy fallback - world_state is primary)
-    // This handler is kept for backward compatibility but world_state is authoritative
-    const handlePlayerUpdate = (data: any) => {
-      // No-op: world_state handler is authoritative for all entities
-      // This is kept for potential direct player updates from server
-    };
-
-    (gameClient as any).on('player_update', handlePlayerUpdate);
+    gameClient.on('fragment_collected', handleFragmentCollected);
 
     // ═══════════════════════════════════════════════════════════════════════
     // INCOMING BROADCAST LISTENERS - Multiplayer Communication
     // ═══════════════════════════════════════════════════════════════════════
 
     // Listen for chat messages from other players
-    const handleChatMessage = (data: any) => {
+    const handleChatMessage = (data: ServerPayload<'chat_message'>) => {
       console.log(`🟡 [useGameState] handleChatMessage RECEIVED`, { data, myPlayerId: playerId });
-      if (!data || data.playerId === playerId) {
+      if (!data || isSelf(data.playerId)) {
         console.log(`🟡 [useGameState] handleChatMessage SKIPPED (self or no data)`);
         return;
       }
@@ -497,12 +556,12 @@ export function useGameState(): UseGameStateReturn {
         }, 5000);
       }
     };
-    (gameClient as any).on('chat_message', handleChatMessage);
+    gameClient.on('chat_message', handleChatMessage);
 
     // Listen for pulse events from other players
-    const handlePulse = (data: any) => {
+    const handlePulse = (data: ServerPayload<'pulse'>) => {
       console.log(`🟡 [useGameState] handlePulse RECEIVED`, { data, myPlayerId: playerId });
-      if (!data || data.playerId === playerId) {
+      if (!data || isSelf(data.playerId)) {
         console.log(`🟡 [useGameState] handlePulse SKIPPED (self or no data)`);
         return;
       }
@@ -552,17 +611,37 @@ export function useGameState(): UseGameStateReturn {
         setTimeout(() => { agent.isPulsing = false; }, 1000);
       }
     };
-    (gameClient as any).on('pulse', handlePulse);
+    gameClient.on('pulse', handlePulse);
+
+    // Bonds with real players: the server owns strength, tier and shared moments
+    const findBond = (targetId: string) => gameState.current.bonds.find(b => b.targetId === targetId) as Bond | undefined;
+    const handleBondUpdated = (data: ServerPayload<'bond_updated'>) => {
+      findBond(data.targetId)?.applyServerState(data);
+    };
+    const handleBondTierChanged = (data: ServerPayload<'bond_tier_changed'>) => {
+      findBond(data.targetId)?.applyServerState({ strength: data.strength, mode: data.newTier });
+    };
+    const handleBondMoment = (data: ServerPayload<'bond_moment'>) => {
+      findBond(data.targetId)?.recordServerMoment(data.moment);
+    };
+    gameClient.on('bond_updated', handleBondUpdated);
+    gameClient.on('bond_tier_changed', handleBondTierChanged);
+    gameClient.on('bond_moment', handleBondMoment);
 
     // Cleanup on unmount
     return () => {
-      (gameClient as any).off('world_state', handleWorldState);
-      (gameClient as any).off('fragment_spawned', handleFragmentSpawned);
-      (gameClient as any).off('fragment_removed', handleFragmentRemoved);
-      (gameClient as any).off('fragment_collected', handleFragmentCollected);
-      (gameClient as any).off('player_update', handlePlayerUpdate);
-      (gameClient as any).off('chat_message', handleChatMessage);
-      (gameClient as any).off('pulse', handlePulse);
+      gameClient.off('world_state', handleWorldState);
+      gameClient.off('initial_state', handleInitialState);
+      gameClient.off('position_correction', handlePositionCorrection);
+      gameClient.off('realm_denied', handleRealmDenied);
+      gameClient.off('fragment_spawned', handleFragmentSpawned);
+      gameClient.off('fragment_removed', handleFragmentRemoved);
+      gameClient.off('fragment_collected', handleFragmentCollected);
+      gameClient.off('chat_message', handleChatMessage);
+      gameClient.off('pulse', handlePulse);
+      gameClient.off('bond_updated', handleBondUpdated);
+      gameClient.off('bond_tier_changed', handleBondTierChanged);
+      gameClient.off('bond_moment', handleBondMoment);
     };
 
   }, [playerId]);
@@ -1081,6 +1160,7 @@ export function useGameState(): UseGameStateReturn {
     setTimeout(() => {
       const state = gameState.current;
       state.currentRealm = realmId;
+      gameClient.changeRealm(realmId as RealmId, state.playerX, state.playerY);
 
       // Clear entities that shouldn't persist
       // (Actually, our rendering loop filters them now, so we don't strictly need to clear, 
@@ -3,6 +3,7 @@ import { PowerUp, updatePowerUps, checkPowerUpCollection, PowerUpType } from '@/
 import { useGameStateContext } from '@/contexts/GameContext';
 import { useAudioContext } from '@/contexts/GameContext';
 import { gameClient } from '@/services/GameClient';
+import type { PowerUpCollectedPayload } from '../../server/common/protocol';
 
 export interface UsePowerUpsReturn {
     powerups: PowerUp[];
@@ -38,7 +39,7 @@ export function usePowerUps(): UsePowerUpsReturn {
             });
         };
 
-        const handleCollected = (data: { powerUpId: string, playerId: string }) => {
+        const handleCollected = (data: PowerUpCollectedPayload) => {
             if (!data?.powerUpId) return;
             setPowerups(prev => prev.filter(p => p.id !== data.powerUpId));
         };
@@ -76,7 +77,7 @@ export function usePowerUps(): UsePowerUpsReturn {
             setTick(t => t + 1);
         };
 
-        gameClient.on('connect', handleConnect);
+        gameClient.on('connected', handleConnect);
         gameClient.on('power_up_spawned', handleSpawn);
         gameClient.on('power_up_collected', handleCollected);
         gameClient.on('power_up_expired', handleExpired);
@@ -85,7 +86,7 @@ export function usePowerUps(): UsePowerUpsReturn {
         gameClient.on('power_up_effect_ended', handleEffectEnded);
 
         return () => {
-            gameClient.off('connect', handleConnect);
+            gameClient.off('connected', handleConnect);
             gameClient.off('power_up_spawned', handleSpawn);
             gameClient.off('power_up_collected', handleCollected);
             gameClient.off('power_up_expired', handleExpired);
@@ -5,7 +5,7 @@
 // ═══════════════════════════════════════════════════════════════════════════
 
 import { useState, useCallback, useEffect } from 'react';
-import { gameClient } from '../services/GameClient';
+import { gameClient, type RealmId } from '../services/GameClient';
 import { useUI } from '@/contexts/UIContext';
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -18,7 +18,7 @@ export interface ServerConstellation {
   description?: string;
   playerIds: string[];
   starMemoryIds: string[];
-  realmId: string;
+  realmId: RealmId;
   shape: Array<{ x: number; y: number }>;
   rarity: 'common' | 'rare' | 'epic' | 'legendary';
   rewardsDistributed: boolean;
@@ -40,7 +40,7 @@ export interface ConstellationStats {
 export interface PotentialConstellation {
   playerIds: string[];
   starMemoryIds: string[];
-  realmId: string;
+  realmId: RealmId;
   estimatedRarity: 'common' | 'rare' | 'epic' | 'legendary';
 }
 
@@ -60,13 +60,13 @@ export interface UseServerConstellationsReturn {
   formConstellation: (data: {
     playerIds: string[];
     starMemoryIds: string[];
-    realmId: string;
+    realmId: RealmId;
     name?: string;
     description?: string;
   }) => void;
   expandConstellation: (constellationId: string, newStarMemoryIds: string[]) => void;
   getPlayerConstellations: () => void;
-  getRealmConstellations: (realmId: string) => void;
+  getRealmConstellations: (realmId: RealmId) => void;
   checkPotentialConstellations: () => void;
   refreshStats: () => void;
 }
@@ -193,7 +193,7 @@ export function useServerConstellations(): UseServerConstellationsReturn {
   const formConstellation = useCallback((data: {
     playerIds: string[];
     starMemoryIds: string[];
-    realmId: string;
+    realmId: RealmId;
     name?: string;
     description?: string;
   }) => {
@@ -205,7 +205,7 @@ export function useServerConstellations(): UseServerConstellationsReturn {
     gameClient.getPlayerConstellations();
   }, []);
 
-  const getRealmConstellations = useCallback((realmId: string) => {
+  const getRealmConstellations = useCallback((realmId: RealmId) => {
     setLoading(true);
     gameClient.getRealmConstellations(realmId);
   }, []);
@@ -152,21 +152,9 @@ export function useServerProgression(): UseServerProgressionReturn {
             if (data.feed) setActivityFeed(data.feed);
         };
 
-        const handleProgressionUpdate = (data: any) => {
-            setProgression(data);
-        };
-
-        const handleChallengesUpdate = (data: any) => {
-            if (data.dailyChallenges) setDailyChallenges(data.dailyChallenges);
-            if (data.weeklyChallenges) setWeeklyChallenges(data.weeklyChallenges);
-        };
-
-        const handleDailyRewardResult = (data: any) => {
-            if (data.success && data.progression) {
-                setProgression(data.progression);
-            } else if (data.error) {
-                setError(data.error);
-            }
+        const handleDailyRewardClaimed = (data: any) => {
+            // The result only carries the reward; refetch the updated totals
+            if (data.success) gameClient.requestProgression();
         };
 
         const handleGiftReceived = (data: any) => {
@@ -174,8 +162,8 @@ export function useServerProgression(): UseServerProgressionReturn {
             gameClient.requestProgression(); // Refresh all data
         };
 
-        const handleGiftsUpdate = (data: any) => {
-            if (data.pendingGifts) setPendingGifts(data.pendingGifts);
+        const handlePendingGifts = (data: any) => {
+            if (data.gifts) setPendingGifts(data.gifts);
         };
 
         const handleGuildCreated = (data: any) => {
@@ -193,43 +181,33 @@ export function useServerProgression(): UseServerProgressionReturn {
             guildIdRef.current = null;
         };
 
-        const handleGuildsList = (data: any) => {
-            setAvailableGuilds(data);
-        };
-
-        const handleGuildError = (data: any) => {
-            setError(data.error);
+        const handleGuildList = (data: any) => {
+            setAvailableGuilds(data.guilds || []);
         };
 
         // Subscribe to events
         gameClient.on('connected', handleConnected);
         gameClient.on('disconnected', handleDisconnected);
         gameClient.on('progression_data', handleProgressionData);
-        gameClient.on('progression_update', handleProgressionUpdate);
-        gameClient.on('challenges_update', handleChallengesUpdate);
-        gameClient.on('daily_reward_result', handleDailyRewardResult);
+        gameClient.on('daily_reward_claimed', handleDailyRewardClaimed);
         gameClient.on('gift_received', handleGiftReceived);
-        gameClient.on('gifts_update', handleGiftsUpdate);
+        gameClient.on('pending_gifts', handlePendingGifts);
         gameClient.on('guild_created', handleGuildCreated);
         gameClient.on('guild_joined', handleGuildJoined);
         gameClient.on('guild_left', handleGuildLeft);
-        gameClient.on('guilds_list', handleGuildsList);
-        gameClient.on('guild_error', handleGuildError);
+        gameClient.on('guild_list', handleGuildList);
 
         return () => {
             gameClient.off('connected', handleConnected);
             gameClient.off('disconnected', handleDisconnected);
             gameClient.off('progression_data', handleProgressionData);
-            gameClient.off('progression_update', handleProgressionUpdate);
-            gameClient.off('challenges_update', handleChallengesUpdate);
-            gameClient.off('daily_reward_result', handleDailyRewardResult);
+            gameClient.off('daily_reward_claimed', handleDailyRewardClaimed);
             gameClient.off('gift_received', handleGiftReceived);
-            gameClient.off('gifts_update', handleGiftsUpdate);
+            gameClient.off('pending_gifts', handlePendingGifts);
             gameClient.off('guild_created', handleGuildCreated);
             gameClient.off('guild_joined', handleGuildJoined);
             gameClient.off('guild_left', handleGuildLeft);
-            gameClient.off('guilds_list', handleGuildsList);
-            gameClient.off('guild_error', handleGuildError);
+            gameClient.off('guild_list', handleGuildList);
         };
     }, []);
 
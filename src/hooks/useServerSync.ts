@@ -62,7 +62,7 @@ export interface UseServerSyncReturn {
 
     // Cosmetics
     updateCosmetics: (cosmetics: Partial<PlayerCosmetics>) => void;
-    purchaseCosmetic: (id: string, price: number) => void;
+    purchaseCosmetic: (id: string) => void;
 
     // Companions
     updateCompanions: (companions: Partial<PlayerCompanions>) => void;
@@ -178,8 +178,13 @@ export function useServerSync(playerId: string): UseServerSyncReturn {
             setSynced(true);
         };
 
-        const handleSyncData = () => {
+        const handleSyncData = (result?: { rejected?: { field: string; reason: string }[] }) => {
             setSynced(true);
+            if (result?.rejected?.length) {
+                // Server-owned or invalid fields were dropped: reload the authoritative copy
+                console.warn('Player data sync rejected fields:', result.rejected.map(r => r.field));
+                gameClient.requestPlayerData();
+            }
         };
 
         const handleProgressionData = (data: any) => {
@@ -212,7 +217,18 @@ export function useServerSync(playerId: string): UseServerSyncReturn {
             if (data.weeklyChallenges) setWeeklyChallenges(data.weeklyChallenges);
         };
 
-        const handleDailyLoginResult = (result: DailyLoginResult) => {
+        const handleDailyLoginResult = (data: any) => {
+            // The server reports one reward plus its streak bonus
+            const reward = data.reward || {};
+            const total = (reward.amount || 0) + (data.bonusAmount || 0);
+            const result: DailyLoginResult = {
+                isNewDay: !!data.isNewDay,
+                streak: data.currentStreak || 0,
+                rewards: {
+                    stardust: reward.type === 'stardust' ? total : 0,
+                    xp: reward.type === 'xp' ? total : 0
+                }
+            };
             setLastDailyLoginResult(result);
             if (result.isNewDay) {
                 // Update local state with new values
@@ -226,26 +242,24 @@ export function useServerSync(playerId: string): UseServerSyncReturn {
         };
 
         // Subscribe to events
-        gameClient.on('connect', handleConnect);
-        gameClient.on('disconnect', handleDisconnect);
+        gameClient.on('connected', handleConnect);
+        gameClient.on('disconnected', handleDisconnect);
         gameClient.on('player_data', handlePlayerData);
-        gameClient.on('sync_player_data', handleSyncData);
+        gameClient.on('player_data_synced', handleSyncData);
         gameClient.on('progression_data', handleProgressionData);
-        gameClient.on('challenges_update', handleChallengesUpdate);
         gameClient.on('challenge_reward_claimed', handleChallengeRewardClaimed);
         gameClient.on('challenge_rerolled', handleChallengesUpdate); // Reroll sends challenge_rerolled but might also trigger requests
-        gameClient.on('daily_login_result', handleDailyLoginResult);
+        gameClient.on('daily:loginResult', handleDailyLoginResult);
 
         return () => {
-            gameClient.off('connect', handleConnect);
-            gameClient.off('disconnect', handleDisconnect);
+            gameClient.off('connected', handleConnect);
+            gameClient.off('disconnected', handleDisconnect);
             gameClient.off('player_data', handlePlayerData);
-            gameClient.off('sync_player_data', handleSyncData);
+            gameClient.off('player_data_synced', handleSyncData);
             gameClient.off('progression_data', handleProgressionData);
-            gameClient.off('challenges_update', handleChallengesUpdate);
             gameClient.off('challenge_reward_claimed', handleChallengeRewardClaimed);
             gameClient.off('challenge_rerolled', handleChallengesUpdate);
-            gameClient.off('daily_login_result', handleDailyLoginResult);
+            gameClient.off('daily:loginResult', handleDailyLoginResult);
 
             // Flush any pending syncs
             if (syncTimeoutRef.current) {
@@ -265,9 +279,9 @@ export function useServerSync(playerId: string): UseServerSyncReturn {
     }, []);
 
     const addXp = useCallback((amount: number) => {
+        // Local preview only: XP is server-owned and arrives via progression updates
         setPlayerData(prev => prev ? { ...prev, xp: prev.xp + amount } : null);
-        queueSync({ xp: (playerData?.xp || 0) + amount });
-    }, [playerData?.xp, queueSync]);
+    }, []);
 
     const addStardust = useCallback((amount: number) => {
         setPlayerData(prev => prev ? {
@@ -275,16 +289,11 @@ export function useServerSync(playerId: string): UseServerSyncReturn {
             stardust: prev.stardust + amount,
             lifetimeStardust: prev.lifetimeStardust + Math.max(0, amount)
         } : null);
-        queueSync({
-            stardust: (playerData?.stardust || 0) + amount,
-            lifetimeStardust: (playerData?.lifetimeStardust || 0) + Math.max(0, amount)
-        });
-    }, [playerData?.stardust, playerData?.lifetimeStardust, queueSync]);
+    }, []);
 
     const setLevel = useCallback((level: number) => {
         setPlayerData(prev => prev ? { ...prev, level } : null);
-        queueSync({ level });
-    }, [queueSync]);
+    }, []);
 
     const updateSettings = useCallback((settings: Partial<PlayerSettings>) => {
         setPlayerData(prev => prev ? {
@@ -302,8 +311,8 @@ export function useServerSync(playerId: string): UseServerSyncReturn {
         gameClient.updateCosmetics(cosmetics);
     }, []);
 
-    const purchaseCosmetic = useCallback((id: string, price: number) => {
-        gameClient.purchaseCosmetic(id, price);
+    const purchaseCosmetic = useCallback((id: string) => {
+        gameClient.purchaseCosmetic(id);
     }, []);
 
     const updateCompanions = useCallback((companions: Partial<PlayerCompanions>) => {
@@ -311,8 +320,11 @@ export function useServerSync(playerId: string): UseServerSyncReturn {
             ...prev,
             companions: { ...prev.companions, ...companions }
         } : null);
-        queueSync({ companions: { ...playerData?.companions, ...companions } });
-    }, [playerData?.companions, queueSync]);
+        // Only the active companion is client-owned
+        if (companions.activeId !== undefined) {
+            queueSync({ companions: { activeId: companions.activeId } });
+        }
+    }, [queueSync]);
 
     const updateExploration = useCallback((exploration: Partial<PlayerExploration>) => {
         setPlayerData(prev => prev ? {
@@ -327,6 +339,7 @@ export function useServerSync(playerId: string): UseServerSyncReturn {
     }, []);
 
     const updateQuestProgress = useCallback((questId: string, progress: number) => {
+        // Local view only; the server tracks quest progress itself
         setPlayerData(prev => prev ? {
             ...prev,
             quests: {
@@ -334,7 +347,6 @@ export function useServerSync(playerId: string): UseServerSyncReturn {
                 questProgress: { ...prev.quests.questProgress, [questId]: progress }
             }
         } : null);
-        gameClient.updateQuest({ questId, progress });
     }, []);
 
     const completeQuest = useCallback((questId: string) => {
@@ -350,7 +362,6 @@ export function useServerSync(playerId: string): UseServerSyncReturn {
                 questsCompleted: prev.stats.questsCompleted + 1
             }
         } : null);
-        gameClient.updateQuest({ questId, complete: true });
     }, []);
 
     const trackStat = useCallback((stat: keyof PlayerStats, amount: number = 1) => {
@@ -394,7 +405,6 @@ export function useServerSync(playerId: string): UseServerSyncReturn {
         } : null);
         queueSync({
             anchoring: {
-                ...playerData?.anchoring,
                 breathingCompleted: (playerData?.anchoring.breathingCompleted || 0) + 1,
                 lastAnchorDate: new Date().toISOString().split('T')[0]
             }
@@ -406,8 +416,8 @@ export function useServerSync(playerId: string): UseServerSyncReturn {
             ...prev,
             gameState: { ...prev.gameState, ...state }
         } : null);
-        queueSync({ gameState: { ...playerData?.gameState, ...state } });
-    }, [playerData?.gameState, queueSync]);
+        queueSync({ gameState: state });
+    }, [queueSync]);
 
     const addBond = useCallback((targetId: string, strength: number, type: string) => {
         const newBond = { targetId, strength, type };
@@ -426,13 +436,8 @@ export function useServerSync(playerId: string): UseServerSyncReturn {
                 }
             };
         });
-        queueSync({
-            gameState: {
-                ...playerData?.gameState,
-                bonds: [...(playerData?.gameState.bonds.filter(b => b.targetId !== targetId) || []), newBond]
-            }
-        });
-    }, [playerData?.gameState, queueSync]);
+        // Bonds are recorded by the server when they form
+    }, []);
 
     const addStarMemory = useCallback((starId: string, memory: string) => {
         const newMemory = { starId, memory, timestamp: Date.now() };
@@ -443,13 +448,8 @@ export function useServerSync(playerId: string): UseServerSyncReturn {
                 starMemories: [...prev.gameState.starMemories.slice(-49), newMemory]
             }
         } : null);
-        queueSync({
-            gameState: {
-                ...playerData?.gameState,
-                starMemories: [...(playerData?.gameState.starMemories.slice(-49) || []), newMemory]
-            }
-        });
-    }, [playerData?.gameState, queueSync]);
+        // Star memories are recorded by the server when a bond is sealed
+    }, []);
 
     const claimChallengeReward = useCallback((challengeId: string) => {
         gameClient.claimChallengeReward(challengeId);
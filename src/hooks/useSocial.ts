@@ -672,8 +672,6 @@ export function useSocial(): UseSocialReturn {
             else if (type === 'bond') newProgress.bondsFormed += amount;
             return { ...prev, eventProgress: newProgress };
         });
-        // Sync progress to server
-        gameClient.updateEventProgress(type, amount);
     }, []);
 
     const getEventTimeRemaining = useCallback(() => {
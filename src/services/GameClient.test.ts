@@ -0,0 +1,91 @@
+// ═══════════════════════════════════════════════════════════════════════════
+// AVESTELLA - GameClient Session Unit Tests
+// ═══════════════════════════════════════════════════════════════════════════
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { GameClient } from './GameClient';
+import { loadFromStorage, saveToStorage, STORAGE_KEYS } from '../utils/storage';
+
+// Sockets never open: the tests only follow the REST session exchange
+class IdleWebSocket {
+  static OPEN = 1;
+  readyState = 0;
+  binaryType = 'blob';
+  onopen: (() => void) | null = null;
+  onclose: (() => void) | null = null;
+  onmessage: ((event: unknown) => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+  constructor(public url: string) {}
+  send() {}
+  close() {}
+}
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+const SESSION = { token: 'tok', expiresAt: Date.now() + 60 * 60 * 1000 };
+
+describe('GameClient sessions', () => {
+  let client: GameClient;
+  let sessionBodies: Array<{ playerId?: string; secret?: string }>;
+
+  function answerSessions(...answers: Response[]) {
+    vi.stubGlobal('fetch', vi.fn(async (url: string, init?: RequestInit) => {
+      if (!url.endsWith('/auth/session')) return jsonResponse(404, {});
+      sessionBodies.push(JSON.parse(String(init?.body)));
+      return answers.shift()!;
+    }));
+  }
+
+  function nextSession(): Promise<{ playerId: string; guest: boolean }> {
+    return new Promise(resolve => {
+      const handler = (data: { playerId: string; guest: boolean }) => {
+        client.off('session_updated', handler);
+        resolve(data);
+      };
+      client.on('session_updated', handler);
+    });
+  }
+
+  beforeEach(() => {
+    localStorage.clear();
+    sessionBodies = [];
+    vi.stubGlobal('WebSocket', IdleWebSocket);
+    client = new GameClient();
+  });
+
+  afterEach(() => {
+    client.disconnect();
+    vi.unstubAllGlobals();
+  });
+
+  it('redeems a legacy secret and keeps the secret it is exchanged for', async () => {
+    saveToStorage(STORAGE_KEYS.SESSION_SECRET, { playerId: 'player_old', secret: 'stale' });
+    answerSessions(jsonResponse(200, { ...SESSION, playerId: 'player_old', guest: false, secret: 'fresh' }));
+
+    const session = nextSession();
+    client.connect('player_old', 'genesis', { legacySecret: 'legacy' });
+
+    expect(await session).toEqual({ playerId: 'player_old', guest: false });
+    expect(sessionBodies).toEqual([{ playerId: 'player_old', secret: 'legacy' }]);
+    expect(loadFromStorage(STORAGE_KEYS.SESSION_SECRET, null)).toEqual({ playerId: 'player_old', secret: 'fresh' });
+  });
+
+  it('tells the player when a legacy secret is refused before continuing as a guest', async () => {
+    answerSessions(
+      jsonResponse(401, { success: false, error: 'Invalid credentials' }),
+      jsonResponse(200, { ...SESSION, playerId: 'guest_1', guest: true })
+    );
+    const refused = vi.fn();
+    client.on('session_refused', refused);
+
+    const session = nextSession();
+    client.connect('player_old', 'genesis', { legacySecret: 'used' });
+
+    expect(await session).toEqual({ playerId: 'guest_1', guest: true });
+    expect(refused).toHaveBeenCalledWith({ playerId: 'player_old', legacy: true });
+    expect(sessionBodies).toEqual([{ playerId: 'player_old', secret: 'used' }, {}]);
+    expect(loadFromStorage(STORAGE_KEYS.SESSION_SECRET, null)).toBeNull();
+  });
+});
@@ -1,25 +1,99 @@
 import { EventEmitter } from './EventEmitter';
+import { WorldStateReplica, type WorldDeltaData } from './WorldStateReplica';
+import { Netcode, type NetworkStats } from './Netcode';
+import { BINARY_MESSAGE_TYPES, encodeBinaryMessage, decodeBinaryMessage, type WireCodec } from '../../server/common/protocol/BinaryCodec';
+import { loadFromStorage, saveToStorage, STORAGE_KEYS } from '../utils/storage';
+import type { RealmId } from '../constants/realms';
+import type { ClientMessageType, ClientPayload, ServerMessageType, ServerPayload } from '../../server/common/protocol';
+import type { WorldStateData } from './WorldStateReplica';
+
+export type { RealmId };
+
+/**
+ * Events the client raises itself, next to the server's messages
+ */
+interface LocalEvents {
+    connected: void;
+    disconnected: void;
+    session_updated: { playerId: string; guest: boolean };
+    session_refused: { playerId: string; legacy: boolean };   // Identity not verified (HTTP 401)
+    latency_update: { latency: number };
+    nearby_count_update: { count: number };
+    network_stats: NetworkStats;
+    world_state: WorldStateData;    // Rebuilt from world_delta
+}
+
+export type GameClientEvent = ServerMessageType | keyof LocalEvents;
 
-export type RealmId = 'genesis' | 'nebula' | 'void' | 'starforge' | 'sanctuary' | 'abyss' | 'crystal' | 'celestial' | 'tagarena';
+export type GameClientEventData<E extends GameClientEvent> =
+    E extends keyof LocalEvents ? LocalEvents[E] :
+    E extends ServerMessageType ? ServerPayload<E> :
+    never;
 
 interface WebSocketMessage {
     type: string;
     data: any;
     timestamp: number;
+    seq?: number;       // Reliable messages only - replayed after a reconnect
+}
+
+interface SessionInfo {
+    token: string;
+    playerId: string;
+    guest: boolean;
+    expiresAt: number;
+}
+
+interface ReattachInfo {
+    token: string;
+    graceMs: number;
+}
+
+interface StoredSessionSecret {
+    playerId: string;
+    secret: string;
+}
+
+export interface ConnectOptions {
+    legacySecret?: string;      // One-time secret issued to a player from before credentials
 }
 
-interface PlayerUpdate {
-    id: string;
-    name: string;
-    x: number;
-    y: number;
-    hue: number;
-    xp: number;
-    realm: RealmId;
-    // ... add other fields as needed
+export interface LegacyClaim {
+    playerId: string;
+    secret: string;
 }
 
-class GameClient extends EventEmitter {
+let legacyClaim: LegacyClaim | null | undefined;
+
+/**
+ * The legacy claim link the page was opened with (`?player=<id>&claim=<secret>`).
+ * Read once, then removed from the address bar so it is neither bookmarked
+ * nor shared along with the page.
+ */
+export function readLegacyClaimFromUrl(): LegacyClaim | null {
+    if (legacyClaim !== undefined) return legacyClaim;
+    if (typeof window === 'undefined') return null;
+
+    const url = new URL(window.location.href);
+    const playerId = url.searchParams.get('player');
+    const secret = url.searchParams.get('claim');
+    legacyClaim = playerId && secret ? { playerId, secret } : null;
+
+    if (legacyClaim) {
+        url.searchParams.delete('player');
+        url.searchParams.delete('claim');
+        window.history.replaceState(window.history.state, '', url.toString());
+    }
+    return legacyClaim;
+}
+
+// Refresh the session token this long before it expires
+const SESSION_REFRESH_MARGIN = 60 * 1000;
+
+// How often network_stats is emitted while snapshots arrive
+const NETWORK_STATS_INTERVAL = 1000;
+
+export class GameClient extends EventEmitter {
     private ws: WebSocket | null = null;
     private isConnecting: boolean = false;
     private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
@@ -27,19 +101,46 @@ class GameClient extends EventEmitter {
     private playerId: string = '';
     private realm: RealmId = 'genesis';
     private url: string = 'ws://localhost:3001/ws'; // Default to local dev
+    private homeUrl: string = this.url;             // Where realms without their own shard live
+    private apiUrl: string = 'http://localhost:3001/api';
+
+    // Session token presented on the WebSocket upgrade
+    private requestedPlayerId: string = '';
+    private session: SessionInfo | null = null;
+    private legacySecret: string | null = null;     // Sent once in place of the stored secret
+    private sessionRefreshTimer: ReturnType<typeof setTimeout> | null = null;
+    private resumeToken: string | null = null;      // Position to resume after a server restart
+    private reattach: ReattachInfo | null = null;   // Pick up the same connection after a drop
+    private droppedAt: number | null = null;
+    private lastReliableSeq: number = 0;
+    private nextReconnectDelay: number | null = null;
 
     // Network stats tracking
     private _latency: number = 0;
     private _nearbyPlayerCount: number = 0;
     private lastPingTime: number = 0;
 
+    // Rebuilds world_state from interest-filtered server deltas
+    private worldReplica = new WorldStateReplica();
+    private awaitingKeyframe: boolean = false;
+
+    // Snapshot interpolation for remote entities, input replay for ourselves
+    public readonly netcode = new Netcode();
+    private lastStatsAt: number = 0;
+
+    // Wire encoding: binary for hot messages once the server confirms it
+    private binaryEnabled: boolean = true;          // Turned off if a binary frame ever fails to decode
+    private codec: WireCodec = 'json';
+
     constructor() {
         super();
         // Detect production vs dev
         if (window.location.hostname !== 'localhost' && window.location.hostname !== '127.0.0.1') {
             // Production URL - always use avestella.com
             this.url = `wss://avestella.com/ws`;
+            this.apiUrl = `https://avestella.com/api`;
         }
+        this.homeUrl = this.url;
     }
 
     /**
@@ -49,6 +150,13 @@ class GameClient extends EventEmitter {
         return this._latency;
     }
 
+    /**
+     * Get latency, jitter and interpolation stats
+     */
+    public getNetworkStats(): NetworkStats {
+        return this.netcode.getStats();
+    }
+
     /**
      * Get current nearby player count
      */
@@ -63,6 +171,13 @@ class GameClient extends EventEmitter {
         return this.playerId;
     }
 
+    /**
+     * Whether this session runs under a throwaway guest identity
+     */
+    public isGuest(): boolean {
+        return this.session?.guest ?? false;
+    }
+
     /**
      * Get the current realm
      */
@@ -70,25 +185,57 @@ class GameClient extends EventEmitter {
         return this.realm;
     }
 
-    public connect(playerId: string, realm: RealmId) {
+    public connect(playerId: string, realm: RealmId, options: ConnectOptions = {}) {
         if (this.ws?.readyState === WebSocket.OPEN) return;
         if (this.isConnecting) return;
 
-        this.playerId = playerId;
+        if (options.legacySecret) this.legacySecret = options.legacySecret;
+        this.requestedPlayerId = playerId;
         this.realm = realm;
         this.isConnecting = true;
+        this.worldReplica.reset();
+        this.netcode.reset();
+
+        this.obtainSession()
+            .then(async session => {
+                await this.resolveRealmUrl();
+                this.openSocket(session);
+            })
+            .catch(e => {
+                console.error('Failed to start session', e);
+                this.isConnecting = false;
+                this.attemptReconnect();
+            });
+    }
+
+    private openSocket(session: SessionInfo) {
+        this.playerId = session.playerId;
+        let opened = false;
 
         try {
-            this.ws = new WebSocket(`${this.url}?playerId=${playerId}&realm=${realm}`);
+            const resume = this.resumeToken ? `&resume=${encodeURIComponent(this.resumeToken)}` : '';
+            const reattach = this.canReattach()
+                ? `&reattach=${encodeURIComponent(this.reattach!.token)}&lastSeq=${this.lastReliableSeq}`
+                : '';
+            const codec = this.binaryEnabled ? '&codec=binary' : '';
+            this.codec = 'json';
+            this.ws = new WebSocket(`${this.url}?token=${encodeURIComponent(session.token)}&realm=${this.realm}${resume}${reattach}${codec}`);
+            this.ws.binaryType = 'arraybuffer';
 
             this.ws.onopen = () => {
                 console.log('🔌 Connected to Game Server');
+                opened = true;
                 this.isConnecting = false;
                 this.startHeartbeat();
+                this.scheduleSessionRefresh();
                 this.emit('connected');
             };
 
             this.ws.onmessage = (event) => {
+                if (typeof event.data !== 'string') {
+                    this.handleBinaryFrame(event.data as ArrayBuffer);
+                    return;
+                }
                 try {
                     const msg = JSON.parse(event.data) as WebSocketMessage;
                     this.handleMessage(msg);
@@ -99,8 +246,16 @@ class GameClient extends EventEmitter {
 
             this.ws.onclose = () => {
                 console.log('🔌 Disconnected from Game Server');
+                if (!opened) {
+                    // Upgrade rejected (e.g. token expired or server restarted with a new secret)
+                    this.session = null;
+                } else if (this.droppedAt === null) {
+                    // The server holds our connection for a while - come back to it
+                    this.droppedAt = Date.now();
+                }
                 this.isConnecting = false;
                 this.stopHeartbeat();
+                this.stopSessionRefresh();
                 this.emit('disconnected');
                 this.attemptReconnect();
             };
@@ -117,8 +272,133 @@ class GameClient extends EventEmitter {
         }
     }
 
+    /**
+     * Point the socket at the server hosting the current realm. Realms can
+     * be sharded across servers; keep the current URL if routing is down.
+     */
+    private async resolveRealmUrl(): Promise<void> {
+        try {
+            const response = await fetch(`${this.apiUrl}/realms/${encodeURIComponent(this.realm)}/shard`);
+            if (!response.ok) return;
+            const data = await response.json();
+            this.url = data.url || this.homeUrl;
+        } catch (e) {
+            console.warn('Failed to resolve realm server, using', this.url, e);
+        }
+    }
+
+    /**
+     * The server moved us to a realm hosted elsewhere: reconnect there right
+     * away with the token it issued (our state was sent ahead)
+     */
+    private handleRealmHandoff(data: { realm: RealmId; url: string | null; session: SessionInfo }) {
+        console.log(`🧩 Realm ${data.realm} is hosted elsewhere - reconnecting`);
+        this.setSession(data.session);
+        this.realm = data.realm;
+        this.url = data.url || this.homeUrl;
+
+        // Drop the old socket without triggering the reconnect loop
+        const oldWs = this.ws;
+        if (oldWs) {
+            oldWs.onclose = null;
+            oldWs.onmessage = null;
+            oldWs.close();
+        }
+        this.stopHeartbeat();
+        this.stopSessionRefresh();
+        this.worldReplica.reset();
+        this.reattach = null;
+        this.isConnecting = true;
+        this.openSocket(this.session!);
+    }
+
+    /**
+     * Reuse the current session token or request a new one. A pending legacy
+     * secret is presented instead of the stored one and exchanged for a new
+     * secret. Falls back to a guest identity, raising session_refused, when
+     * the server does not accept the identity.
+     */
+    private async obtainSession(): Promise<SessionInfo> {
+        if (this.session && this.session.expiresAt - Date.now() > SESSION_REFRESH_MARGIN) {
+            return this.session;
+        }
+
+        // Guests cannot re-authenticate their old id - they get a new one - but can redeem a legacy secret
+        if (!this.session?.guest || this.legacySecret) {
+            const stored = loadFromStorage<StoredSessionSecret | null>(STORAGE_KEYS.SESSION_SECRET, null);
+            const legacy = this.legacySecret !== null;
+            const secret = this.legacySecret ?? (stored?.playerId === this.requestedPlayerId ? stored.secret : undefined);
+
+            const response = await fetch(`${this.apiUrl}/auth/session`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ playerId: this.requestedPlayerId, secret })
+            });
+
+            if (response.ok || response.status === 401) {
+                // Answered either way: the legacy secret is spent or was not accepted
+                this.legacySecret = null;
+            }
+
+            if (response.ok) {
+                const data = await response.json();
+                if (data.secret) {
+                    saveToStorage<StoredSessionSecret>(STORAGE_KEYS.SESSION_SECRET, { playerId: data.playerId, secret: data.secret });
+                }
+                return this.setSession(data);
+            }
+
+            if (response.status !== 401) {
+                throw new Error(`Session request failed: ${response.status}`);
+            }
+            console.warn('🔐 Player identity could not be verified - continuing as guest');
+            this.emit('session_refused', { playerId: this.requestedPlayerId, legacy });
+        }
+
+        const response = await fetch(`${this.apiUrl}/auth/session`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({})
+        });
+        if (!response.ok) {
+            throw new Error(`Guest session request failed: ${response.status}`);
+        }
+        return this.setSession(await response.json());
+    }
+
+    private setSession(data: SessionInfo): SessionInfo {
+        this.session = {
+            token: data.token,
+            playerId: data.playerId,
+            guest: data.guest,
+            expiresAt: data.expiresAt
+        };
+        this.emit('session_updated', { playerId: data.playerId, guest: data.guest });
+        return this.session;
+    }
+
+    /**
+     * Ask the server for a fresh token shortly before the current one expires
+     */
+    private scheduleSessionRefresh() {
+        this.stopSessionRefresh();
+        if (!this.session) return;
+
+        const delay = Math.max(0, this.session.expiresAt - Date.now() - SESSION_REFRESH_MARGIN);
+        this.sessionRefreshTimer = setTimeout(() => {
+            this.send('refresh_session', {});
+        }, delay);
+    }
+
+    private stopSessionRefresh() {
+        if (this.sessionRefreshTimer) clearTimeout(this.sessionRefreshTimer);
+        this.sessionRefreshTimer = null;
+    }
+
     public disconnect() {
+        this.reattach = null;
         this.stopHeartbeat();
+        this.stopSessionRefresh();
         if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
         this.ws?.close();
         this.ws = null;
@@ -128,11 +408,28 @@ class GameClient extends EventEmitter {
         return this.ws?.readyState === WebSocket.OPEN;
     }
 
-    public sendPlayerUpdate(data: Partial<PlayerUpdate>) {
+    public sendPlayerUpdate(data: Omit<ClientPayload<'player_update'>, 'seq'>) {
+        // Numbered so a position_correction tells us which inputs to replay
+        const seq = this.isConnected() ? this.netcode.recordInput(data.x, data.y) : undefined;
         this.send('player_update', {
             ...data,
-            id: this.playerId,
-            realm: this.realm
+            realm: this.realm,
+            seq
+        });
+    }
+
+    /**
+     * Move to another realm. The server either switches us in place or
+     * answers with realm_handoff when the realm lives on another server.
+     */
+    public changeRealm(realm: RealmId, x: number, y: number) {
+        if (realm === this.realm) return;
+        this.realm = realm;
+        this.send('player_update', {
+            x,
+            y,
+            realm,
+            realmChange: true
         });
     }
 
@@ -140,11 +437,7 @@ class GameClient extends EventEmitter {
      * Request to collect a fragment (server validates and confirms)
      */
     public collectFragment(fragmentId: string) {
-        this.send('collect_fragment', {
-            fragmentId,
-            playerId: this.playerId,
-            realm: this.realm
-        });
+        this.send('collect_fragment', { fragmentId });
     }
 
     public sendAction(type: 'sing' | 'pulse' | 'emote', data: any) {
@@ -158,11 +451,7 @@ class GameClient extends EventEmitter {
 
     public sendChat(text: string) {
         console.log(`🔵 [GameClient] sendChat text="${text}"`, { playerId: this.playerId, realm: this.realm });
-        this.send('chat', {
-            message: text,
-            playerId: this.playerId,
-            realm: this.realm
-        });
+        this.send('chat', { message: text });
     }
 
     public lightBeacon(beaconId: string) {
@@ -259,17 +548,13 @@ class GameClient extends EventEmitter {
     /**
      * Send a guild action (create, claim_gift, get_gifts, etc.)
      */
-    public sendGuildAction(action: string, data: Record<string, any> = {}) {
+    public sendGuildAction(
+        action: ClientPayload<'guild_action'>['action'],
+        data: Omit<ClientPayload<'guild_action'>, 'action'> = {}
+    ) {
         this.send('guild_action', { action, ...data });
     }
 
-    /**
-     * Update event progress
-     */
-    public updateEventProgress(type: 'fragment' | 'beacon' | 'bond', amount: number = 1) {
-        this.send('update_event_progress', { type, amount });
-    }
-
     // ═══════════════════════════════════════════════════════════════════════════
     // PLAYER DATA SYNC METHODS
     // ═══════════════════════════════════════════════════════════════════════════
@@ -299,11 +584,12 @@ class GameClient extends EventEmitter {
      * Update player cosmetics
      */
     public updateCosmetics(cosmetics: any) {
-        this.send('update_cosmetics', cosmetics);
+        this.send('sync_player_data', { cosmetics });
     }
 
-    public purchaseCosmetic(id: string, price: number) {
-        this.send('purchase_cosmetic', { id, price });
+    public purchaseCosmetic(id: string) {
+        // The server charges its own catalog price
+        this.send('purchase_cosmetic', { id });
     }
 
 
@@ -315,13 +601,6 @@ class GameClient extends EventEmitter {
         this.send('update_exploration', exploration);
     }
 
-    /**
-     * Update quest progress
-     */
-    public updateQuest(questData: any) {
-        this.send('update_quest', questData);
-    }
-
     /**
      * Track a stat increment
      */
@@ -340,13 +619,13 @@ class GameClient extends EventEmitter {
      * Process daily login
      */
     public processDailyLogin() {
-        this.send('daily_login', {});
+        this.send('daily:login', {});
     }
 
     /**
      * Generic send method (public for custom messages)
      */
-    public sendMessage(type: string, data: any) {
+    public sendMessage<T extends ClientMessageType>(type: T, data: ClientPayload<T>) {
         this.send(type, data);
     }
 
@@ -357,7 +636,7 @@ class GameClient extends EventEmitter {
     /**
      * Send a WebRTC signaling message
      */
-    public sendVoiceSignal(targetId: string, signalType: string, signalData: any) {
+    public sendVoiceSignal(targetId: string, signalType: ClientPayload<'voice_signal'>['signalType'], signalData: any) {
         this.send('voice_signal', {
             targetId,
             signalType,
@@ -381,17 +660,17 @@ class GameClient extends EventEmitter {
     }
 
     public equipCompanion(companionId: string | null) {
-        this.send('equip_companion', { companionId });
+        if (companionId === null) {
+            this.send('unequip_companion', {});
+        } else {
+            this.send('equip_companion', { companionId });
+        }
     }
 
     public requestCompanionData() {
         this.send('request_companion_data', {});
     }
 
-    public claimConstellationReward(constellationId: string) {
-        this.send('claim_constellation_reward', { constellationId });
-    }
-
     // ═══════════════════════════════════════════════════════════════════════════
     // PET SYSTEM METHODS
     // ═══════════════════════════════════════════════════════════════════════════
@@ -452,7 +731,7 @@ class GameClient extends EventEmitter {
      * Add a friend (Bidirectional, immediate)
      */
     public addFriend(friendId: string, friendName: string) {
-        this.send('add_friend', { friendId, friendName });
+        this.send('friend:add', { friendId, friendName });
     }
 
     /**
@@ -476,6 +755,17 @@ class GameClient extends EventEmitter {
         this.send('whisper', { targetId, text });
     }
 
+    /**
+     * Report a player to the moderators (server captures recent chat as context)
+     */
+    public reportPlayer(
+        targetId: string,
+        reason: 'harassment' | 'spam' | 'offensive_language' | 'cheating' | 'inappropriate_name' | 'other',
+        details?: string
+    ) {
+        this.send('report_player', { targetId, reason, details });
+    }
+
     // ═══════════════════════════════════════════════════════════════════════════
     // SNAPSHOT SYSTEM METHODS
     // ═══════════════════════════════════════════════════════════════════════════
@@ -501,15 +791,15 @@ class GameClient extends EventEmitter {
     /**
      * Create/strengthen bond interaction with another player
      */
-    public createBondInteraction(targetId: string, interactionType: 'proximity' | 'chat' | 'gift' | 'pulse' | 'constellation') {
-        this.send('bond_interaction', { targetId, interactionType });
+    public createBondInteraction(targetId: string, type: ClientPayload<'bond_interaction'>['type']) {
+        this.send('bond_interaction', { targetId, type });
     }
 
     /**
-     * Add a shared memory to a bond
+     * Pin a moment from the bond's timeline (see bond_data moments) as a shared memory
      */
-    public addBondMemory(targetId: string, memoryText: string) {
-        this.send('add_bond_memory', { targetId, memoryText });
+    public addBondMemory(targetId: string, momentId: string, memoryText?: string) {
+        this.send('add_bond_memory', { targetId, momentId, memoryText });
     }
 
     /**
@@ -529,7 +819,7 @@ class GameClient extends EventEmitter {
     /**
      * Get realm's star memories (public stars)
      */
-    public getRealmStars(realmId?: string, limit: number = 100) {
+    public getRealmStars(realmId?: RealmId, limit: number = 100) {
         this.send('get_realm_stars', { realmId, limit });
     }
 
@@ -543,7 +833,7 @@ class GameClient extends EventEmitter {
     public sendSnapshot(metadata: {
         x: number;
         y: number;
-        realm: string;
+        realm: RealmId;
         visiblePlayers?: string[];
         visibleEntities?: string[];
         caption?: string;
@@ -585,7 +875,7 @@ class GameClient extends EventEmitter {
     public placeMapMarker(marker: {
         x: number;
         y: number;
-        realm: string;
+        realm: RealmId;
         label?: string;
         icon?: string;
         expiresIn?: number; // seconds, defaults to 300 (5 min)
@@ -603,7 +893,7 @@ class GameClient extends EventEmitter {
     /**
      * Request friend markers for current realm
      */
-    public requestFriendMarkers(realm: string) {
+    public requestFriendMarkers(realm: RealmId) {
         this.send('request_friend_markers', { realm });
     }
 
@@ -710,7 +1000,7 @@ class GameClient extends EventEmitter {
      * Request player's rank on leaderboard
      */
     public requestPlayerRank(category: string = 'xp') {
-        this.send('get_player_rank', { type: category });
+        this.send('request_player_rank', { type: category });
     }
 
     // ═══════════════════════════════════════════════════════════════════════════
@@ -720,16 +1010,8 @@ class GameClient extends EventEmitter {
     /**
      * Save a screenshot to gallery
      */
-    public saveScreenshot(data: {
-        imageRef: string;
-        caption?: string;
-        filter?: string;
-        template?: string;
-        location?: { x: number; y: number; realm: string };
-        visiblePlayers?: string[];
-        isPublic?: boolean;
-    }) {
-        this.send('gallery:save', data);
+    public saveScreenshot(data: ClientPayload<'gallery:save'>['data']) {
+        this.send('gallery:save', { data });
     }
 
     /**
@@ -741,7 +1023,7 @@ class GameClient extends EventEmitter {
         sortBy?: 'recent' | 'popular';
         filter?: string;
     }) {
-        this.send('gallery:get', options || {});
+        this.send('gallery:get', { data: options });
     }
 
     /**
@@ -786,9 +1068,9 @@ class GameClient extends EventEmitter {
         limit?: number;
         offset?: number;
         sortBy?: 'recent' | 'popular';
-        realm?: string;
+        realm?: RealmId;
     }) {
-        this.send('gallery:getPublic', options || {});
+        this.send('gallery:getPublic', { data: options });
     }
 
     /**
@@ -844,7 +1126,7 @@ class GameClient extends EventEmitter {
     public formConstellation(data: {
         playerIds: string[];
         starMemoryIds: string[];
-        realmId: string;
+        realmId: RealmId;
         name?: string;
         description?: string;
     }) {
@@ -855,7 +1137,7 @@ class GameClient extends EventEmitter {
      * Expand a constellation
      */
     public expandConstellation(constellationId: string, newStarMemoryIds: string[]) {
-        this.send('constellation:expand', { constellationId, newStarMemoryIds });
+        this.send('constellation:expand', { constellationId, data: { newStarMemoryIds } });
     }
 
     /**
@@ -875,7 +1157,7 @@ class GameClient extends EventEmitter {
     /**
      * Get constellations in a realm
      */
-    public getRealmConstellations(realmId: string, limit?: number) {
+    public getRealmConstellations(realmId: RealmId, limit?: number) {
         this.send('constellation:getRealm', { realmId, data: { limit } });
     }
 
@@ -929,17 +1211,100 @@ class GameClient extends EventEmitter {
     // CORE METHODS
     // ═══════════════════════════════════════════════════════════════════════════
 
-    private send(type: string, data: any) {
+    /**
+     * Subscribe to a server message or one of the client's own events
+     */
+    public on<E extends GameClientEvent>(event: E, listener: (data: GameClientEventData<E>) => void) {
+        return super.on(event, listener);
+    }
+
+    public off<E extends GameClientEvent>(event: E, listener: (data: GameClientEventData<E>) => void) {
+        super.off(event, listener);
+    }
+
+    private send<T extends ClientMessageType>(type: T, data: ClientPayload<T>) {
         if (this.ws?.readyState === WebSocket.OPEN) {
             // Track ping time for latency measurement
             if (type === 'ping') {
                 this.lastPingTime = Date.now();
             }
+            if (this.codec === 'binary' && BINARY_MESSAGE_TYPES.has(type)) {
+                const frame = encodeBinaryMessage({ type, data });
+                if (frame) {
+                    this.ws.send(frame);
+                    return;
+                }
+            }
             this.ws.send(JSON.stringify({ type, data, timestamp: Date.now() }));
         }
     }
 
+    /**
+     * Decode a binary frame. A frame we cannot read means the server speaks a
+     * different codec version: use JSON from the next connection on.
+     */
+    private handleBinaryFrame(buffer: ArrayBuffer) {
+        try {
+            this.handleMessage(decodeBinaryMessage(new Uint8Array(buffer)));
+        } catch (e) {
+            console.error('Failed to decode binary WS message - falling back to JSON', e);
+            this.binaryEnabled = false;
+            this.codec = 'json';
+            this.ws?.close();
+        }
+    }
+
     private handleMessage(msg: WebSocketMessage) {
+        // Rebuild world_state from deltas; listeners only ever see full state
+        if (msg.type === 'world_delta') {
+            this.handleWorldDelta(msg.data as WorldDeltaData, msg.timestamp);
+            return;
+        }
+
+        // Reliable messages: acknowledge, and skip the ones a replay repeats
+        if (typeof msg.seq === 'number') {
+            if (msg.seq <= this.lastReliableSeq) return;
+            this.lastReliableSeq = msg.seq;
+            this.send('reliable_ack', { seq: msg.seq });
+        }
+
+        if (msg.type === 'initial_state') {
+            this.worldReplica.reset();
+            this.netcode.reset();
+            this.resumeToken = null;
+            this.droppedAt = null;
+            const resume = msg.data?.resume;
+            if (resume?.token) {
+                this.reattach = { token: resume.token, graceMs: resume.graceMs };
+                // A new connection numbers its reliable messages from 1 again
+                if (resume.newSession) this.lastReliableSeq = 0;
+            }
+            // Servers without binary support don't confirm it
+            this.codec = this.binaryEnabled && msg.data?.codec === 'binary' ? 'binary' : 'json';
+        }
+
+        // Server is going down: come back to the next one where we were
+        if (msg.type === 'server_restarting' && msg.data?.resumeToken) {
+            this.reattach = null;
+            this.setSession(msg.data.session as SessionInfo);
+            this.resumeToken = msg.data.resumeToken;
+            this.nextReconnectDelay = msg.data.reconnectIn ?? null;
+        }
+
+        if (msg.type === 'realm_handoff' && msg.data?.session) {
+            this.handleRealmHandoff(msg.data);
+        }
+
+        // Locked or full realm: the server kept us where we were
+        if (msg.type === 'realm_denied' && msg.data?.realm) {
+            this.realm = msg.data.realm as RealmId;
+        }
+
+        if (msg.type === 'session_refreshed' && msg.data?.token) {
+            this.setSession(msg.data as SessionInfo);
+            this.scheduleSessionRefresh();
+        }
+
         // DEBUG: Log all incoming messages except ping/pong and frequent world_state
         if (msg.type !== 'pong' && msg.type !== 'world_state') {
             console.log(`🟢 [GameClient] RECEIVED type=${msg.type}`, msg.data);
@@ -956,6 +1321,7 @@ class GameClient extends EventEmitter {
         if (msg.type === 'pong') {
             if (this.lastPingTime > 0) {
                 this._latency = Date.now() - this.lastPingTime;
+                this.netcode.setLatency(this._latency);
                 this.emit('latency_update', { latency: this._latency });
             }
         }
@@ -970,6 +1336,8 @@ class GameClient extends EventEmitter {
             this._nearbyPlayerCount = playerCount;
             this.emit('nearby_count_update', { count: this._nearbyPlayerCount });
 
+            this.bufferSnapshot(msg.data);
+
             // DEBUG: Log world_state receipt occasionally
             if (Math.random() < 0.02) {
                 console.log(`🌍 [GameClient] world_state: ${Array.isArray(players) ? players.length : Object.keys(players).length} players, ${msg.data.bots?.length || 0} bots`);
@@ -979,6 +1347,51 @@ class GameClient extends EventEmitter {
         this.emit(msg.type, msg.data);
     }
 
+    /**
+     * Apply a world delta, acknowledge it and re-emit as world_state
+     */
+    private handleWorldDelta(delta: WorldDeltaData, timestamp: number) {
+        const worldState = this.worldReplica.apply(delta);
+        if (!worldState) {
+            // Missing base tick - ask the server for a fresh keyframe (once)
+            if (!this.awaitingKeyframe) {
+                this.awaitingKeyframe = true;
+                this.requestWorldState();
+            }
+            return;
+        }
+        this.awaitingKeyframe = false;
+
+        this.send('world_state_ack', { tick: delta.tick });
+        this.handleMessage({ type: 'world_state', data: worldState, timestamp });
+    }
+
+    /**
+     * Hand remote entity positions to the interpolation buffer
+     */
+    private bufferSnapshot(state: any) {
+        if (typeof state.serverTime !== 'number') return;
+
+        const list = (value: any) => Array.isArray(value) ? value : [];
+        const entities = [...list(state.players), ...list(state.bots)]
+            .filter((e: any) => e.id !== this.playerId && typeof e.x === 'number' && typeof e.y === 'number');
+        const now = Date.now();
+        this.netcode.pushSnapshot(state.serverTime, entities, now);
+
+        if (now - this.lastStatsAt >= NETWORK_STATS_INTERVAL) {
+            this.lastStatsAt = now;
+            this.emit('network_stats', this.netcode.getStats());
+        }
+    }
+
+    /**
+     * Whether the server should still be holding our dropped connection
+     */
+    private canReattach(): boolean {
+        return this.reattach !== null && this.droppedAt !== null &&
+            Date.now() - this.droppedAt < this.reattach.graceMs;
+    }
+
     private startHeartbeat() {
         this.stopHeartbeat();
         // Send ping every 5 seconds for more responsive latency tracking
@@ -995,10 +1408,12 @@ class GameClient extends EventEmitter {
 
     private attemptReconnect() {
         if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+        const delay = this.nextReconnectDelay ?? 2000;
+        this.nextReconnectDelay = null;
         this.reconnectTimer = setTimeout(() => {
             console.log('Reconnecting...');
-            this.connect(this.playerId, this.realm);
-        }, 2000);
+            this.connect(this.requestedPlayerId, this.realm);
+        }, delay);
     }
 }
 
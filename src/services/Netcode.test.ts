@@ -0,0 +1,101 @@
+// ═══════════════════════════════════════════════════════════════════════════
+// AVESTELLA - Netcode Unit Tests
+// ═══════════════════════════════════════════════════════════════════════════
+
+import { describe, it, expect } from 'vitest';
+import { Netcode } from './Netcode';
+
+const TICK = 50;
+
+describe('Netcode interpolation', () => {
+  it('should move remote entities smoothly even when snapshots arrive bunched up', () => {
+    const netcode = new Netcode({ interpolationDelay: 100 });
+
+    // Entity moves 10 units per tick; ticks 3 and 4 arrive together, late
+    const arrivals = [[0, 20], [1, 70], [2, 120], [3, 230], [4, 230], [5, 270]];
+    const positions: number[] = [];
+    for (let now = 150; now <= 250; now += 25) {
+      while (arrivals.length > 0 && arrivals[0][1] <= now) {
+        const [tick, receivedAt] = arrivals.shift()!;
+        netcode.pushSnapshot(tick * TICK, [{ id: 'p', x: tick * 10, y: 0 }], receivedAt);
+      }
+      positions.push(netcode.sample('p', now)!.x);
+    }
+
+    // Render clock runs 20ms (best transit) + 100ms behind server time;
+    // the gap before the bunch is bridged by extrapolation
+    expect(positions).toEqual([6, 11, 16, 21, 26]);
+    expect(netcode.getStats().jitter).toBeGreaterThan(0);
+  });
+
+  it('should slot late snapshots into place and ignore duplicates', () => {
+    const netcode = new Netcode({ interpolationDelay: 0 });
+    netcode.pushSnapshot(0, [{ id: 'p', x: 0, y: 0 }], 0);
+    netcode.pushSnapshot(100, [{ id: 'p', x: 20, y: 0 }], 100);
+    netcode.pushSnapshot(50, [{ id: 'p', x: 10, y: 0 }], 130);
+    netcode.pushSnapshot(50, [{ id: 'p', x: 999, y: 0 }], 140);
+
+    expect(netcode.sample('p', 75)!.x).toBe(15);
+    expect(netcode.getStats().bufferedSnapshots).toBe(3);
+  });
+
+  it('should extrapolate past the newest snapshot only up to the limit', () => {
+    const netcode = new Netcode({ interpolationDelay: 0, maxExtrapolation: 100 });
+    netcode.pushSnapshot(0, [{ id: 'p', x: 0, y: 0 }], 0);
+    netcode.pushSnapshot(50, [{ id: 'p', x: 0, y: 10 }], 50);
+
+    expect(netcode.sample('p', 100)).toEqual({ x: 0, y: 20, extrapolated: true });
+    expect(netcode.getStats().extrapolating).toBe(1);
+    expect(netcode.sample('p', 500)).toEqual({ x: 0, y: 30, extrapolated: true });
+
+    // Fresh data ends the guesswork
+    netcode.pushSnapshot(100, [{ id: 'p', x: 0, y: 15 }], 100);
+    netcode.pushSnapshot(150, [{ id: 'p', x: 0, y: 20 }], 150);
+    expect(netcode.sample('p', 125)).toEqual({ x: 0, y: 17.5, extrapolated: false });
+    expect(netcode.getStats().extrapolating).toBe(0);
+  });
+
+  it('should know nothing about entities that were never in a snapshot', () => {
+    const netcode = new Netcode();
+    expect(netcode.sample('p', 0)).toBeNull();
+    netcode.pushSnapshot(0, [{ id: 'q', x: 0, y: 0 }], 0);
+    expect(netcode.sample('p', 0)).toBeNull();
+  });
+});
+
+describe('Netcode prediction', () => {
+  it('should replay inputs sent after the corrected one', () => {
+    const netcode = new Netcode();
+    netcode.recordInput(100, 100, 0);
+    const rejected = netcode.recordInput(400, 100, 50);
+    netcode.recordInput(410, 100, 100);
+    netcode.recordInput(420, 105, 150);
+
+    // Server clamps input 2 to x=150; we've since walked 5 more units
+    const corrected = netcode.reconcile({ x: 150, y: 100, seq: rejected }, { x: 425, y: 105 });
+
+    expect(corrected).toEqual({ x: 175, y: 105 });
+    expect(netcode.getStats()).toMatchObject({ pendingInputs: 2, corrections: 1 });
+
+    // The next input continues from the replayed position
+    netcode.recordInput(180, 105, 200);
+    expect(netcode.reconcile({ x: 170, y: 105, seq: rejected + 2 }, { x: 180, y: 105 })).toEqual({ x: 180, y: 105 });
+  });
+
+  it('should snap to the server position when the correction has no sequence', () => {
+    const netcode = new Netcode();
+    netcode.recordInput(100, 100, 0);
+    netcode.recordInput(400, 100, 50);
+
+    expect(netcode.reconcile({ x: 150, y: 100 }, { x: 400, y: 100 })).toEqual({ x: 150, y: 100 });
+    expect(netcode.getStats().pendingInputs).toBe(0);
+  });
+
+  it('should forget inputs older than the replay window', () => {
+    const netcode = new Netcode({ inputHistory: 1000 });
+    netcode.recordInput(0, 0, 0);
+    netcode.recordInput(10, 0, 500);
+    netcode.recordInput(20, 0, 1200);
+    expect(netcode.getStats().pendingInputs).toBe(2);
+  });
+});
@@ -0,0 +1,290 @@
+/**
+ * Netcode - snapshot interpolation for remote entities and prediction for
+ * the local player
+ *
+ * Remote players and bots are drawn a fixed `interpolationDelay` behind the
+ * newest server snapshot, between the two buffered snapshots around that
+ * time. Snapshots are placed on the timeline by their `serverTime`, not by
+ * when they arrived, so jitter and bunched packets don't show as stutter.
+ * When the buffer runs dry an entity keeps its last velocity for at most
+ * `maxExtrapolation` ms, then holds still until the next snapshot.
+ *
+ * The local player moves immediately. Every player_update carries an input
+ * sequence number; when the server answers with position_correction for
+ * input N, we move to the server position and replay the movement of every
+ * input sent after N on top of it.
+ */
+
+export interface EntityPosition {
+    x: number;
+    y: number;
+}
+
+export interface SnapshotEntity extends EntityPosition {
+    id: string;
+}
+
+export interface InterpolatedPosition extends EntityPosition {
+    extrapolated: boolean;
+}
+
+export interface PositionCorrection extends EntityPosition {
+    seq?: number;
+}
+
+export interface NetcodeOptions {
+    /** How far behind the newest snapshot remote entities are drawn (ms) */
+    interpolationDelay?: number;
+    /** Longest an entity keeps moving past its last snapshot (ms) */
+    maxExtrapolation?: number;
+    /** Snapshots kept for interpolation */
+    bufferSize?: number;
+    /** Inputs older than this are dropped from the replay history (ms) */
+    inputHistory?: number;
+    now?: () => number;
+}
+
+/**
+ * What NetworkStatusHUD shows
+ */
+export interface NetworkStats {
+    /** Ping round trip (ms) */
+    latency: number;
+    /** Smoothed variation in snapshot arrival times (ms) */
+    jitter: number;
+    interpolationDelay: number;
+    bufferedSnapshots: number;
+    /** Remote entities currently drawn past their last snapshot */
+    extrapolating: number;
+    /** Recent inputs kept for replay after a correction */
+    pendingInputs: number;
+    corrections: number;
+}
+
+interface Snapshot {
+    serverTime: number;
+    entities: Map<string, EntityPosition>;
+}
+
+interface PendingInput {
+    seq: number;
+    sentAt: number;
+    dx: number;
+    dy: number;
+}
+
+const DEFAULT_INTERPOLATION_DELAY = 100;    // Two server ticks
+const DEFAULT_MAX_EXTRAPOLATION = 250;
+const DEFAULT_BUFFER_SIZE = 32;
+const DEFAULT_INPUT_HISTORY = 1000;         // MovementAuthority's burst window
+const JITTER_SMOOTHING = 1 / 16;            // RFC 3550 interarrival jitter
+
+export class Netcode {
+    private readonly interpolationDelay: number;
+    private readonly maxExtrapolation: number;
+    private readonly bufferSize: number;
+    private readonly inputHistory: number;
+    private readonly now: () => number;
+
+    // Snapshots ordered by serverTime
+    private snapshots: Snapshot[] = [];
+    // Arrival time minus serverTime per buffered snapshot; the smallest is the
+    // least delayed packet and anchors the render clock
+    private arrivalOffsets: number[] = [];
+    private lastArrival: { serverTime: number; receivedAt: number } | null = null;
+    private jitter = 0;
+    private latency = 0;
+    private extrapolating = new Set<string>();
+
+    private nextSeq = 1;
+    private pendingInputs: PendingInput[] = [];
+    private lastInput: EntityPosition | null = null;
+    private corrections = 0;
+
+    constructor(options: NetcodeOptions = {}) {
+        this.interpolationDelay = options.interpolationDelay ?? DEFAULT_INTERPOLATION_DELAY;
+        this.maxExtrapolation = options.maxExtrapolation ?? DEFAULT_MAX_EXTRAPOLATION;
+        this.bufferSize = options.bufferSize ?? DEFAULT_BUFFER_SIZE;
+        this.inputHistory = options.inputHistory ?? DEFAULT_INPUT_HISTORY;
+        this.now = options.now ?? (() => Date.now());
+    }
+
+    // ═══════════════════════════════════════════════════════════════════════
+    // REMOTE ENTITIES
+    // ═══════════════════════════════════════════════════════════════════════
+
+    /**
+     * Buffer the positions from one world_state. Late snapshots are slotted
+     * into place; duplicates are ignored.
+     */
+    public pushSnapshot(serverTime: number, entities: Iterable<SnapshotEntity>, receivedAt: number = this.now()): void {
+        if (this.snapshots.some(s => s.serverTime === serverTime)) return;
+
+        const positions = new Map<string, EntityPosition>();
+        for (const entity of entities) {
+            positions.set(entity.id, { x: entity.x, y: entity.y });
+        }
+
+        let index = this.snapshots.length;
+        while (index > 0 && this.snapshots[index - 1].serverTime > serverTime) index--;
+        this.snapshots.splice(index, 0, { serverTime, entities: positions });
+        this.arrivalOffsets.push(receivedAt - serverTime);
+
+        if (this.lastArrival) {
+            const transit = (receivedAt - this.lastArrival.receivedAt) - (serverTime - this.lastArrival.serverTime);
+            this.jitter += (Math.abs(transit) - this.jitter) * JITTER_SMOOTHING;
+        }
+        this.lastArrival = { serverTime, receivedAt };
+
+        for (const id of this.extrapolating) {
+            if (!positions.has(id)) this.extrapolating.delete(id);
+        }
+
+        while (this.snapshots.length > this.bufferSize) this.snapshots.shift();
+        while (this.arrivalOffsets.length > this.bufferSize) this.arrivalOffsets.shift();
+    }
+
+    /**
+     * Server time currently being drawn
+     */
+    public getRenderTime(now: number = this.now()): number | null {
+        if (this.arrivalOffsets.length === 0) return null;
+        return now - Math.min(...this.arrivalOffsets) - this.interpolationDelay;
+    }
+
+    /**
+     * Where to draw a remote entity now, or null if it isn't in any buffered snapshot
+     */
+    public sample(id: string, now: number = this.now()): InterpolatedPosition | null {
+        const renderTime = this.getRenderTime(now);
+        if (renderTime === null) return null;
+
+        let before: { time: number; position: EntityPosition } | null = null;
+        let previous: { time: number; position: EntityPosition } | null = null;
+        let after: { time: number; position: EntityPosition } | null = null;
+
+        for (const snapshot of this.snapshots) {
+            const position = snapshot.entities.get(id);
+            if (!position) continue;
+            if (snapshot.serverTime <= renderTime) {
+                previous = before;
+                before = { time: snapshot.serverTime, position };
+            } else {
+                after = { time: snapshot.serverTime, position };
+                break;
+            }
+        }
+
+        this.extrapolating.delete(id);
+
+        if (before && after) {
+            const t = (renderTime - before.time) / (after.time - before.time);
+            return {
+                x: before.position.x + (after.position.x - before.position.x) * t,
+                y: before.position.y + (after.position.y - before.position.y) * t,
+                extrapolated: false
+            };
+        }
+
+        // Just appeared: hold at its first known position until we catch up
+        if (after) return { ...after.position, extrapolated: false };
+        if (!before) return null;
+
+        // Ran past the newest snapshot: keep the last velocity for a while
+        const ahead = Math.min(renderTime - before.time, this.maxExtrapolation);
+        if (!previous || ahead <= 0) return { ...before.position, extrapolated: false };
+
+        const span = before.time - previous.time;
+        this.extrapolating.add(id);
+        return {
+            x: before.position.x + (before.position.x - previous.position.x) / span * ahead,
+            y: before.position.y + (before.position.y - previous.position.y) / span * ahead,
+            extrapolated: true
+        };
+    }
+
+    // ═══════════════════════════════════════════════════════════════════════
+    // LOCAL PLAYER
+    // ═══════════════════════════════════════════════════════════════════════
+
+    /**
+     * Record a position we are about to report. Returns its sequence number.
+     */
+    public recordInput(x: number, y: number, sentAt: number = this.now()): number {
+        const seq = this.nextSeq++;
+        const from = this.lastInput ?? { x, y };
+        this.pendingInputs.push({ seq, sentAt, dx: x - from.x, dy: y - from.y });
+        this.lastInput = { x, y };
+
+        const cutoff = sentAt - this.inputHistory;
+        while (this.pendingInputs.length > 0 && this.pendingInputs[0].sentAt < cutoff) {
+            this.pendingInputs.shift();
+        }
+        return seq;
+    }
+
+    /**
+     * Apply a position_correction. `current` is where the player is drawn
+     * now; movement made since the last reported input is kept as well.
+     */
+    public reconcile(correction: PositionCorrection, current: EntityPosition): EntityPosition {
+        this.corrections++;
+
+        // Older servers don't echo the sequence: nothing to replay against
+        const seq = correction.seq;
+        if (seq === undefined) {
+            this.pendingInputs = [];
+            this.lastInput = { x: correction.x, y: correction.y };
+            return { x: correction.x, y: correction.y };
+        }
+
+        const unreported = this.lastInput
+            ? { x: current.x - this.lastInput.x, y: current.y - this.lastInput.y }
+            : { x: 0, y: 0 };
+
+        this.pendingInputs = this.pendingInputs.filter(input => input.seq > seq);
+
+        let x = correction.x;
+        let y = correction.y;
+        for (const input of this.pendingInputs) {
+            x += input.dx;
+            y += input.dy;
+        }
+        this.lastInput = { x, y };
+
+        return { x: x + unreported.x, y: y + unreported.y };
+    }
+
+    // ═══════════════════════════════════════════════════════════════════════
+    // STATS
+    // ═══════════════════════════════════════════════════════════════════════
+
+    public setLatency(latency: number): void {
+        this.latency = latency;
+    }
+
+    public getStats(): NetworkStats {
+        return {
+            latency: this.latency,
+            jitter: Math.round(this.jitter),
+            interpolationDelay: this.interpolationDelay,
+            bufferedSnapshots: this.snapshots.length,
+            extrapolating: this.extrapolating.size,
+            pendingInputs: this.pendingInputs.length,
+            corrections: this.corrections
+        };
+    }
+
+    /**
+     * Forget buffered snapshots and inputs (new connection or realm change)
+     */
+    public reset(): void {
+        this.snapshots = [];
+        this.arrivalOffsets = [];
+        this.lastArrival = null;
+        this.jitter = 0;
+        this.extrapolating.clear();
+        this.pendingInputs = [];
+        this.lastInput = null;
+    }
+}
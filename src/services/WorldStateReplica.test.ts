@@ -0,0 +1,107 @@
+// ═══════════════════════════════════════════════════════════════════════════
+// AVESTELLA - WorldStateReplica Unit Tests
+// ═══════════════════════════════════════════════════════════════════════════
+
+import { describe, it, expect } from 'vitest';
+import { WorldStateReplica, type WorldDeltaData } from './WorldStateReplica';
+import { ReplicationManager } from '../../server/websocket/replication/ReplicationManager';
+
+const keyframe = (tick: number): WorldDeltaData => ({
+  tick,
+  baseTick: null,
+  keyframe: true,
+  serverTime: 1000,
+  collections: {
+    players: { upsert: [{ id: 'a', x: 10, y: 10, name: 'A', message: null }] },
+    fragments: { upsert: [{ id: 'f1', x: 5, y: 5 }, { id: 'f2', x: 6, y: 6 }] },
+  },
+  litStars: { add: ['genesis:1'] },
+});
+
+describe('WorldStateReplica', () => {
+  it('should rebuild full state from a keyframe', () => {
+    const replica = new WorldStateReplica();
+    const state = replica.apply(keyframe(1));
+
+    expect(state?.players).toEqual([{ id: 'a', x: 10, y: 10, name: 'A', message: null }]);
+    expect(state?.fragments.map(f => f.id)).toEqual(['f1', 'f2']);
+    expect(state?.bots).toEqual([]);
+    expect(state?.litStars).toEqual(['genesis:1']);
+  });
+
+  it('should merge changed fields and apply removals', () => {
+    const replica = new WorldStateReplica();
+    replica.apply(keyframe(1));
+
+    const state = replica.apply({
+      tick: 2,
+      baseTick: 1,
+      keyframe: false,
+      serverTime: 1050,
+      collections: {
+        players: { upsert: [{ id: 'a', x: 12, message: 'hi' }, { id: 'b', x: 0, y: 0 }] },
+        fragments: { remove: ['f1'] },
+      },
+      litStars: { add: ['genesis:2'] },
+    });
+
+    expect(state?.players).toEqual([
+      { id: 'a', x: 12, y: 10, name: 'A', message: 'hi' },
+      { id: 'b', x: 0, y: 0 },
+    ]);
+    expect(state?.fragments.map(f => f.id)).toEqual(['f2']);
+    expect(state?.litStars).toEqual(['genesis:1', 'genesis:2']);
+  });
+
+  it('should apply a delta to an older base tick', () => {
+    const replica = new WorldStateReplica();
+    replica.apply(keyframe(1));
+    replica.apply({ tick: 2, baseTick: 1, keyframe: false, serverTime: 0, collections: { players: { remove: ['a'] } } });
+
+    // Server had not seen our ack for tick 2 yet, so it diffed against tick 1
+    const state = replica.apply({
+      tick: 3,
+      baseTick: 1,
+      keyframe: false,
+      serverTime: 0,
+      collections: { players: { remove: ['a'] }, fragments: { upsert: [{ id: 'f3', x: 1, y: 1 }] } },
+    });
+
+    expect(state?.players).toEqual([]);
+    expect(state?.fragments.map(f => f.id)).toEqual(['f1', 'f2', 'f3']);
+  });
+
+  it('should return null when the base tick is unknown', () => {
+    const replica = new WorldStateReplica();
+    expect(replica.apply({ tick: 5, baseTick: 4, keyframe: false, serverTime: 0, collections: {} })).toBeNull();
+
+    replica.apply(keyframe(6));
+    replica.reset();
+    expect(replica.apply({ tick: 7, baseTick: 6, keyframe: false, serverTime: 0, collections: {} })).toBeNull();
+  });
+
+  it('should round-trip server deltas to the interest-filtered state', () => {
+    const manager = new ReplicationManager({ interestRadius: 1500 });
+    const replica = new WorldStateReplica();
+    const viewer = { playerId: 'observer', x: 4000, y: 4000 };
+    let players = Array.from({ length: 30 }, (_, i) => ({
+      id: `p${i}`,
+      x: 4000 + ((i * 379) % 3000) - 1500,
+      y: 4000 + ((i * 211) % 3000) - 1500,
+      name: `P${i}`,
+    }));
+
+    for (let tick = 0; tick < 20; tick++) {
+      const snapshot = { players, bots: [], echoes: [], fragments: [], powerUps: [], beacons: [], litStars: [] };
+      const delta = manager.buildUpdate(viewer, snapshot);
+      const state = replica.apply(delta);
+      manager.acknowledge(viewer.playerId, delta.tick);
+
+      const expected = players.filter(p => Math.hypot(p.x - viewer.x, p.y - viewer.y) <= 1500);
+      const byId = (a: { id: string }, b: { id: string }) => a.id.localeCompare(b.id);
+      expect(state?.players.sort(byId)).toEqual([...expected].sort(byId));
+
+      players = players.map((p, i) => ({ ...p, x: p.x + (i % 5) * 40 - 80, y: p.y + 3 }));
+    }
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * WorldStateReplica - rebuilds full world state from server `world_delta` messages
+ *
+ * The server only sends entities inside our area of interest and only the
+ * fields that changed since the last tick we acknowledged. This class keeps
+ * the reconstructed state for recent ticks so a delta can be applied to
+ * whichever base tick the server chose, and produces the same `world_state`
+ * shape the rest of the client has always consumed.
+ */
+
+export const REPLICATED_COLLECTIONS = ['players', 'bots', 'echoes', 'fragments', 'powerUps', 'beacons'] as const;
+export type ReplicatedCollection = typeof REPLICATED_COLLECTIONS[number];
+
+export interface ReplicatedEntity {
+    id: string;
+    [field: string]: unknown;
+}
+
+export interface CollectionDelta {
+    upsert?: ReplicatedEntity[];
+    remove?: string[];
+}
+
+export interface WorldDeltaData {
+    tick: number;
+    baseTick: number | null;
+    keyframe: boolean;
+    serverTime: number;
+    collections: Partial<Record<ReplicatedCollection, CollectionDelta>>;
+    litStars?: { add?: string[]; remove?: string[] };
+}
+
+/**
+ * Reconstructed world_state payload
+ */
+export type WorldStateData = Record<ReplicatedCollection, ReplicatedEntity[]> & {
+    litStars: string[];
+    serverTime: number;
+    tick: number;
+};
+
+interface ReplicaState {
+    collections: Record<ReplicatedCollection, Map<string, ReplicatedEntity>>;
+    litStars: Set<string>;
+}
+
+// How many reconstructed ticks to keep as potential delta bases
+const MAX_STATES = 64;
+
+export class WorldStateReplica {
+    private states: Map<number, ReplicaState> = new Map();
+    private latestTick = 0;
+
+    /**
+     * Apply a delta. Returns the rebuilt world state, or null when the base
+     * tick is unknown and a full resync is needed.
+     */
+    public apply(delta: WorldDeltaData): WorldStateData | null {
+        let base: ReplicaState | undefined;
+        if (!delta.keyframe) {
+            base = delta.baseTick !== null ? this.states.get(delta.baseTick) : undefined;
+            if (!base) return null;
+        }
+
+        const next = base ? cloneState(base) : emptyState();
+
+        for (const name of REPLICATED_COLLECTIONS) {
+            const change = delta.collections[name];
+            if (!change) continue;
+
+            const entities = next.collections[name];
+            for (const id of change.remove || []) {
+                entities.delete(id);
+            }
+            for (const update of change.upsert || []) {
+                const existing = entities.get(update.id);
+                entities.set(update.id, existing ? { ...existing, ...update } : update);
+            }
+        }
+
+        for (const id of delta.litStars?.remove || []) next.litStars.delete(id);
+        for (const id of delta.litStars?.add || []) next.litStars.add(id);
+
+        if (delta.keyframe) {
+            // A keyframe invalidates every older base
+            this.states.clear();
+        }
+        this.states.set(delta.tick, next);
+        this.latestTick = Math.max(this.latestTick, delta.tick);
+        this.trim();
+
+        return {
+            players: Array.from(next.collections.players.values()),
+            bots: Array.from(next.collections.bots.values()),
+            echoes: Array.from(next.collections.echoes.values()),
+            fragments: Array.from(next.collections.fragments.values()),
+            powerUps: Array.from(next.collections.powerUps.values()),
+            beacons: Array.from(next.collections.beacons.values()),
+            litStars: Array.from(next.litStars),
+            serverTime: delta.serverTime,
+            tick: delta.tick
+        };
+    }
+
+    /**
+     * Forget all state (new connection or realm change)
+     */
+    public reset(): void {
+        this.states.clear();
+        this.latestTick = 0;
+    }
+
+    private trim(): void {
+        for (const tick of this.states.keys()) {
+            if (this.states.size <= MAX_STATES) break;
+            if (tick !== this.latestTick) this.states.delete(tick);
+        }
+    }
+}
+
+function emptyState(): ReplicaState {
+    const collections = {} as ReplicaState['collections'];
+    for (const name of REPLICATED_COLLECTIONS) {
+        collections[name] = new Map();
+    }
+    return { collections, litStars: new Set() };
+}
+
+function cloneState(state: ReplicaState): ReplicaState {
+    const collections = {} as ReplicaState['collections'];
+    for (const name of REPLICATED_COLLECTIONS) {
+        collections[name] = new Map(state.collections[name]);
+    }
+    return { collections, litStars: new Set(state.litStars) };
+}
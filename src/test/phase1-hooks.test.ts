@@ -161,7 +161,7 @@ describe('useGallery', () => {
       result.current.saveScreenshot({
         imageRef: 'https://storage.test/new.png',
         caption: 'New screenshot',
-        isPublic: true
+        location: { x: 0, y: 0, realm: 'genesis' }
       });
     });
     
@@ -1128,126 +1128,19 @@ export interface UseAnalyticsReturn {
 // Player Data & Persistence (Moved from useServerSync.ts)
 // ─────────────────────────────────────────────────────────────────────────────
 
-export interface PlayerStats {
-  starsLit: number;
-  echoesCreated: number;
-  sings: number;
-  pulses: number;
-  emotes: number;
-  teleports: number;
-  whispersSent: number;
-  connections: number;
-  fragmentsCollected: number;
-  beaconsLit: number;
-  bondsFormed: number;
-  giftsGiven: number;
-  giftsReceived: number;
-  challengesCompleted: number;
-  weeklyChallengesCompleted: number;
-  questsCompleted: number;
-}
-
-export interface PlayerSettings {
-  musicEnabled: boolean;
-  soundEnabled: boolean;
-  masterVolume: number;
-  musicVolume: number;
-  sfxVolume: number;
-  particlesEnabled: boolean;
-  screenShake: boolean;
-  reducedMotion: boolean;
-  colorblindMode: string | null;
-  highContrast: boolean;
-  notifications: boolean;
-  autoSave: boolean;
-}
-
-export interface PlayerCosmetics {
-  ownedItems: string[];
-  equippedTrail: string | null;
-  equippedAura: string | null;
-  equippedTitle: string | null;
-  equippedEmotes: string[];
-  equippedPulseEffect: string | null;
-}
-
-export interface PlayerCompanions {
-  ownedIds: string[];
-  activeId: string | null;
-  companionLevels: { [key: string]: number };
-  companionXp: { [key: string]: number };
-}
-
-export interface PlayerExploration {
-  discoveredAreas: string[];
-  visitedRealms: string[];
-  totalDistance: number;
-  explorationPercent: number;
-  discoveries: { id: string; type: string; timestamp: number }[];
-  x?: number;
-  y?: number;
-}
-
-export interface PlayerQuests {
-  activeQuestIds: string[];
-  completedQuestIds: string[];
-  questProgress: Record<string, number>;
-}
-
-export interface PlayerAnchoring {
-  breathingCompleted: number;
-  lastAnchorDate: string | null;
-  preferredProvider: string | null;
-  sessionHistory: { type: string; duration: number; timestamp: number }[];
-}
-
-export interface PlayerGameState {
-  lastRealm: string;
-  lastPosition: { x: number; y: number };
-  litBeacons: string[];
-  bonds: { targetId: string; strength: number; type: string }[];
-  starMemories: { starId: string; memory: string; timestamp: number }[];
-}
-
-export interface PlayerLeaderboard {
-  rankPoints: number;
-  weeklyXp: number;
-  weeklyWins: number;
-  monthlyXp: number;
-  peakRank: string;
-}
-
-export interface FullPlayerData {
-  playerId: string;
-  name: string;
-  hue: number;
-  avatar: string;
-  xp: number;
-  level: number;
-  stardust: number;
-  lifetimeStardust: number;
-  seasonId: string;
-  seasonXp: number;
-  seasonLevel: number;
-  seasonTier: number;
-  claimedSeasonRewards: number[];
-  dailyLoginStreak: number;
-  longestStreak: number;
-  totalLogins: number;
-  lastLoginDate: string | null;
-  currentMonth: string | null;
-  claimedDailyRewards: number[];
-  stats: PlayerStats;
-  achievements: string[];
-  cosmetics: PlayerCosmetics;
-  companions: PlayerCompanions;
-  exploration: PlayerExploration;
-  quests: PlayerQuests;
-  anchoring: PlayerAnchoring;
-  gameState: PlayerGameState;
-  leaderboard: PlayerLeaderboard;
-  settings: PlayerSettings;
-}
+// The player_data payload, shared with the server
+export type {
+  PlayerStats,
+  PlayerSettings,
+  PlayerCosmetics,
+  PlayerCompanions,
+  PlayerExploration,
+  PlayerQuests,
+  PlayerAnchoring,
+  PlayerGameState,
+  PlayerLeaderboard,
+  PlayerDataPayload as FullPlayerData,
+} from '../../server/common/protocol';
 
 export interface DailyLoginResult {
   isNewDay: boolean;
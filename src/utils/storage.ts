@@ -166,6 +166,9 @@ export const STORAGE_KEYS = {
   TUTORIAL_COMPLETED: 'tutorial_completed',
   TUTORIAL_STEP: 'tutorial_step',
 
+  // Session (secret proving ownership of the player id)
+  SESSION_SECRET: 'session_secret',
+
   // Social
   PLAYER_NAME: 'player_name',
   PLAYER_AVATAR: 'player_avatar',